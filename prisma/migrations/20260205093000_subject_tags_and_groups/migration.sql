@@ -0,0 +1,96 @@
+-- CreateTable
+CREATE TABLE "Tag" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "ownerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Tag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SubjectGroup" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "ownerId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SubjectGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_SubjectToTag" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_SubjectToTag_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateTable
+CREATE TABLE "_SubjectToSubjectGroup" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_SubjectToSubjectGroup_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "Tag_ownerId_idx" ON "Tag"("ownerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Tag_ownerId_name_key" ON "Tag"("ownerId", "name");
+
+-- CreateIndex
+CREATE INDEX "SubjectGroup_ownerId_idx" ON "SubjectGroup"("ownerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubjectGroup_ownerId_name_key" ON "SubjectGroup"("ownerId", "name");
+
+-- CreateIndex
+CREATE INDEX "_SubjectToTag_B_index" ON "_SubjectToTag"("B");
+
+-- CreateIndex
+CREATE INDEX "_SubjectToSubjectGroup_B_index" ON "_SubjectToSubjectGroup"("B");
+
+-- AddForeignKey
+ALTER TABLE "Tag" ADD CONSTRAINT "Tag_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SubjectGroup" ADD CONSTRAINT "SubjectGroup_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_SubjectToTag" ADD CONSTRAINT "_SubjectToTag_A_fkey" FOREIGN KEY ("A") REFERENCES "Subject"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_SubjectToTag" ADD CONSTRAINT "_SubjectToTag_B_fkey" FOREIGN KEY ("B") REFERENCES "Tag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_SubjectToSubjectGroup" ADD CONSTRAINT "_SubjectToSubjectGroup_A_fkey" FOREIGN KEY ("A") REFERENCES "Subject"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_SubjectToSubjectGroup" ADD CONSTRAINT "_SubjectToSubjectGroup_B_fkey" FOREIGN KEY ("B") REFERENCES "SubjectGroup"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- MigrateData: move JSON tags from "Subject"."tags" into "Tag" rows and links
+CREATE TEMP TABLE "_subject_tag_names" AS
+SELECT DISTINCT s."id" AS "subjectId", s."ownerId", btrim(t.value) AS "name"
+FROM "Subject" s
+CROSS JOIN LATERAL json_array_elements_text(s."tags"::json) AS t(value)
+WHERE s."tags" IS NOT NULL AND s."tags" LIKE '[%' AND btrim(t.value) <> '';
+
+INSERT INTO "Tag" ("id", "name", "ownerId", "updatedAt")
+SELECT gen_random_uuid()::text, n."name", n."ownerId", CURRENT_TIMESTAMP
+FROM (SELECT DISTINCT "ownerId", "name" FROM "_subject_tag_names") n;
+
+INSERT INTO "_SubjectToTag" ("A", "B")
+SELECT n."subjectId", t."id"
+FROM "_subject_tag_names" n
+JOIN "Tag" t ON t."ownerId" = n."ownerId" AND t."name" = n."name"
+ON CONFLICT DO NOTHING;
+
+DROP TABLE "_subject_tag_names";
+
+-- AlterTable
+ALTER TABLE "Subject" DROP COLUMN "tags";
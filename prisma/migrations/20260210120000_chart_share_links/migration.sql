@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "ChartShareLink" (
+    "id" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "savedChartId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "snapshot" TEXT NOT NULL,
+    "includeNotes" BOOLEAN NOT NULL DEFAULT true,
+    "passwordHash" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "viewCount" INTEGER NOT NULL DEFAULT 0,
+    "lastViewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChartShareLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChartShareLink_tokenHash_key" ON "ChartShareLink"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "ChartShareLink_savedChartId_idx" ON "ChartShareLink"("savedChartId");
+
+-- CreateIndex
+CREATE INDEX "ChartShareLink_userId_idx" ON "ChartShareLink"("userId");
+
+-- AddForeignKey
+ALTER TABLE "ChartShareLink" ADD CONSTRAINT "ChartShareLink_savedChartId_fkey" FOREIGN KEY ("savedChartId") REFERENCES "SavedChart"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChartShareLink" ADD CONSTRAINT "ChartShareLink_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
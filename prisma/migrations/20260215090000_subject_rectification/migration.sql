@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "LifeEvent" (
+    "id" TEXT NOT NULL,
+    "subjectId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LifeEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BirthTimeRectification" (
+    "id" TEXT NOT NULL,
+    "subjectId" TEXT NOT NULL,
+    "previousBirthDatetime" TIMESTAMP(3) NOT NULL,
+    "birthDatetime" TIMESTAMP(3) NOT NULL,
+    "previousRodensRating" TEXT,
+    "rodensRating" TEXT,
+    "note" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BirthTimeRectification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LifeEvent_subjectId_idx" ON "LifeEvent"("subjectId");
+
+-- CreateIndex
+CREATE INDEX "BirthTimeRectification_subjectId_idx" ON "BirthTimeRectification"("subjectId");
+
+-- AddForeignKey
+ALTER TABLE "LifeEvent" ADD CONSTRAINT "LifeEvent_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "Subject"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BirthTimeRectification" ADD CONSTRAINT "BirthTimeRectification_subjectId_fkey" FOREIGN KEY ("subjectId") REFERENCES "Subject"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ChartPreferences" ADD COLUMN     "chart_layout" TEXT DEFAULT 'western';
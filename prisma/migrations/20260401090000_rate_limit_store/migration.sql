@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "RateLimitEntry" (
+    "key" TEXT NOT NULL,
+    "hits" TIMESTAMP(3)[],
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RateLimitEntry_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateTable
+CREATE TABLE "LoginLockout" (
+    "key" TEXT NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "firstAttemptAt" TIMESTAMP(3) NOT NULL,
+    "lockedUntil" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LoginLockout_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "RateLimitEntry_expiresAt_idx" ON "RateLimitEntry"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "LoginLockout_expiresAt_idx" ON "LoginLockout"("expiresAt");
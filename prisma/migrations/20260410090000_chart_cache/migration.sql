@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "ChartCacheEntry" (
+    "key" TEXT NOT NULL,
+    "chartType" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChartCacheEntry_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateTable
+CREATE TABLE "ChartCacheStats" (
+    "id" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "chartType" TEXT NOT NULL,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "misses" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ChartCacheStats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ChartCacheEntry_expiresAt_idx" ON "ChartCacheEntry"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "ChartCacheStats_date_idx" ON "ChartCacheStats"("date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChartCacheStats_date_chartType_key" ON "ChartCacheStats"("date", "chartType");
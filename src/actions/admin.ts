@@ -8,6 +8,21 @@ import { createAdminSession, deleteAdminSession, getAdminSession, getClientIp }
 import { verifyRecaptcha } from '@/lib/security/recaptcha'
 import { withAdminAuth, withSuperAdminAuth } from '@/lib/security/admin-auth'
 import { checkAccountLockout, recordFailedLogin, clearFailedLogins } from '@/lib/security/rate-limit'
+import {
+  TOTP_ISSUER,
+  clearPendingTwoFactor,
+  confirmTotpSecret,
+  getPendingTwoFactor,
+  isAdminTwoFactorRequired,
+  issueRecoveryCodes,
+  recordFailedTwoFactorAttempt,
+  resetTwoFactor,
+  startPendingTwoFactor,
+  verifyTwoFactorCode,
+  type PendingTwoFactor,
+} from '@/lib/security/two-factor'
+import { buildTotpUri, generateTotpSecret } from '@/lib/security/totp'
+import type { TotpSetup, TwoFactorStep } from '@/lib/two-factor/types'
 
 /**
  * Admin Server Actions
@@ -36,8 +51,12 @@ const AdminLoginSchema = z.object({
 
 /**
  * Admin login with reCAPTCHA verification
+ *
+ * Admins with two-factor authentication, and every admin while the security
+ * policy requires it, get `data.twoFactor` instead of a session and finish
+ * with `verifyAdminTwoFactor` or `confirmAdminTwoFactorSetup`.
  */
-export async function adminLogin(formData: FormData): Promise<ActionResult> {
+export async function adminLogin(formData: FormData): Promise<ActionResult<{ twoFactor: TwoFactorStep }>> {
   const username = formData.get('username') as string
   const password = formData.get('password') as string
   const recaptchaToken = formData.get('recaptchaToken') as string
@@ -55,7 +74,7 @@ export async function adminLogin(formData: FormData): Promise<ActionResult> {
   }
 
   // Account lockout check (brute-force protection)
-  const lockoutStatus = checkAccountLockout(validation.data.username)
+  const lockoutStatus = await checkAccountLockout(validation.data.username)
   if (lockoutStatus.locked) {
     const minutes = Math.ceil((lockoutStatus.remainingSeconds || 0) / 60)
     return {
@@ -71,7 +90,7 @@ export async function adminLogin(formData: FormData): Promise<ActionResult> {
 
   if (!admin) {
     // Record failed attempt for brute-force tracking
-    recordFailedLogin(validation.data.username)
+    await recordFailedLogin(validation.data.username)
     // Don't reveal if username exists
     return { success: false, error: 'Invalid credentials' }
   }
@@ -80,7 +99,7 @@ export async function adminLogin(formData: FormData): Promise<ActionResult> {
   const isPasswordValid = await bcrypt.compare(validation.data.password, admin.password)
   if (!isPasswordValid) {
     // Record failed attempt for brute-force tracking
-    recordFailedLogin(validation.data.username)
+    await recordFailedLogin(validation.data.username)
     // Log failed attempt
     const ipAddress = await getClientIp()
     await prisma.adminAuditLog.create({
@@ -94,15 +113,152 @@ export async function adminLogin(formData: FormData): Promise<ActionResult> {
     return { success: false, error: 'Invalid credentials' }
   }
 
-  // Clear failed login attempts on successful login
-  clearFailedLogins(validation.data.username)
+  // Second factor: verify it, or set it up first when the policy requires one.
+  // Failed attempts are only cleared once it is verified, so codes cannot be
+  // guessed by entering the password again
+  if (admin.totpEnabledAt) {
+    await startPendingTwoFactor({ kind: 'admin', id: admin.id }, 'login')
+    return { success: true, data: { twoFactor: 'verify' } }
+  }
+  if (await isAdminTwoFactorRequired()) {
+    await startPendingTwoFactor({ kind: 'admin', id: admin.id }, 'enroll')
+    return { success: true, data: { twoFactor: 'enroll' } }
+  }
+
+  await clearFailedLogins(admin.username)
+  await createAdminSession(admin.id, admin.username, admin.role as 'admin' | 'superadmin')
+
+  return { success: true }
+}
+
+/**
+ * Count a wrong second factor against the pending admin login and the
+ * account lockout
+ */
+async function failAdminTwoFactor(pending: PendingTwoFactor, username: string): Promise<ActionResult<never>> {
+  await recordFailedLogin(username)
+  const ipAddress = await getClientIp()
+  await prisma.adminAuditLog.create({
+    data: {
+      adminId: pending.account.id,
+      action: 'login_failed',
+      details: JSON.stringify({ reason: 'invalid_two_factor_code' }),
+      ipAddress,
+    },
+  })
+
+  const remaining = await recordFailedTwoFactorAttempt(pending)
+  if (remaining === 0) {
+    return { success: false, error: 'Too many failed attempts. Please sign in again.' }
+  }
+  return { success: false, error: `Invalid code. ${remaining} attempt${remaining === 1 ? '' : 's'} left.` }
+}
+
+/**
+ * Pending admin login of this browser with its admin, for the given step
+ */
+async function loadPendingAdminLogin(purpose: 'login' | 'enroll') {
+  const pending = await getPendingTwoFactor('admin')
+  if (!pending || pending.purpose !== purpose) return null
+
+  const admin = await prisma.adminUser.findUnique({ where: { id: pending.account.id } })
+  if (!admin) return null
+
+  const lockoutStatus = await checkAccountLockout(admin.username)
+  if (lockoutStatus.locked) {
+    await clearPendingTwoFactor(pending)
+    return null
+  }
 
-  // Create session
+  return { pending, admin }
+}
+
+/**
+ * Finish an admin login with an authenticator app code or a recovery code
+ */
+export async function verifyAdminTwoFactor(formData: FormData): Promise<ActionResult> {
+  const code = String(formData.get('code') ?? '').trim()
+  if (!code) {
+    return { success: false, error: 'Enter a code from your authenticator app or a recovery code' }
+  }
+
+  const loaded = await loadPendingAdminLogin('login')
+  if (!loaded) {
+    return { success: false, error: 'Your login has expired. Please sign in again.' }
+  }
+  const { pending, admin } = loaded
+
+  const method = await verifyTwoFactorCode(pending.account, code)
+  if (!method) {
+    return failAdminTwoFactor(pending, admin.username)
+  }
+
+  if (method === 'recovery') {
+    const ipAddress = await getClientIp()
+    await prisma.adminAuditLog.create({
+      data: { adminId: admin.id, action: 'recovery_code_used', ipAddress },
+    })
+  }
+
+  await clearPendingTwoFactor(pending)
+  await clearFailedLogins(admin.username)
   await createAdminSession(admin.id, admin.username, admin.role as 'admin' | 'superadmin')
 
   return { success: true }
 }
 
+/**
+ * Start setting up an authenticator app during a login that requires it
+ */
+export async function startAdminTwoFactorSetup(): Promise<ActionResult<TotpSetup>> {
+  const loaded = await loadPendingAdminLogin('enroll')
+  if (!loaded) {
+    return { success: false, error: 'Your login has expired. Please sign in again.' }
+  }
+  const { admin } = loaded
+
+  const secret = generateTotpSecret()
+  await prisma.adminUser.update({ where: { id: admin.id }, data: { totpSecret: secret } })
+
+  return { success: true, data: { secret, uri: buildTotpUri(secret, admin.username, `${TOTP_ISSUER} Admin`) } }
+}
+
+/**
+ * Confirm the authenticator app with a first code and finish the login
+ *
+ * @returns Recovery codes, shown once
+ */
+export async function confirmAdminTwoFactorSetup(
+  formData: FormData,
+): Promise<ActionResult<{ recoveryCodes: string[] }>> {
+  const code = String(formData.get('code') ?? '').trim()
+
+  const loaded = await loadPendingAdminLogin('enroll')
+  if (!loaded) {
+    return { success: false, error: 'Your login has expired. Please sign in again.' }
+  }
+  const { pending, admin } = loaded
+
+  if (!admin.totpSecret) {
+    return { success: false, error: 'Start the setup again to get a new secret' }
+  }
+  if (!(await confirmTotpSecret(pending.account, admin.totpSecret, code))) {
+    return failAdminTwoFactor(pending, admin.username)
+  }
+
+  const recoveryCodes = await issueRecoveryCodes(pending.account)
+  const ipAddress = await getClientIp()
+  await prisma.adminAuditLog.create({
+    data: { adminId: admin.id, action: 'enable_two_factor', ipAddress },
+  })
+
+  await clearPendingTwoFactor(pending)
+  await clearFailedLogins(admin.username)
+  await createAdminSession(admin.id, admin.username, admin.role as 'admin' | 'superadmin')
+
+  return { success: true, data: { recoveryCodes } }
+}
+
 /**
  * Admin logout
  */
@@ -420,6 +576,11 @@ export type ChartTypeKey =
   | 'solar-return'
   | 'lunar-return'
   | 'timeline'
+  | 'progressions'
+  | 'solar-arc'
+  | 'progressed-lunation'
+  | 'multi-wheel'
+  | 'horary'
   | 'now'
 
 export type CalculationsByType = Record<ChartTypeKey, number>
@@ -533,6 +694,11 @@ export async function getUsers(
       'solar-return': 0,
       'lunar-return': 0,
       timeline: 0,
+      progressions: 0,
+      'solar-arc': 0,
+      'progressed-lunation': 0,
+      'multi-wheel': 0,
+      horary: 0,
       now: 0,
     }
 
@@ -612,6 +778,7 @@ export type UserDetail = {
   savedChartsCount: number
   todayAIUsage: number
   pdfExportsTotal: number
+  twoFactorEnabled: boolean
 }
 
 /**
@@ -680,6 +847,7 @@ export async function getUserDetails(userId: string): Promise<ActionResult<UserD
         savedChartsCount: user._count.savedCharts,
         todayAIUsage: todayUsage?.count || 0,
         pdfExportsTotal: pdfExportResult._sum.count || 0,
+        twoFactorEnabled: !!user.twoFactorEnabledAt,
       },
     }
   })
@@ -745,6 +913,36 @@ export async function deleteUser(userId: string): Promise<ActionResult> {
   })
 }
 
+/**
+ * Remove a user's second factors and sign them out everywhere (superadmin only)
+ *
+ * For users who lost their authenticator and recovery codes. They can sign
+ * in with their password alone and set two-factor up again.
+ */
+export async function resetUserTwoFactor(userId: string): Promise<ActionResult> {
+  return withSuperAdminAuth(async (session) => {
+    const user = await prisma.user.findUnique({ where: { id: userId } })
+    if (!user) {
+      return { success: false, error: 'User not found' }
+    }
+
+    await resetTwoFactor({ kind: 'user', id: userId })
+
+    // Log this action
+    const ipAddress = await getClientIp()
+    await prisma.adminAuditLog.create({
+      data: {
+        adminId: session.adminId,
+        action: 'reset_user_two_factor',
+        details: JSON.stringify({ userId, username: user.username }),
+        ipAddress,
+      },
+    })
+
+    return { success: true }
+  })
+}
+
 // ============================================================================
 // AI Usage Statistics
 // ============================================================================
@@ -871,6 +1069,103 @@ export async function createAdminUser(
   })
 }
 
+export type AdminUserSummary = {
+  id: string
+  username: string
+  email: string | null
+  role: 'admin' | 'superadmin'
+  twoFactorEnabled: boolean
+  lastLoginAt: Date | null
+}
+
+export type AdminSecurityOverview = {
+  requireTwoFactor: boolean
+  admins: AdminUserSummary[]
+}
+
+/**
+ * List admin accounts with their two-factor status (superadmin only)
+ */
+export async function getAdminSecurityOverview(): Promise<ActionResult<AdminSecurityOverview>> {
+  return withSuperAdminAuth(async () => {
+    const [admins, requireTwoFactor] = await Promise.all([
+      prisma.adminUser.findMany({ orderBy: { username: 'asc' } }),
+      isAdminTwoFactorRequired(),
+    ])
+
+    return {
+      success: true,
+      data: {
+        requireTwoFactor,
+        admins: admins.map((admin) => ({
+          id: admin.id,
+          username: admin.username,
+          email: admin.email,
+          role: admin.role as 'admin' | 'superadmin',
+          twoFactorEnabled: !!admin.totpEnabledAt,
+          lastLoginAt: admin.lastLoginAt,
+        })),
+      },
+    }
+  })
+}
+
+/**
+ * Require two-factor authentication for every admin (superadmin only)
+ *
+ * Admins without it are asked to set up an authenticator app at their next
+ * login; sessions already open run until they expire.
+ */
+export async function setAdminTwoFactorRequired(required: boolean): Promise<ActionResult> {
+  return withSuperAdminAuth(async (session) => {
+    await prisma.adminSecurityPolicy.upsert({
+      where: { id: 'default' },
+      create: { id: 'default', requireTwoFactor: required },
+      update: { requireTwoFactor: required },
+    })
+
+    // Log this action
+    const ipAddress = await getClientIp()
+    await prisma.adminAuditLog.create({
+      data: {
+        adminId: session.adminId,
+        action: 'update_two_factor_policy',
+        details: JSON.stringify({ requireTwoFactor: required }),
+        ipAddress,
+      },
+    })
+
+    return { success: true }
+  })
+}
+
+/**
+ * Remove an admin's authenticator app and revoke their sessions (superadmin only)
+ */
+export async function resetAdminTwoFactor(adminId: string): Promise<ActionResult> {
+  return withSuperAdminAuth(async (session) => {
+    const admin = await prisma.adminUser.findUnique({ where: { id: adminId } })
+    if (!admin) {
+      return { success: false, error: 'Admin not found' }
+    }
+
+    await resetTwoFactor({ kind: 'admin', id: adminId })
+
+    // Log this action
+    const ipAddress = await getClientIp()
+    await prisma.adminAuditLog.create({
+      data: {
+        adminId: session.adminId,
+        action: 'reset_admin_two_factor',
+        details: JSON.stringify({ targetAdminId: adminId, username: admin.username }),
+        ipAddress,
+      },
+    })
+
+    return { success: true }
+  })
+}
+
 // ============================================================================
 // Calculation Usage Management
 // ============================================================================
@@ -960,6 +1255,66 @@ export async function getCalculationUsageByPeriod(): Promise<ActionResult<Calcul
   })
 }
 
+export type ChartCacheHitRate = {
+  hits: number
+  misses: number
+}
+
+export type ChartCacheStatsResult = {
+  today: ChartCacheHitRate
+  thisWeek: ChartCacheHitRate
+  thisMonth: ChartCacheHitRate
+  allTime: ChartCacheHitRate
+  byTypeThisMonth: ({ type: string } & ChartCacheHitRate)[]
+}
+
+/**
+ * Get server-side chart cache hits and misses by time period
+ */
+export async function getChartCacheStats(): Promise<ActionResult<ChartCacheStatsResult>> {
+  return withAdminAuth(async () => {
+    const now = new Date()
+    const today = now.toISOString().split('T')[0]!
+
+    const sevenDaysAgo = new Date(now)
+    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7)
+    const weekStart = sevenDaysAgo.toISOString().split('T')[0]!
+
+    const thirtyDaysAgo = new Date(now)
+    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30)
+    const monthStart = thirtyDaysAgo.toISOString().split('T')[0]!
+
+    const sum = { hits: true, misses: true } as const
+    const [todayTotal, weekTotal, monthTotal, allTimeTotal, byTypeThisMonth] = await Promise.all([
+      prisma.chartCacheStats.aggregate({ where: { date: today }, _sum: sum }),
+      prisma.chartCacheStats.aggregate({ where: { date: { gte: weekStart } }, _sum: sum }),
+      prisma.chartCacheStats.aggregate({ where: { date: { gte: monthStart } }, _sum: sum }),
+      prisma.chartCacheStats.aggregate({ _sum: sum }),
+      prisma.chartCacheStats.groupBy({
+        by: ['chartType'],
+        where: { date: { gte: monthStart } },
+        _sum: sum,
+      }),
+    ])
+
+    const toHitRate = (total: { _sum: { hits: number | null; misses: number | null } }): ChartCacheHitRate => ({
+      hits: total._sum.hits || 0,
+      misses: total._sum.misses || 0,
+    })
+
+    return {
+      success: true,
+      data: {
+        today: toHitRate(todayTotal),
+        thisWeek: toHitRate(weekTotal),
+        thisMonth: toHitRate(monthTotal),
+        allTime: toHitRate(allTimeTotal),
+        byTypeThisMonth: byTypeThisMonth.map((c) => ({ type: c.chartType, ...toHitRate(c) })),
+      },
+    }
+  })
+}
+
 export type TopUserByCalculations = {
   userId: string
   username: string
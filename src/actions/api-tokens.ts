@@ -0,0 +1,133 @@
+'use server'
+
+import { z } from 'zod'
+import type { PersonalAccessToken } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import { logger } from '@/lib/logging/server'
+import { withAuth, ForbiddenError, NotFoundError, ValidationError } from '@/lib/security/auth'
+import { generateApiToken } from '@/lib/public-api/server'
+import {
+  API_TOKEN_EXPIRY_OPTIONS,
+  API_TOKEN_SCOPES,
+  MAX_API_TOKENS,
+  type ApiTokenScope,
+  type ApiTokenSummary,
+} from '@/lib/public-api/tokens'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Schema for a new personal access token */
+const apiTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(80, 'Max 80 characters'),
+  scopes: z
+    .array(z.enum(API_TOKEN_SCOPES.map((scope) => scope.value) as [ApiTokenScope]))
+    .min(1, 'Choose at least one scope'),
+  expiresInDays: z
+    .number()
+    .nullable()
+    .refine((days) => API_TOKEN_EXPIRY_OPTIONS.some((option) => option.value === days), {
+      message: 'Invalid expiration',
+    }),
+})
+
+export type ApiTokenInput = z.infer<typeof apiTokenSchema>
+
+/** Tokens that can still authenticate requests */
+function activeTokensWhere(userId: string) {
+  return {
+    userId,
+    revokedAt: null,
+    OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+  }
+}
+
+function toApiTokenSummary(token: PersonalAccessToken): ApiTokenSummary {
+  return {
+    id: token.id,
+    name: token.name,
+    tokenPrefix: token.tokenPrefix,
+    scopes: JSON.parse(token.scopes) as ApiTokenScope[],
+    lastUsedAt: token.lastUsedAt,
+    expiresAt: token.expiresAt,
+    createdAt: token.createdAt,
+  }
+}
+
+/**
+ * Get the active personal access tokens of the current user
+ *
+ * @returns Tokens that are neither revoked nor expired, newest first
+ */
+export async function getApiTokens(): Promise<ApiTokenSummary[]> {
+  return withAuth(async (session) => {
+    const tokens = await prisma.personalAccessToken.findMany({
+      where: activeTokensWhere(session.userId),
+      orderBy: { createdAt: 'desc' },
+    })
+    return tokens.map(toApiTokenSummary)
+  })
+}
+
+/**
+ * Create a personal access token for the public API
+ *
+ * Only the SHA-256 hash of the token is stored: the token is returned once.
+ *
+ * @param input - Name, scopes and lifetime in days (null for no expiration)
+ * @returns The token summary and the token itself
+ * @throws ValidationError if the input is invalid
+ * @throws ForbiddenError if the user already has MAX_API_TOKENS active tokens
+ */
+export async function createApiToken(input: ApiTokenInput): Promise<{ token: string; summary: ApiTokenSummary }> {
+  const parseResult = apiTokenSchema.safeParse(input)
+  if (!parseResult.success) {
+    throw new ValidationError(
+      'Invalid access token',
+      parseResult.error.issues.map((issue) => issue.message),
+    )
+  }
+  const { name, scopes, expiresInDays } = parseResult.data
+
+  return withAuth(async (session) => {
+    const activeCount = await prisma.personalAccessToken.count({ where: activeTokensWhere(session.userId) })
+    if (activeCount >= MAX_API_TOKENS) {
+      throw new ForbiddenError(`You can have up to ${MAX_API_TOKENS} access tokens. Revoke one to create another.`)
+    }
+
+    const { token, tokenHash, tokenPrefix } = generateApiToken()
+    const record = await prisma.personalAccessToken.create({
+      data: {
+        userId: session.userId,
+        name,
+        tokenHash,
+        tokenPrefix,
+        scopes: JSON.stringify(scopes),
+        expiresAt: expiresInDays === null ? null : new Date(Date.now() + expiresInDays * DAY_MS),
+      },
+    })
+
+    logger.info('Created personal access token:', { id: record.id, userId: session.userId, scopes })
+    return { token, summary: toApiTokenSummary(record) }
+  })
+}
+
+/**
+ * Revoke a personal access token. Requests with it are rejected from now on.
+ *
+ * @param id - Token ID
+ * @throws NotFoundError if the token does not exist, is not owned by the user or is already revoked
+ */
+export async function revokeApiToken(id: string): Promise<{ id: string }> {
+  return withAuth(async (session) => {
+    const result = await prisma.personalAccessToken.updateMany({
+      where: { id, userId: session.userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+    if (result.count === 0) {
+      throw new NotFoundError('Access token not found')
+    }
+
+    logger.info('Revoked personal access token:', { id, userId: session.userId })
+    return { id }
+  })
+}
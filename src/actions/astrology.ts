@@ -2,17 +2,27 @@
 
 import { astrologerApi } from '@/lib/api/astrologer'
 import { getSession } from '@/lib/security/session'
-import { prisma } from '@/lib/db/prisma'
+import { recordChartCalculation } from '@/lib/db/chart-usage'
 import { logger } from '@/lib/logging/server'
 import type {
-  SubjectModel,
   ChartResponse,
   ChartRequestOptions,
   PlanetaryReturnRequestOptions,
   EnrichedSubjectModel,
+  ChartRing,
 } from '@/types/astrology'
 import type { Subject } from '@/types/subjects'
+import type { MultiWheelRingSource } from '@/types/saved-chart-params'
 import { getChartPreferences, type ChartPreferencesData } from '@/actions/preferences'
+import { directSubject, findDirectedAspects, getSolarArc, toProgressedSubject } from '@/lib/astrology/progressions'
+import { renderChartWheelSvg } from '@/lib/chart/wheel'
+import { findMultiWheelAspects, getRingSourceLabel, MAX_OUTER_RINGS } from '@/lib/astrology/multi-wheel'
+import { getSubjectById } from '@/actions/subjects'
+import {
+  mergeOptionsWithPreferences,
+  toBasicSubjectModel,
+  toSubjectModelWithPreferences,
+} from '@/lib/astrology/chart-request'
 
 /**
  * Track a chart calculation for analytics
@@ -27,125 +37,13 @@ export async function trackChartCalculation(chartType: string): Promise<void> {
       // Silently skip tracking for unauthenticated requests
       return
     }
-    const userId = session.userId
-    const today = new Date().toISOString().split('T')[0]!
-
-    await prisma.chartCalculationUsage.upsert({
-      where: {
-        userId_date_chartType: { userId, date: today, chartType },
-      },
-      update: {
-        count: { increment: 1 },
-      },
-      create: {
-        userId,
-        date: today,
-        chartType,
-        count: 1,
-      },
-    })
+    await recordChartCalculation(session.userId, chartType)
   } catch (error) {
     // Non-blocking: don't fail the chart if tracking fails
     logger.error('Failed to track chart calculation:', error)
   }
 }
 
-/**
- * Converts local Subject type to API SubjectModel format
- *
- * @param subject - Subject from database
- * @returns SubjectModel formatted for API requests
- *
- * @remarks
- * - Extracts date components from ISO datetime string
- * - Uses UTC values to avoid timezone issues
- * - Includes all required location data
- */
-/**
- * Converts Subject to basic SubjectModel (no config)
- */
-function toBasicSubjectModel(subject: Subject): SubjectModel {
-  const date = new Date(subject.birth_datetime)
-
-  return {
-    name: subject.name,
-    year: date.getUTCFullYear(),
-    month: date.getUTCMonth() + 1,
-    day: date.getUTCDate(),
-    hour: date.getUTCHours(),
-    minute: date.getUTCMinutes(),
-    second: date.getUTCSeconds(),
-    city: subject.city,
-    nation: subject.nation,
-    timezone: subject.timezone,
-    longitude: subject.longitude,
-    latitude: subject.latitude,
-  }
-}
-
-/**
- * Converts Subject to SubjectModel with user preferences applied
- */
-function toSubjectModelWithPreferences(subject: Subject, prefs: ChartPreferencesData): SubjectModel {
-  const basicModel = toBasicSubjectModel(subject)
-
-  if (!prefs.default_zodiac_system) {
-    throw new Error('Missing required preference: default_zodiac_system')
-  }
-  if (!prefs.house_system) {
-    throw new Error('Missing required preference: house_system')
-  }
-  if (!prefs.perspective_type) {
-    throw new Error('Missing required preference: perspective_type')
-  }
-
-  const zodiacType = prefs.default_zodiac_system
-  const siderealMode = zodiacType === 'Sidereal' ? prefs.default_sidereal_mode || null : null
-
-  return {
-    ...basicModel,
-    zodiac_type: zodiacType,
-    sidereal_mode: siderealMode,
-    houses_system_identifier: prefs.house_system,
-    perspective_type: prefs.perspective_type,
-  }
-}
-
-/**
- * Merges user preferences with request options
- */
-function mergeOptionsWithPreferences(
-  options: ChartRequestOptions | undefined,
-  prefs: ChartPreferencesData,
-): ChartRequestOptions {
-  // Validate required preferences
-  // active_points can be empty if user wants to hide all points
-  if (!prefs.active_aspects || prefs.active_aspects.length === 0) {
-    throw new Error('Missing required preference: active_aspects')
-  }
-
-  // Handle custom_distribution_weights - only include if it has keys
-  const hasCustomWeights =
-    prefs.custom_distribution_weights && Object.keys(prefs.custom_distribution_weights).length > 0
-
-  return {
-    theme: prefs.theme as ChartRequestOptions['theme'],
-    language: 'EN',
-    transparent_background: true,
-    show_house_position_comparison: true,
-    show_cusp_position_comparison: true,
-    show_degree_indicators: prefs.show_degree_indicators,
-    show_aspect_icons: prefs.show_aspect_icons,
-    distribution_method: prefs.distribution_method as ChartRequestOptions['distribution_method'],
-    active_points: prefs.active_points,
-    active_aspects: prefs.active_aspects,
-    custom_distribution_weights: hasCustomWeights ? prefs.custom_distribution_weights : undefined,
-    split_chart: true,
-    custom_title: undefined,
-    ...options,
-  }
-}
-
 /**
  * Higher-order function that wraps common chart action boilerplate:
  * session verification, calculation tracking, preference loading, and option merging.
@@ -174,7 +72,8 @@ function createChartAction<TArgs extends unknown[]>(
 
     // Extract options as the last argument if it exists
     const lastArg = args[args.length - 1] as ChartRequestOptions | undefined
-    const options = lastArg && typeof lastArg === 'object' && !('name' in lastArg) ? lastArg : undefined
+    const options =
+      lastArg && typeof lastArg === 'object' && !Array.isArray(lastArg) && !('name' in lastArg) ? lastArg : undefined
     const mergedOptions = mergeOptionsWithPreferences(options, prefs)
 
     return await apiCall(prefs, mergedOptions, ...args)
@@ -240,6 +139,15 @@ export const getNowChart = createChartAction(
   },
 )
 
+/**
+ * Horary chart: a natal chart cast for the moment and place a question was asked
+ */
+export const getHoraryChart = createChartAction(
+  'horary',
+  (prefs, mergedOptions, subject: Subject, _options?: ChartRequestOptions) =>
+    astrologerApi.getNatalChart(toSubjectModelWithPreferences(subject, prefs), mergedOptions),
+)
+
 export const getSolarReturnChart = createChartAction(
   'solar-return',
   (prefs, mergedOptions, subject: Subject, options?: PlanetaryReturnRequestOptions) => {
@@ -269,3 +177,198 @@ export const getLunarReturnChart = createChartAction(
     })
   },
 )
+
+/**
+ * Secondary progressed chart as a bi-wheel: natal inside, progressed outside.
+ * The progressed subject is cast through the transit endpoint so the response
+ * carries the same aspect and house comparison data as a transit chart.
+ */
+function getProgressedBiWheel(
+  prefs: ChartPreferencesData,
+  mergedOptions: ChartRequestOptions,
+  subject: Subject,
+  targetDate: string,
+): Promise<ChartResponse> {
+  const natalModel = toSubjectModelWithPreferences(subject, prefs)
+  const progressedModel = toBasicSubjectModel(toProgressedSubject(subject, new Date(targetDate)))
+  return astrologerApi.getTransitChart(natalModel, progressedModel, mergedOptions)
+}
+
+export const getProgressedChart = createChartAction(
+  'progressions',
+  (prefs, mergedOptions, subject: Subject, targetDate: string, _options?: ChartRequestOptions) =>
+    getProgressedBiWheel(prefs, mergedOptions, subject, targetDate),
+)
+
+export const getProgressedLunationChart = createChartAction(
+  'progressed-lunation',
+  (prefs, mergedOptions, subject: Subject, targetDate: string, _options?: ChartRequestOptions) =>
+    getProgressedBiWheel(prefs, mergedOptions, subject, targetDate),
+)
+
+export const getSolarArcChart = createChartAction(
+  'solar-arc',
+  async (prefs, mergedOptions, subject: Subject, targetDate: string, _options?: ChartRequestOptions) => {
+    const target = new Date(targetDate)
+    const natalModel = toSubjectModelWithPreferences(subject, prefs)
+    const progressedModel = toSubjectModelWithPreferences(toProgressedSubject(subject, target), prefs)
+
+    // The Astrologer API has no directions endpoint: only the progressed Sun is
+    // needed, the directed chart and its wheel are computed locally.
+    const [natal, progressed] = await Promise.all([
+      astrologerApi.getNatalChart(natalModel, mergedOptions),
+      astrologerApi.getSubject(progressedModel, { active_points: ['Sun'] }),
+    ])
+
+    const natalSubject = natal.chart_data.subject
+    const arc = getSolarArc(natalSubject.sun.abs_pos, progressed.subject.sun.abs_pos)
+    const directed = directSubject(natalSubject, arc, target)
+    const aspects = findDirectedAspects(natalSubject, directed, {
+      activePoints: prefs.active_points,
+      activeAspects: prefs.active_aspects,
+    })
+
+    return {
+      status: 'OK',
+      chart_data: {
+        ...natal.chart_data,
+        chart_type: 'SolarArc',
+        first_subject: natalSubject,
+        second_subject: directed,
+        aspects,
+      },
+      chart_wheel: renderChartWheelSvg({
+        rings: [
+          { subject: natalSubject, label: 'Natal' },
+          { subject: directed, label: 'Solar Arc' },
+        ],
+        aspects,
+        activePoints: prefs.active_points,
+      }),
+    }
+  },
+)
+
+/**
+ * Casts one outer ring of a multi-wheel chart.
+ * Rings use the natal zodiac and house settings; transits and returns are cast at the natal location.
+ */
+async function castRing(
+  prefs: ChartPreferencesData,
+  mergedOptions: ChartRequestOptions,
+  subject: Subject,
+  natalSubject: EnrichedSubjectModel,
+  source: MultiWheelRingSource,
+): Promise<ChartRing> {
+  const label = getRingSourceLabel(source)
+  const pointOptions = { active_points: mergedOptions.active_points }
+
+  switch (source.type) {
+    case 'subject': {
+      const other = await getSubjectById(source.subjectId)
+      if (!other) throw new Error('Subject not found. It may have been deleted.')
+      const { subject: ringSubject } = await astrologerApi.getSubject(
+        toSubjectModelWithPreferences(other, prefs),
+        pointOptions,
+      )
+      return { label: getRingSourceLabel(source, other.name), subject: ringSubject }
+    }
+
+    case 'transit': {
+      const transitSubject: Subject = {
+        ...subject,
+        id: 'transit',
+        name: label,
+        birth_datetime: new Date(source.date).toISOString(),
+        timezone: 'UTC',
+      }
+      const { subject: ringSubject } = await astrologerApi.getSubject(
+        toSubjectModelWithPreferences(transitSubject, prefs),
+        pointOptions,
+      )
+      return { label, subject: ringSubject }
+    }
+
+    case 'progressions': {
+      const progressedModel = toSubjectModelWithPreferences(
+        toProgressedSubject(subject, new Date(source.targetDate)),
+        prefs,
+      )
+      const { subject: ringSubject } = await astrologerApi.getSubject(progressedModel, pointOptions)
+      return { label, subject: ringSubject }
+    }
+
+    case 'solar-arc': {
+      const target = new Date(source.targetDate)
+      const progressedModel = toSubjectModelWithPreferences(toProgressedSubject(subject, target), prefs)
+      const progressed = await astrologerApi.getSubject(progressedModel, { active_points: ['Sun'] })
+      const arc = getSolarArc(natalSubject.sun.abs_pos, progressed.subject.sun.abs_pos)
+      return { label, subject: directSubject(natalSubject, arc, target) }
+    }
+
+    case 'solar-return':
+    case 'lunar-return': {
+      const natalModel = toSubjectModelWithPreferences(subject, prefs)
+      const returnOptions = { ...mergedOptions, wheel_type: 'dual' as const }
+      const response =
+        source.type === 'solar-return'
+          ? await astrologerApi.getSolarReturnChart(natalModel, { ...returnOptions, year: source.year })
+          : await astrologerApi.getLunarReturnChart(natalModel, {
+              ...returnOptions,
+              year: source.year,
+              month: source.month,
+            })
+      const ringSubject = response.chart_data.second_subject ?? response.chart_data.subject
+      return { label, subject: { ...ringSubject, name: label } }
+    }
+  }
+}
+
+/**
+ * Multi-wheel chart: the natal chart inside, with one to three outer rings
+ * (tri- and quad-wheels). Rings are cast through the API and the wheel and
+ * inter-ring aspects are computed locally, since the API only draws bi-wheels.
+ */
+export const getMultiWheelChart = createChartAction(
+  'multi-wheel',
+  async (
+    prefs,
+    mergedOptions,
+    subject: Subject,
+    sources: MultiWheelRingSource[],
+    _options?: ChartRequestOptions,
+  ) => {
+    if (sources.length === 0 || sources.length > MAX_OUTER_RINGS) {
+      throw new Error(`A multi-wheel chart needs between 1 and ${MAX_OUTER_RINGS} outer rings`)
+    }
+
+    const natal = await astrologerApi.getNatalChart(toSubjectModelWithPreferences(subject, prefs), mergedOptions)
+    const natalSubject = natal.chart_data.subject
+
+    const outerRings = await Promise.all(
+      sources.map((source) => castRing(prefs, mergedOptions, subject, natalSubject, source)),
+    )
+    const rings: ChartRing[] = [{ label: 'Natal', subject: natalSubject }, ...outerRings]
+    const ringAspects = findMultiWheelAspects(rings, sources, {
+      activePoints: prefs.active_points,
+      activeAspects: prefs.active_aspects,
+    })
+
+    // Aspects to the natal chart are the ones drawn in the centre of the wheel
+    const natalAspects = ringAspects.filter((pair) => pair.inner === 0).flatMap((pair) => pair.aspects)
+
+    return {
+      status: 'OK',
+      chart_data: {
+        ...natal.chart_data,
+        chart_type: 'MultiWheel',
+        first_subject: natalSubject,
+        second_subject: outerRings[0]?.subject,
+        aspects: natalAspects,
+        rings,
+        ring_aspects: ringAspects,
+      },
+      chart_wheel: renderChartWheelSvg({ rings, aspects: natalAspects, activePoints: prefs.active_points }),
+    }
+  },
+)
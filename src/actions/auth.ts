@@ -5,9 +5,10 @@
  * This file syncs subscription on login with Dodo Payments
  */
 
+import type { User } from '@prisma/client'
 import { prisma } from '@/lib/db/prisma'
 import bcrypt from 'bcryptjs'
-import { createSession, deleteSession, getSession } from '@/lib/security/session'
+import { createSession, deleteSession, getSession, revokeUserSessions } from '@/lib/security/session'
 import { z } from 'zod'
 import { verifyRecaptcha } from '@/lib/security/recaptcha'
 import { logger } from '@/lib/logging/server'
@@ -21,6 +22,17 @@ import {
   RATE_LIMITS,
 } from '@/lib/security/rate-limit'
 import { validatePassword } from '@/lib/validation/password'
+import {
+  clearPendingTwoFactor,
+  getPendingTwoFactor,
+  issuePendingPasskeyChallenge,
+  recordFailedTwoFactorAttempt,
+  startPendingTwoFactor,
+  verifyTwoFactorCode,
+  type PendingTwoFactor,
+} from '@/lib/security/two-factor'
+import { verifyPasskeyAssertion, WEBAUTHN_TIMEOUT_MS, WebAuthnError, getRelyingParty } from '@/lib/security/webauthn'
+import type { PasskeyAssertionResponse, PasskeyLoginOptions } from '@/lib/two-factor/types'
 
 /**
  * Login credentials validation schema
@@ -37,6 +49,84 @@ const LoginSchema = z.object({
 type ActionResult = {
   error?: string
   success?: boolean
+  /** Password accepted; the login waits for a second factor */
+  twoFactorRequired?: boolean
+}
+
+/**
+ * Finish a login: clear the failed attempts, record it, create the session
+ * and sync the subscription
+ *
+ * @remarks
+ * - Only called once every factor was verified, so failed second factors
+ *   keep counting towards the lockout when the password is entered again
+ */
+async function completeLogin(user: {
+  id: string
+  username: string
+  email: string | null
+  customerId: string | null
+}): Promise<void> {
+  await clearFailedLogins(user.username)
+
+  // Track login analytics
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      lastLoginAt: new Date(),
+      loginCount: { increment: 1 },
+    },
+  })
+
+  await createSession(user.id, user.username)
+
+  // Sync subscription status with Dodo Payments on every login (BLOCKING)
+  // This ensures the subscription status is always up-to-date before user accesses the app
+  try {
+    const { isDodoPaymentsEnabled } = await import('@/lib/subscription/config')
+    if (isDodoPaymentsEnabled()) {
+      const { syncSubscriptionFromDodo } = await import('@/dodopayments/lib/subscription')
+      // Wait for sync to complete so subscription status is accurate
+      await syncSubscriptionFromDodo(user.id, user.email || '', user.customerId)
+      logger.info(`Subscription synced on login for user ${user.id}`)
+    }
+  } catch (error) {
+    // Dodo Payments module not available or sync failed - continue with login
+    logger.warn('Subscription sync on login failed:', error)
+  }
+}
+
+/**
+ * Pending login of this browser with its user, unless it expired or the
+ * account got locked meanwhile
+ */
+async function loadPendingLogin(): Promise<{ pending: PendingTwoFactor; user: User } | { error: string }> {
+  const pending = await getPendingTwoFactor('user')
+  const user = pending && (await prisma.user.findUnique({ where: { id: pending.account.id } }))
+  if (!pending || !user) {
+    return { error: 'Your login has expired. Please sign in again.' }
+  }
+
+  const lockoutStatus = await checkAccountLockout(user.username)
+  if (lockoutStatus.locked) {
+    await clearPendingTwoFactor(pending)
+    return { error: 'Account temporarily locked due to multiple failed login attempts. Please try again later.' }
+  }
+
+  return { pending, user }
+}
+
+/**
+ * Count a wrong second factor against the pending login and the account
+ * lockout, so codes cannot be guessed by starting over
+ */
+async function failPendingLogin(pending: PendingTwoFactor, username: string, message: string): Promise<ActionResult> {
+  await recordFailedLogin(username)
+  const remaining = await recordFailedTwoFactorAttempt(pending)
+  if (remaining === 0) {
+    return { error: 'Too many failed attempts. Please sign in again.' }
+  }
+  return { error: `${message} ${remaining} attempt${remaining === 1 ? '' : 's'} left.` }
 }
 
 /**
@@ -49,7 +139,8 @@ type ActionResult = {
  * @remarks
  * - Validates input with Zod schema
  * - Compares password using bcrypt
- * - Creates session cookie on successful auth
+ * - Creates session cookie on successful auth, or returns `twoFactorRequired`
+ *   when the account has two-factor authentication (see `verifyTwoFactorLogin`)
  * - Redirects to home page after login
  *
  * @example
@@ -72,14 +163,14 @@ export async function login(_prevState: unknown, formData: FormData): Promise<Ac
   // IP-based rate limiting (before authentication)
   const headersList = await headers()
   const clientIp = getClientIp(headersList)
-  const ipRateLimit = checkRateLimit(`ip:${clientIp}`, RATE_LIMITS.ip)
+  const ipRateLimit = await checkRateLimit(`ip:${clientIp}`, RATE_LIMITS.ip)
   if (!ipRateLimit.success) {
     logger.warn(`IP rate limit exceeded for login: ${clientIp}`)
     return { error: 'Too many login attempts from this IP. Please try again later.' }
   }
 
   // Account lockout check (brute-force protection)
-  const lockoutStatus = checkAccountLockout(validation.data.username)
+  const lockoutStatus = await checkAccountLockout(validation.data.username)
   if (lockoutStatus.locked) {
     const minutes = Math.ceil((lockoutStatus.remainingSeconds || 0) / 60)
     return {
@@ -100,14 +191,14 @@ export async function login(_prevState: unknown, formData: FormData): Promise<Ac
 
     if (!user) {
       // Record failed attempt for brute-force tracking
-      recordFailedLogin(validation.data.username)
+      await recordFailedLogin(validation.data.username)
       // Generic error message to prevent username enumeration
       return { error: 'Invalid credentials' }
     }
 
     // OAuth-only users don't have a password
     if (!user.password) {
-      recordFailedLogin(validation.data.username)
+      await recordFailedLogin(validation.data.username)
       return { error: 'Invalid credentials' }
     }
 
@@ -115,7 +206,7 @@ export async function login(_prevState: unknown, formData: FormData): Promise<Ac
 
     if (!isValid) {
       // Record failed attempt
-      recordFailedLogin(validation.data.username)
+      await recordFailedLogin(validation.data.username)
       return { error: 'Invalid credentials' }
     }
 
@@ -123,38 +214,144 @@ export async function login(_prevState: unknown, formData: FormData): Promise<Ac
       return { error: 'Please verify your email address before logging in.' }
     }
 
-    // Clear failed login attempts on successful login
-    clearFailedLogins(validation.data.username)
+    // Accounts with two-factor authentication get their session after the second factor
+    if (user.twoFactorEnabledAt) {
+      await startPendingTwoFactor({ kind: 'user', id: user.id }, 'login')
+      return { twoFactorRequired: true }
+    }
 
-    // Track login analytics
-    await prisma.user.update({
-      where: { id: user.id },
-      data: {
-        lastLoginAt: new Date(),
-        loginCount: { increment: 1 },
-      },
-    })
+    await completeLogin(user)
+
+    return { success: true }
+  } catch (error) {
+    logger.error('Login error:', error)
+    return { error: 'Authentication failed. Please try again.' }
+  }
+}
+
+/**
+ * Second factors the pending login of this browser can use
+ *
+ * @returns null when there is no pending login (it expired or was never started)
+ */
+export async function getTwoFactorLoginMethods(): Promise<{ totp: boolean; passkey: boolean } | null> {
+  const pending = await getPendingTwoFactor('user')
+  if (!pending) return null
 
-    await createSession(user.id, user.username)
+  const user = await prisma.user.findUnique({
+    where: { id: pending.account.id },
+    select: { totpEnabledAt: true, _count: { select: { passkeys: true } } },
+  })
+  if (!user) return null
 
-    // Sync subscription status with Dodo Payments on every login (BLOCKING)
-    // This ensures the subscription status is always up-to-date before user accesses the app
+  return { totp: !!user.totpEnabledAt, passkey: user._count.passkeys > 0 }
+}
+
+/**
+ * Server action to finish a login with an authenticator app code or a
+ * recovery code
+ *
+ * @param _prevState - Previous form state (unused but required by useFormState)
+ * @param formData - Form data containing the code
+ *
+ * @remarks
+ * - Needs the pending login started by `login` or the Google callback
+ * - Wrong codes count towards the account lockout; after five the login has
+ *   to start over
+ */
+export async function verifyTwoFactorLogin(_prevState: unknown, formData: FormData): Promise<ActionResult> {
+  const code = String(formData.get('code') ?? '').trim()
+  if (!code) {
+    return { error: 'Enter a code from your authenticator app or a recovery code' }
+  }
+
+  try {
+    const loaded = await loadPendingLogin()
+    if ('error' in loaded) return loaded
+    const { pending, user } = loaded
+
+    const method = await verifyTwoFactorCode({ kind: 'user', id: user.id }, code)
+    if (!method) {
+      return failPendingLogin(pending, user.username, 'Invalid code.')
+    }
+    if (method === 'recovery') {
+      logger.info(`Recovery code used to sign in user ${user.id}`)
+    }
+
+    await clearPendingTwoFactor(pending)
+    await completeLogin(user)
+    return { success: true }
+  } catch (error) {
+    logger.error('Two-factor login error:', error)
+    return { error: 'Authentication failed. Please try again.' }
+  }
+}
+
+/**
+ * Start a passkey assertion for the pending login of this browser
+ *
+ * @returns Options for `navigator.credentials.get()`
+ */
+export async function getPasskeyLoginOptions(): Promise<{ options?: PasskeyLoginOptions; error?: string }> {
+  const pending = await getPendingTwoFactor('user')
+  if (!pending) {
+    return { error: 'Your login has expired. Please sign in again.' }
+  }
+
+  const passkeys = await prisma.webAuthnCredential.findMany({
+    where: { userId: pending.account.id },
+    select: { credentialId: true },
+  })
+  if (passkeys.length === 0) {
+    return { error: 'No passkeys are registered for this account' }
+  }
+
+  const challenge = await issuePendingPasskeyChallenge(pending)
+  return {
+    options: {
+      challenge,
+      rpId: getRelyingParty().id,
+      allowCredentialIds: passkeys.map((passkey) => passkey.credentialId),
+      timeout: WEBAUTHN_TIMEOUT_MS,
+    },
+  }
+}
+
+/**
+ * Server action to finish a login with a passkey
+ *
+ * @param response - Assertion from `navigator.credentials.get()`
+ */
+export async function verifyPasskeyLogin(response: PasskeyAssertionResponse): Promise<ActionResult> {
+  try {
+    const loaded = await loadPendingLogin()
+    if ('error' in loaded) return loaded
+    const { pending, user } = loaded
+
+    const credential = await prisma.webAuthnCredential.findUnique({ where: { credentialId: response.id } })
+    if (!pending.challenge || !credential || credential.userId !== user.id) {
+      return failPendingLogin(pending, user.username, 'This passkey could not be verified.')
+    }
+
+    let verified: { signCount: number }
     try {
-      const { isDodoPaymentsEnabled } = await import('@/lib/subscription/config')
-      if (isDodoPaymentsEnabled()) {
-        const { syncSubscriptionFromDodo } = await import('@/dodopayments/lib/subscription')
-        // Wait for sync to complete so subscription status is accurate
-        await syncSubscriptionFromDodo(user.id, user.email || '', user.customerId)
-        logger.info(`Subscription synced on login for user ${user.id}`)
-      }
+      verified = verifyPasskeyAssertion(response, pending.challenge, credential)
     } catch (error) {
-      // Dodo Payments module not available or sync failed - continue with login
-      logger.warn('Subscription sync on login failed:', error)
+      if (!(error instanceof WebAuthnError)) throw error
+      logger.warn(`Passkey login failed for user ${user.id}: ${error.message}`)
+      return failPendingLogin(pending, user.username, 'This passkey could not be verified.')
     }
 
+    await prisma.webAuthnCredential.update({
+      where: { id: credential.id },
+      data: { signCount: verified.signCount, lastUsedAt: new Date() },
+    })
+
+    await clearPendingTwoFactor(pending)
+    await completeLogin(user)
     return { success: true }
   } catch (error) {
-    logger.error('Login error:', error)
+    logger.error('Passkey login error:', error)
     return { error: 'Authentication failed. Please try again.' }
   }
 }
@@ -230,7 +427,7 @@ export async function requestPasswordReset(identifier: string, recaptchaToken: s
   // IP-based rate limiting
   const headersList = await headers()
   const clientIp = getClientIp(headersList)
-  const ipRateLimit = checkRateLimit(`ip:${clientIp}`, RATE_LIMITS.ip)
+  const ipRateLimit = await checkRateLimit(`ip:${clientIp}`, RATE_LIMITS.ip)
   if (!ipRateLimit.success) {
     logger.warn(`IP rate limit exceeded for password reset: ${clientIp}`)
     return { error: 'Too many password reset attempts from this IP. Please try again later.' }
@@ -338,6 +535,9 @@ export async function validateResetToken(token: string): Promise<{ valid: boolea
  * @param token - The password reset token
  * @param newPassword - The new password
  * @returns Success status
+ *
+ * @remarks
+ * Signs the user out on every browser and device
  */
 export async function resetPassword(token: string, newPassword: string): Promise<ActionResult> {
   // Validate password
@@ -386,6 +586,9 @@ export async function resetPassword(token: string, newPassword: string): Promise
       }),
     ])
 
+    // Whoever knew the old password is signed out everywhere
+    await revokeUserSessions(verificationToken.userId)
+
     logger.info(`Password reset completed for user: ${verificationToken.userId}`)
     return { success: true }
   } catch (error) {
@@ -400,6 +603,9 @@ export async function resetPassword(token: string, newPassword: string): Promise
  * @param currentPassword - Current password for verification
  * @param newPassword - New password
  * @returns Success status
+ *
+ * @remarks
+ * Signs the user out on every other browser and device
  */
 export async function changePassword(currentPassword: string, newPassword: string): Promise<ActionResult> {
   return withAuth(async (session) => {
@@ -438,6 +644,9 @@ export async function changePassword(currentPassword: string, newPassword: strin
         data: { password: hashedPassword },
       })
 
+      // Keep this browser signed in, sign out every other one
+      await revokeUserSessions(session.userId, { exceptSessionId: session.sessionId })
+
       logger.info(`Password changed for user: ${session.userId}`)
       return { success: true }
     } catch (error) {
@@ -0,0 +1,177 @@
+'use server'
+
+import { randomBytes } from 'crypto'
+import { z } from 'zod'
+import type { CalendarFeed } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import { logger } from '@/lib/logging/server'
+import { withAuth, NotFoundError } from '@/lib/security/auth'
+import { parseOrThrow } from '@/lib/validation/parse'
+import { getLibraryScope, subjectScopeWhere } from '@/lib/workspaces/server'
+import { APP_URL } from '@/lib/config/app'
+import { CALENDAR_EVENT_CATEGORIES, type CalendarEventCategory, type CalendarFeedSummary } from '@/lib/calendar/feed'
+import { hashCalendarFeedToken } from '@/lib/calendar/server'
+
+const timezoneSchema = z.string().refine(
+  (timezone) => {
+    try {
+      new Intl.DateTimeFormat('en', { timeZone: timezone })
+      return true
+    } catch {
+      return false
+    }
+  },
+  { message: 'Unknown time zone' },
+)
+
+/** Schema for the settings of the calendar feed */
+const calendarFeedSchema = z.object({
+  subjectId: z.string().min(1).nullable(),
+  timezone: timezoneSchema,
+  categories: z
+    .array(z.enum(CALENDAR_EVENT_CATEGORIES.map((category) => category.value) as [CalendarEventCategory]))
+    .min(1, 'Choose at least one kind of event'),
+})
+
+export type CalendarFeedInput = z.infer<typeof calendarFeedSchema>
+
+type CalendarFeedWithSubject = CalendarFeed & { subject: { name: string } | null }
+
+function toCalendarFeedSummary(feed: CalendarFeedWithSubject): CalendarFeedSummary {
+  return {
+    id: feed.id,
+    subjectId: feed.subjectId,
+    subjectName: feed.subject?.name ?? null,
+    timezone: feed.timezone,
+    categories: JSON.parse(feed.categories) as CalendarEventCategory[],
+    lastFetchedAt: feed.lastFetchedAt,
+    createdAt: feed.createdAt,
+  }
+}
+
+/**
+ * Create a feed token and its subscription URL
+ */
+function createFeedToken(): { tokenHash: string; url: string } {
+  const token = randomBytes(32).toString('hex')
+  return { tokenHash: hashCalendarFeedToken(token), url: `${APP_URL}/api/calendar/${token}.ics` }
+}
+
+/**
+ * Get the calendar feed of the current user
+ *
+ * @returns The feed settings, or null if the user has no feed
+ */
+export async function getCalendarFeed(): Promise<CalendarFeedSummary | null> {
+  return withAuth(async (session) => {
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { userId: session.userId },
+      include: { subject: { select: { name: true } } },
+    })
+    return feed ? toCalendarFeedSummary(feed) : null
+  })
+}
+
+/**
+ * Create the calendar feed of the current user, or update its settings
+ *
+ * Only the SHA-256 hash of the token is stored: the URL is returned once, when
+ * the feed is created. Updating the settings keeps the URL.
+ *
+ * @param input - Subject whose transits are listed (null for sky events only), time zone and event kinds
+ * @returns The feed and, for a new feed, its URL
+ * @throws ValidationError if the settings are invalid
+ * @throws NotFoundError if the subject does not exist or is not in the user's library
+ */
+export async function saveCalendarFeed(
+  input: CalendarFeedInput,
+): Promise<{ feed: CalendarFeedSummary; url: string | null }> {
+  const { subjectId, timezone, categories } = parseOrThrow(calendarFeedSchema, input, 'Invalid calendar feed')
+
+  return withAuth(async (session) => {
+    if (subjectId) {
+      const scope = await getLibraryScope(session.userId)
+      const subject = await prisma.subject.findFirst({
+        where: { id: subjectId, ...subjectScopeWhere(scope) },
+        select: { id: true },
+      })
+      if (!subject) {
+        throw new NotFoundError('Subject not found or unauthorized')
+      }
+    }
+
+    const settings = { subjectId, timezone, categories: JSON.stringify(categories) }
+    const existing = await prisma.calendarFeed.findUnique({
+      where: { userId: session.userId },
+      select: { id: true },
+    })
+
+    if (existing) {
+      const feed = await prisma.calendarFeed.update({
+        where: { id: existing.id },
+        data: settings,
+        include: { subject: { select: { name: true } } },
+      })
+      return { feed: toCalendarFeedSummary(feed), url: null }
+    }
+
+    const { tokenHash, url } = createFeedToken()
+    const feed = await prisma.calendarFeed.create({
+      data: { userId: session.userId, tokenHash, ...settings },
+      include: { subject: { select: { name: true } } },
+    })
+
+    logger.info('Created calendar feed:', { id: feed.id, userId: session.userId })
+    return { feed: toCalendarFeedSummary(feed), url }
+  })
+}
+
+/**
+ * Replace the token of the calendar feed. Subscriptions to the previous URL stop working.
+ *
+ * @returns The feed and its new URL
+ * @throws NotFoundError if the user has no feed
+ */
+export async function regenerateCalendarFeedToken(): Promise<{ feed: CalendarFeedSummary; url: string }> {
+  return withAuth(async (session) => {
+    const existing = await prisma.calendarFeed.findUnique({
+      where: { userId: session.userId },
+      select: { id: true },
+    })
+    if (!existing) {
+      throw new NotFoundError('Calendar feed not found')
+    }
+
+    const { tokenHash, url } = createFeedToken()
+    const feed = await prisma.calendarFeed.update({
+      where: { id: existing.id },
+      data: { tokenHash, lastFetchedAt: null },
+      include: { subject: { select: { name: true } } },
+    })
+
+    logger.info('Regenerated calendar feed token:', { id: feed.id, userId: session.userId })
+    return { feed: toCalendarFeedSummary(feed), url }
+  })
+}
+
+/**
+ * Delete the calendar feed. Subscriptions to its URL stop working.
+ *
+ * @throws NotFoundError if the user has no feed
+ */
+export async function deleteCalendarFeed(): Promise<{ id: string }> {
+  return withAuth(async (session) => {
+    const existing = await prisma.calendarFeed.findUnique({
+      where: { userId: session.userId },
+      select: { id: true },
+    })
+    if (!existing) {
+      throw new NotFoundError('Calendar feed not found')
+    }
+
+    await prisma.calendarFeed.delete({ where: { id: existing.id } })
+
+    logger.info('Deleted calendar feed:', { id: existing.id, userId: session.userId })
+    return { id: existing.id }
+  })
+}
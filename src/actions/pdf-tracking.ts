@@ -12,7 +12,17 @@ import { getSession } from '@/lib/security/session'
 
 type ActionResult = { success: true } | { success: false; error: string }
 
-export type PDFChartType = 'natal' | 'synastry' | 'transit' | 'composite' | 'solar-return' | 'lunar-return'
+export type PDFChartType =
+  | 'natal'
+  | 'synastry'
+  | 'transit'
+  | 'composite'
+  | 'solar-return'
+  | 'lunar-return'
+  | 'progressions'
+  | 'solar-arc'
+  | 'progressed-lunation'
+  | 'multi-wheel'
 
 /**
  * Track a PDF export for the current user
@@ -101,7 +101,7 @@ export async function getPublicNatalChart(
   const headersList = await headers()
   const clientIp = getClientIp(headersList)
   // Use publicChart rate limiting (60 req/min for demo users)
-  const rateLimit = checkRateLimit(`public_chart:${clientIp}`, RATE_LIMITS.publicChart)
+  const rateLimit = await checkRateLimit(`public_chart:${clientIp}`, RATE_LIMITS.publicChart)
 
   if (!rateLimit.success) {
     throw new Error('Too many requests. Please try again later.')
@@ -140,7 +140,7 @@ export async function getPublicNowChart(theme: 'classic' | 'dark' = 'classic'):
   const headersList = await headers()
   const clientIp = getClientIp(headersList)
   // Use publicChart rate limiting (60 req/min for demo users)
-  const rateLimit = checkRateLimit(`public_chart:${clientIp}`, RATE_LIMITS.publicChart)
+  const rateLimit = await checkRateLimit(`public_chart:${clientIp}`, RATE_LIMITS.publicChart)
 
   if (!rateLimit.success) {
     throw new Error('Too many requests. Please try again later.')
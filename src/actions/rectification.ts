@@ -0,0 +1,290 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import type { BirthTimeRectification, LifeEvent } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import { mapPrismaSubjectToSubject } from '@/lib/db/mappers'
+import { logger } from '@/lib/logging/server'
+import { withAuth, NotFoundError, ValidationError } from '@/lib/security/auth'
+import { parseOrThrow } from '@/lib/validation/parse'
+import { assertCanEditLibrary, getLibraryScope, subjectScopeWhere } from '@/lib/workspaces/server'
+import { rodens_rating } from '@/types/schemas'
+import type { Subject } from '@/types/subjects'
+import {
+  getCandidateMinutes,
+  getRectifiedRodensRating,
+  LIFE_EVENT_CATEGORIES,
+  MAX_RECTIFICATION_CANDIDATES,
+  MAX_RECTIFICATION_EVENTS,
+  parseMinutes,
+  rankBirthTimes,
+  type LifeEventCategory,
+  type LifeEventSummary,
+  type RectificationCandidate,
+  type RectificationLogEntry,
+} from '@/lib/astrology/rectification'
+
+/** Number of ranked candidates returned by a sweep */
+const RECTIFICATION_RESULT_LIMIT = 25
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format')
+
+/** Schema for a new life event */
+const lifeEventSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  category: z.enum(LIFE_EVENT_CATEGORIES.map((category) => category.value) as [LifeEventCategory]),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+})
+
+export type LifeEventInput = z.infer<typeof lifeEventSchema>
+
+/** Schema for the search window of a sweep */
+const rectificationWindowSchema = z
+  .object({
+    windowStart: timeSchema,
+    windowEnd: timeSchema,
+    stepMinutes: z.number().int().min(1).max(60),
+  })
+  .refine((window) => parseMinutes(window.windowEnd) >= parseMinutes(window.windowStart), {
+    message: 'The window must end after it starts',
+  })
+  .refine(
+    (window) =>
+      getCandidateMinutes(parseMinutes(window.windowStart), parseMinutes(window.windowEnd), window.stepMinutes)
+        .length <= MAX_RECTIFICATION_CANDIDATES,
+    { message: `The window may hold at most ${MAX_RECTIFICATION_CANDIDATES} candidate times; use a larger step` },
+  )
+
+export type RectificationWindowInput = z.infer<typeof rectificationWindowSchema>
+
+/** Schema for saving a chosen birth time */
+const applyRectificationSchema = z.object({
+  birthTime: timeSchema,
+  note: z.string().trim().min(1, 'An audit note is required').max(2000),
+  rodensRating: rodens_rating.optional(),
+})
+
+export type ApplyRectificationInput = z.infer<typeof applyRectificationSchema>
+
+function toLifeEventSummary(event: LifeEvent): LifeEventSummary {
+  return {
+    id: event.id,
+    title: event.title,
+    category: event.category as LifeEventCategory,
+    date: event.date.toISOString().split('T')[0]!,
+    createdAt: event.createdAt,
+  }
+}
+
+function toRectificationLogEntry(entry: BirthTimeRectification): RectificationLogEntry {
+  return {
+    id: entry.id,
+    previousBirthDatetime: entry.previousBirthDatetime.toISOString(),
+    birthDatetime: entry.birthDatetime.toISOString(),
+    previousRodensRating: entry.previousRodensRating,
+    rodensRating: entry.rodensRating,
+    note: entry.note,
+    createdAt: entry.createdAt,
+  }
+}
+
+/**
+ * Find a subject in the user's library
+ *
+ * @param forEdit - Require a role that may edit the library
+ * @throws NotFoundError if the subject is not in the user's library
+ * @throws ForbiddenError if editing and the user is read-only
+ */
+async function findLibrarySubject(userId: string, subjectId: string, forEdit = false) {
+  const scope = await getLibraryScope(userId)
+  if (forEdit) assertCanEditLibrary(scope)
+  const subject = await prisma.subject.findFirst({
+    where: { id: subjectId, ...subjectScopeWhere(scope) },
+  })
+  if (!subject) {
+    throw new NotFoundError('Subject not found or unauthorized')
+  }
+  return subject
+}
+
+/**
+ * List the life events of a subject, oldest first
+ *
+ * @param subjectId - ID of a subject in the current user's library
+ */
+export async function listLifeEvents(subjectId: string): Promise<LifeEventSummary[]> {
+  return withAuth(async (session) => {
+    await findLibrarySubject(session.userId, subjectId)
+    const events = await prisma.lifeEvent.findMany({
+      where: { subjectId },
+      orderBy: { date: 'asc' },
+    })
+    return events.map(toLifeEventSummary)
+  })
+}
+
+/**
+ * Add a dated life event to a subject
+ *
+ * @param subjectId - ID of a subject in the current user's library
+ * @param input - Title, category and date of the event
+ * @throws ValidationError if the event is invalid or dated before the birth date
+ */
+export async function createLifeEvent(subjectId: string, input: LifeEventInput): Promise<LifeEventSummary> {
+  const { title, category, date } = parseOrThrow(lifeEventSchema, input, 'Invalid life event')
+
+  return withAuth(async (session) => {
+    const subject = await findLibrarySubject(session.userId, subjectId, true)
+    const eventDate = new Date(`${date}T00:00:00.000Z`)
+    // Out-of-range days (e.g. February 31) roll over into the next month
+    if (Number.isNaN(eventDate.getTime()) || !eventDate.toISOString().startsWith(date)) {
+      throw new ValidationError('Invalid life event', ['Date is not a valid calendar date'])
+    }
+    if (date < subject.birthDatetime.toISOString().split('T')[0]!) {
+      throw new ValidationError('Invalid life event', ['The event must be dated after the birth date'])
+    }
+
+    const event = await prisma.lifeEvent.create({
+      data: { subjectId, title, category, date: eventDate },
+    })
+    return toLifeEventSummary(event)
+  })
+}
+
+/**
+ * Delete a life event
+ *
+ * @param id - Life event ID
+ * @throws NotFoundError if the event does not exist or its subject is not in the user's library
+ */
+export async function deleteLifeEvent(id: string): Promise<{ id: string }> {
+  return withAuth(async (session) => {
+    const scope = await getLibraryScope(session.userId)
+    assertCanEditLibrary(scope)
+
+    const event = await prisma.lifeEvent.findFirst({
+      where: { id, subject: subjectScopeWhere(scope) },
+      select: { id: true },
+    })
+    if (!event) {
+      throw new NotFoundError('Life event not found')
+    }
+
+    await prisma.lifeEvent.delete({ where: { id } })
+    return { id }
+  })
+}
+
+/**
+ * Score candidate birth times in a window of the birth day against the subject's life events
+ *
+ * @param subjectId - ID of a subject in the current user's library
+ * @param window - First and last local times (HH:MM) and the step between candidates
+ * @returns The best candidates, highest score first
+ * @throws ValidationError if the window is invalid, the subject has no birth place or no life events
+ */
+export async function rectifyBirthTime(
+  subjectId: string,
+  window: RectificationWindowInput,
+): Promise<RectificationCandidate[]> {
+  const { windowStart, windowEnd, stepMinutes } = parseOrThrow(
+    rectificationWindowSchema,
+    window,
+    'Invalid rectification window',
+  )
+
+  return withAuth(async (session) => {
+    const subject = await findLibrarySubject(session.userId, subjectId)
+    if (subject.latitude === null || subject.longitude === null) {
+      throw new ValidationError('The subject needs a birth place to be rectified')
+    }
+
+    const events = await prisma.lifeEvent.findMany({
+      where: { subjectId },
+      orderBy: { date: 'asc' },
+      take: MAX_RECTIFICATION_EVENTS,
+    })
+    if (events.length === 0) {
+      throw new ValidationError('Add at least one life event to rectify the birth time')
+    }
+
+    const candidates = rankBirthTimes({
+      birthDate: subject.birthDatetime.toISOString(),
+      timezone: subject.timezone ?? 'UTC',
+      latitude: subject.latitude,
+      longitude: subject.longitude,
+      windowStartMinutes: parseMinutes(windowStart),
+      windowEndMinutes: parseMinutes(windowEnd),
+      stepMinutes,
+      events: events.map(toLifeEventSummary),
+    })
+
+    return candidates.slice(0, RECTIFICATION_RESULT_LIMIT)
+  })
+}
+
+/**
+ * Save a rectified birth time to a subject, recording the change with an audit note
+ *
+ * The birth date is kept; only the time of day changes. The Rodden rating
+ * defaults to XR for subjects without a recorded time and CR otherwise.
+ *
+ * @param subjectId - ID of a subject in the current user's library
+ * @param input - Chosen local birth time (HH:MM), audit note and optional Rodden rating
+ * @returns The updated subject and the audit entry
+ */
+export async function applyRectifiedBirthTime(
+  subjectId: string,
+  input: ApplyRectificationInput,
+): Promise<{ subject: Subject; entry: RectificationLogEntry }> {
+  const { birthTime, note, rodensRating } = parseOrThrow(applyRectificationSchema, input, 'Invalid rectification')
+
+  return withAuth(async (session) => {
+    const existing = await findLibrarySubject(session.userId, subjectId, true)
+    const birthDatetime = new Date(`${existing.birthDatetime.toISOString().split('T')[0]}T${birthTime}:00.000Z`)
+    const nextRating = rodensRating ?? getRectifiedRodensRating(existing.rodensRating)
+
+    const [subject, entry] = await prisma.$transaction([
+      prisma.subject.update({
+        where: { id: subjectId },
+        data: { birthDatetime, rodensRating: nextRating },
+        include: {
+          tags: { where: { ownerId: session.userId }, select: { name: true }, orderBy: { name: 'asc' } },
+          groups: { where: { ownerId: session.userId }, select: { id: true } },
+        },
+      }),
+      prisma.birthTimeRectification.create({
+        data: {
+          subjectId,
+          previousBirthDatetime: existing.birthDatetime,
+          birthDatetime,
+          previousRodensRating: existing.rodensRating,
+          rodensRating: nextRating,
+          note,
+        },
+      }),
+    ])
+
+    logger.info('Saved rectified birth time:', { subjectId, birthTime, userId: session.userId })
+    revalidatePath('/subjects')
+
+    return { subject: mapPrismaSubjectToSubject(subject), entry: toRectificationLogEntry(entry) }
+  })
+}
+
+/**
+ * List the birth times saved from the rectification workbench, newest first
+ *
+ * @param subjectId - ID of a subject in the current user's library
+ */
+export async function listRectifications(subjectId: string): Promise<RectificationLogEntry[]> {
+  return withAuth(async (session) => {
+    await findLibrarySubject(session.userId, subjectId)
+    const entries = await prisma.birthTimeRectification.findMany({
+      where: { subjectId },
+      orderBy: { createdAt: 'desc' },
+    })
+    return entries.map(toRectificationLogEntry)
+  })
+}
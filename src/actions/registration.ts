@@ -87,7 +87,7 @@ export async function registerUser(data: {
   // IP-based rate limiting
   const headersList = await headers()
   const clientIp = getClientIp(headersList)
-  const ipRateLimit = checkRateLimit(`ip:${clientIp}`, RATE_LIMITS.ip)
+  const ipRateLimit = await checkRateLimit(`ip:${clientIp}`, RATE_LIMITS.ip)
   if (!ipRateLimit.success) {
     logger.warn(`IP rate limit exceeded for registration: ${clientIp}`)
     return { error: 'Too many registration attempts from this IP. Please try again later.' }
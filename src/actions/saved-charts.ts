@@ -8,6 +8,11 @@ import {
   getCompositeChart,
   getSolarReturnChart,
   getLunarReturnChart,
+  getProgressedChart,
+  getSolarArcChart,
+  getProgressedLunationChart,
+  getMultiWheelChart,
+  getHoraryChart,
 } from '@/actions/astrology'
 import type { SavedChartParams, ChartLocation } from '@/types/saved-chart-params'
 import type { ChartResponse } from '@/types/astrology'
@@ -186,6 +191,50 @@ export async function getSavedChartData(
         return { success: true, chartType: 'lunar-return', data }
       }
 
+      case 'progressions':
+      case 'solar-arc':
+      case 'progressed-lunation': {
+        const subject = await getSubjectById(params.subjectId)
+        if (!subject) {
+          return { success: false, error: 'Subject not found. It may have been deleted.' }
+        }
+
+        const action = {
+          progressions: getProgressedChart,
+          'solar-arc': getSolarArcChart,
+          'progressed-lunation': getProgressedLunationChart,
+        }[params.type]
+        const data = await action(subject, params.targetDate, chartOptions)
+        return { success: true, chartType: params.type, data }
+      }
+
+      case 'multi-wheel': {
+        const subject = await getSubjectById(params.subjectId)
+        if (!subject) {
+          return { success: false, error: 'Subject not found. It may have been deleted.' }
+        }
+        const data = await getMultiWheelChart(subject, params.rings, chartOptions)
+        return { success: true, chartType: 'multi-wheel', data }
+      }
+
+      case 'horary': {
+        const horarySubject: Subject = {
+          id: 'horary',
+          name: 'Horary',
+          birth_datetime: params.datetime,
+          city: params.location.city,
+          nation: params.location.nation,
+          latitude: params.location.latitude,
+          longitude: params.location.longitude,
+          timezone: params.location.timezone,
+          ownerId: 'system',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }
+        const data = await getHoraryChart(horarySubject, chartOptions)
+        return { success: true, chartType: 'horary', data }
+      }
+
       default:
         return { success: false, error: 'Unknown chart type' }
     }
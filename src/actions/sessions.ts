@@ -0,0 +1,74 @@
+'use server'
+
+import { prisma } from '@/lib/db/prisma'
+import { logger } from '@/lib/logging/server'
+import { withAuth, NotFoundError } from '@/lib/security/auth'
+import { deleteSession, revokeUserSessions } from '@/lib/security/session'
+import { describeUserAgent } from '@/lib/utils/user-agent'
+import type { UserSessionSummary } from '@/types/auth'
+
+/**
+ * Get the signed-in browsers and devices of the current user
+ *
+ * @returns Sessions that are neither revoked nor expired, this one first,
+ *   then by last activity
+ */
+export async function getUserSessions(): Promise<UserSessionSummary[]> {
+  return withAuth(async (session) => {
+    const sessions = await prisma.userSession.findMany({
+      where: { userId: session.userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { lastActiveAt: 'desc' },
+    })
+
+    return sessions
+      .map((userSession) => ({
+        id: userSession.id,
+        device: describeUserAgent(userSession.userAgent),
+        ipAddress: userSession.ipAddress,
+        createdAt: userSession.createdAt,
+        lastActiveAt: userSession.lastActiveAt,
+        current: userSession.id === session.sessionId,
+      }))
+      .sort((a, b) => Number(b.current) - Number(a.current))
+  })
+}
+
+/**
+ * Sign out one browser or device of the current user
+ *
+ * @param id - Session ID
+ * @returns Whether it was this browser, which then has to sign in again
+ * @throws NotFoundError if the session does not belong to the user or is
+ *   already signed out
+ */
+export async function signOutSession(id: string): Promise<{ current: boolean }> {
+  return withAuth(async (session) => {
+    if (id === session.sessionId) {
+      await deleteSession()
+      return { current: true }
+    }
+
+    const { count } = await prisma.userSession.updateMany({
+      where: { id, userId: session.userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+    if (count === 0) {
+      throw new NotFoundError('Session not found')
+    }
+
+    logger.info(`Session ${id} of user ${session.userId} signed out`)
+    return { current: false }
+  })
+}
+
+/**
+ * Sign the current user out on every browser and device, this one included
+ */
+export async function signOutEverywhere(): Promise<void> {
+  return withAuth(async (session) => {
+    const count = await revokeUserSessions(session.userId)
+    await deleteSession()
+
+    logger.info(`User ${session.userId} signed out of ${count} sessions`)
+  })
+}
@@ -0,0 +1,276 @@
+'use server'
+
+import { randomBytes, createHash } from 'crypto'
+import bcrypt from 'bcryptjs'
+import { headers } from 'next/headers'
+import { z } from 'zod'
+import type { ChartShareLink, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import { logger } from '@/lib/logging/server'
+import { withAuth, NotFoundError, ValidationError } from '@/lib/security/auth'
+import { checkRateLimit, getClientIp, RATE_LIMITS } from '@/lib/security/rate-limit'
+import { APP_URL } from '@/lib/config/app'
+import { getSavedChartData } from '@/actions/saved-charts'
+import {
+  getShareLinkExpiry,
+  getShareLinkStatus,
+  MAX_SHARE_LINK_EXPIRY_DAYS,
+  type ShareLinkSummary,
+  type SharedChartSnapshot,
+} from '@/lib/chart/share-links'
+import type { SavedChartParams } from '@/types/saved-chart-params'
+import { assertCanEditLibrary, getLibraryScope, savedChartScopeWhere } from '@/lib/workspaces/server'
+
+/** Schema for the options of a new share link */
+const createShareLinkSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(MAX_SHARE_LINK_EXPIRY_DAYS).nullable().optional(),
+  password: z.string().min(4, 'Password must be at least 4 characters').max(128).optional(),
+  includeNotes: z.boolean(),
+})
+
+export type CreateShareLinkInput = z.infer<typeof createShareLinkSchema>
+
+/** Share tokens are 32 random bytes, hex encoded */
+const shareTokenSchema = z.string().regex(/^[a-f0-9]{64}$/)
+
+/**
+ * Shared chart as delivered to a public viewer
+ */
+export interface SharedChart {
+  name: string
+  chartType: string
+  snapshot: SharedChartSnapshot
+  /** Notes of the saved chart, including a saved AI interpretation; null when the owner excluded them */
+  notes: string | null
+  sharedAt: Date
+}
+
+/**
+ * Outcome of opening a share link
+ */
+export type SharedChartResult =
+  | { status: 'ok'; chart: SharedChart }
+  | { status: 'password-required' }
+  | { status: 'invalid-password' }
+  | { status: 'unavailable'; reason: 'expired' | 'revoked' }
+  | { status: 'not-found' }
+
+/** Saved chart fields needed to render a shared chart */
+const shareLinkWithChart = {
+  savedChart: { select: { name: true, type: true, notes: true } },
+} satisfies Prisma.ChartShareLinkInclude
+
+function hashShareToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function toShareLinkSummary(link: ChartShareLink): ShareLinkSummary {
+  return {
+    id: link.id,
+    status: getShareLinkStatus(link),
+    includeNotes: link.includeNotes,
+    hasPassword: link.passwordHash !== null,
+    expiresAt: link.expiresAt,
+    revokedAt: link.revokedAt,
+    viewCount: link.viewCount,
+    lastViewedAt: link.lastViewedAt,
+    createdAt: link.createdAt,
+  }
+}
+
+/**
+ * Create a read-only share link for a saved chart
+ *
+ * The chart is calculated once and stored with the link, so viewers never
+ * trigger a recalculation and never see the subject IDs of the saved parameters.
+ * Only the SHA-256 hash of the token is stored: the URL is returned once.
+ *
+ * @param savedChartId - ID of a saved chart owned by the current user
+ * @param input - Expiry, optional password and whether to include the notes
+ * @returns The new link and its URL
+ * @throws NotFoundError if the saved chart is not in the user's library
+ * @throws ForbiddenError if the user has read-only access to the workspace
+ * @throws ValidationError if the options are invalid or the chart cannot be calculated
+ */
+export async function createShareLink(
+  savedChartId: string,
+  input: CreateShareLinkInput,
+): Promise<{ link: ShareLinkSummary; url: string }> {
+  return withAuth(async (session) => {
+    const parseResult = createShareLinkSchema.safeParse(input)
+    if (!parseResult.success) {
+      throw new ValidationError(
+        'Invalid share link options',
+        parseResult.error.issues.map((issue) => issue.message),
+      )
+    }
+    const { expiresInDays, password, includeNotes } = parseResult.data
+
+    const scope = await getLibraryScope(session.userId)
+    assertCanEditLibrary(scope)
+    const savedChart = await prisma.savedChart.findFirst({
+      where: { id: savedChartId, ...savedChartScopeWhere(scope) },
+      select: { id: true, chartData: true },
+    })
+    if (!savedChart) {
+      throw new NotFoundError('Saved chart not found')
+    }
+
+    // Charts are shared in the classic theme, like PDF exports
+    const result = await getSavedChartData(JSON.parse(savedChart.chartData) as SavedChartParams, 'classic')
+    if (!result.success) {
+      throw new ValidationError(result.error)
+    }
+    const { success: _success, ...snapshot } = result
+
+    const token = randomBytes(32).toString('hex')
+    const link = await prisma.chartShareLink.create({
+      data: {
+        tokenHash: hashShareToken(token),
+        savedChartId: savedChart.id,
+        userId: session.userId,
+        snapshot: JSON.stringify(snapshot),
+        includeNotes,
+        passwordHash: password ? await bcrypt.hash(password, 12) : null,
+        expiresAt: getShareLinkExpiry(expiresInDays),
+      },
+    })
+
+    logger.info('Created chart share link:', { id: link.id, savedChartId, userId: session.userId })
+
+    return { link: toShareLinkSummary(link), url: `${APP_URL}/share/chart/${token}` }
+  })
+}
+
+/**
+ * List the share links of a saved chart, newest first
+ *
+ * Includes the links every member of the library created for the chart.
+ *
+ * @param savedChartId - ID of a saved chart in the user's library
+ * @returns Links with their status and view counters
+ */
+export async function listShareLinks(savedChartId: string): Promise<ShareLinkSummary[]> {
+  return withAuth(async (session) => {
+    const scope = await getLibraryScope(session.userId)
+    const links = await prisma.chartShareLink.findMany({
+      where: { savedChartId, savedChart: savedChartScopeWhere(scope) },
+      orderBy: { createdAt: 'desc' },
+    })
+    return links.map(toShareLinkSummary)
+  })
+}
+
+/**
+ * Revoke a share link. Revoked links stay listed so their view counts remain visible.
+ *
+ * Any member who can edit the library may revoke a link to one of its charts,
+ * whoever created it.
+ *
+ * @param id - Share link ID
+ * @throws NotFoundError if the link does not exist or its chart is not in the user's library
+ * @throws ForbiddenError if the user has read-only access to the workspace
+ */
+export async function revokeShareLink(id: string): Promise<ShareLinkSummary> {
+  return withAuth(async (session) => {
+    const scope = await getLibraryScope(session.userId)
+    assertCanEditLibrary(scope)
+    const link = await prisma.chartShareLink.findFirst({
+      where: { id, savedChart: savedChartScopeWhere(scope) },
+    })
+    if (!link) {
+      throw new NotFoundError('Share link not found')
+    }
+    if (link.revokedAt) {
+      return toShareLinkSummary(link)
+    }
+
+    const revoked = await prisma.chartShareLink.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    })
+
+    logger.info('Revoked chart share link:', { id, userId: session.userId })
+    return toShareLinkSummary(revoked)
+  })
+}
+
+/**
+ * Look up a share link by token and deliver the chart, checking the password if one is set
+ */
+async function openSharedChart(token: string, password?: string): Promise<SharedChartResult> {
+  if (!shareTokenSchema.safeParse(token).success) {
+    return { status: 'not-found' }
+  }
+
+  const link = await prisma.chartShareLink.findUnique({
+    where: { tokenHash: hashShareToken(token) },
+    include: shareLinkWithChart,
+  })
+  if (!link) {
+    return { status: 'not-found' }
+  }
+
+  const status = getShareLinkStatus(link)
+  if (status !== 'active') {
+    return { status: 'unavailable', reason: status }
+  }
+
+  if (link.passwordHash) {
+    if (password === undefined) {
+      return { status: 'password-required' }
+    }
+    if (!(await bcrypt.compare(password, link.passwordHash))) {
+      return { status: 'invalid-password' }
+    }
+  }
+
+  await prisma.chartShareLink.update({
+    where: { id: link.id },
+    data: { viewCount: { increment: 1 }, lastViewedAt: new Date() },
+  })
+
+  return {
+    status: 'ok',
+    chart: {
+      name: link.savedChart.name,
+      chartType: link.savedChart.type,
+      snapshot: JSON.parse(link.snapshot) as SharedChartSnapshot,
+      notes: link.includeNotes ? link.savedChart.notes : null,
+      sharedAt: link.createdAt,
+    },
+  }
+}
+
+/**
+ * Open a share link without authentication
+ *
+ * Password-protected links return `password-required` without revealing anything
+ * about the chart; use {@link unlockSharedChart}.
+ *
+ * @param token - Token from the share URL
+ */
+export async function getSharedChart(token: string): Promise<SharedChartResult> {
+  return openSharedChart(token)
+}
+
+/**
+ * Open a password-protected share link
+ *
+ * Attempts are rate limited per IP address like login attempts.
+ *
+ * @param token - Token from the share URL
+ * @param password - Password set by the owner
+ * @throws Error if too many attempts were made
+ */
+export async function unlockSharedChart(token: string, password: string): Promise<SharedChartResult> {
+  const headersList = await headers()
+  const clientIp = getClientIp(headersList)
+  const rateLimit = await checkRateLimit(`share_unlock:${clientIp}`, RATE_LIMITS.auth)
+
+  if (!rateLimit.success) {
+    throw new Error('Too many attempts. Please try again later.')
+  }
+
+  return openSharedChart(token, password)
+}
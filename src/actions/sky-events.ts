@@ -0,0 +1,91 @@
+'use server'
+
+import { z } from 'zod'
+import { prisma } from '@/lib/db/prisma'
+import { withAuth, NotFoundError } from '@/lib/security/auth'
+import { parseOrThrow } from '@/lib/validation/parse'
+import { getLibraryScope, subjectScopeWhere } from '@/lib/workspaces/server'
+import { subjectToPositions } from '@/lib/astrology/transit-timeline'
+import { calculateLocalSubject } from '@/lib/ephemeris/local-backend'
+import {
+  findSkyEvents,
+  MAX_SKY_EVENT_RANGE_DAYS,
+  SKY_EVENT_CATEGORIES,
+  type SkyEvent,
+  type SkyEventCategory,
+} from '@/lib/ephemeris/sky-events'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Schema for a sky event search */
+const skyEventsSchema = z
+  .object({
+    startDate: z.string().datetime(),
+    endDate: z.string().datetime(),
+    categories: z.array(z.enum(SKY_EVENT_CATEGORIES as [SkyEventCategory])),
+    points: z.array(z.string()).optional(),
+  })
+  .refine((input) => {
+    const rangeDays = (new Date(input.endDate).getTime() - new Date(input.startDate).getTime()) / DAY_MS
+    return rangeDays >= 0 && rangeDays <= MAX_SKY_EVENT_RANGE_DAYS
+  }, `The range must end after it starts and span at most ${MAX_SKY_EVENT_RANGE_DAYS} days`)
+
+export type SkyEventsInput = z.infer<typeof skyEventsSchema>
+
+/**
+ * Lunations, eclipses, ingresses, stations and void-of-course Moons in a range
+ *
+ * @param input - Range (ISO datetimes), event kinds and the points whose ingresses and stations are searched
+ * @throws ValidationError if the range is inverted or too long
+ */
+export async function getSkyEvents(input: SkyEventsInput): Promise<SkyEvent[]> {
+  const { startDate, endDate, categories, points } = parseOrThrow(skyEventsSchema, input, 'Invalid sky event search')
+
+  return withAuth(async () =>
+    findSkyEvents({ startDate: new Date(startDate), endDate: new Date(endDate), categories, points }),
+  )
+}
+
+/**
+ * Tropical natal longitudes of a subject, to overlay sky events on the natal chart
+ *
+ * Computed with the local ephemeris in the tropical zodiac, the zodiac of sky events.
+ *
+ * @param subjectId - ID of a subject in the current user's library
+ * @returns Longitudes by API point name
+ * @throws NotFoundError if the subject does not exist or is not in the user's library
+ */
+export async function getNatalLongitudes(subjectId: string): Promise<Record<string, number>> {
+  return withAuth(async (session) => {
+    const scope = await getLibraryScope(session.userId)
+    const subject = await prisma.subject.findFirst({
+      where: { id: subjectId, ...subjectScopeWhere(scope) },
+    })
+    if (!subject) {
+      throw new NotFoundError('Subject not found or unauthorized')
+    }
+
+    // birthDatetime holds the local wall-clock time of birth
+    const birth = subject.birthDatetime
+    const positions = subjectToPositions(
+      calculateLocalSubject({
+        name: subject.name,
+        year: birth.getUTCFullYear(),
+        month: birth.getUTCMonth() + 1,
+        day: birth.getUTCDate(),
+        hour: birth.getUTCHours(),
+        minute: birth.getUTCMinutes(),
+        second: birth.getUTCSeconds(),
+        city: subject.city ?? '',
+        nation: subject.nation ?? '',
+        latitude: subject.latitude ?? 0,
+        longitude: subject.longitude ?? 0,
+        timezone: subject.timezone ?? 'UTC',
+        zodiac_type: 'Tropical',
+        perspective_type: 'Apparent Geocentric',
+      }),
+    )
+
+    return Object.fromEntries(Object.entries(positions).map(([name, position]) => [name, position.abs_pos]))
+  })
+}
@@ -2,34 +2,36 @@
 
 /**
  * NOTE: DODO PAYMENTS - This file checks subject limits based on subscription plan
+ *
+ * Subjects are read from and written to the user's library: their personal
+ * library or their active team workspace. Tags and groups stay personal.
  */
 
 import { prisma } from '@/lib/db/prisma'
 import { revalidatePath } from 'next/cache'
-import { mapPrismaSubjectToSubject } from '@/lib/db/mappers'
+import { mapPrismaSubjectToSubject, mapPrismaTagToSubjectTag, mapPrismaGroupToSubjectGroup } from '@/lib/db/mappers'
+import type { Prisma } from '@prisma/client'
 import { logger } from '@/lib/logging/server'
-import { withAuth, NotFoundError, ForbiddenError, ValidationError } from '@/lib/security/auth'
+import { withAuth, NotFoundError, ValidationError } from '@/lib/security/auth'
+import { formatZodErrors, parseOrThrow } from '@/lib/validation/parse'
 import { parseBirthDateTime } from '@/lib/utils/date'
-import { canCreateSubject, getPlanLimits } from '@/lib/subscription/plan-limits' // DODO PAYMENTS: Plan limits
+import { getPlanLimits } from '@/lib/subscription/plan-limits' // DODO PAYMENTS: Plan limits
 import {
   createSubjectSchema,
   updateSubjectSchema,
+  tagNameSchema,
+  subjectGroupSchema,
   type CreateSubjectInput,
   type UpdateSubjectInput,
+  type SubjectGroupInput,
 } from '@/lib/validation/subject'
-import type { Subject } from '@/types/subjects'
+import type { Subject, SubjectTag, SubjectGroup } from '@/types/subjects'
 import { z, ZodError } from 'zod'
 import { getErrorMessage } from '@/lib/utils/error'
-
-/**
- * Parse Zod validation errors into user-friendly messages
- */
-function formatZodErrors(error: ZodError): string[] {
-  return error.issues.map((e) => {
-    const path = e.path.join('.')
-    return path ? `${path}: ${e.message}` : e.message
-  })
-}
+import { emitWebhookEvent } from '@/lib/webhooks/server'
+import { toApiSubject } from '@/lib/public-api/resources'
+import { connectOrCreateTags, ownTagsSelect, replaceOwnTags } from '@/lib/subjects/tags'
+import { assertCanEditLibrary, assertSubjectQuota, getLibraryScope, subjectScopeWhere } from '@/lib/workspaces/server'
 
 /**
  * Validate input using Zod schema and throw ValidationError on failure
@@ -67,17 +69,53 @@ const subjectIdSchema = z.string().uuid('Invalid subject ID format')
 /** Schema for validating an array of subject IDs */
 const subjectIdsSchema = z.array(z.string().uuid('Invalid subject ID format')).min(1, 'At least one ID is required')
 
+/** Schema for validating a tag or group ID */
+const relationIdSchema = z.string().uuid('Invalid ID format')
+
+/** Schema for validating an array of tag or group IDs */
+const relationIdsSchema = z.array(z.string().uuid('Invalid ID format')).min(1, 'At least one ID is required')
+
+/** Schema for validating an array of tag names */
+const tagNamesSchema = z.array(tagNameSchema).min(1, 'At least one tag is required')
+
 /**
- * Get all subjects owned by the current user
+ * Relations loaded with every subject so tags and group membership can be mapped.
+ * Only the user's own tags and groups are loaded, as workspace subjects are shared.
+ */
+function subjectInclude(userId: string) {
+  return {
+    tags: { where: { ownerId: userId }, select: { name: true }, orderBy: { name: 'asc' } },
+    groups: { where: { ownerId: userId }, select: { id: true } },
+  } satisfies Prisma.SubjectInclude
+}
+
+/** Relation count loaded with tags and groups */
+const subjectCountInclude = { _count: { select: { subjects: true } } } satisfies Prisma.TagInclude
+
+/**
+ * Return the subset of subject IDs in the user's library, as Prisma connect inputs
+ */
+async function findLibrarySubjectRefs(userId: string, subjectIds: string[]): Promise<{ id: string }[]> {
+  const scope = await getLibraryScope(userId)
+  return prisma.subject.findMany({
+    where: { id: { in: subjectIds }, ...subjectScopeWhere(scope) },
+    select: { id: true },
+  })
+}
+
+/**
+ * Get all subjects in the current user's library
  *
  * @returns Array of subjects ordered by creation date (newest first)
  * @throws Error if user is not authenticated
  */
 export async function getSubjects(): Promise<Subject[]> {
   return withAuth(async (session) => {
+    const scope = await getLibraryScope(session.userId)
     const subjects = await prisma.subject.findMany({
-      where: { ownerId: session.userId },
+      where: subjectScopeWhere(scope),
       orderBy: { createdAt: 'desc' },
+      include: subjectInclude(session.userId),
     })
 
     return subjects.map(mapPrismaSubjectToSubject)
@@ -88,16 +126,18 @@ export async function getSubjects(): Promise<Subject[]> {
  * Get a single subject by ID
  *
  * @param id - Subject UUID
- * @returns Subject if found and owned by current user, null otherwise
+ * @returns Subject if found in the current user's library, null otherwise
  * @throws Error if user is not authenticated
  */
 export async function getSubjectById(id: string): Promise<Subject | null> {
   return withAuth(async (session) => {
+    const scope = await getLibraryScope(session.userId)
     const subject = await prisma.subject.findFirst({
       where: {
         id,
-        ownerId: session.userId,
+        ...subjectScopeWhere(scope),
       },
+      include: subjectInclude(session.userId),
     })
 
     if (!subject) {
@@ -114,6 +154,7 @@ export async function getSubjectById(id: string): Promise<Subject | null> {
  * @param data - Subject creation data
  * @returns Newly created subject
  * @throws ValidationError if data is invalid
+ * @throws ForbiddenError if the subject limit is reached or the user is read-only
  * @throws Error if user is not authenticated
  */
 export async function createSubject(data: CreateSubjectInput): Promise<Subject> {
@@ -121,23 +162,9 @@ export async function createSubject(data: CreateSubjectInput): Promise<Subject>
   const validatedData = validateCreateSubjectInput(data)
 
   return withAuth(async (session) => {
-    // DODO PAYMENTS: Check subject limit for free plan
-    const user = await prisma.user.findUnique({
-      where: { id: session.userId },
-      select: { subscriptionPlan: true, _count: { select: { subjects: true } } },
-    })
-
-    if (!user) {
-      throw new Error('User not found')
-    }
-
-    const currentCount = user._count.subjects
-    if (!canCreateSubject(user.subscriptionPlan, currentCount)) {
-      const limits = getPlanLimits(user.subscriptionPlan)
-      throw new ForbiddenError(
-        `Subject limit reached. Your plan allows ${limits.maxSubjects} subjects. Upgrade to create more.`,
-      )
-    }
+    const scope = await getLibraryScope(session.userId)
+    assertCanEditLibrary(scope)
+    await assertSubjectQuota(scope)
 
     // Validate birth date
     if (!validatedData.birthDate || isNaN(Date.parse(validatedData.birthDate))) {
@@ -164,14 +191,18 @@ export async function createSubject(data: CreateSubjectInput): Promise<Subject>
         longitude: validatedData.longitude,
         timezone: validatedData.timezone,
         rodensRating: validatedData.rodens_rating,
-
-        tags: validatedData.tags ? JSON.stringify(validatedData.tags) : null,
+        tags: validatedData.tags
+          ? { connectOrCreate: connectOrCreateTags(session.userId, validatedData.tags) }
+          : undefined,
         notes: validatedData.notes,
-        ownerId: session.userId,
+        ownerId: scope.ownerId,
+        workspaceId: scope.workspaceId,
       },
+      include: subjectInclude(session.userId),
     })
 
     revalidatePath('/subjects')
+    emitWebhookEvent(session.userId, 'subject.created', toApiSubject(subject))
 
     return mapPrismaSubjectToSubject(subject)
   })
@@ -193,6 +224,8 @@ export async function findOrCreateSubject(data: CreateSubjectInput): Promise<Sub
   const validatedData = validateCreateSubjectInput(data)
 
   return withAuth(async (session) => {
+    const scope = await getLibraryScope(session.userId)
+
     // Validate birth date
     if (!validatedData.birthDate || isNaN(Date.parse(validatedData.birthDate))) {
       throw new ValidationError('Invalid birth date', ['birthDate: Required'])
@@ -209,10 +242,11 @@ export async function findOrCreateSubject(data: CreateSubjectInput): Promise<Sub
     // Check for existing subject with same name and birthDatetime
     const existing = await prisma.subject.findFirst({
       where: {
-        ownerId: session.userId,
+        ...subjectScopeWhere(scope),
         name: validatedData.name,
         birthDatetime,
       },
+      include: subjectInclude(session.userId),
     })
 
     if (existing) {
@@ -220,23 +254,8 @@ export async function findOrCreateSubject(data: CreateSubjectInput): Promise<Sub
       return mapPrismaSubjectToSubject(existing)
     }
 
-    // DODO PAYMENTS: Check subject limit for free plan
-    const user = await prisma.user.findUnique({
-      where: { id: session.userId },
-      select: { subscriptionPlan: true, _count: { select: { subjects: true } } },
-    })
-
-    if (!user) {
-      throw new Error('User not found')
-    }
-
-    const currentCount = user._count.subjects
-    if (!canCreateSubject(user.subscriptionPlan, currentCount)) {
-      const limits = getPlanLimits(user.subscriptionPlan)
-      throw new ForbiddenError(
-        `Subject limit reached. Your plan allows ${limits.maxSubjects} subjects. Upgrade to create more.`,
-      )
-    }
+    assertCanEditLibrary(scope)
+    await assertSubjectQuota(scope)
 
     const subject = await prisma.subject.create({
       data: {
@@ -248,10 +267,14 @@ export async function findOrCreateSubject(data: CreateSubjectInput): Promise<Sub
         longitude: validatedData.longitude,
         timezone: validatedData.timezone,
         rodensRating: validatedData.rodens_rating,
-        tags: validatedData.tags ? JSON.stringify(validatedData.tags) : null,
+        tags: validatedData.tags
+          ? { connectOrCreate: connectOrCreateTags(session.userId, validatedData.tags) }
+          : undefined,
         notes: validatedData.notes,
-        ownerId: session.userId,
+        ownerId: scope.ownerId,
+        workspaceId: scope.workspaceId,
       },
+      include: subjectInclude(session.userId),
     })
 
     revalidatePath('/subjects')
@@ -273,13 +296,16 @@ export async function updateSubject(data: UpdateSubjectInput): Promise<Subject>
   const validatedData = validateUpdateSubjectInput(data)
 
   return withAuth(async (session) => {
-    // Verify ownership with single optimized query
+    const scope = await getLibraryScope(session.userId)
+    assertCanEditLibrary(scope)
+
+    // Verify the subject is in the library with single optimized query
     const existing = await prisma.subject.findFirst({
       where: {
         id: validatedData.id,
-        ownerId: session.userId,
+        ...subjectScopeWhere(scope),
       },
-      select: { id: true },
+      select: { id: true, tags: ownTagsSelect(session.userId) },
     })
 
     if (!existing) {
@@ -309,12 +335,14 @@ export async function updateSubject(data: UpdateSubjectInput): Promise<Subject>
         timezone: validatedData.timezone,
         rodensRating: validatedData.rodens_rating,
 
-        tags: validatedData.tags ? JSON.stringify(validatedData.tags) : undefined,
+        tags: validatedData.tags ? replaceOwnTags(session.userId, validatedData.tags, existing.tags) : undefined,
         notes: validatedData.notes,
       },
+      include: subjectInclude(session.userId),
     })
 
     revalidatePath('/subjects')
+    emitWebhookEvent(session.userId, 'subject.updated', toApiSubject(subject))
 
     return mapPrismaSubjectToSubject(subject)
   })
@@ -336,11 +364,14 @@ export async function deleteSubject(id: string): Promise<{ id: string }> {
   }
 
   return withAuth(async (session) => {
-    // Use deleteMany with conditions to verify ownership and delete in one query
+    const scope = await getLibraryScope(session.userId)
+    assertCanEditLibrary(scope)
+
+    // Use deleteMany with conditions to verify the library and delete in one query
     const result = await prisma.subject.deleteMany({
       where: {
         id,
-        ownerId: session.userId,
+        ...subjectScopeWhere(scope),
       },
     })
 
@@ -349,6 +380,7 @@ export async function deleteSubject(id: string): Promise<{ id: string }> {
     }
 
     revalidatePath('/subjects')
+    emitWebhookEvent(session.userId, 'subject.deleted', { id })
 
     return { id }
   })
@@ -370,10 +402,13 @@ export async function deleteSubjects(ids: string[]): Promise<{ count: number }>
   }
 
   return withAuth(async (session) => {
+    const scope = await getLibraryScope(session.userId)
+    assertCanEditLibrary(scope)
+
     const result = await prisma.subject.deleteMany({
       where: {
         id: { in: ids },
-        ownerId: session.userId,
+        ...subjectScopeWhere(scope),
       },
     })
 
@@ -401,9 +436,12 @@ export async function importSubjects(
   }
 
   return withAuth(async (session) => {
-    // DODO PAYMENTS: Check subject limit for free plan
+    const scope = await getLibraryScope(session.userId)
+    assertCanEditLibrary(scope)
+
+    // DODO PAYMENTS: Check subject limit for free plan (the workspace owner's plan in a workspace)
     const user = await prisma.user.findUnique({
-      where: { id: session.userId },
+      where: { id: scope.ownerId },
       select: { subscriptionPlan: true },
     })
 
@@ -415,7 +453,7 @@ export async function importSubjects(
 
     // Fetch existing subjects for deduplication
     const existingSubjects = await prisma.subject.findMany({
-      where: { ownerId: session.userId },
+      where: subjectScopeWhere(scope),
       select: { name: true, birthDatetime: true },
     })
 
@@ -485,9 +523,10 @@ export async function importSubjects(
             longitude: data.longitude,
             timezone: data.timezone,
             rodensRating: data.rodens_rating,
-            tags: data.tags ? JSON.stringify(data.tags) : null,
+            tags: data.tags ? { connectOrCreate: connectOrCreateTags(session.userId, data.tags) } : undefined,
             notes: data.notes,
-            ownerId: session.userId,
+            ownerId: scope.ownerId,
+            workspaceId: scope.workspaceId,
           },
         })
 
@@ -507,3 +546,455 @@ export async function importSubjects(
     return { created: createdCount, skipped: skippedCount, failed: failedCount, errors }
   })
 }
+
+// ============================================================================
+// Tags
+// ============================================================================
+
+/**
+ * Get all tags owned by the current user
+ *
+ * @returns Tags ordered by name, with the number of tagged subjects
+ * @throws Error if user is not authenticated
+ */
+export async function getTags(): Promise<SubjectTag[]> {
+  return withAuth(async (session) => {
+    const tags = await prisma.tag.findMany({
+      where: { ownerId: session.userId },
+      orderBy: { name: 'asc' },
+      include: subjectCountInclude,
+    })
+
+    return tags.map(mapPrismaTagToSubjectTag)
+  })
+}
+
+/**
+ * Create a tag (returns the existing tag if one with the same name exists)
+ *
+ * @param name - Tag name
+ * @returns Created or existing tag
+ * @throws ValidationError if name is invalid
+ * @throws Error if user is not authenticated
+ */
+export async function createTag(name: string): Promise<SubjectTag> {
+  const validatedName = parseOrThrow(tagNameSchema, name, 'Invalid tag name')
+
+  return withAuth(async (session) => {
+    const tag = await prisma.tag.upsert({
+      where: { ownerId_name: { ownerId: session.userId, name: validatedName } },
+      create: { name: validatedName, ownerId: session.userId },
+      update: {},
+      include: subjectCountInclude,
+    })
+
+    revalidatePath('/subjects')
+
+    return mapPrismaTagToSubjectTag(tag)
+  })
+}
+
+/**
+ * Rename a tag on every subject it is attached to
+ *
+ * @param id - Tag UUID
+ * @param name - New tag name
+ * @returns Renamed tag
+ * @throws ValidationError if input is invalid or another tag already uses the name
+ * @throws Error if user is not authenticated or unauthorized
+ */
+export async function renameTag(id: string, name: string): Promise<SubjectTag> {
+  parseOrThrow(relationIdSchema, id, 'Invalid tag ID')
+  const validatedName = parseOrThrow(tagNameSchema, name, 'Invalid tag name')
+
+  return withAuth(async (session) => {
+    const existing = await prisma.tag.findFirst({
+      where: { id, ownerId: session.userId },
+      select: { id: true },
+    })
+
+    if (!existing) {
+      throw new NotFoundError('Tag not found or unauthorized')
+    }
+
+    const conflict = await prisma.tag.findFirst({
+      where: { ownerId: session.userId, name: validatedName, NOT: { id } },
+      select: { id: true },
+    })
+
+    if (conflict) {
+      throw new ValidationError(`A tag named "${validatedName}" already exists`, [
+        'name: Merge the tags instead of renaming',
+      ])
+    }
+
+    const tag = await prisma.tag.update({
+      where: { id },
+      data: { name: validatedName },
+      include: subjectCountInclude,
+    })
+
+    revalidatePath('/subjects')
+
+    return mapPrismaTagToSubjectTag(tag)
+  })
+}
+
+/**
+ * Merge tags into a target tag
+ *
+ * Subjects tagged with any source tag are tagged with the target,
+ * then the source tags are deleted.
+ *
+ * @param sourceIds - Tag UUIDs to merge away
+ * @param targetId - Tag UUID that remains
+ * @returns Merged tag with its updated subject count
+ * @throws ValidationError if IDs are invalid
+ * @throws Error if user is not authenticated or unauthorized
+ */
+export async function mergeTags(sourceIds: string[], targetId: string): Promise<SubjectTag> {
+  parseOrThrow(relationIdsSchema, sourceIds, 'Invalid tag IDs')
+  parseOrThrow(relationIdSchema, targetId, 'Invalid tag ID')
+
+  const mergedIds = sourceIds.filter((id) => id !== targetId)
+
+  return withAuth(async (session) => {
+    const ownedCount = await prisma.tag.count({
+      where: { id: { in: [targetId, ...mergedIds] }, ownerId: session.userId },
+    })
+
+    if (ownedCount !== mergedIds.length + 1) {
+      throw new NotFoundError('Tag not found or unauthorized')
+    }
+
+    const tag = await prisma.$transaction(async (tx) => {
+      const subjects = await tx.subject.findMany({
+        where: { tags: { some: { id: { in: mergedIds } } } },
+        select: { id: true },
+      })
+
+      await tx.tag.deleteMany({ where: { id: { in: mergedIds }, ownerId: session.userId } })
+
+      return tx.tag.update({
+        where: { id: targetId },
+        data: { subjects: { connect: subjects } },
+        include: subjectCountInclude,
+      })
+    })
+
+    revalidatePath('/subjects')
+
+    return mapPrismaTagToSubjectTag(tag)
+  })
+}
+
+/**
+ * Delete a tag (subjects are kept, only the tag is removed from them)
+ *
+ * @param id - Tag UUID
+ * @returns Object with deleted tag's id
+ * @throws ValidationError if id is invalid
+ * @throws Error if user is not authenticated or unauthorized
+ */
+export async function deleteTag(id: string): Promise<{ id: string }> {
+  parseOrThrow(relationIdSchema, id, 'Invalid tag ID')
+
+  return withAuth(async (session) => {
+    const result = await prisma.tag.deleteMany({
+      where: { id, ownerId: session.userId },
+    })
+
+    if (result.count === 0) {
+      throw new NotFoundError('Tag not found or unauthorized')
+    }
+
+    revalidatePath('/subjects')
+
+    return { id }
+  })
+}
+
+/**
+ * Add or remove tags on multiple subjects at once
+ *
+ * Missing tags are created when adding. Subjects outside the user's library are ignored.
+ *
+ * @param subjectIds - Subject UUIDs to update
+ * @param tagNames - Tag names to add or remove
+ * @param mode - Whether to add or remove the tags
+ * @returns Object with count of updated subjects
+ * @throws ValidationError if input is invalid
+ * @throws Error if user is not authenticated
+ */
+export async function bulkAssignTags(
+  subjectIds: string[],
+  tagNames: string[],
+  mode: 'add' | 'remove' = 'add',
+): Promise<{ count: number }> {
+  parseOrThrow(subjectIdsSchema, subjectIds, 'Invalid subject IDs')
+  const names = parseOrThrow(tagNamesSchema, tagNames, 'Invalid tag names')
+
+  return withAuth(async (session) => {
+    const subjects = await findLibrarySubjectRefs(session.userId, subjectIds)
+
+    if (subjects.length === 0) {
+      return { count: 0 }
+    }
+
+    if (mode === 'add') {
+      await prisma.$transaction(
+        connectOrCreateTags(session.userId, names).map(({ where, create }) =>
+          prisma.tag.upsert({
+            where,
+            create: { ...create, subjects: { connect: subjects } },
+            update: { subjects: { connect: subjects } },
+          }),
+        ),
+      )
+    } else {
+      const tags = await prisma.tag.findMany({
+        where: { ownerId: session.userId, name: { in: names } },
+        select: { id: true },
+      })
+      await prisma.$transaction(
+        tags.map((tag) =>
+          prisma.tag.update({
+            where: { id: tag.id },
+            data: { subjects: { disconnect: subjects } },
+          }),
+        ),
+      )
+    }
+
+    revalidatePath('/subjects')
+
+    return { count: subjects.length }
+  })
+}
+
+// ============================================================================
+// Subject Groups
+// ============================================================================
+
+/**
+ * Get all subject groups owned by the current user
+ *
+ * @returns Groups ordered by name, with the number of member subjects
+ * @throws Error if user is not authenticated
+ */
+export async function getSubjectGroups(): Promise<SubjectGroup[]> {
+  return withAuth(async (session) => {
+    const groups = await prisma.subjectGroup.findMany({
+      where: { ownerId: session.userId },
+      orderBy: { name: 'asc' },
+      include: subjectCountInclude,
+    })
+
+    return groups.map(mapPrismaGroupToSubjectGroup)
+  })
+}
+
+/**
+ * Create a subject group, optionally with initial members
+ *
+ * @param data - Group name and description
+ * @param subjectIds - Optional subject UUIDs to add to the group
+ * @returns Newly created group
+ * @throws ValidationError if input is invalid or the name is already used
+ * @throws Error if user is not authenticated
+ */
+export async function createSubjectGroup(data: SubjectGroupInput, subjectIds: string[] = []): Promise<SubjectGroup> {
+  const validatedData = parseOrThrow(subjectGroupSchema, data, 'Invalid group data')
+  if (subjectIds.length > 0) {
+    parseOrThrow(subjectIdsSchema, subjectIds, 'Invalid subject IDs')
+  }
+
+  return withAuth(async (session) => {
+    const conflict = await prisma.subjectGroup.findFirst({
+      where: { ownerId: session.userId, name: validatedData.name },
+      select: { id: true },
+    })
+
+    if (conflict) {
+      throw new ValidationError(`A group named "${validatedData.name}" already exists`, ['name: Must be unique'])
+    }
+
+    const subjects = subjectIds.length > 0 ? await findLibrarySubjectRefs(session.userId, subjectIds) : []
+
+    const group = await prisma.subjectGroup.create({
+      data: {
+        name: validatedData.name,
+        description: validatedData.description ?? null,
+        ownerId: session.userId,
+        subjects: { connect: subjects },
+      },
+      include: subjectCountInclude,
+    })
+
+    revalidatePath('/subjects')
+
+    return mapPrismaGroupToSubjectGroup(group)
+  })
+}
+
+/**
+ * Rename a subject group or update its description
+ *
+ * @param id - Group UUID
+ * @param data - New group name and description
+ * @returns Updated group
+ * @throws ValidationError if input is invalid or another group already uses the name
+ * @throws Error if user is not authenticated or unauthorized
+ */
+export async function updateSubjectGroup(id: string, data: SubjectGroupInput): Promise<SubjectGroup> {
+  parseOrThrow(relationIdSchema, id, 'Invalid group ID')
+  const validatedData = parseOrThrow(subjectGroupSchema, data, 'Invalid group data')
+
+  return withAuth(async (session) => {
+    const existing = await prisma.subjectGroup.findFirst({
+      where: { id, ownerId: session.userId },
+      select: { id: true },
+    })
+
+    if (!existing) {
+      throw new NotFoundError('Group not found or unauthorized')
+    }
+
+    const conflict = await prisma.subjectGroup.findFirst({
+      where: { ownerId: session.userId, name: validatedData.name, NOT: { id } },
+      select: { id: true },
+    })
+
+    if (conflict) {
+      throw new ValidationError(`A group named "${validatedData.name}" already exists`, ['name: Must be unique'])
+    }
+
+    const group = await prisma.subjectGroup.update({
+      where: { id },
+      data: { name: validatedData.name, description: validatedData.description },
+      include: subjectCountInclude,
+    })
+
+    revalidatePath('/subjects')
+
+    return mapPrismaGroupToSubjectGroup(group)
+  })
+}
+
+/**
+ * Merge subject groups into a target group
+ *
+ * Members of every source group are added to the target,
+ * then the source groups are deleted.
+ *
+ * @param sourceIds - Group UUIDs to merge away
+ * @param targetId - Group UUID that remains
+ * @returns Merged group with its updated subject count
+ * @throws ValidationError if IDs are invalid
+ * @throws Error if user is not authenticated or unauthorized
+ */
+export async function mergeSubjectGroups(sourceIds: string[], targetId: string): Promise<SubjectGroup> {
+  parseOrThrow(relationIdsSchema, sourceIds, 'Invalid group IDs')
+  parseOrThrow(relationIdSchema, targetId, 'Invalid group ID')
+
+  const mergedIds = sourceIds.filter((id) => id !== targetId)
+
+  return withAuth(async (session) => {
+    const ownedCount = await prisma.subjectGroup.count({
+      where: { id: { in: [targetId, ...mergedIds] }, ownerId: session.userId },
+    })
+
+    if (ownedCount !== mergedIds.length + 1) {
+      throw new NotFoundError('Group not found or unauthorized')
+    }
+
+    const group = await prisma.$transaction(async (tx) => {
+      const subjects = await tx.subject.findMany({
+        where: { groups: { some: { id: { in: mergedIds } } } },
+        select: { id: true },
+      })
+
+      await tx.subjectGroup.deleteMany({ where: { id: { in: mergedIds }, ownerId: session.userId } })
+
+      return tx.subjectGroup.update({
+        where: { id: targetId },
+        data: { subjects: { connect: subjects } },
+        include: subjectCountInclude,
+      })
+    })
+
+    revalidatePath('/subjects')
+
+    return mapPrismaGroupToSubjectGroup(group)
+  })
+}
+
+/**
+ * Delete a subject group (member subjects are kept)
+ *
+ * @param id - Group UUID
+ * @returns Object with deleted group's id
+ * @throws ValidationError if id is invalid
+ * @throws Error if user is not authenticated or unauthorized
+ */
+export async function deleteSubjectGroup(id: string): Promise<{ id: string }> {
+  parseOrThrow(relationIdSchema, id, 'Invalid group ID')
+
+  return withAuth(async (session) => {
+    const result = await prisma.subjectGroup.deleteMany({
+      where: { id, ownerId: session.userId },
+    })
+
+    if (result.count === 0) {
+      throw new NotFoundError('Group not found or unauthorized')
+    }
+
+    revalidatePath('/subjects')
+
+    return { id }
+  })
+}
+
+/**
+ * Add or remove multiple subjects from a group
+ *
+ * Subjects outside the user's library are ignored.
+ *
+ * @param groupId - Group UUID
+ * @param subjectIds - Subject UUIDs to add or remove
+ * @param mode - Whether to add or remove the subjects
+ * @returns Updated group with its subject count
+ * @throws ValidationError if input is invalid
+ * @throws Error if user is not authenticated or unauthorized
+ */
+export async function bulkAssignSubjectGroup(
+  groupId: string,
+  subjectIds: string[],
+  mode: 'add' | 'remove' = 'add',
+): Promise<SubjectGroup> {
+  parseOrThrow(relationIdSchema, groupId, 'Invalid group ID')
+  parseOrThrow(subjectIdsSchema, subjectIds, 'Invalid subject IDs')
+
+  return withAuth(async (session) => {
+    const existing = await prisma.subjectGroup.findFirst({
+      where: { id: groupId, ownerId: session.userId },
+      select: { id: true },
+    })
+
+    if (!existing) {
+      throw new NotFoundError('Group not found or unauthorized')
+    }
+
+    const subjects = await findLibrarySubjectRefs(session.userId, subjectIds)
+
+    const group = await prisma.subjectGroup.update({
+      where: { id: groupId },
+      data: { subjects: mode === 'add' ? { connect: subjects } : { disconnect: subjects } },
+      include: subjectCountInclude,
+    })
+
+    revalidatePath('/subjects')
+
+    return mapPrismaGroupToSubjectGroup(group)
+  })
+}
@@ -1,196 +1,96 @@
 'use server'
 
-import { astrologerApi } from '@/lib/api/astrologer'
-import { logger } from '@/lib/logging/server'
 import { getSession } from '@/lib/security/session'
+import { checkRateLimit, RATE_LIMITS } from '@/lib/security/rate-limit'
 import { trackChartCalculation } from '@/actions/astrology'
-import type {
-  SubjectModel,
-  ChartRequestOptions,
-  EnrichedSubjectModel,
-  Aspect,
-  HouseComparisonPoint,
-} from '@/types/astrology'
-
-// Define the type here to avoid importing from lib/api/transits.ts which has client-side dependencies
-export interface TransitDayData {
-  date: string
-  transitSubject: EnrichedSubjectModel
-  aspects: Aspect[]
-  houseComparison: {
-    first_points_in_second_houses: HouseComparisonPoint[]
-    second_points_in_first_houses: HouseComparisonPoint[]
-  }
-}
-
-// Retry configuration
-const MAX_RETRIES = 3
-const INITIAL_DELAY_MS = 1000 // 1 second
-
-/**
- * Sleep for a given number of milliseconds
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms))
-}
+import {
+  findTransitEvents,
+  subjectToPositions,
+  type TimelineAspectConfig,
+  type TransitTimeline,
+} from '@/lib/astrology/transit-timeline'
+import { getMidpointTimelineTargets, MAX_MIDPOINT_ORB } from '@/lib/astrology/midpoints'
+import { calculateLocalSubject, getLocalPointPositions } from '@/lib/ephemeris/local-backend'
+import type { SubjectModel, ChartRequestOptions } from '@/types/astrology'
+
+// Maximum allowed range for the event-based timeline (10 years)
+const MAX_TIMELINE_RANGE_DAYS = 3653
 
 /**
- * Fetch transit data for a single date with retry logic
+ * Compute discrete transit events (orb ingress, exact hits, orb exit) for a natal subject.
+ *
+ * The ephemeris is sampled on a coarse grid and each crossing is refined by
+ * bisection to the minute, which makes multi-year ranges (up to 10 years)
+ * practical. A search needs thousands of positions, so they come from the
+ * local ephemeris rather than the Astrologer API. Aspects do not depend on the
+ * zodiac, so the natal chart is computed tropical and sidereal charts get the
+ * same events. Points the local ephemeris cannot compute are reported in
+ * `skippedPoints`.
+ *
+ * @param natalSubject - Natal subject including zodiac/house configuration
+ * @param startDate - Start of the range
+ * @param endDate - End of the range
+ * @param chartOptions - Active points and aspects (with orbs) to search for
+ * @param midpointOrb - When set, also search hard aspects to the natal midpoints within this orb
+ * @returns Timeline of transit events sorted chronologically
+ * @throws TimelineBudgetError if the search needs too many ephemeris calculations
  */
-async function fetchTransitWithRetry(
+export async function getTransitTimeline(
   natalSubject: SubjectModel,
-  date: Date,
+  startDate: Date,
+  endDate: Date,
   chartOptions?: ChartRequestOptions,
-): Promise<TransitDayData | null> {
-  const transitSubject: SubjectModel = {
-    name: 'Transit',
-    year: date.getUTCFullYear(),
-    month: date.getUTCMonth() + 1,
-    day: date.getUTCDate(),
-    hour: 12,
-    minute: 0,
-    second: 0,
-    city: natalSubject.city,
-    nation: natalSubject.nation,
-    timezone: natalSubject.timezone || 'UTC',
-    longitude: natalSubject.longitude || 0,
-    latitude: natalSubject.latitude || 0,
+  midpointOrb?: number,
+): Promise<TransitTimeline> {
+  const session = await getSession()
+  if (!session?.userId) {
+    throw new Error('Unauthorized')
   }
 
-  // Sanitize subjects
-  const cleanNatalSubject: SubjectModel = {
-    name: natalSubject.name,
-    year: natalSubject.year,
-    month: natalSubject.month,
-    day: natalSubject.day,
-    hour: natalSubject.hour,
-    minute: natalSubject.minute,
-    second: natalSubject.second || 0,
-    city: natalSubject.city,
-    nation: natalSubject.nation,
-    timezone: natalSubject.timezone,
-    longitude: natalSubject.longitude,
-    latitude: natalSubject.latitude,
+  // Each request computes thousands of ephemeris positions
+  const rateLimit = await checkRateLimit(`transit_timeline:${session.userId}`, RATE_LIMITS.strict)
+  if (!rateLimit.success) {
+    throw new Error('Too many requests. Please try again later.')
   }
 
-  const cleanTransitSubject: SubjectModel = {
-    name: transitSubject.name,
-    year: transitSubject.year,
-    month: transitSubject.month,
-    day: transitSubject.day,
-    hour: transitSubject.hour,
-    minute: transitSubject.minute,
-    second: transitSubject.second || 0,
-    city: transitSubject.city,
-    nation: transitSubject.nation,
-    timezone: transitSubject.timezone,
-    longitude: transitSubject.longitude,
-    latitude: transitSubject.latitude,
+  const rangeInDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24))
+  if (rangeInDays <= 0) {
+    throw new Error('End date must be after start date.')
   }
-
-  const computationOptions = chartOptions
-    ? {
-        active_points: chartOptions.active_points,
-        active_aspects: chartOptions.active_aspects,
-        distribution_method: chartOptions.distribution_method,
-        custom_distribution_weights: chartOptions.custom_distribution_weights,
-      }
-    : undefined
-
-  let lastError: Error | null = null
-
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      const response = await astrologerApi.getTransitChartData(
-        cleanNatalSubject,
-        cleanTransitSubject,
-        computationOptions,
-      )
-
-      if (response.status === 'OK' && response.chart_data.second_subject) {
-        return {
-          date: date.toISOString(),
-          transitSubject: response.chart_data.second_subject,
-          aspects: response.chart_data.aspects || [],
-          houseComparison: response.chart_data.house_comparison || {
-            first_points_in_second_houses: [],
-            second_points_in_first_houses: [],
-          },
-        } as TransitDayData
-      }
-
-      // Response OK but missing data
-      logger.warn(`Transit API returned incomplete data for ${date.toISOString()}`)
-      return null
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error))
-
-      if (attempt < MAX_RETRIES) {
-        const delay = INITIAL_DELAY_MS * attempt // 1s, 2s, 3s
-        logger.warn(
-          `Transit fetch attempt ${attempt}/${MAX_RETRIES} failed for ${date.toISOString()}, retrying in ${delay}ms...`,
-        )
-        await sleep(delay)
-      }
-    }
-  }
-
-  // All retries exhausted
-  logger.error(`Failed to fetch transit for ${date.toISOString()} after ${MAX_RETRIES} attempts:`, lastError)
-  return null
-}
-
-// Maximum allowed date range in days to prevent DoS attacks
-const MAX_DATE_RANGE_DAYS = 365
-
-export async function getTransitRange(
-  natalSubject: SubjectModel,
-  startDate: Date,
-  endDate: Date,
-  chartOptions?: ChartRequestOptions,
-): Promise<TransitDayData[]> {
-  // Validate date range to prevent DoS attacks
-  const rangeInMs = endDate.getTime() - startDate.getTime()
-  const rangeInDays = Math.ceil(rangeInMs / (1000 * 60 * 60 * 24))
-
-  if (rangeInDays > MAX_DATE_RANGE_DAYS) {
+  if (rangeInDays > MAX_TIMELINE_RANGE_DAYS) {
     throw new Error(
-      `Date range exceeds maximum allowed (${MAX_DATE_RANGE_DAYS} days). Requested range: ${rangeInDays} days.`,
+      `Date range exceeds maximum allowed (${MAX_TIMELINE_RANGE_DAYS} days). Requested range: ${rangeInDays} days.`,
     )
   }
-
-  // Track timeline usage
-  const session = await getSession()
-  if (session?.userId) {
-    void trackChartCalculation('timeline')
-  }
-
-  const transitData: TransitDayData[] = []
-  const currentDate = new Date(startDate)
-  const sampleIntervalDays = 1
-
-  // Create array of dates to fetch
-  const datesToFetch: Date[] = []
-  // Clone dates to avoid reference issues
-  const end = new Date(endDate)
-
-  while (currentDate <= end) {
-    datesToFetch.push(new Date(currentDate))
-    currentDate.setDate(currentDate.getDate() + sampleIntervalDays)
-  }
-
-  // Process in chunks to avoid overwhelming the API but faster than serial
-  const CHUNK_SIZE = 5
-  for (let i = 0; i < datesToFetch.length; i += CHUNK_SIZE) {
-    const chunk = datesToFetch.slice(i, i + CHUNK_SIZE)
-
-    const results = await Promise.all(chunk.map((date) => fetchTransitWithRetry(natalSubject, date, chartOptions)))
-
-    // Filter out nulls and add to result
-    results.forEach((r) => {
-      if (r) transitData.push(r)
-    })
+  if (midpointOrb !== undefined && !(midpointOrb > 0 && midpointOrb <= MAX_MIDPOINT_ORB)) {
+    throw new Error(`Midpoint orb must be between 0 and ${MAX_MIDPOINT_ORB} degrees.`)
   }
 
-  return transitData
+  void trackChartCalculation('timeline')
+
+  const activePoints = chartOptions?.active_points
+  const natalPositions = subjectToPositions(
+    calculateLocalSubject({ ...natalSubject, zodiac_type: 'Tropical', perspective_type: 'Apparent Geocentric' }),
+  )
+
+  // Only track the points the user enabled (natal angles remain valid targets)
+  const natalTargets = activePoints
+    ? Object.fromEntries(Object.entries(natalPositions).filter(([name]) => activePoints.includes(name)))
+    : natalPositions
+  const transitPoints = activePoints ?? Object.keys(natalPositions)
+
+  const aspects = ((chartOptions?.active_aspects ?? []) as TimelineAspectConfig[]).filter(
+    (aspect) => typeof aspect?.name === 'string' && typeof aspect.orb === 'number',
+  )
+
+  return findTransitEvents({
+    provider: async (time) => getLocalPointPositions(time, transitPoints),
+    natalPositions: natalTargets,
+    transitPoints,
+    aspects,
+    midpoints: midpointOrb !== undefined ? getMidpointTimelineTargets(natalTargets, midpointOrb) : undefined,
+    startDate,
+    endDate,
+    concurrency: 1,
+  })
 }
@@ -0,0 +1,322 @@
+'use server'
+
+import { z } from 'zod'
+import { prisma } from '@/lib/db/prisma'
+import { logger } from '@/lib/logging/server'
+import { withAuth, NotFoundError, ValidationError } from '@/lib/security/auth'
+import { checkRateLimit, RATE_LIMITS } from '@/lib/security/rate-limit'
+import { buildTotpUri, generateTotpSecret } from '@/lib/security/totp'
+import {
+  TOTP_ISSUER,
+  confirmTotpSecret,
+  countRecoveryCodes,
+  enableUserTwoFactor,
+  issuePasskeyRegistrationChallenge,
+  issueRecoveryCodes,
+  resetTwoFactor,
+  takePasskeyRegistrationChallenge,
+  verifyTwoFactorCode,
+} from '@/lib/security/two-factor'
+import {
+  WEBAUTHN_ALGORITHMS,
+  WEBAUTHN_TIMEOUT_MS,
+  WebAuthnError,
+  getRelyingParty,
+  verifyPasskeyRegistration,
+} from '@/lib/security/webauthn'
+import {
+  MAX_PASSKEYS,
+  PASSKEY_NAME_MAX_LENGTH,
+  type PasskeyRegistrationOptions,
+  type PasskeyRegistrationResponse,
+  type TotpSetup,
+  type TwoFactorStatus,
+} from '@/lib/two-factor/types'
+
+/** Schema for a passkey returned by the browser */
+const passkeyRegistrationSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(PASSKEY_NAME_MAX_LENGTH, 'Name is too long'),
+  response: z.object({
+    id: z.string().min(1),
+    clientDataJSON: z.string().min(1),
+    authenticatorData: z.string().min(1),
+    publicKey: z.string().min(1),
+    publicKeyAlgorithm: z.number().int(),
+    transports: z.array(z.string()).max(10),
+  }),
+})
+
+export type PasskeyRegistrationInput = { name: string; response: PasskeyRegistrationResponse }
+
+/**
+ * Throw unless the user may try another code; the login form has its own
+ * limit, this one covers the settings
+ */
+async function assertCodeRateLimit(userId: string): Promise<void> {
+  const rateLimit = await checkRateLimit(`two_factor:${userId}`, RATE_LIMITS.auth)
+  if (!rateLimit.success) {
+    throw new ValidationError('Too many attempts. Please wait a minute and try again.')
+  }
+}
+
+/**
+ * Check a code from the authenticator app or a recovery code of the user
+ *
+ * @throws ValidationError if the code does not match
+ */
+async function assertTwoFactorCode(userId: string, code: string): Promise<void> {
+  await assertCodeRateLimit(userId)
+  if (!(await verifyTwoFactorCode({ kind: 'user', id: userId }, code))) {
+    throw new ValidationError('Invalid code')
+  }
+}
+
+/**
+ * Get the second factors of the current user
+ */
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus> {
+  return withAuth(async (session) => {
+    const user = await prisma.user.findUnique({
+      where: { id: session.userId },
+      select: {
+        twoFactorEnabledAt: true,
+        totpEnabledAt: true,
+        passkeys: {
+          select: { id: true, name: true, createdAt: true, lastUsedAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+    if (!user) {
+      throw new NotFoundError('User not found')
+    }
+
+    return {
+      enabled: !!user.twoFactorEnabledAt,
+      totpEnabled: !!user.totpEnabledAt,
+      passkeys: user.passkeys,
+      recoveryCodesRemaining: await countRecoveryCodes({ kind: 'user', id: session.userId }),
+    }
+  })
+}
+
+/**
+ * Start setting up an authenticator app
+ *
+ * A new secret is stored unconfirmed; it only protects logins once
+ * `confirmTotpSetup` receives a matching code.
+ *
+ * @throws ValidationError if an authenticator app is already set up
+ */
+export async function startTotpSetup(): Promise<TotpSetup> {
+  return withAuth(async (session) => {
+    const user = await prisma.user.findUnique({
+      where: { id: session.userId },
+      select: { totpEnabledAt: true },
+    })
+    if (!user) {
+      throw new NotFoundError('User not found')
+    }
+    if (user.totpEnabledAt) {
+      throw new ValidationError('An authenticator app is already set up')
+    }
+
+    const secret = generateTotpSecret()
+    await prisma.user.update({ where: { id: session.userId }, data: { totpSecret: secret } })
+
+    return { secret, uri: buildTotpUri(secret, session.username, TOTP_ISSUER) }
+  })
+}
+
+/**
+ * Confirm the authenticator app with a first code
+ *
+ * @param code - Code shown by the app
+ * @returns Recovery codes when this turned two-factor authentication on,
+ *   null when it was already on
+ * @throws ValidationError if there is no setup in progress or the code does not match
+ */
+export async function confirmTotpSetup(code: string): Promise<{ recoveryCodes: string[] | null }> {
+  return withAuth(async (session) => {
+    const user = await prisma.user.findUnique({
+      where: { id: session.userId },
+      select: { totpSecret: true, totpEnabledAt: true },
+    })
+    if (!user?.totpSecret || user.totpEnabledAt) {
+      throw new ValidationError('Start the setup again to get a new secret')
+    }
+
+    await assertCodeRateLimit(session.userId)
+    if (!(await confirmTotpSecret({ kind: 'user', id: session.userId }, user.totpSecret, code))) {
+      throw new ValidationError('Invalid code')
+    }
+
+    const recoveryCodes = await enableUserTwoFactor(session.userId)
+    logger.info(`Authenticator app set up for user ${session.userId}`)
+    return { recoveryCodes }
+  })
+}
+
+/**
+ * Start registering a passkey
+ *
+ * @returns Options for `navigator.credentials.create()`
+ * @throws ValidationError if the user already has MAX_PASSKEYS passkeys
+ */
+export async function getPasskeyRegistrationOptions(): Promise<PasskeyRegistrationOptions> {
+  return withAuth(async (session) => {
+    const passkeys = await prisma.webAuthnCredential.findMany({
+      where: { userId: session.userId },
+      select: { credentialId: true },
+    })
+    if (passkeys.length >= MAX_PASSKEYS) {
+      throw new ValidationError(`You can register up to ${MAX_PASSKEYS} passkeys`)
+    }
+
+    const rp = getRelyingParty()
+    return {
+      challenge: await issuePasskeyRegistrationChallenge(session.userId),
+      rp: { id: rp.id, name: rp.name },
+      user: {
+        id: Buffer.from(session.userId).toString('base64url'),
+        name: session.username,
+        displayName: session.username,
+      },
+      algorithms: Object.values(WEBAUTHN_ALGORITHMS),
+      excludeCredentialIds: passkeys.map((passkey) => passkey.credentialId),
+      timeout: WEBAUTHN_TIMEOUT_MS,
+    }
+  })
+}
+
+/**
+ * Register a passkey created with the options from `getPasskeyRegistrationOptions`
+ *
+ * @param input - Name for the passkey and the browser's response
+ * @returns Recovery codes when this turned two-factor authentication on,
+ *   null when it was already on
+ * @throws ValidationError if the response does not check out
+ */
+export async function registerPasskey(input: PasskeyRegistrationInput): Promise<{ recoveryCodes: string[] | null }> {
+  return withAuth(async (session) => {
+    const parseResult = passkeyRegistrationSchema.safeParse(input)
+    if (!parseResult.success) {
+      throw new ValidationError(
+        'Invalid passkey',
+        parseResult.error.issues.map((issue) => issue.message),
+      )
+    }
+    const { name, response } = parseResult.data
+
+    const challenge = await takePasskeyRegistrationChallenge(session.userId)
+    if (!challenge) {
+      throw new ValidationError('The passkey request expired. Please try again.')
+    }
+
+    let credential: ReturnType<typeof verifyPasskeyRegistration>
+    try {
+      credential = verifyPasskeyRegistration(response, challenge)
+    } catch (error) {
+      if (!(error instanceof WebAuthnError)) throw error
+      logger.warn(`Passkey registration failed for user ${session.userId}: ${error.message}`)
+      throw new ValidationError('The passkey could not be verified')
+    }
+
+    const existing = await prisma.webAuthnCredential.findUnique({
+      where: { credentialId: credential.credentialId },
+      select: { id: true },
+    })
+    if (existing) {
+      throw new ValidationError('This passkey is already registered')
+    }
+
+    await prisma.webAuthnCredential.create({
+      data: {
+        userId: session.userId,
+        credentialId: credential.credentialId,
+        publicKey: Buffer.from(credential.publicKey),
+        algorithm: credential.algorithm,
+        signCount: credential.signCount,
+        transports: response.transports,
+        name,
+      },
+    })
+
+    const recoveryCodes = await enableUserTwoFactor(session.userId)
+    logger.info(`Passkey registered for user ${session.userId}`)
+    return { recoveryCodes }
+  })
+}
+
+/**
+ * Remove a passkey of the current user
+ *
+ * @param id - Passkey ID
+ * @throws NotFoundError if the passkey does not belong to the user
+ * @throws ValidationError for the last second factor; turning two-factor
+ *   off takes a code instead
+ */
+export async function deletePasskey(id: string): Promise<void> {
+  return withAuth(async (session) => {
+    const user = await prisma.user.findUnique({
+      where: { id: session.userId },
+      select: { totpEnabledAt: true, passkeys: { select: { id: true } } },
+    })
+    if (!user?.passkeys.some((passkey) => passkey.id === id)) {
+      throw new NotFoundError('Passkey not found')
+    }
+    if (!user.totpEnabledAt && user.passkeys.length === 1) {
+      throw new ValidationError('This is your last second factor. Turn off two-factor authentication instead.')
+    }
+
+    await prisma.webAuthnCredential.delete({ where: { id } })
+  })
+}
+
+/**
+ * Replace the recovery codes of the current user
+ *
+ * @param code - Code from the authenticator app, or a recovery code
+ * @returns The new codes, shown once
+ * @throws ValidationError if two-factor is off or the code does not match
+ */
+export async function regenerateRecoveryCodes(code: string): Promise<string[]> {
+  return withAuth(async (session) => {
+    const user = await prisma.user.findUnique({
+      where: { id: session.userId },
+      select: { twoFactorEnabledAt: true },
+    })
+    if (!user?.twoFactorEnabledAt) {
+      throw new ValidationError('Two-factor authentication is not turned on')
+    }
+
+    await assertTwoFactorCode(session.userId, code)
+    return issueRecoveryCodes({ kind: 'user', id: session.userId })
+  })
+}
+
+/**
+ * Turn two-factor authentication off
+ *
+ * Removes the authenticator app, passkeys and recovery codes, and signs the
+ * user out on every other device; this browser stays signed in.
+ *
+ * @param code - Code from the authenticator app, or a recovery code
+ * @throws ValidationError if two-factor is off or the code does not match
+ */
+export async function disableTwoFactor(code: string): Promise<void> {
+  return withAuth(async (session) => {
+    const user = await prisma.user.findUnique({
+      where: { id: session.userId },
+      select: { twoFactorEnabledAt: true },
+    })
+    if (!user?.twoFactorEnabledAt) {
+      throw new ValidationError('Two-factor authentication is not turned on')
+    }
+
+    await assertTwoFactorCode(session.userId, code)
+    await resetTwoFactor({ kind: 'user', id: session.userId }, { exceptSessionId: session.sessionId })
+
+    logger.info(`Two-factor authentication turned off for user ${session.userId}`)
+  })
+}
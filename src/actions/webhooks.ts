@@ -0,0 +1,239 @@
+'use server'
+
+import { z } from 'zod'
+import type { WebhookDelivery, WebhookEndpoint } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import { logger } from '@/lib/logging/server'
+import { withAuth, ForbiddenError, NotFoundError, ValidationError } from '@/lib/security/auth'
+import { generateWebhookSecret, retryWebhookDelivery } from '@/lib/webhooks/server'
+import { assertPublicWebhookUrl, isLocalWebhookHost, WebhookUrlError } from '@/lib/webhooks/url'
+import {
+  MAX_WEBHOOK_ENDPOINTS,
+  WEBHOOK_DELIVERY_LOG_SIZE,
+  WEBHOOK_EVENTS,
+  type WebhookDeliveryStatus,
+  type WebhookDeliverySummary,
+  type WebhookEndpointSummary,
+  type WebhookEventType,
+} from '@/lib/webhooks/events'
+
+/** Schema for a new webhook endpoint */
+const webhookEndpointSchema = z.object({
+  url: z
+    .url({ protocol: /^https?$/, error: 'Enter a valid URL' })
+    .max(2000, 'Max 2000 characters')
+    .refine((url) => {
+      const { protocol, hostname } = new URL(url)
+      return protocol === 'https:' || isLocalWebhookHost(hostname)
+    }, 'The URL must use HTTPS'),
+  description: z.string().trim().max(120, 'Max 120 characters').optional(),
+  events: z
+    .array(z.enum(WEBHOOK_EVENTS.map((event) => event.value) as [WebhookEventType]))
+    .min(1, 'Choose at least one event'),
+})
+
+export type WebhookEndpointInput = z.infer<typeof webhookEndpointSchema>
+
+function toWebhookEndpointSummary(endpoint: WebhookEndpoint): WebhookEndpointSummary {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    description: endpoint.description,
+    events: JSON.parse(endpoint.events) as WebhookEventType[],
+    enabled: endpoint.enabled,
+    createdAt: endpoint.createdAt,
+  }
+}
+
+function toWebhookDeliverySummary(delivery: WebhookDelivery): WebhookDeliverySummary {
+  return {
+    id: delivery.id,
+    eventType: delivery.eventType as WebhookEventType,
+    status: delivery.status as WebhookDeliveryStatus,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.nextAttemptAt,
+    lastAttemptAt: delivery.lastAttemptAt,
+    responseStatus: delivery.responseStatus,
+    error: delivery.error,
+    createdAt: delivery.createdAt,
+  }
+}
+
+/**
+ * Get the webhook endpoints of the current user
+ *
+ * @returns Endpoints without their signing secrets, oldest first
+ */
+export async function getWebhookEndpoints(): Promise<WebhookEndpointSummary[]> {
+  return withAuth(async (session) => {
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      where: { userId: session.userId },
+      orderBy: { createdAt: 'asc' },
+    })
+    return endpoints.map(toWebhookEndpointSummary)
+  })
+}
+
+/**
+ * Create a webhook endpoint
+ *
+ * The signing secret is returned once; receivers verify deliveries with it.
+ *
+ * @param input - URL, optional description and subscribed events
+ * @returns The endpoint summary and its signing secret
+ * @throws ValidationError if the input is invalid or the URL does not point
+ *   to a public host
+ * @throws ForbiddenError if the user already has MAX_WEBHOOK_ENDPOINTS endpoints
+ */
+export async function createWebhookEndpoint(
+  input: WebhookEndpointInput,
+): Promise<{ secret: string; endpoint: WebhookEndpointSummary }> {
+  const parseResult = webhookEndpointSchema.safeParse(input)
+  if (!parseResult.success) {
+    throw new ValidationError(
+      'Invalid webhook endpoint',
+      parseResult.error.issues.map((issue) => issue.message),
+    )
+  }
+  const { url, description, events } = parseResult.data
+
+  return withAuth(async (session) => {
+    const count = await prisma.webhookEndpoint.count({ where: { userId: session.userId } })
+    if (count >= MAX_WEBHOOK_ENDPOINTS) {
+      throw new ForbiddenError(`You can have up to ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints.`)
+    }
+
+    try {
+      await assertPublicWebhookUrl(url)
+    } catch (error) {
+      if (error instanceof WebhookUrlError) {
+        throw new ValidationError('Invalid webhook endpoint', [error.message])
+      }
+      throw error
+    }
+
+    const secret = generateWebhookSecret()
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        userId: session.userId,
+        url,
+        description: description || null,
+        secret,
+        events: JSON.stringify(events),
+      },
+    })
+
+    logger.info('Created webhook endpoint:', { id: endpoint.id, userId: session.userId, events })
+    return { secret, endpoint: toWebhookEndpointSummary(endpoint) }
+  })
+}
+
+/**
+ * Pause or resume deliveries to an endpoint. Paused endpoints receive no new
+ * events; their pending retries resume when they are enabled again.
+ *
+ * @throws NotFoundError if the endpoint does not exist or is not owned by the user
+ */
+export async function setWebhookEndpointEnabled(id: string, enabled: boolean): Promise<WebhookEndpointSummary> {
+  return withAuth(async (session) => {
+    const result = await prisma.webhookEndpoint.updateMany({
+      where: { id, userId: session.userId },
+      data: { enabled },
+    })
+    if (result.count === 0) {
+      throw new NotFoundError('Webhook endpoint not found')
+    }
+
+    const endpoint = await prisma.webhookEndpoint.findUniqueOrThrow({ where: { id } })
+    return toWebhookEndpointSummary(endpoint)
+  })
+}
+
+/**
+ * Replace the signing secret of an endpoint. Deliveries are signed with the
+ * new secret from now on, including retries.
+ *
+ * @returns The new secret, shown once
+ * @throws NotFoundError if the endpoint does not exist or is not owned by the user
+ */
+export async function rotateWebhookSecret(id: string): Promise<{ id: string; secret: string }> {
+  return withAuth(async (session) => {
+    const secret = generateWebhookSecret()
+    const result = await prisma.webhookEndpoint.updateMany({
+      where: { id, userId: session.userId },
+      data: { secret },
+    })
+    if (result.count === 0) {
+      throw new NotFoundError('Webhook endpoint not found')
+    }
+
+    logger.info('Rotated webhook secret:', { id, userId: session.userId })
+    return { id, secret }
+  })
+}
+
+/**
+ * Delete an endpoint with its delivery log
+ *
+ * @throws NotFoundError if the endpoint does not exist or is not owned by the user
+ */
+export async function deleteWebhookEndpoint(id: string): Promise<{ id: string }> {
+  return withAuth(async (session) => {
+    const result = await prisma.webhookEndpoint.deleteMany({
+      where: { id, userId: session.userId },
+    })
+    if (result.count === 0) {
+      throw new NotFoundError('Webhook endpoint not found')
+    }
+
+    logger.info('Deleted webhook endpoint:', { id, userId: session.userId })
+    return { id }
+  })
+}
+
+/**
+ * Get the latest deliveries of an endpoint
+ *
+ * @returns Up to WEBHOOK_DELIVERY_LOG_SIZE deliveries, newest first
+ * @throws NotFoundError if the endpoint does not exist or is not owned by the user
+ */
+export async function getWebhookDeliveries(endpointId: string): Promise<WebhookDeliverySummary[]> {
+  return withAuth(async (session) => {
+    const endpoint = await prisma.webhookEndpoint.findFirst({
+      where: { id: endpointId, userId: session.userId },
+      select: { id: true },
+    })
+    if (!endpoint) {
+      throw new NotFoundError('Webhook endpoint not found')
+    }
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { endpointId },
+      orderBy: { createdAt: 'desc' },
+      take: WEBHOOK_DELIVERY_LOG_SIZE,
+    })
+    return deliveries.map(toWebhookDeliverySummary)
+  })
+}
+
+/**
+ * Send a delivery again right away
+ *
+ * @returns The delivery after the attempt
+ * @throws NotFoundError if the delivery does not exist or its endpoint is not owned by the user
+ */
+export async function redeliverWebhook(deliveryId: string): Promise<WebhookDeliverySummary> {
+  return withAuth(async (session) => {
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, endpoint: { userId: session.userId } },
+      include: { endpoint: true },
+    })
+    if (!delivery) {
+      throw new NotFoundError('Webhook delivery not found')
+    }
+
+    await retryWebhookDelivery(delivery)
+    const updated = await prisma.webhookDelivery.findUniqueOrThrow({ where: { id: deliveryId } })
+    return toWebhookDeliverySummary(updated)
+  })
+}
@@ -0,0 +1,468 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { prisma } from '@/lib/db/prisma'
+import { logger } from '@/lib/logging/server'
+import { isEmailConfigured, sendWorkspaceInvitationEmail } from '@/lib/mail/mail'
+import { withAuth, ForbiddenError, NotFoundError, ValidationError } from '@/lib/security/auth'
+import { parseOrThrow } from '@/lib/validation/parse'
+import { generateInvitationToken, hashInvitationToken } from '@/lib/workspaces/server'
+import {
+  INVITABLE_WORKSPACE_ROLES,
+  WORKSPACE_INVITATION_EXPIRY_DAYS,
+  WORKSPACE_ROLE_LABELS,
+  type WorkspaceInvitationSummary,
+  type WorkspaceMemberSummary,
+  type WorkspaceRole,
+  type WorkspaceSummary,
+} from '@/lib/workspaces/roles'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const workspaceNameSchema = z.string().trim().min(1, 'Name is required').max(80, 'Max 80 characters')
+
+const invitableRoleSchema = z.enum(
+  INVITABLE_WORKSPACE_ROLES.map((role) => role.value) as [Exclude<WorkspaceRole, 'owner'>],
+  { message: 'Invalid role' },
+)
+
+/** Schema for a new workspace */
+const createWorkspaceSchema = z.object({
+  name: workspaceNameSchema,
+  moveLibrary: z.boolean(),
+})
+
+/** Schema for an invitation */
+const invitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Invalid email address'),
+  role: invitableRoleSchema,
+})
+
+export type CreateWorkspaceInput = z.infer<typeof createWorkspaceSchema>
+export type WorkspaceInvitationInput = z.infer<typeof invitationSchema>
+
+/**
+ * Invitation as shown on the acceptance page
+ */
+export interface WorkspaceInvitationPreview {
+  workspaceName: string
+  inviterName: string
+  email: string
+  role: WorkspaceRole
+  status: 'pending' | 'accepted' | 'expired'
+  /** Whether the invited email is the email of the current user */
+  emailMatches: boolean
+}
+
+/**
+ * Find the membership of a user in a workspace
+ *
+ * @throws NotFoundError if the workspace does not exist or the user is not a member
+ */
+async function findMembership(userId: string, workspaceId: string) {
+  const membership = await prisma.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+    include: { workspace: true },
+  })
+  if (!membership) {
+    throw new NotFoundError('Workspace not found')
+  }
+  return { workspace: membership.workspace, role: membership.role as WorkspaceRole }
+}
+
+/**
+ * Find a workspace the user owns
+ *
+ * @throws NotFoundError if the user is not a member
+ * @throws ForbiddenError if the user is a member but not the owner
+ */
+async function findOwnedWorkspace(userId: string, workspaceId: string) {
+  const { workspace, role } = await findMembership(userId, workspaceId)
+  if (role !== 'owner') {
+    throw new ForbiddenError('Only the workspace owner can manage it')
+  }
+  return workspace
+}
+
+/** Refresh the pages that show the library */
+function revalidateLibrary() {
+  revalidatePath('/', 'layout')
+}
+
+/**
+ * Get the workspaces the current user is a member of
+ *
+ * @returns Workspaces in creation order
+ */
+export async function getWorkspaces(): Promise<WorkspaceSummary[]> {
+  return withAuth(async (session) => {
+    const [user, memberships] = await Promise.all([
+      prisma.user.findUnique({ where: { id: session.userId }, select: { activeWorkspaceId: true } }),
+      prisma.workspaceMember.findMany({
+        where: { userId: session.userId },
+        include: { workspace: { include: { _count: { select: { members: true } } } } },
+        orderBy: { workspace: { createdAt: 'asc' } },
+      }),
+    ])
+
+    return memberships.map((membership) => ({
+      id: membership.workspace.id,
+      name: membership.workspace.name,
+      role: membership.role as WorkspaceRole,
+      memberCount: membership.workspace._count.members,
+      isActive: membership.workspace.id === user?.activeWorkspaceId,
+    }))
+  })
+}
+
+/**
+ * Get the members of a workspace, and its pending invitations for the owner
+ *
+ * @param workspaceId - Workspace ID
+ * @throws NotFoundError if the user is not a member of the workspace
+ */
+export async function getWorkspaceMembers(
+  workspaceId: string,
+): Promise<{ members: WorkspaceMemberSummary[]; invitations: WorkspaceInvitationSummary[] }> {
+  return withAuth(async (session) => {
+    const { role } = await findMembership(session.userId, workspaceId)
+
+    const [members, invitations] = await Promise.all([
+      prisma.workspaceMember.findMany({
+        where: { workspaceId },
+        include: { user: { select: { username: true, email: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      role === 'owner'
+        ? prisma.workspaceInvitation.findMany({
+            where: { workspaceId, acceptedAt: null, expiresAt: { gt: new Date() } },
+            orderBy: { createdAt: 'desc' },
+          })
+        : Promise.resolve([]),
+    ])
+
+    return {
+      members: members.map((member) => ({
+        userId: member.userId,
+        username: member.user.username,
+        email: member.user.email,
+        role: member.role as WorkspaceRole,
+        joinedAt: member.createdAt,
+      })),
+      invitations: invitations.map((invitation) => ({
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role as WorkspaceRole,
+        expiresAt: invitation.expiresAt,
+        createdAt: invitation.createdAt,
+      })),
+    }
+  })
+}
+
+/**
+ * Create a workspace owned by the current user and switch to it
+ *
+ * @param input - Name, and whether to move the personal subjects and saved charts into it
+ * @returns The new workspace
+ * @throws ValidationError if the name is invalid
+ */
+export async function createWorkspace(input: CreateWorkspaceInput): Promise<WorkspaceSummary> {
+  const { name, moveLibrary } = parseOrThrow(createWorkspaceSchema, input, 'Invalid workspace')
+
+  return withAuth(async (session) => {
+    const workspace = await prisma.$transaction(async (tx) => {
+      const created = await tx.workspace.create({
+        data: {
+          name,
+          ownerId: session.userId,
+          members: { create: { userId: session.userId, role: 'owner' } },
+        },
+      })
+      await tx.user.update({ where: { id: session.userId }, data: { activeWorkspaceId: created.id } })
+
+      if (moveLibrary) {
+        await tx.subject.updateMany({
+          where: { ownerId: session.userId, workspaceId: null },
+          data: { workspaceId: created.id },
+        })
+        await tx.savedChart.updateMany({
+          where: { userId: session.userId, workspaceId: null },
+          data: { workspaceId: created.id },
+        })
+      }
+      return created
+    })
+
+    logger.info('Created workspace:', { id: workspace.id, userId: session.userId, moveLibrary })
+    revalidateLibrary()
+    return { id: workspace.id, name: workspace.name, role: 'owner', memberCount: 1, isActive: true }
+  })
+}
+
+/**
+ * Switch the library shown to the current user
+ *
+ * @param workspaceId - Workspace ID, or null for the personal library
+ * @throws NotFoundError if the user is not a member of the workspace
+ */
+export async function switchWorkspace(workspaceId: string | null): Promise<{ workspaceId: string | null }> {
+  return withAuth(async (session) => {
+    if (workspaceId) {
+      await findMembership(session.userId, workspaceId)
+    }
+
+    await prisma.user.update({ where: { id: session.userId }, data: { activeWorkspaceId: workspaceId } })
+    revalidateLibrary()
+    return { workspaceId }
+  })
+}
+
+/**
+ * Delete a workspace. Its subjects and saved charts return to the owner's
+ * personal library; members lose access to them.
+ *
+ * @throws ForbiddenError if the user is not the owner
+ */
+export async function deleteWorkspace(workspaceId: string): Promise<{ id: string }> {
+  return withAuth(async (session) => {
+    await findOwnedWorkspace(session.userId, workspaceId)
+    await prisma.workspace.delete({ where: { id: workspaceId } })
+
+    logger.info('Deleted workspace:', { id: workspaceId, userId: session.userId })
+    revalidateLibrary()
+    return { id: workspaceId }
+  })
+}
+
+/**
+ * Invite someone to a workspace by email. A previous pending invitation
+ * of the same email is replaced.
+ *
+ * @param workspaceId - Workspace ID
+ * @param input - Email address and role to give
+ * @throws ValidationError if the input is invalid, email is not configured or the address is a member already
+ * @throws ForbiddenError if the user is not the owner
+ */
+export async function inviteWorkspaceMember(
+  workspaceId: string,
+  input: WorkspaceInvitationInput,
+): Promise<WorkspaceInvitationSummary> {
+  const { email, role } = parseOrThrow(invitationSchema, input, 'Invalid invitation')
+
+  return withAuth(async (session) => {
+    const workspace = await findOwnedWorkspace(session.userId, workspaceId)
+
+    if (!isEmailConfigured()) {
+      throw new ValidationError('Email service is not configured, invitations cannot be sent')
+    }
+
+    const existingMember = await prisma.workspaceMember.findFirst({
+      where: { workspaceId, user: { email: { equals: email, mode: 'insensitive' } } },
+      select: { id: true },
+    })
+    if (existingMember) {
+      throw new ValidationError('Invalid invitation', ['This person is already a member of the workspace'])
+    }
+
+    const { token, tokenHash } = generateInvitationToken()
+    await prisma.workspaceInvitation.deleteMany({ where: { workspaceId, email, acceptedAt: null } })
+    const invitation = await prisma.workspaceInvitation.create({
+      data: {
+        workspaceId,
+        email,
+        role,
+        tokenHash,
+        invitedById: session.userId,
+        expiresAt: new Date(Date.now() + WORKSPACE_INVITATION_EXPIRY_DAYS * DAY_MS),
+      },
+    })
+
+    const sent = await sendWorkspaceInvitationEmail(
+      email,
+      token,
+      workspace.name,
+      session.username,
+      WORKSPACE_ROLE_LABELS[role],
+      WORKSPACE_INVITATION_EXPIRY_DAYS,
+    )
+    if (!sent) {
+      await prisma.workspaceInvitation.delete({ where: { id: invitation.id } })
+      throw new Error('Failed to send the invitation email. Please try again later.')
+    }
+
+    logger.info('Sent workspace invitation:', { workspaceId, invitationId: invitation.id, role })
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      role,
+      expiresAt: invitation.expiresAt,
+      createdAt: invitation.createdAt,
+    }
+  })
+}
+
+/**
+ * Revoke a pending invitation. Its link stops working.
+ *
+ * @throws NotFoundError if the invitation does not exist or is not pending in a workspace the user owns
+ */
+export async function revokeWorkspaceInvitation(id: string): Promise<{ id: string }> {
+  return withAuth(async (session) => {
+    const result = await prisma.workspaceInvitation.deleteMany({
+      where: { id, acceptedAt: null, workspace: { ownerId: session.userId } },
+    })
+    if (result.count === 0) {
+      throw new NotFoundError('Invitation not found')
+    }
+    return { id }
+  })
+}
+
+/**
+ * Look up an invitation from the token in its link
+ *
+ * @param token - Invitation token
+ * @returns The invitation, or null if the token is unknown
+ */
+export async function getWorkspaceInvitation(token: string): Promise<WorkspaceInvitationPreview | null> {
+  return withAuth(async (session) => {
+    const invitation = await prisma.workspaceInvitation.findUnique({
+      where: { tokenHash: hashInvitationToken(token) },
+      include: { workspace: { select: { name: true } }, invitedBy: { select: { username: true } } },
+    })
+    if (!invitation) {
+      return null
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: session.userId }, select: { email: true } })
+    return {
+      workspaceName: invitation.workspace.name,
+      inviterName: invitation.invitedBy.username,
+      email: invitation.email,
+      role: invitation.role as WorkspaceRole,
+      status: invitation.acceptedAt ? 'accepted' : invitation.expiresAt <= new Date() ? 'expired' : 'pending',
+      emailMatches: user?.email?.toLowerCase() === invitation.email,
+    }
+  })
+}
+
+/**
+ * Accept an invitation and switch to its workspace
+ *
+ * @param token - Invitation token
+ * @returns The ID of the joined workspace
+ * @throws NotFoundError if the invitation does not exist, was accepted or has expired
+ * @throws ForbiddenError if the invitation was sent to another email address
+ */
+export async function acceptWorkspaceInvitation(token: string): Promise<{ workspaceId: string }> {
+  return withAuth(async (session) => {
+    const invitation = await prisma.workspaceInvitation.findUnique({
+      where: { tokenHash: hashInvitationToken(token) },
+    })
+    if (!invitation || invitation.acceptedAt || invitation.expiresAt <= new Date()) {
+      throw new NotFoundError('Invitation not found or expired')
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: session.userId }, select: { email: true } })
+    if (user?.email?.toLowerCase() !== invitation.email) {
+      throw new ForbiddenError(
+        `This invitation was sent to ${invitation.email}. Sign in with that account to accept it.`,
+      )
+    }
+
+    const { workspaceId } = invitation
+    await prisma.$transaction([
+      prisma.workspaceMember.upsert({
+        where: { workspaceId_userId: { workspaceId, userId: session.userId } },
+        create: { workspaceId, userId: session.userId, role: invitation.role },
+        update: {},
+      }),
+      prisma.workspaceInvitation.update({ where: { id: invitation.id }, data: { acceptedAt: new Date() } }),
+      prisma.user.update({ where: { id: session.userId }, data: { activeWorkspaceId: workspaceId } }),
+    ])
+
+    logger.info('Accepted workspace invitation:', { workspaceId, userId: session.userId })
+    revalidateLibrary()
+    return { workspaceId }
+  })
+}
+
+/**
+ * Change the role of a member
+ *
+ * @throws ValidationError if the role is invalid
+ * @throws ForbiddenError if the user is not the owner
+ * @throws NotFoundError if the member does not exist or is the owner
+ */
+export async function updateWorkspaceMemberRole(
+  workspaceId: string,
+  userId: string,
+  role: Exclude<WorkspaceRole, 'owner'>,
+): Promise<{ userId: string; role: WorkspaceRole }> {
+  const validatedRole = parseOrThrow(invitableRoleSchema, role, 'Invalid role')
+
+  return withAuth(async (session) => {
+    await findOwnedWorkspace(session.userId, workspaceId)
+    const result = await prisma.workspaceMember.updateMany({
+      where: { workspaceId, userId, role: { not: 'owner' } },
+      data: { role: validatedRole },
+    })
+    if (result.count === 0) {
+      throw new NotFoundError('Member not found')
+    }
+    return { userId, role: validatedRole }
+  })
+}
+
+/**
+ * Remove a member from a workspace. The records they created stay in the workspace.
+ *
+ * @throws ForbiddenError if the user is not the owner
+ * @throws NotFoundError if the member does not exist or is the owner
+ */
+export async function removeWorkspaceMember(workspaceId: string, userId: string): Promise<{ userId: string }> {
+  return withAuth(async (session) => {
+    await findOwnedWorkspace(session.userId, workspaceId)
+    const result = await prisma.workspaceMember.deleteMany({
+      where: { workspaceId, userId, role: { not: 'owner' } },
+    })
+    if (result.count === 0) {
+      throw new NotFoundError('Member not found')
+    }
+    await prisma.user.updateMany({
+      where: { id: userId, activeWorkspaceId: workspaceId },
+      data: { activeWorkspaceId: null },
+    })
+
+    logger.info('Removed workspace member:', { workspaceId, userId })
+    return { userId }
+  })
+}
+
+/**
+ * Leave a workspace and return to the personal library
+ *
+ * @throws NotFoundError if the user is not a member
+ * @throws ForbiddenError for the owner, who deletes the workspace instead
+ */
+export async function leaveWorkspace(workspaceId: string): Promise<{ id: string }> {
+  return withAuth(async (session) => {
+    const { role } = await findMembership(session.userId, workspaceId)
+    if (role === 'owner') {
+      throw new ForbiddenError('The owner cannot leave the workspace. Delete it instead.')
+    }
+
+    await prisma.workspaceMember.delete({
+      where: { workspaceId_userId: { workspaceId, userId: session.userId } },
+    })
+    await prisma.user.updateMany({
+      where: { id: session.userId, activeWorkspaceId: workspaceId },
+      data: { activeWorkspaceId: null },
+    })
+
+    revalidateLibrary()
+    return { id: workspaceId }
+  })
+}
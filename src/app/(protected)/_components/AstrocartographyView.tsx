@@ -0,0 +1,284 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { getNatalChart } from '@/actions/astrology'
+import { getTimezoneAction } from '@/actions/geonames'
+import { ChartErrorState } from '@/components/ChartErrorState'
+import { MultiSelectFilter, type FilterOption } from '@/components/MultiSelectFilter'
+import { AstrocartographyMap, type AcgLayer } from '@/components/charts/AstrocartographyMap'
+import { ChartTabsList } from '@/components/charts/ChartTabs'
+import { ChartViewWrapper } from '@/components/charts/ChartViewWrapper'
+import { NatalChart } from '@/components/charts/NatalChart'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Tabs } from '@/components/ui/tabs'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { useChartSubject } from '@/hooks/useChartSubject'
+import { useChartTheme } from '@/hooks/useChartTheme'
+import {
+  ACG_POINT_NAMES,
+  calculateAstrocartography,
+  DEFAULT_ACG_ORB_KM,
+  findNearestLines,
+  formatAcgLineLabel,
+  relocateSubject,
+  scoreRelocation,
+  type GeoLocation,
+  type LineDistance,
+  type RelocationTarget,
+} from '@/lib/astrology/astrocartography'
+import { getPlanetIcon } from '@/lib/astrology/celestial-points'
+import { formatPlanetName } from '@/lib/astrology/planet-formatting'
+import { getBirthInstant } from '@/lib/astrology/progressions'
+import { WORLD_CITIES, type WorldCity } from '@/lib/geo/world-cities'
+import { RelocationDialog, type LocationData } from './RelocationDialog'
+
+interface Props {
+  subjectId: string
+}
+
+const LAYER_OPTIONS: FilterOption[] = [
+  { value: 'MC', label: 'Midheaven (MC)' },
+  { value: 'IC', label: 'Imum Coeli (IC)' },
+  { value: 'ASC', label: 'Ascendant (ASC)' },
+  { value: 'DSC', label: 'Descendant (DSC)' },
+  { value: 'paran', label: 'Parans' },
+  { value: 'local-space', label: 'Local Space' },
+]
+
+const POINT_OPTIONS: FilterOption[] = ACG_POINT_NAMES.map((name) => ({
+  value: name,
+  label: formatPlanetName(name),
+  icon: getPlanetIcon(name),
+}))
+
+/** Lines listed for a place when none is within orb */
+const NEAREST_LINES_FALLBACK = 3
+
+/** Same defaults as manual coordinates in the relocation dialog */
+const CUSTOM_LOCATION = { city: 'Custom Location', nation: 'CM' }
+
+function formatCoordinates({ latitude, longitude }: GeoLocation): string {
+  return `${Math.abs(latitude).toFixed(2)}°${latitude >= 0 ? 'N' : 'S'} ${Math.abs(longitude).toFixed(2)}°${longitude >= 0 ? 'E' : 'W'}`
+}
+
+function isLineVisible(line: LineDistance, layers: AcgLayer[]): boolean {
+  return line.kind === 'angle' ? layers.includes(line.points[0]!.angle!) : layers.includes(line.kind)
+}
+
+export function AstrocartographyView({ subjectId }: Props) {
+  const chartTheme = useChartTheme()
+  const { preferences } = useChartPreferences()
+  const { data: subject, isLoading: isLoadingSubject, error: subjectError } = useChartSubject(subjectId)
+
+  const [layers, setLayers] = useState<AcgLayer[]>(['MC', 'IC', 'ASC', 'DSC'])
+  // Planets among the active points; the nodes are opt-in
+  const [points, setPoints] = useState<string[]>(() => {
+    const active = ACG_POINT_NAMES.slice(0, 10).filter((name) => preferences.active_points.includes(name))
+    return active.length > 0 ? active : ACG_POINT_NAMES.slice(0, 10)
+  })
+  const [orbKm, setOrbKm] = useState(DEFAULT_ACG_ORB_KM)
+  const [location, setLocation] = useState<RelocationTarget | null>(null)
+  const [isResolvingLocation, setIsResolvingLocation] = useState(false)
+  const [showRelocatedChart, setShowRelocatedChart] = useState(false)
+
+  const data = useMemo(() => {
+    if (!subject) return null
+    return calculateAstrocartography(getBirthInstant(subject), subject, { points })
+  }, [subject, points])
+
+  const distances = useMemo(() => {
+    if (!data || !location) return []
+    return findNearestLines(data, location, orbKm).filter((line) => isLineVisible(line, layers))
+  }, [data, location, orbKm, layers])
+
+  const withinOrb = useMemo(() => distances.filter((line) => line.strength > 0), [distances])
+  const listedLines = withinOrb.length > 0 ? withinOrb : distances.slice(0, NEAREST_LINES_FALLBACK)
+  const score = scoreRelocation(distances)
+  const highlighted = useMemo(() => new Set(withinOrb.map((line) => line.id)), [withinOrb])
+
+  const relocatedSubject = subject && location ? relocateSubject(subject, location) : null
+
+  const {
+    data: relocatedChart,
+    isLoading: isLoadingRelocatedChart,
+    error: relocatedChartError,
+    refetch: refetchRelocatedChart,
+  } = useQuery({
+    queryKey: ['natal-chart', subjectId, chartTheme, 'relocated', location],
+    queryFn: () => {
+      if (!relocatedSubject) throw new Error('No place selected')
+      return getNatalChart(relocatedSubject, { theme: chartTheme })
+    },
+    enabled: showRelocatedChart && !!relocatedSubject,
+  })
+
+  const selectLocation = (target: RelocationTarget | null) => {
+    setLocation(target)
+    if (!target) setShowRelocatedChart(false)
+  }
+
+  const handleSelectCity = (city: WorldCity) => {
+    selectLocation({ ...city, city: city.name })
+  }
+
+  const handleSelectPoint = async (point: GeoLocation) => {
+    setIsResolvingLocation(true)
+    try {
+      const timezone = await getTimezoneAction(point.latitude, point.longitude)
+      selectLocation({ ...CUSTOM_LOCATION, ...point, timezone })
+    } catch {
+      toast.error('Could not find the timezone of this place')
+    } finally {
+      setIsResolvingLocation(false)
+    }
+  }
+
+  const handleRelocation = (target: LocationData | null) => selectLocation(target)
+
+  return (
+    <ChartViewWrapper isLoading={isLoadingSubject} error={subjectError} hasSubject={!!subject}>
+      {subject && data && (
+        <div className="w-full p-0 md:p-2 flex flex-col gap-6">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">Astrocartography for {subject.name}</h1>
+              <p className="text-muted-foreground">
+                Where each planet was angular at birth. Click the map or a city to see the lines around a place.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {isResolvingLocation && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              <RelocationDialog currentLocation={location} onLocationChange={handleRelocation} />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <MultiSelectFilter
+              title="Lines"
+              options={LAYER_OPTIONS}
+              selected={layers}
+              onChange={(selected) => setLayers(selected as AcgLayer[])}
+              className="w-[160px]"
+            />
+            <MultiSelectFilter
+              title="Planets"
+              options={POINT_OPTIONS}
+              selected={points}
+              onChange={setPoints}
+              className="w-[160px]"
+            />
+            <div className="grid gap-1.5">
+              <Label htmlFor="acg-orb" className="text-xs text-muted-foreground">
+                Orb (km)
+              </Label>
+              <Input
+                id="acg-orb"
+                type="number"
+                min={50}
+                max={2000}
+                step={50}
+                value={orbKm}
+                onChange={(e) => setOrbKm(Math.min(2000, Math.max(0, Number(e.target.value) || 0)))}
+                className="h-8 w-24"
+              />
+            </div>
+          </div>
+
+          <AstrocartographyMap
+            data={data}
+            layers={layers}
+            birthPlace={subject}
+            cities={WORLD_CITIES}
+            selected={location}
+            highlighted={highlighted}
+            onSelectLocation={handleSelectPoint}
+            onSelectCity={handleSelectCity}
+          />
+
+          {location && (
+            <Card>
+              <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+                <div>
+                  <CardTitle className="text-lg">
+                    {location.city === CUSTOM_LOCATION.city ? formatCoordinates(location) : location.city}
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    {formatCoordinates(location)} • {location.timezone}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={score > 0 ? 'default' : score < 0 ? 'destructive' : 'secondary'}>
+                    Score {score > 0 ? '+' : ''}
+                    {score.toFixed(1)}
+                  </Badge>
+                  <Button size="sm" variant="outline" onClick={() => setShowRelocatedChart((shown) => !shown)}>
+                    {showRelocatedChart ? 'Hide relocated chart' : 'Relocated chart'}
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {withinOrb.length === 0 && (
+                  <p className="mb-2 text-sm text-muted-foreground">
+                    No lines within {orbKm} km. The nearest lines are:
+                  </p>
+                )}
+                <table className="w-full text-sm">
+                  <thead className="text-xs text-muted-foreground">
+                    <tr className="border-b">
+                      <th scope="col" className="p-2 text-left font-semibold">
+                        Line
+                      </th>
+                      <th scope="col" className="p-2 text-right font-semibold">
+                        Distance
+                      </th>
+                      <th scope="col" className="p-2 text-right font-semibold">
+                        Orb
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {listedLines.map((line) => (
+                      <tr key={line.id} className="border-b last:border-0">
+                        <td className="p-2">
+                          {getPlanetIcon(line.points[0]!.point)} {formatAcgLineLabel(line)}
+                        </td>
+                        <td className="p-2 text-right tabular-nums">{Math.round(line.distanceKm)} km</td>
+                        <td className="p-2 text-right tabular-nums">{line.orb.toFixed(1)}°</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          )}
+
+          {showRelocatedChart && relocatedSubject && (
+            <Tabs defaultValue="chart" className="space-y-3 w-full">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <h2 className="text-2xl font-semibold tracking-tight">
+                  Natal chart relocated to {location?.city === CUSTOM_LOCATION.city ? 'this place' : location?.city}
+                </h2>
+                <ChartTabsList hasData={true} />
+              </div>
+              {isLoadingRelocatedChart ? (
+                <Skeleton className="h-[600px] w-full" />
+              ) : relocatedChartError ? (
+                <ChartErrorState error={relocatedChartError} onRetry={() => refetchRelocatedChart()} />
+              ) : relocatedChart ? (
+                <NatalChart data={relocatedChart} subjectId={subjectId} subject={relocatedSubject} />
+              ) : null}
+            </Tabs>
+          )}
+        </div>
+      )}
+    </ChartViewWrapper>
+  )
+}
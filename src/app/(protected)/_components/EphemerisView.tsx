@@ -4,6 +4,8 @@ import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useRouter, usePathname, useSearchParams } from 'next/navigation'
 import { addDays, addMonths, addYears, startOfToday } from 'date-fns'
 import dynamic from 'next/dynamic'
+import Link from 'next/link'
+import { CalendarSearch } from 'lucide-react'
 import type { ColumnDef } from '@/components/data-table/DataTable'
 import { DataTable } from '@/components/data-table/DataTable'
 import { Button } from '@/components/ui/button'
@@ -223,6 +225,12 @@ export function EphemerisView({ preferences, currentTimeRange }: EphemerisViewPr
         </div>
         <div className="flex items-center gap-2">
           <TimeRangeSelector value={timeRange} onChange={handleRangeChange} />
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/ephemeris/events">
+              <CalendarSearch className="h-4 w-4" />
+              Sky Events
+            </Link>
+          </Button>
         </div>
       </div>
 
@@ -0,0 +1,198 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { AudioWaveform, Grid3x3 } from 'lucide-react'
+import type { EnrichedSubjectModel, Point } from '@/types/astrology'
+import { isPointKey } from '@/types/astrology'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AspectGrid } from '@/components/charts/AspectGrid'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { formatPlanetName } from '@/lib/astrology/planet-formatting'
+import {
+  calculateHarmonicSubject,
+  findHarmonicAspects,
+  HARMONIC_PRESETS,
+  MAX_HARMONIC,
+} from '@/lib/astrology/harmonics'
+import { renderChartWheelSvg } from '@/lib/chart/wheel'
+
+interface HarmonicChartViewProps {
+  natalSubject: EnrichedSubjectModel
+}
+
+function formatDegree(point: Point): string {
+  return `${Math.floor(point.position)}° ${Math.floor((point.position % 1) * 60)}' ${point.sign}`
+}
+
+const HEADER_CELL =
+  'h-10 px-2 sm:px-4 text-left align-middle font-medium text-muted-foreground text-xs uppercase tracking-wide'
+const CELL = 'p-2 sm:px-4 align-middle'
+
+export function HarmonicChartView({ natalSubject }: HarmonicChartViewProps) {
+  const { preferences } = useChartPreferences()
+  const [harmonic, setHarmonic] = useState(5)
+  const [input, setInput] = useState('5')
+  // Until the preferences load, show every point with the default aspects
+  const activePoints = preferences.active_points.length > 0 ? preferences.active_points : undefined
+  const activeAspects = preferences.active_aspects.length > 0 ? preferences.active_aspects : undefined
+
+  const harmonicSubject = useMemo(() => calculateHarmonicSubject(natalSubject, harmonic), [natalSubject, harmonic])
+  const aspects = useMemo(
+    () => (harmonicSubject ? findHarmonicAspects(harmonicSubject, activeAspects, activePoints) : []),
+    [harmonicSubject, activeAspects, activePoints],
+  )
+  const wheel = useMemo(
+    () =>
+      harmonicSubject
+        ? renderChartWheelSvg({
+            rings: [{ subject: harmonicSubject, label: `H${harmonic}` }],
+            aspects,
+            activePoints,
+          })
+        : '',
+    [harmonicSubject, harmonic, aspects, activePoints],
+  )
+
+  // Natal and harmonic position of every active point
+  const positions = useMemo(() => {
+    if (!harmonicSubject) return []
+    return Object.entries(natalSubject).flatMap(([key, value]) => {
+      if (!isPointKey(key) || key.endsWith('_house')) return []
+      const natal = value as Point | undefined
+      const derived = harmonicSubject[key] as Point | undefined
+      if (!natal || !derived || (activePoints && !activePoints.includes(natal.name))) return []
+      return [{ natal, derived }]
+    })
+  }, [natalSubject, harmonicSubject, activePoints])
+
+  const selectHarmonic = (value: number) => {
+    setHarmonic(value)
+    setInput(String(value))
+  }
+
+  const handleInputChange = (value: string) => {
+    setInput(value)
+    const parsed = Number(value)
+    if (Number.isInteger(parsed) && parsed >= 1 && parsed <= MAX_HARMONIC) setHarmonic(parsed)
+  }
+
+  const preset = HARMONIC_PRESETS.find((item) => item.harmonic === harmonic)
+
+  return (
+    <div className="space-y-4 p-0 md:p-2">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div className="min-w-0">
+          <h1 className="text-xl font-semibold truncate">
+            Harmonic Chart: <span className="text-primary">{natalSubject.name}</span>
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            H{harmonic}: natal longitudes × {harmonic}. Points {(360 / harmonic).toFixed(2)}° apart in the natal chart
+            are conjunct.{preset && ` ${preset.theme}.`}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          {HARMONIC_PRESETS.map((item) => (
+            <Button
+              key={item.harmonic}
+              size="sm"
+              variant={item.harmonic === harmonic ? 'default' : 'outline'}
+              aria-pressed={item.harmonic === harmonic}
+              title={item.theme}
+              onClick={() => selectHarmonic(item.harmonic)}
+            >
+              H{item.harmonic}
+            </Button>
+          ))}
+          <div className="space-y-1">
+            <Label htmlFor="harmonic-number" className="text-xs text-muted-foreground">
+              Harmonic (1–{MAX_HARMONIC})
+            </Label>
+            <Input
+              id="harmonic-number"
+              type="number"
+              min={1}
+              max={MAX_HARMONIC}
+              step={1}
+              value={input}
+              onChange={(e) => handleInputChange(e.target.value)}
+              className="h-8 w-24"
+            />
+          </div>
+        </div>
+      </div>
+
+      {!harmonicSubject ? (
+        <p className="text-sm text-destructive" role="alert">
+          The natal chart lacks the Ascendant needed for harmonic charts.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <div className="relative w-full pt-3">
+            <div className="absolute top-0 left-4 px-2 bg-background text-sm text-muted-foreground z-10 flex items-center gap-2">
+              <AudioWaveform className="h-4 w-4" />H{harmonic} Chart
+            </div>
+            <Card className="shadow-sm">
+              <CardContent className="pt-6 space-y-4">
+                <div
+                  className="mx-auto max-w-[600px] [&>svg]:h-auto [&>svg]:w-full"
+                  role="img"
+                  aria-label={`Harmonic ${harmonic} chart wheel`}
+                  dangerouslySetInnerHTML={{ __html: wheel }}
+                />
+                <p className="text-xs text-muted-foreground">Equal houses from the harmonic Ascendant.</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            <div className="relative w-full pt-3">
+              <div className="absolute top-0 left-4 px-2 bg-background text-sm text-muted-foreground z-10">
+                Positions
+              </div>
+              <Card className="shadow-sm">
+                <CardContent className="pt-6 overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className={HEADER_CELL}>Point</th>
+                        <th className={HEADER_CELL}>Natal</th>
+                        <th className={HEADER_CELL}>H{harmonic}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {positions.map(({ natal, derived }) => (
+                        <tr key={natal.name} className="border-b last:border-0">
+                          <td className={CELL}>{formatPlanetName(natal.name)}</td>
+                          <td className={`${CELL} font-mono text-xs`}>{formatDegree(natal)}</td>
+                          <td className={`${CELL} font-mono text-xs`}>{formatDegree(derived)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="relative w-full pt-3">
+              <div className="absolute top-0 left-4 px-2 bg-background text-sm text-muted-foreground z-10 flex items-center gap-2">
+                <Grid3x3 className="h-4 w-4" />H{harmonic} Aspects
+              </div>
+              <Card className="shadow-sm">
+                <CardContent className="pt-6">
+                  {aspects.length > 0 ? (
+                    <AspectGrid aspects={aspects} type="single" activePoints={activePoints} />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No aspects within orb in this harmonic.</p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,200 @@
+'use client'
+
+import { ChartErrorState } from '@/components/ChartErrorState'
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { getHoraryChart } from '@/actions/astrology'
+import { NatalChart } from '@/components/charts/NatalChart'
+import { HoraryJudgementCard } from '@/components/charts/HoraryJudgementCard'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useTheme } from '@/components/ThemeProvider'
+import type { Subject } from '@/types/subjects'
+import type { HoraryParams } from '@/types/saved-chart-params'
+import { DateTimeLocationSelector } from '@/components/ui/DateTimeLocationSelector'
+import type { LocationFormValues } from '@/components/SubjectLocationFields'
+import { DEFAULT_NOW_CHART_LOCATION } from '@/lib/config/now-chart'
+import { Tabs } from '@/components/ui/tabs'
+import { ChartTabsList } from '@/components/charts/ChartTabs'
+import { SaveChartButton } from '@/components/SaveChartButton'
+import { ExportPDFDialog } from '@/components/pdf'
+import { isAIGloballyEnabled } from '@/lib/ai/feature-flags'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { formatDisplayDate, formatDisplayTime } from '@/lib/utils/date'
+import { STALE_TIME } from '@/lib/config/query'
+import { DEFAULT_HORARY_HOUSES, HORARY_HOUSE_TOPICS } from '@/lib/astrology/horary'
+
+const HOUSES = Array.from({ length: 12 }, (_, index) => index + 1)
+
+/** Current UTC wall-clock time, matching the UTC timezone of the default location */
+function nowDateTime(): string {
+  return new Date().toISOString().slice(0, 19)
+}
+
+export function HoraryChartView() {
+  const { resolvedTheme } = useTheme()
+  const chartTheme = resolvedTheme === 'dark' ? 'dark' : 'classic'
+  const [moment, setMoment] = useState<{ dateTime: string; location: LocationFormValues }>(() => ({
+    dateTime: nowDateTime(),
+    location: { ...DEFAULT_NOW_CHART_LOCATION },
+  }))
+  const [question, setQuestion] = useState('')
+  const [querentHouse, setQuerentHouse] = useState(DEFAULT_HORARY_HOUSES.querentHouse)
+  const [quesitedHouse, setQuesitedHouse] = useState(DEFAULT_HORARY_HOUSES.quesitedHouse)
+  const [notes, setNotes] = useState('')
+  const { dateFormat, timeFormat } = useChartPreferences()
+
+  const location = {
+    city: moment.location.city || DEFAULT_NOW_CHART_LOCATION.city,
+    nation: moment.location.nation || DEFAULT_NOW_CHART_LOCATION.nation,
+    latitude: moment.location.latitude ?? DEFAULT_NOW_CHART_LOCATION.latitude,
+    longitude: moment.location.longitude ?? DEFAULT_NOW_CHART_LOCATION.longitude,
+    timezone: moment.location.timezone || DEFAULT_NOW_CHART_LOCATION.timezone,
+  }
+
+  const { data, isLoading, isFetching, isError, error, refetch } = useQuery({
+    queryKey: ['horary-chart', chartTheme, moment],
+    queryFn: () => {
+      const horarySubject: Subject = {
+        id: 'horary',
+        name: 'Horary',
+        birth_datetime: moment.dateTime,
+        ...location,
+        ownerId: 'system',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }
+      return getHoraryChart(horarySubject, { theme: chartTheme })
+    },
+    staleTime: STALE_TIME.NONE,
+    refetchOnWindowFocus: false,
+    placeholderData: (previousData) => previousData,
+  })
+
+  const horaryQuestion = { question: question.trim(), querentHouse, quesitedHouse }
+  const chartParams: HoraryParams = {
+    type: 'horary',
+    ...horaryQuestion,
+    datetime: moment.dateTime,
+    location,
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4 p-0 md:p-2">
+        <Skeleton className="h-12 w-1/3" />
+        <Skeleton className="h-[600px] w-full" />
+      </div>
+    )
+  }
+
+  if (isError || !data) {
+    return (
+      <div className="p-0 md:p-2">
+        <ChartErrorState title="Error loading chart" error={error} onRetry={() => refetch()} />
+      </div>
+    )
+  }
+
+  return (
+    <Tabs defaultValue="chart" className="space-y-3 p-0 md:p-2 w-full">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Horary Chart</h1>
+          <p className="text-muted-foreground">
+            {formatDisplayDate(moment.dateTime, dateFormat)} {formatDisplayTime(moment.dateTime, timeFormat)} •{' '}
+            {location.city}, {location.nation}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2 w-full md:w-auto justify-between md:justify-end">
+          <ChartTabsList hasData={true} hasInterpretation={isAIGloballyEnabled() && !!horaryQuestion.question} />
+
+          <div className="flex items-center gap-2 ml-auto">
+            <SaveChartButton
+              chartParams={chartParams}
+              chartType="horary"
+              defaultName={`Horary ${formatDisplayDate(moment.dateTime, dateFormat)}`}
+              notes={notes}
+            />
+            <ExportPDFDialog
+              chartData={data.chart_data}
+              aspects={data.chart_data.aspects}
+              chartWheelHtml={data.chart_wheel}
+              notes={notes}
+              variant="outline"
+              size="icon"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Question and house assignment */}
+      <div className="grid gap-4 md:grid-cols-[1fr_auto_auto] md:items-end">
+        <div className="space-y-1">
+          <Label htmlFor="horary-question">Question</Label>
+          <Textarea
+            id="horary-question"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            maxLength={500}
+            rows={2}
+            placeholder="e.g., Will I get the job I applied for?"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="horary-querent">Querent</Label>
+          <Select value={String(querentHouse)} onValueChange={(value) => setQuerentHouse(Number(value))}>
+            <SelectTrigger id="horary-querent" className="w-full md:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HOUSES.map((house) => (
+                <SelectItem key={house} value={String(house)}>
+                  House {house}: {HORARY_HOUSE_TOPICS[house]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="horary-quesited">Quesited</Label>
+          <Select value={String(quesitedHouse)} onValueChange={(value) => setQuesitedHouse(Number(value))}>
+            <SelectTrigger id="horary-quesited" className="w-full md:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HOUSES.map((house) => (
+                <SelectItem key={house} value={String(house)}>
+                  House {house}: {HORARY_HOUSE_TOPICS[house]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <DateTimeLocationSelector
+        defaultDateTime={moment.dateTime}
+        defaultLocation={location}
+        onCalculate={setMoment}
+        submitLabel="Cast Horary Chart"
+      />
+
+      <div className={isFetching ? 'opacity-50 transition-opacity duration-200' : 'space-y-6'}>
+        <HoraryJudgementCard subject={data.chart_data.subject} question={horaryQuestion} />
+        <NatalChart
+          data={data}
+          subjectId="horary-chart"
+          chartTypeOverride="horary"
+          dateLabel="Question Date and Time"
+          horary={horaryQuestion}
+          notes={notes}
+          onNotesChange={setNotes}
+        />
+      </div>
+    </Tabs>
+  )
+}
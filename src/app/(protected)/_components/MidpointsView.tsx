@@ -0,0 +1,374 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { format } from 'date-fns'
+import { Crosshair, GitFork, Grid3x3, ListOrdered } from 'lucide-react'
+import type { EnrichedSubjectModel } from '@/types/astrology'
+import { Card, CardContent } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { MultiSelectFilter, type FilterOption } from '@/components/MultiSelectFilter'
+import { StartDatePicker } from '@/components/StartDatePicker'
+import { AspectGrid } from '@/components/charts/AspectGrid'
+import { OrbFilterInput } from '@/components/charts/OrbFilterInput'
+import { cn } from '@/lib/utils/cn'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { ASPECT_SYMBOLS } from '@/lib/astrology/aspects'
+import { getCelestialPointIndex, getPlanetIcon, isChartAngle, ZODIAC_SIGNS } from '@/lib/astrology/celestial-points'
+import { formatPlanetName } from '@/lib/astrology/planet-formatting'
+import { subjectToPositions, type PointPositions } from '@/lib/astrology/transit-timeline'
+import {
+  buildMidpointTrees,
+  calculateMidpoints,
+  DEFAULT_MIDPOINT_ORB,
+  findMidpointHits,
+  getDialPosition,
+  isPointSelected,
+  MAX_MIDPOINT_ORB,
+  MIDPOINT_DIALS,
+  midpointHitsToAspects,
+  sortMidpoints,
+  type MidpointDial,
+  type MidpointTree,
+} from '@/lib/astrology/midpoints'
+import { renderMidpointDialSvg } from '@/lib/chart/midpoint-dial'
+
+interface MidpointsViewProps {
+  natalSubject: EnrichedSubjectModel
+  /** Transits for the selected date, or null when they could not be calculated */
+  transitSubject: EnrichedSubjectModel | null
+  transitDate: string
+}
+
+const ORB_OPTIONS = [0.5, 1, 1.5, 2, 3, MAX_MIDPOINT_ORB]
+
+const HEADER_CELL =
+  'h-10 px-2 sm:px-4 text-left align-middle font-medium text-muted-foreground text-xs uppercase tracking-wide'
+const CELL = 'p-2 sm:px-4 align-middle'
+
+function formatDegree(longitude: number): string {
+  const position = longitude % 30
+  return `${Math.floor(position)}° ${String(Math.floor((position % 1) * 60)).padStart(2, '0')}'`
+}
+
+function formatLongitude(longitude: number): string {
+  return `${formatDegree(longitude)} ${ZODIAC_SIGNS[Math.floor(longitude / 30) % 12]!.sign}`
+}
+
+function pickPositions(positions: PointPositions, include: (name: string) => boolean): PointPositions {
+  return Object.fromEntries(Object.entries(positions).filter(([name]) => include(name)))
+}
+
+/**
+ * Midpoints of a natal chart: the dial, the sorted midpoint list and the
+ * midpoint trees of the natal points and the transits of a chosen date.
+ */
+export function MidpointsView({ natalSubject, transitSubject, transitDate }: MidpointsViewProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { preferences } = useChartPreferences()
+  const activePoints = preferences.active_points.length > 0 ? preferences.active_points : undefined
+
+  const [dial, setDial] = useState<MidpointDial>(90)
+  const [orb, setOrb] = useState(DEFAULT_MIDPOINT_ORB)
+  const [showTransits, setShowTransits] = useState(true)
+  const [pointer, setPointer] = useState<{ name: string; source: 'natal' | 'transit' } | null>(null)
+  const [selectedPlanets, setSelectedPlanets] = useState<string[] | null>(null)
+  const [selectedAspects, setSelectedAspects] = useState<string[] | null>(null)
+  const [maxOrb, setMaxOrb] = useState<number | undefined>(undefined)
+
+  const natalPositions = useMemo(
+    () => pickPositions(subjectToPositions(natalSubject), (name) => !activePoints || activePoints.includes(name)),
+    [natalSubject, activePoints],
+  )
+  // Transiting angles sweep the zodiac daily: only bodies are used as transits
+  const transitPositions = useMemo(
+    () =>
+      transitSubject
+        ? pickPositions(
+            subjectToPositions(transitSubject),
+            (name) => !isChartAngle(name) && (!activePoints || activePoints.includes(name)),
+          )
+        : {},
+    [transitSubject, activePoints],
+  )
+
+  const midpoints = useMemo(() => calculateMidpoints(natalPositions), [natalPositions])
+  const sortedMidpoints = useMemo(() => sortMidpoints(midpoints, dial), [midpoints, dial])
+
+  const hits = useMemo(
+    () => [
+      ...findMidpointHits(midpoints, natalPositions, { orb, dial, source: 'natal' }),
+      ...(showTransits ? findMidpointHits(midpoints, transitPositions, { orb, dial, source: 'transit' }) : []),
+    ],
+    [midpoints, natalPositions, transitPositions, orb, dial, showTransits],
+  )
+
+  // Filter options, every point and aspect selected until the user narrows them
+  const planetOptions = useMemo<FilterOption[]>(
+    () =>
+      [...new Set([...Object.keys(natalPositions), ...Object.keys(transitPositions)])]
+        .sort((a, b) => getCelestialPointIndex(a) - getCelestialPointIndex(b))
+        .map((name) => ({ value: name, label: formatPlanetName(name), icon: getPlanetIcon(name) })),
+    [natalPositions, transitPositions],
+  )
+  const aspectOptions = useMemo<FilterOption[]>(
+    () =>
+      [...new Set(hits.map((hit) => hit.aspect))].map((aspect) => ({
+        value: aspect,
+        label: aspect.charAt(0).toUpperCase() + aspect.slice(1),
+        icon: ASPECT_SYMBOLS[aspect] || '•',
+      })),
+    [hits],
+  )
+  const planets = useMemo(
+    () => selectedPlanets ?? planetOptions.map((option) => option.value),
+    [selectedPlanets, planetOptions],
+  )
+  const aspects = useMemo(
+    () => selectedAspects ?? aspectOptions.map((option) => option.value),
+    [selectedAspects, aspectOptions],
+  )
+
+  // Hits are filtered like aspects: both the point and the two points of the midpoint must be selected
+  const visibleHits = useMemo(
+    () =>
+      hits.filter(
+        (hit) =>
+          isPointSelected(hit.point, planets) &&
+          isPointSelected(hit.midpoint.name, planets) &&
+          aspects.includes(hit.aspect) &&
+          (maxOrb === undefined || hit.orb <= maxOrb),
+      ),
+    [hits, planets, aspects, maxOrb],
+  )
+  const trees = useMemo(() => buildMidpointTrees(visibleHits), [visibleHits])
+  const gridAspects = useMemo(() => midpointHitsToAspects(visibleHits), [visibleHits])
+
+  const pointerLongitude = pointer
+    ? (pointer.source === 'natal' ? natalPositions : transitPositions)[pointer.name]?.abs_pos
+    : undefined
+  const dialSvg = useMemo(
+    () =>
+      renderMidpointDialSvg({
+        points: [
+          ...Object.entries(natalPositions).map(([name, position]) => ({
+            name,
+            longitude: position.abs_pos,
+            source: 'natal' as const,
+          })),
+          ...(showTransits
+            ? Object.entries(transitPositions).map(([name, position]) => ({
+                name,
+                longitude: position.abs_pos,
+                source: 'transit' as const,
+              }))
+            : []),
+        ],
+        dial,
+        pointer: pointerLongitude,
+        orb,
+      }),
+    [natalPositions, transitPositions, showTransits, dial, pointerLongitude, orb],
+  )
+
+  const handleDateChange = (date: Date | undefined) => {
+    const params = new URLSearchParams(searchParams)
+    if (date) {
+      params.set('date', format(date, 'yyyy-MM-dd'))
+    } else {
+      params.delete('date')
+    }
+    router.push(`${pathname}?${params.toString()}`)
+  }
+
+  const isPointerTree = (tree: MidpointTree) => pointer?.name === tree.point && pointer.source === tree.source
+  const dateParam = searchParams.get('date')
+
+  return (
+    <div className="space-y-4 p-0 md:p-2">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div className="min-w-0">
+          <h1 className="text-xl font-semibold truncate">
+            Midpoints: <span className="text-primary">{natalSubject.name}</span>
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {midpoints.length} natal midpoints · Transits for {format(new Date(transitDate), 'PP')}
+            {!transitSubject && ' could not be calculated'}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <StartDatePicker
+            value={dateParam ? new Date(dateParam) : undefined}
+            onChange={handleDateChange}
+            placeholder="Transits today"
+          />
+          <Select value={String(dial)} onValueChange={(value) => setDial(Number(value) as MidpointDial)}>
+            <SelectTrigger size="sm" aria-label="Dial">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MIDPOINT_DIALS.map((value) => (
+                <SelectItem key={value} value={String(value)}>
+                  {value}° dial
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={String(orb)} onValueChange={(value) => setOrb(Number(value))}>
+            <SelectTrigger size="sm" aria-label="Midpoint orb">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ORB_OPTIONS.map((value) => (
+                <SelectItem key={value} value={String(value)}>
+                  Orb {value}°
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Switch id="midpoints-transits" checked={showTransits} onCheckedChange={setShowTransits} />
+            <Label htmlFor="midpoints-transits" className="text-sm">
+              Transits
+            </Label>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 items-end">
+        <MultiSelectFilter
+          title="Planets"
+          options={planetOptions}
+          selected={planets}
+          onChange={setSelectedPlanets}
+          className="w-[140px]"
+        />
+        <MultiSelectFilter
+          title="Aspects"
+          options={aspectOptions}
+          selected={aspects}
+          onChange={setSelectedAspects}
+          className="w-[140px]"
+        />
+        <OrbFilterInput value={maxOrb} onChange={setMaxOrb} max={MAX_MIDPOINT_ORB} />
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <div className="relative w-full pt-3">
+          <div className="absolute top-0 left-4 px-2 bg-background text-sm text-muted-foreground z-10 flex items-center gap-2">
+            <Crosshair className="h-4 w-4" />
+            {dial}° Dial
+          </div>
+          <Card className="shadow-sm">
+            <CardContent className="pt-6 space-y-2">
+              <div
+                className="mx-auto max-w-[500px] [&>svg]:h-auto [&>svg]:w-full"
+                role="img"
+                aria-label={`${dial}° midpoint dial`}
+                dangerouslySetInnerHTML={{ __html: dialSvg }}
+              />
+              <p className="text-xs text-muted-foreground">
+                Natal points inside the scale, transits outside. Select a tree to set the pointer on its point.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="relative w-full pt-3">
+          <div className="absolute top-0 left-4 px-2 bg-background text-sm text-muted-foreground z-10 flex items-center gap-2">
+            <GitFork className="h-4 w-4" />
+            Midpoint Trees
+          </div>
+          <Card className="shadow-sm">
+            <CardContent className="pt-6 space-y-2 max-h-[560px] overflow-y-auto">
+              {trees.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No point activates a midpoint within {orb}°.</p>
+              ) : (
+                trees.map((tree) => (
+                  <button
+                    key={`${tree.source}-${tree.point}`}
+                    type="button"
+                    aria-pressed={isPointerTree(tree)}
+                    onClick={() => setPointer(isPointerTree(tree) ? null : { name: tree.point, source: tree.source })}
+                    className={cn(
+                      'w-full text-left rounded-md border p-2 text-sm transition-colors hover:bg-muted/50',
+                      isPointerTree(tree) && 'border-amber-500/60 bg-amber-500/10',
+                    )}
+                  >
+                    <div className="font-medium">
+                      {tree.source === 'transit' && <span className="text-muted-foreground font-normal">Transit </span>}
+                      {getPlanetIcon(tree.point)} {formatPlanetName(tree.point)}{' '}
+                      <span className="font-mono text-xs text-muted-foreground">{formatLongitude(tree.longitude)}</span>
+                    </div>
+                    <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1 font-mono text-xs">
+                      {tree.hits.map((hit) => (
+                        <span key={hit.midpoint.name} title={`${hit.aspect}, orb ${hit.orb.toFixed(2)}°`}>
+                          {ASPECT_SYMBOLS[hit.aspect] ?? '='} {getPlanetIcon(hit.midpoint.name)}{' '}
+                          <span className="text-muted-foreground">{hit.orb.toFixed(1)}°</span>
+                        </span>
+                      ))}
+                    </div>
+                  </button>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <div className="relative w-full pt-3">
+        <div className="absolute top-0 left-4 px-2 bg-background text-sm text-muted-foreground z-10 flex items-center gap-2">
+          <Grid3x3 className="h-4 w-4" />
+          Midpoint Aspects
+        </div>
+        <Card className="shadow-sm">
+          <CardContent className="pt-6">
+            {gridAspects.length > 0 ? (
+              <AspectGrid aspects={gridAspects} type="double" rowLabel="Point" colLabel="Midpoint" />
+            ) : (
+              <p className="text-sm text-muted-foreground">No midpoint hits match the filters.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="relative w-full pt-3">
+        <div className="absolute top-0 left-4 px-2 bg-background text-sm text-muted-foreground z-10 flex items-center gap-2">
+          <ListOrdered className="h-4 w-4" />
+          Sorted Midpoints
+        </div>
+        <Card className="shadow-sm">
+          <CardContent className="pt-6 overflow-x-auto max-h-[480px] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className={HEADER_CELL}>Midpoint</th>
+                  <th className={HEADER_CELL}>Longitude</th>
+                  <th className={HEADER_CELL}>{dial}° dial</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedMidpoints.map((midpoint) => (
+                  <tr key={midpoint.name} className="border-b last:border-0">
+                    <td className={CELL}>
+                      <span className="mr-1">{getPlanetIcon(midpoint.name)}</span>
+                      {formatPlanetName(midpoint.name)}
+                    </td>
+                    <td className={`${CELL} font-mono text-xs`}>{formatLongitude(midpoint.longitude)}</td>
+                    <td className={`${CELL} font-mono text-xs`}>
+                      {getDialPosition(midpoint.longitude, dial).toFixed(2)}°
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,279 @@
+'use client'
+
+import { ChartErrorState } from '@/components/ChartErrorState'
+import { useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import { useMultiWheelChart } from '@/hooks/useMultiWheelChart'
+import { useSubjects } from '@/hooks/useSubjects'
+import { MultiWheelChart } from '@/components/charts/MultiWheelChart'
+import { Tabs } from '@/components/ui/tabs'
+import { ChartTabsList } from '@/components/charts/ChartTabs'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { SaveChartButton } from '@/components/SaveChartButton'
+import { ExportMultiWheelPDFDialog } from '@/components/pdf/ExportMultiWheelPDFDialog'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { useChartSubject } from '@/hooks/useChartSubject'
+import { useChartTheme } from '@/hooks/useChartTheme'
+import { ChartViewWrapper } from '@/components/charts/ChartViewWrapper'
+import {
+  createRingSource,
+  getRingSourceLabel,
+  MAX_OUTER_RINGS,
+  RING_SOURCE_TYPES,
+  type MultiWheelRingSourceType,
+} from '@/lib/astrology/multi-wheel'
+import type { MultiWheelParams, MultiWheelRingSource } from '@/types/saved-chart-params'
+
+interface Props {
+  subjectId: string
+}
+
+/** Value of a datetime-local input for an ISO datetime, in UTC */
+function toDateTimeInputValue(iso: string): string {
+  return iso.slice(0, 16)
+}
+
+interface RingSourceFieldsProps {
+  index: number
+  source: MultiWheelRingSource
+  subjectId: string
+  onChange: (source: MultiWheelRingSource) => void
+}
+
+/**
+ * Inputs for the moment (or subject) of one outer ring
+ */
+function RingSourceFields({ index, source, subjectId, onChange }: RingSourceFieldsProps) {
+  const { query: subjectsQuery } = useSubjects()
+  const id = `multi-wheel-ring-${index}`
+
+  switch (source.type) {
+    case 'subject':
+      return (
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-subject`}>Subject</Label>
+          <Select value={source.subjectId} onValueChange={(value) => onChange({ ...source, subjectId: value })}>
+            <SelectTrigger id={`${id}-subject`} className="w-[200px]">
+              <SelectValue placeholder="Choose a subject" />
+            </SelectTrigger>
+            <SelectContent>
+              {(subjectsQuery.data ?? [])
+                .filter((subject) => subject.id !== subjectId)
+                .map((subject) => (
+                  <SelectItem key={subject.id} value={subject.id}>
+                    {subject.name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )
+
+    case 'transit':
+      return (
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-date`}>Transit moment (UTC)</Label>
+          <Input
+            id={`${id}-date`}
+            type="datetime-local"
+            className="w-[220px]"
+            value={toDateTimeInputValue(source.date)}
+            onChange={(e) => e.target.value && onChange({ ...source, date: `${e.target.value}:00.000Z` })}
+          />
+        </div>
+      )
+
+    case 'progressions':
+    case 'solar-arc':
+      return (
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-date`}>{source.type === 'solar-arc' ? 'Directed to' : 'Progressed to'}</Label>
+          <Input
+            id={`${id}-date`}
+            type="date"
+            className="w-[170px]"
+            value={source.targetDate}
+            onChange={(e) => e.target.value && onChange({ ...source, targetDate: e.target.value })}
+          />
+        </div>
+      )
+
+    case 'solar-return':
+      return (
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-year`}>Year</Label>
+          <Input
+            id={`${id}-year`}
+            type="number"
+            className="w-[110px]"
+            value={source.year}
+            onChange={(e) => onChange({ ...source, year: Number(e.target.value) })}
+          />
+        </div>
+      )
+
+    case 'lunar-return':
+      return (
+        <div className="space-y-1">
+          <Label htmlFor={`${id}-month`}>First return in</Label>
+          <Input
+            id={`${id}-month`}
+            type="month"
+            className="w-[170px]"
+            value={`${source.year}-${String(source.month).padStart(2, '0')}`}
+            onChange={(e) => {
+              const [year, month] = e.target.value.split('-').map(Number)
+              if (year && month) onChange({ ...source, year, month })
+            }}
+          />
+        </div>
+      )
+  }
+}
+
+export function MultiWheelView({ subjectId }: Props) {
+  const chartTheme = useChartTheme()
+  const { dateFormat, timeFormat } = useChartPreferences()
+  // Natal + progressed + transits, the most common tri-wheel
+  const [rings, setRings] = useState<MultiWheelRingSource[]>(() => [
+    createRingSource('progressions'),
+    createRingSource('transit'),
+  ])
+
+  const { data: subject, isLoading: isLoadingSubject, error: subjectError } = useChartSubject(subjectId)
+
+  const {
+    data: chartData,
+    isLoading: isLoadingChart,
+    isFetching: isFetchingChart,
+    error: chartError,
+    refetch,
+  } = useMultiWheelChart(subject, rings, { theme: chartTheme })
+
+  const ringLabels = chartData?.chart_data.rings?.map((ring) => ring.label)
+  const title = rings.length >= 3 ? 'Quad-Wheel' : rings.length === 2 ? 'Tri-Wheel' : 'Bi-Wheel'
+
+  const updateRing = (index: number, source: MultiWheelRingSource) => {
+    setRings((current) => current.map((ring, i) => (i === index ? source : ring)))
+  }
+
+  const removeRing = (index: number) => {
+    setRings((current) => current.filter((_, i) => i !== index))
+  }
+
+  const addRing = () => {
+    setRings((current) => [...current, createRingSource('transit')])
+  }
+
+  const saveChartParams: MultiWheelParams | null = chartData ? { type: 'multi-wheel', subjectId, rings } : null
+
+  return (
+    <ChartViewWrapper isLoading={isLoadingSubject} error={subjectError} hasSubject={!!subject}>
+      {subject && (
+        <Tabs defaultValue="chart" className="space-y-6 p-0 md:p-2 w-full">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">
+                {title} for {subject.name}
+              </h1>
+              <p className="text-muted-foreground">{ringLabels ? ringLabels.join(' • ') : 'Choose the outer rings'}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              {chartData && <ChartTabsList />}
+              <div className="flex items-center gap-2 ml-auto">
+                {chartData && saveChartParams && (
+                  <SaveChartButton
+                    chartParams={saveChartParams}
+                    chartType="multi-wheel"
+                    defaultName={`${subject.name} - ${ringLabels?.join(' + ') ?? title}`}
+                  />
+                )}
+                {chartData && (
+                  <ExportMultiWheelPDFDialog
+                    chartData={chartData.chart_data}
+                    chartWheelHtml={chartData.chart_wheel}
+                    dateFormat={dateFormat}
+                    timeFormat={timeFormat}
+                    size="icon"
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+
+          <Card>
+            <CardContent className="flex flex-col gap-4 p-4">
+              <div className="flex items-center gap-3 text-sm">
+                <span className="w-16 text-muted-foreground">Ring 1</span>
+                <span className="font-medium">Natal chart of {subject.name}</span>
+              </div>
+              {rings.map((source, index) => (
+                <div key={index} className="flex flex-wrap items-end gap-3">
+                  <span className="w-16 pb-2 text-sm text-muted-foreground">Ring {index + 2}</span>
+                  <div className="space-y-1">
+                    <Label htmlFor={`multi-wheel-ring-${index}-type`}>Source</Label>
+                    <Select
+                      value={source.type}
+                      onValueChange={(value) => updateRing(index, createRingSource(value as MultiWheelRingSourceType))}
+                    >
+                      <SelectTrigger id={`multi-wheel-ring-${index}-type`} className="w-[160px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RING_SOURCE_TYPES.map((type) => (
+                          <SelectItem key={type.value} value={type.value}>
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <RingSourceFields
+                    index={index}
+                    source={source}
+                    subjectId={subjectId}
+                    onChange={(updated) => updateRing(index, updated)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Remove ${getRingSourceLabel(source)} ring`}
+                    disabled={rings.length === 1}
+                    onClick={() => removeRing(index)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div>
+                <Button variant="outline" size="sm" onClick={addRing} disabled={rings.length >= MAX_OUTER_RINGS}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add ring
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {isLoadingChart && !chartData && (
+            <div className="space-y-4">
+              <Skeleton className="h-[600px] w-full" />
+            </div>
+          )}
+
+          {chartError && <ChartErrorState error={chartError} onRetry={() => refetch()} />}
+
+          {chartData && (
+            <div className={isFetchingChart ? 'opacity-50 transition-opacity duration-200' : ''}>
+              <MultiWheelChart data={chartData} />
+            </div>
+          )}
+        </Tabs>
+      )}
+    </ChartViewWrapper>
+  )
+}
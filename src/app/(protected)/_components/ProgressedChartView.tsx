@@ -0,0 +1,236 @@
+'use client'
+
+import { ChartErrorState } from '@/components/ChartErrorState'
+import { useState, useMemo } from 'react'
+import { ChevronLeft, ChevronRight, RotateCcw } from 'lucide-react'
+import { useProgressedChart } from '@/hooks/useProgressedChart'
+import { SynastryChart } from '@/components/charts/SynastryChart'
+import { Tabs } from '@/components/ui/tabs'
+import { ChartTabsList } from '@/components/charts/ChartTabs'
+import { isAIGloballyEnabled } from '@/lib/ai/feature-flags'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { SaveChartButton } from '@/components/SaveChartButton'
+import { ExportProgressionPDFDialog } from '@/components/pdf/ExportProgressionPDFDialog'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { formatDisplayDate, type DateFormat } from '@/lib/utils/date'
+import { useChartSubject } from '@/hooks/useChartSubject'
+import { useChartTheme } from '@/hooks/useChartTheme'
+import { ChartViewWrapper } from '@/components/charts/ChartViewWrapper'
+import { getSubChartData } from '@/lib/chart/helpers'
+import {
+  getAgeInYears,
+  getBirthInstant,
+  getProgressedLunation,
+  type ProgressedLunation,
+  type ProgressionTechnique,
+} from '@/lib/astrology/progressions'
+import type { ProgressionParams } from '@/types/saved-chart-params'
+
+interface Props {
+  subjectId: string
+  technique: ProgressionTechnique
+}
+
+const TECHNIQUE_TITLES: Record<ProgressionTechnique, { title: string; dateLabel: string }> = {
+  progressions: { title: 'Secondary Progressions', dateLabel: 'Progressed Date and Time' },
+  'solar-arc': { title: 'Solar Arc Directions', dateLabel: 'Directed to' },
+  'progressed-lunation': { title: 'Progressed Lunation', dateLabel: 'Progressed Date and Time' },
+}
+
+function toDateInputValue(date: Date): string {
+  return date.toISOString().split('T')[0]!
+}
+
+function shiftYears(value: string, years: number): string {
+  const date = new Date(value)
+  date.setUTCFullYear(date.getUTCFullYear() + years)
+  return toDateInputValue(date)
+}
+
+function LunationPhaseCard({ lunation, dateFormat }: { lunation: ProgressedLunation; dateFormat: DateFormat }) {
+  const [nextPhase] = lunation.nextPhases
+  return (
+    <Card>
+      <CardContent className="flex flex-wrap items-center gap-x-8 gap-y-2 p-4 text-sm">
+        <div>
+          <p className="text-muted-foreground">Current phase</p>
+          <p className="text-lg font-semibold">{lunation.phase}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Sun–Moon elongation</p>
+          <p className="font-medium">
+            {lunation.elongation.toFixed(1)}° ({lunation.degreesIntoPhase.toFixed(1)}° into the phase)
+          </p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Last progressed New Moon</p>
+          <p className="font-medium">Age {lunation.cycleStartAge.toFixed(1)}</p>
+        </div>
+        {nextPhase && (
+          <div>
+            <p className="text-muted-foreground">Next phase</p>
+            <p className="font-medium">
+              {nextPhase.phase} • {formatDisplayDate(nextPhase.date, dateFormat)} (age {nextPhase.ageYears.toFixed(1)})
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function ProgressedChartView({ subjectId, technique }: Props) {
+  const chartTheme = useChartTheme()
+  const today = useMemo(() => toDateInputValue(new Date()), [])
+  const [targetDate, setTargetDate] = useState(today)
+  const [notes, setNotes] = useState('')
+  const [notesGeneratedForDate, setNotesGeneratedForDate] = useState<string | null>(null)
+  const { dateFormat, timeFormat } = useChartPreferences()
+
+  const { data: subject, isLoading: isLoadingSubject, error: subjectError } = useChartSubject(subjectId)
+
+  const {
+    data: chartData,
+    isLoading: isLoadingChart,
+    error: chartError,
+    refetch,
+  } = useProgressedChart(technique, subject, targetDate || null, { theme: chartTheme })
+
+  const { title, dateLabel } = TECHNIQUE_TITLES[technique]
+
+  const lunation = useMemo(() => {
+    const progressed = chartData?.chart_data.second_subject
+    if (technique !== 'progressed-lunation' || !subject || !progressed) return null
+    const birth = getBirthInstant(subject)
+    return getProgressedLunation(progressed, birth, getAgeInYears(birth, new Date(targetDate)))
+  }, [technique, subject, chartData, targetDate])
+
+  const handleNotesChange = (newNotes: string) => {
+    setNotes(newNotes)
+    setNotesGeneratedForDate(newNotes ? targetDate : null)
+  }
+
+  const isDataStale = Boolean(notes && notesGeneratedForDate && notesGeneratedForDate !== targetDate)
+
+  const saveChartParams: ProgressionParams | null = chartData ? { type: technique, subjectId, targetDate } : null
+
+  return (
+    <ChartViewWrapper isLoading={isLoadingSubject} error={subjectError} hasSubject={!!subject}>
+      {subject && (
+        <Tabs defaultValue="chart" className="space-y-6 p-0 md:p-2 w-full">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">
+                {title} for {subject.name}
+              </h1>
+              <p className="text-muted-foreground">
+                {targetDate ? `Progressed to ${formatDisplayDate(targetDate, dateFormat)}` : 'Select a date'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {chartData && <ChartTabsList hasData={true} hasInterpretation={isAIGloballyEnabled()} />}
+              <div className="flex items-center gap-2 ml-auto">
+                {chartData && saveChartParams && (
+                  <SaveChartButton
+                    chartParams={saveChartParams}
+                    chartType={technique}
+                    defaultName={`${subject.name} - ${title} ${targetDate}`}
+                    notes={notes}
+                  />
+                )}
+                {chartData && (
+                  <ExportProgressionPDFDialog
+                    chartData={chartData.chart_data}
+                    aspects={chartData.chart_data.aspects}
+                    technique={technique}
+                    subject={subject}
+                    targetDate={targetDate}
+                    chartWheelHtml={chartData.chart_wheel}
+                    notes={notes}
+                    subtitle={lunation ? `${lunation.phase} phase` : undefined}
+                    dateFormat={dateFormat}
+                    timeFormat={timeFormat}
+                    size="icon"
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+
+          <Card>
+            <CardContent className="flex flex-wrap items-end gap-2 p-4">
+              <div className="space-y-1">
+                <Label htmlFor="progression-target-date">Target date</Label>
+                <Input
+                  id="progression-target-date"
+                  type="date"
+                  className="w-[170px]"
+                  value={targetDate}
+                  min={subject.birth_datetime.split('T')[0]}
+                  onChange={(e) => setTargetDate(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="One year back"
+                disabled={!targetDate || isLoadingChart}
+                onClick={() => setTargetDate(shiftYears(targetDate, -1))}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                aria-label="One year forward"
+                disabled={!targetDate || isLoadingChart}
+                onClick={() => setTargetDate(shiftYears(targetDate, 1))}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" onClick={() => setTargetDate(today)} disabled={targetDate === today}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Today
+              </Button>
+            </CardContent>
+          </Card>
+
+          {lunation && <LunationPhaseCard lunation={lunation} dateFormat={dateFormat} />}
+
+          {isLoadingChart && !chartData && (
+            <div className="space-y-4">
+              <Skeleton className="h-[600px] w-full" />
+            </div>
+          )}
+
+          {chartError && <ChartErrorState error={chartError} onRetry={() => refetch()} />}
+
+          {chartData && chartData.chart_data.first_subject && chartData.chart_data.second_subject && (
+            <div className={isLoadingChart ? 'opacity-50 transition-opacity duration-200' : ''}>
+              <SynastryChart
+                data={chartData}
+                subject1Data={getSubChartData(chartData.chart_data.first_subject, chartData.chart_data.active_points)}
+                subject2Data={getSubChartData(chartData.chart_data.second_subject, chartData.chart_data.active_points)}
+                notes={notes}
+                onNotesChange={handleNotesChange}
+                chartTypeOverride={technique}
+                subject1DateLabel="Birth Date and Time"
+                subject2DateLabel={dateLabel}
+                isDataStale={isDataStale}
+                staleDataLabel={
+                  notesGeneratedForDate
+                    ? `${title} for ${formatDisplayDate(notesGeneratedForDate, dateFormat)}`
+                    : undefined
+                }
+              />
+            </div>
+          )}
+        </Tabs>
+      )}
+    </ChartViewWrapper>
+  )
+}
@@ -0,0 +1,11 @@
+'use client'
+
+import { ProgressedChartView } from './ProgressedChartView'
+
+interface Props {
+  subjectId: string
+}
+
+export function ProgressedLunationView({ subjectId }: Props) {
+  return <ProgressedChartView subjectId={subjectId} technique="progressed-lunation" />
+}
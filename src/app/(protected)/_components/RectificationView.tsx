@@ -0,0 +1,403 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, Plus, Search, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { ChartViewWrapper } from '@/components/charts/ChartViewWrapper'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Textarea } from '@/components/ui/textarea'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { useChartSubject } from '@/hooks/useChartSubject'
+import { useRectification } from '@/hooks/useRectification'
+import { formatPlanetName } from '@/lib/astrology/planet-formatting'
+import {
+  formatLongitude,
+  getRectifiedRodensRating,
+  LIFE_EVENT_CATEGORIES,
+  type AngleContact,
+  type LifeEventCategory,
+  type RectificationCandidate,
+} from '@/lib/astrology/rectification'
+import { formatDisplayDate, formatDisplayTime } from '@/lib/utils/date'
+import { getErrorMessage } from '@/lib/utils/error'
+import { RODEN_RATING_MAP } from '@/types/schemas'
+import type { RodensRating } from '@/types/subjects'
+
+interface Props {
+  subjectId: string
+}
+
+const STEP_OPTIONS = [1, 2, 4, 5, 10, 15]
+
+const TECHNIQUE_LABELS: Record<AngleContact['technique'], string> = {
+  transit: 'Tr.',
+  progression: 'Pr.',
+  'solar-arc': 'SA',
+}
+
+const CATEGORY_LABELS = Object.fromEntries(LIFE_EVENT_CATEGORIES.map((category) => [category.value, category.label]))
+
+function formatContact(contact: AngleContact): string {
+  return `${TECHNIQUE_LABELS[contact.technique]} ${formatPlanetName(contact.point)} ${contact.aspect} ${formatPlanetName(contact.target)} (${contact.orb.toFixed(2)}°)`
+}
+
+export function RectificationView({ subjectId }: Props) {
+  const { dateFormat, timeFormat } = useChartPreferences()
+  const { data: subject, isLoading: isLoadingSubject, error: subjectError } = useChartSubject(subjectId)
+  const { events, history, createEventMutation, deleteEventMutation, sweepMutation, applyMutation } =
+    useRectification(subjectId)
+
+  const [eventDate, setEventDate] = useState('')
+  const [eventTitle, setEventTitle] = useState('')
+  const [eventCategory, setEventCategory] = useState<LifeEventCategory>('relationship')
+
+  const [windowStart, setWindowStart] = useState('00:00')
+  const [windowEnd, setWindowEnd] = useState('23:59')
+  const [stepMinutes, setStepMinutes] = useState(4)
+
+  const [selected, setSelected] = useState<RectificationCandidate | null>(null)
+  const [note, setNote] = useState('')
+  const [rating, setRating] = useState<RodensRating>('CR')
+
+  const eventTitles = Object.fromEntries((events.data ?? []).map((event) => [event.id, event.title]))
+
+  const handleAddEvent = () => {
+    createEventMutation.mutate(
+      { date: eventDate, title: eventTitle, category: eventCategory },
+      {
+        onSuccess: () => {
+          setEventDate('')
+          setEventTitle('')
+        },
+        onError: (error) => toast.error(getErrorMessage(error)),
+      },
+    )
+  }
+
+  const handleSweep = () => {
+    sweepMutation.mutate(
+      { windowStart, windowEnd, stepMinutes },
+      { onError: (error) => toast.error(getErrorMessage(error)) },
+    )
+  }
+
+  const handleSelect = (candidate: RectificationCandidate) => {
+    setSelected(candidate)
+    setNote('')
+    setRating(getRectifiedRodensRating(subject?.rodens_rating))
+  }
+
+  const handleApply = () => {
+    if (!selected) return
+    applyMutation.mutate(
+      { birthTime: selected.time, note, rodensRating: rating },
+      {
+        onSuccess: () => {
+          toast.success(`Birth time set to ${selected.time}`)
+          setSelected(null)
+        },
+        onError: (error) => toast.error(getErrorMessage(error)),
+      },
+    )
+  }
+
+  return (
+    <ChartViewWrapper isLoading={isLoadingSubject} error={subjectError} hasSubject={!!subject}>
+      {subject && (
+        <div className="space-y-6 p-0 md:p-2 w-full">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Birth Time Rectification for {subject.name}</h1>
+            <p className="text-muted-foreground">
+              Recorded birth time {formatDisplayDate(subject.birth_datetime, dateFormat)}{' '}
+              {formatDisplayTime(subject.birth_datetime, timeFormat)}
+              {subject.rodens_rating && ` • Rodden rating ${subject.rodens_rating}`}
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Life events</CardTitle>
+              <CardDescription>
+                Dated turning points such as marriages, accidents or relocations. The more events, the sharper the
+                ranking.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="life-event-date">Date</Label>
+                  <Input
+                    id="life-event-date"
+                    type="date"
+                    className="w-[170px]"
+                    value={eventDate}
+                    min={subject.birth_datetime.split('T')[0]}
+                    onChange={(e) => setEventDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1 flex-1 min-w-[200px]">
+                  <Label htmlFor="life-event-title">Event</Label>
+                  <Input
+                    id="life-event-title"
+                    value={eventTitle}
+                    maxLength={200}
+                    placeholder="e.g. Married in Lyon"
+                    onChange={(e) => setEventTitle(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="life-event-category">Category</Label>
+                  <Select value={eventCategory} onValueChange={(value) => setEventCategory(value as LifeEventCategory)}>
+                    <SelectTrigger id="life-event-category" className="w-[200px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LIFE_EVENT_CATEGORIES.map((category) => (
+                        <SelectItem key={category.value} value={category.value}>
+                          {category.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  onClick={handleAddEvent}
+                  disabled={!eventDate || !eventTitle.trim() || createEventMutation.isPending}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add event
+                </Button>
+              </div>
+
+              {events.isLoading ? (
+                <div className="flex justify-center p-4">
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                </div>
+              ) : (events.data ?? []).length === 0 ? (
+                <p className="text-sm text-muted-foreground">No life events yet.</p>
+              ) : (
+                <ul className="divide-y rounded-md border">
+                  {events.data!.map((event) => (
+                    <li key={event.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <span className="w-[100px] tabular-nums">{formatDisplayDate(event.date, dateFormat)}</span>
+                      <span className="flex-1">{event.title}</span>
+                      <Badge variant="secondary">{CATEGORY_LABELS[event.category] ?? event.category}</Badge>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Delete ${event.title}`}
+                        disabled={deleteEventMutation.isPending}
+                        onClick={() =>
+                          deleteEventMutation.mutate(event.id, {
+                            onError: (error) => toast.error(getErrorMessage(error)),
+                          })
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Candidate birth times</CardTitle>
+              <CardDescription>
+                Each candidate is scored by transits, secondary progressions and solar arc directions to and from its
+                Ascendant and Midheaven at the event dates. Only hard aspects count.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="rectification-start">From</Label>
+                  <Input
+                    id="rectification-start"
+                    type="time"
+                    className="w-[130px]"
+                    value={windowStart}
+                    onChange={(e) => setWindowStart(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rectification-end">To</Label>
+                  <Input
+                    id="rectification-end"
+                    type="time"
+                    className="w-[130px]"
+                    value={windowEnd}
+                    onChange={(e) => setWindowEnd(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="rectification-step">Step</Label>
+                  <Select value={String(stepMinutes)} onValueChange={(value) => setStepMinutes(Number(value))}>
+                    <SelectTrigger id="rectification-step" className="w-[130px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STEP_OPTIONS.map((step) => (
+                        <SelectItem key={step} value={String(step)}>
+                          {step} min
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  onClick={handleSweep}
+                  disabled={!windowStart || !windowEnd || !events.data?.length || sweepMutation.isPending}
+                >
+                  {sweepMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Search className="mr-2 h-4 w-4" />
+                  )}
+                  Rank times
+                </Button>
+              </div>
+
+              {sweepMutation.data && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[50px]">#</TableHead>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Ascendant</TableHead>
+                      <TableHead>Midheaven</TableHead>
+                      <TableHead className="text-right">Score</TableHead>
+                      <TableHead className="text-right">Tr. / Pr. / SA</TableHead>
+                      <TableHead>Strongest contacts</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sweepMutation.data.map((candidate, index) => (
+                      <TableRow key={candidate.birthDatetime}>
+                        <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                        <TableCell className="font-medium tabular-nums">
+                          {formatDisplayTime(candidate.birthDatetime, timeFormat)}
+                        </TableCell>
+                        <TableCell className="tabular-nums">{formatLongitude(candidate.ascendant)}</TableCell>
+                        <TableCell className="tabular-nums">{formatLongitude(candidate.midheaven)}</TableCell>
+                        <TableCell className="text-right font-medium tabular-nums">
+                          {candidate.score.toFixed(2)}
+                        </TableCell>
+                        <TableCell className="text-right text-muted-foreground tabular-nums">
+                          {candidate.scores.transit.toFixed(1)} / {candidate.scores.progression.toFixed(1)} /{' '}
+                          {candidate.scores['solar-arc'].toFixed(1)}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {candidate.contacts.slice(0, 3).map((contact) => (
+                            <div key={`${contact.eventId}-${contact.technique}-${contact.point}-${contact.target}`}>
+                              {formatContact(contact)} • {eventTitles[contact.eventId]}
+                            </div>
+                          ))}
+                        </TableCell>
+                        <TableCell>
+                          <Button variant="outline" size="sm" onClick={() => handleSelect(candidate)}>
+                            Use
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {(history.data ?? []).length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Rectification history</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="divide-y rounded-md border">
+                  {history.data!.map((entry) => (
+                    <li key={entry.id} className="space-y-1 px-3 py-2 text-sm">
+                      <p className="font-medium">
+                        {formatDisplayTime(entry.previousBirthDatetime, timeFormat)} →{' '}
+                        {formatDisplayTime(entry.birthDatetime, timeFormat)}
+                        {entry.rodensRating && ` • rated ${entry.rodensRating}`}
+                        <span className="font-normal text-muted-foreground">
+                          {' '}
+                          on {formatDisplayDate(entry.createdAt, dateFormat)}
+                        </span>
+                      </p>
+                      <p className="text-muted-foreground whitespace-pre-wrap">{entry.note}</p>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Set birth time to {selected?.time}</DialogTitle>
+                <DialogDescription>
+                  The birth date stays the same. The previous time and your note are kept in the rectification history.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="rectification-note">Audit note</Label>
+                  <Textarea
+                    id="rectification-note"
+                    value={note}
+                    maxLength={2000}
+                    placeholder="Why this time was chosen"
+                    onChange={(e) => setNote(e.target.value)}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="rectification-rating">Rodden rating</Label>
+                  <Select value={rating} onValueChange={(value) => setRating(value as RodensRating)}>
+                    <SelectTrigger id="rectification-rating">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(RODEN_RATING_MAP).map(([code, label]) => (
+                        <SelectItem key={code} value={code}>
+                          {code} – {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setSelected(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleApply} disabled={!note.trim() || applyMutation.isPending}>
+                  {applyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save birth time
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
+      )}
+    </ChartViewWrapper>
+  )
+}
@@ -0,0 +1,11 @@
+'use client'
+
+import { ProgressedChartView } from './ProgressedChartView'
+
+interface Props {
+  subjectId: string
+}
+
+export function SecondaryProgressionsView({ subjectId }: Props) {
+  return <ProgressedChartView subjectId={subjectId} technique="progressions" />
+}
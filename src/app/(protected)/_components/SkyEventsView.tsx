@@ -0,0 +1,327 @@
+'use client'
+
+import { Fragment, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { useRouter, usePathname, useSearchParams } from 'next/navigation'
+import { format } from 'date-fns'
+import { Table2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { MultiSelectFilter, type FilterOption } from '@/components/MultiSelectFilter'
+import { StartDatePicker } from '@/components/StartDatePicker'
+import { TimeRange, TimeRangeSelector } from '@/components/TimeRangeSelector'
+import { groupDatesIntoMonths } from '@/components/TimelineEventTable'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { useNatalLongitudes, useSkyEvents } from '@/hooks/useSkyEvents'
+import { useSubjects } from '@/hooks/useSubjects'
+import { formatPlanetName } from '@/lib/astrology/planet-formatting'
+import { findNatalContacts, type SkyEventCategory } from '@/lib/ephemeris/sky-events'
+import { formatSignPosition, getSkyEventSummary } from '@/lib/ephemeris/sky-event-labels'
+import { formatDisplayDate } from '@/lib/utils/date'
+
+import type { ChartPreferencesData } from '@/actions/preferences'
+
+interface SkyEventsViewProps {
+  preferences: ChartPreferencesData | null
+  currentTimeRange: TimeRange
+  initialStartingDate?: Date
+}
+
+const CATEGORY_OPTIONS: FilterOption[] = [
+  { value: 'lunations', label: 'New & Full Moons', icon: '☽' },
+  { value: 'eclipses', label: 'Eclipses', icon: '●' },
+  { value: 'ingresses', label: 'Sign Ingresses', icon: '→' },
+  { value: 'stations', label: 'Stations', icon: '℞' },
+  { value: 'void-of-course', label: 'Void-of-Course Moon', icon: '○' },
+]
+
+const NO_SUBJECT = 'none'
+
+/** Default orb for natal contacts, in degrees */
+const DEFAULT_CONTACT_ORB = 3
+
+export function SkyEventsView({ preferences, currentTimeRange, initialStartingDate }: SkyEventsViewProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { dateFormat, timeFormat } = useChartPreferences()
+  const { query: subjectsQuery } = useSubjects()
+
+  const [categories, setCategories] = useState<string[]>(['lunations', 'eclipses', 'stations'])
+  const [subjectId, setSubjectId] = useState(NO_SUBJECT)
+  const [orb, setOrb] = useState(DEFAULT_CONTACT_ORB)
+  const [oppositions, setOppositions] = useState(false)
+  const [contactsOnly, setContactsOnly] = useState(false)
+
+  // Calculate Date Range based on currentTimeRange and optional starting date
+  const { startDate, endDate } = useMemo(() => {
+    const start = initialStartingDate ? new Date(initialStartingDate) : new Date()
+    const end = new Date(start)
+
+    switch (currentTimeRange) {
+      case 'week':
+        end.setDate(start.getDate() + 7)
+        break
+      case 'month':
+        end.setMonth(start.getMonth() + 1)
+        break
+      case 'year':
+        end.setFullYear(start.getFullYear() + 1)
+        break
+      case '3years':
+        end.setFullYear(start.getFullYear() + 3)
+        break
+      case '10years':
+        end.setFullYear(start.getFullYear() + 10)
+        break
+      default:
+        end.setMonth(start.getMonth() + 1)
+    }
+    return { startDate: start, endDate: end }
+  }, [currentTimeRange, initialStartingDate])
+
+  const {
+    data: events,
+    isLoading,
+    isError,
+    error,
+  } = useSkyEvents({
+    startDate: startDate.toISOString(),
+    endDate: endDate.toISOString(),
+    categories: categories as SkyEventCategory[],
+    // Ingresses and stations of the active planets; Moon ingresses are covered by void-of-course periods
+    points: preferences?.active_points?.filter((point) => point !== 'Moon'),
+  })
+
+  const { data: natalLongitudes } = useNatalLongitudes(subjectId === NO_SUBJECT ? null : subjectId)
+
+  // Natal contacts of each event, limited to the active points
+  const rows = useMemo(() => {
+    const activePoints = preferences?.active_points
+    const natal = natalLongitudes
+      ? Object.fromEntries(
+          Object.entries(natalLongitudes).filter(([point]) => !activePoints || activePoints.includes(point)),
+        )
+      : null
+
+    // The query is disabled without categories, but keeps its previous data
+    if (categories.length === 0) return []
+
+    return (events ?? [])
+      .map((event) => ({ event, contacts: natal ? findNatalContacts(event, natal, { orb, oppositions }) : [] }))
+      .filter((row) => !natal || !contactsOnly || row.contacts.length > 0)
+  }, [events, categories, natalLongitudes, preferences, orb, oppositions, contactsOnly])
+
+  const monthGroups = useMemo(() => {
+    let offset = 0
+    return groupDatesIntoMonths(rows.map((row) => row.event.date)).map((month) => {
+      const monthRows = rows.slice(offset, offset + month.count)
+      offset += month.count
+      return { ...month, rows: monthRows }
+    })
+  }, [rows])
+
+  const formatMoment = (date: string) => formatDisplayDate(date, dateFormat, { includeTime: true, timeFormat })
+
+  const handleRangeChange = (range: TimeRange) => {
+    const params = new URLSearchParams(searchParams)
+    params.set('range', range)
+    router.push(`${pathname}?${params.toString()}`)
+  }
+
+  const handleStartDateChange = (date: Date | undefined) => {
+    const params = new URLSearchParams(searchParams)
+    if (date) {
+      params.set('from', format(date, 'yyyy-MM-dd'))
+    } else {
+      params.delete('from')
+    }
+    router.push(`${pathname}?${params.toString()}`)
+  }
+
+  return (
+    <div className="w-full p-0 md:p-2 flex flex-col gap-6">
+      <div className="flex items-start flex-wrap gap-3 justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Sky Events</h1>
+          <p className="text-neutral-600 dark:text-neutral-300 mt-1 text-sm">
+            Eclipses, new and full moons, stations, sign ingresses and void-of-course Moons (times in UTC, tropical
+            zodiac).
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {isLoading && (
+            <div
+              className="text-sm text-muted-foreground animate-pulse whitespace-nowrap"
+              role="status"
+              aria-live="polite"
+            >
+              Calculating…
+            </div>
+          )}
+          <StartDatePicker value={initialStartingDate} onChange={handleStartDateChange} />
+          <TimeRangeSelector value={currentTimeRange} onChange={handleRangeChange} extended />
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/ephemeris">
+              <Table2 className="h-4 w-4" />
+              Positions
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <MultiSelectFilter
+          title="Events"
+          options={CATEGORY_OPTIONS}
+          selected={categories}
+          onChange={setCategories}
+          className="w-[160px]"
+        />
+        <div className="grid gap-1.5">
+          <Label htmlFor="sky-events-subject" className="text-xs text-muted-foreground">
+            Natal chart
+          </Label>
+          <Select value={subjectId} onValueChange={setSubjectId}>
+            <SelectTrigger id="sky-events-subject" size="sm" className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_SUBJECT}>No overlay</SelectItem>
+              {(subjectsQuery.data ?? []).map((subject) => (
+                <SelectItem key={subject.id} value={subject.id}>
+                  {subject.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {subjectId !== NO_SUBJECT && (
+          <>
+            <div className="grid gap-1.5">
+              <Label htmlFor="sky-events-orb" className="text-xs text-muted-foreground">
+                Orb (°)
+              </Label>
+              <Input
+                id="sky-events-orb"
+                type="number"
+                min={0.5}
+                max={10}
+                step={0.5}
+                value={orb}
+                onChange={(e) => setOrb(Math.min(10, Math.max(0, Number(e.target.value) || 0)))}
+                className="h-8 w-20"
+              />
+            </div>
+            <div className="flex items-center gap-2 h-8">
+              <Switch id="sky-events-oppositions" checked={oppositions} onCheckedChange={setOppositions} />
+              <Label htmlFor="sky-events-oppositions" className="text-sm font-normal">
+                Oppositions
+              </Label>
+            </div>
+            <div className="flex items-center gap-2 h-8">
+              <Switch id="sky-events-contacts-only" checked={contactsOnly} onCheckedChange={setContactsOnly} />
+              <Label htmlFor="sky-events-contacts-only" className="text-sm font-normal">
+                Only events touching natal points
+              </Label>
+            </div>
+          </>
+        )}
+      </div>
+
+      {isError && (
+        <p className="text-sm text-destructive" role="alert">
+          {error instanceof Error ? error.message : 'Failed to search sky events.'}
+        </p>
+      )}
+
+      <div className="rounded-md border overflow-hidden">
+        <div className="w-full overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted/50 text-xs text-muted-foreground">
+              <tr className="border-b">
+                <th scope="col" className="p-2 text-left font-semibold">
+                  Date
+                </th>
+                <th scope="col" className="p-2 text-left font-semibold">
+                  Event
+                </th>
+                <th scope="col" className="p-2 text-left font-semibold">
+                  Details
+                </th>
+                {subjectId !== NO_SUBJECT && (
+                  <th scope="col" className="p-2 text-left font-semibold">
+                    Natal Contacts
+                  </th>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.length === 0 && !isLoading && (
+                <tr>
+                  <td colSpan={4} className="p-6 text-center text-sm text-muted-foreground">
+                    No events in this range.
+                  </td>
+                </tr>
+              )}
+              {monthGroups.map((month) => (
+                <Fragment key={month.key}>
+                  <tr className="border-b bg-muted/30">
+                    <th scope="colgroup" colSpan={4} className="px-2 py-1 text-left text-xs font-semibold">
+                      {month.label}
+                    </th>
+                  </tr>
+                  {month.rows.map(({ event, contacts }) => (
+                    <tr key={event.id} className="border-b hover:bg-muted/30 transition-colors">
+                      <td className="p-2 text-xs whitespace-nowrap">
+                        {formatMoment(event.date)}
+                        {event.endDate && (
+                          <span className="block text-muted-foreground">until {formatMoment(event.endDate)}</span>
+                        )}
+                      </td>
+                      <td className="p-2 text-xs font-medium">{getSkyEventSummary(event)}</td>
+                      <td className="p-2 text-xs text-muted-foreground">
+                        {event.type === 'void-of-course' ? (
+                          event.lastAspect ? (
+                            `After Moon ${event.lastAspect.aspect} ${formatPlanetName(event.lastAspect.point)}`
+                          ) : (
+                            'No aspect in this sign'
+                          )
+                        ) : (
+                          <>
+                            {formatSignPosition(event.longitude, event.sign)}
+                            {event.eclipse && (
+                              <span className="block">
+                                Magnitude {event.eclipse.magnitude.toFixed(3)} • Saros {event.eclipse.saros}
+                              </span>
+                            )}
+                          </>
+                        )}
+                      </td>
+                      {subjectId !== NO_SUBJECT && (
+                        <td className="p-2 text-xs">
+                          <div className="flex flex-wrap gap-1">
+                            {contacts.map((contact) => (
+                              <Badge key={contact.point} variant="secondary" className="font-normal">
+                                {contact.aspect === 'opposition' ? '☍' : '☌'} {formatPlanetName(contact.point)}{' '}
+                                {contact.orb.toFixed(1)}°
+                              </Badge>
+                            ))}
+                          </div>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,11 @@
+'use client'
+
+import { ProgressedChartView } from './ProgressedChartView'
+
+interface Props {
+  subjectId: string
+}
+
+export function SolarArcView({ subjectId }: Props) {
+  return <ProgressedChartView subjectId={subjectId} technique="solar-arc" />
+}
@@ -6,7 +6,8 @@
  * Features:
  * - Data table with sorting, filtering, column visibility
  * - CRUD operations via dialogs
- * - Bulk actions (delete, synastry, composite)
+ * - Bulk actions (delete, synastry, composite, groups, tags)
+ * - Group-scoped views with counts and pairwise chart shortcuts
  * - Import/Export via settings menu
  *
  * @module app/(protected)/_components/SubjectsView
@@ -24,13 +25,20 @@ import { createSubjectsColumns } from '@/components/SubjectsColumns'
 import { Plus, Trash2, GitCompare, GitMerge } from 'lucide-react'
 import { useRouter } from 'next/navigation'
 import { deleteSubjects } from '@/lib/api/subjects'
-import Papa from 'papaparse'
+import { BIRTH_DATA_FORMATS, type BirthDataFormat } from '@/lib/csv/formats'
 import { ImportSubjectsDialog } from '@/components/ImportSubjectsDialog'
 import { SubjectsTableSettings } from '@/components/SubjectsTableSettings'
 import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { toast } from 'sonner'
 import { useState, useMemo } from 'react'
 import { TagFilter } from '@/components/TagFilter'
+import { SubjectGroupsBar, type GroupFilter } from '@/components/SubjectGroupsBar'
+import { SubjectGroupDialog } from '@/components/SubjectGroupDialog'
+import { GroupChartShortcutsDialog } from '@/components/GroupChartShortcutsDialog'
+import { ManageTagsDialog } from '@/components/ManageTagsDialog'
+import { SubjectsOrganizeMenu } from '@/components/SubjectsOrganizeMenu'
+import { useSubjectGroups } from '@/hooks/useSubjectGroups'
+import type { SubjectGroup } from '@/types/subjects'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -53,6 +61,7 @@ import Link from 'next/link'
 
 export function SubjectsView() {
   const { query, deleteDialog, editDialog, createDialog, actions } = useSubjects()
+  const { tagsQuery, groupsQuery, tags: tagMutations, groups: groupMutations } = useSubjectGroups()
   const { dateFormat } = useChartPreferences()
   const router = useRouter()
   const queryClient = useQueryClient()
@@ -71,48 +80,78 @@ export function SubjectsView() {
   const [isBulkDeleteDialogOpen, setIsBulkDeleteDialogOpen] = useState(false)
   const [importDialogOpen, setImportDialogOpen] = useState(false)
   const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [activeGroupFilter, setActiveGroupFilter] = useState<GroupFilter>('all')
+  const [groupDialog, setGroupDialog] = useState<{ open: boolean; group: SubjectGroup | null; memberIds: string[] }>({
+    open: false,
+    group: null,
+    memberIds: [],
+  })
+  const [groupToDelete, setGroupToDelete] = useState<SubjectGroup | null>(null)
+  const [chartsGroup, setChartsGroup] = useState<SubjectGroup | null>(null)
+  const [manageTagsOpen, setManageTagsOpen] = useState(false)
 
-  // Compute all unique tags from subjects
-  const allTags = useMemo(() => {
-    if (!query.data) return []
-    const tagSet = new Set<string>()
-    query.data.forEach((subject) => {
-      subject.tags?.forEach((tag) => tagSet.add(tag))
-    })
-    return Array.from(tagSet)
-  }, [query.data])
-
-  // Filter subjects by selected tags
+  const groups = useMemo(() => groupsQuery.data ?? [], [groupsQuery.data])
+  const tags = useMemo(() => tagsQuery.data ?? [], [tagsQuery.data])
+
+  // Fall back to "All" when the active group is deleted or merged away
+  const activeGroup = groups.find((g) => g.id === activeGroupFilter) ?? null
+  const groupFilter: GroupFilter = activeGroupFilter === 'ungrouped' || activeGroup ? activeGroupFilter : 'all'
+
+  const groupNames = useMemo(() => Object.fromEntries(groups.map((g) => [g.id, g.name])), [groups])
+
+  // Tags attached to at least one subject
+  const allTags = useMemo(() => tags.filter((t) => t.subjectCount > 0).map((t) => t.name), [tags])
+
+  const ungroupedCount = useMemo(
+    () => query.data?.filter((subject) => !subject.groupIds?.length).length ?? 0,
+    [query.data],
+  )
+
+  // Filter subjects by active group, then by selected tags
   const filteredData = useMemo(() => {
     if (!query.data) return []
-    if (selectedTags.length === 0) return query.data
-    return query.data.filter((subject) => selectedTags.some((tag) => subject.tags?.includes(tag)))
-  }, [query.data, selectedTags])
+    const inGroup =
+      groupFilter === 'all'
+        ? query.data
+        : groupFilter === 'ungrouped'
+          ? query.data.filter((subject) => !subject.groupIds?.length)
+          : query.data.filter((subject) => subject.groupIds?.includes(groupFilter))
+    if (selectedTags.length === 0) return inGroup
+    return inGroup.filter((subject) => selectedTags.some((tag) => subject.tags?.includes(tag)))
+  }, [query.data, groupFilter, selectedTags])
+
+  const chartsGroupMembers = useMemo(
+    () => (chartsGroup ? (query.data ?? []).filter((subject) => subject.groupIds?.includes(chartsGroup.id)) : []),
+    [query.data, chartsGroup],
+  )
+
+  const submitGroupDialog = (data: { name: string; description?: string | null }) => {
+    const onSuccess = () => setGroupDialog({ open: false, group: null, memberIds: [] })
+    if (groupDialog.group) {
+      groupMutations.update.mutate({ id: groupDialog.group.id, data }, { onSuccess })
+    } else {
+      groupMutations.create.mutate(
+        { data, subjectIds: groupDialog.memberIds },
+        {
+          onSuccess: (group) => {
+            onSuccess()
+            setActiveGroupFilter(group.id)
+          },
+        },
+      )
+    }
+  }
 
   // Export handler
-  const handleExport = () => {
+  const handleExport = (format: BirthDataFormat) => {
     if (!query.data) return
 
-    const csv = Papa.unparse(
-      query.data.map((s) => ({
-        name: s.name,
-        birthDatetime: s.birth_datetime,
-        city: s.city,
-        nation: s.nation,
-        latitude: s.latitude,
-        longitude: s.longitude,
-        timezone: s.timezone,
-        rodensRating: s.rodens_rating,
-        tags: s.tags?.join(','),
-        notes: s.notes,
-      })),
-    )
-
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' })
+    const { write, mimeType, extension } = BIRTH_DATA_FORMATS[format]
+    const blob = new Blob([write(query.data)], { type: mimeType })
     const url = URL.createObjectURL(blob)
     const link = document.createElement('a')
     link.href = url
-    link.setAttribute('download', 'subjects_export.csv')
+    link.setAttribute('download', `subjects_export.${extension}`)
     document.body.appendChild(link)
     link.click()
     document.body.removeChild(link)
@@ -137,6 +176,7 @@ export function SubjectsView() {
     openEditDialog: actions.openEditDialog,
     openDeleteDialog: actions.openDeleteDialog,
     dateFormat,
+    groupNames,
   })
 
   return (
@@ -172,6 +212,25 @@ export function SubjectsView() {
         </div>
       )}
 
+      {/* Groups */}
+      <SubjectGroupsBar
+        groups={groups}
+        activeGroup={groupFilter}
+        onActiveGroupChange={setActiveGroupFilter}
+        totalCount={subjectCount}
+        ungroupedCount={ungroupedCount}
+        onCreate={() => setGroupDialog({ open: true, group: null, memberIds: [] })}
+        onRename={(group) => setGroupDialog({ open: true, group, memberIds: [] })}
+        onMerge={(source, target) =>
+          groupMutations.merge.mutate(
+            { sourceIds: [source.id], targetId: target.id },
+            { onSuccess: () => setActiveGroupFilter(target.id) },
+          )
+        }
+        onDelete={setGroupToDelete}
+        onOpenCharts={setChartsGroup}
+      />
+
       {/* Data Table */}
       <DataTable<Subject, unknown>
         columns={columns}
@@ -217,6 +276,7 @@ export function SubjectsView() {
             onExport={handleExport}
             onImport={() => setImportDialogOpen(true)}
             exportDisabled={!query.data?.length}
+            onManageTags={() => setManageTagsOpen(true)}
           />
         )}
         onRowClick={(subject) => router.push(`/subjects/${subject.id}/natal`)}
@@ -243,17 +303,33 @@ export function SubjectsView() {
           ) : null
         }
         bulkActions={(selectedRows) => (
-          <Button
-            variant="destructive"
-            size="sm"
-            onClick={() => {
-              setSelectedIds(selectedRows.map((r) => r.id))
-              setIsBulkDeleteDialogOpen(true)
-            }}
-          >
-            <Trash2 className="size-4 mr-2" />
-            Delete ({selectedRows.length})
-          </Button>
+          <>
+            <SubjectsOrganizeMenu
+              selectedRows={selectedRows}
+              groups={groups}
+              tags={tags}
+              activeGroup={activeGroup}
+              onAddToGroup={(group, subjectIds) =>
+                groupMutations.assign.mutate({ groupId: group.id, subjectIds, mode: 'add' })
+              }
+              onRemoveFromGroup={(group, subjectIds) =>
+                groupMutations.assign.mutate({ groupId: group.id, subjectIds, mode: 'remove' })
+              }
+              onCreateGroup={(subjectIds) => setGroupDialog({ open: true, group: null, memberIds: subjectIds })}
+              onAssignTags={(tagNames, subjectIds, mode) => tagMutations.assign.mutate({ subjectIds, tagNames, mode })}
+            />
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => {
+                setSelectedIds(selectedRows.map((r) => r.id))
+                setIsBulkDeleteDialogOpen(true)
+              }}
+            >
+              <Trash2 className="size-4 mr-2" />
+              Delete ({selectedRows.length})
+            </Button>
+          </>
         )}
         footer={<div className="text-xs text-neutral-500 mt-2">Subjects are stored per user.</div>}
       />
@@ -280,6 +356,60 @@ export function SubjectsView() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Delete Group Dialog */}
+      <AlertDialog open={!!groupToDelete} onOpenChange={(open) => !open && setGroupToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete group?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The group <strong>{groupToDelete?.name}</strong> will be deleted. Its subjects are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (groupToDelete) groupMutations.remove.mutate(groupToDelete.id)
+                setGroupToDelete(null)
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Group and Tag Dialogs */}
+      <SubjectGroupDialog
+        open={groupDialog.open}
+        onOpenChange={(open) => setGroupDialog((d) => ({ ...d, open }))}
+        group={groupDialog.group}
+        memberCount={groupDialog.memberIds.length}
+        isSaving={groupMutations.create.isPending || groupMutations.update.isPending}
+        onSubmit={submitGroupDialog}
+      />
+
+      <GroupChartShortcutsDialog
+        open={!!chartsGroup}
+        onOpenChange={(open) => !open && setChartsGroup(null)}
+        groupName={chartsGroup?.name ?? ''}
+        subjects={chartsGroupMembers}
+      />
+
+      <ManageTagsDialog
+        open={manageTagsOpen}
+        onOpenChange={setManageTagsOpen}
+        tags={tags}
+        isPending={tagMutations.rename.isPending || tagMutations.merge.isPending || tagMutations.remove.isPending}
+        onRename={(tag, name) => tagMutations.rename.mutate({ id: tag.id, name })}
+        onMerge={(source, target) => tagMutations.merge.mutate({ sourceIds: [source.id], targetId: target.id })}
+        onDelete={(tag) => {
+          tagMutations.remove.mutate(tag.id)
+          setSelectedTags((selected) => selected.filter((name) => name !== tag.name))
+        }}
+      />
+
       {/* Individual Subject Dialogs */}
       <DeleteSubjectDialog
         open={deleteDialog.open}
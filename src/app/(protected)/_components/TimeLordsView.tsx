@@ -0,0 +1,94 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import type { EnrichedSubjectModel } from '@/types/astrology'
+import { Card, CardContent } from '@/components/ui/card'
+import { TimeLordTimeline } from '@/components/TimeLordTimeline'
+import { calculateTimeLords, type TimeLordPeriod } from '@/lib/astrology/time-lords'
+import { format } from 'date-fns'
+
+interface TimeLordsViewProps {
+  natalSubject: EnrichedSubjectModel
+}
+
+interface TimeLordSystem {
+  title: string
+  description: string
+  periods: TimeLordPeriod[]
+  pxPerYear?: number
+}
+
+export function TimeLordsView({ natalSubject }: TimeLordsViewProps) {
+  const [now] = useState(() => new Date())
+  const timeLords = useMemo(() => calculateTimeLords(natalSubject), [natalSubject])
+  const birth = new Date(natalSubject.iso_formatted_utc_datetime ?? now)
+
+  const systems: TimeLordSystem[] = timeLords
+    ? [
+        {
+          title: 'Annual Profections',
+          description: 'One sign per year from the Ascendant; its ruler is the lord of the year. Months below.',
+          periods: timeLords.profections,
+          pxPerYear: 32,
+        },
+        {
+          title: 'Firdaria',
+          description: 'Planetary periods in sect order, each divided into seven sub-periods.',
+          periods: timeLords.firdaria,
+        },
+        {
+          title: 'Zodiacal Releasing from Spirit',
+          description: 'Career and action. Peak periods (10th from Fortune) are outlined.',
+          periods: timeLords.releasingFromSpirit,
+        },
+        {
+          title: 'Zodiacal Releasing from Fortune',
+          description: 'Body and circumstances. Loosing of the bond is marked in the sub-periods.',
+          periods: timeLords.releasingFromFortune,
+        },
+        ...(timeLords.dasha
+          ? [
+              {
+                title: 'Vimshottari Dasha',
+                description: 'Mahadashas from the nakshatra of the Moon, with their antardashas.',
+                periods: timeLords.dasha,
+              },
+            ]
+          : []),
+      ]
+    : []
+
+  return (
+    <div className="space-y-4 p-0 md:p-2">
+      <div className="min-w-0">
+        <h1 className="text-xl font-semibold truncate">
+          Time Lords: <span className="text-primary">{natalSubject.name}</span>
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          Born {format(birth, 'PP')} · Periods as of {format(now, 'PP')}
+          {natalSubject.zodiac_type !== 'Sidereal' && ' · Vimshottari dasha requires the Sidereal zodiac'}
+        </p>
+      </div>
+
+      {!timeLords ? (
+        <p className="text-sm text-destructive" role="alert">
+          The natal chart lacks the Ascendant or planets needed for time-lord periods.
+        </p>
+      ) : (
+        systems.map((system) => (
+          <div key={system.title} className="relative w-full pt-3">
+            <div className="absolute top-0 left-4 px-2 bg-background text-sm text-muted-foreground z-10">
+              {system.title}
+            </div>
+            <Card className="shadow-sm">
+              <CardContent className="pt-6 space-y-3">
+                <p className="text-xs text-muted-foreground">{system.description}</p>
+                <TimeLordTimeline periods={system.periods} from={birth} now={now} pxPerYear={system.pxPerYear} />
+              </CardContent>
+            </Card>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
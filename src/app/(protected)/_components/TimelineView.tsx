@@ -3,14 +3,16 @@
 import { useState, useMemo } from 'react'
 import { useRouter, usePathname, useSearchParams } from 'next/navigation'
 import { TimeRange, TimeRangeSelector } from '@/components/TimeRangeSelector'
-import { TimelineEventTable } from '@/components/TimelineEventTable'
+import { filterTimelineEvents, TimelineEventTable } from '@/components/TimelineEventTable'
+import { CalendarExportDialog } from '@/components/CalendarExportDialog'
 import { RelocationDialog } from './RelocationDialog'
 import { MultiSelectFilter, type FilterOption } from '@/components/MultiSelectFilter'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import type { EnrichedSubjectModel, SubjectModel, ChartRequestOptions } from '@/types/astrology'
 import { formatPlanetName } from '@/lib/astrology/planet-formatting'
 import { ASPECT_SYMBOLS } from '@/lib/astrology/aspects'
 import { getCelestialPointIndex, isChartAngle, PLANET_ICONS } from '@/lib/astrology/celestial-points'
-import { useTransitData } from '@/hooks/useTransitData'
+import { useTransitTimeline } from '@/hooks/useTransitTimeline'
 import { StartDatePicker } from '@/components/StartDatePicker'
 import { format } from 'date-fns'
 
@@ -27,6 +29,9 @@ interface TimelineViewProps {
 
 const getCelestialOrderIndex = getCelestialPointIndex
 
+/** Orbs offered for transits to natal midpoints */
+const MIDPOINT_ORBS = [1, 1.5, 2]
+
 // Helper to format aspect names for display
 function formatAspectName(apiName: string): string {
   return apiName.charAt(0).toUpperCase() + apiName.slice(1)
@@ -58,6 +63,9 @@ export function TimelineView({
     return preferences?.active_aspects?.map((a) => a.name) || []
   })
 
+  // Transits to natal midpoints are searched only when an orb is chosen
+  const [midpointOrb, setMidpointOrb] = useState<number | undefined>(undefined)
+
   const [customLocation, setCustomLocation] = useState<{
     city: string
     nation: string
@@ -67,15 +75,14 @@ export function TimelineView({
   } | null>(null)
 
   // Generate planet options from user preferences
-  const allPlanetOptions = useMemo<FilterOption[]>(() => {
+  const natalPlanetOptions = useMemo<FilterOption[]>(() => {
     if (!preferences?.active_points) {
       return []
     }
 
-    // Filter out chart angles (Ascendant, MC, Descendant, IC) - not relevant for transits
-    const filteredPoints = preferences.active_points.filter((point) => !isChartAngle(point))
-
-    const sortedPoints = [...filteredPoints].sort((a, b) => getCelestialOrderIndex(a) - getCelestialOrderIndex(b))
+    const sortedPoints = [...preferences.active_points].sort(
+      (a, b) => getCelestialOrderIndex(a) - getCelestialOrderIndex(b),
+    )
 
     return sortedPoints.map((point) => ({
       value: point,
@@ -84,11 +91,12 @@ export function TimelineView({
     }))
   }, [preferences])
 
-  // Transit planets options (same as natal now)
-  const transitPlanetOptions = allPlanetOptions
-
-  // Natal planets include everything
-  const natalPlanetOptions = allPlanetOptions
+  // Transit planets exclude chart angles (Ascendant, MC, Descendant, IC):
+  // they sweep the zodiac daily and are only meaningful as natal targets
+  const transitPlanetOptions = useMemo<FilterOption[]>(
+    () => natalPlanetOptions.filter((option) => !isChartAngle(option.value)),
+    [natalPlanetOptions],
+  )
 
   // Generate aspect options from user preferences
   const aspectOptions = useMemo<FilterOption[]>(() => {
@@ -122,6 +130,12 @@ export function TimelineView({
       case 'year':
         end.setFullYear(start.getFullYear() + 1)
         break
+      case '3years':
+        end.setFullYear(start.getFullYear() + 3)
+        break
+      case '10years':
+        end.setFullYear(start.getFullYear() + 10)
+        break
       default:
         end.setDate(start.getDate() + 7)
     }
@@ -174,36 +188,41 @@ export function TimelineView({
   }, [natalSubject, preferences, customLocation])
 
   // Prepare chart options from preferences (memoized to prevent infinite loops)
-  // For timeline, exclude house axes from active_points (they change constantly for transits)
+  // Axes stay in active_points: the timeline engine uses them as natal targets only
   const chartOptions = useMemo<ChartRequestOptions | undefined>(() => {
     if (!preferences) return undefined
 
-    const axes = ['Ascendant', 'Medium_Coeli', 'Descendant', 'Imum_Coeli']
-    const activePointsWithoutAxes = preferences.active_points.filter((point) => !axes.includes(point))
-
     return {
-      active_points: activePointsWithoutAxes,
+      active_points: preferences.active_points,
       active_aspects: preferences.active_aspects,
-      distribution_method: preferences.distribution_method as ChartRequestOptions['distribution_method'],
-      custom_distribution_weights:
-        preferences.custom_distribution_weights && Object.keys(preferences.custom_distribution_weights).length > 0
-          ? preferences.custom_distribution_weights
-          : undefined,
     }
   }, [preferences])
 
   const {
-    data: transitData,
+    data: timeline,
     isLoading,
-    progress,
-  } = useTransitData({
+    isError,
+    error,
+  } = useTransitTimeline({
     subjectId,
     natalSubject: cleanSubject,
     startDate,
     endDate,
     chartOptions,
+    midpointOrb,
   })
 
+  // Events shown in the table, exported as they are filtered
+  const visibleEvents = useMemo(
+    () =>
+      filterTimelineEvents(timeline?.events ?? [], {
+        transitPoints: selectedTransitPlanets,
+        natalPoints: selectedNatalPlanets,
+        aspects: selectedAspects,
+      }),
+    [timeline, selectedTransitPlanets, selectedNatalPlanets, selectedAspects],
+  )
+
   const handleRangeChange = (range: TimeRange) => {
     const params = new URLSearchParams(searchParams)
     params.set('range', range)
@@ -245,23 +264,48 @@ export function TimelineView({
         </div>
         {/* Actions in header */}
         <div className="flex items-center gap-1.5 shrink-0">
-          {isLoading && progress.total > 0 && (
-            <div className="text-sm text-muted-foreground animate-pulse whitespace-nowrap" role="status" aria-live="polite">
-              {Math.round((progress.loaded / progress.total) * 100)}%
+          {isLoading && (
+            <div
+              className="text-sm text-muted-foreground animate-pulse whitespace-nowrap"
+              role="status"
+              aria-live="polite"
+            >
+              Calculating…
             </div>
           )}
           <StartDatePicker value={initialStartingDate} onChange={handleStartDateChange} />
           <RelocationDialog currentLocation={customLocation} onLocationChange={setCustomLocation} />
+          <CalendarExportDialog
+            subjectId={subjectId}
+            subjectName={natalSubject.name}
+            events={visibleEvents}
+            startDate={startDate}
+            endDate={endDate}
+            points={selectedTransitPlanets}
+          />
         </div>
       </div>
 
+      {isError && (
+        <p className="text-sm text-destructive" role="alert">
+          {error instanceof Error ? error.message : 'Failed to calculate the transit timeline.'}
+        </p>
+      )}
+
+      {timeline && timeline.skippedPoints.length > 0 && (
+        <p className="text-xs text-muted-foreground" role="status">
+          Not tracked over this range: {timeline.skippedPoints.map((point) => formatPlanetName(point)).join(', ')}. Fast
+          points need a shorter range; Chiron, True Lilith and the asteroids are not available on the timeline.
+        </p>
+      )}
+
       <TimelineEventTable
-        transitData={transitData}
+        events={timeline?.events ?? []}
+        rangeStart={timeline?.startDate ?? startDate.toISOString()}
         subjectId={subjectId}
         selectedTransitPlanets={selectedTransitPlanets}
         selectedNatalPlanets={selectedNatalPlanets}
         selectedAspects={selectedAspects}
-        natalSubject={natalSubject}
         filters={
           <div className="grid grid-cols-2 sm:flex sm:flex-wrap items-center gap-1.5 sm:gap-2 w-full sm:w-auto">
             <MultiSelectFilter
@@ -287,7 +331,32 @@ export function TimelineView({
               onChange={setSelectedAspects}
               className="w-full sm:w-[140px]"
             />
-            <TimeRangeSelector value={currentTimeRange} onChange={handleRangeChange} className="w-full sm:w-[140px]" />
+            <Select
+              value={midpointOrb === undefined ? 'off' : String(midpointOrb)}
+              onValueChange={(value) => setMidpointOrb(value === 'off' ? undefined : Number(value))}
+            >
+              <SelectTrigger
+                size="sm"
+                className="w-full sm:w-[140px] text-xs sm:text-sm"
+                aria-label="Transits to midpoints"
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">No midpoints</SelectItem>
+                {MIDPOINT_ORBS.map((orb) => (
+                  <SelectItem key={orb} value={String(orb)}>
+                    Midpoints {orb}°
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <TimeRangeSelector
+              value={currentTimeRange}
+              onChange={handleRangeChange}
+              className="w-full sm:w-[140px]"
+              extended
+            />
           </div>
         }
       />
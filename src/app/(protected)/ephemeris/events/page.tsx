@@ -0,0 +1,29 @@
+import { Suspense } from 'react'
+import { SkyEventsView } from '../../_components/SkyEventsView'
+import { getChartPreferences } from '@/actions/preferences'
+import type { TimeRange } from '@/components/TimeRangeSelector'
+
+interface PageProps {
+  searchParams: Promise<{ range?: string; from?: string }>
+}
+
+export default async function Page({ searchParams }: PageProps) {
+  const { range, from } = await searchParams
+
+  // Parse starting date from query param (format: YYYY-MM-DD)
+  const startingDate = from ? new Date(from) : undefined
+  const validStartingDate = startingDate && !isNaN(startingDate.getTime()) ? startingDate : undefined
+
+  // Validate timeRange - event searches support multi-year ranges
+  const validRanges: TimeRange[] = ['week', 'month', 'year', '3years', '10years']
+  const timeRange: TimeRange = validRanges.includes(range as TimeRange) ? (range as TimeRange) : 'year'
+
+  // Fetch user preferences server-side
+  const preferences = await getChartPreferences()
+
+  return (
+    <Suspense fallback={<div>Loading sky events...</div>}>
+      <SkyEventsView preferences={preferences} currentTimeRange={timeRange} initialStartingDate={validStartingDate} />
+    </Suspense>
+  )
+}
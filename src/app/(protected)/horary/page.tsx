@@ -0,0 +1,17 @@
+/**
+ * NOTE: DODO PAYMENTS - This page requires paid plan for chart access
+ */
+import { redirect } from 'next/navigation'
+import { getSessionWithSubscription } from '@/lib/subscription'
+import { canAccessChartType } from '@/lib/subscription/plan-limits'
+import { HoraryChartView } from '../_components/HoraryChartView'
+
+export default async function Page() {
+  // DODO PAYMENTS: Check chart access for free plan
+  const session = await getSessionWithSubscription()
+  if (!session || !canAccessChartType(session.subscriptionPlan, 'horary')) {
+    redirect('/pricing')
+  }
+
+  return <HoraryChartView />
+}
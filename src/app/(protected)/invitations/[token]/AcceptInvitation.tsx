@@ -0,0 +1,90 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useQueryClient } from '@tanstack/react-query'
+import { Loader2, Users } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { acceptWorkspaceInvitation, type WorkspaceInvitationPreview } from '@/actions/workspaces'
+import { INVITABLE_WORKSPACE_ROLES, WORKSPACE_ROLE_LABELS } from '@/lib/workspaces/roles'
+import { getErrorMessage } from '@/lib/utils/error'
+
+interface AcceptInvitationProps {
+  token: string
+  invitation: WorkspaceInvitationPreview | null
+}
+
+/**
+ * Invitation to a team workspace, with the button to accept it
+ */
+export function AcceptInvitation({ token, invitation }: AcceptInvitationProps) {
+  const router = useRouter()
+  const queryClient = useQueryClient()
+  const [isAccepting, setIsAccepting] = useState(false)
+
+  const handleAccept = async () => {
+    setIsAccepting(true)
+    try {
+      await acceptWorkspaceInvitation(token)
+      await queryClient.invalidateQueries()
+      toast.success(`You joined ${invitation?.workspaceName}`)
+      router.push('/subjects')
+    } catch (error) {
+      toast.error(getErrorMessage(error))
+      setIsAccepting(false)
+    }
+  }
+
+  if (!invitation || invitation.status !== 'pending') {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Invitation unavailable</CardTitle>
+          <CardDescription>
+            {invitation?.status === 'accepted'
+              ? 'This invitation has already been accepted.'
+              : 'This invitation link is invalid or has expired. Ask the workspace owner for a new one.'}
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  const roleDescription = INVITABLE_WORKSPACE_ROLES.find((role) => role.value === invitation.role)?.description
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Join {invitation.workspaceName}
+        </CardTitle>
+        <CardDescription>
+          {invitation.inviterName} invited you to join as {WORKSPACE_ROLE_LABELS[invitation.role].toLowerCase()}.{' '}
+          {roleDescription}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {invitation.emailMatches ? (
+          <p className="text-sm text-muted-foreground">
+            The workspace library becomes your active library. You can switch back to your personal library in the
+            account settings.
+          </p>
+        ) : (
+          <p className="text-sm text-destructive">
+            This invitation was sent to {invitation.email}. Sign in with the account using that email address to accept
+            it.
+          </p>
+        )}
+        <div>
+          <Button onClick={handleAccept} disabled={isAccepting || !invitation.emailMatches}>
+            {isAccepting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Accept Invitation
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,17 @@
+import { getWorkspaceInvitation } from '@/actions/workspaces'
+import { AcceptInvitation } from './AcceptInvitation'
+
+interface PageProps {
+  params: Promise<{ token: string }>
+}
+
+export default async function WorkspaceInvitationPage({ params }: PageProps) {
+  const { token } = await params
+  const invitation = await getWorkspaceInvitation(token)
+
+  return (
+    <div className="mx-auto max-w-lg p-4 md:p-8">
+      <AcceptInvitation token={token} invitation={invitation} />
+    </div>
+  )
+}
@@ -9,24 +9,35 @@ import type {
   TransitParams,
   SolarReturnParams,
   LunarReturnParams,
+  ProgressionParams,
+  MultiWheelParams,
+  HoraryParams,
   ChartLocation,
 } from '@/types/saved-chart-params'
 import { NatalChart } from '@/components/charts/NatalChart'
 import { TransitChart } from '@/components/charts/TransitChart'
 import { SynastryChart } from '@/components/charts/SynastryChart'
 import { CompositeChart } from '@/components/charts/CompositeChart'
+import { MultiWheelChart } from '@/components/charts/MultiWheelChart'
+import { HoraryJudgementCard } from '@/components/charts/HoraryJudgementCard'
 import { Tabs } from '@/components/ui/tabs'
 import { ChartTabsList } from '@/components/charts/ChartTabs'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Button } from '@/components/ui/button'
 import { Save, Loader2 } from 'lucide-react'
-import { ExportPDFDialog, ExportTransitPDFDialog, ExportSynastryPDFDialog } from '@/components/pdf'
+import {
+  ExportPDFDialog,
+  ExportTransitPDFDialog,
+  ExportSynastryPDFDialog,
+  ExportMultiWheelPDFDialog,
+} from '@/components/pdf'
 import { DateTimeLocationSelector } from '@/components/ui/DateTimeLocationSelector'
 import type { LocationFormValues } from '@/components/SubjectLocationFields'
 import { useChartPreferences } from '@/hooks/useChartPreferences'
 import { formatDisplayDate, formatDisplayTime } from '@/lib/utils/date'
 import { toast } from 'sonner'
 import { clientLogger } from '@/lib/logging/client'
+import { getSubChartData } from '@/lib/chart/helpers'
 
 interface SavedChartViewerProps {
   chartName: string
@@ -324,6 +335,53 @@ export function SavedChartViewer({ chartName, chartParams, savedChartId, initial
           />
         )
 
+      case 'progressions':
+      case 'solar-arc':
+      case 'progressed-lunation': {
+        const { first_subject, second_subject, active_points } = result.data.chart_data
+        if (!first_subject || !second_subject) return <div>Invalid chart data for dual wheel</div>
+        return (
+          <SynastryChart
+            data={result.data}
+            subject1Data={getSubChartData(first_subject, active_points)}
+            subject2Data={getSubChartData(second_subject, active_points)}
+            savedChartId={savedChartId}
+            chartTypeOverride={result.chartType}
+            subject1DateLabel="Birth Date and Time"
+            subject2DateLabel={result.chartType === 'solar-arc' ? 'Directed to' : 'Progressed Date and Time'}
+            notes={notes}
+            onNotesChange={setNotes}
+          />
+        )
+      }
+
+      case 'multi-wheel':
+        return <MultiWheelChart data={result.data} />
+
+      case 'horary': {
+        const params = currentParams as HoraryParams
+        const question = {
+          question: params.question,
+          querentHouse: params.querentHouse,
+          quesitedHouse: params.quesitedHouse,
+        }
+        return (
+          <div className="space-y-6">
+            <HoraryJudgementCard subject={result.data.chart_data.subject} question={question} />
+            <NatalChart
+              data={result.data}
+              subjectId="saved-chart"
+              chartTypeOverride="horary"
+              dateLabel="Question Date and Time"
+              horary={question}
+              savedChartId={savedChartId}
+              notes={notes}
+              onNotesChange={setNotes}
+            />
+          </div>
+        )
+      }
+
       default:
         return <div>Unsupported chart type: {result.chartType}</div>
     }
@@ -334,6 +392,7 @@ export function SavedChartViewer({ chartName, chartParams, savedChartId, initial
 
     switch (result.chartType) {
       case 'natal':
+      case 'horary':
         return (
           <ExportPDFDialog
             chartData={result.data.chart_data}
@@ -376,6 +435,17 @@ export function SavedChartViewer({ chartName, chartParams, savedChartId, initial
         }
         return null
 
+      case 'multi-wheel':
+        return (
+          <ExportMultiWheelPDFDialog
+            chartData={result.data.chart_data}
+            chartWheelHtml={result.data.chart_wheel}
+            dateFormat={dateFormat}
+            timeFormat={timeFormat}
+            size="icon"
+          />
+        )
+
       default:
         return null
     }
@@ -427,6 +497,33 @@ export function SavedChartViewer({ chartName, chartParams, savedChartId, initial
         return `Lunar Return at ${formatDisplayDate(params.returnDatetime, dateFormat)}`
       }
 
+      case 'progressions':
+      case 'solar-arc':
+      case 'progressed-lunation': {
+        const params = currentParams as ProgressionParams
+        const name = result.data.chart_data.first_subject?.name
+        const technique = {
+          progressions: 'Secondary Progressions',
+          'solar-arc': 'Solar Arc Directions',
+          'progressed-lunation': 'Progressed Lunation',
+        }[params.type]
+        const date = formatDisplayDate(params.targetDate, dateFormat)
+        return name ? `${name}'s ${technique} to ${date}` : `${technique} to ${date}`
+      }
+
+      case 'multi-wheel': {
+        const params = currentParams as MultiWheelParams
+        const rings = result.data.chart_data.rings
+        const labels = rings ? rings.map((ring) => ring.label) : ['Natal', ...params.rings.map((ring) => ring.type)]
+        return `${rings?.[0]?.subject.name ?? 'Multi-wheel'}: ${labels.join(' • ')}`
+      }
+
+      case 'horary': {
+        const params = currentParams as HoraryParams
+        const moment = `${formatDisplayDate(params.datetime, dateFormat)} ${formatDisplayTime(params.datetime, timeFormat)} • ${params.location.city}, ${params.location.nation}`
+        return params.question ? `“${params.question}” • ${moment}` : `Horary chart cast ${moment}`
+      }
+
       case 'natal': {
         const name = result.data?.chart_data?.subject?.name
         return name ? `Natal chart for ${name}` : null
@@ -447,7 +544,11 @@ export function SavedChartViewer({ chartName, chartParams, savedChartId, initial
           {subtitle && <p className="text-muted-foreground">{subtitle}</p>}
         </div>
         <div className="flex items-center gap-2 ml-auto">
-          <ChartTabsList hasData={true} hasInterpretation={true} />
+          {/* Multi-wheel charts have no data or interpretation tab */}
+          <ChartTabsList
+            hasData={result?.chartType !== 'multi-wheel'}
+            hasInterpretation={result?.chartType !== 'multi-wheel'}
+          />
           {renderExportButton()}
           {hasModifiedParams && (
             <Button variant="default" size="icon" onClick={handleSaveChanges} disabled={isSaving} title="Save changes">
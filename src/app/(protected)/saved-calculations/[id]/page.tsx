@@ -1,6 +1,7 @@
 import { notFound } from 'next/navigation'
 import { prisma } from '@/lib/db/prisma'
 import { getSession } from '@/lib/security/session'
+import { getLibraryScope, savedChartScopeWhere } from '@/lib/workspaces/server'
 import type { SavedChartParams } from '@/types/saved-chart-params'
 import { SavedChartViewer } from './SavedChartViewer'
 
@@ -16,11 +17,12 @@ export default async function SavedChartViewerPage({ params }: PageProps) {
 
   const { id } = await params
 
-  const savedChart = await prisma.savedChart.findUnique({
-    where: { id },
+  const scope = await getLibraryScope(session.userId)
+  const savedChart = await prisma.savedChart.findFirst({
+    where: { id, ...savedChartScopeWhere(scope) },
   })
 
-  if (!savedChart || savedChart.userId !== session.userId) {
+  if (!savedChart) {
     notFound()
   }
 
@@ -8,6 +8,7 @@ import { useQueryClient } from '@tanstack/react-query'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { AccountSettingsPanel } from '@/components/settings/AccountSettingsPanel'
+import { CalendarFeedSettings } from '@/components/settings/CalendarFeedSettings'
 import {
   AppearanceSection,
   CalculationSection,
@@ -69,6 +70,7 @@ export default function SettingsPage() {
           show_aspect_icons: data.show_aspect_icons ?? DEFAULT_PREFERENCES.show_aspect_icons,
 
           show_degree_indicators: data.show_degree_indicators ?? DEFAULT_PREFERENCES.show_degree_indicators,
+          chart_layout: data.chart_layout ?? DEFAULT_PREFERENCES.chart_layout,
           distribution_method: data.distribution_method ?? DEFAULT_PREFERENCES.distribution_method,
           active_points: data.active_points || DEFAULT_PREFERENCES.active_points,
           active_aspects: data.active_aspects?.length ? data.active_aspects : DEFAULT_PREFERENCES.active_aspects,
@@ -245,6 +247,7 @@ export default function SettingsPage() {
 
           <TabsContent value="account" className="space-y-4">
             <AccountSettingsPanel />
+            <CalendarFeedSettings />
           </TabsContent>
         </div>
       </Tabs>
@@ -0,0 +1,10 @@
+import { AstrocartographyView } from '../../../_components/AstrocartographyView'
+
+interface PageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function Page({ params }: PageProps) {
+  const { id } = await params
+  return <AstrocartographyView subjectId={id} />
+}
@@ -0,0 +1,36 @@
+/**
+ * NOTE: DODO PAYMENTS - This page requires paid plan for chart access
+ */
+import { notFound, redirect } from 'next/navigation'
+import { getSubjectById } from '@/actions/subjects'
+import { getNatalChart } from '@/actions/astrology'
+import { HarmonicChartView } from '@/app/(protected)/_components/HarmonicChartView'
+import { getSessionWithSubscription } from '@/lib/subscription'
+import { canAccessChartType } from '@/lib/subscription/plan-limits'
+
+interface PageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function Page({ params }: PageProps) {
+  // DODO PAYMENTS: Check chart access for free plan
+  const session = await getSessionWithSubscription()
+  if (!session || !canAccessChartType(session.subscriptionPlan, 'harmonics')) {
+    redirect('/pricing')
+  }
+
+  const { id } = await params
+
+  const subject = await getSubjectById(id)
+  if (!subject) {
+    notFound()
+  }
+
+  // Harmonic charts are derived from the natal positions, calculated with the user's zodiac preferences
+  const chartResponse = await getNatalChart(subject)
+  if (chartResponse.status === 'ERROR' || !chartResponse.chart_data.subject) {
+    throw new Error('Failed to calculate natal chart')
+  }
+
+  return <HarmonicChartView natalSubject={chartResponse.chart_data.subject} />
+}
@@ -0,0 +1,55 @@
+/**
+ * NOTE: DODO PAYMENTS - This page requires paid plan for chart access
+ */
+import { notFound, redirect } from 'next/navigation'
+import { getSubjectById } from '@/actions/subjects'
+import { getNatalChart } from '@/actions/astrology'
+import { MidpointsView } from '@/app/(protected)/_components/MidpointsView'
+import { getSessionWithSubscription } from '@/lib/subscription'
+import { canAccessChartType } from '@/lib/subscription/plan-limits'
+import type { Subject } from '@/types/subjects'
+
+interface PageProps {
+  params: Promise<{ id: string }>
+  searchParams: Promise<{ date?: string }>
+}
+
+export default async function Page({ params, searchParams }: PageProps) {
+  // DODO PAYMENTS: Check chart access for free plan
+  const session = await getSessionWithSubscription()
+  if (!session || !canAccessChartType(session.subscriptionPlan, 'midpoints')) {
+    redirect('/pricing')
+  }
+
+  const { id } = await params
+  const { date } = await searchParams
+
+  const subject = await getSubjectById(id)
+  if (!subject) {
+    notFound()
+  }
+
+  const requested = date ? new Date(date) : null
+  const transitDate = requested && !Number.isNaN(requested.getTime()) ? requested : new Date()
+
+  // Transits are cast for the birth place, like the transit chart
+  const transitSubject: Subject = {
+    ...subject,
+    id: 'transit-now',
+    name: 'Transits',
+    birth_datetime: transitDate.toISOString(),
+  }
+
+  const [natalResponse, transitResponse] = await Promise.all([getNatalChart(subject), getNatalChart(transitSubject)])
+  if (natalResponse.status === 'ERROR' || !natalResponse.chart_data.subject) {
+    throw new Error('Failed to calculate natal chart')
+  }
+
+  return (
+    <MidpointsView
+      natalSubject={natalResponse.chart_data.subject}
+      transitSubject={transitResponse.status === 'ERROR' ? null : (transitResponse.chart_data.subject ?? null)}
+      transitDate={transitDate.toISOString()}
+    />
+  )
+}
@@ -0,0 +1,10 @@
+import { RectificationView } from '../../../_components/RectificationView'
+
+interface PageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function Page({ params }: PageProps) {
+  const { id } = await params
+  return <RectificationView subjectId={id} />
+}
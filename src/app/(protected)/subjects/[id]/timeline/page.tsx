@@ -30,8 +30,8 @@ export default async function Page({ params, searchParams }: PageProps) {
   const startingDate = from ? new Date(from) : undefined
   const validStartingDate = startingDate && !isNaN(startingDate.getTime()) ? startingDate : undefined
 
-  // Validate timeRange - only week, month, year allowed
-  const validRanges: TimeRange[] = ['week', 'month', 'year']
+  // Validate timeRange - the event timeline supports multi-year ranges
+  const validRanges: TimeRange[] = ['week', 'month', 'year', '3years', '10years']
   const timeRange: TimeRange = validRanges.includes(range as TimeRange) ? (range as TimeRange) : 'week'
 
   // 1. Fetch Subject
@@ -9,7 +9,7 @@
  *
  * ## Features
  * - **Streaming responses**: Uses Vercel AI SDK for real-time text streaming
- * - **Multi-chart support**: Natal, synastry, transit, composite, solar/lunar returns
+ * - **Multi-chart support**: Natal, synastry, transit, composite, solar/lunar returns, progressions and solar arcs
  * - **Intelligent caching**: SHA-256 hash-based cache with user scoping (prevents cross-tenant leakage)
  * - **Rate limiting**: Per-minute burst protection + daily/monthly limits
  * - **Subscription enforcement**: Free plan limits via billing integration
@@ -18,7 +18,7 @@
  * ```typescript
  * {
  *   chartData: ChartData,           // Chart calculation data (subject, aspects, points)
- *   chartType: string,              // 'natal' | 'synastry' | 'transit' | 'composite' | 'solar_return' | 'lunar_return'
+ *   chartType: string,              // 'natal' | 'synastry' | 'transit' | 'composite' | 'solar_return' | 'lunar_return' | 'progressions' | 'solar_arc' | 'progressed_lunation'
  *   systemPrompt?: string,          // Custom AI system prompt (optional)
  *   chartTypePrompt: string,        // Chart-specific interpretation prompt
  *   language: string,               // Response language code
@@ -60,6 +60,7 @@ import { checkRateLimit, rateLimitExceededResponse, RATE_LIMITS } from '@/lib/se
 import { buildAIInterpretationUserPrompt, DEFAULT_AI_SYSTEM_PROMPT } from '@/lib/ai/prompts'
 import { canGenerateAI, getPlanLimits } from '@/lib/subscription/plan-limits'
 import { CACHE_CONTROL } from '@/lib/security/cache-control'
+import { emitWebhookEvent } from '@/lib/webhooks/server'
 
 /**
  * OpenRouter client configured as OpenAI-compatible provider.
@@ -73,6 +74,14 @@ const openrouter = createOpenAI({
 })
 
 import { omitKeys } from '@/lib/utils/object'
+import {
+  formatProgressedLunationContext,
+  formatSolarArcContext,
+  getProgressedLunation,
+} from '@/lib/astrology/progressions'
+import { findAspectPatterns, formatAspectPatternsContext, getPatternPoints } from '@/lib/astrology/aspect-patterns'
+import { calculateTimeLords, formatTimeLordsContext } from '@/lib/astrology/time-lords'
+import { analyzeHorary, formatHoraryContext, type HoraryQuestion } from '@/lib/astrology/horary'
 
 /**
  * Generates a SHA-256 hash from a data object.
@@ -213,6 +222,7 @@ function normalizeSubject(subject: RawSubjectData | undefined): SubjectModel | n
  * @param chartData - Complete chart calculation data
  * @param chartType - Type of chart interpretation requested
  * @param includeHouseComparison - Whether to include house overlay analysis (synastry/transit)
+ * @param horary - Question and house assignment of a horary chart
  * @returns Context string containing astrological analysis data
  *
  * @throws {Error} If required subjects are missing or API call fails
@@ -231,6 +241,7 @@ async function fetchAIContext(
   chartData: ChartData,
   chartType: string,
   includeHouseComparison: boolean,
+  horary?: HoraryQuestion,
 ): Promise<string> {
   const { subject, first_subject, second_subject, active_points, active_aspects } = chartData
   // Normalize chart type: frontend may send "solar-return" / "lunar-return", API expects "solar_return" / "lunar_return"
@@ -247,7 +258,11 @@ async function fetchAIContext(
           active_points,
           active_aspects,
         })
-        return response.context
+        // Aspect patterns are detected locally from the chart's aspects
+        const patterns = findAspectPatterns(chartData.aspects ?? [], getPatternPoints(subject))
+        return patterns.length > 0
+          ? `${response.context}\n\n${formatAspectPatternsContext(patterns)}`
+          : response.context
       }
 
       case 'synastry': {
@@ -282,7 +297,12 @@ async function fetchAIContext(
           active_aspects,
           include_house_comparison: includeHouseComparison,
         })
-        return response.context
+        // Time-lord periods running at the transit moment are computed locally from the natal chart
+        const timeLords = first_subject ? calculateTimeLords(first_subject) : null
+        const transitDate = second_subject?.iso_formatted_utc_datetime
+        const timeLordsContext =
+          timeLords && transitDate ? formatTimeLordsContext(timeLords, new Date(transitDate)) : ''
+        return timeLordsContext ? `${response.context}\n\n${timeLordsContext}` : response.context
       }
 
       case 'composite': {
@@ -334,6 +354,56 @@ async function fetchAIContext(
         return response.context
       }
 
+      case 'progressions':
+      case 'progressed_lunation': {
+        // The progressed chart is a transit bi-wheel: natal inside, progressed outside
+        const natalSubject = normalizeSubject(first_subject as RawSubjectData)
+        const progressedSubject = normalizeSubject(second_subject as RawSubjectData)
+        if (!natalSubject || !progressedSubject || !first_subject || !second_subject) {
+          throw new Error('Progressed chart requires both natal and progressed subjects')
+        }
+        const response = await astrologerApi.getTransitContext(
+          natalSubject,
+          omitKeys(progressedSubject, [
+            'zodiac_type',
+            'sidereal_mode',
+            'perspective_type',
+            'houses_system_identifier',
+          ] as const),
+          { active_points, active_aspects, include_house_comparison: includeHouseComparison },
+        )
+        const birthIso = first_subject.iso_formatted_utc_datetime
+        const progressedIso = second_subject.iso_formatted_utc_datetime
+        if (normalizedChartType === 'progressions' || !birthIso || !progressedIso) return response.context
+
+        // One day after birth is one year of life
+        const birth = new Date(birthIso)
+        const ageYears = (new Date(progressedIso).getTime() - birth.getTime()) / 86_400_000
+        const lunation = getProgressedLunation(second_subject, birth, ageYears)
+        return `${response.context}\n\n${formatProgressedLunationContext(lunation)}`
+      }
+
+      case 'solar_arc': {
+        const natalSubject = normalizeSubject(first_subject as RawSubjectData)
+        if (!natalSubject || !first_subject || !second_subject) {
+          throw new Error('Solar arc chart requires both natal and directed subjects')
+        }
+        // Directed positions are computed locally, only the natal context comes from the API
+        const response = await astrologerApi.getNatalContext(natalSubject, { active_points, active_aspects })
+        return `${response.context}\n\n${formatSolarArcContext(first_subject, second_subject, chartData.aspects ?? [])}`
+      }
+
+      case 'horary': {
+        const normalizedSubject = normalizeSubject(subject as RawSubjectData)
+        if (!normalizedSubject || !subject || !horary) {
+          throw new Error('Horary chart requires a valid subject and the question')
+        }
+        const response = await astrologerApi.getNatalContext(normalizedSubject, { active_points, active_aspects })
+        // Considerations and perfection are judged locally from the chart
+        const analysis = analyzeHorary(subject, horary)
+        return analysis ? `${response.context}\n\n${formatHoraryContext(analysis)}` : response.context
+      }
+
       default:
         throw new Error(`Unsupported chart type: ${chartType}`)
     }
@@ -376,7 +446,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Rate limiting (per-minute burst protection)
-    const rateLimitResult = checkRateLimit(session.userId, RATE_LIMITS.ai)
+    const rateLimitResult = await checkRateLimit(session.userId, RATE_LIMITS.ai)
     if (!rateLimitResult.success) {
       return rateLimitExceededResponse(rateLimitResult, RATE_LIMITS.ai.limit)
     }
@@ -420,6 +490,7 @@ export async function POST(request: NextRequest) {
       language,
       include_house_comparison,
       relationshipType,
+      horary,
     } = validation.data
     // Normalize chart type: frontend may send "solar-return" / "lunar-return"
     const chartType = typeof rawChartType === 'string' ? rawChartType.replace(/-/g, '_') : rawChartType
@@ -443,6 +514,7 @@ export async function POST(request: NextRequest) {
       language,
       include_house_comparison,
       relationshipType,
+      horary,
     }
     const hash = generateHash(cacheKey)
 
@@ -487,14 +559,16 @@ export async function POST(request: NextRequest) {
       const name2 = safeChartData.second_subject?.name
       if (name1) subjectNames.push(name1)
       if (name2) subjectNames.push(name2)
-    } else if (['solar_return', 'lunar_return'].includes(chartType)) {
+    } else if (
+      ['solar_return', 'lunar_return', 'progressions', 'solar_arc', 'progressed_lunation'].includes(chartType)
+    ) {
       const name = safeChartData.first_subject?.name || safeChartData.subject?.name
       if (name) subjectNames.push(name)
     } else if (safeChartData.subject?.name) {
       subjectNames.push(safeChartData.subject.name)
     }
 
-    const aiContext = await fetchAIContext(safeChartData, chartType, include_house_comparison)
+    const aiContext = await fetchAIContext(safeChartData, chartType, include_house_comparison, horary)
 
     const userPrompt = buildAIInterpretationUserPrompt({
       chartTypePrompt,
@@ -562,9 +636,20 @@ export async function POST(request: NextRequest) {
 
       /**
        * Callback executed when streaming completes.
-       * Saves the generated interpretation to cache for future requests.
+       * Saves the generated interpretation to cache for future requests
+       * and notifies the user's webhooks.
        */
       onFinish: async ({ text }) => {
+        if (text) {
+          emitWebhookEvent(session.userId, 'interpretation.completed', {
+            chartType,
+            subjectNames,
+            language,
+            model: AI_MODEL,
+            text,
+          })
+        }
+
         try {
           // Save to cache if enabled and response is substantial (>50 chars)
           if (AI_CACHE_ENABLED && text && text.length > 50) {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db/prisma'
 import { createSession } from '@/lib/security/session'
+import { startPendingTwoFactor } from '@/lib/security/two-factor'
 import { isGoogleOAuthEnabled, exchangeCodeForTokens, getGoogleUserInfo } from '@/lib/security/oauth'
 import { logger } from '@/lib/logging/server'
 import { calculateTrialEndDate } from '@/lib/config/trial'
@@ -10,7 +11,8 @@ import { APP_URL } from '@/lib/config/app'
 /**
  * GET /api/auth/google/callback
  * Handles Google OAuth callback after user authorizes
- * Creates or links user account and establishes session
+ * Creates or links user account and establishes session, or hands over to
+ * the second-factor step of the login page
  */
 export async function GET(request: NextRequest): Promise<NextResponse> {
   // Check if OAuth is enabled
@@ -120,6 +122,15 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       void sendNewUserEmailNotification(username, googleUser.email, 'google', 'trial')
     }
 
+    // Accounts with two-factor authentication finish on the login page
+    if (user.twoFactorEnabledAt) {
+      await startPendingTwoFactor({ kind: 'user', id: user.id }, 'login')
+      const twoFactorResponse = NextResponse.redirect(new URL('/login?step=two-factor', APP_URL))
+      twoFactorResponse.cookies.delete('oauth_state')
+      twoFactorResponse.headers.set('Cache-Control', CACHE_CONTROL.noStore)
+      return twoFactorResponse
+    }
+
     // Track login analytics
     await prisma.user.update({
       where: { id: user.id },
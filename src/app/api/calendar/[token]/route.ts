@@ -0,0 +1,127 @@
+/**
+ * Calendar Feed API Route
+ *
+ * Serves the secret iCalendar feed of a user to calendar apps, without a
+ * session: the token in the URL is the credential. The feed covers the days
+ * from CALENDAR_FEED_PAST_DAYS ago to CALENDAR_FEED_FUTURE_DAYS ahead and
+ * follows the owner's active points and aspects.
+ *
+ * Path: /api/calendar/<token>.ics
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { logger } from '@/lib/logging/server'
+import { APP_URL } from '@/lib/config/app'
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, RATE_LIMITS } from '@/lib/security/rate-limit'
+import { CACHE_CONTROL, cacheControlHeaders } from '@/lib/security/cache-control'
+import { DEFAULT_ACTIVE_ASPECTS, isMajorAspect } from '@/lib/astrology/aspects'
+import type { TimelineAspectConfig } from '@/lib/astrology/transit-timeline'
+import { CALENDAR_FEED_REFRESH_HOURS, getCalendarFeedRange, type CalendarEventCategory } from '@/lib/calendar/feed'
+import { buildIcsCalendar, ICS_MIME_TYPE } from '@/lib/calendar/ics'
+import { buildCalendarEvents, hashCalendarFeedToken } from '@/lib/calendar/server'
+
+/** Planets tracked when the owner has no chart preferences yet */
+const FALLBACK_ACTIVE_POINTS = [
+  'Sun',
+  'Moon',
+  'Mercury',
+  'Venus',
+  'Mars',
+  'Jupiter',
+  'Saturn',
+  'Uranus',
+  'Neptune',
+  'Pluto',
+]
+
+const feedTokenPattern = /^([a-f0-9]{64})(\.ics)?$/
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const rateLimitResult = await checkRateLimit(`calendar_feed:${getClientIp(request.headers)}`, RATE_LIMITS.ip)
+  if (!rateLimitResult.success) {
+    return rateLimitExceededResponse(rateLimitResult, RATE_LIMITS.ip.limit)
+  }
+
+  const { token } = await params
+  const match = feedTokenPattern.exec(token)
+  if (!match) {
+    return NextResponse.json({ error: 'Calendar not found' }, { status: 404 })
+  }
+
+  try {
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { tokenHash: hashCalendarFeedToken(match[1]!) },
+      include: {
+        subject: true,
+        user: { select: { chartPreferences: { select: { active_points: true, active_aspects: true } } } },
+      },
+    })
+    if (!feed) {
+      return NextResponse.json({ error: 'Calendar not found' }, { status: 404 })
+    }
+
+    const preferences = feed.user.chartPreferences
+    const activePoints: string[] = preferences?.active_points
+      ? JSON.parse(preferences.active_points)
+      : FALLBACK_ACTIVE_POINTS
+    const activeAspects: TimelineAspectConfig[] = preferences?.active_aspects
+      ? JSON.parse(preferences.active_aspects)
+      : DEFAULT_ACTIVE_ASPECTS.filter((aspect) => isMajorAspect(aspect.name))
+
+    const subject = feed.subject
+    const natal = subject
+      ? {
+          subjectId: subject.id,
+          name: subject.name,
+          // birthDatetime holds the local wall-clock time of birth
+          subject: {
+            name: subject.name,
+            year: subject.birthDatetime.getUTCFullYear(),
+            month: subject.birthDatetime.getUTCMonth() + 1,
+            day: subject.birthDatetime.getUTCDate(),
+            hour: subject.birthDatetime.getUTCHours(),
+            minute: subject.birthDatetime.getUTCMinutes(),
+            second: subject.birthDatetime.getUTCSeconds(),
+            city: subject.city ?? '',
+            nation: subject.nation ?? '',
+            latitude: subject.latitude ?? 0,
+            longitude: subject.longitude ?? 0,
+            timezone: subject.timezone ?? 'UTC',
+          },
+        }
+      : undefined
+
+    const events = await buildCalendarEvents({
+      ...getCalendarFeedRange(),
+      categories: JSON.parse(feed.categories) as CalendarEventCategory[],
+      timezone: feed.timezone,
+      activePoints,
+      activeAspects,
+      natal,
+      uidDomain: new URL(APP_URL).hostname,
+    })
+
+    const body = buildIcsCalendar({
+      name: subject ? `${subject.name} – Astrology` : 'Astrology',
+      timezone: feed.timezone,
+      refreshHours: CALENDAR_FEED_REFRESH_HOURS,
+      events,
+    })
+
+    await prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastFetchedAt: new Date() },
+    })
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': ICS_MIME_TYPE,
+        'Content-Disposition': 'inline; filename="astrology.ics"',
+        ...cacheControlHeaders(CACHE_CONTROL.calendarFeed),
+      },
+    })
+  } catch (error) {
+    logger.error('[Calendar/Feed] Error building calendar feed:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -5,6 +5,10 @@ import { logger } from '@/lib/logging/server'
 import { updateSavedChartSchema, validateBody, formatValidationErrors } from '@/lib/validation/api'
 import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders, RATE_LIMITS } from '@/lib/security/rate-limit'
 import { CACHE_CONTROL, mergeCacheControlHeaders } from '@/lib/security/cache-control'
+import { emitWebhookEvent } from '@/lib/webhooks/server'
+import { toApiSavedChart } from '@/lib/public-api/resources'
+import { getLibraryScope, savedChartScopeWhere } from '@/lib/workspaces/server'
+import { canEditLibrary } from '@/lib/workspaces/roles'
 
 export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const session = await getSession()
@@ -13,7 +17,7 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
   }
 
   // Rate limiting
-  const rateLimitResult = checkRateLimit(session.userId, RATE_LIMITS.strict)
+  const rateLimitResult = await checkRateLimit(session.userId, RATE_LIMITS.strict)
   if (!rateLimitResult.success) {
     return rateLimitExceededResponse(rateLimitResult, RATE_LIMITS.strict.limit)
   }
@@ -31,17 +35,22 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
 
     const { name, notes, chartData, settings, tags } = validation.data
 
-    // Verify ownership with single query
+    // Verify the chart is in the user's library with single query
+    const scope = await getLibraryScope(session.userId)
     const savedChart = await prisma.savedChart.findUnique({
       where: { id },
-      select: { userId: true },
+      select: { userId: true, workspaceId: true },
     })
 
     if (!savedChart) {
       return NextResponse.json({ error: 'Chart not found' }, { status: 404 })
     }
 
-    if (savedChart.userId !== session.userId) {
+    if (
+      savedChart.userId !== scope.ownerId ||
+      savedChart.workspaceId !== scope.workspaceId ||
+      !canEditLibrary(scope.role)
+    ) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -72,6 +81,7 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id
     })
 
     logger.debug('Updated saved chart:', { id, userId: session.userId })
+    emitWebhookEvent(session.userId, 'saved_chart.updated', toApiSavedChart(updatedChart))
 
     return NextResponse.json(updatedChart, {
       // Mutations should never be cached
@@ -93,7 +103,7 @@ export async function DELETE(req: NextRequest, { params }: { params: Promise<{ i
   }
 
   // Rate limiting
-  const rateLimitResult = checkRateLimit(session.userId, RATE_LIMITS.strict)
+  const rateLimitResult = await checkRateLimit(session.userId, RATE_LIMITS.strict)
   if (!rateLimitResult.success) {
     return rateLimitExceededResponse(rateLimitResult, RATE_LIMITS.strict.limit)
   }
@@ -101,11 +111,16 @@ export async function DELETE(req: NextRequest, { params }: { params: Promise<{ i
   const { id } = await params
 
   try {
-    // Use deleteMany with conditions to verify ownership and delete in one query
+    const scope = await getLibraryScope(session.userId)
+    if (!canEditLibrary(scope.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    // Use deleteMany with conditions to verify the library and delete in one query
     const result = await prisma.savedChart.deleteMany({
       where: {
         id,
-        userId: session.userId,
+        ...savedChartScopeWhere(scope),
       },
     })
 
@@ -114,6 +129,7 @@ export async function DELETE(req: NextRequest, { params }: { params: Promise<{ i
     }
 
     logger.debug('Deleted saved chart:', { id, userId: session.userId })
+    emitWebhookEvent(session.userId, 'saved_chart.deleted', { id })
 
     return NextResponse.json(
       { success: true },
@@ -6,6 +6,9 @@ import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders, RATE_LIMIT
 import { z } from 'zod'
 import { validateBody, formatValidationErrors } from '@/lib/validation/api'
 import { CACHE_CONTROL, mergeCacheControlHeaders } from '@/lib/security/cache-control'
+import { emitWebhookEvent } from '@/lib/webhooks/server'
+import { getLibraryScope, savedChartScopeWhere } from '@/lib/workspaces/server'
+import { canEditLibrary } from '@/lib/workspaces/roles'
 
 const bulkDeleteSchema = z.object({
   ids: z.array(z.string().cuid()).min(1).max(100),
@@ -18,7 +21,7 @@ export async function POST(req: NextRequest) {
   }
 
   // Rate limiting (stricter for bulk operations)
-  const rateLimitResult = checkRateLimit(session.userId, RATE_LIMITS.strict)
+  const rateLimitResult = await checkRateLimit(session.userId, RATE_LIMITS.strict)
   if (!rateLimitResult.success) {
     return rateLimitExceededResponse(rateLimitResult, RATE_LIMITS.strict.limit)
   }
@@ -33,11 +36,25 @@ export async function POST(req: NextRequest) {
 
     const { ids } = validation.data
 
-    // Delete all charts that belong to the user
-    const result = await prisma.savedChart.deleteMany({
+    const scope = await getLibraryScope(session.userId)
+    if (!canEditLibrary(scope.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    // Only charts in the user's library are deleted; their IDs are needed for the webhook events
+    const owned = await prisma.savedChart.findMany({
       where: {
         id: { in: ids },
-        userId: session.userId,
+        ...savedChartScopeWhere(scope),
+      },
+      select: { id: true },
+    })
+    const ownedIds = owned.map((chart) => chart.id)
+
+    const result = await prisma.savedChart.deleteMany({
+      where: {
+        id: { in: ownedIds },
+        ...savedChartScopeWhere(scope),
       },
     })
 
@@ -46,6 +63,9 @@ export async function POST(req: NextRequest) {
       requestedCount: ids.length,
       userId: session.userId,
     })
+    for (const id of ownedIds) {
+      emitWebhookEvent(session.userId, 'saved_chart.deleted', { id })
+    }
 
     return NextResponse.json(
       {
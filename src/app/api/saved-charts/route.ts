@@ -5,11 +5,16 @@ import { logger } from '@/lib/logging/server'
 import { createSavedChartSchema, validateBody, formatValidationErrors } from '@/lib/validation/api'
 import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders, RATE_LIMITS } from '@/lib/security/rate-limit'
 import { CACHE_CONTROL, mergeCacheControlHeaders } from '@/lib/security/cache-control'
+import { emitWebhookEvent } from '@/lib/webhooks/server'
+import { toApiSavedChart } from '@/lib/public-api/resources'
+import { getLibraryScope, savedChartScopeWhere } from '@/lib/workspaces/server'
+import { canEditLibrary } from '@/lib/workspaces/roles'
 
 /**
  * Saved Charts API
  *
- * Provides authenticated CRUD endpoints for a user's saved charts.
+ * Provides authenticated CRUD endpoints for the saved charts of a user's library:
+ * their personal library or their active team workspace.
  *
  * Notes:
  * - Requires an authenticated session (returns 401 otherwise)
@@ -20,7 +25,7 @@ import { CACHE_CONTROL, mergeCacheControlHeaders } from '@/lib/security/cache-co
 /**
  * GET /api/saved-charts
  *
- * Returns the current user's saved charts ordered by newest first.
+ * Returns the saved charts of the current user's library ordered by newest first.
  *
  * Auth:
  * - Requires session cookie
@@ -41,14 +46,15 @@ export async function GET() {
   }
 
   // Rate limiting
-  const rateLimitResult = checkRateLimit(session.userId, RATE_LIMITS.standard)
+  const rateLimitResult = await checkRateLimit(session.userId, RATE_LIMITS.standard)
   if (!rateLimitResult.success) {
     return rateLimitExceededResponse(rateLimitResult, RATE_LIMITS.standard.limit)
   }
 
   try {
+    const scope = await getLibraryScope(session.userId)
     const savedCharts = await prisma.savedChart.findMany({
-      where: { userId: session.userId },
+      where: savedChartScopeWhere(scope),
       orderBy: { createdAt: 'desc' },
     })
 
@@ -67,7 +73,7 @@ export async function GET() {
 /**
  * POST /api/saved-charts
  *
- * Creates a new saved chart for the current user.
+ * Creates a new saved chart in the current user's library.
  *
  * Validates request body via createSavedChartSchema. `chartData`, `settings`, and `tags`
  * are persisted as JSON strings to keep storage consistent.
@@ -82,6 +88,7 @@ export async function GET() {
  * - 201: created SavedChart record
  * - 400: validation error details
  * - 401: { error: 'Unauthorized' }
+ * - 403: { error: 'Forbidden' } for read-only workspace members
  * - 429: rateLimitExceededResponse
  * - 500: { error: 'Internal Server Error' }
  */
@@ -92,12 +99,17 @@ export async function POST(req: NextRequest) {
   }
 
   // Rate limiting (stricter for write operations)
-  const rateLimitResult = checkRateLimit(session.userId, RATE_LIMITS.strict)
+  const rateLimitResult = await checkRateLimit(session.userId, RATE_LIMITS.strict)
   if (!rateLimitResult.success) {
     return rateLimitExceededResponse(rateLimitResult, RATE_LIMITS.strict.limit)
   }
 
   try {
+    const scope = await getLibraryScope(session.userId)
+    if (!canEditLibrary(scope.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
     const body = await req.json()
 
     // Validate request body
@@ -110,7 +122,8 @@ export async function POST(req: NextRequest) {
 
     const savedChart = await prisma.savedChart.create({
       data: {
-        userId: session.userId,
+        userId: scope.ownerId,
+        workspaceId: scope.workspaceId,
         name,
         type,
         chartData: typeof chartData === 'string' ? chartData : JSON.stringify(chartData),
@@ -121,6 +134,7 @@ export async function POST(req: NextRequest) {
     })
 
     logger.debug('Created saved chart:', { id: savedChart.id, userId: session.userId })
+    emitWebhookEvent(session.userId, 'saved_chart.created', toApiSavedChart(savedChart))
 
     return NextResponse.json(savedChart, {
       status: 201,
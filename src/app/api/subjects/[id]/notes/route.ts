@@ -5,6 +5,8 @@ import { logger } from '@/lib/logging/server'
 import { updateSubjectNotesSchema, validateBody, formatValidationErrors } from '@/lib/validation/api'
 import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders, RATE_LIMITS } from '@/lib/security/rate-limit'
 import { CACHE_CONTROL, mergeCacheControlHeaders } from '@/lib/security/cache-control'
+import { getLibraryScope, subjectScopeWhere } from '@/lib/workspaces/server'
+import { canEditLibrary } from '@/lib/workspaces/roles'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -17,18 +19,19 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   }
 
   // Rate limiting
-  const rateLimitResult = checkRateLimit(session.userId, RATE_LIMITS.standard)
+  const rateLimitResult = await checkRateLimit(session.userId, RATE_LIMITS.standard)
   if (!rateLimitResult.success) {
     return rateLimitExceededResponse(rateLimitResult, RATE_LIMITS.standard.limit)
   }
 
   const { id } = await params
+  const scope = await getLibraryScope(session.userId)
 
-  // Get the subject and verify ownership in one query
+  // Get the subject and verify it is in the user's library in one query
   const subject = await prisma.subject.findFirst({
     where: {
       id,
-      ownerId: session.userId,
+      ...subjectScopeWhere(scope),
     },
     select: { notes: true },
   })
@@ -55,7 +58,7 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
   }
 
   // Rate limiting
-  const rateLimitResult = checkRateLimit(session.userId, RATE_LIMITS.strict)
+  const rateLimitResult = await checkRateLimit(session.userId, RATE_LIMITS.strict)
   if (!rateLimitResult.success) {
     return rateLimitExceededResponse(rateLimitResult, RATE_LIMITS.strict.limit)
   }
@@ -63,6 +66,11 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
   const { id } = await params
 
   try {
+    const scope = await getLibraryScope(session.userId)
+    if (!canEditLibrary(scope.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
     const body = await request.json()
 
     // Validate request body
@@ -73,11 +81,11 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
     const { notes } = validation.data
 
-    // Update with ownership check in one query
+    // Update with library check in one query
     const result = await prisma.subject.updateMany({
       where: {
         id,
-        ownerId: session.userId,
+        ...subjectScopeWhere(scope),
       },
       data: { notes },
     })
@@ -0,0 +1,106 @@
+/**
+ * Public API: Chart Calculation
+ *
+ * Calculates a natal, transit, synastry or composite chart of subjects in the
+ * token owner's library through the Astrologer API, with the owner's chart
+ * preferences (zodiac, houses, points and aspects). Calculations count
+ * towards the owner's chart usage.
+ *
+ * Path: /api/v1/charts
+ */
+import { NextResponse } from 'next/server'
+import { astrologerApi } from '@/lib/api/astrologer'
+import { prisma } from '@/lib/db/prisma'
+import { mapPrismaSubjectToSubject } from '@/lib/db/mappers'
+import { loadChartPreferences } from '@/lib/db/chart-preferences'
+import { recordChartCalculation } from '@/lib/db/chart-usage'
+import { logger } from '@/lib/logging/server'
+import {
+  mergeOptionsWithPreferences,
+  toBasicSubjectModel,
+  toSubjectModelWithPreferences,
+} from '@/lib/astrology/chart-request'
+import { apiChartRequestSchema, formatValidationErrors, validateBody, type ApiChartRequest } from '@/lib/validation/api'
+import { apiError, readJsonBody, withApiToken } from '@/lib/public-api/server'
+import type { ChartResponse } from '@/types/astrology'
+import type { Subject } from '@/types/subjects'
+import { getLibraryScope, subjectScopeWhere } from '@/lib/workspaces/server'
+
+/**
+ * Subject of the transiting planets: the moment, cast for the natal birthplace in UTC
+ */
+function toTransitSubject(natal: Subject, datetime: string | undefined): Subject {
+  return {
+    ...natal,
+    id: 'transits',
+    name: 'Transits',
+    birth_datetime: (datetime ? new Date(datetime) : new Date()).toISOString(),
+    timezone: 'UTC',
+  }
+}
+
+export const POST = withApiToken('charts:compute', async (request, { userId }) => {
+  const validation = validateBody(await readJsonBody(request), apiChartRequestSchema)
+  if (!validation.success) {
+    return NextResponse.json(formatValidationErrors(validation.errors), { status: 400 })
+  }
+  const chartRequest: ApiChartRequest = validation.data
+
+  const subjectIds = [chartRequest.subjectId]
+  if ('secondSubjectId' in chartRequest) subjectIds.push(chartRequest.secondSubjectId)
+  const scope = await getLibraryScope(userId)
+  const records = await prisma.subject.findMany({
+    where: { id: { in: subjectIds }, ...subjectScopeWhere(scope) },
+  })
+  const subjects = subjectIds.map((id) => records.find((record) => record.id === id))
+  if (subjects.some((subject) => !subject)) {
+    return apiError('Subject not found', 404)
+  }
+  const [first, second] = subjects.map((subject) => mapPrismaSubjectToSubject(subject!))
+
+  const prefs = await loadChartPreferences(userId)
+  if (!prefs) {
+    return apiError('Chart preferences could not be loaded', 500)
+  }
+  const options = mergeOptionsWithPreferences(undefined, prefs)
+  const model = toSubjectModelWithPreferences(first!, prefs)
+
+  let response: ChartResponse
+  try {
+    switch (chartRequest.type) {
+      case 'natal':
+        response = await astrologerApi.getNatalChart(model, options)
+        break
+      case 'transit':
+        response = await astrologerApi.getTransitChart(
+          model,
+          toBasicSubjectModel(toTransitSubject(first!, chartRequest.datetime)),
+          options,
+        )
+        break
+      case 'synastry':
+        response = await astrologerApi.getSynastryChart(model, toBasicSubjectModel(second!), options)
+        break
+      case 'composite':
+        response = await astrologerApi.getCompositeChart(model, toBasicSubjectModel(second!), options)
+        break
+    }
+  } catch (error) {
+    logger.error('[API v1] Chart calculation failed:', error)
+    return apiError('The chart could not be calculated', 502)
+  }
+
+  // Non-blocking: don't fail the chart if tracking fails
+  recordChartCalculation(userId, chartRequest.type).catch((error) =>
+    logger.error('Failed to track chart calculation:', error),
+  )
+
+  return NextResponse.json({
+    type: chartRequest.type,
+    chartData: response.chart_data,
+    ...(chartRequest.includeSvg && {
+      chartWheelSvg: response.chart_wheel ?? response.chart,
+      aspectGridSvg: response.chart_grid,
+    }),
+  })
+})
@@ -0,0 +1,17 @@
+/**
+ * Public API: OpenAPI Document
+ *
+ * Serves the OpenAPI 3.0 description of /api/v1 without authentication.
+ *
+ * Path: /api/v1/openapi.json
+ */
+import { NextResponse } from 'next/server'
+import { APP_URL } from '@/lib/config/app'
+import { CACHE_CONTROL, cacheControlHeaders } from '@/lib/security/cache-control'
+import { buildOpenApiDocument } from '@/lib/public-api/openapi'
+
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument(`${APP_URL}/api/v1`), {
+    headers: cacheControlHeaders(CACHE_CONTROL.publicDocument),
+  })
+}
@@ -0,0 +1,30 @@
+/**
+ * Public API: Saved Chart
+ *
+ * Reads a saved chart of the token owner's library. Charts outside the
+ * library are reported as not found.
+ *
+ * Path: /api/v1/saved-charts/<id>
+ */
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { apiError, withApiToken } from '@/lib/public-api/server'
+import { toApiSavedChart } from '@/lib/public-api/resources'
+import { getLibraryScope, savedChartScopeWhere } from '@/lib/workspaces/server'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export const GET = withApiToken<RouteContext>('saved-charts:read', async (_request, { userId }, { params }) => {
+  const { id } = await params
+  const scope = await getLibraryScope(userId)
+  const savedChart = await prisma.savedChart.findFirst({
+    where: { id, ...savedChartScopeWhere(scope) },
+  })
+  if (!savedChart) {
+    return apiError('Saved chart not found', 404)
+  }
+
+  return NextResponse.json(toApiSavedChart(savedChart))
+})
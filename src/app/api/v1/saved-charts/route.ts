@@ -0,0 +1,36 @@
+/**
+ * Public API: Saved Charts
+ *
+ * Lists the saved charts of the token owner's library (their active team
+ * workspace, or their personal library), newest first.
+ *
+ * Path: /api/v1/saved-charts
+ */
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { apiListQuerySchema, formatValidationErrors, validateBody } from '@/lib/validation/api'
+import { withApiToken } from '@/lib/public-api/server'
+import { toApiSavedChart } from '@/lib/public-api/resources'
+import { getLibraryScope, savedChartScopeWhere } from '@/lib/workspaces/server'
+
+export const GET = withApiToken('saved-charts:read', async (request, { userId }) => {
+  const query = validateBody(Object.fromEntries(request.nextUrl.searchParams), apiListQuerySchema)
+  if (!query.success) {
+    return NextResponse.json(formatValidationErrors(query.errors), { status: 400 })
+  }
+  const { limit, offset } = query.data
+
+  const scope = await getLibraryScope(userId)
+  const where = savedChartScopeWhere(scope)
+  const [savedCharts, total] = await Promise.all([
+    prisma.savedChart.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset,
+    }),
+    prisma.savedChart.count({ where }),
+  ])
+
+  return NextResponse.json({ data: savedCharts.map(toApiSavedChart), total })
+})
@@ -0,0 +1,105 @@
+/**
+ * Public API: Subject
+ *
+ * GET reads a subject of the token owner's library, PUT replaces its fields
+ * and DELETE removes it; read-only workspace members get 403 on writes.
+ * Subjects outside the library are reported as not found. Changes emit the
+ * `subject.updated` and `subject.deleted` webhook events, as in the app.
+ *
+ * Path: /api/v1/subjects/<id>
+ */
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { logger } from '@/lib/logging/server'
+import { parseBirthDateTime } from '@/lib/utils/date'
+import { apiSubjectInputSchema, formatValidationErrors, validateBody } from '@/lib/validation/api'
+import { apiError, readJsonBody, withApiToken } from '@/lib/public-api/server'
+import { apiSubjectInclude, toApiSubject } from '@/lib/public-api/resources'
+import { ownTagsSelect, replaceOwnTags } from '@/lib/subjects/tags'
+import { emitWebhookEvent } from '@/lib/webhooks/server'
+import { assertCanEditLibrary, getLibraryScope, subjectScopeWhere } from '@/lib/workspaces/server'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export const GET = withApiToken<RouteContext>('subjects:read', async (_request, { userId }, { params }) => {
+  const { id } = await params
+  const scope = await getLibraryScope(userId)
+  const subject = await prisma.subject.findFirst({
+    where: { id, ...subjectScopeWhere(scope) },
+    include: apiSubjectInclude(userId),
+  })
+  if (!subject) {
+    return apiError('Subject not found', 404)
+  }
+
+  return NextResponse.json(toApiSubject(subject))
+})
+
+export const PUT = withApiToken<RouteContext>('subjects:write', async (request, { userId }, { params }) => {
+  const { id } = await params
+  const validation = validateBody(await readJsonBody(request), apiSubjectInputSchema)
+  if (!validation.success) {
+    return NextResponse.json(formatValidationErrors(validation.errors), { status: 400 })
+  }
+  const input = validation.data
+
+  let birthDatetime: Date
+  try {
+    birthDatetime = parseBirthDateTime(input.birthDate ?? '', input.birthTime)
+  } catch (error) {
+    return apiError(error instanceof Error ? error.message : 'Invalid birth date', 400)
+  }
+
+  const scope = await getLibraryScope(userId)
+  assertCanEditLibrary(scope)
+
+  const existing = await prisma.subject.findFirst({
+    where: { id, ...subjectScopeWhere(scope) },
+    select: { id: true, tags: ownTagsSelect(userId) },
+  })
+  if (!existing) {
+    return apiError('Subject not found', 404)
+  }
+
+  const subject = await prisma.subject.update({
+    where: { id },
+    data: {
+      name: input.name,
+      birthDatetime,
+      city: input.city,
+      nation: input.nation,
+      latitude: input.latitude,
+      longitude: input.longitude,
+      timezone: input.timezone,
+      rodensRating: input.rodens_rating,
+      notes: input.notes,
+      tags: input.tags ? replaceOwnTags(userId, input.tags, existing.tags) : undefined,
+    },
+    include: apiSubjectInclude(userId),
+  })
+
+  logger.info('[API v1] Updated subject:', { id, userId })
+  const apiSubject = toApiSubject(subject)
+  emitWebhookEvent(userId, 'subject.updated', apiSubject)
+  return NextResponse.json(apiSubject)
+})
+
+export const DELETE = withApiToken<RouteContext>('subjects:write', async (_request, { userId }, { params }) => {
+  const { id } = await params
+  const scope = await getLibraryScope(userId)
+  assertCanEditLibrary(scope)
+
+  // deleteMany with the library filter verifies access and deletes in one query
+  const result = await prisma.subject.deleteMany({
+    where: { id, ...subjectScopeWhere(scope) },
+  })
+  if (result.count === 0) {
+    return apiError('Subject not found', 404)
+  }
+
+  logger.info('[API v1] Deleted subject:', { id, userId })
+  emitWebhookEvent(userId, 'subject.deleted', { id })
+  return NextResponse.json({ id })
+})
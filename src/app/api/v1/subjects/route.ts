@@ -0,0 +1,86 @@
+/**
+ * Public API: Subjects
+ *
+ * GET lists the subjects of the token owner's library: their active team
+ * workspace, or their personal library. POST creates one there, within the
+ * subject limit of the library owner's plan; read-only workspace members get
+ * 403. Bodies follow the subject form rules. Creation emits the
+ * `subject.created` webhook event, as in the app.
+ *
+ * Path: /api/v1/subjects
+ */
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { logger } from '@/lib/logging/server'
+import { parseBirthDateTime } from '@/lib/utils/date'
+import { apiListQuerySchema, apiSubjectInputSchema, formatValidationErrors, validateBody } from '@/lib/validation/api'
+import { apiError, readJsonBody, withApiToken } from '@/lib/public-api/server'
+import { apiSubjectInclude, toApiSubject } from '@/lib/public-api/resources'
+import { connectOrCreateTags } from '@/lib/subjects/tags'
+import { emitWebhookEvent } from '@/lib/webhooks/server'
+import { assertCanEditLibrary, assertSubjectQuota, getLibraryScope, subjectScopeWhere } from '@/lib/workspaces/server'
+
+export const GET = withApiToken('subjects:read', async (request, { userId }) => {
+  const query = validateBody(Object.fromEntries(request.nextUrl.searchParams), apiListQuerySchema)
+  if (!query.success) {
+    return NextResponse.json(formatValidationErrors(query.errors), { status: 400 })
+  }
+  const { limit, offset } = query.data
+
+  const scope = await getLibraryScope(userId)
+  const where = subjectScopeWhere(scope)
+  const [subjects, total] = await Promise.all([
+    prisma.subject.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      include: apiSubjectInclude(userId),
+      take: limit,
+      skip: offset,
+    }),
+    prisma.subject.count({ where }),
+  ])
+
+  return NextResponse.json({ data: subjects.map(toApiSubject), total })
+})
+
+export const POST = withApiToken('subjects:write', async (request, { userId }) => {
+  const validation = validateBody(await readJsonBody(request), apiSubjectInputSchema)
+  if (!validation.success) {
+    return NextResponse.json(formatValidationErrors(validation.errors), { status: 400 })
+  }
+  const input = validation.data
+
+  let birthDatetime: Date
+  try {
+    birthDatetime = parseBirthDateTime(input.birthDate ?? '', input.birthTime)
+  } catch (error) {
+    return apiError(error instanceof Error ? error.message : 'Invalid birth date', 400)
+  }
+
+  const scope = await getLibraryScope(userId)
+  assertCanEditLibrary(scope)
+  await assertSubjectQuota(scope)
+
+  const subject = await prisma.subject.create({
+    data: {
+      name: input.name,
+      birthDatetime,
+      city: input.city,
+      nation: input.nation,
+      latitude: input.latitude,
+      longitude: input.longitude,
+      timezone: input.timezone,
+      rodensRating: input.rodens_rating,
+      notes: input.notes,
+      ownerId: scope.ownerId,
+      workspaceId: scope.workspaceId,
+      tags: input.tags ? { connectOrCreate: connectOrCreateTags(userId, input.tags) } : undefined,
+    },
+    include: apiSubjectInclude(userId),
+  })
+
+  logger.info('[API v1] Created subject:', { id: subject.id, userId })
+  const apiSubject = toApiSubject(subject)
+  emitWebhookEvent(userId, 'subject.created', apiSubject)
+  return NextResponse.json(apiSubject, { status: 201 })
+})
@@ -0,0 +1,47 @@
+/**
+ * Webhook Retry API Route
+ *
+ * Attempts the outbound webhook deliveries whose retry is due. Meant to be
+ * called every few minutes by a scheduler (e.g. Vercel Cron), authenticated
+ * with `Authorization: Bearer <CRON_SECRET>`. Without CRON_SECRET the route
+ * is disabled.
+ *
+ * Path: /api/webhooks/retry
+ */
+import { timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { logger } from '@/lib/logging/server'
+import { CACHE_CONTROL, cacheControlHeaders } from '@/lib/security/cache-control'
+import { processDueWebhookDeliveries } from '@/lib/webhooks/server'
+
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const received = Buffer.from(request.headers.get('authorization') ?? '')
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401, headers: cacheControlHeaders(CACHE_CONTROL.noStore) },
+    )
+  }
+
+  try {
+    const result = await processDueWebhookDeliveries()
+    if (result.attempted > 0) {
+      logger.info('[Webhooks] Retried deliveries:', result)
+    }
+    return NextResponse.json(result, { headers: cacheControlHeaders(CACHE_CONTROL.noStore) })
+  } catch (error) {
+    logger.error('[Webhooks] Retry run failed:', error)
+    return NextResponse.json(
+      { error: 'Internal Server Error' },
+      { status: 500, headers: cacheControlHeaders(CACHE_CONTROL.noStore) },
+    )
+  }
+}
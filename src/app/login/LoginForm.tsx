@@ -10,8 +10,9 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { ReCaptcha, isRecaptchaDisabled } from '@/components/ui/ReCaptcha'
 import { useRef, useCallback, useEffect } from 'react'
 import ReCAPTCHA from 'react-google-recaptcha'
-import { useSearchParams } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import Link from 'next/link'
+import TwoFactorForm from './TwoFactorForm'
 
 // Check if Google OAuth is enabled via environment variable
 const isGoogleOAuthEnabled = process.env.NEXT_PUBLIC_ENABLE_GOOGLE_OAUTH === 'true'
@@ -25,10 +26,13 @@ const oauthErrorMessages: Record<string, string> = {
 }
 
 export default function LoginForm() {
-  const { login, loginError, isLoginPending, resetLoginError } = useAuth()
+  const { login, loginError, isLoginPending, resetLoginError, twoFactorRequired } = useAuth()
   const recaptchaRef = useRef<ReCAPTCHA>(null)
+  const router = useRouter()
   const searchParams = useSearchParams()
   const oauthError = searchParams.get('error')
+  // Password or Google sign-in accepted, a second factor is still needed
+  const isTwoFactorStep = twoFactorRequired || searchParams.get('step') === 'two-factor'
 
   // Clear any stale login error when landing on the login page (e.g. after logout)
   useEffect(() => {
@@ -72,6 +76,18 @@ export default function LoginForm() {
     window.location.href = '/api/auth/google'
   }
 
+  const handleTwoFactorBack = () => {
+    resetLoginError()
+    form.reset()
+    const params = new URLSearchParams(searchParams.toString())
+    params.delete('step')
+    router.replace(params.size ? `/login?${params}` : '/login')
+  }
+
+  if (isTwoFactorStep) {
+    return <TwoFactorForm onBack={handleTwoFactorBack} />
+  }
+
   return (
     <div className="space-y-6">
       <div className="text-center">
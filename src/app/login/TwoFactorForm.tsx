@@ -0,0 +1,157 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useQueryClient } from '@tanstack/react-query'
+import { Fingerprint, Loader2 } from 'lucide-react'
+import {
+  getPasskeyLoginOptions,
+  getTwoFactorLoginMethods,
+  verifyPasskeyLogin,
+  verifyTwoFactorLogin,
+} from '@/actions/auth'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { getPasskeyAssertion, isPasskeySupported } from '@/lib/two-factor/browser'
+import { clientLogger } from '@/lib/logging/client'
+
+interface TwoFactorFormProps {
+  /** Go back to the password step */
+  onBack: () => void
+}
+
+/**
+ * Second login step: a code from the authenticator app, a recovery code or a passkey
+ */
+export default function TwoFactorForm({ onBack }: TwoFactorFormProps) {
+  const router = useRouter()
+  const queryClient = useQueryClient()
+  const [methods, setMethods] = useState<{ totp: boolean; passkey: boolean } | null>(null)
+  const [isLoadingMethods, setIsLoadingMethods] = useState(true)
+  const [code, setCode] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, setIsPending] = useState(false)
+
+  useEffect(() => {
+    getTwoFactorLoginMethods()
+      .then(setMethods)
+      .catch((err) => clientLogger.error('Failed to load two-factor methods:', err))
+      .finally(() => setIsLoadingMethods(false))
+  }, [])
+
+  const finishLogin = async () => {
+    await queryClient.invalidateQueries({ queryKey: ['user', 'me'] })
+    const params = new URLSearchParams(window.location.search)
+    router.push(params.get('redirect') || '/dashboard')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsPending(true)
+    setError(null)
+    try {
+      const formData = new FormData()
+      formData.append('code', code)
+      const result = await verifyTwoFactorLogin(null, formData)
+      if (result.error) {
+        setError(result.error)
+        setCode('')
+        return
+      }
+      await finishLogin()
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  const handlePasskey = async () => {
+    setIsPending(true)
+    setError(null)
+    try {
+      const { options, error: optionsError } = await getPasskeyLoginOptions()
+      if (!options) {
+        setError(optionsError ?? 'Passkey sign-in is not available')
+        return
+      }
+      const result = await verifyPasskeyLogin(await getPasskeyAssertion(options))
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+      await finishLogin()
+    } catch (err) {
+      clientLogger.error('Passkey sign-in error:', err)
+      setError('The passkey was not used. Please try again.')
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  if (isLoadingMethods) {
+    return (
+      <div className="flex justify-center p-6">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h1 className="text-2xl font-semibold tracking-tight">Two-factor authentication</h1>
+        <p className="text-sm text-muted-foreground">
+          {methods ? 'Confirm it is you to finish signing in' : 'Your login has expired. Please sign in again.'}
+        </p>
+      </div>
+
+      {methods && (
+        <div className="grid gap-6">
+          {methods.passkey && isPasskeySupported() && (
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full gap-2"
+              onClick={handlePasskey}
+              disabled={isPending}
+            >
+              <Fingerprint className="h-5 w-5" />
+              Use a passkey
+            </Button>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-2">
+              <Label htmlFor="two-factor-code">
+                {methods.totp ? 'Authenticator or recovery code' : 'Recovery code'}
+              </Label>
+              <Input
+                id="two-factor-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                autoFocus={!methods.passkey}
+              />
+            </div>
+
+            {error && (
+              <div className="rounded-md border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+                {error}
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isPending || !code.trim()}>
+              {isPending ? 'Verifying...' : 'Verify'}
+            </Button>
+          </form>
+        </div>
+      )}
+
+      <div className="text-center">
+        <Button type="button" variant="link" className="text-muted-foreground" onClick={onBack}>
+          Back to login
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,221 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { BarChart3, Link2Off, Loader2, Lock, NotebookText, Table } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs'
+import ZoomableChart from '@/components/ZoomableChart'
+import NatalPlanetPositionsCard from '@/components/NatalPlanetPositionsCard'
+import { AspectTable } from '@/components/charts/AspectTable'
+import { NotesViewer } from '@/components/notes-panel/NotesViewer'
+import { LandingNavbar } from '@/components/landing/LandingNavbar'
+import { Footer } from '@/components/landing/Footer'
+import { unlockSharedChart, type SharedChart, type SharedChartResult } from '@/actions/share-links'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { formatDisplayDate } from '@/lib/utils/date'
+import { getErrorMessage } from '@/lib/utils/error'
+import type { EnrichedSubjectModel } from '@/types/astrology'
+
+interface SharedChartViewProps {
+  token: string
+  initialResult: SharedChartResult
+}
+
+function PageShell({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <LandingNavbar />
+      <main className="flex-1 pt-20 pb-12">
+        <div className="container mx-auto px-4 max-w-7xl">{children}</div>
+      </main>
+      <Footer />
+    </div>
+  )
+}
+
+function UnavailableCard({ title, description }: { title: string; description: string }) {
+  return (
+    <Card className="mx-auto max-w-md text-center">
+      <CardHeader>
+        <Link2Off className="mx-auto h-8 w-8 text-muted-foreground" />
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Link href="/share/birthchart">
+          <Button variant="outline">Calculate your own chart</Button>
+        </Link>
+      </CardContent>
+    </Card>
+  )
+}
+
+function PasswordForm({ isInvalid, onUnlock }: { isInvalid: boolean; onUnlock: (password: string) => Promise<void> }) {
+  const [password, setPassword] = useState('')
+  const [isUnlocking, setIsUnlocking] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!password) return
+    setIsUnlocking(true)
+    try {
+      await onUnlock(password)
+    } finally {
+      setIsUnlocking(false)
+    }
+  }
+
+  return (
+    <Card className="mx-auto max-w-md">
+      <CardHeader className="text-center">
+        <Lock className="mx-auto h-8 w-8 text-muted-foreground" />
+        <CardTitle>Shared chart</CardTitle>
+        <CardDescription>This chart is password protected.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="grid gap-3">
+          <Label htmlFor="shared-chart-password">Password</Label>
+          <Input
+            id="shared-chart-password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            aria-invalid={isInvalid}
+            autoFocus
+          />
+          {isInvalid && <p className="text-sm text-destructive">Incorrect password.</p>}
+          <Button type="submit" disabled={!password || isUnlocking}>
+            {isUnlocking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            View chart
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
+
+function SharedChartContent({ chart }: { chart: SharedChart }) {
+  const { dateFormat } = useChartPreferences()
+  const { data } = chart.snapshot
+  const { chart_data } = data
+  const mainChart = data.chart_wheel || data.chart
+
+  // Single charts carry `subject`; dual charts carry `first_subject` and `second_subject`
+  const subjects = [chart_data.subject, chart_data.first_subject, chart_data.second_subject].filter(
+    (subject): subject is EnrichedSubjectModel => !!subject,
+  )
+
+  return (
+    <Tabs defaultValue="chart" className="space-y-3 p-0 md:p-2 w-full">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">{chart.name}</h1>
+          <p className="text-muted-foreground">
+            <span className="capitalize">{chart.chartType.replace(/-/g, ' ')}</span> chart • Shared on{' '}
+            {formatDisplayDate(chart.sharedAt, dateFormat)}
+          </p>
+        </div>
+        <TabsList>
+          <TabsTrigger value="chart">
+            <BarChart3 className="h-4 w-4" />
+            <span className="hidden sm:inline">Chart</span>
+          </TabsTrigger>
+          <TabsTrigger value="aspects">
+            <Table className="h-4 w-4" />
+            <span className="hidden sm:inline">Aspects</span>
+          </TabsTrigger>
+          {chart.notes && (
+            <TabsTrigger value="notes">
+              <NotebookText className="h-4 w-4" />
+              <span className="hidden sm:inline">Notes</span>
+            </TabsTrigger>
+          )}
+        </TabsList>
+      </div>
+
+      <TabsContent value="chart" className="mt-0">
+        <div className="grid gap-4 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
+          {mainChart && <ZoomableChart html={mainChart} />}
+          <div className="flex flex-col gap-4">
+            {subjects.map((subject, index) => (
+              <NatalPlanetPositionsCard
+                key={`${subject.name}-${index}`}
+                subject={subject}
+                className="h-fit w-full"
+                title={subjects.length > 1 ? subject.name : undefined}
+              />
+            ))}
+          </div>
+        </div>
+      </TabsContent>
+
+      <TabsContent value="aspects" className="mt-0">
+        <AspectTable
+          aspects={chart_data.aspects}
+          className="mx-auto w-full max-w-8xl"
+          p1Label={subjects.length > 1 ? subjects[0]?.name : undefined}
+          p2Label={subjects.length > 1 ? subjects[1]?.name : undefined}
+        />
+      </TabsContent>
+
+      {chart.notes && (
+        <TabsContent value="notes" className="mt-0">
+          <NotesViewer notes={chart.notes} />
+        </TabsContent>
+      )}
+    </Tabs>
+  )
+}
+
+/**
+ * Read-only view of a shared chart, with a password prompt for protected links
+ */
+export function SharedChartView({ token, initialResult }: SharedChartViewProps) {
+  const [result, setResult] = useState(initialResult)
+
+  const handleUnlock = async (password: string) => {
+    try {
+      setResult(await unlockSharedChart(token, password))
+    } catch (error) {
+      toast.error(getErrorMessage(error))
+    }
+  }
+
+  switch (result.status) {
+    case 'ok':
+      return (
+        <PageShell>
+          <SharedChartContent chart={result.chart} />
+        </PageShell>
+      )
+    case 'password-required':
+    case 'invalid-password':
+      return (
+        <PageShell>
+          <PasswordForm isInvalid={result.status === 'invalid-password'} onUnlock={handleUnlock} />
+        </PageShell>
+      )
+    case 'unavailable':
+      return (
+        <PageShell>
+          <UnavailableCard
+            title={result.reason === 'expired' ? 'This link has expired' : 'This link is no longer available'}
+            description="Ask the person who shared it for a new link."
+          />
+        </PageShell>
+      )
+    default:
+      return (
+        <PageShell>
+          <UnavailableCard title="Chart not found" description="Check that the link was copied completely." />
+        </PageShell>
+      )
+  }
+}
@@ -0,0 +1,21 @@
+import type { Metadata } from 'next'
+import { getSharedChart } from '@/actions/share-links'
+import { SharedChartView } from './SharedChartView'
+
+export const metadata: Metadata = {
+  title: 'Shared Chart - Astrologer Studio',
+  robots: { index: false, follow: false },
+}
+
+/**
+ * Public Shared Chart Page
+ *
+ * Renders the chart snapshot stored with a share link. Password-protected
+ * links are unlocked on the client; nothing is recalculated.
+ */
+export default async function SharedChartPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+  const result = await getSharedChart(token)
+
+  return <SharedChartView token={token} initialResult={result} />
+}
@@ -0,0 +1,153 @@
+'use client'
+
+import { useState } from 'react'
+import { CalendarDays, Download, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { TimezoneCombobox } from '@/components/TimezoneCombobox'
+import { getSkyEvents } from '@/actions/sky-events'
+import type { TransitEvent } from '@/lib/astrology/transit-timeline'
+import { skyEventsToIcs, transitEventsToIcs } from '@/lib/calendar/astro-events'
+import { CALENDAR_EVENT_CATEGORIES, getCalendarFileName, type CalendarEventCategory } from '@/lib/calendar/feed'
+import { buildIcsCalendar, ICS_MIME_TYPE } from '@/lib/calendar/ics'
+import type { SkyEventCategory } from '@/lib/ephemeris/sky-events'
+import { triggerDownload } from '@/lib/pdf/utils'
+import { getErrorMessage } from '@/lib/utils/error'
+
+interface CalendarExportDialogProps {
+  subjectId: string
+  subjectName: string
+  /** Timeline events as filtered in the table */
+  events: TransitEvent[]
+  startDate: Date
+  endDate: Date
+  /** Points whose ingresses and stations are exported */
+  points: string[]
+}
+
+/**
+ * Dialog exporting the visible timeline, with optional sky events over the same range, as an .ics file
+ */
+export function CalendarExportDialog({
+  subjectId,
+  subjectName,
+  events,
+  startDate,
+  endDate,
+  points,
+}: CalendarExportDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [timezone, setTimezone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC')
+  const [categories, setCategories] = useState<CalendarEventCategory[]>(['transits'])
+  const [isExporting, setIsExporting] = useState(false)
+
+  const toggleCategory = (category: CalendarEventCategory, checked: boolean) => {
+    setCategories((current) => (checked ? [...current, category] : current.filter((existing) => existing !== category)))
+  }
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      const options = { timezone, uidDomain: window.location.hostname }
+      const calendarEvents = categories.includes('transits')
+        ? transitEventsToIcs(events, { ...options, subjectId, subjectName })
+        : []
+
+      const skyCategories = categories.filter((category): category is SkyEventCategory => category !== 'transits')
+      if (skyCategories.length > 0) {
+        const skyEvents = await getSkyEvents({
+          startDate: startDate.toISOString(),
+          endDate: endDate.toISOString(),
+          categories: skyCategories,
+          points,
+        })
+        calendarEvents.push(...skyEventsToIcs(skyEvents, options))
+      }
+
+      if (calendarEvents.length === 0) {
+        toast.info('No events to export in this range')
+        return
+      }
+
+      calendarEvents.sort((a, b) => a.start.getTime() - b.start.getTime())
+      const body = buildIcsCalendar({ name: `${subjectName} – Astrology`, timezone, events: calendarEvents })
+      triggerDownload(new Blob([body], { type: ICS_MIME_TYPE }), getCalendarFileName(`${subjectName} transits`))
+
+      toast.success(`Exported ${calendarEvents.length} events`)
+      setOpen(false)
+    } catch (error) {
+      toast.error(getErrorMessage(error))
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8"
+          title="Export to calendar"
+          aria-label="Export to calendar"
+        >
+          <CalendarDays className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Export to Calendar</DialogTitle>
+          <DialogDescription>
+            Download an .ics file for Google Calendar, Apple Calendar or Outlook. Transits follow the filters of the
+            table; each exact hit becomes an event.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <fieldset className="grid gap-2">
+            <legend className="text-sm font-medium mb-2">Events</legend>
+            {CALENDAR_EVENT_CATEGORIES.map((category) => (
+              <div key={category.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`calendar-export-${category.value}`}
+                  checked={categories.includes(category.value)}
+                  onCheckedChange={(checked) => toggleCategory(category.value, checked === true)}
+                />
+                <Label htmlFor={`calendar-export-${category.value}`} className="font-normal">
+                  {category.label}
+                  {category.value === 'transits' && (
+                    <span className="text-muted-foreground"> ({events.length} in the table)</span>
+                  )}
+                </Label>
+              </div>
+            ))}
+          </fieldset>
+
+          <div className="grid gap-2">
+            <Label htmlFor="calendar-export-timezone">Time zone</Label>
+            <TimezoneCombobox id="calendar-export-timezone" value={timezone} onChange={setTimezone} side="bottom" />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleExport} disabled={isExporting || categories.length === 0}>
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Download .ics
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
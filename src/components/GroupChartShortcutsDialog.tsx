@@ -0,0 +1,90 @@
+'use client'
+
+/**
+ * Per-group chart shortcuts: synastry and composite for every pair of members
+ *
+ * @module components/GroupChartShortcutsDialog
+ */
+
+import { useMemo } from 'react'
+import Link from 'next/link'
+import { GitCompare, GitMerge } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import type { Subject } from '@/types/subjects'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface SubjectPair {
+  first: Subject
+  second: Subject
+}
+
+/**
+ * Returns every unordered pair of subjects, in list order (n·(n−1)/2 pairs)
+ */
+export function getSubjectPairs(subjects: Subject[]): SubjectPair[] {
+  const pairs: SubjectPair[] = []
+  subjects.forEach((first, i) => {
+    subjects.slice(i + 1).forEach((second) => pairs.push({ first, second }))
+  })
+  return pairs
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Component
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface GroupChartShortcutsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  groupName: string
+  subjects: Subject[]
+}
+
+export function GroupChartShortcutsDialog({ open, onOpenChange, groupName, subjects }: GroupChartShortcutsDialogProps) {
+  const pairs = useMemo(() => getSubjectPairs(subjects), [subjects])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Pairwise charts for {groupName}</DialogTitle>
+          <DialogDescription>
+            {pairs.length === 0
+              ? 'Add at least two subjects to this group to compare them.'
+              : `${pairs.length} pairs between ${subjects.length} subjects.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {pairs.length > 0 && (
+          <ul className="max-h-[60vh] overflow-y-auto divide-y rounded-md border">
+            {pairs.map(({ first, second }) => (
+              <li key={`${first.id}-${second.id}`} className="flex items-center justify-between gap-2 px-3 py-2">
+                <span className="text-sm truncate">
+                  {first.name} <span className="text-muted-foreground">&amp;</span> {second.name}
+                </span>
+                <div className="flex shrink-0 gap-1">
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/subjects/${first.id}/synastry/${second.id}`}>
+                      <GitCompare className="size-4 mr-1" />
+                      Synastry
+                    </Link>
+                  </Button>
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={`/subjects/${first.id}/composite/${second.id}`}>
+                      <GitMerge className="size-4 mr-1" />
+                      Composite
+                    </Link>
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,19 +1,18 @@
 'use client'
 
 /**
- * Dialog component for importing subjects from CSV files
+ * Dialog component for importing subjects from CSV and interchange files
  *
  * Features:
- * - CSV file upload with validation
- * - Preview of parsed subjects
- * - Error display for invalid rows
+ * - CSV, AAF, Solar Fire, ZET/Kepler and Astro-Seek uploads, detected from content
+ * - Preview of parsed subjects with Rodden rating, time zone and coordinates
+ * - Error and warning display for individual rows
  * - Deduplication (skips existing subjects)
  *
  * @module components/ImportSubjectsDialog
  */
 
 import { useState, useRef } from 'react'
-import Papa from 'papaparse'
 import { Button } from '@/components/ui/button'
 import {
   Dialog,
@@ -23,12 +22,20 @@ import {
   DialogDescription,
   DialogFooter,
 } from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { useSubjects } from '@/hooks/useSubjects'
-import { Upload, AlertCircle, Loader2, FileUp, X } from 'lucide-react'
+import { Upload, AlertCircle, AlertTriangle, Loader2, FileUp, X } from 'lucide-react'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { toast } from 'sonner'
 import type { CreateSubjectInput } from '@/types/subjects'
-import { parseSubjectCSVRow, type SubjectCSVRow } from '@/lib/csv/subjects'
+import {
+  BIRTH_DATA_FILE_ACCEPT,
+  BIRTH_DATA_FORMATS,
+  detectBirthDataFormat,
+  type BirthDataFormat,
+} from '@/lib/csv/formats'
+import { formatCoordinate } from '@/lib/csv/interchange'
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -39,6 +46,8 @@ interface ImportSubjectsDialogProps {
   onOpenChange: (open: boolean) => void
 }
 
+type FormatChoice = BirthDataFormat | 'auto'
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Component
 // ─────────────────────────────────────────────────────────────────────────────
@@ -46,63 +55,63 @@ interface ImportSubjectsDialogProps {
 export function ImportSubjectsDialog({ open, onOpenChange }: ImportSubjectsDialogProps) {
   const { importMutation } = useSubjects()
   const [file, setFile] = useState<File | null>(null)
+  const [fileText, setFileText] = useState('')
+  const [formatChoice, setFormatChoice] = useState<FormatChoice>('auto')
+  const [parsedFormat, setParsedFormat] = useState<BirthDataFormat | null>(null)
   const [parsedData, setParsedData] = useState<CreateSubjectInput[]>([])
   const [parseErrors, setParseErrors] = useState<string[]>([])
+  const [parseWarnings, setParseWarnings] = useState<string[]>([])
   const [isParsing, setIsParsing] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   /** Reset all state to initial values */
   const reset = () => {
     setFile(null)
+    setFileText('')
+    setParsedFormat(null)
     setParsedData([])
     setParseErrors([])
+    setParseWarnings([])
     if (fileInputRef.current) fileInputRef.current.value = ''
   }
 
-  /** Handle file selection and parse CSV */
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  /** Parse file content with the chosen or detected format */
+  const parseText = (text: string, fileName: string, choice: FormatChoice) => {
+    const format = choice === 'auto' ? detectBirthDataFormat(fileName, text) : choice
+    const results = BIRTH_DATA_FORMATS[format].parse(text)
+
+    setParsedFormat(format)
+    setParsedData(results.flatMap((r) => (r.success && r.data ? [r.data] : [])))
+    setParseErrors(results.flatMap((r) => (r.error ? [r.error] : [])))
+    setParseWarnings(results.flatMap((r) => r.warnings ?? []))
+  }
+
+  /** Handle file selection and parse its content */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0]
     if (!selectedFile) return
 
     setFile(selectedFile)
     setIsParsing(true)
     setParseErrors([])
+    setParseWarnings([])
     setParsedData([])
 
-    Papa.parse<SubjectCSVRow>(selectedFile, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        setIsParsing(false)
-
-        if (results.errors.length > 0) {
-          setParseErrors(results.errors.map((e) => `Row ${e.row}: ${e.message}`))
-          return
-        }
-
-        const validSubjects: CreateSubjectInput[] = []
-        const errors: string[] = []
-
-        results.data.forEach((row, index) => {
-          // Skip completely empty rows
-          if (!row.name && !row.birthDatetime) return
-
-          const result = parseSubjectCSVRow(row, index + 2) // +2 for header + 1-indexed
-          if (result.success && result.data) {
-            validSubjects.push(result.data)
-          } else if (result.error) {
-            errors.push(result.error)
-          }
-        })
+    try {
+      const text = await selectedFile.text()
+      setFileText(text)
+      parseText(text, selectedFile.name, formatChoice)
+    } catch (err) {
+      setParseErrors([(err as Error).message])
+    } finally {
+      setIsParsing(false)
+    }
+  }
 
-        setParseErrors(errors)
-        setParsedData(validSubjects)
-      },
-      error: (error) => {
-        setIsParsing(false)
-        setParseErrors([error.message])
-      },
-    })
+  /** Re-parse the loaded file when the format is changed */
+  const handleFormatChange = (choice: FormatChoice) => {
+    setFormatChoice(choice)
+    if (file) parseText(fileText, file.name, choice)
   }
 
   /** Submit parsed subjects for import */
@@ -140,19 +149,51 @@ export function ImportSubjectsDialog({ open, onOpenChange }: ImportSubjectsDialo
     >
       <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
         <DialogHeader>
-          <DialogTitle>Import Subjects from CSV</DialogTitle>
+          <DialogTitle>Import Subjects</DialogTitle>
           <DialogDescription>
-            Upload a CSV with columns: <code>name</code>, <code>birthDatetime</code> (ISO), <code>city</code>,{' '}
-            <code>nation</code>, <code>timezone</code>...
+            Upload a CSV with columns <code>name</code>, <code>birthDatetime</code> (ISO), <code>city</code>,{' '}
+            <code>nation</code>, <code>timezone</code>... or a file exported from Astro-Databank (AAF), Solar Fire,
+            ZET/Kepler or Astro-Seek.
             <br />
             <span className="text-xs">Duplicate subjects (same name + birthdate) will be skipped.</span>
           </DialogDescription>
         </DialogHeader>
 
         <div className="flex-1 overflow-hidden flex flex-col gap-4 py-4">
+          <div className="flex items-center gap-3">
+            <Label htmlFor="import-format" className="shrink-0">
+              Format
+            </Label>
+            <Select value={formatChoice} onValueChange={(v) => handleFormatChange(v as FormatChoice)}>
+              <SelectTrigger id="import-format" className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Detect automatically</SelectItem>
+                {(Object.keys(BIRTH_DATA_FORMATS) as BirthDataFormat[]).map((format) => (
+                  <SelectItem key={format} value={format}>
+                    {BIRTH_DATA_FORMATS[format].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {parsedFormat && (
+              <span className="text-xs text-muted-foreground truncate">
+                {formatChoice === 'auto' && `Detected ${BIRTH_DATA_FORMATS[parsedFormat].label}: `}
+                {BIRTH_DATA_FORMATS[parsedFormat].description}
+              </span>
+            )}
+          </div>
+
           {!file ? (
             <FileDropzone onClick={() => fileInputRef.current?.click()}>
-              <input ref={fileInputRef} type="file" accept=".csv" className="hidden" onChange={handleFileChange} />
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={BIRTH_DATA_FILE_ACCEPT}
+                className="hidden"
+                onChange={handleFileChange}
+              />
             </FileDropzone>
           ) : (
             <div className="flex flex-col gap-4 h-full">
@@ -174,6 +215,7 @@ export function ImportSubjectsDialog({ open, onOpenChange }: ImportSubjectsDialo
 
               {/* Error display */}
               {parseErrors.length > 0 && <ErrorList errors={parseErrors} />}
+              {parseWarnings.length > 0 && <WarningList warnings={parseWarnings} />}
 
               {/* Preview table */}
               {!isParsing && parsedData.length > 0 && <PreviewTable data={parsedData} />}
@@ -214,7 +256,7 @@ function FileDropzone({ onClick, children }: { onClick: () => void; children?: R
       onClick={onClick}
     >
       <FileUp className="size-12 mb-4 opacity-50" />
-      <p className="font-medium text-lg">Click to select CSV file</p>
+      <p className="font-medium text-lg">Click to select a file</p>
       <p className="text-sm">or drag and drop here</p>
       {children}
     </div>
@@ -238,6 +280,23 @@ function ErrorList({ errors }: { errors: string[] }) {
   )
 }
 
+/** Rows that were imported with adjustments, e.g. an offset converted to UT */
+function WarningList({ warnings }: { warnings: string[] }) {
+  return (
+    <div className="rounded-md border border-amber-500/50 bg-amber-500/10 p-3 text-amber-700 dark:text-amber-400">
+      <div className="flex items-center gap-2 font-medium">
+        <AlertTriangle className="size-4" />
+        {warnings.length} warning{warnings.length !== 1 ? 's' : ''}
+      </div>
+      <div className="mt-2 text-xs opacity-90 max-h-32 overflow-y-auto pl-6">
+        {warnings.map((w, i) => (
+          <div key={i}>{w}</div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
 /** Preview table showing parsed subjects */
 function PreviewTable({ data }: { data: CreateSubjectInput[] }) {
   return (
@@ -253,6 +312,9 @@ function PreviewTable({ data }: { data: CreateSubjectInput[] }) {
               <TableHead>Name</TableHead>
               <TableHead>Date/Time</TableHead>
               <TableHead>Location</TableHead>
+              <TableHead>Coordinates</TableHead>
+              <TableHead>Time zone</TableHead>
+              <TableHead>Rating</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -264,6 +326,13 @@ function PreviewTable({ data }: { data: CreateSubjectInput[] }) {
                   {row.birthDate ? new Date(row.birthDate).toLocaleDateString() : '—'} {row.birthTime}
                 </TableCell>
                 <TableCell>{[row.city, row.nation].filter(Boolean).join(', ') || '—'}</TableCell>
+                <TableCell className="font-mono text-xs whitespace-nowrap">
+                  {row.latitude !== undefined && row.longitude !== undefined
+                    ? `${formatCoordinate(row.latitude, 'latitude')} ${formatCoordinate(row.longitude, 'longitude')}`
+                    : '—'}
+                </TableCell>
+                <TableCell className="text-xs">{row.timezone}</TableCell>
+                <TableCell className="text-xs">{row.rodens_rating ?? '—'}</TableCell>
               </TableRow>
             ))}
           </TableBody>
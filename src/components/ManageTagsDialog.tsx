@@ -0,0 +1,144 @@
+'use client'
+
+/**
+ * Dialog to rename, merge and delete the current user's tags
+ *
+ * Renaming to a name that already exists is rejected by the server;
+ * merging moves every tagged subject to the target tag.
+ *
+ * @module components/ManageTagsDialog
+ */
+
+import { useState } from 'react'
+import { Check, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { SubjectTag } from '@/types/subjects'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface ManageTagsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  tags: SubjectTag[]
+  isPending?: boolean
+  onRename: (tag: SubjectTag, name: string) => void
+  onMerge: (source: SubjectTag, target: SubjectTag) => void
+  onDelete: (tag: SubjectTag) => void
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Component
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function ManageTagsDialog({
+  open,
+  onOpenChange,
+  tags,
+  isPending = false,
+  onRename,
+  onMerge,
+  onDelete,
+}: ManageTagsDialogProps) {
+  // Pending rename drafts keyed by tag ID
+  const [drafts, setDrafts] = useState<Record<string, string>>({})
+
+  const submitRename = (tag: SubjectTag) => {
+    const name = drafts[tag.id]?.trim()
+    if (!name || name === tag.name) return
+    onRename(tag, name)
+    setDrafts(({ [tag.id]: _, ...rest }) => rest)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Manage tags</DialogTitle>
+          <DialogDescription>Changes apply to every subject with the tag.</DialogDescription>
+        </DialogHeader>
+
+        {tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tags yet. Add tags when editing a subject.</p>
+        ) : (
+          <ul className="max-h-[60vh] overflow-y-auto divide-y rounded-md border">
+            {tags.map((tag) => {
+              const draft = drafts[tag.id] ?? tag.name
+              const others = tags.filter((t) => t.id !== tag.id)
+              return (
+                <li key={tag.id} className="flex flex-wrap items-center gap-2 px-3 py-2">
+                  <form
+                    className="flex flex-1 min-w-[10rem] items-center gap-1"
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      submitRename(tag)
+                    }}
+                  >
+                    <Input
+                      value={draft}
+                      onChange={(e) => setDrafts((d) => ({ ...d, [tag.id]: e.target.value }))}
+                      className="h-8"
+                      maxLength={50}
+                      aria-label={`Rename tag ${tag.name}`}
+                    />
+                    {draft.trim() !== tag.name && (
+                      <Button
+                        type="submit"
+                        variant="ghost"
+                        size="icon"
+                        className="size-8"
+                        disabled={isPending || !draft.trim()}
+                        aria-label={`Save new name for tag ${tag.name}`}
+                      >
+                        <Check className="size-4" />
+                      </Button>
+                    )}
+                  </form>
+                  <Badge variant="outline" className="tabular-nums font-normal">
+                    {tag.subjectCount}
+                  </Badge>
+                  {others.length > 0 && (
+                    <Select
+                      value=""
+                      onValueChange={(targetId) => {
+                        const target = others.find((t) => t.id === targetId)
+                        if (target) onMerge(tag, target)
+                      }}
+                      disabled={isPending}
+                    >
+                      <SelectTrigger size="sm" className="w-auto text-xs" aria-label={`Merge tag ${tag.name} into`}>
+                        <SelectValue placeholder="Merge into…" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {others.map((target) => (
+                          <SelectItem key={target.id} value={target.id}>
+                            {target.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8 text-destructive"
+                    onClick={() => onDelete(tag)}
+                    disabled={isPending}
+                    aria-label={`Delete tag ${tag.name}`}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -9,6 +9,7 @@ import { toast } from 'sonner'
 import { clientLogger } from '@/lib/logging/client'
 import { TagFilter } from '@/components/TagFilter'
 import { createSavedChartsColumns, type SavedChart } from '@/components/SavedChartsColumns'
+import { ShareChartDialog } from '@/components/ShareChartDialog'
 import {
   Dialog,
   DialogContent,
@@ -49,6 +50,7 @@ export function SavedCalculationsTable() {
   const [newTags, setNewTags] = useState('')
   const [deleteConfirm, setDeleteConfirm] = useState<{ type: 'single' | 'bulk'; ids: string[] } | null>(null)
   const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [sharingChart, setSharingChart] = useState<SavedChart | null>(null)
   const router = useRouter()
 
   useEffect(() => {
@@ -215,6 +217,7 @@ export function SavedCalculationsTable() {
         onEdit: openEditDialog,
         onDelete: handleDelete,
         onLoad: handleLoadChart,
+        onShare: setSharingChart,
       }),
     [openEditDialog, handleDelete, handleLoadChart],
   )
@@ -293,6 +296,7 @@ export function SavedCalculationsTable() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      <ShareChartDialog chart={sharingChart} onOpenChange={(open) => !open && setSharingChart(null)} />
       <AlertDialog open={!!deleteConfirm} onOpenChange={(open) => !open && setDeleteConfirm(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
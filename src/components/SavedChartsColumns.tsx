@@ -1,7 +1,7 @@
 import type { ColumnDef, Column } from '@tanstack/react-table'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { MoreHorizontal, Pencil, Trash2 } from 'lucide-react'
+import { MoreHorizontal, Pencil, Share2, Trash2 } from 'lucide-react'
 import {
   DropdownMenu,
   DropdownMenuTrigger,
@@ -26,6 +26,7 @@ interface CreateSavedChartsColumnsProps {
   onEdit: (chart: SavedChart, e: React.MouseEvent) => void
   onDelete: (id: string, e: React.MouseEvent) => void
   onLoad: (id: string) => void
+  onShare: (chart: SavedChart) => void
 }
 
 const SortableHeader = <T,>({ column, title }: { column: Column<T, unknown>; title: string }) => {
@@ -56,6 +57,7 @@ export function createSavedChartsColumns({
   onEdit,
   onDelete,
   onLoad,
+  onShare,
 }: CreateSavedChartsColumnsProps): ColumnDef<SavedChart, unknown>[] {
   return [
     {
@@ -176,6 +178,9 @@ export function createSavedChartsColumns({
               <DropdownMenuItem onSelect={(e) => onEdit(chart, e as unknown as React.MouseEvent)}>
                 <Pencil className="mr-2 h-4 w-4" /> Edit
               </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => onShare(chart)}>
+                <Share2 className="mr-2 h-4 w-4" /> Share
+              </DropdownMenuItem>
               <DropdownMenuItem
                 onSelect={(e) => onDelete(chart.id, e as unknown as React.MouseEvent)}
                 className="text-destructive focus:text-destructive"
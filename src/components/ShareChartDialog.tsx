@@ -0,0 +1,218 @@
+'use client'
+
+/**
+ * Dialog to create and revoke read-only share links for a saved chart
+ *
+ * The link URL contains the only copy of the token, so it is shown once,
+ * right after creation.
+ *
+ * @module components/ShareChartDialog
+ */
+
+import { useState } from 'react'
+import { Check, Copy, Loader2, Lock, Share2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { SavedChart } from '@/components/SavedChartsColumns'
+import { useShareLinks } from '@/hooks/useShareLinks'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { SHARE_LINK_EXPIRY_OPTIONS, type ShareLinkStatus } from '@/lib/chart/share-links'
+import { formatDisplayDate } from '@/lib/utils/date'
+import { getErrorMessage } from '@/lib/utils/error'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface ShareChartDialogProps {
+  /** Chart to share; the dialog is open while a chart is set */
+  chart: SavedChart | null
+  onOpenChange: (open: boolean) => void
+}
+
+const STATUS_BADGES: Record<ShareLinkStatus, { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  active: { label: 'Active', variant: 'default' },
+  expired: { label: 'Expired', variant: 'secondary' },
+  revoked: { label: 'Revoked', variant: 'outline' },
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Component
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function ShareChartDialog({ chart, onOpenChange }: ShareChartDialogProps) {
+  const { dateFormat } = useChartPreferences()
+  const { data: links = [], isLoading, createMutation, revokeMutation } = useShareLinks(chart?.id ?? null)
+
+  const [expiry, setExpiry] = useState('never')
+  const [password, setPassword] = useState('')
+  const [includeNotes, setIncludeNotes] = useState(true)
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setExpiry('never')
+      setPassword('')
+      setIncludeNotes(true)
+      setCreatedUrl(null)
+      setCopied(false)
+    }
+    onOpenChange(open)
+  }
+
+  const handleCreate = () => {
+    createMutation.mutate(
+      {
+        expiresInDays: expiry === 'never' ? null : Number(expiry),
+        password: password || undefined,
+        includeNotes,
+      },
+      {
+        onSuccess: ({ url }) => {
+          setCreatedUrl(url)
+          setCopied(false)
+          setPassword('')
+        },
+        onError: (error) => toast.error(getErrorMessage(error)),
+      },
+    )
+  }
+
+  const handleCopy = async () => {
+    if (!createdUrl) return
+    try {
+      await navigator.clipboard.writeText(createdUrl)
+      setCopied(true)
+      toast.success('Link copied to clipboard')
+    } catch {
+      toast.error('Failed to copy link')
+    }
+  }
+
+  const handleRevoke = (id: string) => {
+    revokeMutation.mutate(id, {
+      onSuccess: () => toast.success('Link revoked'),
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  return (
+    <Dialog open={!!chart} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Share “{chart?.name}”</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view this chart without an account. The chart is frozen as it is now; other
+            subjects are never shown.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="share-expiry">Expires after</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="share-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SHARE_LINK_EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.label} value={option.days === null ? 'never' : String(option.days)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="share-password">Password (optional)</Label>
+              <Input
+                id="share-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="share-notes" className="flex flex-col items-start gap-1">
+              Include notes
+              <span className="text-xs font-normal text-muted-foreground">
+                Notes and the saved AI interpretation, kept up to date
+              </span>
+            </Label>
+            <Switch id="share-notes" checked={includeNotes} onCheckedChange={setIncludeNotes} />
+          </div>
+          <Button onClick={handleCreate} disabled={createMutation.isPending || (!!password && password.length < 4)}>
+            {createMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Share2 className="mr-2 h-4 w-4" />
+            )}
+            Create link
+          </Button>
+
+          {createdUrl && (
+            <div className="grid gap-2 rounded-md border p-3">
+              <div className="flex gap-2">
+                <Input readOnly value={createdUrl} onFocus={(e) => e.target.select()} aria-label="Share link" />
+                <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy link">
+                  {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">Copy the link now: it will not be shown again.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="grid gap-2">
+          <h3 className="text-sm font-medium">Links</h3>
+          {isLoading ? (
+            <div className="flex justify-center p-4">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This chart has not been shared yet.</p>
+          ) : (
+            <ul className="max-h-[40vh] overflow-y-auto divide-y rounded-md border">
+              {links.map((link) => {
+                const badge = STATUS_BADGES[link.status]
+                return (
+                  <li key={link.id} className="flex flex-wrap items-center gap-x-3 gap-y-1 px-3 py-2 text-sm">
+                    <Badge variant={badge.variant}>{badge.label}</Badge>
+                    {link.hasPassword && <Lock className="h-3.5 w-3.5 text-muted-foreground" aria-label="Password" />}
+                    <span className="text-muted-foreground">
+                      Created {formatDisplayDate(link.createdAt, dateFormat)} •{' '}
+                      {link.expiresAt ? `expires ${formatDisplayDate(link.expiresAt, dateFormat)}` : 'no expiry'} •{' '}
+                      {link.viewCount} {link.viewCount === 1 ? 'view' : 'views'}
+                      {!link.includeNotes && ' • without notes'}
+                    </span>
+                    {link.status === 'active' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="ml-auto text-destructive hover:text-destructive"
+                        disabled={revokeMutation.isPending}
+                        onClick={() => handleRevoke(link.id)}
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -22,6 +22,15 @@ import {
   User,
   ShieldCheck,
   HelpCircle,
+  TrendingUp,
+  Sunrise,
+  MoonStar,
+  Layers,
+  Globe2,
+  Hourglass,
+  AudioWaveform,
+  Crosshair,
+  MessageCircleQuestion,
 } from 'lucide-react'
 import {
   SidebarContent,
@@ -67,6 +76,7 @@ const defaultGroups: NavGroup[] = [
       { icon: FolderHeart, label: 'Saved Calculations', to: '/saved-calculations' },
       { icon: Table2, label: 'Ephemeris', to: '/ephemeris' },
       { icon: Calendar, label: 'Timeline', to: '#', action: 'timeline', isPro: true },
+      { icon: MessageCircleQuestion, label: 'Horary', to: '/horary', isPro: true },
     ],
   },
   {
@@ -78,6 +88,14 @@ const defaultGroups: NavGroup[] = [
       { icon: GitCommit, label: 'Composite', to: '#', action: 'composite', isPro: true },
       { icon: Sun, label: 'Solar Return', to: '#', action: 'solar-return', isPro: true },
       { icon: Moon, label: 'Lunar Return', to: '#', action: 'lunar-return', isPro: true },
+      { icon: TrendingUp, label: 'Progressions', to: '#', action: 'progressions', isPro: true },
+      { icon: Sunrise, label: 'Solar Arc', to: '#', action: 'solar-arc', isPro: true },
+      { icon: MoonStar, label: 'Progressed Lunation', to: '#', action: 'progressed-lunation', isPro: true },
+      { icon: Layers, label: 'Multi-Wheel', to: '#', action: 'multi-wheel', isPro: true },
+      { icon: Hourglass, label: 'Time Lords', to: '#', action: 'time-lords', isPro: true },
+      { icon: AudioWaveform, label: 'Harmonics', to: '#', action: 'harmonics', isPro: true },
+      { icon: Crosshair, label: 'Midpoints', to: '#', action: 'midpoints', isPro: true },
+      { icon: Globe2, label: 'Astrocartography', to: '#', action: 'astrocartography' },
     ],
   },
   {
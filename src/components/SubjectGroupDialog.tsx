@@ -0,0 +1,117 @@
+'use client'
+
+/**
+ * Dialog to create a subject group or rename an existing one
+ *
+ * @module components/SubjectGroupDialog
+ */
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import type { SubjectGroup, SubjectGroupInput } from '@/types/subjects'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface SubjectGroupDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Group being renamed; omit to create a new group */
+  group?: SubjectGroup | null
+  /** Number of selected subjects that will join a new group */
+  memberCount?: number
+  isSaving?: boolean
+  onSubmit: (data: SubjectGroupInput) => void
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Component
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function SubjectGroupDialog({
+  open,
+  onOpenChange,
+  group,
+  memberCount = 0,
+  isSaving = false,
+  onSubmit,
+}: SubjectGroupDialogProps) {
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+
+  // Reset fields whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName(group?.name ?? '')
+      setDescription(group?.description ?? '')
+    }
+  }, [open, group])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim() || isSaving) return
+    onSubmit({ name: name.trim(), description: description.trim() || null })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !isSaving && onOpenChange(o)}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{group ? 'Rename group' : 'New group'}</DialogTitle>
+            <DialogDescription>
+              {group
+                ? 'Subjects in this group are not affected.'
+                : memberCount > 0
+                  ? `The ${memberCount} selected subjects will be added to the new group.`
+                  : 'Groups collect subjects such as a family, a client circle or a research set.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="subject-group-name">Name</Label>
+            <Input
+              id="subject-group-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={80}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="subject-group-description">Description</Label>
+            <Textarea
+              id="subject-group-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!name.trim() || isSaving}>
+              {isSaving ? 'Saving...' : group ? 'Save' : 'Create group'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
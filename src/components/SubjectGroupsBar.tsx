@@ -0,0 +1,139 @@
+'use client'
+
+/**
+ * Group selector for the Subjects list
+ *
+ * Shows "All", "Ungrouped" and every subject group with its member count.
+ * The active group has a menu to rename, merge, delete and open pairwise charts.
+ *
+ * @module components/SubjectGroupsBar
+ */
+
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { FolderPlus, MoreHorizontal, Users } from 'lucide-react'
+import { cn } from '@/lib/utils/cn'
+import type { SubjectGroup } from '@/types/subjects'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Group filter: a group ID, every subject, or subjects without a group */
+export type GroupFilter = 'all' | 'ungrouped' | (string & {})
+
+interface SubjectGroupsBarProps {
+  groups: SubjectGroup[]
+  activeGroup: GroupFilter
+  onActiveGroupChange: (group: GroupFilter) => void
+  totalCount: number
+  ungroupedCount: number
+  onCreate: () => void
+  onRename: (group: SubjectGroup) => void
+  onMerge: (source: SubjectGroup, target: SubjectGroup) => void
+  onDelete: (group: SubjectGroup) => void
+  onOpenCharts: (group: SubjectGroup) => void
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Component
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function SubjectGroupsBar({
+  groups,
+  activeGroup,
+  onActiveGroupChange,
+  totalCount,
+  ungroupedCount,
+  onCreate,
+  onRename,
+  onMerge,
+  onDelete,
+  onOpenCharts,
+}: SubjectGroupsBarProps) {
+  const chip = (key: GroupFilter, label: string, count: number) => (
+    <Button
+      key={key}
+      type="button"
+      variant={activeGroup === key ? 'secondary' : 'ghost'}
+      size="sm"
+      className={cn('h-8 gap-2', activeGroup === key && 'ring-1 ring-border')}
+      onClick={() => onActiveGroupChange(key)}
+      aria-pressed={activeGroup === key}
+    >
+      <span className="truncate max-w-[12rem]">{label}</span>
+      <Badge variant="outline" className="px-1.5 font-normal tabular-nums">
+        {count}
+      </Badge>
+    </Button>
+  )
+
+  const active = groups.find((g) => g.id === activeGroup)
+
+  return (
+    <div className="flex flex-wrap items-center gap-1" role="toolbar" aria-label="Subject groups">
+      {chip('all', 'All subjects', totalCount)}
+      {groups.map((group) => chip(group.id, group.name, group.subjectCount))}
+      {groups.length > 0 && chip('ungrouped', 'Ungrouped', ungroupedCount)}
+
+      {active && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="size-8" aria-label={`Actions for group ${active.name}`}>
+              <MoreHorizontal className="size-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuLabel>{active.name}</DropdownMenuLabel>
+            <DropdownMenuItem onSelect={() => onOpenCharts(active)} disabled={active.subjectCount < 2}>
+              <Users className="size-4" />
+              Pairwise synastry &amp; composite
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => onRename(active)}>Rename</DropdownMenuItem>
+            {groups.length > 1 && (
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>Merge into</DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {groups
+                    .filter((g) => g.id !== active.id)
+                    .map((target) => (
+                      <DropdownMenuItem key={target.id} onSelect={() => onMerge(active, target)}>
+                        {target.name}
+                      </DropdownMenuItem>
+                    ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            )}
+            <DropdownMenuItem variant="destructive" onSelect={() => onDelete(active)}>
+              Delete group
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="h-8 border border-dashed"
+        onClick={onCreate}
+        aria-label="New group"
+      >
+        <FolderPlus className="size-4" />
+        <span className="hidden md:inline">New group</span>
+      </Button>
+    </div>
+  )
+}
@@ -19,6 +19,8 @@ import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/h
 
 interface CreateSubjectsColumnsProps extends ColumnActionsProps {
   dateFormat?: DateFormat
+  /** Group names keyed by group ID, used by the Groups column */
+  groupNames?: Record<string, string>
 }
 
 const SortableHeader = ({ column, title }: { column: Column<Subject, unknown>; title: string }) => {
@@ -38,6 +40,7 @@ export function createSubjectsColumns({
   openEditDialog,
   openDeleteDialog,
   dateFormat = 'EU',
+  groupNames = {},
 }: CreateSubjectsColumnsProps): ColumnDef<Subject, unknown>[] {
   return [
     {
@@ -218,6 +221,26 @@ export function createSubjectsColumns({
       enableHiding: true,
       enableSorting: false, // Tags hard to sort
     },
+    {
+      id: 'groups',
+      accessorFn: (row) => (row.groupIds ?? []).map((id) => groupNames[id]).filter(Boolean),
+      header: 'Groups',
+      cell: ({ getValue }) => {
+        const names = getValue() as string[]
+        if (names.length === 0) return <span className="text-muted-foreground">—</span>
+        return (
+          <div className="flex flex-nowrap gap-1 items-center">
+            {names.map((name) => (
+              <Badge key={name} variant="outline" className="whitespace-nowrap">
+                {name}
+              </Badge>
+            ))}
+          </div>
+        )
+      },
+      enableHiding: true,
+      enableSorting: false,
+    },
     {
       id: 'actions',
       header: '',
@@ -288,6 +311,69 @@ export function createSubjectsColumns({
               >
                 View Lunar Return
               </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => {
+                  window.location.href = `/subjects/${subject.id}/progressions`
+                }}
+              >
+                View Progressions
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => {
+                  window.location.href = `/subjects/${subject.id}/solar-arc`
+                }}
+              >
+                View Solar Arc
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => {
+                  window.location.href = `/subjects/${subject.id}/progressed-lunation`
+                }}
+              >
+                View Progressed Lunation
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => {
+                  window.location.href = `/subjects/${subject.id}/multi-wheel`
+                }}
+              >
+                View Multi-Wheel
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => {
+                  window.location.href = `/subjects/${subject.id}/time-lords`
+                }}
+              >
+                View Time Lords
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => {
+                  window.location.href = `/subjects/${subject.id}/harmonics`
+                }}
+              >
+                View Harmonics
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => {
+                  window.location.href = `/subjects/${subject.id}/midpoints`
+                }}
+              >
+                View Midpoints
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => {
+                  window.location.href = `/subjects/${subject.id}/astrocartography`
+                }}
+              >
+                View Astrocartography
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() => {
+                  window.location.href = `/subjects/${subject.id}/rectification`
+                }}
+              >
+                Rectify Birth Time
+              </DropdownMenuItem>
               <DropdownMenuItem
                 variant="destructive"
                 onSelect={() => {
@@ -0,0 +1,167 @@
+'use client'
+
+/**
+ * Bulk action menu to add selected subjects to groups and tags
+ *
+ * @module components/SubjectsOrganizeMenu
+ */
+
+import { useState } from 'react'
+import { FolderInput } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import type { Subject, SubjectGroup, SubjectTag } from '@/types/subjects'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface SubjectsOrganizeMenuProps {
+  selectedRows: Subject[]
+  groups: SubjectGroup[]
+  tags: SubjectTag[]
+  /** Group currently shown, offered as "Remove from group" */
+  activeGroup?: SubjectGroup | null
+  onAddToGroup: (group: SubjectGroup, subjectIds: string[]) => void
+  onRemoveFromGroup: (group: SubjectGroup, subjectIds: string[]) => void
+  onCreateGroup: (subjectIds: string[]) => void
+  onAssignTags: (tagNames: string[], subjectIds: string[], mode: 'add' | 'remove') => void
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Component
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function SubjectsOrganizeMenu({
+  selectedRows,
+  groups,
+  tags,
+  activeGroup,
+  onAddToGroup,
+  onRemoveFromGroup,
+  onCreateGroup,
+  onAssignTags,
+}: SubjectsOrganizeMenuProps) {
+  const [tagDialogOpen, setTagDialogOpen] = useState(false)
+  const [newTag, setNewTag] = useState('')
+
+  const subjectIds = selectedRows.map((s) => s.id)
+  // Only offer removal of tags that at least one selected subject has
+  const selectedTagNames = Array.from(new Set(selectedRows.flatMap((s) => s.tags ?? []))).sort((a, b) =>
+    a.localeCompare(b),
+  )
+
+  const submitNewTag = (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = newTag.trim()
+    if (!name) return
+    onAssignTags([name], subjectIds, 'add')
+    setTagDialogOpen(false)
+    setNewTag('')
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <FolderInput className="size-4 mr-2" />
+            Organize
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Add to group</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {groups.map((group) => (
+                <DropdownMenuItem key={group.id} onSelect={() => onAddToGroup(group, subjectIds)}>
+                  {group.name}
+                </DropdownMenuItem>
+              ))}
+              {groups.length > 0 && <DropdownMenuSeparator />}
+              <DropdownMenuItem onSelect={() => onCreateGroup(subjectIds)}>New group…</DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          {activeGroup && (
+            <DropdownMenuItem onSelect={() => onRemoveFromGroup(activeGroup, subjectIds)}>
+              Remove from {activeGroup.name}
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Add tag</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {tags.map((tag) => (
+                <DropdownMenuItem key={tag.id} onSelect={() => onAssignTags([tag.name], subjectIds, 'add')}>
+                  {tag.name}
+                </DropdownMenuItem>
+              ))}
+              {tags.length > 0 && <DropdownMenuSeparator />}
+              <DropdownMenuItem onSelect={() => setTagDialogOpen(true)}>New tag…</DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          {selectedTagNames.length > 0 && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>Remove tag</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {selectedTagNames.map((name) => (
+                  <DropdownMenuItem key={name} onSelect={() => onAssignTags([name], subjectIds, 'remove')}>
+                    {name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={tagDialogOpen} onOpenChange={setTagDialogOpen}>
+        <DialogContent className="sm:max-w-sm">
+          <form onSubmit={submitNewTag} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Add tag</DialogTitle>
+              <DialogDescription>The tag is added to the {selectedRows.length} selected subjects.</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-new-tag">Tag name</Label>
+              <Input
+                id="bulk-new-tag"
+                value={newTag}
+                onChange={(e) => setNewTag(e.target.value)}
+                maxLength={50}
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => setTagDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!newTag.trim()}>
+                Add tag
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
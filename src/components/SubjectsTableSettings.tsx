@@ -4,8 +4,9 @@
  * Settings dropdown menu for the Subjects table
  *
  * Provides a unified menu with:
- * - Import from CSV
- * - Export to CSV
+ * - Import from CSV and interchange formats
+ * - Export to CSV, AAF, Solar Fire, ZET/Kepler or Astro-Seek
+ * - Tag management
  * - Column visibility toggles
  *
  * @module components/SubjectsTableSettings
@@ -25,10 +26,11 @@ import {
   DropdownMenuSubTrigger,
   DropdownMenuCheckboxItem,
 } from '@/components/ui/dropdown-menu'
-import { Settings, Download, Upload, Columns, RotateCcw } from 'lucide-react'
+import { Settings, Download, Upload, Columns, RotateCcw, Tags } from 'lucide-react'
 import type { Table } from '@tanstack/react-table'
 import type { Subject } from '@/types/subjects'
 import { useTablePreferences } from '@/stores/tablePreferences'
+import { BIRTH_DATA_FORMATS, type BirthDataFormat } from '@/lib/csv/formats'
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -39,12 +41,14 @@ interface SubjectsTableSettingsProps {
   table: Table<Subject>
   /** Table ID for persisting preferences */
   tableId: string
-  /** Handler for export action */
-  onExport: () => void
+  /** Handler for export action, called with the chosen file format */
+  onExport: (format: BirthDataFormat) => void
   /** Handler for import action (opens dialog) */
   onImport: () => void
   /** Whether export is disabled (e.g., no data) */
   exportDisabled?: boolean
+  /** Handler for the manage tags action (opens dialog) */
+  onManageTags?: () => void
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -57,6 +61,7 @@ export function SubjectsTableSettings({
   onExport,
   onImport,
   exportDisabled = false,
+  onManageTags,
 }: SubjectsTableSettingsProps) {
   const [open, setOpen] = useState(false)
   const resetTable = useTablePreferences((s) => s.resetTable)
@@ -84,13 +89,29 @@ export function SubjectsTableSettings({
 
         <DropdownMenuItem onClick={onImport}>
           <Upload className="size-4 mr-2" />
-          Import from CSV
+          Import...
         </DropdownMenuItem>
 
-        <DropdownMenuItem onClick={onExport} disabled={exportDisabled}>
-          <Download className="size-4 mr-2" />
-          Export to CSV
-        </DropdownMenuItem>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger disabled={exportDisabled}>
+            <Download className="size-4 mr-2" />
+            Export as
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            {(Object.keys(BIRTH_DATA_FORMATS) as BirthDataFormat[]).map((format) => (
+              <DropdownMenuItem key={format} onClick={() => onExport(format)}>
+                {BIRTH_DATA_FORMATS[format].label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+
+        {onManageTags && (
+          <DropdownMenuItem onClick={onManageTags}>
+            <Tags className="size-4 mr-2" />
+            Manage tags
+          </DropdownMenuItem>
+        )}
 
         <DropdownMenuSeparator />
 
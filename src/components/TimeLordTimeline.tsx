@@ -0,0 +1,126 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { format } from 'date-fns'
+import { cn } from '@/lib/utils/cn'
+import { TROPICAL_YEAR_DAYS } from '@/lib/astrology/progressions'
+import { findCurrentPeriods, isPeakPeriod, type TimeLordPeriod } from '@/lib/astrology/time-lords'
+
+interface TimeLordTimelineProps {
+  periods: TimeLordPeriod[]
+  /** Start of the axis (birth); periods starting earlier are cut off here */
+  from: Date
+  now: Date
+  /** Horizontal scale of the top-level strip */
+  pxPerYear?: number
+}
+
+const YEAR_MS = TROPICAL_YEAR_DAYS * 86_400_000
+
+function formatRange(period: TimeLordPeriod): string {
+  return `${format(period.start, 'PP')} – ${format(period.end, 'PP')}`
+}
+
+function describePeriod(period: TimeLordPeriod): string {
+  const notes = [
+    period.fromFortune === 10 ? 'peak period' : isPeakPeriod(period) ? 'angular to Fortune' : null,
+    period.loosingOfBond ? 'loosing of the bond' : null,
+  ].filter(Boolean)
+  const lord = period.lord !== period.label ? ` (${period.lord})` : ''
+  return `${period.label}${lord}${notes.length > 0 ? ` · ${notes.join(', ')}` : ''}`
+}
+
+/**
+ * Horizontally scrolling strip of time-lord periods, sized by duration, with
+ * a marker at the current date. Selecting a period lists its sub-periods
+ * below; the running period is selected initially.
+ */
+export function TimeLordTimeline({ periods, from, now, pxPerYear = 24 }: TimeLordTimelineProps) {
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const current = useMemo(() => findCurrentPeriods(periods, now), [periods, now])
+  const [selected, setSelected] = useState<TimeLordPeriod | undefined>(current[0])
+
+  const origin = from.getTime()
+  const end = periods[periods.length - 1]?.end.getTime() ?? origin
+  const toPx = (time: number) => ((Math.max(time, origin) - origin) / YEAR_MS) * pxPerYear
+  const width = toPx(end)
+  const nowPx = toPx(now.getTime())
+  const decades = Math.floor((end - origin) / YEAR_MS / 10)
+
+  // Bring the current date into view
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollLeft = Math.max(0, nowPx - scrollRef.current.clientWidth / 3)
+  }, [nowPx])
+
+  const subPeriods = selected?.subPeriods ?? []
+  const selectedSpan = selected ? selected.end.getTime() - selected.start.getTime() : 0
+
+  return (
+    <div className="space-y-3">
+      <div ref={scrollRef} className="overflow-x-auto pb-2">
+        <div className="relative h-14" style={{ width }}>
+          {periods.map((period) => {
+            const left = toPx(period.start.getTime())
+            const isCurrent = period === current[0]
+            return (
+              <button
+                key={period.start.getTime()}
+                type="button"
+                title={`${describePeriod(period)}\n${formatRange(period)}`}
+                onClick={() => setSelected(period)}
+                aria-pressed={period === selected}
+                className={cn(
+                  'absolute top-0 h-9 overflow-hidden rounded-sm border px-1 text-left text-xs whitespace-nowrap transition-colors',
+                  isCurrent ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/70',
+                  period === selected && 'ring-2 ring-ring',
+                  period.fromFortune === 10 && 'border-2 border-amber-500',
+                )}
+                style={{ left, width: Math.max(toPx(period.end.getTime()) - left - 1, 2) }}
+              >
+                {period.label}
+              </button>
+            )
+          })}
+          {Array.from({ length: decades + 1 }, (_, decade) => (
+            <span
+              key={decade}
+              className="absolute bottom-0 text-[10px] text-muted-foreground"
+              style={{ left: decade * 10 * pxPerYear }}
+            >
+              {decade * 10}
+            </span>
+          ))}
+          <div className="absolute top-0 h-10 w-0.5 bg-destructive" style={{ left: nowPx }} title="Now" />
+        </div>
+      </div>
+
+      {selected && (
+        <div className="space-y-2">
+          <p className="text-sm">
+            <span className="font-semibold">{describePeriod(selected)}</span>{' '}
+            <span className="text-muted-foreground">{formatRange(selected)}</span>
+          </p>
+          {subPeriods.length > 0 && (
+            <div className="flex w-full gap-px overflow-hidden rounded-sm">
+              {subPeriods.map((period) => (
+                <div
+                  key={period.start.getTime()}
+                  title={`${describePeriod(period)}\n${formatRange(period)}`}
+                  className={cn(
+                    'min-w-0 truncate px-1 py-1 text-[11px]',
+                    period === current[1] ? 'bg-primary text-primary-foreground' : 'bg-muted',
+                    period.fromFortune === 10 && 'border-b-2 border-amber-500',
+                    period.loosingOfBond && 'border-l-2 border-l-destructive',
+                  )}
+                  style={{ flexGrow: (period.end.getTime() - period.start.getTime()) / selectedSpan, flexBasis: 0 }}
+                >
+                  {period.label}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,15 +4,17 @@ import * as React from 'react'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { cn } from '@/lib/utils/cn'
 
-export type TimeRange = 'week' | 'month' | 'year'
+export type TimeRange = 'week' | 'month' | 'year' | '3years' | '10years'
 
 interface TimeRangeSelectorProps {
   value: TimeRange
   onChange: (value: TimeRange) => void
   className?: string
+  /** Show multi-year ranges (only supported by the event-based timeline) */
+  extended?: boolean
 }
 
-export function TimeRangeSelector({ value, onChange, className }: TimeRangeSelectorProps) {
+export function TimeRangeSelector({ value, onChange, className, extended = false }: TimeRangeSelectorProps) {
   // Use stable ID to prevent hydration mismatch with Radix Select
   const id = React.useId()
 
@@ -25,6 +27,8 @@ export function TimeRangeSelector({ value, onChange, className }: TimeRangeSelec
         <SelectItem value="week">Next Week</SelectItem>
         <SelectItem value="month">Next Month</SelectItem>
         <SelectItem value="year">Next Year</SelectItem>
+        {extended && <SelectItem value="3years">Next 3 Years</SelectItem>}
+        {extended && <SelectItem value="10years">Next 10 Years</SelectItem>}
       </SelectContent>
     </Select>
   )
@@ -2,13 +2,14 @@
 
 import { useState, useRef } from 'react'
 import { useRouter } from 'next/navigation'
-import { adminLogin } from '@/actions/admin'
+import { adminLogin, confirmAdminTwoFactorSetup, startAdminTwoFactorSetup, verifyAdminTwoFactor } from '@/actions/admin'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { isRecaptchaDisabled } from '@/components/ui/ReCaptcha'
 import ReCAPTCHA from 'react-google-recaptcha'
-import { Loader2, Lock, User, AlertCircle } from 'lucide-react'
+import { Loader2, Lock, User, AlertCircle, KeyRound } from 'lucide-react'
+import type { TotpSetup } from '@/lib/two-factor/types'
 
 const recaptchaSiteKey = process.env.NEXT_PUBLIC_RECAPTCHA_SITE_KEY
 
@@ -21,14 +22,72 @@ if (!isRecaptchaDisabled && !recaptchaSiteKey) {
 }
 
 /**
- * Admin Login Form with reCAPTCHA
+ * Login step
+ * - `password`: username, password and reCAPTCHA
+ * - `verify`: code from the authenticator app or a recovery code
+ * - `enroll`: set up an authenticator app, when the policy requires one
+ * - `recovery-codes`: show the codes issued by the setup before continuing
+ */
+type LoginStep = 'password' | 'verify' | 'enroll' | 'recovery-codes'
+
+/**
+ * Admin Login Form with reCAPTCHA and two-factor steps
  */
 export function AdminLoginForm() {
   const router = useRouter()
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [step, setStep] = useState<LoginStep>('password')
+  const [totpSetup, setTotpSetup] = useState<TotpSetup | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([])
   const recaptchaRef = useRef<ReCAPTCHA>(null)
 
+  function enterAdminPanel() {
+    router.push('/admin')
+    router.refresh()
+  }
+
+  async function startEnrollment() {
+    const result = await startAdminTwoFactorSetup()
+    if (result.success) {
+      setTotpSetup(result.data ?? null)
+      setStep('enroll')
+    } else {
+      setError(result.error)
+      setStep('password')
+    }
+  }
+
+  async function handleCodeSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault()
+    setError(null)
+    setIsLoading(true)
+
+    try {
+      const formData = new FormData(e.currentTarget)
+      if (step === 'enroll') {
+        const result = await confirmAdminTwoFactorSetup(formData)
+        if (result.success) {
+          setRecoveryCodes(result.data?.recoveryCodes ?? [])
+          setStep('recovery-codes')
+        } else {
+          setError(result.error)
+        }
+      } else {
+        const result = await verifyAdminTwoFactor(formData)
+        if (result.success) {
+          enterAdminPanel()
+        } else {
+          setError(result.error)
+        }
+      }
+    } catch {
+      setError('An unexpected error occurred. Please try again.')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault()
     setError(null)
@@ -54,8 +113,13 @@ export function AdminLoginForm() {
       const result = await adminLogin(formData)
 
       if (result.success) {
-        router.push('/admin')
-        router.refresh()
+        if (result.data?.twoFactor === 'verify') {
+          setStep('verify')
+        } else if (result.data?.twoFactor === 'enroll') {
+          await startEnrollment()
+        } else {
+          enterAdminPanel()
+        }
       } else {
         setError(result.error)
         recaptchaRef.current?.reset()
@@ -68,14 +132,110 @@ export function AdminLoginForm() {
     }
   }
 
+  const errorAlert = error && (
+    <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 flex items-start gap-3">
+      <AlertCircle className="h-5 w-5 text-red-400 flex-shrink-0 mt-0.5" />
+      <p className="text-red-400 text-sm">{error}</p>
+    </div>
+  )
+
+  if (step === 'recovery-codes') {
+    return (
+      <div className="space-y-6">
+        <p className="text-slate-200 text-sm">
+          Two-factor authentication is set up. Save these recovery codes somewhere safe: each one signs you in once
+          without your authenticator app, and they will not be shown again.
+        </p>
+        <ul className="grid grid-cols-2 gap-2 rounded-lg border border-slate-600 bg-slate-900/50 p-4 font-mono text-sm text-white">
+          {recoveryCodes.map((code) => (
+            <li key={code}>{code}</li>
+          ))}
+        </ul>
+        <Button onClick={enterAdminPanel} className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-5">
+          Continue to Admin Panel
+        </Button>
+      </div>
+    )
+  }
+
+  if (step === 'verify' || step === 'enroll') {
+    return (
+      <form onSubmit={handleCodeSubmit} className="space-y-6">
+        {errorAlert}
+
+        {step === 'enroll' && totpSetup ? (
+          <div className="space-y-2">
+            <p className="text-slate-200 text-sm">
+              Two-factor authentication is required for admin accounts. Add this key to your authenticator app, or{' '}
+              <a href={totpSetup.uri} className="text-blue-400 underline">
+                open it in the app
+              </a>
+              , then enter the code it shows.
+            </p>
+            <Input
+              readOnly
+              value={totpSetup.secret}
+              onFocus={(e) => e.target.select()}
+              aria-label="Authenticator key"
+              className="bg-slate-900/50 border-slate-600 text-white font-mono"
+            />
+          </div>
+        ) : (
+          <p className="text-slate-200 text-sm">Enter the code from your authenticator app, or a recovery code.</p>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="code" className="text-slate-200">
+            Code
+          </Label>
+          <div className="relative">
+            <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <Input
+              id="code"
+              name="code"
+              type="text"
+              required
+              autoFocus
+              autoComplete="one-time-code"
+              className="pl-10 bg-slate-900/50 border-slate-600 text-white placeholder:text-slate-500 focus:border-blue-500"
+              placeholder="123456"
+            />
+          </div>
+        </div>
+
+        <Button
+          type="submit"
+          disabled={isLoading}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-5"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Verifying...
+            </>
+          ) : (
+            'Verify'
+          )}
+        </Button>
+
+        <Button
+          type="button"
+          variant="link"
+          onClick={() => {
+            setError(null)
+            setStep('password')
+          }}
+          className="w-full text-slate-400"
+        >
+          Back to login
+        </Button>
+      </form>
+    )
+  }
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
-      {error && (
-        <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 flex items-start gap-3">
-          <AlertCircle className="h-5 w-5 text-red-400 flex-shrink-0 mt-0.5" />
-          <p className="text-red-400 text-sm">{error}</p>
-        </div>
-      )}
+      {errorAlert}
 
       <div className="space-y-2">
         <Label htmlFor="username" className="text-slate-200">
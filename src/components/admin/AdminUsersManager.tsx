@@ -1,11 +1,20 @@
 'use client'
 
-import { useState } from 'react'
-import { createAdminUser } from '@/actions/admin'
+import { useCallback, useEffect, useState } from 'react'
+import {
+  createAdminUser,
+  getAdminSecurityOverview,
+  resetAdminTwoFactor,
+  setAdminTwoFactorRequired,
+  type AdminSecurityOverview,
+  type AdminUserSummary,
+} from '@/actions/admin'
+import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
 import {
   Dialog,
   DialogContent,
@@ -14,7 +23,7 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog'
-import { Plus, Loader2, Shield, ShieldCheck } from 'lucide-react'
+import { Plus, Loader2, Shield, ShieldCheck, ShieldOff } from 'lucide-react'
 import { toast } from 'sonner'
 import { MIN_PASSWORD_LENGTH } from '@/lib/validation/password'
 
@@ -25,6 +34,46 @@ export function AdminUsersManager() {
   const [password, setPassword] = useState('')
   const [email, setEmail] = useState('')
   const [role, setRole] = useState<'admin' | 'superadmin'>('admin')
+  const [overview, setOverview] = useState<AdminSecurityOverview | null>(null)
+  const [isUpdatingPolicy, setIsUpdatingPolicy] = useState(false)
+
+  const loadOverview = useCallback(async () => {
+    const result = await getAdminSecurityOverview()
+    if (result.success) {
+      setOverview(result.data ?? null)
+    } else {
+      toast.error(result.error || 'Failed to load admin users')
+    }
+  }, [])
+
+  useEffect(() => {
+    loadOverview()
+  }, [loadOverview])
+
+  const handleRequireTwoFactorChange = async (required: boolean) => {
+    setIsUpdatingPolicy(true)
+    const result = await setAdminTwoFactorRequired(required)
+    if (result.success) {
+      toast.success(required ? 'Two-factor authentication is now required' : 'Two-factor authentication is optional')
+      await loadOverview()
+    } else {
+      toast.error(result.error || 'Failed to update the policy')
+    }
+    setIsUpdatingPolicy(false)
+  }
+
+  const handleResetTwoFactor = async (admin: AdminUserSummary) => {
+    if (!confirm(`Reset two-factor authentication for ${admin.username}? They will be signed out everywhere.`)) {
+      return
+    }
+    const result = await resetAdminTwoFactor(admin.id)
+    if (result.success) {
+      toast.success('Two-factor authentication reset')
+      await loadOverview()
+    } else {
+      toast.error(result.error || 'Failed to reset two-factor authentication')
+    }
+  }
 
   const handleCreate = async () => {
     if (!username || !password) {
@@ -47,6 +96,7 @@ export function AdminUsersManager() {
       setPassword('')
       setEmail('')
       setRole('admin')
+      await loadOverview()
     } else {
       toast.error(result.error || 'Failed to create admin user')
     }
@@ -140,14 +190,64 @@ export function AdminUsersManager() {
         </Dialog>
       </div>
 
-      <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-6">
-        <p className="text-slate-400 text-center py-8">
-          Admin user listing coming soon. For now, use the CLI script:
-          <br />
-          <code className="text-blue-400 text-sm">
-            bun run admin-scripts/create-admin.ts --username [name] --password [pass]
-          </code>
-        </p>
+      <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-6 flex items-center justify-between gap-4">
+        <div>
+          <p className="text-white font-medium">Require two-factor authentication</p>
+          <p className="text-slate-400 text-sm">
+            Admins without an authenticator app have to set one up at their next login.
+          </p>
+        </div>
+        <Switch
+          checked={overview?.requireTwoFactor ?? false}
+          onCheckedChange={handleRequireTwoFactorChange}
+          disabled={!overview || isUpdatingPolicy}
+          aria-label="Require two-factor authentication"
+        />
+      </div>
+
+      <div className="bg-slate-800/50 border border-slate-700 rounded-xl divide-y divide-slate-700">
+        {!overview ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-slate-400" />
+          </div>
+        ) : (
+          overview.admins.map((admin) => (
+            <div key={admin.id} className="flex items-center justify-between gap-4 p-4">
+              <div className="flex items-center gap-3">
+                {admin.role === 'superadmin' ? (
+                  <ShieldCheck className="h-4 w-4 text-blue-400" />
+                ) : (
+                  <Shield className="h-4 w-4 text-slate-400" />
+                )}
+                <div>
+                  <p className="text-white">{admin.username}</p>
+                  <p className="text-slate-500 text-xs">
+                    {admin.email || 'No email'} •{' '}
+                    {admin.lastLoginAt
+                      ? `Last login ${new Date(admin.lastLoginAt).toLocaleString()}`
+                      : 'Never logged in'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant={admin.twoFactorEnabled ? 'default' : 'secondary'}>
+                  {admin.twoFactorEnabled ? '2FA on' : '2FA off'}
+                </Badge>
+                {admin.twoFactorEnabled && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleResetTwoFactor(admin)}
+                    className="text-red-400 hover:text-red-300"
+                  >
+                    <ShieldOff className="h-4 w-4 mr-1" />
+                    Reset
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))
+        )}
       </div>
     </div>
   )
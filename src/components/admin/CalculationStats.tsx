@@ -51,6 +51,11 @@ const CHART_TYPE_LABELS: Record<string, string> = {
   'lunar-return': 'Lunar Return',
   now: 'Now Chart',
   timeline: 'Timeline',
+  progressions: 'Progressions',
+  'solar-arc': 'Solar Arc',
+  'progressed-lunation': 'Progressed Lunation',
+  'multi-wheel': 'Multi-Wheel',
+  horary: 'Horary',
 }
 
 type TimePeriod = 'today' | 'week' | 'month' | 'all'
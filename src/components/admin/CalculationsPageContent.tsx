@@ -23,7 +23,9 @@ import {
   getTopUsersByCalculations,
   searchUsers,
   getCalculationStats,
+  getChartCacheStats,
   type CalculationStatsResult,
+  type ChartCacheStatsResult,
   type ClearHistoryTimeRange,
   type TopUserByCalculations,
 } from '@/actions/admin'
@@ -35,6 +37,7 @@ import { cn } from '@/lib/utils/cn'
 import { useDebounce } from '@/hooks/use-debounce'
 import { clientLogger } from '@/lib/logging/client'
 import { TIME_PERIOD_COLORS, getAdminChartColor } from '@/lib/config/chart-colors'
+import { ChartCacheStats } from '@/components/admin/ChartCacheStats'
 
 // Dynamically import chart components to avoid loading recharts in the initial bundle
 const AdminBarChartContent = dynamic(
@@ -67,6 +70,11 @@ const CHART_TYPE_LABELS: Record<string, string> = {
   'lunar-return': 'Lunar Return',
   now: 'Now Chart',
   timeline: 'Timeline',
+  progressions: 'Progressions',
+  'solar-arc': 'Solar Arc',
+  'progressed-lunation': 'Progressed Lunation',
+  'multi-wheel': 'Multi-Wheel',
+  horary: 'Horary',
 }
 
 type TimePeriod = 'today' | 'week' | 'month' | 'all'
@@ -83,6 +91,7 @@ export function CalculationsPageContent({ isSuperAdmin }: CalculationsPageConten
   const [clearTimeRange, setClearTimeRange] = useState<ClearHistoryTimeRange>('day')
   const [isClearing, setIsClearing] = useState(false)
   const [topUsers, setTopUsers] = useState<TopUserByCalculations[]>([])
+  const [cacheStats, setCacheStats] = useState<ChartCacheStatsResult | null>(null)
 
   // User Filter State
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null)
@@ -119,11 +128,16 @@ export function CalculationsPageContent({ isSuperAdmin }: CalculationsPageConten
         if (result.success && result.data) {
           setData(result.data)
         }
-        // When filtering by user, we don't show top users
+        // When filtering by user, we don't show top users or the shared cache
         setTopUsers([])
+        setCacheStats(null)
       } else {
         // Fetch global data
-        const [statsResult, topUsersResult] = await Promise.all([getDashboardStats(), getTopUsersByCalculations(15)])
+        const [statsResult, topUsersResult, cacheStatsResult] = await Promise.all([
+          getDashboardStats(),
+          getTopUsersByCalculations(15),
+          getChartCacheStats(),
+        ])
 
         if (statsResult.success && statsResult.data) {
           setData(statsResult.data)
@@ -131,6 +145,9 @@ export function CalculationsPageContent({ isSuperAdmin }: CalculationsPageConten
         if (topUsersResult.success && topUsersResult.data) {
           setTopUsers(topUsersResult.data)
         }
+        if (cacheStatsResult.success && cacheStatsResult.data) {
+          setCacheStats(cacheStatsResult.data)
+        }
       }
     } catch (error) {
       clientLogger.error('Failed to fetch calculation data:', error)
@@ -563,6 +580,9 @@ export function CalculationsPageContent({ isSuperAdmin }: CalculationsPageConten
         </div>
       </div>
 
+      {/* Server-side chart cache */}
+      {cacheStats && <ChartCacheStats stats={cacheStats} />}
+
       {/* Top Users by Calculations */}
       <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-6">
         <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
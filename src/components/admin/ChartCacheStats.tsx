@@ -0,0 +1,92 @@
+'use client'
+
+import { Database } from 'lucide-react'
+import type { ChartCacheHitRate, ChartCacheStatsResult } from '@/actions/admin'
+
+interface ChartCacheStatsProps {
+  stats: ChartCacheStatsResult
+}
+
+const CHART_TYPE_LABELS: Record<string, string> = {
+  subject: 'Subject',
+  natal: 'Natal',
+  transit: 'Transits',
+  synastry: 'Synastry',
+  composite: 'Composite',
+  'solar-return': 'Solar Return',
+  'lunar-return': 'Lunar Return',
+  now: 'Now Chart',
+  context: 'AI Context',
+}
+
+/** Hit rate as a percentage, or a dash when there were no lookups */
+function formatHitRate({ hits, misses }: ChartCacheHitRate): string {
+  const total = hits + misses
+  return total > 0 ? `${((hits / total) * 100).toFixed(1)}%` : '—'
+}
+
+/**
+ * Hit rates of the server-side chart calculation cache. Every hit is an
+ * Astrologer API call saved.
+ */
+export function ChartCacheStats({ stats }: ChartCacheStatsProps) {
+  const periods = [
+    { label: 'Today', rate: stats.today },
+    { label: 'This Week', rate: stats.thisWeek },
+    { label: 'This Month', rate: stats.thisMonth },
+    { label: 'All Time', rate: stats.allTime },
+  ]
+  const byType = [...stats.byTypeThisMonth].sort((a, b) => b.hits + b.misses - (a.hits + a.misses))
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-6">
+      <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <Database className="h-5 w-5 text-emerald-400" />
+        Server Cache Hit Rate
+      </h2>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {periods.map(({ label, rate }) => (
+          <div key={label} className="bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+            <p className="text-2xl font-bold text-white">{formatHitRate(rate)}</p>
+            <p className="text-sm text-slate-400">{label}</p>
+            <p className="text-xs text-slate-500 mt-1">
+              {rate.hits.toLocaleString()} API calls saved of {(rate.hits + rate.misses).toLocaleString()}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-slate-700">
+              <th className="text-left py-3 px-4 text-sm font-medium text-slate-400">Chart Type (Last 30 Days)</th>
+              <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">Hits</th>
+              <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">Misses</th>
+              <th className="text-right py-3 px-4 text-sm font-medium text-slate-400">Hit Rate</th>
+            </tr>
+          </thead>
+          <tbody>
+            {byType.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="text-center py-8 text-slate-500">
+                  No cache lookups yet
+                </td>
+              </tr>
+            ) : (
+              byType.map((item) => (
+                <tr key={item.type} className="border-b border-slate-700/50 hover:bg-slate-700/20">
+                  <td className="py-3 px-4 text-white font-medium">{CHART_TYPE_LABELS[item.type] || item.type}</td>
+                  <td className="text-right py-3 px-4 text-slate-300">{item.hits.toLocaleString()}</td>
+                  <td className="text-right py-3 px-4 text-slate-300">{item.misses.toLocaleString()}</td>
+                  <td className="text-right py-3 px-4 text-emerald-400 font-medium">{formatHitRate(item)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
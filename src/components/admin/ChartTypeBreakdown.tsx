@@ -22,6 +22,11 @@ const CHART_TYPE_LABELS: Record<string, string> = {
   'solar-return': 'Solar Return',
   'lunar-return': 'Lunar Return',
   timeline: 'Timeline',
+  progressions: 'Progressions',
+  'solar-arc': 'Solar Arc',
+  'progressed-lunation': 'Progressed Lunation',
+  'multi-wheel': 'Multi-Wheel',
+  horary: 'Horary',
 }
 
 const COLORS = [
@@ -1,6 +1,6 @@
 'use client'
 
-import { Edit } from 'lucide-react'
+import { Edit, ShieldOff } from 'lucide-react'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import type { UserDetail } from '@/actions/admin'
@@ -11,9 +11,11 @@ interface UserDetailDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   onEditPlan: (user: UserDetail) => void
+  /** Remove the user's second factors (superadmin only) */
+  onResetTwoFactor?: (user: UserDetail) => void
 }
 
-export function UserDetailDialog({ user, open, onOpenChange, onEditPlan }: UserDetailDialogProps) {
+export function UserDetailDialog({ user, open, onOpenChange, onEditPlan, onResetTwoFactor }: UserDetailDialogProps) {
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="bg-slate-800 border-slate-700 text-white max-w-2xl">
@@ -51,6 +53,30 @@ export function UserDetailDialog({ user, open, onOpenChange, onEditPlan }: UserD
                   </Button>
                 </div>
               </div>
+              <div>
+                <p className="text-sm text-slate-400">Two-Factor Auth</p>
+                <div className="flex items-center gap-2">
+                  <p className="text-white">{user.twoFactorEnabled ? 'Enabled' : 'Off'}</p>
+                  {user.twoFactorEnabled && onResetTwoFactor && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      title="Reset two-factor authentication"
+                      onClick={() => {
+                        if (
+                          confirm(
+                            `Remove the second factors of ${user.username}? They will be signed out everywhere and can sign in with their password alone.`,
+                          )
+                        ) {
+                          onResetTwoFactor(user)
+                        }
+                      }}
+                    >
+                      <ShieldOff className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
               <div>
                 <p className="text-sm text-slate-400">AI Generations (Today)</p>
                 <p className="text-white">{user.todayAIUsage}</p>
@@ -107,6 +107,7 @@ export function UsersTable() {
     handleQuickEditPlan,
     handleSavePlan,
     handleDeleteUser,
+    handleResetTwoFactor,
     handleOpenDeleteDialog,
   } = useUsersTable()
 
@@ -402,6 +403,7 @@ export function UsersTable() {
         open={isDetailOpen}
         onOpenChange={setIsDetailOpen}
         onEditPlan={handleEditPlan}
+        onResetTwoFactor={handleResetTwoFactor}
       />
 
       {/* Edit Plan Dialog */}
@@ -1,13 +1,16 @@
 'use client'
 
-import { Fragment, useMemo } from 'react'
-import { Aspect, Point, EnrichedSubjectModel } from '@/types/astrology'
+import { Fragment, useMemo, useState } from 'react'
+import { Aspect, Point, EnrichedSubjectModel, ChartRing, ChartRingAspects } from '@/types/astrology'
 import { cn } from '@/lib/utils/cn'
+import { Button } from '@/components/ui/button'
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip'
 import { useMediaQuery } from '@/hooks/use-media-query'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
-import { ALL_CELESTIAL_POINTS } from '@/lib/astrology/celestial-points'
+import { ALL_CELESTIAL_POINTS, getCelestialPointIndex } from '@/lib/astrology/celestial-points'
 import { ASPECT_SYMBOLS } from '@/lib/astrology/aspects'
+import { getRingPairLabel } from '@/lib/astrology/multi-wheel'
+import { isPointSelected, splitMidpointName } from '@/lib/astrology/midpoints'
 import { AspectTooltipContent } from './AspectTooltipContent'
 
 import { AspectGridLegend } from './AspectGridLegend'
@@ -25,6 +28,17 @@ interface AspectGridProps {
   colSubject?: EnrichedSubjectModel
 }
 
+interface InterRingAspectGridProps {
+  /** Rings of the multi-wheel chart, innermost first */
+  rings: ChartRing[]
+  /** Aspects of every pair of rings */
+  ringAspects: ChartRingAspects[]
+  /** Aspects left by the chart filters; all aspects of each pair when omitted */
+  aspects?: Aspect[]
+  className?: string
+  activePoints?: string[]
+}
+
 export const PLANET_LABELS: Record<string, string> = {
   Sun: 'Sun',
   Moon: 'Mon',
@@ -153,6 +167,27 @@ function formatPointPosition(point: Point | number | undefined): string {
   return `${deg}° ${signAbbr}`
 }
 
+/** Grid label of a point, or of both points of a midpoint (e.g. "Sun/Mon") */
+export function getPointLabel(name: string): string {
+  const pair = splitMidpointName(name)
+  if (pair) return pair.map(getPointLabel).join('/')
+  return PLANET_LABELS[name] || name.slice(0, 3)
+}
+
+/** Points in chart order, followed by the midpoints ordered by their points */
+function sortGridPoints(names: string[]): string[] {
+  const index = getCelestialPointIndex
+  const midpoints = names
+    .flatMap((name) => {
+      const pair = splitMidpointName(name)
+      return pair && index(pair[0]) !== Number.MAX_SAFE_INTEGER && index(pair[1]) !== Number.MAX_SAFE_INTEGER
+        ? [{ name, pair }]
+        : []
+    })
+    .sort((a, b) => index(a.pair[0]) - index(b.pair[0]) || index(a.pair[1]) - index(b.pair[1]))
+  return [...ALL_CELESTIAL_POINTS.filter((planet) => names.includes(planet)), ...midpoints.map(({ name }) => name)]
+}
+
 function getAspectSymbol(aspectName: string) {
   return ASPECT_SYMBOLS[aspectName.toLowerCase()] || aspectName.charAt(0).toUpperCase()
 }
@@ -208,10 +243,10 @@ export function AspectGrid({
 
       let availablePlanets = Array.from(planetSet)
       if (activePoints && activePoints.length > 0) {
-        availablePlanets = availablePlanets.filter((p) => activePoints.includes(p))
+        availablePlanets = availablePlanets.filter((p) => isPointSelected(p, activePoints))
       }
 
-      const sortedPlanets = ALL_CELESTIAL_POINTS.filter((planet) => availablePlanets.includes(planet))
+      const sortedPlanets = sortGridPoints(availablePlanets)
       return { rowPlanets: sortedPlanets, colPlanets: sortedPlanets }
     }
 
@@ -227,13 +262,13 @@ export function AspectGrid({
     let colAvailable = Array.from(colSet)
 
     if (activePoints && activePoints.length > 0) {
-      rowAvailable = rowAvailable.filter((p) => activePoints.includes(p))
-      colAvailable = colAvailable.filter((p) => activePoints.includes(p))
+      rowAvailable = rowAvailable.filter((p) => isPointSelected(p, activePoints))
+      colAvailable = colAvailable.filter((p) => isPointSelected(p, activePoints))
     }
 
     return {
-      rowPlanets: ALL_CELESTIAL_POINTS.filter((planet) => rowAvailable.includes(planet)),
-      colPlanets: ALL_CELESTIAL_POINTS.filter((planet) => colAvailable.includes(planet)),
+      rowPlanets: sortGridPoints(rowAvailable),
+      colPlanets: sortGridPoints(colAvailable),
     }
   }, [aspects, activePoints, type])
 
@@ -270,7 +305,7 @@ export function AspectGrid({
                 className="flex h-10 items-center justify-center font-bold text-xs sm:text-sm truncate px-1 text-muted-foreground"
                 title={colLabel ? `${colLabel} ${planet}` : planet}
               >
-                {PLANET_LABELS[planet] || planet.slice(0, 3)}
+                {getPointLabel(planet)}
               </div>
             ))}
 
@@ -283,7 +318,7 @@ export function AspectGrid({
                   className="flex h-16 w-10 items-center justify-start font-bold text-xs sm:text-sm px-1 text-muted-foreground"
                   title={rowLabel ? `${rowLabel} ${rowPlanet}` : rowPlanet}
                 >
-                  {PLANET_LABELS[rowPlanet] || rowPlanet.slice(0, 3)}
+                  {getPointLabel(rowPlanet)}
                 </div>
 
                 {/* Cells */}
@@ -379,3 +414,54 @@ export function AspectGrid({
     </div>
   )
 }
+
+/**
+ * Aspect grids between the rings of a multi-wheel chart, one ring pair at a time.
+ * Rows are the points of the inner ring of the pair, columns those of the outer ring.
+ */
+export function InterRingAspectGrid({
+  rings,
+  ringAspects,
+  aspects,
+  className,
+  activePoints,
+}: InterRingAspectGridProps) {
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const pair = ringAspects[selectedIndex] ?? ringAspects[0]
+
+  const pairAspects = useMemo(() => {
+    if (!pair) return []
+    if (!aspects) return pair.aspects
+    const visible = new Set(aspects)
+    return pair.aspects.filter((aspect) => visible.has(aspect))
+  }, [pair, aspects])
+
+  if (!pair) return null
+
+  return (
+    <div className={cn('flex flex-col gap-4', className)}>
+      <div className="flex flex-wrap gap-2 px-4" role="group" aria-label="Ring pair">
+        {ringAspects.map((ringPair, index) => (
+          <Button
+            key={`${ringPair.inner}-${ringPair.outer}`}
+            size="sm"
+            variant={ringPair === pair ? 'default' : 'outline'}
+            aria-pressed={ringPair === pair}
+            onClick={() => setSelectedIndex(index)}
+          >
+            {getRingPairLabel(rings, ringPair)}
+          </Button>
+        ))}
+      </div>
+      <AspectGrid
+        aspects={pairAspects}
+        type="double"
+        activePoints={activePoints}
+        rowLabel={rings[pair.inner]?.label}
+        colLabel={rings[pair.outer]?.label}
+        rowSubject={rings[pair.inner]?.subject}
+        colSubject={rings[pair.outer]?.subject}
+      />
+    </div>
+  )
+}
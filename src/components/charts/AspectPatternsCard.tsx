@@ -0,0 +1,94 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Shapes } from 'lucide-react'
+import type { Aspect, EnrichedSubjectModel } from '@/types/astrology'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils/cn'
+import { formatPlanetName } from '@/lib/astrology/planet-formatting'
+import { ASPECT_PATTERN_COLORS, findAspectPatterns, getPatternPoints } from '@/lib/astrology/aspect-patterns'
+import { renderChartWheelSvg } from '@/lib/chart/wheel'
+
+interface AspectPatternsCardProps {
+  subject: EnrichedSubjectModel
+  aspects: Aspect[]
+  /** Wheel legend label, e.g. "Natal" or "Composite" */
+  label?: string
+}
+
+/**
+ * Aspect patterns of a single chart: a wheel with the patterns drawn as
+ * highlighted shapes, next to a list that picks the pattern to highlight.
+ */
+export function AspectPatternsCard({ subject, aspects, label = 'Natal' }: AspectPatternsCardProps) {
+  const [selected, setSelected] = useState<number | null>(null)
+
+  const patterns = useMemo(() => findAspectPatterns(aspects, getPatternPoints(subject)), [aspects, subject])
+  const selectedPattern = selected !== null ? patterns[selected] : undefined
+
+  const wheel = useMemo(
+    () =>
+      renderChartWheelSvg({
+        rings: [{ subject, label }],
+        aspects,
+        patterns: selectedPattern ? [selectedPattern] : patterns,
+      }),
+    [subject, label, aspects, patterns, selectedPattern],
+  )
+
+  if (patterns.length === 0) return null
+
+  return (
+    <div className="relative mb-6">
+      <div className="absolute -top-3 left-4 px-2 bg-background text-sm text-muted-foreground z-10 flex items-center gap-2">
+        <Shapes className="h-4 w-4" /> Aspect Patterns
+      </div>
+      <Card className="shadow-sm overflow-hidden">
+        <CardContent className="pt-6 flex flex-col md:flex-row gap-6 items-center md:items-start">
+          <div
+            className="w-full max-w-[320px] shrink-0 [&>svg]:h-auto [&>svg]:w-full"
+            dangerouslySetInnerHTML={{ __html: wheel }}
+          />
+          <ul className="flex-1 w-full space-y-2">
+            {patterns.map((pattern, index) => (
+              <li key={`${pattern.type}-${pattern.points.join('-')}`}>
+                <button
+                  type="button"
+                  onClick={() => setSelected(selected === index ? null : index)}
+                  aria-pressed={selected === index}
+                  className={cn(
+                    'w-full rounded-md border p-3 text-left transition-colors hover:bg-muted/50',
+                    selected === index && 'bg-muted',
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    <span
+                      className="h-3 w-3 rounded-full shrink-0"
+                      style={{ backgroundColor: ASPECT_PATTERN_COLORS[pattern.type] }}
+                    />
+                    <span className="text-sm font-semibold">{pattern.label}</span>
+                    <Badge variant="outline" className="ml-auto capitalize">
+                      {pattern.tightness}
+                    </Badge>
+                  </div>
+                  <p className="text-sm mt-1">
+                    {pattern.points.map(formatPlanetName).join(', ')}
+                    {pattern.apex && (
+                      <span className="text-muted-foreground"> · apex {formatPlanetName(pattern.apex)}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {[pattern.element, pattern.modality].filter(Boolean).join(' · ') || 'Mixed elements'}
+                    {' · '}
+                    {pattern.type === 'stellium' ? 'span' : 'mean orb'} {pattern.orb.toFixed(1)}°
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,248 @@
+'use client'
+
+import { useMemo, type MouseEvent } from 'react'
+
+import { cn } from '@/lib/utils/cn'
+import { getPlanetIcon, getPointColor } from '@/lib/astrology/celestial-points'
+import {
+  formatAcgLineLabel,
+  type AcgAngle,
+  type AstrocartographyData,
+  type GeoLocation,
+  type LonLat,
+} from '@/lib/astrology/astrocartography'
+import { getLandmassRing, LANDMASSES } from '@/lib/geo/coastlines'
+import type { WorldCity } from '@/lib/geo/world-cities'
+
+/** Lines shown on the map: the four angles, parans and local space lines */
+export type AcgLayer = AcgAngle | 'paran' | 'local-space'
+
+interface AstrocartographyMapProps {
+  data: AstrocartographyData
+  layers: AcgLayer[]
+  birthPlace: GeoLocation
+  cities: WorldCity[]
+  selected?: GeoLocation | null
+  /** Lines drawn thicker, e.g. the ones within orb of the selected place */
+  highlighted?: Set<string>
+  onSelectLocation: (location: GeoLocation) => void
+  onSelectCity: (city: WorldCity) => void
+  className?: string
+}
+
+/** Northernmost and southernmost latitudes shown */
+const MAP_TOP = 80
+const MAP_BOTTOM = -65
+
+const GRATICULE_STEP = 30
+
+/** Dashes of the lines where a point sets or anti-culminates */
+const DASHED_ANGLES: AcgAngle[] = ['IC', 'DSC']
+
+// Equirectangular projection in viewBox units: one unit per degree
+const toX = (longitude: number) => longitude + 180
+const toY = (latitude: number) => 90 - latitude
+
+function toPoints(line: LonLat[]): string {
+  return line.map(([longitude, latitude]) => `${toX(longitude).toFixed(2)},${toY(latitude).toFixed(2)}`).join(' ')
+}
+
+/**
+ * Vertex where a line's label goes: the one nearest the given latitude.
+ * ASC and DSC labels sit lower than MC and IC labels so they do not overlap.
+ */
+function getLabelAnchor(segments: LonLat[][], latitude: number): LonLat | undefined {
+  let best: LonLat | undefined
+  for (const vertex of segments.flat()) {
+    if (!best || Math.abs(vertex[1] - latitude) < Math.abs(best[1] - latitude)) best = vertex
+  }
+  return best
+}
+
+/**
+ * World map with the astrocartography lines of a chart, drawn from the bundled coastlines.
+ * Clicking the map or a city selects a place.
+ */
+export function AstrocartographyMap({
+  data,
+  layers,
+  birthPlace,
+  cities,
+  selected,
+  highlighted,
+  onSelectLocation,
+  onSelectCity,
+  className,
+}: AstrocartographyMapProps) {
+  const landmasses = useMemo(() => LANDMASSES.map((landmass) => toPoints(getLandmassRing(landmass))), [])
+  const angleLines = data.angleLines.filter((line) => layers.includes(line.angle))
+  const showParans = layers.includes('paran')
+  const showLocalSpace = layers.includes('local-space')
+
+  const handleClick = (event: MouseEvent<SVGSVGElement>) => {
+    const svg = event.currentTarget
+    const matrix = svg.getScreenCTM()
+    if (!matrix) return
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse())
+    const latitude = 90 - point.y
+    const longitude = point.x - 180
+    if (latitude > MAP_TOP || latitude < MAP_BOTTOM || longitude < -180 || longitude > 180) return
+    onSelectLocation({ latitude: Math.round(latitude * 1e4) / 1e4, longitude: Math.round(longitude * 1e4) / 1e4 })
+  }
+
+  const strokeWidth = (id: string) => (highlighted?.has(id) ? 2.5 : 1.25)
+
+  return (
+    <svg
+      viewBox={`0 ${toY(MAP_TOP)} 360 ${MAP_TOP - MAP_BOTTOM}`}
+      className={cn('w-full cursor-crosshair select-none rounded-md border bg-sky-50 dark:bg-slate-900', className)}
+      role="img"
+      aria-label="Astrocartography map"
+      onClick={handleClick}
+    >
+      {/* Graticule */}
+      <g className="stroke-border" strokeWidth={0.5} vectorEffect="non-scaling-stroke">
+        {Array.from({ length: 360 / GRATICULE_STEP - 1 }, (_, i) => toX(-180 + (i + 1) * GRATICULE_STEP)).map((x) => (
+          <line
+            key={`lon-${x}`}
+            x1={x}
+            x2={x}
+            y1={toY(MAP_TOP)}
+            y2={toY(MAP_BOTTOM)}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {[60, 30, 0, -30, -60].map((latitude) => (
+          <line
+            key={`lat-${latitude}`}
+            x1={0}
+            x2={360}
+            y1={toY(latitude)}
+            y2={toY(latitude)}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </g>
+
+      {/* Land */}
+      <g className="fill-stone-200 stroke-stone-400 dark:fill-slate-700 dark:stroke-slate-500">
+        {landmasses.map((points, index) => (
+          <polygon key={LANDMASSES[index]!.name} points={points} strokeWidth={0.5} vectorEffect="non-scaling-stroke" />
+        ))}
+      </g>
+
+      {/* Local space lines */}
+      {showLocalSpace &&
+        data.localSpaceLines.map((line) => (
+          <g key={line.id} stroke={getPointColor(line.point).stroke} fill="none">
+            <title>{formatAcgLineLabel({ kind: 'local-space', points: [{ point: line.point }] })}</title>
+            {line.segments.map((segment, index) => (
+              <polyline
+                key={index}
+                points={toPoints(segment)}
+                strokeWidth={strokeWidth(line.id)}
+                strokeDasharray="1 3"
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </g>
+        ))}
+
+      {/* Parans */}
+      {showParans &&
+        data.parans
+          .filter((paran) => paran.latitude <= MAP_TOP && paran.latitude >= MAP_BOTTOM)
+          .map((paran) => (
+            <line
+              key={paran.id}
+              x1={0}
+              x2={360}
+              y1={toY(paran.latitude)}
+              y2={toY(paran.latitude)}
+              stroke={getPointColor(paran.points[0].point).stroke}
+              strokeWidth={highlighted?.has(paran.id) ? 1.5 : 0.75}
+              strokeDasharray="4 4"
+              strokeOpacity={0.7}
+              vectorEffect="non-scaling-stroke"
+            >
+              <title>
+                {formatAcgLineLabel({ kind: 'paran', points: paran.points })} at {paran.latitude.toFixed(1)}°
+              </title>
+            </line>
+          ))}
+
+      {/* Angle lines */}
+      {angleLines.map((line) => {
+        const color = getPointColor(line.point).stroke
+        const anchor = getLabelAnchor(line.segments, line.angle === 'MC' || line.angle === 'IC' ? 70 : 50)
+        return (
+          <g key={line.id} stroke={color} fill="none">
+            <title>{formatAcgLineLabel({ kind: 'angle', points: [{ point: line.point, angle: line.angle }] })}</title>
+            {line.segments.map((segment, index) => (
+              <polyline
+                key={index}
+                points={toPoints(segment)}
+                strokeWidth={strokeWidth(line.id)}
+                strokeDasharray={DASHED_ANGLES.includes(line.angle) ? '6 3' : undefined}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+            {anchor && (
+              <text
+                x={toX(anchor[0]) + 1}
+                y={toY(anchor[1])}
+                fill={color}
+                stroke="none"
+                fontSize={3.5}
+                aria-hidden="true"
+              >
+                {getPlanetIcon(line.point)} {line.angle}
+              </text>
+            )}
+          </g>
+        )
+      })}
+
+      {/* Cities */}
+      <g className="fill-foreground">
+        {cities.map((city) => (
+          <circle
+            key={`${city.name}-${city.nation}`}
+            cx={toX(city.longitude)}
+            cy={toY(city.latitude)}
+            r={0.9}
+            className="cursor-pointer opacity-70 hover:opacity-100"
+            onClick={(event) => {
+              event.stopPropagation()
+              onSelectCity(city)
+            }}
+          >
+            <title>{city.name}</title>
+          </circle>
+        ))}
+      </g>
+
+      {/* Birthplace */}
+      <circle
+        cx={toX(birthPlace.longitude)}
+        cy={toY(birthPlace.latitude)}
+        r={1.6}
+        className="fill-primary stroke-background"
+        strokeWidth={1}
+        vectorEffect="non-scaling-stroke"
+      >
+        <title>Birthplace</title>
+      </circle>
+
+      {/* Selected place */}
+      {selected && (
+        <g className="stroke-destructive" fill="none" strokeWidth={2} vectorEffect="non-scaling-stroke">
+          <circle cx={toX(selected.longitude)} cy={toY(selected.latitude)} r={2.2} vectorEffect="non-scaling-stroke" />
+          <title>
+            Selected place: {selected.latitude.toFixed(2)}°, {selected.longitude.toFixed(2)}°
+          </title>
+        </g>
+      )}
+    </svg>
+  )
+}
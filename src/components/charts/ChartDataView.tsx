@@ -12,6 +12,9 @@ import { ChartHighlights } from './ChartHighlights'
 import { KeyAspectsSection } from './KeyAspectsSection'
 import { LunarPhaseCard } from './LunarPhaseCard'
 import { CompatibilityScoreCard } from './CompatibilityScoreCard'
+import { TraditionalTechniquesCard } from './TraditionalTechniquesCard'
+import { FixedStarsCard } from './FixedStarsCard'
+import { VargaChartsCard } from './VargaChartsCard'
 import { getRelevantAspects, normalizeChartType } from '@/lib/astrology/chart-highlights'
 import { processChartData, getLunarPhaseData, CHART_THEME_COLORS, getSubjectPoint } from '@/lib/astrology/chart-data'
 import { Flame, Sparkles, Globe, Moon } from 'lucide-react'
@@ -547,6 +550,21 @@ export function ChartDataView({
         </Card>
       </div>
 
+      {/* Traditional techniques for single natal charts */}
+      {!secondaryData && normalizeChartType(processed.effectiveChartType) === 'natal' && chart_data.subject && (
+        <TraditionalTechniquesCard subject={chart_data.subject} />
+      )}
+
+      {/* Fixed-star conjunctions and parans for single natal charts */}
+      {!secondaryData && normalizeChartType(processed.effectiveChartType) === 'natal' && chart_data.subject && (
+        <FixedStarsCard subject={chart_data.subject} />
+      )}
+
+      {/* Nakshatras and divisional charts for single natal charts */}
+      {!secondaryData && normalizeChartType(processed.effectiveChartType) === 'natal' && chart_data.subject && (
+        <VargaChartsCard subject={chart_data.subject} />
+      )}
+
       {/* House Comparison for dual charts (excluding transits - house data for transits is in Planetary Positions) */}
       {houseComparison && processed.effectiveChartType !== 'transit' && (
         <HouseComparisonCard houseComparison={houseComparison} />
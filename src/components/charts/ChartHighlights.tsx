@@ -33,6 +33,7 @@ import {
   getCompositeHighlights,
   getReturnHighlights,
 } from './chartHighlightsContent'
+import { AspectPatternsCard } from './AspectPatternsCard'
 
 // ============================================================================
 // PROPS
@@ -125,29 +126,40 @@ export function ChartHighlights({ data, secondaryData, chartType, houseCompariso
 
   if (items.length === 0) return null
 
+  const showPatterns = normalizedType === 'natal' || normalizedType === 'composite'
+
   return (
-    <div className="relative mb-6">
-      <div className="absolute -top-3 left-4 px-2 bg-background text-sm text-muted-foreground z-10 flex items-center gap-2">
-        <Star className="h-4 w-4" /> Chart Highlights
-      </div>
-      <Card className="shadow-sm overflow-hidden">
-        <CardContent className="p-0 pt-4">
-          <div className="flex flex-col md:flex-row md:justify-center md:flex-wrap gap-4">
-            {items.map((item, idx) => (
-              <div key={idx} className="flex flex-col items-center justify-center p-4 gap-2 md:min-w-[200px]">
-                <div className="flex items-center gap-2 text-muted-foreground text-xs font-medium uppercase tracking-wider">
-                  {item.icon}
-                  <span>{item.label}</span>
+    <>
+      <div className="relative mb-6">
+        <div className="absolute -top-3 left-4 px-2 bg-background text-sm text-muted-foreground z-10 flex items-center gap-2">
+          <Star className="h-4 w-4" /> Chart Highlights
+        </div>
+        <Card className="shadow-sm overflow-hidden">
+          <CardContent className="p-0 pt-4">
+            <div className="flex flex-col md:flex-row md:justify-center md:flex-wrap gap-4">
+              {items.map((item, idx) => (
+                <div key={idx} className="flex flex-col items-center justify-center p-4 gap-2 md:min-w-[200px]">
+                  <div className="flex items-center gap-2 text-muted-foreground text-xs font-medium uppercase tracking-wider">
+                    {item.icon}
+                    <span>{item.label}</span>
+                  </div>
+                  <div className="text-center">
+                    <span className="text-sm font-semibold block">{item.value}</span>
+                    {item.detail && <span className="text-xs text-muted-foreground block mt-1">{item.detail}</span>}
+                  </div>
                 </div>
-                <div className="text-center">
-                  <span className="text-sm font-semibold block">{item.value}</span>
-                  {item.detail && <span className="text-xs text-muted-foreground block mt-1">{item.detail}</span>}
-                </div>
-              </div>
-            ))}
-          </div>
-        </CardContent>
-      </Card>
-    </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+      {showPatterns && (
+        <AspectPatternsCard
+          subject={effectiveSubject}
+          aspects={aspects}
+          label={normalizedType === 'composite' ? 'Composite' : 'Natal'}
+        />
+      )}
+    </>
   )
 }
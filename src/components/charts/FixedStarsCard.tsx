@@ -0,0 +1,208 @@
+'use client'
+
+import { useMemo } from 'react'
+import { Star } from 'lucide-react'
+import type { EnrichedSubjectModel } from '@/types/astrology'
+import { Card, CardContent } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { cn } from '@/lib/utils/cn'
+import { useFixedStarSettings } from '@/stores/fixedStarSettings'
+import { formatPlanetName } from '@/lib/astrology/planet-formatting'
+import {
+  analyzeFixedStars,
+  FIXED_STARS,
+  PARAN_ANGLE_LABELS,
+  STAR_MAGNITUDE_LABELS,
+  type StarMagnitudeClass,
+} from '@/lib/astrology/fixed-stars'
+import { renderChartWheelSvg } from '@/lib/chart/wheel'
+
+interface FixedStarsCardProps {
+  subject: EnrichedSubjectModel
+}
+
+const ORB_CHOICES = [0.5, 1, 1.5, 2, 2.5, 3]
+const PARAN_ORB_CHOICES = [2, 4, 6, 8]
+const MAGNITUDE_CLASSES: StarMagnitudeClass[] = ['first', 'second', 'third']
+
+function formatOrb(orb: number): string {
+  return `${Math.floor(orb)}° ${Math.floor((orb % 1) * 60)}'`
+}
+
+function formatLatitude(latitude: number): string {
+  return `${Math.abs(latitude).toFixed(1)}°${latitude >= 0 ? 'N' : 'S'}`
+}
+
+const HEADER_CELL =
+  'h-10 px-2 sm:px-4 text-left align-middle font-medium text-muted-foreground text-xs uppercase tracking-wide'
+const CELL = 'p-2 sm:px-4 align-middle'
+
+/**
+ * Fixed stars of a single chart: conjunctions to natal points and angles,
+ * parans at the birth latitude and, optionally, a wheel with the conjunct stars.
+ */
+export function FixedStarsCard({ subject }: FixedStarsCardProps) {
+  const { orbs, paranOrb, showOnWheel, setOrb, setParanOrb, setShowOnWheel } = useFixedStarSettings()
+
+  const analysis = useMemo(() => analyzeFixedStars(subject, { orbs, paranOrb }), [subject, orbs, paranOrb])
+
+  const wheel = useMemo(() => {
+    if (!showOnWheel || !analysis) return ''
+    const stars = new Map(
+      analysis.conjunctions.map((conjunction) => [
+        conjunction.star.name,
+        { name: conjunction.star.name, longitude: conjunction.starLongitude },
+      ]),
+    )
+    return renderChartWheelSvg({ rings: [{ subject, label: 'Natal' }], stars: [...stars.values()] })
+  }, [showOnWheel, analysis, subject])
+
+  if (!analysis) return null
+
+  return (
+    <div className="relative w-full">
+      <div className="absolute -top-3 left-4 px-2 bg-background text-sm text-muted-foreground z-10 flex items-center gap-2">
+        <Star className="h-4 w-4" />
+        Fixed Stars
+      </div>
+      <Card className="shadow-sm">
+        <CardContent className="pt-6 space-y-6">
+          {/* Orbs and wheel */}
+          <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+            <p className="text-sm text-muted-foreground flex-1">
+              {FIXED_STARS.length} stars
+              {analysis.latitude !== null && ` · parans at ${formatLatitude(analysis.latitude)}`}
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              {MAGNITUDE_CLASSES.map((magnitudeClass) => (
+                <Select
+                  key={magnitudeClass}
+                  value={String(orbs[magnitudeClass])}
+                  onValueChange={(value) => setOrb(magnitudeClass, Number(value))}
+                >
+                  <SelectTrigger size="sm" aria-label={`Orb for ${STAR_MAGNITUDE_LABELS[magnitudeClass]}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ORB_CHOICES.map((orb) => (
+                      <SelectItem key={orb} value={String(orb)}>
+                        {STAR_MAGNITUDE_LABELS[magnitudeClass]}: {orb}°
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ))}
+              <Select value={String(paranOrb)} onValueChange={(value) => setParanOrb(Number(value))}>
+                <SelectTrigger size="sm" aria-label="Paran orb">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PARAN_ORB_CHOICES.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      Parans: {minutes} min
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Switch id="fixed-stars-wheel" checked={showOnWheel} onCheckedChange={setShowOnWheel} />
+                <Label htmlFor="fixed-stars-wheel" className="text-sm">
+                  Show on wheel
+                </Label>
+              </div>
+            </div>
+          </div>
+
+          {wheel && (
+            <div
+              className="mx-auto max-w-[480px] [&>svg]:h-auto [&>svg]:w-full"
+              role="img"
+              aria-label="Natal wheel with conjunct fixed stars"
+              dangerouslySetInnerHTML={{ __html: wheel }}
+            />
+          )}
+
+          <div className="grid gap-6 xl:grid-cols-2">
+            {/* Conjunctions */}
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Conjunctions</h4>
+              {analysis.conjunctions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No stars within orb of a natal point</p>
+              ) : (
+                <div className="relative w-full overflow-x-auto">
+                  <table className="w-full min-w-[520px] text-sm">
+                    <thead className="[&_tr]:border-b">
+                      <tr>
+                        <th className={HEADER_CELL}>Star</th>
+                        <th className={HEADER_CELL}>Point</th>
+                        <th className={HEADER_CELL}>Orb</th>
+                        <th className={HEADER_CELL}>Mag.</th>
+                        <th className={HEADER_CELL}>Nature</th>
+                      </tr>
+                    </thead>
+                    <tbody className="[&_tr:last-child]:border-0">
+                      {analysis.conjunctions.map((conjunction) => (
+                        <tr
+                          key={`${conjunction.star.name}-${conjunction.point}`}
+                          className="border-b transition-colors hover:bg-muted/50"
+                        >
+                          <td className={cn(CELL, 'font-medium')}>
+                            {conjunction.star.name}
+                            <span className="ml-1 text-xs text-muted-foreground">{conjunction.star.designation}</span>
+                          </td>
+                          <td className={CELL}>{formatPlanetName(conjunction.point)}</td>
+                          <td className={cn(CELL, 'tabular-nums')}>{formatOrb(conjunction.orb)}</td>
+                          <td className={cn(CELL, 'tabular-nums')}>{conjunction.star.magnitude.toFixed(2)}</td>
+                          <td className={CELL}>{conjunction.star.nature}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            {/* Parans */}
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Parans</h4>
+              {analysis.latitude === null ? (
+                <p className="text-sm text-muted-foreground">The birth latitude is needed for parans</p>
+              ) : analysis.parans.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No parans within orb</p>
+              ) : (
+                <div className="relative w-full overflow-x-auto">
+                  <table className="w-full min-w-[480px] text-sm">
+                    <thead className="[&_tr]:border-b">
+                      <tr>
+                        <th className={HEADER_CELL}>Star</th>
+                        <th className={HEADER_CELL}>Planet</th>
+                        <th className={cn(HEADER_CELL, 'text-right')}>Orb</th>
+                      </tr>
+                    </thead>
+                    <tbody className="[&_tr:last-child]:border-0">
+                      {analysis.parans.map((paran) => (
+                        <tr key={paran.id} className="border-b transition-colors hover:bg-muted/50">
+                          <td className={CELL}>
+                            <span className="font-medium">{paran.star.name}</span>{' '}
+                            <span className="text-muted-foreground">{PARAN_ANGLE_LABELS[paran.starAngle]}</span>
+                          </td>
+                          <td className={CELL}>
+                            {formatPlanetName(paran.point)}{' '}
+                            <span className="text-muted-foreground">{PARAN_ANGLE_LABELS[paran.pointAngle]}</span>
+                          </td>
+                          <td className={cn(CELL, 'text-right tabular-nums')}>{paran.orb.toFixed(1)} min</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+'use client'
+
+import { useMemo } from 'react'
+import { Scale } from 'lucide-react'
+import type { EnrichedSubjectModel } from '@/types/astrology'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils/cn'
+import { formatPlanetName } from '@/lib/astrology/planet-formatting'
+import { analyzeHorary, type HoraryQuestion, type HorarySignificator } from '@/lib/astrology/horary'
+
+interface HoraryJudgementCardProps {
+  subject: EnrichedSubjectModel
+  question: HoraryQuestion
+}
+
+function formatOrb(orb: number): string {
+  return `${Math.floor(orb)}° ${Math.floor((orb % 1) * 60)}'`
+}
+
+function formatDays(days: number): string {
+  return days < 1 ? `${Math.max(1, Math.round(days * 24))} h` : `${days.toFixed(1)} d`
+}
+
+function describeSignificator(significator: HorarySignificator): string {
+  const placement = significator.inHouse ? `, in house ${significator.inHouse}` : ''
+  return `${formatPlanetName(significator.planet)} (ruler of house ${significator.house}, ${significator.cuspSign} on the cusp${placement})`
+}
+
+const HEADER_CELL =
+  'h-10 px-2 sm:px-4 text-left align-middle font-medium text-muted-foreground text-xs uppercase tracking-wide'
+const CELL = 'p-2 sm:px-4 align-middle'
+
+/**
+ * Horary judgement aid: considerations before judgement, the aspects of the
+ * significators and the Moon, and the ways the matter perfects or is prevented.
+ */
+export function HoraryJudgementCard({ subject, question }: HoraryJudgementCardProps) {
+  const analysis = useMemo(() => analyzeHorary(subject, question), [subject, question])
+
+  const aspects = useMemo(() => {
+    if (!analysis) return []
+    const significators = new Set([analysis.querent.planet, analysis.quesited.planet, 'Moon'])
+    return analysis.aspects.filter((aspect) => aspect.planets.some((planet) => significators.has(planet)))
+  }, [analysis])
+
+  if (!analysis) return null
+
+  const { judgement } = analysis
+
+  return (
+    <div className="relative w-full">
+      <div className="absolute -top-3 left-4 px-2 bg-background text-sm text-muted-foreground z-10 flex items-center gap-2">
+        <Scale className="h-4 w-4" />
+        Horary Judgement
+      </div>
+      <Card className="shadow-sm">
+        <CardContent className="pt-6 space-y-6">
+          {/* Question and significators */}
+          <div className="space-y-1">
+            {question.question && <p className="font-medium">“{question.question}”</p>}
+            <p className="text-sm text-muted-foreground">Querent: {describeSignificator(analysis.querent)}</p>
+            <p className="text-sm text-muted-foreground">Quesited: {describeSignificator(analysis.quesited)}</p>
+          </div>
+
+          {/* Considerations before judgement */}
+          <div>
+            <h4 className="text-sm font-semibold mb-2">Considerations before judgement</h4>
+            <div className="flex flex-wrap gap-2">
+              {analysis.considerations.map((consideration) => (
+                <Badge
+                  key={consideration.id}
+                  variant={consideration.present ? 'destructive' : 'outline'}
+                  title={consideration.detail}
+                  className={cn(!consideration.present && 'text-muted-foreground')}
+                >
+                  {consideration.label}
+                </Badge>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-muted-foreground">
+              {judgement.radical
+                ? 'No consideration applies: the chart is radical and fit to be judged.'
+                : 'Highlighted considerations caution against judging the chart at face value.'}
+            </p>
+          </div>
+
+          <div className="grid gap-6 xl:grid-cols-2">
+            {/* Judgement aid */}
+            <div>
+              <h4 className="text-sm font-semibold mb-2 flex items-center gap-2">
+                Judgement aid
+                <Badge variant={judgement.leaning === 'yes' ? 'default' : 'secondary'}>
+                  {judgement.leaning === 'yes' ? 'Perfects' : 'Does not perfect'}
+                </Badge>
+              </h4>
+              <ul className="list-disc pl-5 space-y-1 text-sm">
+                {judgement.testimonies.map((testimony) => (
+                  <li key={testimony}>{testimony}</li>
+                ))}
+              </ul>
+            </div>
+
+            {/* Aspects of the significators */}
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Aspects of the significators and the Moon</h4>
+              {aspects.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No applying or separating aspects</p>
+              ) : (
+                <div className="relative w-full overflow-x-auto">
+                  <table className="w-full min-w-[420px] text-sm">
+                    <thead className="[&_tr]:border-b">
+                      <tr>
+                        <th className={HEADER_CELL}>Aspect</th>
+                        <th className={HEADER_CELL}>Orb</th>
+                        <th className={HEADER_CELL}>Motion</th>
+                      </tr>
+                    </thead>
+                    <tbody className="[&_tr:last-child]:border-0">
+                      {aspects.map((aspect) => (
+                        <tr
+                          key={`${aspect.planets.join('-')}-${aspect.aspect}-${aspect.applying}`}
+                          className="border-b transition-colors hover:bg-muted/50"
+                        >
+                          <td className={CELL}>
+                            {formatPlanetName(aspect.planets[0])} {aspect.aspect} {formatPlanetName(aspect.planets[1])}
+                          </td>
+                          <td className={cn(CELL, 'tabular-nums')}>{formatOrb(aspect.orb)}</td>
+                          <td className={cn(CELL, 'tabular-nums')}>
+                            {aspect.applying ? `Applying, ${formatDays(aspect.daysToPerfection!)}` : 'Separating'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
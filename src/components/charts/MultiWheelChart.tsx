@@ -0,0 +1,102 @@
+'use client'
+
+import { useMemo } from 'react'
+
+import type { Aspect, ChartResponse, ChartRing, ChartRingAspects } from '@/types/astrology'
+import { AspectTable } from './AspectTable'
+import { InterRingAspectGrid } from './AspectGrid'
+import { ChartTabContents } from './ChartTabs'
+import { ZoomableChart } from '@/components/ZoomableChart'
+import NatalPlanetPositionsCard from '@/components/NatalPlanetPositionsCard'
+import { getRingPairLabel } from '@/lib/astrology/multi-wheel'
+
+interface MultiWheelChartProps {
+  data: ChartResponse
+}
+
+interface RingPairAspectTablesProps {
+  rings: ChartRing[]
+  ringAspects: ChartRingAspects[]
+  /** Aspects left by the chart filters; all aspects when omitted */
+  aspects?: Aspect[]
+}
+
+/**
+ * One aspect table per ring pair, skipping pairs without aspects
+ */
+function RingPairAspectTables({ rings, ringAspects, aspects }: RingPairAspectTablesProps) {
+  const visible = useMemo(() => (aspects ? new Set(aspects) : null), [aspects])
+
+  return (
+    <div className="mx-auto flex w-full max-w-8xl flex-col gap-6">
+      {ringAspects.map((pair) => {
+        const pairAspects = visible ? pair.aspects.filter((aspect) => visible.has(aspect)) : pair.aspects
+        if (pairAspects.length === 0) return null
+        return (
+          <section key={`${pair.inner}-${pair.outer}`} className="flex flex-col gap-2">
+            <h3 className="text-sm font-semibold">{getRingPairLabel(rings, pair)}</h3>
+            <AspectTable
+              aspects={pairAspects}
+              p1Label={rings[pair.inner]?.label}
+              p2Label={rings[pair.outer]?.label}
+              hideMovement
+            />
+          </section>
+        )
+      })}
+    </div>
+  )
+}
+
+/**
+ * Multi-wheel chart: the wheel with every ring, the points of each ring and
+ * aspect grids between every pair of rings
+ */
+export function MultiWheelChart({ data }: MultiWheelChartProps) {
+  const { chart_data, chart_wheel } = data
+  const rings = useMemo(() => chart_data.rings ?? [], [chart_data.rings])
+  const ringAspects = useMemo(() => chart_data.ring_aspects ?? [], [chart_data.ring_aspects])
+  const allAspects = useMemo(() => ringAspects.flatMap((pair) => pair.aspects), [ringAspects])
+
+  const chartContent = (
+    <div className="flex flex-col gap-6">
+      {chart_wheel ? (
+        <section className="mx-auto aspect-square w-full max-w-2xl">
+          <ZoomableChart html={chart_wheel} className="relative flex h-full w-full items-center justify-center" />
+        </section>
+      ) : null}
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
+        {rings.map((ring, index) => (
+          <NatalPlanetPositionsCard
+            key={`${index}-${ring.label}`}
+            subject={ring.subject}
+            className="h-fit w-full"
+            title={`${ring.label} Points`}
+          />
+        ))}
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="flex flex-col gap-4">
+      <ChartTabContents
+        chartContent={chartContent}
+        aspectsContent={<RingPairAspectTables rings={rings} ringAspects={ringAspects} />}
+        gridContent={
+          <InterRingAspectGrid
+            rings={rings}
+            ringAspects={ringAspects}
+            activePoints={chart_data.active_points}
+            className="mx-auto w-full max-w-8xl"
+          />
+        }
+        aspects={allAspects}
+        activePoints={chart_data.active_points}
+        aspectFilterType="double"
+        primaryFilterLabel="Inner Ring Planets"
+        secondaryFilterLabel="Outer Ring Planets"
+      />
+    </div>
+  )
+}
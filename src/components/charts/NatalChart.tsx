@@ -19,6 +19,10 @@ import { NotesPanel } from '@/components/NotesPanel'
 import { SubjectNotesPanel } from '@/components/SubjectNotesPanel'
 import { useAIGeneration } from '@/hooks/useAIGeneration'
 import { generateChartId } from '@/lib/cache/interpretations'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { calculateVargaChart } from '@/lib/astrology/vedic'
+import { renderIndianChartSvg } from '@/lib/chart/indian-chart'
+import type { HoraryQuestion } from '@/lib/astrology/horary'
 
 interface NatalChartProps {
   data: ChartResponse
@@ -35,6 +39,8 @@ interface NatalChartProps {
   isDataStale?: boolean
   /** Label describing what the stale notes were generated for */
   staleDataLabel?: string
+  /** Question of a horary chart, sent along for AI interpretation */
+  horary?: HoraryQuestion
 }
 
 const LEFT_COLUMN_ID = 'natal-chart-left-column'
@@ -53,6 +59,7 @@ export function NatalChart({
   dateLabel,
   isDataStale = false,
   staleDataLabel,
+  horary,
 }: NatalChartProps) {
   const { chart_wheel, chart_grid, chart, chart_data } = data
   const { generateInterpretation } = useAIGeneration()
@@ -76,8 +83,18 @@ export function NatalChart({
     return generateChartId(chartType, subjectName, subjectDate)
   }, [chartTypeOverride, activeSubject])
 
+  const { preferences } = useChartPreferences()
+  const chartLayout = preferences.chart_layout
+
+  // A square Indian Rasi chart replaces the wheel when it is the preferred layout
+  const indianChart = useMemo(() => {
+    if (chartLayout === 'western' || !activeSubject) return null
+    const rasi = calculateVargaChart(activeSubject, 1)
+    return rasi ? renderIndianChartSvg({ chart: rasi, layout: chartLayout }) : null
+  }, [chartLayout, activeSubject])
+
   // Fallback to full chart if split chart is not available
-  const mainChart = chart_wheel || chart
+  const mainChart = indianChart || chart_wheel || chart
 
   const renderCard = (id: string) => {
     switch (id) {
@@ -123,7 +140,7 @@ export function NatalChart({
 
   const handleGenerateAI = async (onStreamUpdate?: (text: string) => void, signal?: AbortSignal) => {
     const chartType = chartTypeOverride || 'natal'
-    return generateInterpretation({ chartData: data.chart_data, chartType }, onStreamUpdate, signal)
+    return generateInterpretation({ chartData: data.chart_data, chartType, horary }, onStreamUpdate, signal)
   }
 
   const chartContent = (
@@ -39,6 +39,13 @@ interface SynastryChartProps {
 const LEFT_COLUMN_ID = 'synastry-left-column'
 const RIGHT_COLUMN_ID = 'synastry-right-column'
 
+/** Outer wheel labels for charts derived from the natal chart by symbolic time */
+const PROGRESSED_CHART_LABELS: Record<string, string> = {
+  progressions: 'Progressed',
+  'solar-arc': 'Solar Arc',
+  'progressed-lunation': 'Progressed',
+}
+
 const DEFAULT_LEFT_ITEMS = ['subject1-details-card', 'subject1-planets-card']
 const DEFAULT_RIGHT_ITEMS = ['subject2-details-card', 'subject2-planets-card', 'synastry-aspects-card']
 
@@ -88,6 +95,11 @@ export function SynastryChart({
   const mainChart = chart_wheel || data.chart
 
   const isReturnChart = chartTypeOverride?.includes('return') || false
+  // Return and progressed charts compare the natal chart with a derived one, not two people
+  const derivedLabel = isReturnChart ? 'Return' : PROGRESSED_CHART_LABELS[chartTypeOverride ?? '']
+  const isDerivedChart = derivedLabel !== undefined
+  const primaryLabel = isDerivedChart ? 'Natal' : (subject1?.name ?? 'Subject 1')
+  const secondaryLabel = derivedLabel ?? subject2?.name ?? 'Subject 2'
 
   const renderCard = (id: string) => {
     switch (id) {
@@ -157,8 +169,8 @@ export function SynastryChart({
             id={id}
             html={chart_grid}
             className="w-full"
-            rowLabel={isReturnChart ? 'Natal' : subject1?.name ?? 'Subject 1'}
-            colLabel={isReturnChart ? 'Return' : subject2?.name ?? 'Subject 2'}
+            rowLabel={primaryLabel}
+            colLabel={secondaryLabel}
           />
         ) : null
       default:
@@ -201,9 +213,9 @@ export function SynastryChart({
     <AspectTable
       aspects={chart_data.aspects}
       className="mx-auto w-full max-w-8xl"
-      p1Label={isReturnChart ? 'Natal' : subject1?.name ?? 'Subject 1'}
-      p2Label={isReturnChart ? 'Return' : subject2?.name ?? 'Subject 2'}
-      hideMovement={!isReturnChart}
+      p1Label={primaryLabel}
+      p2Label={secondaryLabel}
+      hideMovement={!isDerivedChart}
     />
   )
 
@@ -212,8 +224,8 @@ export function SynastryChart({
       <ChartDataView
         data={data}
         secondaryData={subject2Data}
-        primaryLabel={isReturnChart ? 'Natal' : subject1?.name ?? 'Subject 1'}
-        secondaryLabel={isReturnChart ? 'Return' : subject2?.name ?? 'Subject 2'}
+        primaryLabel={primaryLabel}
+        secondaryLabel={secondaryLabel}
         chartType={chartTypeOverride || 'synastry'}
       />
     </div>
@@ -239,8 +251,8 @@ export function SynastryChart({
       type="double"
       className="mx-auto w-full max-w-8xl"
       activePoints={chart_data.active_points}
-      rowLabel={isReturnChart ? 'Natal' : subject1?.name ?? 'Subject 1'}
-      colLabel={isReturnChart ? 'Return' : subject2?.name ?? 'Subject 2'}
+      rowLabel={primaryLabel}
+      colLabel={secondaryLabel}
       rowSubject={subject1}
       colSubject={subject2}
     />
@@ -257,8 +269,8 @@ export function SynastryChart({
         aspects={chart_data.aspects}
         activePoints={chart_data.active_points}
         aspectFilterType="double"
-        primaryFilterLabel={isReturnChart ? 'Natal Planets' : `${subject1?.name ?? 'Subject 1'} Planets`}
-        secondaryFilterLabel={isReturnChart ? 'Return Planets' : `${subject2?.name ?? 'Subject 2'} Planets`}
+        primaryFilterLabel={`${primaryLabel} Planets`}
+        secondaryFilterLabel={`${secondaryLabel} Planets`}
       />
     </div>
   )
@@ -0,0 +1,244 @@
+'use client'
+
+import { useMemo } from 'react'
+import { Landmark, Settings2 } from 'lucide-react'
+import type { EnrichedSubjectModel } from '@/types/astrology'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { cn } from '@/lib/utils/cn'
+import { useTraditionalSettings } from '@/stores/traditionalSettings'
+import {
+  analyzeTraditionalChart,
+  DEFAULT_TRADITIONAL_OPTIONS,
+  LOT_NAMES,
+  type PlanetDignity,
+  type TermScheme,
+  type TriplicityScheme,
+} from '@/lib/astrology/traditional'
+
+interface TraditionalTechniquesCardProps {
+  subject: EnrichedSubjectModel
+}
+
+function formatDegree(longitude: number): string {
+  const position = longitude % 30
+  return `${Math.floor(position)}° ${Math.floor((position % 1) * 60)}'`
+}
+
+/** Dignity and debility flags of a planet, strongest first */
+function getConditions(dignity: PlanetDignity): { label: string; debility: boolean }[] {
+  return [
+    { label: 'Domicile', active: dignity.domicile, debility: false },
+    { label: 'Exaltation', active: dignity.exaltation, debility: false },
+    { label: 'Triplicity', active: dignity.triplicity, debility: false },
+    { label: 'Term', active: dignity.term, debility: false },
+    { label: 'Face', active: dignity.face, debility: false },
+    { label: 'Detriment', active: dignity.detriment, debility: true },
+    { label: 'Fall', active: dignity.fall, debility: true },
+    { label: 'Peregrine', active: dignity.peregrine, debility: true },
+  ].filter((condition) => condition.active)
+}
+
+const HEADER_CELL =
+  'h-10 px-2 sm:px-4 text-left align-middle font-medium text-muted-foreground text-xs uppercase tracking-wide'
+const CELL = 'p-2 sm:px-4 align-middle'
+
+/**
+ * Traditional analysis of a single chart: essential dignities with their
+ * lords, sect, Almuten Figuris, receptions and Hellenistic lots.
+ */
+export function TraditionalTechniquesCard({ subject }: TraditionalTechniquesCardProps) {
+  const { triplicity, terms, lots, setTriplicity, setTerms, toggleLot } = useTraditionalSettings()
+
+  const analysis = useMemo(
+    () => analyzeTraditionalChart(subject, { triplicity, terms, lots }),
+    [subject, triplicity, terms, lots],
+  )
+
+  if (!analysis) return null
+
+  const mutualReceptions = analysis.receptions.filter(
+    (reception) => reception.mutual && reception.planet < reception.receiver,
+  )
+  const otherReceptions = analysis.receptions.filter((reception) => !reception.mutual)
+
+  return (
+    <div className="relative w-full">
+      <div className="absolute -top-3 left-4 px-2 bg-background text-sm text-muted-foreground z-10 flex items-center gap-2">
+        <Landmark className="h-4 w-4" />
+        Traditional Techniques
+      </div>
+      <Card className="shadow-sm">
+        <CardContent className="pt-6 space-y-6">
+          {/* Sect, Almuten and table settings */}
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <div className="flex flex-wrap gap-6 flex-1">
+              <div>
+                <div className="text-xs text-muted-foreground uppercase tracking-wide">Sect</div>
+                <div className="text-sm font-semibold">
+                  {analysis.isDayChart ? 'Day chart' : 'Night chart'} · {analysis.sectLight} is the sect light
+                </div>
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground uppercase tracking-wide">Almuten Figuris</div>
+                <div className="text-sm font-semibold">{analysis.almuten.planets.join(' / ')}</div>
+                <div className="text-xs text-muted-foreground">
+                  {analysis.almuten.places.map((place) => place.name).join(', ')}
+                </div>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Select value={triplicity} onValueChange={(value) => setTriplicity(value as TriplicityScheme)}>
+                <SelectTrigger size="sm" aria-label="Triplicity rulers">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="dorothean">Dorothean triplicities</SelectItem>
+                  <SelectItem value="lilly">Lilly triplicities</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={terms} onValueChange={(value) => setTerms(value as TermScheme)}>
+                <SelectTrigger size="sm" aria-label="Terms">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="egyptian">Egyptian terms</SelectItem>
+                  <SelectItem value="ptolemaic">Ptolemaic terms</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Essential dignities */}
+          <div className="relative w-full overflow-x-auto">
+            <table className="w-full min-w-[720px] text-sm">
+              <thead className="[&_tr]:border-b">
+                <tr>
+                  <th className={HEADER_CELL}>Planet</th>
+                  <th className={HEADER_CELL}>Position</th>
+                  <th className={HEADER_CELL}>Ruler</th>
+                  <th className={HEADER_CELL}>Exalt.</th>
+                  <th className={HEADER_CELL}>Triplicity</th>
+                  <th className={HEADER_CELL}>Term</th>
+                  <th className={HEADER_CELL}>Face</th>
+                  <th className={HEADER_CELL}>Condition</th>
+                  <th className={cn(HEADER_CELL, 'text-right')}>Score</th>
+                </tr>
+              </thead>
+              <tbody className="[&_tr:last-child]:border-0">
+                {analysis.dignities.map((dignity) => (
+                  <tr key={dignity.planet} className="border-b transition-colors hover:bg-muted/50">
+                    <td className={cn(CELL, 'font-medium')}>
+                      {dignity.planet}
+                      {!dignity.inSect && <span className="ml-1 text-xs text-muted-foreground">(out of sect)</span>}
+                    </td>
+                    <td className={CELL}>
+                      {dignity.sign} {formatDegree(dignity.longitude)}
+                    </td>
+                    <td className={CELL}>{dignity.rulers.domicile}</td>
+                    <td className={CELL}>{dignity.rulers.exaltation ?? '-'}</td>
+                    <td className={CELL}>{dignity.rulers.triplicity.join(', ')}</td>
+                    <td className={CELL}>{dignity.rulers.term}</td>
+                    <td className={CELL}>{dignity.rulers.face}</td>
+                    <td className={CELL}>
+                      <div className="flex flex-wrap gap-1">
+                        {getConditions(dignity).map((condition) => (
+                          <Badge key={condition.label} variant={condition.debility ? 'destructive' : 'secondary'}>
+                            {condition.label}
+                          </Badge>
+                        ))}
+                      </div>
+                    </td>
+                    <td className={cn(CELL, 'text-right font-semibold tabular-nums')}>
+                      {dignity.score > 0 ? `+${dignity.score}` : dignity.score}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid gap-6 md:grid-cols-2">
+            {/* Receptions */}
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Receptions</h4>
+              {mutualReceptions.length === 0 && otherReceptions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No receptions</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {mutualReceptions.map((reception) => (
+                    <li key={`${reception.planet}-${reception.receiver}-${reception.dignity}`}>
+                      <span className="font-medium">
+                        {reception.planet} ⇄ {reception.receiver}
+                      </span>{' '}
+                      <span className="text-muted-foreground">mutual reception</span>
+                    </li>
+                  ))}
+                  {otherReceptions.map((reception) => (
+                    <li key={`${reception.planet}-${reception.receiver}-${reception.dignity}`}>
+                      {reception.receiver} receives {reception.planet}{' '}
+                      <span className="text-muted-foreground">by {reception.dignity}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Lots */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-semibold">Lots</h4>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" aria-label="Choose lots">
+                      <Settings2 className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>Lots to show</DropdownMenuLabel>
+                    {DEFAULT_TRADITIONAL_OPTIONS.lots.map((id) => (
+                      <DropdownMenuCheckboxItem
+                        key={id}
+                        checked={lots.includes(id)}
+                        onCheckedChange={() => toggleLot(id)}
+                        onSelect={(event) => event.preventDefault()}
+                      >
+                        Lot of {LOT_NAMES[id]}
+                      </DropdownMenuCheckboxItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+              {analysis.lots.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No lots selected</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {analysis.lots.map((lot) => (
+                    <li key={lot.id} className="flex flex-wrap items-baseline gap-x-2">
+                      <span className="font-medium">{lot.name}</span>
+                      <span>
+                        {lot.sign} {formatDegree(lot.longitude)}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {lot.formula} · ruled by {lot.ruler}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
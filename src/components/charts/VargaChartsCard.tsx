@@ -0,0 +1,120 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Grid3x3 } from 'lucide-react'
+import type { EnrichedSubjectModel } from '@/types/astrology'
+import { Card, CardContent } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { cn } from '@/lib/utils/cn'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { formatPlanetName } from '@/lib/astrology/planet-formatting'
+import { getNakshatraPositions, VARGAS, type VargaDivision } from '@/lib/astrology/vedic'
+import type { IndianChartLayout } from '@/lib/chart/indian-chart'
+import { VedicChart } from './VedicChart'
+
+interface VargaChartsCardProps {
+  subject: EnrichedSubjectModel
+}
+
+function formatDegree(longitude: number): string {
+  const position = longitude % 30
+  return `${Math.floor(position)}° ${Math.floor((position % 1) * 60)}'`
+}
+
+const HEADER_CELL =
+  'h-10 px-2 sm:px-4 text-left align-middle font-medium text-muted-foreground text-xs uppercase tracking-wide'
+const CELL = 'p-2 sm:px-4 align-middle'
+
+/**
+ * Vedic data of a single chart: the Rasi chart next to a chosen divisional
+ * chart, in the preferred Indian layout, and the nakshatra of every point.
+ */
+export function VargaChartsCard({ subject }: VargaChartsCardProps) {
+  const { preferences } = useChartPreferences()
+  const [division, setDivision] = useState<VargaDivision>(9)
+  const [layout, setLayout] = useState<IndianChartLayout | null>(null)
+  const activeLayout = layout ?? (preferences.chart_layout === 'north_indian' ? 'north_indian' : 'south_indian')
+
+  const positions = useMemo(() => getNakshatraPositions(subject), [subject])
+  const varga = VARGAS.find((item) => item.division === division)
+
+  if (positions.length === 0) return null
+
+  return (
+    <div className="relative w-full">
+      <div className="absolute -top-3 left-4 px-2 bg-background text-sm text-muted-foreground z-10 flex items-center gap-2">
+        <Grid3x3 className="h-4 w-4" />
+        Vedic Charts
+      </div>
+      <Card className="shadow-sm">
+        <CardContent className="pt-6 space-y-6">
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <p className="text-sm text-muted-foreground flex-1">
+              {subject.zodiac_type === 'Sidereal'
+                ? `${varga?.name}: ${varga?.signification}`
+                : 'Vargas and nakshatras are calculated from sidereal positions. Switch the zodiac to Sidereal in the chart settings.'}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Select value={String(division)} onValueChange={(value) => setDivision(Number(value) as VargaDivision)}>
+                <SelectTrigger size="sm" aria-label="Divisional chart">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VARGAS.filter((item) => item.division !== 1).map((item) => (
+                    <SelectItem key={item.division} value={String(item.division)}>
+                      {item.code} {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={activeLayout} onValueChange={(value) => setLayout(value as IndianChartLayout)}>
+                <SelectTrigger size="sm" aria-label="Chart layout">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="south_indian">South Indian</SelectItem>
+                  <SelectItem value="north_indian">North Indian</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-6 md:grid-cols-2 justify-items-center">
+            <VedicChart subject={subject} division={1} layout={activeLayout} />
+            <VedicChart subject={subject} division={division} layout={activeLayout} />
+          </div>
+
+          {/* Nakshatras */}
+          <div className="relative w-full overflow-x-auto">
+            <table className="w-full min-w-[560px] text-sm">
+              <thead className="[&_tr]:border-b">
+                <tr>
+                  <th className={HEADER_CELL}>Point</th>
+                  <th className={HEADER_CELL}>Position</th>
+                  <th className={HEADER_CELL}>Nakshatra</th>
+                  <th className={HEADER_CELL}>Pada</th>
+                  <th className={HEADER_CELL}>Lord</th>
+                  <th className={HEADER_CELL}>Navamsa</th>
+                </tr>
+              </thead>
+              <tbody className="[&_tr:last-child]:border-0">
+                {positions.map((position) => (
+                  <tr key={position.name} className="border-b transition-colors hover:bg-muted/50">
+                    <td className={cn(CELL, 'font-medium')}>{formatPlanetName(position.name)}</td>
+                    <td className={CELL}>
+                      {position.sign} {formatDegree(position.longitude)}
+                    </td>
+                    <td className={CELL}>{position.nakshatra.name}</td>
+                    <td className={CELL}>{position.nakshatra.pada}</td>
+                    <td className={CELL}>{position.nakshatra.lord}</td>
+                    <td className={CELL}>{position.navamsa}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
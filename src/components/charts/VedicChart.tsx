@@ -0,0 +1,33 @@
+'use client'
+
+import { useMemo } from 'react'
+import type { EnrichedSubjectModel } from '@/types/astrology'
+import { cn } from '@/lib/utils/cn'
+import { calculateVargaChart, type VargaDivision } from '@/lib/astrology/vedic'
+import { renderIndianChartSvg, type IndianChartLayout } from '@/lib/chart/indian-chart'
+
+interface VedicChartProps {
+  subject: EnrichedSubjectModel
+  division: VargaDivision
+  layout: IndianChartLayout
+  className?: string
+}
+
+/**
+ * A divisional chart of a subject drawn in a square South or North Indian layout
+ */
+export function VedicChart({ subject, division, layout, className }: VedicChartProps) {
+  const svg = useMemo(() => {
+    const chart = calculateVargaChart(subject, division)
+    return chart ? renderIndianChartSvg({ chart, layout }) : null
+  }, [subject, division, layout])
+
+  if (!svg) return null
+
+  return (
+    <div
+      className={cn('w-full max-w-[400px] [&>svg]:h-auto [&>svg]:w-full', className)}
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  )
+}
@@ -0,0 +1,95 @@
+'use client'
+
+import { useCallback } from 'react'
+import { sanitizeFilename } from '@/lib/pdf/utils'
+import { ExportPDFDialogBase, type DialogOption, type PDFBranding } from './ExportPDFDialogBase'
+import type { ChartData } from '@/types/astrology'
+import type { PDFExportOptions } from '@/stores/pdfBrandingStore'
+import type { DateFormat, TimeFormat } from '@/lib/utils/date'
+
+interface ExportMultiWheelPDFDialogProps {
+  /** Multi-wheel chart data with its rings and ring aspects */
+  chartData: ChartData
+  /** Current chart wheel SVG HTML */
+  chartWheelHtml?: string
+  /** Trigger button variant */
+  variant?: 'default' | 'outline' | 'ghost'
+  /** Trigger button size */
+  size?: 'default' | 'sm' | 'icon'
+  /** Date format preference */
+  dateFormat?: DateFormat
+  /** Time format preference */
+  timeFormat?: TimeFormat
+}
+
+/** Dialog options for multi-wheel export */
+const MULTI_WHEEL_OPTIONS: DialogOption[] = [
+  { id: 'include-chart', label: 'Chart Wheel', optionKey: 'includeChartWheel' },
+  { id: 'include-planets', label: 'Planetary Positions', optionKey: 'includePlanets' },
+  { id: 'include-aspects', label: 'Inter-Ring Aspects', optionKey: 'includeAspects' },
+]
+
+/**
+ * ExportMultiWheelPDFDialog Component
+ *
+ * Dialog for configuring and triggering PDF export of tri- and quad-wheel charts.
+ */
+export function ExportMultiWheelPDFDialog({
+  chartData,
+  chartWheelHtml,
+  variant = 'outline',
+  size = 'default',
+  dateFormat = 'EU',
+  timeFormat = '24h',
+}: ExportMultiWheelPDFDialogProps) {
+  const natalName = chartData.rings?.[0]?.subject.name ?? chartData.subject.name
+
+  // The wheel is drawn locally with currentColor, so it already prints in black
+  const regenerateChart = useCallback(async (): Promise<string | null> => chartWheelHtml ?? null, [chartWheelHtml])
+
+  const generateFilename = useCallback((): string => {
+    const date = new Date().toISOString().split('T')[0]
+    return `${sanitizeFilename(natalName)}_multi_wheel_${date}.pdf`
+  }, [natalName])
+
+  const renderPDF = useCallback(
+    async (
+      chartWheelImage: string | null,
+      branding: PDFBranding,
+      exportOptions: PDFExportOptions,
+      dateFormatProp: DateFormat,
+      timeFormatProp: TimeFormat,
+    ) => {
+      const { MultiWheelPDF } = await import('./MultiWheelPDF')
+      return (
+        <MultiWheelPDF
+          chartData={chartData}
+          chartWheelImage={chartWheelImage}
+          branding={branding}
+          options={exportOptions}
+          dateFormat={dateFormatProp}
+          timeFormat={timeFormatProp}
+        />
+      )
+    },
+    [chartData],
+  )
+
+  return (
+    <ExportPDFDialogBase
+      title="Export Multi-Wheel as PDF"
+      description="Configure what to include in your multi-wheel report."
+      chartType="multi-wheel"
+      successMessage="Multi-Wheel PDF exported successfully!"
+      options={MULTI_WHEEL_OPTIONS}
+      variant={variant}
+      size={size}
+      dateFormat={dateFormat}
+      timeFormat={timeFormat}
+      chartWheelHtml={chartWheelHtml}
+      regenerateChart={regenerateChart}
+      generateFilename={generateFilename}
+      renderPDF={renderPDF}
+    />
+  )
+}
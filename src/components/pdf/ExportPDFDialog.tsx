@@ -2,9 +2,13 @@
 
 import { useCallback } from 'react'
 import { getNatalChart } from '@/actions/astrology'
-import { enrichedSubjectToSubject, generatePdfFilename } from '@/lib/pdf/utils'
+import { enrichedSubjectToSubject, generatePdfFilename, svgToDataUrl } from '@/lib/pdf/utils'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { calculateVargaChart, type VargaDivision } from '@/lib/astrology/vedic'
+import { renderIndianChartSvg } from '@/lib/chart/indian-chart'
 import { ExportPDFDialogBase, type DialogOption, type PDFBranding } from './ExportPDFDialogBase'
 import { NatalChartPDF } from './NatalChartPDF'
+import type { PDFVedicChartImage } from './PDFVedicSection'
 import type { ChartData, Aspect, ChartResponse } from '@/types/astrology'
 import type { Subject } from '@/types/subjects'
 import type { PDFExportOptions } from '@/stores/pdfBrandingStore'
@@ -39,9 +43,13 @@ const NATAL_OPTIONS: DialogOption[] = [
   { id: 'include-planets', label: 'Planetary Positions', optionKey: 'includePlanets' },
   { id: 'include-houses', label: 'House Cusps', optionKey: 'includeHouses' },
   { id: 'include-aspects', label: 'Aspects', optionKey: 'includeAspects' },
+  { id: 'include-vedic', label: 'Vedic Charts', optionKey: 'includeVedicCharts' },
   { id: 'include-interp', label: 'Interpretation Notes', optionKey: 'includeInterpretation' },
 ]
 
+/** Divisional charts included in the Vedic page */
+const PDF_VARGAS: VargaDivision[] = [1, 9, 7, 10, 12]
+
 /**
  * ExportPDFDialog Component
  *
@@ -60,20 +68,41 @@ export function ExportPDFDialog({
   dateFormat = 'EU',
   timeFormat = '24h',
 }: ExportPDFDialogProps) {
+  const { preferences } = useChartPreferences()
+  const chartLayout = preferences.chart_layout
+  // Vargas are always square: South Indian unless North Indian is preferred
+  const vargaLayout = chartLayout === 'north_indian' ? 'north_indian' : 'south_indian'
+
   const regenerateChart = useCallback(async (): Promise<string | null> => {
+    if (chartLayout !== 'western') {
+      const rasi = calculateVargaChart(chartData.subject, 1)
+      if (rasi) return renderIndianChartSvg({ chart: rasi, layout: chartLayout })
+    }
     const subjectForApi = subject || enrichedSubjectToSubject(chartData.subject)
     const lightChartResponse: ChartResponse = await getNatalChart(subjectForApi, {
       theme: 'classic',
     })
     return lightChartResponse.chart_wheel || null
-  }, [chartData.subject, subject])
+  }, [chartData.subject, subject, chartLayout])
+
+  const renderVedicCharts = useCallback(async (): Promise<PDFVedicChartImage[]> => {
+    const images = await Promise.all(
+      PDF_VARGAS.map(async (division) => {
+        const chart = calculateVargaChart(chartData.subject, division)
+        if (!chart) return null
+        const image = await svgToDataUrl(renderIndianChartSvg({ chart, layout: vargaLayout }))
+        return image ? { caption: `${chart.varga.code} ${chart.varga.name}`, image } : null
+      }),
+    )
+    return images.filter((image): image is PDFVedicChartImage => image !== null)
+  }, [chartData.subject, vargaLayout])
 
   const generateFilename = useCallback((): string => {
     return generatePdfFilename(chartData.subject.name, 'natal_chart')
   }, [chartData.subject.name])
 
   const renderPDF = useCallback(
-    (
+    async (
       chartWheelImage: string | null,
       branding: PDFBranding,
       exportOptions: PDFExportOptions,
@@ -84,6 +113,7 @@ export function ExportPDFDialog({
         chartData={chartData}
         aspects={aspects}
         chartWheelImage={chartWheelImage}
+        vedicCharts={exportOptions.includeVedicCharts ? await renderVedicCharts() : []}
         notes={exportOptions.includeInterpretation ? notes : undefined}
         branding={branding}
         options={exportOptions}
@@ -92,7 +122,7 @@ export function ExportPDFDialog({
         timeFormat={timeFormatProp}
       />
     ),
-    [chartData, aspects, notes, chartType],
+    [chartData, aspects, notes, chartType, renderVedicCharts],
   )
 
   return (
@@ -0,0 +1,135 @@
+'use client'
+
+import { useCallback } from 'react'
+import { getProgressedChart, getSolarArcChart, getProgressedLunationChart } from '@/actions/astrology'
+import { sanitizeFilename } from '@/lib/pdf/utils'
+import { ExportPDFDialogBase, type DialogOption, type PDFBranding } from './ExportPDFDialogBase'
+import type { ChartData, Aspect } from '@/types/astrology'
+import type { PDFExportOptions } from '@/stores/pdfBrandingStore'
+import type { DateFormat, TimeFormat } from '@/lib/utils/date'
+import type { ProgressionTechnique } from '@/lib/astrology/progressions'
+import type { Subject } from '@/types/subjects'
+
+interface ExportProgressionPDFDialogProps {
+  /** Bi-wheel chart data (natal + progressed or directed) */
+  chartData: ChartData
+  /** Aspects array */
+  aspects: Aspect[]
+  technique: ProgressionTechnique
+  /** Natal subject, used to regenerate the light-themed wheel */
+  subject: Subject
+  /** Date the chart was progressed to (ISO) */
+  targetDate: string
+  /** Current chart wheel SVG HTML (fallback) */
+  chartWheelHtml?: string
+  /** Interpretation notes */
+  notes?: string
+  /** Extra subtitle line for the report */
+  subtitle?: string
+  /** Trigger button variant */
+  variant?: 'default' | 'outline' | 'ghost'
+  /** Trigger button size */
+  size?: 'default' | 'sm' | 'icon'
+  /** Date format preference */
+  dateFormat?: DateFormat
+  /** Time format preference */
+  timeFormat?: TimeFormat
+}
+
+/** Dialog options for progressed chart export */
+const PROGRESSION_OPTIONS: DialogOption[] = [
+  { id: 'include-chart', label: 'Chart Wheel', optionKey: 'includeChartWheel' },
+  { id: 'include-planets', label: 'Planetary Positions', optionKey: 'includePlanets' },
+  { id: 'include-houses', label: 'House Cusps & Overlays', optionKey: 'includeHouses' },
+  { id: 'include-aspects', label: 'Aspects', optionKey: 'includeAspects' },
+  { id: 'include-interp', label: 'Interpretation Notes', optionKey: 'includeInterpretation' },
+]
+
+const TECHNIQUES = {
+  progressions: { title: 'Secondary Progressions', file: 'progressions', action: getProgressedChart },
+  'solar-arc': { title: 'Solar Arc Directions', file: 'solar_arc', action: getSolarArcChart },
+  'progressed-lunation': {
+    title: 'Progressed Lunation',
+    file: 'progressed_lunation',
+    action: getProgressedLunationChart,
+  },
+} as const
+
+/**
+ * ExportProgressionPDFDialog Component
+ *
+ * Dialog for configuring and triggering PDF export of progressed and solar arc charts.
+ */
+export function ExportProgressionPDFDialog({
+  chartData,
+  aspects,
+  technique,
+  subject,
+  targetDate,
+  chartWheelHtml,
+  notes,
+  subtitle,
+  variant = 'outline',
+  size = 'default',
+  dateFormat = 'EU',
+  timeFormat = '24h',
+}: ExportProgressionPDFDialogProps) {
+  const { title, file, action } = TECHNIQUES[technique]
+
+  const regenerateChart = useCallback(async (): Promise<string | null> => {
+    // The natal subject keeps its wall-clock time and zone, which the progression needs
+    const lightChartResponse = await action(subject, targetDate, { theme: 'classic' })
+    return lightChartResponse.chart_wheel || null
+  }, [action, subject, targetDate])
+
+  const generateFilename = useCallback((): string => {
+    const subjectName = sanitizeFilename(subject.name)
+    return `${subjectName}_${file}_${targetDate.split('T')[0]}.pdf`
+  }, [subject.name, file, targetDate])
+
+  const renderPDF = useCallback(
+    async (
+      chartWheelImage: string | null,
+      branding: PDFBranding,
+      exportOptions: PDFExportOptions,
+      dateFormatProp: DateFormat,
+      timeFormatProp: TimeFormat,
+    ) => {
+      const { ProgressionPDF } = await import('./ProgressionPDF')
+      return (
+        <ProgressionPDF
+          chartData={chartData}
+          aspects={aspects}
+          technique={technique}
+          chartWheelImage={chartWheelImage}
+          notes={exportOptions.includeInterpretation ? notes : undefined}
+          subtitle={subtitle}
+          branding={branding}
+          options={exportOptions}
+          dateFormat={dateFormatProp}
+          timeFormat={timeFormatProp}
+        />
+      )
+    },
+    [chartData, aspects, technique, notes, subtitle],
+  )
+
+  return (
+    <ExportPDFDialogBase
+      title={`Export ${title} as PDF`}
+      description={`Configure what to include in your ${title} report.`}
+      chartType={technique}
+      successMessage={`${title} PDF exported successfully!`}
+      options={PROGRESSION_OPTIONS}
+      hasNotes={!!notes && notes.trim().length > 0}
+      variant={variant}
+      size={size}
+      dateFormat={dateFormat}
+      timeFormat={timeFormat}
+      chartWheelHtml={chartWheelHtml}
+      regenerateChart={regenerateChart}
+      generateFilename={generateFilename}
+      renderPDF={renderPDF}
+    />
+  )
+}
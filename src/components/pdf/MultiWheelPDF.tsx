@@ -0,0 +1,123 @@
+import { Document, Page } from '@react-pdf/renderer'
+import { pdfStyles as styles } from './styles'
+import { PDFHeader } from './PDFHeader'
+import { PDFSubjectSection } from './PDFSubjectSection'
+import { PDFPlanetaryTable } from './PDFPlanetaryTable'
+import { PDFAspectsSection } from './PDFAspectsSection'
+import { PDFChartWheel } from './PDFChartWheel'
+import { PDFFooter } from './PDFFooter'
+import { getRingPairLabel } from '@/lib/astrology/multi-wheel'
+import type { ChartData } from '@/types/astrology'
+import type { BrandingType, PDFExportOptions } from '@/stores/pdfBrandingStore'
+import type { DateFormat, TimeFormat } from '@/lib/utils/date'
+
+export interface MultiWheelPDFProps {
+  /** Multi-wheel chart data with its rings and ring aspects */
+  chartData: ChartData
+  /** Chart wheel image as base64 */
+  chartWheelImage?: string | null
+  /** Branding settings */
+  branding: {
+    type: BrandingType
+    logoData?: string | null
+    text?: string
+    showFooter: boolean
+    footerText?: string
+  }
+  /** Export options */
+  options: PDFExportOptions
+  /** Date format preference */
+  dateFormat?: DateFormat
+  /** Time format preference */
+  timeFormat?: TimeFormat
+}
+
+/**
+ * MultiWheelPDF Document
+ *
+ * PDF document for tri- and quad-wheel charts: the wheel, the positions of
+ * each ring and the aspects between every pair of rings.
+ */
+export function MultiWheelPDF({
+  chartData,
+  chartWheelImage,
+  branding,
+  options,
+  dateFormat = 'EU',
+  timeFormat = '24h',
+}: MultiWheelPDFProps) {
+  const rings = chartData.rings ?? [{ label: 'Natal', subject: chartData.subject }]
+  const ringAspects = chartData.ring_aspects ?? []
+  const natalSubject = rings[0]!.subject
+  const subjectName = natalSubject.name
+  const ringLabels = rings.map((ring) => ring.label).join(' • ')
+
+  return (
+    <Document
+      title={`${subjectName} - Multi-Wheel Report`}
+      author="AstrologerStudio"
+      creator="AstrologerStudio"
+      producer="@react-pdf/renderer"
+    >
+      {/* Page 1: Natal Details & Chart Wheel */}
+      <Page size="A4" style={styles.page}>
+        <PDFHeader
+          brandingType={branding.type}
+          logoData={branding.logoData}
+          brandingText={branding.text}
+          reportTitle="Multi-Wheel Report"
+          subtitle={`${subjectName} • ${ringLabels}`}
+        />
+
+        <PDFSubjectSection
+          subject={natalSubject}
+          dateLabel="Birth Date and Time"
+          dateFormat={dateFormat}
+          timeFormat={timeFormat}
+        />
+
+        {options.includeChartWheel && chartWheelImage && (
+          <PDFChartWheel imageData={chartWheelImage} caption={`From the inside out: ${ringLabels}`} />
+        )}
+
+        <PDFFooter showFooter={branding.showFooter} footerText={branding.footerText} />
+      </Page>
+
+      {/* One page of positions per ring */}
+      {options.includePlanets &&
+        rings.map((ring, index) => (
+          <Page key={`${index}-${ring.label}`} size="A4" style={styles.page} wrap>
+            <PDFHeader
+              brandingType={branding.type}
+              logoData={branding.logoData}
+              brandingText={branding.text}
+              reportTitle={`${ring.label} Positions`}
+            />
+
+            <PDFPlanetaryTable subject={ring.subject} title={`${ring.label} Planetary Positions`} />
+
+            <PDFFooter showFooter={branding.showFooter} footerText={branding.footerText} />
+          </Page>
+        ))}
+
+      {/* One page of aspects per ring pair */}
+      {options.includeAspects &&
+        ringAspects
+          .filter((pair) => pair.aspects.length > 0)
+          .map((pair) => (
+            <Page key={`${pair.inner}-${pair.outer}`} size="A4" style={styles.page} wrap>
+              <PDFHeader
+                brandingType={branding.type}
+                logoData={branding.logoData}
+                brandingText={branding.text}
+                reportTitle="Inter-Ring Aspects"
+              />
+
+              <PDFAspectsSection aspects={pair.aspects} title={getRingPairLabel(rings, pair)} maxAspects={80} />
+
+              <PDFFooter showFooter={branding.showFooter} footerText={branding.footerText} />
+            </Page>
+          ))}
+    </Document>
+  )
+}
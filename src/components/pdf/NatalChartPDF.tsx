@@ -5,10 +5,13 @@ import { PDFSubjectSection } from './PDFSubjectSection'
 import { PDFPlanetaryTable } from './PDFPlanetaryTable'
 import { PDFHousesTable } from './PDFHousesTable'
 import { PDFAspectsSection } from './PDFAspectsSection'
+import { PDFAspectPatternsSection } from './PDFAspectPatternsSection'
 import { PDFChartWheel } from './PDFChartWheel'
+import { PDFVedicSection, type PDFVedicChartImage } from './PDFVedicSection'
 import { PDFNotesSection } from './PDFNotesSection'
 import { PDFFooter } from './PDFFooter'
 import type { ChartData, Aspect } from '@/types/astrology'
+import { findAspectPatterns, getPatternPoints } from '@/lib/astrology/aspect-patterns'
 import type { BrandingType, PDFExportOptions } from '@/stores/pdfBrandingStore'
 import type { DateFormat, TimeFormat } from '@/lib/utils/date'
 
@@ -19,6 +22,8 @@ export interface NatalChartPDFProps {
   aspects: Aspect[]
   /** Chart wheel image as base64 */
   chartWheelImage?: string | null
+  /** Divisional chart images; the Vedic page is left out when empty */
+  vedicCharts?: PDFVedicChartImage[]
   /** Interpretation notes */
   notes?: string
   /** Branding settings */
@@ -74,6 +79,7 @@ export function NatalChartPDF({
   chartData,
   aspects,
   chartWheelImage,
+  vedicCharts = [],
   notes,
   branding,
   options,
@@ -161,13 +167,31 @@ export function NatalChartPDF({
             reportTitle="Aspects"
           />
 
+          <PDFAspectPatternsSection patterns={findAspectPatterns(aspects, getPatternPoints(subject))} />
+
           <PDFAspectsSection aspects={aspects} title="Aspect Analysis" maxAspects={80} />
 
           <PDFFooter showFooter={branding.showFooter} footerText={branding.footerText} />
         </Page>
       )}
 
-      {/* Page 5: Interpretation Notes */}
+      {/* Page 5: Vedic Charts */}
+      {options.includeVedicCharts && vedicCharts.length > 0 && (
+        <Page size="A4" style={styles.page} wrap>
+          <PDFHeader
+            brandingType={branding.type}
+            logoData={branding.logoData}
+            brandingText={branding.text}
+            reportTitle="Vedic Charts"
+          />
+
+          <PDFVedicSection subject={subject} charts={vedicCharts} title="Divisional Charts and Nakshatras" />
+
+          <PDFFooter showFooter={branding.showFooter} footerText={branding.footerText} />
+        </Page>
+      )}
+
+      {/* Page 6: Interpretation Notes */}
       {options.includeInterpretation && notes && notes.trim().length > 0 && (
         <Page size="A4" style={styles.page} wrap>
           <PDFHeader
@@ -0,0 +1,51 @@
+import { View, Text } from '@react-pdf/renderer'
+import { pdfStyles as styles } from './styles'
+import { formatPlanetName } from '@/lib/astrology/planet-formatting'
+import type { AspectPattern } from '@/lib/astrology/aspect-patterns'
+
+interface PDFAspectPatternsSectionProps {
+  patterns: AspectPattern[]
+  title?: string
+}
+
+/**
+ * PDF Aspect Patterns Section
+ *
+ * Lists the aspect patterns of a chart with their points, element and modality, and orb.
+ */
+export function PDFAspectPatternsSection({ patterns, title = 'Aspect Patterns' }: PDFAspectPatternsSectionProps) {
+  if (patterns.length === 0) return null
+
+  return (
+    <View style={styles.section} wrap={false}>
+      <Text style={styles.sectionHeader}>{title}</Text>
+      <View style={styles.table}>
+        <View style={styles.tableHeader}>
+          <Text style={[styles.tableHeaderCell, { width: '22%' }]}>Pattern</Text>
+          <Text style={[styles.tableHeaderCell, { width: '40%' }]}>Points</Text>
+          <Text style={[styles.tableHeaderCell, { width: '20%' }]}>Element / Mode</Text>
+          <Text style={[styles.tableHeaderCell, { width: '18%', textAlign: 'right' }]}>Orb</Text>
+        </View>
+        {patterns.map((pattern, index) => (
+          <View
+            key={`${pattern.type}-${pattern.points.join('-')}`}
+            style={[styles.tableRow, index % 2 === 1 ? styles.tableRowAlternate : {}]}
+          >
+            <Text style={[styles.tableCell, { width: '22%' }]}>{pattern.label}</Text>
+            <Text style={[styles.tableCell, { width: '40%' }]}>
+              {pattern.points
+                .map((name) => (name === pattern.apex ? `${formatPlanetName(name)} (apex)` : formatPlanetName(name)))
+                .join(', ')}
+            </Text>
+            <Text style={[styles.tableCell, { width: '20%' }]}>
+              {[pattern.element, pattern.modality].filter(Boolean).join(' / ') || 'Mixed'}
+            </Text>
+            <Text style={[styles.tableCell, { width: '18%', textAlign: 'right' }]}>
+              {pattern.orb.toFixed(1)}° {pattern.tightness}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  )
+}
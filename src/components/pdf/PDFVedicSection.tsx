@@ -0,0 +1,62 @@
+import { View, Text, Image } from '@react-pdf/renderer'
+import { pdfStyles as styles } from './styles'
+import { formatPlanetName } from '@/lib/astrology/planet-formatting'
+import { getNakshatraPositions } from '@/lib/astrology/vedic'
+import type { EnrichedSubjectModel } from '@/types/astrology'
+
+export interface PDFVedicChartImage {
+  /** e.g. "D9 Navamsa" */
+  caption: string
+  /** Base64 encoded chart image */
+  image: string
+}
+
+interface PDFVedicSectionProps {
+  subject: EnrichedSubjectModel
+  /** Divisional charts, drawn two per row */
+  charts: PDFVedicChartImage[]
+  title?: string
+}
+
+/**
+ * PDF Vedic Section
+ *
+ * Divisional charts in the preferred Indian layout, followed by the nakshatra,
+ * pada and Navamsa sign of every point.
+ */
+export function PDFVedicSection({ subject, charts, title = 'Vedic Charts' }: PDFVedicSectionProps) {
+  const positions = getNakshatraPositions(subject)
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionHeader}>{title}</Text>
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', justifyContent: 'space-around' }}>
+        {charts.map((chart) => (
+          <View key={chart.caption} style={{ width: '48%', alignItems: 'center', marginBottom: 12 }} wrap={false}>
+            <Image src={chart.image} style={{ width: 220, height: 220 }} />
+            <Text style={[styles.footerText, { marginTop: 4 }]}>{chart.caption}</Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.table} wrap={false}>
+        <View style={styles.tableHeader}>
+          <Text style={[styles.tableHeaderCell, { width: '25%' }]}>Point</Text>
+          <Text style={[styles.tableHeaderCell, { width: '30%' }]}>Nakshatra</Text>
+          <Text style={[styles.tableHeaderCell, { width: '10%', textAlign: 'center' }]}>Pada</Text>
+          <Text style={[styles.tableHeaderCell, { width: '20%' }]}>Lord</Text>
+          <Text style={[styles.tableHeaderCell, { width: '15%', textAlign: 'center' }]}>Navamsa</Text>
+        </View>
+        {positions.map((position, index) => (
+          <View key={position.name} style={[styles.tableRow, index % 2 === 1 ? styles.tableRowAlternate : {}]}>
+            <Text style={[styles.tableCell, { width: '25%' }]}>{formatPlanetName(position.name)}</Text>
+            <Text style={[styles.tableCell, { width: '30%' }]}>{position.nakshatra.name}</Text>
+            <Text style={[styles.tableCell, { width: '10%', textAlign: 'center' }]}>{position.nakshatra.pada}</Text>
+            <Text style={[styles.tableCell, { width: '20%' }]}>{position.nakshatra.lord}</Text>
+            <Text style={[styles.tableCell, { width: '15%', textAlign: 'center' }]}>{position.navamsa}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  )
+}
@@ -0,0 +1,210 @@
+import { Document, Page } from '@react-pdf/renderer'
+import { pdfStyles as styles } from './styles'
+import { PDFHeader } from './PDFHeader'
+import { PDFDualSubjectSection } from './PDFDualSubjectSection'
+import { PDFPlanetaryTable } from './PDFPlanetaryTable'
+import { PDFHousesTable } from './PDFHousesTable'
+import { PDFHouseOverlayTable } from './PDFHouseOverlayTable'
+import { PDFAspectsSection } from './PDFAspectsSection'
+import { PDFChartWheel } from './PDFChartWheel'
+import { PDFNotesSection } from './PDFNotesSection'
+import { PDFFooter } from './PDFFooter'
+import type { ChartData, Aspect } from '@/types/astrology'
+import type { BrandingType, PDFExportOptions } from '@/stores/pdfBrandingStore'
+import type { DateFormat, TimeFormat } from '@/lib/utils/date'
+import type { ProgressionTechnique } from '@/lib/astrology/progressions'
+
+export interface ProgressionPDFProps {
+  /** Bi-wheel chart data: first_subject is natal, second_subject is progressed or directed */
+  chartData: ChartData
+  /** Aspects array */
+  aspects: Aspect[]
+  technique: ProgressionTechnique
+  /** Chart wheel image as base64 */
+  chartWheelImage?: string | null
+  /** Interpretation notes */
+  notes?: string
+  /** Extra subtitle line, e.g. the progressed lunation phase */
+  subtitle?: string
+  /** Branding settings */
+  branding: {
+    type: BrandingType
+    logoData?: string | null
+    text?: string
+    showFooter: boolean
+    footerText?: string
+  }
+  /** Export options */
+  options: PDFExportOptions
+  /** Date format preference */
+  dateFormat?: DateFormat
+  /** Time format preference */
+  timeFormat?: TimeFormat
+}
+
+const TECHNIQUE_LABELS: Record<ProgressionTechnique, { report: string; chart: string }> = {
+  progressions: { report: 'Secondary Progressions Report', chart: 'Progressed' },
+  'solar-arc': { report: 'Solar Arc Directions Report', chart: 'Solar Arc' },
+  'progressed-lunation': { report: 'Progressed Lunation Report', chart: 'Progressed' },
+}
+
+/**
+ * ProgressionPDF Document
+ *
+ * PDF document for secondary progressions, solar arc directions and the
+ * progressed lunation cycle, always as natal + derived dual wheel.
+ */
+export function ProgressionPDF({
+  chartData,
+  aspects,
+  technique,
+  chartWheelImage,
+  notes,
+  subtitle,
+  branding,
+  options,
+  dateFormat = 'EU',
+  timeFormat = '24h',
+}: ProgressionPDFProps) {
+  const natalSubject = chartData.first_subject ?? chartData.subject
+  const derivedSubject = chartData.second_subject ?? chartData.subject
+  const houseComparison = chartData.house_comparison
+  const { report: reportTitle, chart: chartLabel } = TECHNIQUE_LABELS[technique]
+
+  const subjectName = natalSubject.name
+
+  return (
+    <Document
+      title={`${subjectName} - ${reportTitle}`}
+      author="AstrologerStudio"
+      creator="AstrologerStudio"
+      producer="@react-pdf/renderer"
+    >
+      {/* Page 1: Subject Details & Chart Wheel */}
+      <Page size="A4" style={styles.page}>
+        <PDFHeader
+          brandingType={branding.type}
+          logoData={branding.logoData}
+          brandingText={branding.text}
+          reportTitle={reportTitle}
+          subtitle={subtitle ? `${subjectName} • ${subtitle}` : subjectName}
+        />
+
+        <PDFDualSubjectSection
+          subject1={natalSubject}
+          subject2={derivedSubject}
+          subject1Label="Natal Chart"
+          subject2Label={`${chartLabel} Chart`}
+          dateFormat={dateFormat}
+          timeFormat={timeFormat}
+        />
+
+        {options.includeChartWheel && chartWheelImage && (
+          <PDFChartWheel imageData={chartWheelImage} caption={`${subjectName}'s ${chartLabel} Chart`} />
+        )}
+
+        <PDFFooter showFooter={branding.showFooter} footerText={branding.footerText} />
+      </Page>
+
+      {/* Page 2: Natal Planetary Positions */}
+      {options.includePlanets && (
+        <Page size="A4" style={styles.page} wrap>
+          <PDFHeader
+            brandingType={branding.type}
+            logoData={branding.logoData}
+            brandingText={branding.text}
+            reportTitle="Natal Positions"
+          />
+
+          <PDFPlanetaryTable subject={natalSubject} title="Natal Planetary Positions" />
+
+          <PDFFooter showFooter={branding.showFooter} footerText={branding.footerText} />
+        </Page>
+      )}
+
+      {/* Page 3: Progressed or Directed Planetary Positions */}
+      {options.includePlanets && (
+        <Page size="A4" style={styles.page} wrap>
+          <PDFHeader
+            brandingType={branding.type}
+            logoData={branding.logoData}
+            brandingText={branding.text}
+            reportTitle={`${chartLabel} Positions`}
+          />
+
+          <PDFPlanetaryTable subject={derivedSubject} title={`${chartLabel} Planetary Positions`} />
+
+          <PDFFooter showFooter={branding.showFooter} footerText={branding.footerText} />
+        </Page>
+      )}
+
+      {/* Page 4: Progressed or Directed House Cusps */}
+      {options.includeHouses && (
+        <Page size="A4" style={styles.page}>
+          <PDFHeader
+            brandingType={branding.type}
+            logoData={branding.logoData}
+            brandingText={branding.text}
+            reportTitle={`${chartLabel} Houses`}
+          />
+
+          <PDFHousesTable subject={derivedSubject} title={`${chartLabel} House Cusps`} />
+
+          <PDFFooter showFooter={branding.showFooter} footerText={branding.footerText} />
+        </Page>
+      )}
+
+      {/* Page 5: Progressed Planets in Natal Houses */}
+      {options.includeHouses && houseComparison && houseComparison.second_points_in_first_houses && (
+        <Page size="A4" style={styles.page} wrap>
+          <PDFHeader
+            brandingType={branding.type}
+            logoData={branding.logoData}
+            brandingText={branding.text}
+            reportTitle="House Overlay"
+          />
+
+          <PDFHouseOverlayTable
+            points={houseComparison.second_points_in_first_houses}
+            title={`${chartLabel} Planets in Natal Houses`}
+            description={`Where the ${chartLabel.toLowerCase()} planets fall within ${subjectName}'s natal house system`}
+          />
+
+          <PDFFooter showFooter={branding.showFooter} footerText={branding.footerText} />
+        </Page>
+      )}
+
+      {/* Page 6: Aspects */}
+      {options.includeAspects && aspects.length > 0 && (
+        <Page size="A4" style={styles.page} wrap>
+          <PDFHeader
+            brandingType={branding.type}
+            logoData={branding.logoData}
+            brandingText={branding.text}
+            reportTitle={`${chartLabel} Aspects`}
+          />
+
+          <PDFAspectsSection aspects={aspects} title={`${chartLabel} to Natal Aspects`} maxAspects={80} />
+
+          <PDFFooter showFooter={branding.showFooter} footerText={branding.footerText} />
+        </Page>
+      )}
+
+      {/* Page 7: Interpretation Notes */}
+      {options.includeInterpretation && notes && notes.trim().length > 0 && (
+        <Page size="A4" style={styles.page} wrap>
+          <PDFHeader
+            brandingType={branding.type}
+            logoData={branding.logoData}
+            brandingText={branding.text}
+            reportTitle="Interpretation"
+          />
+
+          <PDFNotesSection notes={notes} title={`${chartLabel} Chart Interpretation`} />
+
+          <PDFFooter showFooter={branding.showFooter} footerText={branding.footerText} />
+        </Page>
+      )}
+    </Document>
+  )
+}
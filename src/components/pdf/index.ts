@@ -11,12 +11,18 @@ export { SolarReturnPDF } from './SolarReturnPDF'
 export type { SolarReturnPDFProps } from './SolarReturnPDF'
 export { LunarReturnPDF } from './LunarReturnPDF'
 export type { LunarReturnPDFProps } from './LunarReturnPDF'
+export { ProgressionPDF } from './ProgressionPDF'
+export type { ProgressionPDFProps } from './ProgressionPDF'
+export { MultiWheelPDF } from './MultiWheelPDF'
+export type { MultiWheelPDFProps } from './MultiWheelPDF'
 
 // Export Dialog
 export { ExportPDFDialog } from './ExportPDFDialog'
 export { ExportTransitPDFDialog } from './ExportTransitPDFDialog'
 export { ExportSynastryPDFDialog } from './ExportSynastryPDFDialog'
 export { ExportCompositePDFDialog } from './ExportCompositePDFDialog'
+export { ExportProgressionPDFDialog } from './ExportProgressionPDFDialog'
+export { ExportMultiWheelPDFDialog } from './ExportMultiWheelPDFDialog'
 
 // Individual Sections - Single Subject
 export { PDFHeader } from './PDFHeader'
@@ -24,6 +30,9 @@ export { PDFSubjectSection } from './PDFSubjectSection'
 export { PDFPlanetaryTable } from './PDFPlanetaryTable'
 export { PDFHousesTable } from './PDFHousesTable'
 export { PDFAspectsSection } from './PDFAspectsSection'
+export { PDFAspectPatternsSection } from './PDFAspectPatternsSection'
+export { PDFVedicSection } from './PDFVedicSection'
+export type { PDFVedicChartImage } from './PDFVedicSection'
 export { PDFChartWheel } from './PDFChartWheel'
 export { PDFNotesSection } from './PDFNotesSection'
 export { PDFFooter } from './PDFFooter'
@@ -14,7 +14,17 @@ import { getUserProfile, updateUserProfile, type UserProfileData } from '@/actio
 import { getPendingEmailChange } from '@/actions/email'
 import { clientLogger } from '@/lib/logging/client'
 import { DeleteAccountDialog } from './DeleteAccountDialog'
-import { SubscriptionCard, EmailChangeDialog, PasswordChangeDialog, PendingEmailBanner } from './account'
+import {
+  SubscriptionCard,
+  EmailChangeDialog,
+  PasswordChangeDialog,
+  PendingEmailBanner,
+  ApiTokensCard,
+  WebhooksCard,
+  WorkspaceCard,
+  TwoFactorCard,
+  SessionsCard,
+} from './account'
 
 const profileSchema = z.object({
   firstName: z.string().max(50, 'First name too long').optional(),
@@ -180,6 +190,21 @@ export function AccountSettingsPanel() {
         </CardContent>
       </Card>
 
+      {/* Two-factor authentication with an authenticator app or passkeys */}
+      <TwoFactorCard />
+
+      {/* Signed-in browsers and devices */}
+      <SessionsCard />
+
+      {/* Team workspaces sharing subjects and saved charts */}
+      <WorkspaceCard />
+
+      {/* Personal access tokens for the REST API */}
+      <ApiTokensCard />
+
+      {/* Outbound webhooks for integrations */}
+      <WebhooksCard />
+
       {/* Danger Zone */}
       <Card className="border-destructive/50">
         <CardHeader>
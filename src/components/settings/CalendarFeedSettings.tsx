@@ -0,0 +1,279 @@
+'use client'
+
+/**
+ * Settings card for the secret calendar subscription feed
+ *
+ * The feed URL contains the only copy of the token, so it is shown once,
+ * after the feed is created or its URL regenerated.
+ *
+ * @module components/settings/CalendarFeedSettings
+ */
+
+import { useEffect, useState } from 'react'
+import { CalendarPlus, Check, Copy, Loader2, RefreshCw, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { TimezoneCombobox } from '@/components/TimezoneCombobox'
+import { useCalendarFeed } from '@/hooks/useCalendarFeed'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { useSubjects } from '@/hooks/useSubjects'
+import {
+  CALENDAR_EVENT_CATEGORIES,
+  CALENDAR_FEED_FUTURE_DAYS,
+  CALENDAR_FEED_PAST_DAYS,
+  type CalendarEventCategory,
+} from '@/lib/calendar/feed'
+import { formatDisplayDate } from '@/lib/utils/date'
+import { getErrorMessage } from '@/lib/utils/error'
+
+const NO_SUBJECT = 'none'
+
+const DEFAULT_CATEGORIES: CalendarEventCategory[] = ['transits', 'lunations', 'eclipses', 'stations']
+
+export function CalendarFeedSettings() {
+  const { dateFormat, timeFormat } = useChartPreferences()
+  const { query: subjectsQuery } = useSubjects()
+  const { data: feed, isLoading, saveMutation, regenerateMutation, deleteMutation } = useCalendarFeed()
+
+  const [subjectId, setSubjectId] = useState(NO_SUBJECT)
+  const [timezone, setTimezone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC')
+  const [categories, setCategories] = useState<CalendarEventCategory[]>(DEFAULT_CATEGORIES)
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  // Load the saved settings into the form
+  useEffect(() => {
+    if (!feed) return
+    setSubjectId(feed.subjectId ?? NO_SUBJECT)
+    setTimezone(feed.timezone)
+    setCategories(feed.categories)
+  }, [feed])
+
+  const toggleCategory = (category: CalendarEventCategory, checked: boolean) => {
+    setCategories((current) => (checked ? [...current, category] : current.filter((existing) => existing !== category)))
+  }
+
+  const showUrl = ({ url }: { url: string | null }) => {
+    if (url) {
+      setFeedUrl(url)
+      setCopied(false)
+    }
+  }
+
+  const handleSave = () => {
+    saveMutation.mutate(
+      { subjectId: subjectId === NO_SUBJECT ? null : subjectId, timezone, categories },
+      {
+        onSuccess: (result) => {
+          showUrl(result)
+          toast.success(result.url ? 'Calendar feed created' : 'Calendar feed updated')
+        },
+        onError: (error) => toast.error(getErrorMessage(error)),
+      },
+    )
+  }
+
+  const handleRegenerate = () => {
+    regenerateMutation.mutate(undefined, {
+      onSuccess: (result) => {
+        showUrl(result)
+        toast.success('New feed URL created')
+      },
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  const handleDelete = () => {
+    deleteMutation.mutate(undefined, {
+      onSuccess: () => {
+        setFeedUrl(null)
+        toast.success('Calendar feed deleted')
+      },
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  const handleCopy = async () => {
+    if (!feedUrl) return
+    try {
+      await navigator.clipboard.writeText(feedUrl)
+      setCopied(true)
+      toast.success('Feed URL copied to clipboard')
+    } catch {
+      toast.error('Failed to copy feed URL')
+    }
+  }
+
+  const transitsWithoutSubject = categories.includes('transits') && subjectId === NO_SUBJECT
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar Feed</CardTitle>
+        <CardDescription>
+          Subscribe from Google Calendar, Apple Calendar or Outlook to see transits, lunations, eclipses, ingresses and
+          stations from {CALENDAR_FEED_PAST_DAYS} days ago to {CALENDAR_FEED_FUTURE_DAYS} days ahead. The feed follows
+          your active points and aspects.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="calendar-feed-subject">Transits to</Label>
+                <Select value={subjectId} onValueChange={setSubjectId}>
+                  <SelectTrigger id="calendar-feed-subject">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SUBJECT}>No subject (sky events only)</SelectItem>
+                    {(subjectsQuery.data ?? []).map((subject) => (
+                      <SelectItem key={subject.id} value={subject.id}>
+                        {subject.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="calendar-feed-timezone">Time zone</Label>
+                <TimezoneCombobox id="calendar-feed-timezone" value={timezone} onChange={setTimezone} side="bottom" />
+              </div>
+            </div>
+
+            <fieldset className="grid gap-2">
+              <legend className="text-sm font-medium mb-2">Events</legend>
+              <div className="grid gap-2 sm:grid-cols-3">
+                {CALENDAR_EVENT_CATEGORIES.map((category) => (
+                  <div key={category.value} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`calendar-feed-${category.value}`}
+                      checked={categories.includes(category.value)}
+                      onCheckedChange={(checked) => toggleCategory(category.value, checked === true)}
+                    />
+                    <Label htmlFor={`calendar-feed-${category.value}`} className="font-normal">
+                      {category.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              {transitsWithoutSubject && (
+                <p className="text-xs text-muted-foreground">Choose a subject to include transits.</p>
+              )}
+            </fieldset>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button onClick={handleSave} disabled={saveMutation.isPending || categories.length === 0}>
+                {saveMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <CalendarPlus className="mr-2 h-4 w-4" />
+                )}
+                {feed ? 'Save Feed Settings' : 'Create Feed'}
+              </Button>
+
+              {feed && (
+                <>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="outline" disabled={regenerateMutation.isPending}>
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        New URL
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Replace the feed URL?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Calendars subscribed to the current URL will stop updating. You will need to subscribe again
+                          with the new URL.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleRegenerate}>Replace URL</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        className="text-destructive hover:text-destructive"
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete Feed
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete the calendar feed?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Subscribed calendars will stop updating and may remove the events.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </>
+              )}
+            </div>
+
+            {feed && !feedUrl && (
+              <p className="text-xs text-muted-foreground">
+                Created {formatDisplayDate(feed.createdAt, dateFormat)} •{' '}
+                {feed.lastFetchedAt
+                  ? `last fetched ${formatDisplayDate(feed.lastFetchedAt, dateFormat, { includeTime: true, timeFormat })}`
+                  : 'not fetched yet'}
+                . The URL is only shown when it is created; use New URL if you lost it.
+              </p>
+            )}
+
+            {feedUrl && (
+              <div className="grid gap-2 rounded-md border p-3">
+                <div className="flex gap-2">
+                  <Input readOnly value={feedUrl} onFocus={(e) => e.target.select()} aria-label="Feed URL" />
+                  <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy feed URL">
+                    {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Copy the URL now: it will not be shown again. Anyone with it can read the feed.{' '}
+                  <a href={feedUrl.replace(/^https?:/, 'webcal:')} className="underline">
+                    Open in calendar app
+                  </a>
+                </p>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -18,6 +18,7 @@ export const DEFAULT_PREFERENCES: ChartPreferencesData = {
   show_aspect_icons: true,
 
   show_degree_indicators: true,
+  chart_layout: 'western',
   distribution_method: 'weighted',
   active_points: [
     'Sun',
@@ -0,0 +1,245 @@
+'use client'
+
+/**
+ * Settings card for the personal access tokens of the public REST API
+ *
+ * A token is shown once, right after it is created; the list only shows its
+ * first characters.
+ *
+ * @module components/settings/account/ApiTokensCard
+ */
+
+import { useState } from 'react'
+import { Check, Copy, KeyRound, Loader2, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { useApiTokens } from '@/hooks/useApiTokens'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { API_TOKEN_EXPIRY_OPTIONS, API_TOKEN_SCOPES, type ApiTokenScope } from '@/lib/public-api/tokens'
+import { formatDisplayDate } from '@/lib/utils/date'
+import { getErrorMessage } from '@/lib/utils/error'
+
+const NO_EXPIRATION = 'never'
+
+const DEFAULT_SCOPES: ApiTokenScope[] = ['subjects:read', 'charts:compute']
+
+export function ApiTokensCard() {
+  const { dateFormat } = useChartPreferences()
+  const { data: tokens = [], isLoading, createMutation, revokeMutation } = useApiTokens()
+
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(DEFAULT_SCOPES)
+  const [expiry, setExpiry] = useState('90')
+  const [newToken, setNewToken] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((existing) => existing !== scope)))
+  }
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    createMutation.mutate(
+      { name, scopes, expiresInDays: expiry === NO_EXPIRATION ? null : Number(expiry) },
+      {
+        onSuccess: ({ token }) => {
+          setNewToken(token)
+          setCopied(false)
+          setName('')
+          toast.success('Access token created')
+        },
+        onError: (error) => toast.error(getErrorMessage(error)),
+      },
+    )
+  }
+
+  const handleRevoke = (id: string) => {
+    revokeMutation.mutate(id, {
+      onSuccess: () => toast.success('Access token revoked'),
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  const handleCopy = async () => {
+    if (!newToken) return
+    try {
+      await navigator.clipboard.writeText(newToken)
+      setCopied(true)
+      toast.success('Token copied to clipboard')
+    } catch {
+      toast.error('Failed to copy token')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API Access Tokens</CardTitle>
+        <CardDescription>
+          Personal access tokens let your own scripts and integrations use the REST API at /api/v1 on your behalf. Send
+          them as <code className="text-xs">Authorization: Bearer &lt;token&gt;</code>. The API is described in the{' '}
+          <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="underline">
+            OpenAPI document
+          </a>
+          .
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6">
+        <form onSubmit={handleCreate} className="grid gap-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="api-token-name">Name</Label>
+              <Input
+                id="api-token-name"
+                placeholder="CRM sync"
+                value={name}
+                maxLength={80}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="api-token-expiry">Expiration</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="api-token-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {API_TOKEN_EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.label} value={option.value === null ? NO_EXPIRATION : String(option.value)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <fieldset className="grid gap-2">
+            <legend className="text-sm font-medium mb-2">Scopes</legend>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {API_TOKEN_SCOPES.map((scope) => (
+                <div key={scope.value} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`api-token-${scope.value}`}
+                    checked={scopes.includes(scope.value)}
+                    onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                  />
+                  <Label htmlFor={`api-token-${scope.value}`} className="grid gap-0.5 font-normal">
+                    {scope.label}
+                    <span className="text-xs text-muted-foreground">{scope.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </fieldset>
+
+          <div>
+            <Button type="submit" disabled={createMutation.isPending || !name.trim() || scopes.length === 0}>
+              {createMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <KeyRound className="mr-2 h-4 w-4" />
+              )}
+              Create Token
+            </Button>
+          </div>
+        </form>
+
+        {newToken && (
+          <div className="grid gap-2 rounded-md border p-3">
+            <div className="flex gap-2">
+              <Input
+                readOnly
+                value={newToken}
+                onFocus={(e) => e.target.select()}
+                aria-label="Access token"
+                className="font-mono"
+              />
+              <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy access token">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Copy the token now: it will not be shown again. Anyone with it can use the API with its scopes.
+            </p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No active access tokens.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {tokens.map((token) => (
+              <li key={token.id} className="flex flex-wrap items-center justify-between gap-3 p-3">
+                <div className="grid gap-1">
+                  <p className="font-medium">
+                    {token.name} <code className="text-xs text-muted-foreground">{token.tokenPrefix}…</code>
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {token.scopes.map((scope) => (
+                      <Badge key={scope} variant="secondary" className="font-mono text-[10px]">
+                        {scope}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Created {formatDisplayDate(token.createdAt, dateFormat)} •{' '}
+                    {token.lastUsedAt ? `last used ${formatDisplayDate(token.lastUsedAt, dateFormat)}` : 'never used'} •{' '}
+                    {token.expiresAt ? `expires ${formatDisplayDate(token.expiresAt, dateFormat)}` : 'no expiration'}
+                  </p>
+                </div>
+
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      disabled={revokeMutation.isPending}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Revoke
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Revoke “{token.name}”?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Integrations using this token will stop working immediately. This cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleRevoke(token.id)}>Revoke</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
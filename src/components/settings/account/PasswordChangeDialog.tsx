@@ -1,6 +1,7 @@
 'use client'
 
 import { useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -8,6 +9,7 @@ import { toast } from 'sonner'
 import { Loader2, KeyRound, AlertCircle } from 'lucide-react'
 import { changePassword, createPassword } from '@/actions/auth'
 import { MIN_PASSWORD_LENGTH } from '@/lib/validation/password'
+import { queryKeys } from '@/lib/query-keys'
 import {
   Dialog,
   DialogContent,
@@ -25,6 +27,7 @@ export interface PasswordChangeDialogProps {
 // Password Change/Create Dialog Component
 // Shows "Create Password" for OAuth users, "Change Password" for users with existing password
 export function PasswordChangeDialog({ hasPassword }: PasswordChangeDialogProps) {
+  const queryClient = useQueryClient()
   const [open, setOpen] = useState(false)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -61,6 +64,10 @@ export function PasswordChangeDialog({ hasPassword }: PasswordChangeDialogProps)
         setError(result.error)
       } else {
         toast.success(isCreateMode ? 'Password created successfully!' : 'Password changed successfully!')
+        // Changing the password signed out the other devices
+        if (!isCreateMode) {
+          queryClient.invalidateQueries({ queryKey: queryKeys.userSessions })
+        }
         setOpen(false)
         setCurrentPassword('')
         setNewPassword('')
@@ -87,7 +94,7 @@ export function PasswordChangeDialog({ hasPassword }: PasswordChangeDialogProps)
           <DialogDescription>
             {isCreateMode
               ? 'Set a password to also login with your username and password.'
-              : 'Enter your current password and choose a new one.'}
+              : 'Enter your current password and choose a new one. You will be signed out on your other devices.'}
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit}>
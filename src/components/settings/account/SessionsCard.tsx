@@ -0,0 +1,146 @@
+'use client'
+
+/**
+ * Settings card listing the signed-in browsers and devices
+ *
+ * Each one can be signed out, which takes effect on its next request. Signing
+ * out everywhere includes this browser and returns to the login page.
+ *
+ * @module components/settings/account/SessionsCard
+ */
+
+import { useRouter } from 'next/navigation'
+import { useQueryClient } from '@tanstack/react-query'
+import { Loader2, LogOut, Monitor, Smartphone } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { useUserSessions } from '@/hooks/useUserSessions'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { formatDisplayDate, formatDisplayTime } from '@/lib/utils/date'
+import { getErrorMessage } from '@/lib/utils/error'
+
+const MOBILE_DEVICE = /iPhone|iPad|Android/
+
+export function SessionsCard() {
+  const router = useRouter()
+  const queryClient = useQueryClient()
+  const { dateFormat, timeFormat } = useChartPreferences()
+  const { data: sessions = [], isLoading, signOutMutation, signOutEverywhereMutation } = useUserSessions()
+
+  const returnToLogin = () => {
+    queryClient.clear()
+    router.push('/login')
+  }
+
+  const formatDateTime = (date: Date) => `${formatDisplayDate(date, dateFormat)} ${formatDisplayTime(date, timeFormat)}`
+
+  const handleSignOut = (id: string) => {
+    signOutMutation.mutate(id, {
+      onSuccess: ({ current }) => {
+        if (current) {
+          returnToLogin()
+          return
+        }
+        toast.success('Device signed out')
+      },
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  const handleSignOutEverywhere = () => {
+    signOutEverywhereMutation.mutate(undefined, {
+      onSuccess: returnToLogin,
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Devices &amp; Sessions</CardTitle>
+        <CardDescription>
+          Browsers and devices signed in to your account. Sign out any you do not recognise, then change your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4">
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {sessions.map((session) => {
+              const DeviceIcon = MOBILE_DEVICE.test(session.device) ? Smartphone : Monitor
+              return (
+                <li key={session.id} className="flex flex-wrap items-center justify-between gap-3 p-3">
+                  <div className="flex items-start gap-3">
+                    <DeviceIcon className="mt-0.5 h-4 w-4 text-muted-foreground" />
+                    <div className="grid gap-1">
+                      <p className="flex items-center gap-2 font-medium">
+                        {session.device}
+                        {session.current && <Badge variant="secondary">This device</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {session.ipAddress} • last active {formatDateTime(session.lastActiveAt)} • signed in{' '}
+                        {formatDisplayDate(session.createdAt, dateFormat)}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={signOutMutation.isPending}
+                    onClick={() => handleSignOut(session.id)}
+                  >
+                    <LogOut className="mr-2 h-4 w-4" />
+                    Sign out
+                  </Button>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+
+        <div>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="outline"
+                className="text-destructive hover:text-destructive"
+                disabled={isLoading || signOutEverywhereMutation.isPending}
+              >
+                {signOutEverywhereMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Sign out everywhere
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Sign out everywhere?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Every browser and device will be signed out, including this one. You will need to log in again.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleSignOutEverywhere}>Sign out everywhere</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,392 @@
+'use client'
+
+/**
+ * Settings card for two-factor authentication
+ *
+ * An authenticator app and passkeys can be used as second factors. Recovery
+ * codes are issued when the first one is set up and shown only then; turning
+ * two-factor off signs the account out everywhere else.
+ *
+ * @module components/settings/account/TwoFactorCard
+ */
+
+import { useState } from 'react'
+import { Check, Copy, Fingerprint, Loader2, ShieldCheck, Smartphone, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { useTwoFactor } from '@/hooks/useTwoFactor'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { isPasskeySupported } from '@/lib/two-factor/browser'
+import { PASSKEY_NAME_MAX_LENGTH, type TotpSetup } from '@/lib/two-factor/types'
+import { formatDisplayDate } from '@/lib/utils/date'
+import { getErrorMessage } from '@/lib/utils/error'
+
+interface CodePromptDialogProps {
+  trigger: React.ReactNode
+  title: string
+  description: string
+  confirmLabel: string
+  isPending: boolean
+  onConfirm: (code: string, close: () => void) => void
+}
+
+/**
+ * Dialog asking for an authenticator code or a recovery code
+ */
+function CodePromptDialog({ trigger, title, description, confirmLabel, isPending, onConfirm }: CodePromptDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [code, setCode] = useState('')
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next)
+    if (!next) setCode('')
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onConfirm(code, () => handleOpenChange(false))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="two-factor-prompt-code">Authenticator or recovery code</Label>
+            <Input
+              id="two-factor-prompt-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoComplete="one-time-code"
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending || !code.trim()}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {confirmLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function TwoFactorCard() {
+  const { dateFormat } = useChartPreferences()
+  const {
+    data: status,
+    isLoading,
+    startTotpMutation,
+    confirmTotpMutation,
+    registerPasskeyMutation,
+    deletePasskeyMutation,
+    regenerateCodesMutation,
+    disableMutation,
+  } = useTwoFactor()
+
+  const [totpSetup, setTotpSetup] = useState<TotpSetup | null>(null)
+  const [totpCode, setTotpCode] = useState('')
+  const [passkeyName, setPasskeyName] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const showRecoveryCodes = (codes: string[] | null) => {
+    if (!codes) return
+    setRecoveryCodes(codes)
+    setCopied(false)
+  }
+
+  const handleStartTotp = () => {
+    startTotpMutation.mutate(undefined, {
+      onSuccess: (setup) => {
+        setTotpSetup(setup)
+        setTotpCode('')
+      },
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  const handleConfirmTotp = (e: React.FormEvent) => {
+    e.preventDefault()
+    confirmTotpMutation.mutate(totpCode, {
+      onSuccess: ({ recoveryCodes: codes }) => {
+        setTotpSetup(null)
+        showRecoveryCodes(codes)
+        toast.success('Authenticator app set up')
+      },
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  const handleAddPasskey = (e: React.FormEvent) => {
+    e.preventDefault()
+    registerPasskeyMutation.mutate(passkeyName.trim() || 'Passkey', {
+      onSuccess: ({ recoveryCodes: codes }) => {
+        setPasskeyName('')
+        showRecoveryCodes(codes)
+        toast.success('Passkey added')
+      },
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  const handleDeletePasskey = (id: string) => {
+    deletePasskeyMutation.mutate(id, {
+      onSuccess: () => toast.success('Passkey removed'),
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'))
+      setCopied(true)
+      toast.success('Recovery codes copied to clipboard')
+    } catch {
+      toast.error('Failed to copy recovery codes')
+    }
+  }
+
+  if (isLoading || !status) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Two-Factor Authentication</CardTitle>
+        </CardHeader>
+        <CardContent className="flex justify-center p-4">
+          <Loader2 className="h-5 w-5 animate-spin" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          <Badge variant={status.enabled ? 'default' : 'secondary'}>{status.enabled ? 'On' : 'Off'}</Badge>
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app or a passkey after your password, including when you sign in with
+          Google.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6">
+        {recoveryCodes && (
+          <div className="grid gap-3 rounded-md border p-3">
+            <p className="text-sm font-medium">Recovery codes</p>
+            <ul className="grid grid-cols-2 gap-1 font-mono text-sm">
+              {recoveryCodes.map((code) => (
+                <li key={code}>{code}</li>
+              ))}
+            </ul>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="outline" size="sm" onClick={handleCopyCodes}>
+                {copied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+                Copy
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setRecoveryCodes(null)}>
+                I have saved them
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Keep these somewhere safe: each works once to sign in without your second factor. They will not be shown
+              again.
+            </p>
+          </div>
+        )}
+
+        {/* Authenticator app */}
+        <div className="grid gap-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Smartphone className="h-4 w-4 text-muted-foreground" />
+              <p className="font-medium">Authenticator app</p>
+            </div>
+            {status.totpEnabled ? (
+              <Badge variant="outline">
+                <ShieldCheck className="mr-1 h-3 w-3" />
+                Set up
+              </Badge>
+            ) : (
+              !totpSetup && (
+                <Button variant="outline" size="sm" onClick={handleStartTotp} disabled={startTotpMutation.isPending}>
+                  {startTotpMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Set up
+                </Button>
+              )
+            )}
+          </div>
+
+          {totpSetup && (
+            <form onSubmit={handleConfirmTotp} className="grid gap-3 rounded-md border p-3">
+              <p className="text-sm text-muted-foreground">
+                Add this key to your authenticator app, or{' '}
+                <a href={totpSetup.uri} className="underline">
+                  open it in the app
+                </a>{' '}
+                on this device, then enter the code it shows.
+              </p>
+              <Input
+                readOnly
+                value={totpSetup.secret}
+                onFocus={(e) => e.target.select()}
+                aria-label="Authenticator key"
+                className="font-mono"
+              />
+              <div className="flex flex-wrap gap-2">
+                <Input
+                  value={totpCode}
+                  onChange={(e) => setTotpCode(e.target.value)}
+                  placeholder="123456"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  aria-label="Code from the app"
+                  className="max-w-40"
+                />
+                <Button type="submit" disabled={confirmTotpMutation.isPending || !totpCode.trim()}>
+                  {confirmTotpMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Confirm
+                </Button>
+                <Button type="button" variant="ghost" onClick={() => setTotpSetup(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          )}
+        </div>
+
+        {/* Passkeys */}
+        <div className="grid gap-3">
+          <div className="flex items-center gap-2">
+            <Fingerprint className="h-4 w-4 text-muted-foreground" />
+            <p className="font-medium">Passkeys</p>
+          </div>
+
+          {status.passkeys.length > 0 && (
+            <ul className="divide-y rounded-md border">
+              {status.passkeys.map((passkey) => (
+                <li key={passkey.id} className="flex flex-wrap items-center justify-between gap-3 p-3">
+                  <div className="grid gap-1">
+                    <p className="font-medium">{passkey.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Added {formatDisplayDate(passkey.createdAt, dateFormat)} •{' '}
+                      {passkey.lastUsedAt
+                        ? `last used ${formatDisplayDate(passkey.lastUsedAt, dateFormat)}`
+                        : 'never used'}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive"
+                    disabled={deletePasskeyMutation.isPending}
+                    onClick={() => handleDeletePasskey(passkey.id)}
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Remove
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isPasskeySupported() ? (
+            <form onSubmit={handleAddPasskey} className="flex flex-wrap gap-2">
+              <Input
+                value={passkeyName}
+                onChange={(e) => setPasskeyName(e.target.value)}
+                placeholder="Security key, laptop…"
+                maxLength={PASSKEY_NAME_MAX_LENGTH}
+                aria-label="Passkey name"
+                className="max-w-64"
+              />
+              <Button type="submit" variant="outline" disabled={registerPasskeyMutation.isPending}>
+                {registerPasskeyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add passkey
+              </Button>
+            </form>
+          ) : (
+            <p className="text-sm text-muted-foreground">This browser does not support passkeys.</p>
+          )}
+        </div>
+
+        {status.enabled && (
+          <div className="flex flex-wrap items-center justify-between gap-3 border-t pt-4">
+            <p className="text-sm text-muted-foreground">
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} left
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <CodePromptDialog
+                trigger={
+                  <Button variant="outline" size="sm">
+                    New recovery codes
+                  </Button>
+                }
+                title="Replace recovery codes"
+                description="Your current recovery codes will stop working."
+                confirmLabel="Replace"
+                isPending={regenerateCodesMutation.isPending}
+                onConfirm={(code, close) =>
+                  regenerateCodesMutation.mutate(code, {
+                    onSuccess: (codes) => {
+                      close()
+                      showRecoveryCodes(codes)
+                    },
+                    onError: (error) => toast.error(getErrorMessage(error)),
+                  })
+                }
+              />
+              <CodePromptDialog
+                trigger={
+                  <Button variant="outline" size="sm" className="text-destructive hover:text-destructive">
+                    Turn off
+                  </Button>
+                }
+                title="Turn off two-factor authentication?"
+                description="Your authenticator app, passkeys and recovery codes will be removed, and you will be signed out on every other device."
+                confirmLabel="Turn off"
+                isPending={disableMutation.isPending}
+                onConfirm={(code, close) =>
+                  disableMutation.mutate(code, {
+                    onSuccess: () => {
+                      close()
+                      setRecoveryCodes(null)
+                      toast.success('Two-factor authentication turned off')
+                    },
+                    onError: (error) => toast.error(getErrorMessage(error)),
+                  })
+                }
+              />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,407 @@
+'use client'
+
+/**
+ * Settings card for outbound webhooks
+ *
+ * Endpoints receive signed POST requests for the events they subscribe to.
+ * The signing secret is shown once, when the endpoint is created or its
+ * secret is rotated. Each endpoint has a delivery log with manual retries.
+ *
+ * @module components/settings/account/WebhooksCard
+ */
+
+import { useState } from 'react'
+import { Check, Copy, History, Loader2, RefreshCw, RotateCw, Trash2, Webhook } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { useWebhookDeliveries, useWebhookEndpoints } from '@/hooks/useWebhooks'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import {
+  WEBHOOK_EVENTS,
+  type WebhookDeliveryStatus,
+  type WebhookEndpointSummary,
+  type WebhookEventType,
+} from '@/lib/webhooks/events'
+import { formatDisplayDate } from '@/lib/utils/date'
+import { getErrorMessage } from '@/lib/utils/error'
+
+const DEFAULT_EVENTS: WebhookEventType[] = ['subject.created', 'subject.updated']
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'secondary' | 'outline' | 'destructive'> = {
+  succeeded: 'secondary',
+  pending: 'outline',
+  failed: 'destructive',
+}
+
+/**
+ * Delivery log of one endpoint, loaded when it is opened
+ */
+function DeliveryLog({ endpointId }: { endpointId: string }) {
+  const { dateFormat, timeFormat } = useChartPreferences()
+  const { data: deliveries = [], isLoading, refetch, isFetching, redeliverMutation } = useWebhookDeliveries(endpointId)
+
+  const handleRedeliver = (id: string) => {
+    redeliverMutation.mutate(id, {
+      onSuccess: (delivery) =>
+        delivery.status === 'succeeded'
+          ? toast.success('Delivery succeeded')
+          : toast.error(delivery.error ?? 'Delivery failed'),
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-3">
+        <Loader2 className="h-4 w-4 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-muted-foreground">Latest deliveries (times in UTC)</p>
+        <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`mr-2 h-3 w-3 ${isFetching ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+      {deliveries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No deliveries yet.</p>
+      ) : (
+        <ul className="divide-y rounded-md border text-sm">
+          {deliveries.map((delivery) => (
+            <li key={delivery.id} className="flex flex-wrap items-center justify-between gap-2 p-2">
+              <div className="grid gap-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <code className="text-xs">{delivery.eventType}</code>
+                  <Badge variant={STATUS_VARIANTS[delivery.status]} className="text-[10px]">
+                    {delivery.status}
+                  </Badge>
+                  {delivery.responseStatus !== null && (
+                    <span className="text-xs text-muted-foreground">HTTP {delivery.responseStatus}</span>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatDisplayDate(delivery.createdAt, dateFormat, { includeTime: true, timeFormat })} •{' '}
+                  {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                  {delivery.status === 'pending' && delivery.nextAttemptAt
+                    ? ` • next ${formatDisplayDate(delivery.nextAttemptAt, dateFormat, { includeTime: true, timeFormat })}`
+                    : ''}
+                </p>
+                {delivery.error && <p className="text-xs text-destructive">{delivery.error}</p>}
+              </div>
+              {delivery.status !== 'succeeded' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRedeliver(delivery.id)}
+                  disabled={redeliverMutation.isPending}
+                >
+                  <RotateCw className="mr-2 h-3 w-3" />
+                  Retry
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+interface EndpointItemProps {
+  endpoint: WebhookEndpointSummary
+  onSecret: (secret: string) => void
+}
+
+function EndpointItem({ endpoint, onSecret }: EndpointItemProps) {
+  const { dateFormat } = useChartPreferences()
+  const { setEnabledMutation, rotateSecretMutation, deleteMutation } = useWebhookEndpoints()
+  const [showLog, setShowLog] = useState(false)
+
+  const handleToggle = (enabled: boolean) => {
+    setEnabledMutation.mutate(
+      { id: endpoint.id, enabled },
+      {
+        onSuccess: () => toast.success(enabled ? 'Webhook resumed' : 'Webhook paused'),
+        onError: (error) => toast.error(getErrorMessage(error)),
+      },
+    )
+  }
+
+  const handleRotate = () => {
+    rotateSecretMutation.mutate(endpoint.id, {
+      onSuccess: ({ secret }) => {
+        onSecret(secret)
+        toast.success('Signing secret rotated')
+      },
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  const handleDelete = () => {
+    deleteMutation.mutate(endpoint.id, {
+      onSuccess: () => toast.success('Webhook deleted'),
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  return (
+    <li className="grid gap-3 p-3">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="grid gap-1 min-w-0">
+          <p className="font-medium break-all">{endpoint.url}</p>
+          {endpoint.description && <p className="text-sm text-muted-foreground">{endpoint.description}</p>}
+          <div className="flex flex-wrap gap-1">
+            {endpoint.events.map((event) => (
+              <Badge key={event} variant="secondary" className="font-mono text-[10px]">
+                {event}
+              </Badge>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">Created {formatDisplayDate(endpoint.createdAt, dateFormat)}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`webhook-enabled-${endpoint.id}`} className="text-sm font-normal">
+            {endpoint.enabled ? 'Active' : 'Paused'}
+          </Label>
+          <Switch
+            id={`webhook-enabled-${endpoint.id}`}
+            checked={endpoint.enabled}
+            onCheckedChange={handleToggle}
+            disabled={setEnabledMutation.isPending}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={() => setShowLog((current) => !current)}>
+          <History className="mr-2 h-4 w-4" />
+          {showLog ? 'Hide deliveries' : 'Deliveries'}
+        </Button>
+
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" size="sm" disabled={rotateSecretMutation.isPending}>
+              <RotateCw className="mr-2 h-4 w-4" />
+              Rotate Secret
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Rotate the signing secret?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Deliveries are signed with the new secret right away. Update your receiver, or it will reject them.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleRotate}>Rotate</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-destructive hover:text-destructive"
+              disabled={deleteMutation.isPending}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete this webhook?</AlertDialogTitle>
+              <AlertDialogDescription>
+                No more events will be sent to {endpoint.url}, and its delivery log will be deleted.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      {showLog && <DeliveryLog endpointId={endpoint.id} />}
+    </li>
+  )
+}
+
+export function WebhooksCard() {
+  const { data: endpoints = [], isLoading, createMutation } = useWebhookEndpoints()
+
+  const [url, setUrl] = useState('')
+  const [description, setDescription] = useState('')
+  const [events, setEvents] = useState<WebhookEventType[]>(DEFAULT_EVENTS)
+  const [secret, setSecret] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    setEvents((current) => (checked ? [...current, event] : current.filter((existing) => existing !== event)))
+  }
+
+  const showSecret = (value: string) => {
+    setSecret(value)
+    setCopied(false)
+  }
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    createMutation.mutate(
+      { url: url.trim(), description: description.trim() || undefined, events },
+      {
+        onSuccess: ({ secret: newSecret }) => {
+          showSecret(newSecret)
+          setUrl('')
+          setDescription('')
+          toast.success('Webhook created')
+        },
+        onError: (error) => toast.error(getErrorMessage(error)),
+      },
+    )
+  }
+
+  const handleCopy = async () => {
+    if (!secret) return
+    try {
+      await navigator.clipboard.writeText(secret)
+      setCopied(true)
+      toast.success('Secret copied to clipboard')
+    } catch {
+      toast.error('Failed to copy secret')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Webhooks</CardTitle>
+        <CardDescription>
+          Notify your booking, CRM or automation tools when subjects change, charts are saved or AI interpretations
+          complete. Requests are signed following the{' '}
+          <a href="https://www.standardwebhooks.com/" target="_blank" rel="noreferrer" className="underline">
+            Standard Webhooks
+          </a>{' '}
+          scheme and retried with increasing delays when your endpoint does not answer with a 2xx status.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6">
+        <form onSubmit={handleCreate} className="grid gap-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="webhook-url">Endpoint URL</Label>
+              <Input
+                id="webhook-url"
+                type="url"
+                placeholder="https://example.com/webhooks/astrologer"
+                value={url}
+                maxLength={2000}
+                onChange={(e) => setUrl(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="webhook-description">Description (optional)</Label>
+              <Input
+                id="webhook-description"
+                placeholder="Booking system"
+                value={description}
+                maxLength={120}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <fieldset className="grid gap-2">
+            <legend className="text-sm font-medium mb-2">Events</legend>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {WEBHOOK_EVENTS.map((event) => (
+                <div key={event.value} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`webhook-${event.value}`}
+                    checked={events.includes(event.value)}
+                    onCheckedChange={(checked) => toggleEvent(event.value, checked === true)}
+                  />
+                  <Label htmlFor={`webhook-${event.value}`} className="grid gap-0.5 font-normal">
+                    {event.label}
+                    <span className="text-xs text-muted-foreground">{event.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </fieldset>
+
+          <div>
+            <Button type="submit" disabled={createMutation.isPending || !url.trim() || events.length === 0}>
+              {createMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Webhook className="mr-2 h-4 w-4" />
+              )}
+              Add Webhook
+            </Button>
+          </div>
+        </form>
+
+        {secret && (
+          <div className="grid gap-2 rounded-md border p-3">
+            <div className="flex gap-2">
+              <Input
+                readOnly
+                value={secret}
+                onFocus={(e) => e.target.select()}
+                aria-label="Signing secret"
+                className="font-mono"
+              />
+              <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy signing secret">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Copy the signing secret now: it will not be shown again. Verify the webhook-signature header of each
+              request with it.
+            </p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : endpoints.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No webhooks yet.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {endpoints.map((endpoint) => (
+              <EndpointItem key={endpoint.id} endpoint={endpoint} onSecret={showSecret} />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
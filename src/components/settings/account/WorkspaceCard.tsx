@@ -0,0 +1,435 @@
+'use client'
+
+/**
+ * Settings card for team workspaces
+ *
+ * Switches between the personal library and the workspaces of the user, creates
+ * workspaces, and lets the owner of the active workspace invite and manage members.
+ *
+ * @module components/settings/account/WorkspaceCard
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Loader2, LogOut, Mail, Plus, Trash2, Users, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { useChartPreferences } from '@/hooks/useChartPreferences'
+import { useWorkspaceMembers, useWorkspaces } from '@/hooks/useWorkspaces'
+import {
+  INVITABLE_WORKSPACE_ROLES,
+  WORKSPACE_ROLE_LABELS,
+  type WorkspaceRole,
+  type WorkspaceSummary,
+} from '@/lib/workspaces/roles'
+import { formatDisplayDate } from '@/lib/utils/date'
+import { getErrorMessage } from '@/lib/utils/error'
+
+const PERSONAL_LIBRARY = 'personal'
+
+type InvitableRole = Exclude<WorkspaceRole, 'owner'>
+
+export function WorkspaceCard() {
+  const router = useRouter()
+  const {
+    data: workspaces = [],
+    isLoading,
+    createMutation,
+    switchMutation,
+    deleteMutation,
+    leaveMutation,
+  } = useWorkspaces()
+
+  const [name, setName] = useState('')
+  const [moveLibrary, setMoveLibrary] = useState(false)
+
+  const activeWorkspace = workspaces.find((workspace) => workspace.isActive) ?? null
+
+  const handleSwitch = (value: string) => {
+    switchMutation.mutate(value === PERSONAL_LIBRARY ? null : value, {
+      onSuccess: () => {
+        router.refresh()
+        toast.success('Library switched')
+      },
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    createMutation.mutate(
+      { name, moveLibrary },
+      {
+        onSuccess: () => {
+          setName('')
+          setMoveLibrary(false)
+          router.refresh()
+          toast.success('Workspace created')
+        },
+        onError: (error) => toast.error(getErrorMessage(error)),
+      },
+    )
+  }
+
+  const handleDelete = (workspace: WorkspaceSummary) => {
+    deleteMutation.mutate(workspace.id, {
+      onSuccess: () => {
+        router.refresh()
+        toast.success('Workspace deleted')
+      },
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  const handleLeave = (workspace: WorkspaceSummary) => {
+    leaveMutation.mutate(workspace.id, {
+      onSuccess: () => {
+        router.refresh()
+        toast.success(`You left ${workspace.name}`)
+      },
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Team Workspaces</CardTitle>
+        <CardDescription>
+          Share subjects and saved charts with other astrologers and assistants. The subjects and charts you see are
+          those of the library selected here. A workspace uses the subscription plan of its owner.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6">
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <div className="grid gap-2 sm:max-w-sm">
+            <Label htmlFor="workspace-library">Library</Label>
+            <Select
+              value={activeWorkspace?.id ?? PERSONAL_LIBRARY}
+              onValueChange={handleSwitch}
+              disabled={switchMutation.isPending}
+            >
+              <SelectTrigger id="workspace-library">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PERSONAL_LIBRARY}>Personal library</SelectItem>
+                {workspaces.map((workspace) => (
+                  <SelectItem key={workspace.id} value={workspace.id}>
+                    {workspace.name} ({WORKSPACE_ROLE_LABELS[workspace.role]})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {activeWorkspace && (
+          <div className="grid gap-4 rounded-md border p-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <p className="flex items-center gap-2 font-medium">
+                <Users className="h-4 w-4" />
+                {activeWorkspace.name}
+                <Badge variant="secondary">{WORKSPACE_ROLE_LABELS[activeWorkspace.role]}</Badge>
+              </p>
+
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive"
+                    disabled={deleteMutation.isPending || leaveMutation.isPending}
+                  >
+                    {activeWorkspace.role === 'owner' ? (
+                      <Trash2 className="mr-2 h-4 w-4" />
+                    ) : (
+                      <LogOut className="mr-2 h-4 w-4" />
+                    )}
+                    {activeWorkspace.role === 'owner' ? 'Delete Workspace' : 'Leave Workspace'}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>
+                      {activeWorkspace.role === 'owner' ? 'Delete' : 'Leave'} “{activeWorkspace.name}”?
+                    </AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {activeWorkspace.role === 'owner'
+                        ? 'Its subjects and saved charts move back to your personal library and members lose access to them.'
+                        : 'You will lose access to its subjects and saved charts until you are invited again.'}
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() =>
+                        activeWorkspace.role === 'owner' ? handleDelete(activeWorkspace) : handleLeave(activeWorkspace)
+                      }
+                    >
+                      {activeWorkspace.role === 'owner' ? 'Delete' : 'Leave'}
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+
+            <WorkspaceMembers workspace={activeWorkspace} />
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="grid gap-3">
+          <div className="grid gap-2 sm:max-w-sm">
+            <Label htmlFor="workspace-name">New workspace</Label>
+            <Input
+              id="workspace-name"
+              placeholder="Studio team"
+              value={name}
+              maxLength={80}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="workspace-move-library"
+              checked={moveLibrary}
+              onCheckedChange={(checked) => setMoveLibrary(checked === true)}
+            />
+            <Label htmlFor="workspace-move-library" className="font-normal">
+              Move my personal subjects and saved charts into the workspace
+            </Label>
+          </div>
+          <div>
+            <Button type="submit" disabled={createMutation.isPending || !name.trim()}>
+              {createMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              Create Workspace
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Members of a workspace; the owner can also invite, change roles and remove members
+ */
+function WorkspaceMembers({ workspace }: { workspace: WorkspaceSummary }) {
+  const { dateFormat } = useChartPreferences()
+  const { data, isLoading, inviteMutation, revokeInvitationMutation, updateRoleMutation, removeMutation } =
+    useWorkspaceMembers(workspace.id)
+  const isOwner = workspace.role === 'owner'
+
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<InvitableRole>('astrologer')
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault()
+    inviteMutation.mutate(
+      { email, role },
+      {
+        onSuccess: () => {
+          setEmail('')
+          toast.success(`Invitation sent to ${email}`)
+        },
+        onError: (error) => toast.error(getErrorMessage(error)),
+      },
+    )
+  }
+
+  const handleRoleChange = (userId: string, value: InvitableRole) => {
+    updateRoleMutation.mutate(
+      { userId, role: value },
+      {
+        onSuccess: () => toast.success('Role updated'),
+        onError: (error) => toast.error(getErrorMessage(error)),
+      },
+    )
+  }
+
+  const handleRemove = (userId: string) => {
+    removeMutation.mutate(userId, {
+      onSuccess: () => toast.success('Member removed'),
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  const handleRevoke = (id: string) => {
+    revokeInvitationMutation.mutate(id, {
+      onSuccess: () => toast.success('Invitation revoked'),
+      onError: (error) => toast.error(getErrorMessage(error)),
+    })
+  }
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center p-4">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid gap-4">
+      <ul className="divide-y rounded-md border">
+        {data.members.map((member) => (
+          <li key={member.userId} className="flex flex-wrap items-center justify-between gap-3 p-3">
+            <div className="grid gap-0.5">
+              <p className="font-medium">{member.username}</p>
+              <p className="text-xs text-muted-foreground">
+                {member.email ? `${member.email} • ` : ''}joined {formatDisplayDate(member.joinedAt, dateFormat)}
+              </p>
+            </div>
+
+            {isOwner && member.role !== 'owner' ? (
+              <div className="flex items-center gap-2">
+                <Select
+                  value={member.role}
+                  onValueChange={(value) => handleRoleChange(member.userId, value as InvitableRole)}
+                  disabled={updateRoleMutation.isPending}
+                >
+                  <SelectTrigger className="w-36" aria-label={`Role of ${member.username}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INVITABLE_WORKSPACE_ROLES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive hover:text-destructive"
+                      disabled={removeMutation.isPending}
+                      aria-label={`Remove ${member.username}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Remove {member.username}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        They lose access to the subjects and saved charts of this workspace. The records they created
+                        stay in the workspace.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleRemove(member.userId)}>Remove</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            ) : (
+              <Badge variant="outline">{WORKSPACE_ROLE_LABELS[member.role]}</Badge>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {isOwner && (
+        <>
+          <form onSubmit={handleInvite} className="grid gap-3 sm:grid-cols-[1fr_auto_auto] sm:items-end">
+            <div className="grid gap-2">
+              <Label htmlFor="workspace-invite-email">Invite by email</Label>
+              <Input
+                id="workspace-invite-email"
+                type="email"
+                placeholder="colleague@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="workspace-invite-role">Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as InvitableRole)}>
+                <SelectTrigger id="workspace-invite-role" className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INVITABLE_WORKSPACE_ROLES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={inviteMutation.isPending || !email.trim()}>
+              {inviteMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Mail className="mr-2 h-4 w-4" />
+              )}
+              Invite
+            </Button>
+          </form>
+          <p className="-mt-2 text-xs text-muted-foreground">
+            {INVITABLE_WORKSPACE_ROLES.map((option) => `${option.label}: ${option.description}.`).join(' ')}
+          </p>
+
+          {data.invitations.length > 0 && (
+            <div className="grid gap-2">
+              <p className="text-sm font-medium">Pending invitations</p>
+              <ul className="divide-y rounded-md border">
+                {data.invitations.map((invitation) => (
+                  <li key={invitation.id} className="flex flex-wrap items-center justify-between gap-3 p-3">
+                    <div className="grid gap-0.5">
+                      <p className="text-sm">
+                        {invitation.email} <Badge variant="outline">{WORKSPACE_ROLE_LABELS[invitation.role]}</Badge>
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Expires {formatDisplayDate(invitation.expiresAt, dateFormat)}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(invitation.id)}
+                      disabled={revokeInvitationMutation.isPending}
+                    >
+                      <X className="mr-2 h-4 w-4" />
+                      Revoke
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -2,3 +2,8 @@ export { SubscriptionCard } from './SubscriptionCard'
 export { EmailChangeDialog, type EmailChangeDialogProps } from './EmailChangeDialog'
 export { PasswordChangeDialog, type PasswordChangeDialogProps } from './PasswordChangeDialog'
 export { PendingEmailBanner, type PendingEmailBannerProps } from './PendingEmailBanner'
+export { ApiTokensCard } from './ApiTokensCard'
+export { WebhooksCard } from './WebhooksCard'
+export { WorkspaceCard } from './WorkspaceCard'
+export { TwoFactorCard } from './TwoFactorCard'
+export { SessionsCard } from './SessionsCard'
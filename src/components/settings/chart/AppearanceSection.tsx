@@ -4,6 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Label } from '@/components/ui/label'
 import { Switch } from '@/components/ui/switch'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import type { ChartLayout } from '@/lib/astrology/vedic'
 import { type ChartSettingsSectionProps } from './types'
 
 const AVAILABLE_THEMES = ['classic', 'dark', 'light', 'strawberry', 'dark-high-contrast', 'black-and-white']
@@ -72,11 +73,33 @@ export function AppearanceSection({ prefs, setPrefs }: ChartSettingsSectionProps
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="appearance-chart-layout">Chart Layout</Label>
+              <p className="text-sm text-muted-foreground">
+                Draw the natal chart as a Western wheel or a square Vedic chart.
+              </p>
+              <Select
+                value={prefs.chart_layout}
+                onValueChange={(val) => setPrefs((p) => ({ ...p, chart_layout: val as ChartLayout }))}
+              >
+                <SelectTrigger id="appearance-chart-layout">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="western">Western wheel</SelectItem>
+                  <SelectItem value="south_indian">South Indian</SelectItem>
+                  <SelectItem value="north_indian">North Indian</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <div className="flex items-center justify-between rounded-lg border p-4">
             <div className="space-y-0.5">
-              <Label htmlFor="appearance-degree-indicators" className="text-base">Show Degree Indicators</Label>
+              <Label htmlFor="appearance-degree-indicators" className="text-base">
+                Show Degree Indicators
+              </Label>
               <p className="text-sm text-muted-foreground">
                 Display radial lines and degree numbers for planet positions on the chart wheel.
               </p>
@@ -90,7 +113,9 @@ export function AppearanceSection({ prefs, setPrefs }: ChartSettingsSectionProps
 
           <div className="flex items-center justify-between rounded-lg border p-4">
             <div className="space-y-0.5">
-              <Label htmlFor="appearance-aspect-icons" className="text-base">Show Aspect Icons</Label>
+              <Label htmlFor="appearance-aspect-icons" className="text-base">
+                Show Aspect Icons
+              </Label>
               <p className="text-sm text-muted-foreground">
                 Display aspect symbols (conjunction, square, trine, etc.) on aspect lines.
               </p>
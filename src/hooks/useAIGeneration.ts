@@ -4,11 +4,14 @@ import { useAIInterpretation } from '@/stores/aiInterpretationSettings'
 import { CHART_TYPE_PROMPTS } from '@/lib/ai/prompts'
 import type { AIGenerationResult } from '@/components/NotesPanel'
 import type { ChartData } from '@/types/astrology'
+import type { HoraryQuestion } from '@/lib/astrology/horary'
 
 interface AIGenerationParams {
   chartData: ChartData | Record<string, unknown>
   chartType: string
   relationshipType?: string
+  /** Question and house assignment of a horary chart */
+  horary?: HoraryQuestion
 }
 
 /**
@@ -28,7 +31,7 @@ export function useAIGeneration() {
       onStreamUpdate?: (text: string) => void,
       signal?: AbortSignal,
     ): Promise<AIGenerationResult> => {
-      const { chartData, chartType, relationshipType } = params
+      const { chartData, chartType, relationshipType, horary } = params
 
       const response = await fetch('/api/ai/interpret', {
         method: 'POST',
@@ -41,6 +44,7 @@ export function useAIGeneration() {
           language,
           include_house_comparison,
           relationshipType,
+          horary,
         }),
         signal,
       })
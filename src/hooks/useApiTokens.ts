@@ -0,0 +1,37 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { createApiToken, getApiTokens, revokeApiToken, type ApiTokenInput } from '@/actions/api-tokens'
+import type { ApiTokenSummary } from '@/lib/public-api/tokens'
+import { queryKeys } from '@/lib/query-keys'
+import { STALE_TIME } from '@/lib/config/query'
+
+/**
+ * Personal access tokens of the current user, with create and revoke mutations
+ */
+export function useApiTokens() {
+  const queryClient = useQueryClient()
+  const queryKey = queryKeys.apiTokens
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getApiTokens(),
+    staleTime: STALE_TIME.MEDIUM,
+  })
+
+  const createMutation = useMutation({
+    mutationFn: (input: ApiTokenInput) => createApiToken(input),
+    onSuccess: ({ summary }) => {
+      queryClient.setQueryData<ApiTokenSummary[]>(queryKey, (tokens = []) => [summary, ...tokens])
+    },
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => revokeApiToken(id),
+    onSuccess: ({ id }) => {
+      queryClient.setQueryData<ApiTokenSummary[]>(queryKey, (tokens = []) => tokens.filter((token) => token.id !== id))
+    },
+  })
+
+  return { ...query, createMutation, revokeMutation }
+}
@@ -37,7 +37,9 @@ export function useAuth() {
       }
       return result
     },
-    onSuccess: async () => {
+    onSuccess: async (result) => {
+      // The password was right but a second factor is still needed
+      if (result.twoFactorRequired) return
       // Invalidate and refetch user data
       await queryClient.invalidateQueries({ queryKey: ['user', 'me'] })
       // Check for redirect parameter in URL
@@ -70,6 +72,7 @@ export function useAuth() {
     logout: logoutMutation.mutate,
     loginError: loginMutation.error,
     isLoginPending: loginMutation.isPending,
+    twoFactorRequired: !!loginMutation.data?.twoFactorRequired,
     resetLoginError: loginMutation.reset,
   }
 }
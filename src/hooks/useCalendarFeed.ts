@@ -0,0 +1,48 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  deleteCalendarFeed,
+  getCalendarFeed,
+  regenerateCalendarFeedToken,
+  saveCalendarFeed,
+  type CalendarFeedInput,
+} from '@/actions/calendar'
+import type { CalendarFeedSummary } from '@/lib/calendar/feed'
+import { queryKeys } from '@/lib/query-keys'
+import { STALE_TIME } from '@/lib/config/query'
+
+/**
+ * Calendar feed of the current user, with save, regenerate and delete mutations
+ */
+export function useCalendarFeed() {
+  const queryClient = useQueryClient()
+  const queryKey = queryKeys.calendarFeed
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getCalendarFeed(),
+    staleTime: STALE_TIME.MEDIUM,
+  })
+
+  const setFeed = ({ feed }: { feed: CalendarFeedSummary | null }) => {
+    queryClient.setQueryData<CalendarFeedSummary | null>(queryKey, feed)
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: (input: CalendarFeedInput) => saveCalendarFeed(input),
+    onSuccess: setFeed,
+  })
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => regenerateCalendarFeedToken(),
+    onSuccess: setFeed,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteCalendarFeed(),
+    onSuccess: () => setFeed({ feed: null }),
+  })
+
+  return { ...query, saveMutation, regenerateMutation, deleteMutation }
+}
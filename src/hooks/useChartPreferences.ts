@@ -14,6 +14,7 @@ export const DEFAULT_CHART_PREFERENCES: ChartPreferencesData = {
   time_format: '24h',
   show_aspect_icons: true,
   show_degree_indicators: true,
+  chart_layout: 'western',
   distribution_method: 'weighted',
   active_points: [],
   active_aspects: [],
@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query'
+import { getMultiWheelChart } from '@/actions/astrology'
+import { isRingSourceComplete } from '@/lib/astrology/multi-wheel'
+import type { Subject } from '@/types/subjects'
+import type { ChartRequestOptions } from '@/types/astrology'
+import type { MultiWheelRingSource } from '@/types/saved-chart-params'
+
+export function useMultiWheelChart(
+  subject: Subject | null | undefined,
+  rings: MultiWheelRingSource[],
+  options?: ChartRequestOptions,
+) {
+  const isComplete = rings.length > 0 && rings.every(isRingSourceComplete)
+
+  return useQuery({
+    queryKey: ['multi-wheel-chart', subject?.id, JSON.stringify(rings), JSON.stringify(options)],
+    queryFn: () => {
+      if (!subject) throw new Error('Subject is required')
+      return getMultiWheelChart(subject, rings, options)
+    },
+    enabled: !!subject && isComplete,
+    placeholderData: (previousData) => previousData,
+  })
+}
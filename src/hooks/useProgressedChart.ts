@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query'
+import { getProgressedChart, getSolarArcChart, getProgressedLunationChart } from '@/actions/astrology'
+import type { Subject } from '@/types/subjects'
+import type { ChartRequestOptions } from '@/types/astrology'
+import type { ProgressionTechnique } from '@/lib/astrology/progressions'
+
+const apiByTechnique = {
+  progressions: getProgressedChart,
+  'solar-arc': getSolarArcChart,
+  'progressed-lunation': getProgressedLunationChart,
+} as const
+
+export function useProgressedChart(
+  technique: ProgressionTechnique,
+  subject: Subject | null | undefined,
+  targetDate: string | null,
+  options?: ChartRequestOptions,
+) {
+  return useQuery({
+    queryKey: [`${technique}-chart`, subject?.id, targetDate, JSON.stringify(options)],
+    queryFn: () => {
+      if (!subject || !targetDate) throw new Error('Subject and target date are required')
+      return apiByTechnique[technique](subject, targetDate, options)
+    },
+    enabled: !!subject && !!targetDate,
+    placeholderData: (previousData) => previousData,
+  })
+}
@@ -0,0 +1,80 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  applyRectifiedBirthTime,
+  createLifeEvent,
+  deleteLifeEvent,
+  listLifeEvents,
+  listRectifications,
+  rectifyBirthTime,
+  type ApplyRectificationInput,
+  type LifeEventInput,
+  type RectificationWindowInput,
+} from '@/actions/rectification'
+import type { LifeEventSummary, RectificationLogEntry } from '@/lib/astrology/rectification'
+import { queryKeys } from '@/lib/query-keys'
+import { STALE_TIME } from '@/lib/config/query'
+
+/**
+ * Life events, sweeps and saved birth times of a subject for the rectification workbench
+ *
+ * Saving a birth time refreshes the subject so every chart view picks up the new time.
+ *
+ * @param subjectId - Subject being rectified
+ */
+export function useRectification(subjectId: string) {
+  const queryClient = useQueryClient()
+  const eventsKey = queryKeys.rectification.events(subjectId)
+  const historyKey = queryKeys.rectification.history(subjectId)
+
+  const eventsQuery = useQuery({
+    queryKey: eventsKey,
+    queryFn: () => listLifeEvents(subjectId),
+    staleTime: STALE_TIME.MEDIUM,
+  })
+
+  const historyQuery = useQuery({
+    queryKey: historyKey,
+    queryFn: () => listRectifications(subjectId),
+    staleTime: STALE_TIME.MEDIUM,
+  })
+
+  const createEventMutation = useMutation({
+    mutationFn: (input: LifeEventInput) => createLifeEvent(subjectId, input),
+    onSuccess: (event) => {
+      queryClient.setQueryData<LifeEventSummary[]>(eventsKey, (old) =>
+        [...(old ?? []), event].sort((a, b) => a.date.localeCompare(b.date)),
+      )
+    },
+  })
+
+  const deleteEventMutation = useMutation({
+    mutationFn: (id: string) => deleteLifeEvent(id),
+    onSuccess: ({ id }) => {
+      queryClient.setQueryData<LifeEventSummary[]>(eventsKey, (old) => old?.filter((event) => event.id !== id))
+    },
+  })
+
+  const sweepMutation = useMutation({
+    mutationFn: (window: RectificationWindowInput) => rectifyBirthTime(subjectId, window),
+  })
+
+  const applyMutation = useMutation({
+    mutationFn: (input: ApplyRectificationInput) => applyRectifiedBirthTime(subjectId, input),
+    onSuccess: ({ subject, entry }) => {
+      queryClient.setQueryData(['subject', subjectId], subject)
+      queryClient.setQueryData<RectificationLogEntry[]>(historyKey, (old) => [entry, ...(old ?? [])])
+      void queryClient.invalidateQueries({ queryKey: queryKeys.subjects.all })
+    },
+  })
+
+  return {
+    events: eventsQuery,
+    history: historyQuery,
+    createEventMutation,
+    deleteEventMutation,
+    sweepMutation,
+    applyMutation,
+  }
+}
@@ -0,0 +1,42 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { createShareLink, listShareLinks, revokeShareLink, type CreateShareLinkInput } from '@/actions/share-links'
+import type { ShareLinkSummary } from '@/lib/chart/share-links'
+import { queryKeys } from '@/lib/query-keys'
+import { STALE_TIME } from '@/lib/config/query'
+
+/**
+ * Share links of a saved chart, with create and revoke mutations
+ *
+ * @param savedChartId - Saved chart to manage, or null while no chart is selected
+ */
+export function useShareLinks(savedChartId: string | null) {
+  const queryClient = useQueryClient()
+  const queryKey = queryKeys.shareLinks.list(savedChartId ?? '')
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => listShareLinks(savedChartId!),
+    enabled: !!savedChartId,
+    staleTime: STALE_TIME.SHORT,
+  })
+
+  const createMutation = useMutation({
+    mutationFn: (input: CreateShareLinkInput) => createShareLink(savedChartId!, input),
+    onSuccess: ({ link }) => {
+      queryClient.setQueryData<ShareLinkSummary[]>(queryKey, (old) => [link, ...(old ?? [])])
+    },
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => revokeShareLink(id),
+    onSuccess: (revoked) => {
+      queryClient.setQueryData<ShareLinkSummary[]>(queryKey, (old) =>
+        old?.map((link) => (link.id === revoked.id ? revoked : link)),
+      )
+    },
+  })
+
+  return { ...query, createMutation, revokeMutation }
+}
@@ -0,0 +1,33 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { getNatalLongitudes, getSkyEvents, type SkyEventsInput } from '@/actions/sky-events'
+import { queryKeys } from '@/lib/query-keys'
+import { STALE_TIME } from '@/lib/config/query'
+
+/**
+ * Sky events in a range. Results only depend on the range and categories, so they stay fresh for long.
+ */
+export function useSkyEvents(input: SkyEventsInput) {
+  return useQuery({
+    queryKey: queryKeys.skyEvents.search(input),
+    queryFn: () => getSkyEvents(input),
+    enabled: input.categories.length > 0,
+    staleTime: STALE_TIME.LONG,
+    placeholderData: (previousData) => previousData,
+  })
+}
+
+/**
+ * Tropical natal longitudes of a subject, for overlaying sky events
+ *
+ * @param subjectId - Subject to overlay, or null while none is selected
+ */
+export function useNatalLongitudes(subjectId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.skyEvents.natal(subjectId ?? ''),
+    queryFn: () => getNatalLongitudes(subjectId!),
+    enabled: !!subjectId,
+    staleTime: STALE_TIME.LONG,
+  })
+}
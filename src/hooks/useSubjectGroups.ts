@@ -0,0 +1,144 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import {
+  fetchTags,
+  renameTag,
+  mergeTags,
+  deleteTag,
+  bulkAssignTags,
+  fetchSubjectGroups,
+  createSubjectGroup,
+  updateSubjectGroup,
+  mergeSubjectGroups,
+  deleteSubjectGroup,
+  bulkAssignSubjectGroup,
+} from '@/lib/api/subjects'
+import type { SubjectGroupInput } from '@/types/subjects'
+import { queryKeys } from '@/lib/query-keys'
+import { getErrorMessage } from '@/lib/utils/error'
+import { STALE_TIME } from '@/lib/config/query'
+
+/**
+ * Tags and subject groups for the current user, with mutations to manage them.
+ *
+ * Every mutation invalidates all subject queries, because renaming a tag or
+ * changing group membership also changes the mapped subjects.
+ */
+export function useSubjectGroups() {
+  const queryClient = useQueryClient()
+
+  const tagsQuery = useQuery({
+    queryKey: queryKeys.subjects.tags(),
+    queryFn: ({ signal }) => fetchTags(signal),
+    staleTime: STALE_TIME.SHORT,
+  })
+
+  const groupsQuery = useQuery({
+    queryKey: queryKeys.subjects.groups(),
+    queryFn: ({ signal }) => fetchSubjectGroups(signal),
+    staleTime: STALE_TIME.SHORT,
+  })
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: queryKeys.subjects.all })
+  const onError = (err: unknown) => toast.error(getErrorMessage(err))
+
+  const renameTagMutation = useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) => renameTag(id, name),
+    onSuccess: invalidate,
+    onError,
+  })
+
+  const mergeTagsMutation = useMutation({
+    mutationFn: ({ sourceIds, targetId }: { sourceIds: string[]; targetId: string }) => mergeTags(sourceIds, targetId),
+    onSuccess: (tag) => {
+      toast.success(`Tags merged into "${tag.name}"`)
+      return invalidate()
+    },
+    onError,
+  })
+
+  const deleteTagMutation = useMutation({
+    mutationFn: (id: string) => deleteTag(id),
+    onSuccess: invalidate,
+    onError,
+  })
+
+  const assignTagsMutation = useMutation({
+    mutationFn: ({
+      subjectIds,
+      tagNames,
+      mode,
+    }: {
+      subjectIds: string[]
+      tagNames: string[]
+      mode: 'add' | 'remove'
+    }) => bulkAssignTags(subjectIds, tagNames, mode),
+    onSuccess: (res, { mode }) => {
+      toast.success(`Tags ${mode === 'add' ? 'added to' : 'removed from'} ${res.count} subjects`)
+      return invalidate()
+    },
+    onError,
+  })
+
+  const createGroupMutation = useMutation({
+    mutationFn: ({ data, subjectIds }: { data: SubjectGroupInput; subjectIds?: string[] }) =>
+      createSubjectGroup(data, subjectIds),
+    onSuccess: (group) => {
+      toast.success(`Group "${group.name}" created`)
+      return invalidate()
+    },
+    onError,
+  })
+
+  const updateGroupMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: SubjectGroupInput }) => updateSubjectGroup(id, data),
+    onSuccess: invalidate,
+    onError,
+  })
+
+  const mergeGroupsMutation = useMutation({
+    mutationFn: ({ sourceIds, targetId }: { sourceIds: string[]; targetId: string }) =>
+      mergeSubjectGroups(sourceIds, targetId),
+    onSuccess: (group) => {
+      toast.success(`Groups merged into "${group.name}"`)
+      return invalidate()
+    },
+    onError,
+  })
+
+  const deleteGroupMutation = useMutation({
+    mutationFn: (id: string) => deleteSubjectGroup(id),
+    onSuccess: invalidate,
+    onError,
+  })
+
+  const assignGroupMutation = useMutation({
+    mutationFn: ({ groupId, subjectIds, mode }: { groupId: string; subjectIds: string[]; mode: 'add' | 'remove' }) =>
+      bulkAssignSubjectGroup(groupId, subjectIds, mode),
+    onSuccess: (group, { mode, subjectIds }) => {
+      toast.success(`${subjectIds.length} subjects ${mode === 'add' ? 'added to' : 'removed from'} "${group.name}"`)
+      return invalidate()
+    },
+    onError,
+  })
+
+  return {
+    tagsQuery,
+    groupsQuery,
+    tags: {
+      rename: renameTagMutation,
+      merge: mergeTagsMutation,
+      remove: deleteTagMutation,
+      assign: assignTagsMutation,
+    },
+    groups: {
+      create: createGroupMutation,
+      update: updateGroupMutation,
+      merge: mergeGroupsMutation,
+      remove: deleteGroupMutation,
+      assign: assignGroupMutation,
+    },
+  }
+}
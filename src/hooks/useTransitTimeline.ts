@@ -0,0 +1,51 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { getTransitTimeline } from '@/actions/transits'
+import type { SubjectModel, ChartRequestOptions } from '@/types/astrology'
+import type { TransitTimeline } from '@/lib/astrology/transit-timeline'
+import { STALE_TIME_LONG } from '@/lib/config/query'
+
+interface UseTransitTimelineProps {
+  subjectId: string
+  natalSubject: SubjectModel
+  startDate: Date
+  endDate: Date
+  chartOptions?: ChartRequestOptions
+  /** Orb of transits to the natal midpoints; midpoints are not searched when omitted */
+  midpointOrb?: number
+  enabled?: boolean
+}
+
+/**
+ * Fetches the event-based transit timeline (ingress, exact hits, exit) for a subject.
+ *
+ * Timelines are deterministic for a given subject, range and set of points/aspects,
+ * so results are kept fresh for a long time.
+ */
+export function useTransitTimeline({
+  subjectId,
+  natalSubject,
+  startDate,
+  endDate,
+  chartOptions,
+  midpointOrb,
+  enabled = true,
+}: UseTransitTimelineProps) {
+  return useQuery<TransitTimeline>({
+    queryKey: [
+      'transit-timeline',
+      subjectId,
+      startDate.toISOString(),
+      endDate.toISOString(),
+      JSON.stringify(natalSubject),
+      JSON.stringify(chartOptions?.active_points),
+      JSON.stringify(chartOptions?.active_aspects),
+      midpointOrb ?? null,
+    ],
+    queryFn: () => getTransitTimeline(natalSubject, startDate, endDate, chartOptions, midpointOrb),
+    enabled: enabled && !!chartOptions,
+    staleTime: STALE_TIME_LONG,
+    placeholderData: (previousData) => previousData,
+  })
+}
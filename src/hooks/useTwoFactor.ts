@@ -0,0 +1,76 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  confirmTotpSetup,
+  deletePasskey,
+  disableTwoFactor,
+  getPasskeyRegistrationOptions,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  registerPasskey,
+  startTotpSetup,
+} from '@/actions/two-factor'
+import { createPasskey } from '@/lib/two-factor/browser'
+import { queryKeys } from '@/lib/query-keys'
+import { STALE_TIME } from '@/lib/config/query'
+
+/**
+ * Second factors of the current user, with mutations to set up an
+ * authenticator app, register and remove passkeys, replace recovery codes
+ * and turn two-factor authentication off
+ */
+export function useTwoFactor() {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: queryKeys.twoFactor,
+    queryFn: () => getTwoFactorStatus(),
+    staleTime: STALE_TIME.MEDIUM,
+  })
+
+  const onChange = () => queryClient.invalidateQueries({ queryKey: queryKeys.twoFactor })
+
+  const startTotpMutation = useMutation({
+    mutationFn: () => startTotpSetup(),
+  })
+
+  const confirmTotpMutation = useMutation({
+    mutationFn: (code: string) => confirmTotpSetup(code),
+    onSuccess: onChange,
+  })
+
+  const registerPasskeyMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const options = await getPasskeyRegistrationOptions()
+      const response = await createPasskey(options)
+      return registerPasskey({ name, response })
+    },
+    onSuccess: onChange,
+  })
+
+  const deletePasskeyMutation = useMutation({
+    mutationFn: (id: string) => deletePasskey(id),
+    onSuccess: onChange,
+  })
+
+  const regenerateCodesMutation = useMutation({
+    mutationFn: (code: string) => regenerateRecoveryCodes(code),
+    onSuccess: onChange,
+  })
+
+  const disableMutation = useMutation({
+    mutationFn: (code: string) => disableTwoFactor(code),
+    onSuccess: onChange,
+  })
+
+  return {
+    ...query,
+    startTotpMutation,
+    confirmTotpMutation,
+    registerPasskeyMutation,
+    deletePasskeyMutation,
+    regenerateCodesMutation,
+    disableMutation,
+  }
+}
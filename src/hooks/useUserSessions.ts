@@ -0,0 +1,37 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { getUserSessions, signOutEverywhere, signOutSession } from '@/actions/sessions'
+import { queryKeys } from '@/lib/query-keys'
+import { STALE_TIME } from '@/lib/config/query'
+import type { UserSessionSummary } from '@/types/auth'
+
+/**
+ * Signed-in browsers and devices of the current user, with sign-out mutations
+ */
+export function useUserSessions() {
+  const queryClient = useQueryClient()
+  const queryKey = queryKeys.userSessions
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getUserSessions(),
+    staleTime: STALE_TIME.SHORT,
+  })
+
+  const signOutMutation = useMutation({
+    mutationFn: async (id: string) => ({ id, ...(await signOutSession(id)) }),
+    onSuccess: ({ id, current }) => {
+      if (current) return
+      queryClient.setQueryData<UserSessionSummary[]>(queryKey, (sessions = []) =>
+        sessions.filter((session) => session.id !== id),
+      )
+    },
+  })
+
+  const signOutEverywhereMutation = useMutation({
+    mutationFn: () => signOutEverywhere(),
+  })
+
+  return { ...query, signOutMutation, signOutEverywhereMutation }
+}
@@ -6,6 +6,7 @@ import {
   getUserDetails,
   updateUserPlan,
   deleteUser,
+  resetUserTwoFactor,
   type UserListItem,
   type UserDetail,
   type ChartTypeKey,
@@ -330,6 +331,18 @@ export function useUsersTable() {
     setIsActionLoading(false)
   }, [userToDelete, fetchUsers])
 
+  const handleResetTwoFactor = useCallback(async (user: UserDetail) => {
+    setIsActionLoading(true)
+    const result = await resetUserTwoFactor(user.id)
+    if (result.success) {
+      toast.success('Two-factor authentication reset. The user has been signed out everywhere.')
+      setSelectedUser({ ...user, twoFactorEnabled: false })
+    } else {
+      toast.error(result.error || 'Failed to reset two-factor authentication')
+    }
+    setIsActionLoading(false)
+  }, [])
+
   const handleOpenDeleteDialog = useCallback((user: UserListItem) => {
     setUserToDelete(user)
     setIsDeleteOpen(true)
@@ -387,6 +400,7 @@ export function useUsersTable() {
     handleQuickEditPlan,
     handleSavePlan,
     handleDeleteUser,
+    handleResetTwoFactor,
     handleOpenDeleteDialog,
   }
 }
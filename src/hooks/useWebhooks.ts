@@ -0,0 +1,89 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  getWebhookDeliveries,
+  getWebhookEndpoints,
+  redeliverWebhook,
+  rotateWebhookSecret,
+  setWebhookEndpointEnabled,
+  type WebhookEndpointInput,
+} from '@/actions/webhooks'
+import type { WebhookDeliverySummary, WebhookEndpointSummary } from '@/lib/webhooks/events'
+import { queryKeys } from '@/lib/query-keys'
+import { STALE_TIME } from '@/lib/config/query'
+
+/**
+ * Webhook endpoints of the current user, with create, pause/resume, secret rotation and delete mutations
+ */
+export function useWebhookEndpoints() {
+  const queryClient = useQueryClient()
+  const queryKey = queryKeys.webhooks.endpoints
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getWebhookEndpoints(),
+    staleTime: STALE_TIME.MEDIUM,
+  })
+
+  const replaceEndpoint = (endpoint: WebhookEndpointSummary) => {
+    queryClient.setQueryData<WebhookEndpointSummary[]>(queryKey, (endpoints = []) =>
+      endpoints.map((existing) => (existing.id === endpoint.id ? endpoint : existing)),
+    )
+  }
+
+  const createMutation = useMutation({
+    mutationFn: (input: WebhookEndpointInput) => createWebhookEndpoint(input),
+    onSuccess: ({ endpoint }) => {
+      queryClient.setQueryData<WebhookEndpointSummary[]>(queryKey, (endpoints = []) => [...endpoints, endpoint])
+    },
+  })
+
+  const setEnabledMutation = useMutation({
+    mutationFn: ({ id, enabled }: { id: string; enabled: boolean }) => setWebhookEndpointEnabled(id, enabled),
+    onSuccess: replaceEndpoint,
+  })
+
+  const rotateSecretMutation = useMutation({
+    mutationFn: (id: string) => rotateWebhookSecret(id),
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteWebhookEndpoint(id),
+    onSuccess: ({ id }) => {
+      queryClient.setQueryData<WebhookEndpointSummary[]>(queryKey, (endpoints = []) =>
+        endpoints.filter((endpoint) => endpoint.id !== id),
+      )
+      queryClient.removeQueries({ queryKey: queryKeys.webhooks.deliveries(id) })
+    },
+  })
+
+  return { ...query, createMutation, setEnabledMutation, rotateSecretMutation, deleteMutation }
+}
+
+/**
+ * Delivery log of an endpoint, with a mutation that sends a delivery again
+ */
+export function useWebhookDeliveries(endpointId: string) {
+  const queryClient = useQueryClient()
+  const queryKey = queryKeys.webhooks.deliveries(endpointId)
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getWebhookDeliveries(endpointId),
+    staleTime: STALE_TIME.SHORT,
+  })
+
+  const redeliverMutation = useMutation({
+    mutationFn: (deliveryId: string) => redeliverWebhook(deliveryId),
+    onSuccess: (delivery) => {
+      queryClient.setQueryData<WebhookDeliverySummary[]>(queryKey, (deliveries = []) =>
+        deliveries.map((existing) => (existing.id === delivery.id ? delivery : existing)),
+      )
+    },
+  })
+
+  return { ...query, redeliverMutation }
+}
@@ -0,0 +1,105 @@
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  createWorkspace,
+  deleteWorkspace,
+  getWorkspaceMembers,
+  getWorkspaces,
+  inviteWorkspaceMember,
+  leaveWorkspace,
+  removeWorkspaceMember,
+  revokeWorkspaceInvitation,
+  switchWorkspace,
+  updateWorkspaceMemberRole,
+  type CreateWorkspaceInput,
+  type WorkspaceInvitationInput,
+} from '@/actions/workspaces'
+import type { WorkspaceRole } from '@/lib/workspaces/roles'
+import { queryKeys } from '@/lib/query-keys'
+import { STALE_TIME } from '@/lib/config/query'
+
+/**
+ * Workspaces of the current user, with mutations to create, switch, delete
+ * and leave them. Changing the active library clears every cached query,
+ * as subjects and saved charts come from another library afterwards.
+ */
+export function useWorkspaces() {
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: queryKeys.workspaces.list,
+    queryFn: () => getWorkspaces(),
+    staleTime: STALE_TIME.MEDIUM,
+  })
+
+  const onLibraryChange = () => queryClient.invalidateQueries()
+
+  const createMutation = useMutation({
+    mutationFn: (input: CreateWorkspaceInput) => createWorkspace(input),
+    onSuccess: onLibraryChange,
+  })
+
+  const switchMutation = useMutation({
+    mutationFn: (workspaceId: string | null) => switchWorkspace(workspaceId),
+    onSuccess: onLibraryChange,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (workspaceId: string) => deleteWorkspace(workspaceId),
+    onSuccess: onLibraryChange,
+  })
+
+  const leaveMutation = useMutation({
+    mutationFn: (workspaceId: string) => leaveWorkspace(workspaceId),
+    onSuccess: onLibraryChange,
+  })
+
+  return { ...query, createMutation, switchMutation, deleteMutation, leaveMutation }
+}
+
+/**
+ * Members and pending invitations of a workspace, with mutations to manage them
+ *
+ * @param workspaceId - Workspace ID, or null to disable the query
+ */
+export function useWorkspaceMembers(workspaceId: string | null) {
+  const queryClient = useQueryClient()
+  const queryKey = queryKeys.workspaces.members(workspaceId ?? '')
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getWorkspaceMembers(workspaceId!),
+    enabled: !!workspaceId,
+    staleTime: STALE_TIME.MEDIUM,
+  })
+
+  const onMembersChange = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.workspaces.list }),
+    ])
+
+  const inviteMutation = useMutation({
+    mutationFn: (input: WorkspaceInvitationInput) => inviteWorkspaceMember(workspaceId!, input),
+    onSuccess: onMembersChange,
+  })
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: (id: string) => revokeWorkspaceInvitation(id),
+    onSuccess: onMembersChange,
+  })
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: Exclude<WorkspaceRole, 'owner'> }) =>
+      updateWorkspaceMemberRole(workspaceId!, userId, role),
+    onSuccess: onMembersChange,
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: (userId: string) => removeWorkspaceMember(workspaceId!, userId),
+    onSuccess: onMembersChange,
+  })
+
+  return { ...query, inviteMutation, revokeInvitationMutation, updateRoleMutation, removeMutation }
+}
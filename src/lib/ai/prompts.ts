@@ -337,6 +337,110 @@ Conclude by reminding that this is a passing phase (1 month) and summarize the c
 STYLE: Calm, warm, grounded. Blend accuracy with sensitivity.
 SAFETY: No dramatic claims. Focus on emotional insight.`
 
+/** Prompt fragment for Secondary Progressions interpretations. */
+export const PROGRESSIONS_CHART_TYPE_PROMPT = `CONTEXT: Secondary Progressions (a day after birth for each year of life) shown as a bi-wheel against the natal chart.
+OBJECTIVE: Describe the inner development and maturing themes of the current period of life.
+IMPORTANT: Start directly with the text. DO NOT use greetings. Refer to the chart as "The progressed chart", "This period", NEVER as "Your progressions".
+
+CLARITY RULE
+Distinguish clearly between Natal and Progressed elements.
+Use the person's name for Natal points (e.g., "John's Venus") or "Natal Venus".
+Use "Progressed" for progressed points (e.g., "Progressed Moon", "Progressed Ascendant").
+The data may label the progressed chart as "Transit": read it as the progressed chart.
+
+OUTPUT CONSTRAINTS
+- Keep it short: ~250–380 words.
+- Prioritize the Progressed Moon (sign, house, aspects), the Progressed Sun, progressed angles and sign changes of personal planets.
+- Only progressed-to-natal aspects within about 1° are active; mention wider ones as building or fading.
+- Outer planets barely move by progression: do not interpret them as progressed triggers.
+
+STRUCTURE
+1) Start with the main tone of this period (Untitled section), based on the Progressed Sun and Moon. 🌱
+2) Progressed Moon 🌙: emotional focus, the life area (natal house) it is crossing and its tight aspects.
+3) Progressed Sun and personal planets ☀️: identity shifts, sign or house changes.
+4) Progressed angles 🧭: changes in direction, self-presentation and vocation.
+5) Synthesis: what is maturing now and how to cooperate with it.
+6) Final: Add a last section titled "Quick Summary" (translate the title into the response language) and write exactly 3 short lines capturing: (1) theme of the period, (2) inner challenge, (3) best focus.
+
+STYLE: Reflective, developmental, grounded.
+SAFETY: Progressions describe inner timing, not fixed events. No absolute predictions.`
+
+/** Prompt fragment for Solar Arc Directions interpretations. */
+export const SOLAR_ARC_CHART_TYPE_PROMPT = `CONTEXT: Solar Arc Directions (every natal point moved forward by the arc of the progressed Sun, about 1° per year).
+OBJECTIVE: Identify the main activations of the natal promise in the current period and how they may show up in life.
+IMPORTANT: Start directly with the text. DO NOT use greetings. Refer to the chart as "The directions", "This period", NEVER as "Your solar arcs".
+
+CLARITY RULE
+Use "Directed" for solar arc points (e.g., "Directed Mars") and the person's name or "Natal" for natal points.
+Write aspects as "Directed Mars square Natal Sun".
+
+OUTPUT CONSTRAINTS
+- Keep it short: ~220–350 words.
+- Only use the directed to natal aspects listed in the data; an orb of 1° corresponds to about one year.
+- Applying aspects are building; separating aspects are fading.
+- Give priority to contacts involving angles, luminaries and chart rulers.
+
+STRUCTURE
+1) Start with the overall picture (Untitled section): how many tight directions are active and which areas of life they touch. 🎯
+2) Key directions ⚡: the 2–4 tightest contacts, each with its timing (building or fading) and life area.
+3) Angles and luminaries 🧭: directed angles and directions to the natal Sun, Moon and Ascendant.
+4) Synthesis: how to use this period consciously.
+5) Final: Add a last section titled "Quick Summary" (translate the title into the response language) and write exactly 3 short lines capturing: (1) main activation, (2) key test, (3) best strategy.
+
+STYLE: Precise, practical, predictive but measured.
+SAFETY: Directions show periods of emphasis, not certain events. No predictions of death, illness or disaster.`
+
+/** Prompt fragment for Progressed Lunation Phase interpretations. */
+export const PROGRESSED_LUNATION_CHART_TYPE_PROMPT = `CONTEXT: Progressed Lunation Cycle (the ~30-year cycle of the progressed Moon–Sun phase), shown with the progressed chart against the natal chart.
+OBJECTIVE: Explain where the person stands in the progressed lunation cycle and what this phase asks of them.
+IMPORTANT: Start directly with the text. DO NOT use greetings. Refer to "This phase", "The current cycle", NEVER as "Your lunation".
+
+CLARITY RULE
+Look for the "Progressed Lunation Cycle" section in the chart data: it gives the current phase, when the cycle began and when the next phases begin.
+Use "Progressed" for progressed points and the person's name or "Natal" for natal points.
+
+OUTPUT CONSTRAINTS
+- Keep it short: ~220–330 words.
+- Follow the eight phases of Dane Rudhyar: New Moon, Crescent, First Quarter, Gibbous, Full Moon, Disseminating, Last Quarter, Balsamic.
+- Relate the phase to the sign and house of the last progressed New Moon when it is available.
+- Mention the approximate timing of the next phase change.
+
+STRUCTURE
+1) Start with the phase and its meaning in the ~30-year cycle (Untitled section). 🌒
+2) Seeds of the cycle 🌱: what began at the last progressed New Moon.
+3) Current task 🛠️: what this phase asks (initiate, build, adjust, harvest, share, release).
+4) Looking ahead ⏳: the next phase and how to prepare.
+5) Final: Add a last section titled "Quick Summary" (translate the title into the response language) and write exactly 3 short lines capturing: (1) phase, (2) current task, (3) next step.
+
+STYLE: Cyclical, wise, encouraging.
+SAFETY: Phases describe rhythms of growth, not fixed events.`
+
+/** Prompt fragment for Horary interpretations. */
+export const HORARY_CHART_TYPE_PROMPT = `CONTEXT: Horary chart (a chart cast for the moment and place a question was asked, judged by traditional rules).
+OBJECTIVE: Answer the question asked, following the horary findings in the chart data.
+IMPORTANT: Start directly with the text. DO NOT use greetings. Refer to "The chart", "The question", NEVER as "Your horary".
+
+CLARITY RULE
+Look for the "Horary question" section in the chart data: it gives the question, the significators of the querent and the quesited, the considerations before judgement, the aspects of the significators and a judgement aid.
+Base the answer on those findings only. Do not invent aspects, receptions or timings that are not listed.
+
+OUTPUT CONSTRAINTS
+- Keep it short: ~220–330 words.
+- If a consideration before judgement is present, say first what it means for the reliability of the chart.
+- Explain whether and how the matter perfects: a direct aspect, the Moon, translation or collection of light. Mention any prohibition or refranation.
+- Applying aspects describe what is coming; separating aspects describe what has passed.
+- Timing, when given, is an indication in days of motion, not a firm date.
+
+STRUCTURE
+1) Start with the direct answer (Untitled section): yes, no or not yet, and how clearly the chart shows it. ❓
+2) The significators 🪐: who represents the querent and the matter, and their condition.
+3) Perfection ⚖️: how the significators meet, or what prevents them.
+4) Advice: what the querent can do with this answer.
+5) Final: Add a last section titled "Quick Summary" (translate the title into the response language) and write exactly 3 short lines capturing: (1) answer, (2) key testimony, (3) advice.
+
+STYLE: Clear, direct, traditional but plain-spoken.
+SAFETY: Horary describes tendencies, not certainties. Do not answer questions about death or serious illness; suggest seeking qualified help instead.`
+
 /** Chart specific prompt fragments to add context (kept as an object for compatibility). */
 export const CHART_TYPE_PROMPTS: Record<string, string> = {
   natal: NATAL_CHART_TYPE_PROMPT,
@@ -345,6 +449,10 @@ export const CHART_TYPE_PROMPTS: Record<string, string> = {
   composite: COMPOSITE_CHART_TYPE_PROMPT,
   'solar-return': SOLAR_RETURN_CHART_TYPE_PROMPT,
   'lunar-return': LUNAR_RETURN_CHART_TYPE_PROMPT,
+  progressions: PROGRESSIONS_CHART_TYPE_PROMPT,
+  'solar-arc': SOLAR_ARC_CHART_TYPE_PROMPT,
+  'progressed-lunation': PROGRESSED_LUNATION_CHART_TYPE_PROMPT,
+  horary: HORARY_CHART_TYPE_PROMPT,
 }
 
 /** Default system prompt used when no school prompt is provided. */
@@ -9,18 +9,68 @@ import type {
   ContextChartData,
 } from '@/types/astrology'
 import { logger } from '@/lib/logging/server'
+import { localCalculationBackend } from '@/lib/ephemeris/local-backend'
+import { chartCache, type ChartCache } from '@/lib/cache/chart-cache'
 
 const BASE_URL = process.env.ASTROLOGER_API_URL
 const DEFAULT_TIMEOUT = 15000 // 15 seconds
 
+/** HTTP statuses returned by proxies and gateways when the API itself is down */
+const UNAVAILABLE_STATUSES = [502, 503, 504]
+
 // Configurable API headers (defaults to RapidAPI format)
 const ASTROLOGER_API_HOST = process.env.ASTROLOGER_API_HOST || 'astrologer.p.rapidapi.com'
 const ASTROLOGER_API_HOST_HEADER = process.env.ASTROLOGER_API_HOST_HEADER || 'X-RapidAPI-Host'
 const ASTROLOGER_API_KEY_HEADER = process.env.ASTROLOGER_API_KEY_HEADER || 'X-RapidAPI-Key'
 const ASTROLOGER_API_KEY = process.env.ASTROLOGER_API_KEY || ''
 
+// remote: API only; auto: API with the local ephemeris as fallback; local: local ephemeris only
+const CALCULATION_BACKEND = process.env.ASTROLOGER_CALCULATION_BACKEND || 'auto'
+
 logger.info(`[AstrologerAPI] Configured API URL: ${BASE_URL || 'Default (RapidAPI)'}`)
 
+/**
+ * Error thrown when the Astrologer API cannot be reached: not configured,
+ * timed out, connection failed, or a gateway reported it down (502/503/504).
+ * Other API errors (bad input, authentication, rate limits) are plain `Error`s.
+ */
+export class AstrologerApiUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AstrologerApiUnavailableError'
+  }
+}
+
+/**
+ * Source of chart calculations that can stand in for the Astrologer API
+ */
+export interface CalculationBackend {
+  /** Short name used in logs */
+  readonly name: string
+  getSubject(
+    subject: SubjectModel,
+    options?: Pick<ChartRequestOptions, 'active_points'>,
+  ): Promise<{ status: string; subject: EnrichedSubjectModel }>
+  getNatalChart(subject: SubjectModel, options?: ChartRequestOptions): Promise<ChartResponse>
+}
+
+/**
+ * How the client chooses between the API and its fallback backend
+ * - remote: always call the API
+ * - auto: call the API, and the fallback when the API is unavailable
+ * - local: always use the fallback
+ */
+export type CalculationBackendMode = 'remote' | 'auto' | 'local'
+
+export interface AstrologerApiClientOptions {
+  /** Backend for the calls it supports when the API is unavailable */
+  fallback?: CalculationBackend
+  /** Defaults to `auto`; ignored without a fallback */
+  mode?: CalculationBackendMode
+  /** Server-side cache for API responses; fallback results are not cached */
+  cache?: ChartCache | null
+}
+
 /**
  * Client for interacting with the Astrologer API
  * Handles natal, transit, synastry, and now charts
@@ -31,35 +81,86 @@ logger.info(`[AstrologerAPI] Configured API URL: ${BASE_URL || 'Default (RapidAP
  * const chart = await client.getNatalChart(subject, { theme: 'dark' })
  * ```
  */
-export class AstrologerApiClient {
+export class AstrologerApiClient implements CalculationBackend {
+  readonly name = 'remote'
   private apiKey: string
+  private fallback?: CalculationBackend
+  private mode: CalculationBackendMode
+  private cache?: ChartCache | null
 
   /**
    * @param apiKey - RapidAPI key for authentication
+   * @param options - Optional fallback backend for subjects and natal charts
    * @throws Error if apiKey is empty
    */
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: AstrologerApiClientOptions = {}) {
     if (!apiKey) {
       logger.warn('AstrologerApiClient initialized without API key!')
     }
     this.apiKey = apiKey
+    this.fallback = options.fallback
+    this.mode = options.mode ?? 'auto'
+    this.cache = options.cache
   }
 
   /**
-   * Internal request handler with timeout and error handling
+   * Runs a call against the API, or against the fallback backend when the mode
+   * says so or the API is unavailable. Other API errors are not retried.
+   */
+  private async withFallback<T>(
+    remote: () => Promise<T>,
+    local: (backend: CalculationBackend) => Promise<T>,
+  ): Promise<T> {
+    const fallback = this.fallback
+    if (!fallback || this.mode === 'remote') {
+      return remote()
+    }
+    if (this.mode === 'local') {
+      return local(fallback)
+    }
+
+    try {
+      return await remote()
+    } catch (error) {
+      if (!(error instanceof AstrologerApiUnavailableError)) {
+        throw error
+      }
+      logger.warn(`[AstrologerAPI] API unavailable, using the ${fallback.name} calculation backend`)
+      return local(fallback)
+    }
+  }
+
+  /**
+   * Internal request handler. POST requests go through the chart cache when
+   * the client has one.
    *
    * @param endpoint - API endpoint path
    * @param method - HTTP method
    * @param body - Request body (optional)
    * @returns Parsed JSON response
-   * @throws Error with detailed message on failure
    */
   private async request<T>(endpoint: string, method: 'GET' | 'POST', body?: unknown): Promise<T> {
+    if (this.cache && method === 'POST') {
+      return this.cache.getOrFetch(endpoint, body, () => this.send<T>(endpoint, method, body))
+    }
+    return this.send<T>(endpoint, method, body)
+  }
+
+  /**
+   * Sends a request to the API with timeout and error handling
+   *
+   * @param endpoint - API endpoint path
+   * @param method - HTTP method
+   * @param body - Request body (optional)
+   * @returns Parsed JSON response
+   * @throws Error with detailed message on failure
+   */
+  private async send<T>(endpoint: string, method: 'GET' | 'POST', body?: unknown): Promise<T> {
     if (!BASE_URL?.trim()) {
       const msg =
         'ASTROLOGER_API_URL is not set. Set it in .env (e.g. http://localhost:8000/api/v5 for self-host or https://astrologer.p.rapidapi.com/api/v5 for RapidAPI).'
       logger.error(`[AstrologerAPI] ${msg}`)
-      throw new Error(msg)
+      throw new AstrologerApiUnavailableError(msg)
     }
 
     const headers: Record<string, string> = {
@@ -98,7 +199,9 @@ export class AstrologerApiClient {
         logger.debug(`[AstrologerAPI] Error response: ${errorText}`)
         const errorMessage = `API Error ${response.status}: ${errorText}`
         logger.error(`[AstrologerAPI] ${errorMessage}`)
-        throw new Error(errorMessage)
+        throw UNAVAILABLE_STATUSES.includes(response.status)
+          ? new AstrologerApiUnavailableError(errorMessage)
+          : new Error(errorMessage)
       }
 
       const jsonResponse = await response.json()
@@ -111,7 +214,7 @@ export class AstrologerApiClient {
         if (error.name === 'AbortError') {
           const timeoutError = `Request timeout after ${DEFAULT_TIMEOUT}ms`
           logger.error(`[AstrologerAPI] ${timeoutError}`)
-          throw new Error(timeoutError)
+          throw new AstrologerApiUnavailableError(timeoutError)
         }
         // Connection refused / fetch failed → hint to start the API
         const cause = (error as Error & { cause?: unknown }).cause
@@ -124,7 +227,7 @@ export class AstrologerApiClient {
               ? `Cannot connect to Astrologer API at ${BASE_URL}. Make sure the API is running (e.g. in Astrologer-API folder: .\\.venv\\Scripts\\Activate.ps1 then $env:ENV_TYPE="dev"; python -m uvicorn app.main:app --reload --port 8000).`
               : `Cannot connect to Astrologer API at ${BASE_URL}. Check your network or API key.`
           logger.error(`[AstrologerAPI] ${hint}`)
-          throw new Error(hint)
+          throw new AstrologerApiUnavailableError(hint)
         }
         // Log other fetch failures
         if (!error.message.startsWith('API Error')) {
@@ -167,10 +270,14 @@ export class AstrologerApiClient {
     subject: SubjectModel,
     options?: Pick<ChartRequestOptions, 'active_points'>,
   ): Promise<{ status: string; subject: EnrichedSubjectModel }> {
-    return this.request<{ status: string; subject: EnrichedSubjectModel }>('/subject', 'POST', {
-      subject,
-      ...options,
-    })
+    return this.withFallback(
+      () =>
+        this.request<{ status: string; subject: EnrichedSubjectModel }>('/subject', 'POST', {
+          subject,
+          ...options,
+        }),
+      (backend) => backend.getSubject(subject, options),
+    )
   }
 
   /**
@@ -181,10 +288,14 @@ export class AstrologerApiClient {
    * @returns Chart response with SVG and data
    */
   async getNatalChart(subject: SubjectModel, options?: ChartRequestOptions): Promise<ChartResponse> {
-    return this.request<ChartResponse>('/chart/birth-chart', 'POST', {
-      subject,
-      ...options,
-    })
+    return this.withFallback(
+      () =>
+        this.request<ChartResponse>('/chart/birth-chart', 'POST', {
+          subject,
+          ...options,
+        }),
+      (backend) => backend.getNatalChart(subject, options),
+    )
   }
 
   /**
@@ -537,6 +648,15 @@ export class AstrologerApiClient {
  * Initialized with API key from environment variable
  *
  * @remarks
- * Ensure ASTROLOGER_API_KEY is set in environment variables
+ * Ensure ASTROLOGER_API_KEY is set in environment variables.
+ * Subjects and natal charts fall back to the local ephemeris when the API is
+ * unavailable, unless ASTROLOGER_CALCULATION_BACKEND is `remote`.
+ * Responses are cached server-side according to CHART_CACHE_STORE.
  */
-export const astrologerApi = new AstrologerApiClient(ASTROLOGER_API_KEY)
+export const astrologerApi = new AstrologerApiClient(ASTROLOGER_API_KEY, {
+  fallback: localCalculationBackend,
+  mode: ['remote', 'auto', 'local'].includes(CALCULATION_BACKEND)
+    ? (CALCULATION_BACKEND as CalculationBackendMode)
+    : 'auto',
+  cache: chartCache,
+})
@@ -2,8 +2,8 @@ import { login as loginAction, logout as logoutAction } from '@/actions/auth'
 import { getUserProfile } from '@/actions/user'
 import type { User } from '@/types/auth'
 
-export async function login(formData: FormData): Promise<{ error?: string }> {
-  return (await loginAction(null, formData)) as { error?: string }
+export async function login(formData: FormData): Promise<{ error?: string; twoFactorRequired?: boolean }> {
+  return (await loginAction(null, formData)) as { error?: string; twoFactorRequired?: boolean }
 }
 
 export async function logout(): Promise<void> {
@@ -5,8 +5,26 @@ import {
   deleteSubject as deleteSubjectAction,
   deleteSubjects as deleteSubjectsAction,
   importSubjects as importSubjectsAction,
+  getTags,
+  renameTag as renameTagAction,
+  mergeTags as mergeTagsAction,
+  deleteTag as deleteTagAction,
+  bulkAssignTags as bulkAssignTagsAction,
+  getSubjectGroups,
+  createSubjectGroup as createSubjectGroupAction,
+  updateSubjectGroup as updateSubjectGroupAction,
+  mergeSubjectGroups as mergeSubjectGroupsAction,
+  deleteSubjectGroup as deleteSubjectGroupAction,
+  bulkAssignSubjectGroup as bulkAssignSubjectGroupAction,
 } from '@/actions/subjects'
-import type { Subject, CreateSubjectInput, UpdateSubjectInput } from '@/types/subjects'
+import type {
+  Subject,
+  CreateSubjectInput,
+  UpdateSubjectInput,
+  SubjectTag,
+  SubjectGroup,
+  SubjectGroupInput,
+} from '@/types/subjects'
 
 export async function fetchRandomSubjects(_count = 50, _signal?: AbortSignal): Promise<Subject[]> {
   // For now, we just return the user's subjects from the DB
@@ -45,3 +63,57 @@ export async function importSubjects(
 ): Promise<{ created: number; skipped: number; failed: number; errors: string[] }> {
   return await importSubjectsAction(subjects)
 }
+
+// Tags endpoints
+export async function fetchTags(_signal?: AbortSignal): Promise<SubjectTag[]> {
+  return await getTags()
+}
+
+export async function renameTag(id: string, name: string): Promise<SubjectTag> {
+  return await renameTagAction(id, name)
+}
+
+export async function mergeTags(sourceIds: string[], targetId: string): Promise<SubjectTag> {
+  return await mergeTagsAction(sourceIds, targetId)
+}
+
+export async function deleteTag(id: string): Promise<{ id: string }> {
+  return await deleteTagAction(id)
+}
+
+export async function bulkAssignTags(
+  subjectIds: string[],
+  tagNames: string[],
+  mode: 'add' | 'remove' = 'add',
+): Promise<{ count: number }> {
+  return await bulkAssignTagsAction(subjectIds, tagNames, mode)
+}
+
+// Subject groups endpoints
+export async function fetchSubjectGroups(_signal?: AbortSignal): Promise<SubjectGroup[]> {
+  return await getSubjectGroups()
+}
+
+export async function createSubjectGroup(data: SubjectGroupInput, subjectIds: string[] = []): Promise<SubjectGroup> {
+  return await createSubjectGroupAction(data, subjectIds)
+}
+
+export async function updateSubjectGroup(id: string, data: SubjectGroupInput): Promise<SubjectGroup> {
+  return await updateSubjectGroupAction(id, data)
+}
+
+export async function mergeSubjectGroups(sourceIds: string[], targetId: string): Promise<SubjectGroup> {
+  return await mergeSubjectGroupsAction(sourceIds, targetId)
+}
+
+export async function deleteSubjectGroup(id: string): Promise<{ id: string }> {
+  return await deleteSubjectGroupAction(id)
+}
+
+export async function bulkAssignSubjectGroup(
+  groupId: string,
+  subjectIds: string[],
+  mode: 'add' | 'remove' = 'add',
+): Promise<SubjectGroup> {
+  return await bulkAssignSubjectGroupAction(groupId, subjectIds, mode)
+}
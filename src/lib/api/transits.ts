@@ -36,7 +36,9 @@ export interface TransitDayData {
  *
  * @remarks
  * The API doesn't have a dedicated ephemeris endpoint, so we generate
- * ephemeris by calling the /subject endpoint for each day in the range
+ * ephemeris by calling the /subject endpoint for each day in the range.
+ * When the API is unavailable, `astrologerApi` answers these calls with the
+ * local ephemeris, so the table also works offline.
  *
  * @param opts - Fetch options including date range and active points
  * @returns Array of ephemeris data (planetary positions for each day)
@@ -0,0 +1,360 @@
+/**
+ * Aspect Pattern Detection
+ *
+ * Finds the classical aspect configurations of a chart from its aspect list:
+ * Grand Trines, T-Squares, Grand Crosses, Yods, Kites, Mystic Rectangles and
+ * stelliums. Each pattern reports the element and modality its points share
+ * and how tight its aspects are.
+ *
+ * Only aspects between points of the same subject are used, so the detector
+ * works on natal and composite charts as well as on the single-subject part of
+ * a combined aspect list.
+ */
+
+import { isPointKey, type Aspect, type EnrichedSubjectModel, type Point } from '@/types/astrology'
+import { formatPlanetName } from '@/lib/astrology/planet-formatting'
+
+// ============================================================================
+// TYPES & CONSTANTS
+// ============================================================================
+
+export type AspectPatternType =
+  | 'grand_trine'
+  | 't_square'
+  | 'grand_cross'
+  | 'yod'
+  | 'kite'
+  | 'mystic_rectangle'
+  | 'stellium'
+
+/** How close the aspects of a pattern are to exact */
+export type PatternTightness = 'tight' | 'moderate' | 'wide'
+
+export interface AspectPattern {
+  type: AspectPatternType
+  /** Display name, e.g. "Grand Trine" or "Stellium in Leo" */
+  label: string
+  /** API names of the points, apex first when the pattern has one */
+  points: string[]
+  /** Focal point of T-Squares and Yods, head of Kites */
+  apex: string | null
+  /** Element shared by all points, null when mixed */
+  element: string | null
+  /** Modality shared by all points, null when mixed */
+  modality: string | null
+  /** Mean orb of the aspects, or the span in degrees for stelliums */
+  orb: number
+  tightness: PatternTightness
+  /** Aspects forming the pattern (empty for stelliums) */
+  aspects: Aspect[]
+}
+
+export interface AspectPatternOptions {
+  /** Planets needed for a stellium (default 3) */
+  stelliumSize?: number
+}
+
+export const ASPECT_PATTERN_LABELS: Record<AspectPatternType, string> = {
+  grand_trine: 'Grand Trine',
+  t_square: 'T-Square',
+  grand_cross: 'Grand Cross',
+  yod: 'Yod',
+  kite: 'Kite',
+  mystic_rectangle: 'Mystic Rectangle',
+  stellium: 'Stellium',
+}
+
+/** Highlight colour of each pattern, shared by the wheel overlay and the pattern list */
+export const ASPECT_PATTERN_COLORS: Record<AspectPatternType, string> = {
+  grand_trine: '#22c55e',
+  t_square: '#ef4444',
+  grand_cross: '#dc2626',
+  yod: '#a855f7',
+  kite: '#14b8a6',
+  mystic_rectangle: '#f59e0b',
+  stellium: '#3b82f6',
+}
+
+/** Display order, most dynamic configurations first */
+const PATTERN_ORDER: AspectPatternType[] = [
+  'grand_cross',
+  't_square',
+  'yod',
+  'kite',
+  'mystic_rectangle',
+  'grand_trine',
+  'stellium',
+]
+
+/** Bodies counted for stelliums; angles and calculated points are left out */
+const STELLIUM_PLANETS = ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto']
+
+/** Upper mean orb of a tight and of a moderate aspect pattern */
+const ORB_TIGHTNESS = { tight: 2, moderate: 4 }
+
+/** Upper span of a tight and of a moderate stellium */
+const SPAN_TIGHTNESS = { tight: 8, moderate: 15 }
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`
+}
+
+function tightness(value: number, limits: { tight: number; moderate: number }): PatternTightness {
+  if (value <= limits.tight) return 'tight'
+  if (value <= limits.moderate) return 'moderate'
+  return 'wide'
+}
+
+/** The value every point shares, or null */
+function shared(points: (Point | undefined)[], field: 'element' | 'quality'): string | null {
+  const first = points[0]?.[field]
+  if (!first) return null
+  return points.every((point) => point?.[field] === first) ? first : null
+}
+
+/** Smallest arc in degrees containing all longitudes */
+function arcSpan(longitudes: number[]): number {
+  const sorted = [...longitudes].sort((a, b) => a - b)
+  let largestGap = 360 - sorted[sorted.length - 1]! + sorted[0]!
+  for (let i = 1; i < sorted.length; i++) {
+    largestGap = Math.max(largestGap, sorted[i]! - sorted[i - 1]!)
+  }
+  return 360 - largestGap
+}
+
+/** Every way of picking `size` names, each combination in input order */
+function combinations(names: string[], size: number): string[][] {
+  if (size === 0) return [[]]
+  return names.flatMap((name, index) => combinations(names.slice(index + 1), size - 1).map((rest) => [name, ...rest]))
+}
+
+function isSubset(small: string[], large: string[]): boolean {
+  return small.every((name) => large.includes(name))
+}
+
+/**
+ * Points of a subject that can take part in a pattern (houses excluded)
+ */
+export function getPatternPoints(subject: EnrichedSubjectModel): Point[] {
+  return Object.entries(subject).flatMap(([key, value]) => {
+    if (!isPointKey(key) || key.endsWith('_house')) return []
+    const point = value as Point | undefined
+    if (!point || typeof point.abs_pos !== 'number') return []
+    return [point]
+  })
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Finds the aspect patterns formed by a chart's aspects.
+ *
+ * A T-Square that is part of a Grand Cross, and a Grand Trine that is part of
+ * a Kite, are only reported as the larger pattern.
+ *
+ * @param aspects - Aspects of the chart, as returned by the Astrologer API
+ * @param points - Points of the chart, for element, modality and stelliums
+ * @returns Patterns ordered by type, tightest first within a type
+ */
+export function findAspectPatterns(
+  aspects: Aspect[],
+  points: Point[],
+  options: AspectPatternOptions = {},
+): AspectPattern[] {
+  const { stelliumSize = 3 } = options
+  const pointsByName = new Map(points.map((point) => [point.name, point]))
+
+  const aspectByPair = new Map<string, Aspect>()
+  for (const aspect of aspects) {
+    if (aspect.p1_owner !== aspect.p2_owner || aspect.p1_name === aspect.p2_name) continue
+    const key = pairKey(aspect.p1_name, aspect.p2_name)
+    if (!aspectByPair.has(key)) aspectByPair.set(key, aspect)
+  }
+
+  const find = (a: string, b: string, type: string): Aspect | undefined => {
+    const aspect = aspectByPair.get(pairKey(a, b))
+    return aspect?.aspect === type ? aspect : undefined
+  }
+
+  const names = [...new Set([...aspectByPair.values()].flatMap((aspect) => [aspect.p1_name, aspect.p2_name]))].sort()
+
+  const build = (type: AspectPatternType, names: string[], apex: string | null, found: Aspect[]): AspectPattern => {
+    const patternPoints = names.map((name) => pointsByName.get(name))
+    const orb = found.reduce((sum, aspect) => sum + Math.abs(aspect.orbit), 0) / found.length
+    return {
+      type,
+      label: ASPECT_PATTERN_LABELS[type],
+      points: names,
+      apex,
+      element: shared(patternPoints, 'element'),
+      modality: shared(patternPoints, 'quality'),
+      orb,
+      tightness: tightness(orb, ORB_TIGHTNESS),
+      aspects: found,
+    }
+  }
+
+  const patterns: AspectPattern[] = []
+  const oppositions = [...aspectByPair.values()].filter((aspect) => aspect.aspect === 'opposition')
+
+  // Grand Trines and Kites
+  const grandTrines: AspectPattern[] = []
+  for (const trio of combinations(names, 3)) {
+    const [a, b, c] = trio as [string, string, string]
+    const found = [find(a, b, 'trine'), find(b, c, 'trine'), find(a, c, 'trine')]
+    if (found.every(Boolean)) grandTrines.push(build('grand_trine', trio, null, found as Aspect[]))
+  }
+  const kites: AspectPattern[] = []
+  for (const trine of grandTrines) {
+    for (const head of trine.points) {
+      const others = trine.points.filter((name) => name !== head)
+      for (const tail of names) {
+        if (trine.points.includes(tail)) continue
+        const opposition = find(head, tail, 'opposition')
+        const sextiles = others.map((name) => find(name, tail, 'sextile'))
+        if (!opposition || !sextiles.every(Boolean)) continue
+        kites.push(
+          build('kite', [head, ...others, tail], head, [...trine.aspects, opposition, ...(sextiles as Aspect[])]),
+        )
+      }
+    }
+  }
+  patterns.push(...kites)
+  patterns.push(...grandTrines.filter((trine) => !kites.some((kite) => isSubset(trine.points, kite.points))))
+
+  // Grand Crosses and Mystic Rectangles, from two oppositions
+  const grandCrosses: AspectPattern[] = []
+  oppositions.forEach((first, index) => {
+    for (const second of oppositions.slice(index + 1)) {
+      const [a, c] = [first.p1_name, first.p2_name]
+      const [b, d] = [second.p1_name, second.p2_name]
+      if (new Set([a, b, c, d]).size < 4) continue
+      const sides = [
+        [a, b],
+        [b, c],
+        [c, d],
+        [d, a],
+      ] as const
+      const squares = sides.map(([x, y]) => find(x, y, 'square'))
+      if (squares.every(Boolean)) {
+        grandCrosses.push(build('grand_cross', [a, b, c, d], null, [first, second, ...(squares as Aspect[])]))
+        continue
+      }
+      // The sides alternate between sextiles and trines: a-b and c-d are
+      // the same aspect because a and c, and b and d, are opposite.
+      for (const [short, long] of [
+        ['sextile', 'trine'],
+        ['trine', 'sextile'],
+      ] as const) {
+        const found = [find(a, b, short), find(b, c, long), find(c, d, short), find(d, a, long)]
+        if (found.every(Boolean)) {
+          patterns.push(build('mystic_rectangle', [a, b, c, d], null, [first, second, ...(found as Aspect[])]))
+        }
+      }
+    }
+  })
+  patterns.push(...grandCrosses)
+
+  // T-Squares, unless part of a Grand Cross
+  for (const opposition of oppositions) {
+    const [a, b] = [opposition.p1_name, opposition.p2_name]
+    for (const apex of names) {
+      if (apex === a || apex === b) continue
+      const squares = [find(apex, a, 'square'), find(apex, b, 'square')]
+      if (!squares.every(Boolean)) continue
+      if (grandCrosses.some((cross) => isSubset([apex, a, b], cross.points))) continue
+      patterns.push(build('t_square', [apex, a, b], apex, [opposition, ...(squares as Aspect[])]))
+    }
+  }
+
+  // Yods: two points in sextile, both quincunx the apex
+  for (const sextile of aspectByPair.values()) {
+    if (sextile.aspect !== 'sextile') continue
+    const [a, b] = [sextile.p1_name, sextile.p2_name]
+    for (const apex of names) {
+      if (apex === a || apex === b) continue
+      const quincunxes = [find(apex, a, 'quincunx'), find(apex, b, 'quincunx')]
+      if (!quincunxes.every(Boolean)) continue
+      patterns.push(build('yod', [apex, a, b], apex, [sextile, ...(quincunxes as Aspect[])]))
+    }
+  }
+
+  patterns.push(...findStelliums(points, stelliumSize))
+
+  return patterns.sort((x, y) => PATTERN_ORDER.indexOf(x.type) - PATTERN_ORDER.indexOf(y.type) || x.orb - y.orb)
+}
+
+/**
+ * Stelliums by sign, and by house when the same planets are not already a sign stellium
+ */
+function findStelliums(points: Point[], size: number): AspectPattern[] {
+  const planets = points.filter((point) => STELLIUM_PLANETS.includes(point.name))
+  const stelliums: AspectPattern[] = []
+
+  const group = (keyOf: (point: Point) => string | null) => {
+    const groups = new Map<string, Point[]>()
+    for (const planet of planets) {
+      const key = keyOf(planet)
+      if (key) groups.set(key, [...(groups.get(key) ?? []), planet])
+    }
+    return [...groups.entries()].filter(([, members]) => members.length >= size)
+  }
+
+  const addStellium = (place: string, members: Point[]) => {
+    const span = arcSpan(members.map((point) => point.abs_pos))
+    stelliums.push({
+      type: 'stellium',
+      label: `${ASPECT_PATTERN_LABELS.stellium} in ${place}`,
+      points: members.map((point) => point.name),
+      apex: null,
+      element: shared(members, 'element'),
+      modality: shared(members, 'quality'),
+      orb: span,
+      tightness: tightness(span, SPAN_TIGHTNESS),
+      aspects: [],
+    })
+  }
+
+  for (const [sign, members] of group((point) => point.sign)) {
+    addStellium(sign, members)
+  }
+  for (const [house, members] of group((point) => point.house)) {
+    const names = members.map((point) => point.name)
+    if (stelliums.some((stellium) => isSubset(names, stellium.points))) continue
+    addStellium(`the ${house.replace(/_/g, ' ')}`, members)
+  }
+  return stelliums
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * One-line description of a pattern,
+ * e.g. "Grand Trine (Fire): Sun, Moon, Jupiter - mean orb 1.8°, tight"
+ */
+export function describeAspectPattern(pattern: AspectPattern): string {
+  const qualities = [pattern.element, pattern.modality].filter(Boolean).join(', ')
+  const names = pattern.points.map((name) =>
+    name === pattern.apex ? `${formatPlanetName(name)} (apex)` : formatPlanetName(name),
+  )
+  const measure = pattern.type === 'stellium' ? 'span' : 'mean orb'
+  return `${pattern.label}${qualities ? ` (${qualities})` : ''}: ${names.join(', ')} - ${measure} ${pattern.orb.toFixed(1)}°, ${pattern.tightness}`
+}
+
+/**
+ * Aspect patterns as a context section for AI interpretation
+ *
+ * @returns The section, or an empty string when the chart has no patterns
+ */
+export function formatAspectPatternsContext(patterns: AspectPattern[]): string {
+  if (patterns.length === 0) return ''
+  return ['Aspect patterns:', ...patterns.map((pattern) => `- ${describeAspectPattern(pattern)}`)].join('\n')
+}
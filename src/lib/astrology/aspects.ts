@@ -59,6 +59,25 @@ export const ALL_ASPECTS: AspectDefinition[] = [
  */
 export const DEFAULT_ACTIVE_ASPECTS = ALL_ASPECTS.map((a) => ({ name: a.name, orb: a.defaultOrb }))
 
+/**
+ * Exact angular separation in degrees for each aspect type.
+ * Used when computing aspects locally (e.g. exact transit hit detection).
+ */
+export const ASPECT_DEGREES: Record<string, number> = {
+  conjunction: 0,
+  opposition: 180,
+  trine: 120,
+  square: 90,
+  sextile: 60,
+  quintile: 72,
+  'semi-sextile': 30,
+  'semi-square': 45,
+  sesquiquadrate: 135,
+  biquintile: 144,
+  'bi-quintile': 144,
+  quincunx: 150,
+}
+
 /**
  * Unicode symbols for astrological aspects.
  * Used in grids, timeline displays, and chart tooltips.
@@ -231,3 +250,17 @@ export function getDefaultOrb(aspectName: string): number {
   const aspect = ALL_ASPECTS.find((a) => a.name === aspectName.toLowerCase())
   return aspect?.defaultOrb ?? 1
 }
+
+/**
+ * Gets the exact angle for an aspect type.
+ *
+ * @param aspectName - The name of the aspect
+ * @returns The aspect angle in degrees, or undefined if aspect is unknown
+ *
+ * @example
+ * getAspectDegrees('trine') // Returns 120
+ * getAspectDegrees('unknown') // Returns undefined
+ */
+export function getAspectDegrees(aspectName: string): number | undefined {
+  return ASPECT_DEGREES[aspectName.toLowerCase()]
+}
@@ -0,0 +1,578 @@
+/**
+ * Astrocartography: where on Earth each natal point was angular at birth
+ *
+ * At the moment of birth every point culminates (MC), anti-culminates (IC),
+ * rises (ASC) or sets (DSC) along a line on the globe. MC and IC lines are
+ * meridians; ASC and DSC lines curve with the point's declination and stop at
+ * the latitudes where the point becomes circumpolar. Parans are the latitudes
+ * where two points are angular at the same moment, and local space lines are
+ * the great circles from the birthplace towards each point's azimuth.
+ *
+ * Positions come from the built-in ephemeris, so the map is drawn without a
+ * request to the Astrologer API. Lines are computed "in mundo", with the
+ * point's ecliptic latitude included.
+ *
+ * @module lib/astrology/astrocartography
+ */
+
+import type { Subject } from '@/types/subjects'
+import { getTimezoneOffsetMinutes, isKnownTimezone } from '@/lib/csv/interchange'
+import {
+  eclipticToDeclination,
+  getEclipticPosition,
+  greenwichSiderealTime,
+  julianDay,
+  trueObliquity,
+  type EphemerisBody,
+} from '@/lib/ephemeris/astronomy'
+import { formatPlanetName } from './planet-formatting'
+import { getBirthInstant } from './progressions'
+import { normalizeDegrees, signedDelta } from './transit-timeline'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AcgAngle = 'MC' | 'IC' | 'ASC' | 'DSC'
+
+export type AcgLineKind = 'angle' | 'paran' | 'local-space'
+
+/** Geographic coordinates as [longitude, latitude], east and north positive */
+export type LonLat = [longitude: number, latitude: number]
+
+export interface GeoLocation {
+  latitude: number
+  longitude: number
+}
+
+/**
+ * Apparent equatorial position of a point at birth
+ */
+export interface EquatorialPoint {
+  /** API point name, e.g. "Venus" */
+  name: string
+  rightAscension: number
+  declination: number
+}
+
+/**
+ * Line where a point is on one of the four angles
+ */
+export interface AngleLine {
+  id: string
+  point: string
+  angle: AcgAngle
+  /** Polylines, split where the line crosses the antimeridian */
+  segments: LonLat[][]
+}
+
+/**
+ * Latitude where two points are angular at the same moment
+ */
+export interface ParanLine {
+  id: string
+  latitude: number
+  points: [{ point: string; angle: AcgAngle }, { point: string; angle: AcgAngle }]
+}
+
+/**
+ * Great circle from the birthplace in the direction of a point
+ */
+export interface LocalSpaceLine {
+  id: string
+  point: string
+  /** Azimuth at birth, clockwise from north */
+  azimuth: number
+  segments: LonLat[][]
+}
+
+export interface AstrocartographyData {
+  points: EquatorialPoint[]
+  angleLines: AngleLine[]
+  parans: ParanLine[]
+  localSpaceLines: LocalSpaceLine[]
+}
+
+export interface AstrocartographyOptions {
+  /** API point names; every supported point when omitted */
+  points?: string[]
+  /** Lines are drawn between these latitudes, north and south */
+  maxLatitude?: number
+}
+
+/**
+ * Distance from a location to a line, with the line's influence there
+ */
+export interface LineDistance {
+  id: string
+  kind: AcgLineKind
+  /** Points forming the line: one, or two for parans */
+  points: { point: string; angle?: AcgAngle }[]
+  distanceKm: number
+  /** Distance as an arc of the Earth's surface, in degrees */
+  orb: number
+  /** 1 on the line, falling to 0 at the edge of the orb */
+  strength: number
+}
+
+/**
+ * Place of a relocated chart, as chosen in the relocation dialog
+ */
+export interface RelocationTarget extends GeoLocation {
+  city: string
+  nation: string
+  timezone: string
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Points with astrocartography lines, by API name */
+const ACG_BODIES: Record<string, EphemerisBody> = {
+  Sun: 'sun',
+  Moon: 'moon',
+  Mercury: 'mercury',
+  Venus: 'venus',
+  Mars: 'mars',
+  Jupiter: 'jupiter',
+  Saturn: 'saturn',
+  Uranus: 'uranus',
+  Neptune: 'neptune',
+  Pluto: 'pluto',
+  Mean_North_Lunar_Node: 'mean_node',
+  True_North_Lunar_Node: 'true_node',
+}
+
+export const ACG_POINT_NAMES = Object.keys(ACG_BODIES)
+
+export const ACG_ANGLES: readonly AcgAngle[] = ['MC', 'IC', 'ASC', 'DSC']
+
+export const EARTH_RADIUS_KM = 6371
+
+const KM_PER_DEGREE = (Math.PI / 180) * EARTH_RADIUS_KM
+
+/** Default orb of a line, in kilometres */
+export const DEFAULT_ACG_ORB_KM = 500
+
+const DEFAULT_MAX_LATITUDE = 80
+
+/** Latitude step of ASC/DSC lines and paran searches, in degrees */
+const LATITUDE_STEP = 1
+
+/** Distance step along local space great circles, in degrees */
+const GREAT_CIRCLE_STEP = 2
+
+/**
+ * Traditional nature of each point for relocation scores: benefics add,
+ * malefics subtract, the rest weigh in between
+ */
+const POINT_NATURE: Record<string, number> = {
+  Sun: 0.5,
+  Moon: 0.5,
+  Mercury: 0.25,
+  Venus: 1,
+  Mars: -1,
+  Jupiter: 1,
+  Saturn: -1,
+  Uranus: -0.5,
+  Neptune: -0.5,
+  Pluto: -0.5,
+}
+
+/** Weight of each kind of line in relocation scores */
+const KIND_WEIGHT: Record<AcgLineKind, number> = {
+  angle: 1,
+  paran: 0.5,
+  'local-space': 0.5,
+}
+
+const RAD = Math.PI / 180
+const sin = (deg: number) => Math.sin(deg * RAD)
+const cos = (deg: number) => Math.cos(deg * RAD)
+const tan = (deg: number) => Math.tan(deg * RAD)
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Longitude in the range [-180, 180) */
+export function wrapLongitude(longitude: number): number {
+  return normalizeDegrees(longitude + 180) - 180
+}
+
+/**
+ * Splits a polyline where it jumps across the antimeridian
+ */
+function splitAtAntimeridian(line: (LonLat | null)[]): LonLat[][] {
+  const segments: LonLat[][] = []
+  let current: LonLat[] = []
+  for (const point of line) {
+    const previous = current[current.length - 1]
+    if (!point || (previous && Math.abs(point[0] - previous[0]) > 180)) {
+      if (current.length > 1) segments.push(current)
+      current = []
+    }
+    if (point) current.push(point)
+  }
+  if (current.length > 1) segments.push(current)
+  return segments
+}
+
+function latitudeSteps(maxLatitude: number): number[] {
+  const steps: number[] = []
+  for (let latitude = -maxLatitude; latitude <= maxLatitude + 1e-9; latitude += LATITUDE_STEP) {
+    steps.push(latitude)
+  }
+  return steps
+}
+
+/**
+ * Semi-diurnal arc: hour angle of rising or setting at a latitude, 0-180.
+ * Null where the point never rises or never sets.
+ */
+function semiDiurnalArc(declination: number, latitude: number): number | null {
+  const cosH = -tan(latitude) * tan(declination)
+  if (Math.abs(cosH) > 1 + 1e-12) return null
+  return Math.acos(Math.max(-1, Math.min(1, cosH))) / RAD
+}
+
+/**
+ * Local sidereal time at which a point reaches an angle, or null where it never does
+ */
+export function angleSiderealTime(point: EquatorialPoint, angle: AcgAngle, latitude: number): number | null {
+  switch (angle) {
+    case 'MC':
+      return point.rightAscension
+    case 'IC':
+      return normalizeDegrees(point.rightAscension + 180)
+    case 'ASC':
+    case 'DSC': {
+      const arc = semiDiurnalArc(point.declination, latitude)
+      if (arc === null) return null
+      return normalizeDegrees(point.rightAscension + (angle === 'ASC' ? -arc : arc))
+    }
+  }
+}
+
+// ============================================================================
+// Positions
+// ============================================================================
+
+/**
+ * Apparent right ascension and declination of the supported points at an instant
+ *
+ * @param pointNames - API point names; unsupported names are left out
+ */
+export function getEquatorialPoints(instant: Date, pointNames: string[] = ACG_POINT_NAMES): EquatorialPoint[] {
+  const obliquity = trueObliquity(julianDay(instant))
+  return pointNames.flatMap((name) => {
+    const body = ACG_BODIES[name]
+    if (!body) return []
+    const { longitude, latitude } = getEclipticPosition(body, instant)
+    const rightAscension = normalizeDegrees(
+      Math.atan2(sin(longitude) * cos(obliquity) - tan(latitude) * sin(obliquity), cos(longitude)) / RAD,
+    )
+    return [{ name, rightAscension, declination: eclipticToDeclination(longitude, latitude, obliquity) }]
+  })
+}
+
+// ============================================================================
+// Lines
+// ============================================================================
+
+/**
+ * MC, IC, ASC and DSC lines of a point
+ *
+ * @param greenwichSidereal - Apparent sidereal time at Greenwich at birth, in degrees
+ */
+export function getAngleLines(
+  point: EquatorialPoint,
+  greenwichSidereal: number,
+  maxLatitude = DEFAULT_MAX_LATITUDE,
+): AngleLine[] {
+  const latitudes = latitudeSteps(maxLatitude)
+
+  // Latitudes where the point turns circumpolar close the ASC and DSC lines
+  const limit = 90 - Math.abs(point.declination)
+  if (limit < maxLatitude) latitudes.push(limit, -limit)
+  latitudes.sort((a, b) => a - b)
+
+  return ACG_ANGLES.map<AngleLine>((angle) => {
+    const line = latitudes.map<LonLat | null>((latitude) => {
+      const siderealTime = angleSiderealTime(point, angle, latitude)
+      return siderealTime === null ? null : [wrapLongitude(siderealTime - greenwichSidereal), latitude]
+    })
+    return { id: `${point.name}-${angle}`, point: point.name, angle, segments: splitAtAntimeridian(line) }
+  })
+}
+
+/**
+ * Latitudes where two points are angular at the same moment.
+ * Points on the meridian together are angular at every latitude, so those pairs are skipped.
+ */
+export function findParans(points: EquatorialPoint[], maxLatitude = DEFAULT_MAX_LATITUDE): ParanLine[] {
+  const latitudes = latitudeSteps(maxLatitude)
+  const parans: ParanLine[] = []
+
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const first = points[i]!
+      const second = points[j]!
+
+      for (const angle1 of ACG_ANGLES) {
+        for (const angle2 of ACG_ANGLES) {
+          const meridian1 = angle1 === 'MC' || angle1 === 'IC'
+          const meridian2 = angle2 === 'MC' || angle2 === 'IC'
+          if (meridian1 && meridian2) continue
+
+          // Difference between the two sidereal times; a paran is where it crosses zero
+          const gap = (latitude: number): number | null => {
+            const time1 = angleSiderealTime(first, angle1, latitude)
+            const time2 = angleSiderealTime(second, angle2, latitude)
+            return time1 === null || time2 === null ? null : signedDelta(time1, time2)
+          }
+
+          for (let k = 1; k < latitudes.length; k++) {
+            let low = latitudes[k - 1]!
+            let high = latitudes[k]!
+            let gapLow = gap(low)
+            const gapHigh = gap(high)
+            // A jump from +180 to -180 is a wrap, not a crossing
+            if (gapLow === null || gapHigh === null || Math.sign(gapLow) === Math.sign(gapHigh)) continue
+            if (Math.abs(gapLow - gapHigh) > 180) continue
+
+            for (let iteration = 0; iteration < 40; iteration++) {
+              const middle = (low + high) / 2
+              const gapMiddle = gap(middle)
+              if (gapMiddle === null) break
+              if (Math.sign(gapMiddle) === Math.sign(gapLow)) {
+                low = middle
+                gapLow = gapMiddle
+              } else {
+                high = middle
+              }
+            }
+
+            const latitude = (low + high) / 2
+            parans.push({
+              id: `${first.name}-${angle1}-${second.name}-${angle2}-${latitude.toFixed(2)}`,
+              latitude,
+              points: [
+                { point: first.name, angle: angle1 },
+                { point: second.name, angle: angle2 },
+              ],
+            })
+          }
+        }
+      }
+    }
+  }
+
+  return parans.sort((a, b) => b.latitude - a.latitude)
+}
+
+/**
+ * Azimuth of a point seen from a place, clockwise from north
+ *
+ * @param localSidereal - Local sidereal time, in degrees
+ */
+export function getAzimuth(point: EquatorialPoint, place: GeoLocation, localSidereal: number): number {
+  const hourAngle = localSidereal - point.rightAscension
+  // Meeus 13.5 measures from the south; turn it to measure from the north
+  const fromSouth =
+    Math.atan2(sin(hourAngle), cos(hourAngle) * sin(place.latitude) - tan(point.declination) * cos(place.latitude)) /
+    RAD
+  return normalizeDegrees(fromSouth + 180)
+}
+
+/**
+ * Point reached by travelling a great-circle arc from a place
+ *
+ * @param azimuth - Initial bearing, clockwise from north
+ * @param distance - Arc length, in degrees
+ */
+export function destinationPoint(place: GeoLocation, azimuth: number, distance: number): LonLat {
+  const latitude =
+    Math.asin(sin(place.latitude) * cos(distance) + cos(place.latitude) * sin(distance) * cos(azimuth)) / RAD
+  const longitude =
+    place.longitude +
+    Math.atan2(
+      sin(azimuth) * sin(distance) * cos(place.latitude),
+      cos(distance) - sin(place.latitude) * sin(latitude),
+    ) /
+      RAD
+  return [wrapLongitude(longitude), latitude]
+}
+
+/**
+ * Local space line of a point: the whole great circle through the birthplace along its azimuth
+ */
+export function getLocalSpaceLine(
+  point: EquatorialPoint,
+  birthPlace: GeoLocation,
+  localSidereal: number,
+): LocalSpaceLine {
+  const azimuth = getAzimuth(point, birthPlace, localSidereal)
+  const line: LonLat[] = []
+  for (let distance = 0; distance <= 360; distance += GREAT_CIRCLE_STEP) {
+    line.push(destinationPoint(birthPlace, azimuth, distance))
+  }
+  return { id: `${point.name}-local-space`, point: point.name, azimuth, segments: splitAtAntimeridian(line) }
+}
+
+/**
+ * All astrocartography lines of a birth
+ *
+ * @param instant - UT instant of birth
+ * @param birthPlace - Place of birth, the origin of local space lines
+ */
+export function calculateAstrocartography(
+  instant: Date,
+  birthPlace: GeoLocation,
+  options: AstrocartographyOptions = {},
+): AstrocartographyData {
+  const { points: pointNames, maxLatitude = DEFAULT_MAX_LATITUDE } = options
+  const points = getEquatorialPoints(instant, pointNames)
+  const greenwichSidereal = greenwichSiderealTime(julianDay(instant))
+  const localSidereal = normalizeDegrees(greenwichSidereal + birthPlace.longitude)
+
+  return {
+    points,
+    angleLines: points.flatMap((point) => getAngleLines(point, greenwichSidereal, maxLatitude)),
+    parans: findParans(points, maxLatitude),
+    localSpaceLines: points.map((point) => getLocalSpaceLine(point, birthPlace, localSidereal)),
+  }
+}
+
+// ============================================================================
+// Distances and Relocation
+// ============================================================================
+
+type Vector = [number, number, number]
+
+function toVector([longitude, latitude]: LonLat): Vector {
+  return [cos(latitude) * cos(longitude), cos(latitude) * sin(longitude), sin(latitude)]
+}
+
+const dot = (a: Vector, b: Vector) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+const cross = (a: Vector, b: Vector): Vector => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+]
+
+/** Angle between two unit vectors, in degrees */
+function arcBetween(a: Vector, b: Vector): number {
+  return Math.atan2(Math.hypot(...cross(a, b)), dot(a, b)) / RAD
+}
+
+/**
+ * Shortest arc from a location to a polyline whose vertices are joined by great circles, in degrees
+ */
+export function arcToPolyline(location: GeoLocation, segments: LonLat[][]): number {
+  const p = toVector([location.longitude, location.latitude])
+  let best = Infinity
+
+  for (const segment of segments) {
+    for (let i = 0; i < segment.length; i++) {
+      const a = toVector(segment[i]!)
+      best = Math.min(best, arcBetween(p, a))
+      if (i === 0) continue
+
+      const b = toVector(segment[i - 1]!)
+      const normal = cross(a, b)
+      const length = Math.hypot(...normal)
+      if (length < 1e-12) continue
+      const n: Vector = [normal[0] / length, normal[1] / length, normal[2] / length]
+
+      // Foot of the perpendicular, counted only when it falls between the vertices
+      const offset = dot(p, n)
+      const foot: Vector = [p[0] - offset * n[0], p[1] - offset * n[1], p[2] - offset * n[2]]
+      if (dot(cross(a, foot), n) >= 0 && dot(cross(foot, b), n) >= 0) {
+        best = Math.min(best, Math.abs(Math.asin(Math.max(-1, Math.min(1, offset))) / RAD))
+      }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Distance from a location to every line, nearest first
+ *
+ * @param orbKm - Distance at which a line stops having an influence
+ */
+export function findNearestLines(
+  data: AstrocartographyData,
+  location: GeoLocation,
+  orbKm: number = DEFAULT_ACG_ORB_KM,
+): LineDistance[] {
+  const toDistance = (id: string, kind: AcgLineKind, points: LineDistance['points'], orb: number): LineDistance => {
+    const distanceKm = orb * KM_PER_DEGREE
+    return { id, kind, points, distanceKm, orb, strength: Math.max(0, 1 - distanceKm / orbKm) }
+  }
+
+  return [
+    ...data.angleLines.map((line) =>
+      toDistance(line.id, 'angle', [{ point: line.point, angle: line.angle }], arcToPolyline(location, line.segments)),
+    ),
+    ...data.parans.map((paran) =>
+      toDistance(paran.id, 'paran', paran.points, Math.abs(location.latitude - paran.latitude)),
+    ),
+    ...data.localSpaceLines.map((line) =>
+      toDistance(line.id, 'local-space', [{ point: line.point }], arcToPolyline(location, line.segments)),
+    ),
+  ].sort((a, b) => a.distanceKm - b.distanceKm)
+}
+
+/**
+ * Display label of a line, e.g. "Venus MC", "Sun ASC / Mars MC paran" or "Moon local space"
+ */
+export function formatAcgLineLabel(line: Pick<LineDistance, 'kind' | 'points'>): string {
+  const names = line.points.map(({ point, angle }) => [formatPlanetName(point), angle].filter(Boolean).join(' '))
+  switch (line.kind) {
+    case 'angle':
+      return names[0] ?? ''
+    case 'paran':
+      return `${names.join(' / ')} paran`
+    case 'local-space':
+      return `${names[0]} local space`
+  }
+}
+
+/**
+ * Relocation score of a place: the influence of the lines within orb, weighted by
+ * the nature of their points. Positive where benefic lines dominate, negative
+ * where malefic lines do.
+ */
+export function scoreRelocation(distances: LineDistance[]): number {
+  const score = distances.reduce((total, line) => {
+    if (line.strength <= 0) return total
+    const nature = line.points.reduce((sum, { point }) => sum + (POINT_NATURE[point] ?? 0), 0) / line.points.length
+    return total + line.strength * nature * KIND_WEIGHT[line.kind]
+  }, 0)
+  return Math.round(score * 10) / 10
+}
+
+/**
+ * Subject cast at the same instant of birth in another place.
+ * `birth_datetime` holds local wall-clock time, so it moves to the new zone.
+ */
+export function relocateSubject(subject: Subject, target: RelocationTarget): Subject {
+  const instant = getBirthInstant(subject)
+  const offset = isKnownTimezone(target.timezone) ? getTimezoneOffsetMinutes(target.timezone, instant) : 0
+  // The offset is looked up for the instant itself, so check it against the new wall clock
+  const wallClock = new Date(instant.getTime() + offset * 60_000)
+  const settled = isKnownTimezone(target.timezone) ? getTimezoneOffsetMinutes(target.timezone, wallClock) : 0
+
+  return {
+    ...subject,
+    birth_datetime: new Date(instant.getTime() + settled * 60_000).toISOString(),
+    city: target.city,
+    nation: target.nation,
+    latitude: target.latitude,
+    longitude: target.longitude,
+    timezone: target.timezone,
+  }
+}
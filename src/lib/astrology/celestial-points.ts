@@ -216,6 +216,10 @@ export const PLANET_ICONS: Record<string, string> = {
  * getPlanetIcon('Ascendant') // Returns 'ASC'
  */
 export function getPlanetIcon(pointName: string): string {
+  // Midpoints, e.g. "Sun/Moon" -> "☉/☽"
+  if (pointName.includes('/')) {
+    return pointName.split('/').map(getPlanetIcon).join('/')
+  }
   return PLANET_ICONS[pointName] ?? PLANET_ICONS[pointName.replace(/ /g, '_')] ?? '•'
 }
 
@@ -436,6 +440,25 @@ export function isChartAngle(pointName: string): boolean {
 // Chart Configuration Constants
 // ============================================================================
 
+/**
+ * Sign data of the Astrologer API (Kerykeion), in zodiac order.
+ * Used to build points for positions calculated locally.
+ */
+export const ZODIAC_SIGNS = [
+  { sign: 'Ari', element: 'Fire', quality: 'Cardinal', emoji: '♈️' },
+  { sign: 'Tau', element: 'Earth', quality: 'Fixed', emoji: '♉️' },
+  { sign: 'Gem', element: 'Air', quality: 'Mutable', emoji: '♊️' },
+  { sign: 'Can', element: 'Water', quality: 'Cardinal', emoji: '♋️' },
+  { sign: 'Leo', element: 'Fire', quality: 'Fixed', emoji: '♌️' },
+  { sign: 'Vir', element: 'Earth', quality: 'Mutable', emoji: '♍️' },
+  { sign: 'Lib', element: 'Air', quality: 'Cardinal', emoji: '♎️' },
+  { sign: 'Sco', element: 'Water', quality: 'Fixed', emoji: '♏️' },
+  { sign: 'Sag', element: 'Fire', quality: 'Mutable', emoji: '♐️' },
+  { sign: 'Cap', element: 'Earth', quality: 'Cardinal', emoji: '♑️' },
+  { sign: 'Aqu', element: 'Air', quality: 'Fixed', emoji: '♒️' },
+  { sign: 'Pis', element: 'Water', quality: 'Mutable', emoji: '♓️' },
+] as const
+
 /**
  * Available house systems for chart calculation.
  * Each system uses a different mathematical method to divide
@@ -0,0 +1,109 @@
+/**
+ * Chart request building
+ *
+ * Converts subjects to Astrologer API models and merges request options with
+ * the user's chart preferences. Shared by the chart server actions and the
+ * public API.
+ *
+ * @module lib/astrology/chart-request
+ */
+
+import type { ChartPreferencesData } from '@/lib/db/chart-preferences'
+import type { ChartRequestOptions, SubjectModel } from '@/types/astrology'
+import type { Subject } from '@/types/subjects'
+
+/**
+ * Converts local Subject type to API SubjectModel format
+ *
+ * @param subject - Subject from database
+ * @returns SubjectModel formatted for API requests
+ *
+ * @remarks
+ * - Extracts date components from ISO datetime string
+ * - Uses UTC values to avoid timezone issues
+ * - Includes all required location data
+ */
+/**
+ * Converts Subject to basic SubjectModel (no config)
+ */
+export function toBasicSubjectModel(subject: Subject): SubjectModel {
+  const date = new Date(subject.birth_datetime)
+
+  return {
+    name: subject.name,
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+    city: subject.city,
+    nation: subject.nation,
+    timezone: subject.timezone,
+    longitude: subject.longitude,
+    latitude: subject.latitude,
+  }
+}
+
+/**
+ * Converts Subject to SubjectModel with user preferences applied
+ */
+export function toSubjectModelWithPreferences(subject: Subject, prefs: ChartPreferencesData): SubjectModel {
+  const basicModel = toBasicSubjectModel(subject)
+
+  if (!prefs.default_zodiac_system) {
+    throw new Error('Missing required preference: default_zodiac_system')
+  }
+  if (!prefs.house_system) {
+    throw new Error('Missing required preference: house_system')
+  }
+  if (!prefs.perspective_type) {
+    throw new Error('Missing required preference: perspective_type')
+  }
+
+  const zodiacType = prefs.default_zodiac_system
+  const siderealMode = zodiacType === 'Sidereal' ? prefs.default_sidereal_mode || null : null
+
+  return {
+    ...basicModel,
+    zodiac_type: zodiacType,
+    sidereal_mode: siderealMode,
+    houses_system_identifier: prefs.house_system,
+    perspective_type: prefs.perspective_type,
+  }
+}
+
+/**
+ * Merges user preferences with request options
+ */
+export function mergeOptionsWithPreferences(
+  options: ChartRequestOptions | undefined,
+  prefs: ChartPreferencesData,
+): ChartRequestOptions {
+  // Validate required preferences
+  // active_points can be empty if user wants to hide all points
+  if (!prefs.active_aspects || prefs.active_aspects.length === 0) {
+    throw new Error('Missing required preference: active_aspects')
+  }
+
+  // Handle custom_distribution_weights - only include if it has keys
+  const hasCustomWeights =
+    prefs.custom_distribution_weights && Object.keys(prefs.custom_distribution_weights).length > 0
+
+  return {
+    theme: prefs.theme as ChartRequestOptions['theme'],
+    language: 'EN',
+    transparent_background: true,
+    show_house_position_comparison: true,
+    show_cusp_position_comparison: true,
+    show_degree_indicators: prefs.show_degree_indicators,
+    show_aspect_icons: prefs.show_aspect_icons,
+    distribution_method: prefs.distribution_method as ChartRequestOptions['distribution_method'],
+    active_points: prefs.active_points,
+    active_aspects: prefs.active_aspects,
+    custom_distribution_weights: hasCustomWeights ? prefs.custom_distribution_weights : undefined,
+    split_chart: true,
+    custom_title: undefined,
+    ...options,
+  }
+}
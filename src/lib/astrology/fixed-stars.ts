@@ -0,0 +1,491 @@
+/**
+ * Fixed Stars
+ *
+ * A catalogue of bright and traditionally used stars, with their conjunctions
+ * to natal points and angles and their parans at the birth latitude. A paran
+ * links a star and a planet that reach an angle (rising, culminating, setting
+ * or anti-culminating) at the same moment of the day of birth, wherever the
+ * planet was in longitude.
+ *
+ * Star positions are J2000 catalogue coordinates precessed to the birth date
+ * (proper motion is ignored); planets for parans come from the built-in
+ * ephemeris, so neither needs a request to the Astrologer API. Conjunction
+ * orbs depend on the star's magnitude.
+ *
+ * @module lib/astrology/fixed-stars
+ */
+
+import type { EnrichedSubjectModel, Point } from '@/types/astrology'
+import { isPointKey } from '@/types/astrology'
+import {
+  eclipticToDeclination,
+  getApparentLongitude,
+  J2000,
+  julianDay,
+  meanObliquity,
+  nutation,
+  trueObliquity,
+} from '@/lib/ephemeris/astronomy'
+import { getCelestialPointIndex } from './celestial-points'
+import { ACG_ANGLES, angleSiderealTime, getEquatorialPoints, type AcgAngle } from './astrocartography'
+import { normalizeDegrees, signedDelta } from './transit-timeline'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type StarMagnitudeClass = 'first' | 'second' | 'third'
+
+export interface FixedStar {
+  name: string
+  /** Bayer or catalogue designation, e.g. "α Leo" */
+  designation: string
+  constellation: string
+  /** Visual magnitude */
+  magnitude: number
+  /** Ptolemaic nature, e.g. "Mars-Jupiter" */
+  nature: string
+  /** J2000 right ascension, in degrees */
+  rightAscension: number
+  /** J2000 declination, in degrees */
+  declination: number
+}
+
+/**
+ * Apparent position of a star at an instant
+ */
+export interface FixedStarPosition {
+  star: FixedStar
+  /** Tropical ecliptic longitude */
+  longitude: number
+  latitude: number
+  rightAscension: number
+  declination: number
+}
+
+/** Conjunction orbs, in degrees, by magnitude class */
+export type FixedStarOrbs = Record<StarMagnitudeClass, number>
+
+export interface FixedStarOptions {
+  orbs: FixedStarOrbs
+  /** Paran orb, in minutes of sidereal time */
+  paranOrb: number
+}
+
+export interface FixedStarConjunction {
+  star: FixedStar
+  /** API point name, e.g. "Venus" or "Ascendant" */
+  point: string
+  /** Star longitude in the zodiac of the chart */
+  starLongitude: number
+  pointLongitude: number
+  orb: number
+}
+
+export interface FixedStarParan {
+  id: string
+  star: FixedStar
+  starAngle: AcgAngle
+  /** API planet name */
+  point: string
+  pointAngle: AcgAngle
+  /** Gap between the two events, in minutes of sidereal time */
+  orb: number
+}
+
+export interface FixedStarAnalysis {
+  positions: FixedStarPosition[]
+  conjunctions: FixedStarConjunction[]
+  /** Parans at the birth latitude; empty when the latitude is unknown */
+  parans: FixedStarParan[]
+  latitude: number | null
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_FIXED_STAR_OPTIONS: FixedStarOptions = {
+  orbs: { first: 2, second: 1.5, third: 1 },
+  paranOrb: 4,
+}
+
+/** Faintest magnitude of each class */
+export const STAR_MAGNITUDE_LIMITS: Record<Exclude<StarMagnitudeClass, 'third'>, number> = {
+  first: 1.5,
+  second: 2.5,
+}
+
+export const STAR_MAGNITUDE_LABELS: Record<StarMagnitudeClass, string> = {
+  first: 'Magnitude 1.5 or brighter',
+  second: 'Magnitude 1.5–2.5',
+  third: 'Fainter than 2.5',
+}
+
+/** Name of a star's or planet's position when it reaches an angle */
+export const PARAN_ANGLE_LABELS: Record<AcgAngle, string> = {
+  ASC: 'rising',
+  MC: 'culminating',
+  DSC: 'setting',
+  IC: 'anti-culminating',
+}
+
+/** Planets that form parans with the stars */
+const PARAN_PLANETS = ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn', 'Uranus', 'Neptune', 'Pluto']
+
+/** Minutes of sidereal time per degree */
+const MINUTES_PER_DEGREE = 4
+
+const RAD = Math.PI / 180
+const sin = (deg: number) => Math.sin(deg * RAD)
+const cos = (deg: number) => Math.cos(deg * RAD)
+const tan = (deg: number) => Math.tan(deg * RAD)
+
+type StarRow = [
+  name: string,
+  designation: string,
+  constellation: string,
+  magnitude: number,
+  nature: string,
+  rightAscension: number,
+  declination: number,
+]
+
+// Hipparcos J2000 coordinates; clusters and the Andromeda galaxy at their centres
+const STAR_ROWS: StarRow[] = [
+  ['Alpheratz', 'α And', 'Andromeda', 2.06, 'Jupiter-Venus', 2.097, 29.091],
+  ['Algenib', 'γ Peg', 'Pegasus', 2.83, 'Mars-Mercury', 3.309, 15.184],
+  ['Schedar', 'α Cas', 'Cassiopeia', 2.24, 'Saturn-Venus', 10.127, 56.537],
+  ['Vertex', 'M31', 'Andromeda', 3.44, 'Mars-Moon', 10.685, 41.269],
+  ['Deneb Kaitos', 'β Cet', 'Cetus', 2.04, 'Saturn', 10.897, -17.987],
+  ['Mirach', 'β And', 'Andromeda', 2.05, 'Venus', 17.433, 35.621],
+  ['Achernar', 'α Eri', 'Eridanus', 0.46, 'Jupiter', 24.429, -57.237],
+  ['Baten Kaitos', 'ζ Cet', 'Cetus', 3.73, 'Saturn', 27.865, -10.335],
+  ['Sharatan', 'β Ari', 'Aries', 2.64, 'Mars-Saturn', 28.66, 20.808],
+  ['Al Rescha', 'α Psc', 'Pisces', 3.82, 'Mars-Mercury', 30.512, 2.764],
+  ['Almach', 'γ And', 'Andromeda', 2.1, 'Venus', 30.975, 42.33],
+  ['Hamal', 'α Ari', 'Aries', 2.01, 'Mars-Saturn', 31.793, 23.462],
+  ['Polaris', 'α UMi', 'Ursa Minor', 1.98, 'Saturn-Venus', 37.955, 89.264],
+  ['Menkar', 'α Cet', 'Cetus', 2.54, 'Saturn', 45.57, 4.09],
+  ['Algol', 'β Per', 'Perseus', 2.12, 'Saturn-Jupiter', 47.042, 40.956],
+  ['Mirfak', 'α Per', 'Perseus', 1.79, 'Jupiter-Saturn', 51.081, 49.861],
+  ['Alcyone', 'η Tau', 'Taurus', 2.87, 'Moon-Mars', 56.871, 24.105],
+  ['Prima Hyadum', 'γ Tau', 'Taurus', 3.65, 'Saturn-Mercury', 64.948, 15.628],
+  ['Aldebaran', 'α Tau', 'Taurus', 0.86, 'Mars', 68.98, 16.509],
+  ['Rigel', 'β Ori', 'Orion', 0.13, 'Jupiter-Saturn', 78.634, -8.202],
+  ['Capella', 'α Aur', 'Auriga', 0.08, 'Mars-Mercury', 79.172, 45.998],
+  ['Bellatrix', 'γ Ori', 'Orion', 1.64, 'Mars-Mercury', 81.283, 6.35],
+  ['Elnath', 'β Tau', 'Taurus', 1.65, 'Mars', 81.573, 28.608],
+  ['Nihal', 'β Lep', 'Lepus', 2.84, 'Saturn-Mercury', 82.061, -20.759],
+  ['Mintaka', 'δ Ori', 'Orion', 2.25, 'Saturn-Mercury', 83.002, -0.299],
+  ['Arneb', 'α Lep', 'Lepus', 2.58, 'Saturn-Mercury', 83.183, -17.822],
+  ['Alnilam', 'ε Ori', 'Orion', 1.69, 'Jupiter-Saturn', 84.053, -1.202],
+  ['Phact', 'α Col', 'Columba', 2.65, 'Venus-Mercury', 84.912, -34.074],
+  ['Alnitak', 'ζ Ori', 'Orion', 1.77, 'Jupiter-Saturn', 85.19, -1.943],
+  ['Betelgeuse', 'α Ori', 'Orion', 0.5, 'Mars-Mercury', 88.793, 7.407],
+  ['Menkalinan', 'β Aur', 'Auriga', 1.9, 'Mars-Mercury', 89.882, 44.948],
+  ['Propus', 'η Gem', 'Gemini', 3.28, 'Mercury-Venus', 93.719, 22.507],
+  ['Mirzam', 'β CMa', 'Canis Major', 1.98, 'Venus', 95.675, -17.956],
+  ['Tejat', 'μ Gem', 'Gemini', 2.87, 'Mercury-Venus', 95.74, 22.514],
+  ['Canopus', 'α Car', 'Carina', -0.74, 'Saturn-Jupiter', 95.988, -52.696],
+  ['Alhena', 'γ Gem', 'Gemini', 1.93, 'Mercury-Venus', 99.428, 16.399],
+  ['Mebsuta', 'ε Gem', 'Gemini', 2.98, 'Mercury-Venus', 100.983, 25.131],
+  ['Sirius', 'α CMa', 'Canis Major', -1.46, 'Jupiter-Mars', 101.287, -16.716],
+  ['Adhara', 'ε CMa', 'Canis Major', 1.5, 'Venus', 104.656, -28.972],
+  ['Wezen', 'δ CMa', 'Canis Major', 1.83, 'Venus', 107.098, -26.393],
+  ['Wasat', 'δ Gem', 'Gemini', 3.53, 'Saturn', 110.031, 21.982],
+  ['Castor', 'α Gem', 'Gemini', 1.58, 'Mercury', 113.65, 31.888],
+  ['Procyon', 'α CMi', 'Canis Minor', 0.34, 'Mercury-Mars', 114.825, 5.225],
+  ['Pollux', 'β Gem', 'Gemini', 1.14, 'Mars', 116.329, 28.026],
+  ['Praesepe', 'M44', 'Cancer', 3.7, 'Mars-Moon', 130.1, 19.67],
+  ['Asellus Borealis', 'γ Cnc', 'Cancer', 4.66, 'Mars-Sun', 130.821, 21.469],
+  ['Asellus Australis', 'δ Cnc', 'Cancer', 3.94, 'Mars-Sun', 131.171, 18.154],
+  ['Acubens', 'α Cnc', 'Cancer', 4.25, 'Saturn-Mercury', 134.622, 11.858],
+  ['Alphard', 'α Hya', 'Hydra', 1.98, 'Saturn-Venus', 141.897, -8.659],
+  ['Regulus', 'α Leo', 'Leo', 1.35, 'Mars-Jupiter', 152.093, 11.967],
+  ['Adhafera', 'ζ Leo', 'Leo', 3.44, 'Saturn-Mercury', 154.173, 23.417],
+  ['Algieba', 'γ Leo', 'Leo', 2.01, 'Saturn-Venus', 154.993, 19.842],
+  ['Alkes', 'α Crt', 'Crater', 4.08, 'Venus-Mercury', 164.944, -18.299],
+  ['Merak', 'β UMa', 'Ursa Major', 2.37, 'Mars', 165.46, 56.382],
+  ['Dubhe', 'α UMa', 'Ursa Major', 1.79, 'Mars', 165.932, 61.751],
+  ['Zosma', 'δ Leo', 'Leo', 2.56, 'Saturn-Venus', 168.527, 20.524],
+  ['Labrum', 'δ Crt', 'Crater', 3.56, 'Venus-Mercury', 169.835, -14.779],
+  ['Denebola', 'β Leo', 'Leo', 2.13, 'Saturn-Venus', 177.265, 14.572],
+  ['Zavijava', 'β Vir', 'Virgo', 3.61, 'Mercury-Mars', 177.674, 1.765],
+  ['Gienah', 'γ Crv', 'Corvus', 2.59, 'Mars-Saturn', 183.952, -17.542],
+  ['Zaniah', 'η Vir', 'Virgo', 3.89, 'Mercury-Venus', 184.976, -0.667],
+  ['Acrux', 'α Cru', 'Crux', 0.77, 'Jupiter', 186.65, -63.099],
+  ['Algorab', 'δ Crv', 'Corvus', 2.95, 'Mars-Saturn', 187.466, -16.515],
+  ['Porrima', 'γ Vir', 'Virgo', 2.74, 'Mercury-Venus', 190.415, -1.449],
+  ['Alioth', 'ε UMa', 'Ursa Major', 1.77, 'Mars', 193.507, 55.96],
+  ['Vindemiatrix', 'ε Vir', 'Virgo', 2.79, 'Saturn-Mercury', 195.544, 10.959],
+  ['Mizar', 'ζ UMa', 'Ursa Major', 2.23, 'Mars', 200.981, 54.925],
+  ['Spica', 'α Vir', 'Virgo', 0.97, 'Venus-Mars', 201.298, -11.161],
+  ['Alkaid', 'η UMa', 'Ursa Major', 1.86, 'Mars', 206.885, 49.313],
+  ['Hadar', 'β Cen', 'Centaurus', 0.61, 'Venus-Jupiter', 210.956, -60.373],
+  ['Thuban', 'α Dra', 'Draco', 3.65, 'Saturn-Mars', 211.097, 64.376],
+  ['Menkent', 'θ Cen', 'Centaurus', 2.06, 'Venus-Jupiter', 211.671, -36.37],
+  ['Arcturus', 'α Boo', 'Boötes', -0.05, 'Mars-Jupiter', 213.915, 19.182],
+  ['Khambalia', 'λ Vir', 'Virgo', 4.52, 'Mercury-Mars', 214.004, -13.371],
+  ['Rigil Kentaurus', 'α Cen', 'Centaurus', -0.27, 'Venus-Jupiter', 219.902, -60.834],
+  ['Izar', 'ε Boo', 'Boötes', 2.37, 'Mercury-Saturn', 221.247, 27.074],
+  ['Kochab', 'β UMi', 'Ursa Minor', 2.08, 'Saturn-Venus', 222.676, 74.156],
+  ['Zuben Elgenubi', 'α Lib', 'Libra', 2.75, 'Jupiter-Mars', 222.72, -16.042],
+  ['Princeps', 'δ Boo', 'Boötes', 3.47, 'Mercury-Saturn', 228.876, 33.315],
+  ['Zuben Eschamali', 'β Lib', 'Libra', 2.61, 'Jupiter-Mercury', 229.252, -9.383],
+  ['Alphecca', 'α CrB', 'Corona Borealis', 2.23, 'Venus-Mercury', 233.672, 26.715],
+  ['Unukalhai', 'α Ser', 'Serpens', 2.63, 'Saturn-Mars', 236.067, 6.426],
+  ['Dschubba', 'δ Sco', 'Scorpius', 2.29, 'Mars-Saturn', 240.083, -22.622],
+  ['Acrab', 'β Sco', 'Scorpius', 2.62, 'Mars-Saturn', 241.359, -19.806],
+  ['Yed Prior', 'δ Oph', 'Ophiuchus', 2.74, 'Saturn-Venus', 243.586, -3.694],
+  ['Antares', 'α Sco', 'Scorpius', 1.06, 'Mars-Jupiter', 247.352, -26.432],
+  ['Sabik', 'η Oph', 'Ophiuchus', 2.43, 'Saturn-Venus', 257.595, -15.725],
+  ['Rasalgethi', 'α Her', 'Hercules', 3.06, 'Mercury', 258.662, 14.39],
+  ['Lesath', 'υ Sco', 'Scorpius', 2.7, 'Mercury-Mars', 262.691, -37.296],
+  ['Shaula', 'λ Sco', 'Scorpius', 1.62, 'Mercury-Mars', 263.402, -37.104],
+  ['Rasalhague', 'α Oph', 'Ophiuchus', 2.08, 'Saturn-Venus', 263.734, 12.56],
+  ['Etamin', 'γ Dra', 'Draco', 2.23, 'Saturn-Mars', 269.152, 51.489],
+  ['Alnasl', 'γ Sgr', 'Sagittarius', 2.98, 'Mars-Moon', 271.452, -30.424],
+  ['Kaus Australis', 'ε Sgr', 'Sagittarius', 1.79, 'Jupiter-Mars', 276.043, -34.385],
+  ['Facies', 'M22', 'Sagittarius', 5.1, 'Sun-Mars', 279.1, -23.905],
+  ['Vega', 'α Lyr', 'Lyra', 0.03, 'Venus-Mercury', 279.235, 38.784],
+  ['Nunki', 'σ Sgr', 'Sagittarius', 2.05, 'Jupiter-Mercury', 283.816, -26.297],
+  ['Ascella', 'ζ Sgr', 'Sagittarius', 2.6, 'Jupiter-Mercury', 285.653, -29.88],
+  ['Manubrium', 'ο Sgr', 'Sagittarius', 3.77, 'Sun-Mars', 286.171, -21.742],
+  ['Albireo', 'β Cyg', 'Cygnus', 3.08, 'Venus-Mercury', 292.68, 27.96],
+  ['Altair', 'α Aql', 'Aquila', 0.76, 'Mars-Jupiter', 297.696, 8.868],
+  ['Giedi', 'α Cap', 'Capricornus', 3.57, 'Venus-Mars', 304.514, -12.545],
+  ['Dabih', 'β Cap', 'Capricornus', 3.05, 'Saturn-Venus', 305.253, -14.781],
+  ['Sadr', 'γ Cyg', 'Cygnus', 2.23, 'Venus-Mercury', 305.557, 40.257],
+  ['Deneb', 'α Cyg', 'Cygnus', 1.25, 'Venus-Mercury', 310.358, 45.28],
+  ['Alderamin', 'α Cep', 'Cepheus', 2.45, 'Saturn-Jupiter', 319.645, 62.586],
+  ['Sadalsuud', 'β Aqr', 'Aquarius', 2.87, 'Saturn-Mercury', 322.89, -5.571],
+  ['Nashira', 'γ Cap', 'Capricornus', 3.68, 'Saturn-Jupiter', 325.023, -16.662],
+  ['Enif', 'ε Peg', 'Pegasus', 2.38, 'Mars-Mercury', 326.046, 9.875],
+  ['Deneb Algedi', 'δ Cap', 'Capricornus', 2.81, 'Saturn-Jupiter', 326.76, -16.127],
+  ['Sadalmelik', 'α Aqr', 'Aquarius', 2.95, 'Saturn-Mercury', 331.446, -0.32],
+  ['Skat', 'δ Aqr', 'Aquarius', 3.27, 'Saturn-Jupiter', 343.663, -15.821],
+  ['Fomalhaut', 'α PsA', 'Piscis Austrinus', 1.16, 'Venus-Mercury', 344.413, -29.622],
+  ['Scheat', 'β Peg', 'Pegasus', 2.42, 'Mars-Mercury', 345.944, 28.083],
+  ['Markab', 'α Peg', 'Pegasus', 2.49, 'Mars-Mercury', 346.19, 15.205],
+]
+
+/** Catalogue of fixed stars, in order of J2000 right ascension */
+export const FIXED_STARS: FixedStar[] = STAR_ROWS.map(
+  ([name, designation, constellation, magnitude, nature, rightAscension, declination]) => ({
+    name,
+    designation,
+    constellation,
+    magnitude,
+    nature,
+    rightAscension,
+    declination,
+  }),
+).sort((a, b) => a.rightAscension - b.rightAscension)
+
+// ============================================================================
+// POSITIONS
+// ============================================================================
+
+export function getMagnitudeClass(magnitude: number): StarMagnitudeClass {
+  if (magnitude <= STAR_MAGNITUDE_LIMITS.first) return 'first'
+  if (magnitude <= STAR_MAGNITUDE_LIMITS.second) return 'second'
+  return 'third'
+}
+
+/**
+ * Conjunction orb of a star
+ */
+export function getStarOrb(star: FixedStar, orbs: FixedStarOrbs = DEFAULT_FIXED_STAR_OPTIONS.orbs): number {
+  return orbs[getMagnitudeClass(star.magnitude)]
+}
+
+/**
+ * Precesses J2000 equatorial coordinates to the mean equator of date (IAU 1976, Meeus 21.3)
+ *
+ * @returns Right ascension and declination of date, in degrees
+ */
+export function precessFromJ2000(
+  rightAscension: number,
+  declination: number,
+  instant: Date,
+): { rightAscension: number; declination: number } {
+  const T = (julianDay(instant) - J2000) / 36525
+  const zeta = (2306.2181 * T + 0.30188 * T ** 2 + 0.017998 * T ** 3) / 3600
+  const z = (2306.2181 * T + 1.09468 * T ** 2 + 0.018203 * T ** 3) / 3600
+  const theta = (2004.3109 * T - 0.42665 * T ** 2 - 0.041833 * T ** 3) / 3600
+
+  const A = cos(declination) * sin(rightAscension + zeta)
+  const B = cos(theta) * cos(declination) * cos(rightAscension + zeta) - sin(theta) * sin(declination)
+  const C = sin(theta) * cos(declination) * cos(rightAscension + zeta) + cos(theta) * sin(declination)
+
+  return {
+    rightAscension: normalizeDegrees(Math.atan2(A, B) / RAD + z),
+    declination: Math.asin(Math.max(-1, Math.min(1, C))) / RAD,
+  }
+}
+
+/**
+ * Apparent ecliptic and equatorial positions of the stars at an instant
+ */
+export function getFixedStarPositions(instant: Date, stars: FixedStar[] = FIXED_STARS): FixedStarPosition[] {
+  const jd = julianDay(instant)
+  const T = (jd - J2000) / 36525
+  const epsilon = meanObliquity(T)
+  const obliquity = trueObliquity(jd)
+  const nutationInLongitude = nutation(T).longitude
+
+  return stars.map((star) => {
+    const mean = precessFromJ2000(star.rightAscension, star.declination, instant)
+
+    // Mean equator of date to the ecliptic of date, then nutation for the apparent longitude
+    const latitude =
+      Math.asin(
+        sin(mean.declination) * cos(epsilon) - cos(mean.declination) * sin(epsilon) * sin(mean.rightAscension),
+      ) / RAD
+    const longitude = normalizeDegrees(
+      Math.atan2(
+        sin(mean.rightAscension) * cos(epsilon) + tan(mean.declination) * sin(epsilon),
+        cos(mean.rightAscension),
+      ) /
+        RAD +
+        nutationInLongitude,
+    )
+
+    return {
+      star,
+      longitude,
+      latitude,
+      // Same conversion as the planets in getEquatorialPoints, so parans compare like with like
+      rightAscension: normalizeDegrees(
+        Math.atan2(sin(longitude) * cos(obliquity) - tan(latitude) * sin(obliquity), cos(longitude)) / RAD,
+      ),
+      declination: eclipticToDeclination(longitude, latitude, obliquity),
+    }
+  })
+}
+
+// ============================================================================
+// CONJUNCTIONS AND PARANS
+// ============================================================================
+
+/**
+ * Stars conjunct the natal points and angles, tightest first
+ *
+ * @param zodiacOffset - Added to the tropical star longitudes; the ayanamsa with its sign reversed for sidereal charts
+ */
+export function findFixedStarConjunctions(
+  subject: EnrichedSubjectModel,
+  positions: FixedStarPosition[],
+  orbs: FixedStarOrbs = DEFAULT_FIXED_STAR_OPTIONS.orbs,
+  zodiacOffset = 0,
+): FixedStarConjunction[] {
+  const starNames = new Set(positions.map((position) => position.star.name))
+  const points = Object.entries(subject).flatMap(([key, value]) => {
+    if (!isPointKey(key) || key.endsWith('_house')) return []
+    const point = value as Point | undefined
+    // Regulus and Spica may come back from the API as points of their own
+    if (!point || typeof point.abs_pos !== 'number' || starNames.has(point.name)) return []
+    return [point]
+  })
+
+  const conjunctions: FixedStarConjunction[] = []
+  for (const position of positions) {
+    const starLongitude = normalizeDegrees(position.longitude + zodiacOffset)
+    const maxOrb = getStarOrb(position.star, orbs)
+    for (const point of points) {
+      const orb = Math.abs(signedDelta(point.abs_pos, starLongitude))
+      if (orb > maxOrb) continue
+      conjunctions.push({ star: position.star, point: point.name, starLongitude, pointLongitude: point.abs_pos, orb })
+    }
+  }
+
+  return conjunctions.sort((a, b) => a.orb - b.orb || getCelestialPointIndex(a.point) - getCelestialPointIndex(b.point))
+}
+
+/**
+ * Parans between stars and planets at a latitude, tightest first. Both bodies
+ * must reach their angles within the orb of each other; stars that never rise
+ * there take part by culminating and anti-culminating only.
+ *
+ * @param paranOrb - In minutes of sidereal time
+ */
+export function findFixedStarParans(
+  positions: FixedStarPosition[],
+  planets: { name: string; rightAscension: number; declination: number }[],
+  latitude: number,
+  paranOrb = DEFAULT_FIXED_STAR_OPTIONS.paranOrb,
+): FixedStarParan[] {
+  const parans: FixedStarParan[] = []
+
+  for (const position of positions) {
+    const star = {
+      name: position.star.name,
+      rightAscension: position.rightAscension,
+      declination: position.declination,
+    }
+    for (const starAngle of ACG_ANGLES) {
+      const starTime = angleSiderealTime(star, starAngle, latitude)
+      if (starTime === null) continue
+
+      for (const planet of planets) {
+        for (const pointAngle of ACG_ANGLES) {
+          const planetTime = angleSiderealTime(planet, pointAngle, latitude)
+          if (planetTime === null) continue
+          const orb = Math.abs(signedDelta(starTime, planetTime)) * MINUTES_PER_DEGREE
+          if (orb > paranOrb) continue
+          parans.push({
+            id: `${star.name}-${starAngle}-${planet.name}-${pointAngle}`,
+            star: position.star,
+            starAngle,
+            point: planet.name,
+            pointAngle,
+            orb,
+          })
+        }
+      }
+    }
+  }
+
+  return parans.sort((a, b) => a.orb - b.orb)
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Difference between the chart's zodiac and the tropical zodiac, measured on
+ * the Sun so that it holds for any ayanamsa the API was asked for
+ */
+function getZodiacOffset(subject: EnrichedSubjectModel, instant: Date): number {
+  if (subject.zodiac_type?.toLowerCase() !== 'sidereal' || typeof subject.sun?.abs_pos !== 'number') return 0
+  return signedDelta(subject.sun.abs_pos, getApparentLongitude('sun', instant))
+}
+
+/**
+ * Fixed-star conjunctions and parans of a birth chart
+ *
+ * @returns The analysis, or null if the subject has no UTC birth time
+ */
+export function analyzeFixedStars(
+  subject: EnrichedSubjectModel,
+  options: FixedStarOptions = DEFAULT_FIXED_STAR_OPTIONS,
+): FixedStarAnalysis | null {
+  if (!subject.iso_formatted_utc_datetime) return null
+  const instant = new Date(subject.iso_formatted_utc_datetime)
+  if (Number.isNaN(instant.getTime())) return null
+
+  const positions = getFixedStarPositions(instant)
+  const latitude = subject.latitude ?? subject.lat ?? null
+
+  return {
+    positions,
+    conjunctions: findFixedStarConjunctions(subject, positions, options.orbs, getZodiacOffset(subject, instant)),
+    parans:
+      latitude === null
+        ? []
+        : findFixedStarParans(positions, getEquatorialPoints(instant, PARAN_PLANETS), latitude, options.paranOrb),
+    latitude,
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Harmonic Charts
+ *
+ * The nth harmonic chart multiplies every natal longitude by n, so points
+ * 360/n degrees apart in the natal chart fall together in Hn. Harmonic charts
+ * are derived locally from the positions returned by the Astrologer API and
+ * use equal houses from the harmonic Ascendant.
+ */
+
+import type { Aspect, EnrichedSubjectModel, Point } from '@/types/astrology'
+import { isPointKey } from '@/types/astrology'
+import { ZODIAC_SIGNS, getCelestialPointIndex } from '@/lib/astrology/celestial-points'
+import { ASPECT_DEGREES, DEFAULT_ACTIVE_ASPECTS, isMajorAspect } from '@/lib/astrology/aspects'
+import { normalizeDegrees, signedDelta } from '@/lib/astrology/transit-timeline'
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MAX_HARMONIC = 180
+
+/** Harmonics most often read, with their traditional themes */
+export const HARMONIC_PRESETS: { harmonic: number; theme: string }[] = [
+  { harmonic: 4, theme: 'Effort and achievement' },
+  { harmonic: 5, theme: 'Creativity and style' },
+  { harmonic: 7, theme: 'Inspiration and imagination' },
+  { harmonic: 8, theme: 'Crisis and drive' },
+  { harmonic: 9, theme: 'Fulfilment and partnership' },
+  { harmonic: 12, theme: 'Service and sacrifice' },
+]
+
+/** Default aspects read in a harmonic chart, the majors at their default orbs */
+export const DEFAULT_HARMONIC_ASPECTS = DEFAULT_ACTIVE_ASPECTS.filter((aspect) => isMajorAspect(aspect.name))
+
+const HOUSE_KEYS = [
+  'first_house',
+  'second_house',
+  'third_house',
+  'fourth_house',
+  'fifth_house',
+  'sixth_house',
+  'seventh_house',
+  'eighth_house',
+  'ninth_house',
+  'tenth_house',
+  'eleventh_house',
+  'twelfth_house',
+] as const
+
+// ============================================================================
+// HARMONICS
+// ============================================================================
+
+export function isValidHarmonic(harmonic: number): boolean {
+  return Number.isInteger(harmonic) && harmonic >= 1 && harmonic <= MAX_HARMONIC
+}
+
+/**
+ * Longitude of a point in the nth harmonic chart
+ *
+ * @example
+ * getHarmonicLongitude(100, 4) // Returns 40
+ */
+export function getHarmonicLongitude(longitude: number, harmonic: number): number {
+  return normalizeDegrees(longitude * harmonic)
+}
+
+function withLongitude(point: Point, longitude: number, house: string | null): Point {
+  const signNum = Math.floor(longitude / 30) % 12
+  const sign = ZODIAC_SIGNS[signNum]!
+  return {
+    ...point,
+    quality: sign.quality,
+    element: sign.element,
+    sign: sign.sign,
+    sign_num: signNum,
+    position: longitude - signNum * 30,
+    abs_pos: longitude,
+    emoji: sign.emoji,
+    house,
+  }
+}
+
+function toHouseName(key: string): string {
+  return key
+    .split('_')
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('_')
+}
+
+/**
+ * The nth harmonic chart of a subject
+ *
+ * @param harmonic - Integer from 1 to MAX_HARMONIC
+ * @returns The harmonic subject, or null when the harmonic is out of range or
+ * the subject has no Ascendant
+ */
+export function calculateHarmonicSubject(subject: EnrichedSubjectModel, harmonic: number): EnrichedSubjectModel | null {
+  const ascendant = subject.ascendant?.abs_pos ?? subject.first_house?.abs_pos
+  if (!isValidHarmonic(harmonic) || typeof ascendant !== 'number') return null
+
+  const harmonicAscendant = getHarmonicLongitude(ascendant, harmonic)
+  const houseOf = (longitude: number) =>
+    toHouseName(HOUSE_KEYS[Math.floor(normalizeDegrees(longitude - harmonicAscendant) / 30)]!)
+  const harmonicSubject: Record<string, unknown> = { ...subject, name: `${subject.name} H${harmonic}` }
+
+  for (const [key, value] of Object.entries(subject)) {
+    if (!isPointKey(key) || key.endsWith('_house')) continue
+    const point = value as Point | undefined
+    if (!point || typeof point.abs_pos !== 'number') continue
+    const longitude = getHarmonicLongitude(point.abs_pos, harmonic)
+    harmonicSubject[key] = withLongitude(point, longitude, houseOf(longitude))
+  }
+
+  // Natal house cusps have no harmonic meaning: equal houses from the harmonic Ascendant
+  HOUSE_KEYS.forEach((key, index) => {
+    const cusp = subject[key]
+    if (cusp) harmonicSubject[key] = withLongitude(cusp, normalizeDegrees(harmonicAscendant + index * 30), null)
+  })
+
+  return harmonicSubject as unknown as EnrichedSubjectModel
+}
+
+/**
+ * Aspects between the points of a harmonic chart (houses excluded), tightest first
+ *
+ * @param activeAspects - Aspect names with their orbs
+ * @param activePoints - API point names to include; all points when omitted
+ */
+export function findHarmonicAspects(
+  harmonicSubject: EnrichedSubjectModel,
+  activeAspects: { name: string; orb: number }[] = DEFAULT_HARMONIC_ASPECTS,
+  activePoints?: string[],
+): Aspect[] {
+  const points = Object.entries(harmonicSubject)
+    .flatMap(([key, value]) => {
+      if (!isPointKey(key) || key.endsWith('_house')) return []
+      const point = value as Point | undefined
+      if (!point || typeof point.abs_pos !== 'number') return []
+      return !activePoints || activePoints.includes(point.name) ? [point] : []
+    })
+    .sort((a, b) => getCelestialPointIndex(a.name) - getCelestialPointIndex(b.name))
+  const aspects: Aspect[] = []
+
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const p1 = points[i]!
+      const p2 = points[j]!
+      const separation = Math.abs(signedDelta(p2.abs_pos, p1.abs_pos))
+
+      for (const { name, orb } of activeAspects) {
+        const aspectDegrees = ASPECT_DEGREES[name]
+        if (aspectDegrees === undefined) continue
+        const orbit = Math.abs(separation - aspectDegrees)
+        if (orbit > orb) continue
+
+        aspects.push({
+          p1_name: p1.name,
+          p1_owner: harmonicSubject.name,
+          p1_abs_pos: p1.abs_pos,
+          p2_name: p2.name,
+          p2_owner: harmonicSubject.name,
+          p2_abs_pos: p2.abs_pos,
+          aspect: name,
+          orbit,
+          aspect_degrees: aspectDegrees,
+          diff: separation,
+          p1,
+          p2,
+        })
+        break
+      }
+    }
+  }
+
+  return aspects.sort((a, b) => a.orbit - b.orbit)
+}
@@ -0,0 +1,662 @@
+/**
+ * Horary Astrology
+ *
+ * Considerations before judgement and the ways a horary question perfects,
+ * computed locally from the positions and daily motions returned by the
+ * Astrologer API. Only the seven traditional planets take part.
+ *
+ * Future aspects are found by moving each planet at its daily motion until
+ * either planet of the pair leaves its sign, since only aspects completed
+ * within the sign count. Refranation needs the stations of the significators,
+ * which come from the local ephemeris.
+ */
+
+import type { EnrichedSubjectModel, Point } from '@/types/astrology'
+import { getSignRuler } from '@/lib/astrology/chart-highlights'
+import { ZODIAC_SIGNS } from '@/lib/astrology/celestial-points'
+import { formatPlanetName } from '@/lib/astrology/planet-formatting'
+import { TRADITIONAL_PLANETS, type TraditionalPlanet } from '@/lib/astrology/traditional'
+import { normalizeDegrees, signedDelta } from '@/lib/astrology/transit-timeline'
+import { findStations } from '@/lib/ephemeris/sky-events'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type HoraryAspectName = 'conjunction' | 'sextile' | 'square' | 'trine' | 'opposition'
+
+export interface HoraryQuestion {
+  question: string
+  /** House of the querent, usually the 1st */
+  querentHouse: number
+  /** House of the matter asked about */
+  quesitedHouse: number
+}
+
+export type HoraryConsiderationId =
+  | 'early-ascendant'
+  | 'late-ascendant'
+  | 'saturn-in-first'
+  | 'saturn-in-seventh'
+  | 'via-combusta'
+  | 'void-of-course'
+
+export interface HoraryConsideration {
+  id: HoraryConsiderationId
+  label: string
+  present: boolean
+  detail: string
+}
+
+/** Position and daily motion of a planet */
+export interface HoraryBody {
+  planet: TraditionalPlanet
+  longitude: number
+  /** Degrees per day, negative when retrograde */
+  speed: number
+}
+
+export interface HoraryAspect {
+  /** The faster planet first */
+  planets: [TraditionalPlanet, TraditionalPlanet]
+  aspect: HoraryAspectName
+  /** Degrees from exact */
+  orb: number
+  applying: boolean
+  /** Days until the aspect perfects, null when separating */
+  daysToPerfection: number | null
+}
+
+export interface HorarySignificator {
+  /** House the planet signifies */
+  house: number
+  /** Domicile lord of the sign on the cusp */
+  planet: TraditionalPlanet
+  /** Sign abbreviation on the cusp (e.g. "Ari") */
+  cuspSign: string
+  /** House the planet is in, when the API gives it */
+  inHouse: number | null
+}
+
+export type HoraryPerfectionKind = 'direct' | 'moon' | 'translation' | 'collection'
+
+export interface HoraryPerfection {
+  kind: HoraryPerfectionKind
+  /** Planets brought together: the querent's significator (or the Moon) first */
+  planets: [TraditionalPlanet, TraditionalPlanet]
+  /** Planet that translates or collects the light */
+  via: TraditionalPlanet | null
+  /** Aspects that carry the perfection, the applying one last */
+  aspects: HoraryAspect[]
+  daysToPerfection: number
+  /** Aspect a third planet completes with one of the pair first */
+  prohibition: HoraryAspect | null
+  /** Planet of the pair that stations before the aspect perfects */
+  refranation: TraditionalPlanet | null
+}
+
+export interface HoraryJudgement {
+  /** No consideration before judgement applies */
+  radical: boolean
+  leaning: 'yes' | 'no'
+  testimonies: string[]
+}
+
+export interface HoraryAnalysis {
+  question: HoraryQuestion
+  considerations: HoraryConsideration[]
+  querent: HorarySignificator
+  quesited: HorarySignificator
+  aspects: HoraryAspect[]
+  perfections: HoraryPerfection[]
+  judgement: HoraryJudgement
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_HORARY_HOUSES = { querentHouse: 1, quesitedHouse: 7 }
+
+/** Matters of each house, for choosing the quesited */
+export const HORARY_HOUSE_TOPICS: Record<number, string> = {
+  1: 'Querent, body, life',
+  2: 'Money, possessions',
+  3: 'Siblings, neighbours, messages',
+  4: 'Home, land, father',
+  5: 'Children, pregnancy, pleasure',
+  6: 'Illness, employees, small animals',
+  7: 'Partner, open enemies, thieves',
+  8: 'Death, debts, the partner’s money',
+  9: 'Long journeys, study, religion',
+  10: 'Career, honour, mother',
+  11: 'Friends, hopes',
+  12: 'Secret enemies, confinement',
+}
+
+const HORARY_ASPECTS: { name: HoraryAspectName; angle: number }[] = [
+  { name: 'conjunction', angle: 0 },
+  { name: 'sextile', angle: 60 },
+  { name: 'square', angle: 90 },
+  { name: 'trine', angle: 120 },
+  { name: 'opposition', angle: 180 },
+]
+
+/** Lilly's orbs; two planets are within orb of an aspect at half the sum of theirs */
+const PLANET_ORBS: Record<TraditionalPlanet, number> = {
+  Sun: 17,
+  Moon: 12.5,
+  Mercury: 7,
+  Venus: 8,
+  Mars: 7.5,
+  Jupiter: 12,
+  Saturn: 10,
+}
+
+/** Mean daily motions, used when the API gives no speed */
+const MEAN_SPEEDS: Record<TraditionalPlanet, number> = {
+  Sun: 0.9856,
+  Moon: 13.1764,
+  Mercury: 0.9856,
+  Venus: 0.9856,
+  Mars: 0.524,
+  Jupiter: 0.0831,
+  Saturn: 0.0335,
+}
+
+/** The Ascendant is too early to judge before this degree and too late after 30 minus it */
+const ASCENDANT_LIMIT = 3
+
+/** The burnt way, from 15° Libra to 15° Scorpio */
+const VIA_COMBUSTA = { start: 195, end: 225 }
+
+const HARD_ASPECTS: HoraryAspectName[] = ['square', 'opposition']
+
+const DAY_MS = 86_400_000
+
+const HOUSE_KEYS = [
+  'first_house',
+  'second_house',
+  'third_house',
+  'fourth_house',
+  'fifth_house',
+  'sixth_house',
+  'seventh_house',
+  'eighth_house',
+  'ninth_house',
+  'tenth_house',
+  'eleventh_house',
+  'twelfth_house',
+] as const
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function ordinal(house: number): string {
+  const suffix = house === 1 ? 'st' : house === 2 ? 'nd' : house === 3 ? 'rd' : 'th'
+  return `${house}${suffix}`
+}
+
+function formatDays(days: number): string {
+  return days < 1 ? `${Math.max(1, Math.round(days * 24))} h` : `${days.toFixed(1)} days`
+}
+
+function formatDegree(longitude: number): string {
+  const position = normalizeDegrees(longitude) % 30
+  return `${Math.floor(position)}° ${Math.floor((position % 1) * 60)}'`
+}
+
+function signName(longitude: number): string {
+  return ZODIAC_SIGNS[Math.floor(normalizeDegrees(longitude) / 30) % 12]!.sign
+}
+
+/** House number of a point from the API's house name (e.g. "Seventh_House") */
+function houseNumber(point: Point | undefined): number | null {
+  const index = HOUSE_KEYS.indexOf(point?.house?.toLowerCase() as (typeof HOUSE_KEYS)[number])
+  return index === -1 ? null : index + 1
+}
+
+/** Days until a planet leaves its sign at its current motion */
+function daysInSign(body: HoraryBody): number {
+  const degree = normalizeDegrees(body.longitude) % 30
+  if (body.speed > 0) return (30 - degree) / body.speed
+  if (body.speed < 0) return degree / -body.speed
+  return Infinity
+}
+
+/**
+ * Distance from every Ptolemaic aspect between two planets and the days until
+ * it perfects, negative when it perfected in the past
+ */
+function aspectContacts(a: HoraryBody, b: HoraryBody): { aspect: HoraryAspectName; orb: number; days: number }[] {
+  const separation = normalizeDegrees(b.longitude - a.longitude)
+  const relativeSpeed = b.speed - a.speed
+
+  return HORARY_ASPECTS.flatMap(({ name, angle }) => {
+    const targets = angle === 0 || angle === 180 ? [angle] : [angle, 360 - angle]
+    return targets.map((target) => {
+      const delta = signedDelta(separation, target)
+      return {
+        aspect: name,
+        orb: Math.abs(delta),
+        days: relativeSpeed === 0 ? Infinity : -delta / relativeSpeed,
+      }
+    })
+  })
+}
+
+function involves(aspect: HoraryAspect, planet: TraditionalPlanet): boolean {
+  return aspect.planets.includes(planet)
+}
+
+function between(aspect: HoraryAspect, a: TraditionalPlanet, b: TraditionalPlanet): boolean {
+  return involves(aspect, a) && involves(aspect, b)
+}
+
+// ============================================================================
+// ASPECTS
+// ============================================================================
+
+/**
+ * Bodies of the seven planets of a chart
+ *
+ * @returns The bodies, or null if the subject lacks a traditional planet
+ */
+export function getHoraryBodies(subject: EnrichedSubjectModel): Record<TraditionalPlanet, HoraryBody> | null {
+  const points = subject as unknown as Record<string, Point | undefined>
+  const bodies = {} as Record<TraditionalPlanet, HoraryBody>
+  for (const planet of TRADITIONAL_PLANETS) {
+    const point = points[planet.toLowerCase()]
+    if (typeof point?.abs_pos !== 'number') return null
+    const speed = point.speed ?? (point.retrograde ? -MEAN_SPEEDS[planet] : MEAN_SPEEDS[planet])
+    bodies[planet] = { planet, longitude: point.abs_pos, speed }
+  }
+  return bodies
+}
+
+/**
+ * Aspects between the seven planets: for each pair, the first aspect that
+ * perfects before either planet leaves its sign and the last one they
+ * separated from while still within orb
+ */
+export function findHoraryAspects(bodies: Record<TraditionalPlanet, HoraryBody>): HoraryAspect[] {
+  const aspects: HoraryAspect[] = []
+
+  TRADITIONAL_PLANETS.forEach((first, index) => {
+    for (const second of TRADITIONAL_PLANETS.slice(index + 1)) {
+      const [a, b] = [bodies[first], bodies[second]].sort((x, y) => Math.abs(y.speed) - Math.abs(x.speed)) as [
+        HoraryBody,
+        HoraryBody,
+      ]
+      const window = Math.min(daysInSign(a), daysInSign(b))
+      const maxOrb = (PLANET_ORBS[a.planet] + PLANET_ORBS[b.planet]) / 2
+      const contacts = aspectContacts(a, b)
+
+      const applying = contacts
+        .filter((contact) => contact.days > 0 && contact.days <= window)
+        .sort((x, y) => x.days - y.days)[0]
+      const separating = contacts
+        .filter((contact) => contact.days <= 0 && contact.orb <= maxOrb)
+        .sort((x, y) => x.orb - y.orb)[0]
+
+      if (separating) {
+        aspects.push({
+          planets: [a.planet, b.planet],
+          aspect: separating.aspect,
+          orb: separating.orb,
+          applying: false,
+          daysToPerfection: null,
+        })
+      }
+      if (applying) {
+        aspects.push({
+          planets: [a.planet, b.planet],
+          aspect: applying.aspect,
+          orb: applying.orb,
+          applying: true,
+          daysToPerfection: applying.days,
+        })
+      }
+    }
+  })
+
+  return aspects
+}
+
+/**
+ * Next aspect the Moon perfects before leaving her sign, or null when she is
+ * void of course. Unlike other pairs, the planet aspected may change sign first.
+ */
+export function findNextMoonAspect(bodies: Record<TraditionalPlanet, HoraryBody>): HoraryAspect | null {
+  const moon = bodies.Moon
+  const window = daysInSign(moon)
+  let next: HoraryAspect | null = null
+
+  for (const planet of TRADITIONAL_PLANETS) {
+    if (planet === 'Moon') continue
+    for (const contact of aspectContacts(moon, bodies[planet])) {
+      if (contact.days > 0 && contact.days <= window && (!next || contact.days < next.daysToPerfection!)) {
+        next = {
+          planets: ['Moon', planet],
+          aspect: contact.aspect,
+          orb: contact.orb,
+          applying: true,
+          daysToPerfection: contact.days,
+        }
+      }
+    }
+  }
+
+  return next
+}
+
+// ============================================================================
+// PERFECTION
+// ============================================================================
+
+/**
+ * Ways the matter can perfect: an applying aspect between the significators,
+ * the Moon applying to the quesited's significator, translation and collection
+ * of light. Direct and Moon perfections are checked for prohibition and, given
+ * `hasStation`, refranation.
+ *
+ * @param hasStation - Whether a planet stations within the given number of days
+ */
+export function findHoraryPerfections(
+  aspects: HoraryAspect[],
+  bodies: Record<TraditionalPlanet, HoraryBody>,
+  querent: TraditionalPlanet,
+  quesited: TraditionalPlanet,
+  hasStation: (planet: TraditionalPlanet, days: number) => boolean = () => false,
+): HoraryPerfection[] {
+  const applying = (a: TraditionalPlanet, b: TraditionalPlanet) =>
+    aspects.find((aspect) => aspect.applying && between(aspect, a, b))
+  const separating = (a: TraditionalPlanet, b: TraditionalPlanet) =>
+    aspects.find((aspect) => !aspect.applying && between(aspect, a, b))
+  const speed = (planet: TraditionalPlanet) => Math.abs(bodies[planet].speed)
+
+  const perfections: HoraryPerfection[] = []
+
+  const addDirect = (kind: 'direct' | 'moon', a: TraditionalPlanet, b: TraditionalPlanet) => {
+    const aspect = applying(a, b)
+    if (!aspect) return
+    const days = aspect.daysToPerfection!
+    const prohibition =
+      aspects
+        .filter(
+          (other) =>
+            other.applying &&
+            other.daysToPerfection! < days &&
+            (involves(other, a) || involves(other, b)) &&
+            !between(other, a, b),
+        )
+        .sort((x, y) => x.daysToPerfection! - y.daysToPerfection!)[0] ?? null
+    const refranation = [a, b].find((planet) => planet !== 'Sun' && planet !== 'Moon' && hasStation(planet, days))
+    perfections.push({
+      kind,
+      planets: [a, b],
+      via: null,
+      aspects: [aspect],
+      daysToPerfection: days,
+      prohibition,
+      refranation: refranation ?? null,
+    })
+  }
+
+  if (querent !== quesited) addDirect('direct', querent, quesited)
+  if (querent !== 'Moon' && quesited !== 'Moon') addDirect('moon', 'Moon', quesited)
+
+  // A third planet can only join two different significators
+  const others =
+    querent === quesited ? [] : TRADITIONAL_PLANETS.filter((planet) => planet !== querent && planet !== quesited)
+  for (const other of others) {
+    // Translation: a faster planet separates from one significator and applies to the other
+    if (speed(other) > speed(querent) && speed(other) > speed(quesited)) {
+      for (const [from, to] of [
+        [querent, quesited],
+        [quesited, querent],
+      ] as const) {
+        const left = separating(other, from)
+        const carried = applying(other, to)
+        if (left && carried) {
+          perfections.push({
+            kind: 'translation',
+            planets: [querent, quesited],
+            via: other,
+            aspects: [left, carried],
+            daysToPerfection: carried.daysToPerfection!,
+            prohibition: null,
+            refranation: null,
+          })
+        }
+      }
+    }
+
+    // Collection: both significators apply to a slower planet, but not to each other
+    if (speed(other) < speed(querent) && speed(other) < speed(quesited) && !applying(querent, quesited)) {
+      const fromQuerent = applying(querent, other)
+      const fromQuesited = applying(quesited, other)
+      if (fromQuerent && fromQuesited) {
+        perfections.push({
+          kind: 'collection',
+          planets: [querent, quesited],
+          via: other,
+          aspects: [fromQuerent, fromQuesited].sort((x, y) => x.daysToPerfection! - y.daysToPerfection!),
+          daysToPerfection: Math.max(fromQuerent.daysToPerfection!, fromQuesited.daysToPerfection!),
+          prohibition: null,
+          refranation: null,
+        })
+      }
+    }
+  }
+
+  return perfections
+}
+
+// ============================================================================
+// CONSIDERATIONS
+// ============================================================================
+
+/**
+ * Considerations before judgement: an Ascendant too early or too late,
+ * Saturn in the 1st or 7th house, the Moon in the via combusta or void of course
+ */
+export function findHoraryConsiderations(
+  ascendant: number,
+  saturn: Point | undefined,
+  bodies: Record<TraditionalPlanet, HoraryBody>,
+): HoraryConsideration[] {
+  const ascendantDegree = normalizeDegrees(ascendant) % 30
+  const saturnHouse = houseNumber(saturn)
+  const moon = normalizeDegrees(bodies.Moon.longitude)
+  const nextMoonAspect = findNextMoonAspect(bodies)
+
+  return [
+    {
+      id: 'early-ascendant',
+      label: 'Early Ascendant',
+      present: ascendantDegree < ASCENDANT_LIMIT,
+      detail: `Ascendant at ${formatDegree(ascendant)} ${signName(ascendant)}: it is too early to judge the matter`,
+    },
+    {
+      id: 'late-ascendant',
+      label: 'Late Ascendant',
+      present: ascendantDegree > 30 - ASCENDANT_LIMIT,
+      detail: `Ascendant at ${formatDegree(ascendant)} ${signName(ascendant)}: the matter is already decided`,
+    },
+    {
+      id: 'saturn-in-first',
+      label: 'Saturn in the 1st',
+      present: saturnHouse === 1,
+      detail: 'Saturn in the 1st house afflicts the querent and the question',
+    },
+    {
+      id: 'saturn-in-seventh',
+      label: 'Saturn in the 7th',
+      present: saturnHouse === 7,
+      detail: 'Saturn in the 7th house afflicts the judgement of the astrologer',
+    },
+    {
+      id: 'via-combusta',
+      label: 'Via combusta',
+      present: moon >= VIA_COMBUSTA.start && moon < VIA_COMBUSTA.end,
+      detail: `Moon at ${formatDegree(moon)} ${signName(moon)}, between 15° Libra and 15° Scorpio`,
+    },
+    {
+      id: 'void-of-course',
+      label: 'Void-of-course Moon',
+      present: nextMoonAspect === null,
+      detail: nextMoonAspect
+        ? `Moon ${nextMoonAspect.aspect} ${nextMoonAspect.planets[1]} in ${formatDays(nextMoonAspect.daysToPerfection!)}`
+        : `The Moon completes no aspect before leaving ${signName(moon)}: nothing will come of the matter`,
+    },
+  ]
+}
+
+// ============================================================================
+// JUDGEMENT
+// ============================================================================
+
+/**
+ * Sentence describing how a perfection comes about
+ */
+export function describeHoraryPerfection(perfection: HoraryPerfection): string {
+  const [a, b] = perfection.planets
+  const applying = perfection.aspects[perfection.aspects.length - 1]!
+  const timing = `perfecting in ${formatDays(perfection.daysToPerfection)}`
+
+  switch (perfection.kind) {
+    case 'direct':
+    case 'moon':
+      return `${a} applies to ${b} by ${applying.aspect}, ${timing}`
+    case 'translation':
+      return `${perfection.via} translates the light between ${a} and ${b} (${perfection.aspects[0]!.aspect} then ${applying.aspect}), ${timing}`
+    case 'collection':
+      return `${perfection.via} collects the light of ${a} and ${b}, ${timing}`
+  }
+}
+
+/**
+ * Judgement aid: leans to yes when the matter perfects without prohibition or
+ * refranation, listing the testimonies either way
+ */
+export function judgeHorary(considerations: HoraryConsideration[], perfections: HoraryPerfection[]): HoraryJudgement {
+  const testimonies: string[] = []
+  let perfects = false
+
+  for (const perfection of perfections) {
+    testimonies.push(describeHoraryPerfection(perfection))
+    if (perfection.prohibition) {
+      const [first, second] = perfection.prohibition.planets
+      testimonies.push(
+        `Prohibited: ${first} perfects a ${perfection.prohibition.aspect} with ${second} first, in ${formatDays(perfection.prohibition.daysToPerfection!)}`,
+      )
+    } else if (perfection.refranation) {
+      testimonies.push(`Refranation: ${perfection.refranation} stations before the aspect perfects`)
+    } else {
+      perfects = true
+      if (perfection.aspects.some((aspect) => aspect.applying && HARD_ASPECTS.includes(aspect.aspect))) {
+        testimonies.push('Perfection by a hard aspect: the matter comes about with difficulty or delay')
+      }
+    }
+  }
+
+  if (perfections.length === 0) testimonies.push('No aspect brings the significators together')
+  for (const consideration of considerations) {
+    if (consideration.present) testimonies.push(`${consideration.label}: ${consideration.detail}`)
+  }
+
+  return {
+    radical: considerations.every((consideration) => !consideration.present),
+    leaning: perfects ? 'yes' : 'no',
+    testimonies,
+  }
+}
+
+/**
+ * Significator of a house: the domicile lord of the sign on its cusp
+ */
+function getSignificator(subject: EnrichedSubjectModel, house: number): HorarySignificator | null {
+  const key = HOUSE_KEYS[house - 1]
+  const cusp = key ? subject[key]?.abs_pos : undefined
+  if (typeof cusp !== 'number') return null
+  const cuspSign = signName(cusp)
+  const planet = getSignRuler(cuspSign, 'classical') as TraditionalPlanet
+  const points = subject as unknown as Record<string, Point | undefined>
+  return { house, planet, cuspSign, inHouse: houseNumber(points[planet.toLowerCase()]) }
+}
+
+/**
+ * Horary analysis of a chart cast for the moment a question was asked
+ *
+ * @returns The analysis, or null if the subject lacks a traditional planet or a house cusp
+ */
+export function analyzeHorary(subject: EnrichedSubjectModel, question: HoraryQuestion): HoraryAnalysis | null {
+  const ascendant = subject.ascendant?.abs_pos ?? subject.first_house?.abs_pos
+  const bodies = getHoraryBodies(subject)
+  const querent = getSignificator(subject, question.querentHouse)
+  const quesited = getSignificator(subject, question.quesitedHouse)
+  if (typeof ascendant !== 'number' || !bodies || !querent || !quesited) return null
+
+  // Stations need the moment of the question; without it refranation is not checked
+  const instant = subject.iso_formatted_utc_datetime ? new Date(subject.iso_formatted_utc_datetime) : null
+  const hasStation = (planet: TraditionalPlanet, days: number) =>
+    instant !== null && findStations(instant, new Date(instant.getTime() + days * DAY_MS), [planet]).length > 0
+
+  const aspects = findHoraryAspects(bodies)
+  const considerations = findHoraryConsiderations(ascendant, subject.saturn, bodies)
+  const perfections = findHoraryPerfections(aspects, bodies, querent.planet, quesited.planet, hasStation)
+
+  return {
+    question,
+    considerations,
+    querent,
+    quesited,
+    aspects,
+    perfections,
+    judgement: judgeHorary(considerations, perfections),
+  }
+}
+
+// ============================================================================
+// AI CONTEXT
+// ============================================================================
+
+function describeSignificator(role: string, significator: HorarySignificator): string {
+  const placement = significator.inHouse ? `, in the ${ordinal(significator.inHouse)} house` : ''
+  return `${role}: ${formatPlanetName(significator.planet)}, ruler of the ${ordinal(significator.house)} house (${significator.cuspSign} on the cusp)${placement}`
+}
+
+/**
+ * Horary findings as plain text for AI interpretation, so the reading is
+ * grounded in the considerations and perfections found here
+ */
+export function formatHoraryContext(analysis: HoraryAnalysis): string {
+  const { question, querent, quesited, considerations, aspects, judgement } = analysis
+  const significators = new Set<TraditionalPlanet>([querent.planet, quesited.planet, 'Moon'])
+  const present = considerations.filter((consideration) => consideration.present)
+  const relevant = aspects.filter((aspect) => aspect.planets.some((planet) => significators.has(planet)))
+
+  return [
+    'Horary question:',
+    `- Question: "${question.question}"`,
+    `- ${describeSignificator('Querent', querent)}`,
+    `- ${describeSignificator('Quesited', quesited)}`,
+    '- Co-significator of the querent: Moon',
+    'Considerations before judgement:',
+    ...(present.length > 0
+      ? present.map((consideration) => `- ${consideration.label}: ${consideration.detail}`)
+      : ['- None: the chart is radical and fit to be judged']),
+    'Aspects of the significators and the Moon:',
+    ...relevant.map(
+      (aspect) =>
+        `- ${aspect.planets[0]} ${aspect.aspect} ${aspect.planets[1]}, orb ${aspect.orb.toFixed(1)}°, ${
+          aspect.applying ? `applying (perfects in ${formatDays(aspect.daysToPerfection!)})` : 'separating'
+        }`,
+    ),
+    'Judgement aid:',
+    ...judgement.testimonies.map((testimony) => `- ${testimony}`),
+    `- Leaning: ${judgement.leaning === 'yes' ? 'the matter perfects' : 'the matter does not perfect'}`,
+  ].join('\n')
+}
@@ -0,0 +1,326 @@
+/**
+ * Midpoints (Uranian astrology and Cosmobiology)
+ *
+ * Midpoints of every pair of points, their positions on the 360°, 90° and 45°
+ * dials, and the midpoint trees of the points and transits that activate them.
+ * A midpoint is named after its pair, e.g. "Sun/Moon", so hits can be handled
+ * as aspects: in the aspect grid, the filters and the transit timeline.
+ */
+
+import type { Aspect, EnrichedSubjectModel, Point } from '@/types/astrology'
+import { ZODIAC_SIGNS, getCelestialPointIndex } from '@/lib/astrology/celestial-points'
+import { ASPECT_DEGREES } from '@/lib/astrology/aspects'
+import {
+  normalizeDegrees,
+  signedDelta,
+  subjectToPositions,
+  type PointPositions,
+  type TimelineAspectConfig,
+} from '@/lib/astrology/transit-timeline'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Modulus of the dial: the whole zodiac, the 90° dial or the 45° dial */
+export type MidpointDial = 360 | 90 | 45
+
+export type MidpointSource = 'natal' | 'transit'
+
+export interface Midpoint {
+  /** "A/B", the points in chart order */
+  name: string
+  pointA: string
+  pointB: string
+  /** Nearer midpoint, on the shorter arc between the two points */
+  longitude: number
+}
+
+export interface MidpointHit {
+  midpoint: Midpoint
+  /** Point on the midpoint axis */
+  point: string
+  source: MidpointSource
+  longitude: number
+  retrograde: boolean
+  /** Hard aspect to the nearer midpoint, e.g. 'square' */
+  aspect: string
+  aspectDegrees: number
+  orb: number
+}
+
+/** The midpoints a point activates, written "Point = A/B = C/D" */
+export interface MidpointTree {
+  point: string
+  source: MidpointSource
+  longitude: number
+  /** Hits on the point, tightest first */
+  hits: MidpointHit[]
+}
+
+export interface MidpointHitOptions {
+  /** Maximum orb in degrees (default: DEFAULT_MIDPOINT_ORB) */
+  orb?: number
+  /** Dial the hits are read on (default: 90) */
+  dial?: MidpointDial
+  source?: MidpointSource
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MIDPOINT_SEPARATOR = '/'
+
+export const MIDPOINT_DIALS: MidpointDial[] = [360, 90, 45]
+
+export const DEFAULT_MIDPOINT_ORB = 1.5
+
+export const MAX_MIDPOINT_ORB = 5
+
+/**
+ * Aspects a point can make to a midpoint axis on each dial. Both ends of the
+ * axis count, so the opposition is always a hit; the 90° dial adds the squares
+ * and the 45° dial the eighth-harmonic aspects.
+ */
+export const MIDPOINT_DIAL_ASPECTS: Record<MidpointDial, string[]> = {
+  360: ['conjunction', 'opposition'],
+  90: ['conjunction', 'square', 'opposition'],
+  45: ['conjunction', 'semi-square', 'square', 'sesquiquadrate', 'opposition'],
+}
+
+// ============================================================================
+// NAMES
+// ============================================================================
+
+export function getMidpointName(pointA: string, pointB: string): string {
+  return `${pointA}${MIDPOINT_SEPARATOR}${pointB}`
+}
+
+/**
+ * The two points of a midpoint name
+ *
+ * @returns The points, or null when the name is a single point
+ */
+export function splitMidpointName(name: string): [string, string] | null {
+  const parts = name.split(MIDPOINT_SEPARATOR)
+  return parts.length === 2 ? [parts[0]!, parts[1]!] : null
+}
+
+export function isMidpointName(name: string): boolean {
+  return splitMidpointName(name) !== null
+}
+
+// ============================================================================
+// MIDPOINTS
+// ============================================================================
+
+/**
+ * Nearer midpoint of two longitudes, on the shorter arc between them
+ */
+export function getMidpointLongitude(a: number, b: number): number {
+  return normalizeDegrees(a + signedDelta(b, a) / 2)
+}
+
+/**
+ * Position of a longitude on a dial, from 0 up to the dial modulus
+ *
+ * @example
+ * getDialPosition(100, 90) // Returns 10 (10° of the fixed signs)
+ */
+export function getDialPosition(longitude: number, dial: MidpointDial): number {
+  return normalizeDegrees(longitude) % dial
+}
+
+/**
+ * Midpoints of every pair of points, the points taken in chart order
+ */
+export function calculateMidpoints(positions: PointPositions): Midpoint[] {
+  const names = Object.keys(positions).sort((a, b) => getCelestialPointIndex(a) - getCelestialPointIndex(b))
+  const midpoints: Midpoint[] = []
+
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      const pointA = names[i]!
+      const pointB = names[j]!
+      midpoints.push({
+        name: getMidpointName(pointA, pointB),
+        pointA,
+        pointB,
+        longitude: getMidpointLongitude(positions[pointA]!.abs_pos, positions[pointB]!.abs_pos),
+      })
+    }
+  }
+
+  return midpoints
+}
+
+/**
+ * Midpoints of the points of a subject (houses excluded)
+ *
+ * @param activePoints - API point names to include; all points when omitted
+ */
+export function calculateSubjectMidpoints(subject: EnrichedSubjectModel, activePoints?: string[]): Midpoint[] {
+  const positions = subjectToPositions(subject)
+  return calculateMidpoints(
+    activePoints
+      ? Object.fromEntries(Object.entries(positions).filter(([name]) => activePoints.includes(name)))
+      : positions,
+  )
+}
+
+/**
+ * Midpoints in the order they sit on a dial, as in a sorted midpoint list
+ */
+export function sortMidpoints(midpoints: Midpoint[], dial: MidpointDial = 90): Midpoint[] {
+  return [...midpoints].sort((a, b) => getDialPosition(a.longitude, dial) - getDialPosition(b.longitude, dial))
+}
+
+// ============================================================================
+// HITS AND TREES
+// ============================================================================
+
+/**
+ * Points within orb of a midpoint axis on the dial. A natal point is not
+ * matched against the midpoints it belongs to.
+ *
+ * @returns Hits, tightest first
+ */
+export function findMidpointHits(
+  midpoints: Midpoint[],
+  positions: PointPositions,
+  options: MidpointHitOptions = {},
+): MidpointHit[] {
+  const { orb: maxOrb = DEFAULT_MIDPOINT_ORB, dial = 90, source = 'natal' } = options
+  const aspects = MIDPOINT_DIAL_ASPECTS[dial]
+  const hits: MidpointHit[] = []
+
+  for (const [point, position] of Object.entries(positions)) {
+    for (const midpoint of midpoints) {
+      if (source === 'natal' && (midpoint.pointA === point || midpoint.pointB === point)) continue
+
+      const separation = Math.abs(signedDelta(position.abs_pos, midpoint.longitude))
+      for (const aspect of aspects) {
+        const aspectDegrees = ASPECT_DEGREES[aspect]!
+        const orb = Math.abs(separation - aspectDegrees)
+        if (orb > maxOrb) continue
+
+        hits.push({
+          midpoint,
+          point,
+          source,
+          longitude: position.abs_pos,
+          retrograde: position.retrograde,
+          aspect,
+          aspectDegrees,
+          orb,
+        })
+        break
+      }
+    }
+  }
+
+  return hits.sort((a, b) => a.orb - b.orb)
+}
+
+/**
+ * Groups hits into one tree per activating point, natal points first, each
+ * in chart order
+ */
+export function buildMidpointTrees(hits: MidpointHit[]): MidpointTree[] {
+  const trees = new Map<string, MidpointTree>()
+
+  for (const hit of hits) {
+    const key = `${hit.source}:${hit.point}`
+    const tree = trees.get(key) ?? { point: hit.point, source: hit.source, longitude: hit.longitude, hits: [] }
+    tree.hits.push(hit)
+    trees.set(key, tree)
+  }
+
+  return [...trees.values()]
+    .map((tree) => ({ ...tree, hits: [...tree.hits].sort((a, b) => a.orb - b.orb) }))
+    .sort(
+      (a, b) =>
+        Number(a.source === 'transit') - Number(b.source === 'transit') ||
+        getCelestialPointIndex(a.point) - getCelestialPointIndex(b.point),
+    )
+}
+
+// ============================================================================
+// ASPECT GRID AND TIMELINE
+// ============================================================================
+
+function toPoint(name: string, longitude: number, retrograde: boolean): Point {
+  const absPos = normalizeDegrees(longitude)
+  const signNum = Math.floor(absPos / 30) % 12
+  const sign = ZODIAC_SIGNS[signNum]!
+  return {
+    name,
+    quality: sign.quality,
+    element: sign.element,
+    sign: sign.sign,
+    sign_num: signNum,
+    position: absPos - signNum * 30,
+    abs_pos: absPos,
+    emoji: sign.emoji,
+    point_type: 'Midpoint',
+    house: null,
+    retrograde,
+  }
+}
+
+/**
+ * Hits as aspects, with the activating point as p1 and the midpoint as p2, so
+ * they can be shown in the aspect grid and filtered like any other aspect
+ *
+ * @param labels - Owner labels of the points, e.g. { natal: 'Natal', transit: 'Transit' }
+ */
+export function midpointHitsToAspects(
+  hits: MidpointHit[],
+  labels: Record<MidpointSource, string> = { natal: 'Natal', transit: 'Transit' },
+): Aspect[] {
+  return hits.map((hit) => ({
+    p1_name: hit.point,
+    p1_owner: labels[hit.source],
+    p1_abs_pos: hit.longitude,
+    p2_name: hit.midpoint.name,
+    p2_owner: 'Midpoint',
+    p2_abs_pos: hit.midpoint.longitude,
+    aspect: hit.aspect,
+    orbit: hit.orb,
+    aspect_degrees: hit.aspectDegrees,
+    diff: Math.abs(signedDelta(hit.longitude, hit.midpoint.longitude)),
+    p1: toPoint(hit.point, hit.longitude, hit.retrograde),
+    p2: toPoint(hit.midpoint.name, hit.midpoint.longitude, false),
+  }))
+}
+
+/**
+ * Midpoint positions and aspects to search for in the transit timeline. The
+ * timeline reports a hit as an event whose natal point is the midpoint.
+ */
+export function getMidpointTimelineTargets(
+  positions: PointPositions,
+  orb: number = DEFAULT_MIDPOINT_ORB,
+  dial: MidpointDial = 90,
+): { positions: PointPositions; aspects: TimelineAspectConfig[] } {
+  return {
+    positions: Object.fromEntries(
+      calculateMidpoints(positions).map((midpoint) => [
+        midpoint.name,
+        { abs_pos: midpoint.longitude, retrograde: false },
+      ]),
+    ),
+    aspects: MIDPOINT_DIAL_ASPECTS[dial].map((name) => ({ name, orb })),
+  }
+}
+
+/**
+ * Whether a point, or both points of a midpoint, are in a selection
+ * (case-insensitive)
+ */
+export function isPointSelected(name: string, selection: string[]): boolean {
+  const selected = (point: string) => selection.some((value) => value.toLowerCase() === point.toLowerCase())
+  const pair = splitMidpointName(name)
+  return pair ? selected(pair[0]) && selected(pair[1]) : selected(name)
+}
@@ -0,0 +1,211 @@
+/**
+ * Multi-wheel charts: the natal chart with up to three outer rings
+ *
+ * Consultations often stack several predictive charts around the natal chart,
+ * e.g. natal + progressed + transits or natal + solar return + transits. Each
+ * outer ring comes from a source (another subject, a transit moment, a return
+ * or a progression) and aspects are found between every pair of rings.
+ *
+ * @module lib/astrology/multi-wheel
+ */
+
+import { isPointKey, type Aspect, type ChartRing, type ChartRingAspects, type Point } from '@/types/astrology'
+import type { MultiWheelRingSource } from '@/types/saved-chart-params'
+import { ASPECT_DEGREES, DEFAULT_ACTIVE_ASPECTS, isMajorAspect } from './aspects'
+import { DEFAULT_DIRECTION_ORB } from './progressions'
+import { signedDelta } from './transit-timeline'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MultiWheelRingSourceType = MultiWheelRingSource['type']
+
+/**
+ * Options for finding aspects between rings
+ */
+export interface RingAspectOptions {
+  /** Point names to include (API names); all points when omitted */
+  activePoints?: string[]
+  /** Aspects to look for, with their orbs; majors with their default orbs when omitted */
+  activeAspects?: { name: string; orb: number }[]
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Outer rings around the natal chart: three makes a quad-wheel */
+export const MAX_OUTER_RINGS = 3
+
+export const RING_SOURCE_TYPES: { value: MultiWheelRingSourceType; label: string }[] = [
+  { value: 'transit', label: 'Transits' },
+  { value: 'progressions', label: 'Progressed' },
+  { value: 'solar-arc', label: 'Solar Arc' },
+  { value: 'solar-return', label: 'Solar Return' },
+  { value: 'lunar-return', label: 'Lunar Return' },
+  { value: 'subject', label: 'Subject' },
+]
+
+const DEFAULT_ASPECTS = DEFAULT_ACTIVE_ASPECTS.filter((aspect) => isMajorAspect(aspect.name))
+
+// ============================================================================
+// Ring Sources
+// ============================================================================
+
+/**
+ * Legend label of an outer ring
+ *
+ * @param subjectName - Name of the subject of a 'subject' ring
+ */
+export function getRingSourceLabel(source: MultiWheelRingSource, subjectName?: string): string {
+  switch (source.type) {
+    case 'subject':
+      return subjectName ?? 'Subject'
+    case 'solar-return':
+      return `Solar Return ${source.year}`
+    case 'lunar-return':
+      return `Lunar Return ${source.year}-${String(source.month).padStart(2, '0')}`
+    default:
+      return RING_SOURCE_TYPES.find((type) => type.value === source.type)!.label
+  }
+}
+
+/**
+ * Whether a ring source has all it needs to be calculated
+ */
+export function isRingSourceComplete(source: MultiWheelRingSource): boolean {
+  switch (source.type) {
+    case 'subject':
+      return source.subjectId.length > 0
+    case 'transit':
+      return !Number.isNaN(Date.parse(source.date))
+    case 'progressions':
+    case 'solar-arc':
+      return !Number.isNaN(Date.parse(source.targetDate))
+    case 'solar-return':
+      return Number.isInteger(source.year)
+    case 'lunar-return':
+      return Number.isInteger(source.year) && source.month >= 1 && source.month <= 12
+  }
+}
+
+/**
+ * Default source of a ring type, dated today
+ */
+export function createRingSource(type: MultiWheelRingSourceType, now: Date = new Date()): MultiWheelRingSource {
+  const today = now.toISOString().split('T')[0]!
+  switch (type) {
+    case 'subject':
+      return { type, subjectId: '' }
+    case 'transit':
+      return { type, date: now.toISOString() }
+    case 'progressions':
+    case 'solar-arc':
+      return { type, targetDate: today }
+    case 'solar-return':
+      return { type, year: now.getUTCFullYear() }
+    case 'lunar-return':
+      return { type, year: now.getUTCFullYear(), month: now.getUTCMonth() + 1 }
+  }
+}
+
+/**
+ * Upper bound on the orb of aspects involving a ring.
+ * Progressed and directed points move about a degree a year, so only tight orbs are meaningful.
+ */
+export function getRingMaxOrb(source: MultiWheelRingSource | undefined): number {
+  return source?.type === 'progressions' || source?.type === 'solar-arc' ? DEFAULT_DIRECTION_ORB : Infinity
+}
+
+// ============================================================================
+// Inter-ring Aspects
+// ============================================================================
+
+function getRingPoints(ring: ChartRing, activePoints?: string[]): Point[] {
+  return Object.entries(ring.subject).flatMap(([key, value]) => {
+    if (!isPointKey(key) || key.endsWith('_house')) return []
+    const point = value as Point | undefined
+    if (!point || typeof point.abs_pos !== 'number') return []
+    if (activePoints && !activePoints.includes(point.name)) return []
+    return [point]
+  })
+}
+
+/**
+ * Finds aspects from the points of an outer ring to the points of an inner ring
+ *
+ * @param maxOrb - Upper bound on every aspect orb
+ * @returns Aspects with the inner point as p1 and the outer point as p2, tightest first
+ */
+export function findRingAspects(
+  inner: ChartRing,
+  outer: ChartRing,
+  options: RingAspectOptions = {},
+  maxOrb = Infinity,
+): Aspect[] {
+  const { activePoints, activeAspects = DEFAULT_ASPECTS } = options
+  const innerPoints = getRingPoints(inner, activePoints)
+  const outerPoints = getRingPoints(outer, activePoints)
+  const aspects: Aspect[] = []
+
+  for (const innerPoint of innerPoints) {
+    for (const outerPoint of outerPoints) {
+      const separation = Math.abs(signedDelta(outerPoint.abs_pos, innerPoint.abs_pos))
+
+      for (const { name, orb } of activeAspects) {
+        const aspectDegrees = ASPECT_DEGREES[name]
+        if (aspectDegrees === undefined) continue
+        const orbit = Math.abs(separation - aspectDegrees)
+        if (orbit > Math.min(orb, maxOrb)) continue
+
+        aspects.push({
+          p1_name: innerPoint.name,
+          p1_owner: inner.label,
+          p1_abs_pos: innerPoint.abs_pos,
+          p2_name: outerPoint.name,
+          p2_owner: outer.label,
+          p2_abs_pos: outerPoint.abs_pos,
+          aspect: name,
+          orbit,
+          aspect_degrees: aspectDegrees,
+          diff: separation,
+          p1: innerPoint,
+          p2: outerPoint,
+        })
+        break
+      }
+    }
+  }
+
+  return aspects.sort((a, b) => a.orbit - b.orbit)
+}
+
+/**
+ * Finds the aspects between every pair of rings, inner ring first
+ *
+ * @param rings - Natal ring followed by the outer rings
+ * @param sources - Sources of the outer rings, in the same order
+ */
+export function findMultiWheelAspects(
+  rings: ChartRing[],
+  sources: MultiWheelRingSource[],
+  options: RingAspectOptions = {},
+): ChartRingAspects[] {
+  const pairs: ChartRingAspects[] = []
+  for (let inner = 0; inner < rings.length; inner++) {
+    for (let outer = inner + 1; outer < rings.length; outer++) {
+      // Ring 0 is natal; outer ring n comes from sources[n - 1]
+      const maxOrb = Math.min(getRingMaxOrb(sources[inner - 1]), getRingMaxOrb(sources[outer - 1]))
+      pairs.push({ inner, outer, aspects: findRingAspects(rings[inner]!, rings[outer]!, options, maxOrb) })
+    }
+  }
+  return pairs
+}
+
+/**
+ * Label of a ring pair, e.g. "Natal × Transits"
+ */
+export function getRingPairLabel(rings: ChartRing[], pair: Pick<ChartRingAspects, 'inner' | 'outer'>): string {
+  return `${rings[pair.inner]?.label ?? `Ring ${pair.inner + 1}`} × ${rings[pair.outer]?.label ?? `Ring ${pair.outer + 1}`}`
+}
@@ -11,6 +11,11 @@
  * @returns Formatted display name
  */
 export function formatPlanetName(apiName: string): string {
+  // Midpoints, e.g. "Sun/Moon"
+  if (apiName.includes('/')) {
+    return apiName.split('/').map(formatPlanetName).join('/')
+  }
+
   // Special handling for simplified lunar node names
   if (apiName === 'True_Node' || apiName === 'True Node') {
     return 'North Node'
@@ -83,6 +88,10 @@ export function formatPlanetName(apiName: string): string {
  * @returns Short abbreviated name (2-3 chars)
  */
 export function formatPlanetNameShort(apiName: string): string {
+  if (apiName.includes('/')) {
+    return apiName.split('/').map(formatPlanetNameShort).join('/')
+  }
+
   const name = apiName.toLowerCase().replace(/_/g, ' ')
 
   // Core planets
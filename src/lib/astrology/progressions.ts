@@ -0,0 +1,422 @@
+/**
+ * Secondary progressions, solar arc directions and the progressed lunation cycle
+ *
+ * Secondary progressions equate each day after birth with a year of life: the
+ * progressed chart for age 30 is the sky 30 days after birth. Planets are taken
+ * at that exact progressed moment. Angles and houses advance at the mean solar
+ * rate in right ascension (Naibod), which is what casting the chart at the
+ * progressed moment gives once the fractional day of rotation is removed.
+ *
+ * Solar arc directions add the distance travelled by the progressed Sun to
+ * every natal point, so the whole chart moves about a degree a year.
+ *
+ * The progressed lunation cycle follows the progressed Moon–Sun elongation
+ * through the eight phases described by Dane Rudhyar; one cycle takes about
+ * 29.5 years.
+ *
+ * @module lib/astrology/progressions
+ */
+
+import { isPointKey, type Aspect, type EnrichedSubjectModel, type Point } from '@/types/astrology'
+import type { Subject } from '@/types/subjects'
+import { getTimezoneOffsetMinutes, isKnownTimezone } from '@/lib/csv/interchange'
+import { ASPECT_DEGREES } from './aspects'
+import { ZODIAC_SIGNS } from './celestial-points'
+import { normalizeDegrees, signedDelta } from './transit-timeline'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Predictive techniques derived from the natal chart by symbolic time
+ */
+export type ProgressionTechnique = 'progressions' | 'solar-arc' | 'progressed-lunation'
+
+export type LunationPhaseName = (typeof LUNATION_PHASES)[number]
+
+/**
+ * Upcoming change of progressed lunation phase
+ */
+export interface LunationPhaseChange {
+  phase: LunationPhaseName
+  /** Age in years at which the phase begins */
+  ageYears: number
+  /** Approximate calendar date (ISO) at which the phase begins */
+  date: string
+}
+
+/**
+ * Position of a progressed chart in the progressed lunation cycle
+ */
+export interface ProgressedLunation {
+  /** Progressed Moon minus progressed Sun, 0-360 */
+  elongation: number
+  phase: LunationPhaseName
+  /** Degrees travelled since the current phase began (0-45) */
+  degreesIntoPhase: number
+  /** Elongation gained per year of life */
+  ratePerYear: number
+  /** Age in years at the last progressed New Moon */
+  cycleStartAge: number
+  /** The next eight phase changes, starting with the next one */
+  nextPhases: LunationPhaseChange[]
+}
+
+/**
+ * Options for finding aspects between directed and natal points
+ */
+export interface DirectedAspectOptions {
+  /** Point names to include (API names, e.g. "Sun", "Medium_Coeli"); all points when omitted */
+  activePoints?: string[]
+  /** Aspects to look for, with their natal orbs; majors when omitted */
+  activeAspects?: { name: string; orb: number }[]
+  /** Upper bound on the orb, since directed points move about a degree a year */
+  maxOrb?: number
+  /** Owner label of the natal points */
+  natalOwner?: string
+  /** Owner label of the directed points */
+  directedOwner?: string
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Length of the tropical year in days, the "year" in a day for a year */
+export const TROPICAL_YEAR_DAYS = 365.24219
+
+/** Mean growth of the Moon–Sun elongation per progressed year (360° per synodic month) */
+export const MEAN_PROGRESSED_ELONGATION_RATE = 360 / 29.530589
+
+/** Default orb for directions, in degrees */
+export const DEFAULT_DIRECTION_ORB = 1
+
+export const LUNATION_PHASES = [
+  'New Moon',
+  'Crescent',
+  'First Quarter',
+  'Gibbous',
+  'Full Moon',
+  'Disseminating',
+  'Last Quarter',
+  'Balsamic',
+] as const
+
+const DAY_MS = 86_400_000
+
+const MAJOR_ASPECTS = ['conjunction', 'opposition', 'trine', 'square', 'sextile']
+
+// ============================================================================
+// Symbolic Time
+// ============================================================================
+
+/**
+ * UT instant of birth.
+ * `birth_datetime` holds the local wall-clock time encoded as UTC, so the zone
+ * offset in force at birth is removed. Unknown zones are treated as UT.
+ */
+export function getBirthInstant(subject: Pick<Subject, 'birth_datetime' | 'timezone'>): Date {
+  const wallClock = new Date(subject.birth_datetime)
+  const offset = isKnownTimezone(subject.timezone) ? getTimezoneOffsetMinutes(subject.timezone, wallClock) : 0
+  return new Date(wallClock.getTime() - offset * 60_000)
+}
+
+/**
+ * Age in tropical years at the target instant
+ */
+export function getAgeInYears(birth: Date, target: Date): number {
+  return (target.getTime() - birth.getTime()) / DAY_MS / TROPICAL_YEAR_DAYS
+}
+
+/**
+ * Progressed moment for a target date: one day after birth for each year of life
+ */
+export function getProgressedInstant(birth: Date, target: Date): Date {
+  return new Date(birth.getTime() + getAgeInYears(birth, target) * DAY_MS)
+}
+
+/**
+ * Target date whose progressed moment is the given instant (the inverse of getProgressedInstant)
+ */
+export function getTargetFromProgressedInstant(birth: Date, progressed: Date): Date {
+  return new Date(birth.getTime() + (progressed.getTime() - birth.getTime()) * TROPICAL_YEAR_DAYS)
+}
+
+/**
+ * Longitude at which to cast progressed houses.
+ *
+ * The progressed moment lies `age` days after birth, so the Earth has turned a
+ * further fraction of a day beyond whole rotations. Moving the observer west by
+ * that fraction of 360° leaves only the extra ~0.9856° of sidereal time gained
+ * per day, which advances the MC at the Naibod rate in right ascension.
+ *
+ * @returns Longitude in the range [-180, 180)
+ */
+export function getProgressedHouseLongitude(longitude: number, ageYears: number): number {
+  const fraction = ageYears - Math.floor(ageYears)
+  return normalizeDegrees(longitude - 360 * fraction + 180) - 180
+}
+
+/**
+ * Builds the subject to cast for the secondary progressed chart.
+ * The progressed moment is expressed as a UT wall-clock time with the UTC zone.
+ *
+ * @throws {Error} If the target date is before birth
+ */
+export function toProgressedSubject(subject: Subject, target: Date): Subject {
+  const birth = getBirthInstant(subject)
+  const ageYears = getAgeInYears(birth, target)
+  if (ageYears < 0) {
+    throw new Error('Progression date must be after the birth date')
+  }
+
+  return {
+    ...subject,
+    id: `${subject.id}-progressed`,
+    name: 'Progressed',
+    birth_datetime: getProgressedInstant(birth, target).toISOString(),
+    timezone: 'UTC',
+    longitude: getProgressedHouseLongitude(subject.longitude, ageYears),
+  }
+}
+
+// ============================================================================
+// Solar Arc
+// ============================================================================
+
+/**
+ * Solar arc: distance from the natal to the progressed Sun, 0-360
+ */
+export function getSolarArc(natalSun: number, progressedSun: number): number {
+  return normalizeDegrees(progressedSun - natalSun)
+}
+
+/**
+ * Moves a point forward by the arc, recomputing its sign data.
+ * House placements do not change because every cusp moves by the same arc.
+ */
+export function directPoint(point: Point, arc: number): Point {
+  const absPos = normalizeDegrees(point.abs_pos + arc)
+  const signNum = Math.floor(absPos / 30) % 12
+  const sign = ZODIAC_SIGNS[signNum]!
+
+  return {
+    ...point,
+    abs_pos: absPos,
+    position: absPos - signNum * 30,
+    sign_num: signNum,
+    sign: sign.sign,
+    element: sign.element,
+    quality: sign.quality,
+    emoji: sign.emoji,
+    speed: null,
+    declination: null,
+  }
+}
+
+/**
+ * Builds the solar arc directed chart for a target date from the natal subject
+ *
+ * @param natal - Natal subject returned by the Astrologer API
+ * @param arc - Solar arc in degrees
+ * @param target - Date the directions are calculated for
+ */
+export function directSubject(natal: EnrichedSubjectModel, arc: number, target: Date): EnrichedSubjectModel {
+  const directed: EnrichedSubjectModel = {
+    ...natal,
+    name: 'Solar Arc',
+    year: target.getUTCFullYear(),
+    month: target.getUTCMonth() + 1,
+    day: target.getUTCDate(),
+    hour: target.getUTCHours(),
+    minute: target.getUTCMinutes(),
+    second: target.getUTCSeconds(),
+    timezone: 'UTC',
+    tz_str: 'UTC',
+    iso_formatted_local_datetime: target.toISOString(),
+    iso_formatted_utc_datetime: target.toISOString(),
+  }
+
+  for (const [key, value] of Object.entries(natal)) {
+    if (!isPointKey(key)) continue
+    const point = value as Point | undefined
+    if (!point || typeof point.abs_pos !== 'number') continue
+    ;(directed as unknown as Record<string, Point>)[key] = directPoint(point, arc)
+  }
+
+  return directed
+}
+
+/**
+ * Points of a subject eligible for aspects (houses excluded), keyed by point name
+ */
+function getAspectPoints(subject: EnrichedSubjectModel, activePoints?: string[]): Point[] {
+  return Object.entries(subject).flatMap(([key, value]) => {
+    if (!isPointKey(key) || key.endsWith('_house')) return []
+    const point = value as Point | undefined
+    if (!point || typeof point.abs_pos !== 'number') return []
+    if (activePoints && !activePoints.includes(point.name)) return []
+    return [point]
+  })
+}
+
+/**
+ * Finds aspects from directed points to natal points.
+ *
+ * Directed points always move forward, so an aspect is applying while the
+ * directed point is still short of the exact angle.
+ *
+ * @returns Aspects with the natal point as p1 and the directed point as p2, tightest first
+ */
+export function findDirectedAspects(
+  natal: EnrichedSubjectModel,
+  directed: EnrichedSubjectModel,
+  options: DirectedAspectOptions = {},
+): Aspect[] {
+  const {
+    activePoints,
+    activeAspects = MAJOR_ASPECTS.map((name) => ({ name, orb: DEFAULT_DIRECTION_ORB })),
+    maxOrb = DEFAULT_DIRECTION_ORB,
+    natalOwner = natal.name,
+    directedOwner = directed.name,
+  } = options
+
+  const natalPoints = getAspectPoints(natal, activePoints)
+  const directedPoints = getAspectPoints(directed, activePoints)
+  const aspects: Aspect[] = []
+
+  for (const natalPoint of natalPoints) {
+    for (const directedPoint of directedPoints) {
+      const separation = Math.abs(signedDelta(directedPoint.abs_pos, natalPoint.abs_pos))
+
+      for (const { name, orb } of activeAspects) {
+        const aspectDegrees = ASPECT_DEGREES[name]
+        if (aspectDegrees === undefined) continue
+        const orbit = Math.abs(separation - aspectDegrees)
+        if (orbit > Math.min(orb, maxOrb)) continue
+
+        // Exact position the directed point must reach, on its side of the natal point
+        const side = signedDelta(directedPoint.abs_pos, natalPoint.abs_pos) >= 0 ? 1 : -1
+        const exact = normalizeDegrees(natalPoint.abs_pos + side * aspectDegrees)
+        const applying = signedDelta(directedPoint.abs_pos, exact) < 0
+
+        aspects.push({
+          p1_name: natalPoint.name,
+          p1_owner: natalOwner,
+          p1_abs_pos: natalPoint.abs_pos,
+          p2_name: directedPoint.name,
+          p2_owner: directedOwner,
+          p2_abs_pos: directedPoint.abs_pos,
+          aspect: name,
+          orbit,
+          aspect_degrees: aspectDegrees,
+          diff: separation,
+          p1: natalPoint,
+          p2: directedPoint,
+          aspect_movement: applying ? 'Applying' : 'Separating',
+        })
+        break
+      }
+    }
+  }
+
+  return aspects.sort((a, b) => a.orbit - b.orbit)
+}
+
+// ============================================================================
+// Progressed Lunation
+// ============================================================================
+
+/**
+ * Locates the progressed chart in the progressed lunation cycle.
+ *
+ * The elongation rate comes from the progressed Sun and Moon daily speeds (one
+ * day of motion is one year of progression) and falls back to the mean
+ * synodic rate. Phase dates are approximate because the Moon's speed varies.
+ *
+ * @param progressed - Progressed subject returned by the Astrologer API
+ * @param birth - UT instant of birth
+ * @param ageYears - Age at the target date
+ */
+export function getProgressedLunation(
+  progressed: EnrichedSubjectModel,
+  birth: Date,
+  ageYears: number,
+): ProgressedLunation {
+  const elongation = normalizeDegrees(progressed.moon.abs_pos - progressed.sun.abs_pos)
+  const moonSpeed = progressed.moon.speed
+  const sunSpeed = progressed.sun.speed
+  const measuredRate = typeof moonSpeed === 'number' && typeof sunSpeed === 'number' ? moonSpeed - sunSpeed : NaN
+  const ratePerYear = measuredRate > 0 ? measuredRate : MEAN_PROGRESSED_ELONGATION_RATE
+
+  const phaseIndex = Math.floor(elongation / 45) % 8
+  const toDate = (age: number) => new Date(birth.getTime() + age * TROPICAL_YEAR_DAYS * DAY_MS).toISOString()
+
+  const nextPhases = Array.from({ length: 8 }, (_, i) => {
+    const boundary = (phaseIndex + i + 1) * 45
+    const age = ageYears + (boundary - elongation) / ratePerYear
+    return { phase: LUNATION_PHASES[(phaseIndex + i + 1) % 8]!, ageYears: age, date: toDate(age) }
+  })
+
+  return {
+    elongation,
+    phase: LUNATION_PHASES[phaseIndex]!,
+    degreesIntoPhase: elongation - phaseIndex * 45,
+    ratePerYear,
+    cycleStartAge: ageYears - elongation / ratePerYear,
+    nextPhases,
+  }
+}
+
+// ============================================================================
+// AI Context
+// ============================================================================
+
+function formatDegrees(point: Point): string {
+  const degrees = Math.floor(point.position)
+  const minutes = Math.floor((point.position - degrees) * 60)
+  return `${degrees}°${String(minutes).padStart(2, '0')}' ${point.sign}`
+}
+
+/**
+ * Plain-text summary of solar arc directions for AI interpretation
+ */
+export function formatSolarArcContext(
+  natal: EnrichedSubjectModel,
+  directed: EnrichedSubjectModel,
+  aspects: Aspect[],
+): string {
+  const arc = getSolarArc(natal.sun.abs_pos, directed.sun.abs_pos)
+  const lines = [
+    `Solar Arc Directions for ${natal.name} on ${directed.iso_formatted_utc_datetime?.split('T')[0] ?? ''}`,
+    `Solar arc: ${arc.toFixed(2)}°`,
+    '',
+    'Directed positions:',
+    ...getAspectPoints(directed).map((point) => `- Directed ${point.name}: ${formatDegrees(point)}`),
+    '',
+    'Directed to natal aspects:',
+    ...(aspects.length > 0
+      ? aspects.map(
+          (a) =>
+            `- Directed ${a.p2_name} ${a.aspect} natal ${a.p1_name} (orb ${a.orbit.toFixed(2)}°, ${a.aspect_movement?.toLowerCase()})`,
+        )
+      : ['- None within orb']),
+  ]
+  return lines.join('\n')
+}
+
+/**
+ * Plain-text summary of the progressed lunation phase for AI interpretation
+ */
+export function formatProgressedLunationContext(lunation: ProgressedLunation): string {
+  const lines = [
+    'Progressed Lunation Cycle:',
+    `- Current phase: ${lunation.phase} (${lunation.degreesIntoPhase.toFixed(1)}° into the phase, elongation ${lunation.elongation.toFixed(1)}°)`,
+    `- Last progressed New Moon at age ${lunation.cycleStartAge.toFixed(1)}`,
+    ...lunation.nextPhases
+      .slice(0, 3)
+      .map((change) => `- ${change.phase} begins at age ${change.ageYears.toFixed(1)} (${change.date.split('T')[0]})`),
+  ]
+  return lines.join('\n')
+}
@@ -0,0 +1,368 @@
+/**
+ * Birth time rectification
+ *
+ * Sweeps candidate birth times across a window of the birth day and scores
+ * each one by how closely the angles it implies are contacted at the dates of
+ * known life events:
+ * - transits of Mars to Pluto to the natal Ascendant and Midheaven
+ * - secondary progressed Sun to Mars to the natal angles, and the progressed
+ *   angles to the natal planets
+ * - solar arc directed planets to the natal angles, and the directed angles
+ *   to the natal planets
+ *
+ * Only hard aspects (conjunction, square, opposition) are counted, which also
+ * covers the Descendant and IC. Each contact scores 1 when exact, falling
+ * linearly to 0 at the edge of its orb.
+ *
+ * Positions come from the local ephemeris, since a sweep needs thousands of
+ * charts. Aspects between points do not depend on the zodiac, so the scores
+ * hold for sidereal charts too.
+ *
+ * @module lib/astrology/rectification
+ */
+
+import type { RodensRating } from '@/types/subjects'
+import { getApparentLongitude, type EphemerisBody } from '@/lib/ephemeris/astronomy'
+import { calculateAngles } from '@/lib/ephemeris/houses'
+import { ASPECT_DEGREES } from './aspects'
+import { ZODIAC_SIGNS } from './celestial-points'
+import { getAgeInYears, getBirthInstant, getProgressedHouseLongitude, getProgressedInstant } from './progressions'
+import { normalizeDegrees, signedDelta } from './transit-timeline'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RectificationTechnique = 'transit' | 'progression' | 'solar-arc'
+
+export type LifeEventCategory = (typeof LIFE_EVENT_CATEGORIES)[number]['value']
+
+/**
+ * Dated life event of a subject
+ */
+export interface LifeEventSummary {
+  id: string
+  title: string
+  category: LifeEventCategory
+  /** Date of the event (YYYY-MM-DD) */
+  date: string
+  createdAt: Date
+}
+
+/**
+ * Birth time saved from the rectification workbench, kept as an audit trail
+ */
+export interface RectificationLogEntry {
+  id: string
+  /** Birth date-time before the change (local wall-clock time encoded as UTC, like `birth_datetime`) */
+  previousBirthDatetime: string
+  birthDatetime: string
+  previousRodensRating: string | null
+  rodensRating: string | null
+  note: string
+  createdAt: Date
+}
+
+/**
+ * Birth data and search window for a rectification sweep
+ */
+export interface RectificationOptions {
+  /** Birth date (YYYY-MM-DD), local to the birth place */
+  birthDate: string
+  timezone: string
+  latitude: number
+  longitude: number
+  /** First candidate, in minutes after local midnight */
+  windowStartMinutes: number
+  /** Last candidate, in minutes after local midnight */
+  windowEndMinutes: number
+  /** Minutes between candidates */
+  stepMinutes: number
+  events: Pick<LifeEventSummary, 'id' | 'date'>[]
+  /** Orbs in degrees by technique; defaults to DEFAULT_RECTIFICATION_ORBS */
+  orbs?: Partial<Record<RectificationTechnique, number>>
+}
+
+/**
+ * Aspect to or from an angle at the date of a life event
+ */
+export interface AngleContact {
+  eventId: string
+  technique: RectificationTechnique
+  /** Moving point (API name), e.g. "Saturn" or the directed "Ascendant" */
+  point: string
+  /** Natal point (API name) */
+  target: string
+  aspect: string
+  orb: number
+  score: number
+}
+
+/**
+ * Candidate birth time and the contacts supporting it
+ */
+export interface RectificationCandidate {
+  /** Candidate birth date-time (local wall-clock time encoded as UTC, like `birth_datetime`) */
+  birthDatetime: string
+  /** Local birth time (HH:MM) */
+  time: string
+  ascendant: number
+  midheaven: number
+  score: number
+  scores: Record<RectificationTechnique, number>
+  /** Contacts, highest score first */
+  contacts: AngleContact[]
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const LIFE_EVENT_CATEGORIES = [
+  { value: 'relationship', label: 'Relationship / marriage' },
+  { value: 'career', label: 'Career' },
+  { value: 'relocation', label: 'Relocation' },
+  { value: 'accident', label: 'Accident / injury' },
+  { value: 'health', label: 'Health' },
+  { value: 'birth', label: 'Birth of a child' },
+  { value: 'loss', label: 'Death / loss' },
+  { value: 'other', label: 'Other' },
+] as const
+
+/** Default orbs in degrees. Directions move about a degree a year, so their orbs are tight */
+export const DEFAULT_RECTIFICATION_ORBS: Record<RectificationTechnique, number> = {
+  transit: 1.5,
+  progression: 1,
+  'solar-arc': 1,
+}
+
+/** Largest number of candidate times in one sweep */
+export const MAX_RECTIFICATION_CANDIDATES = 721
+
+/** Largest number of life events scored in one sweep */
+export const MAX_RECTIFICATION_EVENTS = 40
+
+const HARD_ASPECTS = ['conjunction', 'square', 'opposition'] as const
+
+const ANGLES = ['Ascendant', 'Medium_Coeli'] as const
+
+type Angle = (typeof ANGLES)[number]
+
+const PLANETS: { body: EphemerisBody; name: string }[] = [
+  { body: 'sun', name: 'Sun' },
+  { body: 'moon', name: 'Moon' },
+  { body: 'mercury', name: 'Mercury' },
+  { body: 'venus', name: 'Venus' },
+  { body: 'mars', name: 'Mars' },
+  { body: 'jupiter', name: 'Jupiter' },
+  { body: 'saturn', name: 'Saturn' },
+  { body: 'uranus', name: 'Uranus' },
+  { body: 'neptune', name: 'Neptune' },
+  { body: 'pluto', name: 'Pluto' },
+]
+
+/** Transiting planets slow enough to time an event to the day */
+const TRANSITING_PLANETS = PLANETS.slice(4)
+
+/** Progressed planets that move far enough in a lifetime to perfect aspects */
+const PROGRESSED_PLANETS = PLANETS.slice(0, 5)
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Tightest hard aspect between two longitudes within the orb
+ */
+function findHardAspect(moving: number, target: number, maxOrb: number): { aspect: string; orb: number } | null {
+  const separation = Math.abs(signedDelta(moving, target))
+  let best: { aspect: string; orb: number } | null = null
+  for (const aspect of HARD_ASPECTS) {
+    const orb = Math.abs(separation - ASPECT_DEGREES[aspect]!)
+    if (orb <= maxOrb && (!best || orb < best.orb)) best = { aspect, orb }
+  }
+  return best
+}
+
+/**
+ * Formats minutes after midnight as HH:MM
+ */
+export function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+/**
+ * Formats an ecliptic longitude as degrees and minutes in its sign, e.g. "23°41' Ari"
+ */
+export function formatLongitude(longitude: number): string {
+  const totalMinutes = Math.floor(normalizeDegrees(longitude) * 60)
+  const signNum = Math.floor(totalMinutes / 1800) % 12
+  const degrees = Math.floor((totalMinutes % 1800) / 60)
+  return `${degrees}°${String(totalMinutes % 60).padStart(2, '0')}' ${ZODIAC_SIGNS[signNum]!.sign}`
+}
+
+/**
+ * Minutes after midnight of an HH:MM or HH:MM:SS time, rounded down to the minute
+ */
+export function parseMinutes(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * Candidate times in a window, in minutes after local midnight
+ */
+export function getCandidateMinutes(
+  windowStartMinutes: number,
+  windowEndMinutes: number,
+  stepMinutes: number,
+): number[] {
+  const count = Math.floor((windowEndMinutes - windowStartMinutes) / stepMinutes) + 1
+  return Array.from({ length: Math.max(count, 0) }, (_, i) => windowStartMinutes + i * stepMinutes)
+}
+
+/**
+ * Instant at which an event is scored: noon UT of its date, so the error is
+ * at most half a day whatever the local zone
+ */
+function getEventInstant(date: string): Date {
+  return new Date(`${date.split('T')[0]}T12:00:00Z`)
+}
+
+/**
+ * Scores candidate birth times against the life events and ranks them
+ *
+ * Events dated before the birth date are ignored, since progressions and
+ * directions need a positive age.
+ *
+ * @returns Candidates, best score first (earlier times first on ties)
+ * @throws {Error} If the window holds more than MAX_RECTIFICATION_CANDIDATES times
+ */
+export function rankBirthTimes(options: RectificationOptions): RectificationCandidate[] {
+  const { birthDate, timezone, latitude, longitude } = options
+  const orbs = { ...DEFAULT_RECTIFICATION_ORBS, ...options.orbs }
+  const candidateMinutes = getCandidateMinutes(
+    options.windowStartMinutes,
+    options.windowEndMinutes,
+    options.stepMinutes,
+  )
+  if (candidateMinutes.length > MAX_RECTIFICATION_CANDIDATES) {
+    throw new Error(
+      `The window holds ${candidateMinutes.length} candidate times; the maximum is ${MAX_RECTIFICATION_CANDIDATES}. Use a larger step.`,
+    )
+  }
+
+  const events = options.events
+    .slice(0, MAX_RECTIFICATION_EVENTS)
+    .map((event) => ({ id: event.id, instant: getEventInstant(event.date) }))
+
+  // Transits do not depend on the birth time
+  const transits = new Map(
+    events.map((event) => [
+      event.id,
+      TRANSITING_PLANETS.map(({ body, name }) => ({
+        name,
+        longitude: getApparentLongitude(body, event.instant),
+      })),
+    ]),
+  )
+
+  const candidates = candidateMinutes.map((minutes): RectificationCandidate => {
+    const birthDatetime = `${birthDate.split('T')[0]}T${formatMinutes(minutes)}:00.000Z`
+    const birth = getBirthInstant({ birth_datetime: birthDatetime, timezone })
+    const natalAngles = calculateAngles(birth, latitude, longitude)
+    const natalAngleLongitudes: Record<Angle, number> = {
+      Ascendant: natalAngles.ascendant,
+      Medium_Coeli: natalAngles.midheaven,
+    }
+    const natalPlanets = PLANETS.map(({ body, name }) => ({
+      name,
+      longitude: getApparentLongitude(body, birth),
+    }))
+    const natalSun = natalPlanets[0]!.longitude
+
+    const contacts: AngleContact[] = []
+    const addContact = (
+      eventId: string,
+      technique: RectificationTechnique,
+      point: string,
+      moving: number,
+      target: string,
+      targetLongitude: number,
+    ) => {
+      const found = findHardAspect(moving, targetLongitude, orbs[technique])
+      if (!found) return
+      contacts.push({ eventId, technique, point, target, ...found, score: 1 - found.orb / orbs[technique] })
+    }
+
+    for (const event of events) {
+      const ageYears = getAgeInYears(birth, event.instant)
+      if (ageYears < 0) continue
+
+      for (const angle of ANGLES) {
+        for (const transit of transits.get(event.id)!) {
+          addContact(event.id, 'transit', transit.name, transit.longitude, angle, natalAngleLongitudes[angle])
+        }
+      }
+
+      const progressedInstant = getProgressedInstant(birth, event.instant)
+      const progressedPlanets = PROGRESSED_PLANETS.map(({ body, name }) => ({
+        name,
+        longitude: getApparentLongitude(body, progressedInstant),
+      }))
+      const progressedAngles = calculateAngles(
+        progressedInstant,
+        latitude,
+        getProgressedHouseLongitude(longitude, ageYears),
+      )
+      const arc = normalizeDegrees(progressedPlanets[0]!.longitude - natalSun)
+
+      for (const angle of ANGLES) {
+        for (const planet of progressedPlanets) {
+          addContact(event.id, 'progression', planet.name, planet.longitude, angle, natalAngleLongitudes[angle])
+        }
+        for (const planet of natalPlanets) {
+          addContact(event.id, 'solar-arc', planet.name, planet.longitude + arc, angle, natalAngleLongitudes[angle])
+        }
+      }
+
+      for (const planet of natalPlanets) {
+        addContact(event.id, 'progression', 'Ascendant', progressedAngles.ascendant, planet.name, planet.longitude)
+        addContact(event.id, 'progression', 'Medium_Coeli', progressedAngles.midheaven, planet.name, planet.longitude)
+        for (const angle of ANGLES) {
+          addContact(event.id, 'solar-arc', angle, natalAngleLongitudes[angle] + arc, planet.name, planet.longitude)
+        }
+      }
+    }
+
+    const scores: Record<RectificationTechnique, number> = { transit: 0, progression: 0, 'solar-arc': 0 }
+    for (const contact of contacts) scores[contact.technique] += contact.score
+
+    return {
+      birthDatetime,
+      time: formatMinutes(minutes),
+      ascendant: natalAngles.ascendant,
+      midheaven: natalAngles.midheaven,
+      score: scores.transit + scores.progression + scores['solar-arc'],
+      scores,
+      contacts: contacts.sort((a, b) => b.score - a.score),
+    }
+  })
+
+  return candidates.sort((a, b) => b.score - a.score || a.birthDatetime.localeCompare(b.birthDatetime))
+}
+
+// ============================================================================
+// Rodden Rating
+// ============================================================================
+
+/** Ratings of data that has a date but no recorded time */
+const UNTIMED_RATINGS: readonly string[] = ['X', 'AX', 'AAX']
+
+/**
+ * Rodden rating for a birth time set by rectification: XR when there was no
+ * recorded time, CR (rectified from an approximate time) otherwise
+ */
+export function getRectifiedRodensRating(current: string | null | undefined): RodensRating {
+  return current && UNTIMED_RATINGS.includes(current) ? 'XR' : 'CR'
+}
@@ -0,0 +1,393 @@
+/**
+ * Time-Lord Systems
+ *
+ * Period systems that hand the rulership of a life over from one planet to the
+ * next: annual and monthly profections, firdaria, zodiacal releasing from the
+ * Lots of Spirit and Fortune, and the Vimshottari dasha of sidereal charts.
+ * Everything is computed locally from the natal positions.
+ *
+ * Conventions:
+ * - Profections, firdaria and dashas count tropical years from the birth instant.
+ * - Zodiacal releasing uses Valens' 360-day year: a sign gives its minor years
+ *   at the first level, as many 30-day months at the second.
+ * - Nocturnal firdaria place the Nodes after Mercury, as in the diurnal sequence.
+ */
+
+import type { EnrichedSubjectModel } from '@/types/astrology'
+import { getSignRuler } from '@/lib/astrology/chart-highlights'
+import { ZODIAC_SIGNS } from '@/lib/astrology/celestial-points'
+import { TROPICAL_YEAR_DAYS } from '@/lib/astrology/progressions'
+import { analyzeTraditionalChart, DEFAULT_TRADITIONAL_OPTIONS } from '@/lib/astrology/traditional'
+import { normalizeDegrees } from '@/lib/astrology/transit-timeline'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TimeLordPeriod {
+  /** Sign abbreviation (profections, releasing) or planet (firdaria, dashas) the period is named after */
+  label: string
+  /** Ruler of the period */
+  lord: string
+  start: Date
+  end: Date
+  subPeriods?: TimeLordPeriod[]
+  /** Zodiacal releasing: house of the sign counted from the Lot of Fortune */
+  fromFortune?: number
+  /** Zodiacal releasing: the sub-periods jumped to the sign opposite the start */
+  loosingOfBond?: boolean
+}
+
+export interface TimeLords {
+  profections: TimeLordPeriod[]
+  firdaria: TimeLordPeriod[]
+  releasingFromSpirit: TimeLordPeriod[]
+  releasingFromFortune: TimeLordPeriod[]
+  /** Only for sidereal charts */
+  dasha: TimeLordPeriod[] | null
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DAY_MS = 86_400_000
+const YEAR_MS = TROPICAL_YEAR_DAYS * DAY_MS
+
+/** Years covered by profections and zodiacal releasing */
+const LIFESPAN_YEARS = 100
+
+/** Firdaria periods in years, diurnal sequence */
+const DIURNAL_FIRDARIA: [string, number][] = [
+  ['Sun', 10],
+  ['Venus', 8],
+  ['Mercury', 13],
+  ['Moon', 9],
+  ['Saturn', 11],
+  ['Jupiter', 12],
+  ['Mars', 7],
+  ['North Node', 3],
+  ['South Node', 2],
+]
+
+/** Firdaria periods in years, nocturnal sequence */
+const NOCTURNAL_FIRDARIA: [string, number][] = [
+  ['Moon', 9],
+  ['Saturn', 11],
+  ['Jupiter', 12],
+  ['Mars', 7],
+  ['Sun', 10],
+  ['Venus', 8],
+  ['Mercury', 13],
+  ['North Node', 3],
+  ['South Node', 2],
+]
+
+/** Order of the firdaria sub-periods, starting from the lord of the period */
+const FIRDARIA_SUB_ORDER = ['Sun', 'Venus', 'Mercury', 'Moon', 'Saturn', 'Jupiter', 'Mars']
+
+/** Minor years of each sign from Aries, the minor years of its ruler (Aquarius 30 for Saturn's return) */
+const SIGN_YEARS = [15, 8, 20, 25, 19, 20, 8, 15, 12, 27, 30, 12]
+
+/** Days per minor year at each level of zodiacal releasing */
+const RELEASING_DAYS = [360, 30]
+
+/** Vimshottari mahadasha lords and their years, 120 in total */
+const VIMSHOTTARI: [string, number][] = [
+  ['Ketu', 7],
+  ['Venus', 20],
+  ['Sun', 6],
+  ['Moon', 10],
+  ['Mars', 7],
+  ['Rahu', 18],
+  ['Jupiter', 16],
+  ['Saturn', 19],
+  ['Mercury', 17],
+]
+
+const VIMSHOTTARI_YEARS = 120
+
+const NAKSHATRA_SPAN = 360 / 27
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function addYears(date: Date, years: number): Date {
+  return new Date(date.getTime() + years * YEAR_MS)
+}
+
+function signLabel(index: number): string {
+  return ZODIAC_SIGNS[index]!.sign
+}
+
+function signLord(index: number): string {
+  return getSignRuler(signLabel(index), 'classical') ?? ''
+}
+
+/** Split a period into parts proportional to the given weights */
+function splitPeriod(start: Date, end: Date, parts: [string, number][]): TimeLordPeriod[] {
+  const total = parts.reduce((sum, [, weight]) => sum + weight, 0)
+  const span = end.getTime() - start.getTime()
+  let elapsed = 0
+  return parts.map(([lord, weight]) => {
+    const period = {
+      label: lord,
+      lord,
+      start: new Date(start.getTime() + (span * elapsed) / total),
+      end: new Date(start.getTime() + (span * (elapsed + weight)) / total),
+    }
+    elapsed += weight
+    return period
+  })
+}
+
+/** The sequence starting at `first`, wrapping around */
+function rotate<T>(items: T[], first: number): T[] {
+  return [...items.slice(first), ...items.slice(0, first)]
+}
+
+// ============================================================================
+// PROFECTIONS
+// ============================================================================
+
+/**
+ * Annual profections, each year with its twelve monthly profections
+ *
+ * The Ascendant moves one sign per year of life, and one sign per twelfth of
+ * the year within it; the ruler of the profected sign is the lord of the year.
+ */
+export function calculateProfections(birth: Date, ascendant: number, years = LIFESPAN_YEARS): TimeLordPeriod[] {
+  const ascendantSign = Math.floor(normalizeDegrees(ascendant) / 30)
+  return Array.from({ length: years }, (_, age) => {
+    const sign = (ascendantSign + age) % 12
+    const start = addYears(birth, age)
+    const end = addYears(birth, age + 1)
+    const months = Array.from({ length: 12 }, (_, month) => {
+      const monthSign = (sign + month) % 12
+      return {
+        label: signLabel(monthSign),
+        lord: signLord(monthSign),
+        start: addYears(birth, age + month / 12),
+        end: addYears(birth, age + (month + 1) / 12),
+      }
+    })
+    return { label: signLabel(sign), lord: signLord(sign), start, end, subPeriods: months }
+  })
+}
+
+// ============================================================================
+// FIRDARIA
+// ============================================================================
+
+/**
+ * Firdaria over one 75-year cycle. Planetary periods divide into seven equal
+ * sub-periods in Chaldean day order from their lord; the Nodes have none.
+ */
+export function calculateFirdaria(birth: Date, isDayChart: boolean): TimeLordPeriod[] {
+  let years = 0
+  return (isDayChart ? DIURNAL_FIRDARIA : NOCTURNAL_FIRDARIA).map(([lord, length]) => {
+    const start = addYears(birth, years)
+    const end = addYears(birth, years + length)
+    years += length
+
+    const first = FIRDARIA_SUB_ORDER.indexOf(lord)
+    const subPeriods =
+      first === -1
+        ? undefined
+        : splitPeriod(
+            start,
+            end,
+            rotate(FIRDARIA_SUB_ORDER, first).map((subLord) => [subLord, 1]),
+          )
+    return { label: lord, lord, start, end, subPeriods }
+  })
+}
+
+// ============================================================================
+// ZODIACAL RELEASING
+// ============================================================================
+
+/**
+ * Periods of one level of releasing from `startSign`, cut off at `end`.
+ * Below the first level, a sequence that runs through all twelve signs
+ * continues from the sign opposite the start (the loosing of the bond).
+ */
+function releaseLevel(startSign: number, start: Date, end: Date, level: number, fortuneSign: number): TimeLordPeriod[] {
+  const days = RELEASING_DAYS[level]!
+  const periods: TimeLordPeriod[] = []
+  let sign = startSign
+  let time = start.getTime()
+
+  for (let count = 0; time < end.getTime(); count++) {
+    const loosingOfBond = level > 0 && count === 12
+    if (loosingOfBond) sign = (startSign + 6) % 12
+
+    const next = time + SIGN_YEARS[sign]! * days * DAY_MS
+    const period: TimeLordPeriod = {
+      label: signLabel(sign),
+      lord: signLord(sign),
+      start: new Date(time),
+      end: new Date(Math.min(next, end.getTime())),
+      fromFortune: ((sign - fortuneSign + 12) % 12) + 1,
+    }
+    if (loosingOfBond) period.loosingOfBond = true
+    if (level === 0) period.subPeriods = releaseLevel(sign, period.start, period.end, 1, fortuneSign)
+    periods.push(period)
+
+    time = next
+    sign = (sign + 1) % 12
+  }
+  return periods
+}
+
+/**
+ * Zodiacal releasing from a lot, with general (first level) periods and their
+ * specific (second level) sub-periods
+ *
+ * @param lot - Longitude of the lot released from (Spirit or Fortune)
+ * @param fortune - Longitude of the Lot of Fortune, which the peak periods are counted from
+ */
+export function calculateZodiacalReleasing(
+  birth: Date,
+  lot: number,
+  fortune: number,
+  years = LIFESPAN_YEARS,
+): TimeLordPeriod[] {
+  const lotSign = Math.floor(normalizeDegrees(lot) / 30)
+  const fortuneSign = Math.floor(normalizeDegrees(fortune) / 30)
+  return releaseLevel(lotSign, birth, addYears(birth, years), 0, fortuneSign)
+}
+
+/**
+ * Peak periods fall in the signs angular to Fortune; the 10th is the highest
+ */
+export function isPeakPeriod(period: TimeLordPeriod): boolean {
+  return period.fromFortune !== undefined && [1, 4, 7, 10].includes(period.fromFortune)
+}
+
+// ============================================================================
+// VIMSHOTTARI DASHA
+// ============================================================================
+
+/**
+ * Vimshottari mahadashas with their antardashas, from the sidereal Moon
+ *
+ * The first mahadasha is ruled by the lord of the Moon's nakshatra and began
+ * before birth by the part of the nakshatra the Moon has already crossed.
+ */
+export function calculateVimshottariDasha(birth: Date, siderealMoon: number): TimeLordPeriod[] {
+  const nakshatra = Math.floor(normalizeDegrees(siderealMoon) / NAKSHATRA_SPAN)
+  const crossed = (normalizeDegrees(siderealMoon) % NAKSHATRA_SPAN) / NAKSHATRA_SPAN
+  const sequence = rotate(VIMSHOTTARI, nakshatra % VIMSHOTTARI.length)
+
+  let years = -crossed * sequence[0]![1]
+  return sequence.map(([lord, length], index) => {
+    const start = addYears(birth, years)
+    const end = addYears(birth, years + length)
+    years += length
+    const subPeriods = splitPeriod(
+      start,
+      end,
+      rotate(sequence, index).map(([subLord, subYears]) => [subLord, (length * subYears) / VIMSHOTTARI_YEARS]),
+    )
+    return { label: lord, lord, start, end, subPeriods }
+  })
+}
+
+// ============================================================================
+// ALL SYSTEMS
+// ============================================================================
+
+/**
+ * All time-lord systems of a natal chart
+ *
+ * @returns The systems, or null when the chart lacks the positions they need
+ */
+export function calculateTimeLords(subject: EnrichedSubjectModel): TimeLords | null {
+  const ascendant = subject.ascendant?.abs_pos ?? subject.first_house?.abs_pos
+  const birth = subject.iso_formatted_utc_datetime ? new Date(subject.iso_formatted_utc_datetime) : null
+  const traditional = analyzeTraditionalChart(subject, { ...DEFAULT_TRADITIONAL_OPTIONS, lots: ['fortune', 'spirit'] })
+  const fortune = traditional?.lots.find((lot) => lot.id === 'fortune')
+  const spirit = traditional?.lots.find((lot) => lot.id === 'spirit')
+  if (typeof ascendant !== 'number' || !birth || isNaN(birth.getTime()) || !traditional || !fortune || !spirit) {
+    return null
+  }
+
+  return {
+    profections: calculateProfections(birth, ascendant),
+    firdaria: calculateFirdaria(birth, traditional.isDayChart),
+    releasingFromSpirit: calculateZodiacalReleasing(birth, spirit.longitude, fortune.longitude),
+    releasingFromFortune: calculateZodiacalReleasing(birth, fortune.longitude, fortune.longitude),
+    dasha:
+      subject.zodiac_type === 'Sidereal' && subject.moon
+        ? calculateVimshottariDasha(birth, subject.moon.abs_pos)
+        : null,
+  }
+}
+
+/**
+ * The period running at a moment and its running sub-period
+ *
+ * @returns [period, sub-period], shorter when none is running
+ */
+export function findCurrentPeriods(periods: TimeLordPeriod[], at: Date): TimeLordPeriod[] {
+  const time = at.getTime()
+  const running = (list: TimeLordPeriod[] | undefined) =>
+    list?.find((period) => period.start.getTime() <= time && time < period.end.getTime())
+  const period = running(periods)
+  if (!period) return []
+  const subPeriod = running(period.subPeriods)
+  return subPeriod ? [period, subPeriod] : [period]
+}
+
+function describeReleasing(periods: TimeLordPeriod[], at: Date): string | null {
+  const current = findCurrentPeriods(periods, at)
+  if (current.length === 0) return null
+  return current
+    .map((period, level) => {
+      const notes = [
+        period.fromFortune === 10 ? 'peak period' : isPeakPeriod(period) ? 'angular to Fortune' : null,
+        period.loosingOfBond ? 'loosing of the bond' : null,
+      ].filter(Boolean)
+      return `L${level + 1} ${period.label} (${period.lord})${notes.length > 0 ? `, ${notes.join(', ')}` : ''}`
+    })
+    .join('; ')
+}
+
+/**
+ * The periods running at a moment, as a context section for AI interpretation
+ */
+export function formatTimeLordsContext(timeLords: TimeLords, at: Date): string {
+  const lines: string[] = []
+
+  const [year, month] = findCurrentPeriods(timeLords.profections, at)
+  if (year) {
+    lines.push(
+      `- Annual profection: ${year.label} year, lord of the year ${year.lord}` +
+        (month ? `; monthly profection ${month.label} (${month.lord})` : ''),
+    )
+  }
+
+  const [firdar, subFirdar] = findCurrentPeriods(timeLords.firdaria, at)
+  if (firdar) {
+    lines.push(`- Firdaria: ${firdar.lord} period${subFirdar ? `, ${subFirdar.lord} sub-period` : ''}`)
+  }
+
+  const spirit = describeReleasing(timeLords.releasingFromSpirit, at)
+  if (spirit) lines.push(`- Zodiacal releasing from Spirit: ${spirit}`)
+  const fortune = describeReleasing(timeLords.releasingFromFortune, at)
+  if (fortune) lines.push(`- Zodiacal releasing from Fortune: ${fortune}`)
+
+  if (timeLords.dasha) {
+    const [mahadasha, antardasha] = findCurrentPeriods(timeLords.dasha, at)
+    if (mahadasha) {
+      lines.push(
+        `- Vimshottari dasha: ${mahadasha.lord} mahadasha${antardasha ? `, ${antardasha.lord} antardasha` : ''}`,
+      )
+    }
+  }
+
+  if (lines.length === 0) return ''
+  return [`Time lords on ${at.toISOString().slice(0, 10)}:`, ...lines].join('\n')
+}
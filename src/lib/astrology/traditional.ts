@@ -0,0 +1,492 @@
+/**
+ * Traditional Techniques
+ *
+ * Essential dignities, sect, receptions, the Almuten Figuris and the
+ * Hellenistic lots of a chart, computed locally from the positions returned
+ * by the Astrologer API. Only the seven traditional planets take part.
+ *
+ * Domiciles come from the classical `SIGN_RULERS`; triplicities follow either
+ * Dorotheus (day, night and participating rulers) or Lilly (day and night
+ * rulers, Mars ruling water by day and night), and terms either the Egyptian
+ * or the Ptolemaic table.
+ */
+
+import type { EnrichedSubjectModel, Point } from '@/types/astrology'
+import { getSignRuler } from '@/lib/astrology/chart-highlights'
+import { ZODIAC_SIGNS } from '@/lib/astrology/celestial-points'
+import { normalizeDegrees } from '@/lib/astrology/transit-timeline'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const TRADITIONAL_PLANETS = ['Sun', 'Moon', 'Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn'] as const
+
+export type TraditionalPlanet = (typeof TRADITIONAL_PLANETS)[number]
+
+export type TriplicityScheme = 'dorothean' | 'lilly'
+
+export type TermScheme = 'egyptian' | 'ptolemaic'
+
+export type LotId = 'fortune' | 'spirit' | 'eros' | 'necessity' | 'courage' | 'victory' | 'nemesis'
+
+export interface TraditionalOptions {
+  triplicity: TriplicityScheme
+  terms: TermScheme
+  /** Lots to calculate, in display order */
+  lots: LotId[]
+}
+
+/** Lords of a degree of the zodiac */
+export interface DegreeRulers {
+  domicile: TraditionalPlanet
+  exaltation: TraditionalPlanet | null
+  /** Triplicity lords, the one of the chart's sect first */
+  triplicity: TraditionalPlanet[]
+  term: TraditionalPlanet
+  face: TraditionalPlanet
+}
+
+export interface PlanetDignity {
+  planet: TraditionalPlanet
+  /** Sign abbreviation, as returned by the API (e.g. "Ari") */
+  sign: string
+  longitude: number
+  rulers: DegreeRulers
+  domicile: boolean
+  exaltation: boolean
+  triplicity: boolean
+  term: boolean
+  face: boolean
+  detriment: boolean
+  fall: boolean
+  /** No essential dignity at all */
+  peregrine: boolean
+  /** Lilly's points: +5 domicile, +4 exaltation, +3 triplicity, +2 term, +1 face, -5 detriment, -4 fall, -5 peregrine */
+  score: number
+  /** Whether the planet belongs to the sect of the chart */
+  inSect: boolean
+}
+
+export interface Reception {
+  /** Planet being received */
+  planet: TraditionalPlanet
+  /** Lord of the sign or exaltation the planet is in */
+  receiver: TraditionalPlanet
+  dignity: 'domicile' | 'exaltation'
+  /** The receiver is in turn received by the planet */
+  mutual: boolean
+}
+
+export interface HylegicalPlace {
+  name: string
+  longitude: number
+}
+
+export interface AlmutenFiguris {
+  /** Planets with the highest score (more than one on a tie) */
+  planets: TraditionalPlanet[]
+  /** Score of every planet over the hylegical places */
+  scores: Record<TraditionalPlanet, number>
+  /** Sun, Moon, Ascendant, Lot of Fortune and prenatal syzygy */
+  places: HylegicalPlace[]
+}
+
+export interface Lot {
+  id: LotId
+  name: string
+  longitude: number
+  sign: string
+  /** Degrees within the sign */
+  position: number
+  /** Domicile lord of the lot */
+  ruler: TraditionalPlanet
+  /** Formula in use, reversed for night charts where the lot reverses */
+  formula: string
+}
+
+export interface TraditionalAnalysis {
+  isDayChart: boolean
+  sectLight: 'Sun' | 'Moon'
+  dignities: PlanetDignity[]
+  receptions: Reception[]
+  almuten: AlmutenFiguris
+  lots: Lot[]
+}
+
+// ============================================================================
+// TABLES
+// ============================================================================
+
+export const DEFAULT_TRADITIONAL_OPTIONS: TraditionalOptions = {
+  triplicity: 'dorothean',
+  terms: 'egyptian',
+  lots: ['fortune', 'spirit', 'eros', 'necessity', 'courage', 'victory', 'nemesis'],
+}
+
+/** Exaltation sign index of each planet */
+const EXALTATIONS: Partial<Record<TraditionalPlanet, number>> = {
+  Sun: 0,
+  Moon: 1,
+  Mercury: 5,
+  Venus: 11,
+  Mars: 9,
+  Jupiter: 3,
+  Saturn: 6,
+}
+
+/** Triplicity lords by element as [day, night, participating] */
+const TRIPLICITIES: Record<TriplicityScheme, Record<string, TraditionalPlanet[]>> = {
+  dorothean: {
+    Fire: ['Sun', 'Jupiter', 'Saturn'],
+    Earth: ['Venus', 'Moon', 'Mars'],
+    Air: ['Saturn', 'Mercury', 'Jupiter'],
+    Water: ['Venus', 'Mars', 'Moon'],
+  },
+  lilly: {
+    Fire: ['Sun', 'Jupiter'],
+    Earth: ['Venus', 'Moon'],
+    Air: ['Saturn', 'Mercury'],
+    Water: ['Mars', 'Mars'],
+  },
+}
+
+interface SignTerms {
+  lords: TraditionalPlanet[]
+  /** Degree each term ends at */
+  ends: number[]
+}
+
+/** Terms of each sign from Aries */
+const TERMS: Record<TermScheme, SignTerms[]> = {
+  egyptian: [
+    { lords: ['Jupiter', 'Venus', 'Mercury', 'Mars', 'Saturn'], ends: [6, 12, 20, 25, 30] },
+    { lords: ['Venus', 'Mercury', 'Jupiter', 'Saturn', 'Mars'], ends: [8, 14, 22, 27, 30] },
+    { lords: ['Mercury', 'Jupiter', 'Venus', 'Mars', 'Saturn'], ends: [6, 12, 17, 24, 30] },
+    { lords: ['Mars', 'Venus', 'Mercury', 'Jupiter', 'Saturn'], ends: [7, 13, 19, 26, 30] },
+    { lords: ['Jupiter', 'Venus', 'Saturn', 'Mercury', 'Mars'], ends: [6, 11, 18, 24, 30] },
+    { lords: ['Mercury', 'Venus', 'Jupiter', 'Mars', 'Saturn'], ends: [7, 17, 21, 28, 30] },
+    { lords: ['Saturn', 'Mercury', 'Jupiter', 'Venus', 'Mars'], ends: [6, 14, 21, 28, 30] },
+    { lords: ['Mars', 'Venus', 'Mercury', 'Jupiter', 'Saturn'], ends: [7, 11, 19, 24, 30] },
+    { lords: ['Jupiter', 'Venus', 'Mercury', 'Saturn', 'Mars'], ends: [12, 17, 21, 26, 30] },
+    { lords: ['Mercury', 'Jupiter', 'Venus', 'Saturn', 'Mars'], ends: [7, 14, 22, 26, 30] },
+    { lords: ['Mercury', 'Venus', 'Jupiter', 'Mars', 'Saturn'], ends: [7, 13, 20, 25, 30] },
+    { lords: ['Venus', 'Jupiter', 'Mercury', 'Mars', 'Saturn'], ends: [12, 16, 19, 28, 30] },
+  ],
+  ptolemaic: [
+    { lords: ['Jupiter', 'Venus', 'Mercury', 'Mars', 'Saturn'], ends: [6, 14, 21, 26, 30] },
+    { lords: ['Venus', 'Mercury', 'Jupiter', 'Saturn', 'Mars'], ends: [8, 15, 22, 26, 30] },
+    { lords: ['Mercury', 'Jupiter', 'Venus', 'Saturn', 'Mars'], ends: [7, 14, 21, 25, 30] },
+    { lords: ['Mars', 'Jupiter', 'Mercury', 'Venus', 'Saturn'], ends: [6, 13, 20, 27, 30] },
+    { lords: ['Saturn', 'Mercury', 'Venus', 'Jupiter', 'Mars'], ends: [6, 13, 19, 25, 30] },
+    { lords: ['Mercury', 'Venus', 'Jupiter', 'Saturn', 'Mars'], ends: [7, 13, 18, 24, 30] },
+    { lords: ['Saturn', 'Venus', 'Jupiter', 'Mercury', 'Mars'], ends: [6, 11, 19, 24, 30] },
+    { lords: ['Mars', 'Jupiter', 'Venus', 'Mercury', 'Saturn'], ends: [6, 14, 21, 27, 30] },
+    { lords: ['Jupiter', 'Venus', 'Mercury', 'Saturn', 'Mars'], ends: [8, 14, 19, 25, 30] },
+    { lords: ['Venus', 'Mercury', 'Jupiter', 'Mars', 'Saturn'], ends: [6, 12, 19, 25, 30] },
+    { lords: ['Saturn', 'Mercury', 'Venus', 'Jupiter', 'Mars'], ends: [6, 12, 20, 25, 30] },
+    { lords: ['Venus', 'Jupiter', 'Mercury', 'Mars', 'Saturn'], ends: [8, 14, 20, 26, 30] },
+  ],
+}
+
+/** Chaldean order, which the faces follow from Mars in the first face of Aries */
+const CHALDEAN_ORDER: TraditionalPlanet[] = ['Saturn', 'Jupiter', 'Mars', 'Sun', 'Venus', 'Mercury', 'Moon']
+
+const DIURNAL_PLANETS: TraditionalPlanet[] = ['Sun', 'Jupiter', 'Saturn']
+
+/** Mean daily motion of the Sun and Moon, used when the API gives no speed */
+const MEAN_SUN_SPEED = 0.9856
+const MEAN_MOON_SPEED = 13.1764
+
+/**
+ * Day formula of each lot as Ascendant + first - second; night charts swap
+ * the two unless the lot does not reverse
+ */
+const LOTS: Record<LotId, { name: string; plus: string; minus: string; reverses: boolean }> = {
+  fortune: { name: 'Fortune', plus: 'Moon', minus: 'Sun', reverses: true },
+  spirit: { name: 'Spirit', plus: 'Sun', minus: 'Moon', reverses: true },
+  eros: { name: 'Eros', plus: 'Venus', minus: 'Spirit', reverses: true },
+  necessity: { name: 'Necessity', plus: 'Fortune', minus: 'Mercury', reverses: true },
+  courage: { name: 'Courage', plus: 'Fortune', minus: 'Mars', reverses: true },
+  victory: { name: 'Victory', plus: 'Jupiter', minus: 'Spirit', reverses: true },
+  nemesis: { name: 'Nemesis', plus: 'Fortune', minus: 'Saturn', reverses: true },
+}
+
+export const LOT_NAMES: Record<LotId, string> = Object.fromEntries(
+  Object.entries(LOTS).map(([id, lot]) => [id, lot.name]),
+) as Record<LotId, string>
+
+// ============================================================================
+// DIGNITIES
+// ============================================================================
+
+function signIndex(longitude: number): number {
+  return Math.floor(normalizeDegrees(longitude) / 30) % 12
+}
+
+function signAt(longitude: number): (typeof ZODIAC_SIGNS)[number] {
+  return ZODIAC_SIGNS[signIndex(longitude)]!
+}
+
+function domicileLord(index: number): TraditionalPlanet {
+  return getSignRuler(ZODIAC_SIGNS[index]!.sign, 'classical') as TraditionalPlanet
+}
+
+/**
+ * Lords of a degree of the zodiac
+ *
+ * @param longitude - Ecliptic longitude
+ * @param isDayChart - Puts the day triplicity lord first by day, the night lord by night
+ */
+export function getDegreeRulers(
+  longitude: number,
+  isDayChart: boolean,
+  options: Pick<TraditionalOptions, 'triplicity' | 'terms'> = DEFAULT_TRADITIONAL_OPTIONS,
+): DegreeRulers {
+  const index = signIndex(longitude)
+  const degree = normalizeDegrees(longitude) - index * 30
+  const [day, night, ...participating] = TRIPLICITIES[options.triplicity][ZODIAC_SIGNS[index]!.element]!
+  const sectLords = isDayChart ? [day!, night!] : [night!, day!]
+
+  const exaltation = TRADITIONAL_PLANETS.find((planet) => EXALTATIONS[planet] === index) ?? null
+  const terms = TERMS[options.terms][index]!
+  const term = terms.lords[terms.ends.findIndex((end) => degree < end)] ?? terms.lords[terms.lords.length - 1]!
+  const face = CHALDEAN_ORDER[(index * 3 + Math.floor(degree / 10) + 2) % 7]!
+
+  return {
+    domicile: domicileLord(index),
+    exaltation,
+    triplicity: [...new Set([...sectLords, ...participating])],
+    term,
+    face,
+  }
+}
+
+/**
+ * Day chart when the Sun is above the horizon, i.e. in houses 7 to 12
+ */
+export function isDayChart(sunLongitude: number, ascendant: number): boolean {
+  return normalizeDegrees(sunLongitude - ascendant) >= 180
+}
+
+/**
+ * Sect of a planet: Mercury is diurnal when it rises before the Sun
+ */
+function isDiurnal(planet: TraditionalPlanet, positions: Record<TraditionalPlanet, number>): boolean {
+  if (planet === 'Mercury') return normalizeDegrees(positions.Sun - positions.Mercury) < 180
+  return DIURNAL_PLANETS.includes(planet)
+}
+
+/**
+ * Whether a planet holds triplicity at a degree. Lilly only counts the lord of
+ * the chart's sect; Dorotheus counts the participating lord as well.
+ */
+function holdsTriplicity(planet: TraditionalPlanet, rulers: DegreeRulers, options: TraditionalOptions): boolean {
+  return options.triplicity === 'lilly' ? rulers.triplicity[0] === planet : rulers.triplicity.includes(planet)
+}
+
+function getDignity(
+  planet: TraditionalPlanet,
+  positions: Record<TraditionalPlanet, number>,
+  dayChart: boolean,
+  options: TraditionalOptions,
+): PlanetDignity {
+  const longitude = positions[planet]
+  const index = signIndex(longitude)
+  const rulers = getDegreeRulers(longitude, dayChart, options)
+  const exaltationIndex = EXALTATIONS[planet]
+
+  const domicile = rulers.domicile === planet
+  const exaltation = rulers.exaltation === planet
+  const triplicity = holdsTriplicity(planet, rulers, options)
+  const term = rulers.term === planet
+  const face = rulers.face === planet
+  const detriment = domicileLord((index + 6) % 12) === planet
+  const fall = exaltationIndex !== undefined && (exaltationIndex + 6) % 12 === index
+  const peregrine = !domicile && !exaltation && !triplicity && !term && !face
+
+  const score =
+    (domicile ? 5 : 0) +
+    (exaltation ? 4 : 0) +
+    (triplicity ? 3 : 0) +
+    (term ? 2 : 0) +
+    (face ? 1 : 0) -
+    (detriment ? 5 : 0) -
+    (fall ? 4 : 0) -
+    (peregrine ? 5 : 0)
+
+  return {
+    planet,
+    sign: signAt(longitude).sign,
+    longitude,
+    rulers,
+    domicile,
+    exaltation,
+    triplicity,
+    term,
+    face,
+    detriment,
+    fall,
+    peregrine,
+    score,
+    inSect: isDiurnal(planet, positions) === dayChart,
+  }
+}
+
+// ============================================================================
+// RECEPTIONS & ALMUTEN
+// ============================================================================
+
+/**
+ * Receptions by domicile and exaltation between the seven planets
+ */
+export function findReceptions(positions: Record<TraditionalPlanet, number>): Reception[] {
+  const receivers = (planet: TraditionalPlanet) => {
+    const index = signIndex(positions[planet])
+    const exaltation = TRADITIONAL_PLANETS.find((other) => EXALTATIONS[other] === index)
+    return [
+      { receiver: domicileLord(index), dignity: 'domicile' as const },
+      ...(exaltation ? [{ receiver: exaltation, dignity: 'exaltation' as const }] : []),
+    ].filter(({ receiver }) => receiver !== planet)
+  }
+
+  return TRADITIONAL_PLANETS.flatMap((planet) =>
+    receivers(planet).map(({ receiver, dignity }) => ({
+      planet,
+      receiver,
+      dignity,
+      mutual: receivers(receiver).some((reception) => reception.receiver === planet),
+    })),
+  )
+}
+
+/**
+ * Longitude of the new or full Moon before birth, estimated from the speeds
+ * of the luminaries. For a full Moon the degree of the Moon is used.
+ */
+export function estimatePrenatalSyzygy(sun: Point, moon: Point): HylegicalPlace {
+  const sunSpeed = sun.speed ?? MEAN_SUN_SPEED
+  const moonSpeed = moon.speed ?? MEAN_MOON_SPEED
+  const elongation = normalizeDegrees(moon.abs_pos - sun.abs_pos)
+  const relativeSpeed = moonSpeed - sunSpeed
+
+  if (elongation < 180) {
+    const daysAgo = elongation / relativeSpeed
+    return { name: 'Prenatal New Moon', longitude: normalizeDegrees(sun.abs_pos - sunSpeed * daysAgo) }
+  }
+  const daysAgo = (elongation - 180) / relativeSpeed
+  return { name: 'Prenatal Full Moon', longitude: normalizeDegrees(moon.abs_pos - moonSpeed * daysAgo) }
+}
+
+/**
+ * Almuten Figuris: the planet with the most essential dignity over the
+ * hylegical places (Sun, Moon, Ascendant, Lot of Fortune, prenatal syzygy)
+ */
+export function findAlmutenFiguris(
+  places: HylegicalPlace[],
+  dayChart: boolean,
+  options: TraditionalOptions,
+): AlmutenFiguris {
+  const scores = Object.fromEntries(TRADITIONAL_PLANETS.map((planet) => [planet, 0])) as Record<
+    TraditionalPlanet,
+    number
+  >
+
+  for (const { longitude } of places) {
+    const rulers = getDegreeRulers(longitude, dayChart, options)
+    scores[rulers.domicile] += 5
+    if (rulers.exaltation) scores[rulers.exaltation] += 4
+    for (const planet of TRADITIONAL_PLANETS) {
+      if (holdsTriplicity(planet, rulers, options)) scores[planet] += 3
+    }
+    scores[rulers.term] += 2
+    scores[rulers.face] += 1
+  }
+
+  const best = Math.max(...Object.values(scores))
+  return { planets: TRADITIONAL_PLANETS.filter((planet) => scores[planet] === best), scores, places }
+}
+
+// ============================================================================
+// LOTS
+// ============================================================================
+
+/**
+ * Hellenistic lots, cast from the Ascendant and reversed in night charts
+ */
+export function calculateLots(
+  positions: Record<TraditionalPlanet, number>,
+  ascendant: number,
+  dayChart: boolean,
+  ids: LotId[],
+): Lot[] {
+  const values: Record<string, number> = { ...positions }
+  const cast = (id: LotId): Lot => {
+    const { name, plus, minus, reverses } = LOTS[id]
+    const [first, second] = dayChart || !reverses ? [plus, minus] : [minus, plus]
+    const longitude = normalizeDegrees(ascendant + values[first]! - values[second]!)
+    values[name] = longitude
+    const index = signIndex(longitude)
+    return {
+      id,
+      name: `Lot of ${name}`,
+      longitude,
+      sign: ZODIAC_SIGNS[index]!.sign,
+      position: longitude - index * 30,
+      ruler: domicileLord(index),
+      formula: `Asc + ${first} - ${second}`,
+    }
+  }
+
+  // Fortune and Spirit are cast first since the other lots are derived from them
+  const fortune = cast('fortune')
+  const spirit = cast('spirit')
+  return ids.map((id) => (id === 'fortune' ? fortune : id === 'spirit' ? spirit : cast(id)))
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Traditional analysis of a chart
+ *
+ * @returns The analysis, or null if the subject lacks a traditional planet or the Ascendant
+ */
+export function analyzeTraditionalChart(
+  subject: EnrichedSubjectModel,
+  options: TraditionalOptions = DEFAULT_TRADITIONAL_OPTIONS,
+): TraditionalAnalysis | null {
+  const points = subject as unknown as Record<string, Point | undefined>
+  const ascendant = subject.ascendant?.abs_pos ?? subject.first_house?.abs_pos
+  if (typeof ascendant !== 'number') return null
+
+  const positions = {} as Record<TraditionalPlanet, number>
+  for (const planet of TRADITIONAL_PLANETS) {
+    const longitude = points[planet.toLowerCase()]?.abs_pos
+    if (typeof longitude !== 'number') return null
+    positions[planet] = longitude
+  }
+
+  const dayChart = isDayChart(positions.Sun, ascendant)
+  const lots = calculateLots(positions, ascendant, dayChart, options.lots)
+  const fortune =
+    lots.find((lot) => lot.id === 'fortune') ?? calculateLots(positions, ascendant, dayChart, ['fortune'])[0]!
+
+  const places: HylegicalPlace[] = [
+    { name: 'Sun', longitude: positions.Sun },
+    { name: 'Moon', longitude: positions.Moon },
+    { name: 'Ascendant', longitude: ascendant },
+    { name: fortune.name, longitude: fortune.longitude },
+    estimatePrenatalSyzygy(subject.sun!, subject.moon!),
+  ]
+
+  return {
+    isDayChart: dayChart,
+    sectLight: dayChart ? 'Sun' : 'Moon',
+    dignities: TRADITIONAL_PLANETS.map((planet) => getDignity(planet, positions, dayChart, options)),
+    receptions: findReceptions(positions),
+    almuten: findAlmutenFiguris(places, dayChart, options),
+    lots,
+  }
+}
@@ -0,0 +1,658 @@
+/**
+ * @fileoverview Transit timeline engine.
+ *
+ * Finds discrete transit-to-natal aspect events over long date ranges.
+ * Instead of computing a full transit chart for every day, the engine:
+ * 1. Samples the ephemeris on a coarse grid sized to the fastest selected point
+ * 2. Detects orb ingress/egress and exact crossings between consecutive samples
+ * 3. Refines every crossing by bisection until it is known to the minute
+ *
+ * The ephemeris itself is abstracted behind a {@link PositionProvider}, so the
+ * engine is pure and can run against the Astrologer API or any local source.
+ *
+ * @module transit-timeline
+ */
+
+import { getAspectDegrees } from '@/lib/astrology/aspects'
+import type { EnrichedSubjectModel, Point } from '@/types/astrology'
+import { isPointKey } from '@/types/astrology'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Ecliptic position of a single point at a given moment.
+ */
+export interface PointPosition {
+  /** Absolute ecliptic longitude (0-360 degrees) */
+  abs_pos: number
+  /** Whether the point is retrograde at this moment */
+  retrograde: boolean
+}
+
+/**
+ * Positions keyed by celestial point name (e.g. 'Sun', 'Mean_North_Lunar_Node').
+ */
+export type PointPositions = Record<string, PointPosition>
+
+/**
+ * Returns the positions of the transiting points at a given moment.
+ */
+export type PositionProvider = (time: Date) => Promise<PointPositions>
+
+/**
+ * Aspect to search for, with the orb that defines ingress and exit.
+ */
+export interface TimelineAspectConfig {
+  name: string
+  orb: number
+}
+
+/**
+ * A moment where the transiting point perfects the aspect.
+ */
+export interface ExactHit {
+  /** ISO datetime of the exact hit (UTC, minute precision) */
+  date: string
+  /** Whether the transiting point was retrograde at the hit */
+  retrograde: boolean
+}
+
+/**
+ * A continuous period during which a transiting point stays within orb
+ * of an aspect to a natal point. Retrograde triple passes that never leave
+ * orb appear as a single event with several exact hits.
+ */
+export interface TransitEvent {
+  id: string
+  /** Transiting point name */
+  transitPoint: string
+  /** Natal point name */
+  natalPoint: string
+  /** Aspect name (lowercase, as configured in preferences) */
+  aspect: string
+  /** Exact angle of the aspect in degrees */
+  aspectDegrees: number
+  /** Orb used for ingress/exit detection */
+  orb: number
+  /** Orb ingress, or null if already within orb at the start of the range */
+  start: string | null
+  /** Exact hits in chronological order (empty if the aspect never perfects) */
+  exactHits: ExactHit[]
+  /** Orb exit, or null if still within orb at the end of the range */
+  end: string | null
+  /** Tightest orb reached during the event (0 when it perfects) */
+  minOrb: number
+}
+
+/**
+ * Result of a timeline search.
+ */
+export interface TransitTimeline {
+  startDate: string
+  endDate: string
+  /** Sampling step used for the coarse scan */
+  stepDays: number
+  /** Events sorted by their first significant moment */
+  events: TransitEvent[]
+  /** Transiting points left out because they move too fast for the range or the ephemeris lacks them */
+  skippedPoints: string[]
+}
+
+/**
+ * Options for {@link findTransitEvents}.
+ */
+export interface FindTransitEventsOptions {
+  provider: PositionProvider
+  /** Natal point positions (targets of the aspects) */
+  natalPositions: PointPositions
+  /** Names of the transiting points to track */
+  transitPoints: string[]
+  aspects: TimelineAspectConfig[]
+  /**
+   * Natal midpoints (keyed "A/B") searched with their own aspects and orbs,
+   * reported as events whose natal point is the midpoint
+   */
+  midpoints?: { positions: PointPositions; aspects: TimelineAspectConfig[] }
+  startDate: Date
+  endDate: Date
+  /** Maximum number of coarse samples (default: MAX_TIMELINE_SAMPLES) */
+  maxSamples?: number
+  /** Maximum number of provider calls, grid and refinement together (default: MAX_TIMELINE_PROVIDER_CALLS) */
+  maxProviderCalls?: number
+  /** Precision of refined times in ms (default: one minute) */
+  toleranceMs?: number
+  /** Maximum concurrent provider calls (default: 5) */
+  concurrency?: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Upper bound on coarse ephemeris samples per timeline request.
+ * Points that would need more samples than this over the requested range
+ * are skipped and reported in {@link TransitTimeline.skippedPoints}.
+ */
+export const MAX_TIMELINE_SAMPLES = 2000
+
+/**
+ * Upper bound on provider calls per timeline request, counting the coarse
+ * grid and every bisection step. Each crossing costs about 20 calls, so a
+ * busy multi-year search can need many times the grid size.
+ */
+export const MAX_TIMELINE_PROVIDER_CALLS = 50_000
+
+/**
+ * Precision of exact, ingress and exit times.
+ */
+export const EXACT_TIME_TOLERANCE_MS = 60 * 1000
+
+/**
+ * Coarse sampling step (in days) per transiting point.
+ * Steps are small enough that a point cannot move through an aspect
+ * and back out between two samples without a detectable crossing.
+ */
+export const TRANSIT_SAMPLE_STEP_DAYS: Record<string, number> = {
+  Moon: 0.25,
+  Sun: 1,
+  Mercury: 1,
+  Venus: 1,
+  Earth: 1,
+  Mars: 2,
+  Ceres: 2,
+  Pallas: 2,
+  Juno: 2,
+  Vesta: 2,
+  True_North_Lunar_Node: 2,
+  True_South_Lunar_Node: 2,
+  True_Lilith: 0.5,
+  Mean_Lilith: 3,
+  Jupiter: 4,
+  Saturn: 5,
+  Uranus: 5,
+  Neptune: 5,
+  Pluto: 5,
+  Chiron: 5,
+  Pholus: 5,
+  Mean_North_Lunar_Node: 5,
+  Mean_South_Lunar_Node: 5,
+  Eris: 5,
+  Sedna: 5,
+  Haumea: 5,
+  Makemake: 5,
+  Ixion: 5,
+  Orcus: 5,
+  Quaoar: 5,
+  Regulus: 5,
+  Spica: 5,
+}
+
+const DEFAULT_SAMPLE_STEP_DAYS = 1
+
+/**
+ * Points that depend on the local horizon and sweep the whole zodiac every day.
+ * They cannot be tracked as transiting points on a daily-or-coarser grid.
+ */
+const HORIZON_DEPENDENT_POINTS = new Set([
+  'Ascendant',
+  'Medium_Coeli',
+  'Descendant',
+  'Imum_Coeli',
+  'Vertex',
+  'Anti_Vertex',
+  'Pars_Fortunae',
+  'Pars_Spiritus',
+  'Pars_Amoris',
+  'Pars_Fidei',
+])
+
+// ============================================================================
+// Geometry Helpers
+// ============================================================================
+
+/**
+ * Normalizes an angle to the 0-360 range.
+ */
+export function normalizeDegrees(deg: number): number {
+  return ((deg % 360) + 360) % 360
+}
+
+/**
+ * Signed angular distance from target to longitude, in (-180, 180].
+ *
+ * @example
+ * signedDelta(10, 350) // Returns 20
+ * signedDelta(350, 10) // Returns -20
+ */
+export function signedDelta(longitude: number, target: number): number {
+  const d = normalizeDegrees(longitude - target)
+  return d > 180 ? d - 360 : d
+}
+
+/**
+ * Returns the ecliptic longitudes a transiting point must reach to perfect
+ * an aspect to a natal longitude. Conjunctions and oppositions have one
+ * target; every other aspect has a waxing and a waning target.
+ */
+export function getAspectTargets(natalLongitude: number, aspectDegrees: number): number[] {
+  if (aspectDegrees === 0 || aspectDegrees === 180) {
+    return [normalizeDegrees(natalLongitude + aspectDegrees)]
+  }
+  return [normalizeDegrees(natalLongitude + aspectDegrees), normalizeDegrees(natalLongitude - aspectDegrees)]
+}
+
+// ============================================================================
+// Subject Helpers
+// ============================================================================
+
+/**
+ * Converts a subject key (e.g. 'mean_north_lunar_node') to the API point name
+ * used in preferences (e.g. 'Mean_North_Lunar_Node').
+ */
+function keyToPointName(key: string): string {
+  return key
+    .split('_')
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('_')
+}
+
+/**
+ * Extracts point positions (houses excluded) from an enriched subject.
+ *
+ * @param subject - Subject returned by the Astrologer API
+ * @returns Positions keyed by point name
+ */
+export function subjectToPositions(subject: EnrichedSubjectModel): PointPositions {
+  const positions: PointPositions = {}
+
+  for (const [key, value] of Object.entries(subject)) {
+    if (!isPointKey(key) || key.endsWith('_house')) continue
+    const point = value as Point | undefined
+    if (!point || typeof point.abs_pos !== 'number') continue
+    positions[keyToPointName(key)] = { abs_pos: point.abs_pos, retrograde: Boolean(point.retrograde) }
+  }
+
+  return positions
+}
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+/**
+ * Sampling plan for a timeline request.
+ */
+export interface SamplingPlan {
+  stepDays: number
+  includedPoints: string[]
+  skippedPoints: string[]
+}
+
+/**
+ * Chooses which transiting points can be tracked over the range and the grid
+ * step needed for them. Fast points are dropped when the range is too long to
+ * sample them within the sample budget.
+ */
+export function planSampling(
+  transitPoints: string[],
+  startDate: Date,
+  endDate: Date,
+  maxSamples = MAX_TIMELINE_SAMPLES,
+): SamplingPlan {
+  const rangeDays = Math.max(0, (endDate.getTime() - startDate.getTime()) / DAY_MS)
+  const includedPoints: string[] = []
+  const skippedPoints: string[] = []
+  let stepDays = Infinity
+
+  for (const point of transitPoints) {
+    // Horizon-dependent points are natal targets only, never transiting points
+    if (HORIZON_DEPENDENT_POINTS.has(point)) continue
+
+    const step = TRANSIT_SAMPLE_STEP_DAYS[point] ?? DEFAULT_SAMPLE_STEP_DAYS
+    if (Math.ceil(rangeDays / step) + 1 > maxSamples) {
+      skippedPoints.push(point)
+      continue
+    }
+    includedPoints.push(point)
+    stepDays = Math.min(stepDays, step)
+  }
+
+  return {
+    stepDays: Number.isFinite(stepDays) ? stepDays : DEFAULT_SAMPLE_STEP_DAYS,
+    includedPoints,
+    skippedPoints,
+  }
+}
+
+/**
+ * Builds the sample grid from start to end (both inclusive).
+ */
+export function buildSampleTimes(startDate: Date, endDate: Date, stepDays: number): number[] {
+  const start = startDate.getTime()
+  const end = endDate.getTime()
+  const stepMs = stepDays * DAY_MS
+  const times: number[] = []
+
+  for (let t = start; t < end; t += stepMs) {
+    times.push(Math.round(t))
+  }
+  times.push(end)
+
+  return times
+}
+
+/**
+ * Thrown when a search needs more provider calls than its budget allows
+ */
+export class TimelineBudgetError extends Error {
+  constructor(maxProviderCalls: number) {
+    super(
+      `The timeline needs more than ${maxProviderCalls} ephemeris calculations. Choose a shorter range or fewer points and aspects.`,
+    )
+    this.name = 'TimelineBudgetError'
+  }
+}
+
+/**
+ * Wraps a provider with memoization, a concurrency limit and a call budget.
+ */
+function createSampler(provider: PositionProvider, concurrency: number, maxCalls: number) {
+  const cache = new Map<number, Promise<PointPositions>>()
+  const queue: Array<() => void> = []
+  let active = 0
+  let calls = 0
+
+  const acquire = () =>
+    new Promise<void>((resolve) => {
+      if (active < concurrency) {
+        active++
+        resolve()
+      } else {
+        queue.push(() => {
+          active++
+          resolve()
+        })
+      }
+    })
+
+  const release = () => {
+    active--
+    queue.shift()?.()
+  }
+
+  return (time: number): Promise<PointPositions> => {
+    const cached = cache.get(time)
+    if (cached) return cached
+    if (++calls > maxCalls) return Promise.reject(new TimelineBudgetError(maxCalls))
+
+    const promise = (async () => {
+      await acquire()
+      try {
+        return await provider(new Date(time))
+      } finally {
+        release()
+      }
+    })()
+
+    cache.set(time, promise)
+    return promise
+  }
+}
+
+type Sampler = ReturnType<typeof createSampler>
+
+/**
+ * Finds a root of f between lo and hi by bisection, given the value at lo.
+ * Returns the refined time and the positions at the last evaluated moment.
+ */
+async function bisect(
+  sample: Sampler,
+  f: (positions: PointPositions) => number,
+  lo: number,
+  hi: number,
+  fLo: number,
+  toleranceMs: number,
+): Promise<{ time: number; positions: PointPositions }> {
+  let positions: PointPositions | null = null
+
+  while (hi - lo > toleranceMs) {
+    const mid = Math.round((lo + hi) / 2)
+    positions = await sample(mid)
+    const value = f(positions)
+    if (value < 0 === fLo < 0) {
+      lo = mid
+      fLo = value
+    } else {
+      hi = mid
+    }
+  }
+
+  // Report times to the minute: the bracket is already narrower than the tolerance
+  const time = Math.round((lo + hi) / 2 / 60_000) * 60_000
+  return { time, positions: positions ?? (await sample(lo)) }
+}
+
+// ============================================================================
+// Event Detection
+// ============================================================================
+
+interface ScanContext {
+  sample: Sampler
+  times: number[]
+  samples: PointPositions[]
+  toleranceMs: number
+}
+
+/**
+ * Scans one transiting point against one aspect target and returns its events.
+ */
+async function scanTarget(
+  ctx: ScanContext,
+  transitPoint: string,
+  natalPoint: string,
+  aspect: TimelineAspectConfig,
+  aspectDegrees: number,
+  target: number,
+  targetIndex: number,
+): Promise<TransitEvent[]> {
+  const { sample, times, samples, toleranceMs } = ctx
+  const orb = aspect.orb
+
+  const delta = (positions: PointPositions) => signedDelta(positions[transitPoint]!.abs_pos, target)
+  const orbDistance = (positions: PointPositions) => Math.abs(delta(positions)) - orb
+
+  const deltas = samples.map(delta)
+  const inOrb = deltas.map((d) => Math.abs(d) < orb)
+
+  // Fast path: never within orb and never crossing the target
+  const touches = inOrb.some(Boolean) || deltas.some((d, i) => i > 0 && crossesTarget(deltas[i - 1]!, d))
+  if (!touches) return []
+
+  const events: TransitEvent[] = []
+  let current: TransitEvent | null = null
+
+  const open = (start: string | null) => {
+    current = {
+      id: `${transitPoint}-${aspect.name}-${natalPoint}-${targetIndex}-${events.length}`,
+      transitPoint,
+      natalPoint,
+      aspect: aspect.name,
+      aspectDegrees,
+      orb,
+      start,
+      exactHits: [],
+      end: null,
+      minOrb: orb,
+    }
+    return current
+  }
+
+  const close = (end: string | null) => {
+    if (!current) return
+    current.end = end
+    events.push(current)
+    current = null
+  }
+
+  if (inOrb[0]) open(null)
+
+  for (let i = 0; i < times.length; i++) {
+    const d0 = deltas[i]!
+    if (current) {
+      const event: TransitEvent = current
+      event.minOrb = Math.min(event.minOrb, Math.abs(d0))
+    }
+
+    if (i === times.length - 1) break
+
+    const d1 = deltas[i + 1]!
+    const t0 = times[i]!
+    const t1 = times[i + 1]!
+    const wasIn = inOrb[i]!
+    const isIn = inOrb[i + 1]!
+
+    let exact: { time: number; positions: PointPositions } | null = null
+    if (crossesTarget(d0, d1)) {
+      exact = await bisect(sample, delta, t0, t1, d0, toleranceMs)
+    }
+
+    if (!wasIn && isIn) {
+      const ingress = await bisect(sample, orbDistance, t0, exact?.time ?? t1, Math.abs(d0) - orb, toleranceMs)
+      open(new Date(ingress.time).toISOString())
+    } else if (!wasIn && !isIn && exact) {
+      // Entered and left orb between two samples (fast passage)
+      const ingress = await bisect(sample, orbDistance, t0, exact.time, Math.abs(d0) - orb, toleranceMs)
+      open(new Date(ingress.time).toISOString())
+    }
+
+    if (exact) {
+      const event: TransitEvent = current ?? open(null)
+      event.exactHits.push({
+        date: new Date(exact.time).toISOString(),
+        retrograde: exact.positions[transitPoint]?.retrograde ?? false,
+      })
+      event.minOrb = 0
+    }
+
+    if (wasIn && !isIn) {
+      const egress = await bisect(
+        sample,
+        orbDistance,
+        exact?.time ?? t0,
+        t1,
+        exact ? -orb : Math.abs(d0) - orb,
+        toleranceMs,
+      )
+      close(new Date(egress.time).toISOString())
+    } else if (!wasIn && !isIn && exact) {
+      const egress = await bisect(sample, orbDistance, exact.time, t1, -orb, toleranceMs)
+      close(new Date(egress.time).toISOString())
+    }
+  }
+
+  close(null)
+  return events
+}
+
+/**
+ * Whether the signed distance to the target changes sign between two samples
+ * without wrapping around the opposite point of the zodiac.
+ */
+function crossesTarget(d0: number, d1: number): boolean {
+  return d0 < 0 !== d1 < 0 && Math.abs(d0) < 90 && Math.abs(d1) < 90
+}
+
+/**
+ * Returns the moment used to order an event on the timeline.
+ */
+function eventSortTime(event: TransitEvent, rangeStart: number): number {
+  const first = event.start ?? event.exactHits[0]?.date
+  return first ? new Date(first).getTime() : rangeStart
+}
+
+/**
+ * Finds all transit-to-natal aspect events over a date range.
+ *
+ * @param options - Provider, natal positions, points, aspects and range
+ * @returns Timeline with events sorted chronologically
+ * @throws TimelineBudgetError if the search needs more than `maxProviderCalls` provider calls
+ *
+ * @example
+ * ```ts
+ * const timeline = await findTransitEvents({
+ *   provider: (time) => fetchPositions(time),
+ *   natalPositions: subjectToPositions(natalSubject),
+ *   transitPoints: ['Saturn', 'Pluto'],
+ *   aspects: [{ name: 'conjunction', orb: 2 }],
+ *   startDate: new Date('2025-01-01'),
+ *   endDate: new Date('2035-01-01'),
+ * })
+ * ```
+ */
+export async function findTransitEvents(options: FindTransitEventsOptions): Promise<TransitTimeline> {
+  const {
+    provider,
+    natalPositions,
+    transitPoints,
+    aspects,
+    midpoints,
+    startDate,
+    endDate,
+    maxSamples = MAX_TIMELINE_SAMPLES,
+    maxProviderCalls = MAX_TIMELINE_PROVIDER_CALLS,
+    toleranceMs = EXACT_TIME_TOLERANCE_MS,
+    concurrency = 5,
+  } = options
+
+  const plan = planSampling(transitPoints, startDate, endDate, maxSamples)
+  const sample = createSampler(provider, concurrency, maxProviderCalls)
+  const times = buildSampleTimes(startDate, endDate, plan.stepDays)
+
+  const timeline: TransitTimeline = {
+    startDate: startDate.toISOString(),
+    endDate: endDate.toISOString(),
+    stepDays: plan.stepDays,
+    events: [],
+    skippedPoints: plan.skippedPoints,
+  }
+
+  if (plan.includedPoints.length === 0) return timeline
+
+  const samples = await Promise.all(times.map((time) => sample(time)))
+
+  // Points the ephemeris did not return cannot be tracked
+  const trackedPoints = plan.includedPoints.filter((point) => samples.every((s) => s[point]))
+  timeline.skippedPoints.push(...plan.includedPoints.filter((point) => !trackedPoints.includes(point)))
+
+  const ctx: ScanContext = { sample, times, samples, toleranceMs }
+  const scans: Promise<TransitEvent[]>[] = []
+
+  const targetSets = [{ positions: natalPositions, aspects }, ...(midpoints ? [midpoints] : [])]
+
+  for (const transitPoint of trackedPoints) {
+    for (const targetSet of targetSets) {
+      for (const [natalPoint, natal] of Object.entries(targetSet.positions)) {
+        for (const aspect of targetSet.aspects) {
+          const aspectDegrees = getAspectDegrees(aspect.name)
+          if (aspectDegrees === undefined) continue
+
+          getAspectTargets(natal.abs_pos, aspectDegrees).forEach((target, targetIndex) => {
+            scans.push(scanTarget(ctx, transitPoint, natalPoint, aspect, aspectDegrees, target, targetIndex))
+          })
+        }
+      }
+    }
+  }
+
+  const rangeStart = startDate.getTime()
+  timeline.events = (await Promise.all(scans))
+    .flat()
+    .sort((a, b) => eventSortTime(a, rangeStart) - eventSortTime(b, rangeStart))
+
+  return timeline
+}
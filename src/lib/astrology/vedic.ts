@@ -0,0 +1,265 @@
+/**
+ * Vedic Chart Data
+ *
+ * Nakshatras with their padas and the Parashari divisional charts (vargas)
+ * D1–D60, computed locally from the positions returned by the Astrologer API.
+ * Positions are taken as they are: the vargas are only meaningful for charts
+ * calculated in the Sidereal zodiac.
+ */
+
+import type { EnrichedSubjectModel, Point } from '@/types/astrology'
+import { isPointKey } from '@/types/astrology'
+import { ZODIAC_SIGNS } from '@/lib/astrology/celestial-points'
+import { formatPlanetNameShort } from '@/lib/astrology/planet-formatting'
+import { normalizeDegrees } from '@/lib/astrology/transit-timeline'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Nakshatra {
+  /** 0 (Ashwini) to 26 (Revati) */
+  index: number
+  name: string
+  /** Vimshottari lord */
+  lord: string
+  /** Quarter of the nakshatra, 1 to 4 */
+  pada: number
+}
+
+export type VargaDivision = 1 | 2 | 3 | 4 | 7 | 9 | 10 | 12 | 16 | 20 | 24 | 27 | 30 | 40 | 45 | 60
+
+export interface VargaInfo {
+  division: VargaDivision
+  /** e.g. "D9" */
+  code: string
+  name: string
+  /** Area of life the varga is read for */
+  signification: string
+}
+
+export interface VargaPlacement {
+  /** API point name */
+  name: string
+  /** Short label drawn in the chart, e.g. "Su" or "Ra" */
+  label: string
+  /** Sign index in the varga, 0 (Aries) to 11 (Pisces) */
+  sign: number
+  retrograde: boolean
+}
+
+export interface VargaChart {
+  varga: VargaInfo
+  /** Sign of the Lagna (Ascendant) in the varga */
+  ascendantSign: number
+  placements: VargaPlacement[]
+}
+
+/** Chart layouts: the Western wheel or a square Indian chart */
+export type ChartLayout = 'western' | 'south_indian' | 'north_indian'
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const NAKSHATRA_SPAN = 360 / 27
+
+export const NAKSHATRAS = [
+  'Ashwini',
+  'Bharani',
+  'Krittika',
+  'Rohini',
+  'Mrigashira',
+  'Ardra',
+  'Punarvasu',
+  'Pushya',
+  'Ashlesha',
+  'Magha',
+  'Purva Phalguni',
+  'Uttara Phalguni',
+  'Hasta',
+  'Chitra',
+  'Swati',
+  'Vishakha',
+  'Anuradha',
+  'Jyeshtha',
+  'Mula',
+  'Purva Ashadha',
+  'Uttara Ashadha',
+  'Shravana',
+  'Dhanishta',
+  'Shatabhisha',
+  'Purva Bhadrapada',
+  'Uttara Bhadrapada',
+  'Revati',
+] as const
+
+/** Vimshottari lords, repeating three times around the zodiac from Ashwini */
+const NAKSHATRA_LORDS = ['Ketu', 'Venus', 'Sun', 'Moon', 'Mars', 'Rahu', 'Jupiter', 'Saturn', 'Mercury']
+
+export const VARGAS: VargaInfo[] = [
+  { division: 1, code: 'D1', name: 'Rasi', signification: 'Body and life as a whole' },
+  { division: 2, code: 'D2', name: 'Hora', signification: 'Wealth' },
+  { division: 3, code: 'D3', name: 'Drekkana', signification: 'Siblings' },
+  { division: 4, code: 'D4', name: 'Chaturthamsa', signification: 'Property and fortune' },
+  { division: 7, code: 'D7', name: 'Saptamsa', signification: 'Children' },
+  { division: 9, code: 'D9', name: 'Navamsa', signification: 'Marriage and dharma' },
+  { division: 10, code: 'D10', name: 'Dasamsa', signification: 'Career' },
+  { division: 12, code: 'D12', name: 'Dwadasamsa', signification: 'Parents' },
+  { division: 16, code: 'D16', name: 'Shodasamsa', signification: 'Vehicles and comforts' },
+  { division: 20, code: 'D20', name: 'Vimsamsa', signification: 'Spiritual practice' },
+  { division: 24, code: 'D24', name: 'Chaturvimsamsa', signification: 'Learning' },
+  { division: 27, code: 'D27', name: 'Saptavimsamsa', signification: 'Strength and weakness' },
+  { division: 30, code: 'D30', name: 'Trimsamsa', signification: 'Misfortunes' },
+  { division: 40, code: 'D40', name: 'Khavedamsa', signification: 'Maternal legacy' },
+  { division: 45, code: 'D45', name: 'Akshavedamsa', signification: 'Paternal legacy' },
+  { division: 60, code: 'D60', name: 'Shashtiamsa', signification: 'Past karma' },
+]
+
+/** Trimsamsa portions of odd signs as [end degree, sign], ruled by Mars, Saturn, Jupiter, Mercury and Venus */
+const ODD_TRIMSAMSA: [number, number][] = [
+  [5, 0],
+  [10, 10],
+  [18, 8],
+  [25, 2],
+  [30, 6],
+]
+
+/** Trimsamsa portions of even signs, ruled by Venus, Mercury, Jupiter, Saturn and Mars */
+const EVEN_TRIMSAMSA: [number, number][] = [
+  [5, 1],
+  [12, 5],
+  [20, 11],
+  [25, 9],
+  [30, 7],
+]
+
+/** Angles that are not drawn: the houses of Indian charts are whole signs from the Lagna */
+const EXCLUDED_POINTS = new Set(['Ascendant', 'Descendant', 'Medium_Coeli', 'Imum_Coeli'])
+
+// ============================================================================
+// NAKSHATRAS
+// ============================================================================
+
+/**
+ * Nakshatra and pada of a sidereal longitude
+ */
+export function getNakshatra(longitude: number): Nakshatra {
+  const position = normalizeDegrees(longitude)
+  const index = Math.min(Math.floor(position / NAKSHATRA_SPAN), 26)
+  const pada = Math.min(Math.floor(((position % NAKSHATRA_SPAN) / NAKSHATRA_SPAN) * 4), 3) + 1
+  return { index, name: NAKSHATRAS[index]!, lord: NAKSHATRA_LORDS[index % 9]!, pada }
+}
+
+// ============================================================================
+// VARGAS
+// ============================================================================
+
+/**
+ * Sign a longitude falls in within a divisional chart, by the Parashari rules
+ *
+ * @returns Sign index, 0 (Aries) to 11 (Pisces)
+ */
+export function getVargaSign(longitude: number, division: VargaDivision): number {
+  const position = normalizeDegrees(longitude)
+  const sign = Math.floor(position / 30) % 12
+  const degree = position - sign * 30
+  const part = Math.min(Math.floor((degree * division) / 30), division - 1)
+  const odd = sign % 2 === 0
+  // 0 movable, 1 fixed, 2 dual
+  const modality = sign % 3
+
+  const from = (start: number) => (start + part) % 12
+
+  switch (division) {
+    case 1:
+      return sign
+    case 2:
+      // Sun's hora (Leo) then Moon's (Cancer) in odd signs, the reverse in even signs
+      return degree < 15 === odd ? 4 : 3
+    case 3:
+      return (sign + part * 4) % 12
+    case 4:
+      return (sign + part * 3) % 12
+    case 7:
+      return from(odd ? sign : sign + 6)
+    case 9:
+    case 27:
+      // Counted continuously around the zodiac from Aries
+      return (sign * division + part) % 12
+    case 10:
+      return from(odd ? sign : sign + 8)
+    case 12:
+    case 60:
+      return from(sign)
+    case 16:
+    case 45:
+      return from([0, 4, 8][modality]!)
+    case 20:
+      return from([0, 8, 4][modality]!)
+    case 24:
+      return from(odd ? 4 : 3)
+    case 30:
+      return (odd ? ODD_TRIMSAMSA : EVEN_TRIMSAMSA).find(([end]) => degree < end)?.[1] ?? (odd ? 6 : 7)
+    case 40:
+      return from(odd ? 0 : 6)
+  }
+}
+
+function vargaLabel(name: string): string {
+  if (/north.*node/i.test(name)) return 'Ra'
+  if (/south.*node/i.test(name)) return 'Ke'
+  return formatPlanetNameShort(name)
+}
+
+/**
+ * Points of a chart drawn in its vargas: planets, nodes and other bodies,
+ * without the houses and angles
+ */
+function getVargaPoints(subject: EnrichedSubjectModel): Point[] {
+  return Object.entries(subject).flatMap(([key, value]) => {
+    if (!isPointKey(key) || key.endsWith('_house')) return []
+    const point = value as Point | undefined
+    if (!point || typeof point.abs_pos !== 'number' || EXCLUDED_POINTS.has(point.name)) return []
+    return [point]
+  })
+}
+
+/**
+ * A divisional chart of a subject
+ *
+ * @returns The chart, or null when the subject has no Ascendant
+ */
+export function calculateVargaChart(subject: EnrichedSubjectModel, division: VargaDivision): VargaChart | null {
+  const ascendant = subject.ascendant?.abs_pos ?? subject.first_house?.abs_pos
+  if (typeof ascendant !== 'number') return null
+
+  return {
+    varga: VARGAS.find((varga) => varga.division === division)!,
+    ascendantSign: getVargaSign(ascendant, division),
+    placements: getVargaPoints(subject).map((point) => ({
+      name: point.name,
+      label: vargaLabel(point.name),
+      sign: getVargaSign(point.abs_pos, division),
+      retrograde: !!point.retrograde,
+    })),
+  }
+}
+
+/**
+ * Nakshatra, pada and Navamsa sign of each point, the Ascendant first
+ */
+export function getNakshatraPositions(
+  subject: EnrichedSubjectModel,
+): { name: string; longitude: number; sign: string; nakshatra: Nakshatra; navamsa: string }[] {
+  const points = [subject.ascendant, ...getVargaPoints(subject)].filter(
+    (point): point is Point => !!point && typeof point.abs_pos === 'number',
+  )
+  return points.map((point) => ({
+    name: point.name,
+    longitude: point.abs_pos,
+    sign: ZODIAC_SIGNS[getVargaSign(point.abs_pos, 1)]!.sign,
+    nakshatra: getNakshatra(point.abs_pos),
+    navamsa: ZODIAC_SIGNS[getVargaSign(point.abs_pos, 9)]!.sign,
+  }))
+}
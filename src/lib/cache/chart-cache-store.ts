@@ -0,0 +1,145 @@
+/**
+ * Chart Cache Stores
+ *
+ * Storage backends for the server-side chart calculation cache in
+ * `chart-cache.ts`. Values are serialized API responses. The in-memory store
+ * is per process; the Postgres and Redis stores are shared between replicas.
+ *
+ * @module lib/cache/chart-cache-store
+ */
+import { prisma } from '@/lib/db/prisma'
+import type { RedisClient } from '@/lib/db/redis'
+import { logger } from '@/lib/logging/server'
+
+export interface ChartCacheStore {
+  /** Returns the cached value of `key`, or null when missing or expired */
+  get(key: string): Promise<string | null>
+  /** Caches `value` under `key` for `ttlMs` milliseconds */
+  set(key: string, value: string, ttlMs: number, chartType: string): Promise<void>
+}
+
+/** Interval between sweeps of expired entries */
+const CLEANUP_INTERVAL = 60 * 1000 // 1 minute
+
+// ============================================================================
+// IN-MEMORY STORE
+// ============================================================================
+
+interface MemoryCacheEntry {
+  value: string
+  expiresAt: number
+}
+
+/**
+ * Process-local least-recently-used cache, bounded by the total length of the
+ * cached values (chart SVGs make entries large).
+ */
+export class MemoryChartCacheStore implements ChartCacheStore {
+  // Map iteration order is insertion order: re-inserting on read keeps the
+  // least recently used entry first
+  private readonly entries = new Map<string, MemoryCacheEntry>()
+  private size = 0
+
+  /**
+   * @param maxSize - Maximum total length of cached values, in characters
+   */
+  constructor(private readonly maxSize: number) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+
+    this.entries.delete(key)
+    if (entry.expiresAt <= Date.now()) {
+      this.size -= entry.value.length
+      return null
+    }
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    if (value.length > this.maxSize) return
+
+    const previous = this.entries.get(key)
+    if (previous) {
+      this.entries.delete(key)
+      this.size -= previous.value.length
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+    this.size += value.length
+
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.size <= this.maxSize) break
+      this.entries.delete(oldestKey)
+      this.size -= oldest.value.length
+    }
+  }
+
+  /** Number of cached entries */
+  get count(): number {
+    return this.entries.size
+  }
+
+  /** Removes every entry */
+  clear(): void {
+    this.entries.clear()
+    this.size = 0
+  }
+}
+
+// ============================================================================
+// POSTGRES STORE
+// ============================================================================
+
+/**
+ * Store backed by the `ChartCacheEntry` table. Expired rows are swept at most
+ * once per cleanup interval per process.
+ */
+export class PrismaChartCacheStore implements ChartCacheStore {
+  private lastCleanup = 0
+
+  async get(key: string): Promise<string | null> {
+    const entry = await prisma.chartCacheEntry.findUnique({ where: { key } })
+    if (!entry || entry.expiresAt.getTime() <= Date.now()) return null
+    return entry.value
+  }
+
+  async set(key: string, value: string, ttlMs: number, chartType: string): Promise<void> {
+    const now = Date.now()
+    const data = { chartType, value, expiresAt: new Date(now + ttlMs) }
+    await prisma.chartCacheEntry.upsert({ where: { key }, create: { key, ...data }, update: data })
+
+    if (now - this.lastCleanup >= CLEANUP_INTERVAL) {
+      this.lastCleanup = now
+      prisma.chartCacheEntry
+        .deleteMany({ where: { expiresAt: { lt: new Date(now) } } })
+        .catch((error) => logger.warn('[ChartCache] Failed to delete expired entries:', error))
+    }
+  }
+}
+
+// ============================================================================
+// REDIS STORE
+// ============================================================================
+
+/** Store backed by Redis or any server speaking its protocol, expiring keys with PX */
+export class RedisChartCacheStore implements ChartCacheStore {
+  /**
+   * @param client - Redis connection
+   * @param prefix - Namespace for the keys of this application
+   */
+  constructor(
+    private readonly client: RedisClient,
+    private readonly prefix = 'astrologer-studio:chart:',
+  ) {}
+
+  async get(key: string): Promise<string | null> {
+    const value = await this.client.command('GET', `${this.prefix}${key}`)
+    return typeof value === 'string' ? value : null
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.client.command('SET', `${this.prefix}${key}`, value, 'PX', ttlMs)
+  }
+}
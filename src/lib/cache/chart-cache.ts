@@ -0,0 +1,281 @@
+/**
+ * Server-side Chart Calculation Cache
+ *
+ * Caches Astrologer API responses shared by every user and replica, so
+ * repeated renders of the same chart (or team members opening the same
+ * client) stop spending API quota. Unlike the IndexedDB caches next to it,
+ * this module runs on the server only.
+ *
+ * - Keys are a SHA-256 hash of the endpoint and the canonical request body
+ *   (subject and `ChartRequestOptions` with sorted keys), so property order
+ *   and undefined options don't split entries
+ * - Each endpoint maps to a chart type with its own TTL
+ * - Concurrent identical requests in a process share one API call
+ * - Hits and misses are counted per day and chart type for the admin panel,
+ *   in memory, and added to the database once per flush interval
+ *
+ * ## Environment Variables
+ * - `CHART_CACHE_STORE` - `memory`, `postgres`, `redis` or `off` (default: memory)
+ * - `CHART_CACHE_MEMORY_MB` - Size of the in-memory cache (default: 64)
+ * - `CHART_CACHE_TTL_<TYPE>` - TTL override in seconds, e.g. `CHART_CACHE_TTL_NATAL=86400`
+ *   (types: SUBJECT, NATAL, TRANSIT, SYNASTRY, COMPOSITE, NOW, SOLAR_RETURN, LUNAR_RETURN, CONTEXT)
+ *
+ * @module lib/cache/chart-cache
+ */
+import { createHash } from 'node:crypto'
+import { prisma } from '@/lib/db/prisma'
+import { getRedisClient } from '@/lib/db/redis'
+import { logger } from '@/lib/logging/server'
+import {
+  MemoryChartCacheStore,
+  PrismaChartCacheStore,
+  RedisChartCacheStore,
+  type ChartCacheStore,
+} from './chart-cache-store'
+
+// ============================================================================
+// TTL POLICY
+// ============================================================================
+
+const DAY = 24 * 60 * 60
+
+/** Chart types tracked by the cache, with their default TTL in seconds */
+const DEFAULT_TTLS = {
+  subject: 30 * DAY,
+  natal: 30 * DAY,
+  transit: 7 * DAY,
+  synastry: 30 * DAY,
+  composite: 30 * DAY,
+  // Calculated for the moment of the request: only absorbs bursts
+  now: 60,
+  'solar-return': 30 * DAY,
+  'lunar-return': 30 * DAY,
+  context: 30 * DAY,
+} as const
+
+export type ChartCacheType = keyof typeof DEFAULT_TTLS
+
+/** Chart type of each cached endpoint; other endpoints bypass the cache */
+const ENDPOINT_CHART_TYPES: Record<string, ChartCacheType> = {
+  '/subject': 'subject',
+  '/chart/birth-chart': 'natal',
+  '/chart/transit': 'transit',
+  '/chart-data/transit': 'transit',
+  '/chart/synastry': 'synastry',
+  '/chart/composite': 'composite',
+  '/now/chart': 'now',
+  '/chart/solar-return': 'solar-return',
+  '/chart/lunar-return': 'lunar-return',
+  '/context/subject': 'context',
+  '/context/birth-chart': 'context',
+  '/context/synastry': 'context',
+  '/context/transit': 'context',
+  '/context/composite': 'context',
+  '/context/solar-return': 'context',
+  '/context/lunar-return': 'context',
+}
+
+/**
+ * TTL of a chart type in seconds, from `CHART_CACHE_TTL_<TYPE>` or the default.
+ * Zero disables caching for the type.
+ */
+export function getChartCacheTtl(chartType: ChartCacheType): number {
+  const override = process.env[`CHART_CACHE_TTL_${chartType.toUpperCase().replace('-', '_')}`]
+  const seconds = override ? parseInt(override, 10) : NaN
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_TTLS[chartType]
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * Serializes a value as JSON with object keys sorted and undefined properties
+ * dropped, so equal requests serialize identically.
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, current: unknown) => {
+    if (!current || typeof current !== 'object' || Array.isArray(current)) return current
+    return Object.fromEntries(
+      Object.entries(current)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+    )
+  })
+}
+
+/** Cache key of an API request */
+export function getChartCacheKey(endpoint: string, body: unknown): string {
+  return createHash('sha256')
+    .update(`${endpoint}\n${canonicalJson(body ?? null)}`)
+    .digest('hex')
+}
+
+// ============================================================================
+// CACHE
+// ============================================================================
+
+/** How often counted hits and misses are written to the database */
+const STATS_FLUSH_INTERVAL_MS = 60 * 1000
+
+/** Hits and misses counted since the last flush for one day and chart type */
+interface PendingStats {
+  date: string
+  chartType: ChartCacheType
+  hits: number
+  misses: number
+}
+
+export interface ChartCacheOptions {
+  /** Count hits and misses in the database (default: true) */
+  trackStats?: boolean
+}
+
+/**
+ * Read-through cache for Astrologer API requests.
+ *
+ * @example
+ * ```ts
+ * const chart = await chartCache.getOrFetch('/chart/birth-chart', body, () => fetchChart(body))
+ * ```
+ */
+export class ChartCache {
+  private readonly inFlight = new Map<string, Promise<string>>()
+  private readonly trackStats: boolean
+  private pendingStats = new Map<string, PendingStats>()
+  private flushTimer: NodeJS.Timeout | null = null
+
+  constructor(
+    private readonly store: ChartCacheStore,
+    options: ChartCacheOptions = {},
+  ) {
+    this.trackStats = options.trackStats ?? true
+  }
+
+  /**
+   * Returns the cached response of a request, or fetches and caches it.
+   * Requests to endpoints without a chart type, or with a TTL of zero, are
+   * passed through. Store failures are logged and treated as misses.
+   *
+   * @param endpoint - API endpoint path
+   * @param body - Request body
+   * @param fetcher - Performs the API request on a miss
+   * @returns A fresh copy of the response for each caller
+   */
+  async getOrFetch<T>(endpoint: string, body: unknown, fetcher: () => Promise<T>): Promise<T> {
+    const chartType = ENDPOINT_CHART_TYPES[endpoint]
+    const ttlSeconds = chartType ? getChartCacheTtl(chartType) : 0
+    if (!chartType || ttlSeconds === 0) return fetcher()
+
+    const key = getChartCacheKey(endpoint, body)
+
+    // Stampede protection: identical concurrent requests wait for the same lookup
+    let pending = this.inFlight.get(key)
+    if (pending) {
+      this.recordLookup(chartType, true)
+    } else {
+      pending = this.lookup(key, chartType, ttlSeconds * 1000, fetcher).finally(() => this.inFlight.delete(key))
+      this.inFlight.set(key, pending)
+    }
+
+    // Each caller parses its own copy, so callers may mutate the response
+    return JSON.parse(await pending) as T
+  }
+
+  /**
+   * Writes the hits and misses counted since the last flush, one upsert per
+   * day and chart type. Failures are logged and the counts dropped.
+   */
+  async flushStats(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    const pending = [...this.pendingStats.values()]
+    this.pendingStats = new Map()
+
+    await Promise.all(
+      pending.map(({ date, chartType, hits, misses }) =>
+        prisma.chartCacheStats
+          .upsert({
+            where: { date_chartType: { date, chartType } },
+            update: { hits: { increment: hits }, misses: { increment: misses } },
+            create: { date, chartType, hits, misses },
+          })
+          .catch((error) => logger.warn('[ChartCache] Failed to record cache statistics:', error)),
+      ),
+    )
+  }
+
+  /**
+   * Counts a cache lookup for today (UTC) and schedules a flush
+   */
+  private recordLookup(chartType: ChartCacheType, hit: boolean): void {
+    if (!this.trackStats) return
+
+    const date = new Date().toISOString().split('T')[0]!
+    const key = `${date}:${chartType}`
+    const stats = this.pendingStats.get(key) ?? { date, chartType, hits: 0, misses: 0 }
+    if (hit) stats.hits++
+    else stats.misses++
+    this.pendingStats.set(key, stats)
+
+    if (this.flushTimer) return
+    this.flushTimer = setTimeout(() => void this.flushStats(), STATS_FLUSH_INTERVAL_MS)
+    // Don't keep the process alive just for statistics
+    this.flushTimer.unref?.()
+  }
+
+  private async lookup<T>(
+    key: string,
+    chartType: ChartCacheType,
+    ttlMs: number,
+    fetcher: () => Promise<T>,
+  ): Promise<string> {
+    const cached = await this.store.get(key).catch((error) => {
+      logger.warn('[ChartCache] Cache read failed:', error)
+      return null
+    })
+    this.recordLookup(chartType, cached !== null)
+    if (cached !== null) {
+      logger.debug(`[ChartCache] Hit for ${chartType}`)
+      return cached
+    }
+
+    const value = JSON.stringify(await fetcher())
+    await this.store.set(key, value, ttlMs, chartType).catch((error) => {
+      logger.warn('[ChartCache] Cache write failed:', error)
+    })
+    return value
+  }
+}
+
+/**
+ * Creates the cache configured by `CHART_CACHE_STORE`, or null when disabled.
+ */
+function createChartCache(): ChartCache | null {
+  const kind = process.env.CHART_CACHE_STORE || 'memory'
+  try {
+    switch (kind) {
+      case 'off':
+        return null
+      case 'postgres':
+        return new ChartCache(new PrismaChartCacheStore())
+      case 'redis':
+        return new ChartCache(new RedisChartCacheStore(getRedisClient()))
+      default: {
+        if (kind !== 'memory') logger.warn(`[ChartCache] Unknown CHART_CACHE_STORE "${kind}", using memory`)
+        const megabytes = parseInt(process.env.CHART_CACHE_MEMORY_MB || '64', 10)
+        return new ChartCache(new MemoryChartCacheStore(megabytes * 1024 * 1024))
+      }
+    }
+  } catch (error) {
+    logger.error('[ChartCache] Failed to create the chart cache, caching disabled:', error)
+    return null
+  }
+}
+
+/**
+ * Shared cache used by the Astrologer API client singleton
+ */
+export const chartCache = createChartCache()
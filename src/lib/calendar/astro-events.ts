@@ -0,0 +1,117 @@
+/**
+ * Calendar entries for transit and sky events
+ *
+ * Turns timeline events (one entry per exact hit) and sky events into
+ * iCalendar events. Descriptions repeat the times in the owner's time zone.
+ *
+ * @module lib/calendar/astro-events
+ */
+
+import type { TransitEvent } from '@/lib/astrology/transit-timeline'
+import { formatPlanetName } from '@/lib/astrology/planet-formatting'
+import type { SkyEvent } from '@/lib/ephemeris/sky-events'
+import { formatSignPosition, getSkyEventSummary } from '@/lib/ephemeris/sky-event-labels'
+import type { IcsEvent } from './ics'
+
+export interface CalendarEventOptions {
+  /** IANA time zone used for the times in descriptions */
+  timezone: string
+  /** Domain appended to UIDs, e.g. the application host */
+  uidDomain: string
+}
+
+export interface TransitCalendarOptions extends CalendarEventOptions {
+  /** Subject whose natal chart is transited; keeps UIDs distinct between subjects */
+  subjectId: string
+  /** Prefixed to summaries when set, e.g. "Jane: Saturn conjunction natal Sun" */
+  subjectName?: string
+}
+
+/**
+ * Format an instant in a time zone, e.g. "8 Apr 2024, 14:18 (Europe/Rome)"
+ */
+export function formatInTimeZone(date: Date | string, timezone: string): string {
+  const formatted = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(new Date(date))
+  return `${formatted} (${timezone})`
+}
+
+/**
+ * One calendar event per exact hit. Events that never perfect in the range have no entry.
+ */
+export function transitEventsToIcs(events: TransitEvent[], options: TransitCalendarOptions): IcsEvent[] {
+  const { timezone, uidDomain, subjectId, subjectName } = options
+
+  return events.flatMap((event) => {
+    const title = `${formatPlanetName(event.transitPoint)} ${event.aspect} natal ${formatPlanetName(event.natalPoint)}`
+    const orbLines = [
+      event.start ? `Enters orb: ${formatInTimeZone(event.start, timezone)}` : 'In orb from before the range',
+      event.end ? `Leaves orb: ${formatInTimeZone(event.end, timezone)}` : 'Still in orb after the range',
+      `Orb: ${event.orb}°`,
+    ]
+
+    return event.exactHits.map((hit, index) => ({
+      uid: `transit:${subjectId}:${event.transitPoint}:${event.aspect}:${event.natalPoint}:${hit.date.slice(0, 10)}@${uidDomain}`,
+      start: new Date(hit.date),
+      summary: `${subjectName ? `${subjectName}: ` : ''}${title}${hit.retrograde ? ' ℞' : ''}`,
+      description: [
+        `Exact: ${formatInTimeZone(hit.date, timezone)}${event.exactHits.length > 1 ? ` (pass ${index + 1} of ${event.exactHits.length})` : ''}`,
+        ...orbLines,
+      ].join('\n'),
+      categories: ['Transit'],
+    }))
+  })
+}
+
+const SKY_EVENT_CATEGORY_NAMES: Record<SkyEvent['type'], string> = {
+  'new-moon': 'Lunation',
+  'full-moon': 'Lunation',
+  'solar-eclipse': 'Eclipse',
+  'lunar-eclipse': 'Eclipse',
+  ingress: 'Ingress',
+  'station-retrograde': 'Station',
+  'station-direct': 'Station',
+  'void-of-course': 'Void of Course',
+}
+
+/**
+ * One calendar event per sky event
+ */
+export function skyEventsToIcs(events: SkyEvent[], options: CalendarEventOptions): IcsEvent[] {
+  const { timezone, uidDomain } = options
+
+  return events.map((event) => {
+    const lines =
+      event.type === 'void-of-course'
+        ? [
+            `Begins: ${formatInTimeZone(event.date, timezone)}`,
+            `Ends: ${formatInTimeZone(event.endDate ?? event.date, timezone)}`,
+            event.lastAspect
+              ? `Last aspect: Moon ${event.lastAspect.aspect} ${formatPlanetName(event.lastAspect.point)}`
+              : 'No aspect in this sign',
+          ]
+        : [
+            `${event.eclipse ? 'Greatest eclipse' : 'Exact'}: ${formatInTimeZone(event.date, timezone)}`,
+            `${formatPlanetName(event.point)} at ${formatSignPosition(event.longitude, event.sign)}`,
+          ]
+    if (event.eclipse) {
+      lines.push(`Magnitude: ${event.eclipse.magnitude.toFixed(3)}`, `Saros: ${event.eclipse.saros}`)
+    }
+
+    return {
+      uid: `${event.id}@${uidDomain}`,
+      start: new Date(event.date),
+      ...(event.endDate && { end: new Date(event.endDate) }),
+      summary: getSkyEventSummary(event),
+      description: lines.join('\n'),
+      categories: [SKY_EVENT_CATEGORY_NAMES[event.type]],
+    }
+  })
+}
@@ -0,0 +1,66 @@
+import type { SkyEventCategory } from '@/lib/ephemeris/sky-events'
+
+/**
+ * Kinds of events a calendar can hold: transits to a natal chart, and sky events
+ */
+export type CalendarEventCategory = 'transits' | SkyEventCategory
+
+/**
+ * Calendar feed as shown to its owner. The token is never stored, so it is not part of the summary.
+ */
+export interface CalendarFeedSummary {
+  id: string
+  /** Subject whose transits are included; null for a feed of sky events only */
+  subjectId: string | null
+  subjectName: string | null
+  /** IANA time zone of the times in event descriptions */
+  timezone: string
+  categories: CalendarEventCategory[]
+  lastFetchedAt: Date | null
+  createdAt: Date
+}
+
+/**
+ * Event kinds offered in exports and feeds, in display order
+ */
+export const CALENDAR_EVENT_CATEGORIES: { value: CalendarEventCategory; label: string }[] = [
+  { value: 'transits', label: 'Transits' },
+  { value: 'lunations', label: 'New & Full Moons' },
+  { value: 'eclipses', label: 'Eclipses' },
+  { value: 'ingresses', label: 'Sign Ingresses' },
+  { value: 'stations', label: 'Stations' },
+  { value: 'void-of-course', label: 'Void-of-Course Moon' },
+]
+
+/** Days before today covered by the feed */
+export const CALENDAR_FEED_PAST_DAYS = 30
+
+/** Days after today covered by the feed */
+export const CALENDAR_FEED_FUTURE_DAYS = 180
+
+/** Refresh interval suggested to calendar apps, in hours */
+export const CALENDAR_FEED_REFRESH_HOURS = 12
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Start and end of the range covered by a feed fetched at `now`
+ */
+export function getCalendarFeedRange(now: Date = new Date()): { startDate: Date; endDate: Date } {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  return {
+    startDate: new Date(today - CALENDAR_FEED_PAST_DAYS * DAY_MS),
+    endDate: new Date(today + CALENDAR_FEED_FUTURE_DAYS * DAY_MS),
+  }
+}
+
+/**
+ * Calendar file name for a subject or feed name, e.g. "jane_doe_transits.ics"
+ */
+export function getCalendarFileName(name: string): string {
+  const base = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+  return `${base || 'calendar'}.ics`
+}
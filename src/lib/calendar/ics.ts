@@ -0,0 +1,143 @@
+/**
+ * iCalendar (RFC 5545) writer
+ *
+ * Produces calendars of timed events that calendar apps can import or
+ * subscribe to. Times are written in UTC, so the calendar app shows them in
+ * the viewer's zone; the calendar's own time zone is declared with
+ * X-WR-TIMEZONE for apps that use it as a default.
+ *
+ * @module lib/calendar/ics
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface IcsEvent {
+  /** Globally unique and stable across exports, so re-imports update instead of duplicating */
+  uid: string
+  start: Date
+  /** End of the event; instant events have none */
+  end?: Date
+  summary: string
+  description?: string
+  categories?: string[]
+}
+
+export interface IcsCalendar {
+  /** Calendar name shown by calendar apps (X-WR-CALNAME) */
+  name: string
+  /** IANA time zone of the calendar owner (X-WR-TIMEZONE) */
+  timezone?: string
+  /** Suggested refresh interval for subscriptions, in hours */
+  refreshHours?: number
+  events: IcsEvent[]
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ICS_MIME_TYPE = 'text/calendar; charset=utf-8'
+
+const PRODUCT_ID = '-//Astrologer Studio//Astrology Calendar//EN'
+
+/** Longest content line in octets, excluding the line break */
+const MAX_LINE_OCTETS = 75
+
+const encoder = new TextEncoder()
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Escape a TEXT value: backslashes, semicolons, commas and line breaks
+ */
+export function escapeIcsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets, continued with a leading space.
+ * Multi-byte characters (e.g. planet glyphs) are never split.
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let currentOctets = 0
+  // Continuation lines start with a space, which counts toward their length
+  let limit = MAX_LINE_OCTETS
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length
+    if (currentOctets + octets > limit) {
+      parts.push(current)
+      current = ''
+      currentOctets = 0
+      limit = MAX_LINE_OCTETS - 1
+    }
+    current += char
+    currentOctets += octets
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+/**
+ * Format an instant as an iCalendar UTC date-time, e.g. 20240408T181800Z
+ */
+export function formatIcsDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/\.\d{3}Z$/, 'Z')
+    .replace(/[-:]/g, '')
+}
+
+// ============================================================================
+// Writer
+// ============================================================================
+
+/**
+ * Write a calendar as an iCalendar document with CRLF line endings
+ *
+ * @param calendar - Calendar name, owner time zone and events
+ * @param now - Timestamp written as DTSTAMP (default: current time)
+ */
+export function buildIcsCalendar(calendar: IcsCalendar, now: Date = new Date()): string {
+  const stamp = formatIcsDateTime(now)
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendar.name)}`,
+  ]
+  if (calendar.timezone) {
+    lines.push(`X-WR-TIMEZONE:${calendar.timezone}`)
+  }
+  if (calendar.refreshHours) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshHours}H`)
+    lines.push(`X-PUBLISHED-TTL:PT${calendar.refreshHours}H`)
+  }
+
+  for (const event of calendar.events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`, `DTSTART:${formatIcsDateTime(event.start)}`)
+    if (event.end) {
+      lines.push(`DTEND:${formatIcsDateTime(event.end)}`)
+    }
+    lines.push(`SUMMARY:${escapeIcsText(event.summary)}`)
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`)
+    }
+    if (event.categories?.length) {
+      lines.push(`CATEGORIES:${event.categories.map(escapeIcsText).join(',')}`)
+    }
+    lines.push('TRANSP:TRANSPARENT', 'END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,92 @@
+/**
+ * Server-side calendar feed content
+ *
+ * Feeds are computed with the local ephemeris: calendar apps refresh them
+ * unattended, and a transit search needs far more positions than the
+ * Astrologer API should serve per refresh. Aspects do not depend on the
+ * zodiac, so transits in sidereal charts are the same; sign ingresses are
+ * tropical.
+ *
+ * @module lib/calendar/server
+ */
+
+import { createHash } from 'crypto'
+import { findTransitEvents, subjectToPositions, type TimelineAspectConfig } from '@/lib/astrology/transit-timeline'
+import { calculateLocalSubject, getLocalPointPositions } from '@/lib/ephemeris/local-backend'
+import { findSkyEvents, type SkyEventCategory } from '@/lib/ephemeris/sky-events'
+import type { SubjectModel } from '@/types/astrology'
+import { skyEventsToIcs, transitEventsToIcs } from './astro-events'
+import type { CalendarEventCategory } from './feed'
+import type { IcsEvent } from './ics'
+
+export interface CalendarEventsOptions {
+  startDate: Date
+  endDate: Date
+  categories: CalendarEventCategory[]
+  /** IANA time zone used for the times in descriptions */
+  timezone: string
+  /** Active points of the user's chart preferences */
+  activePoints: string[]
+  /** Active aspects (with orbs) of the user's chart preferences */
+  activeAspects: TimelineAspectConfig[]
+  /** Natal chart transited by the planets; transits are left out without one */
+  natal?: { subjectId: string; name: string; subject: SubjectModel }
+  uidDomain: string
+}
+
+/**
+ * SHA-256 hash of a feed token, the only form in which tokens are stored
+ */
+export function hashCalendarFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Calendar events of the selected categories, computed with the local ephemeris
+ *
+ * Only the active points are tracked: they are both the transiting planets
+ * (angles and the Moon excepted) and the natal targets.
+ */
+export async function buildCalendarEvents(options: CalendarEventsOptions): Promise<IcsEvent[]> {
+  const { startDate, endDate, categories, timezone, activePoints, activeAspects, natal, uidDomain } = options
+  const events: IcsEvent[] = []
+
+  if (natal && categories.includes('transits') && activeAspects.length > 0) {
+    const natalPositions = subjectToPositions(
+      calculateLocalSubject({ ...natal.subject, zodiac_type: 'Tropical', perspective_type: 'Apparent Geocentric' }),
+    )
+    const natalTargets = Object.fromEntries(
+      Object.entries(natalPositions).filter(([name]) => activePoints.includes(name)),
+    )
+    // The Moon's transits come several times a day; it stays a natal target
+    const transitPoints = Object.keys(getLocalPointPositions(startDate, activePoints)).filter((name) => name !== 'Moon')
+
+    const timeline = await findTransitEvents({
+      provider: async (time) => getLocalPointPositions(time, transitPoints),
+      natalPositions: natalTargets,
+      transitPoints,
+      aspects: activeAspects,
+      startDate,
+      endDate,
+      concurrency: 1,
+    })
+    events.push(
+      ...transitEventsToIcs(timeline.events, {
+        timezone,
+        uidDomain,
+        subjectId: natal.subjectId,
+        subjectName: natal.name,
+      }),
+    )
+  }
+
+  const skyCategories = categories.filter((category): category is SkyEventCategory => category !== 'transits')
+  if (skyCategories.length > 0) {
+    // Moon ingresses come every two and a half days and would flood the calendar
+    const points = activePoints.filter((name) => name !== 'Moon')
+    const skyEvents = findSkyEvents({ startDate, endDate, categories: skyCategories, points })
+    events.push(...skyEventsToIcs(skyEvents, { timezone, uidDomain }))
+  }
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime())
+}
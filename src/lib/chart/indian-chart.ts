@@ -0,0 +1,152 @@
+import { ZODIAC_SIGNS } from '@/lib/astrology/celestial-points'
+import type { VargaChart } from '@/lib/astrology/vedic'
+
+export type IndianChartLayout = 'south_indian' | 'north_indian'
+
+export interface IndianChartOptions {
+  chart: VargaChart
+  layout: IndianChartLayout
+  /** Width and height of the SVG in pixels */
+  size?: number
+}
+
+const VIEWBOX = 400
+const LINE_HEIGHT = 14
+/** Labels per line inside a cell */
+const LABELS_PER_LINE = 3
+
+/**
+ * South Indian cells as [column, row] for each sign from Aries: the signs are
+ * fixed, running clockwise from Pisces in the top-left corner.
+ */
+const SOUTH_CELLS: [number, number][] = [
+  [1, 0],
+  [2, 0],
+  [3, 0],
+  [3, 1],
+  [3, 2],
+  [3, 3],
+  [2, 3],
+  [1, 3],
+  [0, 3],
+  [0, 2],
+  [0, 1],
+  [0, 0],
+]
+
+/**
+ * North Indian label anchors for each house from the 1st, in eighths of the
+ * chart: the houses are fixed, running counter-clockwise from the top diamond.
+ */
+const NORTH_ANCHORS: [number, number][] = [
+  [4, 2],
+  [2, 1],
+  [1, 2],
+  [2, 4],
+  [1, 6],
+  [2, 7],
+  [4, 6],
+  [6, 7],
+  [7, 6],
+  [6, 4],
+  [7, 2],
+  [6, 1],
+]
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function text(x: number, y: number, content: string, attributes: string): string {
+  return `<text x="${x}" y="${y}" text-anchor="middle" dominant-baseline="central" ${attributes}>${escapeXml(content)}</text>`
+}
+
+/** Placement labels of each sign, retrograde points marked */
+function labelsBySign(chart: VargaChart): string[][] {
+  const labels: string[][] = Array.from({ length: 12 }, () => [])
+  for (const placement of chart.placements) {
+    labels[placement.sign]!.push(placement.retrograde ? `${placement.label}℞` : placement.label)
+  }
+  return labels
+}
+
+/** Labels stacked in lines around a centre point */
+function labelBlock(x: number, y: number, labels: string[], attributes: string): string {
+  const lines: string[] = []
+  for (let i = 0; i < labels.length; i += LABELS_PER_LINE) {
+    lines.push(labels.slice(i, i + LABELS_PER_LINE).join(' '))
+  }
+  const top = y - ((lines.length - 1) * LINE_HEIGHT) / 2
+  return lines.map((line, i) => text(x, top + i * LINE_HEIGHT, line, attributes)).join('')
+}
+
+function renderSouthIndian(chart: VargaChart): string[] {
+  const cell = VIEWBOX / 4
+  const labels = labelsBySign(chart)
+  const parts: string[] = []
+
+  SOUTH_CELLS.forEach(([column, row], sign) => {
+    const x = column * cell
+    const y = row * cell
+    parts.push(
+      `<rect x="${x}" y="${y}" width="${cell}" height="${cell}" fill="none" stroke="currentColor"/>`,
+      `<text x="${x + 4}" y="${y + 12}" font-size="10" fill="currentColor" fill-opacity="0.6">${ZODIAC_SIGNS[sign]!.sign}</text>`,
+    )
+    // The Lagna is marked by a diagonal across the corner of its sign
+    if (sign === chart.ascendantSign) {
+      parts.push(
+        `<line x1="${x + cell - 24}" y1="${y}" x2="${x + cell}" y2="${y + 24}" stroke="currentColor" stroke-width="2"/>`,
+      )
+    }
+    const signLabels = sign === chart.ascendantSign ? ['Asc', ...labels[sign]!] : labels[sign]!
+    parts.push(labelBlock(x + cell / 2, y + cell / 2 + 4, signLabels, 'font-size="13" fill="currentColor"'))
+  })
+
+  parts.push(
+    text(VIEWBOX / 2, VIEWBOX / 2 - 10, chart.varga.code, 'font-size="22" font-weight="bold" fill="currentColor"'),
+    text(VIEWBOX / 2, VIEWBOX / 2 + 14, chart.varga.name, 'font-size="14" fill="currentColor"'),
+  )
+  return parts
+}
+
+function renderNorthIndian(chart: VargaChart): string[] {
+  const size = VIEWBOX
+  const half = size / 2
+  const eighth = size / 8
+  const labels = labelsBySign(chart)
+  const parts = [
+    `<rect x="0" y="0" width="${size}" height="${size}" fill="none" stroke="currentColor"/>`,
+    `<line x1="0" y1="0" x2="${size}" y2="${size}" stroke="currentColor"/>`,
+    `<line x1="${size}" y1="0" x2="0" y2="${size}" stroke="currentColor"/>`,
+    `<polygon points="${half},0 ${size},${half} ${half},${size} 0,${half}" fill="none" stroke="currentColor"/>`,
+  ]
+
+  NORTH_ANCHORS.forEach(([column, row], house) => {
+    const sign = (chart.ascendantSign + house) % 12
+    const x = column * eighth
+    const y = row * eighth
+    const houseLabels = house === 0 ? ['Asc', ...labels[sign]!] : labels[sign]!
+    // Sign numbers sit near the inner corner of each house: the centre for the
+    // diamonds, the corner of the inner square for the triangles
+    const corner = (value: number) => (house % 3 === 0 ? 4 : value < 4 ? 2 : 6)
+    const numberX = x + (corner(column) * eighth - x) * 0.6
+    const numberY = y + (corner(row) * eighth - y) * 0.6
+    parts.push(
+      text(numberX, numberY, String(sign + 1), 'font-size="11" fill="currentColor" fill-opacity="0.6"'),
+      labelBlock(x, y, houseLabels, 'font-size="12" fill="currentColor"'),
+    )
+  })
+  return parts
+}
+
+/**
+ * Renders a divisional chart in the South or North Indian square layout as an
+ * SVG string. Like the wheel, it draws in `currentColor`, following the page
+ * theme on screen and printing black in PDF exports.
+ */
+export function renderIndianChartSvg({ chart, layout, size = VIEWBOX }: IndianChartOptions): string {
+  const parts = layout === 'south_indian' ? renderSouthIndian(chart) : renderNorthIndian(chart)
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="-1 -1 ${VIEWBOX + 2} ${VIEWBOX + 2}" font-family="sans-serif"><title>${escapeXml(
+    `${chart.varga.code} ${chart.varga.name}`,
+  )}</title>${parts.join('')}</svg>`
+}
@@ -0,0 +1,173 @@
+import { getPlanetIcon } from '@/lib/astrology/celestial-points'
+import { getDialPosition, type MidpointDial, type MidpointSource } from '@/lib/astrology/midpoints'
+
+export interface DialPoint {
+  name: string
+  longitude: number
+  source: MidpointSource
+}
+
+export interface MidpointDialOptions {
+  points: DialPoint[]
+  /** Modulus of the dial (default: 90) */
+  dial?: MidpointDial
+  /** Longitude the pointer is set to: its axis and the points on it are highlighted */
+  pointer?: number
+  /** Orb of the points highlighted on the pointer axis */
+  orb?: number
+  /** Width and height of the SVG in pixels */
+  size?: number
+}
+
+const VIEWBOX = 500
+const CENTER = VIEWBOX / 2
+const DIAL_OUTER = 200
+const DIAL_INNER = 185
+const NATAL_RADIUS = 160
+const TRANSIT_RADIUS = 232
+/** Minimum angle between glyphs on the same ring, in degrees of the circle */
+const MIN_GLYPH_GAP = 7
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function round(value: number): string {
+  return value.toFixed(2)
+}
+
+/**
+ * Screen coordinates of a dial position, 0° at the top and increasing
+ * counter-clockwise, as on a printed Uranian dial.
+ */
+function polar(position: number, radius: number, dial: number): [number, number] {
+  const angle = ((90 + (position * 360) / dial) * Math.PI) / 180
+  return [CENTER + radius * Math.cos(angle), CENTER - radius * Math.sin(angle)]
+}
+
+function line(a: [number, number], b: [number, number], attributes: string): string {
+  return `<line x1="${round(a[0])}" y1="${round(a[1])}" x2="${round(b[0])}" y2="${round(b[1])}" ${attributes}/>`
+}
+
+function text(at: [number, number], content: string, attributes: string): string {
+  return `<text x="${round(at[0])}" y="${round(at[1])}" text-anchor="middle" dominant-baseline="central" ${attributes}>${escapeXml(content)}</text>`
+}
+
+/** Angular distance between two dial positions */
+function dialDistance(a: number, b: number, dial: number): number {
+  const d = Math.abs(a - b) % dial
+  return Math.min(d, dial - d)
+}
+
+/**
+ * Display angles (in circle degrees) that keep glyphs from overlapping,
+ * each glyph moved as little as possible from its true position.
+ */
+function spreadAngles(angles: number[]): number[] {
+  const display = [...angles]
+  for (let pass = 0; pass < 3; pass++) {
+    for (let i = 1; i < display.length; i++) {
+      if (display[i]! - display[i - 1]! < MIN_GLYPH_GAP) display[i] = display[i - 1]! + MIN_GLYPH_GAP
+    }
+  }
+  return display
+}
+
+/**
+ * Renders a midpoint dial (360°, 90° or 45°) as an SVG string, natal points
+ * inside the scale and transits outside. Like the wheel, it draws in
+ * `currentColor`, following the page theme on screen.
+ */
+export function renderMidpointDialSvg({
+  points,
+  dial = 90,
+  pointer,
+  orb = 1.5,
+  size = VIEWBOX,
+}: MidpointDialOptions): string {
+  const parts: string[] = [
+    `<circle cx="${CENTER}" cy="${CENTER}" r="${DIAL_OUTER}" fill="none" stroke="currentColor"/>`,
+    `<circle cx="${CENTER}" cy="${CENTER}" r="${DIAL_INNER}" fill="none" stroke="currentColor" stroke-opacity="0.5"/>`,
+  ]
+
+  // Scale: a tick per degree (per 5° on the whole zodiac), labelled every 5° (every 30° on the whole zodiac)
+  const tickStep = dial === 360 ? 5 : 1
+  const labelStep = dial === 360 ? 30 : 5
+  for (let degree = 0; degree < dial; degree += tickStep) {
+    const major = degree % labelStep === 0
+    parts.push(
+      line(
+        polar(degree, DIAL_OUTER, dial),
+        polar(degree, major ? DIAL_INNER : DIAL_OUTER - 6, dial),
+        `stroke="currentColor" stroke-opacity="${major ? 1 : 0.5}"`,
+      ),
+    )
+    if (major) {
+      parts.push(
+        text(
+          polar(degree, DIAL_OUTER + 10, dial),
+          String(degree),
+          'font-size="9" fill="currentColor" fill-opacity="0.6"',
+        ),
+      )
+    }
+  }
+
+  // Cardinal, fixed and mutable thirds of the 90° dial
+  if (dial === 90) {
+    ;['Cardinal', 'Fixed', 'Mutable'].forEach((label, index) => {
+      parts.push(
+        line(
+          polar(index * 30, DIAL_INNER, dial),
+          polar(index * 30, 40, dial),
+          'stroke="currentColor" stroke-opacity="0.2"',
+        ),
+        text(polar(index * 30 + 15, 60, dial), label, 'font-size="10" fill="currentColor" fill-opacity="0.5"'),
+      )
+    })
+  }
+
+  // Pointer: on the whole zodiac an axis through both ends, since the opposition is a hit;
+  // on the harmonic dials the hard aspects already fall on the pointer itself
+  const pointerPosition = pointer === undefined ? undefined : getDialPosition(pointer, dial)
+  const pointerModulus = dial === 360 ? 180 : dial
+  if (pointerPosition !== undefined) {
+    parts.push(
+      line(
+        polar(pointerPosition, DIAL_OUTER, dial),
+        dial === 360 ? polar(pointerPosition + 180, DIAL_OUTER, dial) : [CENTER, CENTER],
+        'stroke="#f59e0b" stroke-width="1.5"',
+      ),
+      `<circle cx="${round(polar(pointerPosition, DIAL_OUTER, dial)[0])}" cy="${round(polar(pointerPosition, DIAL_OUTER, dial)[1])}" r="4" fill="#f59e0b"/>`,
+    )
+  }
+
+  // Points, one ring per source
+  for (const source of ['natal', 'transit'] as const) {
+    const ringPoints = points
+      .filter((point) => point.source === source)
+      .map((point) => ({ ...point, position: getDialPosition(point.longitude, dial) }))
+      .sort((a, b) => a.position - b.position)
+    const radius = source === 'natal' ? NATAL_RADIUS : TRANSIT_RADIUS
+    const tickFrom = source === 'natal' ? DIAL_INNER : DIAL_OUTER
+    const tickTo = source === 'natal' ? DIAL_INNER - 8 : DIAL_OUTER + 4
+    const display = spreadAngles(ringPoints.map((point) => (point.position * 360) / dial))
+
+    ringPoints.forEach((point, i) => {
+      const onPointer =
+        pointerPosition !== undefined && dialDistance(point.position, pointerPosition, pointerModulus) <= orb
+      const fill = onPointer ? '#f59e0b' : 'currentColor'
+      const glyph = getPlanetIcon(point.name)
+      parts.push(
+        line(polar(point.position, tickFrom, dial), polar(point.position, tickTo, dial), `stroke="${fill}"`),
+        `<g><title>${escapeXml(`${source === 'natal' ? 'Natal' : 'Transit'} ${point.name} ${point.position.toFixed(1)}°`)}</title>${text(
+          polar((display[i]! * dial) / 360, radius, dial),
+          glyph,
+          `font-size="${glyph.length > 1 ? 10 : 16}" fill="${fill}"${source === 'transit' ? ' fill-opacity="0.8"' : ''}`,
+        )}</g>`,
+      )
+    })
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${VIEWBOX} ${VIEWBOX}" font-family="sans-serif"><title>${dial}° dial</title>${parts.join('')}</svg>`
+}
@@ -0,0 +1,64 @@
+import type { SavedChartDataResult } from '@/actions/saved-charts'
+
+/**
+ * Lifecycle state of a chart share link
+ */
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked'
+
+/**
+ * Chart data captured when a share link is created.
+ * Public viewers are served this snapshot instead of a fresh calculation,
+ * so the saved chart parameters (and the subject IDs in them) never leave the server.
+ */
+export type SharedChartSnapshot = Omit<Extract<SavedChartDataResult, { success: true }>, 'success'>
+
+/**
+ * Share link as listed to its owner. The token itself is never stored, so it is not part of the summary.
+ */
+export interface ShareLinkSummary {
+  id: string
+  status: ShareLinkStatus
+  includeNotes: boolean
+  hasPassword: boolean
+  expiresAt: Date | null
+  revokedAt: Date | null
+  viewCount: number
+  lastViewedAt: Date | null
+  createdAt: Date
+}
+
+/**
+ * Expiry choices offered when creating a link, in days (null = never expires)
+ */
+export const SHARE_LINK_EXPIRY_OPTIONS = [
+  { label: 'Never', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+] as const
+
+/** Longest expiry accepted by the server, in days */
+export const MAX_SHARE_LINK_EXPIRY_DAYS = 365
+
+/**
+ * Compute the expiry date of a link created at `now`
+ *
+ * @param days - Lifetime in days, or null for a link that never expires
+ */
+export function getShareLinkExpiry(days: number | null | undefined, now: Date = new Date()): Date | null {
+  if (!days) return null
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Resolve the status of a share link. Revocation wins over expiry.
+ */
+export function getShareLinkStatus(
+  link: { expiresAt: Date | null; revokedAt: Date | null },
+  now: Date = new Date(),
+): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked'
+  if (link.expiresAt && link.expiresAt.getTime() <= now.getTime()) return 'expired'
+  return 'active'
+}
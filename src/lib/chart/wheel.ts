@@ -0,0 +1,298 @@
+import type { Aspect, EnrichedSubjectModel, Point } from '@/types/astrology'
+import { isPointKey } from '@/types/astrology'
+import { getPlanetIcon } from '@/lib/astrology/celestial-points'
+import { isMajorAspect } from '@/lib/astrology/aspects'
+import { normalizeDegrees } from '@/lib/astrology/transit-timeline'
+import { ASPECT_PATTERN_COLORS, type AspectPattern } from '@/lib/astrology/aspect-patterns'
+
+/**
+ * One ring of a chart wheel. The first ring is drawn innermost and provides the houses.
+ */
+export interface WheelRing {
+  subject: EnrichedSubjectModel
+  /** Legend label, e.g. "Natal" or "Solar Arc" */
+  label: string
+}
+
+/**
+ * Fixed star marked on the zodiac band
+ */
+export interface WheelStar {
+  name: string
+  /** Longitude in the zodiac of the chart */
+  longitude: number
+}
+
+export interface ChartWheelOptions {
+  rings: WheelRing[]
+  /** Aspects drawn in the centre, between any two rings */
+  aspects?: Aspect[]
+  /** Point names to draw (API names); all points when omitted */
+  activePoints?: string[]
+  /** Aspect patterns of the innermost ring, drawn as highlighted shapes behind the aspect lines */
+  patterns?: AspectPattern[]
+  /** Fixed stars, marked with ★ along the inner edge of the zodiac band */
+  stars?: WheelStar[]
+  /** Width and height of the SVG in pixels */
+  size?: number
+}
+
+const VIEWBOX = 600
+const CENTER = VIEWBOX / 2
+const ZODIAC_OUTER = 290
+const ZODIAC_INNER = 255
+const ASPECT_RADIUS = 120
+/** Minimum angular distance between glyphs on the same ring */
+const MIN_GLYPH_GAP = 6
+
+const SIGN_GLYPHS = ['♈', '♉', '♊', '♋', '♌', '♍', '♎', '♏', '♐', '♑', '♒', '♓']
+
+const ASPECT_STROKES: Record<string, string> = {
+  conjunction: '#3b82f6',
+  opposition: '#ef4444',
+  square: '#ef4444',
+  trine: '#22c55e',
+  sextile: '#22c55e',
+}
+
+const HOUSE_KEYS = [
+  'first_house',
+  'second_house',
+  'third_house',
+  'fourth_house',
+  'fifth_house',
+  'sixth_house',
+  'seventh_house',
+  'eighth_house',
+  'ninth_house',
+  'tenth_house',
+  'eleventh_house',
+  'twelfth_house',
+] as const
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function round(value: number): string {
+  return value.toFixed(2)
+}
+
+/**
+ * Screen coordinates of an ecliptic longitude, with the Ascendant at nine o'clock
+ * and longitude increasing counter-clockwise.
+ */
+function polar(longitude: number, radius: number, ascendant: number): [number, number] {
+  const angle = ((180 + longitude - ascendant) * Math.PI) / 180
+  return [CENTER + radius * Math.cos(angle), CENTER - radius * Math.sin(angle)]
+}
+
+function line(a: [number, number], b: [number, number], attributes: string): string {
+  return `<line x1="${round(a[0])}" y1="${round(a[1])}" x2="${round(b[0])}" y2="${round(b[1])}" ${attributes}/>`
+}
+
+function text(at: [number, number], content: string, attributes: string): string {
+  return `<text x="${round(at[0])}" y="${round(at[1])}" text-anchor="middle" dominant-baseline="central" ${attributes}>${escapeXml(content)}</text>`
+}
+
+function getWheelPoints(subject: EnrichedSubjectModel, activePoints?: string[]): Point[] {
+  return Object.entries(subject)
+    .flatMap(([key, value]) => {
+      if (!isPointKey(key) || key.endsWith('_house')) return []
+      const point = value as Point | undefined
+      if (!point || typeof point.abs_pos !== 'number') return []
+      if (activePoints && !activePoints.includes(point.name)) return []
+      return [point]
+    })
+    .sort((a, b) => a.abs_pos - b.abs_pos)
+}
+
+/**
+ * Outline of a pattern in the aspect circle: a polygon through its points, or
+ * for stelliums a sector covering the arc the planets occupy.
+ */
+function patternShape(pattern: AspectPattern, longitudes: number[], ascendant: number): string {
+  const color = ASPECT_PATTERN_COLORS[pattern.type]
+  const attributes = `fill="${color}" fill-opacity="0.15" stroke="${color}" stroke-width="2" stroke-linejoin="round"`
+  const sorted = [...longitudes].sort((a, b) => a - b)
+
+  if (pattern.type !== 'stellium') {
+    const corners = sorted.map((longitude) => polar(longitude, ASPECT_RADIUS, ascendant).map(round).join(','))
+    return `<polygon points="${corners.join(' ')}" ${attributes}/>`
+  }
+
+  // The sector starts after the largest gap between neighbouring planets
+  let startIndex = 0
+  let largestGap = -1
+  sorted.forEach((longitude, i) => {
+    const gap = normalizeDegrees(longitude - sorted[(i + sorted.length - 1) % sorted.length]!)
+    if (gap > largestGap) {
+      largestGap = gap
+      startIndex = i
+    }
+  })
+  const start = sorted[startIndex]!
+  const span = 360 - largestGap
+  const [x1, y1] = polar(start, ASPECT_RADIUS, ascendant)
+  const [x2, y2] = polar(start + span, ASPECT_RADIUS, ascendant)
+  return `<path d="M${CENTER},${CENTER} L${round(x1)},${round(y1)} A${ASPECT_RADIUS},${ASPECT_RADIUS} 0 ${span > 180 ? 1 : 0} 0 ${round(x2)},${round(y2)} Z" ${attributes}/>`
+}
+
+/**
+ * Spreads glyph positions so that neighbours are at least MIN_GLYPH_GAP apart.
+ * Returns display longitudes in the same order as the input (sorted ascending).
+ */
+function spreadLongitudes(longitudes: number[]): number[] {
+  const display = [...longitudes]
+  for (let pass = 0; pass < 3; pass++) {
+    for (let i = 1; i < display.length; i++) {
+      const gap = display[i]! - display[i - 1]!
+      if (gap < MIN_GLYPH_GAP) display[i] = display[i - 1]! + MIN_GLYPH_GAP
+    }
+  }
+  return display
+}
+
+/**
+ * Renders a chart wheel with one or more rings of points as an SVG string.
+ *
+ * Used for charts the Astrologer API cannot draw (e.g. solar arc directions).
+ * Strokes and glyphs use `currentColor`, so the wheel follows the page theme
+ * and prints black in PDF exports.
+ */
+export function renderChartWheelSvg({
+  rings,
+  aspects = [],
+  activePoints,
+  patterns = [],
+  stars = [],
+  size = VIEWBOX,
+}: ChartWheelOptions): string {
+  const base = rings[0]?.subject
+  if (!base) return ''
+
+  const ascendant = base.first_house?.abs_pos ?? base.ascendant?.abs_pos ?? 0
+  const ringWidth = (ZODIAC_INNER - ASPECT_RADIUS) / rings.length
+  const parts: string[] = []
+
+  // Zodiac band
+  parts.push(`<circle cx="${CENTER}" cy="${CENTER}" r="${ZODIAC_OUTER}" fill="none" stroke="currentColor"/>`)
+  parts.push(`<circle cx="${CENTER}" cy="${CENTER}" r="${ZODIAC_INNER}" fill="none" stroke="currentColor"/>`)
+  for (let sign = 0; sign < 12; sign++) {
+    const start = sign * 30
+    parts.push(
+      line(polar(start, ZODIAC_INNER, ascendant), polar(start, ZODIAC_OUTER, ascendant), 'stroke="currentColor"'),
+    )
+    parts.push(
+      text(
+        polar(start + 15, (ZODIAC_INNER + ZODIAC_OUTER) / 2, ascendant),
+        `${SIGN_GLYPHS[sign]}\uFE0E`,
+        'font-size="20" fill="currentColor"',
+      ),
+    )
+  }
+
+  // Fixed stars, along the inner edge of the zodiac band
+  for (const star of stars) {
+    parts.push(
+      `<g><title>${escapeXml(star.name)}</title>${text(
+        polar(star.longitude, ZODIAC_INNER + 7, ascendant),
+        '★',
+        'font-size="9" fill="#f59e0b"',
+      )}</g>`,
+    )
+  }
+
+  // Ring boundaries
+  for (let ring = 0; ring < rings.length; ring++) {
+    const radius = ASPECT_RADIUS + ring * ringWidth
+    parts.push(
+      `<circle cx="${CENTER}" cy="${CENTER}" r="${round(radius)}" fill="none" stroke="currentColor" stroke-opacity="0.5"/>`,
+    )
+  }
+
+  // Houses of the innermost ring
+  HOUSE_KEYS.forEach((key, index) => {
+    const cusp = base[key]?.abs_pos
+    if (typeof cusp !== 'number') return
+    const isAngle = index % 3 === 0
+    parts.push(
+      line(
+        polar(cusp, ASPECT_RADIUS, ascendant),
+        polar(cusp, ZODIAC_INNER, ascendant),
+        `stroke="currentColor" stroke-width="${isAngle ? 2 : 1}" stroke-opacity="${isAngle ? 1 : 0.4}"`,
+      ),
+    )
+    const next = base[HOUSE_KEYS[(index + 1) % 12]!]?.abs_pos ?? cusp + 30
+    const middle = cusp + normalizeDegrees(next - cusp) / 2
+    parts.push(
+      text(
+        polar(middle, ASPECT_RADIUS + 10, ascendant),
+        String(index + 1),
+        'font-size="10" fill="currentColor" fill-opacity="0.6"',
+      ),
+    )
+  })
+
+  // Points, one band per ring
+  rings.forEach((ring, ringIndex) => {
+    const inner = ASPECT_RADIUS + ringIndex * ringWidth
+    const outer = inner + ringWidth
+    const glyphRadius = inner + ringWidth * (ringIndex === 0 ? 0.6 : 0.5)
+    const points = getWheelPoints(ring.subject, activePoints)
+    const display = spreadLongitudes(points.map((p) => p.abs_pos))
+
+    points.forEach((point, i) => {
+      const tickStart = ringIndex === rings.length - 1 ? ZODIAC_INNER : outer
+      parts.push(
+        line(
+          polar(point.abs_pos, tickStart, ascendant),
+          polar(point.abs_pos, tickStart - 6, ascendant),
+          'stroke="currentColor"',
+        ),
+      )
+      const glyph = getPlanetIcon(point.name)
+      const fontSize = glyph.length > 1 ? 10 : 18
+      parts.push(
+        `<g><title>${escapeXml(`${ring.label} ${point.name} ${Math.floor(point.position)}° ${point.sign}`)}</title>${text(
+          polar(display[i]!, glyphRadius, ascendant),
+          point.retrograde ? `${glyph}℞` : glyph,
+          `font-size="${fontSize}" fill="currentColor"`,
+        )}</g>`,
+      )
+    })
+  })
+
+  // Aspect patterns
+  const baseLongitudes = new Map(getWheelPoints(base).map((point) => [point.name, point.abs_pos]))
+  for (const pattern of patterns) {
+    const longitudes = pattern.points.flatMap((name) => baseLongitudes.get(name) ?? [])
+    if (longitudes.length < pattern.points.length) continue
+    parts.push(`<g><title>${escapeXml(pattern.label)}</title>${patternShape(pattern, longitudes, ascendant)}</g>`)
+  }
+
+  // Aspect lines
+  for (const aspect of aspects) {
+    if (typeof aspect.p1_abs_pos !== 'number' || typeof aspect.p2_abs_pos !== 'number') continue
+    const stroke = ASPECT_STROKES[aspect.aspect] ?? '#a855f7'
+    const dash = isMajorAspect(aspect.aspect) ? '' : ' stroke-dasharray="4 3"'
+    parts.push(
+      line(
+        polar(aspect.p1_abs_pos, ASPECT_RADIUS, ascendant),
+        polar(aspect.p2_abs_pos, ASPECT_RADIUS, ascendant),
+        `stroke="${stroke}" stroke-width="1.2"${dash}`,
+      ),
+    )
+  }
+
+  // Legend, from the innermost ring outwards
+  rings.forEach((ring, index) => {
+    parts.push(
+      `<text x="8" y="${VIEWBOX - 8 - (rings.length - 1 - index) * 16}" font-size="12" fill="currentColor">${escapeXml(
+        `${index === 0 ? 'Inner' : index === rings.length - 1 ? 'Outer' : `Ring ${index + 1}`}: ${ring.label}`,
+      )}</text>`,
+    )
+  })
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${VIEWBOX} ${VIEWBOX}" font-family="sans-serif">${parts.join('')}</svg>`
+}
@@ -25,6 +25,14 @@ export const SESSION_DURATION_MS = 7 * 24 * 60 * 60 * 1000
  */
 export const SESSION_DURATION_STRING = '7d' as const
 
+/**
+ * Minimum interval between updates of a session's last activity (5 minutes)
+ *
+ * Used for:
+ * - UserSession.lastActiveAt, shown in the devices list of the account settings
+ */
+export const SESSION_ACTIVITY_INTERVAL_MS = 5 * 60 * 1000
+
 /**
  * Verification token expiry in milliseconds (24 hours)
  *
@@ -43,6 +51,8 @@ export const TIME_CONFIG = {
   sessionDurationMs: SESSION_DURATION_MS,
   /** Session duration as jose-compatible string */
   sessionDurationString: SESSION_DURATION_STRING,
+  /** Minimum interval between session activity updates (5 minutes) */
+  sessionActivityIntervalMs: SESSION_ACTIVITY_INTERVAL_MS,
   /** Verification token expiry in milliseconds (24 hours) */
   tokenExpiryMs: TOKEN_EXPIRY_MS,
 } as const
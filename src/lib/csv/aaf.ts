@@ -0,0 +1,220 @@
+/**
+ * AAF (Astrological Exchange Format) import and export
+ *
+ * AAF is the text format used by Astro-Databank and astro.com. Each chart is a
+ * `#A93` line, usually followed by `#B93` and optional `#COM` comment lines:
+ *
+ * ```
+ * #A93:Lincoln,Abraham,m,12.02.1809g,06:54,Hodgenville KY,USA
+ * #B93:2381829.99583,37n34,85w44,5hw43,0
+ * #COM:RR: AA
+ * ```
+ *
+ * `#A93` holds the local date and time, `#B93` the Julian Day in UT, the
+ * coordinates, the standard zone offset (`5hw43` = 5h43m west) and the
+ * daylight-saving correction in hours.
+ *
+ * @module lib/csv/aaf
+ */
+
+import type { Subject } from '@/types/subjects'
+import type { ParseResult } from './subjects'
+import {
+  formatCoordinate,
+  formatDottedDate,
+  formatClockTime,
+  parseCalendarDate,
+  parseClockTime,
+  parseCoordinate,
+  parseUtcOffset,
+  recordToUtcMillis,
+  subjectToBirthData,
+  toParseResult,
+  type BirthDataRecord,
+} from './interchange'
+
+/** Astro-Databank country abbreviations that are not ISO codes */
+const AAF_COUNTRIES: Record<string, string> = {
+  USA: 'US',
+  D: 'DE',
+  I: 'IT',
+  F: 'FR',
+  E: 'ES',
+  A: 'AT',
+  B: 'BE',
+  ENG: 'GB',
+  SCOT: 'GB',
+  WAL: 'GB',
+  UK: 'GB',
+  IRE: 'IE',
+  AUS: 'AU',
+  CAN: 'CA',
+  MEX: 'MX',
+  BRA: 'BR',
+  ARG: 'AR',
+  JAP: 'JP',
+  IND: 'IN',
+  RUS: 'RU',
+  SWE: 'SE',
+  NOR: 'NO',
+  DEN: 'DK',
+  FIN: 'FI',
+  POL: 'PL',
+  POR: 'PT',
+  GRE: 'GR',
+}
+
+const JULIAN_DAY_UNIX_EPOCH = 2440587.5
+const MS_PER_DAY = 86_400_000
+
+/** Difference below which the Julian Day and zone offset are considered consistent */
+const OFFSET_TOLERANCE_MINUTES = 1
+
+/** A record in the file: its `#A93` line plus the lines that follow it */
+interface AAFEntry {
+  line: number
+  a93: string
+  b93?: string
+  comments: string[]
+}
+
+/** Split a record line after its `#XXX:` tag into trimmed fields */
+function fields(line: string): string[] {
+  return line
+    .slice(line.indexOf(':') + 1)
+    .split(',')
+    .map((f) => f.trim())
+}
+
+/** `*` marks an unknown field in AAF */
+function known(value: string | undefined): string {
+  return value && value !== '*' ? value : ''
+}
+
+const RATING_PATTERN = /\b(?:RR|Rodden(?:\s+rating)?)\s*[:=]?\s*([A-Za-z]{1,3})\b/i
+
+function findRating(comments: string[]): string | null {
+  for (const comment of comments) {
+    const match = comment.match(RATING_PATTERN)
+    if (match) return match[1] as string
+  }
+  return null
+}
+
+/** Comments that only carry the rating are not kept as notes */
+function isRatingOnly(comment: string): boolean {
+  return comment.replace(RATING_PATTERN, '').trim() === ''
+}
+
+function parseEntry(entry: AAFEntry): BirthDataRecord {
+  const [surname, firstName, , rawDate = '', rawTime = '', place, country] = fields(entry.a93)
+
+  const name = [known(firstName), known(surname)].filter(Boolean).join(' ')
+  if (!name) throw new Error('Missing name')
+
+  const calendar = rawDate.slice(-1).toLowerCase()
+  if (calendar === 'j') throw new Error(`Julian calendar dates are not supported: "${rawDate}"`)
+  const date = parseCalendarDate(calendar === 'g' ? rawDate.slice(0, -1) : rawDate, 'dmy')
+  const time = parseClockTime(rawTime)
+
+  const rawCountry = known(country)
+  const record: BirthDataRecord = {
+    name,
+    date,
+    time,
+    city: known(place),
+    nation: AAF_COUNTRIES[rawCountry.toUpperCase()] ?? rawCountry,
+    rating: findRating(entry.comments),
+    notes: entry.comments.filter((c) => !isRatingOnly(c)).join('\n') || null,
+  }
+
+  if (!entry.b93) throw new Error('Missing #B93 line with coordinates and time zone')
+  const [julianDay, latitude = '', longitude = '', zone = '', dst = ''] = fields(entry.b93)
+  record.latitude = parseCoordinate(latitude, 'latitude')
+  record.longitude = parseCoordinate(longitude, 'longitude')
+
+  const dstMinutes = known(dst) ? parseUtcOffset(dst) : 0
+  record.utcOffsetMinutes = known(zone) ? parseUtcOffset(zone) + dstMinutes : null
+
+  // The Julian Day is the authoritative UT; derive the offset from it when the zone disagrees
+  const jd = Number(julianDay)
+  if (time && julianDay && Number.isFinite(jd)) {
+    const utc = (jd - JULIAN_DAY_UNIX_EPOCH) * MS_PER_DAY
+    const local = recordToUtcMillis({ ...record, utcOffsetMinutes: 0 })
+    const fromJulianDay = Math.round((local - utc) / 60000)
+    if (
+      record.utcOffsetMinutes == null ||
+      Math.abs(record.utcOffsetMinutes - fromJulianDay) > OFFSET_TOLERANCE_MINUTES
+    ) {
+      record.utcOffsetMinutes = fromJulianDay
+    }
+  }
+
+  return record
+}
+
+/**
+ * Parse an AAF file into subject inputs, one result per `#A93` record.
+ * Errors are reported with the line number of the record's `#A93` line.
+ */
+export function parseAAF(text: string): ParseResult[] {
+  const entries: AAFEntry[] = []
+  const orphans: ParseResult[] = []
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim()
+    const tag = line.slice(0, 5).toUpperCase()
+    const current = entries[entries.length - 1]
+
+    if (tag === '#A93:') {
+      entries.push({ line: index + 1, a93: line, comments: [] })
+    } else if (tag === '#B93:') {
+      if (!current || current.b93) {
+        orphans.push({ success: false, error: `Row ${index + 1}: #B93 line without a #A93 record` })
+      } else {
+        current.b93 = line
+      }
+    } else if (tag === '#COM:' && current) {
+      const comment = line.slice(5).trim()
+      if (comment) current.comments.push(comment)
+    }
+  })
+
+  return [...entries.map((entry) => toParseResult(entry.line, () => parseEntry(entry))), ...orphans]
+}
+
+/** AAF fields are comma separated and unquoted */
+function clean(value: string | null | undefined): string {
+  return (value ?? '').replace(/[,\r\n]+/g, ' ').trim() || '*'
+}
+
+/**
+ * Write subjects as AAF records. The offset in `#B93` includes daylight saving,
+ * so the DST column is always 0.
+ */
+export function writeAAF(subjects: Subject[]): string {
+  const lines = subjects.flatMap((subject) => {
+    const record = subjectToBirthData(subject)
+    // The last word is taken as the surname; single names have no first name
+    const nameParts = record.name.trim().split(/\s+/)
+    const surname = nameParts.pop()
+    const firstName = nameParts.join(' ')
+
+    const offset = Math.round(record.utcOffsetMinutes ?? 0)
+    const zone = `${Math.floor(Math.abs(offset) / 60)}h${offset < 0 ? 'w' : 'e'}${String(Math.abs(offset) % 60).padStart(2, '0')}`
+    const julianDay = recordToUtcMillis(record) / MS_PER_DAY + JULIAN_DAY_UNIX_EPOCH
+
+    const result = [
+      `#A93:${clean(surname)},${clean(firstName)},*,${formatDottedDate(record.date)}g,${formatClockTime(record.time ?? { hour: 12, minute: 0, second: 0 })},${clean(record.city)},${clean(record.nation)}`,
+      `#B93:${julianDay.toFixed(5)},${formatCoordinate(record.latitude ?? 0, 'latitude')},${formatCoordinate(record.longitude ?? 0, 'longitude')},${zone},0`,
+    ]
+    if (record.rating) result.push(`#COM:RR: ${record.rating}`)
+    record.notes
+      ?.split(/\r?\n/)
+      .map((l) => l.trim())
+      .filter(Boolean)
+      .forEach((l) => result.push(`#COM:${l}`))
+    return result
+  })
+  return lines.join('\n') + '\n'
+}
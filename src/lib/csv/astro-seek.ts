@@ -0,0 +1,180 @@
+/**
+ * Astro-Seek CSV import and export
+ *
+ * Astro-Seek and similar web services export comma-separated files with a
+ * header row. Column names vary between exports, so headers are matched by
+ * alias ("Birthplace", "City" and "Place" all map to the city). Dates are
+ * day-first; the zone column holds either an IANA name or an offset such as
+ * `UT+1` or `+01:00`.
+ *
+ * @module lib/csv/astro-seek
+ */
+
+import Papa from 'papaparse'
+import type { Subject } from '@/types/subjects'
+import { parseTags, type ParseResult } from './subjects'
+import {
+  formatClockTime,
+  formatDottedDate,
+  formatUtcOffset,
+  nationName,
+  parseCalendarDate,
+  parseClockTime,
+  parseCoordinate,
+  parseUtcOffset,
+  subjectToBirthData,
+  toParseResult,
+  type BirthDataRecord,
+} from './interchange'
+
+type AstroSeekColumn =
+  | 'name'
+  | 'firstName'
+  | 'lastName'
+  | 'date'
+  | 'time'
+  | 'city'
+  | 'country'
+  | 'latitude'
+  | 'longitude'
+  | 'timezone'
+  | 'offset'
+  | 'rating'
+  | 'tags'
+  | 'notes'
+
+/** Header aliases, lowercased with spaces and punctuation removed */
+const COLUMN_ALIASES: Record<string, AstroSeekColumn> = {
+  name: 'name',
+  fullname: 'name',
+  chartname: 'name',
+  firstname: 'firstName',
+  lastname: 'lastName',
+  surname: 'lastName',
+  date: 'date',
+  birthdate: 'date',
+  dateofbirth: 'date',
+  time: 'time',
+  birthtime: 'time',
+  timeofbirth: 'time',
+  city: 'city',
+  place: 'city',
+  birthplace: 'city',
+  placeofbirth: 'city',
+  location: 'city',
+  country: 'country',
+  nation: 'country',
+  latitude: 'latitude',
+  lat: 'latitude',
+  longitude: 'longitude',
+  lon: 'longitude',
+  lng: 'longitude',
+  long: 'longitude',
+  timezone: 'timezone',
+  tz: 'timezone',
+  zone: 'timezone',
+  utcoffset: 'offset',
+  offset: 'offset',
+  gmtoffset: 'offset',
+  ut: 'offset',
+  rodden: 'rating',
+  roddenrating: 'rating',
+  rating: 'rating',
+  rr: 'rating',
+  tags: 'tags',
+  category: 'tags',
+  categories: 'tags',
+  notes: 'notes',
+  note: 'notes',
+  comment: 'notes',
+  comments: 'notes',
+}
+
+const EXPORT_HEADERS = [
+  'Name',
+  'Date',
+  'Time',
+  'City',
+  'Country',
+  'Latitude',
+  'Longitude',
+  'Timezone',
+  'UTC offset',
+  'Rodden rating',
+  'Tags',
+  'Notes',
+]
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '')
+}
+
+function parseRow(row: Record<string, string>): BirthDataRecord {
+  const values: Partial<Record<AstroSeekColumn, string>> = {}
+  for (const [header, value] of Object.entries(row)) {
+    const column = COLUMN_ALIASES[normalizeHeader(header)]
+    if (column && value?.trim() && !values[column]) values[column] = value.trim()
+  }
+
+  const name = values.name ?? [values.firstName, values.lastName].filter(Boolean).join(' ')
+  if (!values.date) throw new Error('Missing date')
+
+  // The zone column may hold an offset instead of an IANA name
+  const zone = values.timezone ?? ''
+  const timezone = zone.includes('/') || zone.toUpperCase() === 'UTC' ? zone : null
+  const offset = values.offset ?? (timezone ? '' : zone)
+
+  return {
+    name,
+    date: parseCalendarDate(values.date, 'dmy'),
+    time: parseClockTime(values.time ?? ''),
+    timezone,
+    utcOffsetMinutes: offset ? parseUtcOffset(offset) : null,
+    city: values.city,
+    nation: values.country,
+    latitude: values.latitude ? parseCoordinate(values.latitude, 'latitude') : undefined,
+    longitude: values.longitude ? parseCoordinate(values.longitude, 'longitude') : undefined,
+    rating: values.rating ?? null,
+    tags: parseTags(values.tags),
+    notes: values.notes ?? null,
+  }
+}
+
+/**
+ * Parse an Astro-Seek style CSV into subject inputs, one result per data row.
+ * Row numbers count the header as row 1, like the native CSV importer.
+ */
+export function parseAstroSeekCSV(text: string): ParseResult[] {
+  const { data, errors } = Papa.parse<Record<string, string>>(text, { header: true, skipEmptyLines: 'greedy' })
+
+  const csvErrors = new Map(errors.map((e) => [e.row, e.message]))
+  return data.map((row, index) => {
+    const csvError = csvErrors.get(index)
+    if (csvError) return { success: false, error: `Row ${index + 2}: ${csvError}` }
+    return toParseResult(index + 2, () => parseRow(row))
+  })
+}
+
+/**
+ * Write subjects as an Astro-Seek style CSV with decimal coordinates
+ */
+export function writeAstroSeekCSV(subjects: Subject[]): string {
+  const rows = subjects.map((subject) => {
+    const record = subjectToBirthData(subject)
+    return [
+      record.name,
+      formatDottedDate(record.date),
+      formatClockTime(record.time ?? { hour: 12, minute: 0, second: 0 }),
+      record.city ?? '',
+      nationName(record.nation ?? ''),
+      record.latitude ?? '',
+      record.longitude ?? '',
+      record.timezone ?? '',
+      formatUtcOffset(record.utcOffsetMinutes ?? 0),
+      record.rating ?? '',
+      record.tags?.join(', ') ?? '',
+      record.notes ?? '',
+    ]
+  })
+  return Papa.unparse({ fields: EXPORT_HEADERS, data: rows })
+}
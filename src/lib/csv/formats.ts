@@ -0,0 +1,132 @@
+/**
+ * Registry of birth data file formats for subject import and export
+ *
+ * @module lib/csv/formats
+ */
+
+import Papa from 'papaparse'
+import type { Subject } from '@/types/subjects'
+import { parseSubjectCSVRow, type ParseResult, type SubjectCSVRow } from './subjects'
+import { parseAAF, writeAAF } from './aaf'
+import { parseSolarFire, writeSolarFire } from './solar-fire'
+import { parseZET, writeZET } from './zet'
+import { parseAstroSeekCSV, writeAstroSeekCSV } from './astro-seek'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type BirthDataFormat = 'csv' | 'aaf' | 'solar-fire' | 'zet' | 'astro-seek'
+
+export interface BirthDataFormatDefinition {
+  label: string
+  /** Short description of the expected layout, shown in the import dialog */
+  description: string
+  /** File extension for exports, without the dot */
+  extension: string
+  mimeType: string
+  parse: (text: string) => ParseResult[]
+  write: (subjects: Subject[]) => string
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Native CSV
+// ─────────────────────────────────────────────────────────────────────────────
+
+function parseNativeCSV(text: string): ParseResult[] {
+  const { data, errors } = Papa.parse<SubjectCSVRow>(text, { header: true, skipEmptyLines: true })
+  if (errors.length > 0) {
+    return errors.map((e) => ({ success: false, error: `Row ${(e.row ?? 0) + 2}: ${e.message}` }))
+  }
+
+  return data.flatMap((row, index) => {
+    // Skip completely empty rows
+    if (!row.name && !row.birthDatetime) return []
+    return [parseSubjectCSVRow(row, index + 2)] // +2 for header + 1-indexed
+  })
+}
+
+function writeNativeCSV(subjects: Subject[]): string {
+  return Papa.unparse(
+    subjects.map((s) => ({
+      name: s.name,
+      birthDatetime: s.birth_datetime,
+      city: s.city,
+      nation: s.nation,
+      latitude: s.latitude,
+      longitude: s.longitude,
+      timezone: s.timezone,
+      rodensRating: s.rodens_rating,
+      tags: s.tags?.join(','),
+      notes: s.notes,
+    })),
+  )
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Registry
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const BIRTH_DATA_FORMATS: Record<BirthDataFormat, BirthDataFormatDefinition> = {
+  csv: {
+    label: 'CSV',
+    description: 'Columns name, birthDatetime (ISO), city, nation, timezone...',
+    extension: 'csv',
+    mimeType: 'text/csv;charset=utf-8;',
+    parse: parseNativeCSV,
+    write: writeNativeCSV,
+  },
+  aaf: {
+    label: 'AAF (Astro-Databank)',
+    description: '#A93 and #B93 records as exported by Astro-Databank and astro.com',
+    extension: 'aaf',
+    mimeType: 'text/plain;charset=utf-8;',
+    parse: parseAAF,
+    write: writeAAF,
+  },
+  'solar-fire': {
+    label: 'Solar Fire',
+    description: 'Text chart export with Name, Date, Time, Zone (hours west) and Place blocks',
+    extension: 'sfcht',
+    mimeType: 'text/plain;charset=utf-8;',
+    parse: parseSolarFire,
+    write: writeSolarFire,
+  },
+  zet: {
+    label: 'ZET / Kepler list',
+    description: 'One chart per line: name;date;time;zone;place;latitude;longitude',
+    extension: 'txt',
+    mimeType: 'text/plain;charset=utf-8;',
+    parse: parseZET,
+    write: writeZET,
+  },
+  'astro-seek': {
+    label: 'Astro-Seek CSV',
+    description: 'Name, Date, Time, City, Country, Latitude, Longitude and Timezone columns',
+    extension: 'csv',
+    mimeType: 'text/csv;charset=utf-8;',
+    parse: parseAstroSeekCSV,
+    write: writeAstroSeekCSV,
+  },
+}
+
+/** File extensions accepted by the import dialog */
+export const BIRTH_DATA_FILE_ACCEPT = '.csv,.aaf,.sfcht,.txt,.zet'
+
+/**
+ * Guess the format of an uploaded file from its content, falling back to the extension
+ */
+export function detectBirthDataFormat(fileName: string, text: string): BirthDataFormat {
+  if (/^\s*#A93:/im.test(text)) return 'aaf'
+  if (/^\s*(?:name|date)\s*:/im.test(text) && /^\s*(?:zone|time zone)\s*:/im.test(text)) return 'solar-fire'
+
+  const firstLine = text.split(/\r?\n/).find((line) => line.trim() && !line.trim().startsWith('#')) ?? ''
+  if (/\bbirthDatetime\b/.test(firstLine)) return 'csv'
+  if (firstLine.includes(';') || firstLine.includes('\t')) return 'zet'
+
+  const extension = fileName.split('.').pop()?.toLowerCase()
+  if (extension === 'aaf') return 'aaf'
+  if (extension === 'sfcht') return 'solar-fire'
+  if (extension === 'zet' || extension === 'txt') return 'zet'
+  return /,/.test(firstLine) && /\bdate\b/i.test(firstLine) ? 'astro-seek' : 'csv'
+}
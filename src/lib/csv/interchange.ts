@@ -0,0 +1,585 @@
+/**
+ * Shared primitives for birth data interchange formats
+ *
+ * Other astrology programs exchange birth data as AAF, Solar Fire text exports,
+ * ZET/Kepler lists or Astro-Seek CSV. The layouts differ but the fields are the
+ * same awkward ones: degree-minute coordinates (`41n54`), UTC offsets with
+ * different sign conventions, free-form dates and Rodden ratings.
+ *
+ * Format parsers collect a {@link BirthDataRecord} per entry and convert it with
+ * {@link toSubjectInput}; writers start from {@link subjectToBirthData}.
+ *
+ * @module lib/csv/interchange
+ */
+
+import { RODEN_RATING_MAP } from '@/types/schemas'
+import { COUNTRY_OPTIONS } from '@/lib/geo/countries'
+import type { CreateSubjectInput, RodensRating, Subject } from '@/types/subjects'
+import { extractUTCTime, type ParseResult } from './subjects'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CalendarDate {
+  year: number
+  /** 1-12 */
+  month: number
+  day: number
+}
+
+export interface ClockTime {
+  hour: number
+  minute: number
+  second: number
+}
+
+export type CoordinateAxis = 'latitude' | 'longitude'
+
+/**
+ * Format-neutral birth data, as read from or written to an interchange file
+ */
+export interface BirthDataRecord {
+  name: string
+  date: CalendarDate
+  /** Local clock time; null when the source marks the time as unknown */
+  time: ClockTime | null
+  /** Offset of local clock time from UT in minutes, east positive, DST included */
+  utcOffsetMinutes?: number | null
+  /** IANA timezone, when the source has one */
+  timezone?: string | null
+  city?: string
+  nation?: string
+  latitude?: number
+  longitude?: number
+  /** Rating as written in the source, normalized by {@link toSubjectInput} */
+  rating?: string | null
+  notes?: string | null
+  tags?: string[] | null
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Coordinates
+// ─────────────────────────────────────────────────────────────────────────────
+
+const HEMISPHERE_SIGNS: Record<CoordinateAxis, Record<string, number>> = {
+  latitude: { N: 1, S: -1 },
+  longitude: { E: 1, W: -1 },
+}
+
+const COORDINATE_CHARS = /^[+-]?[\d\s.,°º:'′’"″NSEWnsew]+$/
+
+/**
+ * Parse a coordinate in any of the common notations.
+ *
+ * @throws Error when the value is malformed, out of range or uses the wrong hemisphere
+ *
+ * @example
+ * parseCoordinate('41n54', 'latitude')          // 41.9
+ * parseCoordinate('12e29', 'longitude')         // 12.483333
+ * parseCoordinate('85W44\'30"', 'longitude')    // -85.741667
+ * parseCoordinate('41°54\'N', 'latitude')       // 41.9
+ * parseCoordinate('-73.9857', 'longitude')      // -73.9857
+ */
+export function parseCoordinate(value: string, axis: CoordinateAxis): number {
+  const raw = value.trim()
+  if (!raw) throw new Error(`Missing ${axis}`)
+
+  const invalid = () => new Error(`Invalid ${axis}: "${value}"`)
+  // A lone comma is a decimal separator ("41,9"); anything else is malformed
+  const normalized = raw.replace(/^([+-]?\d+),(\d+)$/, '$1.$2')
+  if (!COORDINATE_CHARS.test(normalized) || normalized.includes(',')) throw invalid()
+
+  const letters = normalized.match(/[NSEW]/gi) ?? []
+  if (letters.length > 1) throw invalid()
+
+  let sign = normalized.startsWith('-') ? -1 : 1
+  const hemisphere = letters[0]?.toUpperCase()
+  if (hemisphere) {
+    const hemisphereSign = HEMISPHERE_SIGNS[axis][hemisphere]
+    if (hemisphereSign === undefined) {
+      throw new Error(`Hemisphere "${hemisphere}" does not apply to ${axis}: "${value}"`)
+    }
+    if (/^[+-]/.test(normalized)) throw invalid()
+    sign = hemisphereSign
+  }
+
+  const parts = (normalized.match(/\d+(?:\.\d+)?/g) ?? []).map(Number)
+  if (parts.length === 0 || parts.length > 3) throw invalid()
+  const [degrees = 0, minutes = 0, seconds = 0] = parts
+  // Only the last component may carry decimals
+  if (parts.slice(0, -1).some((p) => !Number.isInteger(p)) || minutes >= 60 || seconds >= 60) throw invalid()
+
+  const result = sign * (degrees + minutes / 60 + seconds / 3600)
+  const limit = axis === 'latitude' ? 90 : 180
+  if (Math.abs(result) > limit) {
+    throw new Error(`Invalid ${axis}: "${value}" is out of range`)
+  }
+  return Math.round(result * 1e6) / 1e6
+}
+
+/**
+ * Format a decimal coordinate in compact degree-hemisphere-minute notation
+ *
+ * @example
+ * formatCoordinate(41.9, 'latitude')                                // '41n54'
+ * formatCoordinate(-85.741667, 'longitude', { uppercase: true, seconds: true }) // '85W44\'30"'
+ */
+export function formatCoordinate(
+  value: number,
+  axis: CoordinateAxis,
+  { uppercase = false, seconds = false }: { uppercase?: boolean; seconds?: boolean } = {},
+): string {
+  const letters = axis === 'latitude' ? ['n', 's'] : ['e', 'w']
+  const hemisphere = (value < 0 ? letters[1] : letters[0]) as string
+  const letter = uppercase ? hemisphere.toUpperCase() : hemisphere
+
+  const unit = seconds ? 3600 : 60
+  const total = Math.round(Math.abs(value) * unit)
+  const degrees = Math.floor(total / unit)
+  const rest = total - degrees * unit
+
+  if (!seconds) return `${degrees}${letter}${String(rest).padStart(2, '0')}`
+  const mm = String(Math.floor(rest / 60)).padStart(2, '0')
+  const ss = String(rest % 60).padStart(2, '0')
+  return `${degrees}${letter}${mm}'${ss}"`
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Time zones
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Offsets beyond ±15h only appear in malformed data */
+const MAX_OFFSET_MINUTES = 15 * 60
+
+/**
+ * Parse a UTC offset into east-positive minutes.
+ *
+ * Accepts `+01:00`, `-5`, `+0530`, `5.5`, `1he00`/`6hw00` (AAF) and labelled
+ * forms such as `UT+1`, `GMT-05:00` or `EST 5:00`. Bare numbers follow the
+ * file's convention: pass `westPositive` for software that counts hours west
+ * of Greenwich (Solar Fire). `UT`/`GMT` prefixes are always east-positive.
+ *
+ * @throws Error when the value cannot be read as an offset
+ */
+export function parseUtcOffset(value: string, { westPositive = false }: { westPositive?: boolean } = {}): number {
+  const raw = value.trim()
+  const invalid = () => new Error(`Invalid time zone offset: "${value}"`)
+  if (!raw) throw new Error('Missing time zone offset')
+  if (/^(?:z|ut|utc|gmt)$/i.test(raw)) return 0
+
+  const aaf = raw.match(/^(\d{1,2})h([ew])(\d{2})$/i)
+  if (aaf) {
+    const minutes = Number(aaf[1]) * 60 + Number(aaf[3])
+    if (minutes > MAX_OFFSET_MINUTES) throw invalid()
+    return aaf[2]?.toLowerCase() === 'w' ? -minutes : minutes
+  }
+
+  // Drop zone abbreviations around the number ("EST 5:00", "+1 CET", "UT+2 DST")
+  let text = raw.replace(/\s+[A-Za-z]{2,5}$/, '')
+  let west = westPositive
+  const labelled = text.match(/^(?:ut|utc|gmt)\s*([+-].*)$/i)
+  if (labelled) {
+    text = labelled[1] as string
+    west = false
+  } else {
+    text = text.replace(/^[A-Za-z]{2,5}\s+/, '')
+  }
+  text = text.replace(/\s+/g, '')
+
+  let minutes: number
+  const decimal = text.match(/^([+-])?(\d{1,2}\.\d+)$/)
+  const clock = text.match(/^([+-])?(\d{1,2})(?:[:h]?(\d{2})(?::(\d{2}))?)?$/i)
+  if (decimal) {
+    minutes = Number(decimal[2]) * 60 * (decimal[1] === '-' ? -1 : 1)
+  } else if (clock) {
+    const m = Number(clock[3] ?? 0)
+    const s = Number(clock[4] ?? 0)
+    if (m >= 60 || s >= 60) throw invalid()
+    minutes = (Number(clock[2]) * 60 + m + s / 60) * (clock[1] === '-' ? -1 : 1)
+  } else {
+    throw invalid()
+  }
+
+  if (Math.abs(minutes) > MAX_OFFSET_MINUTES) throw invalid()
+  return west ? -minutes || 0 : minutes
+}
+
+/**
+ * Format east-positive offset minutes as `±HH:MM`, adding seconds for LMT offsets
+ */
+export function formatUtcOffset(minutes: number, { westPositive = false }: { westPositive?: boolean } = {}): string {
+  const signed = westPositive ? -minutes : minutes
+  const totalSeconds = Math.round(Math.abs(signed) * 60)
+  const hh = String(Math.floor(totalSeconds / 3600)).padStart(2, '0')
+  const mm = String(Math.floor((totalSeconds % 3600) / 60)).padStart(2, '0')
+  const ss = totalSeconds % 60
+  const sign = signed < 0 ? '-' : '+'
+  return ss ? `${sign}${hh}:${mm}:${String(ss).padStart(2, '0')}` : `${sign}${hh}:${mm}`
+}
+
+/**
+ * Check whether the runtime knows an IANA timezone
+ */
+export function isKnownTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Offset of a zone at a UT instant, in minutes */
+function zoneOffsetAtInstant(timezone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    era: 'short',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant))
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0)
+
+  const bc = parts.find((p) => p.type === 'era')?.value === 'BC'
+  const local = new Date(0)
+  local.setUTCFullYear(bc ? 1 - get('year') : get('year'), get('month') - 1, get('day'))
+  local.setUTCHours(get('hour'), get('minute'), get('second'), 0)
+  return (local.getTime() - Math.floor(instant / 1000) * 1000) / 60000
+}
+
+/**
+ * UTC offset of an IANA zone for a local wall-clock time, in east-positive minutes.
+ *
+ * The wall-clock time is encoded as UTC, the same way `Subject.birth_datetime`
+ * is stored. Historical LMT offsets keep their seconds as a fraction.
+ */
+export function getTimezoneOffsetMinutes(timezone: string, wallClock: Date): number {
+  const local = wallClock.getTime()
+  const first = zoneOffsetAtInstant(timezone, local)
+  return zoneOffsetAtInstant(timezone, local - first * 60000)
+}
+
+/**
+ * IANA zone for a fixed offset, or null when the offset is not a whole hour.
+ * `Etc/GMT` zones use the POSIX sign convention, so UT+1 is `Etc/GMT-1`.
+ */
+export function fixedOffsetTimezone(minutes: number): string | null {
+  if (minutes === 0) return 'UTC'
+  if (minutes % 60 !== 0 || minutes < -12 * 60 || minutes > 14 * 60) return null
+  const hours = minutes / 60
+  return `Etc/GMT${hours > 0 ? '-' : '+'}${Math.abs(hours)}`
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Dates and times
+// ─────────────────────────────────────────────────────────────────────────────
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+]
+
+const MONTH_NAMES = MONTHS.map((m) => m[0]?.toUpperCase() + m.slice(1))
+
+function monthFromName(name: string): number | null {
+  const lower = name.toLowerCase().replace(/\.$/, '')
+  if (lower.length < 3) return null
+  const index = MONTHS.findIndex((m) => m.startsWith(lower))
+  return index === -1 ? null : index + 1
+}
+
+/**
+ * Build a UTC date from calendar parts, or null when they do not form a real day.
+ * Uses setUTCFullYear so that years below 100 are not mapped to the 1900s.
+ */
+function toUtcDate(date: CalendarDate, time: ClockTime = { hour: 0, minute: 0, second: 0 }): Date | null {
+  const result = new Date(0)
+  result.setUTCFullYear(date.year, date.month - 1, date.day)
+  result.setUTCHours(time.hour, time.minute, time.second, 0)
+  const valid =
+    result.getUTCFullYear() === date.year && result.getUTCMonth() === date.month - 1 && result.getUTCDate() === date.day
+  return valid ? result : null
+}
+
+/**
+ * Parse a calendar date.
+ *
+ * ISO dates and dates with month names ("12 February 1809", "Feb 12, 1809") are
+ * unambiguous; numeric dates such as `12.02.1809` follow `order`.
+ *
+ * @throws Error when the value is not a real calendar day
+ */
+export function parseCalendarDate(value: string, order: 'dmy' | 'mdy' = 'dmy'): CalendarDate {
+  const raw = value.trim()
+  const invalid = () => new Error(`Invalid date: "${value}"`)
+  if (!raw) throw new Error('Missing date')
+
+  let date: CalendarDate | null = null
+  const iso = raw.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/)
+  const numeric = raw.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/)
+  const dayFirst = raw.match(/^(\d{1,2})\.?\s+([A-Za-z]+\.?),?\s+(\d{1,4})$/)
+  const monthFirst = raw.match(/^([A-Za-z]+\.?)\s+(\d{1,2}),?\s+(\d{1,4})$/)
+
+  if (iso) {
+    date = { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) }
+  } else if (numeric) {
+    const [first, second] = [Number(numeric[1]), Number(numeric[2])]
+    date =
+      order === 'dmy'
+        ? { year: Number(numeric[3]), month: second, day: first }
+        : { year: Number(numeric[3]), month: first, day: second }
+  } else if (dayFirst) {
+    const month = monthFromName(dayFirst[2] as string)
+    if (month) date = { year: Number(dayFirst[3]), month, day: Number(dayFirst[1]) }
+  } else if (monthFirst) {
+    const month = monthFromName(monthFirst[1] as string)
+    if (month) date = { year: Number(monthFirst[3]), month, day: Number(monthFirst[2]) }
+  }
+
+  if (!date || date.year < 1 || !toUtcDate(date)) throw invalid()
+  return date
+}
+
+/** Markers other programs use for an unknown birth time */
+const UNKNOWN_TIME = /^(?:\*|\?+|-+|unknown|n\/?a)$/i
+
+/**
+ * Parse a local clock time, returning null for an unknown time marker.
+ *
+ * @throws Error when the value is not a valid time
+ *
+ * @example
+ * parseClockTime('06:54')     // { hour: 6, minute: 54, second: 0 }
+ * parseClockTime('6:54 pm')   // { hour: 18, minute: 54, second: 0 }
+ * parseClockTime('*')         // null
+ */
+export function parseClockTime(value: string): ClockTime | null {
+  const raw = value.trim()
+  if (!raw || UNKNOWN_TIME.test(raw)) return null
+
+  const match = raw.match(/^(\d{1,2})(?:[:.h](\d{2})(?:[:.m](\d{2}))?s?)?\s*([ap])?\.?m?\.?$/i)
+  if (!match) throw new Error(`Invalid time: "${value}"`)
+
+  let hour = Number(match[1])
+  const minute = Number(match[2] ?? 0)
+  const second = Number(match[3] ?? 0)
+  const meridiem = match[4]?.toLowerCase()
+  if (meridiem) {
+    if (hour < 1 || hour > 12) throw new Error(`Invalid time: "${value}"`)
+    hour = (hour % 12) + (meridiem === 'p' ? 12 : 0)
+  } else if (!match[2]) {
+    throw new Error(`Invalid time: "${value}"`)
+  }
+  if (hour > 23 || minute > 59 || second > 59) throw new Error(`Invalid time: "${value}"`)
+  return { hour, minute, second }
+}
+
+/** Format a date as `12 February 1809` */
+export function formatLongDate({ year, month, day }: CalendarDate): string {
+  return `${day} ${MONTH_NAMES[month - 1]} ${year}`
+}
+
+/** Format a date as `12.02.1809` */
+export function formatDottedDate({ year, month, day }: CalendarDate): string {
+  return `${String(day).padStart(2, '0')}.${String(month).padStart(2, '0')}.${year}`
+}
+
+/** Format a time as `HH:MM:SS` */
+export function formatClockTime({ hour, minute, second }: ClockTime): string {
+  return [hour, minute, second].map((n) => String(n).padStart(2, '0')).join(':')
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Ratings and places
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Normalize a Rodden rating such as `aa`, `RR: AA` or `Rodden rating: X`.
+ * Returns null for empty or unrecognized values.
+ */
+export function normalizeRoddenRating(value: string | null | undefined): RodensRating | null {
+  if (!value) return null
+  const code = value
+    .trim()
+    .replace(/^(?:rr|rodden(?:\s+rating)?|rating)\s*[:=]?\s*/i, '')
+    .toUpperCase()
+  return code in RODEN_RATING_MAP ? (code as RodensRating) : null
+}
+
+/**
+ * Map a country name or ISO code to the ISO code used by the subject form;
+ * unknown values are returned trimmed.
+ */
+export function normalizeNation(value: string | null | undefined): string {
+  const raw = value?.trim() ?? ''
+  const lower = raw.toLowerCase()
+  const match = COUNTRY_OPTIONS.find((c) => c.code.toLowerCase() === lower || c.name.toLowerCase() === lower)
+  return match?.code ?? raw
+}
+
+/** Country name for an ISO code, or the value itself when unknown */
+export function nationName(value: string): string {
+  return COUNTRY_OPTIONS.find((c) => c.code === value)?.name ?? value
+}
+
+/**
+ * Split a single place field ("Rome, Lazio, Italy") into city and nation
+ */
+export function splitPlace(place: string): { city: string; nation: string } {
+  const segments = place
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+  if (segments.length < 2) return { city: segments[0] ?? '', nation: '' }
+  return { city: segments[0] as string, nation: segments[segments.length - 1] as string }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Conversion
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Convert a parsed record into subject input.
+ *
+ * An IANA timezone wins over a bare offset. Whole-hour offsets map to
+ * `Etc/GMT` zones; other offsets (LMT, half hours) are converted to UT and
+ * stored with the `UTC` zone, which yields the same chart.
+ *
+ * @throws Error for data the subject cannot be created from
+ */
+export function toSubjectInput(record: BirthDataRecord): { data: CreateSubjectInput; warnings: string[] } {
+  const warnings: string[] = []
+
+  const name = record.name.trim()
+  if (!name) throw new Error('Missing name')
+  const city = record.city?.trim()
+  if (!city) throw new Error('Missing place')
+  const nation = normalizeNation(record.nation)
+  if (!nation) throw new Error('Missing country')
+
+  let time = record.time
+  if (!time) {
+    time = { hour: 12, minute: 0, second: 0 }
+    warnings.push('Birth time unknown, using 12:00')
+  }
+  let wallClock = toUtcDate(record.date, time)
+  if (!wallClock) throw new Error(`Invalid date: ${formatDottedDate(record.date)}`)
+
+  const offset = record.utcOffsetMinutes ?? null
+  let timezone: string
+  if (record.timezone) {
+    if (!isKnownTimezone(record.timezone)) throw new Error(`Unknown time zone "${record.timezone}"`)
+    timezone = record.timezone
+    if (offset !== null && Math.abs(getTimezoneOffsetMinutes(timezone, wallClock) - offset) >= 1) {
+      warnings.push(`Offset ${formatUtcOffset(offset)} does not match ${timezone}; using ${timezone}`)
+    }
+  } else if (offset !== null) {
+    const fixed = fixedOffsetTimezone(offset)
+    if (fixed) {
+      timezone = fixed
+    } else {
+      wallClock = new Date(wallClock.getTime() - Math.round(offset * 60) * 1000)
+      timezone = 'UTC'
+      warnings.push(`Offset ${formatUtcOffset(offset)} has no IANA zone; birth time converted to UT`)
+    }
+  } else {
+    throw new Error('Missing time zone')
+  }
+
+  const rodens_rating = normalizeRoddenRating(record.rating)
+  if (record.rating?.trim() && !rodens_rating) {
+    warnings.push(`Unknown Rodden rating "${record.rating.trim()}" ignored`)
+  }
+
+  const data: CreateSubjectInput = {
+    name,
+    birthDate: wallClock.toISOString(),
+    birthTime: extractUTCTime(wallClock),
+    city,
+    nation,
+    latitude: record.latitude,
+    longitude: record.longitude,
+    timezone,
+    rodens_rating,
+    tags: record.tags?.length ? record.tags : null,
+    notes: record.notes?.trim() || '',
+  }
+  return { data, warnings }
+}
+
+/**
+ * Run a per-entry parser and wrap its outcome in a {@link ParseResult},
+ * prefixing errors and warnings with the row number like the CSV importer
+ */
+export function toParseResult(rowNumber: number, parse: () => BirthDataRecord): ParseResult {
+  try {
+    const { data, warnings } = toSubjectInput(parse())
+    return {
+      success: true,
+      data,
+      warnings: warnings.length ? warnings.map((w) => `Row ${rowNumber}: ${w}`) : undefined,
+    }
+  } catch (err) {
+    return { success: false, error: `Row ${rowNumber}: ${(err as Error).message}` }
+  }
+}
+
+/**
+ * Convert a stored subject into a record for the writers
+ */
+export function subjectToBirthData(subject: Subject): BirthDataRecord {
+  const wallClock = new Date(subject.birth_datetime)
+  let utcOffsetMinutes = 0
+  try {
+    utcOffsetMinutes = getTimezoneOffsetMinutes(subject.timezone, wallClock)
+  } catch {
+    // Unknown zones are written as UT
+  }
+
+  return {
+    name: subject.name,
+    date: {
+      year: wallClock.getUTCFullYear(),
+      month: wallClock.getUTCMonth() + 1,
+      day: wallClock.getUTCDate(),
+    },
+    time: {
+      hour: wallClock.getUTCHours(),
+      minute: wallClock.getUTCMinutes(),
+      second: wallClock.getUTCSeconds(),
+    },
+    utcOffsetMinutes,
+    timezone: subject.timezone,
+    city: subject.city,
+    nation: subject.nation,
+    latitude: subject.latitude,
+    longitude: subject.longitude,
+    rating: subject.rodens_rating ?? null,
+    notes: subject.notes ?? null,
+    tags: subject.tags ?? null,
+  }
+}
+
+/**
+ * UT instant of a record's local time, in milliseconds
+ */
+export function recordToUtcMillis(record: BirthDataRecord): number {
+  const wallClock = toUtcDate(record.date, record.time ?? undefined)
+  if (!wallClock) throw new Error(`Invalid date: ${formatDottedDate(record.date)}`)
+  return wallClock.getTime() - Math.round((record.utcOffsetMinutes ?? 0) * 60) * 1000
+}
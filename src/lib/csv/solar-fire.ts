@@ -0,0 +1,187 @@
+/**
+ * Solar Fire text chart export import and export
+ *
+ * Solar Fire writes one `Key: value` block per chart, separated by blank lines.
+ * Zones follow the Solar Fire convention of hours WEST of Greenwich, so New
+ * York is `+05:00` and Rome `-01:00`:
+ *
+ * ```
+ * Name: Abraham Lincoln
+ * Date: 12 February 1809
+ * Time: 6:54 am
+ * Zone: +05:43 (LMT)
+ * Place: Hodgenville, Kentucky
+ * Country: USA
+ * Latitude: 37N34'00"
+ * Longitude: 85W44'00"
+ * Rating: AA
+ * ```
+ *
+ * Continuation lines (indented, or without a known key) extend the previous value.
+ *
+ * @module lib/csv/solar-fire
+ */
+
+import type { Subject } from '@/types/subjects'
+import type { ParseResult } from './subjects'
+import { parseTags } from './subjects'
+import {
+  formatClockTime,
+  formatCoordinate,
+  formatLongDate,
+  formatUtcOffset,
+  isKnownTimezone,
+  nationName,
+  parseCalendarDate,
+  parseClockTime,
+  parseCoordinate,
+  parseUtcOffset,
+  splitPlace,
+  subjectToBirthData,
+  toParseResult,
+  type BirthDataRecord,
+} from './interchange'
+
+type SolarFireField =
+  | 'name'
+  | 'firstName'
+  | 'lastName'
+  | 'date'
+  | 'time'
+  | 'zone'
+  | 'place'
+  | 'country'
+  | 'latitude'
+  | 'longitude'
+  | 'rating'
+  | 'tags'
+  | 'notes'
+
+/** Key spellings seen in Solar Fire exports, lowercased */
+const FIELD_KEYS: Record<string, SolarFireField> = {
+  name: 'name',
+  'chart name': 'name',
+  'first name': 'firstName',
+  'last name': 'lastName',
+  surname: 'lastName',
+  date: 'date',
+  'birth date': 'date',
+  time: 'time',
+  'birth time': 'time',
+  zone: 'zone',
+  'time zone': 'zone',
+  timezone: 'zone',
+  place: 'place',
+  location: 'place',
+  city: 'place',
+  country: 'country',
+  latitude: 'latitude',
+  lat: 'latitude',
+  longitude: 'longitude',
+  long: 'longitude',
+  lon: 'longitude',
+  rating: 'rating',
+  'source rating': 'rating',
+  'rodden rating': 'rating',
+  categories: 'tags',
+  tags: 'tags',
+  notes: 'notes',
+  comments: 'notes',
+}
+
+interface SolarFireBlock {
+  line: number
+  values: Partial<Record<SolarFireField, string>>
+}
+
+function parseBlock({ values }: SolarFireBlock): BirthDataRecord {
+  const name = values.name?.trim() || [values.firstName, values.lastName].filter(Boolean).join(' ').trim()
+  if (!name) throw new Error('Missing name')
+  if (!values.date) throw new Error('Missing date')
+
+  const place = values.place ?? ''
+  const { city, nation } = values.country ? { city: place.trim(), nation: values.country } : splitPlace(place)
+
+  // A parenthesized zone name written by our export restores the IANA zone
+  const zone = values.zone ?? ''
+  const zoneName = zone.match(/\(([^)]+)\)/)?.[1]?.trim()
+  if (!zone.trim()) throw new Error('Missing time zone')
+
+  return {
+    name,
+    date: parseCalendarDate(values.date, 'dmy'),
+    time: parseClockTime(values.time ?? ''),
+    utcOffsetMinutes: parseUtcOffset(zone.replace(/\([^)]*\)/g, ''), { westPositive: true }),
+    timezone: zoneName && zoneName.includes('/') && isKnownTimezone(zoneName) ? zoneName : null,
+    city,
+    nation,
+    latitude: values.latitude ? parseCoordinate(values.latitude, 'latitude') : undefined,
+    longitude: values.longitude ? parseCoordinate(values.longitude, 'longitude') : undefined,
+    rating: values.rating ?? null,
+    tags: parseTags(values.tags),
+    notes: values.notes ?? null,
+  }
+}
+
+/**
+ * Parse a Solar Fire text export into subject inputs, one result per block.
+ * Errors are reported with the line number where the block starts.
+ */
+export function parseSolarFire(text: string): ParseResult[] {
+  const blocks: SolarFireBlock[] = []
+  let current: SolarFireBlock | null = null
+  let lastField: SolarFireField | null = null
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    if (!rawLine.trim()) {
+      current = null
+      lastField = null
+      return
+    }
+
+    const match = rawLine.match(/^([A-Za-z][A-Za-z ]*?)\s*:\s*(.*)$/)
+    const field = match && !/^\s/.test(rawLine) ? FIELD_KEYS[(match[1] as string).toLowerCase()] : undefined
+
+    if (!current) {
+      current = { line: index + 1, values: {} }
+      blocks.push(current)
+    }
+    if (field) {
+      current.values[field] = (match?.[2] as string).trim()
+      lastField = field
+    } else if (lastField) {
+      // Continuation of a multi-line value such as notes
+      current.values[lastField] = `${current.values[lastField] ?? ''}\n${rawLine.trim()}`.trim()
+    }
+  })
+
+  return blocks.map((block) => toParseResult(block.line, () => parseBlock(block)))
+}
+
+/**
+ * Write subjects as Solar Fire text blocks. The IANA zone is appended in
+ * parentheses after the offset so that re-importing keeps it.
+ */
+export function writeSolarFire(subjects: Subject[]): string {
+  const blocks = subjects.map((subject) => {
+    const record = subjectToBirthData(subject)
+    const lines = [
+      `Name: ${record.name}`,
+      `Date: ${formatLongDate(record.date)}`,
+      `Time: ${formatClockTime(record.time ?? { hour: 12, minute: 0, second: 0 })}`,
+      `Zone: ${formatUtcOffset(record.utcOffsetMinutes ?? 0, { westPositive: true })} (${record.timezone})`,
+      `Place: ${record.city ?? ''}`,
+      `Country: ${nationName(record.nation ?? '')}`,
+      `Latitude: ${formatCoordinate(record.latitude ?? 0, 'latitude', { uppercase: true, seconds: true })}`,
+      `Longitude: ${formatCoordinate(record.longitude ?? 0, 'longitude', { uppercase: true, seconds: true })}`,
+    ]
+    if (record.rating) lines.push(`Rating: ${record.rating}`)
+    if (record.tags?.length) lines.push(`Categories: ${record.tags.join(', ')}`)
+    if (record.notes?.trim()) {
+      const [first, ...rest] = record.notes.trim().split(/\r?\n/)
+      lines.push(`Notes: ${first}`, ...rest.filter((l) => l.trim()).map((l) => `  ${l.trim()}`))
+    }
+    return lines.join('\n')
+  })
+  return blocks.join('\n\n') + '\n'
+}
@@ -47,6 +47,8 @@ export interface ParseResult {
   success: boolean
   data?: CreateSubjectInput
   error?: string
+  /** Non-fatal notes about how the row was interpreted, e.g. an unknown Rodden rating */
+  warnings?: string[]
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,104 @@
+/**
+ * ZET / Kepler style text list import and export
+ *
+ * One chart per line, fields separated by semicolons or tabs:
+ *
+ * ```
+ * name;date;time;zone;place;latitude;longitude[;rating[;notes]]
+ * Giulia Rossi;12.03.1985;14:30;+1;Rome, Italy;41n54;12e29;AA;Referral
+ * ```
+ *
+ * Dates are day-first, zones are hours EAST of Greenwich including daylight
+ * saving, and the place ends with the country. Lines starting with `#` or
+ * `//` are comments; a header line is skipped.
+ *
+ * @module lib/csv/zet
+ */
+
+import type { Subject } from '@/types/subjects'
+import type { ParseResult } from './subjects'
+import {
+  formatClockTime,
+  formatCoordinate,
+  formatDottedDate,
+  formatUtcOffset,
+  parseCalendarDate,
+  parseClockTime,
+  parseCoordinate,
+  parseUtcOffset,
+  splitPlace,
+  subjectToBirthData,
+  toParseResult,
+  type BirthDataRecord,
+} from './interchange'
+
+const ZET_HEADER = '# name;date;time;zone;place;latitude;longitude;rating;notes'
+
+function parseLine(fields: string[]): BirthDataRecord {
+  if (fields.length < 7) throw new Error(`Expected at least 7 fields, found ${fields.length}`)
+  const [name = '', date = '', time = '', zone = '', place = '', latitude = '', longitude = '', rating, ...notes] =
+    fields.map((f) => f.trim())
+
+  return {
+    name,
+    date: parseCalendarDate(date, 'dmy'),
+    time: parseClockTime(time),
+    utcOffsetMinutes: parseUtcOffset(zone),
+    ...splitPlace(place),
+    latitude: parseCoordinate(latitude, 'latitude'),
+    longitude: parseCoordinate(longitude, 'longitude'),
+    rating: rating || null,
+    // Notes may themselves contain the separator
+    notes: notes.join('; ') || null,
+  }
+}
+
+/**
+ * Parse a ZET/Kepler text list into subject inputs, one result per chart line.
+ * Errors are reported with the line number.
+ */
+export function parseZET(text: string): ParseResult[] {
+  const results: ParseResult[] = []
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#') || line.startsWith('//')) return
+
+    const fields = line.split(line.includes('\t') ? '\t' : ';')
+    // Header row: the date column has no digits
+    if (results.length === 0 && !/\d/.test(fields[1] ?? '')) return
+
+    results.push(toParseResult(index + 1, () => parseLine(fields)))
+  })
+
+  return results
+}
+
+/** Fields cannot contain the separator or line breaks */
+function clean(value: string | null | undefined): string {
+  return (value ?? '')
+    .replace(/[;\t\r\n]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Write subjects as a semicolon-separated ZET/Kepler list with a header comment
+ */
+export function writeZET(subjects: Subject[]): string {
+  const lines = subjects.map((subject) => {
+    const record = subjectToBirthData(subject)
+    return [
+      clean(record.name),
+      formatDottedDate(record.date),
+      formatClockTime(record.time ?? { hour: 12, minute: 0, second: 0 }),
+      formatUtcOffset(record.utcOffsetMinutes ?? 0),
+      clean([record.city, record.nation].filter(Boolean).join(', ')),
+      formatCoordinate(record.latitude ?? 0, 'latitude', { seconds: true }),
+      formatCoordinate(record.longitude ?? 0, 'longitude', { seconds: true }),
+      record.rating ?? '',
+      clean(record.notes),
+    ].join(';')
+  })
+  return [ZET_HEADER, ...lines].join('\n') + '\n'
+}
@@ -0,0 +1,231 @@
+import 'server-only'
+
+/**
+ * Chart preferences storage
+ *
+ * Loading is shared by the preferences server action, which reads the
+ * session, and the public API, which authenticates with access tokens.
+ *
+ * @module lib/db/chart-preferences
+ */
+
+import { prisma } from '@/lib/db/prisma'
+import { DEFAULT_ACTIVE_ASPECTS, isMajorAspect } from '@/lib/astrology/aspects'
+import { logger } from '@/lib/logging/server'
+import type { ChartLayout } from '@/lib/astrology/vedic'
+
+/**
+ * Chart preferences data structure
+ */
+export interface ChartPreferencesData {
+  /** Visual theme (classic, dark, light, etc.) */
+  theme: string
+
+  /** Date display format (US, EU, ISO) */
+  date_format: 'US' | 'EU' | 'ISO'
+  /** Time display format (12h, 24h) */
+  time_format: '12h' | '24h'
+  /** Show aspect icons on aspect lines */
+  show_aspect_icons: boolean
+
+  show_degree_indicators: boolean
+  /** Layout of the main chart (Western wheel, South or North Indian square) */
+  chart_layout: ChartLayout
+  /** Element/quality distribution calculation method */
+  distribution_method: string
+  /** List of celestial points to include */
+  active_points: string[]
+  /** Aspect configuration */
+  active_aspects: { name: string; orb: number }[]
+  /** Custom weights for distribution */
+  custom_distribution_weights: Record<string, number>
+
+  /** Zodiac system (Tropical or Sidereal) */
+  default_zodiac_system: string
+  /** Sidereal mode (ayanamsa) if zodiac system is Sidereal */
+  /** Sidereal mode (ayanamsa) if zodiac system is Sidereal */
+  default_sidereal_mode: string
+  /** House system (Placidus, etc.) */
+  house_system: string
+  /** Perspective type (Geocentric, Heliocentric) */
+  perspective_type: string
+  /** Rulership system (classical, modern) */
+  rulership_mode: 'classical' | 'modern'
+}
+
+/**
+ * Get the chart preferences of a user, creating defaults if they don't exist
+ *
+ * @param userId - Owner of the preferences
+ * @returns The preferences, or null if the user does not exist or they cannot be loaded
+ *
+ * @remarks
+ * - Fills in missing critical fields (points, aspects, house system, perspective, zodiac)
+ * - Parses JSON fields (active_points, active_aspects)
+ * - Maps legacy house system and perspective names
+ */
+export async function loadChartPreferences(userId: string): Promise<ChartPreferencesData | null> {
+  try {
+    let prefs = await prisma.chartPreferences.findUnique({
+      where: { userId: userId },
+    })
+
+    const defaultActivePoints = [
+      'Sun',
+      'Moon',
+      'Mercury',
+      'Venus',
+      'Mars',
+      'Jupiter',
+      'Saturn',
+      'Uranus',
+      'Neptune',
+      'Pluto',
+      'True_North_Lunar_Node',
+      'True_South_Lunar_Node',
+      'Ascendant',
+      'Medium_Coeli',
+    ]
+
+    const defaultDistributionWeights = {
+      sun: 2,
+      moon: 2,
+      mercury: 1.5,
+      venus: 1.5,
+      mars: 1.5,
+      jupiter: 1,
+      saturn: 1,
+      ascendant: 2,
+      medium_coeli: 1.5,
+    }
+
+    // If no preferences exist, create them
+    // If no preferences exist, create them
+    if (!prefs) {
+      // Verify user exists before creating preferences to avoid FK violation
+      const userExists = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true },
+      })
+
+      if (!userExists) {
+        return null
+      }
+
+      prefs = await prisma.chartPreferences.create({
+        data: {
+          userId: userId,
+          theme: 'classic',
+          show_aspect_icons: true,
+
+          distribution_method: 'weighted',
+          active_points: JSON.stringify(defaultActivePoints),
+          active_aspects: JSON.stringify(DEFAULT_ACTIVE_ASPECTS.filter((a) => isMajorAspect(a.name))),
+          custom_distribution_weights: JSON.stringify(defaultDistributionWeights),
+
+          default_zodiac_system: 'Tropical',
+          default_sidereal_mode: 'LAHIRI',
+          house_system: 'P',
+
+          perspective_type: 'Apparent Geocentric',
+          rulership_mode: 'classical',
+        },
+      })
+    } else {
+      // Check if critical fields are missing or empty
+      const needsUpdate =
+        !prefs.active_points ||
+        !prefs.active_aspects ||
+        !prefs.house_system ||
+        !prefs.perspective_type ||
+        !prefs.default_zodiac_system
+
+      if (needsUpdate) {
+        prefs = await prisma.chartPreferences.update({
+          where: { userId: userId },
+          data: {
+            active_points: !prefs.active_points ? JSON.stringify(defaultActivePoints) : prefs.active_points,
+            active_aspects: !prefs.active_aspects
+              ? JSON.stringify(DEFAULT_ACTIVE_ASPECTS.filter((a) => isMajorAspect(a.name)))
+              : prefs.active_aspects,
+            house_system: prefs.house_system || 'P',
+            perspective_type: prefs.perspective_type || 'Apparent Geocentric',
+            default_zodiac_system: prefs.default_zodiac_system || 'Tropical',
+            theme: prefs.theme || 'classic',
+
+            distribution_method: prefs.distribution_method || 'weighted',
+            rulership_mode: prefs.rulership_mode || 'classical',
+          },
+        })
+      }
+    }
+
+    return {
+      theme: prefs.theme,
+      date_format: (prefs.date_format as 'US' | 'EU' | 'ISO') ?? 'EU',
+      time_format: (prefs.time_format as '12h' | '24h') ?? '24h',
+      show_aspect_icons: prefs.show_aspect_icons ?? true,
+
+      show_degree_indicators: prefs.show_degree_indicators ?? true,
+      chart_layout: (prefs.chart_layout as ChartLayout) ?? 'western',
+      distribution_method: prefs.distribution_method,
+      active_points: prefs.active_points ? JSON.parse(prefs.active_points) : [],
+      active_aspects: prefs.active_aspects ? JSON.parse(prefs.active_aspects) : [],
+      custom_distribution_weights: prefs.custom_distribution_weights
+        ? JSON.parse(prefs.custom_distribution_weights)
+        : {},
+
+      default_zodiac_system: prefs.default_zodiac_system,
+      default_sidereal_mode: prefs.default_sidereal_mode,
+      house_system: mapLegacyHouseSystem(prefs.house_system),
+      perspective_type: mapLegacyPerspective(prefs.perspective_type),
+      rulership_mode: (prefs.rulership_mode as 'classical' | 'modern') || 'classical',
+    } as ChartPreferencesData
+  } catch (error) {
+    logger.error('Failed to get chart preferences', error)
+    return null
+  }
+}
+
+function mapLegacyHouseSystem(value: string | null): string {
+  if (!value) {
+    logger.error('Missing required preference: house_system is null or empty', { field: 'house_system' })
+    throw new Error('Impossibile caricare le preferenze. Riprova più tardi.')
+  }
+
+  // Map legacy full names to codes
+  switch (value) {
+    case 'Placidus':
+      return 'P'
+    case 'Koch':
+      return 'K'
+    case 'Whole_Sign':
+      return 'W'
+    case 'Equal':
+      return 'A'
+    case 'Regiomontanus':
+      return 'R'
+    case 'Campanus':
+      return 'C'
+    case 'Porphyry':
+      return 'O'
+    case 'Morinus':
+      return 'M'
+    case 'Topocentric':
+      return 'T'
+    case 'Alcabitius':
+      return 'B'
+    default:
+      return value // Assume it's already a code if not matching legacy names
+  }
+}
+
+function mapLegacyPerspective(value: string | null): string {
+  if (!value) {
+    logger.error('Missing required preference: perspective_type is null or empty', { field: 'perspective_type' })
+    throw new Error('Impossibile caricare le preferenze. Riprova più tardi.')
+  }
+
+  if (value === 'Geocentric') return 'Apparent Geocentric'
+  return value
+}
@@ -0,0 +1,34 @@
+import 'server-only'
+
+/**
+ * Chart calculation usage counters, per user, day and chart type
+ *
+ * @module lib/db/chart-usage
+ */
+
+import { prisma } from '@/lib/db/prisma'
+
+/**
+ * Count a chart calculation of a user for today (UTC)
+ *
+ * @param userId - User who calculated the chart
+ * @param chartType - Chart type identifier, e.g. "natal"
+ */
+export async function recordChartCalculation(userId: string, chartType: string): Promise<void> {
+  const today = new Date().toISOString().split('T')[0]!
+
+  await prisma.chartCalculationUsage.upsert({
+    where: {
+      userId_date_chartType: { userId, date: today, chartType },
+    },
+    update: {
+      count: { increment: 1 },
+    },
+    create: {
+      userId,
+      date: today,
+      chartType,
+      count: 1,
+    },
+  })
+}
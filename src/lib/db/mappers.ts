@@ -1,5 +1,14 @@
-import type { Subject as PrismaSubject } from '@prisma/client'
-import type { Subject } from '@/types/subjects'
+import type { Subject as PrismaSubject, Tag as PrismaTag, SubjectGroup as PrismaSubjectGroup } from '@prisma/client'
+import type { Subject, SubjectTag, SubjectGroup } from '@/types/subjects'
+
+/**
+ * Prisma Subject with the relations loaded by subject actions.
+ * Relations are optional so that bare rows can still be mapped.
+ */
+export type PrismaSubjectWithRelations = PrismaSubject & {
+  tags?: Pick<PrismaTag, 'name'>[]
+  groups?: Pick<PrismaSubjectGroup, 'id'>[]
+}
 
 /**
  * Maps a Prisma Subject to the application Subject type
@@ -11,24 +20,42 @@ import type { Subject } from '@/types/subjects'
  * @remarks
  * - Converts Date to ISO string
  * - Handles null values with defaults
- * - Parses JSON tags field
+ * - Flattens tag relations to tag names and group relations to group IDs
  *
  * @example
  * ```ts
- * const dbSubject = await prisma.subject.findUnique({ where: { id } })
+ * const dbSubject = await prisma.subject.findUnique({ where: { id }, include: subjectInclude })
  * const subject = mapPrismaSubjectToSubject(dbSubject)
  * ```
  */
-export function mapPrismaSubjectToSubject(prismaSubject: PrismaSubject): Subject {
+export function mapPrismaSubjectToSubject(prismaSubject: PrismaSubjectWithRelations): Subject {
+  const { tags, groups, ...subject } = prismaSubject
   return {
-    ...prismaSubject,
-    birth_datetime: prismaSubject.birthDatetime.toISOString(),
-    city: prismaSubject.city ?? '',
-    nation: prismaSubject.nation ?? '',
-    latitude: prismaSubject.latitude ?? 0,
-    longitude: prismaSubject.longitude ?? 0,
-    timezone: prismaSubject.timezone ?? 'UTC',
-    rodens_rating: prismaSubject.rodensRating as Subject['rodens_rating'],
-    tags: prismaSubject.tags ? JSON.parse(prismaSubject.tags) : null,
+    ...subject,
+    birth_datetime: subject.birthDatetime.toISOString(),
+    city: subject.city ?? '',
+    nation: subject.nation ?? '',
+    latitude: subject.latitude ?? 0,
+    longitude: subject.longitude ?? 0,
+    timezone: subject.timezone ?? 'UTC',
+    rodens_rating: subject.rodensRating as Subject['rodens_rating'],
+    tags: tags && tags.length > 0 ? tags.map((tag) => tag.name) : null,
+    groupIds: groups?.map((group) => group.id) ?? [],
   }
 }
+
+/**
+ * Maps a Prisma Tag with its subject count to the application SubjectTag type
+ */
+export function mapPrismaTagToSubjectTag(tag: PrismaTag & { _count: { subjects: number } }): SubjectTag {
+  return { id: tag.id, name: tag.name, subjectCount: tag._count.subjects }
+}
+
+/**
+ * Maps a Prisma SubjectGroup with its subject count to the application SubjectGroup type
+ */
+export function mapPrismaGroupToSubjectGroup(
+  group: PrismaSubjectGroup & { _count: { subjects: number } },
+): SubjectGroup {
+  return { id: group.id, name: group.name, description: group.description, subjectCount: group._count.subjects }
+}
@@ -0,0 +1,248 @@
+/**
+ * Minimal Redis Client
+ *
+ * A small client for the Redis serialization protocol (RESP2) over a single
+ * TCP or TLS connection, enough to run commands and Lua scripts against
+ * Redis, Valkey, KeyDB, Dragonfly or any other server speaking the protocol.
+ * Commands are pipelined on one connection and their replies matched in order.
+ *
+ * @remarks
+ * - Connects lazily on the first command and reconnects after the socket closes
+ * - Supports `redis://` and `rediss://` (TLS) URLs with username, password and database
+ * - The socket is unref'd so it never keeps the process alive
+ * - Uses a singleton per process, like the Prisma client
+ *
+ * @example
+ * ```ts
+ * import { getRedisClient } from '@/lib/db/redis'
+ *
+ * const count = await getRedisClient().command('INCR', 'visits')
+ * ```
+ *
+ * @module lib/db/redis
+ */
+import net from 'node:net'
+import tls from 'node:tls'
+
+// ============================================================================
+// PROTOCOL
+// ============================================================================
+
+/** A decoded RESP reply */
+export type RedisReply = string | number | null | RedisReply[]
+
+/** An error reply sent by the server, or a connection failure */
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RedisError'
+  }
+}
+
+/**
+ * Encodes a command as a RESP array of bulk strings.
+ *
+ * @param args - Command name followed by its arguments
+ * @returns The encoded command
+ */
+export function encodeCommand(args: (string | number)[]): Buffer {
+  const parts = [`*${args.length}\r\n`]
+  for (const arg of args) {
+    const value = String(arg)
+    parts.push(`$${Buffer.byteLength(value)}\r\n${value}\r\n`)
+  }
+  return Buffer.from(parts.join(''))
+}
+
+/**
+ * Decodes one reply from a buffer.
+ *
+ * @param buffer - Received bytes
+ * @param offset - Position of the reply in the buffer
+ * @returns The reply (error replies as {@link RedisError}) and the position after it,
+ * or `undefined` when the buffer does not hold the whole reply yet
+ */
+export function parseReply(buffer: Buffer, offset = 0): { value: RedisReply | RedisError; offset: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset)
+  if (lineEnd === -1) return undefined
+
+  const type = String.fromCharCode(buffer[offset]!)
+  const line = buffer.toString('utf8', offset + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next }
+    case '-':
+      return { value: new RedisError(line), offset: next }
+    case ':':
+      return { value: Number(line), offset: next }
+    case '$': {
+      const length = Number(line)
+      if (length < 0) return { value: null, offset: next }
+      if (buffer.length < next + length + 2) return undefined
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 }
+    }
+    case '*': {
+      const count = Number(line)
+      if (count < 0) return { value: null, offset: next }
+      const items: RedisReply[] = []
+      let position = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position)
+        if (!item) return undefined
+        // An error nested in an array (e.g. from EXEC) is surfaced as its message
+        items.push(item.value instanceof RedisError ? item.value.message : item.value)
+        position = item.offset
+      }
+      return { value: items, offset: position }
+    }
+    default:
+      throw new RedisError(`Unexpected reply type "${type}"`)
+  }
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+/** Time a command may wait for its reply before the connection is dropped */
+const COMMAND_TIMEOUT_MS = 5000
+
+interface PendingCommand {
+  resolve: (value: RedisReply) => void
+  reject: (error: Error) => void
+}
+
+export class RedisClient {
+  private readonly url: URL
+  private socket: net.Socket | null = null
+  private buffer: Buffer = Buffer.alloc(0)
+  private pending: PendingCommand[] = []
+
+  /**
+   * @param url - Connection URL, e.g. `redis://:password@localhost:6379/0`
+   */
+  constructor(url: string) {
+    this.url = new URL(url)
+    if (this.url.protocol !== 'redis:' && this.url.protocol !== 'rediss:') {
+      throw new RedisError(`Unsupported Redis URL protocol "${this.url.protocol}"`)
+    }
+  }
+
+  /**
+   * Sends a command and waits for its reply.
+   *
+   * @param args - Command name followed by its arguments
+   * @returns The decoded reply
+   * @throws {RedisError} On an error reply or a connection failure
+   */
+  command(...args: (string | number)[]): Promise<RedisReply> {
+    const socket = this.socket ?? this.connect()
+    return this.send(socket, args)
+  }
+
+  /** Closes the connection, failing commands still waiting; the next command reconnects */
+  close(): void {
+    this.socket?.destroy()
+    this.socket = null
+    this.failPending(new RedisError('Redis connection closed'))
+  }
+
+  private send(socket: net.Socket, args: (string | number)[]): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject })
+      socket.setTimeout(COMMAND_TIMEOUT_MS)
+      socket.write(encodeCommand(args))
+    })
+  }
+
+  private connect(): net.Socket {
+    const port = Number(this.url.port) || 6379
+    const host = this.url.hostname || 'localhost'
+    const socket =
+      this.url.protocol === 'rediss:' ? tls.connect({ host, port, servername: host }) : net.connect({ host, port })
+    socket.unref()
+    this.socket = socket
+    this.buffer = Buffer.alloc(0)
+
+    socket.on('data', (chunk: Buffer) => this.onData(chunk))
+    socket.on('timeout', () => socket.destroy(new RedisError('Redis command timed out')))
+    // Failures of a connection already replaced by close() must not reject the new one's commands
+    socket.on('error', (error) => {
+      if (this.socket === socket) this.failPending(error)
+    })
+    socket.on('close', () => {
+      if (this.socket !== socket) return
+      this.socket = null
+      this.failPending(new RedisError('Redis connection closed'))
+    })
+
+    // Written ahead of the first command; the socket queues writes until connected
+    const password = decodeURIComponent(this.url.password)
+    const username = decodeURIComponent(this.url.username)
+    if (password) {
+      void this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password]).catch((error: Error) =>
+        socket.destroy(error),
+      )
+    }
+    const database = Number(this.url.pathname.slice(1))
+    if (database) {
+      void this.send(socket, ['SELECT', database]).catch((error: Error) => socket.destroy(error))
+    }
+
+    return socket
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk
+
+    let offset = 0
+    while (offset < this.buffer.length) {
+      let reply: ReturnType<typeof parseReply>
+      try {
+        reply = parseReply(this.buffer, offset)
+      } catch (error) {
+        this.socket?.destroy(error as Error)
+        return
+      }
+      if (!reply) break
+
+      offset = reply.offset
+      const command = this.pending.shift()
+      if (reply.value instanceof RedisError) command?.reject(reply.value)
+      else command?.resolve(reply.value)
+    }
+    this.buffer = this.buffer.subarray(offset)
+
+    // No reply outstanding: an idle connection must not time out
+    if (this.pending.length === 0) this.socket?.setTimeout(0)
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending
+    this.pending = []
+    for (const command of pending) command.reject(error)
+  }
+}
+
+/**
+ * Global reference to reuse the client across hot reloads in development.
+ */
+const globalForRedis = globalThis as unknown as {
+  redis: RedisClient | undefined
+}
+
+/**
+ * Returns the shared client for `REDIS_URL`.
+ *
+ * @throws {RedisError} When `REDIS_URL` is not set
+ */
+export function getRedisClient(): RedisClient {
+  if (!globalForRedis.redis) {
+    const url = process.env.REDIS_URL
+    if (!url) throw new RedisError('REDIS_URL is not set')
+    globalForRedis.redis = new RedisClient(url)
+  }
+  return globalForRedis.redis
+}
@@ -0,0 +1,849 @@
+/**
+ * Positions of the Sun, Moon, planets and lunar points for the local ephemeris
+ *
+ * Analytic series that need no data files, accurate enough to cast a chart
+ * when the Astrologer API cannot be reached:
+ *
+ * - Sun: Meeus, Astronomical Algorithms, ch. 25 (about 0.01°)
+ * - Moon: Meeus ch. 47, the full ELP-2000/82 truncation (about 10″)
+ * - Mercury to Neptune: osculating elements with the main Jupiter, Saturn and
+ *   Uranus perturbations (Paul Schlyter), corrected for light-time (about 1–2′)
+ * - Pluto: Schlyter's periodic series, valid 1800–2100 (a few arcminutes
+ *   near 2000, about 20′ by 1850)
+ * - Lunar nodes and mean Lilith: Meeus ch. 47 mean elements
+ *
+ * Longitudes are apparent, tropical and referred to the true equinox of date,
+ * like the API's default "Apparent Geocentric" perspective.
+ *
+ * @module lib/ephemeris/astronomy
+ */
+
+import { normalizeDegrees, signedDelta } from '@/lib/astrology/transit-timeline'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Bodies and lunar points computed by the local ephemeris
+ */
+export type EphemerisBody =
+  | 'sun'
+  | 'moon'
+  | 'mercury'
+  | 'venus'
+  | 'mars'
+  | 'jupiter'
+  | 'saturn'
+  | 'uranus'
+  | 'neptune'
+  | 'pluto'
+  | 'mean_node'
+  | 'true_node'
+  | 'mean_lilith'
+
+/**
+ * Apparent geocentric position of a body
+ */
+export interface EclipticPosition {
+  /** Ecliptic longitude, 0-360 */
+  longitude: number
+  /** Ecliptic latitude */
+  latitude: number
+  /** Daily motion in longitude (negative when retrograde) */
+  speed: number
+  /** Declination north (+) or south (-) of the celestial equator */
+  declination: number
+}
+
+interface Spherical {
+  longitude: number
+  latitude: number
+  /** Distance in AU (km for the Moon) */
+  distance: number
+}
+
+interface OrbitalElements {
+  /** Longitude of the ascending node */
+  N: number
+  /** Inclination */
+  i: number
+  /** Argument of perihelion */
+  w: number
+  /** Semi-major axis in AU */
+  a: number
+  /** Eccentricity */
+  e: number
+  /** Mean anomaly */
+  M: number
+}
+
+type PlanetName = 'mercury' | 'venus' | 'mars' | 'jupiter' | 'saturn' | 'uranus' | 'neptune'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const EPHEMERIS_BODIES: readonly EphemerisBody[] = [
+  'sun',
+  'moon',
+  'mercury',
+  'venus',
+  'mars',
+  'jupiter',
+  'saturn',
+  'uranus',
+  'neptune',
+  'pluto',
+  'mean_node',
+  'true_node',
+  'mean_lilith',
+]
+
+/** Julian Day of the J2000.0 epoch */
+export const J2000 = 2451545.0
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const RAD = Math.PI / 180
+
+/** Light-time for one AU, in days */
+const LIGHT_TIME_DAYS_PER_AU = 0.0057755183
+
+/** Constant of aberration, in degrees */
+const ABERRATION = 20.49552 / 3600
+
+/** Half the interval used to measure speeds, in days */
+const SPEED_STEP_DAYS = 0.5
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const sin = (deg: number) => Math.sin(deg * RAD)
+const cos = (deg: number) => Math.cos(deg * RAD)
+const atan2 = (y: number, x: number) => Math.atan2(y, x) / RAD
+
+// ============================================================================
+// Time
+// ============================================================================
+
+/**
+ * Julian Day (UT) of an instant
+ */
+export function julianDay(date: Date): number {
+  return date.getTime() / DAY_MS + 2440587.5
+}
+
+/**
+ * Instant of a Julian Day (UT)
+ */
+export function dateFromJulianDay(jd: number): Date {
+  return new Date(Math.round((jd - 2440587.5) * DAY_MS))
+}
+
+/**
+ * Difference between Terrestrial Time and Universal Time, in seconds.
+ *
+ * Polynomial expressions of Espenak and Meeus (NASA Five Millennium Canon),
+ * which follow the observed values from 1620 and extrapolate outside.
+ *
+ * @param year - Decimal year, e.g. 1990.5
+ */
+export function deltaT(year: number): number {
+  if (year < -500 || year >= 2150) {
+    const u = (year - 1820) / 100
+    return -20 + 32 * u * u
+  }
+  if (year < 500) {
+    const u = year / 100
+    return (
+      10583.6 -
+      1014.41 * u +
+      33.78311 * u ** 2 -
+      5.952053 * u ** 3 -
+      0.1798452 * u ** 4 +
+      0.022174192 * u ** 5 +
+      0.0090316521 * u ** 6
+    )
+  }
+  if (year < 1600) {
+    const u = (year - 1000) / 100
+    return (
+      1574.2 -
+      556.01 * u +
+      71.23472 * u ** 2 +
+      0.319781 * u ** 3 -
+      0.8503463 * u ** 4 -
+      0.005050998 * u ** 5 +
+      0.0083572073 * u ** 6
+    )
+  }
+  if (year < 1700) {
+    const t = year - 1600
+    return 120 - 0.9808 * t - 0.01532 * t ** 2 + t ** 3 / 7129
+  }
+  if (year < 1800) {
+    const t = year - 1700
+    return 8.83 + 0.1603 * t - 0.0059285 * t ** 2 + 0.00013336 * t ** 3 - t ** 4 / 1174000
+  }
+  if (year < 1860) {
+    const t = year - 1800
+    return (
+      13.72 -
+      0.332447 * t +
+      0.0068612 * t ** 2 +
+      0.0041116 * t ** 3 -
+      0.00037436 * t ** 4 +
+      0.0000121272 * t ** 5 -
+      0.0000001699 * t ** 6 +
+      0.000000000875 * t ** 7
+    )
+  }
+  if (year < 1900) {
+    const t = year - 1860
+    return 7.62 + 0.5737 * t - 0.251754 * t ** 2 + 0.01680668 * t ** 3 - 0.0004473624 * t ** 4 + t ** 5 / 233174
+  }
+  if (year < 1920) {
+    const t = year - 1900
+    return -2.79 + 1.494119 * t - 0.0598939 * t ** 2 + 0.0061966 * t ** 3 - 0.000197 * t ** 4
+  }
+  if (year < 1941) {
+    const t = year - 1920
+    return 21.2 + 0.84493 * t - 0.0761 * t ** 2 + 0.0020936 * t ** 3
+  }
+  if (year < 1961) {
+    const t = year - 1950
+    return 29.07 + 0.407 * t - t ** 2 / 233 + t ** 3 / 2547
+  }
+  if (year < 1986) {
+    const t = year - 1975
+    return 45.45 + 1.067 * t - t ** 2 / 260 - t ** 3 / 718
+  }
+  if (year < 2005) {
+    const t = year - 2000
+    return 63.86 + 0.3345 * t - 0.060374 * t ** 2 + 0.0017275 * t ** 3 + 0.000651814 * t ** 4 + 0.00002373599 * t ** 5
+  }
+  if (year < 2050) {
+    const t = year - 2000
+    return 62.92 + 0.32217 * t + 0.005589 * t ** 2
+  }
+  const u = (year - 1820) / 100
+  return -20 + 32 * u * u - 0.5628 * (2150 - year)
+}
+
+/**
+ * Julian Ephemeris Day (TT) of a Julian Day (UT)
+ */
+export function toEphemerisDay(jd: number): number {
+  const year = 2000 + (jd - J2000) / 365.25
+  return jd + deltaT(year) / 86400
+}
+
+/**
+ * Julian centuries since J2000.0
+ */
+function centuries(jd: number): number {
+  return (jd - J2000) / 36525
+}
+
+// ============================================================================
+// Earth orientation
+// ============================================================================
+
+/**
+ * Longitude of the Moon's mean ascending node, in degrees
+ *
+ * @param T - Julian centuries (TT) since J2000.0
+ */
+function meanNodeLongitude(T: number): number {
+  return normalizeDegrees(125.0445479 - 1934.1362891 * T + 0.0020754 * T ** 2 + T ** 3 / 467441 - T ** 4 / 60616000)
+}
+
+/**
+ * Nutation in longitude and obliquity, in degrees (Meeus ch. 22, accurate to 0.5″)
+ *
+ * @param T - Julian centuries (TT) since J2000.0
+ */
+export function nutation(T: number): { longitude: number; obliquity: number } {
+  const omega = meanNodeLongitude(T)
+  const L = 280.4665 + 36000.7698 * T
+  const Lm = 218.3165 + 481267.8813 * T
+  return {
+    longitude: (-17.2 * sin(omega) - 1.32 * sin(2 * L) - 0.23 * sin(2 * Lm) + 0.21 * sin(2 * omega)) / 3600,
+    obliquity: (9.2 * cos(omega) + 0.57 * cos(2 * L) + 0.1 * cos(2 * Lm) - 0.09 * cos(2 * omega)) / 3600,
+  }
+}
+
+/**
+ * Mean obliquity of the ecliptic, in degrees (Meeus 22.2)
+ *
+ * @param T - Julian centuries (TT) since J2000.0
+ */
+export function meanObliquity(T: number): number {
+  return 23.4392911111 - (46.815 * T + 0.00059 * T ** 2 - 0.001813 * T ** 3) / 3600
+}
+
+/**
+ * True obliquity of the ecliptic at a Julian Day (UT), in degrees
+ */
+export function trueObliquity(jd: number): number {
+  const T = centuries(toEphemerisDay(jd))
+  return meanObliquity(T) + nutation(T).obliquity
+}
+
+/**
+ * Apparent sidereal time at Greenwich, in degrees (Meeus 12.4)
+ *
+ * @param jd - Julian Day (UT)
+ */
+export function greenwichSiderealTime(jd: number): number {
+  const T = centuries(jd)
+  const mean = 280.46061837 + 360.98564736629 * (jd - J2000) + 0.000387933 * T ** 2 - T ** 3 / 38710000
+  const Te = centuries(toEphemerisDay(jd))
+  const { longitude: dPsi, obliquity: dEps } = nutation(Te)
+  return normalizeDegrees(mean + dPsi * cos(meanObliquity(Te) + dEps))
+}
+
+/**
+ * Declination of an ecliptic position, in degrees
+ *
+ * @param obliquity - True obliquity of the ecliptic
+ */
+export function eclipticToDeclination(longitude: number, latitude: number, obliquity: number): number {
+  return Math.asin(sin(latitude) * cos(obliquity) + cos(latitude) * sin(obliquity) * sin(longitude)) / RAD
+}
+
+// ============================================================================
+// Sun
+// ============================================================================
+
+/**
+ * Geometric position of the Sun referred to the mean equinox of date (Meeus ch. 25)
+ *
+ * @param T - Julian centuries (TT) since J2000.0
+ */
+function sunGeometric(T: number): Spherical {
+  const L0 = 280.46646 + 36000.76983 * T + 0.0003032 * T ** 2
+  const M = 357.52911 + 35999.05029 * T - 0.0001537 * T ** 2
+  const e = 0.016708634 - 0.000042037 * T - 0.0000001267 * T ** 2
+  const C =
+    (1.914602 - 0.004817 * T - 0.000014 * T ** 2) * sin(M) +
+    (0.019993 - 0.000101 * T) * sin(2 * M) +
+    0.000289 * sin(3 * M)
+  const v = M + C
+  return {
+    longitude: normalizeDegrees(L0 + C),
+    latitude: 0,
+    distance: (1.000001018 * (1 - e * e)) / (1 + e * cos(v)),
+  }
+}
+
+// ============================================================================
+// Moon
+// ============================================================================
+
+// Periodic terms of the Moon (Meeus tables 47.A and 47.B).
+// Longitude and distance rows: D, M, M', F, Σl (1e-6 degree), Σr (1e-3 km)
+const MOON_LR_TERMS: readonly (readonly [number, number, number, number, number, number])[] = [
+  [0, 0, 1, 0, 6288774, -20905355],
+  [2, 0, -1, 0, 1274027, -3699111],
+  [2, 0, 0, 0, 658314, -2955968],
+  [0, 0, 2, 0, 213618, -569925],
+  [0, 1, 0, 0, -185116, 48888],
+  [0, 0, 0, 2, -114332, -3149],
+  [2, 0, -2, 0, 58793, 246158],
+  [2, -1, -1, 0, 57066, -152138],
+  [2, 0, 1, 0, 53322, -170733],
+  [2, -1, 0, 0, 45758, -204586],
+  [0, 1, -1, 0, -40923, -129620],
+  [1, 0, 0, 0, -34720, 108743],
+  [0, 1, 1, 0, -30383, 104755],
+  [2, 0, 0, -2, 15327, 10321],
+  [0, 0, 1, 2, -12528, 0],
+  [0, 0, 1, -2, 10980, 79661],
+  [4, 0, -1, 0, 10675, -34782],
+  [0, 0, 3, 0, 10034, -23210],
+  [4, 0, -2, 0, 8548, -21636],
+  [2, 1, -1, 0, -7888, 24208],
+  [2, 1, 0, 0, -6766, 30824],
+  [1, 0, -1, 0, -5163, -8379],
+  [1, 1, 0, 0, 4987, -16675],
+  [2, -1, 1, 0, 4036, -12831],
+  [2, 0, 2, 0, 3994, -10445],
+  [4, 0, 0, 0, 3861, -11650],
+  [2, 0, -3, 0, 3665, 14403],
+  [0, 1, -2, 0, -2689, -7003],
+  [2, 0, -1, 2, -2602, 0],
+  [2, -1, -2, 0, 2390, 10056],
+  [1, 0, 1, 0, -2348, 6322],
+  [2, -2, 0, 0, 2236, -9884],
+  [0, 1, 2, 0, -2120, 5751],
+  [0, 2, 0, 0, -2069, 0],
+  [2, -2, -1, 0, 2048, -4950],
+  [2, 0, 1, -2, -1773, 4130],
+  [2, 0, 0, 2, -1595, 0],
+  [4, -1, -1, 0, 1215, -3958],
+  [0, 0, 2, 2, -1110, 0],
+  [3, 0, -1, 0, -892, 3258],
+  [2, 1, 1, 0, -810, 2616],
+  [4, -1, -2, 0, 759, -1897],
+  [0, 2, -1, 0, -713, -2117],
+  [2, 2, -1, 0, -700, 2354],
+  [2, 1, -2, 0, 691, 0],
+  [2, -1, 0, -2, 596, 0],
+  [4, 0, 1, 0, 549, -1423],
+  [0, 0, 4, 0, 537, -1117],
+  [4, -1, 0, 0, 520, -1571],
+  [1, 0, -2, 0, -487, -1739],
+  [2, 1, 0, -2, -399, 0],
+  [0, 0, 2, -2, -381, -4421],
+  [1, 1, 1, 0, 351, 0],
+  [3, 0, -2, 0, -340, 0],
+  [4, 0, -3, 0, 330, 0],
+  [2, -1, 2, 0, 327, 0],
+  [0, 2, 1, 0, -323, 1165],
+  [1, 1, -1, 0, 299, 0],
+  [2, 0, 3, 0, 294, 0],
+  [2, 0, -1, -2, 0, 8752],
+]
+
+// Latitude rows: D, M, M', F, Σb (1e-6 degree)
+const MOON_B_TERMS: readonly (readonly [number, number, number, number, number])[] = [
+  [0, 0, 0, 1, 5128122],
+  [0, 0, 1, 1, 280602],
+  [0, 0, 1, -1, 277693],
+  [2, 0, 0, -1, 173237],
+  [2, 0, -1, 1, 55413],
+  [2, 0, -1, -1, 46271],
+  [2, 0, 0, 1, 32573],
+  [0, 0, 2, 1, 17198],
+  [2, 0, 1, -1, 9266],
+  [0, 0, 2, -1, 8822],
+  [2, -1, 0, -1, 8216],
+  [2, 0, -2, -1, 4324],
+  [2, 0, 1, 1, 4200],
+  [2, 1, 0, -1, -3359],
+  [2, -1, -1, 1, 2463],
+  [2, -1, 0, 1, 2211],
+  [2, -1, -1, -1, 2065],
+  [0, 1, -1, -1, -1870],
+  [4, 0, -1, -1, 1828],
+  [0, 1, 0, 1, -1794],
+  [0, 0, 0, 3, -1749],
+  [0, 1, -1, 1, -1565],
+  [1, 0, 0, 1, -1491],
+  [0, 1, 1, 1, -1475],
+  [0, 1, 1, -1, -1410],
+  [0, 1, 0, -1, -1344],
+  [1, 0, 0, -1, -1335],
+  [0, 0, 3, 1, 1107],
+  [4, 0, 0, -1, 1021],
+  [4, 0, -1, 1, 833],
+  [0, 0, 1, -3, 777],
+  [4, 0, -2, 1, 671],
+  [2, 0, 0, -3, 607],
+  [2, 0, 2, -1, 596],
+  [2, -1, 1, -1, 491],
+  [2, 0, -2, 1, -451],
+  [0, 0, 3, -1, 439],
+  [2, 0, 2, 1, 422],
+  [2, 0, -3, -1, 421],
+  [2, 1, -1, 1, -366],
+  [2, 1, 0, 1, -351],
+  [4, 0, 0, 1, 331],
+  [2, -1, 1, 1, 315],
+  [2, -2, 0, -1, 302],
+  [0, 0, 1, 3, -283],
+  [2, 1, 1, -1, -229],
+  [1, 1, 0, -1, 223],
+  [1, 1, 0, 1, 223],
+  [0, 1, -2, -1, -220],
+  [2, 1, -1, -1, -220],
+  [1, 0, 1, 1, -185],
+  [2, -1, -2, -1, 181],
+  [0, 1, 2, 1, -177],
+  [4, 0, -2, -1, 176],
+  [4, -1, -1, -1, 166],
+  [1, 0, 1, -1, -164],
+  [4, 0, 1, -1, 132],
+  [1, 0, -1, -1, -119],
+  [4, -1, 0, -1, 115],
+  [2, -2, 0, 1, 107],
+]
+
+/**
+ * Fundamental arguments of the lunar theory, in degrees (Meeus 47.1–47.5)
+ */
+function lunarArguments(T: number) {
+  return {
+    /** Mean longitude of the Moon */
+    Lm: normalizeDegrees(218.3164477 + 481267.88123421 * T - 0.0015786 * T ** 2 + T ** 3 / 538841 - T ** 4 / 65194000),
+    /** Mean elongation of the Moon */
+    D: normalizeDegrees(297.8501921 + 445267.1114034 * T - 0.0018819 * T ** 2 + T ** 3 / 545868 - T ** 4 / 113065000),
+    /** Mean anomaly of the Sun */
+    M: normalizeDegrees(357.5291092 + 35999.0502909 * T - 0.0001536 * T ** 2 + T ** 3 / 24490000),
+    /** Mean anomaly of the Moon */
+    Mm: normalizeDegrees(134.9633964 + 477198.8675055 * T + 0.0087414 * T ** 2 + T ** 3 / 69699 - T ** 4 / 14712000),
+    /** Argument of latitude of the Moon */
+    F: normalizeDegrees(93.272095 + 483202.0175233 * T - 0.0036539 * T ** 2 - T ** 3 / 3526000 + T ** 4 / 863310000),
+  }
+}
+
+/**
+ * Geometric position of the Moon referred to the mean equinox of date (Meeus ch. 47)
+ *
+ * @param T - Julian centuries (TT) since J2000.0
+ * @returns Longitude and latitude in degrees, distance in km
+ */
+export function moonGeometric(T: number): Spherical {
+  const { Lm, D, M, Mm, F } = lunarArguments(T)
+  const A1 = 119.75 + 131.849 * T
+  const A2 = 53.09 + 479264.29 * T
+  const A3 = 313.45 + 481266.484 * T
+  // Decreasing eccentricity of the Earth's orbit
+  const E = 1 - 0.002516 * T - 0.0000074 * T ** 2
+  const eccentricityFactor = (m: number) => (m === 0 ? 1 : Math.abs(m) === 1 ? E : E * E)
+
+  let sumL = 0
+  let sumR = 0
+  for (const [d, m, mm, f, l, r] of MOON_LR_TERMS) {
+    const arg = d * D + m * M + mm * Mm + f * F
+    const factor = eccentricityFactor(m)
+    sumL += l * factor * sin(arg)
+    sumR += r * factor * cos(arg)
+  }
+
+  let sumB = 0
+  for (const [d, m, mm, f, b] of MOON_B_TERMS) {
+    sumB += b * eccentricityFactor(m) * sin(d * D + m * M + mm * Mm + f * F)
+  }
+
+  // Action of Venus, Jupiter and the flattening of the Earth
+  sumL += 3958 * sin(A1) + 1962 * sin(Lm - F) + 318 * sin(A2)
+  sumB +=
+    -2235 * sin(Lm) + 382 * sin(A3) + 175 * sin(A1 - F) + 175 * sin(A1 + F) + 127 * sin(Lm - Mm) - 115 * sin(Lm + Mm)
+
+  return {
+    longitude: normalizeDegrees(Lm + sumL / 1e6),
+    latitude: sumB / 1e6,
+    distance: 385000.56 + sumR / 1000,
+  }
+}
+
+/**
+ * Longitude of the Moon's true ascending node: the mean node with its main
+ * periodic terms (Meeus ch. 47)
+ */
+function trueNodeLongitude(T: number): number {
+  const { D, M, Mm, F } = lunarArguments(T)
+  return normalizeDegrees(
+    meanNodeLongitude(T) -
+      1.4979 * sin(2 * (D - F)) -
+      0.15 * sin(M) -
+      0.1226 * sin(2 * D) +
+      0.1176 * sin(2 * F) -
+      0.0801 * sin(2 * (Mm - F)),
+  )
+}
+
+/**
+ * Longitude of the mean lunar apogee (Black Moon Lilith): the mean perigee plus 180°
+ */
+function meanLilithLongitude(T: number): number {
+  const perigee = 83.3532465 + 4069.0137287 * T - 0.01032 * T ** 2 - T ** 3 / 80053 + T ** 4 / 18999000
+  return normalizeDegrees(perigee + 180)
+}
+
+// ============================================================================
+// Planets
+// ============================================================================
+
+/**
+ * Osculating elements referred to the ecliptic and equinox of date
+ *
+ * @param d - Days (TT) since 2000 January 0.0
+ */
+function planetElements(planet: PlanetName, d: number): OrbitalElements {
+  switch (planet) {
+    case 'mercury':
+      return {
+        N: 48.3313 + 3.24587e-5 * d,
+        i: 7.0047 + 5.0e-8 * d,
+        w: 29.1241 + 1.01444e-5 * d,
+        a: 0.387098,
+        e: 0.205635 + 5.59e-10 * d,
+        M: 168.6562 + 4.0923344368 * d,
+      }
+    case 'venus':
+      return {
+        N: 76.6799 + 2.4659e-5 * d,
+        i: 3.3946 + 2.75e-8 * d,
+        w: 54.891 + 1.38374e-5 * d,
+        a: 0.72333,
+        e: 0.006773 - 1.302e-9 * d,
+        M: 48.0052 + 1.6021302244 * d,
+      }
+    case 'mars':
+      return {
+        N: 49.5574 + 2.11081e-5 * d,
+        i: 1.8497 - 1.78e-8 * d,
+        w: 286.5016 + 2.92961e-5 * d,
+        a: 1.523688,
+        e: 0.093405 + 2.516e-9 * d,
+        M: 18.6021 + 0.5240207766 * d,
+      }
+    case 'jupiter':
+      return {
+        N: 100.4542 + 2.76854e-5 * d,
+        i: 1.303 - 1.557e-7 * d,
+        w: 273.8777 + 1.64505e-5 * d,
+        a: 5.20256,
+        e: 0.048498 + 4.469e-9 * d,
+        M: 19.895 + 0.0830853001 * d,
+      }
+    case 'saturn':
+      return {
+        N: 113.6634 + 2.3898e-5 * d,
+        i: 2.4886 - 1.081e-7 * d,
+        w: 339.3939 + 2.97661e-5 * d,
+        a: 9.55475,
+        e: 0.055546 - 9.499e-9 * d,
+        M: 316.967 + 0.0334442282 * d,
+      }
+    case 'uranus':
+      return {
+        N: 74.0005 + 1.3978e-5 * d,
+        i: 0.7733 + 1.9e-8 * d,
+        w: 96.6612 + 3.0565e-5 * d,
+        a: 19.18171 - 1.55e-8 * d,
+        e: 0.047318 + 7.45e-9 * d,
+        M: 142.5905 + 0.011725806 * d,
+      }
+    case 'neptune':
+      return {
+        N: 131.7806 + 3.0173e-5 * d,
+        i: 1.77 - 2.55e-7 * d,
+        w: 272.8461 - 6.027e-6 * d,
+        a: 30.05826 + 3.313e-8 * d,
+        e: 0.008606 + 2.15e-9 * d,
+        M: 260.2471 + 0.005995147 * d,
+      }
+  }
+}
+
+/**
+ * Solves Kepler's equation for the eccentric anomaly, in degrees
+ */
+function eccentricAnomaly(M: number, e: number): number {
+  const m = normalizeDegrees(M) * RAD
+  let E = m + e * Math.sin(m) * (1 + e * Math.cos(m))
+  for (let iteration = 0; iteration < 30; iteration++) {
+    const delta = (E - e * Math.sin(E) - m) / (1 - e * Math.cos(E))
+    E -= delta
+    if (Math.abs(delta) < 1e-12) break
+  }
+  return E / RAD
+}
+
+/**
+ * Heliocentric ecliptic position of a planet from its osculating elements,
+ * with the main mutual perturbations of Jupiter, Saturn and Uranus
+ *
+ * @param d - Days (TT) since 2000 January 0.0
+ */
+function planetHeliocentric(planet: PlanetName, d: number): Spherical {
+  const { N, i, w, a, e, M } = planetElements(planet, d)
+  const E = eccentricAnomaly(M, e)
+  const xv = a * (cos(E) - e)
+  const yv = a * Math.sqrt(1 - e * e) * sin(E)
+  const v = atan2(yv, xv)
+  const r = Math.hypot(xv, yv)
+
+  const u = v + w
+  const x = r * (cos(N) * cos(u) - sin(N) * sin(u) * cos(i))
+  const y = r * (sin(N) * cos(u) + cos(N) * sin(u) * cos(i))
+  const z = r * sin(u) * sin(i)
+
+  let longitude = atan2(y, x)
+  let latitude = atan2(z, Math.hypot(x, y))
+
+  const Mj = planetElements('jupiter', d).M
+  const Ms = planetElements('saturn', d).M
+  const Mu = planetElements('uranus', d).M
+
+  if (planet === 'jupiter') {
+    longitude +=
+      -0.332 * sin(2 * Mj - 5 * Ms - 67.6) -
+      0.056 * sin(2 * Mj - 2 * Ms + 21) +
+      0.042 * sin(3 * Mj - 5 * Ms + 21) -
+      0.036 * sin(Mj - 2 * Ms) +
+      0.022 * cos(Mj - Ms) +
+      0.023 * sin(2 * Mj - 3 * Ms + 52) -
+      0.016 * sin(Mj - 5 * Ms - 69)
+  } else if (planet === 'saturn') {
+    longitude +=
+      0.812 * sin(2 * Mj - 5 * Ms - 67.6) -
+      0.229 * cos(2 * Mj - 4 * Ms - 2) +
+      0.119 * sin(Mj - 2 * Ms - 3) +
+      0.046 * sin(2 * Mj - 6 * Ms - 69) +
+      0.014 * sin(Mj - 3 * Ms + 32)
+    latitude += -0.02 * cos(2 * Mj - 4 * Ms - 2) + 0.018 * sin(2 * Mj - 6 * Ms - 49)
+  } else if (planet === 'uranus') {
+    longitude += 0.04 * sin(Ms - 2 * Mu + 6) + 0.035 * sin(Ms - 3 * Mu + 33) - 0.015 * sin(Mj - Mu + 20)
+  }
+
+  return { longitude: normalizeDegrees(longitude), latitude, distance: r }
+}
+
+/**
+ * Heliocentric ecliptic position of Pluto referred to the equinox of date
+ *
+ * The mean motion in Schlyter's series already includes precession, so
+ * no further correction applies.
+ *
+ * @param d - Days (TT) since 2000 January 0.0
+ */
+function plutoHeliocentric(d: number): Spherical {
+  const S = 50.03 + 0.033459652 * d
+  const P = 238.95 + 0.003968789 * d
+
+  const longitude =
+    238.9508 +
+    0.00400703 * d -
+    19.799 * sin(P) +
+    19.848 * cos(P) +
+    0.897 * sin(2 * P) -
+    4.956 * cos(2 * P) +
+    0.61 * sin(3 * P) +
+    1.211 * cos(3 * P) -
+    0.341 * sin(4 * P) -
+    0.19 * cos(4 * P) +
+    0.128 * sin(5 * P) -
+    0.034 * cos(5 * P) -
+    0.038 * sin(6 * P) +
+    0.031 * cos(6 * P) +
+    0.02 * sin(S - P) -
+    0.01 * cos(S - P)
+  const latitude =
+    -3.9082 -
+    5.453 * sin(P) -
+    14.975 * cos(P) +
+    3.527 * sin(2 * P) +
+    1.673 * cos(2 * P) -
+    1.051 * sin(3 * P) +
+    0.328 * cos(3 * P) +
+    0.179 * sin(4 * P) -
+    0.292 * cos(4 * P) +
+    0.019 * sin(5 * P) +
+    0.1 * cos(5 * P) -
+    0.031 * sin(6 * P) -
+    0.026 * cos(6 * P) +
+    0.011 * cos(S - P)
+  const distance =
+    40.72 + 6.68 * sin(P) + 6.9 * cos(P) - 1.18 * sin(2 * P) - 0.03 * cos(2 * P) + 0.15 * sin(3 * P) - 0.14 * cos(3 * P)
+
+  return { longitude: normalizeDegrees(longitude), latitude, distance }
+}
+
+/**
+ * Geocentric position of a planet, corrected for light-time
+ *
+ * @param d - Days (TT) since 2000 January 0.0
+ * @param sun - Geometric position of the Sun at the same instant
+ */
+function planetGeocentric(planet: PlanetName | 'pluto', d: number, sun: Spherical): Spherical {
+  // The Earth is opposite the Sun
+  const earthX = -sun.distance * cos(sun.longitude)
+  const earthY = -sun.distance * sin(sun.longitude)
+
+  let delay = 0
+  let result: Spherical = { longitude: 0, latitude: 0, distance: 0 }
+  for (let iteration = 0; iteration < 2; iteration++) {
+    const helio = planet === 'pluto' ? plutoHeliocentric(d - delay) : planetHeliocentric(planet, d - delay)
+    const x = helio.distance * cos(helio.latitude) * cos(helio.longitude) - earthX
+    const y = helio.distance * cos(helio.latitude) * sin(helio.longitude) - earthY
+    const z = helio.distance * sin(helio.latitude)
+    const distance = Math.sqrt(x * x + y * y + z * z)
+    result = { longitude: normalizeDegrees(atan2(y, x)), latitude: atan2(z, Math.hypot(x, y)), distance }
+    delay = distance * LIGHT_TIME_DAYS_PER_AU
+  }
+  return result
+}
+
+// ============================================================================
+// Apparent positions
+// ============================================================================
+
+/**
+ * Apparent longitude and latitude of a body at a Julian Day (UT)
+ */
+function apparentLongitude(body: EphemerisBody, jd: number): { longitude: number; latitude: number } {
+  const jde = toEphemerisDay(jd)
+  const T = centuries(jde)
+  const dPsi = nutation(T).longitude
+  const sun = sunGeometric(T)
+
+  switch (body) {
+    case 'sun':
+      return {
+        longitude: normalizeDegrees(sun.longitude + dPsi - ABERRATION / sun.distance),
+        latitude: 0,
+      }
+    case 'moon': {
+      const moon = moonGeometric(T)
+      return { longitude: normalizeDegrees(moon.longitude + dPsi), latitude: moon.latitude }
+    }
+    case 'mean_node':
+      return { longitude: normalizeDegrees(meanNodeLongitude(T) + dPsi), latitude: 0 }
+    case 'true_node':
+      return { longitude: normalizeDegrees(trueNodeLongitude(T) + dPsi), latitude: 0 }
+    case 'mean_lilith':
+      return { longitude: normalizeDegrees(meanLilithLongitude(T) + dPsi), latitude: 0 }
+    default: {
+      const planet = planetGeocentric(body, jde - 2451543.5, sun)
+      const aberration = (-ABERRATION * cos(sun.longitude - planet.longitude)) / cos(planet.latitude)
+      return { longitude: normalizeDegrees(planet.longitude + aberration + dPsi), latitude: planet.latitude }
+    }
+  }
+}
+
+/**
+ * Apparent geocentric position of a body, with its daily motion and declination
+ *
+ * @param body - Body or lunar point
+ * @param date - UT instant
+ */
+export function getEclipticPosition(body: EphemerisBody, date: Date): EclipticPosition {
+  const jd = julianDay(date)
+  const { longitude, latitude } = apparentLongitude(body, jd)
+  const before = apparentLongitude(body, jd - SPEED_STEP_DAYS).longitude
+  const after = apparentLongitude(body, jd + SPEED_STEP_DAYS).longitude
+
+  return {
+    longitude,
+    latitude,
+    speed: signedDelta(after, before) / (2 * SPEED_STEP_DAYS),
+    declination: eclipticToDeclination(longitude, latitude, trueObliquity(jd)),
+  }
+}
+
+/**
+ * Apparent geocentric longitude of a body, without the speed and declination
+ * of getEclipticPosition. For sweeps that need many positions.
+ *
+ * @param body - Body or lunar point
+ * @param date - UT instant
+ */
+export function getApparentLongitude(body: EphemerisBody, date: Date): number {
+  return apparentLongitude(body, julianDay(date)).longitude
+}
+
+/**
+ * Apparent geocentric positions of all bodies at an instant
+ */
+export function getEclipticPositions(date: Date): Record<EphemerisBody, EclipticPosition> {
+  return Object.fromEntries(EPHEMERIS_BODIES.map((body) => [body, getEclipticPosition(body, date)])) as Record<
+    EphemerisBody,
+    EclipticPosition
+  >
+}
@@ -0,0 +1,217 @@
+/**
+ * Chart angles and house cusps for the local ephemeris
+ *
+ * Placidus cusps are found by iterating on the semi-arc of the cusp's own
+ * declination. Placidus is undefined where some ecliptic degrees never rise
+ * (beyond the polar circles), so Porphyry is used there instead, as most
+ * astrology software does.
+ *
+ * @module lib/ephemeris/houses
+ */
+
+import { normalizeDegrees, signedDelta } from '@/lib/astrology/transit-timeline'
+import { greenwichSiderealTime, julianDay, trueObliquity } from './astronomy'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * House systems computed locally, by Astrologer API identifier
+ * - P: Placidus
+ * - W: Whole Sign
+ * - A: Equal (from the Ascendant)
+ * - O: Porphyry
+ */
+export type LocalHouseSystem = (typeof LOCAL_HOUSE_SYSTEMS)[number]
+
+export interface ChartAngles {
+  ascendant: number
+  midheaven: number
+  /** Right ascension of the Midheaven (local apparent sidereal time), in degrees */
+  ramc: number
+  /** True obliquity of the ecliptic */
+  obliquity: number
+}
+
+export interface HouseCusps extends ChartAngles {
+  /** Longitudes of the twelve cusps, first house first */
+  cusps: number[]
+  /** System actually used, which differs from the requested one when Placidus falls back to Porphyry */
+  system: LocalHouseSystem
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const LOCAL_HOUSE_SYSTEMS = ['P', 'W', 'A', 'O'] as const
+
+const RAD = Math.PI / 180
+const sin = (deg: number) => Math.sin(deg * RAD)
+const cos = (deg: number) => Math.cos(deg * RAD)
+const tan = (deg: number) => Math.tan(deg * RAD)
+
+// ============================================================================
+// Angles
+// ============================================================================
+
+/**
+ * Ascendant, Midheaven and RAMC for an instant and place
+ *
+ * @param date - UT instant
+ * @param latitude - Geographic latitude, north positive
+ * @param longitude - Geographic longitude, east positive
+ */
+export function calculateAngles(date: Date, latitude: number, longitude: number): ChartAngles {
+  const jd = julianDay(date)
+  const obliquity = trueObliquity(jd)
+  const ramc = normalizeDegrees(greenwichSiderealTime(jd) + longitude)
+
+  const midheaven = normalizeDegrees(Math.atan2(sin(ramc), cos(ramc) * cos(obliquity)) / RAD)
+  let ascendant = normalizeDegrees(
+    Math.atan2(cos(ramc), -(sin(ramc) * cos(obliquity) + tan(latitude) * sin(obliquity))) / RAD,
+  )
+  // Beyond the polar circles the formula can give the setting point instead;
+  // like the Swiss Ephemeris, keep the Ascendant in the half ahead of the Midheaven
+  if (Math.abs(latitude) >= 90 - obliquity && signedDelta(ascendant, midheaven) < 0) {
+    ascendant = normalizeDegrees(ascendant + 180)
+  }
+
+  return { ascendant, midheaven, ramc, obliquity }
+}
+
+// ============================================================================
+// House systems
+// ============================================================================
+
+/**
+ * Ecliptic longitude of the point with the given right ascension
+ */
+function longitudeFromRightAscension(rightAscension: number, obliquity: number): number {
+  return normalizeDegrees(Math.atan2(sin(rightAscension), cos(rightAscension) * cos(obliquity)) / RAD)
+}
+
+/**
+ * Placidus cusp dividing a semi-arc in the given fraction
+ *
+ * Cusps 11 and 12 divide the diurnal semi-arc east of the meridian; cusps 2
+ * and 3 divide the nocturnal semi-arc below the eastern horizon.
+ *
+ * @returns The cusp longitude, or null when the cusp never rises or sets
+ */
+function placidusCusp(angles: ChartAngles, latitude: number, house: 11 | 12 | 2 | 3): number | null {
+  const { ramc, obliquity } = angles
+  const rightAscensionFor = (semiDiurnalArc: number): number => {
+    const nocturnalArc = 180 - semiDiurnalArc
+    switch (house) {
+      case 11:
+        return ramc + semiDiurnalArc / 3
+      case 12:
+        return ramc + (2 * semiDiurnalArc) / 3
+      case 2:
+        return ramc + 180 - (2 * nocturnalArc) / 3
+      case 3:
+        return ramc + 180 - nocturnalArc / 3
+    }
+  }
+
+  let longitude = longitudeFromRightAscension(rightAscensionFor(90), obliquity)
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const declination = Math.asin(sin(obliquity) * sin(longitude)) / RAD
+    const x = tan(latitude) * tan(declination)
+    if (Math.abs(x) >= 1) return null
+    const semiDiurnalArc = 90 + Math.asin(x) / RAD
+    const next = longitudeFromRightAscension(rightAscensionFor(semiDiurnalArc), obliquity)
+    const change = Math.abs(normalizeDegrees(next - longitude + 180) - 180)
+    longitude = next
+    if (change < 1e-9) break
+  }
+  return longitude
+}
+
+/**
+ * Cusps from the four angles and the intermediate cusps of the eastern half
+ */
+function fromQuadrants(angles: ChartAngles, c11: number, c12: number, c2: number, c3: number): number[] {
+  const { ascendant, midheaven } = angles
+  const opposite = (longitude: number) => normalizeDegrees(longitude + 180)
+  return [
+    ascendant,
+    c2,
+    c3,
+    opposite(midheaven),
+    opposite(c11),
+    opposite(c12),
+    opposite(ascendant),
+    opposite(c2),
+    opposite(c3),
+    midheaven,
+    c11,
+    c12,
+  ]
+}
+
+function porphyryCusps(angles: ChartAngles): number[] {
+  const { ascendant, midheaven } = angles
+  const upper = normalizeDegrees(ascendant - midheaven)
+  const lower = normalizeDegrees(midheaven + 180 - ascendant)
+  return fromQuadrants(
+    angles,
+    normalizeDegrees(midheaven + upper / 3),
+    normalizeDegrees(midheaven + (2 * upper) / 3),
+    normalizeDegrees(ascendant + lower / 3),
+    normalizeDegrees(ascendant + (2 * lower) / 3),
+  )
+}
+
+/**
+ * Angles and house cusps for an instant and place
+ *
+ * @param date - UT instant
+ * @param latitude - Geographic latitude, north positive
+ * @param longitude - Geographic longitude, east positive
+ * @param system - House system identifier
+ */
+export function calculateHouses(date: Date, latitude: number, longitude: number, system: LocalHouseSystem): HouseCusps {
+  const angles = calculateAngles(date, latitude, longitude)
+
+  switch (system) {
+    case 'W': {
+      const first = Math.floor(angles.ascendant / 30) * 30
+      return { ...angles, system, cusps: Array.from({ length: 12 }, (_, i) => normalizeDegrees(first + i * 30)) }
+    }
+    case 'A':
+      return {
+        ...angles,
+        system,
+        cusps: Array.from({ length: 12 }, (_, i) => normalizeDegrees(angles.ascendant + i * 30)),
+      }
+    case 'O':
+      return { ...angles, system, cusps: porphyryCusps(angles) }
+    case 'P': {
+      const c11 = placidusCusp(angles, latitude, 11)
+      const c12 = placidusCusp(angles, latitude, 12)
+      const c2 = placidusCusp(angles, latitude, 2)
+      const c3 = placidusCusp(angles, latitude, 3)
+      if (c11 === null || c12 === null || c2 === null || c3 === null) {
+        return { ...angles, system: 'O', cusps: porphyryCusps(angles) }
+      }
+      return { ...angles, system, cusps: fromQuadrants(angles, c11, c12, c2, c3) }
+    }
+  }
+}
+
+/**
+ * House (1-12) containing a longitude
+ *
+ * @param cusps - Longitudes of the twelve cusps, first house first
+ */
+export function getHouseNumber(longitude: number, cusps: number[]): number {
+  for (let i = 0; i < 12; i++) {
+    const start = cusps[i]!
+    const end = cusps[(i + 1) % 12]!
+    if (normalizeDegrees(longitude - start) < normalizeDegrees(end - start)) return i + 1
+  }
+  return 1
+}
@@ -0,0 +1,433 @@
+/**
+ * Calculation backend that casts charts with the built-in ephemeris
+ *
+ * Returns the same shapes as the Astrologer API `/subject` and
+ * `/chart/birth-chart` endpoints, so ephemeris tables and natal charts keep
+ * working when the API is down or unreachable. The wheel is drawn locally and
+ * aspects use the requested orbs.
+ *
+ * Supported: tropical zodiac, apparent geocentric positions, the ten planets,
+ * mean and true lunar nodes, mean Lilith, the four angles, and Placidus,
+ * Whole Sign, Equal and Porphyry houses. Other house systems are cast in
+ * Placidus; the subject reports the system actually used.
+ *
+ * @module lib/ephemeris/local-backend
+ */
+
+import type {
+  Aspect,
+  ChartRequestOptions,
+  ChartResponse,
+  ElementDistribution,
+  EnrichedSubjectModel,
+  LunarPhase,
+  Point,
+  PointKey,
+  QualityDistribution,
+  SubjectModel,
+} from '@/types/astrology'
+import type { CalculationBackend } from '@/lib/api/astrologer'
+import { logger } from '@/lib/logging/server'
+import { DEFAULT_ACTIVE_ASPECTS, ASPECT_DEGREES } from '@/lib/astrology/aspects'
+import { HOUSE_SYSTEMS, ZODIAC_SIGNS } from '@/lib/astrology/celestial-points'
+import { getBirthInstant } from '@/lib/astrology/progressions'
+import { normalizeDegrees, signedDelta, type PointPositions } from '@/lib/astrology/transit-timeline'
+import { renderChartWheelSvg } from '@/lib/chart/wheel'
+import { getEclipticPosition, julianDay, type EclipticPosition, type EphemerisBody } from './astronomy'
+import { calculateHouses, getHouseNumber, LOCAL_HOUSE_SYSTEMS, type LocalHouseSystem } from './houses'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** The first ten body points are the planets */
+const PLANET_COUNT = 10
+
+/** Points computed from a body, with their API names */
+const BODY_POINTS: { key: PointKey; name: string; body: EphemerisBody; opposite?: boolean }[] = [
+  { key: 'sun', name: 'Sun', body: 'sun' },
+  { key: 'moon', name: 'Moon', body: 'moon' },
+  { key: 'mercury', name: 'Mercury', body: 'mercury' },
+  { key: 'venus', name: 'Venus', body: 'venus' },
+  { key: 'mars', name: 'Mars', body: 'mars' },
+  { key: 'jupiter', name: 'Jupiter', body: 'jupiter' },
+  { key: 'saturn', name: 'Saturn', body: 'saturn' },
+  { key: 'uranus', name: 'Uranus', body: 'uranus' },
+  { key: 'neptune', name: 'Neptune', body: 'neptune' },
+  { key: 'pluto', name: 'Pluto', body: 'pluto' },
+  { key: 'mean_north_lunar_node', name: 'Mean_North_Lunar_Node', body: 'mean_node' },
+  { key: 'true_north_lunar_node', name: 'True_North_Lunar_Node', body: 'true_node' },
+  { key: 'mean_south_lunar_node', name: 'Mean_South_Lunar_Node', body: 'mean_node', opposite: true },
+  { key: 'true_south_lunar_node', name: 'True_South_Lunar_Node', body: 'true_node', opposite: true },
+  { key: 'mean_lilith', name: 'Mean_Lilith', body: 'mean_lilith' },
+]
+
+const ANGLE_POINTS: { key: PointKey; name: string }[] = [
+  { key: 'ascendant', name: 'Ascendant' },
+  { key: 'medium_coeli', name: 'Medium_Coeli' },
+  { key: 'descendant', name: 'Descendant' },
+  { key: 'imum_coeli', name: 'Imum_Coeli' },
+]
+
+const HOUSE_POINTS: { key: PointKey; name: string }[] = [
+  { key: 'first_house', name: 'First_House' },
+  { key: 'second_house', name: 'Second_House' },
+  { key: 'third_house', name: 'Third_House' },
+  { key: 'fourth_house', name: 'Fourth_House' },
+  { key: 'fifth_house', name: 'Fifth_House' },
+  { key: 'sixth_house', name: 'Sixth_House' },
+  { key: 'seventh_house', name: 'Seventh_House' },
+  { key: 'eighth_house', name: 'Eighth_House' },
+  { key: 'ninth_house', name: 'Ninth_House' },
+  { key: 'tenth_house', name: 'Tenth_House' },
+  { key: 'eleventh_house', name: 'Eleventh_House' },
+  { key: 'twelfth_house', name: 'Twelfth_House' },
+]
+
+/** Names of all points the local backend can compute */
+export const LOCAL_POINT_NAMES = [...BODY_POINTS, ...ANGLE_POINTS].map((point) => point.name)
+
+const DAYS_OF_WEEK = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+/** Moon phases by phase day (1-28), as named by Kerykeion */
+const MOON_PHASES: { until: number; name: string; emoji: string }[] = [
+  { until: 1, name: 'New Moon', emoji: '🌑' },
+  { until: 6, name: 'Waxing Crescent', emoji: '🌒' },
+  { until: 7, name: 'First Quarter', emoji: '🌓' },
+  { until: 13, name: 'Waxing Gibbous', emoji: '🌔' },
+  { until: 14, name: 'Full Moon', emoji: '🌕' },
+  { until: 20, name: 'Waning Gibbous', emoji: '🌖' },
+  { until: 21, name: 'Last Quarter', emoji: '🌗' },
+  { until: 28, name: 'Waning Crescent', emoji: '🌘' },
+]
+
+// ============================================================================
+// Points
+// ============================================================================
+
+function toPoint(
+  name: string,
+  longitude: number,
+  pointType: 'AstrologicalPoint' | 'House',
+  house: number | null,
+  position?: EclipticPosition,
+): Point {
+  const absPos = normalizeDegrees(longitude)
+  const signNum = Math.floor(absPos / 30) % 12
+  const sign = ZODIAC_SIGNS[signNum]!
+
+  return {
+    name,
+    quality: sign.quality,
+    element: sign.element,
+    sign: sign.sign,
+    sign_num: signNum,
+    position: absPos - signNum * 30,
+    abs_pos: absPos,
+    emoji: sign.emoji,
+    point_type: pointType,
+    house: house === null ? null : HOUSE_POINTS[house - 1]!.name,
+    retrograde: (position?.speed ?? 0) < 0,
+    speed: position?.speed ?? null,
+    declination: position?.declination ?? null,
+  }
+}
+
+/**
+ * Lunar phase in the shape returned by the API (phase day 1-28)
+ */
+function getLunarPhase(sun: number, moon: number): LunarPhase {
+  const degrees = normalizeDegrees(moon - sun)
+  const phaseDay = Math.min(28, Math.floor(degrees / (360 / 28)) + 1)
+  const phase = MOON_PHASES.find((entry) => phaseDay <= entry.until) ?? MOON_PHASES[0]!
+  return {
+    degrees_between_s_m: degrees,
+    moon_phase: phaseDay,
+    moon_emoji: phase.emoji,
+    moon_phase_name: phase.name,
+  }
+}
+
+/**
+ * Resolves the requested house system to one the local backend computes
+ */
+function resolveHouseSystem(identifier: string | undefined): LocalHouseSystem {
+  const requested = identifier ?? 'P'
+  if ((LOCAL_HOUSE_SYSTEMS as readonly string[]).includes(requested)) {
+    return requested as LocalHouseSystem
+  }
+  logger.warn(`[LocalEphemeris] House system "${requested}" is not supported offline, using Placidus`)
+  return 'P'
+}
+
+/**
+ * Computes a subject in the shape of the API `/subject` response
+ *
+ * @param subject - Birth data; the date and time are local to `timezone`
+ * @param activePoints - API point names to include; all supported points when omitted
+ * @throws Error for settings the local ephemeris does not support
+ */
+export function calculateLocalSubject(subject: SubjectModel, activePoints?: string[]): EnrichedSubjectModel {
+  if (subject.zodiac_type && subject.zodiac_type !== 'Tropical') {
+    throw new Error('The local ephemeris supports the tropical zodiac only')
+  }
+  if (subject.perspective_type && subject.perspective_type !== 'Apparent Geocentric') {
+    throw new Error('The local ephemeris supports the apparent geocentric perspective only')
+  }
+
+  const latitude = subject.latitude ?? subject.lat ?? 0
+  const longitude = subject.longitude ?? subject.lng ?? 0
+  const timezone = subject.timezone ?? subject.tz_str ?? 'UTC'
+  const wallClock = new Date(
+    Date.UTC(subject.year, subject.month - 1, subject.day, subject.hour, subject.minute, subject.second ?? 0),
+  )
+  const instant = getBirthInstant({ birth_datetime: wallClock.toISOString(), timezone })
+
+  const houses = calculateHouses(instant, latitude, longitude, resolveHouseSystem(subject.houses_system_identifier))
+  const isActive = (name: string) => !activePoints || activePoints.includes(name)
+
+  const points: Partial<Record<PointKey, Point>> = {}
+  const positions = new Map<EphemerisBody, EclipticPosition>()
+  BODY_POINTS.forEach(({ key, name, body, opposite }, index) => {
+    // The ten planets are required by the subject model, so they are always computed
+    if (index >= PLANET_COUNT && !isActive(name)) return
+    const position = positions.get(body) ?? getEclipticPosition(body, instant)
+    positions.set(body, position)
+    const pointLongitude = opposite ? normalizeDegrees(position.longitude + 180) : position.longitude
+    const pointPosition = opposite ? { ...position, declination: -position.declination } : position
+    points[key] = toPoint(
+      name,
+      pointLongitude,
+      'AstrologicalPoint',
+      getHouseNumber(pointLongitude, houses.cusps),
+      pointPosition,
+    )
+  })
+
+  // Whole Sign and Equal cusps are not the angles, so the angles come from the sphere
+  const angleLongitudes: Record<string, number> = {
+    Ascendant: houses.ascendant,
+    Imum_Coeli: normalizeDegrees(houses.midheaven + 180),
+    Descendant: normalizeDegrees(houses.ascendant + 180),
+    Medium_Coeli: houses.midheaven,
+  }
+  for (const { key, name } of ANGLE_POINTS) {
+    if (!isActive(name)) continue
+    const angleLongitude = angleLongitudes[name]!
+    points[key] = toPoint(name, angleLongitude, 'AstrologicalPoint', getHouseNumber(angleLongitude, houses.cusps))
+  }
+
+  HOUSE_POINTS.forEach(({ key, name }, index) => {
+    points[key] = toPoint(name, houses.cusps[index]!, 'House', null)
+  })
+
+  const systemName = HOUSE_SYSTEMS.find((system) => system.value === houses.system)?.label ?? 'Placidus'
+
+  return {
+    ...subject,
+    second: subject.second ?? 0,
+    longitude,
+    latitude,
+    timezone,
+    tz_str: timezone,
+    zodiac_type: 'Tropical',
+    sidereal_mode: null,
+    houses_system_identifier: houses.system,
+    houses_system_name: systemName,
+    perspective_type: 'Apparent Geocentric',
+    iso_formatted_local_datetime: wallClock.toISOString().replace('Z', ''),
+    iso_formatted_utc_datetime: instant.toISOString(),
+    julian_day: julianDay(instant),
+    day_of_week: DAYS_OF_WEEK[wallClock.getUTCDay()],
+    ...(points as Record<PointKey, Point>),
+    lunar_phase: getLunarPhase(points.sun!.abs_pos, points.moon!.abs_pos),
+  } as EnrichedSubjectModel
+}
+
+/**
+ * Positions of body points at an instant, as a position provider for transit searches
+ *
+ * @param pointNames - API point names; angles and points the local ephemeris cannot compute are left out
+ */
+export function getLocalPointPositions(date: Date, pointNames: string[]): PointPositions {
+  const positions: PointPositions = {}
+  const cache = new Map<EphemerisBody, EclipticPosition>()
+  for (const { name, body, opposite } of BODY_POINTS) {
+    if (!pointNames.includes(name)) continue
+    const position = cache.get(body) ?? getEclipticPosition(body, date)
+    cache.set(body, position)
+    positions[name] = {
+      abs_pos: opposite ? normalizeDegrees(position.longitude + 180) : position.longitude,
+      retrograde: position.speed < 0,
+    }
+  }
+  return positions
+}
+
+// ============================================================================
+// Chart data
+// ============================================================================
+
+/**
+ * Aspects between the points of a subject (houses excluded), tightest first
+ *
+ * @param activeAspects - Aspect names with their orbs
+ * @param activePoints - API point names to include; all computed points when omitted
+ */
+export function findLocalAspects(
+  subject: EnrichedSubjectModel,
+  activeAspects: { name: string; orb: number }[] = DEFAULT_ACTIVE_ASPECTS,
+  activePoints?: string[],
+): Aspect[] {
+  const points = [...BODY_POINTS, ...ANGLE_POINTS].flatMap(({ key, name }) => {
+    const point = subject[key]
+    return point && (!activePoints || activePoints.includes(name)) ? [point] : []
+  })
+  const aspects: Aspect[] = []
+
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const p1 = points[i]!
+      const p2 = points[j]!
+      const separation = Math.abs(signedDelta(p2.abs_pos, p1.abs_pos))
+
+      for (const { name, orb } of activeAspects) {
+        const aspectDegrees = ASPECT_DEGREES[name]
+        if (aspectDegrees === undefined) continue
+        const orbit = Math.abs(separation - aspectDegrees)
+        if (orbit > orb) continue
+
+        // Applying while the orb shrinks over the next hour
+        const later = Math.abs(signedDelta(p2.abs_pos + (p2.speed ?? 0) / 24, p1.abs_pos + (p1.speed ?? 0) / 24))
+        const movement =
+          p1.speed == null && p2.speed == null
+            ? 'Static'
+            : Math.abs(later - aspectDegrees) < orbit
+              ? 'Applying'
+              : 'Separating'
+
+        aspects.push({
+          p1_name: p1.name,
+          p1_owner: subject.name,
+          p1_abs_pos: p1.abs_pos,
+          p2_name: p2.name,
+          p2_owner: subject.name,
+          p2_abs_pos: p2.abs_pos,
+          aspect: name,
+          orbit,
+          aspect_degrees: aspectDegrees,
+          diff: separation,
+          p1,
+          p2,
+          aspect_movement: movement,
+        })
+        break
+      }
+    }
+  }
+
+  return aspects.sort((a, b) => a.orbit - b.orbit)
+}
+
+/**
+ * Counts the planets (houses and lunar points excluded) by element and quality
+ */
+function getDistributions(subject: EnrichedSubjectModel): {
+  element_distribution: ElementDistribution
+  quality_distribution: QualityDistribution
+} {
+  const planets = BODY_POINTS.slice(0, PLANET_COUNT).map(({ key }) => subject[key]!)
+  const count = (field: 'element' | 'quality', value: string) => planets.filter((p) => p[field] === value).length
+  const percentage = (value: number) => Math.round((value / planets.length) * 100)
+
+  const fire = count('element', 'Fire')
+  const earth = count('element', 'Earth')
+  const air = count('element', 'Air')
+  const water = count('element', 'Water')
+  const cardinal = count('quality', 'Cardinal')
+  const fixed = count('quality', 'Fixed')
+  const mutable = count('quality', 'Mutable')
+
+  return {
+    element_distribution: {
+      fire,
+      earth,
+      air,
+      water,
+      fire_percentage: percentage(fire),
+      earth_percentage: percentage(earth),
+      air_percentage: percentage(air),
+      water_percentage: percentage(water),
+    },
+    quality_distribution: {
+      cardinal,
+      fixed,
+      mutable,
+      cardinal_percentage: percentage(cardinal),
+      fixed_percentage: percentage(fixed),
+      mutable_percentage: percentage(mutable),
+    },
+  }
+}
+
+// ============================================================================
+// Backend
+// ============================================================================
+
+/**
+ * Offline calculation backend built on the local ephemeris
+ *
+ * @example
+ * ```ts
+ * const backend = new LocalCalculationBackend()
+ * const { subject } = await backend.getSubject(birthData)
+ * ```
+ */
+export class LocalCalculationBackend implements CalculationBackend {
+  readonly name = 'local'
+
+  /**
+   * Get planetary positions and houses, like the API `/subject` endpoint
+   */
+  async getSubject(
+    subject: SubjectModel,
+    options?: Pick<ChartRequestOptions, 'active_points'>,
+  ): Promise<{ status: string; subject: EnrichedSubjectModel }> {
+    return { status: 'OK', subject: calculateLocalSubject(subject, options?.active_points) }
+  }
+
+  /**
+   * Cast a natal chart with a locally drawn wheel, like the API `/chart/birth-chart` endpoint
+   */
+  async getNatalChart(subject: SubjectModel, options?: ChartRequestOptions): Promise<ChartResponse> {
+    const activePoints = options?.active_points?.filter((name) => LOCAL_POINT_NAMES.includes(name))
+    const calculated = calculateLocalSubject(subject, options?.active_points)
+    const activeAspects = Array.isArray(options?.active_aspects)
+      ? (options.active_aspects as { name: string; orb: number }[])
+      : DEFAULT_ACTIVE_ASPECTS
+    const aspects = findLocalAspects(calculated, activeAspects, activePoints)
+
+    const svg = renderChartWheelSvg({ rings: [{ subject: calculated, label: calculated.name }], aspects, activePoints })
+
+    return {
+      status: 'OK',
+      message: 'Calculated offline with the local ephemeris',
+      chart_data: {
+        chart_type: 'Natal',
+        subject: calculated,
+        lunar_phase: calculated.lunar_phase!,
+        aspects,
+        ...getDistributions(calculated),
+        active_points: activePoints ?? LOCAL_POINT_NAMES,
+        active_aspects: activeAspects,
+        houses_names_list: HOUSE_POINTS.map((house) => house.name),
+      },
+      ...(options?.split_chart ? { chart_wheel: svg } : { chart: svg }),
+    }
+  }
+}
+
+/**
+ * Shared instance used as the Astrologer API fallback
+ */
+export const localCalculationBackend = new LocalCalculationBackend()
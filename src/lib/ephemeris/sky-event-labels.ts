@@ -0,0 +1,60 @@
+/**
+ * Display labels for sky events, shared by the events page and calendar exports
+ *
+ * @module lib/ephemeris/sky-event-labels
+ */
+
+import { formatPlanetName } from '@/lib/astrology/planet-formatting'
+import type { SkyEvent } from './sky-events'
+
+export const SIGN_NAMES: Record<string, string> = {
+  Ari: 'Aries',
+  Tau: 'Taurus',
+  Gem: 'Gemini',
+  Can: 'Cancer',
+  Leo: 'Leo',
+  Vir: 'Virgo',
+  Lib: 'Libra',
+  Sco: 'Scorpio',
+  Sag: 'Sagittarius',
+  Cap: 'Capricorn',
+  Aqu: 'Aquarius',
+  Pis: 'Pisces',
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1)
+
+/**
+ * Degrees and minutes within the sign, e.g. "27°13' Aries"
+ */
+export function formatSignPosition(longitude: number, sign: string): string {
+  const totalMinutes = Math.floor((((longitude % 30) + 30) % 30) * 60)
+  return `${Math.floor(totalMinutes / 60)}°${String(totalMinutes % 60).padStart(2, '0')}' ${SIGN_NAMES[sign] ?? sign}`
+}
+
+/**
+ * One-line title of a sky event, e.g. "Total Solar Eclipse in Aries" or "Mars enters Leo"
+ */
+export function getSkyEventSummary(event: SkyEvent): string {
+  const sign = SIGN_NAMES[event.sign] ?? event.sign
+  const point = formatPlanetName(event.point)
+
+  switch (event.type) {
+    case 'new-moon':
+      return `New Moon in ${sign}`
+    case 'full-moon':
+      return `Full Moon in ${sign}`
+    case 'solar-eclipse':
+      return `${capitalize(event.eclipse?.kind ?? '')} Solar Eclipse in ${sign}`.trim()
+    case 'lunar-eclipse':
+      return `${capitalize(event.eclipse?.kind ?? '')} Lunar Eclipse in ${sign}`.trim()
+    case 'ingress':
+      return `${point} enters ${sign}`
+    case 'station-retrograde':
+      return `${point} stations retrograde in ${sign}`
+    case 'station-direct':
+      return `${point} stations direct in ${sign}`
+    case 'void-of-course':
+      return `Moon void of course in ${sign}`
+  }
+}
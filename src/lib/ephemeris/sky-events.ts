@@ -0,0 +1,603 @@
+/**
+ * Lunations, eclipses, sign ingresses, stations and void-of-course Moon periods
+ * found with the local ephemeris
+ *
+ * Events are located on a coarse sample grid and refined by bisection to the
+ * minute. Eclipses are classified with Meeus, Astronomical Algorithms, ch. 54.
+ * Ingresses use the tropical zodiac, like the rest of the local ephemeris.
+ *
+ * @module lib/ephemeris/sky-events
+ */
+
+import { ZODIAC_SIGNS } from '@/lib/astrology/celestial-points'
+import { normalizeDegrees, signedDelta } from '@/lib/astrology/transit-timeline'
+import {
+  dateFromJulianDay,
+  deltaT,
+  getApparentLongitude,
+  getEclipticPosition,
+  julianDay,
+  J2000,
+  type EphemerisBody,
+} from './astronomy'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Kinds of sky events, searched separately
+ */
+export type SkyEventCategory = 'lunations' | 'eclipses' | 'ingresses' | 'stations' | 'void-of-course'
+
+export type SkyEventType =
+  | 'new-moon'
+  | 'full-moon'
+  | 'solar-eclipse'
+  | 'lunar-eclipse'
+  | 'ingress'
+  | 'station-retrograde'
+  | 'station-direct'
+  | 'void-of-course'
+
+/**
+ * Type of an eclipse. Hybrid solar eclipses are total along part of the track and annular elsewhere.
+ */
+export type EclipseKind = 'total' | 'annular' | 'hybrid' | 'partial' | 'penumbral'
+
+export interface EclipseDetails {
+  kind: EclipseKind
+  /**
+   * Fraction of the Sun's diameter covered at greatest eclipse (solar), or of the
+   * Moon's diameter inside the umbra, or the penumbra for penumbral eclipses (lunar)
+   */
+  magnitude: number
+  /** Least distance of the shadow axis from the centre of the Earth, in Earth radii */
+  gamma: number
+  /** Saros series the eclipse belongs to */
+  saros: number
+}
+
+/**
+ * An event in the sky, independent of any chart
+ */
+export interface SkyEvent {
+  /** Stable identifier, e.g. "ingress:Mars:Ari:2026-03-02" */
+  id: string
+  type: SkyEventType
+  /** ISO datetime (UTC, minute precision) */
+  date: string
+  /** API name of the body (the Moon for lunations and eclipses) */
+  point: string
+  /** Longitude of the body at the event */
+  longitude: number
+  /** Sign abbreviation at the event (the sign entered, for ingresses) */
+  sign: string
+  /** Set for eclipses */
+  eclipse?: EclipseDetails
+  /** End of the period, for void-of-course Moons (ISO datetime, the next ingress) */
+  endDate?: string
+  /** Last major aspect of the Moon before a void-of-course period, if made in the same sign */
+  lastAspect?: { point: string; aspect: string }
+}
+
+export interface FindSkyEventsOptions {
+  startDate: Date
+  endDate: Date
+  /** Kinds of events to search (default: all) */
+  categories?: readonly SkyEventCategory[]
+  /** API point names whose ingresses and stations are searched (default: Sun to Pluto, without the Moon) */
+  points?: string[]
+}
+
+/**
+ * A natal point near a sky event
+ */
+export interface NatalContact {
+  point: string
+  aspect: 'conjunction' | 'opposition'
+  /** Distance from the exact aspect, in degrees */
+  orb: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SKY_EVENT_CATEGORIES: readonly SkyEventCategory[] = [
+  'lunations',
+  'eclipses',
+  'ingresses',
+  'stations',
+  'void-of-course',
+]
+
+/** Longest range searched at once, in days */
+export const MAX_SKY_EVENT_RANGE_DAYS = 3653
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+const RAD = Math.PI / 180
+
+/** Mean synodic month, in days */
+const SYNODIC_MONTH_DAYS = 29.530588861
+
+/** Bodies with their API names and coarse sampling steps (days) for ingresses and stations */
+const SKY_BODIES: { name: string; body: EphemerisBody; stepDays: number; stations: boolean }[] = [
+  { name: 'Sun', body: 'sun', stepDays: 1, stations: false },
+  { name: 'Moon', body: 'moon', stepDays: 0.25, stations: false },
+  { name: 'Mercury', body: 'mercury', stepDays: 1, stations: true },
+  { name: 'Venus', body: 'venus', stepDays: 1, stations: true },
+  { name: 'Mars', body: 'mars', stepDays: 1, stations: true },
+  { name: 'Jupiter', body: 'jupiter', stepDays: 2, stations: true },
+  { name: 'Saturn', body: 'saturn', stepDays: 2, stations: true },
+  { name: 'Uranus', body: 'uranus', stepDays: 3, stations: true },
+  { name: 'Neptune', body: 'neptune', stepDays: 3, stations: true },
+  { name: 'Pluto', body: 'pluto', stepDays: 3, stations: true },
+]
+
+const DEFAULT_SKY_POINTS = SKY_BODIES.filter((entry) => entry.name !== 'Moon').map((entry) => entry.name)
+
+/** Ptolemaic aspects whose completion ends the Moon's course in a sign, as separations from 0 to 360° */
+const COURSE_ASPECTS: { name: string; separations: number[] }[] = [
+  { name: 'conjunction', separations: [0] },
+  { name: 'sextile', separations: [60, 300] },
+  { name: 'square', separations: [90, 270] },
+  { name: 'trine', separations: [120, 240] },
+  { name: 'opposition', separations: [180] },
+]
+
+/** Sampling step for the Moon's aspects, in days: the Moon gains at most about 1.3° on any planet */
+const COURSE_STEP_DAYS = 1 / 12
+
+/**
+ * Saros numbers of the eclipses at lunation 0 (new moon of 6 January 2000) and 0.5. Successive lunations
+ * move 38 series forward, modulo the 223 lunations of a Saros cycle.
+ */
+const SAROS_AT_LUNATION_ZERO = { solar: 111, lunar: 123 }
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const sin = (deg: number) => Math.sin(deg * RAD)
+const cos = (deg: number) => Math.cos(deg * RAD)
+
+function signOf(longitude: number): string {
+  return ZODIAC_SIGNS[Math.floor(normalizeDegrees(longitude) / 30) % 12]!.sign
+}
+
+function toMinute(time: number): string {
+  return new Date(Math.round(time / MINUTE_MS) * MINUTE_MS).toISOString()
+}
+
+/**
+ * Identifier built from the day rather than the minute, so it survives small
+ * differences in the refined time between searches over different ranges
+ */
+function eventId(type: SkyEventType, point: string, sign: string, time: number): string {
+  return `${type}:${point}:${sign}:${toMinute(time).slice(0, 10)}`
+}
+
+/**
+ * Narrow down the instant at which `isAfter` turns true, between a time where it is false and one where it is true
+ */
+function bisect(before: number, after: number, isAfter: (time: number) => boolean): number {
+  let low = before
+  let high = after
+  while (high - low > MINUTE_MS / 2) {
+    const mid = (low + high) / 2
+    if (isAfter(mid)) high = mid
+    else low = mid
+  }
+  return (low + high) / 2
+}
+
+function sampleTimes(startDate: Date, endDate: Date, stepDays: number): number[] {
+  const times: number[] = []
+  const start = startDate.getTime()
+  const end = endDate.getTime()
+  for (let time = start; time < end; time += stepDays * DAY_MS) {
+    times.push(time)
+  }
+  times.push(end)
+  return times
+}
+
+// ============================================================================
+// Lunations
+// ============================================================================
+
+/** Elongation of the Moon from the Sun, 0-360 */
+function elongation(time: number): number {
+  const date = new Date(time)
+  return normalizeDegrees(getApparentLongitude('moon', date) - getApparentLongitude('sun', date))
+}
+
+/**
+ * New and full moons in a range
+ */
+export function findLunations(startDate: Date, endDate: Date): SkyEvent[] {
+  const events: SkyEvent[] = []
+  const times = sampleTimes(startDate, endDate, 1)
+  let previous = elongation(times[0]!)
+
+  for (let i = 1; i < times.length; i++) {
+    const current = elongation(times[i]!)
+    // The elongation grows about 12° a day, so a phase is crossed when it passes 0° or 180°
+    for (const phase of [0, 180]) {
+      const before = signedDelta(previous, phase)
+      const after = signedDelta(current, phase)
+      if (before < 0 && after >= 0 && after - before < 90) {
+        const time = bisect(times[i - 1]!, times[i]!, (t) => signedDelta(elongation(t), phase) >= 0)
+        const longitude = getApparentLongitude('moon', new Date(time))
+        const type = phase === 0 ? 'new-moon' : 'full-moon'
+        const sign = signOf(longitude)
+        events.push({
+          id: eventId(type, 'Moon', sign, time),
+          type,
+          date: toMinute(time),
+          point: 'Moon',
+          longitude,
+          sign,
+        })
+      }
+    }
+    previous = current
+  }
+
+  return events
+}
+
+// ============================================================================
+// Eclipses
+// ============================================================================
+
+/**
+ * Eclipse at a lunation, if any (Meeus ch. 54)
+ *
+ * @param k - Lunation number since the new moon of 6 January 2000: an integer for new moons, n + 0.5 for full moons
+ * @returns Time of greatest eclipse (UT) and its details, or null when the Moon is too far from a node
+ */
+export function getEclipseAtLunation(k: number): { date: Date; details: EclipseDetails } | null {
+  const T = k / 1236.85
+  const T2 = T * T
+  const T3 = T2 * T
+  const T4 = T3 * T
+
+  const F = 160.7108 + 390.67050284 * k - 0.0016118 * T2 - 0.00000227 * T3 + 0.000000011 * T4
+  if (Math.abs(sin(F)) > 0.36) return null
+
+  const solar = Number.isInteger(k)
+  const jdeMean = 2451550.09766 + SYNODIC_MONTH_DAYS * k + 0.00015437 * T2 - 0.00000015 * T3 + 0.00000000073 * T4
+  const M = 2.5534 + 29.1053567 * k - 0.0000014 * T2 - 0.00000011 * T3
+  const Mp = 201.5643 + 385.81693528 * k + 0.0107582 * T2 + 0.00001238 * T3 - 0.000000058 * T4
+  const omega = 124.7746 - 1.56375588 * k + 0.0020672 * T2 + 0.00000215 * T3
+  const E = 1 - 0.002516 * T - 0.0000074 * T2
+  const F1 = F - 0.02665 * sin(omega)
+  const A1 = 299.77 + 0.107408 * k - 0.009173 * T2
+
+  const jde =
+    jdeMean +
+    (solar ? -0.4075 * sin(Mp) + 0.1721 * E * sin(M) : -0.4065 * sin(Mp) + 0.1727 * E * sin(M)) +
+    0.0161 * sin(2 * Mp) -
+    0.0097 * sin(2 * F1) +
+    0.0073 * E * sin(Mp - M) -
+    0.005 * E * sin(Mp + M) -
+    0.0023 * sin(Mp - 2 * F1) +
+    0.0021 * E * sin(2 * M) +
+    0.0012 * sin(Mp + 2 * F1) +
+    0.0006 * E * sin(2 * Mp + M) -
+    0.0004 * sin(3 * Mp) -
+    0.0003 * E * sin(M + 2 * F1) +
+    0.0003 * sin(A1) -
+    0.0002 * E * sin(M - 2 * F1) -
+    0.0002 * E * sin(2 * Mp - M) -
+    0.0002 * sin(omega)
+
+  const P =
+    0.207 * E * sin(M) +
+    0.0024 * E * sin(2 * M) -
+    0.0392 * sin(Mp) +
+    0.0116 * sin(2 * Mp) -
+    0.0073 * E * sin(Mp + M) +
+    0.0067 * E * sin(Mp - M) +
+    0.0118 * sin(2 * F1)
+  const Q =
+    5.2207 -
+    0.0048 * E * cos(M) +
+    0.002 * E * cos(2 * M) -
+    0.3299 * cos(Mp) -
+    0.006 * E * cos(Mp + M) +
+    0.0041 * E * cos(Mp - M)
+  const W = Math.abs(cos(F1))
+  const gamma = (P * cos(F1) + Q * sin(F1)) * (1 - 0.0048 * W)
+  const u = 0.0059 + 0.0046 * E * cos(M) - 0.0182 * cos(Mp) + 0.0004 * cos(2 * Mp) - 0.0005 * cos(M + Mp)
+  const absGamma = Math.abs(gamma)
+
+  let details: Omit<EclipseDetails, 'saros'> | null = null
+  if (solar) {
+    if (absGamma > 1.5433 + u) return null
+    if (absGamma < 0.9972 || absGamma < 0.9972 + Math.abs(u)) {
+      // Central (or, just beyond 0.9972, non-central) total or annular eclipse
+      let kind: EclipseKind = 'annular'
+      if (u < 0) kind = 'total'
+      else if (u < 0.0047 && u < 0.00464 * Math.sqrt(Math.max(0, 1 - gamma * gamma))) kind = 'hybrid'
+      details = { kind, magnitude: kind === 'annular' ? 1 - u : 1, gamma }
+    } else {
+      details = { kind: 'partial', magnitude: (1.5433 + u - absGamma) / (0.5461 + 2 * u), gamma }
+    }
+  } else {
+    const penumbral = (1.5573 + u - absGamma) / 0.545
+    const umbral = (1.0128 - u - absGamma) / 0.545
+    if (penumbral <= 0) return null
+    if (umbral <= 0) details = { kind: 'penumbral', magnitude: penumbral, gamma }
+    else details = { kind: umbral >= 1 ? 'total' : 'partial', magnitude: umbral, gamma }
+  }
+
+  const year = 2000 + (jde - J2000) / 365.25
+  return { date: dateFromJulianDay(jde - deltaT(year) / 86400), details: { ...details, saros: getSarosNumber(k) } }
+}
+
+/**
+ * Saros series of the eclipse at a lunation (van den Bergh's numbering)
+ *
+ * @param k - Lunation number, as in getEclipseAtLunation
+ */
+export function getSarosNumber(k: number): number {
+  const lunation = Math.floor(k)
+  const offset = Number.isInteger(k) ? SAROS_AT_LUNATION_ZERO.solar : SAROS_AT_LUNATION_ZERO.lunar
+  return ((((offset + 38 * lunation) % 223) + 223) % 223) + 1
+}
+
+/**
+ * Solar and lunar eclipses in a range
+ */
+export function findEclipses(startDate: Date, endDate: Date): SkyEvent[] {
+  const events: SkyEvent[] = []
+  const first = Math.floor((julianDay(startDate) - 2451550.09766) / SYNODIC_MONTH_DAYS) - 1
+  const last = Math.ceil((julianDay(endDate) - 2451550.09766) / SYNODIC_MONTH_DAYS) + 1
+
+  for (let n = first; n <= last; n++) {
+    for (const k of [n, n + 0.5]) {
+      const eclipse = getEclipseAtLunation(k)
+      if (!eclipse) continue
+      const time = eclipse.date.getTime()
+      if (time < startDate.getTime() || time > endDate.getTime()) continue
+
+      const type = Number.isInteger(k) ? 'solar-eclipse' : 'lunar-eclipse'
+      const longitude = getApparentLongitude('moon', eclipse.date)
+      const sign = signOf(longitude)
+      events.push({
+        id: eventId(type, 'Moon', sign, time),
+        type,
+        date: toMinute(time),
+        point: 'Moon',
+        longitude,
+        sign,
+        eclipse: eclipse.details,
+      })
+    }
+  }
+
+  return events
+}
+
+// ============================================================================
+// Ingresses and stations
+// ============================================================================
+
+/**
+ * Sign ingresses of a body, including re-entries while retrograde
+ */
+function findBodyIngresses(name: string, body: EphemerisBody, times: number[]): SkyEvent[] {
+  const events: SkyEvent[] = []
+  const signIndex = (time: number) => Math.floor(getApparentLongitude(body, new Date(time)) / 30) % 12
+  let previous = signIndex(times[0]!)
+
+  for (let i = 1; i < times.length; i++) {
+    const current = signIndex(times[i]!)
+    if (current !== previous) {
+      const from = previous
+      const time = bisect(times[i - 1]!, times[i]!, (t) => signIndex(t) !== from)
+      const longitude = getApparentLongitude(body, new Date(time))
+      const sign = ZODIAC_SIGNS[current]!.sign
+      events.push({
+        id: eventId('ingress', name, sign, time),
+        type: 'ingress',
+        date: toMinute(time),
+        point: name,
+        longitude,
+        sign,
+      })
+    }
+    previous = current
+  }
+
+  return events
+}
+
+/**
+ * Retrograde and direct stations of a body
+ */
+function findBodyStations(name: string, body: EphemerisBody, times: number[]): SkyEvent[] {
+  const events: SkyEvent[] = []
+  const speed = (time: number) => getEclipticPosition(body, new Date(time)).speed
+  let previous = speed(times[0]!)
+
+  for (let i = 1; i < times.length; i++) {
+    const current = speed(times[i]!)
+    if (previous < 0 !== current < 0) {
+      const retrograde = current < 0
+      const time = bisect(times[i - 1]!, times[i]!, (t) => speed(t) < 0 === retrograde)
+      const type = retrograde ? 'station-retrograde' : 'station-direct'
+      const longitude = getApparentLongitude(body, new Date(time))
+      const sign = signOf(longitude)
+      events.push({ id: eventId(type, name, sign, time), type, date: toMinute(time), point: name, longitude, sign })
+    }
+    previous = current
+  }
+
+  return events
+}
+
+/**
+ * Sign ingresses of the given points in a range
+ *
+ * @param points - API point names; names other than the Sun, Moon and planets are ignored
+ */
+export function findIngresses(startDate: Date, endDate: Date, points: string[] = DEFAULT_SKY_POINTS): SkyEvent[] {
+  return SKY_BODIES.filter((entry) => points.includes(entry.name)).flatMap((entry) =>
+    findBodyIngresses(entry.name, entry.body, sampleTimes(startDate, endDate, entry.stepDays)),
+  )
+}
+
+/**
+ * Retrograde and direct stations of the given planets in a range
+ *
+ * @param points - API point names; the Sun, Moon and points other than planets are ignored
+ */
+export function findStations(startDate: Date, endDate: Date, points: string[] = DEFAULT_SKY_POINTS): SkyEvent[] {
+  return SKY_BODIES.filter((entry) => entry.stations && points.includes(entry.name)).flatMap((entry) =>
+    findBodyStations(entry.name, entry.body, sampleTimes(startDate, endDate, entry.stepDays)),
+  )
+}
+
+// ============================================================================
+// Void-of-course Moon
+// ============================================================================
+
+/**
+ * Last Ptolemaic aspect the Moon completes with the Sun or a planet between two times
+ */
+function findLastMoonAspect(start: number, end: number): { time: number; point: string; aspect: string } | null {
+  const planets = SKY_BODIES.filter((entry) => entry.name !== 'Moon')
+  const separations = (time: number) => {
+    const date = new Date(time)
+    const moon = getApparentLongitude('moon', date)
+    return planets.map((entry) => normalizeDegrees(moon - getApparentLongitude(entry.body, date)))
+  }
+
+  // Scan backwards from the end: the Moon outpaces every planet, so each separation only grows
+  const times = sampleTimes(new Date(start), new Date(end), COURSE_STEP_DAYS).reverse()
+  let later = separations(times[0]!)
+
+  for (let i = 1; i < times.length; i++) {
+    const earlier = separations(times[i]!)
+    let last: { time: number; point: string; aspect: string } | null = null
+
+    planets.forEach((entry, index) => {
+      for (const { name, separations: targets } of COURSE_ASPECTS) {
+        for (const target of targets) {
+          if (signedDelta(earlier[index]!, target) < 0 && signedDelta(later[index]!, target) >= 0) {
+            const time = bisect(times[i]!, times[i - 1]!, (t) => {
+              const date = new Date(t)
+              const separation = getApparentLongitude('moon', date) - getApparentLongitude(entry.body, date)
+              return signedDelta(normalizeDegrees(separation), target) >= 0
+            })
+            if (!last || time > last.time) last = { time, point: entry.name, aspect: name }
+          }
+        }
+      }
+    })
+
+    if (last) return last
+    later = earlier
+  }
+
+  return null
+}
+
+/**
+ * Void-of-course Moon periods overlapping a range
+ *
+ * A period runs from the Moon's last Ptolemaic aspect to the Sun or a planet
+ * (Mercury to Pluto) until it enters the next sign. When the Moon makes no
+ * aspect in a sign, the whole stay is void.
+ */
+export function findVoidOfCourse(startDate: Date, endDate: Date): SkyEvent[] {
+  // The Moon stays less than three days in a sign, so this includes the ingress that starts the first period
+  const searchStart = new Date(startDate.getTime() - 3 * DAY_MS)
+  const ingresses = findBodyIngresses('Moon', 'moon', sampleTimes(searchStart, endDate, 0.25))
+  const events: SkyEvent[] = []
+
+  for (let i = 1; i < ingresses.length; i++) {
+    const signStart = new Date(ingresses[i - 1]!.date).getTime()
+    const signEnd = new Date(ingresses[i]!.date).getTime()
+    if (signEnd <= startDate.getTime()) continue
+
+    const lastAspect = findLastMoonAspect(signStart, signEnd)
+    const time = lastAspect?.time ?? signStart
+    if (time > endDate.getTime()) break
+
+    const longitude = getApparentLongitude('moon', new Date(time))
+    const sign = signOf(longitude)
+    events.push({
+      id: eventId('void-of-course', 'Moon', sign, time),
+      type: 'void-of-course',
+      date: toMinute(time),
+      endDate: ingresses[i]!.date,
+      point: 'Moon',
+      longitude,
+      sign,
+      ...(lastAspect && { lastAspect: { point: lastAspect.point, aspect: lastAspect.aspect } }),
+    })
+  }
+
+  return events
+}
+
+/**
+ * Sky events of the selected categories in a range, in chronological order
+ *
+ * @throws Error if the range is inverted or longer than MAX_SKY_EVENT_RANGE_DAYS
+ */
+export function findSkyEvents(options: FindSkyEventsOptions): SkyEvent[] {
+  const { startDate, endDate, categories = SKY_EVENT_CATEGORIES, points = DEFAULT_SKY_POINTS } = options
+  const rangeDays = (endDate.getTime() - startDate.getTime()) / DAY_MS
+  if (!(rangeDays >= 0) || rangeDays > MAX_SKY_EVENT_RANGE_DAYS) {
+    throw new Error(`Sky events can be searched over at most ${MAX_SKY_EVENT_RANGE_DAYS} days`)
+  }
+
+  const events: SkyEvent[] = []
+  if (categories.includes('lunations')) events.push(...findLunations(startDate, endDate))
+  if (categories.includes('eclipses')) events.push(...findEclipses(startDate, endDate))
+  if (categories.includes('ingresses')) events.push(...findIngresses(startDate, endDate, points))
+  if (categories.includes('stations')) events.push(...findStations(startDate, endDate, points))
+  if (categories.includes('void-of-course')) events.push(...findVoidOfCourse(startDate, endDate))
+
+  return events.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+// ============================================================================
+// Natal contacts
+// ============================================================================
+
+/**
+ * Natal points conjunct (or opposite) the position of a sky event, closest first
+ *
+ * Void-of-course periods have no single position and make no contacts.
+ *
+ * @param natalLongitudes - Tropical longitudes of the natal points, by API name
+ * @param options.orb - Largest distance from the exact aspect, in degrees
+ * @param options.oppositions - Also report natal points opposite the event
+ */
+export function findNatalContacts(
+  event: SkyEvent,
+  natalLongitudes: Record<string, number>,
+  options: { orb: number; oppositions?: boolean },
+): NatalContact[] {
+  if (event.type === 'void-of-course') return []
+
+  const contacts: NatalContact[] = []
+  for (const [point, longitude] of Object.entries(natalLongitudes)) {
+    const distance = Math.abs(signedDelta(event.longitude, longitude))
+    if (distance <= options.orb) {
+      contacts.push({ point, aspect: 'conjunction', orb: distance })
+    } else if (options.oppositions && 180 - distance <= options.orb) {
+      contacts.push({ point, aspect: 'opposition', orb: 180 - distance })
+    }
+  }
+
+  return contacts.sort((a, b) => a.orb - b.orb)
+}
@@ -0,0 +1,284 @@
+/**
+ * Simplified coastlines of the continents and larger islands
+ *
+ * Low-resolution outlines, about one vertex every few hundred kilometres, for
+ * world maps drawn in the browser. Good enough to recognise the land masses
+ * under astrocartography lines, not to tell which side of a bay a city is on.
+ *
+ * Each outline is a closed ring stored as a flat list of longitude, latitude
+ * pairs (east and north positive), which keeps the data compact.
+ *
+ * @module lib/geo/coastlines
+ */
+
+export interface Landmass {
+  name: string
+  /** Longitude, latitude, longitude, latitude, ... */
+  coordinates: number[]
+}
+
+export const LANDMASSES: Landmass[] = [
+  {
+    name: 'North America',
+    coordinates: [
+      -168, 65.5, -165, 68.5, -156, 71.3, -141, 69.7, -128, 70, -115, 68, -95, 68.5, -88, 69, -82, 67, -87, 64, -94, 60,
+      -93, 57, -85, 55.2, -82, 52.5, -79, 51.5, -78, 55, -77, 60, -78, 62.3, -72, 61.5, -69, 58.5, -65, 60, -61, 56,
+      -57, 52, -60, 50, -66, 49.2, -64.5, 48.2, -61, 45.5, -66, 44.5, -70, 43.5, -70.5, 41.5, -74, 40.5, -76, 37, -75.5,
+      35.2, -78, 33.8, -81, 31.5, -80, 26.8, -80.5, 25.2, -82, 26.5, -83, 29.5, -85, 29.8, -89, 30.2, -90, 29, -94,
+      29.6, -97.2, 27.6, -97.7, 22, -96, 19, -94, 18.2, -91, 18.8, -90.5, 21, -87, 21.5, -87.5, 18, -88.5, 16, -84,
+      15.8, -83.3, 12, -83.8, 10.9, -81.5, 9, -79.5, 9.6, -77.4, 8.7, -78.2, 7.5, -80, 7.3, -83, 8.3, -85.7, 9.9, -85.7,
+      11.2, -87.5, 13.2, -91.4, 14, -94, 16, -96.5, 15.7, -101, 17.5, -105.5, 20, -105.5, 22.5, -109, 26, -112.5, 30,
+      -114.7, 31.7, -112.5, 28.5, -110, 23, -112, 24.8, -114, 28, -116, 31.5, -117.2, 32.7, -120.6, 34.5, -122.5, 37.8,
+      -124.3, 40.3, -124, 46.3, -124.7, 48.4, -123, 49, -127.5, 50.8, -130, 54.3, -133, 57, -137.5, 58.6, -140, 59.8,
+      -146, 60.8, -151.5, 59.2, -154, 57.5, -158, 56.7, -164.5, 54.5, -158, 58.5, -162, 60, -165.3, 62.3, -164.5, 63.2,
+      -161, 64.5, -166, 64.6, -168, 65.5,
+    ],
+  },
+  {
+    name: 'Greenland',
+    coordinates: [
+      -73, 78.5, -66, 81, -50, 82.5, -32, 83.5, -20, 82, -18, 77, -22, 73, -22, 70.5, -27, 68.5, -35, 66, -40, 65, -43,
+      60, -48, 61, -51, 64, -54, 67, -52, 70, -55, 72.5, -58, 75.5, -66, 76, -73, 78.5,
+    ],
+  },
+  {
+    name: 'Baffin Island',
+    coordinates: [-77, 62.5, -65, 62, -62, 66.7, -72, 71, -80, 73.7, -89, 73.5, -82, 69.5, -85, 66, -73, 65, -77, 62.5],
+  },
+  {
+    name: 'Ellesmere Island',
+    coordinates: [-90, 76.5, -77, 76, -75, 79, -65, 81.5, -62, 82.6, -80, 83, -92, 81.5, -90, 76.5],
+  },
+  {
+    name: 'Victoria Island',
+    coordinates: [-118, 69, -105, 68.5, -101, 69.5, -102, 72.8, -110, 73, -119, 71.2, -118, 69],
+  },
+  {
+    name: 'Newfoundland',
+    coordinates: [-59.3, 47.6, -55.5, 51.6, -53.5, 49.3, -52.7, 47.5, -53.6, 46.6, -55.9, 47.2, -59.3, 47.6],
+  },
+  {
+    name: 'Cuba',
+    coordinates: [
+      -84.9, 21.9, -82, 23.1, -80, 23, -77.2, 21.6, -74.2, 20.2, -77.7, 19.8, -78.5, 21.6, -81.8, 22.1, -84.9, 21.9,
+    ],
+  },
+  {
+    name: 'Hispaniola',
+    coordinates: [-74.4, 18.4, -72.8, 19.9, -70, 19.7, -68.3, 18.6, -70.7, 18.3, -72, 18, -74.4, 18.4],
+  },
+  {
+    name: 'South America',
+    coordinates: [
+      -77.4, 8.7, -75.5, 10.5, -72, 12, -71.5, 10.5, -68, 10.5, -62, 10.7, -60, 8.5, -57, 6, -52, 5, -50, 1.8, -50, 0,
+      -48, -1, -44, -2.5, -40, -2.8, -35.2, -5.5, -35, -9, -38.5, -13, -39, -17.5, -40.8, -22, -44, -23, -48.5, -26,
+      -48.8, -28.5, -51, -31, -53, -33.8, -55, -35, -57, -36.5, -57.5, -38.2, -62, -39, -65, -41, -63.5, -42.8, -65,
+      -45, -67.5, -46.5, -66, -48, -69, -51, -68.4, -52.3, -71, -54, -74.5, -52.5, -75.5, -48, -74, -44, -73.5, -39,
+      -71.5, -33, -71.5, -28, -70.5, -23, -70.3, -18.3, -75, -15.3, -77, -12, -79, -8, -81.2, -6, -81, -4, -80, -2,
+      -80.5, 0, -79.5, 1.5, -77.5, 4, -77.4, 7, -77.4, 8.7,
+    ],
+  },
+  {
+    name: 'Africa',
+    coordinates: [
+      -17, 21, -16, 24, -13, 27.7, -9.8, 29.8, -9.5, 32.5, -6.5, 34.5, -5.9, 35.8, -2, 35.1, 1, 36.5, 5, 36.8, 10, 37.2,
+      11, 35.5, 10.2, 34, 11.5, 33, 15, 32.3, 19.5, 30.3, 20, 32, 23, 32.6, 25, 31.6, 29, 30.9, 32.3, 31.3, 34.2, 31.2,
+      34.5, 28, 32.6, 29.9, 33.5, 27, 35.5, 24, 37.2, 21, 38.5, 18, 40, 15.5, 43.3, 12.6, 44, 11, 51.2, 11.8, 51, 10.4,
+      48, 5, 45.5, 2, 41.5, -1.7, 39.5, -4.7, 39, -7, 40.5, -10.5, 40.5, -15, 36.5, -18.7, 35, -21, 35.5, -24, 32.6,
+      -26, 32.4, -28.5, 30, -31.3, 27.5, -33.5, 22.5, -34, 20, -34.8, 18.4, -34, 18, -32, 16.5, -28.6, 15, -26.7, 14.5,
+      -22.5, 12, -18.5, 11.8, -16.5, 12.5, -13.5, 13.5, -11, 12.2, -6, 11.8, -3.5, 9, -1, 9.5, 1, 9.8, 3, 8.5, 4.5, 6,
+      4.3, 4.5, 6.3, 2, 6.3, -1.5, 5, -4, 5.2, -7.5, 4.4, -9.3, 5.5, -11.5, 6.9, -13.2, 8.8, -15, 10.9, -16.8, 12.5,
+      -17.5, 14.7, -16.5, 16.5, -16.2, 19.5, -17, 21,
+    ],
+  },
+  {
+    name: 'Madagascar',
+    coordinates: [
+      49.3, -12, 50.4, -15.5, 49.5, -17.5, 48.5, -20.5, 47.2, -24.8, 45, -25.5, 43.6, -23.5, 43.3, -21.5, 44.4, -19, 44,
+      -17, 46.3, -15.7, 48, -14, 49.3, -12,
+    ],
+  },
+  {
+    name: 'Eurasia',
+    coordinates: [
+      -9.5, 37, -8.8, 42, -9.3, 43, -8, 43.7, -1.8, 43.4, -1.2, 46, -2.5, 47.3, -4.7, 48.4, -1.6, 48.7, 1.5, 50.1, 3,
+      51.2, 4.5, 52.5, 5.5, 53.4, 8.7, 53.9, 8.6, 55.5, 8.1, 56.8, 10.5, 57.7, 10.2, 56, 10.9, 54.4, 13, 54.4, 14.2,
+      53.9, 18.5, 54.8, 21.2, 55.2, 21, 57, 23.5, 57.2, 24.3, 59.4, 28, 59.5, 30, 60, 28.5, 60.5, 22.9, 60, 21.4, 61,
+      21.5, 63.2, 25.3, 65, 22.2, 65.8, 21, 64.5, 18, 62.5, 17.3, 60.7, 18.9, 59.6, 16.5, 57, 14.3, 55.5, 12.9, 55.7,
+      11.5, 58, 10.6, 59.3, 8, 58, 5.6, 58.7, 5, 61, 5.6, 62.5, 9, 63.5, 12.5, 66, 14.5, 67.5, 16, 68.6, 19.5, 69.8,
+      23.5, 70.8, 28, 71.1, 31.2, 70.3, 29.4, 69.2, 33, 69.3, 41, 67.2, 38.5, 66, 34.8, 66, 33.6, 64.5, 36.5, 64.3,
+      40.5, 64.6, 44, 66, 44, 68.3, 46.5, 68.2, 50, 68, 54, 68.5, 58, 68.9, 60.5, 69.8, 66, 69.2, 68.5, 68.1, 69, 72.5,
+      72.5, 72.8, 72, 71, 74, 67.5, 76.5, 71.2, 80, 72.3, 83.5, 70.4, 86.5, 74, 91, 75.5, 98, 76.2, 104, 77.7, 110,
+      76.7, 113.5, 73.5, 119, 73, 126, 72.4, 129, 71, 132, 71.5, 139, 71.5, 145, 72.2, 152, 70.9, 160, 70.5, 166, 69.6,
+      170.5, 70, 176, 69.8, 180, 68.9, 180, 65, 178.5, 64.5, 178.5, 62.5, 174, 61.8, 170, 60, 165, 60, 163.5, 59.8, 162,
+      58, 163, 56.2, 160, 53.2, 156.7, 51, 155.7, 56, 156.8, 57.7, 162, 61.5, 160, 61.7, 154, 59.3, 148, 59.3, 143,
+      59.3, 140.7, 58.2, 137, 54.2, 139, 54.2, 141.3, 53, 140.5, 50, 140, 48.3, 135.5, 43.9, 131.5, 42.7, 129.7, 41,
+      128, 39, 129.4, 36.5, 129.3, 35.2, 126.5, 34.4, 126.5, 37.7, 125, 38, 124.5, 40, 121.5, 39.2, 121.7, 40.9, 118,
+      39.2, 117.8, 38, 120.5, 37.3, 122.5, 37, 119.2, 35, 120.8, 32.5, 121.9, 31, 122, 29.8, 120.8, 27.8, 119.5, 25.7,
+      117, 23.5, 113.5, 22.2, 110.5, 20.3, 109.7, 21.5, 107.5, 21.5, 106.5, 20, 105.7, 18.8, 106.7, 17.3, 108.8, 15.3,
+      109.3, 13, 109, 11.5, 107, 10.4, 105, 8.6, 104.8, 10.3, 102.8, 12, 100.9, 13.5, 99.2, 10.3, 100.3, 8.3, 101.3,
+      6.8, 103.4, 4.8, 104.2, 1.4, 103.5, 1.3, 101.3, 2.9, 100.3, 5.5, 98.3, 8, 98.5, 10.5, 97.8, 14.9, 97.3, 16.7,
+      94.5, 16, 94.3, 18.8, 92.3, 20.7, 91.8, 22.4, 90.5, 22, 88.2, 21.7, 86.9, 20.8, 85, 19.5, 82.3, 16.6, 80.3, 15.5,
+      80.2, 13, 79.8, 10.3, 78.2, 8.9, 77.5, 8.1, 76.2, 10, 74.8, 12.9, 73.5, 16, 72.8, 19, 72.6, 21.3, 70.4, 20.9,
+      68.9, 22.4, 70, 22.8, 68.2, 23.7, 66.6, 25.4, 61.6, 25.2, 57.3, 25.8, 56.4, 27.1, 54.7, 26.5, 51.5, 27.9, 50.1,
+      30.1, 48.5, 29.9, 48, 29, 49.6, 27, 50.2, 26.2, 50.8, 24.7, 51.6, 24.3, 51.5, 25.8, 52.5, 24.2, 54.2, 24.1, 56,
+      26.1, 56.4, 24.9, 58.7, 23.6, 59.8, 22.4, 57.8, 19, 55, 17, 52.2, 15.6, 48.7, 14, 45, 12.8, 43.5, 12.7, 42.7,
+      15.5, 42.8, 16.4, 40.9, 19.5, 39.1, 21.3, 38.4, 23.7, 35.2, 28, 34.9, 29.5, 34.5, 31.4, 35.2, 32.8, 35.8, 34.9,
+      36, 35.8, 36.2, 36.7, 34.7, 36.8, 32.5, 36.1, 30.6, 36.7, 28.7, 36.7, 27.2, 37.4, 26.3, 38.3, 26.6, 39.5, 26.2,
+      40.3, 29, 41.1, 31.3, 41.1, 33.5, 42, 35.2, 42, 38.3, 40.9, 41.5, 41.5, 41.6, 42.6, 39.9, 43.4, 38, 44.4, 36.7,
+      45.2, 38.2, 46.9, 35, 45.7, 33.5, 44.6, 32.5, 45.4, 33.6, 46, 31.7, 46.6, 30.7, 46.4, 29.6, 45.3, 28.7, 44.3,
+      27.9, 42.7, 28, 41.6, 26.1, 40.8, 23.7, 40.7, 22.9, 40.4, 23.3, 39.2, 22.6, 37.8, 21.7, 36.8, 21.1, 37.8, 20.2,
+      39.6, 19.4, 41.9, 15.9, 43.4, 13.7, 45.1, 12.3, 45.3, 12.6, 44.1, 13.8, 43, 16, 41.5, 18.5, 40.2, 17, 39, 16.5,
+      38.4, 15.6, 38.2, 15.9, 40, 14, 40.8, 12.2, 41.8, 10.5, 42.9, 9.8, 44.1, 7.5, 43.8, 4.6, 43.4, 3.1, 43.1, 3.2,
+      41.9, 0.8, 41, -0.3, 39.3, 0.2, 38.7, -0.7, 37.6, -2.1, 36.7, -4.4, 36.7, -5.6, 36, -6.5, 36.9, -7.5, 37.2, -8.9,
+      37, -9.5, 37,
+    ],
+  },
+  {
+    name: 'Great Britain',
+    coordinates: [
+      -5.7, 50.1, -3, 50.7, 1.3, 51.1, 1.7, 52.7, 0.2, 53.5, -0.5, 54.5, -1.6, 55.6, -2.1, 57.5, -1.8, 57.6, -3.1, 58.6,
+      -5, 58.6, -6.2, 57.5, -5.6, 56.3, -6.3, 56.3, -5, 55, -3, 54.9, -3.4, 54.3, -3, 53.4, -4.6, 53.3, -4.1, 52.8,
+      -5.2, 51.8, -3.4, 51.4, -4.5, 51.1, -5.7, 50.1,
+    ],
+  },
+  {
+    name: 'Ireland',
+    coordinates: [
+      -6, 52, -6.2, 53.8, -5.9, 54.6, -7.3, 55.3, -8.5, 54.5, -10, 54.2, -9.5, 53, -10.3, 51.9, -9.6, 51.5, -8, 51.8,
+      -6, 52,
+    ],
+  },
+  {
+    name: 'Iceland',
+    coordinates: [
+      -22.5, 64, -24, 65.5, -22, 66.4, -18, 66.2, -15, 66.4, -13.6, 65.2, -15, 64.3, -18, 63.4, -21, 63.8, -22.5, 64,
+    ],
+  },
+  {
+    name: 'Sicily',
+    coordinates: [12.4, 38, 15.6, 38.3, 15.1, 36.7, 12.4, 38],
+  },
+  {
+    name: 'Svalbard',
+    coordinates: [11, 78.5, 16, 80, 22, 80.3, 27, 80, 21, 78, 17, 76.6, 13, 78, 11, 78.5],
+  },
+  {
+    name: 'Novaya Zemlya',
+    coordinates: [52, 71.5, 56, 70.6, 58, 70.7, 56, 73, 59, 75, 68, 76.8, 63, 76.6, 55, 74, 52, 71.5],
+  },
+  {
+    name: 'Sri Lanka',
+    coordinates: [79.8, 6.2, 80.6, 5.9, 81.9, 7.5, 81.2, 8.6, 80, 9.8, 79.8, 6.2],
+  },
+  {
+    name: 'Honshu, Shikoku and Kyushu',
+    coordinates: [
+      130, 31.2, 131.5, 31.5, 132, 33.8, 135, 33.5, 136.8, 34.3, 138.8, 34.6, 140.9, 35.7, 141, 38, 142, 39.5, 141.4,
+      41.4, 140, 40.7, 139.8, 39, 138.5, 37.4, 136.8, 37.2, 136, 35.7, 133, 35.5, 131, 34.4, 129.6, 33.3, 130, 31.2,
+    ],
+  },
+  {
+    name: 'Hokkaido',
+    coordinates: [
+      140, 41.5, 141.2, 41.8, 143.3, 42, 145.6, 43.3, 145.2, 44.3, 141.7, 45.4, 141.4, 43.3, 140, 42.5, 140, 41.5,
+    ],
+  },
+  {
+    name: 'Taiwan',
+    coordinates: [120.1, 23, 120.9, 22, 121.9, 24.9, 121.5, 25.3, 120.1, 23],
+  },
+  {
+    name: 'Luzon',
+    coordinates: [
+      120.6, 14.4, 121.9, 14, 124, 12.6, 123.3, 13.9, 122.3, 14.2, 122.2, 16.3, 122.5, 18.4, 120.7, 18.5, 120.3, 16.1,
+      120.6, 14.4,
+    ],
+  },
+  {
+    name: 'Mindanao',
+    coordinates: [122, 7, 124, 6.2, 125.4, 5.6, 126.6, 7.3, 126.1, 9.2, 125.4, 9.8, 123.7, 8.6, 122.8, 7.4, 122, 7],
+  },
+  {
+    name: 'Sumatra',
+    coordinates: [
+      95.3, 5.6, 97.5, 5.2, 100.3, 2.2, 103.8, -1, 106, -3.2, 105.8, -5.8, 104.5, -5.9, 102.3, -4, 100.4, -1, 98.7, 1.7,
+      95.3, 5.6,
+    ],
+  },
+  {
+    name: 'Java',
+    coordinates: [105.2, -6.8, 106.8, -6, 110.4, -6.9, 112.6, -6.9, 114.6, -7.8, 112, -8.3, 108, -7.8, 105.2, -6.8],
+  },
+  {
+    name: 'Borneo',
+    coordinates: [
+      109, 1.5, 109.6, 2, 111, 1.8, 113, 3.2, 115.5, 5.3, 117, 7, 119.2, 5.3, 117.9, 4.1, 118, 1, 117.5, 0, 116.5, -2.5,
+      116, -3.7, 114.5, -4, 111.8, -3.4, 110.2, -2.9, 109.6, -1, 109, 1.5,
+    ],
+  },
+  {
+    name: 'Sulawesi',
+    coordinates: [
+      119.4, -5.5, 120.4, -5.5, 120.9, -2.6, 122.8, -4.6, 123.2, -3.4, 121.3, -1.9, 123.3, -1, 120.7, 0.5, 124.6, 0.4,
+      125.2, 1.5, 122.3, 1, 120.1, 0.6, 119.7, -0.6, 118.8, -2.8, 119.4, -5.5,
+    ],
+  },
+  {
+    name: 'New Guinea',
+    coordinates: [
+      131, -1.2, 134, -0.9, 135, -3.3, 137.8, -1.5, 141, -2.6, 144.5, -3.8, 146, -5.4, 147.6, -6, 147.2, -7.4, 148.5,
+      -9, 150.8, -10.3, 149.8, -10.5, 147, -10.1, 146, -8, 144, -7.6, 143.3, -9.1, 141, -9.1, 139, -8.1, 138, -8.4,
+      137.6, -5.2, 135.4, -4.4, 133, -4, 132, -2.8, 131, -1.2,
+    ],
+  },
+  {
+    name: 'Australia',
+    coordinates: [
+      113.5, -22, 114.2, -26.3, 115, -29.5, 115.7, -32, 115, -34.3, 118, -35, 123.5, -33.9, 126, -32.3, 131.2, -31.5,
+      134.1, -32.8, 135.9, -34.8, 137.8, -32.8, 137.5, -35.1, 139.7, -35.8, 140.6, -38, 143.5, -38.8, 146.4, -39.1, 150,
+      -37.5, 150.2, -35.7, 151.3, -33.7, 153.1, -30.4, 153.1, -26, 151.2, -24, 149.3, -21.5, 146.4, -19, 145.4, -16,
+      145.3, -14.9, 143.7, -14, 142.5, -10.8, 141.6, -12.8, 141.5, -15.3, 140.6, -17.6, 139, -17, 136.2, -15.9, 135.6,
+      -14.8, 136.9, -12.3, 135.5, -11.9, 132.6, -11.5, 131, -12.2, 129.4, -14.9, 128, -14.6, 126, -13.9, 124.5, -16.3,
+      122.3, -17.2, 121.4, -19.5, 118.8, -20.3, 116.8, -20.6, 114.7, -21.8, 113.5, -22,
+    ],
+  },
+  {
+    name: 'Tasmania',
+    coordinates: [144.6, -40.7, 148.3, -40.9, 148.2, -42.6, 147, -43.6, 145.3, -42.5, 144.6, -40.7],
+  },
+  {
+    name: 'New Zealand North Island',
+    coordinates: [
+      172.7, -34.4, 174.5, -35.8, 175.9, -37.5, 178.5, -37.7, 177, -39.6, 176.1, -41.3, 174.7, -41.3, 175, -39.9, 173.8,
+      -39.2, 174.6, -37.4, 172.7, -34.4,
+    ],
+  },
+  {
+    name: 'New Zealand South Island',
+    coordinates: [
+      172.7, -40.5, 174.3, -41.7, 173, -43.8, 171.2, -44.5, 170.7, -45.9, 169, -46.7, 166.5, -46, 167, -45, 168.4, -44,
+      170.8, -42.7, 172, -41, 172.7, -40.5,
+    ],
+  },
+  {
+    name: 'Antarctica',
+    coordinates: [
+      -180, -78, -160, -77, -150, -76, -140, -75, -120, -73.5, -100, -73, -80, -73, -75, -70, -68, -67, -62, -64, -57,
+      -63.3, -60, -64.7, -62, -67, -62, -72, -60, -75, -45, -78, -30, -78, -20, -73, -10, -71, 0, -70, 10, -70, 20, -70,
+      30, -69.5, 40, -69, 50, -67, 60, -67.5, 70, -68, 80, -67, 90, -66.5, 100, -66, 110, -66, 120, -67, 130, -66, 140,
+      -66.5, 150, -68.5, 160, -70, 170, -72, 170, -77, 180, -78, 180, -90, -180, -90, -180, -78,
+    ],
+  },
+]
+
+/**
+ * Outline of a landmass as [longitude, latitude] pairs
+ */
+export function getLandmassRing(landmass: Landmass): [number, number][] {
+  const ring: [number, number][] = []
+  for (let i = 0; i + 1 < landmass.coordinates.length; i += 2) {
+    ring.push([landmass.coordinates[i]!, landmass.coordinates[i + 1]!])
+  }
+  return ring
+}
@@ -0,0 +1,98 @@
+/**
+ * Major world cities shown on world maps
+ *
+ * A bundled selection so maps can offer places to click without a GeoNames
+ * lookup; any other city is found through the city search.
+ *
+ * @module lib/geo/world-cities
+ */
+
+export interface WorldCity {
+  name: string
+  /** ISO 3166-1 alpha-2 country code */
+  nation: string
+  latitude: number
+  longitude: number
+  timezone: string
+}
+
+export const WORLD_CITIES: WorldCity[] = [
+  // Europe
+  { name: 'London', nation: 'GB', latitude: 51.5074, longitude: -0.1278, timezone: 'Europe/London' },
+  { name: 'Dublin', nation: 'IE', latitude: 53.3498, longitude: -6.2603, timezone: 'Europe/Dublin' },
+  { name: 'Lisbon', nation: 'PT', latitude: 38.7223, longitude: -9.1393, timezone: 'Europe/Lisbon' },
+  { name: 'Madrid', nation: 'ES', latitude: 40.4168, longitude: -3.7038, timezone: 'Europe/Madrid' },
+  { name: 'Barcelona', nation: 'ES', latitude: 41.3874, longitude: 2.1686, timezone: 'Europe/Madrid' },
+  { name: 'Paris', nation: 'FR', latitude: 48.8566, longitude: 2.3522, timezone: 'Europe/Paris' },
+  { name: 'Amsterdam', nation: 'NL', latitude: 52.3676, longitude: 4.9041, timezone: 'Europe/Amsterdam' },
+  { name: 'Berlin', nation: 'DE', latitude: 52.52, longitude: 13.405, timezone: 'Europe/Berlin' },
+  { name: 'Zurich', nation: 'CH', latitude: 47.3769, longitude: 8.5417, timezone: 'Europe/Zurich' },
+  { name: 'Rome', nation: 'IT', latitude: 41.9028, longitude: 12.4964, timezone: 'Europe/Rome' },
+  { name: 'Milan', nation: 'IT', latitude: 45.4642, longitude: 9.19, timezone: 'Europe/Rome' },
+  { name: 'Vienna', nation: 'AT', latitude: 48.2082, longitude: 16.3738, timezone: 'Europe/Vienna' },
+  { name: 'Prague', nation: 'CZ', latitude: 50.0755, longitude: 14.4378, timezone: 'Europe/Prague' },
+  { name: 'Stockholm', nation: 'SE', latitude: 59.3293, longitude: 18.0686, timezone: 'Europe/Stockholm' },
+  { name: 'Oslo', nation: 'NO', latitude: 59.9139, longitude: 10.7522, timezone: 'Europe/Oslo' },
+  { name: 'Helsinki', nation: 'FI', latitude: 60.1699, longitude: 24.9384, timezone: 'Europe/Helsinki' },
+  { name: 'Warsaw', nation: 'PL', latitude: 52.2297, longitude: 21.0122, timezone: 'Europe/Warsaw' },
+  { name: 'Athens', nation: 'GR', latitude: 37.9838, longitude: 23.7275, timezone: 'Europe/Athens' },
+  { name: 'Istanbul', nation: 'TR', latitude: 41.0082, longitude: 28.9784, timezone: 'Europe/Istanbul' },
+  { name: 'Moscow', nation: 'RU', latitude: 55.7558, longitude: 37.6173, timezone: 'Europe/Moscow' },
+  { name: 'Reykjavik', nation: 'IS', latitude: 64.1466, longitude: -21.9426, timezone: 'Atlantic/Reykjavik' },
+
+  // Africa and the Middle East
+  { name: 'Cairo', nation: 'EG', latitude: 30.0444, longitude: 31.2357, timezone: 'Africa/Cairo' },
+  { name: 'Casablanca', nation: 'MA', latitude: 33.5731, longitude: -7.5898, timezone: 'Africa/Casablanca' },
+  { name: 'Lagos', nation: 'NG', latitude: 6.5244, longitude: 3.3792, timezone: 'Africa/Lagos' },
+  { name: 'Nairobi', nation: 'KE', latitude: -1.2921, longitude: 36.8219, timezone: 'Africa/Nairobi' },
+  { name: 'Johannesburg', nation: 'ZA', latitude: -26.2041, longitude: 28.0473, timezone: 'Africa/Johannesburg' },
+  { name: 'Cape Town', nation: 'ZA', latitude: -33.9249, longitude: 18.4241, timezone: 'Africa/Johannesburg' },
+  { name: 'Tel Aviv', nation: 'IL', latitude: 32.0853, longitude: 34.7818, timezone: 'Asia/Jerusalem' },
+  { name: 'Dubai', nation: 'AE', latitude: 25.2048, longitude: 55.2708, timezone: 'Asia/Dubai' },
+  { name: 'Tehran', nation: 'IR', latitude: 35.6892, longitude: 51.389, timezone: 'Asia/Tehran' },
+
+  // Asia and Oceania
+  { name: 'Mumbai', nation: 'IN', latitude: 19.076, longitude: 72.8777, timezone: 'Asia/Kolkata' },
+  { name: 'New Delhi', nation: 'IN', latitude: 28.6139, longitude: 77.209, timezone: 'Asia/Kolkata' },
+  { name: 'Bangkok', nation: 'TH', latitude: 13.7563, longitude: 100.5018, timezone: 'Asia/Bangkok' },
+  { name: 'Singapore', nation: 'SG', latitude: 1.3521, longitude: 103.8198, timezone: 'Asia/Singapore' },
+  { name: 'Jakarta', nation: 'ID', latitude: -6.2088, longitude: 106.8456, timezone: 'Asia/Jakarta' },
+  { name: 'Bali', nation: 'ID', latitude: -8.6705, longitude: 115.2126, timezone: 'Asia/Makassar' },
+  { name: 'Hong Kong', nation: 'HK', latitude: 22.3193, longitude: 114.1694, timezone: 'Asia/Hong_Kong' },
+  { name: 'Shanghai', nation: 'CN', latitude: 31.2304, longitude: 121.4737, timezone: 'Asia/Shanghai' },
+  { name: 'Beijing', nation: 'CN', latitude: 39.9042, longitude: 116.4074, timezone: 'Asia/Shanghai' },
+  { name: 'Seoul', nation: 'KR', latitude: 37.5665, longitude: 126.978, timezone: 'Asia/Seoul' },
+  { name: 'Tokyo', nation: 'JP', latitude: 35.6762, longitude: 139.6503, timezone: 'Asia/Tokyo' },
+  { name: 'Manila', nation: 'PH', latitude: 14.5995, longitude: 120.9842, timezone: 'Asia/Manila' },
+  { name: 'Perth', nation: 'AU', latitude: -31.9505, longitude: 115.8605, timezone: 'Australia/Perth' },
+  { name: 'Sydney', nation: 'AU', latitude: -33.8688, longitude: 151.2093, timezone: 'Australia/Sydney' },
+  { name: 'Melbourne', nation: 'AU', latitude: -37.8136, longitude: 144.9631, timezone: 'Australia/Melbourne' },
+  { name: 'Auckland', nation: 'NZ', latitude: -36.8485, longitude: 174.7633, timezone: 'Pacific/Auckland' },
+  { name: 'Honolulu', nation: 'US', latitude: 21.3069, longitude: -157.8583, timezone: 'Pacific/Honolulu' },
+
+  // The Americas
+  { name: 'Anchorage', nation: 'US', latitude: 61.2181, longitude: -149.9003, timezone: 'America/Anchorage' },
+  { name: 'Vancouver', nation: 'CA', latitude: 49.2827, longitude: -123.1207, timezone: 'America/Vancouver' },
+  { name: 'San Francisco', nation: 'US', latitude: 37.7749, longitude: -122.4194, timezone: 'America/Los_Angeles' },
+  { name: 'Los Angeles', nation: 'US', latitude: 34.0522, longitude: -118.2437, timezone: 'America/Los_Angeles' },
+  { name: 'Denver', nation: 'US', latitude: 39.7392, longitude: -104.9903, timezone: 'America/Denver' },
+  { name: 'Austin', nation: 'US', latitude: 30.2672, longitude: -97.7431, timezone: 'America/Chicago' },
+  { name: 'Chicago', nation: 'US', latitude: 41.8781, longitude: -87.6298, timezone: 'America/Chicago' },
+  { name: 'Toronto', nation: 'CA', latitude: 43.6532, longitude: -79.3832, timezone: 'America/Toronto' },
+  { name: 'New York', nation: 'US', latitude: 40.7128, longitude: -74.006, timezone: 'America/New_York' },
+  { name: 'Miami', nation: 'US', latitude: 25.7617, longitude: -80.1918, timezone: 'America/New_York' },
+  { name: 'Mexico City', nation: 'MX', latitude: 19.4326, longitude: -99.1332, timezone: 'America/Mexico_City' },
+  { name: 'Havana', nation: 'CU', latitude: 23.1136, longitude: -82.3666, timezone: 'America/Havana' },
+  { name: 'Bogotá', nation: 'CO', latitude: 4.711, longitude: -74.0721, timezone: 'America/Bogota' },
+  { name: 'Lima', nation: 'PE', latitude: -12.0464, longitude: -77.0428, timezone: 'America/Lima' },
+  { name: 'Rio de Janeiro', nation: 'BR', latitude: -22.9068, longitude: -43.1729, timezone: 'America/Sao_Paulo' },
+  { name: 'São Paulo', nation: 'BR', latitude: -23.5505, longitude: -46.6333, timezone: 'America/Sao_Paulo' },
+  { name: 'Santiago', nation: 'CL', latitude: -33.4489, longitude: -70.6693, timezone: 'America/Santiago' },
+  {
+    name: 'Buenos Aires',
+    nation: 'AR',
+    latitude: -34.6037,
+    longitude: -58.3816,
+    timezone: 'America/Argentina/Buenos_Aires',
+  },
+]
@@ -512,3 +512,105 @@ Vai al Pannello Admin: ${APP_URL}/admin
     return false
   }
 }
+
+/** Escape user-provided text, such as a workspace name, for the HTML body */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Send an invitation to join a team workspace
+ *
+ * @param email - Invited email address
+ * @param token - Invitation token for the acceptance link
+ * @param workspaceName - Name of the workspace
+ * @param inviterName - Username of the member who sent the invitation
+ * @param roleLabel - Display label of the offered role
+ * @param expiryDays - Days before the link expires
+ */
+export async function sendWorkspaceInvitationEmail(
+  email: string,
+  token: string,
+  workspaceName: string,
+  inviterName: string,
+  roleLabel: string,
+  expiryDays: number,
+): Promise<boolean> {
+  try {
+    const transporter = createTransporter()
+    const inviteUrl = `${APP_URL}/invitations/${token}`
+    const safeWorkspaceName = escapeHtml(workspaceName)
+    const safeInviterName = escapeHtml(inviterName)
+
+    await transporter.sendMail({
+      from: SMTP_FROM,
+      to: email,
+      subject: `Join ${workspaceName} on Astrologer Studio`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+            <h1 style="color: white; margin: 0; font-size: 24px;">🌟 Astrologer Studio</h1>
+          </div>
+          
+          <div style="background: #f9fafb; padding: 30px; border-radius: 0 0 12px 12px;">
+            <h2 style="color: #1f2937; margin-top: 0;">You're Invited to a Workspace</h2>
+            
+            <p>Hello,</p>
+            
+            <p><strong>${safeInviterName}</strong> invited you to join the workspace <strong>${safeWorkspaceName}</strong> as ${roleLabel.toLowerCase()}. Members of a workspace share its subjects and saved charts.</p>
+            
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${inviteUrl}" style="background: #6366f1; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: 600; display: inline-block;">
+                Accept Invitation
+              </a>
+            </div>
+            
+            <p style="color: #6b7280; font-size: 14px;">You need an account with this email address to accept. This link will expire in ${expiryDays} days.</p>
+            
+            <p style="color: #6b7280; font-size: 14px;">If you weren't expecting this invitation, you can safely ignore this email.</p>
+            
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;">
+            
+            <p style="color: #9ca3af; font-size: 12px; margin-bottom: 0;">
+              If the button doesn't work, copy and paste this link into your browser:<br>
+              <a href="${inviteUrl}" style="color: #6366f1; word-break: break-all;">${inviteUrl}</a>
+            </p>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+You're Invited to a Workspace - Astrologer Studio
+
+Hello,
+
+${inviterName} invited you to join the workspace "${workspaceName}" as ${roleLabel.toLowerCase()}. Members of a workspace share its subjects and saved charts.
+
+Accept the invitation:
+
+${inviteUrl}
+
+You need an account with this email address to accept. This link will expire in ${expiryDays} days.
+
+If you weren't expecting this invitation, you can safely ignore this email.
+      `.trim(),
+    })
+
+    logger.info(`Workspace invitation email sent to ${email}`)
+    return true
+  } catch (error) {
+    logger.error('Failed to send workspace invitation email:', error)
+    return false
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * OpenAPI document of the public REST API
+ *
+ * Component schemas are generated from the /api/v1 Zod schemas in
+ * `lib/validation/api`, so the document follows the validation the routes
+ * apply. Request bodies are described as accepted (before transforms),
+ * responses as returned.
+ *
+ * @module lib/public-api/openapi
+ */
+
+import { z } from 'zod'
+import {
+  apiChartRequestSchema,
+  apiChartResponseSchema,
+  apiErrorSchema,
+  apiSavedChartSchema,
+  apiSubjectInputSchema,
+  apiSubjectSchema,
+} from '@/lib/validation/api'
+import type { ApiTokenScope } from './tokens'
+
+type JsonObject = Record<string, unknown>
+
+function toSchema(schema: z.ZodType, io: 'input' | 'output'): JsonObject {
+  return z.toJSONSchema(schema, { target: 'openapi-3.0', io, unrepresentable: 'any' }) as JsonObject
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` })
+
+const jsonContent = (schema: JsonObject) => ({ 'application/json': { schema } })
+
+const listOf = (name: string) => ({
+  type: 'object',
+  properties: { data: { type: 'array', items: ref(name) }, total: { type: 'integer' } },
+  required: ['data', 'total'],
+})
+
+const errorResponse = (description: string) => ({ description, content: jsonContent(ref('Error')) })
+
+const idParameter = (description: string) => ({
+  name: 'id',
+  in: 'path',
+  required: true,
+  description,
+  schema: { type: 'string' },
+})
+
+const paginationParameters = [
+  {
+    name: 'limit',
+    in: 'query',
+    description: 'Maximum number of items (1-500)',
+    schema: { type: 'integer', minimum: 1, maximum: 500, default: 100 },
+  },
+  {
+    name: 'offset',
+    in: 'query',
+    description: 'Number of items to skip',
+    schema: { type: 'integer', minimum: 0, default: 0 },
+  },
+]
+
+/**
+ * Operation requiring a token with the given scope, with the error responses every operation can return
+ */
+function operation(
+  scope: ApiTokenScope,
+  spec: { summary: string; operationId: string; tags: string[]; responses: JsonObject } & JsonObject,
+): JsonObject {
+  return {
+    ...spec,
+    description: [spec.description, `Requires the \`${scope}\` scope.`].filter(Boolean).join('\n\n'),
+    security: [{ bearerAuth: [] }],
+    responses: {
+      ...spec.responses,
+      401: errorResponse('Missing, invalid, revoked or expired access token'),
+      403: errorResponse(
+        'The token does not have the required scope, or its owner has read-only access to the workspace',
+      ),
+      429: errorResponse('Rate limit exceeded'),
+    },
+  }
+}
+
+/**
+ * Build the OpenAPI 3.0 document of /api/v1
+ *
+ * @param serverUrl - Absolute URL of /api/v1
+ */
+export function buildOpenApiDocument(serverUrl: string): JsonObject {
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Astrologer Studio API',
+      version: '1.0.0',
+      description:
+        'REST API for your own integrations. Authenticate with a personal access token created in Settings → ' +
+        'Account, sent as `Authorization: Bearer <token>`. Subjects and saved charts are those of the library ' +
+        'the token owner works in: their active team workspace, or their personal library. Charts are calculated ' +
+        'with the chart preferences of the token owner.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Personal access token (asp_...)' },
+      },
+      schemas: {
+        Error: toSchema(apiErrorSchema, 'output'),
+        Subject: toSchema(apiSubjectSchema, 'output'),
+        SubjectInput: toSchema(apiSubjectInputSchema, 'input'),
+        ChartRequest: toSchema(apiChartRequestSchema, 'input'),
+        Chart: toSchema(apiChartResponseSchema, 'output'),
+        SavedChart: toSchema(apiSavedChartSchema, 'output'),
+      },
+    },
+    paths: {
+      '/subjects': {
+        get: operation('subjects:read', {
+          operationId: 'listSubjects',
+          tags: ['Subjects'],
+          summary: 'List subjects',
+          description: "Subjects of the token owner's library, newest first.",
+          parameters: paginationParameters,
+          responses: { 200: { description: 'Subjects', content: jsonContent(listOf('Subject')) } },
+        }),
+        post: operation('subjects:write', {
+          operationId: 'createSubject',
+          tags: ['Subjects'],
+          summary: 'Create a subject',
+          description: 'Fails with 403 when the subject limit of the plan is reached.',
+          requestBody: { required: true, content: jsonContent(ref('SubjectInput')) },
+          responses: {
+            201: { description: 'Created subject', content: jsonContent(ref('Subject')) },
+            400: errorResponse('Invalid subject'),
+          },
+        }),
+      },
+      '/subjects/{id}': {
+        parameters: [idParameter('Subject ID')],
+        get: operation('subjects:read', {
+          operationId: 'getSubject',
+          tags: ['Subjects'],
+          summary: 'Get a subject',
+          responses: {
+            200: { description: 'Subject', content: jsonContent(ref('Subject')) },
+            404: errorResponse('Subject not found'),
+          },
+        }),
+        put: operation('subjects:write', {
+          operationId: 'replaceSubject',
+          tags: ['Subjects'],
+          summary: 'Replace a subject',
+          description: 'Tags are replaced when given; other fields are required.',
+          requestBody: { required: true, content: jsonContent(ref('SubjectInput')) },
+          responses: {
+            200: { description: 'Updated subject', content: jsonContent(ref('Subject')) },
+            400: errorResponse('Invalid subject'),
+            404: errorResponse('Subject not found'),
+          },
+        }),
+        delete: operation('subjects:write', {
+          operationId: 'deleteSubject',
+          tags: ['Subjects'],
+          summary: 'Delete a subject',
+          responses: {
+            200: {
+              description: 'Deleted subject',
+              content: jsonContent({ type: 'object', properties: { id: { type: 'string' } }, required: ['id'] }),
+            },
+            404: errorResponse('Subject not found'),
+          },
+        }),
+      },
+      '/charts': {
+        post: operation('charts:compute', {
+          operationId: 'calculateChart',
+          tags: ['Charts'],
+          summary: 'Calculate a chart',
+          description: 'Natal, transit, synastry or composite chart of your subjects.',
+          requestBody: { required: true, content: jsonContent(ref('ChartRequest')) },
+          responses: {
+            200: { description: 'Calculated chart', content: jsonContent(ref('Chart')) },
+            400: errorResponse('Invalid chart request'),
+            404: errorResponse('Subject not found'),
+            502: errorResponse('The chart could not be calculated'),
+          },
+        }),
+      },
+      '/saved-charts': {
+        get: operation('saved-charts:read', {
+          operationId: 'listSavedCharts',
+          tags: ['Saved Charts'],
+          summary: 'List saved charts',
+          description: "Saved charts of the token owner's library, newest first.",
+          parameters: paginationParameters,
+          responses: { 200: { description: 'Saved charts', content: jsonContent(listOf('SavedChart')) } },
+        }),
+      },
+      '/saved-charts/{id}': {
+        parameters: [idParameter('Saved chart ID')],
+        get: operation('saved-charts:read', {
+          operationId: 'getSavedChart',
+          tags: ['Saved Charts'],
+          summary: 'Get a saved chart',
+          responses: {
+            200: { description: 'Saved chart', content: jsonContent(ref('SavedChart')) },
+            404: errorResponse('Saved chart not found'),
+          },
+        }),
+      },
+    },
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Resources of the public REST API
+ *
+ * Maps database records to the bodies described by the /api/v1 schemas in
+ * `lib/validation/api`. Field names follow the app's Subject type, not the
+ * Prisma columns.
+ *
+ * @module lib/public-api/resources
+ */
+
+import type { z } from 'zod'
+import type { Prisma, SavedChart, Subject as PrismaSubject } from '@prisma/client'
+import type { apiSavedChartSchema, apiSubjectSchema } from '@/lib/validation/api'
+import type { RodensRating } from '@/types/subjects'
+
+export type ApiSubject = z.infer<typeof apiSubjectSchema>
+export type ApiSavedChart = z.infer<typeof apiSavedChartSchema>
+
+/**
+ * Relations loaded with every subject returned by the API. Only the acting
+ * user's tags are loaded, as workspace subjects are shared.
+ */
+export function apiSubjectInclude(userId: string) {
+  return {
+    tags: { where: { ownerId: userId }, select: { name: true }, orderBy: { name: 'asc' } },
+  } satisfies Prisma.SubjectInclude
+}
+
+export function toApiSubject(subject: PrismaSubject & { tags: { name: string }[] }): ApiSubject {
+  return {
+    id: subject.id,
+    name: subject.name,
+    birth_datetime: subject.birthDatetime.toISOString(),
+    city: subject.city ?? '',
+    nation: subject.nation ?? '',
+    latitude: subject.latitude ?? 0,
+    longitude: subject.longitude ?? 0,
+    timezone: subject.timezone ?? 'UTC',
+    rodens_rating: (subject.rodensRating as RodensRating | null) ?? null,
+    tags: subject.tags.map((tag) => tag.name),
+    notes: subject.notes,
+    createdAt: subject.createdAt.toISOString(),
+    updatedAt: subject.updatedAt.toISOString(),
+  }
+}
+
+/**
+ * Parse a JSON column, keeping values that were stored as plain strings
+ */
+function parseJsonColumn(value: string): unknown {
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+export function toApiSavedChart(chart: SavedChart): ApiSavedChart {
+  return {
+    id: chart.id,
+    name: chart.name,
+    type: chart.type,
+    chartData: parseJsonColumn(chart.chartData),
+    settings: chart.settings ? parseJsonColumn(chart.settings) : null,
+    notes: chart.notes,
+    tags: chart.tags ? (JSON.parse(chart.tags) as string[]) : [],
+    createdAt: chart.createdAt.toISOString(),
+    updatedAt: chart.updatedAt.toISOString(),
+  }
+}
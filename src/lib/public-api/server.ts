@@ -0,0 +1,165 @@
+import 'server-only'
+
+/**
+ * Authentication of the public REST API (/api/v1)
+ *
+ * Requests carry a personal access token in the Authorization header
+ * (`Bearer asp_...`). Tokens are looked up by their SHA-256 hash; revoked
+ * and expired tokens are rejected, and each route requires one scope.
+ *
+ * @module lib/public-api/server
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { NextResponse, type NextRequest } from 'next/server'
+import { prisma } from '@/lib/db/prisma'
+import { logger } from '@/lib/logging/server'
+import { ForbiddenError } from '@/lib/security/auth'
+import { checkRateLimit, rateLimitExceededResponse, rateLimitHeaders, RATE_LIMITS } from '@/lib/security/rate-limit'
+import { CACHE_CONTROL } from '@/lib/security/cache-control'
+import { API_TOKEN_PREFIX, type ApiTokenScope } from './tokens'
+
+/** Random bytes in a token, written as hex after the prefix */
+const TOKEN_BYTES = 32
+
+/** Hex characters of the token kept in the prefix shown to the owner */
+const VISIBLE_TOKEN_CHARS = 6
+
+/** Minimum interval between updates of a token's lastUsedAt */
+const LAST_USED_UPDATE_MS = 5 * 60 * 1000
+
+const tokenPattern = new RegExp(`^${API_TOKEN_PREFIX}[a-f0-9]{${TOKEN_BYTES * 2}}$`)
+
+/**
+ * Token that authenticated a request
+ */
+export interface ApiTokenAuth {
+  tokenId: string
+  userId: string
+  scopes: ApiTokenScope[]
+}
+
+/**
+ * SHA-256 hash of a token, the only form in which tokens are stored
+ */
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Create a token with its hash and the prefix shown to the owner
+ */
+export function generateApiToken(): { token: string; tokenHash: string; tokenPrefix: string } {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(TOKEN_BYTES).toString('hex')}`
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + VISIBLE_TOKEN_CHARS),
+  }
+}
+
+/**
+ * JSON error response of the public API
+ */
+export function apiError(error: string, status: number): NextResponse {
+  return NextResponse.json({ error }, { status, headers: { 'Cache-Control': CACHE_CONTROL.noStore } })
+}
+
+/**
+ * Parse the JSON body of a request
+ *
+ * @returns The body, or undefined if it is not valid JSON
+ */
+export async function readJsonBody(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json()
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Find the active token of a request
+ *
+ * @returns The token, or an error response: 401 for a missing, unknown, revoked or expired token,
+ * 403 for a token without the scope
+ */
+async function authenticate(request: NextRequest, scope: ApiTokenScope): Promise<ApiTokenAuth | NextResponse> {
+  const token = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1]
+  if (!token || !tokenPattern.test(token)) {
+    return apiError('Missing or malformed access token', 401)
+  }
+
+  const record = await prisma.personalAccessToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+  })
+  const now = new Date()
+  if (!record || record.revokedAt || (record.expiresAt && record.expiresAt <= now)) {
+    return apiError('Invalid, revoked or expired access token', 401)
+  }
+
+  const scopes = JSON.parse(record.scopes) as ApiTokenScope[]
+  if (!scopes.includes(scope)) {
+    return apiError(`This token does not have the ${scope} scope`, 403)
+  }
+
+  if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() > LAST_USED_UPDATE_MS) {
+    // Fire-and-forget: usage tracking shouldn't fail the request
+    prisma.personalAccessToken
+      .update({ where: { id: record.id }, data: { lastUsedAt: now } })
+      .catch((error) => logger.warn('[API v1] Failed to update token usage:', error))
+  }
+
+  return { tokenId: record.id, userId: record.userId, scopes }
+}
+
+/**
+ * Wrapper for /api/v1 route handlers: authenticates the token, checks the scope
+ * and applies the rate limit of the token's owner (standard for reads, strict
+ * for writes). Responses are never cached. A ForbiddenError thrown by the
+ * handler is answered with 403.
+ *
+ * @param scope - Scope the route requires
+ * @param handler - Route handler receiving the authenticated token
+ * @returns A Next.js route handler
+ *
+ * @example
+ * ```ts
+ * export const GET = withApiToken('subjects:read', async (request, auth) => {
+ *   const scope = await getLibraryScope(auth.userId)
+ *   const subjects = await prisma.subject.findMany({ where: subjectScopeWhere(scope) })
+ *   return NextResponse.json({ data: subjects })
+ * })
+ * ```
+ */
+export function withApiToken<TContext = unknown>(
+  scope: ApiTokenScope,
+  handler: (request: NextRequest, auth: ApiTokenAuth, context: TContext) => Promise<NextResponse>,
+): (request: NextRequest, context: TContext) => Promise<NextResponse> {
+  return async (request, context) => {
+    try {
+      const auth = await authenticate(request, scope)
+      if (auth instanceof NextResponse) return auth
+
+      const rateLimit = request.method === 'GET' ? RATE_LIMITS.standard : RATE_LIMITS.strict
+      const rateLimitResult = await checkRateLimit(`api_v1:${auth.userId}`, rateLimit)
+      if (!rateLimitResult.success) {
+        return rateLimitExceededResponse(rateLimitResult, rateLimit.limit)
+      }
+
+      const response = await handler(request, auth, context)
+      for (const [name, value] of Object.entries(rateLimitHeaders(rateLimitResult, rateLimit.limit))) {
+        response.headers.set(name, value)
+      }
+      response.headers.set('Cache-Control', CACHE_CONTROL.noStore)
+      return response
+    } catch (error) {
+      // Workspace role checks and plan limits shared with the server actions
+      if (error instanceof ForbiddenError) {
+        return apiError(error.message, 403)
+      }
+      logger.error(`[API v1] ${request.method} ${request.nextUrl.pathname} failed:`, error)
+      return apiError('Internal Server Error', 500)
+    }
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Personal access tokens for the public REST API
+ *
+ * Types and constants shared by the token settings and the /api/v1 routes.
+ * Hashing and request authentication live in `lib/public-api/server`.
+ *
+ * @module lib/public-api/tokens
+ */
+
+/**
+ * What a token may do. Each /api/v1 route requires one scope.
+ */
+export type ApiTokenScope = 'subjects:read' | 'subjects:write' | 'charts:compute' | 'saved-charts:read'
+
+/**
+ * Scopes offered when creating a token, in display order
+ */
+export const API_TOKEN_SCOPES: { value: ApiTokenScope; label: string; description: string }[] = [
+  { value: 'subjects:read', label: 'Read subjects', description: 'List and read subjects' },
+  { value: 'subjects:write', label: 'Write subjects', description: 'Create, update and delete subjects' },
+  { value: 'charts:compute', label: 'Compute charts', description: 'Calculate charts for your subjects' },
+  { value: 'saved-charts:read', label: 'Read saved charts', description: 'List and read saved charts' },
+]
+
+/**
+ * Lifetimes offered when creating a token, in days; null for a token that does not expire
+ */
+export const API_TOKEN_EXPIRY_OPTIONS: { value: number | null; label: string }[] = [
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 365, label: '1 year' },
+  { value: null, label: 'No expiration' },
+]
+
+/** Prefix of every token, so leaked tokens are easy to recognize */
+export const API_TOKEN_PREFIX = 'asp_'
+
+/** Active tokens a user may have at once */
+export const MAX_API_TOKENS = 20
+
+/**
+ * Token as shown to its owner. The token itself is never stored, so it is not part of the summary.
+ */
+export interface ApiTokenSummary {
+  id: string
+  name: string
+  /** First characters of the token, e.g. "asp_3f9a1c" */
+  tokenPrefix: string
+  scopes: ApiTokenScope[]
+  lastUsedAt: Date | null
+  expiresAt: Date | null
+  createdAt: Date
+}
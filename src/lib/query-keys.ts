@@ -6,5 +6,30 @@ export const queryKeys = {
   subjects: {
     all: ['subjects'] as const,
     list: (count = 50) => ['subjects', { count }] as const,
+    tags: () => ['subjects', 'tags'] as const,
+    groups: () => ['subjects', 'groups'] as const,
+  },
+  shareLinks: {
+    list: (savedChartId: string) => ['share-links', savedChartId] as const,
+  },
+  rectification: {
+    events: (subjectId: string) => ['rectification', subjectId, 'events'] as const,
+    history: (subjectId: string) => ['rectification', subjectId, 'history'] as const,
+  },
+  calendarFeed: ['calendar-feed'] as const,
+  apiTokens: ['api-tokens'] as const,
+  twoFactor: ['two-factor'] as const,
+  userSessions: ['user-sessions'] as const,
+  workspaces: {
+    list: ['workspaces'] as const,
+    members: (workspaceId: string) => ['workspaces', workspaceId, 'members'] as const,
+  },
+  webhooks: {
+    endpoints: ['webhooks'] as const,
+    deliveries: (endpointId: string) => ['webhooks', endpointId, 'deliveries'] as const,
+  },
+  skyEvents: {
+    search: (input: { startDate: string; endDate: string; categories: string[] }) => ['sky-events', input] as const,
+    natal: (subjectId: string) => ['sky-events', 'natal', subjectId] as const,
   },
 } as const
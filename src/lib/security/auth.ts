@@ -13,6 +13,8 @@ const lastActivityUpdateCache = new Map<string, number>()
 export interface AuthSession {
   userId: string
   username: string
+  /** Session of this browser, see the devices list of the account settings */
+  sessionId: string
 }
 
 /**
@@ -103,6 +105,7 @@ export async function withAuth<T>(fn: (session: AuthSession) => Promise<T>): Pro
   return fn({
     userId: session.userId,
     username: session.username,
+    sessionId: session.sessionId,
   })
 }
 
@@ -123,5 +126,6 @@ export async function requireAuth(): Promise<AuthSession> {
   return {
     userId: session.userId,
     username: session.username,
+    sessionId: session.sessionId,
   }
 }
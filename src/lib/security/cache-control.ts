@@ -50,6 +50,18 @@ export const CACHE_CONTROL = {
    * Use for POST/PATCH/DELETE responses and security-sensitive endpoints.
    */
   noStore: 'private, no-store',
+
+  /**
+   * Secret calendar feeds polled by calendar apps.
+   * Cache for an hour; the URL itself is the credential, so never in shared caches.
+   */
+  calendarFeed: 'private, max-age=3600',
+
+  /**
+   * Public documents that change only with deployments (e.g., the OpenAPI document).
+   * Cache for an hour, also in shared caches.
+   */
+  publicDocument: 'public, max-age=3600',
 } as const
 
 /**
@@ -0,0 +1,438 @@
+/**
+ * Rate Limit Stores
+ *
+ * Storage backends for the sliding-window rate limiter and the login lockout
+ * in `rate-limit.ts`. The in-memory store keeps state per process; the
+ * Postgres and Redis stores share it between replicas and survive deploys.
+ *
+ * ## Semantics
+ *
+ * - Rate limits use a sliding-window log: a request is allowed when fewer than
+ *   `limit` requests were allowed in the preceding `windowMs`. Rejected requests
+ *   are not recorded, and `resetTime` is when the oldest recorded request leaves
+ *   the window.
+ * - Failed logins are counted from the first failure of a tracking window; the
+ *   failure that reaches the maximum locks the account for the lockout duration.
+ *
+ * Every update is atomic per key: a Lua script in Redis, an advisory
+ * transaction lock in Postgres, and the single-threaded event loop in memory.
+ *
+ * @module lib/security/rate-limit-store
+ */
+import { randomUUID } from 'node:crypto'
+import { prisma } from '@/lib/db/prisma'
+import type { RedisClient } from '@/lib/db/redis'
+import { logger } from '@/lib/logging/server'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RateLimitResult {
+  success: boolean
+  remaining: number
+  resetTime: number
+}
+
+/** Failed login tracking policy */
+export interface LockoutPolicy {
+  /** Failed attempts within the window that lock the account */
+  maxAttempts: number
+  /** How long the account stays locked, in milliseconds */
+  lockoutMs: number
+  /** Window in which failed attempts are counted, in milliseconds */
+  attemptWindowMs: number
+}
+
+/** Failed login state of one account */
+export interface FailedLoginState {
+  count: number
+  firstAttemptTime: number
+  lockedUntil: number | null
+}
+
+export interface RateLimitStore {
+  /**
+   * Records a request in the sliding window of `key` if the limit allows it.
+   */
+  hit(key: string, limit: number, windowMs: number, now: number): Promise<RateLimitResult>
+  /** Returns the failed login state of `key`, or null when nothing is tracked */
+  getFailedLogins(key: string): Promise<FailedLoginState | null>
+  /** Counts a failed login for `key`, locking it when the policy's maximum is reached */
+  recordFailedLogin(key: string, policy: LockoutPolicy, now: number): Promise<FailedLoginState>
+  /** Forgets the failed logins of `key` */
+  clearFailedLogins(key: string): Promise<void>
+}
+
+// ============================================================================
+// SHARED LOGIC
+// ============================================================================
+
+/**
+ * Applies a request to a sliding-window log.
+ *
+ * @param hits - Timestamps of allowed requests, oldest first
+ * @returns The hits still in the window (plus this request when allowed) and the result
+ */
+export function applySlidingWindow(
+  hits: number[],
+  limit: number,
+  windowMs: number,
+  now: number,
+): { hits: number[]; result: RateLimitResult } {
+  const inWindow = hits.filter((time) => time > now - windowMs)
+  const success = inWindow.length < limit
+  if (success) inWindow.push(now)
+
+  return {
+    hits: inWindow,
+    result: {
+      success,
+      remaining: Math.max(0, limit - inWindow.length),
+      resetTime: (inWindow[0] ?? now) + windowMs,
+    },
+  }
+}
+
+/**
+ * Applies a failed login to the tracked state, starting a new window when the
+ * previous one has passed.
+ */
+export function applyFailedLogin(state: FailedLoginState | null, policy: LockoutPolicy, now: number): FailedLoginState {
+  const current =
+    state && now - state.firstAttemptTime <= policy.attemptWindowMs
+      ? state
+      : { count: 0, firstAttemptTime: now, lockedUntil: null }
+  const count = current.count + 1
+  const alreadyLocked = current.lockedUntil !== null && current.lockedUntil > now
+
+  return {
+    count,
+    firstAttemptTime: current.firstAttemptTime,
+    lockedUntil: count >= policy.maxAttempts && !alreadyLocked ? now + policy.lockoutMs : current.lockedUntil,
+  }
+}
+
+/** When tracked failed logins can be forgotten */
+function failedLoginExpiry(state: FailedLoginState, policy: LockoutPolicy): number {
+  return Math.max(state.firstAttemptTime + policy.attemptWindowMs, state.lockedUntil ?? 0)
+}
+
+// ============================================================================
+// IN-MEMORY STORE
+// ============================================================================
+
+/** Interval between sweeps of expired entries */
+const CLEANUP_INTERVAL = 60 * 1000 // 1 minute
+
+interface MemoryRateLimitEntry {
+  hits: number[]
+  expiresAt: number
+}
+
+interface MemoryFailedLoginEntry extends FailedLoginState {
+  expiresAt: number
+}
+
+/**
+ * Process-local store. Resets on restart and is not shared between instances.
+ *
+ * ## Cleanup Timer Lifecycle
+ *
+ * The cleanup timer uses a **lazy initialization pattern**:
+ * - Timer is only started when the first entry is created
+ * - Timer stops automatically when all entries are cleaned up
+ * - `.unref()` is called to prevent blocking process exit
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly rateLimits = new Map<string, MemoryRateLimitEntry>()
+  private readonly failedLogins = new Map<string, MemoryFailedLoginEntry>()
+  private cleanupTimer: NodeJS.Timeout | null = null
+
+  async hit(key: string, limit: number, windowMs: number, now: number): Promise<RateLimitResult> {
+    const entry = this.rateLimits.get(key)
+    const { hits, result } = applySlidingWindow(entry?.hits ?? [], limit, windowMs, now)
+
+    if (hits.length > 0) {
+      this.rateLimits.set(key, { hits, expiresAt: hits[hits.length - 1]! + windowMs })
+      this.startCleanup()
+    }
+    return result
+  }
+
+  async getFailedLogins(key: string): Promise<FailedLoginState | null> {
+    const entry = this.failedLogins.get(key)
+    if (!entry) return null
+    return { count: entry.count, firstAttemptTime: entry.firstAttemptTime, lockedUntil: entry.lockedUntil }
+  }
+
+  async recordFailedLogin(key: string, policy: LockoutPolicy, now: number): Promise<FailedLoginState> {
+    const state = applyFailedLogin(this.failedLogins.get(key) ?? null, policy, now)
+    this.failedLogins.set(key, { ...state, expiresAt: failedLoginExpiry(state, policy) })
+    this.startCleanup()
+    return state
+  }
+
+  async clearFailedLogins(key: string): Promise<void> {
+    this.failedLogins.delete(key)
+  }
+
+  /** Number of tracked keys */
+  get size(): number {
+    return this.rateLimits.size + this.failedLogins.size
+  }
+
+  get cleanupActive(): boolean {
+    return this.cleanupTimer !== null
+  }
+
+  /** Removes every entry and stops the cleanup timer */
+  clear(): void {
+    this.rateLimits.clear()
+    this.failedLogins.clear()
+    this.stopCleanup()
+  }
+
+  /** Stops the cleanup timer; it restarts with the next entry */
+  stopCleanup(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer)
+      this.cleanupTimer = null
+    }
+  }
+
+  private startCleanup(): void {
+    if (this.cleanupTimer) return
+
+    this.cleanupTimer = setInterval(() => {
+      const now = Date.now()
+      for (const entries of [this.rateLimits, this.failedLogins]) {
+        for (const [key, entry] of entries) {
+          if (entry.expiresAt < now) entries.delete(key)
+        }
+      }
+
+      // If the store is empty after cleanup, stop the timer to free resources
+      if (this.size === 0) {
+        this.stopCleanup()
+      }
+    }, CLEANUP_INTERVAL)
+
+    // Don't keep the process alive just for cleanup
+    if (this.cleanupTimer.unref) {
+      this.cleanupTimer.unref()
+    }
+  }
+}
+
+// ============================================================================
+// POSTGRES STORE
+// ============================================================================
+
+/**
+ * Store backed by the `RateLimitEntry` and `LoginLockout` tables.
+ *
+ * Each update runs in a transaction holding an advisory lock on the key, so
+ * concurrent requests on any replica are applied one after the other.
+ * Expired rows are swept at most once per cleanup interval per process.
+ */
+export class PrismaRateLimitStore implements RateLimitStore {
+  private lastCleanup = 0
+
+  async hit(key: string, limit: number, windowMs: number, now: number): Promise<RateLimitResult> {
+    const result = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`rate:${key}`}))`
+      const entry = await tx.rateLimitEntry.findUnique({ where: { key } })
+      const previous = entry?.hits.map((hit) => hit.getTime()) ?? []
+      const { hits, result } = applySlidingWindow(previous, limit, windowMs, now)
+
+      if (result.success) {
+        const data = {
+          hits: hits.map((hit) => new Date(hit)),
+          expiresAt: new Date(now + windowMs),
+        }
+        await tx.rateLimitEntry.upsert({ where: { key }, create: { key, ...data }, update: data })
+      }
+      return result
+    })
+
+    this.sweep(now)
+    return result
+  }
+
+  async getFailedLogins(key: string): Promise<FailedLoginState | null> {
+    const entry = await prisma.loginLockout.findUnique({ where: { key } })
+    if (!entry) return null
+    return {
+      count: entry.count,
+      firstAttemptTime: entry.firstAttemptAt.getTime(),
+      lockedUntil: entry.lockedUntil?.getTime() ?? null,
+    }
+  }
+
+  async recordFailedLogin(key: string, policy: LockoutPolicy, now: number): Promise<FailedLoginState> {
+    const state = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`lockout:${key}`}))`
+      const entry = await tx.loginLockout.findUnique({ where: { key } })
+      const state = applyFailedLogin(
+        entry && {
+          count: entry.count,
+          firstAttemptTime: entry.firstAttemptAt.getTime(),
+          lockedUntil: entry.lockedUntil?.getTime() ?? null,
+        },
+        policy,
+        now,
+      )
+
+      const data = {
+        count: state.count,
+        firstAttemptAt: new Date(state.firstAttemptTime),
+        lockedUntil: state.lockedUntil === null ? null : new Date(state.lockedUntil),
+        expiresAt: new Date(failedLoginExpiry(state, policy)),
+      }
+      await tx.loginLockout.upsert({ where: { key }, create: { key, ...data }, update: data })
+      return state
+    })
+
+    this.sweep(now)
+    return state
+  }
+
+  async clearFailedLogins(key: string): Promise<void> {
+    await prisma.loginLockout.deleteMany({ where: { key } })
+  }
+
+  /** Deletes expired rows in the background; a failed sweep is retried at the next interval */
+  private sweep(now: number): void {
+    if (now - this.lastCleanup < CLEANUP_INTERVAL) return
+    this.lastCleanup = now
+
+    const expired = { where: { expiresAt: { lt: new Date(now) } } }
+    Promise.all([prisma.rateLimitEntry.deleteMany(expired), prisma.loginLockout.deleteMany(expired)]).catch((error) =>
+      logger.warn('[RateLimit] Failed to delete expired entries:', error),
+    )
+  }
+}
+
+// ============================================================================
+// REDIS STORE
+// ============================================================================
+
+/**
+ * Sliding-window log in a sorted set scored by request time.
+ * KEYS[1] = key; ARGV = now, windowMs, limit, member.
+ * Returns { allowed (0/1), count, oldest hit }.
+ */
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < tonumber(ARGV[3]) then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  count = count + 1
+  allowed = 1
+end
+if count > 0 then
+  redis.call('PEXPIRE', KEYS[1], window)
+end
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return { allowed, count, oldest[2] or ARGV[1] }
+`
+
+/**
+ * Failed login counter in a hash with fields count, first and lockedUntil.
+ * KEYS[1] = key; ARGV = now, attemptWindowMs, maxAttempts, lockoutMs.
+ * Returns { count, first, lockedUntil or -1 }.
+ */
+const FAILED_LOGIN_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local first = tonumber(redis.call('HGET', KEYS[1], 'first'))
+if not first or now - first > window then
+  redis.call('DEL', KEYS[1])
+  redis.call('HSET', KEYS[1], 'first', now)
+  first = now
+end
+local count = redis.call('HINCRBY', KEYS[1], 'count', 1)
+local lockedUntil = tonumber(redis.call('HGET', KEYS[1], 'lockedUntil'))
+if count >= tonumber(ARGV[3]) and not (lockedUntil and lockedUntil > now) then
+  lockedUntil = now + tonumber(ARGV[4])
+  redis.call('HSET', KEYS[1], 'lockedUntil', lockedUntil)
+end
+redis.call('PEXPIRE', KEYS[1], math.max(first + window, lockedUntil or 0) - now)
+return { count, first, lockedUntil or -1 }
+`
+
+/** Store backed by Redis or any server speaking its protocol */
+export class RedisRateLimitStore implements RateLimitStore {
+  /**
+   * @param client - Redis connection
+   * @param prefix - Namespace for the keys of this application
+   */
+  constructor(
+    private readonly client: RedisClient,
+    private readonly prefix = 'astrologer-studio:',
+  ) {}
+
+  async hit(key: string, limit: number, windowMs: number, now: number): Promise<RateLimitResult> {
+    const reply = await this.client.command(
+      'EVAL',
+      SLIDING_WINDOW_SCRIPT,
+      1,
+      `${this.prefix}rate:${key}`,
+      now,
+      windowMs,
+      limit,
+      `${now}:${randomUUID()}`,
+    )
+    const [allowed, count, oldest] = numbers(reply)
+
+    return {
+      success: allowed === 1,
+      remaining: Math.max(0, limit - count),
+      resetTime: oldest + windowMs,
+    }
+  }
+
+  async getFailedLogins(key: string): Promise<FailedLoginState | null> {
+    const reply = await this.client.command('HMGET', `${this.prefix}lockout:${key}`, 'count', 'first', 'lockedUntil')
+    const [count, first, lockedUntil] = Array.isArray(reply) ? reply : []
+    if (count == null || first == null) return null
+
+    return {
+      count: Number(count),
+      firstAttemptTime: Number(first),
+      lockedUntil: lockedUntil == null ? null : Number(lockedUntil),
+    }
+  }
+
+  async recordFailedLogin(key: string, policy: LockoutPolicy, now: number): Promise<FailedLoginState> {
+    const reply = await this.client.command(
+      'EVAL',
+      FAILED_LOGIN_SCRIPT,
+      1,
+      `${this.prefix}lockout:${key}`,
+      now,
+      policy.attemptWindowMs,
+      policy.maxAttempts,
+      policy.lockoutMs,
+    )
+    const [count, first, lockedUntil] = numbers(reply)
+
+    return { count, firstAttemptTime: first, lockedUntil: lockedUntil < 0 ? null : lockedUntil }
+  }
+
+  async clearFailedLogins(key: string): Promise<void> {
+    await this.client.command('DEL', `${this.prefix}lockout:${key}`)
+  }
+}
+
+/** Reads a script's array reply as three numbers */
+function numbers(reply: unknown): [number, number, number] {
+  if (!Array.isArray(reply) || reply.length < 3) {
+    throw new Error('Unexpected reply from rate limit script')
+  }
+  return [Number(reply[0]), Number(reply[1]), Number(reply[2])]
+}
@@ -1,72 +1,101 @@
-import { NextResponse } from 'next/server'
-
 /**
- * Simple in-memory rate limiter
- * For production, consider using Redis or a dedicated rate limiting service
+ * Rate Limiting and Account Lockout
+ *
+ * Sliding-window rate limits for API routes and server actions, and lockout
+ * of accounts after repeated failed logins. State lives in a pluggable store
+ * (see `rate-limit-store.ts`) selected with `RATE_LIMIT_STORE`:
  *
- * ## Cleanup Timer Lifecycle
+ * - `memory` (default): process-local, resets on restart and is per instance
+ * - `postgres`: shared through the application database
+ * - `redis`: shared through the Redis-protocol server at `REDIS_URL`
  *
- * The cleanup timer uses a **lazy initialization pattern**:
- * - Timer is only started when the first rate limit entry is created
- * - Timer stops automatically when all entries are cleaned up
- * - `.unref()` is called to prevent blocking process exit
+ * If a shared store fails, the request falls back to the in-memory store so an
+ * outage of the store never blocks every request.
  *
- * This approach minimizes memory allocation when rate limiting is not in use,
- * while still providing automatic cleanup during active use.
+ * ## Environment Variables
+ * - `RATE_LIMIT_STORE` - `memory`, `postgres` or `redis` (default: memory)
+ * - `REDIS_URL` - Connection URL for the redis store
+ * - `RATE_LIMIT_<PRESET>` - Override a preset as `limit/windowSeconds`, e.g.
+ *   `RATE_LIMIT_STANDARD=200/60` or `RATE_LIMIT_PUBLIC_CHART=30/60`
+ * - `LOGIN_MAX_FAILED_ATTEMPTS` - Failed logins that lock an account (default: 5)
+ * - `LOGIN_LOCKOUT_MINUTES` - How long the account stays locked (default: 15)
+ * - `LOGIN_ATTEMPT_WINDOW_MINUTES` - Window in which failures are counted (default: 15)
  *
- * For testing, `stopCleanup()` and `_getCleanupState()` are exported.
+ * For testing, `stopCleanup()`, `_getCleanupState()` and `_clearRateLimitStore()`
+ * act on the in-memory store.
  */
 
-interface RateLimitEntry {
-  count: number
-  resetTime: number
-}
+import { NextResponse } from 'next/server'
+import { getRedisClient } from '@/lib/db/redis'
+import { logger } from '@/lib/logging/server'
+import {
+  MemoryRateLimitStore,
+  PrismaRateLimitStore,
+  RedisRateLimitStore,
+  type LockoutPolicy,
+  type RateLimitResult,
+  type RateLimitStore,
+} from './rate-limit-store'
+
+export type { RateLimitResult } from './rate-limit-store'
 
-// In-memory store for rate limiting
-// Note: This resets on server restart and doesn't work across multiple instances
-// For production with multiple instances, use Redis
-const rateLimitStore = new Map<string, RateLimitEntry>()
+// ============================================================================
+// STORE SELECTION
+// ============================================================================
 
-// Clean up old entries periodically
-const CLEANUP_INTERVAL = 60 * 1000 // 1 minute
-let cleanupTimer: NodeJS.Timeout | null = null
+const memoryStore = new MemoryRateLimitStore()
+let sharedStore: RateLimitStore | null = null
 
 /**
- * Start the cleanup timer (lazy initialization).
- * Only starts if not already running.
+ * Returns the store configured by `RATE_LIMIT_STORE`, created on first use.
  */
-function startCleanup(): void {
-  if (cleanupTimer) return
-
-  cleanupTimer = setInterval(() => {
-    const now = Date.now()
-    for (const [key, entry] of rateLimitStore.entries()) {
-      if (entry.resetTime < now) {
-        rateLimitStore.delete(key)
-      }
-    }
-
-    // If store is empty after cleanup, stop the timer to free resources
-    if (rateLimitStore.size === 0) {
-      stopCleanup()
-    }
-  }, CLEANUP_INTERVAL)
-
-  // Don't keep the process alive just for cleanup
-  if (cleanupTimer.unref) {
-    cleanupTimer.unref()
+function getStore(): RateLimitStore {
+  if (sharedStore) return sharedStore
+
+  const kind = process.env.RATE_LIMIT_STORE || 'memory'
+  switch (kind) {
+    case 'postgres':
+      sharedStore = new PrismaRateLimitStore()
+      break
+    case 'redis':
+      sharedStore = new RedisRateLimitStore(getRedisClient())
+      break
+    default:
+      if (kind !== 'memory') logger.warn(`[RateLimit] Unknown RATE_LIMIT_STORE "${kind}", using memory`)
+      sharedStore = memoryStore
   }
+  return sharedStore
 }
 
 /**
- * Stop the cleanup timer.
+ * Runs an operation on the configured store, falling back to the in-memory
+ * store when a shared store is unreachable.
+ */
+async function withStore<T>(operation: (store: RateLimitStore) => Promise<T>): Promise<T> {
+  let store: RateLimitStore
+  try {
+    store = getStore()
+  } catch (error) {
+    logger.error('[RateLimit] Failed to create the rate limit store, using memory:', error)
+    sharedStore = memoryStore
+    store = memoryStore
+  }
+  if (store === memoryStore) return operation(memoryStore)
+
+  try {
+    return await operation(store)
+  } catch (error) {
+    logger.error('[RateLimit] Rate limit store unavailable, using memory:', error)
+    return operation(memoryStore)
+  }
+}
+
+/**
+ * Stop the in-memory store's cleanup timer.
  * Useful for testing and explicit lifecycle management.
  */
 export function stopCleanup(): void {
-  if (cleanupTimer) {
-    clearInterval(cleanupTimer)
-    cleanupTimer = null
-  }
+  memoryStore.stopCleanup()
 }
 
 /**
@@ -75,19 +104,22 @@ export function stopCleanup(): void {
  */
 export function _getCleanupState(): { timerActive: boolean; storeSize: number } {
   return {
-    timerActive: cleanupTimer !== null,
-    storeSize: rateLimitStore.size,
+    timerActive: memoryStore.cleanupActive,
+    storeSize: memoryStore.size,
   }
 }
 
 /**
- * Clear all rate limit entries (for testing purposes).
+ * Clear all in-memory rate limit and lockout entries (for testing purposes).
  */
 export function _clearRateLimitStore(): void {
-  rateLimitStore.clear()
-  stopCleanup()
+  memoryStore.clear()
 }
 
+// ============================================================================
+// RATE LIMITING
+// ============================================================================
+
 export interface RateLimitConfig {
   /** Maximum number of requests allowed in the window */
   limit: number
@@ -97,12 +129,6 @@ export interface RateLimitConfig {
   prefix?: string
 }
 
-export interface RateLimitResult {
-  success: boolean
-  remaining: number
-  resetTime: number
-}
-
 /**
  * Check and update rate limit for a given identifier
  *
@@ -112,54 +138,18 @@ export interface RateLimitResult {
  *
  * @example
  * ```ts
- * const result = checkRateLimit(userId, { limit: 100, windowSeconds: 60 })
+ * const result = await checkRateLimit(userId, { limit: 100, windowSeconds: 60 })
  * if (!result.success) {
  *   return NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429 })
  * }
  * ```
  */
-export function checkRateLimit(identifier: string, config: RateLimitConfig): RateLimitResult {
+export function checkRateLimit(identifier: string, config: RateLimitConfig): Promise<RateLimitResult> {
   const { limit, windowSeconds, prefix = 'default' } = config
   const key = `${prefix}:${identifier}`
   const now = Date.now()
-  const windowMs = windowSeconds * 1000
-
-  const entry = rateLimitStore.get(key)
-
-  // If no entry or window has passed, create new entry
-  if (!entry || entry.resetTime < now) {
-    const newEntry: RateLimitEntry = {
-      count: 1,
-      resetTime: now + windowMs,
-    }
-    rateLimitStore.set(key, newEntry)
-
-    // Start cleanup timer lazily on first entry
-    startCleanup()
-
-    return {
-      success: true,
-      remaining: limit - 1,
-      resetTime: newEntry.resetTime,
-    }
-  }
 
-  // Check if limit exceeded
-  if (entry.count >= limit) {
-    return {
-      success: false,
-      remaining: 0,
-      resetTime: entry.resetTime,
-    }
-  }
-
-  // Increment count
-  entry.count++
-  return {
-    success: true,
-    remaining: limit - entry.count,
-    resetTime: entry.resetTime,
-  }
+  return withStore((store) => store.hit(key, limit, windowSeconds * 1000, now))
 }
 
 /**
@@ -190,21 +180,34 @@ export function rateLimitExceededResponse(result: RateLimitResult, limit: number
   )
 }
 
-// Preset configurations for different endpoints
+/**
+ * Reads a `limit/windowSeconds` override from the environment, keeping the
+ * default when the variable is unset or malformed.
+ */
+function preset(name: string, limit: number, windowSeconds: number, prefix: string): Required<RateLimitConfig> {
+  const override = process.env[`RATE_LIMIT_${name}`]?.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/)
+  if (override && Number(override[2]) > 0) {
+    return { limit: Number(override[1]), windowSeconds: Number(override[2]), prefix }
+  }
+  if (override === null) logger.warn(`[RateLimit] Ignoring malformed RATE_LIMIT_${name}, expected limit/windowSeconds`)
+  return { limit, windowSeconds, prefix }
+}
+
+// Preset configurations for different endpoints, overridable per deployment
 export const RATE_LIMITS = {
   /** Standard API endpoints: 100 requests per minute */
-  standard: { limit: 100, windowSeconds: 60, prefix: 'api' },
+  standard: preset('STANDARD', 100, 60, 'api'),
   /** Strict endpoints (sensitive operations): 20 requests per minute */
-  strict: { limit: 20, windowSeconds: 60, prefix: 'strict' },
+  strict: preset('STRICT', 20, 60, 'strict'),
   /** Auth endpoints: 10 requests per minute */
-  auth: { limit: 10, windowSeconds: 60, prefix: 'auth' },
+  auth: preset('AUTH', 10, 60, 'auth'),
   /** AI endpoints: 60 requests per minute (burst protection) */
-  ai: { limit: 60, windowSeconds: 60, prefix: 'ai' },
+  ai: preset('AI', 60, 60, 'ai'),
   /** IP-based rate limiting: 20 requests per minute */
-  ip: { limit: 20, windowSeconds: 60, prefix: 'ip' },
+  ip: preset('IP', 20, 60, 'ip'),
   /** Public chart generation: 60 requests per minute (higher for demo users) */
-  publicChart: { limit: 60, windowSeconds: 60, prefix: 'public_chart' },
-} as const
+  publicChart: preset('PUBLIC_CHART', 60, 60, 'public_chart'),
+}
 
 // ============================================================================
 // IP EXTRACTION
@@ -239,27 +242,20 @@ export function getClientIp(headers: Headers): string {
 // ACCOUNT LOCKOUT (BRUTE-FORCE PROTECTION)
 // ============================================================================
 
-interface FailedLoginEntry {
-  count: number
-  firstAttemptTime: number
-  lockedUntil: number | null
+const LOCKOUT_POLICY: LockoutPolicy = {
+  maxAttempts: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5', 10),
+  lockoutMs: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10) * 60 * 1000,
+  attemptWindowMs: parseInt(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES || '15', 10) * 60 * 1000,
 }
 
-// In-memory store for failed login attempts
-const failedLoginStore = new Map<string, FailedLoginEntry>()
-
-const MAX_FAILED_ATTEMPTS = 5
-const LOCKOUT_DURATION_MS = 15 * 60 * 1000 // 15 minutes
-const ATTEMPT_WINDOW_MS = 15 * 60 * 1000 // Track attempts within 15 min window
-
 /**
  * Check if account is locked due to failed login attempts
  *
  * @param username - Username to check
  * @returns Object with locked status and remaining time
  */
-export function checkAccountLockout(username: string): { locked: boolean; remainingSeconds?: number } {
-  const entry = failedLoginStore.get(username)
+export async function checkAccountLockout(username: string): Promise<{ locked: boolean; remainingSeconds?: number }> {
+  const entry = await withStore((store) => store.getFailedLogins(username))
 
   if (!entry) {
     return { locked: false }
@@ -274,42 +270,21 @@ export function checkAccountLockout(username: string): { locked: boolean; remain
   }
 
   // Check if attempt window has passed - reset if so
-  if (now - entry.firstAttemptTime > ATTEMPT_WINDOW_MS) {
-    failedLoginStore.delete(username)
-    return { locked: false }
-  }
-
-  // Check if max attempts reached
-  if (entry.count >= MAX_FAILED_ATTEMPTS) {
-    // Lock the account
-    entry.lockedUntil = now + LOCKOUT_DURATION_MS
-    const remainingSeconds = Math.ceil(LOCKOUT_DURATION_MS / 1000)
-    return { locked: true, remainingSeconds }
+  if (now - entry.firstAttemptTime > LOCKOUT_POLICY.attemptWindowMs) {
+    await clearFailedLogins(username)
   }
 
   return { locked: false }
 }
 
 /**
- * Record failed login attempt
+ * Record failed login attempt, locking the account when the maximum is reached
  *
  * @param username - Username that failed login
  */
-export function recordFailedLogin(username: string): void {
+export async function recordFailedLogin(username: string): Promise<void> {
   const now = Date.now()
-  const entry = failedLoginStore.get(username)
-
-  if (!entry || now - entry.firstAttemptTime > ATTEMPT_WINDOW_MS) {
-    // Start new tracking window
-    failedLoginStore.set(username, {
-      count: 1,
-      firstAttemptTime: now,
-      lockedUntil: null,
-    })
-  } else {
-    // Increment existing count
-    entry.count++
-  }
+  await withStore((store) => store.recordFailedLogin(username, LOCKOUT_POLICY, now))
 }
 
 /**
@@ -317,6 +292,6 @@ export function recordFailedLogin(username: string): void {
  *
  * @param username - Username to clear
  */
-export function clearFailedLogins(username: string): void {
-  failedLoginStore.delete(username)
+export async function clearFailedLogins(username: string): Promise<void> {
+  await withStore((store) => store.clearFailedLogins(username))
 }
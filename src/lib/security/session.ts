@@ -1,9 +1,10 @@
 import 'server-only'
 import { SignJWT, jwtVerify } from 'jose'
-import { cookies } from 'next/headers'
+import { cookies, headers } from 'next/headers'
 import { z } from 'zod'
+import { prisma } from '@/lib/db/prisma'
 import { logger } from '@/lib/logging/server'
-import { SESSION_DURATION_MS, SESSION_DURATION_STRING } from '@/lib/config/time'
+import { SESSION_ACTIVITY_INTERVAL_MS, SESSION_DURATION_MS, SESSION_DURATION_STRING } from '@/lib/config/time'
 
 /**
  * Session secret validation and encoding
@@ -38,6 +39,8 @@ const encodedKey = new TextEncoder().encode(effectiveSecret)
 const sessionPayloadSchema = z.object({
   userId: z.string(),
   username: z.string(),
+  /** UserSession row, checked by getSession so the session can be revoked */
+  sessionId: z.string(),
   expiresAt: z.coerce.date(),
 })
 
@@ -56,7 +59,7 @@ type SessionPayload = z.infer<typeof sessionPayloadSchema>
  *
  * @example
  * ```ts
- * const token = await encrypt({ userId: '123', username: 'john', expiresAt: new Date() })
+ * const token = await encrypt({ userId: '123', username: 'john', sessionId: 'abc', expiresAt: new Date() })
  * ```
  */
 export async function encrypt(payload: SessionPayload): Promise<string> {
@@ -100,6 +103,16 @@ export async function decrypt(session: string | undefined = ''): Promise<Session
   }
 }
 
+/**
+ * Client IP and user agent of the current request
+ */
+async function getRequestClient(): Promise<{ ipAddress: string; userAgent: string | null }> {
+  const headersList = await headers()
+  const ipAddress =
+    headersList.get('x-forwarded-for')?.split(',')[0]?.trim() || headersList.get('x-real-ip') || 'unknown'
+  return { ipAddress, userAgent: headersList.get('user-agent') }
+}
+
 /**
  * Creates a new user session by setting an encrypted cookie
  *
@@ -107,12 +120,12 @@ export async function decrypt(session: string | undefined = ''): Promise<Session
  * @param username - Username for the session
  *
  * @remarks
+ * - Records the session with the IP and user agent, so it shows in the
+ *   devices list and can be revoked
  * - Sets HTTP-only cookie for security
  * - Cookie expires after 7 days
  * - Uses secure flag and SameSite=lax for CSRF protection
  *
- * @throws Will log error but won't throw if cookie setting fails
- *
  * @example
  * ```ts
  * await createSession(user.id, user.username)
@@ -121,7 +134,14 @@ export async function decrypt(session: string | undefined = ''): Promise<Session
  */
 export async function createSession(userId: string, username: string): Promise<void> {
   const expiresAt = new Date(Date.now() + SESSION_DURATION_MS)
-  const session = await encrypt({ userId, username, expiresAt })
+  const { ipAddress, userAgent } = await getRequestClient()
+  // Drop sessions of the user that expired, so the table does not grow forever
+  await prisma.userSession.deleteMany({ where: { userId, expiresAt: { lt: new Date() } } })
+  const dbSession = await prisma.userSession.create({
+    data: { userId, ipAddress, userAgent, expiresAt },
+  })
+
+  const session = await encrypt({ userId, username, sessionId: dbSession.id, expiresAt })
   const cookieStore = await cookies()
 
   cookieStore.set('session', session, {
@@ -158,6 +178,10 @@ export async function updateSession(): Promise<null | void> {
   }
 
   const expires = new Date(Date.now() + SESSION_DURATION_MS)
+  await prisma.userSession.updateMany({
+    where: { id: payload.sessionId, revokedAt: null },
+    data: { expiresAt: expires },
+  })
   const cookieStore = await cookies()
   cookieStore.set('session', session, {
     httpOnly: true,
@@ -172,6 +196,7 @@ export async function updateSession(): Promise<null | void> {
  * Deletes the user session cookie (logout)
  *
  * @remarks
+ * - Marks the session as revoked, so a copy of the cookie stops working too
  * - Removes the session cookie completely
  * - User will need to re-authenticate
  *
@@ -183,6 +208,20 @@ export async function updateSession(): Promise<null | void> {
  */
 export async function deleteSession(): Promise<void> {
   const cookieStore = await cookies()
+  const payload = await decrypt(cookieStore.get('session')?.value)
+
+  if (payload) {
+    await prisma.userSession
+      .updateMany({
+        where: { id: payload.sessionId, revokedAt: null },
+        data: { revokedAt: new Date() },
+      })
+      .catch((error) => {
+        // Best effort: the cookie is removed either way
+        logger.warn('Failed to revoke session on logout:', error)
+      })
+  }
+
   cookieStore.delete('session')
 }
 
@@ -193,7 +232,9 @@ export async function deleteSession(): Promise<void> {
  *
  * @remarks
  * - Does not update/refresh the session
- * - Returns null for expired or invalid sessions
+ * - Returns null for expired or invalid sessions, and for sessions signed out
+ *   from the devices list, by a password change or by a two-factor reset
+ * - Records the activity of the session at most every 5 minutes
  *
  * @example
  * ```ts
@@ -205,5 +246,48 @@ export async function deleteSession(): Promise<void> {
 export async function getSession(): Promise<SessionPayload | null> {
   const session = (await cookies()).get('session')?.value
   const payload = await decrypt(session)
+  if (!payload) {
+    return null
+  }
+
+  const dbSession = await prisma.userSession.findUnique({
+    where: { id: payload.sessionId },
+    select: { userId: true, lastActiveAt: true, expiresAt: true, revokedAt: true },
+  })
+  const now = new Date()
+  if (!dbSession || dbSession.userId !== payload.userId || dbSession.revokedAt || now > dbSession.expiresAt) {
+    return null
+  }
+
+  if (now.getTime() - dbSession.lastActiveAt.getTime() > SESSION_ACTIVITY_INTERVAL_MS) {
+    // Fire-and-forget: activity tracking shouldn't slow down or break the request
+    prisma.userSession.update({ where: { id: payload.sessionId }, data: { lastActiveAt: now } }).catch(() => {})
+  }
+
   return payload
 }
+
+/**
+ * Revokes the sessions of a user, signing them out on those devices
+ *
+ * @param userId - User whose sessions to revoke
+ * @param options.exceptSessionId - Session to keep, usually the current one
+ * @returns Number of sessions revoked
+ *
+ * @example
+ * ```ts
+ * // After a password change, keep only this browser signed in
+ * await revokeUserSessions(session.userId, { exceptSessionId: session.sessionId })
+ * ```
+ */
+export async function revokeUserSessions(userId: string, options: { exceptSessionId?: string } = {}): Promise<number> {
+  const { count } = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(options.exceptSessionId ? { id: { not: options.exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  })
+  return count
+}
@@ -0,0 +1,368 @@
+import 'server-only'
+
+/**
+ * Two-factor authentication
+ *
+ * Second-factor checks shared by user and admin logins. Once the password is
+ * accepted, a pending `TwoFactorChallenge` is stored and its token set in a
+ * cookie; the session is only created after the second factor checks out.
+ * Wrong codes count against the challenge, which is dropped after
+ * MAX_TWO_FACTOR_ATTEMPTS so the login starts over, through the account
+ * lockout again.
+ *
+ * @module lib/security/two-factor
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { cookies } from 'next/headers'
+import { prisma } from '@/lib/db/prisma'
+import { revokeAllAdminSessions } from '@/lib/security/admin-session'
+import { revokeUserSessions } from '@/lib/security/session'
+import { verifyTotpCode } from '@/lib/security/totp'
+import { generateWebAuthnChallenge } from '@/lib/security/webauthn'
+import { RECOVERY_CODE_COUNT } from '@/lib/two-factor/types'
+
+/**
+ * Account a second factor belongs to
+ */
+export type TwoFactorAccount = { kind: 'user'; id: string } | { kind: 'admin'; id: string }
+
+/** Issuer shown in authenticator apps */
+export const TOTP_ISSUER = 'Astrologer Studio'
+
+/** Wrong codes accepted per pending login */
+export const MAX_TWO_FACTOR_ATTEMPTS = 5
+
+/** Lifetime of pending logins and passkey challenges */
+const CHALLENGE_TTL_MS = 10 * 60 * 1000
+
+/** Pending-login cookies, scoped like the session cookies they lead to */
+const PENDING_COOKIES = {
+  user: { name: 'two_factor_pending', path: '/', sameSite: 'lax' },
+  admin: { name: 'admin_two_factor_pending', path: '/admin', sameSite: 'strict' },
+} as const
+
+function ownerWhere(account: TwoFactorAccount): { userId: string } | { adminId: string } {
+  return account.kind === 'user' ? { userId: account.id } : { adminId: account.id }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// ============================================================================
+// Recovery codes
+// ============================================================================
+
+/**
+ * Hash a recovery code as entered. Case, spaces and dashes are ignored.
+ */
+export function hashRecoveryCode(code: string): string {
+  return hashToken(code.toLowerCase().replace(/[^a-z0-9]/g, ''))
+}
+
+/**
+ * Replace the recovery codes of an account
+ *
+ * @returns The new codes, formatted `xxxxx-xxxxx`. They are not stored and
+ *   can only be shown this once.
+ */
+export async function issueRecoveryCodes(account: TwoFactorAccount): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex')
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`
+  })
+
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: ownerWhere(account) }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: codes.map((code) => ({ ...ownerWhere(account), codeHash: hashRecoveryCode(code) })),
+    }),
+  ])
+
+  return codes
+}
+
+/**
+ * Unused recovery codes of an account
+ */
+export async function countRecoveryCodes(account: TwoFactorAccount): Promise<number> {
+  return prisma.twoFactorRecoveryCode.count({ where: { ...ownerWhere(account), usedAt: null } })
+}
+
+// ============================================================================
+// Code checks
+// ============================================================================
+
+/**
+ * Accept a time step for an account unless it was already used. The update
+ * is conditional so two requests cannot both use the same code.
+ */
+async function claimTotpStep(account: TwoFactorAccount, step: number): Promise<boolean> {
+  const where = { id: account.id, OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }] }
+  const result =
+    account.kind === 'user'
+      ? await prisma.user.updateMany({ where, data: { totpLastStep: step } })
+      : await prisma.adminUser.updateMany({ where, data: { totpLastStep: step } })
+  return result.count === 1
+}
+
+/**
+ * Check a code from an authenticator app, or a recovery code
+ *
+ * @returns How the code matched, or null. A matching recovery code is used up.
+ */
+export async function verifyTwoFactorCode(
+  account: TwoFactorAccount,
+  code: string,
+): Promise<'totp' | 'recovery' | null> {
+  const trimmed = code.trim()
+
+  if (/^\d[\d\s]*$/.test(trimmed)) {
+    const select = { totpSecret: true, totpEnabledAt: true } as const
+    const owner =
+      account.kind === 'user'
+        ? await prisma.user.findUnique({ where: { id: account.id }, select })
+        : await prisma.adminUser.findUnique({ where: { id: account.id }, select })
+    if (!owner?.totpSecret || !owner.totpEnabledAt) {
+      return null
+    }
+
+    const step = verifyTotpCode(owner.totpSecret, trimmed)
+    return step !== null && (await claimTotpStep(account, step)) ? 'totp' : null
+  }
+
+  const used = await prisma.twoFactorRecoveryCode.updateMany({
+    where: { ...ownerWhere(account), codeHash: hashRecoveryCode(trimmed), usedAt: null },
+    data: { usedAt: new Date() },
+  })
+  return used.count > 0 ? 'recovery' : null
+}
+
+/**
+ * Confirm the authenticator app of an account: the code must match the
+ * secret stored during setup. Records the step so the code cannot be reused.
+ *
+ * @returns Whether the code matched
+ */
+export async function confirmTotpSecret(account: TwoFactorAccount, secret: string, code: string): Promise<boolean> {
+  const step = verifyTotpCode(secret, code)
+  if (step === null) {
+    return false
+  }
+
+  const data = { totpEnabledAt: new Date(), totpLastStep: step }
+  if (account.kind === 'user') {
+    await prisma.user.update({ where: { id: account.id }, data })
+  } else {
+    await prisma.adminUser.update({ where: { id: account.id }, data })
+  }
+  return true
+}
+
+// ============================================================================
+// Enabling and resetting
+// ============================================================================
+
+/**
+ * Turn on two-factor login for a user who just confirmed their first factor
+ *
+ * @returns Recovery codes issued with it, or null when it was already on
+ */
+export async function enableUserTwoFactor(userId: string): Promise<string[] | null> {
+  const enabled = await prisma.user.updateMany({
+    where: { id: userId, twoFactorEnabledAt: null },
+    data: { twoFactorEnabledAt: new Date() },
+  })
+  if (enabled.count === 0) {
+    return null
+  }
+  return issueRecoveryCodes({ kind: 'user', id: userId })
+}
+
+/**
+ * Remove every second factor of an account and revoke its sessions
+ *
+ * Used when a user turns two-factor off and when an admin resets it for an
+ * account that lost its device.
+ *
+ * @param options.exceptSessionId - User session to keep signed in, when the
+ *   user turns two-factor off themselves
+ */
+export async function resetTwoFactor(
+  account: TwoFactorAccount,
+  options: { exceptSessionId?: string } = {},
+): Promise<void> {
+  const totpReset = { totpSecret: null, totpEnabledAt: null, totpLastStep: null }
+
+  if (account.kind === 'user') {
+    await prisma.$transaction([
+      prisma.webAuthnCredential.deleteMany({ where: { userId: account.id } }),
+      prisma.twoFactorRecoveryCode.deleteMany({ where: { userId: account.id } }),
+      prisma.twoFactorChallenge.deleteMany({ where: { userId: account.id } }),
+      prisma.user.update({
+        where: { id: account.id },
+        data: { ...totpReset, twoFactorEnabledAt: null },
+      }),
+    ])
+    await revokeUserSessions(account.id, options)
+    return
+  }
+
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { adminId: account.id } }),
+    prisma.twoFactorChallenge.deleteMany({ where: { adminId: account.id } }),
+    prisma.adminUser.update({ where: { id: account.id }, data: totpReset }),
+  ])
+  await revokeAllAdminSessions(account.id)
+}
+
+/**
+ * Whether every admin must use two-factor authentication
+ */
+export async function isAdminTwoFactorRequired(): Promise<boolean> {
+  const policy = await prisma.adminSecurityPolicy.findUnique({ where: { id: 'default' } })
+  return policy?.requireTwoFactor ?? false
+}
+
+// ============================================================================
+// Pending logins
+// ============================================================================
+
+/**
+ * Login waiting for its second factor
+ */
+export interface PendingTwoFactor {
+  id: string
+  purpose: 'login' | 'enroll'
+  account: TwoFactorAccount
+  /** WebAuthn challenge issued for this login, if any */
+  challenge: string | null
+}
+
+/**
+ * Hold a login until its second factor is checked, replacing any earlier
+ * pending login of the account
+ *
+ * @param account - Account whose password was accepted
+ * @param purpose - `enroll` when an admin must first set up an authenticator app
+ */
+export async function startPendingTwoFactor(account: TwoFactorAccount, purpose: 'login' | 'enroll'): Promise<void> {
+  const token = randomBytes(32).toString('hex')
+  const expiresAt = new Date(Date.now() + CHALLENGE_TTL_MS)
+
+  await prisma.twoFactorChallenge.deleteMany({
+    where: { ...ownerWhere(account), purpose: { in: ['login', 'enroll'] } },
+  })
+  await prisma.twoFactorChallenge.create({
+    data: { ...ownerWhere(account), purpose, tokenHash: hashToken(token), expiresAt },
+  })
+
+  const cookie = PENDING_COOKIES[account.kind]
+  const cookieStore = await cookies()
+  cookieStore.set(cookie.name, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    expires: expiresAt,
+    sameSite: cookie.sameSite,
+    path: cookie.path,
+  })
+}
+
+/**
+ * Pending login of this browser
+ *
+ * @param kind - Whether a user or an admin is logging in
+ * @returns The pending login, or null when there is none or it expired
+ */
+export async function getPendingTwoFactor(kind: TwoFactorAccount['kind']): Promise<PendingTwoFactor | null> {
+  const token = (await cookies()).get(PENDING_COOKIES[kind].name)?.value
+  if (!token) {
+    return null
+  }
+
+  const row = await prisma.twoFactorChallenge.findUnique({ where: { tokenHash: hashToken(token) } })
+  const id = kind === 'user' ? row?.userId : row?.adminId
+  if (!row || !id || row.expiresAt < new Date() || (row.purpose !== 'login' && row.purpose !== 'enroll')) {
+    return null
+  }
+
+  return { id: row.id, purpose: row.purpose, account: { kind, id }, challenge: row.challenge }
+}
+
+/**
+ * Attach a fresh WebAuthn challenge to a pending login
+ *
+ * @returns The challenge, base64url encoded
+ */
+export async function issuePendingPasskeyChallenge(pending: PendingTwoFactor): Promise<string> {
+  const challenge = generateWebAuthnChallenge()
+  await prisma.twoFactorChallenge.update({ where: { id: pending.id }, data: { challenge } })
+  return challenge
+}
+
+/**
+ * Count a wrong code against a pending login, dropping it after too many
+ *
+ * @returns Attempts left; zero means the login has to start over
+ */
+export async function recordFailedTwoFactorAttempt(pending: PendingTwoFactor): Promise<number> {
+  const row = await prisma.twoFactorChallenge.update({
+    where: { id: pending.id },
+    data: { attempts: { increment: 1 }, challenge: null },
+  })
+
+  const remaining = MAX_TWO_FACTOR_ATTEMPTS - row.attempts
+  if (remaining <= 0) {
+    await clearPendingTwoFactor(pending)
+    return 0
+  }
+  return remaining
+}
+
+/**
+ * End a pending login, after it succeeded or failed for good
+ */
+export async function clearPendingTwoFactor(pending: PendingTwoFactor): Promise<void> {
+  await prisma.twoFactorChallenge.deleteMany({ where: { id: pending.id } })
+  const cookie = PENDING_COOKIES[pending.account.kind]
+  const cookieStore = await cookies()
+  cookieStore.delete({ name: cookie.name, path: cookie.path })
+}
+
+// ============================================================================
+// Passkey registration
+// ============================================================================
+
+/**
+ * Issue the challenge for a user registering a passkey, replacing any
+ * earlier one
+ *
+ * @returns The challenge, base64url encoded
+ */
+export async function issuePasskeyRegistrationChallenge(userId: string): Promise<string> {
+  const challenge = generateWebAuthnChallenge()
+  await prisma.twoFactorChallenge.deleteMany({ where: { userId, purpose: 'passkey' } })
+  await prisma.twoFactorChallenge.create({
+    data: { userId, purpose: 'passkey', challenge, expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS) },
+  })
+  return challenge
+}
+
+/**
+ * Take the passkey registration challenge of a user. It can be used once.
+ *
+ * @returns The challenge, or null when none was issued or it expired
+ */
+export async function takePasskeyRegistrationChallenge(userId: string): Promise<string | null> {
+  const row = await prisma.twoFactorChallenge.findFirst({
+    where: { userId, purpose: 'passkey' },
+    orderBy: { createdAt: 'desc' },
+  })
+  if (!row) {
+    return null
+  }
+
+  await prisma.twoFactorChallenge.deleteMany({ where: { userId, purpose: 'passkey' } })
+  return row.expiresAt > new Date() ? row.challenge : null
+}
@@ -0,0 +1,247 @@
+import 'server-only'
+
+/**
+ * WebAuthn relying party
+ *
+ * Verifies passkey registrations and assertions for use as a second factor.
+ * Attestation is not requested: the browser hands over the credential public
+ * key (SubjectPublicKeyInfo), so no CBOR/COSE parsing is needed here.
+ *
+ * @module lib/security/webauthn
+ */
+
+import { createHash, createPublicKey, randomBytes, timingSafeEqual, verify, type KeyObject } from 'crypto'
+import { APP_URL } from '@/lib/config/app'
+import type { PasskeyAssertionResponse, PasskeyRegistrationResponse } from '@/lib/two-factor/types'
+
+/** COSE identifiers of the supported signature algorithms, in order of preference */
+export const WEBAUTHN_ALGORITHMS = {
+  EdDSA: -8,
+  ES256: -7,
+  RS256: -257,
+} as const
+
+/** Milliseconds the browser waits for the user */
+export const WEBAUTHN_TIMEOUT_MS = 2 * 60 * 1000
+
+const FLAG_USER_PRESENT = 0x01
+const FLAG_ATTESTED_CREDENTIAL = 0x40
+
+/**
+ * Registration or assertion that does not check out
+ */
+export class WebAuthnError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebAuthnError'
+  }
+}
+
+/**
+ * Relying party the credentials are scoped to
+ */
+export interface RelyingParty {
+  /** Domain of the app */
+  id: string
+  /** Origin the browser reports in client data */
+  origin: string
+  name: string
+}
+
+/**
+ * Credential as stored
+ */
+export interface StoredCredential {
+  /** SubjectPublicKeyInfo (DER) */
+  publicKey: Uint8Array
+  algorithm: number
+  signCount: number
+}
+
+/**
+ * Relying party of this deployment, derived from NEXT_PUBLIC_APP_URL
+ */
+export function getRelyingParty(appUrl: string = APP_URL): RelyingParty {
+  const url = new URL(appUrl)
+  return { id: url.hostname, origin: url.origin, name: 'Astrologer Studio' }
+}
+
+/**
+ * Random challenge, base64url encoded
+ */
+export function generateWebAuthnChallenge(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+interface AuthenticatorData {
+  rpIdHash: Buffer
+  flags: number
+  signCount: number
+  /** Present when the attested credential data flag is set */
+  credentialId?: Buffer
+}
+
+function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) {
+    throw new WebAuthnError('Authenticator data is too short')
+  }
+
+  const flags = data[32]!
+  const result: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    flags,
+    signCount: data.readUInt32BE(33),
+  }
+
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    // AAGUID (16 bytes), then a 2-byte length and the credential ID
+    if (data.length < 55) {
+      throw new WebAuthnError('Attested credential data is missing')
+    }
+    const idLength = data.readUInt16BE(53)
+    if (data.length < 55 + idLength) {
+      throw new WebAuthnError('Attested credential data is truncated')
+    }
+    result.credentialId = data.subarray(55, 55 + idLength)
+  }
+
+  return result
+}
+
+function checkClientData(
+  clientDataJSON: Buffer,
+  type: 'webauthn.create' | 'webauthn.get',
+  expectedChallenge: string,
+  rp: RelyingParty,
+): void {
+  let clientData: { type?: unknown; challenge?: unknown; origin?: unknown }
+  try {
+    clientData = JSON.parse(clientDataJSON.toString('utf8'))
+  } catch {
+    throw new WebAuthnError('Client data is not valid JSON')
+  }
+
+  if (clientData.type !== type) {
+    throw new WebAuthnError('Unexpected client data type')
+  }
+  if (typeof clientData.challenge !== 'string' || !safeEqual(clientData.challenge, expectedChallenge)) {
+    throw new WebAuthnError('Challenge does not match')
+  }
+  if (clientData.origin !== rp.origin) {
+    throw new WebAuthnError('Origin does not match')
+  }
+}
+
+function checkAuthenticatorData(authData: AuthenticatorData, rp: RelyingParty): void {
+  const expectedHash = createHash('sha256').update(rp.id).digest()
+  if (!timingSafeEqual(authData.rpIdHash, expectedHash)) {
+    throw new WebAuthnError('Relying party does not match')
+  }
+  if (!(authData.flags & FLAG_USER_PRESENT)) {
+    throw new WebAuthnError('User presence was not confirmed')
+  }
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+function importPublicKey(spki: Uint8Array): KeyObject {
+  try {
+    return createPublicKey({ key: Buffer.from(spki), format: 'der', type: 'spki' })
+  } catch {
+    throw new WebAuthnError('Public key is not valid')
+  }
+}
+
+function isSupportedAlgorithm(algorithm: number): boolean {
+  return (Object.values(WEBAUTHN_ALGORITHMS) as number[]).includes(algorithm)
+}
+
+/**
+ * Verify a new credential
+ *
+ * @param response - Credential returned by the browser
+ * @param expectedChallenge - Challenge issued for the ceremony
+ * @param rp - Relying party, defaults to this deployment
+ * @returns Credential to store
+ * @throws WebAuthnError when any check fails
+ */
+export function verifyPasskeyRegistration(
+  response: PasskeyRegistrationResponse,
+  expectedChallenge: string,
+  rp: RelyingParty = getRelyingParty(),
+): StoredCredential & { credentialId: string } {
+  checkClientData(Buffer.from(response.clientDataJSON, 'base64url'), 'webauthn.create', expectedChallenge, rp)
+
+  const authData = parseAuthenticatorData(Buffer.from(response.authenticatorData, 'base64url'))
+  checkAuthenticatorData(authData, rp)
+  if (!authData.credentialId || authData.credentialId.toString('base64url') !== response.id) {
+    throw new WebAuthnError('Credential ID does not match')
+  }
+
+  if (!isSupportedAlgorithm(response.publicKeyAlgorithm)) {
+    throw new WebAuthnError('Unsupported key algorithm')
+  }
+  const publicKey = Buffer.from(response.publicKey, 'base64url')
+  importPublicKey(publicKey)
+
+  return {
+    credentialId: response.id,
+    publicKey,
+    algorithm: response.publicKeyAlgorithm,
+    signCount: authData.signCount,
+  }
+}
+
+/**
+ * Verify an assertion made with a stored credential
+ *
+ * @param response - Assertion returned by the browser
+ * @param expectedChallenge - Challenge issued for the ceremony
+ * @param credential - The stored credential matching `response.id`
+ * @param rp - Relying party, defaults to this deployment
+ * @returns New signature counter to store
+ * @throws WebAuthnError when any check fails, including a counter that did
+ *   not increase (a sign of a cloned authenticator)
+ */
+export function verifyPasskeyAssertion(
+  response: PasskeyAssertionResponse,
+  expectedChallenge: string,
+  credential: StoredCredential,
+  rp: RelyingParty = getRelyingParty(),
+): { signCount: number } {
+  const clientDataJSON = Buffer.from(response.clientDataJSON, 'base64url')
+  checkClientData(clientDataJSON, 'webauthn.get', expectedChallenge, rp)
+
+  const rawAuthData = Buffer.from(response.authenticatorData, 'base64url')
+  const authData = parseAuthenticatorData(rawAuthData)
+  checkAuthenticatorData(authData, rp)
+
+  if (!isSupportedAlgorithm(credential.algorithm)) {
+    throw new WebAuthnError('Unsupported key algorithm')
+  }
+  const signedData = Buffer.concat([rawAuthData, createHash('sha256').update(clientDataJSON).digest()])
+  const key = importPublicKey(credential.publicKey)
+  // Ed25519 signs the message itself; ECDSA and RSA sign its SHA-256 digest
+  const digest = credential.algorithm === WEBAUTHN_ALGORITHMS.EdDSA ? null : 'sha256'
+
+  let valid = false
+  try {
+    valid = verify(digest, signedData, key, Buffer.from(response.signature, 'base64url'))
+  } catch {
+    valid = false
+  }
+  if (!valid) {
+    throw new WebAuthnError('Signature is not valid')
+  }
+
+  // Authenticators that do not count report zero every time
+  if ((authData.signCount !== 0 || credential.signCount !== 0) && authData.signCount <= credential.signCount) {
+    throw new WebAuthnError('Signature counter did not increase')
+  }
+
+  return { signCount: authData.signCount }
+}
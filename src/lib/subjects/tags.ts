@@ -0,0 +1,50 @@
+/**
+ * Subject tags
+ *
+ * Tags are personal: each user has their own, also on shared workspace
+ * subjects. Shared by the subject server actions and the public API.
+ *
+ * @module lib/subjects/tags
+ */
+
+/**
+ * Build connectOrCreate inputs for a list of tag names owned by a user.
+ * Names are trimmed and deduplicated; existing tags are reused by name.
+ *
+ * @param ownerId - User the tags belong to
+ * @param names - Tag names as entered
+ */
+export function connectOrCreateTags(ownerId: string, names: string[]) {
+  const uniqueNames = Array.from(new Set(names.map((name) => name.trim()).filter(Boolean)))
+  return uniqueNames.map((name) => ({
+    where: { ownerId_name: { ownerId, name } },
+    create: { name, ownerId },
+  }))
+}
+
+/**
+ * Select the tags a user has put on a subject, for {@link replaceOwnTags}
+ *
+ * @param ownerId - User whose tags are loaded
+ */
+export function ownTagsSelect(ownerId: string) {
+  return { where: { ownerId }, select: { id: true, name: true } } as const
+}
+
+/**
+ * Build the nested write that replaces a user's tags on a subject.
+ * Only the user's own tags that are no longer listed are disconnected, so
+ * tags other workspace members put on a shared subject are kept.
+ *
+ * @param ownerId - User the tags belong to
+ * @param names - Tag names as entered
+ * @param currentTags - The user's tags now on the subject (see {@link ownTagsSelect})
+ */
+export function replaceOwnTags(ownerId: string, names: string[], currentTags: { id: string; name: string }[]) {
+  const connectOrCreate = connectOrCreateTags(ownerId, names)
+  const keptNames = new Set(connectOrCreate.map((input) => input.create.name))
+  return {
+    disconnect: currentTags.filter((tag) => !keptNames.has(tag.name)).map(({ id }) => ({ id })),
+    connectOrCreate,
+  }
+}
@@ -10,6 +10,7 @@
 import 'server-only'
 import { getSession } from '@/lib/security/session'
 import { logger } from '@/lib/logging/server'
+import { getLibraryScope } from '@/lib/workspaces/server'
 import { isDodoPaymentsEnabled, type SubscriptionPlan, type SubscriptionStatus } from './config'
 
 // Re-export client-safe types and functions
@@ -70,9 +71,35 @@ export async function getSubscriptionStatus(
   }
 }
 
+/**
+ * Replace the plan of a session with the plan of the owner of the user's
+ * active workspace, if the user is not the owner
+ */
+async function withWorkspaceOwnerPlan<T extends { userId: string; subscriptionPlan: SubscriptionPlan } | null>(
+  dpSession: T,
+): Promise<T> {
+  if (!dpSession) {
+    return dpSession
+  }
+
+  const { ownerId } = await getLibraryScope(dpSession.userId)
+  if (ownerId === dpSession.userId) {
+    return dpSession
+  }
+  const ownerStatus = await getSubscriptionStatus(ownerId)
+  return {
+    ...dpSession,
+    subscriptionPlan: ownerStatus.plan,
+    isSubscriptionActive: ownerStatus.isActive,
+    trialDaysLeft: ownerStatus.trialDaysLeft,
+  }
+}
+
 /**
  * Get session with subscription status
  * Falls back to "lifetime" when Dodo Payments is not installed
+ *
+ * In a team workspace the plan of the workspace owner applies to every member.
  */
 export async function getSessionWithSubscription() {
   const session = await getSession()
@@ -99,7 +126,7 @@ export async function getSessionWithSubscription() {
   // Try to get from Dodo Payments module
   try {
     const { getSessionWithSubscription: dpGetSession } = await import('@/dodopayments/lib/access')
-    return dpGetSession()
+    return dpGetSession().then(withWorkspaceOwnerPlan)
   } catch {
     return {
       userId: session.userId,
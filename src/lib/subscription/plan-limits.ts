@@ -23,7 +23,22 @@ const PRO_MAX_AI_DAILY = parseInt(process.env.PRO_MAX_AI_DAILY || '20', 10)
 /**
  * Chart types available in the application
  */
-export type ChartType = 'natal' | 'transits' | 'synastry' | 'composite' | 'solar-return' | 'lunar-return' | 'timeline'
+export type ChartType =
+  | 'natal'
+  | 'transits'
+  | 'synastry'
+  | 'composite'
+  | 'solar-return'
+  | 'lunar-return'
+  | 'timeline'
+  | 'progressions'
+  | 'solar-arc'
+  | 'progressed-lunation'
+  | 'multi-wheel'
+  | 'time-lords'
+  | 'harmonics'
+  | 'midpoints'
+  | 'horary'
 
 /**
  * All available chart types
@@ -36,6 +51,14 @@ export const ALL_CHART_TYPES: ChartType[] = [
   'solar-return',
   'lunar-return',
   'timeline',
+  'progressions',
+  'solar-arc',
+  'progressed-lunation',
+  'multi-wheel',
+  'time-lords',
+  'harmonics',
+  'midpoints',
+  'horary',
 ]
 
 /**
@@ -0,0 +1,112 @@
+/**
+ * Passkey ceremonies in the browser
+ *
+ * Wrap `navigator.credentials` and convert between its ArrayBuffers and the
+ * base64url strings the server actions exchange.
+ *
+ * @module lib/two-factor/browser
+ */
+
+import type {
+  PasskeyAssertionResponse,
+  PasskeyLoginOptions,
+  PasskeyRegistrationOptions,
+  PasskeyRegistrationResponse,
+} from './types'
+
+function toBase64Url(buffer: ArrayBuffer): string {
+  let binary = ''
+  for (const byte of new Uint8Array(buffer)) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes.buffer
+}
+
+/**
+ * Whether this browser supports passkeys
+ */
+export function isPasskeySupported(): boolean {
+  return typeof window !== 'undefined' && typeof window.PublicKeyCredential === 'function'
+}
+
+/**
+ * Create a passkey with the authenticator of the user
+ *
+ * @throws Error when the user cancels or the browser cannot provide the public key
+ */
+export async function createPasskey(options: PasskeyRegistrationOptions): Promise<PasskeyRegistrationResponse> {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      challenge: fromBase64Url(options.challenge),
+      rp: options.rp,
+      user: { ...options.user, id: fromBase64Url(options.user.id) },
+      pubKeyCredParams: options.algorithms.map((alg) => ({ type: 'public-key' as const, alg })),
+      excludeCredentials: options.excludeCredentialIds.map((id) => ({
+        type: 'public-key' as const,
+        id: fromBase64Url(id),
+      })),
+      authenticatorSelection: { residentKey: 'discouraged', userVerification: 'preferred' },
+      attestation: 'none',
+      timeout: options.timeout,
+    },
+  })) as PublicKeyCredential | null
+  if (!credential) {
+    throw new Error('No passkey was created')
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse
+  const publicKey = response.getPublicKey()
+  if (!publicKey) {
+    throw new Error('This authenticator uses a key type that is not supported')
+  }
+
+  return {
+    id: credential.id,
+    clientDataJSON: toBase64Url(response.clientDataJSON),
+    authenticatorData: toBase64Url(response.getAuthenticatorData()),
+    publicKey: toBase64Url(publicKey),
+    publicKeyAlgorithm: response.getPublicKeyAlgorithm(),
+    transports: response.getTransports(),
+  }
+}
+
+/**
+ * Sign a login challenge with one of the passkeys of the user
+ *
+ * @throws Error when the user cancels
+ */
+export async function getPasskeyAssertion(options: PasskeyLoginOptions): Promise<PasskeyAssertionResponse> {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      challenge: fromBase64Url(options.challenge),
+      rpId: options.rpId,
+      allowCredentials: options.allowCredentialIds.map((id) => ({
+        type: 'public-key' as const,
+        id: fromBase64Url(id),
+      })),
+      userVerification: 'preferred',
+      timeout: options.timeout,
+    },
+  })) as PublicKeyCredential | null
+  if (!credential) {
+    throw new Error('No passkey was used')
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse
+  return {
+    id: credential.id,
+    clientDataJSON: toBase64Url(response.clientDataJSON),
+    authenticatorData: toBase64Url(response.authenticatorData),
+    signature: toBase64Url(response.signature),
+  }
+}
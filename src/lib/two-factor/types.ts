@@ -0,0 +1,107 @@
+/**
+ * Two-factor authentication types
+ *
+ * Shapes exchanged between the settings and login forms and the server
+ * actions. Binary WebAuthn fields travel as base64url strings.
+ *
+ * @module lib/two-factor/types
+ */
+
+/** Recovery codes issued at a time; each works once */
+export const RECOVERY_CODE_COUNT = 10
+
+/** Passkeys a user can register */
+export const MAX_PASSKEYS = 10
+
+/** Longest name a passkey can be given */
+export const PASSKEY_NAME_MAX_LENGTH = 50
+
+/**
+ * Second factors of an account, as shown in the security settings
+ */
+export interface TwoFactorStatus {
+  /** Whether login asks for a second factor */
+  enabled: boolean
+  /** Whether an authenticator app is confirmed */
+  totpEnabled: boolean
+  passkeys: PasskeySummary[]
+  /** Unused recovery codes */
+  recoveryCodesRemaining: number
+}
+
+/**
+ * Registered passkey, without its key material
+ */
+export interface PasskeySummary {
+  id: string
+  name: string
+  createdAt: Date
+  lastUsedAt: Date | null
+}
+
+/**
+ * Secret of an authenticator app being set up
+ */
+export interface TotpSetup {
+  /** Base32 secret, for manual entry */
+  secret: string
+  /** otpauth:// URI, opened by authenticator apps on the same device */
+  uri: string
+}
+
+/**
+ * Second factor asked for after the password
+ * - `verify`: enter a code or use a passkey
+ * - `enroll`: set up an authenticator app first (admins, when required)
+ */
+export type TwoFactorStep = 'verify' | 'enroll'
+
+/**
+ * Options for `navigator.credentials.create()`
+ */
+export interface PasskeyRegistrationOptions {
+  challenge: string
+  rp: { id: string; name: string }
+  user: { id: string; name: string; displayName: string }
+  /** COSE algorithm identifiers, in order of preference */
+  algorithms: number[]
+  /** Credentials already registered, so the same authenticator is not added twice */
+  excludeCredentialIds: string[]
+  timeout: number
+}
+
+/**
+ * New credential returned by the browser
+ */
+export interface PasskeyRegistrationResponse {
+  /** Credential ID */
+  id: string
+  clientDataJSON: string
+  authenticatorData: string
+  /** SubjectPublicKeyInfo (DER) of the credential key */
+  publicKey: string
+  /** COSE algorithm of the key */
+  publicKeyAlgorithm: number
+  transports: string[]
+}
+
+/**
+ * Options for `navigator.credentials.get()`
+ */
+export interface PasskeyLoginOptions {
+  challenge: string
+  rpId: string
+  allowCredentialIds: string[]
+  timeout: number
+}
+
+/**
+ * Assertion returned by the browser
+ */
+export interface PasskeyAssertionResponse {
+  /** Credential ID */
+  id: string
+  clientDataJSON: string
+  authenticatorData: string
+  signature: string
+}
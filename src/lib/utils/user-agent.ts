@@ -0,0 +1,55 @@
+/**
+ * User agent utility functions
+ */
+
+/** Browsers by token, most specific first: Edge and Opera also send "Chrome" */
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+]
+
+/** Platforms by token, most specific first: Android also sends "Linux" */
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone/, 'iPhone'],
+  [/iPad/, 'iPad'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+]
+
+/**
+ * Short, human-readable description of the browser and platform of a user agent.
+ *
+ * Why:
+ * - Lists of signed-in devices should tell sessions apart at a glance
+ *   without showing raw user agent strings.
+ *
+ * Behavior:
+ * - Recognizes common browsers and platforms only; anything else falls back
+ *   to "Unknown browser" / no platform.
+ *
+ * @param userAgent - User-Agent header, or null when it was not sent
+ * @returns Description such as "Chrome on macOS"
+ *
+ * @example
+ * ```ts
+ * describeUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) ... Version/17.4 Mobile/15E148 Safari/604.1')
+ * // => 'Safari on iPhone'
+ * ```
+ */
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) {
+    return 'Unknown device'
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Unknown browser'
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1]
+
+  return platform ? `${browser} on ${platform}` : browser
+}
@@ -1,4 +1,6 @@
 import { z } from 'zod'
+import { rodens_rating } from '@/types/schemas'
+import { createSubjectSchema } from './subject'
 
 /**
  * API request validation schemas
@@ -6,7 +8,19 @@ import { z } from 'zod'
  */
 
 // Chart types enum
-const chartTypeValues = ['natal', 'transit', 'synastry', 'composite', 'solar-return', 'lunar-return'] as const
+const chartTypeValues = [
+  'natal',
+  'transit',
+  'synastry',
+  'composite',
+  'solar-return',
+  'lunar-return',
+  'progressions',
+  'solar-arc',
+  'progressed-lunation',
+  'multi-wheel',
+  'horary',
+] as const
 type ChartType = (typeof chartTypeValues)[number]
 
 // ============ Saved Charts ============
@@ -63,11 +77,117 @@ export const aiInterpretRequestSchema = z.object({
   language: z.string().length(2, 'Language must be a 2-letter code').toLowerCase().optional().default('en'),
   include_house_comparison: z.boolean().optional().default(true),
   relationshipType: z.string().optional(),
+  horary: z
+    .object({
+      question: z.string().min(1, 'Question is required').max(500, 'Question too long'),
+      querentHouse: z.number().int().min(1).max(12),
+      quesitedHouse: z.number().int().min(1).max(12),
+    })
+    .optional(),
 })
 
 export type AIInterpretRequestInput = z.infer<typeof aiInterpretRequestSchema>
 export type { ChartType }
 
+// ============ Public API (v1) ============
+// Request and response bodies of /api/v1, also used to generate its OpenAPI document
+
+/** Error body of every failed request; validation errors list the invalid fields */
+export const apiErrorSchema = z.object({
+  error: z.string(),
+  details: z.array(z.object({ field: z.string(), message: z.string() })).optional(),
+})
+
+/** Pagination of list endpoints */
+export const apiListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+/** Subject as returned by the API */
+export const apiSubjectSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  birth_datetime: z.string().meta({
+    description: 'Local wall-clock time of birth, written as UTC (the offset is given by timezone)',
+  }),
+  city: z.string(),
+  nation: z.string(),
+  latitude: z.number(),
+  longitude: z.number(),
+  timezone: z.string(),
+  rodens_rating: rodens_rating.nullable(),
+  tags: z.array(z.string()),
+  notes: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
+/** Subject fields accepted when creating or replacing a subject; same rules as the subject form */
+export const apiSubjectInputSchema = createSubjectSchema.extend({
+  birthDate: createSubjectSchema.shape.birthDate.meta({ description: 'Date of birth, YYYY-MM-DD (required)' }),
+  birthTime: createSubjectSchema.shape.birthTime.meta({
+    description: 'Local time of birth, HH:MM:SS (defaults to 00:00:00)',
+  }),
+})
+
+export type ApiSubjectInput = z.infer<typeof apiSubjectInputSchema>
+
+const apiSubjectIdSchema = z.string().uuid('Invalid subject ID format')
+
+/** Chart calculation, with the chart preferences of the token's owner */
+export const apiChartRequestSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('natal'),
+    subjectId: apiSubjectIdSchema,
+    includeSvg: z.boolean().default(false),
+  }),
+  z.object({
+    type: z.literal('transit'),
+    subjectId: apiSubjectIdSchema,
+    datetime: z.iso
+      .datetime({ offset: true })
+      .optional()
+      .meta({ description: 'Moment of the transits (defaults to now), cast for the birthplace' }),
+    includeSvg: z.boolean().default(false),
+  }),
+  z.object({
+    type: z.literal('synastry'),
+    subjectId: apiSubjectIdSchema,
+    secondSubjectId: apiSubjectIdSchema,
+    includeSvg: z.boolean().default(false),
+  }),
+  z.object({
+    type: z.literal('composite'),
+    subjectId: apiSubjectIdSchema,
+    secondSubjectId: apiSubjectIdSchema,
+    includeSvg: z.boolean().default(false),
+  }),
+])
+
+export type ApiChartRequest = z.infer<typeof apiChartRequestSchema>
+
+/** Calculated chart */
+export const apiChartResponseSchema = z.object({
+  type: z.enum(['natal', 'transit', 'synastry', 'composite']),
+  chartData: z.record(z.string(), z.unknown()).meta({ description: 'Chart data of the Astrologer API' }),
+  chartWheelSvg: z.string().optional(),
+  aspectGridSvg: z.string().optional(),
+})
+
+/** Saved chart as returned by the API, with its JSON fields parsed */
+export const apiSavedChartSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  chartData: z.unknown(),
+  settings: z.unknown().nullable(),
+  notes: z.string().nullable(),
+  tags: z.array(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+})
+
 // ============ Helper Functions ============
 
 /**
@@ -43,6 +43,11 @@ const SIDEREAL_MODES = [
   'B1950',
 ] as const
 
+/**
+ * Valid chart layouts: the Western wheel or a square Indian chart
+ */
+const CHART_LAYOUTS = ['western', 'south_indian', 'north_indian'] as const
+
 /**
  * Valid distribution methods for element/quality calculations
  */
@@ -107,6 +112,11 @@ export const chartPreferencesUpdateSchema = z
     /** Show degree indicators on chart */
     show_degree_indicators: z.boolean(),
 
+    /** Default chart layout */
+    chart_layout: z.enum(CHART_LAYOUTS, {
+      message: 'Invalid chart layout. Must be western, south_indian or north_indian',
+    }),
+
     /** Distribution calculation method */
     distribution_method: z.enum(DISTRIBUTION_METHODS, {
       message: 'Invalid distribution method. Must be weighted or pure_count',
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { ValidationError } from '@/lib/security/auth'
+import { formatZodErrors, parseOrThrow } from './parse'
+
+describe('formatZodErrors', () => {
+  it('prefixes messages with the field path', () => {
+    const result = z.object({ name: z.string().min(1, 'Required') }).safeParse({ name: '' })
+    expect(result.success).toBe(false)
+    expect(formatZodErrors(result.error!)).toEqual(['name: Required'])
+  })
+
+  it('keeps bare messages for top-level values', () => {
+    const result = z.string().min(1, 'Required').safeParse('')
+    expect(formatZodErrors(result.error!)).toEqual(['Required'])
+  })
+})
+
+describe('parseOrThrow', () => {
+  it('returns the parsed value', () => {
+    expect(parseOrThrow(z.string().trim(), '  a  ', 'Invalid')).toBe('a')
+  })
+
+  it('throws ValidationError with the given message and every issue', () => {
+    const schema = z.object({ a: z.string(), b: z.number() })
+    try {
+      parseOrThrow(schema, { a: 1, b: 'x' }, 'Invalid data')
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(ValidationError)
+      expect((error as ValidationError).message).toBe('Invalid data')
+      expect((error as ValidationError).errors).toHaveLength(2)
+    }
+  })
+})
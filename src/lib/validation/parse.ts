@@ -0,0 +1,29 @@
+import { type z, type ZodError } from 'zod'
+import { ValidationError } from '@/lib/security/auth'
+
+/**
+ * Turn Zod issues into user-facing messages, prefixed with the field path when there is one
+ */
+export function formatZodErrors(error: ZodError): string[] {
+  return error.issues.map((e) => {
+    const path = e.path.join('.')
+    return path ? `${path}: ${e.message}` : e.message
+  })
+}
+
+/**
+ * Validate a value with a Zod schema and throw ValidationError on failure
+ *
+ * @param schema - Schema to parse with
+ * @param value - Untrusted input
+ * @param message - Message of the thrown error
+ * @returns The parsed value
+ * @throws ValidationError listing every issue if the value does not match
+ */
+export function parseOrThrow<T>(schema: z.ZodType<T>, value: unknown, message: string): T {
+  const parseResult = schema.safeParse(value)
+  if (!parseResult.success) {
+    throw new ValidationError(message, formatZodErrors(parseResult.error))
+  }
+  return parseResult.data
+}
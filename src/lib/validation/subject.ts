@@ -84,3 +84,12 @@ export type CreateSubjectSchema = typeof createSubjectSchema
 export type CreateSubjectFormInput = z.input<typeof createSubjectSchema>
 /** Type for validated output after Zod transforms (birthDate/birthTime may be undefined) */
 export type CreateSubjectInput = z.infer<typeof createSubjectSchema>
+
+/** Tag names share the per-subject tag constraints (trimmed, non-empty) */
+export const tagNameSchema = z.string().trim().min(1, 'Tag name is required').max(50, 'Max 50 characters')
+
+export const subjectGroupSchema = z.object({
+  name: z.string().trim().min(1, 'Group name is required').max(80, 'Max 80 characters'),
+  description: z.string().trim().max(500, 'Max 500 characters').nullable().optional(),
+})
+export type SubjectGroupInput = z.infer<typeof subjectGroupSchema>
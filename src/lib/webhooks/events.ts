@@ -0,0 +1,86 @@
+/**
+ * Outbound webhooks
+ *
+ * Event types, limits and summaries shared by the webhook settings and the
+ * code that emits events. Signing and delivery live in `lib/webhooks/server`.
+ *
+ * @module lib/webhooks/events
+ */
+
+/**
+ * Events a webhook endpoint can subscribe to
+ */
+export type WebhookEventType =
+  | 'subject.created'
+  | 'subject.updated'
+  | 'subject.deleted'
+  | 'saved_chart.created'
+  | 'saved_chart.updated'
+  | 'saved_chart.deleted'
+  | 'interpretation.completed'
+
+/**
+ * Events offered when creating an endpoint, in display order
+ */
+export const WEBHOOK_EVENTS: { value: WebhookEventType; label: string; description: string }[] = [
+  { value: 'subject.created', label: 'Subject created', description: 'The subject, as returned by the REST API' },
+  { value: 'subject.updated', label: 'Subject updated', description: 'The subject, as returned by the REST API' },
+  { value: 'subject.deleted', label: 'Subject deleted', description: 'The ID of the deleted subject' },
+  { value: 'saved_chart.created', label: 'Chart saved', description: 'The saved chart, as returned by the REST API' },
+  { value: 'saved_chart.updated', label: 'Saved chart updated', description: 'The saved chart after the change' },
+  { value: 'saved_chart.deleted', label: 'Saved chart deleted', description: 'The ID of the deleted chart' },
+  {
+    value: 'interpretation.completed',
+    label: 'AI interpretation completed',
+    description: 'Chart type, subject names and the generated text',
+  },
+]
+
+/** Endpoints a user may have at once */
+export const MAX_WEBHOOK_ENDPOINTS = 10
+
+/** Attempts of a delivery before it is marked as failed */
+export const MAX_WEBHOOK_ATTEMPTS = 6
+
+/** Deliveries kept in the log shown for an endpoint */
+export const WEBHOOK_DELIVERY_LOG_SIZE = 25
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
+/**
+ * Body of every delivery. `id` is also sent as the webhook-id header and is
+ * the same on every retry, so receivers can deduplicate.
+ */
+export interface WebhookPayload<TData = unknown> {
+  id: string
+  type: WebhookEventType
+  createdAt: string
+  data: TData
+}
+
+/**
+ * Endpoint as shown to its owner, without its signing secret
+ */
+export interface WebhookEndpointSummary {
+  id: string
+  url: string
+  description: string | null
+  events: WebhookEventType[]
+  enabled: boolean
+  createdAt: Date
+}
+
+/**
+ * Entry of the delivery log of an endpoint
+ */
+export interface WebhookDeliverySummary {
+  id: string
+  eventType: WebhookEventType
+  status: WebhookDeliveryStatus
+  attempts: number
+  nextAttemptAt: Date | null
+  lastAttemptAt: Date | null
+  responseStatus: number | null
+  error: string | null
+  createdAt: Date
+}
@@ -0,0 +1,232 @@
+import 'server-only'
+
+/**
+ * Signing and delivery of outbound webhooks
+ *
+ * Deliveries follow the Standard Webhooks scheme, the one the Dodo Payments
+ * webhook (`dodopayments/api/webhook`) is verified with on the inbound side:
+ * every request carries `webhook-id`, `webhook-timestamp` and
+ * `webhook-signature` headers, the signature being
+ * `v1,<base64 HMAC-SHA256 of "<id>.<timestamp>.<body>">` keyed with the
+ * base64 part of the endpoint's `whsec_` secret.
+ *
+ * Each event is stored as one delivery per subscribed endpoint and sent right
+ * away. Failed attempts are retried with exponential backoff by
+ * `processDueWebhookDeliveries`, run periodically by the retry route.
+ *
+ * @module lib/webhooks/server
+ */
+
+import { createHmac, randomBytes } from 'crypto'
+import type { WebhookDelivery, WebhookEndpoint } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import { logger } from '@/lib/logging/server'
+import { getErrorMessage } from '@/lib/utils/error'
+import { assertPublicWebhookUrl } from './url'
+import { MAX_WEBHOOK_ATTEMPTS, type WebhookDeliveryStatus, type WebhookEventType, type WebhookPayload } from './events'
+
+/** Prefix of signing secrets, as in the Standard Webhooks scheme */
+const SECRET_PREFIX = 'whsec_'
+
+/** Random bytes of a signing secret */
+const SECRET_BYTES = 24
+
+/** Delay before the first retry; each further retry waits four times longer */
+const BASE_RETRY_DELAY_MS = 30 * 1000
+
+/** Time a receiver has to answer */
+const DELIVERY_TIMEOUT_MS = 10 * 1000
+
+/** How long an attempt in progress keeps other workers from picking the delivery */
+const ATTEMPT_LEASE_MS = 60 * 1000
+
+/** Characters of a failure message kept in the delivery log */
+const MAX_ERROR_LENGTH = 500
+
+type DeliveryWithEndpoint = WebhookDelivery & { endpoint: WebhookEndpoint }
+
+/**
+ * Create a signing secret for an endpoint
+ */
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${randomBytes(SECRET_BYTES).toString('base64')}`
+}
+
+/**
+ * Signature of a delivery, as sent in the webhook-signature header
+ *
+ * @param secret - Endpoint secret (`whsec_<base64>`)
+ * @param id - Message ID, sent as webhook-id
+ * @param timestamp - Unix time in seconds, sent as webhook-timestamp
+ * @param body - Raw request body
+ */
+export function signWebhookPayload(secret: string, id: string, timestamp: number, body: string): string {
+  const key = Buffer.from(secret.slice(SECRET_PREFIX.length), 'base64')
+  const signature = createHmac('sha256', key).update(`${id}.${timestamp}.${body}`).digest('base64')
+  return `v1,${signature}`
+}
+
+/**
+ * Wait before the next attempt of a delivery that failed `attempts` times
+ */
+export function webhookRetryDelayMs(attempts: number): number {
+  return BASE_RETRY_DELAY_MS * 4 ** Math.max(0, attempts - 1)
+}
+
+function parseEvents(events: string): WebhookEventType[] {
+  try {
+    return JSON.parse(events) as WebhookEventType[]
+  } catch {
+    return []
+  }
+}
+
+/**
+ * POST a delivery to its endpoint and record the outcome
+ *
+ * The attempt is claimed first, so a delivery picked by two workers is only
+ * sent once. Endpoints that no longer resolve to a public address fail the
+ * attempt without a request.
+ *
+ * @returns The status of the delivery after the attempt, or null if another worker claimed it
+ */
+async function attemptDelivery(delivery: DeliveryWithEndpoint): Promise<WebhookDeliveryStatus | null> {
+  const now = new Date()
+  const claim = await prisma.webhookDelivery.updateMany({
+    where: { id: delivery.id, status: 'pending', attempts: delivery.attempts },
+    data: {
+      attempts: { increment: 1 },
+      lastAttemptAt: now,
+      nextAttemptAt: new Date(now.getTime() + ATTEMPT_LEASE_MS),
+    },
+  })
+  if (claim.count === 0) return null
+
+  const attempts = delivery.attempts + 1
+  const { id: messageId } = JSON.parse(delivery.payload) as WebhookPayload
+  const timestamp = Math.floor(now.getTime() / 1000)
+
+  let responseStatus: number | null = null
+  let error: string | null = null
+  try {
+    // Checked again on every attempt: the host may resolve elsewhere since it was saved
+    await assertPublicWebhookUrl(delivery.endpoint.url)
+    const response = await fetch(delivery.endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'AstrologerStudio-Webhooks/1.0',
+        'webhook-id': messageId,
+        'webhook-timestamp': String(timestamp),
+        'webhook-signature': signWebhookPayload(delivery.endpoint.secret, messageId, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    })
+    responseStatus = response.status
+    if (!response.ok) {
+      error = `Endpoint responded with HTTP ${response.status}`
+    }
+  } catch (fetchError) {
+    error = getErrorMessage(fetchError).slice(0, MAX_ERROR_LENGTH)
+  }
+
+  const status: WebhookDeliveryStatus = !error ? 'succeeded' : attempts >= MAX_WEBHOOK_ATTEMPTS ? 'failed' : 'pending'
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status,
+      responseStatus,
+      error,
+      nextAttemptAt: status === 'pending' ? new Date(now.getTime() + webhookRetryDelayMs(attempts)) : null,
+    },
+  })
+
+  if (error) {
+    logger.warn('[Webhooks] Delivery failed:', { id: delivery.id, attempts, status, error })
+  }
+  return status
+}
+
+async function queueEvent(userId: string, type: WebhookEventType, data: unknown): Promise<void> {
+  const endpoints = await prisma.webhookEndpoint.findMany({
+    where: { userId, enabled: true },
+    select: { id: true, events: true },
+  })
+  const subscribed = endpoints.filter((endpoint) => parseEvents(endpoint.events).includes(type))
+  if (subscribed.length === 0) return
+
+  const payload: WebhookPayload = {
+    id: `msg_${randomBytes(12).toString('hex')}`,
+    type,
+    createdAt: new Date().toISOString(),
+    data,
+  }
+  const body = JSON.stringify(payload)
+
+  const deliveries = await prisma.$transaction(
+    subscribed.map((endpoint) =>
+      prisma.webhookDelivery.create({
+        data: { endpointId: endpoint.id, eventType: type, payload: body },
+        include: { endpoint: true },
+      }),
+    ),
+  )
+  await Promise.all(deliveries.map(attemptDelivery))
+}
+
+/**
+ * Send an event to the user's enabled endpoints that subscribe to it
+ *
+ * Non-blocking: failures are logged, never thrown, so the change that caused
+ * the event is not affected. Undelivered events are retried later.
+ *
+ * @param userId - Owner of the endpoints
+ * @param type - Event type
+ * @param data - Event data, sent as the `data` field of the payload
+ */
+export function emitWebhookEvent(userId: string, type: WebhookEventType, data: unknown): void {
+  queueEvent(userId, type, data).catch((error) => logger.error(`[Webhooks] Failed to emit ${type}:`, error))
+}
+
+/**
+ * Attempt the pending deliveries whose retry is due, oldest first
+ *
+ * @param limit - Deliveries attempted in this run
+ * @returns How many deliveries were attempted and how many succeeded
+ */
+export async function processDueWebhookDeliveries(limit = 50): Promise<{ attempted: number; succeeded: number }> {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: new Date() }, endpoint: { enabled: true } },
+    include: { endpoint: true },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit,
+  })
+
+  let attempted = 0
+  let succeeded = 0
+  for (const delivery of due) {
+    const status = await attemptDelivery(delivery)
+    if (status === null) continue
+    attempted++
+    if (status === 'succeeded') succeeded++
+  }
+  return { attempted, succeeded }
+}
+
+/**
+ * Send a delivery again right away, e.g. after fixing the receiving end
+ *
+ * Failed deliveries get one more attempt; pending ones skip their wait.
+ *
+ * @returns The status of the delivery after the attempt, or null if it was already being attempted
+ */
+export async function retryWebhookDelivery(delivery: DeliveryWithEndpoint): Promise<WebhookDeliveryStatus | null> {
+  const pending = await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: { status: 'pending', nextAttemptAt: new Date() },
+    include: { endpoint: true },
+  })
+  return attemptDelivery(pending)
+}
@@ -0,0 +1,113 @@
+import 'server-only'
+
+/**
+ * Webhook endpoint URL checks
+ *
+ * Endpoints are user-supplied URLs the server POSTs to, and the delivery log
+ * shows what they answered. Without a check they would let any account probe
+ * internal services and cloud metadata, so every address a host resolves to
+ * must be public. The check runs when an endpoint is saved and again before
+ * each delivery, since DNS can change in between.
+ *
+ * @module lib/webhooks/url
+ */
+
+import { lookup } from 'dns/promises'
+import { BlockList, isIP } from 'net'
+
+/** Hosts that may receive deliveries outside production, for local development */
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]']
+
+/**
+ * Loopback, private, link-local, shared, reserved and multicast ranges.
+ * IPv4-mapped IPv6 addresses (`::ffff:10.0.0.1`) are checked against the
+ * IPv4 ranges by BlockList itself.
+ */
+const NON_PUBLIC_ADDRESSES = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  // NAT64 addresses reach IPv4 hosts, private ones included
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+/**
+ * Endpoint URL that deliveries may not be sent to
+ */
+export class WebhookUrlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookUrlError'
+  }
+}
+
+/**
+ * Whether plain HTTP and loopback hosts are allowed for this host
+ */
+export function isLocalWebhookHost(hostname: string): boolean {
+  return process.env.NODE_ENV !== 'production' && LOCAL_HOSTS.includes(hostname)
+}
+
+/**
+ * Whether an IP address is outside the public internet
+ */
+export function isNonPublicAddress(address: string): boolean {
+  const family = isIP(address)
+  if (family === 0) return true
+  return NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Check that deliveries to a URL reach a public host over HTTPS
+ *
+ * Outside production, `localhost`, `127.0.0.1` and `[::1]` are allowed over
+ * plain HTTP for local development.
+ *
+ * @param url - Endpoint URL
+ * @throws WebhookUrlError if the URL is not HTTPS, the host does not resolve,
+ *   or it resolves to a non-public address
+ */
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  const { protocol, hostname } = new URL(url)
+  if (isLocalWebhookHost(hostname)) return
+
+  if (protocol !== 'https:') {
+    throw new WebhookUrlError('The URL must use HTTPS')
+  }
+
+  const host = hostname.replace(/^\[(.*)\]$/, '$1')
+  let addresses: string[]
+  if (isIP(host)) {
+    addresses = [host]
+  } else {
+    try {
+      addresses = (await lookup(host, { all: true, verbatim: true })).map((entry) => entry.address)
+    } catch {
+      throw new WebhookUrlError('The host of the URL could not be resolved')
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isNonPublicAddress)) {
+    throw new WebhookUrlError('The URL must point to a public address')
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Team workspace roles
+ *
+ * Types and constants shared by the workspace settings and the server-side
+ * access checks in `lib/workspaces/server`.
+ *
+ * @module lib/workspaces/roles
+ */
+
+/**
+ * Role of a member in a workspace.
+ * - `owner`: manages members; the workspace uses their subscription plan
+ * - `astrologer`: reads and edits subjects and saved charts
+ * - `assistant`: read-only access
+ */
+export type WorkspaceRole = 'owner' | 'astrologer' | 'assistant'
+
+/**
+ * Roles that can be given by invitation, in display order
+ */
+export const INVITABLE_WORKSPACE_ROLES: {
+  value: Exclude<WorkspaceRole, 'owner'>
+  label: string
+  description: string
+}[] = [
+  { value: 'astrologer', label: 'Astrologer', description: 'Can add, edit and delete subjects and saved charts' },
+  { value: 'assistant', label: 'Assistant', description: 'Can view subjects and charts, read-only' },
+]
+
+/** Display labels of the roles */
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  astrologer: 'Astrologer',
+  assistant: 'Assistant',
+}
+
+/** Days before an invitation link expires */
+export const WORKSPACE_INVITATION_EXPIRY_DAYS = 7
+
+/**
+ * Whether a role may create, edit and delete subjects and saved charts
+ */
+export function canEditLibrary(role: WorkspaceRole): boolean {
+  return role !== 'assistant'
+}
+
+/**
+ * Workspace as listed for one of its members
+ */
+export interface WorkspaceSummary {
+  id: string
+  name: string
+  role: WorkspaceRole
+  memberCount: number
+  /** Whether the workspace library is the one currently shown to the user */
+  isActive: boolean
+}
+
+/**
+ * Member as shown in the workspace settings
+ */
+export interface WorkspaceMemberSummary {
+  userId: string
+  username: string
+  email: string | null
+  role: WorkspaceRole
+  joinedAt: Date
+}
+
+/**
+ * Invitation that has not been accepted yet. The token is only sent by email.
+ */
+export interface WorkspaceInvitationSummary {
+  id: string
+  email: string
+  role: WorkspaceRole
+  expiresAt: Date
+  createdAt: Date
+}
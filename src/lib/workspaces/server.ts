@@ -0,0 +1,126 @@
+import 'server-only'
+
+/**
+ * Workspace access checks
+ *
+ * Subjects and saved charts live either in a user's personal library or in a
+ * team workspace. The library a user works in is their active workspace, or
+ * the personal library when they have none. Records in a workspace belong to
+ * its owner, so one `{ ownerId, workspaceId }` filter selects a library.
+ *
+ * @module lib/workspaces/server
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db/prisma'
+import { ForbiddenError } from '@/lib/security/auth'
+import { canCreateSubject, getPlanLimits } from '@/lib/subscription/plan-limits'
+import { canEditLibrary, type WorkspaceRole } from './roles'
+
+/**
+ * Library a user is working in, with their role in it
+ */
+export interface LibraryScope {
+  /** The user acting */
+  userId: string
+  /** Active workspace, or null for the personal library */
+  workspaceId: string | null
+  /** Owner of the records in the library; their plan sets its limits */
+  ownerId: string
+  /** `owner` in the personal library */
+  role: WorkspaceRole
+}
+
+/**
+ * Resolve the library of a user. A stale active workspace (the user was
+ * removed from it) falls back to the personal library.
+ *
+ * @param userId - ID of the authenticated user
+ */
+export async function getLibraryScope(userId: string): Promise<LibraryScope> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      activeWorkspace: {
+        select: { id: true, ownerId: true, members: { where: { userId }, select: { role: true } } },
+      },
+    },
+  })
+
+  const workspace = user?.activeWorkspace
+  const membership = workspace?.members[0]
+  if (!workspace || !membership) {
+    return { userId, workspaceId: null, ownerId: userId, role: 'owner' }
+  }
+
+  return { userId, workspaceId: workspace.id, ownerId: workspace.ownerId, role: membership.role as WorkspaceRole }
+}
+
+/**
+ * Filter selecting the subjects of a library
+ */
+export function subjectScopeWhere(scope: LibraryScope): Prisma.SubjectWhereInput {
+  return { ownerId: scope.ownerId, workspaceId: scope.workspaceId }
+}
+
+/**
+ * Filter selecting the saved charts of a library
+ */
+export function savedChartScopeWhere(scope: LibraryScope): Prisma.SavedChartWhereInput {
+  return { userId: scope.ownerId, workspaceId: scope.workspaceId }
+}
+
+/**
+ * Throw unless the user may create, edit and delete records in the library
+ *
+ * @throws ForbiddenError for read-only members
+ */
+export function assertCanEditLibrary(scope: LibraryScope): void {
+  if (!canEditLibrary(scope.role)) {
+    throw new ForbiddenError('Assistants have read-only access to this workspace')
+  }
+}
+
+/**
+ * Throw unless the owner of the library may add a subject.
+ * In a workspace, the owner's plan applies to every member.
+ *
+ * @throws ForbiddenError when the plan's subject limit is reached
+ */
+export async function assertSubjectQuota(scope: LibraryScope): Promise<void> {
+  // DODO PAYMENTS: Check subject limit for free plan
+  const owner = await prisma.user.findUnique({
+    where: { id: scope.ownerId },
+    select: { subscriptionPlan: true, _count: { select: { subjects: true } } },
+  })
+
+  if (!owner) {
+    throw new Error('User not found')
+  }
+
+  const currentCount = owner._count.subjects
+  if (!canCreateSubject(owner.subscriptionPlan, currentCount)) {
+    const limits = getPlanLimits(owner.subscriptionPlan)
+    throw new ForbiddenError(
+      scope.workspaceId
+        ? `Subject limit reached. The workspace owner's plan allows ${limits.maxSubjects} subjects.`
+        : `Subject limit reached. Your plan allows ${limits.maxSubjects} subjects. Upgrade to create more.`,
+    )
+  }
+}
+
+/**
+ * Hash an invitation token for storage and lookup
+ */
+export function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Generate an invitation token and its hash
+ */
+export function generateInvitationToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('hex')
+  return { token, tokenHash: hashInvitationToken(token) }
+}
@@ -6,13 +6,17 @@ import { decrypt } from '@/lib/security/session'
 /**
  * Routes that redirect authenticated users to dashboard
  */
-const authRedirectRoutes = ['/', '/login']
+const authRedirectRoutes = ['/']
 
 /**
  * Public pages accessible to EVERYONE (logged in or not)
  * Admin routes handle their own authentication separately
  */
 const publicAccessRoutes = [
+  // The proxy only checks the session signature, so a revoked session would
+  // bounce between /login and the protected layout; the login page redirects
+  // signed-in users itself
+  '/login',
   '/about',
   '/legal',
   '/pricing',
@@ -22,6 +26,7 @@ const publicAccessRoutes = [
   '/register',
   '/verify-account',
   '/share/birthchart',
+  '/share/chart',
   '/admin', // Admin section has its own auth
 ]
 
@@ -0,0 +1,42 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { DEFAULT_FIXED_STAR_OPTIONS, type FixedStarOptions, type StarMagnitudeClass } from '@/lib/astrology/fixed-stars'
+
+/**
+ * Fixed Stars Settings Store
+ *
+ * Conjunction orbs by magnitude, the paran orb and whether conjunct stars are
+ * drawn on the wheel.
+ */
+export interface FixedStarSettingsState extends FixedStarOptions {
+  /** Draw the stars conjunct natal points on the wheel */
+  showOnWheel: boolean
+  /** Set the conjunction orb of a magnitude class */
+  setOrb: (magnitudeClass: StarMagnitudeClass, orb: number) => void
+  /** Set the paran orb, in minutes of sidereal time */
+  setParanOrb: (paranOrb: number) => void
+  /** Show or hide the stars on the wheel */
+  setShowOnWheel: (showOnWheel: boolean) => void
+  /** Reset all settings to defaults */
+  resetToDefaults: () => void
+}
+
+export const useFixedStarSettings = create<FixedStarSettingsState>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_FIXED_STAR_OPTIONS,
+      showOnWheel: false,
+
+      setOrb: (magnitudeClass, orb) => set((state) => ({ orbs: { ...state.orbs, [magnitudeClass]: orb } })),
+
+      setParanOrb: (paranOrb) => set({ paranOrb }),
+
+      setShowOnWheel: (showOnWheel) => set({ showOnWheel }),
+
+      resetToDefaults: () => set({ ...DEFAULT_FIXED_STAR_OPTIONS, showOnWheel: false }),
+    }),
+    {
+      name: 'fixed-star-settings',
+    },
+  ),
+)
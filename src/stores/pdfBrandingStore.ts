@@ -23,6 +23,7 @@ export interface PDFExportOptions {
   includeHouses: boolean
   includePlanets: boolean
   includeRelationshipScore: boolean
+  includeVedicCharts: boolean
 }
 
 /**
@@ -56,6 +57,7 @@ const DEFAULT_EXPORT_OPTIONS: PDFExportOptions = {
   includeHouses: true,
   includePlanets: true,
   includeRelationshipScore: true,
+  includeVedicCharts: true,
 }
 
 const DEFAULT_STATE = {
@@ -0,0 +1,50 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import {
+  DEFAULT_TRADITIONAL_OPTIONS,
+  type LotId,
+  type TermScheme,
+  type TraditionalOptions,
+  type TriplicityScheme,
+} from '@/lib/astrology/traditional'
+
+/**
+ * Traditional Techniques Settings Store
+ *
+ * Triplicity and term tables and the lots shown in the traditional panel.
+ */
+export interface TraditionalSettingsState extends TraditionalOptions {
+  /** Set the triplicity lords in use */
+  setTriplicity: (triplicity: TriplicityScheme) => void
+  /** Set the table of terms in use */
+  setTerms: (terms: TermScheme) => void
+  /** Show or hide a lot */
+  toggleLot: (lot: LotId) => void
+  /** Reset all settings to defaults */
+  resetToDefaults: () => void
+}
+
+export const useTraditionalSettings = create<TraditionalSettingsState>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_TRADITIONAL_OPTIONS,
+
+      setTriplicity: (triplicity) => set({ triplicity }),
+
+      setTerms: (terms) => set({ terms }),
+
+      toggleLot: (lot) =>
+        set((state) => ({
+          // Keep the default order whichever way lots are toggled
+          lots: state.lots.includes(lot)
+            ? state.lots.filter((id) => id !== lot)
+            : DEFAULT_TRADITIONAL_OPTIONS.lots.filter((id) => id === lot || state.lots.includes(id)),
+        })),
+
+      resetToDefaults: () => set(DEFAULT_TRADITIONAL_OPTIONS),
+    }),
+    {
+      name: 'traditional-settings',
+    },
+  ),
+)
@@ -221,6 +221,27 @@ vi.mock('@/lib/security/rate-limit', () => ({
   clearFailedLogins: (username: string) => mockClearFailedLogins(username),
 }))
 
+const mockIsAdminTwoFactorRequired = vi.fn()
+const mockStartPendingTwoFactor = vi.fn()
+const mockGetPendingTwoFactor = vi.fn()
+const mockVerifyTwoFactorCode = vi.fn()
+const mockRecordFailedTwoFactorAttempt = vi.fn()
+const mockClearPendingTwoFactor = vi.fn()
+const mockResetTwoFactor = vi.fn()
+
+vi.mock('@/lib/security/two-factor', () => ({
+  TOTP_ISSUER: 'Astrologer Studio',
+  isAdminTwoFactorRequired: () => mockIsAdminTwoFactorRequired(),
+  startPendingTwoFactor: (...args: unknown[]) => mockStartPendingTwoFactor(...args),
+  getPendingTwoFactor: (...args: unknown[]) => mockGetPendingTwoFactor(...args),
+  verifyTwoFactorCode: (...args: unknown[]) => mockVerifyTwoFactorCode(...args),
+  recordFailedTwoFactorAttempt: (...args: unknown[]) => mockRecordFailedTwoFactorAttempt(...args),
+  clearPendingTwoFactor: (...args: unknown[]) => mockClearPendingTwoFactor(...args),
+  resetTwoFactor: (...args: unknown[]) => mockResetTwoFactor(...args),
+  confirmTotpSecret: vi.fn(),
+  issueRecoveryCodes: vi.fn(),
+}))
+
 // ============================================================================
 // TEST HELPERS
 // ============================================================================
@@ -341,6 +362,9 @@ describe('Admin Actions', () => {
     mockCheckAccountLockout.mockReturnValue({ locked: false })
     mockRecordFailedLogin.mockReturnValue(undefined)
     mockClearFailedLogins.mockReturnValue(undefined)
+
+    // Two-factor authentication is optional unless a test says otherwise
+    mockIsAdminTwoFactorRequired.mockResolvedValue(false)
   })
 
   // ==========================================================================
@@ -509,6 +533,34 @@ describe('Admin Actions', () => {
       })
     })
 
+    describe('two-factor authentication', () => {
+      it('should ask for a code instead of creating a session when 2FA is set up', async () => {
+        const { adminLogin } = await import('@/actions/admin')
+        mockPrismaAdminUser.findUnique.mockResolvedValue({ ...baseAdmin, totpEnabledAt: new Date() })
+        mockBcryptCompare.mockResolvedValue(true)
+
+        const result = await adminLogin(createAdminLoginFormData('admin', 'correctpass', 'token'))
+
+        expect(result).toEqual({ success: true, data: { twoFactor: 'verify' } })
+        expect(mockStartPendingTwoFactor).toHaveBeenCalledWith({ kind: 'admin', id: baseAdmin.id }, 'login')
+        expect(mockCreateAdminSession).not.toHaveBeenCalled()
+        expect(mockClearFailedLogins).not.toHaveBeenCalled()
+      })
+
+      it('should require setting up 2FA when the policy requires it', async () => {
+        const { adminLogin } = await import('@/actions/admin')
+        mockPrismaAdminUser.findUnique.mockResolvedValue({ ...baseAdmin, totpEnabledAt: null })
+        mockBcryptCompare.mockResolvedValue(true)
+        mockIsAdminTwoFactorRequired.mockResolvedValue(true)
+
+        const result = await adminLogin(createAdminLoginFormData('admin', 'correctpass', 'token'))
+
+        expect(result).toEqual({ success: true, data: { twoFactor: 'enroll' } })
+        expect(mockStartPendingTwoFactor).toHaveBeenCalledWith({ kind: 'admin', id: baseAdmin.id }, 'enroll')
+        expect(mockCreateAdminSession).not.toHaveBeenCalled()
+      })
+    })
+
     describe('brute-force protection', () => {
       it('should check account lockout before attempting login', async () => {
         const { adminLogin } = await import('@/actions/admin')
@@ -594,6 +646,128 @@ describe('Admin Actions', () => {
     })
   })
 
+  // ==========================================================================
+  // ADMIN TWO-FACTOR TESTS
+  // ==========================================================================
+
+  describe('verifyAdminTwoFactor', () => {
+    const pending = { id: 'pending-1', purpose: 'login', account: { kind: 'admin', id: baseAdmin.id }, challenge: null }
+
+    function createCodeFormData(code: string): FormData {
+      const fd = new FormData()
+      fd.append('code', code)
+      return fd
+    }
+
+    beforeEach(() => {
+      mockGetPendingTwoFactor.mockResolvedValue(pending)
+      mockPrismaAdminUser.findUnique.mockResolvedValue({ ...baseAdmin, totpEnabledAt: new Date() })
+    })
+
+    it('should create the admin session for a valid code', async () => {
+      const { verifyAdminTwoFactor } = await import('@/actions/admin')
+      mockVerifyTwoFactorCode.mockResolvedValue('totp')
+
+      const result = await verifyAdminTwoFactor(createCodeFormData('123456'))
+
+      expect(result.success).toBe(true)
+      expect(mockClearPendingTwoFactor).toHaveBeenCalledWith(pending)
+      expect(mockCreateAdminSession).toHaveBeenCalledWith(baseAdmin.id, baseAdmin.username, baseAdmin.role)
+    })
+
+    it('should count a wrong code against the login and the lockout', async () => {
+      const { verifyAdminTwoFactor } = await import('@/actions/admin')
+      mockVerifyTwoFactorCode.mockResolvedValue(null)
+      mockRecordFailedTwoFactorAttempt.mockResolvedValue(4)
+
+      const result = await verifyAdminTwoFactor(createCodeFormData('000000'))
+
+      expect(result).toEqual({ success: false, error: 'Invalid code. 4 attempts left.' })
+      expect(mockRecordFailedLogin).toHaveBeenCalledWith('admin')
+      expect(mockCreateAdminSession).not.toHaveBeenCalled()
+    })
+
+    it('should lock the account when the password and wrong codes alternate', async () => {
+      const { adminLogin, verifyAdminTwoFactor } = await import('@/actions/admin')
+      mockBcryptCompare.mockResolvedValue(true)
+      mockVerifyTwoFactorCode.mockResolvedValue(null)
+      mockRecordFailedTwoFactorAttempt.mockResolvedValue(4)
+
+      // Lockout store: 5 failures lock the account until they are cleared
+      let failures = 0
+      mockRecordFailedLogin.mockImplementation(() => {
+        failures++
+      })
+      mockClearFailedLogins.mockImplementation(() => {
+        failures = 0
+      })
+      mockCheckAccountLockout.mockImplementation(() => ({ locked: failures >= 5, remainingSeconds: 900 }))
+
+      // Password, wrong code, password again...
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await adminLogin(createAdminLoginFormData('admin', 'correctpass', 'token'))
+        await verifyAdminTwoFactor(createCodeFormData('000000'))
+      }
+
+      const result = await adminLogin(createAdminLoginFormData('admin', 'correctpass', 'token'))
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error).toContain('Account temporarily locked')
+      }
+      expect(mockClearFailedLogins).not.toHaveBeenCalled()
+      expect(mockCreateAdminSession).not.toHaveBeenCalled()
+    })
+
+    it('should clear failed attempts after a valid code', async () => {
+      const { verifyAdminTwoFactor } = await import('@/actions/admin')
+      mockVerifyTwoFactorCode.mockResolvedValue('totp')
+
+      await verifyAdminTwoFactor(createCodeFormData('123456'))
+
+      expect(mockClearFailedLogins).toHaveBeenCalledWith('admin')
+    })
+
+    it('should fail when there is no pending login', async () => {
+      const { verifyAdminTwoFactor } = await import('@/actions/admin')
+      mockGetPendingTwoFactor.mockResolvedValue(null)
+
+      const result = await verifyAdminTwoFactor(createCodeFormData('123456'))
+
+      expect(result).toEqual({ success: false, error: 'Your login has expired. Please sign in again.' })
+      expect(mockVerifyTwoFactorCode).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('resetUserTwoFactor', () => {
+    beforeEach(() => {
+      setupSuperAdminAuth()
+    })
+
+    it('should reset the second factors of the user and log the action', async () => {
+      const { resetUserTwoFactor } = await import('@/actions/admin')
+      mockPrismaUser.findUnique.mockResolvedValue(baseUser)
+
+      const result = await resetUserTwoFactor('user-123')
+
+      expect(result.success).toBe(true)
+      expect(mockResetTwoFactor).toHaveBeenCalledWith({ kind: 'user', id: 'user-123' })
+      expect(mockPrismaAdminAuditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: 'reset_user_two_factor' }),
+      })
+    })
+
+    it('should return error when user not found', async () => {
+      const { resetUserTwoFactor } = await import('@/actions/admin')
+      mockPrismaUser.findUnique.mockResolvedValue(null)
+
+      const result = await resetUserTwoFactor('nonexistent')
+
+      expect(result).toEqual({ success: false, error: 'User not found' })
+      expect(mockResetTwoFactor).not.toHaveBeenCalled()
+    })
+  })
+
   // ==========================================================================
   // ADMIN LOGOUT TESTS
   // ==========================================================================
@@ -0,0 +1,198 @@
+/**
+ * Unit Tests for Personal Access Token Actions
+ *
+ * Tests listing, creating and revoking the personal access tokens of the
+ * public API.
+ *
+ * @module src/actions/api-tokens
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createHash } from 'crypto'
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mockPrismaPersonalAccessToken = {
+  findMany: vi.fn(),
+  count: vi.fn(),
+  create: vi.fn(),
+  updateMany: vi.fn(),
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    personalAccessToken: mockPrismaPersonalAccessToken,
+  },
+}))
+
+// Mock auth helper (withAuth)
+const mockSession = { userId: 'user-123', username: 'testuser' }
+
+class MockNotFoundError extends Error {
+  constructor(message = 'Resource not found') {
+    super(message)
+    this.name = 'NotFoundError'
+  }
+}
+
+class MockForbiddenError extends Error {
+  constructor(message = 'Access denied') {
+    super(message)
+    this.name = 'ForbiddenError'
+  }
+}
+
+class MockValidationError extends Error {
+  public readonly errors: string[]
+  constructor(message = 'Validation failed', errors: string[] = []) {
+    super(message)
+    this.name = 'ValidationError'
+    this.errors = errors
+  }
+}
+
+vi.mock('@/lib/security/auth', () => ({
+  withAuth: (fn: (session: { userId: string; username: string }) => Promise<unknown>) => fn(mockSession),
+  NotFoundError: MockNotFoundError,
+  ForbiddenError: MockForbiddenError,
+  ValidationError: MockValidationError,
+}))
+
+vi.mock('@/lib/logging/server', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+function createTokenRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'token-1',
+    userId: 'user-123',
+    name: 'Scripts',
+    tokenHash: 'hash',
+    tokenPrefix: 'asp_abcdef',
+    scopes: JSON.stringify(['subjects:read']),
+    lastUsedAt: null,
+    expiresAt: null,
+    revokedAt: null,
+    createdAt: new Date('2026-03-01T09:00:00Z'),
+    ...overrides,
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('Personal Access Token Actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrismaPersonalAccessToken.count.mockResolvedValue(0)
+    mockPrismaPersonalAccessToken.create.mockImplementation(({ data }) =>
+      Promise.resolve(createTokenRecord({ ...data, id: 'token-2' })),
+    )
+  })
+
+  describe('getApiTokens', () => {
+    it('should return active tokens without their hash', async () => {
+      const { getApiTokens } = await import('@/actions/api-tokens')
+
+      mockPrismaPersonalAccessToken.findMany.mockResolvedValue([createTokenRecord()])
+
+      const tokens = await getApiTokens()
+
+      expect(tokens).toEqual([expect.objectContaining({ id: 'token-1', scopes: ['subjects:read'] })])
+      expect(tokens[0]).not.toHaveProperty('tokenHash')
+      expect(mockPrismaPersonalAccessToken.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ userId: 'user-123', revokedAt: null }) }),
+      )
+    })
+  })
+
+  describe('createApiToken', () => {
+    it('should store only the hash of the token', async () => {
+      const { createApiToken } = await import('@/actions/api-tokens')
+
+      const { token, summary } = await createApiToken({
+        name: 'Scripts',
+        scopes: ['subjects:read', 'charts:compute'],
+        expiresInDays: 90,
+      })
+
+      expect(token).toMatch(/^asp_[0-9a-f]{64}$/)
+      expect(summary).not.toHaveProperty('tokenHash')
+      const { data } = mockPrismaPersonalAccessToken.create.mock.calls[0]![0]
+      expect(data.tokenHash).toBe(createHash('sha256').update(token).digest('hex'))
+      expect(data.tokenPrefix).toBe(token.slice(0, 10))
+      expect(data.scopes).toBe(JSON.stringify(['subjects:read', 'charts:compute']))
+      expect(data.expiresAt).toBeInstanceOf(Date)
+    })
+
+    it('should create tokens without expiration', async () => {
+      const { createApiToken } = await import('@/actions/api-tokens')
+
+      await createApiToken({ name: 'Scripts', scopes: ['subjects:read'], expiresInDays: null })
+
+      expect(mockPrismaPersonalAccessToken.create.mock.calls[0]![0].data.expiresAt).toBeNull()
+    })
+
+    it('should reject tokens without scopes', async () => {
+      const { createApiToken } = await import('@/actions/api-tokens')
+
+      await expect(createApiToken({ name: 'Scripts', scopes: [], expiresInDays: 30 })).rejects.toThrow(
+        'Invalid access token',
+      )
+      expect(mockPrismaPersonalAccessToken.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject unsupported expirations', async () => {
+      const { createApiToken } = await import('@/actions/api-tokens')
+
+      await expect(createApiToken({ name: 'Scripts', scopes: ['subjects:read'], expiresInDays: 7 })).rejects.toThrow(
+        'Invalid access token',
+      )
+    })
+
+    it('should refuse tokens over the limit', async () => {
+      const { createApiToken } = await import('@/actions/api-tokens')
+      const { MAX_API_TOKENS } = await import('@/lib/public-api/tokens')
+
+      mockPrismaPersonalAccessToken.count.mockResolvedValue(MAX_API_TOKENS)
+
+      await expect(createApiToken({ name: 'Scripts', scopes: ['subjects:read'], expiresInDays: 30 })).rejects.toThrow(
+        MockForbiddenError,
+      )
+      expect(mockPrismaPersonalAccessToken.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('revokeApiToken', () => {
+    it('should revoke a token of the user', async () => {
+      const { revokeApiToken } = await import('@/actions/api-tokens')
+
+      mockPrismaPersonalAccessToken.updateMany.mockResolvedValue({ count: 1 })
+
+      expect(await revokeApiToken('token-1')).toEqual({ id: 'token-1' })
+      expect(mockPrismaPersonalAccessToken.updateMany).toHaveBeenCalledWith({
+        where: { id: 'token-1', userId: 'user-123', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      })
+    })
+
+    it('should throw NotFoundError for tokens of other users', async () => {
+      const { revokeApiToken } = await import('@/actions/api-tokens')
+
+      mockPrismaPersonalAccessToken.updateMany.mockResolvedValue({ count: 0 })
+
+      await expect(revokeApiToken('token-9')).rejects.toThrow(MockNotFoundError)
+    })
+  })
+})
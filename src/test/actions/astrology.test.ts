@@ -35,6 +35,7 @@ const mockAstrologerApi = {
   getNowChart: vi.fn(),
   getSolarReturnChart: vi.fn(),
   getLunarReturnChart: vi.fn(),
+  getSubject: vi.fn(),
 }
 
 vi.mock('@/lib/api/astrologer', () => ({
@@ -60,9 +61,19 @@ vi.mock('@/lib/api/astrologer', () => ({
     get getLunarReturnChart() {
       return mockAstrologerApi.getLunarReturnChart
     },
+    get getSubject() {
+      return mockAstrologerApi.getSubject
+    },
   },
 }))
 
+// Mock subjects for the subject rings of multi-wheel charts
+const mockGetSubjectById = vi.fn()
+
+vi.mock('@/actions/subjects', () => ({
+  getSubjectById: (id: string) => mockGetSubjectById(id),
+}))
+
 // Mock prisma for trackChartCalculation
 const mockPrismaChartCalculationUsage = {
   upsert: vi.fn(),
@@ -671,6 +682,51 @@ describe('Astrology Actions', () => {
     })
   })
 
+  // ==========================================================================
+  // getMultiWheelChart TESTS
+  // ==========================================================================
+
+  describe('getMultiWheelChart', () => {
+    it('should cast the natal chart and one ring per source', async () => {
+      const { getMultiWheelChart } = await import('@/actions/astrology')
+      mockAstrologerApi.getNatalChart.mockResolvedValue(mockChartResponse)
+      mockAstrologerApi.getSubject.mockResolvedValue({ status: 'OK', subject: {} })
+      mockAstrologerApi.getSolarReturnChart.mockResolvedValue(mockChartResponse)
+      mockGetSubjectById.mockResolvedValue(testSubjectB)
+
+      const result = await getMultiWheelChart(testSubject, [
+        { type: 'transit', date: '2026-10-19T08:00:00.000Z' },
+        { type: 'solar-return', year: 2026 },
+        { type: 'subject', subjectId: testSubjectB.id },
+      ])
+
+      expect(result.chart_data.chart_type).toBe('MultiWheel')
+      expect(result.chart_data.rings?.map((ring) => ring.label)).toEqual([
+        'Natal',
+        'Transits',
+        'Solar Return 2026',
+        'Second Subject',
+      ])
+      expect(result.chart_data.ring_aspects).toHaveLength(6)
+
+      const [transitArg] = mockAstrologerApi.getSubject.mock.calls[0]!
+      expect(transitArg).toMatchObject({ timezone: 'UTC', year: 2026, month: 10, day: 19, hour: 8 })
+      expect(mockAstrologerApi.getSolarReturnChart.mock.calls[0]![1]).toMatchObject({ year: 2026, wheel_type: 'dual' })
+      expect(mockGetSubjectById).toHaveBeenCalledWith(testSubjectB.id)
+    })
+
+    it('should reject charts without outer rings or with too many', async () => {
+      const { getMultiWheelChart } = await import('@/actions/astrology')
+      const transit = { type: 'transit' as const, date: '2026-10-19T08:00:00.000Z' }
+
+      await expect(getMultiWheelChart(testSubject, [])).rejects.toThrow('between 1 and 3 outer rings')
+      await expect(getMultiWheelChart(testSubject, [transit, transit, transit, transit])).rejects.toThrow(
+        'between 1 and 3 outer rings',
+      )
+      expect(mockAstrologerApi.getNatalChart).not.toHaveBeenCalled()
+    })
+  })
+
   // ==========================================================================
   // trackChartCalculation TESTS
   // ==========================================================================
@@ -86,11 +86,29 @@ vi.mock('@/lib/security/rate-limit', () => ({
 const mockCreateSession = vi.fn()
 const mockDeleteSession = vi.fn()
 const mockGetSession = vi.fn()
+const mockRevokeUserSessions = vi.fn()
 
 vi.mock('@/lib/security/session', () => ({
   createSession: (...args: unknown[]) => mockCreateSession(...args),
   deleteSession: () => mockDeleteSession(),
   getSession: () => mockGetSession(),
+  revokeUserSessions: (...args: unknown[]) => mockRevokeUserSessions(...args),
+}))
+
+// Mock two-factor authentication
+const mockStartPendingTwoFactor = vi.fn()
+const mockGetPendingTwoFactor = vi.fn()
+const mockVerifyTwoFactorCode = vi.fn()
+const mockRecordFailedTwoFactorAttempt = vi.fn()
+const mockClearPendingTwoFactor = vi.fn()
+
+vi.mock('@/lib/security/two-factor', () => ({
+  startPendingTwoFactor: (...args: unknown[]) => mockStartPendingTwoFactor(...args),
+  getPendingTwoFactor: (...args: unknown[]) => mockGetPendingTwoFactor(...args),
+  verifyTwoFactorCode: (...args: unknown[]) => mockVerifyTwoFactorCode(...args),
+  recordFailedTwoFactorAttempt: (...args: unknown[]) => mockRecordFailedTwoFactorAttempt(...args),
+  clearPendingTwoFactor: (...args: unknown[]) => mockClearPendingTwoFactor(...args),
+  issuePendingPasskeyChallenge: vi.fn(),
 }))
 
 // Mock bcryptjs
@@ -347,6 +365,19 @@ describe('Auth Actions', () => {
         )
       })
 
+      it('should wait for a second factor when two-factor is on', async () => {
+        const { login } = await import('@/actions/auth')
+        setupSuccessfulLoginMocks()
+        mockPrismaUser.findUnique.mockResolvedValue({ ...baseUser, twoFactorEnabledAt: new Date() })
+
+        const result = await login(undefined, createLoginFormData())
+
+        expect(result).toEqual({ twoFactorRequired: true })
+        expect(mockStartPendingTwoFactor).toHaveBeenCalledWith({ kind: 'user', id: baseUser.id }, 'login')
+        expect(mockCreateSession).not.toHaveBeenCalled()
+        expect(mockClearFailedLogins).not.toHaveBeenCalled()
+      })
+
       it('should record failed login attempt when user not found', async () => {
         const { login } = await import('@/actions/auth')
         mockPrismaUser.findUnique.mockResolvedValue(null)
@@ -370,6 +401,117 @@ describe('Auth Actions', () => {
     })
   })
 
+  // ==========================================================================
+  // TWO-FACTOR LOGIN TESTS
+  // ==========================================================================
+
+  describe('verifyTwoFactorLogin', () => {
+    const pending = { id: 'pending-1', purpose: 'login', account: { kind: 'user', id: baseUser.id }, challenge: null }
+
+    function createCodeFormData(code: string): FormData {
+      const fd = new FormData()
+      fd.append('code', code)
+      return fd
+    }
+
+    beforeEach(() => {
+      setupSuccessfulLoginMocks()
+      mockGetPendingTwoFactor.mockResolvedValue(pending)
+    })
+
+    it('should finish the login with a valid code', async () => {
+      const { verifyTwoFactorLogin } = await import('@/actions/auth')
+      mockVerifyTwoFactorCode.mockResolvedValue('totp')
+
+      const result = await verifyTwoFactorLogin(undefined, createCodeFormData('123456'))
+
+      expect(result.success).toBe(true)
+      expect(mockClearPendingTwoFactor).toHaveBeenCalledWith(pending)
+      expect(mockCreateSession).toHaveBeenCalledWith(baseUser.id, baseUser.username)
+    })
+
+    it('should count a wrong code against the login and the lockout', async () => {
+      const { verifyTwoFactorLogin } = await import('@/actions/auth')
+      mockVerifyTwoFactorCode.mockResolvedValue(null)
+      mockRecordFailedTwoFactorAttempt.mockResolvedValue(1)
+
+      const result = await verifyTwoFactorLogin(undefined, createCodeFormData('000000'))
+
+      expect(result).toEqual({ error: 'Invalid code. 1 attempt left.' })
+      expect(mockRecordFailedLogin).toHaveBeenCalledWith(baseUser.username)
+      expect(mockCreateSession).not.toHaveBeenCalled()
+    })
+
+    it('should ask to sign in again after the last attempt', async () => {
+      const { verifyTwoFactorLogin } = await import('@/actions/auth')
+      mockVerifyTwoFactorCode.mockResolvedValue(null)
+      mockRecordFailedTwoFactorAttempt.mockResolvedValue(0)
+
+      const result = await verifyTwoFactorLogin(undefined, createCodeFormData('000000'))
+
+      expect(result).toEqual({ error: 'Too many failed attempts. Please sign in again.' })
+    })
+
+    it('should fail when there is no pending login', async () => {
+      const { verifyTwoFactorLogin } = await import('@/actions/auth')
+      mockGetPendingTwoFactor.mockResolvedValue(null)
+
+      const result = await verifyTwoFactorLogin(undefined, createCodeFormData('123456'))
+
+      expect(result).toEqual({ error: 'Your login has expired. Please sign in again.' })
+      expect(mockVerifyTwoFactorCode).not.toHaveBeenCalled()
+    })
+
+    it('should lock the account when the password and wrong codes alternate', async () => {
+      const { login, verifyTwoFactorLogin } = await import('@/actions/auth')
+      mockPrismaUser.findUnique.mockResolvedValue({ ...baseUser, twoFactorEnabledAt: new Date() })
+      mockVerifyTwoFactorCode.mockResolvedValue(null)
+      mockRecordFailedTwoFactorAttempt.mockResolvedValue(1)
+
+      // Lockout store: 5 failures lock the account until they are cleared
+      let failures = 0
+      mockRecordFailedLogin.mockImplementation(() => {
+        failures++
+      })
+      mockClearFailedLogins.mockImplementation(() => {
+        failures = 0
+      })
+      mockCheckAccountLockout.mockImplementation(() => ({ locked: failures >= 5, remainingSeconds: 900 }))
+
+      // Password, wrong code, password again...
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await login(undefined, createLoginFormData())
+        await verifyTwoFactorLogin(undefined, createCodeFormData('000000'))
+      }
+
+      const result = await login(undefined, createLoginFormData())
+
+      expect(result.error).toContain('Account temporarily locked')
+      expect(mockClearFailedLogins).not.toHaveBeenCalled()
+      expect(mockCreateSession).not.toHaveBeenCalled()
+    })
+
+    it('should clear failed attempts only after a valid code', async () => {
+      const { verifyTwoFactorLogin } = await import('@/actions/auth')
+      mockVerifyTwoFactorCode.mockResolvedValue('totp')
+
+      await verifyTwoFactorLogin(undefined, createCodeFormData('123456'))
+
+      expect(mockClearFailedLogins).toHaveBeenCalledWith(baseUser.username)
+    })
+
+    it('should refuse while the account is locked', async () => {
+      const { verifyTwoFactorLogin } = await import('@/actions/auth')
+      mockCheckAccountLockout.mockReturnValue({ locked: true })
+
+      const result = await verifyTwoFactorLogin(undefined, createCodeFormData('123456'))
+
+      expect(result.error).toContain('Account temporarily locked')
+      expect(mockClearPendingTwoFactor).toHaveBeenCalledWith(pending)
+      expect(mockVerifyTwoFactorCode).not.toHaveBeenCalled()
+    })
+  })
+
   // ==========================================================================
   // LOGOUT TESTS
   // ==========================================================================
@@ -657,6 +799,24 @@ describe('Auth Actions', () => {
 
       expect(mockPrismaTransaction).toHaveBeenCalledWith(expect.any(Array))
     })
+
+    it('should sign the user out everywhere', async () => {
+      const { resetPassword } = await import('@/actions/auth')
+      mockPrismaVerificationToken.findUnique.mockResolvedValue({
+        id: 'token-123',
+        token: 'hashed-token',
+        type: 'password_reset',
+        userId: 'user-123',
+        usedAt: null,
+        expiresAt: new Date(Date.now() + 60000),
+      })
+      mockBcryptHash.mockResolvedValue('new-hashed-password')
+      mockPrismaTransaction.mockResolvedValue([{}, {}])
+
+      await resetPassword('valid-token', validPassword)
+
+      expect(mockRevokeUserSessions).toHaveBeenCalledWith('user-123')
+    })
   })
 
   // ==========================================================================
@@ -664,7 +824,7 @@ describe('Auth Actions', () => {
   // ==========================================================================
 
   describe('changePassword', () => {
-    const mockSession = { userId: 'user-123', username: 'testuser' }
+    const mockSession = { userId: 'user-123', username: 'testuser', sessionId: 'session-1' }
 
     beforeEach(() => {
       // Setup withAuth mock to execute the function with a session
@@ -711,6 +871,28 @@ describe('Auth Actions', () => {
       expect(result.error).toBe('Current password is incorrect.')
     })
 
+    it('should sign out the other sessions but keep this one', async () => {
+      const { changePassword } = await import('@/actions/auth')
+      mockPrismaUser.findUnique.mockResolvedValue({ password: 'hashed-password' })
+      mockBcryptCompare.mockResolvedValue(true)
+      mockBcryptHash.mockResolvedValue('new-hashed-password')
+      mockPrismaUser.update.mockResolvedValue({})
+
+      await changePassword('CurrentPass1!', 'NewPass123!')
+
+      expect(mockRevokeUserSessions).toHaveBeenCalledWith(mockSession.userId, { exceptSessionId: 'session-1' })
+    })
+
+    it('should not sign out other sessions when the current password is incorrect', async () => {
+      const { changePassword } = await import('@/actions/auth')
+      mockPrismaUser.findUnique.mockResolvedValue({ password: 'hashed-password' })
+      mockBcryptCompare.mockResolvedValue(false)
+
+      await changePassword('WrongPass1!', 'NewPass123!')
+
+      expect(mockRevokeUserSessions).not.toHaveBeenCalled()
+    })
+
     it('should update password on success', async () => {
       const { changePassword } = await import('@/actions/auth')
       mockPrismaUser.findUnique.mockResolvedValue({ password: 'hashed-password' })
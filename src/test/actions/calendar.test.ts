@@ -0,0 +1,230 @@
+/**
+ * Unit Tests for Calendar Actions
+ *
+ * Tests creating, updating, regenerating and deleting the calendar feed of a
+ * user.
+ *
+ * @module src/actions/calendar
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createHash } from 'crypto'
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mockPrismaSubject = {
+  findFirst: vi.fn(),
+}
+
+const mockPrismaCalendarFeed = {
+  findUnique: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    subject: mockPrismaSubject,
+    calendarFeed: mockPrismaCalendarFeed,
+    // No active workspace: the personal library
+    user: { findUnique: vi.fn() },
+  },
+}))
+
+// Mock auth helper (withAuth)
+const mockSession = { userId: 'user-123', username: 'testuser' }
+
+class MockNotFoundError extends Error {
+  constructor(message = 'Resource not found') {
+    super(message)
+    this.name = 'NotFoundError'
+  }
+}
+
+class MockValidationError extends Error {
+  public readonly errors: string[]
+  constructor(message = 'Validation failed', errors: string[] = []) {
+    super(message)
+    this.name = 'ValidationError'
+    this.errors = errors
+  }
+}
+
+vi.mock('@/lib/security/auth', () => ({
+  withAuth: (fn: (session: { userId: string; username: string }) => Promise<unknown>) => fn(mockSession),
+  NotFoundError: MockNotFoundError,
+  ValidationError: MockValidationError,
+}))
+
+vi.mock('@/lib/config/app', () => ({
+  APP_URL: 'https://example.com',
+}))
+
+vi.mock('@/lib/logging/server', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+function createFeedRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'feed-1',
+    tokenHash: 'hash',
+    userId: 'user-123',
+    subjectId: 'subject-1',
+    timezone: 'Europe/Rome',
+    categories: JSON.stringify(['transits', 'lunations']),
+    lastFetchedAt: null,
+    createdAt: new Date('2026-02-20T09:00:00Z'),
+    updatedAt: new Date('2026-02-20T09:00:00Z'),
+    subject: { name: 'Jane' },
+    ...overrides,
+  }
+}
+
+const feedInput = {
+  subjectId: 'subject-1',
+  timezone: 'Europe/Rome',
+  categories: ['transits' as const, 'lunations' as const],
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('Calendar Actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrismaSubject.findFirst.mockResolvedValue({ id: 'subject-1' })
+    mockPrismaCalendarFeed.create.mockImplementation(({ data }) => Promise.resolve(createFeedRecord(data)))
+    mockPrismaCalendarFeed.update.mockImplementation(({ data }) => Promise.resolve(createFeedRecord(data)))
+  })
+
+  describe('getCalendarFeed', () => {
+    it('should return the feed without its token hash', async () => {
+      const { getCalendarFeed } = await import('@/actions/calendar')
+
+      mockPrismaCalendarFeed.findUnique.mockResolvedValue(createFeedRecord())
+
+      const feed = await getCalendarFeed()
+
+      expect(feed).toMatchObject({ id: 'feed-1', subjectName: 'Jane', categories: ['transits', 'lunations'] })
+      expect(feed).not.toHaveProperty('tokenHash')
+      expect(mockPrismaCalendarFeed.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: 'user-123' } }),
+      )
+    })
+
+    it('should return null without a feed', async () => {
+      const { getCalendarFeed } = await import('@/actions/calendar')
+
+      mockPrismaCalendarFeed.findUnique.mockResolvedValue(null)
+
+      expect(await getCalendarFeed()).toBeNull()
+    })
+  })
+
+  describe('saveCalendarFeed', () => {
+    it('should create a feed storing only the hash of the token', async () => {
+      const { saveCalendarFeed } = await import('@/actions/calendar')
+
+      mockPrismaCalendarFeed.findUnique.mockResolvedValue(null)
+
+      const { feed, url } = await saveCalendarFeed(feedInput)
+
+      const token = url!.replace('https://example.com/api/calendar/', '').replace('.ics', '')
+      expect(token).toMatch(/^[a-f0-9]{64}$/)
+      const { data } = mockPrismaCalendarFeed.create.mock.calls[0]![0]
+      expect(data).toMatchObject({
+        userId: 'user-123',
+        subjectId: 'subject-1',
+        timezone: 'Europe/Rome',
+        categories: JSON.stringify(['transits', 'lunations']),
+        tokenHash: createHash('sha256').update(token).digest('hex'),
+      })
+      expect(feed.timezone).toBe('Europe/Rome')
+    })
+
+    it('should update the settings of an existing feed and keep its URL', async () => {
+      const { saveCalendarFeed } = await import('@/actions/calendar')
+
+      mockPrismaCalendarFeed.findUnique.mockResolvedValue({ id: 'feed-1' })
+
+      const { url } = await saveCalendarFeed({ ...feedInput, subjectId: null, categories: ['eclipses'] })
+
+      expect(url).toBeNull()
+      expect(mockPrismaCalendarFeed.create).not.toHaveBeenCalled()
+      expect(mockPrismaCalendarFeed.update.mock.calls[0]![0].data).toEqual({
+        subjectId: null,
+        timezone: 'Europe/Rome',
+        categories: JSON.stringify(['eclipses']),
+      })
+      expect(mockPrismaSubject.findFirst).not.toHaveBeenCalled()
+    })
+
+    it('should reject subjects owned by other users', async () => {
+      const { saveCalendarFeed } = await import('@/actions/calendar')
+
+      mockPrismaSubject.findFirst.mockResolvedValue(null)
+
+      await expect(saveCalendarFeed(feedInput)).rejects.toThrow('Subject not found or unauthorized')
+      expect(mockPrismaSubject.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'subject-1', ownerId: 'user-123', workspaceId: null } }),
+      )
+    })
+
+    it('should reject unknown time zones and empty categories', async () => {
+      const { saveCalendarFeed } = await import('@/actions/calendar')
+
+      await expect(saveCalendarFeed({ ...feedInput, timezone: 'Mars/Olympus' })).rejects.toThrow(
+        'Invalid calendar feed',
+      )
+      await expect(saveCalendarFeed({ ...feedInput, categories: [] })).rejects.toThrow('Invalid calendar feed')
+      expect(mockPrismaCalendarFeed.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('regenerateCalendarFeedToken', () => {
+    it('should replace the token hash', async () => {
+      const { regenerateCalendarFeedToken } = await import('@/actions/calendar')
+
+      mockPrismaCalendarFeed.findUnique.mockResolvedValue({ id: 'feed-1' })
+
+      const { url } = await regenerateCalendarFeedToken()
+
+      const token = url.replace('https://example.com/api/calendar/', '').replace('.ics', '')
+      expect(mockPrismaCalendarFeed.update.mock.calls[0]![0].data).toEqual({
+        tokenHash: createHash('sha256').update(token).digest('hex'),
+        lastFetchedAt: null,
+      })
+    })
+
+    it('should throw without a feed', async () => {
+      const { regenerateCalendarFeedToken } = await import('@/actions/calendar')
+
+      mockPrismaCalendarFeed.findUnique.mockResolvedValue(null)
+
+      await expect(regenerateCalendarFeedToken()).rejects.toThrow('Calendar feed not found')
+    })
+  })
+
+  describe('deleteCalendarFeed', () => {
+    it('should delete the feed of the user', async () => {
+      const { deleteCalendarFeed } = await import('@/actions/calendar')
+
+      mockPrismaCalendarFeed.findUnique.mockResolvedValue({ id: 'feed-1' })
+
+      expect(await deleteCalendarFeed()).toEqual({ id: 'feed-1' })
+      expect(mockPrismaCalendarFeed.delete).toHaveBeenCalledWith({ where: { id: 'feed-1' } })
+    })
+  })
+})
@@ -0,0 +1,316 @@
+/**
+ * Unit Tests for Rectification Actions
+ *
+ * Tests managing life events, running a birth time sweep and saving a chosen
+ * time with its audit entry.
+ *
+ * @module src/actions/rectification
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mockPrismaSubject = {
+  findFirst: vi.fn(),
+  update: vi.fn(),
+}
+
+const mockPrismaLifeEvent = {
+  findMany: vi.fn(),
+  findFirst: vi.fn(),
+  create: vi.fn(),
+  delete: vi.fn(),
+}
+
+const mockPrismaRectification = {
+  findMany: vi.fn(),
+  create: vi.fn(),
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    subject: mockPrismaSubject,
+    lifeEvent: mockPrismaLifeEvent,
+    birthTimeRectification: mockPrismaRectification,
+    // No active workspace: the personal library
+    user: { findUnique: vi.fn() },
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+  },
+}))
+
+// Mock auth helper (withAuth)
+const mockSession = { userId: 'user-123', username: 'testuser' }
+
+class MockNotFoundError extends Error {
+  constructor(message = 'Resource not found') {
+    super(message)
+    this.name = 'NotFoundError'
+  }
+}
+
+class MockValidationError extends Error {
+  public readonly errors: string[]
+  constructor(message = 'Validation failed', errors: string[] = []) {
+    super(message)
+    this.name = 'ValidationError'
+    this.errors = errors
+  }
+}
+
+vi.mock('@/lib/security/auth', () => ({
+  withAuth: (fn: (session: { userId: string; username: string }) => Promise<unknown>) => fn(mockSession),
+  NotFoundError: MockNotFoundError,
+  ValidationError: MockValidationError,
+}))
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+}))
+
+// Mock the sweep itself; its scoring is covered by the library tests
+const mockRankBirthTimes = vi.fn()
+
+vi.mock('@/lib/astrology/rectification', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/astrology/rectification')>()),
+  rankBirthTimes: (...args: unknown[]) => mockRankBirthTimes(...args),
+}))
+
+vi.mock('@/lib/logging/server', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+function createSubjectRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'subject-1',
+    name: 'Jane',
+    birthDatetime: new Date('1980-05-20T12:00:00Z'),
+    city: 'London',
+    nation: 'GB',
+    latitude: 51.5074,
+    longitude: -0.1278,
+    timezone: 'Europe/London',
+    rodensRating: 'X',
+    notes: null,
+    ownerId: 'user-123',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  }
+}
+
+function createEventRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'event-1',
+    subjectId: 'subject-1',
+    title: 'Wedding',
+    category: 'relationship',
+    date: new Date('2005-06-18T00:00:00Z'),
+    createdAt: new Date('2026-02-01T00:00:00Z'),
+    ...overrides,
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('Rectification Actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrismaSubject.findFirst.mockResolvedValue(createSubjectRecord())
+    mockPrismaLifeEvent.create.mockImplementation(({ data }) =>
+      Promise.resolve(createEventRecord({ id: 'event-new', ...data })),
+    )
+  })
+
+  describe('createLifeEvent', () => {
+    it('should store the event at UTC midnight of its date', async () => {
+      const { createLifeEvent } = await import('@/actions/rectification')
+
+      const event = await createLifeEvent('subject-1', {
+        title: ' Car accident ',
+        category: 'accident',
+        date: '1999-03-04',
+      })
+
+      expect(mockPrismaLifeEvent.create).toHaveBeenCalledWith({
+        data: {
+          subjectId: 'subject-1',
+          title: 'Car accident',
+          category: 'accident',
+          date: new Date('1999-03-04T00:00:00.000Z'),
+        },
+      })
+      expect(event).toMatchObject({ id: 'event-new', date: '1999-03-04', category: 'accident' })
+    })
+
+    it('should reject events before the birth date', async () => {
+      const { createLifeEvent } = await import('@/actions/rectification')
+
+      await expect(
+        createLifeEvent('subject-1', { title: 'Too early', category: 'other', date: '1980-05-19' }),
+      ).rejects.toMatchObject({ errors: ['The event must be dated after the birth date'] })
+      expect(mockPrismaLifeEvent.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject dates that do not exist', async () => {
+      const { createLifeEvent } = await import('@/actions/rectification')
+
+      await expect(
+        createLifeEvent('subject-1', { title: 'Typo', category: 'other', date: '2001-02-31' }),
+      ).rejects.toMatchObject({ errors: ['Date is not a valid calendar date'] })
+    })
+
+    it('should reject unknown categories', async () => {
+      const { createLifeEvent } = await import('@/actions/rectification')
+
+      await expect(
+        createLifeEvent('subject-1', { title: 'Party', category: 'party' as 'other', date: '2001-02-03' }),
+      ).rejects.toThrow('Invalid life event')
+    })
+
+    it('should reject subjects owned by other users', async () => {
+      const { createLifeEvent } = await import('@/actions/rectification')
+
+      mockPrismaSubject.findFirst.mockResolvedValue(null)
+
+      await expect(
+        createLifeEvent('subject-1', { title: 'Wedding', category: 'relationship', date: '2005-06-18' }),
+      ).rejects.toThrow('Subject not found or unauthorized')
+      expect(mockPrismaSubject.findFirst).toHaveBeenCalledWith({
+        where: { id: 'subject-1', ownerId: 'user-123', workspaceId: null },
+      })
+    })
+  })
+
+  describe('deleteLifeEvent', () => {
+    it('should only delete events of subjects owned by the user', async () => {
+      const { deleteLifeEvent } = await import('@/actions/rectification')
+
+      mockPrismaLifeEvent.findFirst.mockResolvedValue(null)
+
+      await expect(deleteLifeEvent('event-1')).rejects.toThrow('Life event not found')
+      expect(mockPrismaLifeEvent.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'event-1', subject: { ownerId: 'user-123', workspaceId: null } } }),
+      )
+      expect(mockPrismaLifeEvent.delete).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('rectifyBirthTime', () => {
+    it('should sweep the window against the stored events', async () => {
+      const { rectifyBirthTime } = await import('@/actions/rectification')
+
+      mockPrismaLifeEvent.findMany.mockResolvedValue([createEventRecord()])
+      mockRankBirthTimes.mockReturnValue(Array.from({ length: 40 }, (_, i) => ({ time: String(i) })))
+
+      const candidates = await rectifyBirthTime('subject-1', {
+        windowStart: '06:00',
+        windowEnd: '10:00',
+        stepMinutes: 2,
+      })
+
+      expect(mockRankBirthTimes).toHaveBeenCalledWith({
+        birthDate: '1980-05-20T12:00:00.000Z',
+        timezone: 'Europe/London',
+        latitude: 51.5074,
+        longitude: -0.1278,
+        windowStartMinutes: 360,
+        windowEndMinutes: 600,
+        stepMinutes: 2,
+        events: [expect.objectContaining({ id: 'event-1', date: '2005-06-18' })],
+      })
+      expect(candidates).toHaveLength(25)
+    })
+
+    it('should require life events', async () => {
+      const { rectifyBirthTime } = await import('@/actions/rectification')
+
+      mockPrismaLifeEvent.findMany.mockResolvedValue([])
+
+      await expect(
+        rectifyBirthTime('subject-1', { windowStart: '00:00', windowEnd: '23:59', stepMinutes: 4 }),
+      ).rejects.toThrow('Add at least one life event to rectify the birth time')
+    })
+
+    it('should reject inverted and oversized windows', async () => {
+      const { rectifyBirthTime } = await import('@/actions/rectification')
+
+      await expect(
+        rectifyBirthTime('subject-1', { windowStart: '10:00', windowEnd: '09:00', stepMinutes: 4 }),
+      ).rejects.toMatchObject({ errors: ['The window must end after it starts'] })
+      await expect(
+        rectifyBirthTime('subject-1', { windowStart: '00:00', windowEnd: '23:59', stepMinutes: 1 }),
+      ).rejects.toThrow('Invalid rectification window')
+      expect(mockRankBirthTimes).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('applyRectifiedBirthTime', () => {
+    beforeEach(() => {
+      mockPrismaSubject.update.mockImplementation(({ data }) =>
+        Promise.resolve({ ...createSubjectRecord(data), tags: [], groups: [] }),
+      )
+      mockPrismaRectification.create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'entry-1', createdAt: new Date('2026-02-15T10:00:00Z'), ...data }),
+      )
+    })
+
+    it('should keep the birth date and record the previous time', async () => {
+      const { applyRectifiedBirthTime } = await import('@/actions/rectification')
+
+      const { subject, entry } = await applyRectifiedBirthTime('subject-1', {
+        birthTime: '14:16',
+        note: 'Saturn on the MC at the wedding',
+      })
+
+      const birthDatetime = new Date('1980-05-20T14:16:00.000Z')
+      expect(mockPrismaSubject.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'subject-1' }, data: { birthDatetime, rodensRating: 'XR' } }),
+      )
+      expect(mockPrismaRectification.create).toHaveBeenCalledWith({
+        data: {
+          subjectId: 'subject-1',
+          previousBirthDatetime: new Date('1980-05-20T12:00:00Z'),
+          birthDatetime,
+          previousRodensRating: 'X',
+          rodensRating: 'XR',
+          note: 'Saturn on the MC at the wedding',
+        },
+      })
+      expect(subject.birth_datetime).toBe('1980-05-20T14:16:00.000Z')
+      expect(entry).toMatchObject({
+        previousBirthDatetime: '1980-05-20T12:00:00.000Z',
+        birthDatetime: '1980-05-20T14:16:00.000Z',
+      })
+    })
+
+    it('should use the chosen Rodden rating', async () => {
+      const { applyRectifiedBirthTime } = await import('@/actions/rectification')
+
+      await applyRectifiedBirthTime('subject-1', { birthTime: '14:16', note: 'Checked', rodensRating: 'DD' })
+
+      expect(mockPrismaSubject.update.mock.calls[0]![0].data.rodensRating).toBe('DD')
+    })
+
+    it('should require an audit note', async () => {
+      const { applyRectifiedBirthTime } = await import('@/actions/rectification')
+
+      await expect(applyRectifiedBirthTime('subject-1', { birthTime: '14:16', note: '  ' })).rejects.toMatchObject({
+        errors: ['note: An audit note is required'],
+      })
+      expect(mockPrismaSubject.update).not.toHaveBeenCalled()
+    })
+  })
+})
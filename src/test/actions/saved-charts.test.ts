@@ -2,7 +2,7 @@
  * Unit Tests for Saved Charts Actions
  *
  * Tests the getSavedChartData function for all chart types:
- * - natal, transit, synastry, composite, solar-return, lunar-return
+ * - natal, transit, synastry, composite, solar-return, lunar-return, horary
  *
  * @module src/actions/saved-charts
  */
@@ -31,6 +31,7 @@ const mockGetSynastryChart = vi.fn()
 const mockGetCompositeChart = vi.fn()
 const mockGetSolarReturnChart = vi.fn()
 const mockGetLunarReturnChart = vi.fn()
+const mockGetHoraryChart = vi.fn()
 
 vi.mock('@/actions/astrology', () => ({
   getNatalChart: (...args: unknown[]) => mockGetNatalChart(...args),
@@ -39,6 +40,7 @@ vi.mock('@/actions/astrology', () => ({
   getCompositeChart: (...args: unknown[]) => mockGetCompositeChart(...args),
   getSolarReturnChart: (...args: unknown[]) => mockGetSolarReturnChart(...args),
   getLunarReturnChart: (...args: unknown[]) => mockGetLunarReturnChart(...args),
+  getHoraryChart: (...args: unknown[]) => mockGetHoraryChart(...args),
 }))
 
 // Mock logger
@@ -824,6 +826,50 @@ describe('Saved Charts Actions', () => {
     })
   })
 
+  // ==========================================================================
+  // HORARY CHART TESTS
+  // ==========================================================================
+
+  describe('getSavedChartData - horary', () => {
+    const horaryParams = {
+      type: 'horary' as const,
+      question: 'Will I get the job?',
+      datetime: '2025-01-15T12:00:00.000Z',
+      location: testTransitLocation,
+      querentHouse: 1,
+      quesitedHouse: 10,
+    }
+
+    it('should cast the chart for the moment and place of the question', async () => {
+      const { getSavedChartData } = await import('@/actions/saved-charts')
+      mockGetHoraryChart.mockResolvedValue(mockChartResponse)
+
+      const result = await getSavedChartData(horaryParams, 'dark')
+
+      expect(result).toEqual({ success: true, chartType: 'horary', data: mockChartResponse })
+      expect(mockGetSubjectById).not.toHaveBeenCalled()
+      expect(mockGetHoraryChart).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Horary',
+          birth_datetime: horaryParams.datetime,
+          city: testTransitLocation.city,
+          latitude: testTransitLocation.latitude,
+          timezone: testTransitLocation.timezone,
+        }),
+        { theme: 'dark' },
+      )
+    })
+
+    it('should return error when getHoraryChart throws', async () => {
+      const { getSavedChartData } = await import('@/actions/saved-charts')
+      mockGetHoraryChart.mockRejectedValue(new Error('Horary API Error'))
+
+      const result = await getSavedChartData(horaryParams)
+
+      expect(result).toEqual({ success: false, error: 'Horary API Error' })
+    })
+  })
+
   // ==========================================================================
   // UNKNOWN CHART TYPE TESTS
   // ==========================================================================
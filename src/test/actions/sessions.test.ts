@@ -0,0 +1,152 @@
+/**
+ * Unit Tests for User Session Actions
+ *
+ * Tests the devices list of the account settings: listing the signed-in
+ * sessions, signing out one of them and signing out everywhere.
+ *
+ * @module src/actions/sessions
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mockPrismaUserSession = {
+  findMany: vi.fn(),
+  updateMany: vi.fn(),
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userSession: mockPrismaUserSession,
+  },
+}))
+
+// Mock auth helper (withAuth)
+const mockSession = { userId: 'user-123', username: 'testuser', sessionId: 'session-1' }
+
+class MockNotFoundError extends Error {
+  constructor(message = 'Resource not found') {
+    super(message)
+    this.name = 'NotFoundError'
+  }
+}
+
+vi.mock('@/lib/security/auth', () => ({
+  withAuth: (fn: (session: { userId: string; username: string; sessionId: string }) => Promise<unknown>) =>
+    fn(mockSession),
+  NotFoundError: MockNotFoundError,
+}))
+
+vi.mock('@/lib/logging/server', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+const mockDeleteSession = vi.fn()
+const mockRevokeUserSessions = vi.fn()
+vi.mock('@/lib/security/session', () => ({
+  deleteSession: () => mockDeleteSession(),
+  revokeUserSessions: (...args: unknown[]) => mockRevokeUserSessions(...args),
+}))
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('Session Actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('getUserSessions', () => {
+    it('should only query active sessions of the user', async () => {
+      const { getUserSessions } = await import('@/actions/sessions')
+      mockPrismaUserSession.findMany.mockResolvedValue([])
+
+      await getUserSessions()
+
+      expect(mockPrismaUserSession.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-123', revokedAt: null, expiresAt: { gt: expect.any(Date) } },
+        orderBy: { lastActiveAt: 'desc' },
+      })
+    })
+
+    it('should describe the devices and list the current session first', async () => {
+      const { getUserSessions } = await import('@/actions/sessions')
+      const createdAt = new Date('2026-05-01T10:00:00Z')
+      mockPrismaUserSession.findMany.mockResolvedValue([
+        {
+          id: 'session-2',
+          ipAddress: '198.51.100.4',
+          userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) Version/17.4 Mobile/15E148 Safari/604.1',
+          createdAt,
+          lastActiveAt: new Date('2026-05-03T10:00:00Z'),
+        },
+        {
+          id: 'session-1',
+          ipAddress: '203.0.113.7',
+          userAgent: null,
+          createdAt,
+          lastActiveAt: new Date('2026-05-02T10:00:00Z'),
+        },
+      ])
+
+      const result = await getUserSessions()
+
+      expect(result.map((s) => s.id)).toEqual(['session-1', 'session-2'])
+      expect(result[0]).toMatchObject({ device: 'Unknown device', ipAddress: '203.0.113.7', current: true })
+      expect(result[1]).toMatchObject({ device: 'Safari on iPhone', current: false })
+    })
+  })
+
+  describe('signOutSession', () => {
+    it('should revoke another session of the user', async () => {
+      const { signOutSession } = await import('@/actions/sessions')
+      mockPrismaUserSession.updateMany.mockResolvedValue({ count: 1 })
+
+      const result = await signOutSession('session-2')
+
+      expect(result).toEqual({ current: false })
+      expect(mockPrismaUserSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-2', userId: 'user-123', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      })
+      expect(mockDeleteSession).not.toHaveBeenCalled()
+    })
+
+    it('should throw NotFoundError for a session of another user or already signed out', async () => {
+      const { signOutSession } = await import('@/actions/sessions')
+      mockPrismaUserSession.updateMany.mockResolvedValue({ count: 0 })
+
+      await expect(signOutSession('session-9')).rejects.toThrow('Session not found')
+    })
+
+    it('should log out when signing out the current session', async () => {
+      const { signOutSession } = await import('@/actions/sessions')
+
+      const result = await signOutSession('session-1')
+
+      expect(result).toEqual({ current: true })
+      expect(mockDeleteSession).toHaveBeenCalledTimes(1)
+      expect(mockPrismaUserSession.updateMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('signOutEverywhere', () => {
+    it('should revoke every session and log out', async () => {
+      const { signOutEverywhere } = await import('@/actions/sessions')
+      mockRevokeUserSessions.mockResolvedValue(3)
+
+      await signOutEverywhere()
+
+      expect(mockRevokeUserSessions).toHaveBeenCalledWith('user-123')
+      expect(mockDeleteSession).toHaveBeenCalledTimes(1)
+    })
+  })
+})
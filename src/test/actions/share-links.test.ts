@@ -0,0 +1,433 @@
+/**
+ * Unit Tests for Share Link Actions
+ *
+ * Tests creating, listing and revoking chart share links and opening them
+ * publicly, including expiry, revocation, passwords and view counting.
+ *
+ * @module src/actions/share-links
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createHash } from 'crypto'
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mockPrismaSavedChart = {
+  findFirst: vi.fn(),
+}
+
+const mockPrismaShareLink = {
+  create: vi.fn(),
+  findMany: vi.fn(),
+  findFirst: vi.fn(),
+  findUnique: vi.fn(),
+  update: vi.fn(),
+}
+
+// No active workspace unless a test sets one: the personal library
+const mockPrismaUser = { findUnique: vi.fn() }
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    savedChart: mockPrismaSavedChart,
+    chartShareLink: mockPrismaShareLink,
+    user: mockPrismaUser,
+  },
+}))
+
+// Mock auth helper (withAuth)
+const mockSession = { userId: 'user-123', username: 'testuser' }
+
+class MockNotFoundError extends Error {
+  constructor(message = 'Resource not found') {
+    super(message)
+    this.name = 'NotFoundError'
+  }
+}
+
+class MockForbiddenError extends Error {
+  constructor(message = 'Access denied') {
+    super(message)
+    this.name = 'ForbiddenError'
+  }
+}
+
+class MockValidationError extends Error {
+  public readonly errors: string[]
+  constructor(message = 'Validation failed', errors: string[] = []) {
+    super(message)
+    this.name = 'ValidationError'
+    this.errors = errors
+  }
+}
+
+vi.mock('@/lib/security/auth', () => ({
+  withAuth: (fn: (session: { userId: string; username: string }) => Promise<unknown>) => fn(mockSession),
+  ForbiddenError: MockForbiddenError,
+  NotFoundError: MockNotFoundError,
+  ValidationError: MockValidationError,
+}))
+
+// Mock next/headers and rate limiting
+vi.mock('next/headers', () => ({
+  headers: async () => new Headers({ 'x-forwarded-for': '203.0.113.7' }),
+}))
+
+const mockCheckRateLimit = vi.fn()
+
+vi.mock('@/lib/security/rate-limit', () => ({
+  checkRateLimit: (...args: unknown[]) => mockCheckRateLimit(...args),
+  getClientIp: (headers: Headers) => headers.get('x-forwarded-for') ?? 'unknown',
+  RATE_LIMITS: {
+    auth: { limit: 10, windowSeconds: 60, prefix: 'auth' },
+  },
+}))
+
+// Mock bcrypt
+const mockBcryptCompare = vi.fn()
+const mockBcryptHash = vi.fn()
+
+vi.mock('bcryptjs', () => ({
+  default: {
+    compare: (...args: unknown[]) => mockBcryptCompare(...args),
+    hash: (...args: unknown[]) => mockBcryptHash(...args),
+  },
+}))
+
+// Mock chart calculation
+const mockGetSavedChartData = vi.fn()
+
+vi.mock('@/actions/saved-charts', () => ({
+  getSavedChartData: (...args: unknown[]) => mockGetSavedChartData(...args),
+}))
+
+vi.mock('@/lib/config/app', () => ({
+  APP_URL: 'https://example.com',
+}))
+
+vi.mock('@/lib/logging/server', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const TOKEN = 'a'.repeat(64)
+
+const chartParams = { type: 'natal', subjectId: '3f2504e0-4f89-11d3-9a0c-0305e82c3301' }
+
+const snapshot = {
+  chartType: 'natal',
+  data: { status: 'OK', chart_data: { chart_type: 'Natal', aspects: [] }, chart_wheel: '<svg/>' },
+}
+
+function createLinkRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'link-1',
+    tokenHash: createHash('sha256').update(TOKEN).digest('hex'),
+    savedChartId: 'chart-1',
+    userId: 'user-123',
+    snapshot: JSON.stringify(snapshot),
+    includeNotes: true,
+    passwordHash: null,
+    expiresAt: null,
+    revokedAt: null,
+    viewCount: 3,
+    lastViewedAt: null,
+    createdAt: new Date('2026-02-10T12:00:00Z'),
+    savedChart: { name: 'Client natal', type: 'natal', notes: 'Sun in Leo' },
+    ...overrides,
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('Share Link Actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrismaUser.findUnique.mockResolvedValue(null)
+    mockCheckRateLimit.mockReturnValue({ success: true })
+    mockPrismaShareLink.create.mockImplementation(({ data }) => Promise.resolve(createLinkRecord(data)))
+    mockPrismaShareLink.update.mockImplementation(({ data }) => Promise.resolve(createLinkRecord(data)))
+  })
+
+  describe('createShareLink', () => {
+    beforeEach(() => {
+      mockPrismaSavedChart.findFirst.mockResolvedValue({ id: 'chart-1', chartData: JSON.stringify(chartParams) })
+      mockGetSavedChartData.mockResolvedValue({ success: true, ...snapshot })
+    })
+
+    it('should store a snapshot and only the hash of the token', async () => {
+      const { createShareLink } = await import('@/actions/share-links')
+
+      const { link, url } = await createShareLink('chart-1', { includeNotes: true, expiresInDays: 7 })
+
+      expect(mockGetSavedChartData).toHaveBeenCalledWith(chartParams, 'classic')
+      const { data } = mockPrismaShareLink.create.mock.calls[0]![0]
+      const token = url.replace('https://example.com/share/chart/', '')
+      expect(token).toMatch(/^[a-f0-9]{64}$/)
+      expect(data.tokenHash).toBe(createHash('sha256').update(token).digest('hex'))
+      expect(JSON.parse(data.snapshot)).toEqual(snapshot)
+      expect(data.snapshot).not.toContain(chartParams.subjectId)
+      expect(data.passwordHash).toBeNull()
+      expect(data.expiresAt).toBeInstanceOf(Date)
+      expect(link).toMatchObject({ status: 'active', hasPassword: false })
+      expect(link).not.toHaveProperty('tokenHash')
+    })
+
+    it('should hash the password', async () => {
+      const { createShareLink } = await import('@/actions/share-links')
+
+      mockBcryptHash.mockResolvedValue('hashed')
+
+      await createShareLink('chart-1', { includeNotes: false, password: 'secret' })
+
+      expect(mockBcryptHash).toHaveBeenCalledWith('secret', 12)
+      expect(mockPrismaShareLink.create.mock.calls[0]![0].data).toMatchObject({
+        passwordHash: 'hashed',
+        includeNotes: false,
+        expiresAt: null,
+      })
+    })
+
+    it('should reject charts owned by other users', async () => {
+      const { createShareLink } = await import('@/actions/share-links')
+
+      mockPrismaSavedChart.findFirst.mockResolvedValue(null)
+
+      await expect(createShareLink('chart-1', { includeNotes: true })).rejects.toThrow('Saved chart not found')
+      expect(mockPrismaSavedChart.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'chart-1', userId: 'user-123', workspaceId: null } }),
+      )
+    })
+
+    it('should reject invalid options', async () => {
+      const { createShareLink } = await import('@/actions/share-links')
+
+      await expect(createShareLink('chart-1', { includeNotes: true, password: 'abc' })).rejects.toThrow(
+        'Invalid share link options',
+      )
+      await expect(createShareLink('chart-1', { includeNotes: true, expiresInDays: 0 })).rejects.toThrow(
+        'Invalid share link options',
+      )
+      expect(mockPrismaShareLink.create).not.toHaveBeenCalled()
+    })
+
+    it('should not create a link when the chart cannot be calculated', async () => {
+      const { createShareLink } = await import('@/actions/share-links')
+
+      mockGetSavedChartData.mockResolvedValue({ success: false, error: 'Subject not found. It may have been deleted.' })
+
+      await expect(createShareLink('chart-1', { includeNotes: true })).rejects.toThrow('Subject not found')
+      expect(mockPrismaShareLink.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('listShareLinks', () => {
+    it('should list the links of the chart with their status', async () => {
+      const { listShareLinks } = await import('@/actions/share-links')
+
+      mockPrismaShareLink.findMany.mockResolvedValue([
+        createLinkRecord(),
+        createLinkRecord({ id: 'link-2', revokedAt: new Date('2026-02-11T00:00:00Z') }),
+      ])
+
+      const links = await listShareLinks('chart-1')
+
+      expect(mockPrismaShareLink.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { savedChartId: 'chart-1', savedChart: { userId: 'user-123', workspaceId: null } },
+        }),
+      )
+      expect(links.map((link) => link.status)).toEqual(['active', 'revoked'])
+    })
+  })
+
+  describe('revokeShareLink', () => {
+    it('should set the revocation date', async () => {
+      const { revokeShareLink } = await import('@/actions/share-links')
+
+      mockPrismaShareLink.findFirst.mockResolvedValue(createLinkRecord())
+
+      const link = await revokeShareLink('link-1')
+
+      expect(mockPrismaShareLink.update).toHaveBeenCalledWith({
+        where: { id: 'link-1' },
+        data: { revokedAt: expect.any(Date) },
+      })
+      expect(link.status).toBe('revoked')
+    })
+
+    it('should throw when the chart of the link is not in the library', async () => {
+      const { revokeShareLink } = await import('@/actions/share-links')
+
+      mockPrismaShareLink.findFirst.mockResolvedValue(null)
+
+      await expect(revokeShareLink('link-1')).rejects.toThrow('Share link not found')
+      expect(mockPrismaShareLink.findFirst).toHaveBeenCalledWith({
+        where: { id: 'link-1', savedChart: { userId: 'user-123', workspaceId: null } },
+      })
+      expect(mockPrismaShareLink.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('workspace library', () => {
+    const WORKSPACE_ID = 'workspace-1'
+    const OWNER_ID = 'owner-456'
+
+    /** Make workspace-1, owned by owner-456, the active library of the user */
+    function setupActiveWorkspace(role: string) {
+      mockPrismaUser.findUnique.mockResolvedValue({
+        activeWorkspace: { id: WORKSPACE_ID, ownerId: OWNER_ID, members: [{ role }] },
+      })
+    }
+
+    it('should list links other members created for a shared chart', async () => {
+      const { listShareLinks } = await import('@/actions/share-links')
+      setupActiveWorkspace('astrologer')
+      mockPrismaShareLink.findMany.mockResolvedValue([createLinkRecord({ userId: 'member-789' })])
+
+      const links = await listShareLinks('chart-1')
+
+      expect(mockPrismaShareLink.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { savedChartId: 'chart-1', savedChart: { userId: OWNER_ID, workspaceId: WORKSPACE_ID } },
+        }),
+      )
+      expect(links).toHaveLength(1)
+    })
+
+    it('should let editors revoke links other members created', async () => {
+      const { revokeShareLink } = await import('@/actions/share-links')
+      setupActiveWorkspace('astrologer')
+      mockPrismaShareLink.findFirst.mockResolvedValue(createLinkRecord({ userId: 'member-789' }))
+
+      const link = await revokeShareLink('link-1')
+
+      expect(mockPrismaShareLink.findFirst).toHaveBeenCalledWith({
+        where: { id: 'link-1', savedChart: { userId: OWNER_ID, workspaceId: WORKSPACE_ID } },
+      })
+      expect(link.status).toBe('revoked')
+    })
+
+    it('should not let read-only members revoke links', async () => {
+      const { revokeShareLink } = await import('@/actions/share-links')
+      setupActiveWorkspace('assistant')
+
+      await expect(revokeShareLink('link-1')).rejects.toThrow(MockForbiddenError)
+      expect(mockPrismaShareLink.findFirst).not.toHaveBeenCalled()
+      expect(mockPrismaShareLink.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getSharedChart', () => {
+    it('should deliver the snapshot and count the view', async () => {
+      const { getSharedChart } = await import('@/actions/share-links')
+
+      mockPrismaShareLink.findUnique.mockResolvedValue(createLinkRecord())
+
+      const result = await getSharedChart(TOKEN)
+
+      expect(result).toEqual({
+        status: 'ok',
+        chart: {
+          name: 'Client natal',
+          chartType: 'natal',
+          snapshot,
+          notes: 'Sun in Leo',
+          sharedAt: new Date('2026-02-10T12:00:00Z'),
+        },
+      })
+      expect(mockPrismaShareLink.update).toHaveBeenCalledWith({
+        where: { id: 'link-1' },
+        data: { viewCount: { increment: 1 }, lastViewedAt: expect.any(Date) },
+      })
+    })
+
+    it('should omit the notes when the owner excluded them', async () => {
+      const { getSharedChart } = await import('@/actions/share-links')
+
+      mockPrismaShareLink.findUnique.mockResolvedValue(createLinkRecord({ includeNotes: false }))
+
+      const result = await getSharedChart(TOKEN)
+
+      expect(result.status === 'ok' && result.chart.notes).toBeNull()
+    })
+
+    it('should not query malformed tokens', async () => {
+      const { getSharedChart } = await import('@/actions/share-links')
+
+      expect(await getSharedChart('not-a-token')).toEqual({ status: 'not-found' })
+      expect(mockPrismaShareLink.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('should report unknown, expired and revoked links', async () => {
+      const { getSharedChart } = await import('@/actions/share-links')
+
+      mockPrismaShareLink.findUnique.mockResolvedValueOnce(null)
+      expect(await getSharedChart(TOKEN)).toEqual({ status: 'not-found' })
+
+      mockPrismaShareLink.findUnique.mockResolvedValueOnce(createLinkRecord({ expiresAt: new Date('2020-01-01') }))
+      expect(await getSharedChart(TOKEN)).toEqual({ status: 'unavailable', reason: 'expired' })
+
+      mockPrismaShareLink.findUnique.mockResolvedValueOnce(createLinkRecord({ revokedAt: new Date('2026-01-01') }))
+      expect(await getSharedChart(TOKEN)).toEqual({ status: 'unavailable', reason: 'revoked' })
+
+      expect(mockPrismaShareLink.update).not.toHaveBeenCalled()
+    })
+
+    it('should ask for the password without revealing the chart', async () => {
+      const { getSharedChart } = await import('@/actions/share-links')
+
+      mockPrismaShareLink.findUnique.mockResolvedValue(createLinkRecord({ passwordHash: 'hashed' }))
+
+      expect(await getSharedChart(TOKEN)).toEqual({ status: 'password-required' })
+      expect(mockPrismaShareLink.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('unlockSharedChart', () => {
+    beforeEach(() => {
+      mockPrismaShareLink.findUnique.mockResolvedValue(createLinkRecord({ passwordHash: 'hashed' }))
+    })
+
+    it('should deliver the chart for the right password', async () => {
+      const { unlockSharedChart } = await import('@/actions/share-links')
+
+      mockBcryptCompare.mockResolvedValue(true)
+
+      const result = await unlockSharedChart(TOKEN, 'secret')
+
+      expect(mockBcryptCompare).toHaveBeenCalledWith('secret', 'hashed')
+      expect(result.status).toBe('ok')
+      expect(mockCheckRateLimit).toHaveBeenCalledWith('share_unlock:203.0.113.7', expect.any(Object))
+    })
+
+    it('should reject a wrong password', async () => {
+      const { unlockSharedChart } = await import('@/actions/share-links')
+
+      mockBcryptCompare.mockResolvedValue(false)
+
+      expect(await unlockSharedChart(TOKEN, 'wrong')).toEqual({ status: 'invalid-password' })
+      expect(mockPrismaShareLink.update).not.toHaveBeenCalled()
+    })
+
+    it('should throw when rate limited', async () => {
+      const { unlockSharedChart } = await import('@/actions/share-links')
+
+      mockCheckRateLimit.mockReturnValue({ success: false })
+
+      await expect(unlockSharedChart(TOKEN, 'secret')).rejects.toThrow('Too many attempts')
+      expect(mockPrismaShareLink.findUnique).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for Sky Event Actions
+ *
+ * Tests the validation of sky event searches and the natal longitudes used to
+ * overlay sky events on a subject's chart.
+ *
+ * @module src/actions/sky-events
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mockPrismaSubject = {
+  findFirst: vi.fn(),
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    subject: mockPrismaSubject,
+    // No active workspace: the personal library
+    user: { findUnique: vi.fn() },
+  },
+}))
+
+// Mock auth helper (withAuth)
+const mockSession = { userId: 'user-123', username: 'testuser' }
+
+class MockNotFoundError extends Error {
+  constructor(message = 'Resource not found') {
+    super(message)
+    this.name = 'NotFoundError'
+  }
+}
+
+class MockValidationError extends Error {
+  public readonly errors: string[]
+  constructor(message = 'Validation failed', errors: string[] = []) {
+    super(message)
+    this.name = 'ValidationError'
+    this.errors = errors
+  }
+}
+
+vi.mock('@/lib/security/auth', () => ({
+  withAuth: (fn: (session: { userId: string; username: string }) => Promise<unknown>) => fn(mockSession),
+  NotFoundError: MockNotFoundError,
+  ValidationError: MockValidationError,
+}))
+
+vi.mock('@/lib/logging/server', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('Sky Event Actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('getSkyEvents', () => {
+    it('should return lunations in the range', async () => {
+      const { getSkyEvents } = await import('@/actions/sky-events')
+
+      const events = await getSkyEvents({
+        startDate: '2024-04-01T00:00:00.000Z',
+        endDate: '2024-05-01T00:00:00.000Z',
+        categories: ['lunations'],
+      })
+
+      expect(events.map((event) => event.type)).toEqual(['new-moon', 'full-moon'])
+    })
+
+    it('should reject inverted ranges', async () => {
+      const { getSkyEvents } = await import('@/actions/sky-events')
+
+      await expect(
+        getSkyEvents({
+          startDate: '2024-05-01T00:00:00.000Z',
+          endDate: '2024-04-01T00:00:00.000Z',
+          categories: ['lunations'],
+        }),
+      ).rejects.toThrow('Invalid sky event search')
+    })
+  })
+
+  describe('getNatalLongitudes', () => {
+    it('should return tropical longitudes of the natal points', async () => {
+      const { getNatalLongitudes } = await import('@/actions/sky-events')
+
+      // J2000.0 at Greenwich: the Sun is at 280.4°
+      mockPrismaSubject.findFirst.mockResolvedValue({
+        id: 'subject-1',
+        name: 'Epoch',
+        birthDatetime: new Date('2000-01-01T12:00:00Z'),
+        city: 'Greenwich',
+        nation: 'GB',
+        latitude: 51.48,
+        longitude: 0,
+        timezone: 'UTC',
+      })
+
+      const longitudes = await getNatalLongitudes('subject-1')
+
+      expect(longitudes.Sun).toBeCloseTo(280.37, 1)
+      expect(longitudes).toHaveProperty('Ascendant')
+      expect(mockPrismaSubject.findFirst).toHaveBeenCalledWith({
+        where: { id: 'subject-1', ownerId: 'user-123', workspaceId: null },
+      })
+    })
+
+    it('should reject subjects owned by other users', async () => {
+      const { getNatalLongitudes } = await import('@/actions/sky-events')
+
+      mockPrismaSubject.findFirst.mockResolvedValue(null)
+
+      await expect(getNatalLongitudes('subject-1')).rejects.toThrow('Subject not found or unauthorized')
+    })
+  })
+})
@@ -29,6 +29,28 @@ const mockPrismaUser = {
   update: vi.fn(),
 }
 
+// Mock prisma tag and group operations
+const mockPrismaTag = {
+  findMany: vi.fn(),
+  findFirst: vi.fn(),
+  upsert: vi.fn(),
+  update: vi.fn(),
+  deleteMany: vi.fn(),
+  count: vi.fn(),
+}
+
+const mockPrismaSubjectGroup = {
+  findMany: vi.fn(),
+  findFirst: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  deleteMany: vi.fn(),
+  count: vi.fn(),
+}
+
+// Interactive transactions run against the same mocks; batch transactions resolve their operations
+const mockPrismaTransaction = vi.fn()
+
 vi.mock('@/lib/db/prisma', () => ({
   prisma: {
     subject: {
@@ -62,6 +84,9 @@ vi.mock('@/lib/db/prisma', () => ({
         return mockPrismaUser.update
       },
     },
+    tag: mockPrismaTag,
+    subjectGroup: mockPrismaSubjectGroup,
+    $transaction: (arg: unknown) => mockPrismaTransaction(arg),
   },
 }))
 
@@ -117,6 +142,12 @@ vi.mock('@/lib/subscription/plan-limits', () => ({
   getPlanLimits: (plan: string) => mockGetPlanLimits(plan),
 }))
 
+// Mock outbound webhooks
+const mockEmitWebhookEvent = vi.fn()
+vi.mock('@/lib/webhooks/server', () => ({
+  emitWebhookEvent: (...args: unknown[]) => mockEmitWebhookEvent(...args),
+}))
+
 // Mock next/cache
 const mockRevalidatePath = vi.fn()
 vi.mock('next/cache', () => ({
@@ -157,13 +188,22 @@ const basePrismaSubject = {
   longitude: 12.4964,
   timezone: 'Europe/Rome',
   rodensRating: 'AA',
-  tags: '["test","astrology"]',
+  tags: [{ name: 'astrology' }, { name: 'test' }],
+  groups: [],
   notes: 'Test notes',
   ownerId: 'user-123',
   createdAt: new Date('2024-01-01'),
   updatedAt: new Date('2024-01-01'),
 }
 
+/**
+ * Relations loaded with every subject query: the user's own tags and groups
+ */
+const SUBJECT_INCLUDE = {
+  tags: { where: { ownerId: 'user-123' }, select: { name: true }, orderBy: { name: 'asc' } },
+  groups: { where: { ownerId: 'user-123' }, select: { id: true } },
+}
+
 /**
  * Valid CreateSubjectInput for tests
  */
@@ -225,8 +265,9 @@ describe('Subject Actions', () => {
       await getSubjects()
 
       expect(mockPrismaSubject.findMany).toHaveBeenCalledWith({
-        where: { ownerId: mockSession.userId },
+        where: { ownerId: mockSession.userId, workspaceId: null },
         orderBy: { createdAt: 'desc' },
+        include: SUBJECT_INCLUDE,
       })
     })
 
@@ -247,7 +288,7 @@ describe('Subject Actions', () => {
         longitude: 12.4964,
         timezone: 'Europe/Rome',
         rodens_rating: 'AA',
-        tags: ['test', 'astrology'],
+        tags: ['astrology', 'test'],
       })
     })
 
@@ -308,7 +349,9 @@ describe('Subject Actions', () => {
         where: {
           id: VALID_UUID,
           ownerId: mockSession.userId,
+          workspaceId: null,
         },
+        include: SUBJECT_INCLUDE,
       })
     })
 
@@ -333,7 +376,9 @@ describe('Subject Actions', () => {
         where: {
           id: 'other-user-subject',
           ownerId: mockSession.userId,
+          workspaceId: null,
         },
+        include: SUBJECT_INCLUDE,
       })
     })
   })
@@ -362,6 +407,11 @@ describe('Subject Actions', () => {
       })
       expect(mockPrismaSubject.create).toHaveBeenCalled()
       expect(mockRevalidatePath).toHaveBeenCalledWith('/subjects')
+      expect(mockEmitWebhookEvent).toHaveBeenCalledWith(
+        'user-123',
+        'subject.created',
+        expect.objectContaining({ id: VALID_UUID, name: validCreateInput.name, tags: ['astrology', 'test'] }),
+      )
     })
 
     it('should parse birthDate/birthTime with parseBirthDateTime', async () => {
@@ -429,20 +479,32 @@ describe('Subject Actions', () => {
       await expect(createSubject(validCreateInput)).rejects.toThrow('User not found')
     })
 
-    it('should stringify tags as JSON', async () => {
+    it('should connect or create owned tags by name', async () => {
       const { createSubject } = await import('@/actions/subjects')
       mockPrismaSubject.create.mockResolvedValue(basePrismaSubject)
 
       await createSubject({
         ...validCreateInput,
-        tags: ['tag1', 'tag2'],
+        tags: ['tag1', 'tag2', 'tag1'],
       })
 
       expect(mockPrismaSubject.create).toHaveBeenCalledWith(
         expect.objectContaining({
           data: expect.objectContaining({
-            tags: '["tag1","tag2"]',
+            tags: {
+              connectOrCreate: [
+                {
+                  where: { ownerId_name: { ownerId: mockSession.userId, name: 'tag1' } },
+                  create: { name: 'tag1', ownerId: mockSession.userId },
+                },
+                {
+                  where: { ownerId_name: { ownerId: mockSession.userId, name: 'tag2' } },
+                  create: { name: 'tag2', ownerId: mockSession.userId },
+                },
+              ],
+            },
           }),
+          include: SUBJECT_INCLUDE,
         }),
       )
     })
@@ -475,9 +537,11 @@ describe('Subject Actions', () => {
       expect(mockPrismaSubject.findFirst).toHaveBeenCalledWith({
         where: {
           ownerId: mockSession.userId,
+          workspaceId: null,
           name: 'Test Subject',
           birthDatetime: new Date('1990-06-15T10:30:00.000Z'),
         },
+        include: SUBJECT_INCLUDE,
       })
     })
 
@@ -533,6 +597,11 @@ describe('Subject Actions', () => {
 
       expect(result.name).toBe('Updated Name')
       expect(mockRevalidatePath).toHaveBeenCalledWith('/subjects')
+      expect(mockEmitWebhookEvent).toHaveBeenCalledWith(
+        'user-123',
+        'subject.updated',
+        expect.objectContaining({ id: VALID_UUID, name: 'Updated Name' }),
+      )
     })
 
     it('should verify ownership before updating', async () => {
@@ -554,8 +623,9 @@ describe('Subject Actions', () => {
         where: {
           id: VALID_UUID,
           ownerId: mockSession.userId,
+          workspaceId: null,
         },
-        select: { id: true },
+        select: { id: true, tags: { where: { ownerId: mockSession.userId }, select: { id: true, name: true } } },
       })
     })
 
@@ -619,9 +689,11 @@ describe('Subject Actions', () => {
         where: {
           id: VALID_UUID,
           ownerId: mockSession.userId,
+          workspaceId: null,
         },
       })
       expect(mockRevalidatePath).toHaveBeenCalledWith('/subjects')
+      expect(mockEmitWebhookEvent).toHaveBeenCalledWith('user-123', 'subject.deleted', { id: VALID_UUID })
     })
 
     it('should throw NotFoundError when subject not found or not owned', async () => {
@@ -632,6 +704,7 @@ describe('Subject Actions', () => {
 
       // Use a valid UUID that doesn't exist in the database
       await expect(deleteSubject('999e4567-e89b-12d3-a456-426614174999')).rejects.toThrow(NotFoundError)
+      expect(mockEmitWebhookEvent).not.toHaveBeenCalled()
     })
   })
 
@@ -652,6 +725,7 @@ describe('Subject Actions', () => {
         where: {
           id: { in: ids },
           ownerId: mockSession.userId,
+          workspaceId: null,
         },
       })
       expect(mockRevalidatePath).toHaveBeenCalledWith('/subjects')
@@ -1089,4 +1163,374 @@ describe('Subject Actions', () => {
       })
     })
   })
+
+  // ==========================================================================
+  // TAG TESTS
+  // ==========================================================================
+
+  describe('tags', () => {
+    const TAG_UUID = '423e4567-e89b-12d3-a456-426614174003'
+    const TAG_UUID_2 = '523e4567-e89b-12d3-a456-426614174004'
+    const basePrismaTag = {
+      id: TAG_UUID,
+      name: 'family',
+      ownerId: mockSession.userId,
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01'),
+      _count: { subjects: 2 },
+    }
+
+    beforeEach(() => {
+      mockPrismaTransaction.mockImplementation(async (arg: unknown) => {
+        if (typeof arg === 'function') {
+          return arg({ subject: mockPrismaSubject, tag: mockPrismaTag, subjectGroup: mockPrismaSubjectGroup })
+        }
+        return Promise.all(arg as Promise<unknown>[])
+      })
+    })
+
+    it('getTags should return owned tags with subject counts', async () => {
+      const { getTags } = await import('@/actions/subjects')
+      mockPrismaTag.findMany.mockResolvedValue([basePrismaTag])
+
+      const result = await getTags()
+
+      expect(result).toEqual([{ id: TAG_UUID, name: 'family', subjectCount: 2 }])
+      expect(mockPrismaTag.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { ownerId: mockSession.userId }, orderBy: { name: 'asc' } }),
+      )
+    })
+
+    it('createTag should upsert by owner and trimmed name', async () => {
+      const { createTag } = await import('@/actions/subjects')
+      mockPrismaTag.upsert.mockResolvedValue({ ...basePrismaTag, _count: { subjects: 0 } })
+
+      await createTag('  family ')
+
+      expect(mockPrismaTag.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { ownerId_name: { ownerId: mockSession.userId, name: 'family' } },
+          create: { name: 'family', ownerId: mockSession.userId },
+        }),
+      )
+    })
+
+    it('renameTag should reject a name already used by another tag', async () => {
+      const { renameTag } = await import('@/actions/subjects')
+      const { ValidationError } = await import('@/lib/security/auth')
+      mockPrismaTag.findFirst.mockResolvedValueOnce({ id: TAG_UUID }).mockResolvedValueOnce({ id: TAG_UUID_2 })
+
+      await expect(renameTag(TAG_UUID, 'clients')).rejects.toThrow(ValidationError)
+      expect(mockPrismaTag.update).not.toHaveBeenCalled()
+    })
+
+    it('renameTag should throw NotFoundError for tags owned by another user', async () => {
+      const { renameTag } = await import('@/actions/subjects')
+      const { NotFoundError } = await import('@/lib/security/auth')
+      mockPrismaTag.findFirst.mockResolvedValue(null)
+
+      await expect(renameTag(TAG_UUID, 'clients')).rejects.toThrow(NotFoundError)
+    })
+
+    it('mergeTags should move subjects to the target and delete source tags', async () => {
+      const { mergeTags } = await import('@/actions/subjects')
+      mockPrismaTag.count.mockResolvedValue(2)
+      mockPrismaSubject.findMany.mockResolvedValue([{ id: VALID_UUID }, { id: VALID_UUID_2 }])
+      mockPrismaTag.deleteMany.mockResolvedValue({ count: 1 })
+      mockPrismaTag.update.mockResolvedValue({ ...basePrismaTag, _count: { subjects: 3 } })
+
+      const result = await mergeTags([TAG_UUID_2, TAG_UUID], TAG_UUID)
+
+      expect(mockPrismaTag.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: [TAG_UUID_2] }, ownerId: mockSession.userId },
+      })
+      expect(mockPrismaTag.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: TAG_UUID },
+          data: { subjects: { connect: [{ id: VALID_UUID }, { id: VALID_UUID_2 }] } },
+        }),
+      )
+      expect(result.subjectCount).toBe(3)
+    })
+
+    it('mergeTags should throw NotFoundError when a tag is not owned', async () => {
+      const { mergeTags } = await import('@/actions/subjects')
+      const { NotFoundError } = await import('@/lib/security/auth')
+      mockPrismaTag.count.mockResolvedValue(1)
+
+      await expect(mergeTags([TAG_UUID_2], TAG_UUID)).rejects.toThrow(NotFoundError)
+      expect(mockPrismaTransaction).not.toHaveBeenCalled()
+    })
+
+    it('bulkAssignTags should only connect subjects owned by the user', async () => {
+      const { bulkAssignTags } = await import('@/actions/subjects')
+      mockPrismaSubject.findMany.mockResolvedValue([{ id: VALID_UUID }])
+      mockPrismaTag.upsert.mockResolvedValue(basePrismaTag)
+
+      const result = await bulkAssignTags([VALID_UUID, VALID_UUID_3], ['family'])
+
+      expect(result).toEqual({ count: 1 })
+      expect(mockPrismaSubject.findMany).toHaveBeenCalledWith({
+        where: { id: { in: [VALID_UUID, VALID_UUID_3] }, ownerId: mockSession.userId, workspaceId: null },
+        select: { id: true },
+      })
+      expect(mockPrismaTag.upsert).toHaveBeenCalledWith({
+        where: { ownerId_name: { ownerId: mockSession.userId, name: 'family' } },
+        create: { name: 'family', ownerId: mockSession.userId, subjects: { connect: [{ id: VALID_UUID }] } },
+        update: { subjects: { connect: [{ id: VALID_UUID }] } },
+      })
+    })
+
+    it('bulkAssignTags should disconnect existing tags in remove mode', async () => {
+      const { bulkAssignTags } = await import('@/actions/subjects')
+      mockPrismaSubject.findMany.mockResolvedValue([{ id: VALID_UUID }])
+      mockPrismaTag.findMany.mockResolvedValue([{ id: TAG_UUID }])
+      mockPrismaTag.update.mockResolvedValue(basePrismaTag)
+
+      await bulkAssignTags([VALID_UUID], ['family'], 'remove')
+
+      expect(mockPrismaTag.upsert).not.toHaveBeenCalled()
+      expect(mockPrismaTag.update).toHaveBeenCalledWith({
+        where: { id: TAG_UUID },
+        data: { subjects: { disconnect: [{ id: VALID_UUID }] } },
+      })
+    })
+
+    it('bulkAssignTags should reject empty tag lists', async () => {
+      const { bulkAssignTags } = await import('@/actions/subjects')
+      const { ValidationError } = await import('@/lib/security/auth')
+
+      await expect(bulkAssignTags([VALID_UUID], [])).rejects.toThrow(ValidationError)
+    })
+  })
+
+  // ==========================================================================
+  // SUBJECT GROUP TESTS
+  // ==========================================================================
+
+  describe('subject groups', () => {
+    const GROUP_UUID = '623e4567-e89b-12d3-a456-426614174005'
+    const GROUP_UUID_2 = '723e4567-e89b-12d3-a456-426614174006'
+    const basePrismaGroup = {
+      id: GROUP_UUID,
+      name: 'Smith family',
+      description: null,
+      ownerId: mockSession.userId,
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01'),
+      _count: { subjects: 2 },
+    }
+
+    beforeEach(() => {
+      mockPrismaTransaction.mockImplementation(async (fn: (tx: unknown) => Promise<unknown>) =>
+        fn({ subject: mockPrismaSubject, tag: mockPrismaTag, subjectGroup: mockPrismaSubjectGroup }),
+      )
+    })
+
+    it('getSubjectGroups should return owned groups with subject counts', async () => {
+      const { getSubjectGroups } = await import('@/actions/subjects')
+      mockPrismaSubjectGroup.findMany.mockResolvedValue([basePrismaGroup])
+
+      const result = await getSubjectGroups()
+
+      expect(result).toEqual([{ id: GROUP_UUID, name: 'Smith family', description: null, subjectCount: 2 }])
+    })
+
+    it('createSubjectGroup should connect only owned initial members', async () => {
+      const { createSubjectGroup } = await import('@/actions/subjects')
+      mockPrismaSubjectGroup.findFirst.mockResolvedValue(null)
+      mockPrismaSubject.findMany.mockResolvedValue([{ id: VALID_UUID }])
+      mockPrismaSubjectGroup.create.mockResolvedValue(basePrismaGroup)
+
+      await createSubjectGroup({ name: 'Smith family' }, [VALID_UUID, VALID_UUID_2])
+
+      expect(mockPrismaSubjectGroup.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            name: 'Smith family',
+            description: null,
+            ownerId: mockSession.userId,
+            subjects: { connect: [{ id: VALID_UUID }] },
+          },
+        }),
+      )
+      expect(mockRevalidatePath).toHaveBeenCalledWith('/subjects')
+    })
+
+    it('createSubjectGroup should reject duplicate names', async () => {
+      const { createSubjectGroup } = await import('@/actions/subjects')
+      const { ValidationError } = await import('@/lib/security/auth')
+      mockPrismaSubjectGroup.findFirst.mockResolvedValue({ id: GROUP_UUID })
+
+      await expect(createSubjectGroup({ name: 'Smith family' })).rejects.toThrow(ValidationError)
+      expect(mockPrismaSubjectGroup.create).not.toHaveBeenCalled()
+    })
+
+    it('updateSubjectGroup should rename an owned group', async () => {
+      const { updateSubjectGroup } = await import('@/actions/subjects')
+      mockPrismaSubjectGroup.findFirst.mockResolvedValueOnce({ id: GROUP_UUID }).mockResolvedValueOnce(null)
+      mockPrismaSubjectGroup.update.mockResolvedValue({ ...basePrismaGroup, name: 'Smiths' })
+
+      const result = await updateSubjectGroup(GROUP_UUID, { name: 'Smiths' })
+
+      expect(result.name).toBe('Smiths')
+      expect(mockPrismaSubjectGroup.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: GROUP_UUID }, data: { name: 'Smiths', description: undefined } }),
+      )
+    })
+
+    it('mergeSubjectGroups should move members to the target and delete source groups', async () => {
+      const { mergeSubjectGroups } = await import('@/actions/subjects')
+      mockPrismaSubjectGroup.count.mockResolvedValue(2)
+      mockPrismaSubject.findMany.mockResolvedValue([{ id: VALID_UUID_3 }])
+      mockPrismaSubjectGroup.deleteMany.mockResolvedValue({ count: 1 })
+      mockPrismaSubjectGroup.update.mockResolvedValue({ ...basePrismaGroup, _count: { subjects: 3 } })
+
+      const result = await mergeSubjectGroups([GROUP_UUID_2], GROUP_UUID)
+
+      expect(mockPrismaSubject.findMany).toHaveBeenCalledWith({
+        where: { groups: { some: { id: { in: [GROUP_UUID_2] } } } },
+        select: { id: true },
+      })
+      expect(mockPrismaSubjectGroup.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: [GROUP_UUID_2] }, ownerId: mockSession.userId },
+      })
+      expect(result.subjectCount).toBe(3)
+    })
+
+    it('deleteSubjectGroup should throw NotFoundError when nothing was deleted', async () => {
+      const { deleteSubjectGroup } = await import('@/actions/subjects')
+      const { NotFoundError } = await import('@/lib/security/auth')
+      mockPrismaSubjectGroup.deleteMany.mockResolvedValue({ count: 0 })
+
+      await expect(deleteSubjectGroup(GROUP_UUID)).rejects.toThrow(NotFoundError)
+    })
+
+    it('bulkAssignSubjectGroup should disconnect members in remove mode', async () => {
+      const { bulkAssignSubjectGroup } = await import('@/actions/subjects')
+      mockPrismaSubjectGroup.findFirst.mockResolvedValue({ id: GROUP_UUID })
+      mockPrismaSubject.findMany.mockResolvedValue([{ id: VALID_UUID }])
+      mockPrismaSubjectGroup.update.mockResolvedValue({ ...basePrismaGroup, _count: { subjects: 1 } })
+
+      const result = await bulkAssignSubjectGroup(GROUP_UUID, [VALID_UUID], 'remove')
+
+      expect(mockPrismaSubjectGroup.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { subjects: { disconnect: [{ id: VALID_UUID }] } } }),
+      )
+      expect(result.subjectCount).toBe(1)
+    })
+
+    it('should reject invalid group IDs before touching the database', async () => {
+      const { deleteSubjectGroup } = await import('@/actions/subjects')
+      const { ValidationError } = await import('@/lib/security/auth')
+
+      await expect(deleteSubjectGroup('not-a-uuid')).rejects.toThrow(ValidationError)
+      expect(mockWithAuth).not.toHaveBeenCalled()
+    })
+  })
+
+  // ==========================================================================
+  // WORKSPACE LIBRARY TESTS
+  // ==========================================================================
+
+  describe('workspace library', () => {
+    const WORKSPACE_ID = 'workspace-1'
+    const OWNER_ID = 'owner-456'
+
+    /** Make workspace-1, owned by owner-456, the active library of the user */
+    function setupActiveWorkspace(role: string, ownerPlan = 'pro') {
+      mockPrismaUser.findUnique.mockImplementation((args: { select: Record<string, unknown> }) =>
+        Promise.resolve(
+          args.select.activeWorkspace
+            ? { activeWorkspace: { id: WORKSPACE_ID, ownerId: OWNER_ID, members: [{ role }] } }
+            : { subscriptionPlan: ownerPlan, _count: { subjects: 3 } },
+        ),
+      )
+    }
+
+    it('should list the subjects of the active workspace', async () => {
+      const { getSubjects } = await import('@/actions/subjects')
+      setupActiveWorkspace('assistant')
+      mockPrismaSubject.findMany.mockResolvedValue([])
+
+      await getSubjects()
+
+      expect(mockPrismaSubject.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { ownerId: OWNER_ID, workspaceId: WORKSPACE_ID } }),
+      )
+    })
+
+    it('should create subjects owned by the workspace owner and check the owner plan', async () => {
+      const { createSubject } = await import('@/actions/subjects')
+      setupActiveWorkspace('astrologer', 'pro')
+      mockPrismaSubject.create.mockResolvedValue(basePrismaSubject)
+
+      await createSubject(validCreateInput)
+
+      expect(mockPrismaUser.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: OWNER_ID } }))
+      expect(mockCanCreateSubject).toHaveBeenCalledWith('pro', 3)
+      expect(mockPrismaSubject.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ ownerId: OWNER_ID, workspaceId: WORKSPACE_ID }),
+        }),
+      )
+    })
+
+    it("should keep other members' tags when a member edits a shared subject", async () => {
+      const { updateSubject } = await import('@/actions/subjects')
+      setupActiveWorkspace('astrologer')
+      // The acting user tagged the subject "clients" and "old", another member tagged it "vip"
+      const subjectTags = [
+        { id: 'tag-1', name: 'clients', ownerId: mockSession.userId },
+        { id: 'tag-2', name: 'old', ownerId: mockSession.userId },
+        { id: 'tag-3', name: 'vip', ownerId: 'member-789' },
+      ]
+      mockPrismaSubject.findFirst.mockImplementation((args: { select: { tags: { where: { ownerId: string } } } }) =>
+        Promise.resolve({
+          id: VALID_UUID,
+          tags: subjectTags
+            .filter((tag) => tag.ownerId === args.select.tags.where.ownerId)
+            .map(({ id, name }) => ({ id, name })),
+        }),
+      )
+      mockPrismaSubject.update.mockResolvedValue(basePrismaSubject)
+
+      await updateSubject({ ...validCreateInput, id: VALID_UUID, tags: ['clients', 'new'] })
+
+      const { data } = mockPrismaSubject.update.mock.calls[0]![0]
+      expect(data.tags).not.toHaveProperty('set')
+      expect(data.tags.disconnect).toEqual([{ id: 'tag-2' }])
+      expect(data.tags.connectOrCreate.map((tag: { create: { name: string } }) => tag.create.name)).toEqual([
+        'clients',
+        'new',
+      ])
+    })
+
+    it('should give assistants read-only access', async () => {
+      const { createSubject, updateSubject, deleteSubjects } = await import('@/actions/subjects')
+      const { ForbiddenError } = await import('@/lib/security/auth')
+      setupActiveWorkspace('assistant')
+
+      await expect(createSubject(validCreateInput)).rejects.toThrow(ForbiddenError)
+      await expect(updateSubject({ ...validCreateInput, id: VALID_UUID })).rejects.toThrow(ForbiddenError)
+      await expect(deleteSubjects([VALID_UUID])).rejects.toThrow(ForbiddenError)
+      expect(mockPrismaSubject.create).not.toHaveBeenCalled()
+      expect(mockPrismaSubject.update).not.toHaveBeenCalled()
+      expect(mockPrismaSubject.deleteMany).not.toHaveBeenCalled()
+    })
+
+    it('should fall back to the personal library when the user left the workspace', async () => {
+      const { getSubjects } = await import('@/actions/subjects')
+      mockPrismaUser.findUnique.mockResolvedValue({
+        activeWorkspace: { id: WORKSPACE_ID, ownerId: OWNER_ID, members: [] },
+      })
+      mockPrismaSubject.findMany.mockResolvedValue([])
+
+      await getSubjects()
+
+      expect(mockPrismaSubject.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { ownerId: mockSession.userId, workspaceId: null } }),
+      )
+    })
+  })
 })
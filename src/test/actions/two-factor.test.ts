@@ -0,0 +1,314 @@
+/**
+ * Unit Tests for Two-Factor Authentication Actions
+ *
+ * Tests the security settings: authenticator app setup, passkey registration
+ * and removal, recovery codes and turning two-factor off.
+ *
+ * @module src/actions/two-factor
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mockPrismaUser = {
+  findUnique: vi.fn(),
+  update: vi.fn(),
+}
+
+const mockPrismaWebAuthnCredential = {
+  findMany: vi.fn(),
+  findUnique: vi.fn(),
+  create: vi.fn(),
+  delete: vi.fn(),
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    user: mockPrismaUser,
+    webAuthnCredential: mockPrismaWebAuthnCredential,
+  },
+}))
+
+// Mock auth helper (withAuth)
+const mockSession = { userId: 'user-123', username: 'testuser', sessionId: 'session-1' }
+
+class MockNotFoundError extends Error {
+  constructor(message = 'Resource not found') {
+    super(message)
+    this.name = 'NotFoundError'
+  }
+}
+
+class MockValidationError extends Error {
+  public readonly errors: string[]
+  constructor(message = 'Validation failed', errors: string[] = []) {
+    super(message)
+    this.name = 'ValidationError'
+    this.errors = errors
+  }
+}
+
+vi.mock('@/lib/security/auth', () => ({
+  withAuth: (fn: (session: { userId: string; username: string; sessionId: string }) => Promise<unknown>) =>
+    fn(mockSession),
+  NotFoundError: MockNotFoundError,
+  ValidationError: MockValidationError,
+}))
+
+vi.mock('@/lib/logging/server', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+const mockCheckRateLimit = vi.fn()
+vi.mock('@/lib/security/rate-limit', () => ({
+  checkRateLimit: (...args: unknown[]) => mockCheckRateLimit(...args),
+  RATE_LIMITS: { auth: { limit: 5, windowMs: 60000 } },
+}))
+
+const mockConfirmTotpSecret = vi.fn()
+const mockEnableUserTwoFactor = vi.fn()
+const mockIssueRecoveryCodes = vi.fn()
+const mockResetTwoFactor = vi.fn()
+const mockVerifyTwoFactorCode = vi.fn()
+const mockTakePasskeyRegistrationChallenge = vi.fn()
+
+vi.mock('@/lib/security/two-factor', () => ({
+  TOTP_ISSUER: 'Astrologer Studio',
+  confirmTotpSecret: (...args: unknown[]) => mockConfirmTotpSecret(...args),
+  countRecoveryCodes: vi.fn().mockResolvedValue(8),
+  enableUserTwoFactor: (...args: unknown[]) => mockEnableUserTwoFactor(...args),
+  issuePasskeyRegistrationChallenge: vi.fn().mockResolvedValue('challenge'),
+  issueRecoveryCodes: (...args: unknown[]) => mockIssueRecoveryCodes(...args),
+  resetTwoFactor: (...args: unknown[]) => mockResetTwoFactor(...args),
+  takePasskeyRegistrationChallenge: (...args: unknown[]) => mockTakePasskeyRegistrationChallenge(...args),
+  verifyTwoFactorCode: (...args: unknown[]) => mockVerifyTwoFactorCode(...args),
+}))
+
+const mockVerifyPasskeyRegistration = vi.fn()
+vi.mock('@/lib/security/webauthn', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/security/webauthn')>('@/lib/security/webauthn')
+  return {
+    ...actual,
+    verifyPasskeyRegistration: (...args: unknown[]) => mockVerifyPasskeyRegistration(...args),
+  }
+})
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const passkeyInput = {
+  name: 'Laptop',
+  response: {
+    id: 'cred-1',
+    clientDataJSON: 'client',
+    authenticatorData: 'auth',
+    publicKey: 'key',
+    publicKeyAlgorithm: -7,
+    transports: ['internal'],
+  },
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('Two-Factor Actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockCheckRateLimit.mockResolvedValue({ success: true })
+  })
+
+  describe('getTwoFactorStatus', () => {
+    it('should summarise the second factors of the user', async () => {
+      const { getTwoFactorStatus } = await import('@/actions/two-factor')
+      const passkeys = [{ id: 'pk-1', name: 'Laptop', createdAt: new Date(), lastUsedAt: null }]
+      mockPrismaUser.findUnique.mockResolvedValue({
+        twoFactorEnabledAt: new Date(),
+        totpEnabledAt: null,
+        passkeys,
+      })
+
+      const result = await getTwoFactorStatus()
+
+      expect(result).toEqual({ enabled: true, totpEnabled: false, passkeys, recoveryCodesRemaining: 8 })
+    })
+  })
+
+  describe('startTotpSetup', () => {
+    it('should store an unconfirmed secret and return the URI', async () => {
+      const { startTotpSetup } = await import('@/actions/two-factor')
+      mockPrismaUser.findUnique.mockResolvedValue({ totpEnabledAt: null })
+
+      const result = await startTotpSetup()
+
+      expect(result.secret).toMatch(/^[A-Z2-7]{32}$/)
+      expect(result.uri).toContain(`secret=${result.secret}`)
+      expect(mockPrismaUser.update).toHaveBeenCalledWith({
+        where: { id: 'user-123' },
+        data: { totpSecret: result.secret },
+      })
+    })
+
+    it('should refuse when an authenticator app is already set up', async () => {
+      const { startTotpSetup } = await import('@/actions/two-factor')
+      mockPrismaUser.findUnique.mockResolvedValue({ totpEnabledAt: new Date() })
+
+      await expect(startTotpSetup()).rejects.toThrow('An authenticator app is already set up')
+      expect(mockPrismaUser.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('confirmTotpSetup', () => {
+    it('should enable two-factor and return recovery codes', async () => {
+      const { confirmTotpSetup } = await import('@/actions/two-factor')
+      mockPrismaUser.findUnique.mockResolvedValue({ totpSecret: 'SECRET', totpEnabledAt: null })
+      mockConfirmTotpSecret.mockResolvedValue(true)
+      mockEnableUserTwoFactor.mockResolvedValue(['aaaaa-bbbbb'])
+
+      const result = await confirmTotpSetup('123456')
+
+      expect(mockConfirmTotpSecret).toHaveBeenCalledWith({ kind: 'user', id: 'user-123' }, 'SECRET', '123456')
+      expect(result).toEqual({ recoveryCodes: ['aaaaa-bbbbb'] })
+    })
+
+    it('should reject a wrong code', async () => {
+      const { confirmTotpSetup } = await import('@/actions/two-factor')
+      mockPrismaUser.findUnique.mockResolvedValue({ totpSecret: 'SECRET', totpEnabledAt: null })
+      mockConfirmTotpSecret.mockResolvedValue(false)
+
+      await expect(confirmTotpSetup('000000')).rejects.toThrow('Invalid code')
+      expect(mockEnableUserTwoFactor).not.toHaveBeenCalled()
+    })
+
+    it('should stop when rate limited', async () => {
+      const { confirmTotpSetup } = await import('@/actions/two-factor')
+      mockPrismaUser.findUnique.mockResolvedValue({ totpSecret: 'SECRET', totpEnabledAt: null })
+      mockCheckRateLimit.mockResolvedValue({ success: false })
+
+      await expect(confirmTotpSetup('123456')).rejects.toThrow('Too many attempts')
+      expect(mockConfirmTotpSecret).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('registerPasskey', () => {
+    it('should store a verified passkey', async () => {
+      const { registerPasskey } = await import('@/actions/two-factor')
+      mockTakePasskeyRegistrationChallenge.mockResolvedValue('challenge')
+      mockVerifyPasskeyRegistration.mockReturnValue({
+        credentialId: 'cred-1',
+        publicKey: Buffer.from('key'),
+        algorithm: -7,
+        signCount: 0,
+      })
+      mockPrismaWebAuthnCredential.findUnique.mockResolvedValue(null)
+      mockEnableUserTwoFactor.mockResolvedValue(null)
+
+      const result = await registerPasskey(passkeyInput)
+
+      expect(mockPrismaWebAuthnCredential.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: 'user-123', credentialId: 'cred-1', name: 'Laptop' }),
+      })
+      expect(result).toEqual({ recoveryCodes: null })
+    })
+
+    it('should reject an expired challenge', async () => {
+      const { registerPasskey } = await import('@/actions/two-factor')
+      mockTakePasskeyRegistrationChallenge.mockResolvedValue(null)
+
+      await expect(registerPasskey(passkeyInput)).rejects.toThrow('The passkey request expired')
+    })
+
+    it('should reject a response that does not verify', async () => {
+      const { registerPasskey } = await import('@/actions/two-factor')
+      const { WebAuthnError } = await import('@/lib/security/webauthn')
+      mockTakePasskeyRegistrationChallenge.mockResolvedValue('challenge')
+      mockVerifyPasskeyRegistration.mockImplementation(() => {
+        throw new WebAuthnError('Origin does not match')
+      })
+
+      await expect(registerPasskey(passkeyInput)).rejects.toThrow('The passkey could not be verified')
+      expect(mockPrismaWebAuthnCredential.create).not.toHaveBeenCalled()
+    })
+
+    it('should validate the name', async () => {
+      const { registerPasskey } = await import('@/actions/two-factor')
+      await expect(registerPasskey({ ...passkeyInput, name: ' ' })).rejects.toThrow('Invalid passkey')
+    })
+  })
+
+  describe('deletePasskey', () => {
+    it('should remove a passkey when another factor remains', async () => {
+      const { deletePasskey } = await import('@/actions/two-factor')
+      mockPrismaUser.findUnique.mockResolvedValue({ totpEnabledAt: new Date(), passkeys: [{ id: 'pk-1' }] })
+
+      await deletePasskey('pk-1')
+
+      expect(mockPrismaWebAuthnCredential.delete).toHaveBeenCalledWith({ where: { id: 'pk-1' } })
+    })
+
+    it('should refuse to remove the last second factor', async () => {
+      const { deletePasskey } = await import('@/actions/two-factor')
+      mockPrismaUser.findUnique.mockResolvedValue({ totpEnabledAt: null, passkeys: [{ id: 'pk-1' }] })
+
+      await expect(deletePasskey('pk-1')).rejects.toThrow('This is your last second factor')
+    })
+
+    it('should not remove passkeys of other users', async () => {
+      const { deletePasskey } = await import('@/actions/two-factor')
+      mockPrismaUser.findUnique.mockResolvedValue({ totpEnabledAt: new Date(), passkeys: [{ id: 'pk-1' }] })
+
+      await expect(deletePasskey('pk-other')).rejects.toThrow('Passkey not found')
+    })
+  })
+
+  describe('regenerateRecoveryCodes', () => {
+    it('should issue new codes after a valid code', async () => {
+      const { regenerateRecoveryCodes } = await import('@/actions/two-factor')
+      mockPrismaUser.findUnique.mockResolvedValue({ twoFactorEnabledAt: new Date() })
+      mockVerifyTwoFactorCode.mockResolvedValue('totp')
+      mockIssueRecoveryCodes.mockResolvedValue(['ccccc-ddddd'])
+
+      await expect(regenerateRecoveryCodes('123456')).resolves.toEqual(['ccccc-ddddd'])
+    })
+
+    it('should reject an invalid code', async () => {
+      const { regenerateRecoveryCodes } = await import('@/actions/two-factor')
+      mockPrismaUser.findUnique.mockResolvedValue({ twoFactorEnabledAt: new Date() })
+      mockVerifyTwoFactorCode.mockResolvedValue(null)
+
+      await expect(regenerateRecoveryCodes('000000')).rejects.toThrow('Invalid code')
+      expect(mockIssueRecoveryCodes).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('disableTwoFactor', () => {
+    it('should reset two-factor and keep this browser signed in', async () => {
+      const { disableTwoFactor } = await import('@/actions/two-factor')
+      mockPrismaUser.findUnique.mockResolvedValue({ twoFactorEnabledAt: new Date() })
+      mockVerifyTwoFactorCode.mockResolvedValue('recovery')
+
+      await disableTwoFactor('aaaaa-bbbbb')
+
+      expect(mockResetTwoFactor).toHaveBeenCalledWith(
+        { kind: 'user', id: 'user-123' },
+        { exceptSessionId: 'session-1' },
+      )
+    })
+
+    it('should refuse when two-factor is off', async () => {
+      const { disableTwoFactor } = await import('@/actions/two-factor')
+      mockPrismaUser.findUnique.mockResolvedValue({ twoFactorEnabledAt: null })
+
+      await expect(disableTwoFactor('123456')).rejects.toThrow('Two-factor authentication is not turned on')
+      expect(mockResetTwoFactor).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,298 @@
+/**
+ * Unit Tests for Webhook Actions
+ *
+ * Tests creating, pausing, deleting and redelivering the outbound webhooks of
+ * a user.
+ *
+ * @module src/actions/webhooks
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mockPrismaWebhookEndpoint = {
+  findMany: vi.fn(),
+  findFirst: vi.fn(),
+  findUniqueOrThrow: vi.fn(),
+  count: vi.fn(),
+  create: vi.fn(),
+  updateMany: vi.fn(),
+  deleteMany: vi.fn(),
+}
+
+const mockPrismaWebhookDelivery = {
+  findMany: vi.fn(),
+  findFirst: vi.fn(),
+  findUniqueOrThrow: vi.fn(),
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    webhookEndpoint: mockPrismaWebhookEndpoint,
+    webhookDelivery: mockPrismaWebhookDelivery,
+  },
+}))
+
+const mockRetryWebhookDelivery = vi.fn()
+
+vi.mock('@/lib/webhooks/server', () => ({
+  generateWebhookSecret: () => 'whsec_dGVzdA==',
+  retryWebhookDelivery: (...args: unknown[]) => mockRetryWebhookDelivery(...args),
+}))
+
+const mockLookup = vi.fn()
+vi.mock('dns/promises', () => {
+  const lookup = (...args: unknown[]) => mockLookup(...args)
+  return { default: { lookup }, lookup }
+})
+
+// Mock auth helper (withAuth)
+const mockSession = { userId: 'user-123', username: 'testuser' }
+
+class MockNotFoundError extends Error {
+  constructor(message = 'Resource not found') {
+    super(message)
+    this.name = 'NotFoundError'
+  }
+}
+
+class MockForbiddenError extends Error {
+  constructor(message = 'Access denied') {
+    super(message)
+    this.name = 'ForbiddenError'
+  }
+}
+
+class MockValidationError extends Error {
+  public readonly errors: string[]
+  constructor(message = 'Validation failed', errors: string[] = []) {
+    super(message)
+    this.name = 'ValidationError'
+    this.errors = errors
+  }
+}
+
+vi.mock('@/lib/security/auth', () => ({
+  withAuth: (fn: (session: { userId: string; username: string }) => Promise<unknown>) => fn(mockSession),
+  NotFoundError: MockNotFoundError,
+  ForbiddenError: MockForbiddenError,
+  ValidationError: MockValidationError,
+}))
+
+vi.mock('@/lib/logging/server', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+function createEndpointRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'endpoint-1',
+    userId: 'user-123',
+    url: 'https://example.com/hooks',
+    description: null,
+    secret: 'whsec_dGVzdA==',
+    events: JSON.stringify(['subject.created']),
+    enabled: true,
+    createdAt: new Date('2026-03-10T09:00:00Z'),
+    updatedAt: new Date('2026-03-10T09:00:00Z'),
+    ...overrides,
+  }
+}
+
+function createDeliveryRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'delivery-1',
+    endpointId: 'endpoint-1',
+    eventType: 'subject.created',
+    payload: '{}',
+    status: 'failed',
+    attempts: 6,
+    nextAttemptAt: null,
+    lastAttemptAt: new Date('2026-03-10T10:00:00Z'),
+    responseStatus: 500,
+    error: 'Endpoint responded with HTTP 500',
+    createdAt: new Date('2026-03-10T09:00:00Z'),
+    ...overrides,
+  }
+}
+
+const endpointInput = {
+  url: 'https://example.com/hooks',
+  events: ['subject.created' as const],
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('Webhook Actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrismaWebhookEndpoint.count.mockResolvedValue(0)
+    mockLookup.mockResolvedValue([{ address: '93.184.215.14', family: 4 }])
+    mockPrismaWebhookEndpoint.create.mockImplementation(({ data }) => Promise.resolve(createEndpointRecord(data)))
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  describe('getWebhookEndpoints', () => {
+    it('should return endpoints without their secret', async () => {
+      const { getWebhookEndpoints } = await import('@/actions/webhooks')
+
+      mockPrismaWebhookEndpoint.findMany.mockResolvedValue([createEndpointRecord()])
+
+      const endpoints = await getWebhookEndpoints()
+
+      expect(endpoints).toEqual([expect.objectContaining({ id: 'endpoint-1', events: ['subject.created'] })])
+      expect(endpoints[0]).not.toHaveProperty('secret')
+    })
+  })
+
+  describe('createWebhookEndpoint', () => {
+    it('should create the endpoint and return its secret once', async () => {
+      const { createWebhookEndpoint } = await import('@/actions/webhooks')
+
+      const { secret, endpoint } = await createWebhookEndpoint({ ...endpointInput, description: 'CRM' })
+
+      expect(secret).toBe('whsec_dGVzdA==')
+      expect(endpoint).not.toHaveProperty('secret')
+      expect(mockPrismaWebhookEndpoint.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-123',
+          url: 'https://example.com/hooks',
+          description: 'CRM',
+          secret: 'whsec_dGVzdA==',
+          events: JSON.stringify(['subject.created']),
+        },
+      })
+    })
+
+    it('should reject plain HTTP URLs except for local development', async () => {
+      const { createWebhookEndpoint } = await import('@/actions/webhooks')
+
+      await expect(createWebhookEndpoint({ ...endpointInput, url: 'http://example.com/hooks' })).rejects.toThrow(
+        'Invalid webhook endpoint',
+      )
+      await expect(
+        createWebhookEndpoint({ ...endpointInput, url: 'http://localhost:4000/hooks' }),
+      ).resolves.toBeDefined()
+    })
+
+    it('should only accept plain HTTP to localhost outside production', async () => {
+      const { createWebhookEndpoint } = await import('@/actions/webhooks')
+      vi.stubEnv('NODE_ENV', 'production')
+
+      await expect(createWebhookEndpoint({ ...endpointInput, url: 'http://localhost:4000/hooks' })).rejects.toThrow(
+        'Invalid webhook endpoint',
+      )
+    })
+
+    it('should reject URLs that resolve to a private address', async () => {
+      const { createWebhookEndpoint } = await import('@/actions/webhooks')
+      mockLookup.mockResolvedValue([{ address: '10.0.0.5', family: 4 }])
+
+      const error = await createWebhookEndpoint({ ...endpointInput, url: 'https://intranet.example.com/hooks' }).catch(
+        (e: unknown) => e,
+      )
+
+      expect(error).toBeInstanceOf(MockValidationError)
+      expect((error as MockValidationError).errors).toEqual(['The URL must point to a public address'])
+      expect(mockPrismaWebhookEndpoint.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject endpoints without events', async () => {
+      const { createWebhookEndpoint } = await import('@/actions/webhooks')
+
+      await expect(createWebhookEndpoint({ ...endpointInput, events: [] })).rejects.toThrow(MockValidationError)
+      expect(mockPrismaWebhookEndpoint.create).not.toHaveBeenCalled()
+    })
+
+    it('should refuse endpoints over the limit', async () => {
+      const { createWebhookEndpoint } = await import('@/actions/webhooks')
+      const { MAX_WEBHOOK_ENDPOINTS } = await import('@/lib/webhooks/events')
+
+      mockPrismaWebhookEndpoint.count.mockResolvedValue(MAX_WEBHOOK_ENDPOINTS)
+
+      await expect(createWebhookEndpoint(endpointInput)).rejects.toThrow(MockForbiddenError)
+    })
+  })
+
+  describe('setWebhookEndpointEnabled', () => {
+    it('should pause an endpoint of the user', async () => {
+      const { setWebhookEndpointEnabled } = await import('@/actions/webhooks')
+
+      mockPrismaWebhookEndpoint.updateMany.mockResolvedValue({ count: 1 })
+      mockPrismaWebhookEndpoint.findUniqueOrThrow.mockResolvedValue(createEndpointRecord({ enabled: false }))
+
+      const endpoint = await setWebhookEndpointEnabled('endpoint-1', false)
+
+      expect(endpoint.enabled).toBe(false)
+      expect(mockPrismaWebhookEndpoint.updateMany).toHaveBeenCalledWith({
+        where: { id: 'endpoint-1', userId: 'user-123' },
+        data: { enabled: false },
+      })
+    })
+  })
+
+  describe('deleteWebhookEndpoint', () => {
+    it('should throw NotFoundError for endpoints of other users', async () => {
+      const { deleteWebhookEndpoint } = await import('@/actions/webhooks')
+
+      mockPrismaWebhookEndpoint.deleteMany.mockResolvedValue({ count: 0 })
+
+      await expect(deleteWebhookEndpoint('endpoint-9')).rejects.toThrow(MockNotFoundError)
+    })
+  })
+
+  describe('getWebhookDeliveries', () => {
+    it('should throw NotFoundError for endpoints of other users', async () => {
+      const { getWebhookDeliveries } = await import('@/actions/webhooks')
+
+      mockPrismaWebhookEndpoint.findFirst.mockResolvedValue(null)
+
+      await expect(getWebhookDeliveries('endpoint-9')).rejects.toThrow(MockNotFoundError)
+      expect(mockPrismaWebhookDelivery.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('redeliverWebhook', () => {
+    it('should retry a delivery of the user', async () => {
+      const { redeliverWebhook } = await import('@/actions/webhooks')
+
+      const delivery = { ...createDeliveryRecord(), endpoint: createEndpointRecord() }
+      mockPrismaWebhookDelivery.findFirst.mockResolvedValue(delivery)
+      mockPrismaWebhookDelivery.findUniqueOrThrow.mockResolvedValue(
+        createDeliveryRecord({ status: 'succeeded', attempts: 7, responseStatus: 200, error: null }),
+      )
+
+      const result = await redeliverWebhook('delivery-1')
+
+      expect(mockRetryWebhookDelivery).toHaveBeenCalledWith(delivery)
+      expect(result).toMatchObject({ id: 'delivery-1', status: 'succeeded', attempts: 7 })
+      expect(mockPrismaWebhookDelivery.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'delivery-1', endpoint: { userId: 'user-123' } } }),
+      )
+    })
+
+    it('should throw NotFoundError for deliveries of other users', async () => {
+      const { redeliverWebhook } = await import('@/actions/webhooks')
+
+      mockPrismaWebhookDelivery.findFirst.mockResolvedValue(null)
+
+      await expect(redeliverWebhook('delivery-9')).rejects.toThrow(MockNotFoundError)
+      expect(mockRetryWebhookDelivery).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,415 @@
+/**
+ * Unit Tests for Team Workspace Actions
+ *
+ * Tests creating and switching workspaces, invitations by email and the
+ * member management reserved to the owner.
+ *
+ * @module src/actions/workspaces
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createHash } from 'crypto'
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mockPrismaWorkspace = {
+  create: vi.fn(),
+  delete: vi.fn(),
+}
+
+const mockPrismaWorkspaceMember = {
+  findUnique: vi.fn(),
+  findFirst: vi.fn(),
+  findMany: vi.fn(),
+  upsert: vi.fn(),
+  updateMany: vi.fn(),
+  deleteMany: vi.fn(),
+  delete: vi.fn(),
+}
+
+const mockPrismaWorkspaceInvitation = {
+  findUnique: vi.fn(),
+  findMany: vi.fn(),
+  create: vi.fn(),
+  update: vi.fn(),
+  delete: vi.fn(),
+  deleteMany: vi.fn(),
+}
+
+const mockPrismaUser = {
+  findUnique: vi.fn(),
+  update: vi.fn(),
+  updateMany: vi.fn(),
+}
+
+const mockPrismaSubject = { updateMany: vi.fn() }
+const mockPrismaSavedChart = { updateMany: vi.fn() }
+
+const mockPrisma = {
+  workspace: mockPrismaWorkspace,
+  workspaceMember: mockPrismaWorkspaceMember,
+  workspaceInvitation: mockPrismaWorkspaceInvitation,
+  user: mockPrismaUser,
+  subject: mockPrismaSubject,
+  savedChart: mockPrismaSavedChart,
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    ...mockPrisma,
+    // Interactive transactions run against the same mocks; batch transactions resolve their operations
+    $transaction: (arg: unknown) =>
+      typeof arg === 'function' ? arg(mockPrisma) : Promise.all(arg as Promise<unknown>[]),
+  },
+}))
+
+// Mock auth helper (withAuth)
+const mockSession = { userId: 'user-123', username: 'testuser' }
+
+class MockNotFoundError extends Error {
+  constructor(message = 'Resource not found') {
+    super(message)
+    this.name = 'NotFoundError'
+  }
+}
+
+class MockForbiddenError extends Error {
+  constructor(message = 'Access denied') {
+    super(message)
+    this.name = 'ForbiddenError'
+  }
+}
+
+class MockValidationError extends Error {
+  public readonly errors: string[]
+  constructor(message = 'Validation failed', errors: string[] = []) {
+    super(message)
+    this.name = 'ValidationError'
+    this.errors = errors
+  }
+}
+
+vi.mock('@/lib/security/auth', () => ({
+  withAuth: (fn: (session: { userId: string; username: string }) => Promise<unknown>) => fn(mockSession),
+  NotFoundError: MockNotFoundError,
+  ForbiddenError: MockForbiddenError,
+  ValidationError: MockValidationError,
+}))
+
+const mockIsEmailConfigured = vi.fn()
+const mockSendWorkspaceInvitationEmail = vi.fn()
+
+vi.mock('@/lib/mail/mail', () => ({
+  isEmailConfigured: () => mockIsEmailConfigured(),
+  sendWorkspaceInvitationEmail: (...args: unknown[]) => mockSendWorkspaceInvitationEmail(...args),
+}))
+
+vi.mock('next/cache', () => ({
+  revalidatePath: vi.fn(),
+}))
+
+vi.mock('@/lib/logging/server', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const workspace = {
+  id: 'workspace-1',
+  name: 'Studio',
+  ownerId: 'user-123',
+  createdAt: new Date('2026-04-01T09:00:00Z'),
+  updatedAt: new Date('2026-04-01T09:00:00Z'),
+}
+
+/** Make the current user a member of workspace-1 with the given role */
+function setupMembership(role: string) {
+  mockPrismaWorkspaceMember.findUnique.mockResolvedValue({ role, workspace })
+}
+
+function createInvitationRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'invitation-1',
+    workspaceId: 'workspace-1',
+    email: 'astro@example.com',
+    role: 'astrologer',
+    tokenHash: 'hash',
+    invitedById: 'owner-456',
+    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    acceptedAt: null,
+    createdAt: new Date('2026-04-01T09:00:00Z'),
+    ...overrides,
+  }
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('Workspace Actions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockIsEmailConfigured.mockReturnValue(true)
+    mockSendWorkspaceInvitationEmail.mockResolvedValue(true)
+    mockPrismaWorkspaceMember.findFirst.mockResolvedValue(null)
+    mockPrismaWorkspaceInvitation.create.mockImplementation(({ data }) =>
+      Promise.resolve(createInvitationRecord({ ...data })),
+    )
+  })
+
+  describe('createWorkspace', () => {
+    it('should add the owner as a member and switch to the workspace', async () => {
+      const { createWorkspace } = await import('@/actions/workspaces')
+      mockPrismaWorkspace.create.mockResolvedValue(workspace)
+
+      const result = await createWorkspace({ name: ' Studio ', moveLibrary: false })
+
+      expect(result).toEqual({ id: 'workspace-1', name: 'Studio', role: 'owner', memberCount: 1, isActive: true })
+      expect(mockPrismaWorkspace.create).toHaveBeenCalledWith({
+        data: { name: 'Studio', ownerId: 'user-123', members: { create: { userId: 'user-123', role: 'owner' } } },
+      })
+      expect(mockPrismaUser.update).toHaveBeenCalledWith({
+        where: { id: 'user-123' },
+        data: { activeWorkspaceId: 'workspace-1' },
+      })
+      expect(mockPrismaSubject.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should move the personal library into the workspace on request', async () => {
+      const { createWorkspace } = await import('@/actions/workspaces')
+      mockPrismaWorkspace.create.mockResolvedValue(workspace)
+
+      await createWorkspace({ name: 'Studio', moveLibrary: true })
+
+      expect(mockPrismaSubject.updateMany).toHaveBeenCalledWith({
+        where: { ownerId: 'user-123', workspaceId: null },
+        data: { workspaceId: 'workspace-1' },
+      })
+      expect(mockPrismaSavedChart.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-123', workspaceId: null },
+        data: { workspaceId: 'workspace-1' },
+      })
+    })
+
+    it('should reject empty names', async () => {
+      const { createWorkspace } = await import('@/actions/workspaces')
+
+      await expect(createWorkspace({ name: '  ', moveLibrary: false })).rejects.toThrow(MockValidationError)
+      expect(mockPrismaWorkspace.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('switchWorkspace', () => {
+    it('should switch to a workspace the user is a member of', async () => {
+      const { switchWorkspace } = await import('@/actions/workspaces')
+      setupMembership('assistant')
+
+      await switchWorkspace('workspace-1')
+
+      expect(mockPrismaUser.update).toHaveBeenCalledWith({
+        where: { id: 'user-123' },
+        data: { activeWorkspaceId: 'workspace-1' },
+      })
+    })
+
+    it('should refuse workspaces of other users', async () => {
+      const { switchWorkspace } = await import('@/actions/workspaces')
+      mockPrismaWorkspaceMember.findUnique.mockResolvedValue(null)
+
+      await expect(switchWorkspace('workspace-9')).rejects.toThrow(MockNotFoundError)
+      expect(mockPrismaUser.update).not.toHaveBeenCalled()
+    })
+
+    it('should switch back to the personal library', async () => {
+      const { switchWorkspace } = await import('@/actions/workspaces')
+
+      await switchWorkspace(null)
+
+      expect(mockPrismaUser.update).toHaveBeenCalledWith({
+        where: { id: 'user-123' },
+        data: { activeWorkspaceId: null },
+      })
+    })
+  })
+
+  describe('inviteWorkspaceMember', () => {
+    it('should store only the hash of the token and email the link', async () => {
+      const { inviteWorkspaceMember } = await import('@/actions/workspaces')
+      setupMembership('owner')
+
+      const invitation = await inviteWorkspaceMember('workspace-1', { email: 'Astro@Example.com', role: 'assistant' })
+
+      expect(invitation).toEqual(expect.objectContaining({ email: 'astro@example.com', role: 'assistant' }))
+      const token = mockSendWorkspaceInvitationEmail.mock.calls[0]![1] as string
+      const { data } = mockPrismaWorkspaceInvitation.create.mock.calls[0]![0]
+      expect(data.tokenHash).toBe(createHash('sha256').update(token).digest('hex'))
+      expect(mockSendWorkspaceInvitationEmail).toHaveBeenCalledWith(
+        'astro@example.com',
+        token,
+        'Studio',
+        'testuser',
+        'Assistant',
+        7,
+      )
+    })
+
+    it('should only let the owner invite', async () => {
+      const { inviteWorkspaceMember } = await import('@/actions/workspaces')
+      setupMembership('astrologer')
+
+      await expect(
+        inviteWorkspaceMember('workspace-1', { email: 'astro@example.com', role: 'assistant' }),
+      ).rejects.toThrow(MockForbiddenError)
+      expect(mockPrismaWorkspaceInvitation.create).not.toHaveBeenCalled()
+    })
+
+    it('should not invite members again', async () => {
+      const { inviteWorkspaceMember } = await import('@/actions/workspaces')
+      setupMembership('owner')
+      mockPrismaWorkspaceMember.findFirst.mockResolvedValue({ id: 'member-2' })
+
+      await expect(
+        inviteWorkspaceMember('workspace-1', { email: 'astro@example.com', role: 'astrologer' }),
+      ).rejects.toThrow(MockValidationError)
+    })
+
+    it('should require email to be configured', async () => {
+      const { inviteWorkspaceMember } = await import('@/actions/workspaces')
+      setupMembership('owner')
+      mockIsEmailConfigured.mockReturnValue(false)
+
+      await expect(
+        inviteWorkspaceMember('workspace-1', { email: 'astro@example.com', role: 'astrologer' }),
+      ).rejects.toThrow('Email service is not configured')
+    })
+
+    it('should delete the invitation when the email cannot be sent', async () => {
+      const { inviteWorkspaceMember } = await import('@/actions/workspaces')
+      setupMembership('owner')
+      mockSendWorkspaceInvitationEmail.mockResolvedValue(false)
+
+      await expect(
+        inviteWorkspaceMember('workspace-1', { email: 'astro@example.com', role: 'astrologer' }),
+      ).rejects.toThrow('Failed to send the invitation email')
+      expect(mockPrismaWorkspaceInvitation.delete).toHaveBeenCalledWith({ where: { id: 'invitation-1' } })
+    })
+
+    it('should not offer the owner role', async () => {
+      const { inviteWorkspaceMember } = await import('@/actions/workspaces')
+
+      await expect(
+        inviteWorkspaceMember('workspace-1', { email: 'astro@example.com', role: 'owner' as 'astrologer' }),
+      ).rejects.toThrow('Invalid invitation')
+    })
+  })
+
+  describe('acceptWorkspaceInvitation', () => {
+    it('should add the member, mark the invitation accepted and switch to the workspace', async () => {
+      const { acceptWorkspaceInvitation } = await import('@/actions/workspaces')
+      mockPrismaWorkspaceInvitation.findUnique.mockResolvedValue(createInvitationRecord())
+      mockPrismaUser.findUnique.mockResolvedValue({ email: 'Astro@example.com' })
+
+      const result = await acceptWorkspaceInvitation('token')
+
+      expect(result).toEqual({ workspaceId: 'workspace-1' })
+      expect(mockPrismaWorkspaceInvitation.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: createHash('sha256').update('token').digest('hex') },
+      })
+      expect(mockPrismaWorkspaceMember.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ create: { workspaceId: 'workspace-1', userId: 'user-123', role: 'astrologer' } }),
+      )
+      expect(mockPrismaWorkspaceInvitation.update).toHaveBeenCalledWith({
+        where: { id: 'invitation-1' },
+        data: { acceptedAt: expect.any(Date) },
+      })
+      expect(mockPrismaUser.update).toHaveBeenCalledWith({
+        where: { id: 'user-123' },
+        data: { activeWorkspaceId: 'workspace-1' },
+      })
+    })
+
+    it('should refuse invitations sent to another email', async () => {
+      const { acceptWorkspaceInvitation } = await import('@/actions/workspaces')
+      mockPrismaWorkspaceInvitation.findUnique.mockResolvedValue(createInvitationRecord())
+      mockPrismaUser.findUnique.mockResolvedValue({ email: 'someone@example.com' })
+
+      await expect(acceptWorkspaceInvitation('token')).rejects.toThrow(MockForbiddenError)
+      expect(mockPrismaWorkspaceMember.upsert).not.toHaveBeenCalled()
+    })
+
+    it('should refuse expired and accepted invitations', async () => {
+      const { acceptWorkspaceInvitation } = await import('@/actions/workspaces')
+      mockPrismaUser.findUnique.mockResolvedValue({ email: 'astro@example.com' })
+
+      mockPrismaWorkspaceInvitation.findUnique.mockResolvedValue(createInvitationRecord({ expiresAt: new Date(0) }))
+      await expect(acceptWorkspaceInvitation('token')).rejects.toThrow(MockNotFoundError)
+
+      mockPrismaWorkspaceInvitation.findUnique.mockResolvedValue(createInvitationRecord({ acceptedAt: new Date() }))
+      await expect(acceptWorkspaceInvitation('token')).rejects.toThrow(MockNotFoundError)
+      expect(mockPrismaWorkspaceMember.upsert).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('member management', () => {
+    it('should change the role of members but never of the owner', async () => {
+      const { updateWorkspaceMemberRole } = await import('@/actions/workspaces')
+      setupMembership('owner')
+      mockPrismaWorkspaceMember.updateMany.mockResolvedValue({ count: 1 })
+
+      await updateWorkspaceMemberRole('workspace-1', 'user-456', 'assistant')
+
+      expect(mockPrismaWorkspaceMember.updateMany).toHaveBeenCalledWith({
+        where: { workspaceId: 'workspace-1', userId: 'user-456', role: { not: 'owner' } },
+        data: { role: 'assistant' },
+      })
+    })
+
+    it('should clear the active workspace of removed members', async () => {
+      const { removeWorkspaceMember } = await import('@/actions/workspaces')
+      setupMembership('owner')
+      mockPrismaWorkspaceMember.deleteMany.mockResolvedValue({ count: 1 })
+
+      await removeWorkspaceMember('workspace-1', 'user-456')
+
+      expect(mockPrismaUser.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user-456', activeWorkspaceId: 'workspace-1' },
+        data: { activeWorkspaceId: null },
+      })
+    })
+
+    it('should not let the owner leave the workspace', async () => {
+      const { leaveWorkspace } = await import('@/actions/workspaces')
+      setupMembership('owner')
+
+      await expect(leaveWorkspace('workspace-1')).rejects.toThrow(MockForbiddenError)
+      expect(mockPrismaWorkspaceMember.delete).not.toHaveBeenCalled()
+    })
+
+    it('should hide pending invitations from members other than the owner', async () => {
+      const { getWorkspaceMembers } = await import('@/actions/workspaces')
+      setupMembership('assistant')
+      mockPrismaWorkspaceMember.findMany.mockResolvedValue([
+        {
+          userId: 'user-123',
+          role: 'assistant',
+          createdAt: new Date('2026-04-02T09:00:00Z'),
+          user: { username: 'testuser', email: null },
+        },
+      ])
+
+      const result = await getWorkspaceMembers('workspace-1')
+
+      expect(result.members).toEqual([expect.objectContaining({ userId: 'user-123', role: 'assistant' })])
+      expect(result.invitations).toEqual([])
+      expect(mockPrismaWorkspaceInvitation.findMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * Unit Tests for the Calendar Feed API Route
+ *
+ * Tests the GET handler for /api/calendar/<token>.ics
+ *
+ * @module src/app/api/calendar/[token]/route
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { createHash } from 'crypto'
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+// Mock logger - inline to avoid hoisting issues
+vi.mock('@/lib/logging/server', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+// Mock prisma
+const mockFindUnique = vi.fn()
+const mockUpdate = vi.fn()
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    calendarFeed: {
+      findUnique: (...args: unknown[]) => mockFindUnique(...args),
+      update: (...args: unknown[]) => mockUpdate(...args),
+    },
+  },
+}))
+
+vi.mock('@/lib/config/app', () => ({
+  APP_URL: 'https://example.com',
+}))
+
+const mockCheckRateLimit = vi.fn()
+
+vi.mock('@/lib/security/rate-limit', () => ({
+  checkRateLimit: (...args: unknown[]) => mockCheckRateLimit(...args),
+  getClientIp: () => '203.0.113.7',
+  rateLimitExceededResponse: () => new Response(null, { status: 429 }),
+  RATE_LIMITS: {
+    ip: { limit: 100, windowSeconds: 60, prefix: 'ip' },
+  },
+}))
+
+// Mock cache control
+vi.mock('@/lib/security/cache-control', () => ({
+  CACHE_CONTROL: {
+    calendarFeed: 'calendar-feed',
+  },
+  cacheControlHeaders: (policy: string) => ({
+    'Cache-Control': policy,
+  }),
+}))
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+// Import after mocking
+import { GET } from '@/app/api/calendar/[token]/route'
+import { logger } from '@/lib/logging/server'
+
+const TOKEN = 'b'.repeat(64)
+
+function requestFeed(token: string) {
+  const request = new NextRequest(`http://localhost:3000/api/calendar/${token}`)
+  return GET(request, { params: Promise.resolve({ token }) })
+}
+
+function createFeedRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'feed-1',
+    timezone: 'Europe/Rome',
+    categories: JSON.stringify(['lunations', 'eclipses']),
+    subject: null,
+    user: { chartPreferences: null },
+    ...overrides,
+  }
+}
+
+describe('Calendar Feed API Route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockCheckRateLimit.mockReturnValue({ success: true })
+    mockUpdate.mockResolvedValue({})
+  })
+
+  it('should return 404 for malformed tokens without querying the database', async () => {
+    const response = await requestFeed('not-a-token.ics')
+
+    expect(response.status).toBe(404)
+    expect(mockFindUnique).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 for unknown tokens', async () => {
+    mockFindUnique.mockResolvedValue(null)
+
+    const response = await requestFeed(`${TOKEN}.ics`)
+
+    expect(response.status).toBe(404)
+    expect(mockFindUnique.mock.calls[0]![0].where).toEqual({
+      tokenHash: createHash('sha256').update(TOKEN).digest('hex'),
+    })
+  })
+
+  it('should serve the calendar and record the fetch', async () => {
+    mockFindUnique.mockResolvedValue(createFeedRecord())
+
+    const response = await requestFeed(`${TOKEN}.ics`)
+    const body = await response.text()
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('text/calendar; charset=utf-8')
+    expect(response.headers.get('Cache-Control')).toBe('calendar-feed')
+    expect(body.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true)
+    expect(body).toContain('X-WR-TIMEZONE:Europe/Rome')
+    expect(body).toContain('CATEGORIES:Lunation')
+    expect(body).toContain('@example.com')
+    expect(mockUpdate).toHaveBeenCalledWith({
+      where: { id: 'feed-1' },
+      data: { lastFetchedAt: expect.any(Date) },
+    })
+  })
+
+  it('should return 429 when rate limited', async () => {
+    mockCheckRateLimit.mockReturnValue({ success: false })
+
+    const response = await requestFeed(`${TOKEN}.ics`)
+
+    expect(response.status).toBe(429)
+  })
+
+  it('should return 500 and log when the feed cannot be built', async () => {
+    mockFindUnique.mockRejectedValue(new Error('Database down'))
+
+    const response = await requestFeed(`${TOKEN}.ics`)
+
+    expect(response.status).toBe(500)
+    expect(logger.error).toHaveBeenCalled()
+  })
+})
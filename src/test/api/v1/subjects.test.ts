@@ -0,0 +1,526 @@
+/**
+ * Unit Tests for the Public API Subject Routes
+ *
+ * Tests token authentication, the GET/POST handlers of /api/v1/subjects
+ * and the GET/PUT/DELETE handlers of /api/v1/subjects/<id>, in the personal
+ * library and in a team workspace.
+ *
+ * @module src/app/api/v1/subjects/route
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { createHash } from 'crypto'
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+// Mock logger - inline to avoid hoisting issues
+vi.mock('@/lib/logging/server', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+const mockPrisma = {
+  personalAccessToken: {
+    findUnique: vi.fn(),
+    update: vi.fn(),
+  },
+  subject: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    count: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+  user: {
+    findUnique: vi.fn(),
+  },
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  get prisma() {
+    return mockPrisma
+  },
+}))
+
+const mockCheckRateLimit = vi.fn()
+
+vi.mock('@/lib/security/rate-limit', () => ({
+  checkRateLimit: (...args: unknown[]) => mockCheckRateLimit(...args),
+  rateLimitHeaders: () => ({ 'X-RateLimit-Limit': '100' }),
+  rateLimitExceededResponse: () => new Response(null, { status: 429 }),
+  RATE_LIMITS: {
+    standard: { limit: 100, windowSeconds: 60, prefix: 'api' },
+    strict: { limit: 20, windowSeconds: 60, prefix: 'strict' },
+  },
+}))
+
+const mockCanCreateSubject = vi.fn()
+
+vi.mock('@/lib/subscription/plan-limits', () => ({
+  canCreateSubject: (plan: string, count: number) => mockCanCreateSubject(plan, count),
+  getPlanLimits: () => ({ maxSubjects: 5 }),
+}))
+
+const mockEmitWebhookEvent = vi.fn()
+
+vi.mock('@/lib/webhooks/server', () => ({
+  emitWebhookEvent: (...args: unknown[]) => mockEmitWebhookEvent(...args),
+}))
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+// Import after mocking
+import { GET, POST } from '@/app/api/v1/subjects/route'
+import { GET as GET_SUBJECT, PUT as PUT_SUBJECT, DELETE as DELETE_SUBJECT } from '@/app/api/v1/subjects/[id]/route'
+
+const TOKEN = `asp_${'c'.repeat(64)}`
+
+function createTokenRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'token-1',
+    userId: 'user-123',
+    scopes: JSON.stringify(['subjects:read', 'subjects:write']),
+    lastUsedAt: new Date(),
+    expiresAt: null,
+    revokedAt: null,
+    ...overrides,
+  }
+}
+
+function createSubjectRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'subject-1',
+    name: 'Jane Doe',
+    birthDatetime: new Date('1990-06-15T10:30:00.000Z'),
+    city: 'Rome',
+    nation: 'IT',
+    latitude: 41.9028,
+    longitude: 12.4964,
+    timezone: 'Europe/Rome',
+    rodensRating: 'AA',
+    notes: null,
+    ownerId: 'user-123',
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2026-01-02T00:00:00.000Z'),
+    tags: [{ name: 'clients' }],
+    ...overrides,
+  }
+}
+
+function request(path: string, init: { method?: string; token?: string | null; body?: unknown } = {}) {
+  const { method = 'GET', token = TOKEN, body } = init
+  return new NextRequest(`http://localhost:3000${path}`, {
+    method,
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+describe('/api/v1/subjects', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockCheckRateLimit.mockReturnValue({ success: true, remaining: 99, resetTime: Date.now() + 60000 })
+    mockPrisma.personalAccessToken.findUnique.mockResolvedValue(createTokenRecord())
+  })
+
+  describe('authentication', () => {
+    it('should return 401 without a token', async () => {
+      const response = await GET(request('/api/v1/subjects', { token: null }), undefined)
+
+      expect(response.status).toBe(401)
+      expect(mockPrisma.personalAccessToken.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('should look the token up by its SHA-256 hash', async () => {
+      mockPrisma.subject.findMany.mockResolvedValue([])
+      mockPrisma.subject.count.mockResolvedValue(0)
+
+      await GET(request('/api/v1/subjects'), undefined)
+
+      expect(mockPrisma.personalAccessToken.findUnique).toHaveBeenCalledWith({
+        where: { tokenHash: createHash('sha256').update(TOKEN).digest('hex') },
+      })
+    })
+
+    it('should return 401 for revoked and expired tokens', async () => {
+      mockPrisma.personalAccessToken.findUnique.mockResolvedValueOnce(createTokenRecord({ revokedAt: new Date() }))
+      expect((await GET(request('/api/v1/subjects'), undefined)).status).toBe(401)
+
+      mockPrisma.personalAccessToken.findUnique.mockResolvedValueOnce(
+        createTokenRecord({ expiresAt: new Date(Date.now() - 1000) }),
+      )
+      expect((await GET(request('/api/v1/subjects'), undefined)).status).toBe(401)
+    })
+
+    it('should return 403 when the token lacks the scope', async () => {
+      mockPrisma.personalAccessToken.findUnique.mockResolvedValue(
+        createTokenRecord({ scopes: JSON.stringify(['subjects:read']) }),
+      )
+
+      const response = await POST(request('/api/v1/subjects', { method: 'POST', body: {} }), undefined)
+
+      expect(response.status).toBe(403)
+      expect(mockPrisma.subject.create).not.toHaveBeenCalled()
+      expect(mockEmitWebhookEvent).not.toHaveBeenCalled()
+    })
+
+    it('should update lastUsedAt of tokens not used recently', async () => {
+      mockPrisma.personalAccessToken.findUnique.mockResolvedValue(createTokenRecord({ lastUsedAt: null }))
+      mockPrisma.personalAccessToken.update.mockResolvedValue({})
+      mockPrisma.subject.findMany.mockResolvedValue([])
+      mockPrisma.subject.count.mockResolvedValue(0)
+
+      await GET(request('/api/v1/subjects'), undefined)
+
+      expect(mockPrisma.personalAccessToken.update).toHaveBeenCalledWith({
+        where: { id: 'token-1' },
+        data: { lastUsedAt: expect.any(Date) },
+      })
+    })
+  })
+
+  describe('GET', () => {
+    it('should list the subjects of the token owner', async () => {
+      mockPrisma.subject.findMany.mockResolvedValue([createSubjectRecord()])
+      mockPrisma.subject.count.mockResolvedValue(1)
+
+      const response = await GET(request('/api/v1/subjects?limit=10&offset=5'), undefined)
+      const body = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('Cache-Control')).toBe('private, no-store')
+      expect(mockPrisma.subject.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { ownerId: 'user-123', workspaceId: null }, take: 10, skip: 5 }),
+      )
+      expect(body).toEqual({
+        total: 1,
+        data: [
+          {
+            id: 'subject-1',
+            name: 'Jane Doe',
+            birth_datetime: '1990-06-15T10:30:00.000Z',
+            city: 'Rome',
+            nation: 'IT',
+            latitude: 41.9028,
+            longitude: 12.4964,
+            timezone: 'Europe/Rome',
+            rodens_rating: 'AA',
+            tags: ['clients'],
+            notes: null,
+            createdAt: '2026-01-01T00:00:00.000Z',
+            updatedAt: '2026-01-02T00:00:00.000Z',
+          },
+        ],
+      })
+    })
+
+    it("should only load the token owner's tags", async () => {
+      mockPrisma.subject.findMany.mockResolvedValue([])
+      mockPrisma.subject.count.mockResolvedValue(0)
+
+      await GET(request('/api/v1/subjects'), undefined)
+
+      expect(mockPrisma.subject.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          include: { tags: { where: { ownerId: 'user-123' }, select: { name: true }, orderBy: { name: 'asc' } } },
+        }),
+      )
+    })
+
+    it('should return 400 for an invalid limit', async () => {
+      const response = await GET(request('/api/v1/subjects?limit=0'), undefined)
+
+      expect(response.status).toBe(400)
+      expect(mockPrisma.subject.findMany).not.toHaveBeenCalled()
+    })
+
+    it('should return 404 for a subject of another user', async () => {
+      mockPrisma.subject.findFirst.mockResolvedValue(null)
+
+      const response = await GET_SUBJECT(request('/api/v1/subjects/subject-9'), {
+        params: Promise.resolve({ id: 'subject-9' }),
+      })
+
+      expect(response.status).toBe(404)
+      expect(mockPrisma.subject.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'subject-9', ownerId: 'user-123', workspaceId: null } }),
+      )
+    })
+  })
+
+  describe('POST', () => {
+    const input = {
+      name: 'Jane Doe',
+      birthDate: '1990-06-15',
+      birthTime: '10:30:00',
+      city: 'Rome',
+      nation: 'IT',
+      latitude: 41.9028,
+      longitude: 12.4964,
+      timezone: 'Europe/Rome',
+      tags: ['clients'],
+    }
+
+    it('should return 400 with the invalid fields', async () => {
+      const response = await POST(
+        request('/api/v1/subjects', { method: 'POST', body: { ...input, name: '' } }),
+        undefined,
+      )
+      const body = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(body.details).toEqual([expect.objectContaining({ field: 'name' })])
+    })
+
+    it('should return 403 when the subject limit is reached', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ subscriptionPlan: 'free', _count: { subjects: 5 } })
+      mockCanCreateSubject.mockReturnValue(false)
+
+      const response = await POST(request('/api/v1/subjects', { method: 'POST', body: input }), undefined)
+
+      expect(response.status).toBe(403)
+      expect(mockPrisma.subject.create).not.toHaveBeenCalled()
+    })
+
+    it('should create the subject for the token owner', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ subscriptionPlan: 'pro', _count: { subjects: 3 } })
+      mockCanCreateSubject.mockReturnValue(true)
+      mockPrisma.subject.create.mockResolvedValue(createSubjectRecord())
+
+      const response = await POST(request('/api/v1/subjects', { method: 'POST', body: input }), undefined)
+
+      expect(response.status).toBe(201)
+      expect(mockPrisma.subject.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            name: 'Jane Doe',
+            birthDatetime: new Date('1990-06-15T10:30:00.000Z'),
+            ownerId: 'user-123',
+            workspaceId: null,
+            tags: {
+              connectOrCreate: [
+                {
+                  where: { ownerId_name: { ownerId: 'user-123', name: 'clients' } },
+                  create: { name: 'clients', ownerId: 'user-123' },
+                },
+              ],
+            },
+          }),
+        }),
+      )
+      expect((await response.json()).id).toBe('subject-1')
+      expect(mockEmitWebhookEvent).toHaveBeenCalledWith(
+        'user-123',
+        'subject.created',
+        expect.objectContaining({ id: 'subject-1', tags: ['clients'] }),
+      )
+    })
+  })
+
+  describe('webhook events', () => {
+    const input = {
+      name: 'Jane Doe',
+      birthDate: '1990-06-15',
+      birthTime: '10:30:00',
+      city: 'Rome',
+      nation: 'IT',
+      latitude: 41.9028,
+      longitude: 12.4964,
+      timezone: 'Europe/Rome',
+    }
+    const context = { params: Promise.resolve({ id: 'subject-1' }) }
+
+    it('should emit subject.updated after an update', async () => {
+      mockPrisma.subject.findFirst.mockResolvedValue({ id: 'subject-1', tags: [] })
+      mockPrisma.subject.update.mockResolvedValue(createSubjectRecord({ name: 'Jane Smith' }))
+
+      const response = await PUT_SUBJECT(
+        request('/api/v1/subjects/subject-1', { method: 'PUT', body: { ...input, name: 'Jane Smith' } }),
+        context,
+      )
+
+      expect(response.status).toBe(200)
+      expect(mockEmitWebhookEvent).toHaveBeenCalledWith(
+        'user-123',
+        'subject.updated',
+        expect.objectContaining({ id: 'subject-1', name: 'Jane Smith' }),
+      )
+    })
+
+    it('should emit subject.deleted after a deletion', async () => {
+      mockPrisma.subject.deleteMany.mockResolvedValue({ count: 1 })
+
+      const response = await DELETE_SUBJECT(request('/api/v1/subjects/subject-1', { method: 'DELETE' }), context)
+
+      expect(response.status).toBe(200)
+      expect(mockEmitWebhookEvent).toHaveBeenCalledWith('user-123', 'subject.deleted', { id: 'subject-1' })
+    })
+
+    it('should not emit events for subjects outside the library', async () => {
+      mockPrisma.subject.findFirst.mockResolvedValue(null)
+      mockPrisma.subject.deleteMany.mockResolvedValue({ count: 0 })
+
+      const updateResponse = await PUT_SUBJECT(
+        request('/api/v1/subjects/subject-1', { method: 'PUT', body: input }),
+        context,
+      )
+      const deleteResponse = await DELETE_SUBJECT(request('/api/v1/subjects/subject-1', { method: 'DELETE' }), context)
+
+      expect(updateResponse.status).toBe(404)
+      expect(deleteResponse.status).toBe(404)
+      expect(mockEmitWebhookEvent).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('workspace library', () => {
+    const WORKSPACE_ID = 'workspace-1'
+    const OWNER_ID = 'owner-456'
+
+    /** Make workspace-1, owned by owner-456, the active library of the token owner */
+    function setupActiveWorkspace(role: string) {
+      mockPrisma.user.findUnique.mockImplementation((args: { select: Record<string, unknown> }) =>
+        Promise.resolve(
+          args.select.activeWorkspace
+            ? { activeWorkspace: { id: WORKSPACE_ID, ownerId: OWNER_ID, members: [{ role }] } }
+            : { subscriptionPlan: 'pro', _count: { subjects: 3 } },
+        ),
+      )
+    }
+
+    it('should list the subjects of the active workspace', async () => {
+      setupActiveWorkspace('astrologer')
+      mockPrisma.subject.findMany.mockResolvedValue([])
+      mockPrisma.subject.count.mockResolvedValue(0)
+
+      await GET(request('/api/v1/subjects'), undefined)
+
+      expect(mockPrisma.subject.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { ownerId: OWNER_ID, workspaceId: WORKSPACE_ID } }),
+      )
+      expect(mockPrisma.subject.count).toHaveBeenCalledWith({ where: { ownerId: OWNER_ID, workspaceId: WORKSPACE_ID } })
+    })
+
+    it('should create subjects in the workspace, owned by the workspace owner', async () => {
+      setupActiveWorkspace('astrologer')
+      mockCanCreateSubject.mockReturnValue(true)
+      mockPrisma.subject.create.mockResolvedValue(createSubjectRecord({ ownerId: OWNER_ID }))
+
+      const response = await POST(
+        request('/api/v1/subjects', {
+          method: 'POST',
+          body: {
+            name: 'Jane Doe',
+            birthDate: '1990-06-15',
+            birthTime: '10:30:00',
+            city: 'Rome',
+            nation: 'IT',
+            latitude: 41.9,
+            longitude: 12.5,
+            timezone: 'Europe/Rome',
+            tags: ['clients'],
+          },
+        }),
+        undefined,
+      )
+
+      expect(response.status).toBe(201)
+      const { data } = mockPrisma.subject.create.mock.calls[0]![0]
+      expect(data).toMatchObject({ ownerId: OWNER_ID, workspaceId: WORKSPACE_ID })
+      // Tags stay personal to the member who set them
+      expect(data.tags.connectOrCreate[0].create).toEqual({ name: 'clients', ownerId: 'user-123' })
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: OWNER_ID } }))
+    })
+
+    it("should keep other members' tags when a member edits a shared subject", async () => {
+      setupActiveWorkspace('astrologer')
+      // user-123 tagged the subject "clients" and "old", member-789 tagged it "vip"
+      const subjectTags = [
+        { id: 'tag-1', name: 'clients', ownerId: 'user-123' },
+        { id: 'tag-2', name: 'old', ownerId: 'user-123' },
+        { id: 'tag-3', name: 'vip', ownerId: 'member-789' },
+      ]
+      mockPrisma.subject.findFirst.mockImplementation((args: { select: { tags: { where: { ownerId: string } } } }) =>
+        Promise.resolve({
+          id: 'subject-1',
+          tags: subjectTags
+            .filter((tag) => tag.ownerId === args.select.tags.where.ownerId)
+            .map(({ id, name }) => ({ id, name })),
+        }),
+      )
+      mockPrisma.subject.update.mockResolvedValue(createSubjectRecord({ ownerId: OWNER_ID }))
+
+      const response = await PUT_SUBJECT(
+        request('/api/v1/subjects/subject-1', {
+          method: 'PUT',
+          body: {
+            name: 'Jane Doe',
+            birthDate: '1990-06-15',
+            birthTime: '10:30:00',
+            city: 'Rome',
+            nation: 'IT',
+            latitude: 41.9,
+            longitude: 12.5,
+            timezone: 'Europe/Rome',
+            tags: ['clients', 'new'],
+          },
+        }),
+        { params: Promise.resolve({ id: 'subject-1' }) },
+      )
+
+      expect(response.status).toBe(200)
+      const { data } = mockPrisma.subject.update.mock.calls[0]![0]
+      expect(data.tags).toEqual({
+        disconnect: [{ id: 'tag-2' }],
+        connectOrCreate: [
+          {
+            where: { ownerId_name: { ownerId: 'user-123', name: 'clients' } },
+            create: { name: 'clients', ownerId: 'user-123' },
+          },
+          {
+            where: { ownerId_name: { ownerId: 'user-123', name: 'new' } },
+            create: { name: 'new', ownerId: 'user-123' },
+          },
+        ],
+      })
+    })
+
+    it('should refuse writes from read-only members with 403', async () => {
+      setupActiveWorkspace('assistant')
+
+      const createResponse = await POST(
+        request('/api/v1/subjects', {
+          method: 'POST',
+          body: {
+            name: 'Jane Doe',
+            birthDate: '1990-06-15',
+            birthTime: '10:30:00',
+            city: 'Rome',
+            nation: 'IT',
+            latitude: 41.9,
+            longitude: 12.5,
+            timezone: 'Europe/Rome',
+          },
+        }),
+        undefined,
+      )
+      const deleteResponse = await DELETE_SUBJECT(request('/api/v1/subjects/subject-1', { method: 'DELETE' }), {
+        params: Promise.resolve({ id: 'subject-1' }),
+      })
+
+      expect(createResponse.status).toBe(403)
+      expect((await createResponse.json()).error).toBe('Assistants have read-only access to this workspace')
+      expect(deleteResponse.status).toBe(403)
+      expect(mockPrisma.subject.create).not.toHaveBeenCalled()
+      expect(mockPrisma.subject.deleteMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -95,6 +95,7 @@ const mockUserDetail: UserDetail = {
   savedChartsCount: 5,
   todayAIUsage: 2,
   pdfExportsTotal: 3,
+  twoFactorEnabled: false,
 }
 
 const mockUserListItem: UserListItem = {
@@ -119,6 +120,11 @@ const mockUserListItem: UserListItem = {
     'lunar-return': 5,
     timeline: 5,
     now: 5,
+    progressions: 0,
+    'solar-arc': 0,
+    'progressed-lunation': 0,
+    'multi-wheel': 0,
+    horary: 0,
   },
   pdfExportsTotal: 3,
 }
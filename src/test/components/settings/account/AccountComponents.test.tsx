@@ -308,19 +308,31 @@ describe('PasswordChangeDialog', () => {
   })
 
   it('should show "Change Password" button when user has password', () => {
-    render(<PasswordChangeDialog hasPassword={true} />)
+    render(
+      <TestWrapper>
+        <PasswordChangeDialog hasPassword={true} />
+      </TestWrapper>,
+    )
 
     expect(screen.getByText('Change Password')).toBeInTheDocument()
   })
 
   it('should show "Create Password" button when user has no password', () => {
-    render(<PasswordChangeDialog hasPassword={false} />)
+    render(
+      <TestWrapper>
+        <PasswordChangeDialog hasPassword={false} />
+      </TestWrapper>,
+    )
 
     expect(screen.getByText('Create Password')).toBeInTheDocument()
   })
 
   it('should open dialog with correct title for password change', async () => {
-    render(<PasswordChangeDialog hasPassword={true} />)
+    render(
+      <TestWrapper>
+        <PasswordChangeDialog hasPassword={true} />
+      </TestWrapper>,
+    )
 
     fireEvent.click(screen.getByText('Change Password'))
 
@@ -333,7 +345,11 @@ describe('PasswordChangeDialog', () => {
   })
 
   it('should open dialog without current password field for create mode', async () => {
-    render(<PasswordChangeDialog hasPassword={false} />)
+    render(
+      <TestWrapper>
+        <PasswordChangeDialog hasPassword={false} />
+      </TestWrapper>,
+    )
 
     fireEvent.click(screen.getByText('Create Password'))
 
@@ -345,7 +361,11 @@ describe('PasswordChangeDialog', () => {
   })
 
   it('should show error when passwords do not match', async () => {
-    render(<PasswordChangeDialog hasPassword={false} />)
+    render(
+      <TestWrapper>
+        <PasswordChangeDialog hasPassword={false} />
+      </TestWrapper>,
+    )
 
     fireEvent.click(screen.getByText('Create Password'))
 
@@ -369,7 +389,11 @@ describe('PasswordChangeDialog', () => {
   })
 
   it('should show error when password is too short', async () => {
-    render(<PasswordChangeDialog hasPassword={false} />)
+    render(
+      <TestWrapper>
+        <PasswordChangeDialog hasPassword={false} />
+      </TestWrapper>,
+    )
 
     fireEvent.click(screen.getByText('Create Password'))
 
@@ -395,7 +419,11 @@ describe('PasswordChangeDialog', () => {
   it('should create password successfully', async () => {
     mockCreatePassword.mockResolvedValueOnce({ success: true })
 
-    render(<PasswordChangeDialog hasPassword={false} />)
+    render(
+      <TestWrapper>
+        <PasswordChangeDialog hasPassword={false} />
+      </TestWrapper>,
+    )
 
     fireEvent.click(screen.getByText('Create Password'))
 
@@ -422,7 +450,11 @@ describe('PasswordChangeDialog', () => {
   it('should change password successfully', async () => {
     mockChangePassword.mockResolvedValueOnce({ success: true })
 
-    render(<PasswordChangeDialog hasPassword={true} />)
+    render(
+      <TestWrapper>
+        <PasswordChangeDialog hasPassword={true} />
+      </TestWrapper>,
+    )
 
     fireEvent.click(screen.getByText('Change Password'))
 
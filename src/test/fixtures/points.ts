@@ -0,0 +1,47 @@
+/**
+ * Shared Point fixtures for astrology tests
+ *
+ * @module src/test/fixtures/points
+ */
+import type { Point } from '@/types/astrology'
+
+const SIGNS = [
+  { sign: 'Ari', element: 'Fire', quality: 'Cardinal' },
+  { sign: 'Tau', element: 'Earth', quality: 'Fixed' },
+  { sign: 'Gem', element: 'Air', quality: 'Mutable' },
+  { sign: 'Can', element: 'Water', quality: 'Cardinal' },
+  { sign: 'Leo', element: 'Fire', quality: 'Fixed' },
+  { sign: 'Vir', element: 'Earth', quality: 'Mutable' },
+  { sign: 'Lib', element: 'Air', quality: 'Cardinal' },
+  { sign: 'Sco', element: 'Water', quality: 'Fixed' },
+  { sign: 'Sag', element: 'Fire', quality: 'Mutable' },
+  { sign: 'Cap', element: 'Earth', quality: 'Cardinal' },
+  { sign: 'Aqu', element: 'Air', quality: 'Fixed' },
+  { sign: 'Pis', element: 'Water', quality: 'Mutable' },
+]
+
+/**
+ * Point at an absolute longitude, with sign fields derived from it
+ *
+ * Retrograde follows the sign of `speed` unless set explicitly.
+ *
+ * @param name - Point name as the Astrologer API returns it (e.g. "Sun", "First_House")
+ * @param absPos - Longitude in degrees
+ * @param overrides - Fields to set on top of the derived ones (speed, house, retrograde…)
+ */
+export function createPoint(name: string, absPos: number, overrides: Partial<Point> = {}): Point {
+  const longitude = ((absPos % 360) + 360) % 360
+  const signNum = Math.floor(longitude / 30)
+  return {
+    name,
+    ...SIGNS[signNum]!,
+    sign_num: signNum,
+    position: longitude % 30,
+    abs_pos: absPos,
+    emoji: '',
+    point_type: 'AstrologicalPoint',
+    house: null,
+    retrograde: (overrides.speed ?? 0) < 0,
+    ...overrides,
+  }
+}
@@ -820,4 +820,141 @@ describe('AstrologerApiClient', () => {
       expect(logger.debug).toHaveBeenCalledWith('[AstrologerAPI] Error response: Bad Request: missing field')
     })
   })
+
+  describe('Calculation backend fallback', () => {
+    const fallbackSubject = { status: 'OK', subject: { ...mockSubject, name: 'Local' } }
+    const fallbackChart = { status: 'OK', chart_data: { chart_type: 'Natal' } }
+
+    async function createClientWithFallback(mode?: 'remote' | 'auto' | 'local') {
+      const { AstrologerApiClient } = await import('@/lib/api/astrologer')
+      const fallback = {
+        name: 'test',
+        getSubject: vi.fn().mockResolvedValue(fallbackSubject),
+        getNatalChart: vi.fn().mockResolvedValue(fallbackChart),
+      }
+      return { client: new AstrologerApiClient('test-api-key', { fallback, mode }), fallback }
+    }
+
+    it('should use the API when it responds', async () => {
+      const { client, fallback } = await createClientWithFallback()
+      mockFetch.mockResolvedValueOnce(createSuccessResponse(mockSubjectResponse))
+
+      await expect(client.getSubject(mockSubject)).resolves.toEqual(mockSubjectResponse)
+      expect(fallback.getSubject).not.toHaveBeenCalled()
+    })
+
+    it('should fall back on timeout', async () => {
+      const { client, fallback } = await createClientWithFallback()
+      const abortError = new Error('Aborted')
+      abortError.name = 'AbortError'
+      mockFetch.mockRejectedValueOnce(abortError)
+
+      await expect(client.getNatalChart(mockSubject, mockChartOptions)).resolves.toEqual(fallbackChart)
+      expect(fallback.getNatalChart).toHaveBeenCalledWith(mockSubject, mockChartOptions)
+    })
+
+    it('should fall back when the connection fails', async () => {
+      const { client, fallback } = await createClientWithFallback()
+      mockFetch.mockRejectedValueOnce(new TypeError('fetch failed'))
+
+      await expect(client.getSubject(mockSubject, { active_points: ['Sun'] })).resolves.toEqual(fallbackSubject)
+      expect(fallback.getSubject).toHaveBeenCalledWith(mockSubject, { active_points: ['Sun'] })
+    })
+
+    it.each([502, 503, 504])('should fall back on HTTP %i', async (status) => {
+      const { client } = await createClientWithFallback()
+      mockFetch.mockResolvedValueOnce(createErrorResponse(status, 'Service Unavailable'))
+
+      await expect(client.getSubject(mockSubject)).resolves.toEqual(fallbackSubject)
+    })
+
+    it('should fall back when the API URL is not set', async () => {
+      delete process.env.ASTROLOGER_API_URL
+      const { client } = await createClientWithFallback()
+
+      await expect(client.getNatalChart(mockSubject)).resolves.toEqual(fallbackChart)
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should log a warning when falling back', async () => {
+      const { logger } = await import('@/lib/logging/server')
+      const { client } = await createClientWithFallback()
+      mockFetch.mockResolvedValueOnce(createErrorResponse(503, 'Service Unavailable'))
+
+      await client.getSubject(mockSubject)
+
+      expect(logger.warn).toHaveBeenCalledWith('[AstrologerAPI] API unavailable, using the test calculation backend')
+    })
+
+    it.each([400, 401, 429, 500])('should not fall back on HTTP %i', async (status) => {
+      const { client, fallback } = await createClientWithFallback()
+      mockFetch.mockResolvedValueOnce(createErrorResponse(status, 'Error'))
+
+      await expect(client.getNatalChart(mockSubject)).rejects.toThrow(`API Error ${status}: Error`)
+      expect(fallback.getNatalChart).not.toHaveBeenCalled()
+    })
+
+    it('should not fall back for charts the fallback does not calculate', async () => {
+      const { client } = await createClientWithFallback()
+      mockFetch.mockResolvedValueOnce(createErrorResponse(503, 'Service Unavailable'))
+
+      await expect(client.getSynastryChart(mockSubject, mockSecondSubject)).rejects.toThrow('API Error 503')
+    })
+
+    it('should mark unavailability errors so callers can tell them apart', async () => {
+      const { AstrologerApiUnavailableError } = await import('@/lib/api/astrologer')
+      const client = await createClient()
+      mockFetch.mockResolvedValueOnce(createErrorResponse(503, 'Service Unavailable'))
+
+      await expect(client.getSubject(mockSubject)).rejects.toBeInstanceOf(AstrologerApiUnavailableError)
+    })
+
+    it('should never call the API in local mode', async () => {
+      const { client, fallback } = await createClientWithFallback('local')
+
+      await expect(client.getSubject(mockSubject)).resolves.toEqual(fallbackSubject)
+      expect(fallback.getSubject).toHaveBeenCalled()
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should never fall back in remote mode', async () => {
+      const { client, fallback } = await createClientWithFallback('remote')
+      mockFetch.mockResolvedValueOnce(createErrorResponse(503, 'Service Unavailable'))
+
+      await expect(client.getSubject(mockSubject)).rejects.toThrow('API Error 503')
+      expect(fallback.getSubject).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Chart cache', () => {
+    async function createClientWithCache() {
+      const { AstrologerApiClient } = await import('@/lib/api/astrologer')
+      const { ChartCache } = await import('@/lib/cache/chart-cache')
+      const { MemoryChartCacheStore } = await import('@/lib/cache/chart-cache-store')
+      const cache = new ChartCache(new MemoryChartCacheStore(1024 * 1024), { trackStats: false })
+      return new AstrologerApiClient('test-api-key', { cache })
+    }
+
+    it('should serve repeated requests from the cache', async () => {
+      const client = await createClientWithCache()
+      mockFetch.mockResolvedValueOnce(createSuccessResponse(mockChartResponse))
+
+      await expect(client.getNatalChart(mockSubject, mockChartOptions)).resolves.toEqual(mockChartResponse)
+      await expect(client.getNatalChart({ ...mockSubject }, { language: 'en', theme: 'dark' })).resolves.toEqual(
+        mockChartResponse,
+      )
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not cache failed requests', async () => {
+      const client = await createClientWithCache()
+      mockFetch
+        .mockResolvedValueOnce(createErrorResponse(500, 'Error'))
+        .mockResolvedValueOnce(createSuccessResponse(mockChartResponse))
+
+      await expect(client.getNatalChart(mockSubject)).rejects.toThrow('API Error 500')
+      await expect(client.getNatalChart(mockSubject)).resolves.toEqual(mockChartResponse)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+  })
 })
@@ -0,0 +1,193 @@
+/**
+ * Unit Tests for Aspect Pattern Detection
+ *
+ * Tests finding Grand Trines, T-Squares, Grand Crosses, Yods, Kites, Mystic
+ * Rectangles and stelliums in an aspect list, and their AI context.
+ *
+ * @module src/lib/astrology/aspect-patterns
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  describeAspectPattern,
+  findAspectPatterns,
+  formatAspectPatternsContext,
+  getPatternPoints,
+} from '@/lib/astrology/aspect-patterns'
+import type { Aspect, EnrichedSubjectModel, Point } from '@/types/astrology'
+import { createPoint } from '@/test/fixtures/points'
+
+// ============================================================================
+// MOCK DATA FACTORIES
+// ============================================================================
+
+const ASPECT_ANGLES: [string, number][] = [
+  ['conjunction', 0],
+  ['sextile', 60],
+  ['square', 90],
+  ['trine', 120],
+  ['quincunx', 150],
+  ['opposition', 180],
+]
+
+/**
+ * Aspects between every pair of points within 6° of an aspect angle,
+ * as the Astrologer API would return them
+ */
+function computeAspects(points: Point[]): Aspect[] {
+  const aspects: Aspect[] = []
+  points.forEach((p1, index) => {
+    for (const p2 of points.slice(index + 1)) {
+      const diff = Math.abs(p1.abs_pos - p2.abs_pos)
+      const separation = diff > 180 ? 360 - diff : diff
+      for (const [aspect, degrees] of ASPECT_ANGLES) {
+        if (Math.abs(separation - degrees) > 6) continue
+        aspects.push({
+          p1_name: p1.name,
+          p1_owner: 'Test',
+          p1_abs_pos: p1.abs_pos,
+          p2_name: p2.name,
+          p2_owner: 'Test',
+          p2_abs_pos: p2.abs_pos,
+          aspect,
+          orbit: separation - degrees,
+          aspect_degrees: degrees,
+          diff: separation,
+          p1: index,
+          p2: index + 1,
+        })
+      }
+    }
+  })
+  return aspects
+}
+
+function detect(points: Point[]) {
+  return findAspectPatterns(computeAspects(points), points)
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('findAspectPatterns', () => {
+  it('should find a Grand Trine with its element', () => {
+    const patterns = detect([createPoint('Sun', 5), createPoint('Moon', 126), createPoint('Jupiter', 243)])
+
+    expect(patterns).toHaveLength(1)
+    expect(patterns[0]).toMatchObject({
+      type: 'grand_trine',
+      points: ['Jupiter', 'Moon', 'Sun'],
+      element: 'Fire',
+      modality: null,
+      apex: null,
+      tightness: 'tight',
+    })
+    expect(patterns[0]!.orb).toBeCloseTo(2)
+  })
+
+  it('should find a T-Square with the apex first', () => {
+    const patterns = detect([createPoint('Sun', 10), createPoint('Moon', 190), createPoint('Mars', 103)])
+
+    expect(patterns).toEqual([
+      expect.objectContaining({
+        type: 't_square',
+        apex: 'Mars',
+        points: ['Mars', 'Sun', 'Moon'],
+        modality: 'Cardinal',
+      }),
+    ])
+  })
+
+  it('should report a Grand Cross instead of its T-Squares', () => {
+    const patterns = detect([
+      createPoint('Sun', 10),
+      createPoint('Moon', 100),
+      createPoint('Mars', 190),
+      createPoint('Saturn', 280),
+    ])
+
+    expect(patterns.map((pattern) => pattern.type)).toEqual(['grand_cross'])
+    expect(patterns[0]!.aspects).toHaveLength(6)
+  })
+
+  it('should find a Yod', () => {
+    const patterns = detect([createPoint('Venus', 20), createPoint('Saturn', 80), createPoint('Pluto', 230)])
+
+    expect(patterns).toEqual([expect.objectContaining({ type: 'yod', apex: 'Pluto' })])
+  })
+
+  it('should report a Kite instead of its Grand Trine', () => {
+    const patterns = detect([
+      createPoint('Sun', 5),
+      createPoint('Moon', 125),
+      createPoint('Jupiter', 245),
+      createPoint('Saturn', 65),
+    ])
+
+    expect(patterns.map((pattern) => pattern.type)).toEqual(['kite'])
+    expect(patterns[0]).toMatchObject({ apex: 'Jupiter', points: ['Jupiter', 'Moon', 'Sun', 'Saturn'] })
+  })
+
+  it('should find a Mystic Rectangle', () => {
+    const patterns = detect([
+      createPoint('Sun', 10),
+      createPoint('Moon', 70),
+      createPoint('Mars', 190),
+      createPoint('Saturn', 250),
+    ])
+
+    expect(patterns.map((pattern) => pattern.type)).toEqual(['mystic_rectangle'])
+  })
+
+  it('should find stelliums by sign and by house', () => {
+    const patterns = detect([
+      createPoint('Sun', 122, { house: 'Tenth_House' }),
+      createPoint('Mercury', 128, { house: 'Tenth_House' }),
+      createPoint('Venus', 135, { house: 'Tenth_House' }),
+      createPoint('Mars', 300, { house: 'Fourth_House' }),
+      createPoint('Jupiter', 350, { house: 'Fourth_House' }),
+      createPoint('Saturn', 358, { house: 'Fourth_House' }),
+    ])
+    const stelliums = patterns.filter((pattern) => pattern.type === 'stellium')
+
+    expect(stelliums).toEqual([
+      expect.objectContaining({ label: 'Stellium in Leo', element: 'Fire', modality: 'Fixed', tightness: 'moderate' }),
+      expect.objectContaining({ label: 'Stellium in the Fourth House', element: null }),
+    ])
+    expect(stelliums[0]!.orb).toBeCloseTo(13)
+  })
+
+  it('should ignore aspects between different subjects', () => {
+    const points = [createPoint('Sun', 5), createPoint('Moon', 125), createPoint('Jupiter', 245)]
+    const aspects = computeAspects(points).map((aspect) => ({ ...aspect, p2_owner: 'Transit' }))
+
+    expect(findAspectPatterns(aspects, points)).toEqual([])
+  })
+})
+
+describe('getPatternPoints', () => {
+  it('should leave out house cusps', () => {
+    const subject = {
+      name: 'Test',
+      sun: createPoint('Sun', 5),
+      first_house: createPoint('First_House', 0),
+    } as unknown as EnrichedSubjectModel
+
+    expect(getPatternPoints(subject).map((point) => point.name)).toEqual(['Sun'])
+  })
+})
+
+describe('formatAspectPatternsContext', () => {
+  it('should list one pattern per line', () => {
+    const patterns = detect([createPoint('Sun', 10), createPoint('Moon', 190), createPoint('Mars', 103)])
+
+    expect(describeAspectPattern(patterns[0]!)).toBe(
+      'T-Square (Cardinal): Mars (apex), Sun, Moon - mean orb 2.0°, tight',
+    )
+    expect(formatAspectPatternsContext(patterns)).toBe(`Aspect patterns:\n- ${describeAspectPattern(patterns[0]!)}`)
+  })
+
+  it('should be empty without patterns', () => {
+    expect(formatAspectPatternsContext([])).toBe('')
+  })
+})
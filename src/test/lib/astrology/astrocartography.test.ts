@@ -0,0 +1,182 @@
+/**
+ * Unit Tests for astrocartography
+ *
+ * Lines are checked against the chart angles of the local ephemeris: on a
+ * point's ASC line the point rises, on its MC line it culminates.
+ *
+ * @module src/lib/astrology/astrocartography
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  arcToPolyline,
+  calculateAstrocartography,
+  findNearestLines,
+  formatAcgLineLabel,
+  relocateSubject,
+  scoreRelocation,
+  type AngleLine,
+  type LineDistance,
+} from '@/lib/astrology/astrocartography'
+import { getBirthInstant } from '@/lib/astrology/progressions'
+import { getEclipticPosition } from '@/lib/ephemeris/astronomy'
+import { calculateAngles } from '@/lib/ephemeris/houses'
+import { signedDelta } from '@/lib/astrology/transit-timeline'
+import type { Subject } from '@/types/subjects'
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const instant = new Date('1990-06-15T08:30:00.000Z')
+const rome = { latitude: 41.9028, longitude: 12.4964 }
+const data = calculateAstrocartography(instant, rome)
+
+function getLine(point: string, angle: AngleLine['angle']): AngleLine {
+  return data.angleLines.find((line) => line.point === point && line.angle === angle)!
+}
+
+function makeDistance(point: string, distanceKm: number, orbKm = 500): LineDistance {
+  return {
+    id: `${point}-MC`,
+    kind: 'angle',
+    points: [{ point, angle: 'MC' }],
+    distanceKm,
+    orb: distanceKm / 111.2,
+    strength: Math.max(0, 1 - distanceKm / orbKm),
+  }
+}
+
+// ============================================================================
+// Lines
+// ============================================================================
+
+describe('calculateAstrocartography', () => {
+  it('should place the Sun on the Ascendant along its ASC line', () => {
+    const sun = getEclipticPosition('sun', instant).longitude
+    const vertices = getLine('Sun', 'ASC').segments.flat()
+    expect(vertices.length).toBeGreaterThan(100)
+
+    for (const [longitude, latitude] of vertices.filter(([, lat]) => Math.abs(lat) <= 60)) {
+      expect(Math.abs(signedDelta(calculateAngles(instant, latitude, longitude).ascendant, sun))).toBeLessThan(0.01)
+    }
+  })
+
+  it('should draw MC lines on the meridian where the point culminates', () => {
+    const venus = data.points.find((point) => point.name === 'Venus')!
+    const [longitude, latitude] = getLine('Venus', 'MC').segments[0]![0]!
+    expect(
+      Math.abs(signedDelta(calculateAngles(instant, latitude, longitude).ramc, venus.rightAscension)),
+    ).toBeLessThan(1e-6)
+    expect(Math.abs(signedDelta(getLine('Venus', 'IC').segments[0]![0]![0], longitude))).toBeCloseTo(180, 6)
+  })
+
+  it('should find parans where both lines cross', () => {
+    const parans = data.parans.filter((paran) => paran.points[0].angle === 'MC' && Math.abs(paran.latitude) < 70)
+    expect(parans.length).toBeGreaterThan(0)
+
+    for (const paran of parans.slice(0, 10)) {
+      const [first, second] = paran.points
+      const longitude = getLine(first.point, 'MC').segments[0]![0]![0]
+      const crossing = { latitude: paran.latitude, longitude }
+      expect(arcToPolyline(crossing, getLine(second.point, second.angle).segments)).toBeLessThan(0.05)
+    }
+  })
+
+  it('should start local space lines at the birthplace, towards the south for a culminating Sun', () => {
+    const [longitude] = getLine('Sun', 'MC').segments[0]![0]!
+    const place = { latitude: 41.9, longitude }
+    const { localSpaceLines } = calculateAstrocartography(instant, place, { points: ['Sun'] })
+
+    expect(localSpaceLines[0]!.azimuth).toBeCloseTo(180, 3)
+    expect(localSpaceLines[0]!.segments[0]![0]![0]).toBeCloseTo(longitude, 6)
+    expect(localSpaceLines[0]!.segments[0]![0]![1]).toBeCloseTo(41.9, 6)
+  })
+
+  it('should leave out points the local ephemeris does not compute', () => {
+    const { points } = calculateAstrocartography(instant, rome, { points: ['Sun', 'Chiron'] })
+    expect(points.map((point) => point.name)).toEqual(['Sun'])
+  })
+})
+
+// ============================================================================
+// Distances and Relocation
+// ============================================================================
+
+describe('arcToPolyline', () => {
+  it('should measure the perpendicular distance to a segment', () => {
+    const meridian: [number, number][][] = [
+      [
+        [0, -10],
+        [0, 10],
+      ],
+    ]
+    expect(arcToPolyline({ latitude: 0, longitude: 1 }, meridian)).toBeCloseTo(1, 6)
+    expect(arcToPolyline({ latitude: 20, longitude: 0 }, meridian)).toBeCloseTo(10, 6)
+  })
+})
+
+describe('findNearestLines', () => {
+  it('should list lines nearest first with their strength within the orb', () => {
+    const [longitude] = getLine('Jupiter', 'MC').segments[0]![0]!
+    const distances = findNearestLines(data, { latitude: 45, longitude: longitude + 1 }, 500)
+    const jupiter = distances.find((line) => line.id === 'Jupiter-MC')!
+
+    // One degree of longitude at 45° north
+    expect(jupiter.distanceKm).toBeCloseTo(78.6, 0)
+    expect(jupiter.strength).toBeCloseTo(1 - jupiter.distanceKm / 500, 6)
+    expect(distances.map((line) => line.distanceKm)).toEqual(
+      [...distances.map((line) => line.distanceKm)].sort((a, b) => a - b),
+    )
+  })
+})
+
+describe('scoreRelocation', () => {
+  it('should add benefic lines and subtract malefic ones within the orb', () => {
+    expect(scoreRelocation([makeDistance('Venus', 0)])).toBe(1)
+    expect(scoreRelocation([makeDistance('Saturn', 250)])).toBe(-0.5)
+    expect(scoreRelocation([makeDistance('Jupiter', 0), makeDistance('Mars', 600)])).toBe(1)
+  })
+})
+
+describe('relocateSubject', () => {
+  it('should keep the instant of birth in the new timezone', () => {
+    const subject = {
+      id: 's1',
+      name: 'Test',
+      birth_datetime: '1990-06-15T10:30:00.000Z',
+      city: 'Rome',
+      nation: 'IT',
+      latitude: 41.9028,
+      longitude: 12.4964,
+      timezone: 'Europe/Rome',
+    } as Subject
+
+    const relocated = relocateSubject(subject, {
+      city: 'New York',
+      nation: 'US',
+      latitude: 40.7128,
+      longitude: -74.006,
+      timezone: 'America/New_York',
+    })
+
+    expect(relocated.birth_datetime).toBe('1990-06-15T04:30:00.000Z')
+    expect(getBirthInstant(relocated)).toEqual(getBirthInstant(subject))
+    expect(relocated).toMatchObject({ city: 'New York', timezone: 'America/New_York', longitude: -74.006 })
+  })
+})
+
+describe('formatAcgLineLabel', () => {
+  it('should name lines by their points and angles', () => {
+    expect(formatAcgLineLabel({ kind: 'angle', points: [{ point: 'Venus', angle: 'MC' }] })).toBe('Venus MC')
+    expect(
+      formatAcgLineLabel({
+        kind: 'paran',
+        points: [
+          { point: 'Sun', angle: 'ASC' },
+          { point: 'Mars', angle: 'MC' },
+        ],
+      }),
+    ).toBe('Sun ASC / Mars MC paran')
+    expect(formatAcgLineLabel({ kind: 'local-space', points: [{ point: 'Moon' }] })).toBe('Moon local space')
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * Unit Tests for Fixed Stars
+ *
+ * Tests the catalogue, precessed star positions, conjunction orbs by
+ * magnitude, parans at a latitude and the analysis of a chart.
+ *
+ * @module src/lib/astrology/fixed-stars
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  analyzeFixedStars,
+  FIXED_STARS,
+  findFixedStarParans,
+  getFixedStarPositions,
+  getMagnitudeClass,
+  getStarOrb,
+  type FixedStarPosition,
+} from '@/lib/astrology/fixed-stars'
+import type { EnrichedSubjectModel } from '@/types/astrology'
+import { createPoint } from '@/test/fixtures/points'
+
+// ============================================================================
+// MOCK DATA FACTORIES
+// ============================================================================
+
+// Noon UT on 1 January 2000: Regulus at 29°50' Leo, Spica at 23°50' Libra
+function createSubject(offset = 0, overrides: Partial<EnrichedSubjectModel> = {}): EnrichedSubjectModel {
+  return {
+    name: 'Test',
+    iso_formatted_utc_datetime: '2000-01-01T12:00:00.000Z',
+    latitude: 51.5,
+    sun: createPoint('Sun', 280.37 - offset),
+    moon: createPoint('Moon', 150.3 - offset),
+    regulus: createPoint('Regulus', 149.82 - offset),
+    ascendant: createPoint('Ascendant', 204 - offset),
+    ...overrides,
+  } as unknown as EnrichedSubjectModel
+}
+
+function createStarPosition(rightAscension: number, declination: number): FixedStarPosition {
+  return { star: FIXED_STARS[0]!, longitude: 0, latitude: 0, rightAscension, declination }
+}
+
+// ============================================================================
+// CATALOGUE AND POSITIONS
+// ============================================================================
+
+describe('FIXED_STARS', () => {
+  it('holds about a hundred uniquely named stars', () => {
+    expect(FIXED_STARS.length).toBeGreaterThanOrEqual(100)
+    expect(new Set(FIXED_STARS.map((star) => star.name)).size).toBe(FIXED_STARS.length)
+  })
+})
+
+describe('getFixedStarPositions', () => {
+  it('matches the catalogue longitudes at J2000', () => {
+    const positions = getFixedStarPositions(new Date('2000-01-01T12:00:00Z'))
+    const longitude = (name: string) => positions.find((position) => position.star.name === name)!.longitude
+
+    expect(longitude('Regulus')).toBeCloseTo(149.83, 1)
+    expect(longitude('Spica')).toBeCloseTo(203.84, 1)
+    expect(longitude('Aldebaran')).toBeCloseTo(69.79, 1)
+    expect(longitude('Sirius')).toBeCloseTo(104.08, 1)
+  })
+
+  it('precesses about a degree every 72 years', () => {
+    const [before] = getFixedStarPositions(new Date('2000-01-01T12:00:00Z'), [FIXED_STARS[0]!])
+    const [after] = getFixedStarPositions(new Date('2072-01-01T12:00:00Z'), [FIXED_STARS[0]!])
+
+    expect(after!.longitude - before!.longitude).toBeCloseTo(1, 1)
+  })
+})
+
+describe('getStarOrb', () => {
+  it('widens the orb for brighter stars', () => {
+    const orbs = { first: 2, second: 1.5, third: 1 }
+
+    expect(getMagnitudeClass(-1.46)).toBe('first')
+    expect(getMagnitudeClass(2.06)).toBe('second')
+    expect(getMagnitudeClass(3.65)).toBe('third')
+    expect(getStarOrb(FIXED_STARS.find((star) => star.name === 'Regulus')!, orbs)).toBe(2)
+    expect(getStarOrb(FIXED_STARS.find((star) => star.name === 'Alpheratz')!, orbs)).toBe(1.5)
+  })
+})
+
+// ============================================================================
+// PARANS
+// ============================================================================
+
+describe('findFixedStarParans', () => {
+  const planets = [{ name: 'Sun', rightAscension: 100.5, declination: 20 }]
+
+  it('pairs events at the same sidereal time', () => {
+    const parans = findFixedStarParans([createStarPosition(100, 0)], planets, 40)
+
+    expect(parans.map((paran) => `${paran.starAngle}-${paran.pointAngle}`).sort()).toEqual(['IC-IC', 'MC-MC'])
+    expect(parans[0]!.orb).toBeCloseTo(2)
+    expect(findFixedStarParans([createStarPosition(100, 0)], planets, 40, 1)).toEqual([])
+  })
+
+  it('uses only the meridian for stars that never rise', () => {
+    const parans = findFixedStarParans([createStarPosition(100, -60)], planets, 40, 60)
+
+    expect(parans.length).toBeGreaterThan(0)
+    expect(parans.every((paran) => paran.starAngle === 'MC' || paran.starAngle === 'IC')).toBe(true)
+  })
+})
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+describe('analyzeFixedStars', () => {
+  it('finds stars conjunct points and angles, skipping the API star points', () => {
+    const analysis = analyzeFixedStars(createSubject())!
+    const pairs = analysis.conjunctions.map((conjunction) => `${conjunction.star.name}-${conjunction.point}`)
+
+    expect(pairs).toContain('Regulus-Moon')
+    expect(pairs).toContain('Spica-Ascendant')
+    expect(pairs.some((pair) => pair.endsWith('-Regulus'))).toBe(false)
+    expect(analysis.latitude).toBe(51.5)
+    expect(analysis.parans.length).toBeGreaterThan(0)
+  })
+
+  it('shifts the stars into the sidereal zodiac', () => {
+    const analysis = analyzeFixedStars(createSubject(23.85, { zodiac_type: 'Sidereal' }))!
+    const regulus = analysis.conjunctions.find((conjunction) => conjunction.star.name === 'Regulus')
+
+    expect(regulus?.point).toBe('Moon')
+    expect(regulus?.starLongitude).toBeCloseTo(125.98, 0)
+  })
+
+  it('skips parans without a latitude and needs the birth time', () => {
+    expect(analyzeFixedStars(createSubject(0, { latitude: undefined }))!.parans).toEqual([])
+    expect(analyzeFixedStars(createSubject(0, { iso_formatted_utc_datetime: undefined }))).toBeNull()
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * Unit Tests for Harmonic Charts
+ *
+ * Tests harmonic longitudes, the harmonic subject with its equal houses and
+ * the aspects read between harmonic positions.
+ *
+ * @module src/lib/astrology/harmonics
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  calculateHarmonicSubject,
+  findHarmonicAspects,
+  getHarmonicLongitude,
+  isValidHarmonic,
+} from '@/lib/astrology/harmonics'
+import type { EnrichedSubjectModel } from '@/types/astrology'
+import { createPoint } from '@/test/fixtures/points'
+
+// ============================================================================
+// MOCK DATA FACTORIES
+// ============================================================================
+
+// Sun and Moon a quintile apart, Mars a square from the Sun
+function createSubject(): EnrichedSubjectModel {
+  return {
+    name: 'Test',
+    sun: createPoint('Sun', 10),
+    moon: createPoint('Moon', 82),
+    mars: createPoint('Mars', 100),
+    ascendant: createPoint('Ascendant', 20),
+    first_house: createPoint('First_House', 20),
+    second_house: createPoint('Second_House', 48),
+  } as unknown as EnrichedSubjectModel
+}
+
+// ============================================================================
+// HARMONICS
+// ============================================================================
+
+describe('getHarmonicLongitude', () => {
+  it('multiplies the longitude by the harmonic', () => {
+    expect(getHarmonicLongitude(100, 4)).toBe(40)
+    expect(getHarmonicLongitude(10, 1)).toBe(10)
+  })
+
+  it('accepts whole harmonics up to the maximum only', () => {
+    expect(isValidHarmonic(5)).toBe(true)
+    expect(isValidHarmonic(0)).toBe(false)
+    expect(isValidHarmonic(2.5)).toBe(false)
+    expect(isValidHarmonic(181)).toBe(false)
+  })
+})
+
+describe('calculateHarmonicSubject', () => {
+  it('multiplies every point and recomputes its sign', () => {
+    const h5 = calculateHarmonicSubject(createSubject(), 5)!
+
+    expect(h5.name).toBe('Test H5')
+    expect(h5.sun).toMatchObject({ abs_pos: 50, sign: 'Tau', sign_num: 1, position: 20 })
+    expect(h5.moon?.abs_pos).toBe(50)
+    expect(h5.ascendant?.abs_pos).toBe(100)
+  })
+
+  it('uses equal houses from the harmonic Ascendant', () => {
+    const h5 = calculateHarmonicSubject(createSubject(), 5)!
+
+    expect(h5.first_house?.abs_pos).toBe(100)
+    expect(h5.second_house?.abs_pos).toBe(130)
+    // Sun at 50° is 310° past the harmonic Ascendant
+    expect(h5.sun?.house).toBe('Eleventh_House')
+  })
+
+  it('returns null without an Ascendant or for an invalid harmonic', () => {
+    const subject = { name: 'Test', sun: createPoint('Sun', 10) } as unknown as EnrichedSubjectModel
+
+    expect(calculateHarmonicSubject(subject, 5)).toBeNull()
+    expect(calculateHarmonicSubject(createSubject(), 0)).toBeNull()
+  })
+})
+
+describe('findHarmonicAspects', () => {
+  it('turns quintiles into conjunctions in the fifth harmonic', () => {
+    const aspects = findHarmonicAspects(calculateHarmonicSubject(createSubject(), 5)!)
+    const sunMoon = aspects.find((aspect) => aspect.p1_name === 'Sun' && aspect.p2_name === 'Moon')
+
+    expect(sunMoon).toMatchObject({ aspect: 'conjunction', orbit: 0, p1_owner: 'Test H5' })
+  })
+
+  it('turns squares into conjunctions in the fourth harmonic', () => {
+    const aspects = findHarmonicAspects(calculateHarmonicSubject(createSubject(), 4)!, undefined, ['Sun', 'Mars'])
+
+    expect(aspects).toHaveLength(1)
+    expect(aspects[0]).toMatchObject({ p1_name: 'Sun', p2_name: 'Mars', aspect: 'conjunction' })
+  })
+})
@@ -0,0 +1,249 @@
+/**
+ * Unit Tests for Horary Astrology
+ *
+ * Tests applying and separating aspects within the sign, the considerations
+ * before judgement, perfection, prohibition, refranation, translation and
+ * collection of light, the judgement aid and the AI context.
+ *
+ * @module src/lib/astrology/horary
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  analyzeHorary,
+  findHoraryAspects,
+  findHoraryConsiderations,
+  findHoraryPerfections,
+  findNextMoonAspect,
+  formatHoraryContext,
+  getHoraryBodies,
+  type HoraryBody,
+} from '@/lib/astrology/horary'
+import type { TraditionalPlanet } from '@/lib/astrology/traditional'
+import type { EnrichedSubjectModel } from '@/types/astrology'
+import { createPoint } from '@/test/fixtures/points'
+
+// ============================================================================
+// MOCK DATA FACTORIES
+// ============================================================================
+
+const HOUSE_NAMES = [
+  'first',
+  'second',
+  'third',
+  'fourth',
+  'fifth',
+  'sixth',
+  'seventh',
+  'eighth',
+  'ninth',
+  'tenth',
+  'eleventh',
+  'twelfth',
+]
+
+type Motions = Record<TraditionalPlanet, [longitude: number, speed: number]>
+
+/**
+ * Mars (querent, ruling Aries rising) applies to a sextile with Venus (quesited,
+ * ruling Libra on the 7th) in 8.3 days. The Moon, at the end of Taurus, is void.
+ */
+const PERFECTING: Motions = {
+  Sun: [162, 1],
+  Moon: [58, 13],
+  Mercury: [170, 1.5],
+  Venus: [95, 1.2],
+  Mars: [40, 0.6],
+  Jupiter: [200, 0.1],
+  Saturn: [305, 0.03],
+}
+
+/** Equal houses from a 10° Aries Ascendant */
+function createSubject(motions: Motions, ascendant = 10): EnrichedSubjectModel {
+  return {
+    name: 'Horary',
+    ...Object.fromEntries(
+      Object.entries(motions).map(([planet, [longitude, speed]]) => [
+        planet.toLowerCase(),
+        createPoint(planet, longitude, { speed }),
+      ]),
+    ),
+    ascendant: createPoint('Ascendant', ascendant),
+    ...Object.fromEntries(
+      HOUSE_NAMES.map((name, index) => [`${name}_house`, createPoint(`${name}_House`, ascendant + index * 30)]),
+    ),
+  } as unknown as EnrichedSubjectModel
+}
+
+function createBodies(motions: Motions): Record<TraditionalPlanet, HoraryBody> {
+  return getHoraryBodies(createSubject(motions))!
+}
+
+const QUESTION = { question: 'Will we marry?', querentHouse: 1, quesitedHouse: 7 }
+
+// ============================================================================
+// ASPECTS
+// ============================================================================
+
+describe('findHoraryAspects', () => {
+  it('finds aspects that perfect before either planet leaves its sign', () => {
+    const aspects = findHoraryAspects(createBodies(PERFECTING))
+
+    const sextile = aspects.find((aspect) => aspect.applying && aspect.planets.join() === 'Venus,Mars')
+    expect(sextile).toMatchObject({ aspect: 'sextile', orb: 5 })
+    expect(sextile!.daysToPerfection).toBeCloseTo(8.33, 2)
+
+    // Venus reaches the square to Jupiter in 13.6 days, still in Cancer
+    expect(aspects).toContainEqual(expect.objectContaining({ planets: ['Venus', 'Jupiter'], aspect: 'square' }))
+  })
+
+  it('ignores aspects completed after a sign change', () => {
+    // Venus would oppose Saturn in 25.6 days, but leaves Cancer in 20.8
+    const aspects = findHoraryAspects(createBodies(PERFECTING))
+    expect(aspects.some((aspect) => aspect.planets.join() === 'Venus,Saturn')).toBe(false)
+  })
+
+  it('keeps separating aspects within the moieties of the planets', () => {
+    const aspects = findHoraryAspects(createBodies(PERFECTING))
+
+    expect(aspects).toContainEqual({
+      planets: ['Sun', 'Mars'],
+      aspect: 'trine',
+      orb: 2,
+      applying: false,
+      daysToPerfection: null,
+    })
+  })
+})
+
+describe('findNextMoonAspect', () => {
+  it('returns the first aspect the Moon completes in her sign', () => {
+    const bodies = createBodies({ ...PERFECTING, Moon: [10, 13], Venus: [18, 1.2] })
+
+    const aspect = findNextMoonAspect(bodies)
+    expect(aspect).toMatchObject({ planets: ['Moon', 'Venus'], aspect: 'conjunction' })
+    expect(aspect!.daysToPerfection).toBeCloseTo(8 / 11.8, 3)
+  })
+
+  it('returns null when the Moon is void of course', () => {
+    expect(findNextMoonAspect(createBodies(PERFECTING))).toBeNull()
+  })
+})
+
+// ============================================================================
+// CONSIDERATIONS
+// ============================================================================
+
+describe('findHoraryConsiderations', () => {
+  const present = (ascendant: number, saturnHouse: string | null, moon: number) =>
+    findHoraryConsiderations(
+      ascendant,
+      createPoint('Saturn', 305, { speed: 0.03, house: saturnHouse }),
+      createBodies({ ...PERFECTING, Moon: [moon, 13] }),
+    )
+      .filter((consideration) => consideration.present)
+      .map((consideration) => consideration.id)
+
+  it('flags an early or late Ascendant', () => {
+    expect(present(1.5, null, 58)).toEqual(['early-ascendant', 'void-of-course'])
+    expect(present(28.5, null, 58)).toEqual(['late-ascendant', 'void-of-course'])
+  })
+
+  it('flags Saturn in the 1st or 7th house', () => {
+    expect(present(10, 'First_House', 58)).toContain('saturn-in-first')
+    expect(present(10, 'Seventh_House', 58)).toContain('saturn-in-seventh')
+  })
+
+  it('flags the Moon in the via combusta', () => {
+    expect(present(10, null, 200)).toContain('via-combusta')
+    expect(present(10, null, 226)).not.toContain('via-combusta')
+  })
+})
+
+// ============================================================================
+// PERFECTION
+// ============================================================================
+
+describe('findHoraryPerfections', () => {
+  it('finds a direct perfection between the significators', () => {
+    const bodies = createBodies(PERFECTING)
+    const perfections = findHoraryPerfections(findHoraryAspects(bodies), bodies, 'Mars', 'Venus')
+
+    expect(perfections).toHaveLength(1)
+    expect(perfections[0]).toMatchObject({ kind: 'direct', planets: ['Mars', 'Venus'], prohibition: null })
+  })
+
+  it('finds a prohibition when a third planet reaches a significator first', () => {
+    // Mercury conjoins Venus in 6.7 days, before the sextile to Mars in 8.3
+    const bodies = createBodies({ ...PERFECTING, Mercury: [93, 1.5] })
+    const [perfection] = findHoraryPerfections(findHoraryAspects(bodies), bodies, 'Mars', 'Venus')
+
+    expect(perfection!.prohibition).toMatchObject({ planets: ['Mercury', 'Venus'], aspect: 'conjunction' })
+  })
+
+  it('finds refranation when a significator stations before perfection', () => {
+    const bodies = createBodies(PERFECTING)
+    const [perfection] = findHoraryPerfections(
+      findHoraryAspects(bodies),
+      bodies,
+      'Mars',
+      'Venus',
+      (planet, days) => planet === 'Mars' && days > 5,
+    )
+
+    expect(perfection!.refranation).toBe('Mars')
+  })
+
+  it('finds translation of light by a faster planet', () => {
+    // Mercury separates from a sextile to Mars and applies to a sextile with Venus
+    const bodies = createBodies({ ...PERFECTING, Mercury: [92, 1.5], Venus: [157, 0.9], Mars: [30, 0.6] })
+    const perfections = findHoraryPerfections(findHoraryAspects(bodies), bodies, 'Mars', 'Venus')
+
+    expect(perfections).toHaveLength(1)
+    expect(perfections[0]).toMatchObject({ kind: 'translation', via: 'Mercury', planets: ['Mars', 'Venus'] })
+    expect(perfections[0]!.aspects.map((aspect) => aspect.applying)).toEqual([false, true])
+  })
+
+  it('finds collection of light by a slower planet', () => {
+    // Mars and Venus both apply to Saturn but not to each other
+    const bodies = createBodies({ ...PERFECTING, Venus: [143, 1.2], Saturn: [55, 0.03] })
+    const perfections = findHoraryPerfections(findHoraryAspects(bodies), bodies, 'Mars', 'Venus')
+
+    expect(perfections).toContainEqual(expect.objectContaining({ kind: 'collection', via: 'Saturn' }))
+  })
+})
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+describe('analyzeHorary', () => {
+  it('assigns significators and leans to yes on an unhindered perfection', () => {
+    const analysis = analyzeHorary(createSubject(PERFECTING), QUESTION)!
+
+    expect(analysis.querent).toMatchObject({ planet: 'Mars', cuspSign: 'Ari', house: 1 })
+    expect(analysis.quesited).toMatchObject({ planet: 'Venus', cuspSign: 'Lib', house: 7 })
+    expect(analysis.judgement).toMatchObject({ leaning: 'yes', radical: false })
+  })
+
+  it('leans to no when the perfection is prohibited', () => {
+    const analysis = analyzeHorary(createSubject({ ...PERFECTING, Mercury: [93, 1.5] }), QUESTION)!
+    expect(analysis.judgement.leaning).toBe('no')
+  })
+
+  it('returns null without the house cusps', () => {
+    const subject = { ...createSubject(PERFECTING), seventh_house: undefined } as unknown as EnrichedSubjectModel
+    expect(analyzeHorary(subject, QUESTION)).toBeNull()
+  })
+})
+
+describe('formatHoraryContext', () => {
+  it('grounds the AI context in the findings', () => {
+    const context = formatHoraryContext(analyzeHorary(createSubject(PERFECTING), QUESTION)!)
+
+    expect(context).toContain('Question: "Will we marry?"')
+    expect(context).toContain('Querent: Mars, ruler of the 1st house (Ari on the cusp)')
+    expect(context).toContain('Void-of-course Moon')
+    expect(context).toContain('Mars applies to Venus by sextile')
+    expect(context).toContain('Leaning: the matter perfects')
+  })
+})
@@ -0,0 +1,182 @@
+/**
+ * Unit Tests for Midpoints
+ *
+ * Tests nearer midpoints, dial positions, sorted lists, hits on the 360°, 90°
+ * and 45° dials, midpoint trees and the conversion of hits to aspects and
+ * timeline targets.
+ *
+ * @module src/lib/astrology/midpoints
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  buildMidpointTrees,
+  calculateMidpoints,
+  findMidpointHits,
+  getDialPosition,
+  getMidpointLongitude,
+  getMidpointTimelineTargets,
+  isPointSelected,
+  midpointHitsToAspects,
+  sortMidpoints,
+  splitMidpointName,
+} from '@/lib/astrology/midpoints'
+import type { PointPositions } from '@/lib/astrology/transit-timeline'
+
+// ============================================================================
+// MOCK DATA
+// ============================================================================
+
+function positions(longitudes: Record<string, number>): PointPositions {
+  return Object.fromEntries(Object.entries(longitudes).map(([name, abs_pos]) => [name, { abs_pos, retrograde: false }]))
+}
+
+// Sun/Moon at 20°, Sun/Mars at 110°, Moon/Mars at 65°
+const natal = positions({ Mars: 130, Sun: 0, Moon: 40 })
+
+// ============================================================================
+// MIDPOINTS
+// ============================================================================
+
+describe('getMidpointLongitude', () => {
+  it('returns the midpoint on the shorter arc', () => {
+    expect(getMidpointLongitude(10, 50)).toBe(30)
+    expect(getMidpointLongitude(350, 30)).toBe(10)
+    expect(getMidpointLongitude(30, 350)).toBe(10)
+  })
+})
+
+describe('getDialPosition', () => {
+  it('folds longitudes onto the dial', () => {
+    expect(getDialPosition(100, 90)).toBe(10)
+    expect(getDialPosition(100, 45)).toBe(10)
+    expect(getDialPosition(370, 360)).toBe(10)
+  })
+})
+
+describe('calculateMidpoints', () => {
+  it('pairs every point, named in chart order', () => {
+    const midpoints = calculateMidpoints(natal)
+
+    expect(midpoints.map((midpoint) => [midpoint.name, midpoint.longitude])).toEqual([
+      ['Sun/Moon', 20],
+      ['Sun/Mars', 65],
+      ['Moon/Mars', 85],
+    ])
+    expect(splitMidpointName('Sun/Moon')).toEqual(['Sun', 'Moon'])
+    expect(splitMidpointName('Sun')).toBeNull()
+  })
+})
+
+describe('sortMidpoints', () => {
+  it('orders midpoints by their position on the dial', () => {
+    const midpoints = calculateMidpoints(positions({ Sun: 0, Moon: 40, Mars: 200 }))
+
+    // Sun/Moon 20°, Sun/Mars 280° (10° on the 90° dial), Moon/Mars 120° (30°)
+    expect(sortMidpoints(midpoints, 90).map((midpoint) => midpoint.name)).toEqual(['Sun/Mars', 'Sun/Moon', 'Moon/Mars'])
+    expect(sortMidpoints(midpoints, 360).map((midpoint) => midpoint.name)).toEqual([
+      'Sun/Moon',
+      'Moon/Mars',
+      'Sun/Mars',
+    ])
+  })
+})
+
+// ============================================================================
+// HITS AND TREES
+// ============================================================================
+
+describe('findMidpointHits', () => {
+  const midpoints = calculateMidpoints(positions({ Sun: 0, Moon: 40 }))
+
+  it('finds squares on the 90° dial but not on the whole zodiac', () => {
+    const transits = positions({ Saturn: 110.5 })
+
+    const hits = findMidpointHits(midpoints, transits, { orb: 1, dial: 90, source: 'transit' })
+    expect(hits).toHaveLength(1)
+    expect(hits[0]).toMatchObject({ point: 'Saturn', aspect: 'square', aspectDegrees: 90, source: 'transit' })
+    expect(hits[0]!.orb).toBeCloseTo(0.5)
+
+    expect(findMidpointHits(midpoints, transits, { orb: 1, dial: 360, source: 'transit' })).toEqual([])
+  })
+
+  it('finds semi-squares only on the 45° dial', () => {
+    const transits = positions({ Saturn: 65 })
+
+    expect(findMidpointHits(midpoints, transits, { dial: 90, source: 'transit' })).toEqual([])
+    expect(findMidpointHits(midpoints, transits, { dial: 45, source: 'transit' })[0]?.aspect).toBe('semi-square')
+  })
+
+  it('counts both ends of the axis', () => {
+    const hits = findMidpointHits(midpoints, positions({ Jupiter: 199 }), { dial: 360, source: 'transit' })
+    expect(hits[0]?.aspect).toBe('opposition')
+  })
+
+  it('does not match natal points against their own midpoints', () => {
+    const hits = findMidpointHits(calculateMidpoints(natal), natal, { orb: 2, source: 'natal' })
+    expect(hits).toEqual([])
+  })
+
+  it('matches transits to the midpoints of their natal point', () => {
+    const hits = findMidpointHits(midpoints, positions({ Sun: 20 }), { source: 'transit' })
+    expect(hits.map((hit) => hit.midpoint.name)).toEqual(['Sun/Moon'])
+  })
+})
+
+describe('buildMidpointTrees', () => {
+  it('groups hits by point, natal trees first, tightest hit first', () => {
+    const midpoints = calculateMidpoints(positions({ Sun: 0, Moon: 40, Venus: 100, Jupiter: 180 }))
+    const natalHits = findMidpointHits(midpoints, positions({ Mercury: 20.4 }), { source: 'natal' })
+    const transitHits = findMidpointHits(midpoints, positions({ Sun: 140.2 }), { source: 'transit' })
+
+    const trees = buildMidpointTrees([...transitHits, ...natalHits])
+
+    expect(trees.map((tree) => `${tree.source} ${tree.point}`)).toEqual(['natal Mercury', 'transit Sun'])
+    expect(trees[0]!.hits.map((hit) => hit.midpoint.name)).toEqual(['Sun/Moon', 'Moon/Jupiter'])
+    expect(trees[0]!.hits[0]!.orb).toBeLessThanOrEqual(trees[0]!.hits[1]!.orb)
+  })
+})
+
+// ============================================================================
+// ASPECT GRID AND TIMELINE
+// ============================================================================
+
+describe('midpointHitsToAspects', () => {
+  it('puts the point in p1 and the midpoint in p2', () => {
+    const midpoints = calculateMidpoints(positions({ Sun: 0, Moon: 40 }))
+    const [aspect] = midpointHitsToAspects(
+      findMidpointHits(midpoints, positions({ Saturn: 290 }), { source: 'transit' }),
+    )
+
+    expect(aspect).toMatchObject({
+      p1_name: 'Saturn',
+      p1_owner: 'Transit',
+      p2_name: 'Sun/Moon',
+      p2_owner: 'Midpoint',
+      p2_abs_pos: 20,
+      aspect: 'square',
+      orbit: 0,
+    })
+    expect(aspect!.p2).toMatchObject({ sign: 'Ari', position: 20 })
+  })
+})
+
+describe('getMidpointTimelineTargets', () => {
+  it('returns midpoint positions with the hard aspects of the dial', () => {
+    const targets = getMidpointTimelineTargets(positions({ Sun: 0, Moon: 40 }), 1)
+
+    expect(targets.positions).toEqual({ 'Sun/Moon': { abs_pos: 20, retrograde: false } })
+    expect(targets.aspects).toEqual([
+      { name: 'conjunction', orb: 1 },
+      { name: 'square', orb: 1 },
+      { name: 'opposition', orb: 1 },
+    ])
+  })
+})
+
+describe('isPointSelected', () => {
+  it('requires both points of a midpoint', () => {
+    expect(isPointSelected('Sun/Moon', ['Sun', 'Moon'])).toBe(true)
+    expect(isPointSelected('Sun/Moon', ['Sun'])).toBe(false)
+    expect(isPointSelected('sun', ['Sun'])).toBe(true)
+  })
+})
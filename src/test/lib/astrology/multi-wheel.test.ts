@@ -0,0 +1,137 @@
+/**
+ * Unit Tests for multi-wheel charts
+ *
+ * Covers ring source labels and defaults, and aspects between the rings.
+ *
+ * @module src/lib/astrology/multi-wheel
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  createRingSource,
+  findMultiWheelAspects,
+  findRingAspects,
+  getRingPairLabel,
+  getRingSourceLabel,
+  isRingSourceComplete,
+} from '@/lib/astrology/multi-wheel'
+import type { ChartRing, EnrichedSubjectModel, Point } from '@/types/astrology'
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+function makePoint(name: string, absPos: number): Point {
+  return {
+    name,
+    quality: 'Cardinal',
+    element: 'Fire',
+    sign: 'Ari',
+    sign_num: 0,
+    position: absPos % 30,
+    abs_pos: absPos,
+    emoji: '♈️',
+    point_type: 'AstrologicalPoint',
+    house: 'First_House',
+    retrograde: false,
+  }
+}
+
+function makeRing(label: string, points: Record<string, Point>): ChartRing {
+  return { label, subject: { name: label, ...points } as unknown as EnrichedSubjectModel }
+}
+
+// ============================================================================
+// Ring sources
+// ============================================================================
+
+describe('getRingSourceLabel', () => {
+  it('should label rings by their source', () => {
+    expect(getRingSourceLabel({ type: 'transit', date: '2026-01-01T00:00:00.000Z' })).toBe('Transits')
+    expect(getRingSourceLabel({ type: 'progressions', targetDate: '2026-01-01' })).toBe('Progressed')
+    expect(getRingSourceLabel({ type: 'solar-return', year: 2026 })).toBe('Solar Return 2026')
+    expect(getRingSourceLabel({ type: 'lunar-return', year: 2026, month: 3 })).toBe('Lunar Return 2026-03')
+    expect(getRingSourceLabel({ type: 'subject', subjectId: 's2' }, 'Marco')).toBe('Marco')
+  })
+})
+
+describe('createRingSource', () => {
+  const now = new Date('2026-10-19T08:15:00.000Z')
+
+  it('should date new rings at the given moment', () => {
+    expect(createRingSource('transit', now)).toEqual({ type: 'transit', date: '2026-10-19T08:15:00.000Z' })
+    expect(createRingSource('solar-arc', now)).toEqual({ type: 'solar-arc', targetDate: '2026-10-19' })
+    expect(createRingSource('lunar-return', now)).toEqual({ type: 'lunar-return', year: 2026, month: 10 })
+  })
+
+  it('should leave subject rings incomplete until a subject is chosen', () => {
+    const source = createRingSource('subject', now)
+    expect(isRingSourceComplete(source)).toBe(false)
+    expect(isRingSourceComplete({ type: 'subject', subjectId: 's2' })).toBe(true)
+  })
+})
+
+describe('isRingSourceComplete', () => {
+  it('should reject invalid dates and months', () => {
+    expect(isRingSourceComplete({ type: 'transit', date: 'not a date' })).toBe(false)
+    expect(isRingSourceComplete({ type: 'lunar-return', year: 2026, month: 13 })).toBe(false)
+    expect(isRingSourceComplete({ type: 'solar-return', year: 2026 })).toBe(true)
+  })
+})
+
+// ============================================================================
+// Inter-ring aspects
+// ============================================================================
+
+describe('findRingAspects', () => {
+  const natal = makeRing('Natal', { sun: makePoint('Sun', 100), moon: makePoint('Moon', 20) })
+
+  it('should find aspects with the inner point first, tightest first', () => {
+    const transits = makeRing('Transits', { mars: makePoint('Mars', 193), saturn: makePoint('Saturn', 101) })
+    const aspects = findRingAspects(natal, transits)
+    expect(aspects.map((a) => [a.p1_name, a.aspect, a.p2_name])).toEqual([
+      ['Sun', 'conjunction', 'Saturn'],
+      ['Sun', 'square', 'Mars'],
+      ['Moon', 'opposition', 'Mars'],
+    ])
+    expect(aspects[0]).toMatchObject({ p1_owner: 'Natal', p2_owner: 'Transits', orbit: 1 })
+  })
+
+  it('should cap the orbs and filter the points', () => {
+    const transits = makeRing('Transits', { mars: makePoint('Mars', 193) })
+    expect(findRingAspects(natal, transits, {}, 1)).toEqual([])
+    expect(findRingAspects(natal, transits, { activePoints: ['Moon', 'Mars'] })).toHaveLength(1)
+  })
+})
+
+describe('findMultiWheelAspects', () => {
+  it('should pair every ring and keep tight orbs for progressed rings', () => {
+    const rings = [
+      makeRing('Natal', { sun: makePoint('Sun', 100) }),
+      makeRing('Progressed', { venus: makePoint('Venus', 162) }),
+      makeRing('Transits', { mars: makePoint('Mars', 104), jupiter: makePoint('Jupiter', 162.5) }),
+    ]
+    const pairs = findMultiWheelAspects(rings, [
+      { type: 'progressions', targetDate: '2026-01-01' },
+      { type: 'transit', date: '2026-01-01T00:00:00.000Z' },
+    ])
+
+    expect(pairs.map((pair) => [pair.inner, pair.outer])).toEqual([
+      [0, 1],
+      [0, 2],
+      [1, 2],
+    ])
+    // The progressed sextile is 2° wide, beyond the 1° limit for progressions
+    expect(pairs[0]!.aspects).toEqual([])
+    expect(pairs[1]!.aspects.map((a) => a.p2_name)).toEqual(['Jupiter', 'Mars'])
+    expect(pairs[2]!.aspects.map((a) => [a.p1_name, a.aspect, a.p2_name])).toEqual([
+      ['Venus', 'conjunction', 'Jupiter'],
+    ])
+  })
+})
+
+describe('getRingPairLabel', () => {
+  it('should join the ring labels', () => {
+    const rings = [makeRing('Natal', {}), makeRing('Solar Return 2026', {})]
+    expect(getRingPairLabel(rings, { inner: 0, outer: 1 })).toBe('Natal × Solar Return 2026')
+  })
+})
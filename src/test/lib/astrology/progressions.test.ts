@@ -0,0 +1,245 @@
+/**
+ * Unit Tests for secondary progressions and solar arc directions
+ *
+ * Covers symbolic time (a day for a year), the progressed house longitude,
+ * directed points and aspects, and the progressed lunation phase.
+ *
+ * @module src/lib/astrology/progressions
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  getBirthInstant,
+  getAgeInYears,
+  getProgressedInstant,
+  getTargetFromProgressedInstant,
+  getProgressedHouseLongitude,
+  toProgressedSubject,
+  getSolarArc,
+  directPoint,
+  directSubject,
+  findDirectedAspects,
+  getProgressedLunation,
+  formatSolarArcContext,
+  formatProgressedLunationContext,
+  MEAN_PROGRESSED_ELONGATION_RATE,
+  TROPICAL_YEAR_DAYS,
+} from '@/lib/astrology/progressions'
+import type { EnrichedSubjectModel, Point } from '@/types/astrology'
+import type { Subject } from '@/types/subjects'
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const subject: Subject = {
+  id: 's1',
+  name: 'Giulia Rossi',
+  birth_datetime: '1985-07-12T14:30:00.000Z',
+  city: 'Rome',
+  nation: 'IT',
+  latitude: 41.9,
+  longitude: 12.5,
+  timezone: 'Europe/Rome',
+  rodens_rating: 'AA',
+  tags: null,
+  notes: null,
+}
+
+function makePoint(name: string, absPos: number, extra: Partial<Point> = {}): Point {
+  return {
+    name,
+    quality: 'Cardinal',
+    element: 'Fire',
+    sign: 'Ari',
+    sign_num: 0,
+    position: absPos % 30,
+    abs_pos: absPos,
+    emoji: '♈️',
+    point_type: 'AstrologicalPoint',
+    house: 'First_House',
+    retrograde: false,
+    ...extra,
+  }
+}
+
+function makeSubject(name: string, points: Record<string, Point>): EnrichedSubjectModel {
+  return { name, iso_formatted_utc_datetime: '1985-07-12T12:30:00.000Z', ...points } as unknown as EnrichedSubjectModel
+}
+
+// ============================================================================
+// Symbolic time
+// ============================================================================
+
+describe('getBirthInstant', () => {
+  it('should remove the zone offset in force at birth', () => {
+    expect(getBirthInstant(subject).toISOString()).toBe('1985-07-12T12:30:00.000Z')
+  })
+
+  it('should treat unknown zones as UT', () => {
+    expect(getBirthInstant({ ...subject, timezone: 'Mars/Olympus' }).toISOString()).toBe('1985-07-12T14:30:00.000Z')
+  })
+})
+
+describe('progressed instant', () => {
+  const birth = new Date('1985-07-12T12:30:00.000Z')
+  const target = new Date(birth.getTime() + 30 * TROPICAL_YEAR_DAYS * DAY_MS)
+
+  it('should move one day after birth for each year of life', () => {
+    expect(getAgeInYears(birth, target)).toBeCloseTo(30, 9)
+    expect(getProgressedInstant(birth, target).toISOString()).toBe('1985-08-11T12:30:00.000Z')
+  })
+
+  it('should invert the progressed instant back to the target date', () => {
+    const progressed = getProgressedInstant(birth, target)
+    expect(getTargetFromProgressedInstant(birth, progressed).getTime()).toBeCloseTo(target.getTime(), -1)
+  })
+})
+
+describe('getProgressedHouseLongitude', () => {
+  it('should move the observer west by the fraction of the year', () => {
+    expect(getProgressedHouseLongitude(12, 0.25)).toBeCloseTo(-78)
+  })
+
+  it('should keep whole years at the birth longitude', () => {
+    expect(getProgressedHouseLongitude(12, 30)).toBeCloseTo(12)
+  })
+
+  it('should wrap into the [-180, 180) range', () => {
+    expect(getProgressedHouseLongitude(-170, 0.5)).toBeCloseTo(10)
+  })
+})
+
+describe('toProgressedSubject', () => {
+  it('should cast the progressed moment in UT', () => {
+    const progressed = toProgressedSubject(subject, new Date('2015-07-12T12:30:00.000Z'))
+    expect(progressed).toMatchObject({ id: 's1-progressed', name: 'Progressed', timezone: 'UTC', latitude: 41.9 })
+    expect(progressed.birth_datetime.startsWith('1985-08-11')).toBe(true)
+  })
+
+  it('should reject target dates before birth', () => {
+    expect(() => toProgressedSubject(subject, new Date('1980-01-01'))).toThrow(
+      'Progression date must be after the birth date',
+    )
+  })
+})
+
+// ============================================================================
+// Solar arc
+// ============================================================================
+
+describe('getSolarArc', () => {
+  it('should measure forward motion across 0° Aries', () => {
+    expect(getSolarArc(350, 10)).toBeCloseTo(20)
+  })
+})
+
+describe('directPoint', () => {
+  it('should recompute the sign after crossing into a new sign', () => {
+    const directed = directPoint(makePoint('Sun', 358, { sign: 'Pis', sign_num: 11, speed: 1 }), 5)
+    expect(directed).toMatchObject({ abs_pos: 3, sign: 'Ari', sign_num: 0, element: 'Fire', speed: null })
+    expect(directed.position).toBeCloseTo(3)
+  })
+})
+
+describe('directSubject', () => {
+  it('should move every point by the arc and date the chart at the target', () => {
+    const natal = makeSubject('Giulia', { sun: makePoint('Sun', 100), first_house: makePoint('Ascendant', 200) })
+    const directed = directSubject(natal, 30, new Date('2015-07-12T00:00:00.000Z'))
+    expect(directed.name).toBe('Solar Arc')
+    expect(directed.sun.abs_pos).toBe(130)
+    expect(directed.first_house?.abs_pos).toBe(230)
+    expect(directed.iso_formatted_utc_datetime).toBe('2015-07-12T00:00:00.000Z')
+  })
+})
+
+describe('findDirectedAspects', () => {
+  const natal = makeSubject('Giulia', { sun: makePoint('Sun', 100) })
+
+  it('should find applying and separating aspects within a degree, tightest first', () => {
+    const directed = makeSubject('Solar Arc', {
+      mars: makePoint('Mars', 189.5),
+      venus: makePoint('Venus', 160.2),
+      jupiter: makePoint('Jupiter', 250),
+    })
+    const aspects = findDirectedAspects(natal, directed)
+    expect(aspects.map((a) => [a.p2_name, a.aspect, a.aspect_movement])).toEqual([
+      ['Venus', 'sextile', 'Separating'],
+      ['Mars', 'square', 'Applying'],
+    ])
+    expect(aspects[0]).toMatchObject({ p1_name: 'Sun', p1_owner: 'Giulia', p2_owner: 'Solar Arc' })
+  })
+
+  it('should cap preference orbs at the direction orb', () => {
+    const directed = makeSubject('Solar Arc', { mars: makePoint('Mars', 192) })
+    expect(findDirectedAspects(natal, directed, { activeAspects: [{ name: 'square', orb: 8 }] })).toEqual([])
+    expect(
+      findDirectedAspects(natal, directed, { activeAspects: [{ name: 'square', orb: 8 }], maxOrb: 3 }),
+    ).toHaveLength(1)
+  })
+
+  it('should only use active points', () => {
+    const directed = makeSubject('Solar Arc', { mars: makePoint('Mars', 190) })
+    expect(findDirectedAspects(natal, directed, { activePoints: ['Sun', 'Moon'] })).toEqual([])
+  })
+})
+
+// ============================================================================
+// Progressed lunation
+// ============================================================================
+
+describe('getProgressedLunation', () => {
+  const birth = new Date('1985-07-12T12:30:00.000Z')
+
+  it('should locate the phase and time the next changes from the daily speeds', () => {
+    const progressed = makeSubject('Progressed', {
+      sun: makePoint('Sun', 10, { speed: 1 }),
+      moon: makePoint('Moon', 110, { speed: 13 }),
+    })
+    const lunation = getProgressedLunation(progressed, birth, 40)
+
+    expect(lunation.phase).toBe('First Quarter')
+    expect(lunation.elongation).toBeCloseTo(100)
+    expect(lunation.degreesIntoPhase).toBeCloseTo(10)
+    expect(lunation.ratePerYear).toBe(12)
+    expect(lunation.cycleStartAge).toBeCloseTo(40 - 100 / 12)
+    expect(lunation.nextPhases).toHaveLength(8)
+    expect(lunation.nextPhases[0]).toMatchObject({ phase: 'Gibbous' })
+    expect(lunation.nextPhases[0]!.ageYears).toBeCloseTo(40 + 35 / 12)
+    expect(lunation.nextPhases[7]!.phase).toBe('First Quarter')
+  })
+
+  it('should fall back to the mean synodic rate without speeds', () => {
+    const progressed = makeSubject('Progressed', { sun: makePoint('Sun', 300), moon: makePoint('Moon', 290) })
+    const lunation = getProgressedLunation(progressed, birth, 20)
+    expect(lunation.phase).toBe('Balsamic')
+    expect(lunation.ratePerYear).toBe(MEAN_PROGRESSED_ELONGATION_RATE)
+  })
+})
+
+// ============================================================================
+// AI context
+// ============================================================================
+
+describe('context formatters', () => {
+  it('should list the arc and the directed aspects', () => {
+    const natal = makeSubject('Giulia', { sun: makePoint('Sun', 100) })
+    const directed = directSubject(natal, 90.5, new Date('2015-07-12T00:00:00.000Z'))
+    const context = formatSolarArcContext(natal, directed, findDirectedAspects(natal, directed))
+
+    expect(context).toContain('Solar Arc Directions for Giulia on 2015-07-12')
+    expect(context).toContain('Solar arc: 90.50°')
+    expect(context).toContain('- Directed Sun square natal Sun (orb 0.50°, separating)')
+  })
+
+  it('should describe the current and next progressed lunation phases', () => {
+    const progressed = makeSubject('Progressed', {
+      sun: makePoint('Sun', 0, { speed: 1 }),
+      moon: makePoint('Moon', 50, { speed: 13 }),
+    })
+    const context = formatProgressedLunationContext(getProgressedLunation(progressed, new Date('1985-07-12'), 10))
+    expect(context).toContain('- Current phase: Crescent')
+    expect(context).toContain('- First Quarter begins at age 13.3')
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * Unit Tests for birth time rectification
+ *
+ * Life events are placed at the dates when solar arc directions of a known
+ * birth chart perfect, so the true birth time must show those contacts.
+ *
+ * @module src/lib/astrology/rectification
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  formatLongitude,
+  formatMinutes,
+  getCandidateMinutes,
+  getRectifiedRodensRating,
+  parseMinutes,
+  rankBirthTimes,
+  MAX_RECTIFICATION_CANDIDATES,
+  type RectificationOptions,
+} from '@/lib/astrology/rectification'
+import { TROPICAL_YEAR_DAYS } from '@/lib/astrology/progressions'
+import { normalizeDegrees } from '@/lib/astrology/transit-timeline'
+import { getApparentLongitude } from '@/lib/ephemeris/astronomy'
+import { calculateAngles } from '@/lib/ephemeris/houses'
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const DAY_MS = 86_400_000
+
+/** 20 May 1980, 14:15 BST in London */
+const BIRTH = new Date('1980-05-20T13:15:00Z')
+const LONDON = { latitude: 51.5074, longitude: -0.1278 }
+
+const natalAngles = calculateAngles(BIRTH, LONDON.latitude, LONDON.longitude)
+const natalSun = getApparentLongitude('sun', BIRTH)
+
+/**
+ * Date (YYYY-MM-DD) at which the solar arc reaches the given value
+ */
+function dateForArc(arc: number): string {
+  let ageYears = arc
+  for (let i = 0; i < 5; i++) {
+    const progressedSun = getApparentLongitude('sun', new Date(BIRTH.getTime() + ageYears * DAY_MS))
+    ageYears += (arc - normalizeDegrees(progressedSun - natalSun)) / 0.9856
+  }
+  return new Date(BIRTH.getTime() + ageYears * TROPICAL_YEAR_DAYS * DAY_MS).toISOString().split('T')[0]!
+}
+
+const mercury = getApparentLongitude('mercury', BIRTH)
+const mars = getApparentLongitude('mars', BIRTH)
+
+const OPTIONS: RectificationOptions = {
+  birthDate: '1980-05-20',
+  timezone: 'Europe/London',
+  ...LONDON,
+  windowStartMinutes: 12 * 60,
+  windowEndMinutes: 16 * 60,
+  stepMinutes: 5,
+  events: [
+    // Directed Sun conjunct the Midheaven
+    { id: 'sun-mc', date: dateForArc(normalizeDegrees(natalAngles.midheaven - natalSun)) },
+    // Directed Mercury conjunct the Midheaven
+    { id: 'mercury-mc', date: dateForArc(normalizeDegrees(natalAngles.midheaven - mercury)) },
+    // Directed Mars conjunct the Ascendant
+    { id: 'mars-asc', date: dateForArc(normalizeDegrees(natalAngles.ascendant - mars)) },
+  ],
+}
+
+// ============================================================================
+// Candidate times
+// ============================================================================
+
+describe('getCandidateMinutes', () => {
+  it('should include both ends of the window when the step divides it', () => {
+    expect(getCandidateMinutes(600, 620, 5)).toEqual([600, 605, 610, 615, 620])
+  })
+
+  it('should stop before the end otherwise', () => {
+    expect(getCandidateMinutes(0, 10, 4)).toEqual([0, 4, 8])
+  })
+
+  it('should be empty for an inverted window', () => {
+    expect(getCandidateMinutes(60, 0, 5)).toEqual([])
+  })
+})
+
+describe('formatMinutes and parseMinutes', () => {
+  it('should round-trip times of day', () => {
+    expect(formatMinutes(855)).toBe('14:15')
+    expect(parseMinutes('14:15')).toBe(855)
+    expect(parseMinutes('07:05:30')).toBe(425)
+  })
+})
+
+describe('formatLongitude', () => {
+  it('should format degrees and minutes in the sign', () => {
+    expect(formatLongitude(23.5)).toBe("23°30' Ari")
+    expect(formatLongitude(359.99)).toBe("29°59' Pis")
+    expect(formatLongitude(-30)).toBe("0°00' Pis")
+  })
+})
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+describe('rankBirthTimes', () => {
+  const ranked = rankBirthTimes(OPTIONS)
+
+  it('should score every candidate in the window, best first', () => {
+    expect(ranked).toHaveLength(49)
+    for (let i = 1; i < ranked.length; i++) {
+      expect(ranked[i - 1]!.score).toBeGreaterThanOrEqual(ranked[i]!.score)
+    }
+  })
+
+  it('should find the directions that perfect at the true birth time', () => {
+    const truth = ranked.find((candidate) => candidate.time === '14:15')!
+
+    expect(truth.birthDatetime).toBe('1980-05-20T14:15:00.000Z')
+    expect(truth.midheaven).toBeCloseTo(natalAngles.midheaven, 6)
+    expect(truth.contacts).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ eventId: 'sun-mc', technique: 'solar-arc', point: 'Sun', target: 'Medium_Coeli' }),
+        expect.objectContaining({
+          eventId: 'mercury-mc',
+          technique: 'solar-arc',
+          point: 'Mercury',
+          target: 'Medium_Coeli',
+        }),
+        expect.objectContaining({ eventId: 'mars-asc', technique: 'solar-arc', point: 'Mars', target: 'Ascendant' }),
+      ]),
+    )
+    const sunToMc = truth.contacts.find((contact) => contact.eventId === 'sun-mc' && contact.point === 'Sun')!
+    expect(sunToMc.aspect).toBe('conjunction')
+    expect(sunToMc.orb).toBeLessThan(0.1)
+  })
+
+  it('should lose the contacts when the angles move away', () => {
+    const later = ranked.find((candidate) => candidate.time === '15:15')!
+
+    expect(later.contacts.some((contact) => contact.eventId === 'sun-mc' && contact.point === 'Sun')).toBe(false)
+  })
+
+  it('should sum the contact scores by technique', () => {
+    for (const candidate of ranked.slice(0, 5)) {
+      const total = candidate.contacts.reduce((sum, contact) => sum + contact.score, 0)
+      expect(candidate.score).toBeCloseTo(total, 9)
+      expect(candidate.scores.transit + candidate.scores.progression + candidate.scores['solar-arc']).toBeCloseTo(
+        candidate.score,
+        9,
+      )
+    }
+  })
+
+  it('should ignore events before birth', () => {
+    const [best] = rankBirthTimes({ ...OPTIONS, events: [{ id: 'before', date: '1970-01-01' }] })
+
+    expect(best!.score).toBe(0)
+    expect(best!.contacts).toEqual([])
+  })
+
+  it('should reject windows with too many candidates', () => {
+    expect(() =>
+      rankBirthTimes({
+        ...OPTIONS,
+        windowStartMinutes: 0,
+        windowEndMinutes: MAX_RECTIFICATION_CANDIDATES,
+        stepMinutes: 1,
+      }),
+    ).toThrow(/maximum is 721/)
+  })
+})
+
+describe('getRectifiedRodensRating', () => {
+  it('should rate untimed data XR and timed data CR', () => {
+    expect(getRectifiedRodensRating('X')).toBe('XR')
+    expect(getRectifiedRodensRating('AX')).toBe('XR')
+    expect(getRectifiedRodensRating('C')).toBe('CR')
+    expect(getRectifiedRodensRating('DD')).toBe('CR')
+    expect(getRectifiedRodensRating(null)).toBe('CR')
+  })
+})
@@ -0,0 +1,230 @@
+/**
+ * Unit Tests for Time-Lord Systems
+ *
+ * Tests profections, firdaria, zodiacal releasing (including the loosing of
+ * the bond and peak periods) and the Vimshottari dasha.
+ *
+ * @module src/lib/astrology/time-lords
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  calculateFirdaria,
+  calculateProfections,
+  calculateTimeLords,
+  calculateVimshottariDasha,
+  calculateZodiacalReleasing,
+  findCurrentPeriods,
+  formatTimeLordsContext,
+  isPeakPeriod,
+} from '@/lib/astrology/time-lords'
+import { TROPICAL_YEAR_DAYS } from '@/lib/astrology/progressions'
+import type { EnrichedSubjectModel } from '@/types/astrology'
+import { createPoint } from '@/test/fixtures/points'
+
+// ============================================================================
+// MOCK DATA FACTORIES
+// ============================================================================
+
+const DAY_MS = 86_400_000
+const YEAR_MS = TROPICAL_YEAR_DAYS * DAY_MS
+const BIRTH = new Date('2000-01-01T00:00:00Z')
+
+function yearsAfterBirth(years: number): number {
+  return BIRTH.getTime() + years * YEAR_MS
+}
+
+function createSubject(overrides: Partial<EnrichedSubjectModel> = {}): EnrichedSubjectModel {
+  const positions = { sun: 280, moon: 10, mercury: 290, venus: 250, mars: 330, jupiter: 25, saturn: 40 }
+  return {
+    name: 'Test',
+    iso_formatted_utc_datetime: BIRTH.toISOString(),
+    zodiac_type: 'Tropical',
+    ...Object.fromEntries(Object.entries(positions).map(([key, longitude]) => [key, createPoint(key, longitude)])),
+    ascendant: createPoint('Ascendant', 190),
+    ...overrides,
+  } as unknown as EnrichedSubjectModel
+}
+
+// ============================================================================
+// PROFECTIONS
+// ============================================================================
+
+describe('calculateProfections', () => {
+  it('advances one sign per year from the Ascendant', () => {
+    const profections = calculateProfections(BIRTH, 10, 13)
+
+    expect(profections.map((year) => year.label).slice(0, 3)).toEqual(['Ari', 'Tau', 'Gem'])
+    expect(profections.map((year) => year.lord).slice(0, 3)).toEqual(['Mars', 'Venus', 'Mercury'])
+    expect(profections[12]!.label).toBe('Ari')
+    expect(profections[1]!.start.getTime()).toBe(yearsAfterBirth(1))
+  })
+
+  it('divides each year into twelve monthly profections from the year sign', () => {
+    const [, second] = calculateProfections(BIRTH, 10, 2)
+    const months = second!.subPeriods!
+
+    expect(months).toHaveLength(12)
+    expect(months[0]!.label).toBe('Tau')
+    expect(months[1]).toMatchObject({ label: 'Gem', lord: 'Mercury' })
+    expect(months[11]!.end.getTime()).toBe(second!.end.getTime())
+  })
+})
+
+// ============================================================================
+// FIRDARIA
+// ============================================================================
+
+describe('calculateFirdaria', () => {
+  it('starts with the Sun by day and spans 75 years', () => {
+    const firdaria = calculateFirdaria(BIRTH, true)
+
+    expect(firdaria.map((period) => period.lord)).toEqual([
+      'Sun',
+      'Venus',
+      'Mercury',
+      'Moon',
+      'Saturn',
+      'Jupiter',
+      'Mars',
+      'North Node',
+      'South Node',
+    ])
+    expect(firdaria[8]!.end.getTime()).toBeCloseTo(yearsAfterBirth(75), -3)
+  })
+
+  it('starts with the Moon by night and orders sub-periods from the period lord', () => {
+    const [moon] = calculateFirdaria(BIRTH, false)
+
+    expect(moon!.lord).toBe('Moon')
+    expect(moon!.subPeriods!.map((period) => period.lord)).toEqual([
+      'Moon',
+      'Saturn',
+      'Jupiter',
+      'Mars',
+      'Sun',
+      'Venus',
+      'Mercury',
+    ])
+  })
+
+  it('gives the Nodes no sub-periods', () => {
+    const firdaria = calculateFirdaria(BIRTH, true)
+    expect(firdaria[7]!.subPeriods).toBeUndefined()
+  })
+})
+
+// ============================================================================
+// ZODIACAL RELEASING
+// ============================================================================
+
+describe('calculateZodiacalReleasing', () => {
+  // Lot in Cancer (25 years), Fortune in Aries
+  const releasing = calculateZodiacalReleasing(BIRTH, 100, 10)
+
+  it('gives each sign its minor years of 360 days', () => {
+    expect(releasing[0]!.label).toBe('Can')
+    expect(releasing[0]!.end.getTime() - BIRTH.getTime()).toBe(25 * 360 * DAY_MS)
+    expect(releasing[1]).toMatchObject({ label: 'Leo', lord: 'Sun' })
+  })
+
+  it('counts signs from Fortune to find the peak periods', () => {
+    expect(releasing[0]!.fromFortune).toBe(4)
+    expect(isPeakPeriod(releasing[0]!)).toBe(true)
+    expect(isPeakPeriod(releasing[1]!)).toBe(false)
+  })
+
+  it('jumps to the opposite sign after the twelfth sub-period', () => {
+    // The twelve signs from Cancer take 6330 days at the second level, Cancer lasts 9000
+    const subPeriods = releasing[0]!.subPeriods!
+
+    expect(subPeriods[11]!.label).toBe('Gem')
+    expect(subPeriods[12]).toMatchObject({ label: 'Cap', loosingOfBond: true, fromFortune: 10 })
+    expect(subPeriods[13]!.label).toBe('Aqu')
+    expect(subPeriods[subPeriods.length - 1]!.end.getTime()).toBe(releasing[0]!.end.getTime())
+  })
+})
+
+// ============================================================================
+// VIMSHOTTARI DASHA
+// ============================================================================
+
+describe('calculateVimshottariDasha', () => {
+  it('starts from the lord of the Moon nakshatra', () => {
+    const dasha = calculateVimshottariDasha(BIRTH, 0)
+
+    expect(dasha.map((period) => period.lord)).toEqual([
+      'Ketu',
+      'Venus',
+      'Sun',
+      'Moon',
+      'Mars',
+      'Rahu',
+      'Jupiter',
+      'Saturn',
+      'Mercury',
+    ])
+    expect(dasha[0]!.start.getTime()).toBe(BIRTH.getTime())
+    expect(dasha[8]!.end.getTime()).toBeCloseTo(yearsAfterBirth(120), -3)
+  })
+
+  it('backdates the first dasha by the part of the nakshatra already crossed', () => {
+    const [ketu] = calculateVimshottariDasha(BIRTH, 360 / 27 / 2)
+    expect(ketu!.start.getTime()).toBeCloseTo(yearsAfterBirth(-3.5), -3)
+
+    const [venus] = calculateVimshottariDasha(BIRTH, 14)
+    expect(venus!.lord).toBe('Venus')
+  })
+
+  it('divides each mahadasha into antardashas proportional to their years', () => {
+    const [ketu] = calculateVimshottariDasha(BIRTH, 0)
+    const antardashas = ketu!.subPeriods!
+
+    expect(antardashas[0]!.lord).toBe('Ketu')
+    expect(antardashas[1]!.lord).toBe('Venus')
+    expect(antardashas[0]!.end.getTime() - antardashas[0]!.start.getTime()).toBeCloseTo(((7 * 7) / 120) * YEAR_MS, -3)
+  })
+})
+
+// ============================================================================
+// ALL SYSTEMS
+// ============================================================================
+
+describe('calculateTimeLords', () => {
+  it('returns null without an Ascendant', () => {
+    expect(calculateTimeLords(createSubject({ ascendant: undefined }))).toBeNull()
+  })
+
+  it('computes the dasha for sidereal charts only', () => {
+    expect(calculateTimeLords(createSubject())!.dasha).toBeNull()
+    expect(calculateTimeLords(createSubject({ zodiac_type: 'Sidereal' }))!.dasha).toHaveLength(9)
+  })
+
+  it('uses the nocturnal firdaria when the Sun is below the horizon', () => {
+    // Sun at 280 with the Ascendant at 190 lies in the 4th house
+    expect(calculateTimeLords(createSubject())!.firdaria[0]!.lord).toBe('Moon')
+  })
+})
+
+describe('findCurrentPeriods', () => {
+  it('returns the running period and sub-period', () => {
+    const profections = calculateProfections(BIRTH, 10, 3)
+    const [year, month] = findCurrentPeriods(profections, new Date(yearsAfterBirth(1.1)))
+
+    expect(year!.label).toBe('Tau')
+    expect(month!.label).toBe('Gem')
+    expect(findCurrentPeriods(profections, new Date(yearsAfterBirth(5)))).toEqual([])
+  })
+})
+
+describe('formatTimeLordsContext', () => {
+  it('describes the periods running at a date', () => {
+    const timeLords = calculateTimeLords(createSubject({ zodiac_type: 'Sidereal' }))!
+    const context = formatTimeLordsContext(timeLords, new Date(yearsAfterBirth(1.5)))
+
+    expect(context).toContain('Time lords on 2001-07-01')
+    expect(context).toContain('Annual profection: Sco year, lord of the year Mars')
+    expect(context).toContain('Firdaria: Moon period')
+    expect(context).toContain('Zodiacal releasing from Spirit: L1')
+    expect(context).toContain('Vimshottari dasha: Ketu mahadasha')
+  })
+})
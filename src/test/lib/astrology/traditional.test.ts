@@ -0,0 +1,168 @@
+/**
+ * Unit Tests for Traditional Techniques
+ *
+ * Tests essential dignities under both triplicity and term schemes, sect,
+ * receptions, the Almuten Figuris and the Hellenistic lots.
+ *
+ * @module src/lib/astrology/traditional
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  analyzeTraditionalChart,
+  calculateLots,
+  estimatePrenatalSyzygy,
+  findReceptions,
+  getDegreeRulers,
+  isDayChart,
+  type TraditionalPlanet,
+} from '@/lib/astrology/traditional'
+import type { EnrichedSubjectModel } from '@/types/astrology'
+import { createPoint } from '@/test/fixtures/points'
+
+// ============================================================================
+// MOCK DATA FACTORIES
+// ============================================================================
+
+/** Sun in Leo, Moon in Scorpio, Mercury in Virgo, Venus in Aries, Mars in Libra, Jupiter in Cancer, Saturn in Aries */
+const POSITIONS: Record<TraditionalPlanet, number> = {
+  Sun: 130,
+  Moon: 215,
+  Mercury: 160,
+  Venus: 5,
+  Mars: 195,
+  Jupiter: 100,
+  Saturn: 25,
+}
+
+function createSubject(ascendant: number | null): EnrichedSubjectModel {
+  return {
+    name: 'Test',
+    ...Object.fromEntries(
+      Object.entries(POSITIONS).map(([planet, longitude]) => [planet.toLowerCase(), createPoint(planet, longitude)]),
+    ),
+    ...(ascendant !== null && { ascendant: createPoint('Ascendant', ascendant) }),
+  } as unknown as EnrichedSubjectModel
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('getDegreeRulers', () => {
+  it('should give the lords of the first degree of Aries', () => {
+    expect(getDegreeRulers(0, true)).toEqual({
+      domicile: 'Mars',
+      exaltation: 'Sun',
+      triplicity: ['Sun', 'Jupiter', 'Saturn'],
+      term: 'Jupiter',
+      face: 'Mars',
+    })
+  })
+
+  it('should put the night triplicity lord first at night', () => {
+    expect(getDegreeRulers(125, false).triplicity).toEqual(['Jupiter', 'Sun', 'Saturn'])
+  })
+
+  it('should follow the chosen table of terms', () => {
+    expect(getDegreeRulers(25.5, true, { triplicity: 'dorothean', terms: 'egyptian' }).term).toBe('Saturn')
+    expect(getDegreeRulers(25.5, true, { triplicity: 'dorothean', terms: 'ptolemaic' }).term).toBe('Mars')
+  })
+
+  it('should give water to Mars by day and night under Lilly', () => {
+    expect(getDegreeRulers(100, true, { triplicity: 'lilly', terms: 'egyptian' }).triplicity).toEqual(['Mars'])
+  })
+
+  it('should follow the Chaldean order for faces', () => {
+    expect(getDegreeRulers(25, true).face).toBe('Venus')
+    expect(getDegreeRulers(355, true).face).toBe('Mars')
+  })
+})
+
+describe('isDayChart', () => {
+  it('should be a day chart when the Sun is above the horizon', () => {
+    expect(isDayChart(270, 0)).toBe(true)
+    expect(isDayChart(90, 0)).toBe(false)
+  })
+})
+
+describe('findReceptions', () => {
+  it('should find mutual receptions by domicile', () => {
+    const receptions = findReceptions(POSITIONS)
+
+    expect(receptions).toContainEqual({ planet: 'Venus', receiver: 'Mars', dignity: 'domicile', mutual: true })
+    expect(receptions).toContainEqual({ planet: 'Mars', receiver: 'Venus', dignity: 'domicile', mutual: true })
+    expect(receptions).toContainEqual({ planet: 'Saturn', receiver: 'Sun', dignity: 'exaltation', mutual: false })
+    expect(receptions.some((reception) => reception.planet === 'Sun')).toBe(false)
+  })
+})
+
+describe('calculateLots', () => {
+  it('should reverse the lots in night charts', () => {
+    const positions = { ...POSITIONS, Sun: 270, Moon: 30 }
+
+    const [dayFortune, daySpirit] = calculateLots(positions, 0, true, ['fortune', 'spirit'])
+    expect(dayFortune).toMatchObject({ name: 'Lot of Fortune', longitude: 120, sign: 'Leo', ruler: 'Sun' })
+    expect(daySpirit!.longitude).toBe(240)
+
+    const [nightFortune] = calculateLots(positions, 0, false, ['fortune'])
+    expect(nightFortune).toMatchObject({ longitude: 240, formula: 'Asc + Sun - Moon' })
+  })
+
+  it('should derive lots from Fortune and Spirit', () => {
+    const positions = { ...POSITIONS, Sun: 270, Moon: 30 }
+
+    const [eros] = calculateLots(positions, 0, true, ['eros'])
+    expect(eros).toMatchObject({ id: 'eros', longitude: 125, formula: 'Asc + Venus - Spirit' })
+  })
+})
+
+describe('estimatePrenatalSyzygy', () => {
+  it('should step back to the last new Moon', () => {
+    const syzygy = estimatePrenatalSyzygy(createPoint('Sun', 10, { speed: 1 }), createPoint('Moon', 70, { speed: 13 }))
+
+    expect(syzygy.name).toBe('Prenatal New Moon')
+    expect(syzygy.longitude).toBeCloseTo(5)
+  })
+
+  it('should step back to the last full Moon', () => {
+    const syzygy = estimatePrenatalSyzygy(createPoint('Sun', 10, { speed: 1 }), createPoint('Moon', 214, { speed: 13 }))
+
+    expect(syzygy.name).toBe('Prenatal Full Moon')
+    expect(syzygy.longitude).toBeCloseTo(188)
+  })
+})
+
+describe('analyzeTraditionalChart', () => {
+  it('should score dignities and debilities', () => {
+    const analysis = analyzeTraditionalChart(createSubject(0))!
+    const dignity = (planet: TraditionalPlanet) => analysis.dignities.find((entry) => entry.planet === planet)!
+
+    expect(analysis.isDayChart).toBe(false)
+    expect(analysis.sectLight).toBe('Moon')
+    expect(dignity('Sun')).toMatchObject({ domicile: true, peregrine: false })
+    expect(dignity('Mercury')).toMatchObject({ domicile: true, exaltation: true })
+    expect(dignity('Moon')).toMatchObject({ fall: true })
+    expect(dignity('Venus')).toMatchObject({ detriment: true, inSect: true })
+    expect(dignity('Saturn')).toMatchObject({ fall: true, inSect: false })
+    expect(dignity('Jupiter').score).toBeGreaterThanOrEqual(4)
+  })
+
+  it('should name the planets with the highest score as Almuten', () => {
+    const { almuten } = analyzeTraditionalChart(createSubject(0))!
+    const best = Math.max(...Object.values(almuten.scores))
+
+    expect(almuten.places.map((place) => place.name)).toEqual([
+      'Sun',
+      'Moon',
+      'Ascendant',
+      'Lot of Fortune',
+      'Prenatal New Moon',
+    ])
+    expect(almuten.planets.length).toBeGreaterThan(0)
+    expect(almuten.planets.every((planet) => almuten.scores[planet] === best)).toBe(true)
+  })
+
+  it('should return null without an Ascendant', () => {
+    expect(analyzeTraditionalChart(createSubject(null))).toBeNull()
+  })
+})
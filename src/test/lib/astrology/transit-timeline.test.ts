@@ -0,0 +1,294 @@
+/**
+ * Unit Tests for the Transit Timeline Engine
+ *
+ * Tests event detection (orb ingress, exact hits, orb exit) and bisection
+ * refinement against synthetic ephemerides with known analytic solutions.
+ *
+ * @module src/lib/astrology/transit-timeline
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  findTransitEvents,
+  getAspectTargets,
+  planSampling,
+  signedDelta,
+  subjectToPositions,
+  buildSampleTimes,
+  EXACT_TIME_TOLERANCE_MS,
+  TimelineBudgetError,
+  type PointPositions,
+  type PositionProvider,
+} from '@/lib/astrology/transit-timeline'
+import type { EnrichedSubjectModel, Point } from '@/types/astrology'
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const START = new Date('2025-01-01T00:00:00.000Z')
+
+/**
+ * Creates a provider for a single point whose longitude is a function of days since START.
+ */
+function createProvider(name: string, longitude: (days: number) => number): PositionProvider {
+  return async (time: Date): Promise<PointPositions> => {
+    const days = (time.getTime() - START.getTime()) / DAY_MS
+    const speed = longitude(days + 0.001) - longitude(days - 0.001)
+    return {
+      [name]: { abs_pos: ((longitude(days) % 360) + 360) % 360, retrograde: speed < 0 },
+    }
+  }
+}
+
+function daysAfterStart(iso: string | null): number {
+  if (!iso) throw new Error('Expected a date')
+  return (new Date(iso).getTime() - START.getTime()) / DAY_MS
+}
+
+const ONE_MINUTE_IN_DAYS = EXACT_TIME_TOLERANCE_MS / DAY_MS
+
+// ============================================================================
+// GEOMETRY HELPERS
+// ============================================================================
+
+describe('signedDelta', () => {
+  it('should return positive distance ahead of the target', () => {
+    expect(signedDelta(10, 350)).toBeCloseTo(20)
+  })
+
+  it('should return negative distance behind the target', () => {
+    expect(signedDelta(350, 10)).toBeCloseTo(-20)
+  })
+
+  it('should return 180 for opposite points', () => {
+    expect(signedDelta(190, 10)).toBeCloseTo(180)
+  })
+})
+
+describe('getAspectTargets', () => {
+  it('should return a single target for conjunctions and oppositions', () => {
+    expect(getAspectTargets(100, 0)).toEqual([100])
+    expect(getAspectTargets(100, 180)).toEqual([280])
+  })
+
+  it('should return waxing and waning targets for other aspects', () => {
+    expect(getAspectTargets(10, 120)).toEqual([130, 250])
+  })
+})
+
+describe('subjectToPositions', () => {
+  it('should map subject keys to API point names and skip houses', () => {
+    const point = (abs_pos: number, retrograde = false) => ({ abs_pos, retrograde }) as Point
+    const subject = {
+      name: 'Test',
+      sun: point(15),
+      mean_north_lunar_node: point(200, true),
+      first_house: point(0),
+    } as unknown as EnrichedSubjectModel
+
+    expect(subjectToPositions(subject)).toEqual({
+      Sun: { abs_pos: 15, retrograde: false },
+      Mean_North_Lunar_Node: { abs_pos: 200, retrograde: true },
+    })
+  })
+})
+
+// ============================================================================
+// SAMPLING
+// ============================================================================
+
+describe('planSampling', () => {
+  it('should use the step of the fastest tracked point', () => {
+    const plan = planSampling(['Saturn', 'Mars'], START, new Date(START.getTime() + 30 * DAY_MS))
+    expect(plan.stepDays).toBe(2)
+    expect(plan.includedPoints).toEqual(['Saturn', 'Mars'])
+  })
+
+  it('should skip fast points that exceed the sample budget over long ranges', () => {
+    const tenYears = new Date(START.getTime() + 3650 * DAY_MS)
+    const plan = planSampling(['Moon', 'Sun', 'Saturn', 'Pluto'], START, tenYears)
+
+    expect(plan.skippedPoints).toEqual(['Moon', 'Sun'])
+    expect(plan.includedPoints).toEqual(['Saturn', 'Pluto'])
+    expect(plan.stepDays).toBe(5)
+  })
+
+  it('should never track horizon-dependent points as transiting points', () => {
+    const plan = planSampling(['Ascendant', 'Pars_Fortunae', 'Sun'], START, new Date(START.getTime() + DAY_MS))
+    expect(plan.includedPoints).toEqual(['Sun'])
+    expect(plan.skippedPoints).toEqual([])
+  })
+})
+
+describe('buildSampleTimes', () => {
+  it('should include both range ends', () => {
+    const end = new Date(START.getTime() + 2.5 * DAY_MS)
+    const times = buildSampleTimes(START, end, 1)
+    expect(times).toEqual([START.getTime(), START.getTime() + DAY_MS, START.getTime() + 2 * DAY_MS, end.getTime()])
+  })
+})
+
+// ============================================================================
+// EVENT DETECTION
+// ============================================================================
+
+describe('findTransitEvents', () => {
+  it('should find ingress, exact and exit of a direct transit to the minute', async () => {
+    // Mars moves 0.5°/day from 0°, natal Sun at 10° → exact on day 20, orb 2° → days 16 to 24
+    const timeline = await findTransitEvents({
+      provider: createProvider('Mars', (d) => 0.5 * d),
+      natalPositions: { Sun: { abs_pos: 10, retrograde: false } },
+      transitPoints: ['Mars'],
+      aspects: [{ name: 'conjunction', orb: 2 }],
+      startDate: START,
+      endDate: new Date(START.getTime() + 40 * DAY_MS),
+    })
+
+    expect(timeline.events).toHaveLength(1)
+    const event = timeline.events[0]!
+    expect(event.transitPoint).toBe('Mars')
+    expect(event.natalPoint).toBe('Sun')
+    expect(event.minOrb).toBe(0)
+    expect(Math.abs(daysAfterStart(event.start) - 16)).toBeLessThanOrEqual(ONE_MINUTE_IN_DAYS)
+    expect(Math.abs(daysAfterStart(event.exactHits[0]!.date) - 20)).toBeLessThanOrEqual(ONE_MINUTE_IN_DAYS)
+    expect(Math.abs(daysAfterStart(event.end) - 24)).toBeLessThanOrEqual(ONE_MINUTE_IN_DAYS)
+    expect(event.exactHits[0]!.retrograde).toBe(false)
+  })
+
+  it('should find both waxing and waning targets of a trine', async () => {
+    // Saturn moves 1°/day from 0°, natal Moon at 150° → trines at 30° (day 30) and 270° (day 270)
+    const timeline = await findTransitEvents({
+      provider: createProvider('Saturn', (d) => d),
+      natalPositions: { Moon: { abs_pos: 150, retrograde: false } },
+      transitPoints: ['Saturn'],
+      aspects: [{ name: 'trine', orb: 1 }],
+      startDate: START,
+      endDate: new Date(START.getTime() + 300 * DAY_MS),
+    })
+
+    const exactDays = timeline.events.map((e) => daysAfterStart(e.exactHits[0]!.date))
+    expect(exactDays).toHaveLength(2)
+    expect(exactDays[0]).toBeCloseTo(30, 2)
+    expect(exactDays[1]).toBeCloseTo(270, 2)
+  })
+
+  it('should group a retrograde triple pass that stays within orb into one event', async () => {
+    // Oscillation of ±1.5° around the natal point, never leaving a 3° orb
+    const timeline = await findTransitEvents({
+      provider: createProvider('Pluto', (d) => 100 + 1.5 * Math.sin((2 * Math.PI * d) / 200)),
+      natalPositions: { Venus: { abs_pos: 100, retrograde: false } },
+      transitPoints: ['Pluto'],
+      aspects: [{ name: 'conjunction', orb: 3 }],
+      startDate: new Date(START.getTime() + 10 * DAY_MS),
+      endDate: new Date(START.getTime() + 390 * DAY_MS),
+    })
+
+    expect(timeline.events).toHaveLength(1)
+    const event = timeline.events[0]!
+    expect(event.start).toBeNull()
+    expect(event.end).toBeNull()
+
+    // Exact at days 100, 200 and 300: direct, retrograde, direct
+    expect(event.exactHits.map((hit) => Math.round(daysAfterStart(hit.date)))).toEqual([100, 200, 300])
+    expect(event.exactHits.map((hit) => hit.retrograde)).toEqual([true, false, true])
+  })
+
+  it('should detect a fast passage that enters and leaves orb between two samples', async () => {
+    // Sun sampled daily but moving 3°/day through a 1° orb
+    const timeline = await findTransitEvents({
+      provider: createProvider('Sun', (d) => 3 * d),
+      natalPositions: { Mars: { abs_pos: 31.5, retrograde: false } },
+      transitPoints: ['Sun'],
+      aspects: [{ name: 'conjunction', orb: 1 }],
+      startDate: START,
+      endDate: new Date(START.getTime() + 20 * DAY_MS),
+    })
+
+    expect(timeline.events).toHaveLength(1)
+    const event = timeline.events[0]!
+    expect(daysAfterStart(event.start)).toBeCloseTo(30.5 / 3, 2)
+    expect(daysAfterStart(event.exactHits[0]!.date)).toBeCloseTo(31.5 / 3, 2)
+    expect(daysAfterStart(event.end)).toBeCloseTo(32.5 / 3, 2)
+  })
+
+  it('should ignore aspects without a known angle', async () => {
+    const timeline = await findTransitEvents({
+      provider: createProvider('Mars', (d) => d),
+      natalPositions: { Sun: { abs_pos: 5, retrograde: false } },
+      transitPoints: ['Mars'],
+      aspects: [{ name: 'unknown-aspect', orb: 5 }],
+      startDate: START,
+      endDate: new Date(START.getTime() + 10 * DAY_MS),
+    })
+
+    expect(timeline.events).toEqual([])
+  })
+
+  it('should report points missing from the ephemeris as skipped', async () => {
+    const timeline = await findTransitEvents({
+      provider: createProvider('Mars', (d) => d),
+      natalPositions: { Sun: { abs_pos: 5, retrograde: false } },
+      transitPoints: ['Mars', 'Chiron'],
+      aspects: [{ name: 'conjunction', orb: 1 }],
+      startDate: START,
+      endDate: new Date(START.getTime() + 10 * DAY_MS),
+    })
+
+    expect(timeline.skippedPoints).toEqual(['Chiron'])
+    expect(timeline.events).toHaveLength(1)
+  })
+
+  it('should count refinement steps against the provider call budget', async () => {
+    let calls = 0
+    const provider = createProvider('Mars', (d) => d)
+    const options = {
+      provider: (time: Date) => {
+        calls++
+        return provider(time)
+      },
+      natalPositions: { Sun: { abs_pos: 5, retrograde: false } },
+      transitPoints: ['Mars'],
+      aspects: [{ name: 'conjunction', orb: 1 }],
+      startDate: START,
+      endDate: new Date(START.getTime() + 10 * DAY_MS),
+    }
+
+    await findTransitEvents(options)
+    const needed = calls
+    // 11 grid samples plus the bisection of ingress, exact hit and exit
+    expect(needed).toBeGreaterThan(11)
+
+    await expect(findTransitEvents({ ...options, maxProviderCalls: needed - 1 })).rejects.toThrow(TimelineBudgetError)
+    calls = 0
+    await expect(findTransitEvents({ ...options, maxProviderCalls: needed })).resolves.toMatchObject({
+      events: [expect.objectContaining({ transitPoint: 'Mars' })],
+    })
+    expect(calls).toBe(needed)
+  })
+
+  it('should search midpoints with their own aspects and orbs', async () => {
+    const timeline = await findTransitEvents({
+      provider: createProvider('Mars', (d) => d),
+      natalPositions: { Sun: { abs_pos: 50, retrograde: false } },
+      transitPoints: ['Mars'],
+      aspects: [{ name: 'conjunction', orb: 1 }],
+      midpoints: {
+        positions: { 'Sun/Moon': { abs_pos: 10, retrograde: false } },
+        aspects: [{ name: 'square', orb: 0.5 }],
+      },
+      startDate: START,
+      endDate: new Date(START.getTime() + 120 * DAY_MS),
+    })
+
+    const midpointEvent = timeline.events.find((event) => event.natalPoint === 'Sun/Moon')!
+    expect(midpointEvent.aspect).toBe('square')
+    expect(daysAfterStart(midpointEvent.exactHits[0]!.date)).toBeCloseTo(100, 2)
+    expect(daysAfterStart(midpointEvent.start)).toBeCloseTo(99.5, 2)
+    // Natal aspects are not searched against the midpoints, nor midpoint aspects against natal points
+    expect(timeline.events.map((event) => `${event.aspect} ${event.natalPoint}`)).toEqual([
+      'conjunction Sun',
+      'square Sun/Moon',
+    ])
+  })
+})
@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for Vedic Chart Data
+ *
+ * Tests nakshatras and padas, the Parashari divisional chart rules and the
+ * varga charts built from a subject.
+ *
+ * @module src/lib/astrology/vedic
+ */
+import { describe, it, expect } from 'vitest'
+import { calculateVargaChart, getNakshatra, getNakshatraPositions, getVargaSign } from '@/lib/astrology/vedic'
+import type { EnrichedSubjectModel } from '@/types/astrology'
+import { createPoint } from '@/test/fixtures/points'
+
+// ============================================================================
+// MOCK DATA FACTORIES
+// ============================================================================
+
+function createSubject(): EnrichedSubjectModel {
+  return {
+    name: 'Test',
+    zodiac_type: 'Sidereal',
+    sun: createPoint('Sun', 95),
+    moon: createPoint('Moon', 200),
+    saturn: createPoint('Saturn', 310, { retrograde: true }),
+    true_north_lunar_node: createPoint('True_North_Lunar_Node', 50),
+    ascendant: createPoint('Ascendant', 15),
+    medium_coeli: createPoint('Medium_Coeli', 280),
+    first_house: createPoint('First_House', 15),
+  } as unknown as EnrichedSubjectModel
+}
+
+// ============================================================================
+// NAKSHATRAS
+// ============================================================================
+
+describe('getNakshatra', () => {
+  it('finds the nakshatra, its lord and pada', () => {
+    expect(getNakshatra(0)).toEqual({ index: 0, name: 'Ashwini', lord: 'Ketu', pada: 1 })
+    expect(getNakshatra(10)).toMatchObject({ name: 'Ashwini', pada: 4 })
+    expect(getNakshatra(14)).toMatchObject({ name: 'Bharani', lord: 'Venus', pada: 1 })
+  })
+
+  it('repeats the lords three times around the zodiac', () => {
+    expect(getNakshatra(125)).toMatchObject({ name: 'Magha', lord: 'Ketu' })
+    expect(getNakshatra(359.9)).toMatchObject({ name: 'Revati', lord: 'Mercury', pada: 4 })
+  })
+})
+
+// ============================================================================
+// VARGAS
+// ============================================================================
+
+describe('getVargaSign', () => {
+  it('starts the Navamsa from the movable sign of the element', () => {
+    expect(getVargaSign(0, 9)).toBe(0)
+    // Taurus (earth) starts from Capricorn
+    expect(getVargaSign(30, 9)).toBe(9)
+    // Cancer (water) starts from Cancer; 25° is its 8th navamsa
+    expect(getVargaSign(115, 9)).toBe(10)
+  })
+
+  it('gives odd signs the Sun hora first and even signs the Moon hora first', () => {
+    expect(getVargaSign(5, 2)).toBe(4)
+    expect(getVargaSign(20, 2)).toBe(3)
+    expect(getVargaSign(35, 2)).toBe(3)
+    expect(getVargaSign(50, 2)).toBe(4)
+  })
+
+  it('counts the Drekkana through the trines of the sign', () => {
+    expect(getVargaSign(5, 3)).toBe(0)
+    expect(getVargaSign(15, 3)).toBe(4)
+    expect(getVargaSign(25, 3)).toBe(8)
+  })
+
+  it('starts the Saptamsa and Dasamsa of even signs from the 7th and 9th', () => {
+    expect(getVargaSign(30, 7)).toBe(7)
+    expect(getVargaSign(30, 10)).toBe(9)
+    expect(getVargaSign(0, 10)).toBe(0)
+  })
+
+  it('uses unequal portions for the Trimsamsa', () => {
+    // Odd sign: Mars, Saturn, Jupiter, Mercury, Venus
+    expect(getVargaSign(3, 30)).toBe(0)
+    expect(getVargaSign(12, 30)).toBe(8)
+    expect(getVargaSign(29, 30)).toBe(6)
+    // Even sign: Venus, Mercury, Jupiter, Saturn, Mars
+    expect(getVargaSign(33, 30)).toBe(1)
+    expect(getVargaSign(59, 30)).toBe(7)
+  })
+
+  it('counts the Shashtiamsa from the sign itself', () => {
+    expect(getVargaSign(30.4, 60)).toBe(1)
+    expect(getVargaSign(59.9, 60)).toBe(0)
+  })
+})
+
+describe('calculateVargaChart', () => {
+  it('places the Lagna and points without angles', () => {
+    const chart = calculateVargaChart(createSubject(), 9)!
+
+    expect(chart.varga.code).toBe('D9')
+    expect(chart.ascendantSign).toBe(getVargaSign(15, 9))
+    expect(chart.placements.map((placement) => placement.label)).toEqual(['Su', 'Mo', 'Sa', 'Ra'])
+    expect(chart.placements.find((placement) => placement.name === 'Saturn')!.retrograde).toBe(true)
+  })
+
+  it('returns null without an Ascendant', () => {
+    const subject = { ...createSubject(), ascendant: undefined, first_house: undefined }
+    expect(calculateVargaChart(subject as unknown as EnrichedSubjectModel, 1)).toBeNull()
+  })
+})
+
+describe('getNakshatraPositions', () => {
+  it('lists the Ascendant first with its Navamsa', () => {
+    const [ascendant] = getNakshatraPositions(createSubject())
+
+    expect(ascendant).toMatchObject({ name: 'Ascendant', sign: 'Ari', navamsa: 'Leo' })
+    expect(ascendant!.nakshatra.name).toBe('Bharani')
+  })
+})
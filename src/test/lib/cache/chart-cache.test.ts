@@ -0,0 +1,275 @@
+/**
+ * Unit Tests for the Server-side Chart Cache
+ *
+ * Tests request normalization, TTL policy, stampede protection, hit/miss
+ * statistics and the cache stores against a mocked Prisma client and a fake
+ * Redis connection.
+ *
+ * @module src/lib/cache/chart-cache
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+
+const { mockPrisma } = vi.hoisted(() => ({
+  mockPrisma: {
+    chartCacheStats: { upsert: vi.fn().mockResolvedValue({}) },
+    chartCacheEntry: {
+      findUnique: vi.fn(),
+      upsert: vi.fn().mockResolvedValue({}),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+  },
+}))
+
+vi.mock('@/lib/db/prisma', () => ({ prisma: mockPrisma }))
+
+vi.mock('@/lib/logging/server', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}))
+
+import { canonicalJson, ChartCache, getChartCacheKey, getChartCacheTtl } from '@/lib/cache/chart-cache'
+import {
+  MemoryChartCacheStore,
+  PrismaChartCacheStore,
+  RedisChartCacheStore,
+  type ChartCacheStore,
+} from '@/lib/cache/chart-cache-store'
+import type { RedisClient } from '@/lib/db/redis'
+
+const subject = { name: 'Ada', year: 1990, month: 6, day: 15, city: 'London' }
+
+// ============================================================================
+// KEYS AND TTL
+// ============================================================================
+
+describe('getChartCacheKey', () => {
+  it('ignores property order and undefined options', () => {
+    const a = getChartCacheKey('/chart/birth-chart', { subject, theme: 'dark', language: undefined })
+    const b = getChartCacheKey('/chart/birth-chart', { theme: 'dark', subject: { ...subject, city: 'London' } })
+    expect(a).toBe(b)
+    expect(a).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('distinguishes endpoints and options', () => {
+    const key = getChartCacheKey('/chart/birth-chart', { subject })
+    expect(getChartCacheKey('/chart/transit', { subject })).not.toBe(key)
+    expect(getChartCacheKey('/chart/birth-chart', { subject, theme: 'dark' })).not.toBe(key)
+  })
+
+  it('keeps array order', () => {
+    expect(canonicalJson({ b: [2, 1], a: { d: 1, c: null } })).toBe('{"a":{"c":null,"d":1},"b":[2,1]}')
+  })
+})
+
+describe('getChartCacheTtl', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('uses the default TTL of each chart type', () => {
+    expect(getChartCacheTtl('natal')).toBe(30 * 24 * 60 * 60)
+    expect(getChartCacheTtl('transit')).toBe(7 * 24 * 60 * 60)
+    expect(getChartCacheTtl('now')).toBe(60)
+  })
+
+  it('reads overrides from the environment', () => {
+    vi.stubEnv('CHART_CACHE_TTL_SOLAR_RETURN', '3600')
+    vi.stubEnv('CHART_CACHE_TTL_NATAL', 'forever')
+    expect(getChartCacheTtl('solar-return')).toBe(3600)
+    expect(getChartCacheTtl('natal')).toBe(30 * 24 * 60 * 60)
+  })
+})
+
+// ============================================================================
+// CACHE
+// ============================================================================
+
+describe('ChartCache', () => {
+  let store: MemoryChartCacheStore
+  let cache: ChartCache
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    store = new MemoryChartCacheStore(1024 * 1024)
+    cache = new ChartCache(store)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('fetches on a miss and serves copies on hits', async () => {
+    const fetcher = vi.fn().mockResolvedValue({ status: 'OK', points: [1, 2] })
+
+    const first = await cache.getOrFetch<{ points: number[] }>('/chart/birth-chart', { subject }, fetcher)
+    first.points.push(3)
+    const second = await cache.getOrFetch('/chart/birth-chart', { subject }, fetcher)
+
+    expect(second).toEqual({ status: 'OK', points: [1, 2] })
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it('shares one fetch between concurrent identical requests', async () => {
+    let resolve!: (value: unknown) => void
+    const fetcher = vi.fn(() => new Promise((r) => (resolve = r)))
+
+    const requests = [1, 2, 3].map(() => cache.getOrFetch('/chart/synastry', { subject }, fetcher))
+    await vi.waitFor(() => expect(fetcher).toHaveBeenCalled())
+    resolve({ status: 'OK' })
+
+    expect(await Promise.all(requests)).toEqual([{ status: 'OK' }, { status: 'OK' }, { status: 'OK' }])
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it('rejects every waiting caller when the fetch fails and caches nothing', async () => {
+    const fetcher = vi.fn().mockRejectedValueOnce(new Error('API Error 500')).mockResolvedValueOnce({ ok: true })
+
+    const requests = [1, 2].map(() => cache.getOrFetch('/chart/transit', { subject }, fetcher))
+    for (const request of requests) await expect(request).rejects.toThrow('API Error 500')
+
+    await expect(cache.getOrFetch('/chart/transit', { subject }, fetcher)).resolves.toEqual({ ok: true })
+    expect(store.count).toBe(1)
+  })
+
+  it('passes through endpoints without a policy and disabled types', async () => {
+    vi.stubEnv('CHART_CACHE_TTL_NOW', '0')
+    const fetcher = vi.fn().mockResolvedValue({ status: 'OK' })
+
+    await cache.getOrFetch('/now/chart', {}, fetcher)
+    await cache.getOrFetch('/now/chart', {}, fetcher)
+    await cache.getOrFetch('/health', undefined, fetcher)
+
+    expect(fetcher).toHaveBeenCalledTimes(3)
+    expect(store.count).toBe(0)
+  })
+
+  it('counts hits and misses per day and chart type', async () => {
+    const fetcher = vi.fn().mockResolvedValue({ status: 'OK' })
+
+    await cache.getOrFetch('/context/birth-chart', { subject }, fetcher)
+    await cache.getOrFetch('/context/birth-chart', { subject }, fetcher)
+    await cache.getOrFetch('/context/birth-chart', { subject }, fetcher)
+    await cache.getOrFetch('/subject', { subject }, fetcher)
+    expect(mockPrisma.chartCacheStats.upsert).not.toHaveBeenCalled()
+
+    await cache.flushStats()
+
+    const date = new Date().toISOString().split('T')[0]
+    expect(mockPrisma.chartCacheStats.upsert).toHaveBeenCalledTimes(2)
+    expect(mockPrisma.chartCacheStats.upsert).toHaveBeenCalledWith({
+      where: { date_chartType: { date, chartType: 'context' } },
+      update: { hits: { increment: 2 }, misses: { increment: 1 } },
+      create: { date, chartType: 'context', hits: 2, misses: 1 },
+    })
+    expect(mockPrisma.chartCacheStats.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ create: { date, chartType: 'subject', hits: 0, misses: 1 } }),
+    )
+
+    await cache.flushStats()
+    expect(mockPrisma.chartCacheStats.upsert).toHaveBeenCalledTimes(2)
+  })
+
+  it('flushes counted lookups once per interval', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] })
+    try {
+      const fetcher = vi.fn().mockResolvedValue({ status: 'OK' })
+      await cache.getOrFetch('/chart/birth-chart', { subject }, fetcher)
+      await cache.getOrFetch('/chart/birth-chart', { subject }, fetcher)
+
+      await vi.advanceTimersByTimeAsync(59_000)
+      expect(mockPrisma.chartCacheStats.upsert).not.toHaveBeenCalled()
+
+      await vi.advanceTimersByTimeAsync(1_000)
+      expect(mockPrisma.chartCacheStats.upsert).toHaveBeenCalledOnce()
+      expect(mockPrisma.chartCacheStats.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ update: { hits: { increment: 1 }, misses: { increment: 1 } } }),
+      )
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('does not count lookups when statistics are disabled', async () => {
+    const untracked = new ChartCache(store, { trackStats: false })
+    await untracked.getOrFetch('/subject', { subject }, vi.fn().mockResolvedValue({ status: 'OK' }))
+    await untracked.flushStats()
+
+    expect(mockPrisma.chartCacheStats.upsert).not.toHaveBeenCalled()
+  })
+
+  it('falls back to the API when the store fails', async () => {
+    const failing: ChartCacheStore = {
+      get: vi.fn().mockRejectedValue(new Error('connection reset')),
+      set: vi.fn().mockRejectedValue(new Error('connection reset')),
+    }
+    const fetcher = vi.fn().mockResolvedValue({ status: 'OK' })
+
+    await expect(new ChartCache(failing).getOrFetch('/subject', { subject }, fetcher)).resolves.toEqual({
+      status: 'OK',
+    })
+    expect(failing.set).toHaveBeenCalledWith(expect.any(String), '{"status":"OK"}', 30 * 24 * 60 * 60 * 1000, 'subject')
+  })
+})
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+describe('MemoryChartCacheStore', () => {
+  it('evicts the least recently used entries beyond the size limit', async () => {
+    const store = new MemoryChartCacheStore(10)
+    await store.set('a', 'aaaa', 60_000)
+    await store.set('b', 'bbbb', 60_000)
+    await store.get('a')
+    await store.set('c', 'cccc', 60_000)
+
+    expect(await store.get('a')).toBe('aaaa')
+    expect(await store.get('b')).toBeNull()
+    expect(await store.get('c')).toBe('cccc')
+  })
+
+  it('expires entries after their TTL', async () => {
+    vi.useFakeTimers()
+    const store = new MemoryChartCacheStore(100)
+    await store.set('a', 'value', 1000)
+
+    vi.advanceTimersByTime(1000)
+    expect(await store.get('a')).toBeNull()
+    expect(store.count).toBe(0)
+    vi.useRealTimers()
+  })
+})
+
+describe('PrismaChartCacheStore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('ignores expired rows', async () => {
+    mockPrisma.chartCacheEntry.findUnique.mockResolvedValue({ value: 'x', expiresAt: new Date(Date.now() - 1) })
+    expect(await new PrismaChartCacheStore().get('k')).toBeNull()
+  })
+
+  it('upserts entries and sweeps expired rows once per interval', async () => {
+    const store = new PrismaChartCacheStore()
+    await store.set('k', 'value', 60_000, 'natal')
+    await store.set('k2', 'value', 60_000, 'natal')
+
+    expect(mockPrisma.chartCacheEntry.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { key: 'k' }, create: expect.objectContaining({ chartType: 'natal' }) }),
+    )
+    expect(mockPrisma.chartCacheEntry.deleteMany).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('RedisChartCacheStore', () => {
+  it('reads and writes prefixed keys with a millisecond TTL', async () => {
+    const command = vi.fn().mockResolvedValueOnce('OK').mockResolvedValueOnce('value').mockResolvedValueOnce(null)
+    const store = new RedisChartCacheStore({ command } as unknown as RedisClient, 'test:')
+
+    await store.set('k', 'value', 60_000)
+    expect(await store.get('k')).toBe('value')
+    expect(await store.get('missing')).toBeNull()
+    expect(command).toHaveBeenNthCalledWith(1, 'SET', 'test:k', 'value', 'PX', 60_000)
+    expect(command).toHaveBeenNthCalledWith(2, 'GET', 'test:k')
+  })
+})
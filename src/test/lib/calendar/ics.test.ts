@@ -0,0 +1,198 @@
+/**
+ * Unit Tests for the iCalendar writer and calendar entries
+ *
+ * Tests escaping, line folding and the calendar document, and the entries
+ * built from timeline and sky events.
+ *
+ * @module src/lib/calendar/ics
+ */
+import { describe, it, expect } from 'vitest'
+
+import { buildIcsCalendar, escapeIcsText, foldIcsLine, formatIcsDateTime } from '@/lib/calendar/ics'
+import { skyEventsToIcs, transitEventsToIcs } from '@/lib/calendar/astro-events'
+import { getCalendarFeedRange, getCalendarFileName } from '@/lib/calendar/feed'
+import type { TransitEvent } from '@/lib/astrology/transit-timeline'
+import type { SkyEvent } from '@/lib/ephemeris/sky-events'
+
+describe('escapeIcsText', () => {
+  it('should escape backslashes, separators and newlines', () => {
+    expect(escapeIcsText('a\\b; c, d\ne')).toBe('a\\\\b\\; c\\, d\\ne')
+  })
+})
+
+describe('foldIcsLine', () => {
+  it('should keep short lines unchanged', () => {
+    expect(foldIcsLine('SUMMARY:New Moon')).toBe('SUMMARY:New Moon')
+  })
+
+  it('should fold long lines at 75 octets', () => {
+    const folded = foldIcsLine(`DESCRIPTION:${'x'.repeat(200)}`)
+    const lines = folded.split('\r\n')
+
+    expect(lines.length).toBeGreaterThan(1)
+    for (const line of lines) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75)
+    }
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true)
+    expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(`DESCRIPTION:${'x'.repeat(200)}`)
+  })
+
+  it('should not split multibyte characters', () => {
+    const value = `SUMMARY:${'℞'.repeat(40)}`
+    const lines = foldIcsLine(value).split('\r\n')
+
+    expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(value)
+    for (const line of lines) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75)
+    }
+  })
+})
+
+describe('formatIcsDateTime', () => {
+  it('should format instants in UTC', () => {
+    expect(formatIcsDateTime(new Date('2024-04-08T18:18:30Z'))).toBe('20240408T181830Z')
+  })
+})
+
+describe('buildIcsCalendar', () => {
+  it('should write a calendar with CRLF line endings', () => {
+    const ics = buildIcsCalendar(
+      {
+        name: 'Jane – Astrology',
+        timezone: 'Europe/Rome',
+        refreshHours: 12,
+        events: [
+          {
+            uid: 'new-moon:Moon:Ari:2024-04-08@example.com',
+            start: new Date('2024-04-08T18:21:00Z'),
+            summary: 'New Moon in Aries',
+            description: 'Exact: 8 Apr 2024, 20:21 (Europe/Rome)',
+            categories: ['Lunation'],
+          },
+        ],
+      },
+      new Date('2024-01-01T00:00:00Z'),
+    )
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true)
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(ics).toContain('X-WR-CALNAME:Jane – Astrology')
+    expect(ics).toContain('X-WR-TIMEZONE:Europe/Rome')
+    expect(ics).toContain('REFRESH-INTERVAL;VALUE=DURATION:PT12H')
+    expect(ics).toContain('UID:new-moon:Moon:Ari:2024-04-08@example.com')
+    expect(ics).toContain('DTSTAMP:20240101T000000Z')
+    expect(ics).toContain('DTSTART:20240408T182100Z')
+    expect(ics).toContain('DESCRIPTION:Exact: 8 Apr 2024\\, 20:21 (Europe/Rome)')
+    expect(ics).toContain('CATEGORIES:Lunation')
+    expect(ics.split('\r\n').filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(1)
+  })
+})
+
+describe('transitEventsToIcs', () => {
+  const event: TransitEvent = {
+    id: 'Saturn-conjunction-Sun',
+    transitPoint: 'Saturn',
+    natalPoint: 'Sun',
+    aspect: 'conjunction',
+    aspectDegrees: 0,
+    orb: 1,
+    start: '2026-01-10T04:00:00.000Z',
+    exactHits: [
+      { date: '2026-02-01T10:00:00.000Z', retrograde: false },
+      { date: '2026-06-15T22:30:00.000Z', retrograde: true },
+    ],
+    end: null,
+    minOrb: 0,
+  }
+
+  it('should create one entry per exact hit', () => {
+    const entries = transitEventsToIcs([event, { ...event, id: 'none', exactHits: [] }], {
+      timezone: 'UTC',
+      uidDomain: 'example.com',
+      subjectId: 'subject-1',
+      subjectName: 'Jane',
+    })
+
+    expect(entries).toHaveLength(2)
+    expect(entries[0]).toMatchObject({
+      uid: 'transit:subject-1:Saturn:conjunction:Sun:2026-02-01@example.com',
+      summary: 'Jane: Saturn conjunction natal Sun',
+      categories: ['Transit'],
+    })
+    expect(entries[0]!.start.toISOString()).toBe('2026-02-01T10:00:00.000Z')
+    expect(entries[0]!.description).toContain('(pass 1 of 2)')
+    expect(entries[0]!.description).toContain('Still in orb after the range')
+    expect(entries[1]!.summary).toBe('Jane: Saturn conjunction natal Sun ℞')
+  })
+})
+
+describe('skyEventsToIcs', () => {
+  it('should describe eclipses and ingresses', () => {
+    const events: SkyEvent[] = [
+      {
+        id: 'solar-eclipse:Moon:Ari:2024-04-08',
+        type: 'solar-eclipse',
+        date: '2024-04-08T18:18:00.000Z',
+        point: 'Moon',
+        longitude: 19.4,
+        sign: 'Ari',
+        eclipse: { kind: 'total', magnitude: 1.0566, gamma: 0.3431, saros: 139 },
+      },
+      {
+        id: 'ingress:Mars:Leo:2026-06-28',
+        type: 'ingress',
+        date: '2026-06-28T09:00:00.000Z',
+        point: 'Mars',
+        longitude: 120,
+        sign: 'Leo',
+      },
+    ]
+
+    const [eclipse, ingress] = skyEventsToIcs(events, { timezone: 'Europe/Rome', uidDomain: 'example.com' })
+
+    expect(eclipse!.uid).toBe('solar-eclipse:Moon:Ari:2024-04-08@example.com')
+    expect(eclipse!.summary).toBe('Total Solar Eclipse in Aries')
+    expect(eclipse!.description).toContain("19°24' Aries")
+    expect(eclipse!.description).toContain('Magnitude: 1.057')
+    expect(eclipse!.description).toContain('Saros: 139')
+    expect(eclipse!.description).toContain('20:18 (Europe/Rome)')
+    expect(eclipse!.categories).toEqual(['Eclipse'])
+    expect(ingress!.summary).toBe('Mars enters Leo')
+  })
+
+  it('should span void-of-course periods until the ingress', () => {
+    const [period] = skyEventsToIcs(
+      [
+        {
+          id: 'void-of-course:Moon:Ari:2024-04-09',
+          type: 'void-of-course',
+          date: '2024-04-09T02:39:00.000Z',
+          endDate: '2024-04-09T11:23:00.000Z',
+          point: 'Moon',
+          longitude: 24.5,
+          sign: 'Ari',
+          lastAspect: { point: 'Mercury', aspect: 'conjunction' },
+        },
+      ],
+      { timezone: 'UTC', uidDomain: 'example.com' },
+    )
+
+    expect(period!.summary).toBe('Moon void of course in Aries')
+    expect(period!.end?.toISOString()).toBe('2024-04-09T11:23:00.000Z')
+    expect(period!.description).toContain('Last aspect: Moon conjunction Mercury')
+  })
+})
+
+describe('calendar feed helpers', () => {
+  it('should cover the days around today, from UTC midnight', () => {
+    const { startDate, endDate } = getCalendarFeedRange(new Date('2026-03-15T17:45:00Z'))
+
+    expect(startDate.toISOString()).toBe('2026-02-13T00:00:00.000Z')
+    expect(endDate.toISOString()).toBe('2026-09-11T00:00:00.000Z')
+  })
+
+  it('should build file names from subject names', () => {
+    expect(getCalendarFileName('Jane Doe transits')).toBe('jane_doe_transits.ics')
+    expect(getCalendarFileName('***')).toBe('calendar.ics')
+  })
+})
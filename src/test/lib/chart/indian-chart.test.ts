@@ -0,0 +1,41 @@
+/**
+ * Unit Tests for the South and North Indian chart renderer
+ *
+ * @module src/lib/chart/indian-chart
+ */
+import { describe, it, expect } from 'vitest'
+import { renderIndianChartSvg } from '@/lib/chart/indian-chart'
+import { VARGAS, type VargaChart } from '@/lib/astrology/vedic'
+
+const chart: VargaChart = {
+  varga: VARGAS.find((varga) => varga.division === 9)!,
+  ascendantSign: 4,
+  placements: [
+    { name: 'Sun', label: 'Su', sign: 4, retrograde: false },
+    { name: 'Saturn', label: 'Sa', sign: 9, retrograde: true },
+  ],
+}
+
+describe('renderIndianChartSvg', () => {
+  it('draws the South Indian chart with the varga in the centre', () => {
+    const svg = renderIndianChartSvg({ chart, layout: 'south_indian' })
+
+    expect(svg).toMatch(/^<svg /)
+    expect(svg.match(/<rect /g)).toHaveLength(12)
+    expect(svg).toContain('>D9</text>')
+    expect(svg).toContain('>Navamsa</text>')
+    expect(svg).toContain('>Asc Su</text>')
+    expect(svg).toContain('>Sa℞</text>')
+  })
+
+  it('numbers the North Indian houses by sign from the Lagna', () => {
+    const svg = renderIndianChartSvg({ chart, layout: 'north_indian' })
+
+    expect(svg).toContain('<polygon')
+    // Leo rises: sign 5 in the first house, Cancer (4) in the twelfth
+    const numbers = [...svg.matchAll(/fill-opacity="0.6">(\d+)<\/text>/g)].map((match) => match[1])
+    expect(numbers[0]).toBe('5')
+    expect(numbers[11]).toBe('4')
+    expect(svg).toContain('>Asc Su</text>')
+  })
+})
@@ -0,0 +1,49 @@
+/**
+ * Unit Tests for the Midpoint Dial
+ *
+ * @module src/lib/chart/midpoint-dial
+ */
+import { describe, it, expect } from 'vitest'
+import { renderMidpointDialSvg } from '@/lib/chart/midpoint-dial'
+
+describe('renderMidpointDialSvg', () => {
+  it('renders the 90° dial with its scale and modes', () => {
+    const svg = renderMidpointDialSvg({ points: [] })
+
+    expect(svg.startsWith('<svg')).toBe(true)
+    expect(svg).toContain('<title>90° dial</title>')
+    expect(svg).toContain('>85</text>')
+    expect(svg).toContain('>Cardinal</text>')
+  })
+
+  it('labels the whole zodiac every 30°', () => {
+    const svg = renderMidpointDialSvg({ points: [], dial: 360 })
+
+    expect(svg).toContain('>330</text>')
+    expect(svg).not.toContain('>35</text>')
+    expect(svg).not.toContain('Cardinal')
+  })
+
+  it('folds natal and transit points onto the dial', () => {
+    const svg = renderMidpointDialSvg({
+      points: [
+        { name: 'Sun', longitude: 100, source: 'natal' },
+        { name: 'Saturn', longitude: 200, source: 'transit' },
+      ],
+    })
+
+    expect(svg).toContain('Natal Sun 10.0°')
+    expect(svg).toContain('Transit Saturn 20.0°')
+  })
+
+  it('highlights the points on the pointer', () => {
+    const points = [
+      { name: 'Sun', longitude: 100, source: 'natal' as const },
+      { name: 'Moon', longitude: 50, source: 'natal' as const },
+    ]
+
+    expect(renderMidpointDialSvg({ points })).not.toContain('#f59e0b')
+    const svg = renderMidpointDialSvg({ points, pointer: 190, orb: 1 })
+    expect(svg.match(/<line[^>]*stroke="#f59e0b"\/>/g)).toHaveLength(1)
+  })
+})
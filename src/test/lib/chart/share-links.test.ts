@@ -0,0 +1,40 @@
+/**
+ * Unit Tests for chart share link helpers
+ *
+ * @module src/lib/chart/share-links
+ */
+import { describe, it, expect } from 'vitest'
+import { getShareLinkExpiry, getShareLinkStatus } from '@/lib/chart/share-links'
+
+const NOW = new Date('2026-02-10T12:00:00Z')
+
+describe('getShareLinkExpiry', () => {
+  it('should add the number of days', () => {
+    expect(getShareLinkExpiry(7, NOW)).toEqual(new Date('2026-02-17T12:00:00Z'))
+  })
+
+  it('should return null for links that never expire', () => {
+    expect(getShareLinkExpiry(null, NOW)).toBeNull()
+    expect(getShareLinkExpiry(undefined, NOW)).toBeNull()
+  })
+})
+
+describe('getShareLinkStatus', () => {
+  it('should be active without expiry or revocation', () => {
+    expect(getShareLinkStatus({ expiresAt: null, revokedAt: null }, NOW)).toBe('active')
+    expect(getShareLinkStatus({ expiresAt: new Date('2026-02-11T00:00:00Z'), revokedAt: null }, NOW)).toBe('active')
+  })
+
+  it('should be expired from the expiry instant', () => {
+    expect(getShareLinkStatus({ expiresAt: NOW, revokedAt: null }, NOW)).toBe('expired')
+  })
+
+  it('should report revocation before expiry', () => {
+    expect(
+      getShareLinkStatus(
+        { expiresAt: new Date('2026-02-01T00:00:00Z'), revokedAt: new Date('2026-01-30T00:00:00Z') },
+        NOW,
+      ),
+    ).toBe('revoked')
+  })
+})
@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for the local chart wheel renderer
+ *
+ * @module src/lib/chart/wheel
+ */
+import { describe, it, expect } from 'vitest'
+import { renderChartWheelSvg } from '@/lib/chart/wheel'
+import type { AspectPattern } from '@/lib/astrology/aspect-patterns'
+import type { Aspect, EnrichedSubjectModel, Point } from '@/types/astrology'
+
+function makePoint(name: string, absPos: number): Point {
+  return {
+    name,
+    quality: 'Cardinal',
+    element: 'Fire',
+    sign: 'Ari',
+    sign_num: 0,
+    position: absPos % 30,
+    abs_pos: absPos,
+    emoji: '♈️',
+    point_type: 'AstrologicalPoint',
+    house: 'First_House',
+    retrograde: false,
+  }
+}
+
+const natal = {
+  name: 'Natal',
+  sun: makePoint('Sun', 100),
+  moon: makePoint('Moon', 102),
+  first_house: makePoint('First_House', 200),
+} as unknown as EnrichedSubjectModel
+
+const directed = {
+  name: 'Solar Arc',
+  sun: makePoint('Sun', 130),
+} as unknown as EnrichedSubjectModel
+
+function makeAspect(aspect: string): Aspect {
+  return {
+    p1_name: 'Sun',
+    p1_owner: 'Natal',
+    p1_abs_pos: 100,
+    p2_name: 'Sun',
+    p2_owner: 'Solar Arc',
+    p2_abs_pos: 130,
+    aspect,
+    orbit: 0,
+    aspect_degrees: 30,
+    diff: 30,
+  } as Aspect
+}
+
+describe('renderChartWheelSvg', () => {
+  it('should return an empty string without rings', () => {
+    expect(renderChartWheelSvg({ rings: [] })).toBe('')
+  })
+
+  it('should draw every ring with a legend entry', () => {
+    const svg = renderChartWheelSvg({
+      rings: [
+        { subject: natal, label: 'Natal' },
+        { subject: directed, label: 'Solar Arc' },
+      ],
+      size: 400,
+    })
+
+    expect(svg.startsWith('<svg')).toBe(true)
+    expect(svg).toContain('width="400"')
+    expect(svg).toContain('Inner: Natal')
+    expect(svg).toContain('Outer: Solar Arc')
+    expect(svg).toContain('<title>Solar Arc Sun 10° Ari</title>')
+  })
+
+  it('should only draw active points', () => {
+    const svg = renderChartWheelSvg({ rings: [{ subject: natal, label: 'Natal' }], activePoints: ['Sun'] })
+    expect(svg).toContain('Natal Sun')
+    expect(svg).not.toContain('Natal Moon')
+  })
+
+  it('should dash minor aspects only', () => {
+    const svg = renderChartWheelSvg({
+      rings: [{ subject: natal, label: 'Natal' }],
+      aspects: [makeAspect('square'), makeAspect('semi-sextile')],
+    })
+    expect(svg.match(/stroke-dasharray/g)).toHaveLength(1)
+  })
+
+  it('should draw aspect patterns of the innermost ring', () => {
+    const pattern = { type: 'grand_trine', label: 'Grand Trine', points: ['Sun', 'Moon'] } as AspectPattern
+    const svg = renderChartWheelSvg({ rings: [{ subject: natal, label: 'Natal' }], patterns: [pattern] })
+    expect(svg).toContain('<title>Grand Trine</title><polygon')
+
+    const stellium = { ...pattern, type: 'stellium', label: 'Stellium in Ari' } as AspectPattern
+    expect(renderChartWheelSvg({ rings: [{ subject: natal, label: 'Natal' }], patterns: [stellium] })).toContain(
+      '<title>Stellium in Ari</title><path',
+    )
+  })
+
+  it('should skip patterns with points missing from the wheel', () => {
+    const pattern = { type: 't_square', label: 'T-Square', points: ['Sun', 'Mars'] } as AspectPattern
+    const svg = renderChartWheelSvg({ rings: [{ subject: natal, label: 'Natal' }], patterns: [pattern] })
+    expect(svg).not.toContain('T-Square')
+  })
+
+  it('should mark fixed stars on the zodiac band', () => {
+    const svg = renderChartWheelSvg({
+      rings: [{ subject: natal, label: 'Natal' }],
+      stars: [{ name: 'Regulus', longitude: 100.5 }],
+    })
+    expect(svg).toContain('<title>Regulus</title>')
+    expect(svg).toContain('★')
+  })
+
+  it('should escape labels', () => {
+    const svg = renderChartWheelSvg({ rings: [{ subject: natal, label: 'A & B' }] })
+    expect(svg).toContain('Inner: A &amp; B')
+    expect(svg).not.toContain('A & B')
+  })
+})
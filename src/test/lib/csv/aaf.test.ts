@@ -0,0 +1,118 @@
+/**
+ * Unit Tests for AAF import and export
+ *
+ * @module src/lib/csv/aaf
+ */
+import { describe, it, expect } from 'vitest'
+import { parseAAF, writeAAF } from '@/lib/csv/aaf'
+import type { Subject } from '@/types/subjects'
+
+const LINCOLN = [
+  '#A93:Lincoln,Abraham,m,12.02.1809g,06:54,Hodgenville KY,USA',
+  '#B93:2381826.02569,37n34,85w44,5hw43,0',
+  '#COM:RR: AA',
+  '#COM:From birth record quoted by biographer',
+].join('\n')
+
+const ROSSI = ['#A93:Rossi,Giulia,f,12.03.1985g,14:30,Roma,I', '#B93:2446137.06250,41n54,12e29,1he00,0'].join('\n')
+
+describe('parseAAF', () => {
+  it('should parse a whole-hour zone into an Etc/GMT zone', () => {
+    const [result] = parseAAF(ROSSI)
+    expect(result?.success).toBe(true)
+    expect(result?.data).toMatchObject({
+      name: 'Giulia Rossi',
+      birthDate: '1985-03-12T14:30:00.000Z',
+      birthTime: '14:30:00',
+      city: 'Roma',
+      nation: 'IT',
+      latitude: 41.9,
+      longitude: 12.483333,
+      timezone: 'Etc/GMT-1',
+    })
+  })
+
+  it('should read the rating and notes from comments and convert LMT to UT', () => {
+    const [result] = parseAAF(LINCOLN)
+    expect(result?.data).toMatchObject({
+      name: 'Abraham Lincoln',
+      birthTime: '12:37:00',
+      timezone: 'UTC',
+      nation: 'US',
+      rodens_rating: 'AA',
+      notes: 'From birth record quoted by biographer',
+    })
+    expect(result?.data?.longitude).toBeCloseTo(-85.733333, 6)
+    expect(result?.warnings?.[0]).toMatch(/^Row 1: Offset -05:43 has no IANA zone/)
+  })
+
+  it('should derive the offset from the Julian Day when the zone disagrees', () => {
+    const [result] = parseAAF(ROSSI.replace('1he00', '0he00'))
+    expect(result?.data?.timezone).toBe('Etc/GMT-1')
+  })
+
+  it('should add the daylight saving column to the zone', () => {
+    const [result] = parseAAF('#A93:Rossi,Giulia,f,12.07.1985g,14:30,Roma,I\n#B93:*,41n54,12e29,1he00,1')
+    expect(result?.data?.timezone).toBe('Etc/GMT-2')
+  })
+
+  it('should report errors with the line number of the record', () => {
+    const results = parseAAF(
+      [ROSSI, '#A93:Old,Record,m,01.01.1700j,12:00,London,ENG', '#B93:*,51n30,0w07,0he00,0'].join('\n'),
+    )
+    expect(results).toHaveLength(2)
+    expect(results[1]).toEqual({
+      success: false,
+      error: 'Row 3: Julian calendar dates are not supported: "01.01.1700j"',
+    })
+  })
+
+  it('should require a #B93 line', () => {
+    expect(parseAAF('#A93:Rossi,Giulia,f,12.03.1985g,14:30,Roma,I')[0]?.error).toBe(
+      'Row 1: Missing #B93 line with coordinates and time zone',
+    )
+  })
+
+  it('should report a #B93 line without a record', () => {
+    expect(parseAAF('#B93:*,41n54,12e29,1he00,0')).toEqual([
+      { success: false, error: 'Row 1: #B93 line without a #A93 record' },
+    ])
+  })
+})
+
+describe('writeAAF', () => {
+  const subject: Subject = {
+    id: 's1',
+    name: 'Giulia Rossi',
+    birth_datetime: '1985-07-12T14:30:00.000Z',
+    city: 'Rome',
+    nation: 'IT',
+    latitude: 41.9,
+    longitude: 12.483333,
+    timezone: 'Europe/Rome',
+    rodens_rating: 'AA',
+    tags: null,
+    notes: 'Client, referral',
+  }
+
+  it('should write #A93, #B93 and #COM lines', () => {
+    expect(writeAAF([subject]).split('\n')).toEqual([
+      '#A93:Rossi,Giulia,*,12.07.1985g,14:30:00,Rome,IT',
+      '#B93:2446259.02083,41n54,12e29,2he00,0',
+      '#COM:RR: AA',
+      '#COM:Client, referral',
+      '',
+    ])
+  })
+
+  it('should round-trip through parseAAF', () => {
+    const [result] = parseAAF(writeAAF([subject]))
+    expect(result?.data).toMatchObject({
+      name: 'Giulia Rossi',
+      birthTime: '14:30:00',
+      timezone: 'Etc/GMT-2',
+      rodens_rating: 'AA',
+      notes: 'Client, referral',
+    })
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * Unit Tests for Astro-Seek CSV import and export
+ *
+ * @module src/lib/csv/astro-seek
+ */
+import { describe, it, expect } from 'vitest'
+import { parseAstroSeekCSV, writeAstroSeekCSV } from '@/lib/csv/astro-seek'
+import type { Subject } from '@/types/subjects'
+
+describe('parseAstroSeekCSV', () => {
+  it('should match headers by alias', () => {
+    const [result] = parseAstroSeekCSV(
+      'First name,Last name,Date of birth,Time of birth,Birthplace,Country,Latitude,Longitude,Time zone,Rodden\n' +
+        "Giulia,Rossi,12.03.1985,14:30,Rome,Italy,41°54'N,12°29'E,Europe/Rome,aa\n",
+    )
+    expect(result?.data).toMatchObject({
+      name: 'Giulia Rossi',
+      birthTime: '14:30:00',
+      city: 'Rome',
+      nation: 'IT',
+      latitude: 41.9,
+      timezone: 'Europe/Rome',
+      rodens_rating: 'AA',
+    })
+  })
+
+  it('should read an offset from the zone column', () => {
+    const [result] = parseAstroSeekCSV(
+      'Name,Date,Time,City,Country,Latitude,Longitude,Timezone\nA,01.07.1990,10:00,Rome,IT,41.9,12.48,UT+2 DST\n',
+    )
+    expect(result?.data?.timezone).toBe('Etc/GMT-2')
+  })
+
+  it('should report errors with the row number counting the header', () => {
+    const results = parseAstroSeekCSV(
+      'Name,Date,Time,City,Country,Timezone\nA,01.07.1990,10:00,Rome,IT,UTC\nB,31.02.1990,10:00,Rome,IT,UTC\n',
+    )
+    expect(results[0]?.success).toBe(true)
+    expect(results[1]).toEqual({ success: false, error: 'Row 3: Invalid date: "31.02.1990"' })
+  })
+})
+
+describe('writeAstroSeekCSV', () => {
+  const subject: Subject = {
+    id: 's1',
+    name: 'Giulia Rossi',
+    birth_datetime: '1985-03-12T14:30:00.000Z',
+    city: 'Rome',
+    nation: 'IT',
+    latitude: 41.9,
+    longitude: 12.483333,
+    timezone: 'Europe/Rome',
+    rodens_rating: 'AA',
+    tags: ['client', 'family'],
+    notes: null,
+  }
+
+  it('should write a header row and decimal coordinates', () => {
+    expect(writeAstroSeekCSV([subject]).split('\r\n')).toEqual([
+      'Name,Date,Time,City,Country,Latitude,Longitude,Timezone,UTC offset,Rodden rating,Tags,Notes',
+      'Giulia Rossi,12.03.1985,14:30:00,Rome,Italy,41.9,12.483333,Europe/Rome,+01:00,AA,"client, family",',
+    ])
+  })
+
+  it('should round-trip through parseAstroSeekCSV', () => {
+    const [result] = parseAstroSeekCSV(writeAstroSeekCSV([subject]))
+    expect(result?.success).toBe(true)
+    expect(result?.warnings).toBeUndefined()
+    expect(result?.data).toMatchObject({ timezone: 'Europe/Rome', nation: 'IT', tags: ['client', 'family'] })
+  })
+})
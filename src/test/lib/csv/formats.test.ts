@@ -0,0 +1,59 @@
+/**
+ * Unit Tests for the birth data format registry
+ *
+ * @module src/lib/csv/formats
+ */
+import { describe, it, expect } from 'vitest'
+import { BIRTH_DATA_FORMATS, detectBirthDataFormat } from '@/lib/csv/formats'
+import type { Subject } from '@/types/subjects'
+
+const subject: Subject = {
+  id: 's1',
+  name: 'Giulia Rossi',
+  birth_datetime: '1985-03-12T14:30:00.000Z',
+  city: 'Rome',
+  nation: 'IT',
+  latitude: 41.9,
+  longitude: 12.483333,
+  timezone: 'Europe/Rome',
+  rodens_rating: 'AA',
+  tags: ['client'],
+  notes: 'Referral',
+}
+
+describe('detectBirthDataFormat', () => {
+  it.each([
+    ['list.txt', '#A93:Rossi,Giulia,f,12.03.1985g,14:30,Roma,I', 'aaf'],
+    ['chart.txt', 'Name: Giulia\nDate: 12 March 1985\nZone: -01:00', 'solar-fire'],
+    ['subjects.csv', 'name,birthDatetime,city\n', 'csv'],
+    ['list.csv', '# name;date\nGiulia;12.03.1985;14:30', 'zet'],
+    ['export.csv', 'Name,Date,Time,City\n', 'astro-seek'],
+    ['charts.aaf', '', 'aaf'],
+  ] as const)('should detect %s as %s', (fileName, text, expected) => {
+    expect(detectBirthDataFormat(fileName, text)).toBe(expected)
+  })
+})
+
+describe('BIRTH_DATA_FORMATS', () => {
+  it.each(Object.keys(BIRTH_DATA_FORMATS) as (keyof typeof BIRTH_DATA_FORMATS)[])(
+    'should round-trip a subject through %s',
+    (format) => {
+      const { parse, write } = BIRTH_DATA_FORMATS[format]
+      const [result] = parse(write([subject]))
+      expect(result?.error).toBeUndefined()
+      expect(result?.data).toMatchObject({
+        name: 'Giulia Rossi',
+        birthTime: '14:30:00',
+        city: 'Rome',
+        rodens_rating: 'AA',
+        notes: 'Referral',
+      })
+    },
+  )
+
+  it('should skip empty rows in native CSV', () => {
+    const results = BIRTH_DATA_FORMATS.csv.parse('name,birthDatetime\n,\nMario,1990-01-01T12:00:00Z\n')
+    expect(results).toHaveLength(1)
+    expect(results[0]?.success).toBe(true)
+  })
+})
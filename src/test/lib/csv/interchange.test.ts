@@ -0,0 +1,333 @@
+/**
+ * Unit Tests for birth data interchange primitives
+ *
+ * Covers coordinate and offset notations, date/time parsing, Rodden rating
+ * normalization and the conversion of records into subject input.
+ *
+ * @module src/lib/csv/interchange
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  parseCoordinate,
+  formatCoordinate,
+  parseUtcOffset,
+  formatUtcOffset,
+  fixedOffsetTimezone,
+  getTimezoneOffsetMinutes,
+  parseCalendarDate,
+  parseClockTime,
+  normalizeRoddenRating,
+  normalizeNation,
+  splitPlace,
+  toSubjectInput,
+  toParseResult,
+  subjectToBirthData,
+  type BirthDataRecord,
+} from '@/lib/csv/interchange'
+import type { Subject } from '@/types/subjects'
+
+// ============================================================================
+// Coordinates
+// ============================================================================
+
+describe('parseCoordinate', () => {
+  it.each([
+    ['41n54', 'latitude', 41.9],
+    ['12e29', 'longitude', 12.483333],
+    ['37N34', 'latitude', 37.566667],
+    ['85w44', 'longitude', -85.733333],
+    ['33s52', 'latitude', -33.866667],
+    ["41n54'30", 'latitude', 41.908333],
+    ['41°54\'30"N', 'latitude', 41.908333],
+    ['N 41 54', 'latitude', 41.9],
+    ['41.9N', 'latitude', 41.9],
+    ['-73.9857', 'longitude', -73.9857],
+    ['41,9', 'latitude', 41.9],
+  ] as const)('should parse %s as %s %d', (input, axis, expected) => {
+    expect(parseCoordinate(input, axis)).toBeCloseTo(expected, 6)
+  })
+
+  it('should reject a longitude hemisphere on a latitude', () => {
+    expect(() => parseCoordinate('12e29', 'latitude')).toThrow('Hemisphere "E" does not apply to latitude')
+  })
+
+  it.each(['91n00', '181e00', '41n60', 'abc', '-41n54', '41n54e'])('should reject %s', (input) => {
+    expect(() => parseCoordinate(input, input.includes('e') ? 'longitude' : 'latitude')).toThrow()
+  })
+
+  it('should report a missing value', () => {
+    expect(() => parseCoordinate('  ', 'latitude')).toThrow('Missing latitude')
+  })
+})
+
+describe('formatCoordinate', () => {
+  it('should write compact degree-minute notation', () => {
+    expect(formatCoordinate(41.9, 'latitude')).toBe('41n54')
+    expect(formatCoordinate(-85.733333, 'longitude')).toBe('85w44')
+  })
+
+  it('should write seconds and uppercase hemispheres on request', () => {
+    expect(formatCoordinate(-85.741667, 'longitude', { uppercase: true, seconds: true })).toBe('85W44\'30"')
+  })
+
+  it('should carry rounded minutes into degrees', () => {
+    expect(formatCoordinate(41.9999, 'latitude')).toBe('42n00')
+  })
+})
+
+// ============================================================================
+// Time zones
+// ============================================================================
+
+describe('parseUtcOffset', () => {
+  it.each([
+    ['+01:00', 60],
+    ['-5', -300],
+    ['+0530', 330],
+    ['5.5', 330],
+    ['1he00', 60],
+    ['6hw00', -360],
+    ['UT+1', 60],
+    ['GMT-05:00', -300],
+    ['UT+2 DST', 120],
+    ['Z', 0],
+    ['-05:43:04', -(5 * 60 + 43 + 4 / 60)],
+  ])('should parse %s as %d minutes', (input, expected) => {
+    expect(parseUtcOffset(input)).toBeCloseTo(expected, 6)
+  })
+
+  it('should flip bare numbers for west-positive files', () => {
+    expect(parseUtcOffset('+05:00', { westPositive: true })).toBe(-300)
+    expect(parseUtcOffset('EST 5:00', { westPositive: true })).toBe(-300)
+  })
+
+  it('should keep UT-labelled offsets east-positive for west-positive files', () => {
+    expect(parseUtcOffset('UT+1', { westPositive: true })).toBe(60)
+  })
+
+  it.each(['+16:00', 'soon', '+01:75'])('should reject %s', (input) => {
+    expect(() => parseUtcOffset(input)).toThrow('Invalid time zone offset')
+  })
+})
+
+describe('formatUtcOffset', () => {
+  it('should format whole and LMT offsets', () => {
+    expect(formatUtcOffset(60)).toBe('+01:00')
+    expect(formatUtcOffset(-330)).toBe('-05:30')
+    expect(formatUtcOffset(-(5 * 60 + 43 + 4 / 60))).toBe('-05:43:04')
+  })
+
+  it('should flip the sign for west-positive output', () => {
+    expect(formatUtcOffset(-300, { westPositive: true })).toBe('+05:00')
+  })
+})
+
+describe('fixedOffsetTimezone', () => {
+  it('should map whole hours to Etc/GMT zones with the POSIX sign', () => {
+    expect(fixedOffsetTimezone(60)).toBe('Etc/GMT-1')
+    expect(fixedOffsetTimezone(-300)).toBe('Etc/GMT+5')
+    expect(fixedOffsetTimezone(0)).toBe('UTC')
+  })
+
+  it('should return null for fractional offsets', () => {
+    expect(fixedOffsetTimezone(330)).toBeNull()
+  })
+})
+
+describe('getTimezoneOffsetMinutes', () => {
+  it('should include daylight saving time', () => {
+    expect(getTimezoneOffsetMinutes('Europe/Rome', new Date('1985-07-12T14:30:00Z'))).toBe(120)
+    expect(getTimezoneOffsetMinutes('Europe/Rome', new Date('1985-01-12T14:30:00Z'))).toBe(60)
+  })
+
+  it('should work west of Greenwich', () => {
+    expect(getTimezoneOffsetMinutes('America/New_York', new Date('2000-01-01T12:00:00Z'))).toBe(-300)
+  })
+})
+
+// ============================================================================
+// Dates and times
+// ============================================================================
+
+describe('parseCalendarDate', () => {
+  it.each([
+    ['12.02.1809', { year: 1809, month: 2, day: 12 }],
+    ['1809-02-12', { year: 1809, month: 2, day: 12 }],
+    ['12 February 1809', { year: 1809, month: 2, day: 12 }],
+    ['12 Feb 1809', { year: 1809, month: 2, day: 12 }],
+    ['February 12, 1809', { year: 1809, month: 2, day: 12 }],
+  ])('should parse %s', (input, expected) => {
+    expect(parseCalendarDate(input)).toEqual(expected)
+  })
+
+  it('should follow the requested order for numeric dates', () => {
+    expect(parseCalendarDate('02/12/1809', 'mdy')).toEqual({ year: 1809, month: 2, day: 12 })
+  })
+
+  it('should reject impossible days', () => {
+    expect(() => parseCalendarDate('30.02.1990')).toThrow('Invalid date')
+  })
+})
+
+describe('parseClockTime', () => {
+  it.each([
+    ['06:54', { hour: 6, minute: 54, second: 0 }],
+    ['14:30:15', { hour: 14, minute: 30, second: 15 }],
+    ['6:54 am', { hour: 6, minute: 54, second: 0 }],
+    ['6:54 PM', { hour: 18, minute: 54, second: 0 }],
+    ['12:00 am', { hour: 0, minute: 0, second: 0 }],
+    ['14h30', { hour: 14, minute: 30, second: 0 }],
+  ])('should parse %s', (input, expected) => {
+    expect(parseClockTime(input)).toEqual(expected)
+  })
+
+  it.each(['*', '?', 'unknown', ''])('should treat %j as unknown', (input) => {
+    expect(parseClockTime(input)).toBeNull()
+  })
+
+  it.each(['25:00', '14', '13:00 pm'])('should reject %s', (input) => {
+    expect(() => parseClockTime(input)).toThrow('Invalid time')
+  })
+})
+
+// ============================================================================
+// Ratings and places
+// ============================================================================
+
+describe('normalizeRoddenRating', () => {
+  it.each([
+    ['aa', 'AA'],
+    ['RR: AA', 'AA'],
+    ['Rodden rating: X', 'X'],
+    ['DD', 'DD'],
+    ['ZZ', null],
+    ['', null],
+  ])('should normalize %j to %j', (input, expected) => {
+    expect(normalizeRoddenRating(input)).toBe(expected)
+  })
+})
+
+describe('normalizeNation', () => {
+  it('should map names and codes to ISO codes', () => {
+    expect(normalizeNation('Italy')).toBe('IT')
+    expect(normalizeNation('it')).toBe('IT')
+  })
+
+  it('should keep unknown values', () => {
+    expect(normalizeNation(' Atlantis ')).toBe('Atlantis')
+  })
+})
+
+describe('splitPlace', () => {
+  it('should take the first segment as city and the last as nation', () => {
+    expect(splitPlace('Rome, Lazio, Italy')).toEqual({ city: 'Rome', nation: 'Italy' })
+  })
+
+  it('should leave the nation empty for a single segment', () => {
+    expect(splitPlace('Rome')).toEqual({ city: 'Rome', nation: '' })
+  })
+})
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+const baseRecord: BirthDataRecord = {
+  name: 'Giulia Rossi',
+  date: { year: 1985, month: 3, day: 12 },
+  time: { hour: 14, minute: 30, second: 0 },
+  utcOffsetMinutes: 60,
+  city: 'Rome',
+  nation: 'Italy',
+  latitude: 41.9,
+  longitude: 12.483333,
+  rating: 'aa',
+}
+
+describe('toSubjectInput', () => {
+  it('should map a whole-hour offset to an Etc/GMT zone', () => {
+    const { data, warnings } = toSubjectInput(baseRecord)
+    expect(data).toMatchObject({
+      name: 'Giulia Rossi',
+      birthDate: '1985-03-12T14:30:00.000Z',
+      birthTime: '14:30:00',
+      city: 'Rome',
+      nation: 'IT',
+      timezone: 'Etc/GMT-1',
+      rodens_rating: 'AA',
+    })
+    expect(warnings).toEqual([])
+  })
+
+  it('should convert fractional offsets to UT', () => {
+    const { data, warnings } = toSubjectInput({ ...baseRecord, utcOffsetMinutes: -343 })
+    expect(data.timezone).toBe('UTC')
+    expect(data.birthTime).toBe('20:13:00')
+    expect(warnings[0]).toContain('converted to UT')
+  })
+
+  it('should prefer an IANA zone and warn when the offset disagrees', () => {
+    const { data, warnings } = toSubjectInput({ ...baseRecord, timezone: 'Europe/Rome', utcOffsetMinutes: 120 })
+    expect(data.timezone).toBe('Europe/Rome')
+    expect(warnings[0]).toContain('does not match Europe/Rome')
+  })
+
+  it('should use noon for an unknown time', () => {
+    const { data, warnings } = toSubjectInput({ ...baseRecord, time: null })
+    expect(data.birthTime).toBe('12:00:00')
+    expect(warnings).toContain('Birth time unknown, using 12:00')
+  })
+
+  it('should warn about unknown ratings', () => {
+    const { data, warnings } = toSubjectInput({ ...baseRecord, rating: 'ZZ' })
+    expect(data.rodens_rating).toBeNull()
+    expect(warnings).toContain('Unknown Rodden rating "ZZ" ignored')
+  })
+
+  it.each([
+    [{ city: '' }, 'Missing place'],
+    [{ nation: '' }, 'Missing country'],
+    [{ utcOffsetMinutes: null }, 'Missing time zone'],
+    [{ timezone: 'Mars/Olympus' }, 'Unknown time zone "Mars/Olympus"'],
+  ])('should reject %j', (patch, message) => {
+    expect(() => toSubjectInput({ ...baseRecord, ...patch })).toThrow(message)
+  })
+})
+
+describe('toParseResult', () => {
+  it('should prefix errors and warnings with the row number', () => {
+    expect(toParseResult(4, () => ({ ...baseRecord, city: '' }))).toEqual({
+      success: false,
+      error: 'Row 4: Missing place',
+    })
+    expect(toParseResult(5, () => ({ ...baseRecord, time: null })).warnings).toEqual([
+      'Row 5: Birth time unknown, using 12:00',
+    ])
+  })
+})
+
+describe('subjectToBirthData', () => {
+  it('should read the wall-clock time and the zone offset at birth', () => {
+    const subject: Subject = {
+      id: 's1',
+      name: 'Giulia Rossi',
+      birth_datetime: '1985-07-12T14:30:00.000Z',
+      city: 'Rome',
+      nation: 'IT',
+      latitude: 41.9,
+      longitude: 12.483333,
+      timezone: 'Europe/Rome',
+      rodens_rating: 'AA',
+      tags: ['family'],
+      notes: null,
+    }
+    expect(subjectToBirthData(subject)).toMatchObject({
+      date: { year: 1985, month: 7, day: 12 },
+      time: { hour: 14, minute: 30, second: 0 },
+      utcOffsetMinutes: 120,
+      timezone: 'Europe/Rome',
+      rating: 'AA',
+      tags: ['family'],
+    })
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * Unit Tests for Solar Fire text export import and export
+ *
+ * @module src/lib/csv/solar-fire
+ */
+import { describe, it, expect } from 'vitest'
+import { parseSolarFire, writeSolarFire } from '@/lib/csv/solar-fire'
+import type { Subject } from '@/types/subjects'
+
+const EXPORT = `Name: Abraham Lincoln
+Date: 12 February 1809
+Time: 6:54 am
+Zone: +05:43 (LMT)
+Place: Hodgenville, Kentucky
+Country: USA
+Latitude: 37N34'00"
+Longitude: 85W44'00"
+Rating: AA
+Notes: Quoted by biographer
+  second line
+
+Name: Giulia Rossi
+Date: 12 March 1985
+Time: 14:30
+Zone: CET -01:00
+Place: Rome, Italy
+Latitude: 41N54
+Longitude: 12E29
+Categories: client, family
+`
+
+describe('parseSolarFire', () => {
+  it('should parse blocks with west-positive zones', () => {
+    const [lincoln, rossi] = parseSolarFire(EXPORT)
+    expect(lincoln?.data).toMatchObject({
+      name: 'Abraham Lincoln',
+      birthTime: '12:37:00',
+      timezone: 'UTC',
+      city: 'Hodgenville, Kentucky',
+      nation: 'USA',
+      rodens_rating: 'AA',
+      notes: 'Quoted by biographer\nsecond line',
+    })
+    expect(rossi?.data).toMatchObject({
+      name: 'Giulia Rossi',
+      birthTime: '14:30:00',
+      timezone: 'Etc/GMT-1',
+      city: 'Rome',
+      nation: 'IT',
+      tags: ['client', 'family'],
+    })
+  })
+
+  it('should restore an IANA zone written in parentheses', () => {
+    const [result] = parseSolarFire(EXPORT.split('\n\n')[1]!.replace('CET -01:00', '-01:00 (Europe/Rome)'))
+    expect(result?.data?.timezone).toBe('Europe/Rome')
+  })
+
+  it('should report errors with the line where the block starts', () => {
+    const results = parseSolarFire(EXPORT.replace('Latitude: 41N54', 'Latitude: 41E54'))
+    expect(results[1]).toEqual({
+      success: false,
+      error: 'Row 13: Hemisphere "E" does not apply to latitude: "41E54"',
+    })
+  })
+
+  it('should require a zone', () => {
+    expect(parseSolarFire('Name: A\nDate: 1 Jan 2000\nPlace: Rome, Italy')[0]?.error).toBe('Row 1: Missing time zone')
+  })
+})
+
+describe('writeSolarFire', () => {
+  const subject: Subject = {
+    id: 's1',
+    name: 'Giulia Rossi',
+    birth_datetime: '1985-03-12T14:30:00.000Z',
+    city: 'Rome',
+    nation: 'IT',
+    latitude: 41.9,
+    longitude: 12.483333,
+    timezone: 'Europe/Rome',
+    rodens_rating: 'A',
+    tags: ['client'],
+    notes: 'First line\nSecond line',
+  }
+
+  it('should write a block with a west-positive zone', () => {
+    expect(writeSolarFire([subject])).toBe(
+      [
+        'Name: Giulia Rossi',
+        'Date: 12 March 1985',
+        'Time: 14:30:00',
+        'Zone: -01:00 (Europe/Rome)',
+        'Place: Rome',
+        'Country: Italy',
+        'Latitude: 41N54\'00"',
+        'Longitude: 12E29\'00"',
+        'Rating: A',
+        'Categories: client',
+        'Notes: First line',
+        '  Second line',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('should round-trip through parseSolarFire', () => {
+    const [result] = parseSolarFire(writeSolarFire([subject, subject]))
+    expect(result?.data).toMatchObject({
+      name: 'Giulia Rossi',
+      birthTime: '14:30:00',
+      timezone: 'Europe/Rome',
+      nation: 'IT',
+      rodens_rating: 'A',
+      tags: ['client'],
+      notes: 'First line\nSecond line',
+    })
+  })
+})
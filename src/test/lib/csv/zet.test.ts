@@ -0,0 +1,73 @@
+/**
+ * Unit Tests for ZET/Kepler text list import and export
+ *
+ * @module src/lib/csv/zet
+ */
+import { describe, it, expect } from 'vitest'
+import { parseZET, writeZET } from '@/lib/csv/zet'
+import type { Subject } from '@/types/subjects'
+
+describe('parseZET', () => {
+  it('should parse semicolon-separated lines and skip headers and comments', () => {
+    const results = parseZET(
+      [
+        'Name;Date;Time;Zone;Place;Latitude;Longitude',
+        '# exported list',
+        'Giulia Rossi;12.03.1985;14:30;+1;Rome, Italy;41n54;12e29;AA;Referral; met in 2020',
+      ].join('\n'),
+    )
+    expect(results).toHaveLength(1)
+    expect(results[0]?.data).toMatchObject({
+      name: 'Giulia Rossi',
+      birthTime: '14:30:00',
+      timezone: 'Etc/GMT-1',
+      city: 'Rome',
+      nation: 'IT',
+      rodens_rating: 'AA',
+      notes: 'Referral; met in 2020',
+    })
+  })
+
+  it('should accept tab-separated lines', () => {
+    const [result] = parseZET('Mario Bianchi\t01.01.1990\t08:00\t+05:30\tMumbai, India\t19n04\t72e53')
+    expect(result?.data).toMatchObject({ timezone: 'UTC', birthTime: '02:30:00', nation: 'IN' })
+  })
+
+  it('should report errors with the line number', () => {
+    const results = parseZET('Giulia Rossi;12.03.1985;14:30;+1;Rome, Italy;41n54;12e29\nBad;12.03.1985;14:30')
+    expect(results[1]).toEqual({ success: false, error: 'Row 2: Expected at least 7 fields, found 3' })
+  })
+
+  it('should require a country in the place field', () => {
+    expect(parseZET('A;12.03.1985;14:30;+1;Rome;41n54;12e29')[0]?.error).toBe('Row 1: Missing country')
+  })
+})
+
+describe('writeZET', () => {
+  const subject: Subject = {
+    id: 's1',
+    name: 'Giulia Rossi',
+    birth_datetime: '1985-03-12T14:30:00.000Z',
+    city: 'Rome',
+    nation: 'IT',
+    latitude: 41.9,
+    longitude: 12.483333,
+    timezone: 'Europe/Rome',
+    rodens_rating: null,
+    tags: null,
+    notes: 'Line; one\nLine two',
+  }
+
+  it('should write a header and one line per subject', () => {
+    expect(writeZET([subject]).split('\n')).toEqual([
+      '# name;date;time;zone;place;latitude;longitude;rating;notes',
+      'Giulia Rossi;12.03.1985;14:30:00;+01:00;Rome, IT;41n54\'00";12e29\'00";;Line one Line two',
+      '',
+    ])
+  })
+
+  it('should round-trip through parseZET', () => {
+    const [result] = parseZET(writeZET([subject]))
+    expect(result?.data).toMatchObject({ name: 'Giulia Rossi', birthTime: '14:30:00', timezone: 'Etc/GMT-1' })
+  })
+})
@@ -7,8 +7,12 @@
  * @module src/lib/db/mappers
  */
 import { describe, it, expect } from 'vitest'
-import { mapPrismaSubjectToSubject } from '@/lib/db/mappers'
-import type { Subject as PrismaSubject } from '@prisma/client'
+import {
+  mapPrismaSubjectToSubject,
+  mapPrismaTagToSubjectTag,
+  mapPrismaGroupToSubjectGroup,
+  type PrismaSubjectWithRelations,
+} from '@/lib/db/mappers'
 
 // ============================================================================
 // Helper Factory
@@ -18,7 +22,7 @@ import type { Subject as PrismaSubject } from '@prisma/client'
  * Creates a mock PrismaSubject with all required fields.
  * Override any field by passing partial data.
  */
-function createMockPrismaSubject(overrides: Partial<PrismaSubject> = {}): PrismaSubject {
+function createMockPrismaSubject(overrides: Partial<PrismaSubjectWithRelations> = {}): PrismaSubjectWithRelations {
   return {
     id: 'test-uuid-123',
     name: 'Test Subject',
@@ -29,9 +33,11 @@ function createMockPrismaSubject(overrides: Partial<PrismaSubject> = {}): Prisma
     longitude: 12.4964,
     timezone: 'Europe/Rome',
     rodensRating: 'AA',
-    tags: '["family", "client"]',
+    tags: [{ name: 'family' }, { name: 'client' }],
+    groups: [{ id: 'group-uuid-1' }],
     notes: 'Test notes',
     ownerId: 'owner-uuid-456',
+    workspaceId: null,
     createdAt: new Date('2024-01-01T00:00:00.000Z'),
     updatedAt: new Date('2024-01-15T12:00:00.000Z'),
     ...overrides,
@@ -181,18 +187,18 @@ describe('mapPrismaSubjectToSubject - Null handling with defaults', () => {
 })
 
 // ============================================================================
-// JSON Tags Parsing Tests
+// Tag and Group Relation Tests
 // ============================================================================
 
-describe('mapPrismaSubjectToSubject - JSON tags parsing', () => {
+describe('mapPrismaSubjectToSubject - tag and group relations', () => {
   /**
-   * Tests that the tags field (stored as JSON string in DB)
-   * is correctly parsed back into an array.
+   * Tests that the tag relation is flattened to tag names
+   * and the group relation to group IDs.
    */
 
-  it('should parse valid JSON tags array', () => {
+  it('should flatten tag relations to tag names', () => {
     const prismaSubject = createMockPrismaSubject({
-      tags: '["family", "celebrity", "client"]',
+      tags: [{ name: 'family' }, { name: 'celebrity' }, { name: 'client' }],
     })
 
     const result = mapPrismaSubjectToSubject(prismaSubject)
@@ -201,57 +207,81 @@ describe('mapPrismaSubjectToSubject - JSON tags parsing', () => {
     expect(Array.isArray(result.tags)).toBe(true)
   })
 
-  it('should parse empty JSON array', () => {
-    const prismaSubject = createMockPrismaSubject({
-      tags: '[]',
-    })
+  it('should return null when the subject has no tags', () => {
+    const prismaSubject = createMockPrismaSubject({ tags: [] })
 
     const result = mapPrismaSubjectToSubject(prismaSubject)
 
-    expect(result.tags).toEqual([])
+    expect(result.tags).toBeNull()
   })
 
-  it('should parse single-element array', () => {
-    const prismaSubject = createMockPrismaSubject({
-      tags: '["vip"]',
-    })
+  it('should return null when tags are not loaded', () => {
+    const prismaSubject = createMockPrismaSubject({ tags: undefined })
 
     const result = mapPrismaSubjectToSubject(prismaSubject)
 
-    expect(result.tags).toEqual(['vip'])
+    expect(result.tags).toBeNull()
   })
 
-  it('should return null when tags is null', () => {
+  it('should handle tags with special characters', () => {
     const prismaSubject = createMockPrismaSubject({
-      tags: null,
+      tags: [{ name: 'tag-with-dash' }, { name: 'tag_with_underscore' }, { name: 'tag with space' }],
     })
 
     const result = mapPrismaSubjectToSubject(prismaSubject)
 
-    expect(result.tags).toBeNull()
+    expect(result.tags).toEqual(['tag-with-dash', 'tag_with_underscore', 'tag with space'])
   })
 
-  it('should handle tags with special characters', () => {
-    const prismaSubject = createMockPrismaSubject({
-      tags: '["tag-with-dash", "tag_with_underscore", "tag with space"]',
-    })
+  it('should flatten group relations to group IDs', () => {
+    const prismaSubject = createMockPrismaSubject({ groups: [{ id: 'g1' }, { id: 'g2' }] })
 
     const result = mapPrismaSubjectToSubject(prismaSubject)
 
-    expect(result.tags).toEqual(['tag-with-dash', 'tag_with_underscore', 'tag with space'])
+    expect(result.groupIds).toEqual(['g1', 'g2'])
   })
 
-  // Parameterized tests for various tag configurations
-  it.each([
-    ['["a"]', ['a']],
-    ['["a", "b"]', ['a', 'b']],
-    ['["family", "friend", "coworker"]', ['family', 'friend', 'coworker']],
-  ])('should parse %s to %j', (jsonString, expectedArray) => {
-    const prismaSubject = createMockPrismaSubject({ tags: jsonString })
+  it('should return an empty group list when groups are not loaded', () => {
+    const prismaSubject = createMockPrismaSubject({ groups: undefined })
 
     const result = mapPrismaSubjectToSubject(prismaSubject)
 
-    expect(result.tags).toEqual(expectedArray)
+    expect(result.groupIds).toEqual([])
+  })
+
+  it('should not leak relation objects into the mapped subject', () => {
+    const result = mapPrismaSubjectToSubject(createMockPrismaSubject())
+
+    expect(result).not.toHaveProperty('groups')
+  })
+})
+
+describe('mapPrismaTagToSubjectTag / mapPrismaGroupToSubjectGroup', () => {
+  const timestamps = { createdAt: new Date('2024-01-01'), updatedAt: new Date('2024-01-01') }
+
+  it('should map a tag with its subject count', () => {
+    const result = mapPrismaTagToSubjectTag({
+      id: 'tag-1',
+      name: 'family',
+      ownerId: 'owner-uuid-456',
+      ...timestamps,
+      _count: { subjects: 3 },
+    })
+
+    expect(result).toEqual({ id: 'tag-1', name: 'family', subjectCount: 3 })
+  })
+
+  it('should map a group with its subject count', () => {
+    const result = mapPrismaGroupToSubjectGroup({
+      id: 'group-1',
+      name: 'Smith family',
+      description: null,
+      ownerId: 'owner-uuid-456',
+      ...timestamps,
+      _count: { subjects: 4 },
+    })
+
+    expect(result).toEqual({ id: 'group-1', name: 'Smith family', description: null, subjectCount: 4 })
   })
 })
 
@@ -380,7 +410,7 @@ describe('mapPrismaSubjectToSubject - Complete mapping', () => {
       longitude: null,
       timezone: null,
       rodensRating: null,
-      tags: null,
+      tags: [],
       notes: null,
     })
 
@@ -0,0 +1,167 @@
+/**
+ * Unit Tests for the local ephemeris
+ *
+ * Positions are checked against the worked examples of Meeus, Astronomical
+ * Algorithms (2nd ed.), and against published apparent positions for the
+ * J2000.0 epoch.
+ *
+ * @module src/lib/ephemeris/astronomy
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  dateFromJulianDay,
+  deltaT,
+  getEclipticPosition,
+  getEclipticPositions,
+  greenwichSiderealTime,
+  julianDay,
+  meanObliquity,
+  moonGeometric,
+  toEphemerisDay,
+  J2000,
+} from '@/lib/ephemeris/astronomy'
+import { signedDelta } from '@/lib/astrology/transit-timeline'
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+/** UT instant of a Julian Ephemeris Day, using the same ΔT as the ephemeris */
+function fromEphemerisDay(jde: number): Date {
+  let jd = jde
+  for (let i = 0; i < 3; i++) jd -= toEphemerisDay(jd) - jde
+  return dateFromJulianDay(jd)
+}
+
+function expectLongitude(actual: number, expected: number, tolerance: number) {
+  expect(Math.abs(signedDelta(actual, expected))).toBeLessThan(tolerance)
+}
+
+// ============================================================================
+// Time
+// ============================================================================
+
+describe('julianDay', () => {
+  it('should convert instants to Julian Days and back', () => {
+    const date = new Date('1987-04-10T19:21:00Z')
+
+    expect(julianDay(date)).toBeCloseTo(2446896.30625, 6)
+    expect(dateFromJulianDay(julianDay(date)).getTime()).toBe(date.getTime())
+  })
+
+  it('should place J2000.0 at noon on 1 January 2000', () => {
+    expect(julianDay(new Date('2000-01-01T12:00:00Z'))).toBe(J2000)
+  })
+})
+
+describe('deltaT', () => {
+  it('should follow the observed values', () => {
+    expect(deltaT(1900)).toBeCloseTo(-2.79, 1)
+    expect(deltaT(1950)).toBeCloseTo(29.07, 1)
+    expect(deltaT(2000)).toBeCloseTo(63.86, 1)
+  })
+
+  it('should grow outside the observed range', () => {
+    expect(deltaT(1000)).toBeGreaterThan(1000)
+    expect(deltaT(2200)).toBeGreaterThan(deltaT(2100))
+  })
+})
+
+describe('greenwichSiderealTime', () => {
+  it('should match Meeus example 12.a (1987 April 10, 0h UT)', () => {
+    // Apparent sidereal time 13h10m46.1351s
+    expectLongitude(greenwichSiderealTime(2446895.5), 197.692229, 0.0005)
+  })
+})
+
+describe('meanObliquity', () => {
+  it('should match Meeus example 22.a (1987 April 10)', () => {
+    expect(meanObliquity(-0.127296372348)).toBeCloseTo(23.440946, 5)
+  })
+})
+
+// ============================================================================
+// Sun, Moon and planets
+// ============================================================================
+
+describe('moonGeometric', () => {
+  it('should match Meeus example 47.a (1992 April 12, 0h TD)', () => {
+    const moon = moonGeometric((2448724.5 - J2000) / 36525)
+
+    expect(moon.longitude).toBeCloseTo(133.162655, 5)
+    expect(moon.latitude).toBeCloseTo(-3.229126, 5)
+    expect(moon.distance).toBeCloseTo(368409.7, 0)
+  })
+})
+
+describe('getEclipticPosition', () => {
+  it('should match the apparent Sun of Meeus example 25.a (1992 October 13, 0h TD)', () => {
+    expectLongitude(getEclipticPosition('sun', fromEphemerisDay(2448908.5)).longitude, 199.907372, 0.005)
+  })
+
+  it('should match the apparent Moon of Meeus example 47.a', () => {
+    expectLongitude(getEclipticPosition('moon', fromEphemerisDay(2448724.5)).longitude, 133.167265, 0.001)
+  })
+
+  it('should match the apparent Venus of Meeus example 33.a (1992 December 20, 0h TD)', () => {
+    expectLongitude(getEclipticPosition('venus', fromEphemerisDay(2448976.5)).longitude, 313.08102, 0.01)
+  })
+
+  it('should put Jupiter and Saturn together at the great conjunction of 2020', () => {
+    const date = new Date('2020-12-21T18:20:00Z')
+    const jupiter = getEclipticPosition('jupiter', date)
+    const saturn = getEclipticPosition('saturn', date)
+
+    expectLongitude(jupiter.longitude, 300.48, 0.05)
+    expectLongitude(saturn.longitude, 300.48, 0.05)
+  })
+
+  it('should report retrograde motion as a negative speed', () => {
+    // Mercury was retrograde from 1 to 25 April 2024
+    expect(getEclipticPosition('mercury', new Date('2024-04-10T00:00:00Z')).speed).toBeLessThan(0)
+    expect(getEclipticPosition('mercury', new Date('2024-05-10T00:00:00Z')).speed).toBeGreaterThan(0)
+  })
+
+  it('should keep speeds small when a body crosses 0° Aries', () => {
+    // The Sun crosses the vernal point at the March equinox
+    const sun = getEclipticPosition('sun', new Date('2024-03-20T03:06:00Z'))
+
+    expect(Math.abs(signedDelta(sun.longitude, 0))).toBeLessThan(0.01)
+    expect(sun.speed).toBeCloseTo(0.99, 1)
+    expect(sun.declination).toBeCloseTo(0, 1)
+  })
+
+  it('should move the mean node backwards at its mean rate', () => {
+    expect(getEclipticPosition('mean_node', new Date('2000-01-01T12:00:00Z')).speed).toBeCloseTo(-0.05295, 4)
+  })
+})
+
+describe('getEclipticPositions', () => {
+  // Apparent geocentric longitudes at 2000 January 1, 12h TT
+  const J2000_LONGITUDES = {
+    sun: 280.37,
+    moon: 223.32,
+    mercury: 271.89,
+    venus: 241.57,
+    mars: 327.96,
+    jupiter: 25.25,
+    saturn: 40.4,
+    uranus: 314.81,
+    neptune: 303.19,
+    pluto: 251.45,
+  }
+
+  it('should match published positions at J2000.0', () => {
+    const positions = getEclipticPositions(fromEphemerisDay(J2000))
+
+    for (const [body, longitude] of Object.entries(J2000_LONGITUDES)) {
+      expectLongitude(positions[body as keyof typeof J2000_LONGITUDES].longitude, longitude, 0.05)
+    }
+  })
+
+  it('should place the true node within two degrees of the mean node', () => {
+    const positions = getEclipticPositions(new Date('1990-06-15T11:30:00Z'))
+
+    expect(Math.abs(signedDelta(positions.true_node.longitude, positions.mean_node.longitude))).toBeLessThan(2)
+  })
+})
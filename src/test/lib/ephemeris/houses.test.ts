@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for local chart angles and house cusps
+ *
+ * The angles and Placidus cusps are checked against their definitions on the
+ * celestial sphere rather than against another implementation.
+ *
+ * @module src/lib/ephemeris/houses
+ */
+import { describe, it, expect } from 'vitest'
+import { calculateAngles, calculateHouses, getHouseNumber } from '@/lib/ephemeris/houses'
+import { normalizeDegrees, signedDelta } from '@/lib/astrology/transit-timeline'
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const RAD = Math.PI / 180
+const LONDON = { latitude: 51.5074, longitude: -0.1278 }
+const DATE = new Date('1990-06-15T11:30:00Z')
+
+/** Right ascension and declination of a point on the ecliptic */
+function toEquatorial(longitude: number, obliquity: number) {
+  const l = longitude * RAD
+  const e = obliquity * RAD
+  return {
+    rightAscension: normalizeDegrees(Math.atan2(Math.sin(l) * Math.cos(e), Math.cos(l)) / RAD),
+    declination: Math.asin(Math.sin(e) * Math.sin(l)) / RAD,
+  }
+}
+
+// ============================================================================
+// Angles
+// ============================================================================
+
+describe('calculateAngles', () => {
+  it('should put the Ascendant on the eastern horizon', () => {
+    const { ascendant, ramc, obliquity } = calculateAngles(DATE, LONDON.latitude, LONDON.longitude)
+    const { rightAscension, declination } = toEquatorial(ascendant, obliquity)
+    const hourAngle = signedDelta(ramc, rightAscension)
+    const phi = LONDON.latitude * RAD
+
+    const altitude = Math.asin(
+      Math.sin(phi) * Math.sin(declination * RAD) +
+        Math.cos(phi) * Math.cos(declination * RAD) * Math.cos(hourAngle * RAD),
+    )
+
+    expect(altitude / RAD).toBeCloseTo(0, 6)
+    expect(hourAngle).toBeLessThan(0)
+  })
+
+  it('should put the Midheaven on the meridian', () => {
+    const { midheaven, ramc, obliquity } = calculateAngles(DATE, LONDON.latitude, LONDON.longitude)
+
+    expect(toEquatorial(midheaven, obliquity).rightAscension).toBeCloseTo(ramc, 6)
+  })
+})
+
+// ============================================================================
+// House systems
+// ============================================================================
+
+describe('calculateHouses', () => {
+  it('should start Placidus quadrants at the angles', () => {
+    const houses = calculateHouses(DATE, LONDON.latitude, LONDON.longitude, 'P')
+
+    expect(houses.system).toBe('P')
+    expect(houses.cusps[0]).toBeCloseTo(houses.ascendant, 9)
+    expect(houses.cusps[9]).toBeCloseTo(houses.midheaven, 9)
+    expect(houses.cusps[6]).toBeCloseTo(normalizeDegrees(houses.ascendant + 180), 9)
+  })
+
+  it('should trisect the semi-arcs of the Placidus cusps', () => {
+    const houses = calculateHouses(DATE, LONDON.latitude, LONDON.longitude, 'P')
+    const tanPhi = Math.tan(LONDON.latitude * RAD)
+
+    const cases = [
+      { cusp: houses.cusps[10]!, fraction: 1 / 3 },
+      { cusp: houses.cusps[11]!, fraction: 2 / 3 },
+    ]
+    for (const { cusp, fraction } of cases) {
+      const { rightAscension, declination } = toEquatorial(cusp, houses.obliquity)
+      const semiDiurnalArc = 90 + Math.asin(tanPhi * Math.tan(declination * RAD)) / RAD
+
+      expect(signedDelta(houses.ramc, rightAscension)).toBeCloseTo(-fraction * semiDiurnalArc, 6)
+    }
+  })
+
+  it('should keep cusps in zodiac order', () => {
+    const { cusps } = calculateHouses(DATE, LONDON.latitude, LONDON.longitude, 'P')
+    const total = cusps.reduce((sum, cusp, i) => sum + normalizeDegrees(cusps[(i + 1) % 12]! - cusp), 0)
+
+    expect(total).toBeCloseTo(360, 6)
+  })
+
+  it('should start Whole Sign houses at the beginning of the rising sign', () => {
+    const houses = calculateHouses(DATE, LONDON.latitude, LONDON.longitude, 'W')
+
+    expect(houses.cusps[0]).toBe(Math.floor(houses.ascendant / 30) * 30)
+    houses.cusps.forEach((cusp) => expect(cusp % 30).toBe(0))
+  })
+
+  it('should space Equal houses 30° from the Ascendant', () => {
+    const houses = calculateHouses(DATE, LONDON.latitude, LONDON.longitude, 'A')
+
+    houses.cusps.forEach((cusp, i) => expect(cusp).toBeCloseTo(normalizeDegrees(houses.ascendant + i * 30), 9))
+  })
+
+  it('should fall back to Porphyry beyond the polar circle', () => {
+    const houses = calculateHouses(new Date('2024-01-15T12:00:00Z'), 78.22, 15.65, 'P')
+
+    expect(houses.system).toBe('O')
+    expect(houses.cusps[0]).toBeCloseTo(houses.ascendant, 9)
+    expect(houses.cusps[9]).toBeCloseTo(houses.midheaven, 9)
+  })
+})
+
+describe('getHouseNumber', () => {
+  const cusps = [350, 20, 50, 80, 110, 140, 170, 200, 230, 260, 290, 320]
+
+  it('should find the house containing a longitude', () => {
+    expect(getHouseNumber(355, cusps)).toBe(1)
+    expect(getHouseNumber(5, cusps)).toBe(1)
+    expect(getHouseNumber(20, cusps)).toBe(2)
+    expect(getHouseNumber(349.9, cusps)).toBe(12)
+  })
+})
@@ -0,0 +1,371 @@
+/**
+ * Unit Tests for the local calculation backend
+ *
+ * Compares the locally cast subject with reference points in the shape of a
+ * `/subject` response for the J2000.0 epoch at Greenwich and with Swiss
+ * Ephemeris subjects from 1850 to 2075, and checks that natal charts and
+ * ephemeris tables are produced with the API unreachable.
+ *
+ * @module src/lib/ephemeris/local-backend
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('@/lib/logging/server', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+vi.mock('@/lib/cache/ephemeris', () => ({
+  getCachedEphemeris: vi.fn().mockResolvedValue(null),
+  setCachedEphemeris: vi.fn().mockResolvedValue(undefined),
+}))
+
+import { calculateLocalSubject, findLocalAspects, LocalCalculationBackend } from '@/lib/ephemeris/local-backend'
+import { signedDelta } from '@/lib/astrology/transit-timeline'
+import type { Point, PointKey, SubjectModel } from '@/types/astrology'
+import astrologerSubjects from '@/test/fixtures/astrologer-subjects.json'
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+/** Noon TT on 2000 January 1 is 11:58:56 UT */
+const J2000_SUBJECT: SubjectModel = {
+  name: 'J2000',
+  year: 2000,
+  month: 1,
+  day: 1,
+  hour: 11,
+  minute: 58,
+  second: 56,
+  city: 'Greenwich',
+  nation: 'GB',
+  timezone: 'UTC',
+  longitude: 0,
+  latitude: 51.4778,
+  zodiac_type: 'Tropical',
+  houses_system_identifier: 'P',
+  perspective_type: 'Apparent Geocentric',
+}
+
+type ReferencePoint = Pick<Point, 'name' | 'sign' | 'sign_num' | 'abs_pos' | 'point_type' | 'house' | 'retrograde'>
+
+/**
+ * Points for J2000_SUBJECT in the shape of a `/subject` response (tropical,
+ * Placidus). Longitudes are the published apparent positions at J2000.0,
+ * rounded to the hundredth of a degree; houses follow from an Ascendant of
+ * 23°41' Aries and a Midheaven of 9°22' Capricorn.
+ */
+const J2000_REFERENCE: Partial<Record<PointKey, ReferencePoint>> = {
+  sun: {
+    name: 'Sun',
+    sign: 'Cap',
+    sign_num: 9,
+    abs_pos: 280.37,
+    point_type: 'AstrologicalPoint',
+    house: 'Tenth_House',
+    retrograde: false,
+  },
+  moon: {
+    name: 'Moon',
+    sign: 'Sco',
+    sign_num: 7,
+    abs_pos: 223.32,
+    point_type: 'AstrologicalPoint',
+    house: 'Seventh_House',
+    retrograde: false,
+  },
+  mercury: {
+    name: 'Mercury',
+    sign: 'Cap',
+    sign_num: 9,
+    abs_pos: 271.89,
+    point_type: 'AstrologicalPoint',
+    house: 'Ninth_House',
+    retrograde: false,
+  },
+  venus: {
+    name: 'Venus',
+    sign: 'Sag',
+    sign_num: 8,
+    abs_pos: 241.57,
+    point_type: 'AstrologicalPoint',
+    house: 'Eighth_House',
+    retrograde: false,
+  },
+  mars: {
+    name: 'Mars',
+    sign: 'Aqu',
+    sign_num: 10,
+    abs_pos: 327.96,
+    point_type: 'AstrologicalPoint',
+    house: 'Twelfth_House',
+    retrograde: false,
+  },
+  jupiter: {
+    name: 'Jupiter',
+    sign: 'Ari',
+    sign_num: 0,
+    abs_pos: 25.25,
+    point_type: 'AstrologicalPoint',
+    house: 'First_House',
+    retrograde: false,
+  },
+  saturn: {
+    name: 'Saturn',
+    sign: 'Tau',
+    sign_num: 1,
+    abs_pos: 40.4,
+    point_type: 'AstrologicalPoint',
+    house: 'First_House',
+    retrograde: true,
+  },
+  uranus: {
+    name: 'Uranus',
+    sign: 'Aqu',
+    sign_num: 10,
+    abs_pos: 314.81,
+    point_type: 'AstrologicalPoint',
+    house: 'Eleventh_House',
+    retrograde: false,
+  },
+  neptune: {
+    name: 'Neptune',
+    sign: 'Aqu',
+    sign_num: 10,
+    abs_pos: 303.19,
+    point_type: 'AstrologicalPoint',
+    house: 'Eleventh_House',
+    retrograde: false,
+  },
+  pluto: {
+    name: 'Pluto',
+    sign: 'Sag',
+    sign_num: 8,
+    abs_pos: 251.45,
+    point_type: 'AstrologicalPoint',
+    house: 'Eighth_House',
+    retrograde: false,
+  },
+  mean_north_lunar_node: {
+    name: 'Mean_North_Lunar_Node',
+    sign: 'Leo',
+    sign_num: 4,
+    abs_pos: 125.04,
+    point_type: 'AstrologicalPoint',
+    house: 'Fifth_House',
+    retrograde: true,
+  },
+}
+
+type FixturePoint = Pick<Point, 'name' | 'sign' | 'abs_pos' | 'point_type'> & { retrograde?: boolean }
+
+interface SubjectFixture {
+  subject: SubjectModel
+  iso_formatted_utc_datetime: string
+  points: Partial<Record<PointKey, FixturePoint>>
+}
+
+/**
+ * Subjects cast by the Swiss Ephemeris, the engine behind the API, with its
+ * flags for a tropical, apparent geocentric `/subject`: 1850 to 2075, 69.6°N
+ * to 34.6°S, in Placidus, Whole Sign, Equal and Porphyry houses
+ */
+const SUBJECT_FIXTURES: SubjectFixture[] = astrologerSubjects.cases
+
+/** Tolerance on longitudes, in degrees */
+const LONGITUDE_TOLERANCE = 0.05
+
+/**
+ * Wider tolerances where the local series are coarser: Schlyter's Pluto
+ * drifts by about 20′ in 1850, and the true node and mean Lilith use Meeus'
+ * truncated terms
+ */
+const POINT_TOLERANCES: Partial<Record<PointKey, number>> = {
+  pluto: 0.5,
+  true_north_lunar_node: 0.1,
+  mean_lilith: 0.15,
+}
+
+// ============================================================================
+// Subject
+// ============================================================================
+
+describe('calculateLocalSubject', () => {
+  const subject = calculateLocalSubject(J2000_SUBJECT)
+
+  it.each(Object.entries(J2000_REFERENCE))('should match the reference %s', (key, expected) => {
+    const point = subject[key as PointKey]!
+
+    expect(point).toMatchObject({
+      name: expected!.name,
+      sign: expected!.sign,
+      sign_num: expected!.sign_num,
+      point_type: expected!.point_type,
+      house: expected!.house,
+      retrograde: expected!.retrograde,
+    })
+    expect(Math.abs(signedDelta(point.abs_pos, expected!.abs_pos))).toBeLessThan(0.05)
+    expect(point.position).toBeCloseTo(point.abs_pos - point.sign_num * 30, 9)
+  })
+
+  it('should report the UT instant and the house system used', () => {
+    expect(subject.iso_formatted_utc_datetime).toBe('2000-01-01T11:58:56.000Z')
+    expect(subject.houses_system_identifier).toBe('P')
+    expect(subject.houses_system_name).toBe('Placidus')
+    expect(subject.first_house.point_type).toBe('House')
+    expect(subject.tenth_house.abs_pos).toBeCloseTo(subject.medium_coeli!.abs_pos, 9)
+  })
+
+  it('should convert local time to UT with the subject timezone', () => {
+    const london = calculateLocalSubject({
+      ...J2000_SUBJECT,
+      year: 1990,
+      month: 6,
+      day: 15,
+      hour: 12,
+      minute: 30,
+      second: 0,
+      timezone: 'Europe/London',
+    })
+
+    expect(london.iso_formatted_utc_datetime).toBe('1990-06-15T11:30:00.000Z')
+  })
+
+  it('should only include the requested optional points', () => {
+    const limited = calculateLocalSubject(J2000_SUBJECT, ['Sun', 'Moon', 'Ascendant'])
+
+    expect(limited.ascendant).toBeDefined()
+    expect(limited.medium_coeli).toBeUndefined()
+    expect(limited.mean_north_lunar_node).toBeUndefined()
+    // The planets are required by the subject model
+    expect(limited.pluto).toBeDefined()
+  })
+
+  it('should place the south nodes opposite the north nodes', () => {
+    expect(
+      Math.abs(signedDelta(subject.mean_south_lunar_node!.abs_pos, subject.mean_north_lunar_node!.abs_pos)),
+    ).toBeCloseTo(180, 9)
+  })
+
+  it('should cast unsupported house systems in Placidus', () => {
+    const koch = calculateLocalSubject({ ...J2000_SUBJECT, houses_system_identifier: 'K' })
+
+    expect(koch.houses_system_identifier).toBe('P')
+    expect(koch.second_house.abs_pos).toBeCloseTo(subject.second_house.abs_pos, 9)
+  })
+
+  it('should reject the sidereal zodiac', () => {
+    expect(() => calculateLocalSubject({ ...J2000_SUBJECT, zodiac_type: 'Sidereal' })).toThrow(
+      'The local ephemeris supports the tropical zodiac only',
+    )
+  })
+})
+
+describe.each(SUBJECT_FIXTURES.map((fixture) => [fixture.subject.name, fixture] as const))(
+  'calculateLocalSubject for %s',
+  (_name, fixture) => {
+    const subject = calculateLocalSubject(fixture.subject)
+
+    it('should cast in the requested house system at the same UT instant', () => {
+      expect(subject.iso_formatted_utc_datetime).toBe(fixture.iso_formatted_utc_datetime)
+      expect(subject.houses_system_identifier).toBe(fixture.subject.houses_system_identifier)
+    })
+
+    it.each(Object.entries(fixture.points))('should match %s', (key, expected) => {
+      const point = subject[key as PointKey]!
+      const tolerance = POINT_TOLERANCES[key as PointKey] ?? LONGITUDE_TOLERANCE
+
+      expect(point).toMatchObject({ name: expected!.name, point_type: expected!.point_type })
+      expect(Math.abs(signedDelta(point.abs_pos, expected!.abs_pos))).toBeLessThan(tolerance)
+      if (expected!.retrograde !== undefined) {
+        expect(point.retrograde).toBe(expected!.retrograde)
+      }
+    })
+  },
+)
+
+// ============================================================================
+// Natal chart
+// ============================================================================
+
+describe('findLocalAspects', () => {
+  it('should find aspects within the orbs between active points only', () => {
+    const subject = calculateLocalSubject(J2000_SUBJECT)
+    const aspects = findLocalAspects(subject, [{ name: 'conjunction', orb: 15 }], ['Sun', 'Mercury', 'Neptune'])
+
+    expect(aspects).toHaveLength(1)
+    expect(aspects[0]).toMatchObject({ p1_name: 'Sun', p2_name: 'Mercury', aspect: 'conjunction' })
+    expect(aspects[0]!.orbit).toBeCloseTo(8.48, 1)
+  })
+})
+
+describe('LocalCalculationBackend', () => {
+  const backend = new LocalCalculationBackend()
+
+  it('should return a natal chart with a wheel and chart data', async () => {
+    const response = await backend.getNatalChart(J2000_SUBJECT, { active_points: ['Sun', 'Moon', 'Mars'] })
+
+    expect(response.status).toBe('OK')
+    expect(response.chart).toContain('<svg')
+    expect(response.chart_data.chart_type).toBe('Natal')
+    expect(response.chart_data.subject.sun.sign).toBe('Cap')
+    expect(response.chart_data.active_points).toEqual(['Sun', 'Moon', 'Mars'])
+    expect(response.chart_data.houses_names_list).toHaveLength(12)
+    expect(
+      response.chart_data.element_distribution.fire + response.chart_data.element_distribution.earth,
+    ).toBeGreaterThan(0)
+  })
+
+  it('should return the wheel separately for split charts', async () => {
+    const response = await backend.getNatalChart(J2000_SUBJECT, { split_chart: true })
+
+    expect(response.chart_wheel).toContain('<svg')
+    expect(response.chart).toBeUndefined()
+  })
+
+  it('should report the lunar phase', async () => {
+    const { subject } = await backend.getSubject(J2000_SUBJECT)
+
+    // The Moon was a waning crescent on 1 January 2000
+    expect(subject.lunar_phase?.moon_phase_name).toBe('Waning Crescent')
+  })
+})
+
+// ============================================================================
+// Offline ephemeris
+// ============================================================================
+
+describe('fetchEphemeris without the Astrologer API', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    vi.resetModules()
+    process.env = { ...originalEnv, ASTROLOGER_API_URL: 'http://localhost:8000/api/v5' }
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')))
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    vi.unstubAllGlobals()
+  })
+
+  it('should build the table from the local ephemeris', async () => {
+    const { fetchEphemeris } = await import('@/lib/api/transits')
+
+    const table = await fetchEphemeris({
+      startDate: new Date('2000-01-01T00:00:00Z'),
+      endDate: new Date('2000-01-03T00:00:00Z'),
+      skipCache: true,
+    })
+
+    expect(table).toHaveLength(3)
+    const sun = table[0]!.planets.find((planet) => planet.name === 'Sun')
+    expect(sun?.sign).toBe('Cap')
+    expect(table[0]!.houses).toHaveLength(12)
+  })
+})
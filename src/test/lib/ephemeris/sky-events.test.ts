@@ -0,0 +1,165 @@
+/**
+ * Unit Tests for sky events
+ *
+ * Checks lunations, eclipses, ingresses and stations against published
+ * times (NASA eclipse catalogue, standard ephemerides) within a few minutes.
+ *
+ * @module src/lib/ephemeris/sky-events
+ */
+import { describe, it, expect } from 'vitest'
+
+import {
+  findEclipses,
+  findIngresses,
+  findLunations,
+  findNatalContacts,
+  findSkyEvents,
+  findStations,
+  findVoidOfCourse,
+  MAX_SKY_EVENT_RANGE_DAYS,
+  type SkyEvent,
+} from '@/lib/ephemeris/sky-events'
+
+const minutesBetween = (a: string, b: string) => Math.abs(new Date(a).getTime() - new Date(b).getTime()) / 60000
+
+describe('findLunations', () => {
+  it('should find the new and full moons of a month', () => {
+    const lunations = findLunations(new Date('2024-04-01T00:00:00Z'), new Date('2024-05-01T00:00:00Z'))
+
+    expect(lunations.map((event) => event.type)).toEqual(['new-moon', 'full-moon'])
+    expect(minutesBetween(lunations[0]!.date, '2024-04-08T18:21:00Z')).toBeLessThan(5)
+    expect(lunations[0]!.sign).toBe('Ari')
+    expect(minutesBetween(lunations[1]!.date, '2024-04-23T23:49:00Z')).toBeLessThan(5)
+    expect(lunations[1]!.sign).toBe('Sco')
+  })
+})
+
+describe('findEclipses', () => {
+  const eclipses = findEclipses(new Date('2023-01-01T00:00:00Z'), new Date('2024-12-31T00:00:00Z'))
+
+  it('should find the eclipses of 2023 and 2024', () => {
+    expect(eclipses.map((event) => `${event.type}:${event.eclipse?.kind}:${event.date.slice(0, 10)}`)).toEqual([
+      'solar-eclipse:hybrid:2023-04-20',
+      'lunar-eclipse:penumbral:2023-05-05',
+      'solar-eclipse:annular:2023-10-14',
+      'lunar-eclipse:partial:2023-10-28',
+      'lunar-eclipse:penumbral:2024-03-25',
+      'solar-eclipse:total:2024-04-08',
+      'lunar-eclipse:partial:2024-09-18',
+      'solar-eclipse:annular:2024-10-02',
+    ])
+  })
+
+  it('should time the greatest eclipse within minutes', () => {
+    const total = eclipses.find((event) => event.eclipse?.kind === 'total')
+    expect(minutesBetween(total!.date, '2024-04-08T18:17:00Z')).toBeLessThan(5)
+  })
+
+  it('should number the Saros series', () => {
+    expect(eclipses.map((event) => event.eclipse?.saros)).toEqual([129, 141, 134, 146, 113, 139, 118, 144])
+  })
+
+  it('should compute lunar eclipse magnitudes', () => {
+    const partial = eclipses.find((event) => event.date.startsWith('2023-10-28'))
+    expect(partial!.eclipse!.magnitude).toBeCloseTo(0.122, 1)
+  })
+})
+
+describe('findIngresses and findStations', () => {
+  it('should find the Sun entering Aries at the equinox', () => {
+    const ingresses = findIngresses(new Date('2024-03-15T00:00:00Z'), new Date('2024-03-25T00:00:00Z'), ['Sun'])
+
+    expect(ingresses).toHaveLength(1)
+    expect(ingresses[0]!.sign).toBe('Ari')
+    expect(minutesBetween(ingresses[0]!.date, '2024-03-20T03:06:00Z')).toBeLessThan(5)
+  })
+
+  it('should find Mercury stations', () => {
+    const stations = findStations(new Date('2024-03-20T00:00:00Z'), new Date('2024-05-01T00:00:00Z'), ['Mercury'])
+
+    expect(stations.map((event) => event.type)).toEqual(['station-retrograde', 'station-direct'])
+    expect(stations[0]!.date.slice(0, 10)).toBe('2024-04-01')
+    expect(stations[1]!.date.slice(0, 10)).toBe('2024-04-25')
+  })
+
+  it('should ignore points that are not planets', () => {
+    expect(
+      findStations(new Date('2024-01-01T00:00:00Z'), new Date('2024-12-31T00:00:00Z'), ['Sun', 'Ascendant']),
+    ).toEqual([])
+  })
+})
+
+describe('findVoidOfCourse', () => {
+  const periods = findVoidOfCourse(new Date('2024-04-01T00:00:00Z'), new Date('2024-04-15T00:00:00Z'))
+
+  it('should end each period at the next Moon ingress', () => {
+    const ingresses = findIngresses(new Date('2024-03-29T00:00:00Z'), new Date('2024-04-16T00:00:00Z'), ['Moon'])
+
+    expect(periods.length).toBeGreaterThanOrEqual(6)
+    for (const period of periods) {
+      expect(ingresses.map((ingress) => ingress.date)).toContain(period.endDate)
+      expect(period.date < period.endDate!).toBe(true)
+    }
+  })
+
+  it('should start after the last aspect of the Moon in the sign', () => {
+    const afterNewMoon = periods.find((period) => period.date.startsWith('2024-04-09'))
+
+    expect(afterNewMoon?.lastAspect).toEqual({ point: 'Mercury', aspect: 'conjunction' })
+    expect(afterNewMoon?.sign).toBe('Ari')
+  })
+})
+
+describe('findNatalContacts', () => {
+  const eclipse: SkyEvent = {
+    id: 'solar-eclipse:Moon:Ari:2024-04-08',
+    type: 'solar-eclipse',
+    date: '2024-04-08T18:17:00.000Z',
+    point: 'Moon',
+    longitude: 19.4,
+    sign: 'Ari',
+  }
+  const natal = { Sun: 21, Moon: 200, Venus: 17.5, Mars: 120 }
+
+  it('should report natal points within the orb, closest first', () => {
+    expect(findNatalContacts(eclipse, natal, { orb: 3 })).toEqual([
+      { point: 'Sun', aspect: 'conjunction', orb: expect.closeTo(1.6, 5) },
+      { point: 'Venus', aspect: 'conjunction', orb: expect.closeTo(1.9, 5) },
+    ])
+  })
+
+  it('should report oppositions when asked', () => {
+    const contacts = findNatalContacts(eclipse, natal, { orb: 1, oppositions: true })
+
+    expect(contacts).toEqual([{ point: 'Moon', aspect: 'opposition', orb: expect.closeTo(0.6, 5) }])
+  })
+
+  it('should ignore void-of-course periods', () => {
+    expect(findNatalContacts({ ...eclipse, type: 'void-of-course' }, natal, { orb: 30 })).toEqual([])
+  })
+})
+
+describe('findSkyEvents', () => {
+  it('should return the selected categories in chronological order', () => {
+    const events = findSkyEvents({
+      startDate: new Date('2024-01-01T00:00:00Z'),
+      endDate: new Date('2024-07-01T00:00:00Z'),
+      categories: ['lunations', 'stations'],
+    })
+
+    expect(events.every((event) => !['ingress', 'solar-eclipse', 'lunar-eclipse'].includes(event.type))).toBe(true)
+    expect(events.map((event) => event.date)).toEqual([...events.map((event) => event.date)].sort())
+    expect(new Set(events.map((event) => event.id)).size).toBe(events.length)
+  })
+
+  it('should reject inverted or too long ranges', () => {
+    const start = new Date('2024-01-01T00:00:00Z')
+    expect(() => findSkyEvents({ startDate: start, endDate: new Date('2023-01-01T00:00:00Z') })).toThrow()
+    expect(() =>
+      findSkyEvents({
+        startDate: start,
+        endDate: new Date(start.getTime() + (MAX_SKY_EVENT_RANGE_DAYS + 1) * 24 * 60 * 60 * 1000),
+      }),
+    ).toThrow()
+  })
+})
@@ -0,0 +1,234 @@
+/**
+ * Unit Tests for Rate Limit Stores
+ *
+ * Tests the sliding-window and failed-login logic shared by the stores, and
+ * the Postgres and Redis stores against a mocked Prisma client and a fake
+ * Redis connection.
+ *
+ * @module src/lib/security/rate-limit-store
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+const { mockTx, mockPrisma } = vi.hoisted(() => {
+  const mockTx = {
+    $executeRaw: vi.fn(),
+    rateLimitEntry: { findUnique: vi.fn(), upsert: vi.fn() },
+    loginLockout: { findUnique: vi.fn(), upsert: vi.fn() },
+  }
+  const mockPrisma = {
+    $transaction: vi.fn((callback: (tx: typeof mockTx) => unknown) => callback(mockTx)),
+    rateLimitEntry: { deleteMany: vi.fn().mockResolvedValue({ count: 0 }) },
+    loginLockout: { findUnique: vi.fn(), deleteMany: vi.fn().mockResolvedValue({ count: 0 }) },
+  }
+  return { mockTx, mockPrisma }
+})
+
+vi.mock('@/lib/db/prisma', () => ({ prisma: mockPrisma }))
+
+vi.mock('@/lib/logging/server', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}))
+
+import {
+  applyFailedLogin,
+  applySlidingWindow,
+  PrismaRateLimitStore,
+  RedisRateLimitStore,
+  type LockoutPolicy,
+} from '@/lib/security/rate-limit-store'
+import type { RedisClient } from '@/lib/db/redis'
+
+const POLICY: LockoutPolicy = { maxAttempts: 3, lockoutMs: 60_000, attemptWindowMs: 120_000 }
+
+// ============================================================================
+// SHARED LOGIC
+// ============================================================================
+
+describe('applySlidingWindow', () => {
+  it('counts only requests within the preceding window', () => {
+    // A fixed window starting at 0 would reset at 60s; the sliding window keeps 30s and 50s
+    const { hits, result } = applySlidingWindow([0, 30_000, 50_000], 3, 60_000, 61_000)
+
+    expect(hits).toEqual([30_000, 50_000, 61_000])
+    expect(result).toEqual({ success: true, remaining: 0, resetTime: 90_000 })
+  })
+
+  it('rejects without recording when the window is full', () => {
+    const { hits, result } = applySlidingWindow([30_000, 50_000, 61_000], 3, 60_000, 70_000)
+
+    expect(hits).toEqual([30_000, 50_000, 61_000])
+    expect(result).toEqual({ success: false, remaining: 0, resetTime: 90_000 })
+  })
+})
+
+describe('applyFailedLogin', () => {
+  it('locks on the failure reaching the maximum', () => {
+    let state = applyFailedLogin(null, POLICY, 1000)
+    state = applyFailedLogin(state, POLICY, 2000)
+    expect(state).toEqual({ count: 2, firstAttemptTime: 1000, lockedUntil: null })
+
+    expect(applyFailedLogin(state, POLICY, 3000)).toEqual({ count: 3, firstAttemptTime: 1000, lockedUntil: 63_000 })
+  })
+
+  it('does not extend an active lockout', () => {
+    const locked = { count: 3, firstAttemptTime: 1000, lockedUntil: 63_000 }
+    expect(applyFailedLogin(locked, POLICY, 10_000).lockedUntil).toBe(63_000)
+  })
+
+  it('starts a new window once the previous one has passed', () => {
+    const stale = { count: 2, firstAttemptTime: 1000, lockedUntil: null }
+    expect(applyFailedLogin(stale, POLICY, 200_000)).toEqual({
+      count: 1,
+      firstAttemptTime: 200_000,
+      lockedUntil: null,
+    })
+  })
+})
+
+// ============================================================================
+// POSTGRES STORE
+// ============================================================================
+
+describe('PrismaRateLimitStore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('updates the log under an advisory lock', async () => {
+    mockTx.rateLimitEntry.findUnique.mockResolvedValue({ key: 'api:u1', hits: [new Date(10_000)] })
+
+    const result = await new PrismaRateLimitStore().hit('api:u1', 5, 60_000, 20_000)
+
+    expect(result).toEqual({ success: true, remaining: 3, resetTime: 70_000 })
+    expect(mockTx.$executeRaw).toHaveBeenCalledBefore(mockTx.rateLimitEntry.findUnique)
+    expect(mockTx.rateLimitEntry.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { key: 'api:u1' },
+        update: { hits: [new Date(10_000), new Date(20_000)], expiresAt: new Date(80_000) },
+      }),
+    )
+  })
+
+  it('leaves the log unchanged when rejecting', async () => {
+    mockTx.rateLimitEntry.findUnique.mockResolvedValue({ key: 'api:u1', hits: [new Date(10_000)] })
+
+    const result = await new PrismaRateLimitStore().hit('api:u1', 1, 60_000, 20_000)
+
+    expect(result.success).toBe(false)
+    expect(mockTx.rateLimitEntry.upsert).not.toHaveBeenCalled()
+  })
+
+  it('records failed logins and reads them back', async () => {
+    mockTx.loginLockout.findUnique.mockResolvedValue({
+      key: 'alice',
+      count: 2,
+      firstAttemptAt: new Date(1000),
+      lockedUntil: null,
+    })
+    const store = new PrismaRateLimitStore()
+
+    const state = await store.recordFailedLogin('alice', POLICY, 5000)
+    expect(state).toEqual({ count: 3, firstAttemptTime: 1000, lockedUntil: 65_000 })
+    expect(mockTx.loginLockout.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: {
+          count: 3,
+          firstAttemptAt: new Date(1000),
+          lockedUntil: new Date(65_000),
+          expiresAt: new Date(121_000),
+        },
+      }),
+    )
+
+    mockPrisma.loginLockout.findUnique.mockResolvedValue({
+      key: 'alice',
+      count: 3,
+      firstAttemptAt: new Date(1000),
+      lockedUntil: new Date(65_000),
+    })
+    expect(await store.getFailedLogins('alice')).toEqual(state)
+  })
+
+  it('sweeps expired rows at most once per interval', async () => {
+    mockTx.rateLimitEntry.findUnique.mockResolvedValue(null)
+    const store = new PrismaRateLimitStore()
+
+    await store.hit('k', 5, 60_000, 100_000)
+    await store.hit('k', 5, 60_000, 110_000)
+
+    expect(mockPrisma.rateLimitEntry.deleteMany).toHaveBeenCalledTimes(1)
+    expect(mockPrisma.rateLimitEntry.deleteMany).toHaveBeenCalledWith({
+      where: { expiresAt: { lt: new Date(100_000) } },
+    })
+  })
+})
+
+// ============================================================================
+// REDIS STORE
+// ============================================================================
+
+describe('RedisRateLimitStore', () => {
+  const command = vi.fn()
+  const store = new RedisRateLimitStore({ command } as unknown as RedisClient, 'test:')
+
+  beforeEach(() => {
+    command.mockReset()
+  })
+
+  it('runs the sliding-window script on the prefixed key', async () => {
+    command.mockResolvedValue([1, 2, '10000'])
+
+    const result = await store.hit('api:u1', 5, 60_000, 20_000)
+
+    expect(result).toEqual({ success: true, remaining: 3, resetTime: 70_000 })
+    expect(command).toHaveBeenCalledWith(
+      'EVAL',
+      expect.stringContaining('ZREMRANGEBYSCORE'),
+      1,
+      'test:rate:api:u1',
+      20_000,
+      60_000,
+      5,
+      expect.stringMatching(/^20000:/),
+    )
+  })
+
+  it('reports rejections from the script', async () => {
+    command.mockResolvedValue([0, 5, '10000'])
+    expect(await store.hit('api:u1', 5, 60_000, 20_000)).toEqual({ success: false, remaining: 0, resetTime: 70_000 })
+  })
+
+  it('records failed logins with the lockout policy', async () => {
+    command.mockResolvedValue([3, 1000, 65_000])
+
+    expect(await store.recordFailedLogin('alice', POLICY, 5000)).toEqual({
+      count: 3,
+      firstAttemptTime: 1000,
+      lockedUntil: 65_000,
+    })
+    expect(command).toHaveBeenCalledWith(
+      'EVAL',
+      expect.stringContaining('HINCRBY'),
+      1,
+      'test:lockout:alice',
+      5000,
+      120_000,
+      3,
+      60_000,
+    )
+  })
+
+  it('reads failed logins from the hash', async () => {
+    command.mockResolvedValue(['2', '1000', null])
+    expect(await store.getFailedLogins('alice')).toEqual({ count: 2, firstAttemptTime: 1000, lockedUntil: null })
+
+    command.mockResolvedValue([null, null, null])
+    expect(await store.getFailedLogins('bob')).toBeNull()
+  })
+
+  it('clears failed logins', async () => {
+    command.mockResolvedValue(1)
+    await store.clearFailedLogins('alice')
+    expect(command).toHaveBeenCalledWith('DEL', 'test:lockout:alice')
+  })
+})
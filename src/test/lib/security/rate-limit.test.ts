@@ -37,56 +37,56 @@ describe('Rate Limiting', () => {
       ['prima richiesta', 1, { success: true, remaining: 4 }],
       ['quinta richiesta', 5, { success: true, remaining: 0 }],
       ['sesta richiesta', 6, { success: false, remaining: 0 }],
-    ] as const)('%s (request %d) should return success=%s, remaining=%d', (_, requestCount, expected) => {
+    ] as const)('%s (request %d) should return success=%s, remaining=%d', async (_, requestCount, expected) => {
       // Use unique identifier for each test case
       const identifier = `test-user-${requestCount}-${Date.now()}`
 
       let result = { success: false, remaining: 0, resetTime: 0 }
       for (let i = 0; i < requestCount; i++) {
-        result = checkRateLimit(identifier, config)
+        result = await checkRateLimit(identifier, config)
       }
 
       expect(result.success).toBe(expected.success)
       expect(result.remaining).toBe(expected.remaining)
     })
 
-    it('should allow requests again after window expires', () => {
+    it('should allow requests again after window expires', async () => {
       const identifier = `test-window-reset-${Date.now()}`
 
       // Make 6 requests (exceeds limit of 5)
       for (let i = 0; i < 6; i++) {
-        checkRateLimit(identifier, config)
+        await checkRateLimit(identifier, config)
       }
 
       // Verify 6th request was blocked
-      const blockedResult = checkRateLimit(identifier, config)
+      const blockedResult = await checkRateLimit(identifier, config)
       expect(blockedResult.success).toBe(false)
 
       // Advance time past the window (60 seconds + 100ms buffer)
       vi.advanceTimersByTime(60 * 1000 + 100)
 
       // Next request should succeed
-      const newResult = checkRateLimit(identifier, config)
+      const newResult = await checkRateLimit(identifier, config)
       expect(newResult.success).toBe(true)
       expect(newResult.remaining).toBe(4)
     })
 
-    it('should maintain separate counters for different identifiers', () => {
+    it('should maintain separate counters for different identifiers', async () => {
       const user1 = `user1-${Date.now()}`
       const user2 = `user2-${Date.now()}`
 
       // User 1 makes 5 requests (reaches limit)
       for (let i = 0; i < 5; i++) {
-        checkRateLimit(user1, config)
+        await checkRateLimit(user1, config)
       }
 
       // User 1 should be at limit
-      const user1Result = checkRateLimit(user1, config)
+      const user1Result = await checkRateLimit(user1, config)
       expect(user1Result.success).toBe(false)
       expect(user1Result.remaining).toBe(0)
 
       // User 2 should have full quota
-      const user2Result = checkRateLimit(user2, config)
+      const user2Result = await checkRateLimit(user2, config)
       expect(user2Result.success).toBe(true)
       expect(user2Result.remaining).toBe(4)
     })
@@ -119,75 +119,75 @@ describe('Rate Limiting', () => {
   })
 
   describe('checkAccountLockout', () => {
-    it('should return locked: false for new user', () => {
-      const result = checkAccountLockout(`newuser-${Date.now()}`)
+    it('should return locked: false for new user', async () => {
+      const result = await checkAccountLockout(`newuser-${Date.now()}`)
       expect(result).toEqual({ locked: false })
     })
 
-    it('should return locked: false after 4 failed login attempts', () => {
+    it('should return locked: false after 4 failed login attempts', async () => {
       const username = `locktest-4-${Date.now()}`
 
       // Record 4 failed attempts
       for (let i = 0; i < 4; i++) {
-        recordFailedLogin(username)
+        await recordFailedLogin(username)
       }
 
-      const result = checkAccountLockout(username)
+      const result = await checkAccountLockout(username)
       expect(result.locked).toBe(false)
     })
 
-    it('should return locked: true with remainingSeconds between 890-910 after 5 failed attempts', () => {
+    it('should return locked: true with remainingSeconds between 890-910 after 5 failed attempts', async () => {
       const username = `locktest-5-${Date.now()}`
 
       // Record 5 failed attempts
       for (let i = 0; i < 5; i++) {
-        recordFailedLogin(username)
+        await recordFailedLogin(username)
       }
 
-      const result = checkAccountLockout(username)
+      const result = await checkAccountLockout(username)
       expect(result.locked).toBe(true)
       expect(result.remainingSeconds).toBeDefined()
       expect(result.remainingSeconds).toBeGreaterThanOrEqual(890)
       expect(result.remainingSeconds).toBeLessThanOrEqual(910)
     })
 
-    it('should unlock after lockout duration expires (15 minutes)', () => {
+    it('should unlock after lockout duration expires (15 minutes)', async () => {
       const username = `locktest-unlock-${Date.now()}`
 
       // Record 5 failed attempts to trigger lockout
       for (let i = 0; i < 5; i++) {
-        recordFailedLogin(username)
+        await recordFailedLogin(username)
       }
 
       // Verify locked
-      const lockedResult = checkAccountLockout(username)
+      const lockedResult = await checkAccountLockout(username)
       expect(lockedResult.locked).toBe(true)
 
       // Advance time past lockout duration (15 minutes + 100ms buffer)
       vi.advanceTimersByTime(15 * 60 * 1000 + 100)
 
       // Should be unlocked now
-      const unlockedResult = checkAccountLockout(username)
+      const unlockedResult = await checkAccountLockout(username)
       expect(unlockedResult.locked).toBe(false)
     })
 
-    it('should reset immediately when clearFailedLogins is called', () => {
+    it('should reset immediately when clearFailedLogins is called', async () => {
       const username = `locktest-clear-${Date.now()}`
 
       // Record 5 failed attempts to trigger lockout
       for (let i = 0; i < 5; i++) {
-        recordFailedLogin(username)
+        await recordFailedLogin(username)
       }
 
       // Verify locked
-      const lockedResult = checkAccountLockout(username)
+      const lockedResult = await checkAccountLockout(username)
       expect(lockedResult.locked).toBe(true)
 
       // Clear failed logins
-      clearFailedLogins(username)
+      await clearFailedLogins(username)
 
       // Should be unlocked immediately
-      const clearedResult = checkAccountLockout(username)
+      const clearedResult = await checkAccountLockout(username)
       expect(clearedResult.locked).toBe(false)
     })
   })
@@ -241,33 +241,33 @@ describe('Rate Limiting', () => {
   })
 
   describe('checkRateLimit with prefix (key derivation)', () => {
-    it('should maintain separate counters for different prefixes with same identifier', () => {
+    it('should maintain separate counters for different prefixes with same identifier', async () => {
       const identifier = `user-prefix-test-${Date.now()}`
 
       // Make 5 requests with prefix 'api'
       for (let i = 0; i < 5; i++) {
-        checkRateLimit(identifier, { limit: 5, windowSeconds: 60, prefix: 'api' })
+        await checkRateLimit(identifier, { limit: 5, windowSeconds: 60, prefix: 'api' })
       }
 
       // User with 'api' prefix should be at limit
-      const apiResult = checkRateLimit(identifier, { limit: 5, windowSeconds: 60, prefix: 'api' })
+      const apiResult = await checkRateLimit(identifier, { limit: 5, windowSeconds: 60, prefix: 'api' })
       expect(apiResult.success).toBe(false)
 
       // Same user with 'ai' prefix should have full quota
-      const aiResult = checkRateLimit(identifier, { limit: 5, windowSeconds: 60, prefix: 'ai' })
+      const aiResult = await checkRateLimit(identifier, { limit: 5, windowSeconds: 60, prefix: 'ai' })
       expect(aiResult.success).toBe(true)
       expect(aiResult.remaining).toBe(4)
     })
 
-    it('should use default prefix when not provided', () => {
+    it('should use default prefix when not provided', async () => {
       const identifier = `user-default-prefix-${Date.now()}`
 
       // Calls without prefix should work
-      const result1 = checkRateLimit(identifier, { limit: 5, windowSeconds: 60 })
+      const result1 = await checkRateLimit(identifier, { limit: 5, windowSeconds: 60 })
       expect(result1.success).toBe(true)
 
       // Another call without prefix should share the same counter
-      const result2 = checkRateLimit(identifier, { limit: 5, windowSeconds: 60 })
+      const result2 = await checkRateLimit(identifier, { limit: 5, windowSeconds: 60 })
       expect(result2.remaining).toBe(3) // 5 - 2 = 3
     })
   })
@@ -333,63 +333,63 @@ describe('Rate Limiting', () => {
   })
 
   describe('recordFailedLogin with window expiration', () => {
-    it('should start a new tracking window when previous window expired', () => {
+    it('should start a new tracking window when previous window expired', async () => {
       const username = `failed-window-reset-${Date.now()}`
 
       // Record 3 failed attempts
-      recordFailedLogin(username)
-      recordFailedLogin(username)
-      recordFailedLogin(username)
+      await recordFailedLogin(username)
+      await recordFailedLogin(username)
+      await recordFailedLogin(username)
 
       // Advance time past the attempt window (15 minutes + buffer)
       vi.advanceTimersByTime(15 * 60 * 1000 + 100)
 
       // Record a new failed login - should start fresh
-      recordFailedLogin(username)
+      await recordFailedLogin(username)
 
       // Should not be locked (only 1 failed attempt in new window)
-      const result = checkAccountLockout(username)
+      const result = await checkAccountLockout(username)
       expect(result.locked).toBe(false)
     })
   })
 
   describe('checkAccountLockout with attempt window expiration', () => {
-    it('should reset and return unlocked when attempt window has passed', () => {
+    it('should reset and return unlocked when attempt window has passed', async () => {
       const username = `lockout-window-expire-${Date.now()}`
 
       // Record 4 failed attempts (not enough to trigger lockout)
       for (let i = 0; i < 4; i++) {
-        recordFailedLogin(username)
+        await recordFailedLogin(username)
       }
 
       // Verify not locked yet
-      let result = checkAccountLockout(username)
+      let result = await checkAccountLockout(username)
       expect(result.locked).toBe(false)
 
       // Advance time past the attempt window (15 minutes + buffer)
       vi.advanceTimersByTime(15 * 60 * 1000 + 100)
 
       // Check lockout - should reset and return unlocked
-      result = checkAccountLockout(username)
+      result = await checkAccountLockout(username)
       expect(result.locked).toBe(false)
 
       // Now record new attempts - should start fresh
-      recordFailedLogin(username)
-      result = checkAccountLockout(username)
+      await recordFailedLogin(username)
+      result = await checkAccountLockout(username)
       expect(result.locked).toBe(false)
     })
 
-    it('should handle lockout that expires and then attempt window expires', () => {
+    it('should handle lockout that expires and then attempt window expires', async () => {
       const username = `lockout-then-window-${Date.now()}`
 
       // Trigger lockout with 5 failed attempts
       for (let i = 0; i < 5; i++) {
-        recordFailedLogin(username)
+        await recordFailedLogin(username)
       }
-      checkAccountLockout(username) // This sets lockedUntil
+      await checkAccountLockout(username) // This sets lockedUntil
 
       // Verify locked
-      let result = checkAccountLockout(username)
+      let result = await checkAccountLockout(username)
       expect(result.locked).toBe(true)
 
       // Advance time past lockout (15 min) but still within attempt window
@@ -397,18 +397,18 @@ describe('Rate Limiting', () => {
       vi.advanceTimersByTime(15 * 60 * 1000 + 100)
 
       // Should be unlocked (lockout expired)
-      result = checkAccountLockout(username)
+      result = await checkAccountLockout(username)
       expect(result.locked).toBe(false)
     })
   })
 
   describe('in-memory store cleanup', () => {
-    it('should cleanup expired entries after cleanup interval (60s)', () => {
+    it('should cleanup expired entries after cleanup interval (60s)', async () => {
       const identifier = `cleanup-test-${Date.now()}`
       const config = { limit: 5, windowSeconds: 10, prefix: 'cleanup' }
 
       // Create an entry with a 10-second window
-      checkRateLimit(identifier, config)
+      await checkRateLimit(identifier, config)
 
       // Advance time past the window (entry should be expired)
       vi.advanceTimersByTime(10 * 1000 + 100)
@@ -417,12 +417,12 @@ describe('Rate Limiting', () => {
       vi.advanceTimersByTime(60 * 1000)
 
       // After cleanup, requesting again should give a fresh count
-      const result = checkRateLimit(identifier, config)
+      const result = await checkRateLimit(identifier, config)
       expect(result.success).toBe(true)
       expect(result.remaining).toBe(4) // Fresh entry
     })
 
-    it('should execute cleanup callback and delete expired entries from store', () => {
+    it('should execute cleanup callback and delete expired entries from store', async () => {
       // Use _clearRateLimitStore to get clean state
       _clearRateLimitStore()
 
@@ -430,7 +430,7 @@ describe('Rate Limiting', () => {
       const config = { limit: 5, windowSeconds: 5, prefix: 'callback-test' }
 
       // Create an entry with short expiration
-      checkRateLimit(identifier, config)
+      await checkRateLimit(identifier, config)
 
       // Make the entry expire
       vi.advanceTimersByTime(5 * 1000 + 100)
@@ -439,27 +439,27 @@ describe('Rate Limiting', () => {
       vi.advanceTimersByTime(60 * 1000)
 
       // After cleanup, new request should be fresh (count reset)
-      const result = checkRateLimit(identifier, config)
+      const result = await checkRateLimit(identifier, config)
       expect(result.success).toBe(true)
       expect(result.remaining).toBe(4) // Fresh entry, limit-1
     })
 
-    it('should not delete entries that have not expired yet', () => {
+    it('should not delete entries that have not expired yet', async () => {
       _clearRateLimitStore()
 
       const identifier = `cleanup-keep-test-${Date.now()}`
       const config = { limit: 5, windowSeconds: 120, prefix: 'keep-test' } // 2 minute window
 
       // Create an entry and use 3 of the limit
-      checkRateLimit(identifier, config)
-      checkRateLimit(identifier, config)
-      checkRateLimit(identifier, config)
+      await checkRateLimit(identifier, config)
+      await checkRateLimit(identifier, config)
+      await checkRateLimit(identifier, config)
 
       // Advance past cleanup interval but NOT past the entry's window
       vi.advanceTimersByTime(60 * 1000)
 
       // Entry should still exist with its count
-      const result = checkRateLimit(identifier, config)
+      const result = await checkRateLimit(identifier, config)
       expect(result.success).toBe(true)
       expect(result.remaining).toBe(1) // 5 - 4 = 1 (3 + 1 new = 4 requests)
     })
@@ -483,13 +483,13 @@ describe('Rate Limiting', () => {
       expect(initialState.storeSize).toBe(0)
     })
 
-    it('should start cleanup timer lazily on first checkRateLimit call', () => {
+    it('should start cleanup timer lazily on first checkRateLimit call', async () => {
       // Verify timer is not active initially
       expect(_getCleanupState().timerActive).toBe(false)
 
       // Make a rate limit check
       const identifier = `lazy-start-${Date.now()}`
-      checkRateLimit(identifier, { limit: 5, windowSeconds: 60 })
+      await checkRateLimit(identifier, { limit: 5, windowSeconds: 60 })
 
       // Timer should now be active
       const stateAfter = _getCleanupState()
@@ -497,12 +497,12 @@ describe('Rate Limiting', () => {
       expect(stateAfter.storeSize).toBe(1)
     })
 
-    it('should stop cleanup timer when store becomes empty after cleanup', () => {
+    it('should stop cleanup timer when store becomes empty after cleanup', async () => {
       const identifier = `auto-stop-${Date.now()}`
       const config = { limit: 5, windowSeconds: 5, prefix: 'auto-stop' }
 
       // Create an entry with short window
-      checkRateLimit(identifier, config)
+      await checkRateLimit(identifier, config)
       expect(_getCleanupState().timerActive).toBe(true)
 
       // Advance time past the window so entry expires
@@ -516,13 +516,13 @@ describe('Rate Limiting', () => {
       expect(_getCleanupState().storeSize).toBe(0)
     })
 
-    it('should restart timer when new entry is added after auto-stop', () => {
+    it('should restart timer when new entry is added after auto-stop', async () => {
       const identifier1 = `restart-test-1-${Date.now()}`
       const identifier2 = `restart-test-2-${Date.now()}`
       const config = { limit: 5, windowSeconds: 5, prefix: 'restart' }
 
       // Create first entry
-      checkRateLimit(identifier1, config)
+      await checkRateLimit(identifier1, config)
       expect(_getCleanupState().timerActive).toBe(true)
 
       // Let it expire and trigger cleanup
@@ -533,14 +533,14 @@ describe('Rate Limiting', () => {
       expect(_getCleanupState().timerActive).toBe(false)
 
       // Add a new entry - timer should restart
-      checkRateLimit(identifier2, config)
+      await checkRateLimit(identifier2, config)
       expect(_getCleanupState().timerActive).toBe(true)
       expect(_getCleanupState().storeSize).toBe(1)
     })
 
-    it('should allow explicit stopCleanup() call', () => {
+    it('should allow explicit stopCleanup() call', async () => {
       const identifier = `explicit-stop-${Date.now()}`
-      checkRateLimit(identifier, { limit: 5, windowSeconds: 60 })
+      await checkRateLimit(identifier, { limit: 5, windowSeconds: 60 })
 
       expect(_getCleanupState().timerActive).toBe(true)
 
@@ -552,9 +552,9 @@ describe('Rate Limiting', () => {
       expect(_getCleanupState().storeSize).toBe(1)
     })
 
-    it('should handle _clearRateLimitStore() correctly', () => {
+    it('should handle _clearRateLimitStore() correctly', async () => {
       const identifier = `clear-store-${Date.now()}`
-      checkRateLimit(identifier, { limit: 5, windowSeconds: 60 })
+      await checkRateLimit(identifier, { limit: 5, windowSeconds: 60 })
 
       expect(_getCleanupState().storeSize).toBe(1)
       expect(_getCleanupState().timerActive).toBe(true)
@@ -566,13 +566,13 @@ describe('Rate Limiting', () => {
       expect(_getCleanupState().timerActive).toBe(false)
     })
 
-    it('should not start multiple timers for multiple entries', () => {
+    it('should not start multiple timers for multiple entries', async () => {
       const config = { limit: 5, windowSeconds: 60 }
 
       // Add multiple entries
-      checkRateLimit(`multi-1-${Date.now()}`, config)
-      checkRateLimit(`multi-2-${Date.now()}`, config)
-      checkRateLimit(`multi-3-${Date.now()}`, config)
+      await checkRateLimit(`multi-1-${Date.now()}`, config)
+      await checkRateLimit(`multi-2-${Date.now()}`, config)
+      await checkRateLimit(`multi-3-${Date.now()}`, config)
 
       // Should only have one timer active
       expect(_getCleanupState().timerActive).toBe(true)
@@ -580,3 +580,64 @@ describe('Rate Limiting', () => {
     })
   })
 })
+
+describe('Rate limit configuration', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.doUnmock('@/lib/db/redis')
+    vi.resetModules()
+  })
+
+  it('should override presets and the lockout policy from the environment', async () => {
+    vi.stubEnv('RATE_LIMIT_STANDARD', '200/30')
+    vi.stubEnv('RATE_LIMIT_PUBLIC_CHART', 'not-a-limit')
+    vi.stubEnv('LOGIN_MAX_FAILED_ATTEMPTS', '2')
+    vi.resetModules()
+
+    const rateLimit = await import('@/lib/security/rate-limit')
+    expect(rateLimit.RATE_LIMITS.standard).toEqual({ limit: 200, windowSeconds: 30, prefix: 'api' })
+    expect(rateLimit.RATE_LIMITS.publicChart).toEqual({ limit: 60, windowSeconds: 60, prefix: 'public_chart' })
+
+    const username = `env-lockout-${Date.now()}`
+    await rateLimit.recordFailedLogin(username)
+    await rateLimit.recordFailedLogin(username)
+    expect((await rateLimit.checkAccountLockout(username)).locked).toBe(true)
+  })
+
+  it('should use the Redis store when configured', async () => {
+    const command = vi.fn().mockResolvedValue([1, 1, String(Date.now())])
+    vi.doMock('@/lib/db/redis', () => ({ getRedisClient: () => ({ command }) }))
+    vi.stubEnv('RATE_LIMIT_STORE', 'redis')
+    vi.resetModules()
+
+    const rateLimit = await import('@/lib/security/rate-limit')
+    const result = await rateLimit.checkRateLimit('redis-user', { limit: 5, windowSeconds: 60 })
+
+    expect(result).toMatchObject({ success: true, remaining: 4 })
+    expect(command).toHaveBeenCalledWith(
+      'EVAL',
+      expect.any(String),
+      1,
+      expect.stringContaining('default:redis-user'),
+      expect.any(Number),
+      60000,
+      5,
+      expect.any(String),
+    )
+    expect(rateLimit._getCleanupState().storeSize).toBe(0)
+  })
+
+  it('should fall back to memory when the shared store fails', async () => {
+    const command = vi.fn().mockRejectedValue(new Error('connection refused'))
+    vi.doMock('@/lib/db/redis', () => ({ getRedisClient: () => ({ command }) }))
+    vi.stubEnv('RATE_LIMIT_STORE', 'redis')
+    vi.resetModules()
+
+    const rateLimit = await import('@/lib/security/rate-limit')
+    const result = await rateLimit.checkRateLimit('fallback-user', { limit: 5, windowSeconds: 60 })
+
+    expect(result).toMatchObject({ success: true, remaining: 4 })
+    expect(rateLimit._getCleanupState().storeSize).toBe(1)
+    rateLimit._clearRateLimitStore()
+  })
+})
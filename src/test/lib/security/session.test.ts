@@ -2,7 +2,7 @@
  * Unit Tests for Session Management
  *
  * Tests the session management functions including JWT encryption/decryption
- * and cookie handling for authentication.
+ * cookie handling and the session records used for revocation.
  *
  * @vitest-environment node
  * @module src/lib/security/session
@@ -14,6 +14,7 @@ import { SignJWT, jwtVerify } from 'jose'
 const TEST_SECRET = 'test-secret-key-minimum-32-chars!!'
 const TEST_USER_ID = 'user-123'
 const TEST_USERNAME = 'testuser'
+const TEST_SESSION_ID = 'session-123'
 
 // Mock cookies from next/headers - must be hoisted
 const mockCookieGet = vi.fn()
@@ -26,11 +27,37 @@ vi.mock('next/headers', () => ({
     set: mockCookieSet,
     delete: mockCookieDelete,
   })),
+  headers: vi.fn(
+    () =>
+      new Headers({
+        'x-forwarded-for': '203.0.113.7, 10.0.0.1',
+        'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_4) Chrome/124.0 Safari/537.36',
+      }),
+  ),
+}))
+
+// Mock prisma for the session records
+const mockSessionCreate = vi.fn()
+const mockSessionFindUnique = vi.fn()
+const mockSessionUpdate = vi.fn()
+const mockSessionUpdateMany = vi.fn()
+const mockSessionDeleteMany = vi.fn()
+
+vi.mock('@/lib/db/prisma', () => ({
+  prisma: {
+    userSession: {
+      create: (...args: unknown[]) => mockSessionCreate(...args),
+      findUnique: (...args: unknown[]) => mockSessionFindUnique(...args),
+      update: (...args: unknown[]) => mockSessionUpdate(...args),
+      updateMany: (...args: unknown[]) => mockSessionUpdateMany(...args),
+      deleteMany: (...args: unknown[]) => mockSessionDeleteMany(...args),
+    },
+  },
 }))
 
 // Helper to create a valid test JWT
 async function createValidJwt(
-  payload: { userId: string; username: string; expiresAt: Date },
+  payload: { userId: string; username: string; sessionId: string; expiresAt: Date },
   secret: string = TEST_SECRET,
 ): Promise<string> {
   const encodedKey = new TextEncoder().encode(secret)
@@ -43,7 +70,7 @@ async function createValidJwt(
 
 // Helper to create an expired JWT
 async function createExpiredJwt(
-  payload: { userId: string; username: string; expiresAt: Date },
+  payload: { userId: string; username: string; sessionId: string; expiresAt: Date },
   secret: string = TEST_SECRET,
 ): Promise<string> {
   const encodedKey = new TextEncoder().encode(secret)
@@ -55,10 +82,7 @@ async function createExpiredJwt(
 }
 
 // Helper to create a JWT with an arbitrary payload (for malformed payload tests)
-async function createJwtWithPayload(
-  payload: Record<string, unknown>,
-  secret: string = TEST_SECRET,
-): Promise<string> {
+async function createJwtWithPayload(payload: Record<string, unknown>, secret: string = TEST_SECRET): Promise<string> {
   const encodedKey = new TextEncoder().encode(secret)
   return new SignJWT(payload)
     .setProtectedHeader({ alg: 'HS256' })
@@ -82,6 +106,21 @@ describe('Session Management', () => {
     mockCookieGet.mockReset()
     mockCookieSet.mockReset()
     mockCookieDelete.mockReset()
+    mockSessionCreate.mockReset()
+    mockSessionCreate.mockResolvedValue({ id: TEST_SESSION_ID })
+    mockSessionFindUnique.mockReset()
+    mockSessionFindUnique.mockResolvedValue({
+      userId: TEST_USER_ID,
+      lastActiveAt: new Date(),
+      expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      revokedAt: null,
+    })
+    mockSessionUpdate.mockReset()
+    mockSessionUpdate.mockResolvedValue({})
+    mockSessionUpdateMany.mockReset()
+    mockSessionUpdateMany.mockResolvedValue({ count: 1 })
+    mockSessionDeleteMany.mockReset()
+    mockSessionDeleteMany.mockResolvedValue({ count: 0 })
   })
 
   afterEach(() => {
@@ -105,6 +144,7 @@ describe('Session Management', () => {
       const payload = {
         userId: TEST_USER_ID,
         username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
         expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
       }
 
@@ -120,6 +160,7 @@ describe('Session Management', () => {
       const payload = {
         userId: TEST_USER_ID,
         username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
         expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
       }
 
@@ -139,6 +180,7 @@ describe('Session Management', () => {
       const payload = {
         userId: TEST_USER_ID,
         username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
         expiresAt,
       }
 
@@ -168,6 +210,7 @@ describe('Session Management', () => {
           createValidJwt({
             userId: TEST_USER_ID,
             username: TEST_USERNAME,
+            sessionId: TEST_SESSION_ID,
             expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
           }),
         expectedResult: 'returns payload',
@@ -193,6 +236,7 @@ describe('Session Management', () => {
           createExpiredJwt({
             userId: TEST_USER_ID,
             username: TEST_USERNAME,
+            sessionId: TEST_SESSION_ID,
             expiresAt: new Date(Date.now() - 1000),
           }),
         expectedResult: 'returns null',
@@ -295,6 +339,41 @@ describe('Session Management', () => {
       expect(typeof token).toBe('string')
       expect(token.split('.')).toHaveLength(3)
     })
+
+    it('should record the session with the client IP and user agent', async () => {
+      const { createSession } = await import('@/lib/security/session')
+
+      await createSession(TEST_USER_ID, TEST_USERNAME)
+
+      expect(mockSessionCreate).toHaveBeenCalledWith({
+        data: {
+          userId: TEST_USER_ID,
+          ipAddress: '203.0.113.7',
+          userAgent: expect.stringContaining('Chrome'),
+          expiresAt: expect.any(Date),
+        },
+      })
+    })
+
+    it('should put the recorded session ID in the token', async () => {
+      const { createSession, decrypt } = await import('@/lib/security/session')
+
+      await createSession(TEST_USER_ID, TEST_USERNAME)
+
+      const token = mockCookieSet.mock.calls[0]![1] as string
+      const payload = await decrypt(token)
+      expect(payload?.sessionId).toBe(TEST_SESSION_ID)
+    })
+
+    it('should delete expired sessions of the user', async () => {
+      const { createSession } = await import('@/lib/security/session')
+
+      await createSession(TEST_USER_ID, TEST_USERNAME)
+
+      expect(mockSessionDeleteMany).toHaveBeenCalledWith({
+        where: { userId: TEST_USER_ID, expiresAt: { lt: expect.any(Date) } },
+      })
+    })
   })
 
   describe('getSession', () => {
@@ -308,6 +387,7 @@ describe('Session Management', () => {
       const validJwt = await createValidJwt({
         userId: TEST_USER_ID,
         username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
         expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
       })
 
@@ -349,6 +429,110 @@ describe('Session Management', () => {
 
       expect(mockCookieGet).toHaveBeenCalledWith('session')
     })
+
+    it('should look up the session record of the token', async () => {
+      const { getSession } = await import('@/lib/security/session')
+      const validJwt = await createValidJwt({
+        userId: TEST_USER_ID,
+        username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
+        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      })
+
+      mockCookieGet.mockReturnValue({ value: validJwt })
+
+      await getSession()
+
+      expect(mockSessionFindUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: TEST_SESSION_ID } }))
+    })
+
+    it.each([
+      { name: 'the session record is missing', record: null },
+      {
+        name: 'the session was revoked',
+        record: {
+          userId: TEST_USER_ID,
+          lastActiveAt: new Date(),
+          expiresAt: new Date(Date.now() + 60_000),
+          revokedAt: new Date(),
+        },
+      },
+      {
+        name: 'the session record expired',
+        record: {
+          userId: TEST_USER_ID,
+          lastActiveAt: new Date(),
+          expiresAt: new Date(Date.now() - 60_000),
+          revokedAt: null,
+        },
+      },
+      {
+        name: 'the session belongs to another user',
+        record: {
+          userId: 'other-user',
+          lastActiveAt: new Date(),
+          expiresAt: new Date(Date.now() + 60_000),
+          revokedAt: null,
+        },
+      },
+    ])('should return null when $name', async ({ record }) => {
+      const { getSession } = await import('@/lib/security/session')
+      const validJwt = await createValidJwt({
+        userId: TEST_USER_ID,
+        username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
+        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      })
+
+      mockCookieGet.mockReturnValue({ value: validJwt })
+      mockSessionFindUnique.mockResolvedValue(record)
+
+      const result = await getSession()
+
+      expect(result).toBeNull()
+    })
+
+    it('should record activity when the session was last active over 5 minutes ago', async () => {
+      const { getSession } = await import('@/lib/security/session')
+      const validJwt = await createValidJwt({
+        userId: TEST_USER_ID,
+        username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
+        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      })
+
+      mockCookieGet.mockReturnValue({ value: validJwt })
+      mockSessionFindUnique.mockResolvedValue({
+        userId: TEST_USER_ID,
+        lastActiveAt: new Date(Date.now() - 10 * 60 * 1000),
+        expiresAt: new Date(Date.now() + 60_000),
+        revokedAt: null,
+      })
+
+      const result = await getSession()
+
+      expect(result?.sessionId).toBe(TEST_SESSION_ID)
+      expect(mockSessionUpdate).toHaveBeenCalledWith({
+        where: { id: TEST_SESSION_ID },
+        data: { lastActiveAt: expect.any(Date) },
+      })
+    })
+
+    it('should not record activity again within 5 minutes', async () => {
+      const { getSession } = await import('@/lib/security/session')
+      const validJwt = await createValidJwt({
+        userId: TEST_USER_ID,
+        username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
+        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      })
+
+      mockCookieGet.mockReturnValue({ value: validJwt })
+
+      await getSession()
+
+      expect(mockSessionUpdate).not.toHaveBeenCalled()
+    })
   })
 
   describe('deleteSession', () => {
@@ -365,6 +549,43 @@ describe('Session Management', () => {
       expect(mockCookieDelete).toHaveBeenCalledTimes(1)
       expect(mockCookieDelete).toHaveBeenCalledWith('session')
     })
+
+    it('should revoke the session record', async () => {
+      const { deleteSession } = await import('@/lib/security/session')
+      const validJwt = await createValidJwt({
+        userId: TEST_USER_ID,
+        username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
+        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      })
+
+      mockCookieGet.mockReturnValue({ value: validJwt })
+
+      await deleteSession()
+
+      expect(mockSessionUpdateMany).toHaveBeenCalledWith({
+        where: { id: TEST_SESSION_ID, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      })
+      expect(mockCookieDelete).toHaveBeenCalledWith('session')
+    })
+
+    it('should still delete the cookie when revoking fails', async () => {
+      const { deleteSession } = await import('@/lib/security/session')
+      const validJwt = await createValidJwt({
+        userId: TEST_USER_ID,
+        username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
+        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      })
+
+      mockCookieGet.mockReturnValue({ value: validJwt })
+      mockSessionUpdateMany.mockRejectedValue(new Error('Database unavailable'))
+
+      await deleteSession()
+
+      expect(mockCookieDelete).toHaveBeenCalledWith('session')
+    })
   })
 
   describe('updateSession', () => {
@@ -400,6 +621,7 @@ describe('Session Management', () => {
       const validJwt = await createValidJwt({
         userId: TEST_USER_ID,
         username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
         expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
       })
 
@@ -420,6 +642,7 @@ describe('Session Management', () => {
       const validJwt = await createValidJwt({
         userId: TEST_USER_ID,
         username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
         expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
       })
 
@@ -448,6 +671,7 @@ describe('Session Management', () => {
       const validJwt = await createValidJwt({
         userId: TEST_USER_ID,
         username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
         expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
       })
 
@@ -464,6 +688,32 @@ describe('Session Management', () => {
     })
   })
 
+  describe('revokeUserSessions', () => {
+    it('should revoke every active session of the user', async () => {
+      const { revokeUserSessions } = await import('@/lib/security/session')
+      mockSessionUpdateMany.mockResolvedValue({ count: 3 })
+
+      const count = await revokeUserSessions(TEST_USER_ID)
+
+      expect(count).toBe(3)
+      expect(mockSessionUpdateMany).toHaveBeenCalledWith({
+        where: { userId: TEST_USER_ID, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      })
+    })
+
+    it('should keep the excepted session', async () => {
+      const { revokeUserSessions } = await import('@/lib/security/session')
+
+      await revokeUserSessions(TEST_USER_ID, { exceptSessionId: TEST_SESSION_ID })
+
+      expect(mockSessionUpdateMany).toHaveBeenCalledWith({
+        where: { userId: TEST_USER_ID, revokedAt: null, id: { not: TEST_SESSION_ID } },
+        data: { revokedAt: expect.any(Date) },
+      })
+    })
+  })
+
   describe('Payload Validation', () => {
     /**
      * Tests that decrypt rejects tokens with missing or incorrectly-typed fields.
@@ -474,6 +724,7 @@ describe('Session Management', () => {
       const { decrypt } = await import('@/lib/security/session')
       const token = await createJwtWithPayload({
         username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
         expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
       })
 
@@ -494,11 +745,25 @@ describe('Session Management', () => {
       expect(result).toBeNull()
     })
 
+    it('should return null when payload is missing sessionId', async () => {
+      const { decrypt } = await import('@/lib/security/session')
+      const token = await createJwtWithPayload({
+        userId: TEST_USER_ID,
+        username: TEST_USERNAME,
+        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      })
+
+      const result = await decrypt(token)
+
+      expect(result).toBeNull()
+    })
+
     it('should return null when payload is missing expiresAt', async () => {
       const { decrypt } = await import('@/lib/security/session')
       const token = await createJwtWithPayload({
         userId: TEST_USER_ID,
         username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
       })
 
       const result = await decrypt(token)
@@ -511,6 +776,7 @@ describe('Session Management', () => {
       const token = await createJwtWithPayload({
         userId: 12345,
         username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
         expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
       })
 
@@ -537,6 +803,7 @@ describe('Session Management', () => {
       const token = await createJwtWithPayload({
         userId: TEST_USER_ID,
         username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
         expiresAt: 'not-a-date',
       })
 
@@ -559,6 +826,7 @@ describe('Session Management', () => {
       const token = await createJwtWithPayload({
         userId: TEST_USER_ID,
         username: TEST_USERNAME,
+        sessionId: TEST_SESSION_ID,
         expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
         extraField: 'should be stripped',
       })
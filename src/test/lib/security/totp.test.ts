@@ -0,0 +1,109 @@
+/**
+ * Unit Tests for TOTP Functions
+ *
+ * Tests base32 encoding, code generation against the RFC 6238 test vectors,
+ * the clock-drift window and the otpauth URI.
+ *
+ * @module src/lib/security/totp
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  base32Decode,
+  base32Encode,
+  buildTotpUri,
+  generateTotpCode,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotpCode,
+} from '@/lib/security/totp'
+
+// "12345678901234567890", the SHA-1 secret of RFC 6238
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+describe('base32', () => {
+  it('should encode the RFC 6238 secret', () => {
+    expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET)
+  })
+
+  it('should round-trip arbitrary bytes', () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255])
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes)
+  })
+
+  it('should ignore case, spaces and padding when decoding', () => {
+    expect(base32Decode('gezd gnbv====').toString()).toBe('12345')
+  })
+
+  it('should reject characters outside the alphabet', () => {
+    expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character')
+  })
+})
+
+describe('generateTotpSecret', () => {
+  it('should generate a 160-bit base32 secret', () => {
+    const secret = generateTotpSecret()
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/)
+    expect(base32Decode(secret)).toHaveLength(20)
+  })
+
+  it('should generate a different secret each time', () => {
+    expect(generateTotpSecret()).not.toBe(generateTotpSecret())
+  })
+})
+
+describe('generateTotpCode', () => {
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('should match the RFC 6238 vector at T=%i', (seconds, code) => {
+    expect(generateTotpCode(RFC_SECRET, getTotpStep(seconds * 1000))).toBe(code)
+  })
+})
+
+describe('verifyTotpCode', () => {
+  const now = 1111111111 * 1000
+
+  it('should return the step of a current code', () => {
+    const step = getTotpStep(now)
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step), now)).toBe(step)
+  })
+
+  it('should accept codes one step before and after', () => {
+    const step = getTotpStep(now)
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 1), now)).toBe(step - 1)
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step + 1), now)).toBe(step + 1)
+  })
+
+  it('should reject codes outside the window', () => {
+    const step = getTotpStep(now)
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step - 2), now)).toBeNull()
+    expect(verifyTotpCode(RFC_SECRET, generateTotpCode(RFC_SECRET, step + 2), now)).toBeNull()
+  })
+
+  it('should ignore spaces in the code', () => {
+    expect(verifyTotpCode(RFC_SECRET, '050 471', now)).toBe(getTotpStep(now))
+  })
+
+  it('should reject malformed codes', () => {
+    expect(verifyTotpCode(RFC_SECRET, '12345', now)).toBeNull()
+    expect(verifyTotpCode(RFC_SECRET, 'abcdef', now)).toBeNull()
+    expect(verifyTotpCode(RFC_SECRET, '', now)).toBeNull()
+  })
+})
+
+describe('buildTotpUri', () => {
+  it('should build an otpauth URI with issuer and parameters', () => {
+    const uri = buildTotpUri(RFC_SECRET, 'jane doe', 'Astrologer Studio')
+    const url = new URL(uri)
+
+    expect(url.protocol).toBe('otpauth:')
+    expect(uri.startsWith('otpauth://totp/Astrologer%20Studio%3Ajane%20doe?')).toBe(true)
+    expect(url.searchParams.get('secret')).toBe(RFC_SECRET)
+    expect(url.searchParams.get('issuer')).toBe('Astrologer Studio')
+    expect(url.searchParams.get('digits')).toBe('6')
+    expect(url.searchParams.get('period')).toBe('30')
+  })
+})
@@ -0,0 +1,198 @@
+/**
+ * Unit Tests for WebAuthn Verification
+ *
+ * Tests passkey registration and assertion checks with credentials generated
+ * in the test: client data, relying party, flags, signatures and counters.
+ *
+ * @module src/lib/security/webauthn
+ */
+import { describe, it, expect } from 'vitest'
+import { createHash, generateKeyPairSync, sign, type KeyObject } from 'crypto'
+import {
+  WEBAUTHN_ALGORITHMS,
+  WebAuthnError,
+  getRelyingParty,
+  verifyPasskeyAssertion,
+  verifyPasskeyRegistration,
+  type RelyingParty,
+} from '@/lib/security/webauthn'
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const rp: RelyingParty = getRelyingParty('https://studio.example.com')
+const challenge = 'test-challenge'
+const credentialId = Buffer.from('credential-1')
+
+function clientData(type: string, overrides: Record<string, unknown> = {}): string {
+  return Buffer.from(JSON.stringify({ type, challenge, origin: rp.origin, ...overrides })).toString('base64url')
+}
+
+function authenticatorData({
+  rpId = rp.id,
+  flags = 0x01,
+  signCount = 0,
+  attestedCredentialId,
+}: { rpId?: string; flags?: number; signCount?: number; attestedCredentialId?: Buffer } = {}): Buffer {
+  const header = Buffer.alloc(37)
+  createHash('sha256').update(rpId).digest().copy(header, 0)
+  header[32] = attestedCredentialId ? flags | 0x40 : flags
+  header.writeUInt32BE(signCount, 33)
+  if (!attestedCredentialId) return header
+
+  const idLength = Buffer.alloc(2)
+  idLength.writeUInt16BE(attestedCredentialId.length)
+  return Buffer.concat([header, Buffer.alloc(16), idLength, attestedCredentialId, Buffer.from([0xa0])])
+}
+
+function spki(key: KeyObject): Buffer {
+  return key.export({ format: 'der', type: 'spki' })
+}
+
+function registration(publicKey: KeyObject, overrides: Record<string, unknown> = {}) {
+  return {
+    id: credentialId.toString('base64url'),
+    clientDataJSON: clientData('webauthn.create'),
+    authenticatorData: authenticatorData({ attestedCredentialId: credentialId }).toString('base64url'),
+    publicKey: spki(publicKey).toString('base64url'),
+    publicKeyAlgorithm: WEBAUTHN_ALGORITHMS.ES256,
+    transports: ['usb'],
+    ...overrides,
+  }
+}
+
+function assertion(
+  privateKey: KeyObject,
+  {
+    digest = 'sha256',
+    signCount = 1,
+    clientDataOverrides = {},
+  }: {
+    digest?: string | null
+    signCount?: number
+    clientDataOverrides?: Record<string, unknown>
+  } = {},
+) {
+  const clientDataJSON = clientData('webauthn.get', clientDataOverrides)
+  const authData = authenticatorData({ signCount })
+  const signedData = Buffer.concat([
+    authData,
+    createHash('sha256').update(Buffer.from(clientDataJSON, 'base64url')).digest(),
+  ])
+  return {
+    id: credentialId.toString('base64url'),
+    clientDataJSON,
+    authenticatorData: authData.toString('base64url'),
+    signature: sign(digest, signedData, privateKey).toString('base64url'),
+  }
+}
+
+const ecKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+const edKeys = generateKeyPairSync('ed25519')
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('getRelyingParty', () => {
+  it('should derive the ID and origin from the app URL', () => {
+    expect(getRelyingParty('https://studio.example.com:8443/app')).toEqual({
+      id: 'studio.example.com',
+      origin: 'https://studio.example.com:8443',
+      name: 'Astrologer Studio',
+    })
+  })
+})
+
+describe('verifyPasskeyRegistration', () => {
+  it('should return the credential to store', () => {
+    const result = verifyPasskeyRegistration(registration(ecKeys.publicKey), challenge, rp)
+
+    expect(result.credentialId).toBe(credentialId.toString('base64url'))
+    expect(Buffer.from(result.publicKey)).toEqual(spki(ecKeys.publicKey))
+    expect(result.algorithm).toBe(WEBAUTHN_ALGORITHMS.ES256)
+    expect(result.signCount).toBe(0)
+  })
+
+  it('should reject a different challenge', () => {
+    expect(() => verifyPasskeyRegistration(registration(ecKeys.publicKey), 'other', rp)).toThrow(
+      'Challenge does not match',
+    )
+  })
+
+  it('should reject an assertion presented as a registration', () => {
+    const response = registration(ecKeys.publicKey, { clientDataJSON: clientData('webauthn.get') })
+    expect(() => verifyPasskeyRegistration(response, challenge, rp)).toThrow('Unexpected client data type')
+  })
+
+  it('should reject another origin', () => {
+    const response = registration(ecKeys.publicKey, {
+      clientDataJSON: clientData('webauthn.create', { origin: 'https://evil.example.com' }),
+    })
+    expect(() => verifyPasskeyRegistration(response, challenge, rp)).toThrow('Origin does not match')
+  })
+
+  it('should reject credentials scoped to another relying party', () => {
+    const response = registration(ecKeys.publicKey, {
+      authenticatorData: authenticatorData({ rpId: 'evil.example.com', attestedCredentialId: credentialId }).toString(
+        'base64url',
+      ),
+    })
+    expect(() => verifyPasskeyRegistration(response, challenge, rp)).toThrow('Relying party does not match')
+  })
+
+  it('should require user presence', () => {
+    const response = registration(ecKeys.publicKey, {
+      authenticatorData: authenticatorData({ flags: 0, attestedCredentialId: credentialId }).toString('base64url'),
+    })
+    expect(() => verifyPasskeyRegistration(response, challenge, rp)).toThrow('User presence was not confirmed')
+  })
+
+  it('should reject a credential ID that differs from the authenticator data', () => {
+    const response = registration(ecKeys.publicKey, { id: Buffer.from('other').toString('base64url') })
+    expect(() => verifyPasskeyRegistration(response, challenge, rp)).toThrow('Credential ID does not match')
+  })
+
+  it('should reject unsupported algorithms and invalid keys', () => {
+    expect(() =>
+      verifyPasskeyRegistration(registration(ecKeys.publicKey, { publicKeyAlgorithm: -35 }), challenge, rp),
+    ).toThrow('Unsupported key algorithm')
+    expect(() =>
+      verifyPasskeyRegistration(registration(ecKeys.publicKey, { publicKey: 'bm90LWEta2V5' }), challenge, rp),
+    ).toThrow(WebAuthnError)
+  })
+})
+
+describe('verifyPasskeyAssertion', () => {
+  const ecCredential = { publicKey: spki(ecKeys.publicKey), algorithm: WEBAUTHN_ALGORITHMS.ES256, signCount: 0 }
+
+  it('should verify an ES256 assertion and return the new counter', () => {
+    const response = assertion(ecKeys.privateKey, { signCount: 5 })
+    expect(verifyPasskeyAssertion(response, challenge, ecCredential, rp)).toEqual({ signCount: 5 })
+  })
+
+  it('should verify an Ed25519 assertion', () => {
+    const response = assertion(edKeys.privateKey, { digest: null, signCount: 0 })
+    const credential = { publicKey: spki(edKeys.publicKey), algorithm: WEBAUTHN_ALGORITHMS.EdDSA, signCount: 0 }
+    expect(verifyPasskeyAssertion(response, challenge, credential, rp)).toEqual({ signCount: 0 })
+  })
+
+  it('should reject a signature from another key', () => {
+    const other = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    const response = assertion(other.privateKey)
+    expect(() => verifyPasskeyAssertion(response, challenge, ecCredential, rp)).toThrow('Signature is not valid')
+  })
+
+  it('should reject a different challenge', () => {
+    const response = assertion(ecKeys.privateKey, { clientDataOverrides: { challenge: 'other' } })
+    expect(() => verifyPasskeyAssertion(response, challenge, ecCredential, rp)).toThrow('Challenge does not match')
+  })
+
+  it('should reject a counter that did not increase', () => {
+    const response = assertion(ecKeys.privateKey, { signCount: 3 })
+    expect(() => verifyPasskeyAssertion(response, challenge, { ...ecCredential, signCount: 3 }, rp)).toThrow(
+      'Signature counter did not increase',
+    )
+  })
+})
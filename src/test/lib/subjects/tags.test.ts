@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { connectOrCreateTags, replaceOwnTags } from '@/lib/subjects/tags'
+
+describe('connectOrCreateTags', () => {
+  it('should build connectOrCreate inputs owned by the user', () => {
+    expect(connectOrCreateTags('user-123', ['clients'])).toEqual([
+      {
+        where: { ownerId_name: { ownerId: 'user-123', name: 'clients' } },
+        create: { name: 'clients', ownerId: 'user-123' },
+      },
+    ])
+  })
+
+  it('should trim, drop empty and deduplicate names', () => {
+    const names = connectOrCreateTags('user-123', [' clients ', 'clients', '', '   ', 'family']).map(
+      (input) => input.create.name,
+    )
+
+    expect(names).toEqual(['clients', 'family'])
+  })
+})
+
+describe('replaceOwnTags', () => {
+  it('should disconnect only the listed tags that are no longer wanted', () => {
+    const current = [
+      { id: 'tag-1', name: 'clients' },
+      { id: 'tag-2', name: 'old' },
+    ]
+
+    const input = replaceOwnTags('user-123', ['clients', ' new '], current)
+
+    expect(input.disconnect).toEqual([{ id: 'tag-2' }])
+    expect(input.connectOrCreate.map((tag) => tag.create.name)).toEqual(['clients', 'new'])
+  })
+
+  it('should disconnect every current tag for an empty list', () => {
+    expect(replaceOwnTags('user-123', [], [{ id: 'tag-1', name: 'clients' }])).toEqual({
+      disconnect: [{ id: 'tag-1' }],
+      connectOrCreate: [],
+    })
+  })
+})
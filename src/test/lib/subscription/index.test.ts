@@ -81,6 +81,7 @@ vi.mock('@/dodopayments/lib/access', () => {
 // Import after mocking
 import { getSubscriptionStatus, getSessionWithSubscription, hasActiveSubscription } from '@/lib/subscription/index'
 import { logger } from '@/lib/logging/server'
+import { prisma } from '@/lib/db/prisma'
 
 describe('Subscription Module Index', () => {
   beforeEach(() => {
@@ -444,6 +445,36 @@ describe('Subscription Module Index', () => {
           trialDaysLeft: null,
         })
       })
+
+      it('should use the plan of the workspace owner for workspace members', async () => {
+        mockDodoGetSessionWithSubscription.mockResolvedValue({
+          userId: 'user-123',
+          username: 'testuser',
+          subscriptionPlan: 'free',
+          isSubscriptionActive: false,
+          trialDaysLeft: null,
+        })
+        vi.mocked(prisma.user.findUnique).mockResolvedValueOnce({
+          activeWorkspace: { id: 'workspace-1', ownerId: 'owner-456', members: [{ role: 'assistant' }] },
+        } as never)
+        mockGetUserSubscription.mockResolvedValue({
+          plan: 'pro',
+          isActive: true,
+          trialDaysLeft: null,
+          subscriptionEndsAt: null,
+        })
+
+        const result = await getSessionWithSubscription()
+
+        expect(mockGetUserSubscription).toHaveBeenCalledWith('owner-456', {})
+        expect(result).toEqual({
+          userId: 'user-123',
+          username: 'testuser',
+          subscriptionPlan: 'pro',
+          isSubscriptionActive: true,
+          trialDaysLeft: null,
+        })
+      })
     })
 
     describe('when Dodo module import fails', () => {
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { describeUserAgent } from '@/lib/utils/user-agent'
+
+describe('describeUserAgent', () => {
+  it.each([
+    [
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36',
+      'Chrome on macOS',
+    ],
+    [
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.2478.51',
+      'Edge on Windows',
+    ],
+    ['Mozilla/5.0 (X11; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0', 'Firefox on Linux'],
+    [
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1',
+      'Safari on iPhone',
+    ],
+    [
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36',
+      'Chrome on Android',
+    ],
+  ])('should describe %s', (userAgent, expected) => {
+    expect(describeUserAgent(userAgent)).toBe(expected)
+  })
+
+  it('should fall back to "Unknown browser" without a platform', () => {
+    expect(describeUserAgent('curl/8.5.0')).toBe('Unknown browser')
+  })
+
+  it('should return "Unknown device" when there is no user agent', () => {
+    expect(describeUserAgent(null)).toBe('Unknown device')
+    expect(describeUserAgent('')).toBe('Unknown device')
+  })
+})
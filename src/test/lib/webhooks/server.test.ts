@@ -0,0 +1,254 @@
+/**
+ * Unit Tests for Outbound Webhook Delivery
+ *
+ * Tests the Standard Webhooks signature, the retry schedule, and emitting and
+ * retrying deliveries against a mocked fetch.
+ *
+ * @module src/lib/webhooks/server
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createHmac } from 'crypto'
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+vi.mock('@/lib/logging/server', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+const mockPrisma = {
+  webhookEndpoint: {
+    findMany: vi.fn(),
+  },
+  webhookDelivery: {
+    create: vi.fn(),
+    findMany: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+}
+
+vi.mock('@/lib/db/prisma', () => ({
+  get prisma() {
+    return mockPrisma
+  },
+}))
+
+const mockLookup = vi.fn()
+vi.mock('dns/promises', () => {
+  const lookup = (...args: unknown[]) => mockLookup(...args)
+  return { default: { lookup }, lookup }
+})
+
+// Import after mocking
+import {
+  emitWebhookEvent,
+  generateWebhookSecret,
+  processDueWebhookDeliveries,
+  signWebhookPayload,
+  webhookRetryDelayMs,
+} from '@/lib/webhooks/server'
+import { MAX_WEBHOOK_ATTEMPTS } from '@/lib/webhooks/events'
+
+// ============================================================================
+// TEST HELPERS
+// ============================================================================
+
+const SECRET = `whsec_${Buffer.from('test-signing-key-of-24-b').toString('base64')}`
+
+function createEndpointRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'endpoint-1',
+    userId: 'user-123',
+    url: 'https://example.com/hooks',
+    description: null,
+    secret: SECRET,
+    events: JSON.stringify(['subject.created']),
+    enabled: true,
+    createdAt: new Date('2026-03-10T09:00:00Z'),
+    updatedAt: new Date('2026-03-10T09:00:00Z'),
+    ...overrides,
+  }
+}
+
+function createDeliveryRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'delivery-1',
+    endpointId: 'endpoint-1',
+    eventType: 'subject.created',
+    payload: JSON.stringify({ id: 'msg_1', type: 'subject.created', createdAt: '2026-03-10T09:00:00Z', data: {} }),
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: new Date(),
+    lastAttemptAt: null,
+    responseStatus: null,
+    error: null,
+    createdAt: new Date(),
+    endpoint: createEndpointRecord(),
+    ...overrides,
+  }
+}
+
+/** Wait for the deliveries started by emitWebhookEvent, which does not return a promise */
+async function flushPromises() {
+  for (let i = 0; i < 10; i++) await Promise.resolve()
+  await new Promise((resolve) => setTimeout(resolve, 0))
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('Webhook Delivery', () => {
+  const mockFetch = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubGlobal('fetch', mockFetch)
+    mockLookup.mockResolvedValue([{ address: '93.184.215.14', family: 4 }])
+    mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 1 })
+    mockPrisma.webhookDelivery.update.mockResolvedValue({})
+    mockPrisma.webhookDelivery.create.mockImplementation(({ data }) =>
+      Promise.resolve(createDeliveryRecord({ ...data, id: `delivery-${data.endpointId}` })),
+    )
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('signWebhookPayload', () => {
+    it('should sign "<id>.<timestamp>.<body>" with the base64 key of the secret', () => {
+      const body = '{"hello":"world"}'
+      const expected = createHmac('sha256', Buffer.from('test-signing-key-of-24-b'))
+        .update(`msg_1.1773133200.${body}`)
+        .digest('base64')
+
+      expect(signWebhookPayload(SECRET, 'msg_1', 1773133200, body)).toBe(`v1,${expected}`)
+    })
+
+    it('should create whsec_ secrets with 24 random bytes', () => {
+      const secret = generateWebhookSecret()
+
+      expect(secret).toMatch(/^whsec_/)
+      expect(Buffer.from(secret.slice('whsec_'.length), 'base64')).toHaveLength(24)
+      expect(generateWebhookSecret()).not.toBe(secret)
+    })
+  })
+
+  describe('webhookRetryDelayMs', () => {
+    it('should wait four times longer after each failure', () => {
+      expect(webhookRetryDelayMs(1)).toBe(30_000)
+      expect(webhookRetryDelayMs(2)).toBe(120_000)
+      expect(webhookRetryDelayMs(3)).toBe(480_000)
+    })
+  })
+
+  describe('emitWebhookEvent', () => {
+    it('should deliver signed events to subscribed endpoints only', async () => {
+      mockPrisma.webhookEndpoint.findMany.mockResolvedValue([
+        { id: 'endpoint-1', events: JSON.stringify(['subject.created']) },
+        { id: 'endpoint-2', events: JSON.stringify(['subject.deleted']) },
+      ])
+      mockFetch.mockResolvedValue(new Response(null, { status: 204 }))
+
+      emitWebhookEvent('user-123', 'subject.created', { id: 'subject-1' })
+      await flushPromises()
+
+      expect(mockPrisma.webhookEndpoint.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userId: 'user-123', enabled: true } }),
+      )
+      expect(mockPrisma.webhookDelivery.create).toHaveBeenCalledTimes(1)
+      const { data } = mockPrisma.webhookDelivery.create.mock.calls[0]![0]
+      expect(data.endpointId).toBe('endpoint-1')
+      expect(JSON.parse(data.payload)).toMatchObject({ type: 'subject.created', data: { id: 'subject-1' } })
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      const [, init] = mockFetch.mock.calls[0]!
+      const headers = init.headers as Record<string, string>
+      const timestamp = Number(headers['webhook-timestamp'])
+      expect(headers['webhook-signature']).toBe(
+        signWebhookPayload(SECRET, headers['webhook-id']!, timestamp, init.body),
+      )
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-endpoint-1' },
+        data: expect.objectContaining({ status: 'succeeded', responseStatus: 204, nextAttemptAt: null }),
+      })
+    })
+
+    it('should not create deliveries without subscribed endpoints', async () => {
+      mockPrisma.webhookEndpoint.findMany.mockResolvedValue([])
+
+      emitWebhookEvent('user-123', 'subject.created', { id: 'subject-1' })
+      await flushPromises()
+
+      expect(mockPrisma.webhookDelivery.create).not.toHaveBeenCalled()
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('processDueWebhookDeliveries', () => {
+    it('should fail the attempt without a request when the host resolves to a private address', async () => {
+      mockPrisma.webhookDelivery.findMany.mockResolvedValue([createDeliveryRecord({ attempts: 1 })])
+      mockLookup.mockResolvedValue([{ address: '169.254.169.254', family: 4 }])
+
+      const result = await processDueWebhookDeliveries()
+
+      expect(result).toEqual({ attempted: 1, succeeded: 0 })
+      expect(mockFetch).not.toHaveBeenCalled()
+      const { data } = mockPrisma.webhookDelivery.update.mock.calls[0]![0]
+      expect(data).toMatchObject({
+        status: 'pending',
+        responseStatus: null,
+        error: 'The URL must point to a public address',
+      })
+    })
+
+    it('should schedule a retry after a failed attempt', async () => {
+      mockPrisma.webhookDelivery.findMany.mockResolvedValue([createDeliveryRecord({ attempts: 1 })])
+      mockFetch.mockResolvedValue(new Response('down', { status: 503 }))
+
+      const result = await processDueWebhookDeliveries()
+
+      expect(result).toEqual({ attempted: 1, succeeded: 0 })
+      const { data } = mockPrisma.webhookDelivery.update.mock.calls[0]![0]
+      expect(data).toMatchObject({ status: 'pending', responseStatus: 503, error: 'Endpoint responded with HTTP 503' })
+      expect(data.nextAttemptAt.getTime()).toBeGreaterThan(Date.now() + 100_000)
+    })
+
+    it('should mark the delivery as failed after the last attempt', async () => {
+      mockPrisma.webhookDelivery.findMany.mockResolvedValue([
+        createDeliveryRecord({ attempts: MAX_WEBHOOK_ATTEMPTS - 1 }),
+      ])
+      mockFetch.mockRejectedValue(new Error('getaddrinfo ENOTFOUND example.com'))
+
+      await processDueWebhookDeliveries()
+
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: 'delivery-1' },
+        data: expect.objectContaining({
+          status: 'failed',
+          error: 'getaddrinfo ENOTFOUND example.com',
+          nextAttemptAt: null,
+        }),
+      })
+    })
+
+    it('should skip deliveries claimed by another worker', async () => {
+      mockPrisma.webhookDelivery.findMany.mockResolvedValue([createDeliveryRecord()])
+      mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 0 })
+
+      const result = await processDueWebhookDeliveries()
+
+      expect(result).toEqual({ attempted: 0, succeeded: 0 })
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+  })
+})
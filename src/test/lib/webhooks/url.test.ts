@@ -0,0 +1,119 @@
+/**
+ * Unit Tests for Webhook URL Checks
+ *
+ * Tests that endpoints must be HTTPS and resolve to public addresses only,
+ * with loopback hosts allowed outside production, against a mocked DNS.
+ *
+ * @module src/lib/webhooks/url
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// ============================================================================
+// MOCKS
+// ============================================================================
+
+const mockLookup = vi.fn()
+vi.mock('dns/promises', () => {
+  const lookup = (...args: unknown[]) => mockLookup(...args)
+  return { default: { lookup }, lookup }
+})
+
+// Import after mocking
+import { assertPublicWebhookUrl, isNonPublicAddress, WebhookUrlError } from '@/lib/webhooks/url'
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('isNonPublicAddress', () => {
+  it.each([
+    '10.1.2.3',
+    '127.0.0.1',
+    '169.254.169.254',
+    '172.16.0.1',
+    '172.31.255.255',
+    '192.168.1.1',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::',
+    '::1',
+    'fd00::1',
+    'fe80::1',
+    '::ffff:10.0.0.1',
+    '::ffff:7f00:1',
+    '64:ff9b::a00:1',
+    'not-an-ip',
+  ])('should treat %s as non-public', (address) => {
+    expect(isNonPublicAddress(address)).toBe(true)
+  })
+
+  it.each(['93.184.215.14', '172.32.0.1', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8'])(
+    'should treat %s as public',
+    (address) => {
+      expect(isNonPublicAddress(address)).toBe(false)
+    },
+  )
+})
+
+describe('assertPublicWebhookUrl', () => {
+  beforeEach(() => {
+    mockLookup.mockReset()
+    mockLookup.mockResolvedValue([{ address: '93.184.215.14', family: 4 }])
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should accept an HTTPS URL of a public host', async () => {
+    await expect(assertPublicWebhookUrl('https://example.com/hooks')).resolves.toBeUndefined()
+    expect(mockLookup).toHaveBeenCalledWith('example.com', { all: true, verbatim: true })
+  })
+
+  it('should reject plain HTTP', async () => {
+    await expect(assertPublicWebhookUrl('http://example.com/hooks')).rejects.toThrow('The URL must use HTTPS')
+  })
+
+  it('should reject hosts with any non-public address', async () => {
+    mockLookup.mockResolvedValue([
+      { address: '93.184.215.14', family: 4 },
+      { address: '10.0.0.5', family: 4 },
+    ])
+
+    await expect(assertPublicWebhookUrl('https://internal.example.com/hooks')).rejects.toThrow(
+      'The URL must point to a public address',
+    )
+  })
+
+  it('should reject private and metadata IP literals without a lookup', async () => {
+    for (const url of ['https://169.254.169.254/latest', 'https://[::ffff:127.0.0.1]/', 'https://[fd00::1]/']) {
+      await expect(assertPublicWebhookUrl(url)).rejects.toThrow(WebhookUrlError)
+    }
+    expect(mockLookup).not.toHaveBeenCalled()
+  })
+
+  it('should reject hosts that do not resolve', async () => {
+    mockLookup.mockRejectedValue(new Error('getaddrinfo ENOTFOUND'))
+
+    await expect(assertPublicWebhookUrl('https://nowhere.invalid/')).rejects.toThrow(
+      'The host of the URL could not be resolved',
+    )
+  })
+
+  it('should allow loopback hosts over HTTP outside production', async () => {
+    vi.stubEnv('NODE_ENV', 'development')
+
+    await expect(assertPublicWebhookUrl('http://localhost:4000/hooks')).resolves.toBeUndefined()
+    await expect(assertPublicWebhookUrl('http://[::1]:4000/hooks')).resolves.toBeUndefined()
+  })
+
+  it('should reject loopback hosts in production', async () => {
+    vi.stubEnv('NODE_ENV', 'production')
+    mockLookup.mockResolvedValue([{ address: '127.0.0.1', family: 4 }])
+
+    await expect(assertPublicWebhookUrl('http://localhost:4000/hooks')).rejects.toThrow('The URL must use HTTPS')
+    await expect(assertPublicWebhookUrl('https://localhost/hooks')).rejects.toThrow(
+      'The URL must point to a public address',
+    )
+  })
+})
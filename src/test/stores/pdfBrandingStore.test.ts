@@ -71,6 +71,7 @@ describe('pdfBrandingStore', () => {
         includeHouses: true,
         includePlanets: true,
         includeRelationshipScore: true,
+        includeVedicCharts: true,
       })
     })
   })
@@ -414,6 +414,27 @@ export interface DualChartData extends BaseChartData {
  */
 export type ContextChartData = SingleChartData | DualChartData
 
+/**
+ * One ring of a multi-wheel chart
+ */
+export interface ChartRing {
+  /** Ring label, e.g. "Natal", "Progressed" or "Transits" */
+  label: string
+  subject: EnrichedSubjectModel
+}
+
+/**
+ * Aspects between two rings of a multi-wheel chart.
+ * Points of the inner ring are p1, points of the outer ring p2.
+ */
+export interface ChartRingAspects {
+  /** Index of the inner ring */
+  inner: number
+  /** Index of the outer ring */
+  outer: number
+  aspects: Aspect[]
+}
+
 /**
  * Complete chart data including all calculations and metadata.
  *
@@ -461,6 +482,10 @@ export interface ChartData {
   second_subject?: EnrichedSubjectModel
   /** House comparison data for dual charts */
   house_comparison?: HouseComparison
+  /** Rings of multi-wheel charts, innermost (natal) first */
+  rings?: ChartRing[]
+  /** Aspects between every pair of rings of multi-wheel charts */
+  ring_aspects?: ChartRingAspects[]
 }
 
 /**
@@ -26,3 +26,17 @@ export interface AuthState {
   isAuthenticated: boolean
   isLoading: boolean
 }
+
+/**
+ * Signed-in browser or device, as listed in the account settings
+ */
+export interface UserSessionSummary {
+  id: string
+  /** Browser and platform, e.g. "Chrome on macOS" */
+  device: string
+  ipAddress: string
+  createdAt: Date
+  lastActiveAt: Date
+  /** Whether this is the session of the browser making the request */
+  current: boolean
+}
@@ -74,6 +74,50 @@ export interface LunarReturnParams {
   returnLocation?: ChartLocation
 }
 
+/**
+ * Parameters for a saved secondary progressions, solar arc or progressed lunation chart.
+ * All three are recalculated from the natal subject and the date they were progressed to.
+ */
+export interface ProgressionParams {
+  type: 'progressions' | 'solar-arc' | 'progressed-lunation'
+  subjectId: string
+  targetDate: string // ISO datetime the chart is progressed/directed to
+}
+
+/**
+ * Source of an outer ring of a multi-wheel chart. The inner ring is always the natal chart.
+ */
+export type MultiWheelRingSource =
+  | { type: 'subject'; subjectId: string }
+  | { type: 'transit'; date: string } // ISO datetime of the transits, cast at the natal location
+  | { type: 'progressions' | 'solar-arc'; targetDate: string } // ISO datetime progressed/directed to
+  | { type: 'solar-return'; year: number }
+  | { type: 'lunar-return'; year: number; month: number } // first lunar return in the month
+
+/**
+ * Parameters for a saved multi-wheel (tri- or quad-wheel) chart
+ */
+export interface MultiWheelParams {
+  type: 'multi-wheel'
+  subjectId: string
+  /** Outer rings, from the ring next to the natal chart outwards */
+  rings: MultiWheelRingSource[]
+}
+
+/**
+ * Parameters for a saved horary chart, cast for the moment and place a question was asked
+ */
+export interface HoraryParams {
+  type: 'horary'
+  question: string
+  datetime: string // ISO datetime the question was asked
+  location: ChartLocation
+  /** House of the querent, usually the 1st */
+  querentHouse: number
+  /** House of the matter asked about */
+  quesitedHouse: number
+}
+
 /**
  * Union type of all saved chart parameter types
  */
@@ -84,3 +128,6 @@ export type SavedChartParams =
   | CompositeParams
   | SolarReturnParams
   | LunarReturnParams
+  | ProgressionParams
+  | MultiWheelParams
+  | HoraryParams
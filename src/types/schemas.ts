@@ -35,6 +35,7 @@ export const SubjectSchema = z.object({
   timezone: z.string(),
   rodens_rating: rodens_rating.optional().nullable(),
   tags: z.array(z.string()).optional().nullable(),
+  groupIds: z.array(z.string()).optional(),
   notes: z.string().optional().nullable(),
   ownerId: z.string().optional(),
   createdAt: z.date().optional(),
@@ -10,4 +10,20 @@ export type {
   UpdateSubjectInput,
   CreateSubjectFormInput,
   CreateSubjectInput,
-} from '@/lib/validation/subject'
\ No newline at end of file
+  SubjectGroupInput,
+} from '@/lib/validation/subject'
+
+/** Tag owned by a user, with the number of subjects it is attached to */
+export interface SubjectTag {
+  id: string
+  name: string
+  subjectCount: number
+}
+
+/** Named folder of subjects, with the number of member subjects */
+export interface SubjectGroup {
+  id: string
+  name: string
+  description: string | null
+  subjectCount: number
+}